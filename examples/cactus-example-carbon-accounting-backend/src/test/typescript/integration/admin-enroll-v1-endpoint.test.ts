@@ -81,6 +81,8 @@ test.skip(testCase, async (t: Test) => {
     unprotectedEndpointExemptions: [],
     expressJwtOptions,
     socketIoJwtOptions,
+    // the endpoints of the business logic plugin do not declare scopes
+    operationAuthzPolicy: { requireScopes: false },
   };
 
   const configService = new ConfigService();
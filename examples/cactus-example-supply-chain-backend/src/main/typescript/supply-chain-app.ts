@@ -191,6 +191,8 @@ export class SupplyChainApp {
       socketIoJwtOptions: {
         secret: jwtPrivateKeyPem,
       },
+      // the endpoints of the business logic plugin do not declare scopes
+      operationAuthzPolicy: { requireScopes: false },
     };
   }
 
@@ -0,0 +1,113 @@
+import { createHash } from "crypto";
+import { keccak256 } from "web3-utils";
+
+export enum HtlcStatus {
+  Unknown = "UNKNOWN",
+  Active = "ACTIVE",
+  Refunded = "REFUNDED",
+  Withdrawn = "WITHDRAWN",
+  Expired = "EXPIRED",
+}
+
+// the hash of the secret must be computed the same way on both ledgers of a
+// swap, otherwise revealing it on one does not unlock the other
+export type HtlcHashAlgorithm = "keccak256" | "sha256";
+
+export interface IHtlcLockRequest {
+  // hash of the secret, 0x prefixed hex
+  hashLock: string;
+  // unix timestamp, in seconds
+  expiration: number;
+  // ledger specific identity of the party that can withdraw
+  receiver: string;
+  // in the smallest unit of the asset
+  amount: string;
+  // asset or token locked, for ledgers where it is not implied by the HTLC
+  assetId?: string;
+}
+
+// an HTLC as it is on its ledger
+export interface IHtlc extends IHtlcLockRequest {
+  htlcId: string;
+  // ledger specific identity of the party that locked it
+  sender: string;
+  status: HtlcStatus;
+}
+
+/**
+ * Common interface of the HTLC plugins a swap can be coordinated across.
+ * Implementations lock, withdraw and refund with the credentials of the party
+ * running the coordinator on their ledger.
+ */
+export interface IHtlcLedgerPlugin {
+  readonly hashAlgorithm: HtlcHashAlgorithm;
+
+  // identity of the party running the coordinator, in the format of the
+  // receivers of the HTLCs returned by getHtlc
+  readonly account: string;
+
+  // returns the id of the new HTLC
+  lock(request: IHtlcLockRequest): Promise<string>;
+
+  getStatus(htlcId: string): Promise<HtlcStatus>;
+
+  // the terms of the HTLC, undefined if there is none with that id
+  getHtlc(htlcId: string): Promise<IHtlc | undefined>;
+
+  // the id of an HTLC locked by sender (by us when not given) with these
+  // terms, undefined if there is none; recovers an HTLC whose id was lost
+  // when the coordinator stopped, and finds the one the counterparty locked
+  findHtlc(
+    request: IHtlcLockRequest,
+    sender?: string,
+  ): Promise<string | undefined>;
+
+  withdraw(htlcId: string, secret: string): Promise<void>;
+
+  refund(htlcId: string): Promise<void>;
+
+  // the secret the HTLC was withdrawn with, undefined until it is withdrawn
+  getRevealedSecret(htlcId: string): Promise<string | undefined>;
+}
+
+export function hashSecret(
+  secret: string,
+  algorithm: HtlcHashAlgorithm,
+): string {
+  const hex = secret.startsWith("0x") ? secret : `0x${secret}`;
+  switch (algorithm) {
+    case "keccak256":
+      // same as keccak256(abi.encode(secret)) for a bytes32 secret
+      return keccak256(hex);
+    case "sha256":
+      return (
+        "0x" +
+        createHash("sha256")
+          .update(Buffer.from(hex.slice(2), "hex"))
+          .digest("hex")
+      );
+    default:
+      throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+  }
+}
+
+// accepts the status names, as well as the numeric codes of the EVM
+// HashTimeLock contracts
+export function parseHtlcStatus(output: unknown): HtlcStatus {
+  const codes: Record<string, HtlcStatus> = {
+    "0": HtlcStatus.Unknown,
+    "1": HtlcStatus.Active,
+    "2": HtlcStatus.Refunded,
+    "3": HtlcStatus.Withdrawn,
+    "4": HtlcStatus.Expired,
+  };
+  const value = String(output).trim().toUpperCase();
+  if (codes[value] != undefined) {
+    return codes[value];
+  }
+  const status = Object.values(HtlcStatus).find((s) => s === value);
+  if (status == undefined) {
+    throw new Error(`Unrecognized HTLC status: ${output}`);
+  }
+  return status;
+}
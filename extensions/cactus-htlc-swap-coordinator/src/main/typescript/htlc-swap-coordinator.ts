@@ -0,0 +1,591 @@
+import { randomBytes } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import {
+  Checks,
+  Logger,
+  LoggerProvider,
+  LogLevelDesc,
+} from "@hyperledger/cactus-common";
+import {
+  hashSecret,
+  HtlcStatus,
+  IHtlc,
+  IHtlcLedgerPlugin,
+  IHtlcLockRequest,
+} from "./htlc-ledger-plugin";
+import {
+  isFinalSwapState,
+  ISwapLock,
+  ISwapRecord,
+  ISwapStore,
+  SwapRole,
+  SwapState,
+} from "./swap-store";
+
+export interface IHtlcSwapCoordinatorOptions {
+  logLevel?: LogLevelDesc;
+  // where the state of the swaps is kept, it must outlive the coordinator for
+  // the swaps to be resumed after a restart
+  swapStore: ISwapStore;
+  // how often pending swaps are checked once started, in milliseconds
+  pollIntervalMs?: number;
+  // time, in seconds, the HTLC of the initiator must outlive the one of the
+  // participant, and an HTLC must still have to run when it is withdrawn;
+  // an hour by default
+  expirationMargin?: number;
+}
+
+export interface IInitiateSwapRequest {
+  swapId?: string;
+  ownLedgerId: string;
+  counterpartyLedgerId: string;
+  amount: string;
+  // identity of the counterparty on our ledger
+  receiver: string;
+  assetId?: string;
+  // unix timestamp, in seconds, of our HTLC
+  expiration: number;
+  // what the counterparty's HTLC must lock for us
+  counterpartyAmount: string;
+  counterpartyAssetId?: string;
+  // unix timestamp, in seconds, the counterparty's HTLC is expected to expire
+  // at, before ours so that they have time to withdraw after we do
+  counterpartyExpiration: number;
+  // identity of the counterparty on its ledger, that locks its HTLC with the
+  // terms above, where the coordinator looks for it
+  counterpartySender: string;
+  // 32 bytes, 0x prefixed hex; a random one is generated when not given
+  secret?: string;
+}
+
+export interface IParticipateSwapRequest {
+  swapId?: string;
+  ownLedgerId: string;
+  counterpartyLedgerId: string;
+  // the HTLC the initiator locked, and the hash lock it was locked with
+  counterpartyHtlcId: string;
+  hashLock: string;
+  amount: string;
+  // identity of the initiator on our ledger
+  receiver: string;
+  assetId?: string;
+  // unix timestamp, in seconds, of our HTLC, before the counterparty's
+  expiration: number;
+  // what the initiator's HTLC must lock for us
+  counterpartyAmount: string;
+  counterpartyAssetId?: string;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// amounts are integers in the smallest unit of the asset, in decimal
+function isAmount(amount: string): boolean {
+  return typeof amount == "string" && /^[0-9]+$/.test(amount);
+}
+
+/**
+ * Coordinates atomic swaps between HTLCs on two ledgers, of any kind with an
+ * `IHtlcLedgerPlugin`. Each party runs a coordinator: the initiator locks
+ * first with the hash of a secret only it knows, the participant locks on
+ * the other ledger with the same hash, and the initiator withdraws it,
+ * revealing the secret the participant then withdraws with. Each party only
+ * goes on once the HTLC of the other one locks what was agreed for it.
+ *
+ * Once started, the coordinator watches the pending swaps: it withdraws as
+ * soon as the secret is known, and refunds our HTLC once it expires if the
+ * swap did not complete. The state of the swaps is persisted at every step,
+ * so that they are resumed after a restart.
+ */
+export class HtlcSwapCoordinator {
+  public static readonly CLASS_NAME = "HtlcSwapCoordinator";
+
+  private readonly log: Logger;
+  private readonly ledgers = new Map<string, IHtlcLedgerPlugin>();
+  private readonly swapStore: ISwapStore;
+  private readonly pollIntervalMs: number;
+  private readonly expirationMargin: number;
+  private timer: NodeJS.Timeout | undefined;
+  private checking = false;
+  // swaps whose HTLC is being locked, left alone by the checks until the id
+  // of the HTLC is recorded
+  private readonly locking = new Set<string>();
+
+  public get className(): string {
+    return HtlcSwapCoordinator.CLASS_NAME;
+  }
+
+  constructor(public readonly options: IHtlcSwapCoordinatorOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+    Checks.truthy(options.swapStore, `${fnTag} options.swapStore`);
+    const level = options.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+    this.swapStore = options.swapStore;
+    this.pollIntervalMs = options.pollIntervalMs ?? 15000;
+    this.expirationMargin = options.expirationMargin ?? 3600;
+  }
+
+  public addLedger(ledgerId: string, plugin: IHtlcLedgerPlugin): void {
+    if (this.ledgers.has(ledgerId)) {
+      throw new Error(`Ledger ${ledgerId} already exists.`);
+    }
+    this.ledgers.set(ledgerId, plugin);
+  }
+
+  public getLedgers(): string[] {
+    return Array.from(this.ledgers.keys());
+  }
+
+  public async getSwap(swapId: string): Promise<ISwapRecord> {
+    const record = await this.swapStore.getById(swapId);
+    if (record == undefined) {
+      throw new Error(`Swap ${swapId} not found`);
+    }
+    return record;
+  }
+
+  public async initiateSwap(
+    request: IInitiateSwapRequest,
+  ): Promise<ISwapRecord> {
+    const fnTag = `${this.className}#initiateSwap()`;
+    Checks.truthy(request, `${fnTag} request`);
+    Checks.nonBlankString(
+      request.counterpartySender,
+      `${fnTag} request.counterpartySender`,
+    );
+    const own = this.getLedger(request.ownLedgerId);
+    const counterparty = this.getLedger(request.counterpartyLedgerId);
+    this.checkHashAlgorithms(fnTag, request);
+    this.checkAmounts(fnTag, request);
+    if (
+      request.expiration <
+      request.counterpartyExpiration + this.expirationMargin
+    ) {
+      throw new Error(
+        `${fnTag} our HTLC must expire after the counterparty's HTLC, by ` +
+          `at least ${this.expirationMargin}s`,
+      );
+    }
+    if (request.counterpartyExpiration <= now()) {
+      throw new Error(`${fnTag} the counterparty's HTLC would be expired`);
+    }
+    const secret = request.secret ?? "0x" + randomBytes(32).toString("hex");
+    const record: ISwapRecord = {
+      swapId: request.swapId ?? uuidv4(),
+      role: SwapRole.Initiator,
+      state: SwapState.Initiated,
+      hashLock: hashSecret(secret, own.hashAlgorithm),
+      secret,
+      own: {
+        ledgerId: request.ownLedgerId,
+        expiration: request.expiration,
+        amount: request.amount,
+        receiver: request.receiver,
+        assetId: request.assetId,
+      },
+      counterparty: {
+        ledgerId: request.counterpartyLedgerId,
+        expiration: request.counterpartyExpiration,
+        amount: request.counterpartyAmount,
+        receiver: counterparty.account,
+        sender: request.counterpartySender,
+        assetId: request.counterpartyAssetId,
+      },
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    await this.lockOwn(record, SwapState.OwnLocked);
+    return record;
+  }
+
+  // the initiator registers the HTLC the participant locked, and withdraws
+  // it; only needed when the HTLC was not locked with the expected terms,
+  // otherwise the checks of the swap find it on the counterparty's ledger
+  public async registerCounterpartyLock(
+    swapId: string,
+    htlcId: string,
+  ): Promise<ISwapRecord> {
+    const fnTag = `${this.className}#registerCounterpartyLock()`;
+    const record = await this.getSwap(swapId);
+    if (record.state != SwapState.OwnLocked) {
+      throw new Error(`${fnTag} swap ${swapId} is ${record.state}`);
+    }
+    await this.acceptCounterpartyLock(fnTag, record, htlcId);
+    return this.checkSwap(swapId);
+  }
+
+  public async participateSwap(
+    request: IParticipateSwapRequest,
+  ): Promise<ISwapRecord> {
+    const fnTag = `${this.className}#participateSwap()`;
+    Checks.truthy(request, `${fnTag} request`);
+    Checks.nonBlankString(request.hashLock, `${fnTag} request.hashLock`);
+    this.checkHashAlgorithms(fnTag, request);
+    this.checkAmounts(fnTag, request);
+    if (request.expiration <= now()) {
+      throw new Error(`${fnTag} our HTLC would be expired`);
+    }
+    const counterpartyTerms = {
+      ledgerId: request.counterpartyLedgerId,
+      htlcId: request.counterpartyHtlcId,
+      amount: request.counterpartyAmount,
+      receiver: this.getLedger(request.counterpartyLedgerId).account,
+      assetId: request.counterpartyAssetId,
+    };
+    // nothing is locked against an HTLC that could not pay us, or that the
+    // initiator could refund before we withdraw it with the secret
+    const htlc = await this.checkCounterpartyHtlc(
+      fnTag,
+      request.hashLock,
+      counterpartyTerms,
+      request.counterpartyHtlcId,
+    );
+    if (htlc.expiration < request.expiration + this.expirationMargin) {
+      throw new Error(
+        `${fnTag} HTLC ${request.counterpartyHtlcId} must expire after ` +
+          `ours, by at least ${this.expirationMargin}s`,
+      );
+    }
+    const record: ISwapRecord = {
+      swapId: request.swapId ?? uuidv4(),
+      role: SwapRole.Participant,
+      state: SwapState.Initiated,
+      hashLock: request.hashLock,
+      own: {
+        ledgerId: request.ownLedgerId,
+        expiration: request.expiration,
+        amount: request.amount,
+        receiver: request.receiver,
+        assetId: request.assetId,
+      },
+      counterparty: {
+        ...counterpartyTerms,
+        sender: htlc.sender,
+        expiration: htlc.expiration,
+      },
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    await this.lockOwn(record, SwapState.Locked);
+    return record;
+  }
+
+  /**
+   * Moves a swap forward from what is on both ledgers: records our HTLC if
+   * it was locked without its id being saved, looks for the counterparty's
+   * HTLC (for the initiator), withdraws it once the secret is known (revealed
+   * by the withdrawal of ours, for the participant), and refunds ours once it
+   * expired. Failures are recorded
+   * in the swap, and retried by the next check.
+   */
+  public async checkSwap(swapId: string): Promise<ISwapRecord> {
+    const record = await this.getSwap(swapId);
+    if (isFinalSwapState(record.state) || this.locking.has(swapId)) {
+      return record;
+    }
+    try {
+      await this.run(record, () => this.step(record));
+    } catch (ex: unknown) {
+      this.log.warn(`Swap ${swapId} could not move forward: ${ex}`);
+    }
+    return record;
+  }
+
+  public async checkSwaps(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+    try {
+      for (const record of await this.swapStore.getPending()) {
+        await this.checkSwap(record.swapId);
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  // watches the pending swaps, including those persisted before a restart
+  public start(): void {
+    if (this.timer != undefined) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.checkSwaps().catch((ex) =>
+        this.log.error(`Checking the pending swaps failed: ${ex}`),
+      );
+    }, this.pollIntervalMs);
+    this.checkSwaps().catch((ex) =>
+      this.log.error(`Checking the pending swaps failed: ${ex}`),
+    );
+  }
+
+  public stop(): void {
+    if (this.timer != undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async step(record: ISwapRecord): Promise<void> {
+    if (record.state == SwapState.Initiated) {
+      await this.recoverOwnLock(record);
+    }
+    if (isFinalSwapState(record.state)) {
+      return;
+    }
+    if (record.state == SwapState.OwnLocked) {
+      await this.findCounterpartyLock(record);
+    }
+    const own = this.getLedger(record.own.ledgerId);
+    const counterparty = this.getLedger(record.counterparty.ledgerId);
+    const ownHtlcId = record.own.htlcId;
+    const counterpartyHtlcId = record.counterparty.htlcId;
+
+    if (record.state == SwapState.Locked && counterpartyHtlcId) {
+      if (record.secret == undefined && ownHtlcId) {
+        const status = await own.getStatus(ownHtlcId);
+        if (status == HtlcStatus.Withdrawn) {
+          record.secret = await own.getRevealedSecret(ownHtlcId);
+          if (record.secret == undefined) {
+            throw new Error(`HTLC ${ownHtlcId} withdrawn, but no secret found`);
+          }
+          await this.save(record);
+          this.log.info(`Swap ${record.swapId}: secret revealed`);
+        }
+      }
+      if (record.secret != undefined) {
+        const status = await counterparty.getStatus(counterpartyHtlcId);
+        if (status == HtlcStatus.Active) {
+          await counterparty.withdraw(counterpartyHtlcId, record.secret);
+          await this.transition(record, SwapState.Withdrawn);
+          return;
+        }
+        if (status == HtlcStatus.Withdrawn) {
+          // withdrawn before a restart
+          await this.transition(record, SwapState.Withdrawn);
+          return;
+        }
+      }
+    }
+
+    if (ownHtlcId == undefined || now() < record.own.expiration) {
+      return;
+    }
+    const status = await own.getStatus(ownHtlcId);
+    if (status == HtlcStatus.Expired || status == HtlcStatus.Active) {
+      await own.refund(ownHtlcId);
+      await this.transition(record, SwapState.Refunded);
+    } else if (status == HtlcStatus.Refunded) {
+      await this.transition(record, SwapState.Refunded);
+    }
+  }
+
+  // the swap is saved before our HTLC is locked: if we stop before its id is
+  // recorded, the HTLC is found again from its terms by recoverOwnLock
+  private async lockOwn(record: ISwapRecord, state: SwapState): Promise<void> {
+    await this.swapStore.save(record);
+    this.locking.add(record.swapId);
+    try {
+      await this.run(record, async () => {
+        const own = this.getLedger(record.own.ledgerId);
+        record.own.htlcId = await own.lock(this.getOwnLockRequest(record));
+        await this.transition(record, state);
+      });
+    } finally {
+      this.locking.delete(record.swapId);
+    }
+  }
+
+  // a swap left INITIATED was stopped, or failed, while locking our HTLC
+  private async recoverOwnLock(record: ISwapRecord): Promise<void> {
+    const own = this.getLedger(record.own.ledgerId);
+    const htlcId = await own.findHtlc(this.getOwnLockRequest(record));
+    if (htlcId != undefined) {
+      record.own.htlcId = htlcId;
+      const locked =
+        record.role == SwapRole.Initiator
+          ? SwapState.OwnLocked
+          : SwapState.Locked;
+      await this.transition(record, locked);
+    } else if (now() >= record.own.expiration) {
+      // a lock still pending would be rejected by the ledger from now on
+      await this.transition(record, SwapState.Cancelled);
+    }
+  }
+
+  // the initiator looks for the HTLC the counterparty locks with the terms of
+  // the swap; one found that cannot be withdrawn in time is left alone, and
+  // ours is refunded once it expires
+  private async findCounterpartyLock(record: ISwapRecord): Promise<void> {
+    const fnTag = `${this.className}#findCounterpartyLock()`;
+    const { counterparty } = record;
+    if (counterparty.sender == undefined) {
+      return;
+    }
+    const htlcId = await this.getLedger(counterparty.ledgerId).findHtlc(
+      {
+        hashLock: record.hashLock,
+        expiration: counterparty.expiration,
+        receiver: counterparty.receiver,
+        amount: counterparty.amount,
+        assetId: counterparty.assetId,
+      },
+      counterparty.sender,
+    );
+    if (htlcId == undefined) {
+      return;
+    }
+    try {
+      await this.acceptCounterpartyLock(fnTag, record, htlcId);
+    } catch (ex: unknown) {
+      record.lastError = ex instanceof Error ? ex.message : `${ex}`;
+      await this.save(record);
+      this.log.warn(`Swap ${record.swapId}: ${record.lastError}`);
+    }
+  }
+
+  // we must still have time to withdraw the counterparty's HTLC once we know
+  // it is there
+  private async acceptCounterpartyLock(
+    fnTag: string,
+    record: ISwapRecord,
+    htlcId: string,
+  ): Promise<void> {
+    const htlc = await this.checkCounterpartyHtlc(
+      fnTag,
+      record.hashLock,
+      record.counterparty,
+      htlcId,
+    );
+    if (htlc.expiration < now() + this.expirationMargin) {
+      throw new Error(
+        `${fnTag} HTLC ${htlcId} expires in less than ` +
+          `${this.expirationMargin}s`,
+      );
+    }
+    record.counterparty.htlcId = htlcId;
+    record.counterparty.sender = htlc.sender;
+    record.counterparty.expiration = htlc.expiration;
+    await this.transition(record, SwapState.Locked);
+  }
+
+  private getOwnLockRequest(record: ISwapRecord): IHtlcLockRequest {
+    return {
+      hashLock: record.hashLock,
+      expiration: record.own.expiration,
+      receiver: record.own.receiver,
+      amount: record.own.amount,
+      assetId: record.own.assetId,
+    };
+  }
+
+  // rejects an HTLC of the counterparty that is not active, or does not lock
+  // what was agreed for us with the hash lock of the swap
+  private async checkCounterpartyHtlc(
+    fnTag: string,
+    hashLock: string,
+    terms: Omit<ISwapLock, "expiration">,
+    htlcId: string,
+  ): Promise<IHtlc> {
+    const htlc = await this.getLedger(terms.ledgerId).getHtlc(htlcId);
+    if (htlc == undefined || htlc.status != HtlcStatus.Active) {
+      const status = htlc?.status ?? HtlcStatus.Unknown;
+      throw new Error(`${fnTag} HTLC ${htlcId} is ${status}`);
+    }
+    const mismatches: string[] = [];
+    if (htlc.hashLock.toLowerCase() != hashLock.toLowerCase()) {
+      mismatches.push(`hash lock ${htlc.hashLock}`);
+    }
+    if (htlc.receiver != terms.receiver) {
+      mismatches.push(`receiver ${htlc.receiver}`);
+    }
+    // a malformed amount is a mismatch, rather than a failure to compare
+    if (
+      !isAmount(htlc.amount) ||
+      !isAmount(terms.amount) ||
+      BigInt(htlc.amount) != BigInt(terms.amount)
+    ) {
+      mismatches.push(`amount ${htlc.amount}`);
+    }
+    if (htlc.assetId != terms.assetId) {
+      mismatches.push(`asset ${htlc.assetId}`);
+    }
+    if (mismatches.length > 0) {
+      throw new Error(
+        `${fnTag} HTLC ${htlcId} does not match the swap: ` +
+          mismatches.join(", "),
+      );
+    }
+    return htlc;
+  }
+
+  // records the error of a failed step in the swap before rethrowing it
+  private async run(
+    record: ISwapRecord,
+    fn: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await fn();
+    } catch (ex: unknown) {
+      record.lastError = ex instanceof Error ? ex.message : `${ex}`;
+      await this.save(record);
+      throw ex;
+    }
+  }
+
+  private async transition(
+    record: ISwapRecord,
+    state: SwapState,
+  ): Promise<void> {
+    this.log.info(`Swap ${record.swapId}: ${record.state} -> ${state}`);
+    record.state = state;
+    record.lastError = undefined;
+    await this.save(record);
+  }
+
+  private async save(record: ISwapRecord): Promise<void> {
+    record.updatedAt = now();
+    await this.swapStore.save(record);
+  }
+
+  private getLedger(ledgerId: string): IHtlcLedgerPlugin {
+    const ledger = this.ledgers.get(ledgerId);
+    if (ledger == undefined) {
+      throw new Error(`Ledger ${ledgerId} not found`);
+    }
+    return ledger;
+  }
+
+  private checkAmounts(
+    fnTag: string,
+    request: { amount: string; counterpartyAmount: string },
+  ): void {
+    for (const field of ["amount", "counterpartyAmount"] as const) {
+      if (!isAmount(request[field])) {
+        throw new Error(
+          `${fnTag} request.${field} must be a non-negative integer, ` +
+            `in decimal, but is ${request[field]}`,
+        );
+      }
+    }
+  }
+
+  private checkHashAlgorithms(
+    fnTag: string,
+    request: { ownLedgerId: string; counterpartyLedgerId: string },
+  ): void {
+    const own = this.getLedger(request.ownLedgerId);
+    const counterparty = this.getLedger(request.counterpartyLedgerId);
+    if (own.hashAlgorithm != counterparty.hashAlgorithm) {
+      throw new Error(
+        `${fnTag} ${request.ownLedgerId} hashes secrets with ` +
+          `${own.hashAlgorithm}, and ${request.counterpartyLedgerId} with ` +
+          `${counterparty.hashAlgorithm}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import knex, { type Knex } from "knex";
+import { Checks } from "@hyperledger/cactus-common";
+import * as create_htlc_swaps_table from "./migrations/20261019150000_create_htlc_swaps_table";
+import {
+  isFinalSwapState,
+  ISwapRecord,
+  ISwapStore,
+  SwapState,
+} from "./swap-store";
+
+interface IKnexMigration {
+  up(knex: Readonly<Knex>): Promise<void>;
+  down(knex: Readonly<Knex>): Promise<void>;
+  getId(): Readonly<string>;
+}
+
+interface ISwapEntry {
+  swapId: string;
+  state: SwapState;
+  record: string;
+  updatedAt: number;
+}
+
+function createMigrationSource(): Knex.MigrationSource<string> {
+  const migrations = new Map<string, IKnexMigration>(
+    [create_htlc_swaps_table].map((m) => [m.getId(), m]),
+  );
+  return {
+    getMigrations: async () => Array.from(migrations.keys()),
+    getMigrationName: (migrationName) => migrationName,
+    getMigration: async (migrationName) => {
+      const aMigration = migrations.get(migrationName);
+      if (!aMigration) {
+        throw new Error("No such migration present: " + migrationName);
+      }
+      return aMigration;
+    },
+  };
+}
+
+/**
+ * Keeps the swaps in a database table, so that a coordinator resumes them
+ * after a restart. `migrate()` creates the table, and must be called before
+ * the coordinator uses the store.
+ */
+export class KnexSwapStore implements ISwapStore {
+  public static readonly CLASS_NAME = "KnexSwapStore";
+
+  readonly database: Knex;
+
+  public get className(): string {
+    return KnexSwapStore.CLASS_NAME;
+  }
+
+  public constructor(config: Knex.Config) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(config, `${fnTag} arg config`);
+    this.database = knex({
+      ...config,
+      migrations: { migrationSource: createMigrationSource() },
+    });
+  }
+
+  getSwapsTable(): Knex.QueryBuilder {
+    return this.database("htlc_swaps");
+  }
+
+  public async save(record: ISwapRecord): Promise<void> {
+    const entry: ISwapEntry = {
+      swapId: record.swapId,
+      state: record.state,
+      record: JSON.stringify(record),
+      updatedAt: record.updatedAt,
+    };
+    await this.getSwapsTable().insert(entry).onConflict("swapId").merge();
+  }
+
+  public async getById(swapId: string): Promise<ISwapRecord | undefined> {
+    const entry: ISwapEntry | undefined = await this.getSwapsTable()
+      .where({ swapId })
+      .first();
+    return entry ? JSON.parse(entry.record) : undefined;
+  }
+
+  public async getPending(): Promise<ISwapRecord[]> {
+    const finalStates = Object.values(SwapState).filter(isFinalSwapState);
+    const entries: ISwapEntry[] = await this.getSwapsTable()
+      .whereNotIn("state", finalStates)
+      .orderBy("updatedAt", "asc");
+    return entries.map((entry) => JSON.parse(entry.record));
+  }
+
+  async migrate(): Promise<void> {
+    await this.database.migrate.latest();
+  }
+
+  async reset(): Promise<void> {
+    await this.database.migrate.rollback();
+    await this.database.migrate.latest();
+  }
+
+  async destroy(): Promise<void> {
+    await this.database.destroy();
+  }
+}
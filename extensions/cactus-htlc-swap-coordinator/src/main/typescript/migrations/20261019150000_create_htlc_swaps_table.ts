@@ -0,0 +1,18 @@
+import { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("htlc_swaps", (table) => {
+    table.string("swapId").notNullable().primary();
+    table.string("state").notNullable().index();
+    table.text("record").notNullable();
+    table.bigInteger("updatedAt").notNullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable("htlc_swaps");
+}
+
+export function getId(): Readonly<string> {
+  return "20261019150000_create_htlc_swaps_table";
+}
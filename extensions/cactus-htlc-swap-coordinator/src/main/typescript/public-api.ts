@@ -0,0 +1,25 @@
+export {
+  hashSecret,
+  HtlcHashAlgorithm,
+  HtlcStatus,
+  IHtlc,
+  IHtlcLedgerPlugin,
+  IHtlcLockRequest,
+  parseHtlcStatus,
+} from "./htlc-ledger-plugin";
+export {
+  HtlcSwapCoordinator,
+  IHtlcSwapCoordinatorOptions,
+  IInitiateSwapRequest,
+  IParticipateSwapRequest,
+} from "./htlc-swap-coordinator";
+export {
+  InMemorySwapStore,
+  isFinalSwapState,
+  ISwapLock,
+  ISwapRecord,
+  ISwapStore,
+  SwapRole,
+  SwapState,
+} from "./swap-store";
+export { KnexSwapStore } from "./knex-swap-store";
@@ -0,0 +1,101 @@
+// INITIATED - OWN_LOCKED (initiator only) - LOCKED - WITHDRAWN
+// REFUNDED once our HTLC expired, from OWN_LOCKED or LOCKED
+// CANCELLED from INITIATED, if our HTLC was never locked before it expired
+export enum SwapState {
+  // recorded, nothing locked yet
+  Initiated = "INITIATED",
+  // our HTLC is locked, the counterparty's is not known yet
+  OwnLocked = "OWN_LOCKED",
+  // locked on both ledgers
+  Locked = "LOCKED",
+  // the counterparty's HTLC was withdrawn by us, final
+  Withdrawn = "WITHDRAWN",
+  // our HTLC was refunded after it expired, final
+  Refunded = "REFUNDED",
+  // our HTLC was never locked, and can no longer be, final
+  Cancelled = "CANCELLED",
+}
+
+export enum SwapRole {
+  // generates the secret and locks first
+  Initiator = "INITIATOR",
+  // locks after the initiator, with the same hash lock
+  Participant = "PARTICIPANT",
+}
+
+// the terms of the HTLC of one of the parties
+export interface ISwapLock {
+  ledgerId: string;
+  htlcId?: string;
+  // unix timestamp, in seconds
+  expiration: number;
+  // in the smallest unit of the asset
+  amount: string;
+  // identity, on that ledger, of the party that can withdraw
+  receiver: string;
+  // identity, on that ledger, of the party that locks; known in advance for
+  // the counterparty's HTLC of the initiator, which is looked for with it
+  sender?: string;
+  assetId?: string;
+}
+
+export interface ISwapRecord {
+  swapId: string;
+  role: SwapRole;
+  state: SwapState;
+  hashLock: string;
+  // known by the initiator from the start, and by the participant once the
+  // initiator withdraws
+  secret?: string;
+  own: ISwapLock;
+  counterparty: ISwapLock;
+  // error of the last step that failed, cleared by the next transition
+  lastError?: string;
+  // unix timestamps, in seconds
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Keeps the state of the swaps of a coordinator, so that they can be resumed
+ * (withdrawn or refunded) after a restart. A swap is saved before our HTLC
+ * is locked, so that it is found from its terms if the coordinator stops
+ * before recording its id.
+ */
+export interface ISwapStore {
+  save(record: ISwapRecord): Promise<void>;
+
+  getById(swapId: string): Promise<ISwapRecord | undefined>;
+
+  // swaps that are not in a final state
+  getPending(): Promise<ISwapRecord[]>;
+}
+
+export function isFinalSwapState(state: SwapState): boolean {
+  return (
+    state == SwapState.Withdrawn ||
+    state == SwapState.Refunded ||
+    state == SwapState.Cancelled
+  );
+}
+
+// swaps are lost when the process stops, for tests only: a coordinator needs
+// a durable store, such as KnexSwapStore, to refund its HTLCs after a restart
+export class InMemorySwapStore implements ISwapStore {
+  private readonly records = new Map<string, ISwapRecord>();
+
+  public async save(record: ISwapRecord): Promise<void> {
+    this.records.set(record.swapId, structuredClone(record));
+  }
+
+  public async getById(swapId: string): Promise<ISwapRecord | undefined> {
+    const record = this.records.get(swapId);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  public async getPending(): Promise<ISwapRecord[]> {
+    return Array.from(this.records.values())
+      .filter((record) => !isFinalSwapState(record.state))
+      .map((record) => structuredClone(record));
+  }
+}
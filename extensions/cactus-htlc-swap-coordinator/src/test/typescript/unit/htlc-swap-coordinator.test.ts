@@ -0,0 +1,496 @@
+import "jest-extended";
+import { v4 as uuidv4 } from "uuid";
+import {
+  hashSecret,
+  HtlcHashAlgorithm,
+  HtlcStatus,
+  HtlcSwapCoordinator,
+  IHtlc,
+  IHtlcLedgerPlugin,
+  IHtlcLockRequest,
+  InMemorySwapStore,
+  SwapRole,
+  SwapState,
+} from "../../../main/typescript/public-api";
+
+interface ITestHtlc extends IHtlc {
+  secret?: string;
+}
+
+// HTLCs kept in memory, with the rules of the HashTimeLock contract
+class TestHtlcLedger implements IHtlcLedgerPlugin {
+  constructor(
+    public readonly hashAlgorithm: HtlcHashAlgorithm,
+    public readonly account: string,
+    public readonly htlcs = new Map<string, ITestHtlc>(),
+  ) {}
+
+  // the same ledger, used by another party
+  public as(account: string): TestHtlcLedger {
+    return new TestHtlcLedger(this.hashAlgorithm, account, this.htlcs);
+  }
+
+  public async lock(request: IHtlcLockRequest): Promise<string> {
+    const htlcId = uuidv4();
+    this.htlcs.set(htlcId, {
+      ...request,
+      htlcId,
+      sender: this.account,
+      status: HtlcStatus.Active,
+    });
+    return htlcId;
+  }
+
+  public async getHtlc(htlcId: string): Promise<IHtlc | undefined> {
+    const htlc = this.htlcs.get(htlcId);
+    if (!htlc) {
+      return undefined;
+    }
+    return { ...htlc, status: await this.getStatus(htlcId) };
+  }
+
+  public async findHtlc(
+    request: IHtlcLockRequest,
+    sender = this.account,
+  ): Promise<string | undefined> {
+    return Array.from(this.htlcs.values()).find(
+      (htlc) =>
+        htlc.sender == sender &&
+        htlc.hashLock == request.hashLock &&
+        htlc.expiration == request.expiration &&
+        htlc.receiver == request.receiver &&
+        htlc.amount == request.amount,
+    )?.htlcId;
+  }
+
+  public async getStatus(htlcId: string): Promise<HtlcStatus> {
+    const htlc = this.htlcs.get(htlcId);
+    if (!htlc) {
+      return HtlcStatus.Unknown;
+    }
+    if (htlc.status == HtlcStatus.Active && htlc.expiration <= nowSeconds()) {
+      return HtlcStatus.Expired;
+    }
+    return htlc.status;
+  }
+
+  public async withdraw(htlcId: string, secret: string): Promise<void> {
+    const htlc = this.htlcs.get(htlcId) as ITestHtlc;
+    if ((await this.getStatus(htlcId)) != HtlcStatus.Active) {
+      throw new Error("SWAP_NOT_ACTIVE");
+    }
+    if (hashSecret(secret, this.hashAlgorithm) != htlc.hashLock) {
+      throw new Error("INVALID_SECRET");
+    }
+    htlc.status = HtlcStatus.Withdrawn;
+    htlc.secret = secret;
+  }
+
+  public async refund(htlcId: string): Promise<void> {
+    const htlc = this.htlcs.get(htlcId) as ITestHtlc;
+    if ((await this.getStatus(htlcId)) != HtlcStatus.Expired) {
+      throw new Error("INVALID_TIME");
+    }
+    htlc.status = HtlcStatus.Refunded;
+  }
+
+  public async getRevealedSecret(htlcId: string): Promise<string | undefined> {
+    return this.htlcs.get(htlcId)?.secret;
+  }
+}
+
+const start = Math.floor(Date.now() / 1000);
+let clock = start;
+function nowSeconds(): number {
+  return clock;
+}
+
+describe("HtlcSwapCoordinator", () => {
+  const logLevel = "INFO";
+  let evm: TestHtlcLedger;
+  let other: TestHtlcLedger;
+
+  // alice initiates, locking 10 on EVM for 5 on OTHER
+  const createAlice = (
+    swapStore = new InMemorySwapStore(),
+    aliceEvm = evm.as("alice-evm"),
+  ): HtlcSwapCoordinator => {
+    const alice = new HtlcSwapCoordinator({ logLevel, swapStore });
+    alice.addLedger("EVM", aliceEvm);
+    alice.addLedger("OTHER", other.as("alice-other"));
+    return alice;
+  };
+  const createBob = (
+    swapStore = new InMemorySwapStore(),
+  ): HtlcSwapCoordinator => {
+    const bob = new HtlcSwapCoordinator({ logLevel, swapStore });
+    bob.addLedger("EVM", evm.as("bob-evm"));
+    bob.addLedger("OTHER", other.as("bob-other"));
+    return bob;
+  };
+  const initiateRequest = {
+    ownLedgerId: "EVM",
+    counterpartyLedgerId: "OTHER",
+    amount: "10",
+    receiver: "bob-evm",
+    expiration: start + 7200,
+    counterpartyAmount: "5",
+    counterpartyExpiration: start + 3600,
+    counterpartySender: "bob-other",
+  };
+  const participateRequest = (
+    counterpartyHtlcId: string,
+    hashLock: string,
+  ) => ({
+    ownLedgerId: "OTHER",
+    counterpartyLedgerId: "EVM",
+    counterpartyHtlcId,
+    hashLock,
+    amount: "5",
+    receiver: "alice-other",
+    expiration: start + 3600,
+    counterpartyAmount: "10",
+  });
+
+  beforeEach(() => {
+    clock = start;
+    jest.spyOn(Date, "now").mockImplementation(() => clock * 1000);
+    evm = new TestHtlcLedger("keccak256", "");
+    other = new TestHtlcLedger("keccak256", "");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("swaps between two ledgers, resuming after a restart", async () => {
+    const alice = createAlice();
+    const bobStore = new InMemorySwapStore();
+    const bob = createBob(bobStore);
+
+    const initiated = await alice.initiateSwap(initiateRequest);
+    expect(initiated.role).toBe(SwapRole.Initiator);
+    expect(initiated.state).toBe(SwapState.OwnLocked);
+    expect(initiated.secret).toBeString();
+    expect(initiated.hashLock).toBe(
+      hashSecret(initiated.secret as string, "keccak256"),
+    );
+    expect(initiated.counterparty.receiver).toBe("alice-other");
+    const aliceHtlcId = initiated.own.htlcId as string;
+    expect(await evm.getStatus(aliceHtlcId)).toBe(HtlcStatus.Active);
+
+    const participated = await bob.participateSwap(
+      participateRequest(aliceHtlcId, initiated.hashLock),
+    );
+    expect(participated.state).toBe(SwapState.Locked);
+    expect(participated.secret).toBeUndefined();
+    expect(participated.counterparty.expiration).toBe(start + 7200);
+    const bobHtlcId = participated.own.htlcId as string;
+
+    //alice withdraws as soon as bob's HTLC is registered
+    const withdrawn = await alice.registerCounterpartyLock(
+      initiated.swapId,
+      bobHtlcId,
+    );
+    expect(withdrawn.state).toBe(SwapState.Withdrawn);
+    expect(await other.getStatus(bobHtlcId)).toBe(HtlcStatus.Withdrawn);
+
+    //a new coordinator, with the same store, resumes bob's swap
+    const bobRestarted = createBob(bobStore);
+    await bobRestarted.checkSwaps();
+
+    const completed = await bobRestarted.getSwap(participated.swapId);
+    expect(completed.state).toBe(SwapState.Withdrawn);
+    expect(completed.secret).toBe(initiated.secret);
+    expect(await evm.getStatus(aliceHtlcId)).toBe(HtlcStatus.Withdrawn);
+    expect(await bobStore.getPending()).toBeEmpty();
+  });
+
+  test("finds the counterparty's HTLC on its ledger", async () => {
+    const alice = createAlice();
+    const bob = createBob();
+    const initiated = await alice.initiateSwap(initiateRequest);
+    expect(initiated.counterparty.sender).toBe("bob-other");
+
+    //nothing to find yet, or only HTLCs with other terms
+    await alice.checkSwaps();
+    const otherAmount = await other.as("bob-other").lock({
+      hashLock: initiated.hashLock,
+      expiration: start + 3600,
+      receiver: "alice-other",
+      amount: "1",
+    });
+    await alice.checkSwaps();
+    expect((await alice.getSwap(initiated.swapId)).state).toBe(
+      SwapState.OwnLocked,
+    );
+
+    const participated = await bob.participateSwap(
+      participateRequest(initiated.own.htlcId as string, initiated.hashLock),
+    );
+    const bobHtlcId = participated.own.htlcId as string;
+
+    //alice withdraws bob's HTLC without being told about it
+    await alice.checkSwaps();
+    const withdrawn = await alice.getSwap(initiated.swapId);
+    expect(withdrawn.state).toBe(SwapState.Withdrawn);
+    expect(withdrawn.counterparty.htlcId).toBe(bobHtlcId);
+    expect(await other.getStatus(bobHtlcId)).toBe(HtlcStatus.Withdrawn);
+    expect(await other.getStatus(otherAmount)).toBe(HtlcStatus.Active);
+
+    await bob.checkSwaps();
+    expect((await bob.getSwap(participated.swapId)).state).toBe(
+      SwapState.Withdrawn,
+    );
+  });
+
+  test("leaves alone a counterparty's HTLC found too late", async () => {
+    const alice = createAlice();
+    const initiated = await alice.initiateSwap(initiateRequest);
+    const lateHtlcId = await other.as("bob-other").lock({
+      hashLock: initiated.hashLock,
+      expiration: start + 3600,
+      receiver: "alice-other",
+      amount: "5",
+    });
+
+    //bob could refund it before alice's withdrawal is mined
+    clock = start + 3000;
+    await alice.checkSwaps();
+    const late = await alice.getSwap(initiated.swapId);
+    expect(late.state).toBe(SwapState.OwnLocked);
+    expect(late.lastError).toContain("expires in less than");
+    expect(await other.getStatus(lateHtlcId)).toBe(HtlcStatus.Active);
+
+    clock = start + 7200;
+    await alice.checkSwaps();
+    expect((await alice.getSwap(initiated.swapId)).state).toBe(
+      SwapState.Refunded,
+    );
+  });
+
+  test("refunds an expired HTLC", async () => {
+    const alice = createAlice();
+    const initiated = await alice.initiateSwap(initiateRequest);
+
+    //not expired yet
+    await alice.checkSwaps();
+    expect((await alice.getSwap(initiated.swapId)).state).toBe(
+      SwapState.OwnLocked,
+    );
+
+    clock = start + 7200;
+    await alice.checkSwaps();
+    const refunded = await alice.getSwap(initiated.swapId);
+    expect(refunded.state).toBe(SwapState.Refunded);
+    expect(await evm.getStatus(initiated.own.htlcId as string)).toBe(
+      HtlcStatus.Refunded,
+    );
+  });
+
+  test("records the failures of a swap", async () => {
+    const bob = createBob();
+    const hashLock = hashSecret("0x01", "keccak256");
+    const aliceHtlcId = await evm.as("alice-evm").lock({
+      hashLock,
+      expiration: start + 7200,
+      receiver: "bob-evm",
+      amount: "10",
+    });
+    const participated = await bob.participateSwap(
+      participateRequest(aliceHtlcId, hashLock),
+    );
+
+    //withdrawn without revealing the secret
+    const bobHtlc = other.htlcs.get(participated.own.htlcId as string);
+    (bobHtlc as ITestHtlc).status = HtlcStatus.Withdrawn;
+    await bob.checkSwaps();
+    const stuck = await bob.getSwap(participated.swapId);
+    expect(stuck.state).toBe(SwapState.Locked);
+    expect(stuck.lastError).toContain("no secret found");
+  });
+
+  test("rejects swaps that cannot be atomic", async () => {
+    const coordinator = createAlice();
+    coordinator.addLedger("SHA256", new TestHtlcLedger("sha256", "alice"));
+
+    await expect(
+      coordinator.initiateSwap({
+        ...initiateRequest,
+        counterpartyLedgerId: "SHA256",
+      }),
+    ).rejects.toThrow("hashes secrets with");
+
+    //the counterparty must have time to withdraw after the initiator
+    await expect(
+      coordinator.initiateSwap({
+        ...initiateRequest,
+        expiration: start + 3600,
+        counterpartyExpiration: start + 7200,
+      }),
+    ).rejects.toThrow("must expire after");
+    await expect(
+      coordinator.initiateSwap({
+        ...initiateRequest,
+        expiration: start + 5400,
+      }),
+    ).rejects.toThrow("must expire after");
+    await expect(
+      createBob().participateSwap(participateRequest("unknown", "0x01")),
+    ).rejects.toThrow("is UNKNOWN");
+
+    //amounts are integers in the smallest unit of the asset
+    await expect(
+      coordinator.initiateSwap({ ...initiateRequest, amount: "1e3" }),
+    ).rejects.toThrow("request.amount must be a non-negative integer");
+    await expect(
+      createBob().participateSwap({
+        ...participateRequest("unknown", "0x01"),
+        counterpartyAmount: "-10",
+      }),
+    ).rejects.toThrow("request.counterpartyAmount must be");
+    expect(evm.htlcs.size).toBe(0);
+  });
+
+  test("locks nothing against an HTLC that does not match the swap", async () => {
+    const bob = createBob();
+    const hashLock = hashSecret("0x01", "keccak256");
+    const lockForBob = (terms: Partial<IHtlcLockRequest>) =>
+      evm.as("alice-evm").lock({
+        hashLock,
+        expiration: start + 7200,
+        receiver: "bob-evm",
+        amount: "10",
+        ...terms,
+      });
+
+    const otherHashLock = await lockForBob({
+      hashLock: hashSecret("0x02", "keccak256"),
+    });
+    await expect(
+      bob.participateSwap(participateRequest(otherHashLock, hashLock)),
+    ).rejects.toThrow("does not match the swap: hash lock");
+
+    const lessAmount = await lockForBob({ amount: "1" });
+    await expect(
+      bob.participateSwap(participateRequest(lessAmount, hashLock)),
+    ).rejects.toThrow("does not match the swap: amount 1");
+
+    const otherReceiver = await lockForBob({ receiver: "mallory-evm" });
+    await expect(
+      bob.participateSwap(participateRequest(otherReceiver, hashLock)),
+    ).rejects.toThrow("does not match the swap: receiver mallory-evm");
+
+    const decimalAmount = await lockForBob({ amount: "10.0" });
+    await expect(
+      bob.participateSwap(participateRequest(decimalAmount, hashLock)),
+    ).rejects.toThrow("does not match the swap: amount 10.0");
+
+    const otherAsset = await lockForBob({ assetId: "worthless" });
+    await expect(
+      bob.participateSwap(participateRequest(otherAsset, hashLock)),
+    ).rejects.toThrow("does not match the swap: asset worthless");
+
+    //alice could refund it as soon as she withdraws bob's HTLC
+    const earlyExpiration = await lockForBob({ expiration: start + 3600 });
+    await expect(
+      bob.participateSwap(participateRequest(earlyExpiration, hashLock)),
+    ).rejects.toThrow("must expire after ours");
+
+    expect(other.htlcs.size).toBe(0);
+  });
+
+  test("only withdraws an HTLC that matches the swap", async () => {
+    const alice = createAlice();
+    const initiated = await alice.initiateSwap(initiateRequest);
+
+    const lessAmount = await other.as("bob-other").lock({
+      hashLock: initiated.hashLock,
+      expiration: start + 3600,
+      receiver: "alice-other",
+      amount: "1",
+    });
+    await expect(
+      alice.registerCounterpartyLock(initiated.swapId, lessAmount),
+    ).rejects.toThrow("does not match the swap: amount 1");
+
+    //expires before alice could withdraw it
+    const expiringSoon = await other.as("bob-other").lock({
+      hashLock: initiated.hashLock,
+      expiration: start + 60,
+      receiver: "alice-other",
+      amount: "5",
+    });
+    await expect(
+      alice.registerCounterpartyLock(initiated.swapId, expiringSoon),
+    ).rejects.toThrow("expires in less than");
+
+    expect((await alice.getSwap(initiated.swapId)).state).toBe(
+      SwapState.OwnLocked,
+    );
+    expect(await other.getStatus(lessAmount)).toBe(HtlcStatus.Active);
+  });
+
+  test("recovers an HTLC locked before the coordinator stopped", async () => {
+    const aliceStore = new InMemorySwapStore();
+    // the HTLC is locked, but its id never gets back to the coordinator
+    const crashingEvm = evm.as("alice-evm");
+    jest.spyOn(crashingEvm, "lock").mockImplementation(async (request) => {
+      await evm.as("alice-evm").lock(request);
+      throw new Error("connection lost");
+    });
+    await expect(
+      createAlice(aliceStore, crashingEvm).initiateSwap({
+        ...initiateRequest,
+        swapId: "swap-1",
+      }),
+    ).rejects.toThrow("connection lost");
+    const interrupted = await aliceStore.getById("swap-1");
+    expect(interrupted?.state).toBe(SwapState.Initiated);
+    expect(interrupted?.own.htlcId).toBeUndefined();
+    expect(interrupted?.lastError).toBe("connection lost");
+
+    const aliceRestarted = createAlice(aliceStore);
+    await aliceRestarted.checkSwaps();
+    const recovered = await aliceRestarted.getSwap("swap-1");
+    expect(recovered.state).toBe(SwapState.OwnLocked);
+    expect(evm.htlcs.get(recovered.own.htlcId as string)?.sender).toBe(
+      "alice-evm",
+    );
+
+    //and refunds it once it expired
+    clock = start + 7200;
+    await aliceRestarted.checkSwaps();
+    expect((await aliceRestarted.getSwap("swap-1")).state).toBe(
+      SwapState.Refunded,
+    );
+  });
+
+  test("cancels a swap whose HTLC was never locked", async () => {
+    const aliceStore = new InMemorySwapStore();
+    const failingEvm = evm.as("alice-evm");
+    jest
+      .spyOn(failingEvm, "lock")
+      .mockRejectedValue(new Error("insufficient funds"));
+    await expect(
+      createAlice(aliceStore, failingEvm).initiateSwap({
+        ...initiateRequest,
+        swapId: "swap-1",
+      }),
+    ).rejects.toThrow("insufficient funds");
+
+    const aliceRestarted = createAlice(aliceStore);
+    await aliceRestarted.checkSwaps();
+    expect((await aliceRestarted.getSwap("swap-1")).state).toBe(
+      SwapState.Initiated,
+    );
+
+    clock = start + 7200;
+    await aliceRestarted.checkSwaps();
+    expect((await aliceRestarted.getSwap("swap-1")).state).toBe(
+      SwapState.Cancelled,
+    );
+    expect(await aliceStore.getPending()).toBeEmpty();
+    expect(evm.htlcs.size).toBe(0);
+  });
+});
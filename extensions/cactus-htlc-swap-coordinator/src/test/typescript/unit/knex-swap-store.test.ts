@@ -0,0 +1,93 @@
+import "jest-extended";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import type { Knex } from "knex";
+import {
+  ISwapRecord,
+  KnexSwapStore,
+  SwapRole,
+  SwapState,
+} from "../../../main/typescript/public-api";
+
+const filename = path.join(os.tmpdir(), `.htlc-swaps-${uuidv4()}.sqlite3`);
+const config: Knex.Config = {
+  client: "sqlite3",
+  connection: { filename },
+  useNullAsDefault: true,
+};
+
+const newRecord = (state: SwapState): ISwapRecord => ({
+  swapId: uuidv4(),
+  role: SwapRole.Participant,
+  state,
+  hashLock: "0x01",
+  own: {
+    ledgerId: "OTHER",
+    expiration: 3600,
+    amount: "5",
+    receiver: "alice-other",
+  },
+  counterparty: {
+    ledgerId: "EVM",
+    htlcId: "0x02",
+    expiration: 7200,
+    amount: "10",
+    receiver: "bob-evm",
+    assetId: "ETH",
+  },
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe("KnexSwapStore", () => {
+  let store: KnexSwapStore;
+
+  beforeAll(async () => {
+    store = new KnexSwapStore(config);
+    await store.migrate();
+  });
+
+  afterAll(async () => {
+    await store.destroy();
+    fs.rmSync(filename, { force: true });
+  });
+
+  beforeEach(async () => {
+    await store.reset();
+  });
+
+  test("saves the swaps and lists the pending ones", async () => {
+    const pending = newRecord(SwapState.Initiated);
+    const cancelled = newRecord(SwapState.Cancelled);
+    await store.save(pending);
+    await store.save(cancelled);
+
+    expect(await store.getById(pending.swapId)).toEqual(pending);
+    expect(await store.getById("unknown")).toBeUndefined();
+    expect(await store.getPending()).toEqual([pending]);
+
+    const locked = { ...pending, state: SwapState.Locked, updatedAt: 1 };
+    locked.own = { ...pending.own, htlcId: "0x03" };
+    await store.save(locked);
+    expect(await store.getById(pending.swapId)).toEqual(locked);
+    expect(await store.getPending()).toEqual([locked]);
+
+    await store.save({ ...locked, state: SwapState.Withdrawn });
+    expect(await store.getPending()).toBeEmpty();
+  });
+
+  test("keeps the swaps after the store is closed", async () => {
+    const record = newRecord(SwapState.OwnLocked);
+    await store.save(record);
+
+    const reopened = new KnexSwapStore(config);
+    try {
+      await reopened.migrate();
+      expect(await reopened.getPending()).toEqual([record]);
+    } finally {
+      await reopened.destroy();
+    }
+  });
+});
@@ -0,0 +1,217 @@
+import { keccak256 } from "web3-utils";
+import { encodeParameters } from "web3-eth-abi";
+import { Checks } from "@hyperledger/cactus-common";
+import {
+  HashTimeLockJson,
+  InvokeContractV1Response,
+  PluginHtlcEthBesu,
+} from "@hyperledger/cactus-plugin-htlc-eth-besu";
+import {
+  EthContractInvocationType,
+  EvmLog,
+  PluginLedgerConnectorBesu,
+  Web3SigningCredential,
+  Web3SigningCredentialPrivateKeyHex,
+} from "@hyperledger/cactus-plugin-ledger-connector-besu";
+import {
+  HtlcStatus,
+  IHtlc,
+  IHtlcLedgerPlugin,
+  IHtlcLockRequest,
+  parseHtlcStatus,
+} from "@hyperledger/cactus-htlc-swap-coordinator";
+
+const NEW_CONTRACT_TOPIC = keccak256(
+  "NewContract(uint256,uint256,uint256,bytes32,bytes32,address,address,string,string)",
+);
+const WITHDRAW_TOPIC = keccak256(
+  "Withdraw(bytes32,bytes32,bytes32,address,address)",
+);
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export interface IEvmHtlcLedgerPluginOptions {
+  htlcPlugin: PluginHtlcEthBesu;
+  connector: PluginLedgerConnectorBesu;
+  // address of the deployed HashTimeLock contract
+  contractAddress: string;
+  keychainId: string;
+  web3SigningCredential: Web3SigningCredential;
+  gas?: number;
+  // informative fields of the HashTimeLock contract
+  outputNetwork?: string;
+  outputAddress?: string;
+  // first block searched for the secret of withdrawn HTLCs
+  fromBlock?: number;
+}
+
+/**
+ * HTLCs in a HashTimeLock contract of an EVM ledger, created through
+ * `PluginHtlcEthBesu`. The secret is hashed with keccak256, so HTLCs on the
+ * other ledger of a swap must use it as well.
+ */
+export class EvmHtlcLedgerPlugin implements IHtlcLedgerPlugin {
+  public static readonly CLASS_NAME = "EvmHtlcLedgerPlugin";
+
+  public readonly hashAlgorithm = "keccak256";
+
+  public readonly account: string;
+
+  public get className(): string {
+    return EvmHtlcLedgerPlugin.CLASS_NAME;
+  }
+
+  constructor(public readonly options: IEvmHtlcLedgerPluginOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+    Checks.truthy(options.htlcPlugin, `${fnTag} options.htlcPlugin`);
+    Checks.truthy(options.connector, `${fnTag} options.connector`);
+    Checks.nonBlankString(
+      options.contractAddress,
+      `${fnTag} options.contractAddress`,
+    );
+    const { ethAccount } =
+      options.web3SigningCredential as Partial<Web3SigningCredentialPrivateKeyHex>;
+    Checks.nonBlankString(
+      ethAccount,
+      `${fnTag} options.web3SigningCredential.ethAccount`,
+    );
+    this.account = (ethAccount as string).toLowerCase();
+  }
+
+  public async lock(request: IHtlcLockRequest): Promise<string> {
+    const fnTag = `${this.className}#lock()`;
+    const res = await this.options.htlcPlugin.newContract({
+      contractAddress: this.options.contractAddress,
+      inputAmount: Number(request.amount),
+      outputAmount: Number(request.amount),
+      expiration: request.expiration,
+      hashLock: request.hashLock,
+      receiver: request.receiver,
+      outputNetwork: this.options.outputNetwork ?? "",
+      outputAddress: this.options.outputAddress ?? "",
+      connectorId: this.options.connector.getInstanceId(),
+      keychainId: this.options.keychainId,
+      web3SigningCredential: this.options.web3SigningCredential,
+      gas: this.options.gas,
+    });
+    this.checkSuccess(fnTag, res);
+    // the id is computed by the contract, and emitted in NewContract
+    const logs: EvmLog[] = res.transactionReceipt?.logs ?? [];
+    const log = logs.find(
+      (l) =>
+        l.address.toLowerCase() == this.options.contractAddress.toLowerCase() &&
+        l.topics[0] == NEW_CONTRACT_TOPIC,
+    );
+    if (log == undefined) {
+      throw new Error(`${fnTag} NewContract event not found in the receipt`);
+    }
+    return log.topics[1];
+  }
+
+  public async getStatus(htlcId: string): Promise<HtlcStatus> {
+    const fnTag = `${this.className}#getStatus()`;
+    const res = await this.options.htlcPlugin.getSingleStatus({
+      id: htlcId,
+      web3SigningCredential: this.options.web3SigningCredential,
+      connectorId: this.options.connector.getInstanceId(),
+      keychainId: this.options.keychainId,
+    });
+    this.checkSuccess(fnTag, res);
+    return parseHtlcStatus(res.callOutput);
+  }
+
+  public async getHtlc(htlcId: string): Promise<IHtlc | undefined> {
+    const fnTag = `${this.className}#getHtlc()`;
+    const res = await this.options.connector.invokeContract({
+      contractName: HashTimeLockJson.contractName,
+      signingCredential: this.options.web3SigningCredential,
+      invocationType: EthContractInvocationType.Call,
+      methodName: "contracts",
+      params: [htlcId],
+      keychainId: this.options.keychainId,
+    });
+    this.checkSuccess(fnTag, res);
+    const { inputAmount, expiration, hashLock, sender, receiver } =
+      res.callOutput;
+    // the contract returns an empty lock for the ids it does not know
+    if (sender == ZERO_ADDRESS) {
+      return undefined;
+    }
+    return {
+      htlcId,
+      hashLock,
+      expiration: Number(expiration),
+      sender: String(sender).toLowerCase(),
+      receiver: String(receiver).toLowerCase(),
+      amount: String(inputAmount),
+      // the status stored by the contract does not account for the expiration
+      status: await this.getStatus(htlcId),
+    };
+  }
+
+  public async findHtlc(
+    request: IHtlcLockRequest,
+    sender?: string,
+  ): Promise<string | undefined> {
+    // the contract derives the id from the sender and the terms, as in
+    // newContract
+    const htlcId = keccak256(
+      encodeParameters(
+        ["address", "address", "uint256", "bytes32", "uint256"],
+        [
+          sender ?? this.account,
+          request.receiver,
+          request.amount,
+          request.hashLock,
+          request.expiration,
+        ],
+      ),
+    );
+    return (await this.getHtlc(htlcId)) ? htlcId : undefined;
+  }
+
+  public async withdraw(htlcId: string, secret: string): Promise<void> {
+    const fnTag = `${this.className}#withdraw()`;
+    const res = await this.options.htlcPlugin.withdraw({
+      id: htlcId,
+      secret,
+      web3SigningCredential: this.options.web3SigningCredential,
+      connectorId: this.options.connector.getInstanceId(),
+      keychainId: this.options.keychainId,
+      gas: this.options.gas,
+    });
+    this.checkSuccess(fnTag, res);
+  }
+
+  public async refund(htlcId: string): Promise<void> {
+    const fnTag = `${this.className}#refund()`;
+    const res = await this.options.htlcPlugin.refund({
+      id: htlcId,
+      web3SigningCredential: this.options.web3SigningCredential,
+      connectorId: this.options.connector.getInstanceId(),
+      keychainId: this.options.keychainId,
+      gas: this.options.gas,
+    });
+    this.checkSuccess(fnTag, res);
+  }
+
+  public async getRevealedSecret(htlcId: string): Promise<string | undefined> {
+    const { logs } = await this.options.connector.getPastLogs({
+      address: this.options.contractAddress,
+      fromBlock: this.options.fromBlock ?? 0,
+      toBlock: "latest",
+      topics: [WITHDRAW_TOPIC, htlcId],
+    });
+    if (logs.length == 0) {
+      return undefined;
+    }
+    // the non indexed fields of Withdraw are the secret and the hash lock
+    return "0x" + logs[0].data.slice(2, 66);
+  }
+
+  private checkSuccess(fnTag: string, res: InvokeContractV1Response): void {
+    if (!res.success) {
+      throw new Error(`${fnTag} transaction failed: ${JSON.stringify(res)}`);
+    }
+  }
+}
@@ -6,6 +6,11 @@ export {
 } from "./plugin-htlc-coordinator-besu";
 
 export { PluginFactoryHTLCCoordinatorBesu } from "./plugin-factory-htlc-coordinator-besu";
+
+export {
+  EvmHtlcLedgerPlugin,
+  IEvmHtlcLedgerPluginOptions,
+} from "./multi-ledger/evm-htlc-ledger-plugin";
 import { PluginFactoryHTLCCoordinatorBesu } from "./plugin-factory-htlc-coordinator-besu";
 
 export * from "./generated/openapi/typescript-axios/index";
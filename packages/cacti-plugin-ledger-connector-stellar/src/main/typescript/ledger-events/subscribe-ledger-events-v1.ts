@@ -0,0 +1,292 @@
+import axios, { AxiosInstance } from "axios";
+
+import {
+  LoggerProvider,
+  LogLevelDesc,
+  safeStringifyException,
+} from "@hyperledger/cactus-common";
+import {
+  ILedgerEventSubscriptionV1,
+  LedgerEventSubscriptionOptionsV1,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import {
+  compareLedgerEventCursorsV1,
+  LedgerEventSubscriptionV1,
+} from "@hyperledger/cactus-core";
+
+const DEFAULT_POLL_INTERVAL_MS = 1000 * 5; // 5 seconds
+const HORIZON_PAGE_SIZE = 200;
+const SOROBAN_EVENTS_PAGE_SIZE = 100;
+// getEvents accepts up to 5 contract IDs per filter
+const SOROBAN_MAX_CONTRACT_IDS = 5;
+// XDR discriminant of the ScVal holding a symbol
+const SCV_SYMBOL = 15;
+
+export interface ISubscribeLedgerEventsV1Context {
+  readonly horizonUrl: string;
+  /**
+   * Soroban RPC endpoint, contract events are only reported if it is set.
+   */
+  readonly rpcUrl?: string;
+  readonly sourceId: string;
+  readonly logLevel?: LogLevelDesc;
+  readonly pollIntervalMs?: number;
+}
+
+interface IHorizonLedger {
+  sequence: number;
+  hash: string;
+  closed_at: string;
+}
+
+interface IHorizonTransaction {
+  hash: string;
+  paging_token: string;
+  successful: boolean;
+}
+
+interface ISorobanEvent {
+  type: string;
+  ledger: number;
+  contractId: string;
+  id: string;
+  pagingToken: string;
+  topic: string[];
+  value: string;
+  txHash: string;
+}
+
+/**
+ * Reports the ledgers (as blocks), transactions and Soroban contract events
+ * of the network as `LedgerEventV1`s by polling Horizon for closed ledgers
+ * and the Soroban RPC for the events emitted in them.
+ *
+ * The `topics` of a contract event are the base64 encoded XDR of its topic
+ * `ScVal`s, and when the first topic is a symbol (as with the events of the
+ * token interface) it is reported as the `eventName`.
+ * Transactions do not carry the contract they invoke, so the
+ * `contractAddresses` criterion of the filter only selects contract events.
+ */
+export async function subscribeLedgerEventsV1(
+  ctx: ISubscribeLedgerEventsV1Context,
+  options: LedgerEventSubscriptionOptionsV1,
+): Promise<ILedgerEventSubscriptionV1> {
+  const log = LoggerProvider.getOrCreate({
+    label: "subscribeLedgerEventsV1()",
+    level: ctx.logLevel || "INFO",
+  });
+  const horizon = axios.create({ baseURL: ctx.horizonUrl });
+  let timer: NodeJS.Timeout | undefined;
+  let wakeUp: (() => void) | undefined;
+  const subscription = new LedgerEventSubscriptionV1({
+    logLevel: ctx.logLevel,
+    subscriptionOptions: options,
+    onUnsubscribe: () => {
+      clearTimeout(timer);
+      wakeUp?.();
+    },
+  });
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      wakeUp = resolve;
+      timer = setTimeout(resolve, ms);
+    });
+  const getLatestLedger = async () => {
+    const res = await horizon.get("/ledgers", {
+      params: { order: "desc", limit: 1 },
+    });
+    const [latest] = res.data._embedded.records as IHorizonLedger[];
+    return latest.sequence;
+  };
+
+  const latestLedger = await getLatestLedger();
+  let ledgerSequence = subscription.getStartBlock(latestLedger + 1);
+  log.debug("Reporting ledger events from ledger %d", ledgerSequence);
+
+  const pump = async () => {
+    let latest = latestLedger;
+    while (!subscription.isClosed()) {
+      if (ledgerSequence > latest) {
+        await sleep(ctx.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+        latest = await getLatestLedger();
+        continue;
+      }
+      const events = await readLedgerEvents(
+        ctx,
+        horizon,
+        ledgerSequence,
+        options,
+      );
+      for (const event of events) {
+        if (!(await subscription.push(event))) {
+          return;
+        }
+      }
+      ledgerSequence++;
+    }
+  };
+  pump().catch((ex: unknown) => {
+    if (subscription.isClosed()) {
+      return;
+    }
+    log.warn("Reading ledger %d failed: %s", ledgerSequence, ex);
+    subscription.close(new Error(safeStringifyException(ex)));
+  });
+
+  return subscription;
+}
+
+async function readLedgerEvents(
+  ctx: ISubscribeLedgerEventsV1Context,
+  horizon: AxiosInstance,
+  blockNumber: number,
+  options: LedgerEventSubscriptionOptionsV1,
+): Promise<LedgerEventV1[]> {
+  const { sourceId } = ctx;
+  const eventTypes = options.filter?.eventTypes;
+  const wants = (eventType: LedgerEventTypeV1) =>
+    !eventTypes || eventTypes.includes(eventType);
+  const wantsContractEvents =
+    !!ctx.rpcUrl && wants(LedgerEventTypeV1.ContractEvent);
+
+  const { data: ledger } = await horizon.get<IHorizonLedger>(
+    `/ledgers/${blockNumber}`,
+  );
+  const common = {
+    sourceId,
+    blockHash: ledger.hash,
+    timestamp: ledger.closed_at,
+  };
+
+  const events: LedgerEventV1[] = [];
+  if (wants(LedgerEventTypeV1.Block)) {
+    events.push({
+      ...common,
+      eventType: LedgerEventTypeV1.Block,
+      cursor: { blockNumber },
+      payload: ledger,
+    });
+  }
+  if (!wants(LedgerEventTypeV1.Transaction) && !wantsContractEvents) {
+    return events;
+  }
+
+  // the transactions are listed in the order they were applied in
+  const transactions: IHorizonTransaction[] = [];
+  for (let cursor: string | undefined; ; ) {
+    const res = await horizon.get(`/ledgers/${blockNumber}/transactions`, {
+      params: {
+        order: "asc",
+        limit: HORIZON_PAGE_SIZE,
+        include_failed: true,
+        cursor,
+      },
+    });
+    const records = res.data._embedded.records as IHorizonTransaction[];
+    transactions.push(...records);
+    if (records.length < HORIZON_PAGE_SIZE) {
+      break;
+    }
+    cursor = records[records.length - 1].paging_token;
+  }
+  if (wants(LedgerEventTypeV1.Transaction)) {
+    transactions.forEach((tx, transactionIndex) => {
+      events.push({
+        ...common,
+        eventType: LedgerEventTypeV1.Transaction,
+        cursor: { blockNumber, transactionIndex },
+        transactionId: tx.hash,
+        payload: tx,
+      });
+    });
+  }
+
+  if (wantsContractEvents) {
+    const transactionIndexes = new Map(
+      transactions.map((tx, index) => [tx.hash, index]),
+    );
+    const eventIndexes = new Map<string, number>();
+    const contractEvents = await getSorobanEvents(
+      ctx.rpcUrl as string,
+      blockNumber,
+      options.filter?.contractAddresses,
+    );
+    for (const contractEvent of contractEvents) {
+      const eventIndex = eventIndexes.get(contractEvent.txHash) ?? 0;
+      eventIndexes.set(contractEvent.txHash, eventIndex + 1);
+      events.push({
+        ...common,
+        eventType: LedgerEventTypeV1.ContractEvent,
+        cursor: {
+          blockNumber,
+          transactionIndex: transactionIndexes.get(contractEvent.txHash) ?? 0,
+          eventIndex,
+        },
+        transactionId: contractEvent.txHash,
+        contractAddress: contractEvent.contractId,
+        eventName: decodeScSymbol(contractEvent.topic[0]),
+        topics: contractEvent.topic,
+        payload: contractEvent,
+      });
+    }
+  }
+  return events.sort((a, b) => compareLedgerEventCursorsV1(a.cursor, b.cursor));
+}
+
+/**
+ * Reads the contract events emitted in the ledger `sequence` with the
+ * `getEvents` method of the Soroban RPC.
+ */
+async function getSorobanEvents(
+  rpcUrl: string,
+  sequence: number,
+  contractIds?: string[],
+): Promise<ISorobanEvent[]> {
+  const filter: Record<string, unknown> = { type: "contract" };
+  if (contractIds && contractIds.length <= SOROBAN_MAX_CONTRACT_IDS) {
+    filter.contractIds = contractIds;
+  }
+  const events: ISorobanEvent[] = [];
+  for (let cursor: string | undefined; ; ) {
+    const { data } = await axios.post(rpcUrl, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "getEvents",
+      params: {
+        // the start ledger and the cursor are mutually exclusive
+        startLedger: cursor ? undefined : sequence,
+        filters: [filter],
+        pagination: { limit: SOROBAN_EVENTS_PAGE_SIZE, cursor },
+      },
+    });
+    if (data.error) {
+      throw new Error(`getEvents failed: ${JSON.stringify(data.error)}`);
+    }
+    const page = data.result.events as ISorobanEvent[];
+    events.push(...page.filter((e) => e.ledger === sequence));
+    if (
+      page.length < SOROBAN_EVENTS_PAGE_SIZE ||
+      page[page.length - 1].ledger > sequence
+    ) {
+      return events;
+    }
+    cursor = page[page.length - 1].pagingToken;
+  }
+}
+
+/**
+ * @returns The symbol held by the base64 encoded XDR `ScVal` or `undefined`
+ * if it holds a value of another type.
+ */
+function decodeScSymbol(scValXdr?: string): string | undefined {
+  if (!scValXdr) {
+    return undefined;
+  }
+  const xdr = Buffer.from(scValXdr, "base64");
+  if (xdr.length < 8 || xdr.readInt32BE(0) !== SCV_SYMBOL) {
+    return undefined;
+  }
+  return xdr.subarray(8, 8 + xdr.readUInt32BE(4)).toString("utf-8");
+}
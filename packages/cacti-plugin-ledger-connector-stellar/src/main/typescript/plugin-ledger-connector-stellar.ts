@@ -1,7 +1,7 @@
 import type { Server as SocketIoServer } from "socket.io";
 import type { Socket as SocketIoSocket } from "socket.io";
 import type { Express } from "express";
-import { InternalServerError } from "http-errors-enhanced-cjs";
+import { BadRequestError, InternalServerError } from "http-errors-enhanced-cjs";
 
 import OAS from "../json/openapi.json";
 
@@ -12,6 +12,9 @@ import {
   IPluginWebService,
   ICactusPlugin,
   ICactusPluginOptions,
+  ILedgerEventSubscriptionV1,
+  IPluginLedgerEventSource,
+  LedgerEventSubscriptionOptionsV1,
 } from "@hyperledger/cactus-core-api";
 
 import {
@@ -45,6 +48,7 @@ import {
 } from "./web-services/get-prometheus-exporter-metrics-endpoint-v1";
 import { DeployContractEndpoint } from "./web-services/deploy-contract-endpoint";
 import { RunSorobanTransactionEndpoint } from "./web-services/run-soroban-transaction-endpoint";
+import { subscribeLedgerEventsV1 } from "./ledger-events/subscribe-ledger-events-v1";
 
 export const E_KEYCHAIN_NOT_FOUND =
   "cacti.connector.stellar.keychain_not_found";
@@ -55,6 +59,10 @@ export interface IPluginLedgerConnectorStellarOptions
   pluginRegistry: PluginRegistry;
   prometheusExporter?: PrometheusExporter;
   logLevel?: LogLevelDesc;
+  /**
+   * How often `subscribeLedgerEvents()` polls Horizon for new ledgers.
+   */
+  ledgerEventsPollIntervalMs?: number;
 }
 
 export class PluginLedgerConnectorStellar
@@ -66,7 +74,8 @@ export class PluginLedgerConnectorStellar
       RunSorobanTransactionResponse
     >,
     ICactusPlugin,
-    IPluginWebService
+    IPluginWebService,
+    IPluginLedgerEventSource
 {
   private networkConfig: NetworkConfig;
   private readonly instanceId: string;
@@ -74,6 +83,7 @@ export class PluginLedgerConnectorStellar
   private endpoints: IWebServiceEndpoint[] | undefined;
   private readonly pluginRegistry: PluginRegistry;
   public prometheusExporter: PrometheusExporter;
+  private ledgerEventSubscriptions = new Set<ILedgerEventSubscriptionV1>();
 
   public static readonly CLASS_NAME = "PluginLedgerConnectorStellar";
 
@@ -192,6 +202,38 @@ export class PluginLedgerConnectorStellar
 
   public async shutdown(): Promise<void> {
     this.log.info(`Shutting down ${this.className}...`);
+    for (const subscription of this.ledgerEventSubscriptions) {
+      await subscription.unsubscribe();
+    }
+    this.ledgerEventSubscriptions.clear();
+  }
+
+  public async subscribeLedgerEvents(
+    options: LedgerEventSubscriptionOptionsV1,
+  ): Promise<ILedgerEventSubscriptionV1> {
+    const { horizonUrl, rpcUrl } = this.networkConfig;
+    if (!horizonUrl) {
+      throw new BadRequestError(
+        `${this.className}#subscribeLedgerEvents() requires networkConfig.horizonUrl`,
+      );
+    }
+    const subscription = await subscribeLedgerEventsV1(
+      {
+        horizonUrl,
+        rpcUrl,
+        sourceId: this.instanceId,
+        logLevel: this.options.logLevel,
+        pollIntervalMs: this.options.ledgerEventsPollIntervalMs,
+      },
+      options,
+    );
+    this.ledgerEventSubscriptions.forEach((s) => {
+      if (s.isClosed()) {
+        this.ledgerEventSubscriptions.delete(s);
+      }
+    });
+    this.ledgerEventSubscriptions.add(subscription);
+    return subscription;
   }
 
   async registerWebServices(
@@ -0,0 +1,127 @@
+import "jest-extended";
+import { v4 as uuidV4 } from "uuid";
+import { pluginName } from "..";
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import {
+  isIPluginLedgerEventSource,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import { StellarTestLedger } from "@hyperledger/cactus-test-tooling";
+import { Network } from "stellar-plus/lib/stellar-plus";
+import { DefaultAccountHandler } from "stellar-plus/lib/stellar-plus/account";
+import { ClassicAssetHandler } from "stellar-plus/lib/stellar-plus/asset";
+import { NetworkConfig } from "stellar-plus/lib/stellar-plus/network";
+import { PluginLedgerConnectorStellar } from "../../../../../main/typescript/plugin-ledger-connector-stellar";
+
+const testCaseName = pluginName + " / ledger event source";
+
+describe(testCaseName, () => {
+  const logLevel: LogLevelDesc = "TRACE";
+  const stellarTestLedger = new StellarTestLedger({ logLevel });
+  let networkConfig: NetworkConfig;
+  let connector: PluginLedgerConnectorStellar;
+
+  beforeAll(async () => {
+    await stellarTestLedger.start();
+    networkConfig = Network.CustomNet(
+      await stellarTestLedger.getNetworkConfiguration(),
+    );
+
+    connector = new PluginLedgerConnectorStellar({
+      networkConfig,
+      pluginRegistry: new PluginRegistry({}),
+      instanceId: uuidV4(),
+      ledgerEventsPollIntervalMs: 1000,
+      logLevel,
+    });
+  });
+
+  afterAll(async () => {
+    await connector.shutdown();
+    await stellarTestLedger.stop();
+    await stellarTestLedger.destroy();
+  });
+
+  it("reports the transactions of new ledgers and resumes from a cursor", async () => {
+    expect(isIPluginLedgerEventSource(connector)).toBeTrue();
+
+    const XLM = new ClassicAssetHandler({ code: "XLM", networkConfig });
+    const accountA = new DefaultAccountHandler({ networkConfig });
+    const accountB = new DefaultAccountHandler({ networkConfig });
+    await accountA.initializeWithFriendbot();
+    await accountB.initializeWithFriendbot();
+
+    const subscription = await connector.subscribeLedgerEvents({
+      filter: { eventTypes: [LedgerEventTypeV1.Transaction] },
+      bufferSize: 1,
+    });
+    for (const amount of [1, 2]) {
+      await XLM.transfer({
+        from: accountA.getPublicKey(),
+        to: accountB.getPublicKey(),
+        amount,
+        header: {
+          source: accountA.getPublicKey(),
+          fee: "100",
+          timeout: 30,
+        },
+        signers: [accountA],
+      });
+    }
+
+    const received: LedgerEventV1[] = [];
+    for await (const event of subscription) {
+      if (event.payload.source_account === accountA.getPublicKey()) {
+        received.push(event);
+      }
+      if (received.length === 2) {
+        break;
+      }
+    }
+    expect(subscription.isClosed()).toBeTrue();
+
+    const [first, second] = received;
+    expect(first).toMatchObject({
+      eventType: LedgerEventTypeV1.Transaction,
+      sourceId: connector.getInstanceId(),
+      payload: { successful: true },
+    });
+    expect(first.transactionId).toMatch(/^[a-f0-9]{64}$/);
+    expect(first.blockHash).toMatch(/^[a-f0-9]{64}$/);
+    expect(first.timestamp).toBeString();
+    expect(second.transactionId).not.toEqual(first.transactionId);
+
+    const resumed = await connector.subscribeLedgerEvents({
+      afterCursor: first.cursor,
+      filter: { eventTypes: [LedgerEventTypeV1.Transaction] },
+    });
+    const resumedEvents: LedgerEventV1[] = [];
+    for await (const event of resumed) {
+      resumedEvents.push(event);
+      if (event.transactionId === second.transactionId) {
+        break;
+      }
+    }
+    expect(resumedEvents).not.toContainEqual(first);
+    expect(resumedEvents).toContainEqual(second);
+  });
+
+  it("reports ledgers in order", async () => {
+    const subscription = await connector.subscribeLedgerEvents({
+      fromBlock: 2,
+      filter: { eventTypes: [LedgerEventTypeV1.Block] },
+    });
+    const sequences: number[] = [];
+    for await (const event of subscription) {
+      expect(event.blockHash).toMatch(/^[a-f0-9]{64}$/);
+      sequences.push(event.cursor.blockNumber);
+      if (sequences.length === 3) {
+        break;
+      }
+    }
+    expect(sequences).toEqual([2, 3, 4]);
+    expect(subscription.getCursor()).toEqual({ blockNumber: 4 });
+  });
+});
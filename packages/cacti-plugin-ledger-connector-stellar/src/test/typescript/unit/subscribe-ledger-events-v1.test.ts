@@ -0,0 +1,167 @@
+import "jest-extended";
+import express from "express";
+import http from "http";
+import { AddressInfo } from "net";
+
+import {
+  IListenOptions,
+  LogLevelDesc,
+  Servers,
+} from "@hyperledger/cactus-common";
+import { LedgerEventTypeV1, LedgerEventV1 } from "@hyperledger/cactus-core-api";
+
+import { subscribeLedgerEventsV1 } from "../../../main/typescript/ledger-events/subscribe-ledger-events-v1";
+
+/**
+ * @returns The base64 encoded XDR of an `ScVal` holding the symbol.
+ */
+function scSymbolXdr(symbol: string): string {
+  const xdr = Buffer.alloc(8 + Math.ceil(symbol.length / 4) * 4);
+  xdr.writeInt32BE(15, 0);
+  xdr.writeUInt32BE(symbol.length, 4);
+  xdr.write(symbol, 8, "utf-8");
+  return xdr.toString("base64");
+}
+
+describe("subscribeLedgerEventsV1() of the Stellar connector", () => {
+  const logLevel: LogLevelDesc = "INFO";
+  const contractId = "CBHYOXSMPOW7PF7OGDCOSMZT45356INSNX4DGWDRUAMTAZMZ5DXZEAAU";
+  const ledgers = [1, 2, 3].map((sequence) => ({
+    sequence,
+    hash: `${sequence}`.repeat(64),
+    closed_at: new Date(sequence * 5000).toISOString(),
+  }));
+  const transactions: Record<number, unknown[]> = {
+    2: [
+      { hash: "a".repeat(64), paging_token: "1", successful: true },
+      { hash: "b".repeat(64), paging_token: "2", successful: false },
+    ],
+  };
+  const sorobanEvents = [
+    {
+      type: "contract",
+      ledger: 2,
+      contractId,
+      id: "2-1",
+      pagingToken: "2-1",
+      topic: [scSymbolXdr("transfer"), scSymbolXdr("from")],
+      value: "AAAAAQ==",
+      txHash: "b".repeat(64),
+    },
+    {
+      type: "contract",
+      ledger: 3,
+      contractId,
+      id: "3-1",
+      pagingToken: "3-1",
+      topic: ["AAAAAQ=="],
+      value: "AAAAAQ==",
+      txHash: "c".repeat(64),
+    },
+  ];
+
+  const expressApp = express();
+  expressApp.use(express.json());
+  expressApp.get("/ledgers", (_req, res) => {
+    res.json({ _embedded: { records: [ledgers[ledgers.length - 1]] } });
+  });
+  expressApp.get("/ledgers/:sequence", (req, res) => {
+    res.json(ledgers[Number(req.params.sequence) - 1]);
+  });
+  expressApp.get("/ledgers/:sequence/transactions", (req, res) => {
+    const records = transactions[Number(req.params.sequence)] ?? [];
+    res.json({ _embedded: { records } });
+  });
+  expressApp.post("/rpc", (req, res) => {
+    const { startLedger } = req.body.params;
+    const events = sorobanEvents.filter((e) => e.ledger >= startLedger);
+    res.json({ jsonrpc: "2.0", id: req.body.id, result: { events } });
+  });
+  const server = http.createServer(expressApp);
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const listenOptions: IListenOptions = {
+      hostname: "127.0.0.1",
+      port: 0,
+      server,
+    };
+    const { address, port } = (await Servers.listen(
+      listenOptions,
+    )) as AddressInfo;
+    baseUrl = `http://${address}:${port}`;
+  });
+
+  afterAll(async () => {
+    await Servers.shutdown(server);
+  });
+
+  async function collect(
+    subscriptionOptions: Parameters<typeof subscribeLedgerEventsV1>[1],
+    count: number,
+  ): Promise<LedgerEventV1[]> {
+    const subscription = await subscribeLedgerEventsV1(
+      {
+        horizonUrl: baseUrl,
+        rpcUrl: `${baseUrl}/rpc`,
+        sourceId: "stellar",
+        logLevel,
+        pollIntervalMs: 10,
+      },
+      subscriptionOptions,
+    );
+    const events: LedgerEventV1[] = [];
+    for await (const event of subscription) {
+      events.push(event);
+      if (events.length === count) {
+        break;
+      }
+    }
+    return events;
+  }
+
+  test("reports ledgers, transactions and contract events in order", async () => {
+    const events = await collect({ fromBlock: 2 }, 5);
+
+    expect(events.map((e) => [e.eventType, e.cursor])).toEqual([
+      [LedgerEventTypeV1.Block, { blockNumber: 2 }],
+      [LedgerEventTypeV1.Transaction, { blockNumber: 2, transactionIndex: 0 }],
+      [LedgerEventTypeV1.Transaction, { blockNumber: 2, transactionIndex: 1 }],
+      [
+        LedgerEventTypeV1.ContractEvent,
+        { blockNumber: 2, transactionIndex: 1, eventIndex: 0 },
+      ],
+      [LedgerEventTypeV1.Block, { blockNumber: 3 }],
+    ]);
+    expect(events[0]).toMatchObject({
+      sourceId: "stellar",
+      blockHash: ledgers[1].hash,
+      timestamp: ledgers[1].closed_at,
+    });
+    expect(events[2]).toMatchObject({
+      transactionId: "b".repeat(64),
+      payload: { successful: false },
+    });
+    expect(events[3]).toMatchObject({
+      transactionId: "b".repeat(64),
+      contractAddress: contractId,
+      eventName: "transfer",
+      topics: sorobanEvents[0].topic,
+    });
+  });
+
+  test("filters and resumes after a cursor", async () => {
+    const filter = {
+      eventTypes: [LedgerEventTypeV1.ContractEvent],
+      contractAddresses: [contractId],
+    };
+    const [first, second] = await collect({ fromBlock: 1, filter }, 2);
+    expect(first.cursor.blockNumber).toEqual(2);
+    expect(second.cursor.blockNumber).toEqual(3);
+    // the first topic of the second event is not a symbol
+    expect(second.eventName).toBeUndefined();
+
+    const [resumed] = await collect({ afterCursor: first.cursor, filter }, 1);
+    expect(resumed).toEqual(second);
+  });
+});
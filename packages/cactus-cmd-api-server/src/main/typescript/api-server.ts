@@ -13,13 +13,18 @@ import { Server, createServer } from "http";
 import { createServer as createSecureServer } from "https";
 import { RuntimeError } from "run-time-error-cjs";
 import { gte } from "semver";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "http-errors-enhanced-cjs";
 import lmify from "lmify";
 import fs from "fs-extra";
 import expressHttpProxy from "express-http-proxy";
 import { Server as GrpcServer } from "@grpc/grpc-js";
 import { ServerCredentials as GrpcServerCredentials } from "@grpc/grpc-js";
 import { expressConnectMiddleware } from "@connectrpc/connect-express";
-import { ConnectRouter } from "@connectrpc/connect";
+import { ConnectRouter, Interceptor } from "@connectrpc/connect";
 import {
   fastify,
   FastifyBaseLogger,
@@ -41,6 +46,7 @@ import {
   ICactusPlugin,
   isIPluginWebService,
   IPluginWebService,
+  IWebServiceEndpoint,
   IPluginFactoryOptions,
   PluginFactoryFactory,
   PluginImport,
@@ -49,11 +55,16 @@ import {
   isIPluginGrpcService,
   isIPluginCrpcService,
   ICrpcSvcRegistration,
+  IEndpointAuthzOptions,
 } from "@hyperledger/cactus-core-api";
 
 import {
+  IRateLimitConfig,
   PluginRegistry,
   registerWebServiceEndpoint,
+  setExpressAppAuthzPolicy,
+  setExpressAppRateLimiting,
+  TokenBucketRateLimiter,
 } from "@hyperledger/cactus-core";
 
 import { installOpenapiValidationMiddleware } from "@hyperledger/cactus-core";
@@ -61,6 +72,7 @@ import { installOpenapiValidationMiddleware } from "@hyperledger/cactus-core";
 import {
   bigIntToDecimalStringReplacer,
   Bools,
+  Checks,
   isExpressHttpVerbMethodName,
   Logger,
   LoggerProvider,
@@ -73,7 +85,20 @@ import OAS from "../json/openapi.json";
 
 import { PrometheusExporter } from "./prometheus-exporter/prometheus-exporter";
 import { AuthorizerFactory } from "./authzn/authorizer-factory";
-import { WatchHealthcheckV1 } from "./generated/openapi/typescript-axios";
+import {
+  IAuthzPolicyReportEntry,
+  OperationAuthzPolicy,
+} from "./authzn/operation-authz-policy";
+import { createJwtVerifier, JwtVerifier } from "./authzn/create-jwt-verifier";
+import { createGrpcAuthzInterceptor } from "./authzn/grpc-authz-interceptor";
+import { createCrpcAuthzInterceptor } from "./authzn/crpc-authz-interceptor";
+import { authorizeSocketIoEvents } from "./authzn/authorize-socket-io-events";
+import { AuthorizationProtocol } from "./config/authorization-protocol";
+import {
+  PluginInstanceV1,
+  PluginLifecycleStatusV1,
+  WatchHealthcheckV1,
+} from "./generated/openapi/typescript-axios";
 import { WatchHealthcheckV1Endpoint } from "./web-services/watch-healthcheck-v1-endpoint";
 import * as default_service from "./generated/proto/protoc-gen-ts/services/default_service";
 import { GrpcServerApiServer } from "./web-services/grpc/grpc-server-api-server";
@@ -86,9 +111,37 @@ import {
   GetHealthcheckV1Endpoint,
   IGetHealthcheckV1EndpointOptions,
 } from "./web-services/get-healthcheck-v1-endpoint";
+import { ListPluginsV1Endpoint } from "./web-services/list-plugins-v1-endpoint";
+import { InstallPluginV1Endpoint } from "./web-services/install-plugin-v1-endpoint";
+import { StartPluginV1Endpoint } from "./web-services/start-plugin-v1-endpoint";
+import { StopPluginV1Endpoint } from "./web-services/stop-plugin-v1-endpoint";
+import { ReloadPluginV1Endpoint } from "./web-services/reload-plugin-v1-endpoint";
+import { RemovePluginV1Endpoint } from "./web-services/remove-plugin-v1-endpoint";
+import { CreateWebhookSubscriptionV1Endpoint } from "./web-services/create-webhook-subscription-v1-endpoint";
+import { ListWebhookSubscriptionsV1Endpoint } from "./web-services/list-webhook-subscriptions-v1-endpoint";
+import { DeleteWebhookSubscriptionV1Endpoint } from "./web-services/delete-webhook-subscription-v1-endpoint";
+import { ListWebhookDeliveriesV1Endpoint } from "./web-services/list-webhook-deliveries-v1-endpoint";
+import { ReplayWebhookDeliveriesV1Endpoint } from "./web-services/replay-webhook-deliveries-v1-endpoint";
+import {
+  IWebhookServiceOptions,
+  WebhookService,
+} from "./webhooks/webhook-service";
+import {
+  createGrpcRateLimitInterceptor,
+  getServiceNameOfMethodPath,
+  IRpcRateLimitInterceptorOptions,
+} from "./rate-limiting/grpc-rate-limit-interceptor";
+import {
+  createCrpcClientContextValues,
+  createCrpcRateLimitInterceptor,
+} from "./rate-limiting/crpc-rate-limit-interceptor";
+
+type SocketIoConnectionListener = (socket: SocketIoSocket) => void;
 
 export interface IApiServerConstructorOptions {
   readonly pluginManagerOptions?: { pluginsPath: string };
+  readonly webhookOptions?: Partial<IWebhookServiceOptions>;
+  readonly rateLimitConfig?: IRateLimitConfig;
   readonly pluginRegistry?: PluginRegistry;
   readonly httpServerApi?: Server | SecureServer;
   readonly wsServerApi?: SocketIoServer;
@@ -119,6 +172,11 @@ export class ApiServer {
     `This mechanism is meant to foster DevOps where both dev & ops ` +
     `work together in making secure application deployments a reality. ` +
     `The comma separated list of unprotected endpoints that were not marked as exempt: `;
+  public static readonly E_UNSCOPED_PROTECTED_ENDPOINTS =
+    `Protected endpoints without required scopes found while the ` +
+    `"requireScopes" property of the "operationAuthzPolicy" of ` +
+    `"authorizationConfigJson" is not disabled. Declare the scopes of these ` +
+    `operations in the "operations" property of the policy: `;
 
   private readonly log: Logger;
   private pluginRegistry: PluginRegistry | undefined;
@@ -138,6 +196,16 @@ export class ApiServer {
   private readonly pluginsPath: string;
   private readonly enableShutdownHook: boolean;
   private readonly openApiValidationOffPlugins: Array<ICactusPlugin>;
+  private readonly pluginImports: Map<string, PluginImport>;
+  private readonly pluginWebApps: Map<string, express.Express>;
+  private readonly pluginWsListeners: Map<string, SocketIoConnectionListener[]>;
+  private readonly startedPluginIds: Set<string>;
+  private readonly stoppedPluginIds: Set<string>;
+  private readonly webhookService: WebhookService;
+  private readonly rateLimiter: TokenBucketRateLimiter;
+  private readonly rpcServicePlugins: Map<string, ICactusPlugin>;
+  private readonly authzPolicy: OperationAuthzPolicy;
+  private jwtVerifier: JwtVerifier | undefined;
 
   public prometheusExporter: PrometheusExporter;
   public boundGrpcHostPort: string;
@@ -155,6 +223,12 @@ export class ApiServer {
     }
 
     this.openApiValidationOffPlugins = [];
+    this.pluginImports = new Map();
+    this.pluginWebApps = new Map();
+    this.pluginWsListeners = new Map();
+    this.startedPluginIds = new Set();
+    this.stoppedPluginIds = new Set();
+    this.rpcServicePlugins = new Map();
     this.boundGrpcHostPort = "127.0.0.1:-1";
 
     this.enableShutdownHook = Bools.isBooleanStrict(
@@ -195,7 +269,45 @@ export class ApiServer {
       this.options.crpcServer ||
       fastify({ http2: true, forceCloseConnections: true });
 
-    this.grpcServer = this.options.grpcServer || new GrpcServer({});
+    this.rateLimiter = new TokenBucketRateLimiter({
+      logLevel: this.options.config.logLevel,
+      config: {
+        ...JSON.parse(this.options.config.rateLimitConfigJson || "{}"),
+        ...this.options.rateLimitConfig,
+      },
+      onRejected: ({ protocol, path }, { scope }) =>
+        this.prometheusExporter.incrementRateLimitedRequests(
+          protocol,
+          String(scope),
+          path,
+        ),
+    });
+
+    this.authzPolicy = new OperationAuthzPolicy({
+      logLevel: this.options.config.logLevel,
+      config: this.options.config.authorizationConfigJson?.operationAuthzPolicy,
+      declared: ApiServer.getDeclaredAuthzOptions(),
+    });
+    if (this.isJwtAuthorizationEnabled()) {
+      // fails at startup instead of on the first call if the options are bad
+      const { expressJwtOptions } = this.options.config.authorizationConfigJson;
+      this.jwtVerifier = createJwtVerifier(expressJwtOptions);
+    }
+
+    const grpcInterceptors = this.rateLimiter.isEnabled()
+      ? [createGrpcRateLimitInterceptor(this.createRpcRateLimitOptions())]
+      : [];
+    if (this.isJwtAuthorizationEnabled()) {
+      grpcInterceptors.push(
+        createGrpcAuthzInterceptor({
+          policy: this.authzPolicy,
+          verifyJwt: (token) => this.verifyJwt(token),
+        }),
+      );
+    }
+    this.grpcServer =
+      this.options.grpcServer ||
+      new GrpcServer({ interceptors: grpcInterceptors });
     this.wsApi = new SocketIoServer();
     this.expressApi = express();
     this.expressCockpit = express();
@@ -248,6 +360,35 @@ export class ApiServer {
 
     this.pluginsPath = pluginsPath;
     this.log.debug("pluginsPath: %o", pluginsPath);
+
+    if (this.options.grpcServer && this.rateLimiter.isEnabled()) {
+      this.log.warn(
+        "Rate limits are not enforced on the gRPC server that was passed in " +
+          "to the constructor, install the interceptors on it yourself.",
+      );
+    }
+    if (this.options.grpcServer && this.isJwtAuthorizationEnabled()) {
+      this.log.warn(
+        "The authorization policy is not enforced on the gRPC server that " +
+          "was passed in to the constructor, install " +
+          "createGrpcAuthzInterceptor() on it yourself.",
+      );
+    }
+
+    const defaultOutboxDir = path.join(
+      os.tmpdir(),
+      "org",
+      "hyperledger",
+      "cactus",
+      "webhooks",
+    );
+
+    this.webhookService = new WebhookService({
+      outboxDir: defaultOutboxDir,
+      logLevel: this.options.config.logLevel,
+      ...JSON.parse(this.options.config.webhookOptionsJson || "{}"),
+      ...this.options.webhookOptions,
+    });
   }
 
   public async getOpenApiValidationOffPlugins(): Promise<
@@ -256,6 +397,72 @@ export class ApiServer {
     return this.openApiValidationOffPlugins;
   }
 
+  /**
+   * @returns The authorization options of every operation that the
+   * authorization policy has been consulted for so far.
+   */
+  public getAuthzPolicyReport(): IAuthzPolicyReportEntry[] {
+    return this.authzPolicy.getReport();
+  }
+
+  private isJwtAuthorizationEnabled(): boolean {
+    const { authorizationProtocol } = this.options.config;
+    return authorizationProtocol === AuthorizationProtocol.JSON_WEB_TOKEN;
+  }
+
+  private verifyJwt(token: string): ReturnType<JwtVerifier> {
+    if (!this.jwtVerifier) {
+      throw new Error("verifyJwt() JSON web token authorization is disabled");
+    }
+    return this.jwtVerifier(token);
+  }
+
+  /**
+   * The scopes of the API server's own Socket.IO events and gRPC methods,
+   * the same as the ones of their HTTP counterparts.
+   */
+  public static getDeclaredAuthzOptions(): Record<
+    string,
+    IEndpointAuthzOptions
+  > {
+    const {
+      "/api/v1/api-server/healthcheck": oasPathHealthcheck,
+      "/api/v1/api-server/get-open-api-spec": oasPathOpenApiSpec,
+      "/api/v1/api-server/get-prometheus-exporter-metrics": oasPathPrometheus,
+    } = OAS.paths;
+    const protectedBy = (requiredRoles: string[]) => ({
+      isProtected: true,
+      requiredRoles,
+    });
+    const healthcheck = protectedBy(
+      oasPathHealthcheck.get.security[0].bearerTokenAuth,
+    );
+    const grpcService = "/org.hyperledger.cactus.cmd_api_server.DefaultService";
+    return {
+      [WatchHealthcheckV1.Subscribe]: healthcheck,
+      [WatchHealthcheckV1.Unsubscribe]: healthcheck,
+      [`${grpcService}/GetHealthCheckV1`]: healthcheck,
+      [`${grpcService}/GetOpenApiSpecV1`]: protectedBy(
+        oasPathOpenApiSpec.get.security[0].bearerTokenAuth,
+      ),
+      [`${grpcService}/GetPrometheusMetricsV1`]: protectedBy(
+        oasPathPrometheus.get.security[0].bearerTokenAuth,
+      ),
+    };
+  }
+
+  public getRateLimiter(): TokenBucketRateLimiter {
+    return this.rateLimiter;
+  }
+
+  private createRpcRateLimitOptions(): IRpcRateLimitInterceptorOptions {
+    return {
+      rateLimiter: this.rateLimiter,
+      getPluginOfService: (serviceName: string) =>
+        this.rpcServicePlugins.get(serviceName),
+    };
+  }
+
   public getPrometheusExporter(): PrometheusExporter {
     return this.prometheusExporter;
   }
@@ -267,6 +474,10 @@ export class ApiServer {
     return res;
   }
 
+  public getWebhookService(): WebhookService {
+    return this.webhookService;
+  }
+
   public getPluginImportsCount(): number {
     return this.pluginRegistry?.plugins.length || 0;
   }
@@ -392,11 +603,20 @@ export class ApiServer {
     const { plugins } = this.options.config;
     this.log.info(`Instantiated empty registry, invoking plugin factories...`);
 
+    const newPlugins: ICactusPlugin[] = [];
     for (const pluginImport of plugins) {
       const plugin = await this.instantiatePlugin(pluginImport, pluginRegistry);
       pluginRegistry.add(plugin);
+      this.pluginImports.set(plugin.getInstanceId(), pluginImport);
+      newPlugins.push(plugin);
     }
 
+    // The plugins are only initialized once all of them are in the registry
+    // so that the order of the imports in the config does not matter.
+    const initOrder = await pluginRegistry.initPlugins(newPlugins);
+    const initOrderIds = initOrder.map((p) => p.getInstanceId());
+    this.log.info("Initialized plugins in order: %o", initOrderIds);
+
     return pluginRegistry;
   }
 
@@ -420,8 +640,7 @@ export class ApiServer {
       }
 
       const packagePath = path.join(
-        this.pluginsPath,
-        options.instanceId,
+        this.getPluginPackageDir(options.instanceId),
         "node_modules",
         packageName,
       );
@@ -435,12 +654,7 @@ export class ApiServer {
         pluginImportType: pluginImport.type,
       };
       const pluginFactory = await createPluginFactory(pluginFactoryOptions);
-      const plugin = await pluginFactory.create(pluginOptions);
-
-      // need to invoke the i-cactus-plugin onPluginInit functionality here before plugin registry can be used further
-      await plugin.onPluginInit();
-
-      return plugin;
+      return pluginFactory.create(pluginOptions);
     } catch (ex: unknown) {
       const context = `${fnTag} failed instantiating plugin '${packageName}' with the instanceId '${options.instanceId}'`;
       this.log.debug(context, ex);
@@ -457,7 +671,7 @@ export class ApiServer {
       : pluginImport.packageName;
 
     const instanceId = pluginImport.options.instanceId;
-    const pluginPackageDir = path.join(this.pluginsPath, instanceId);
+    const pluginPackageDir = this.getPluginPackageDir(instanceId);
     // version of the npm package
     const pluginVersion = pluginImport.options.version
       ? "@".concat(pluginImport.options.version)
@@ -499,17 +713,386 @@ export class ApiServer {
     }
   }
 
+  /**
+   * Returns the plugin instances of the registry along with their lifecycle
+   * status.
+   */
+  public async listPlugins(): Promise<PluginInstanceV1[]> {
+    const registry = await this.getOrInitPluginRegistry();
+    return registry.getPlugins().map((p) => this.toPluginInstanceV1(p));
+  }
+
+  /**
+   * Installs (if the import's action says so) and instantiates a plugin at
+   * runtime, adds it to the plugin registry and then starts it.
+   *
+   * @param pluginImport Describes the plugin the same way as the `plugins`
+   * configuration parameter of the API server does.
+   * @throws {BadRequestError} If the `instanceId` is not usable as the name of
+   * the installation directory of the plugin.
+   * @throws {ConflictError} If there already is a plugin in the registry with
+   * the same `instanceId`.
+   */
+  public async installPlugin(
+    pluginImport: PluginImport,
+  ): Promise<PluginInstanceV1> {
+    const fnTag = `${this.className}#installPlugin()`;
+    Checks.truthy(pluginImport, `${fnTag} arg pluginImport`);
+    Checks.truthy(pluginImport.options, `${fnTag} arg pluginImport.options`);
+    const { instanceId } = pluginImport.options;
+    Checks.nonBlankString(instanceId, `${fnTag} options.instanceId`);
+    this.getPluginPackageDir(instanceId);
+
+    const registry = await this.getOrInitPluginRegistry();
+    if (registry.findOneById(instanceId).isPresent()) {
+      throw new ConflictError(`${fnTag} Plugin ${instanceId} already present`);
+    }
+
+    const plugin = await this.instantiatePlugin(pluginImport, registry);
+    registry.add(plugin);
+    try {
+      await registry.initPlugin(instanceId);
+    } catch (ex: unknown) {
+      registry.deleteById(instanceId);
+      throw ex;
+    }
+    this.pluginImports.set(instanceId, pluginImport);
+    this.prometheusExporter.setTotalPluginImports(this.getPluginImportsCount());
+    this.log.info("%s Installed plugin %s OK", fnTag, instanceId);
+
+    return this.startPlugin(instanceId);
+  }
+
+  /**
+   * Registers the web services of a plugin instance that is already present
+   * in the plugin registry but is not running.
+   *
+   * Note that the gRPC and Crpc services of plugins are only installed during
+   * the startup of the API server so those will not become available for
+   * plugins started at runtime.
+   *
+   * @throws {NotFoundError} If there is no plugin with `instanceId`.
+   * @throws {ConflictError} If the plugin is already running.
+   */
+  public async startPlugin(instanceId: string): Promise<PluginInstanceV1> {
+    const fnTag = `${this.className}#startPlugin()`;
+    const plugin = await this.getPluginOrThrow(instanceId);
+    if (this.startedPluginIds.has(instanceId)) {
+      throw new ConflictError(`${fnTag} Plugin ${instanceId} already running`);
+    }
+    await this.startPluginInstance(plugin);
+    await this.webhookService.resumeSubscriptions(instanceId);
+    if (isIPluginGrpcService(plugin) || isIPluginCrpcService(plugin)) {
+      this.log.warn(
+        "%s gRPC/Crpc services of %s need an API server restart to be served.",
+        fnTag,
+        instanceId,
+      );
+    }
+    return this.toPluginInstanceV1(plugin);
+  }
+
+  /**
+   * Unregisters the web services of a running plugin instance and shuts it
+   * down. The plugin stays in the registry so it can be started again later.
+   *
+   * @throws {NotFoundError} If there is no plugin with `instanceId`.
+   * @throws {ConflictError} If the plugin is not running.
+   */
+  public async stopPlugin(instanceId: string): Promise<PluginInstanceV1> {
+    const fnTag = `${this.className}#stopPlugin()`;
+    const plugin = await this.getPluginOrThrow(instanceId);
+    if (!this.startedPluginIds.has(instanceId)) {
+      throw new ConflictError(`${fnTag} Plugin ${instanceId} is not running`);
+    }
+    await this.stopPluginInstance(plugin);
+    return this.toPluginInstanceV1(plugin);
+  }
+
+  /**
+   * Stops the plugin instance, re-installs and re-instantiates it and then
+   * starts it again. Every other plugin of the API server keeps running while
+   * this happens which is what makes it possible to upgrade a single
+   * connector without dropping the rest of the ledger connections.
+   *
+   * Plugins that depend on the reloaded one may hold on to the old instance,
+   * so they are reloaded as well (after it) from their own plugin imports.
+   *
+   * @param instanceId The `instanceId` of the plugin to reload.
+   * @param pluginImport Optional replacement of the import that the plugin was
+   * originally created from, for example to bump its version. Must have the
+   * same `instanceId`.
+   * @throws {NotFoundError} If there is no plugin with `instanceId` or there
+   * is no plugin import known for it (it was injected programmatically).
+   * @throws {ConflictError} If the `instanceId` of `pluginImport` is not the
+   * same or if a plugin depending on it has no plugin import known, because
+   * that one could not be reloaded and would keep using the old instance.
+   */
+  public async reloadPlugin(
+    instanceId: string,
+    pluginImport?: PluginImport,
+  ): Promise<PluginInstanceV1> {
+    const fnTag = `${this.className}#reloadPlugin()`;
+    const plugin = await this.getPluginOrThrow(instanceId);
+    const theImport = pluginImport || this.pluginImports.get(instanceId);
+    if (!theImport) {
+      throw new NotFoundError(`${fnTag} No plugin import for ${instanceId}`);
+    }
+    if (theImport.options?.instanceId !== instanceId) {
+      throw new ConflictError(`${fnTag} instanceId mismatch: ${instanceId}`);
+    }
+    const registry = await this.getOrInitPluginRegistry();
+    const dependentIds = registry
+      .getDependentsOf(instanceId)
+      .map((p) => p.getInstanceId());
+    const notReloadable = dependentIds.filter(
+      (id) => !this.pluginImports.has(id),
+    );
+    if (notReloadable.length > 0) {
+      const ids = notReloadable.join(", ");
+      throw new ConflictError(`${fnTag} Cannot reload dependents: ${ids}`);
+    }
+
+    if (this.startedPluginIds.has(instanceId)) {
+      await this.stopPluginInstance(plugin);
+    }
+    registry.deleteById(instanceId);
+    this.clearPluginRequireCache(instanceId);
+
+    const newPlugin = await this.instantiatePlugin(theImport, registry);
+    registry.add(newPlugin);
+    await registry.initPlugin(instanceId);
+    this.pluginImports.set(instanceId, theImport);
+    this.log.info("%s Re-instantiated plugin %s OK", fnTag, instanceId);
+
+    const reloaded = await this.startPlugin(instanceId);
+    for (const dependentId of dependentIds) {
+      // might have been reloaded already as the dependent of another one
+      if (registry.findOneById(dependentId).isPresent()) {
+        await this.reloadPlugin(dependentId);
+      }
+    }
+    return reloaded;
+  }
+
+  /**
+   * Stops the plugin instance (if it was running) and removes it from the
+   * plugin registry along with the package installation directory of it.
+   *
+   * @throws {NotFoundError} If there is no plugin with `instanceId`.
+   * @throws {ConflictError} If other plugins of the registry depend on it.
+   */
+  public async removePlugin(instanceId: string): Promise<PluginInstanceV1> {
+    const fnTag = `${this.className}#removePlugin()`;
+    const plugin = await this.getPluginOrThrow(instanceId);
+    const registry = await this.getOrInitPluginRegistry();
+    const dependents = registry.getDependentsOf(instanceId);
+    if (dependents.length > 0) {
+      const ids = dependents.map((p) => p.getInstanceId()).join(", ");
+      throw new ConflictError(`${fnTag} ${instanceId} is required by: ${ids}`);
+    }
+    if (this.startedPluginIds.has(instanceId)) {
+      await this.stopPluginInstance(plugin);
+    }
+    registry.deleteById(instanceId);
+    this.stoppedPluginIds.delete(instanceId);
+    this.clearPluginRequireCache(instanceId);
+
+    const pluginImport = this.pluginImports.get(instanceId);
+    this.pluginImports.delete(instanceId);
+    if (pluginImport?.action === PluginImportAction.Install) {
+      await fs.remove(this.getPluginPackageDir(instanceId));
+    }
+    this.prometheusExporter.setTotalPluginImports(this.getPluginImportsCount());
+    this.log.info("%s Removed plugin %s OK", fnTag, instanceId);
+
+    return this.toPluginInstanceV1(plugin);
+  }
+
+  /**
+   * Returns the plugins in the order they should be shut down. Falls back to
+   * the reverse order of registration if the dependency graph has become
+   * invalid at runtime because we still want to shut down what we can.
+   */
+  private getPluginShutdownOrder(registry: PluginRegistry): ICactusPlugin[] {
+    try {
+      return registry.getShutdownOrder();
+    } catch (ex: unknown) {
+      this.log.warn("Falling back to reverse registration order: %o", ex);
+      return registry.getPlugins().slice().reverse();
+    }
+  }
+
+  private async getPluginOrThrow(instanceId: string): Promise<ICactusPlugin> {
+    const fnTag = `${this.className}#getPluginOrThrow()`;
+    Checks.nonBlankString(instanceId, `${fnTag} arg instanceId`);
+    const registry = await this.getOrInitPluginRegistry();
+    return registry
+      .findOneById(instanceId)
+      .orElseThrow(() => new NotFoundError(`${fnTag} No plugin ${instanceId}`));
+  }
+
+  /**
+   * Resolves the installation directory of a plugin. The `instanceId` can come
+   * from a request so it must resolve to a directory right under the plugins
+   * path, otherwise a value such as `../..` could make us install, load or
+   * delete files anywhere on the file-system.
+   *
+   * @throws {BadRequestError} If `instanceId` is not a single path segment.
+   */
+  private getPluginPackageDir(instanceId: string): string {
+    const fnTag = `${this.className}#getPluginPackageDir()`;
+    const pluginsDir = path.resolve(this.pluginsPath);
+    const pluginPackageDir = path.resolve(pluginsDir, instanceId);
+    if (path.dirname(pluginPackageDir) !== pluginsDir) {
+      throw new BadRequestError(`${fnTag} Invalid instanceId: ${instanceId}`);
+    }
+    return pluginPackageDir;
+  }
+
+  private toPluginInstanceV1(plugin: ICactusPlugin): PluginInstanceV1 {
+    const instanceId = plugin.getInstanceId();
+    return {
+      instanceId,
+      packageName: plugin.getPackageName(),
+      status: this.startedPluginIds.has(instanceId)
+        ? PluginLifecycleStatusV1.Running
+        : PluginLifecycleStatusV1.Stopped,
+    };
+  }
+
+  /**
+   * Evicts the modules of a plugin's installation directory from the
+   * `require` cache so that the next `instantiatePlugin()` call loads the
+   * freshly installed package instead of the one already in memory.
+   */
+  private clearPluginRequireCache(instanceId: string): void {
+    const pluginPackageDir = this.getPluginPackageDir(instanceId);
+    Object.keys(require.cache)
+      .filter((modulePath) => modulePath.startsWith(pluginPackageDir))
+      .forEach((modulePath) => delete require.cache[modulePath]);
+  }
+
+  private async startPluginInstance(
+    plugin: ICactusPlugin,
+  ): Promise<IWebServiceEndpoint[]> {
+    const instanceId = plugin.getInstanceId();
+    let endpoints: IWebServiceEndpoint[] = [];
+    if (isIPluginWebService(plugin)) {
+      endpoints = await this.registerPluginWebServices(plugin);
+    }
+    this.startedPluginIds.add(instanceId);
+    this.stoppedPluginIds.delete(instanceId);
+    return endpoints;
+  }
+
+  private async stopPluginInstance(plugin: ICactusPlugin): Promise<void> {
+    const instanceId = plugin.getInstanceId();
+    this.pluginWebApps.delete(instanceId);
+
+    const wsListeners = this.pluginWsListeners.get(instanceId) || [];
+    wsListeners.forEach((l) => this.wsApi.sockets.off("connection", l));
+    this.pluginWsListeners.delete(instanceId);
+
+    if (isIPluginWebService(plugin)) {
+      await plugin.shutdown();
+    }
+    this.startedPluginIds.delete(instanceId);
+    this.stoppedPluginIds.add(instanceId);
+    this.log.info("Stopped plugin %s OK", instanceId);
+  }
+
+  /**
+   * Registers the endpoints of a plugin on an ExpressJS application of its
+   * own which is then dispatched to by the handler returned from
+   * `createPluginWebAppsHandler()`. This is what makes it possible to drop
+   * the endpoints of a single plugin at runtime since ExpressJS itself has no
+   * API for removing routes.
+   */
+  private async registerPluginWebServices(
+    plugin: IPluginWebService,
+  ): Promise<IWebServiceEndpoint[]> {
+    const { openApiValidationOffPkgs, logLevel } = this.options.config;
+    const webApp = express();
+    webApp.set("json replacer", bigIntToDecimalStringReplacer);
+    setExpressAppRateLimiting(webApp, {
+      rateLimiter: this.rateLimiter,
+      plugin,
+    });
+    setExpressAppAuthzPolicy(webApp, this.authzPolicy);
+
+    await plugin.getOrCreateWebServices();
+    const apiSpec = plugin.getOpenApiSpec() as OpenAPIV3.Document;
+    const pkgName = plugin.getPackageName();
+    const oApiValidationOn = !openApiValidationOffPkgs.includes(pkgName);
+
+    const ctxPojo = { pkgName, hasSpec: !!apiSpec, oApiValidationOn };
+    const ctx = JSON.stringify(ctxPojo);
+
+    if (apiSpec && oApiValidationOn) {
+      this.log.debug("Installing OpenAPI validator %s", ctx);
+      await installOpenapiValidationMiddleware({
+        app: webApp,
+        apiSpec,
+        logLevel,
+      });
+    } else {
+      this.openApiValidationOffPlugins.push(plugin);
+      this.log.debug("Skipped OpenAPI validator install %s", ctx);
+    }
+
+    const wsListenersBefore = this.wsApi.sockets.listeners("connection");
+    const webSvcs = await plugin.registerWebServices(webApp, this.wsApi);
+    const wsListeners = this.wsApi.sockets
+      .listeners("connection")
+      .filter((l) => !wsListenersBefore.includes(l));
+
+    const instanceId = plugin.getInstanceId();
+    this.pluginWsListeners.set(instanceId, wsListeners);
+    this.pluginWebApps.set(instanceId, webApp);
+    return webSvcs;
+  }
+
+  /**
+   * Creates the request handler that passes each request through the
+   * ExpressJS applications of the running plugins (in the order they were
+   * started) until one of them has responded.
+   */
+  private createPluginWebAppsHandler(): RequestHandler {
+    return (req, res, next) => {
+      // The apps overwrite the prototypes of req/res when they are invoked so
+      // we need to restore them the same way ExpressJS does for mounted apps.
+      const reqProto = Object.getPrototypeOf(req);
+      const resProto = Object.getPrototypeOf(res);
+      const webApps = Array.from(this.pluginWebApps.values());
+
+      const dispatch = (idx: number, err?: unknown): void => {
+        Object.setPrototypeOf(req, reqProto);
+        Object.setPrototypeOf(res, resProto);
+        if (err || idx >= webApps.length) {
+          next(err);
+          return;
+        }
+        webApps[idx](req, res, (ex?: unknown) => dispatch(idx + 1, ex));
+      };
+      dispatch(0);
+    };
+  }
+
   public async shutdown(): Promise<void> {
     this.log.info(`Shutting down API server ...`);
 
     const registry = await this.getOrInitPluginRegistry();
 
-    const webServicesShutdown = registry
-      .getPlugins()
+    this.log.info(`Stopping webhook deliveries...`);
+    await this.webhookService.shutdown();
+    this.log.info(`Stopped webhook deliveries OK`);
+
+    // Plugins are shut down one by one, before the plugins they depend on.
+    const webServicesToShutdown = this.getPluginShutdownOrder(registry)
+      .filter((p) => !this.stoppedPluginIds.has(p.getInstanceId()))
       .filter((pluginInstance) => isIPluginWebService(pluginInstance))
-      .map((pluginInstance: ICactusPlugin) => {
-        return (pluginInstance as IPluginWebService).shutdown();
-      });
+      .map((pluginInstance) => pluginInstance as IPluginWebService);
 
     if (this.wsApi) {
       this.log.info(`Disconnecting SocketIO connections...`);
@@ -517,9 +1100,11 @@ export class ApiServer {
       this.log.info(`SocketIO connections disconnect OK`);
     }
 
-    this.log.info(`Stopping ${webServicesShutdown.length} WS plugin(s)...`);
-    await Promise.all(webServicesShutdown);
-    this.log.info(`Stopped ${webServicesShutdown.length} WS plugin(s) OK`);
+    this.log.info(`Stopping ${webServicesToShutdown.length} WS plugin(s)...`);
+    for (const pluginInstance of webServicesToShutdown) {
+      await pluginInstance.shutdown();
+    }
+    this.log.info(`Stopped ${webServicesToShutdown.length} WS plugin(s) OK`);
 
     if (this.httpServerApi?.listening) {
       this.log.info(`Closing Cacti HTTP server of the API...`);
@@ -679,6 +1264,35 @@ export class ApiServer {
       await registerWebServiceEndpoint(app, endpoint);
     }
 
+    {
+      const opts = { logLevel, apiServer: this };
+      const endpoints: IWebServiceEndpoint[] = [
+        new ListPluginsV1Endpoint(opts),
+        new InstallPluginV1Endpoint(opts),
+        new StartPluginV1Endpoint(opts),
+        new StopPluginV1Endpoint(opts),
+        new ReloadPluginV1Endpoint(opts),
+        new RemovePluginV1Endpoint(opts),
+      ];
+      for (const endpoint of endpoints) {
+        await registerWebServiceEndpoint(app, endpoint);
+      }
+    }
+
+    {
+      const opts = { logLevel, webhookService: this.webhookService };
+      const endpoints: IWebServiceEndpoint[] = [
+        new CreateWebhookSubscriptionV1Endpoint(opts),
+        new ListWebhookSubscriptionsV1Endpoint(opts),
+        new DeleteWebhookSubscriptionV1Endpoint(opts),
+        new ListWebhookDeliveriesV1Endpoint(opts),
+        new ReplayWebhookDeliveriesV1Endpoint(opts),
+      ];
+      for (const endpoint of endpoints) {
+        await registerWebServiceEndpoint(app, endpoint);
+      }
+    }
+
     this.wsApi.on("connection", (socket: SocketIoSocket) => {
       const { id } = socket;
       const transport = socket.conn.transport.name; // in most cases, "polling"
@@ -732,6 +1346,8 @@ export class ApiServer {
 
     const crpcMiddlewareHandler = expressConnectMiddleware({
       routes: crpcRoutesHandler,
+      interceptors: this.createCrpcInterceptors(),
+      contextValues: (req) => createCrpcClientContextValues(req.ip),
     }) as unknown as RequestHandler; // FIXME this cast is not safe
 
     return { svcCount, crpcMiddlewareHandler };
@@ -761,6 +1377,21 @@ export class ApiServer {
     return { svcCount: crpcSvcRegCount, crpcRoutesHandler };
   }
 
+  private createCrpcInterceptors(): Interceptor[] {
+    const interceptors = this.rateLimiter.isEnabled()
+      ? [createCrpcRateLimitInterceptor(this.createRpcRateLimitOptions())]
+      : [];
+    if (this.isJwtAuthorizationEnabled()) {
+      interceptors.push(
+        createCrpcAuthzInterceptor({
+          policy: this.authzPolicy,
+          verifyJwt: (token) => this.verifyJwt(token),
+        }),
+      );
+    }
+    return interceptors;
+  }
+
   async startCrpcServer(): Promise<{
     readonly addressInfoCrpc: AddressInfo;
     readonly crpcUrl: string;
@@ -781,6 +1412,8 @@ export class ApiServer {
       shutdownTimeoutMs: 5000,
       grpc: true,
       grpcWeb: true,
+      interceptors: this.createCrpcInterceptors(),
+      contextValues: (req) => createCrpcClientContextValues(req.ip),
     });
     log.debug("%s Fastify CRPC service registration OK", fn);
 
@@ -840,6 +1473,9 @@ export class ApiServer {
         svcPairs.forEach(({ definition, implementation }) => {
           const svcNames = Object.values(definition).map((x) => x.originalName);
           const svcPaths = Object.values(definition).map((x) => x.path);
+          svcPaths
+            .map((svcPath) => getServiceNameOfMethodPath(svcPath))
+            .forEach((svcName) => this.rpcServicePlugins.set(svcName, x));
           log.debug("%s Adding gRPC svc names %o ...", fnTag, svcNames);
           log.debug("%s Adding gRPC svc paths %o ...", fnTag, svcPaths);
           this.grpcServer.addService(definition, implementation);
@@ -897,7 +1533,10 @@ export class ApiServer {
       const svcRegistrations = await x.createCrpcSvcRegistrations(opts);
       log.debug("%s Got %o Crpc svc defs:", fnTag, svcRegistrations.length);
 
-      svcRegistrations.forEach((it) => out.push(it));
+      svcRegistrations.forEach((it) => {
+        this.rpcServicePlugins.set(it.definition.typeName, x);
+        out.push(it);
+      });
     });
 
     await Promise.all(tasksDone);
@@ -906,7 +1545,7 @@ export class ApiServer {
   }
 
   async startApiServer(): Promise<AddressInfo> {
-    const { options, expressApi: app, wsApi } = this;
+    const { options, expressApi: app } = this;
     const { config } = options;
     const {
       authorizationConfigJson: authzConf,
@@ -935,7 +1574,12 @@ export class ApiServer {
     // Add custom replacer to handle bigint responses correctly
     app.set("json replacer", bigIntToDecimalStringReplacer);
 
-    const authzFactoryOptions = { apiServerOptions, pluginRegistry, logLevel };
+    const authzFactoryOptions = {
+      apiServerOptions,
+      pluginRegistry,
+      logLevel,
+      authzPolicy: this.authzPolicy,
+    };
     const authzFactory = new AuthorizerFactory(authzFactoryOptions);
     await authzFactory.initOnce();
     const authorizerO = await authzFactory.createMiddleware(
@@ -949,34 +1593,19 @@ export class ApiServer {
       this.log.info(`Authorization request handler configured OK.`);
     }
 
+    setExpressAppRateLimiting(app, { rateLimiter: this.rateLimiter });
+    setExpressAppAuthzPolicy(app, this.authzPolicy);
     this.getOrCreateWebServices(app); // The API server's own endpoints
 
+    app.use(this.createPluginWebAppsHandler());
+
     this.log.info(`Starting to install web services...`);
     this.log.info(`openApiValidationOffPkgs: `, openApiValidationOffPkgs);
 
     const webServicesInstalled = pluginRegistry
       .getPlugins()
-      .filter((pluginInstance) => isIPluginWebService(pluginInstance))
-      .map(async (plugin: ICactusPlugin) => {
-        const p = plugin as IPluginWebService;
-        await p.getOrCreateWebServices();
-        const apiSpec = p.getOpenApiSpec() as OpenAPIV3.Document;
-        const pkgName = p.getPackageName();
-        const oApiValidationOn = !openApiValidationOffPkgs.includes(pkgName);
-
-        const ctxPojo = { pkgName, hasSpec: !!apiSpec, oApiValidationOn };
-        const ctx = JSON.stringify(ctxPojo);
-
-        if (apiSpec && oApiValidationOn) {
-          this.log.debug("Installing OpenAPI validator %s", ctx);
-          await installOpenapiValidationMiddleware({ app, apiSpec, logLevel });
-        } else {
-          this.openApiValidationOffPlugins.push(p);
-          this.log.debug("Skipped OpenAPI validator install %s", ctx);
-        }
-        const webSvcs = await p.registerWebServices(app, wsApi);
-        return webSvcs;
-      });
+      .filter((plugin) => !this.startedPluginIds.has(plugin.getInstanceId()))
+      .map((plugin: ICactusPlugin) => this.startPluginInstance(plugin));
 
     const endpoints2D = await Promise.all(webServicesInstalled);
     this.log.info(`Installed ${webServicesInstalled.length} web service(s) OK`);
@@ -1018,7 +1647,23 @@ export class ApiServer {
         },
       });
       this.wsApi.use(socketIoAuthorizer as never);
+      this.wsApi.on("connection", (socket: SocketIoSocket) =>
+        authorizeSocketIoEvents(socket, this.authzPolicy, this.log),
+      );
+    }
+
+    this.logAuthzPolicyReport();
+
+    // Started once the plugins and the Socket.IO server are so that the
+    // subscriptions can be resumed.
+    const protocol = this.options.config.apiTlsEnabled ? "https:" : "http:";
+    const { address, family, port } = addressInfo;
+    let host = family === "IPv6" ? `[${address}]` : address;
+    if (address === "0.0.0.0" || address === "::") {
+      host = "127.0.0.1";
     }
+    const wsApiHost = `${protocol}//${host}:${port}`;
+    await this.webhookService.start(pluginRegistry, wsApiHost);
 
     return addressInfo;
   }
@@ -1037,6 +1682,38 @@ export class ApiServer {
       const { E_NON_EXEMPT_UNPROTECTED_ENDPOINTS } = ApiServer;
       throw new Error(`${E_NON_EXEMPT_UNPROTECTED_ENDPOINTS} ${csv}`);
     }
+
+    if (this.authzPolicy.requireScopes) {
+      const unscoped = this.authzPolicy
+        .getReport()
+        .filter((e) => e.isProtected && e.requiredRoles.length === 0);
+      if (unscoped.length > 0) {
+        const report = this.authzPolicy.formatReport(unscoped);
+        const { E_UNSCOPED_PROTECTED_ENDPOINTS } = ApiServer;
+        throw new Error(`${E_UNSCOPED_PROTECTED_ENDPOINTS}\n${report}`);
+      }
+    }
+  }
+
+  /**
+   * Logs the authorization options of every operation known at startup and
+   * warns about the ones that anyone can invoke.
+   */
+  private logAuthzPolicyReport(): void {
+    const entries = this.authzPolicy.getReport();
+    const unprotected = entries.filter((e) => !e.isProtected);
+    this.log.info(
+      "Authorization policy of %o operation(s):\n%s",
+      entries.length,
+      this.authzPolicy.formatReport(entries),
+    );
+    if (unprotected.length > 0) {
+      this.log.warn(
+        "%o operation(s) can be invoked without authorization:\n%s",
+        unprotected.length,
+        this.authzPolicy.formatReport(unprotected),
+      );
+    }
   }
 
   createCorsMiddleware(allowedDomains: string[]): RequestHandler {
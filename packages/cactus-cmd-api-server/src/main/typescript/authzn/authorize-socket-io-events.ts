@@ -0,0 +1,41 @@
+import type { Socket as SocketIoSocket } from "socket.io";
+
+import { Logger } from "@hyperledger/cactus-common";
+
+import { OperationAuthzPolicy } from "./operation-authz-policy";
+
+/**
+ * Enforces the scopes that the authorization policy requires for the events
+ * (keyed by event name) sent by the client of an already authenticated
+ * Socket.IO connection. The scopes are read from the token that
+ * `@thream/socketio-jwt` decoded when the connection was established.
+ *
+ * Events that lack the required scopes are dropped and never reach the
+ * handlers of the plugins.
+ */
+export function authorizeSocketIoEvents(
+  socket: SocketIoSocket,
+  policy: OperationAuthzPolicy,
+  log: Logger,
+): void {
+  const { decodedToken } = socket as unknown as {
+    decodedToken?: { scope?: unknown };
+  };
+
+  socket.use(([event], next) => {
+    const resolved = policy.resolveOperation("socketio", event);
+    if (
+      !resolved.isProtected ||
+      policy.isAuthorized(resolved, decodedToken?.scope)
+    ) {
+      next();
+    } else {
+      const scopes = resolved.requiredRoles.join(" ");
+      next(new Error(`Insufficient scope for ${event}, required: ${scopes}`));
+    }
+  });
+
+  socket.on("error", (ex: Error) => {
+    log.warn("Socket %s event rejected: %s", socket.id, ex.message);
+  });
+}
@@ -13,7 +13,7 @@ import {
   isIPluginWebService,
   IWebServiceEndpoint,
 } from "@hyperledger/cactus-core-api";
-import { PluginRegistry } from "@hyperledger/cactus-core";
+import { IEndpointAuthzPolicy, PluginRegistry } from "@hyperledger/cactus-core";
 
 import { AuthorizationProtocol } from "../config/authorization-protocol";
 import { ICactusApiServerOptions } from "../config/config-service";
@@ -28,6 +28,11 @@ export interface IAuthorizationConfiguratorOptions {
   logLevel?: LogLevelDesc;
   pluginRegistry: PluginRegistry;
   apiServerOptions: ICactusApiServerOptions;
+  /**
+   * Decides which endpoints are unprotected instead of the endpoints
+   * themselves, if present.
+   */
+  authzPolicy?: IEndpointAuthzPolicy;
 }
 
 export class AuthorizerFactory {
@@ -186,7 +191,11 @@ export class AuthorizerFactory {
 
     for (const ep of endpoints) {
       const authzOptionsProvider = await ep.getAuthorizationOptionsProvider();
-      const { isProtected: isProtected } = await authzOptionsProvider.get();
+      const declared = await authzOptionsProvider.get();
+      const { authzPolicy } = this.opts;
+      const { isProtected } = authzPolicy
+        ? await authzPolicy.resolve(ep, declared)
+        : declared;
       if (!isProtected) {
         unprotectedEndpoints.push(ep);
       }
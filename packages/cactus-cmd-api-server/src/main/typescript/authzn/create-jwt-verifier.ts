@@ -0,0 +1,83 @@
+import { createPublicKey, createSecretKey, KeyObject } from "crypto";
+import type { Request } from "express";
+import type { GetVerificationKey } from "express-jwt";
+import type { Jwt, Secret } from "jsonwebtoken";
+import { decodeJwt, decodeProtectedHeader, jwtVerify, JWTPayload } from "jose";
+
+import { isExpressJwtOptions } from "./is-express-jwt-options-type-guard";
+
+export type JwtVerifier = (token: string) => Promise<JWTPayload>;
+
+/**
+ * Creates a function that verifies JSON web tokens the same way the
+ * express-jwt middleware of the HTTP endpoints does (same key, algorithms,
+ * audience and issuer) for the transports that cannot use express-jwt such
+ * as gRPC.
+ *
+ * @param expressJwtOptions The `expressJwtOptions` of the authorization
+ * configuration. The secret can be a shared secret, a PEM encoded public key,
+ * a key object or a function that looks up the key of each token such as the
+ * `expressJwtSecret()` of jwks-rsa.
+ */
+export function createJwtVerifier(
+  expressJwtOptions: Record<string, unknown>,
+): JwtVerifier {
+  const fnTag = "createJwtVerifier()";
+  if (!isExpressJwtOptions(expressJwtOptions)) {
+    throw new Error(`${fnTag} Invalid expressJwtOptions`);
+  }
+  const { secret, algorithms } = expressJwtOptions;
+  const { audience, issuer } = {
+    audience: "org.hyperledger.cactus", // same default as the HTTP endpoints
+    ...expressJwtOptions,
+  } as { audience?: string | string[]; issuer?: string | string[] };
+  const opts = { algorithms, audience, issuer };
+
+  if (typeof secret !== "function") {
+    const key = toVerificationKey(secret);
+    return async (token: string): Promise<JWTPayload> => {
+      const { payload } = await jwtVerify(token, key, opts);
+      return payload;
+    };
+  }
+
+  return async (token: string): Promise<JWTPayload> => {
+    const key = await getVerificationKey(secret, token);
+    if (!key) {
+      throw new Error(`${fnTag} No key to verify the token with`);
+    }
+    const { payload } = await jwtVerify(token, toVerificationKey(key), opts);
+    return payload;
+  };
+}
+
+/**
+ * Calls the secret function with what express-jwt would pass to it. There is
+ * no HTTP request outside of express so a stand-in carrying the token in its
+ * `authorization` header is passed instead.
+ */
+async function getVerificationKey(
+  secret: GetVerificationKey,
+  token: string,
+): Promise<Secret | undefined> {
+  const decoded: Jwt = {
+    header: decodeProtectedHeader(token) as Jwt["header"],
+    payload: decodeJwt(token),
+    signature: token.split(".")[2] || "",
+  };
+  const req = { headers: { authorization: `Bearer ${token}` } };
+  return secret(req as unknown as Request, decoded);
+}
+
+function toVerificationKey(secret: Secret): KeyObject {
+  if (secret instanceof KeyObject) {
+    return secret;
+  }
+  if (typeof secret === "string" || Buffer.isBuffer(secret)) {
+    const pem = secret.toString();
+    return pem.includes("-----BEGIN")
+      ? createPublicKey(pem)
+      : createSecretKey(Buffer.from(secret));
+  }
+  return createPublicKey(secret.key.toString());
+}
@@ -0,0 +1,54 @@
+import { Code, ConnectError, Interceptor } from "@connectrpc/connect";
+
+import { JwtVerifier } from "./create-jwt-verifier";
+import { OperationAuthzPolicy } from "./operation-authz-policy";
+
+export interface ICrpcAuthzInterceptorOptions {
+  readonly policy: OperationAuthzPolicy;
+  readonly verifyJwt: JwtVerifier;
+}
+
+/**
+ * Creates a Connect RPC interceptor that enforces the authorization policy
+ * of the called method (keyed by its path such as
+ * `/org.hyperledger.cactus.MyService/MyMethod`) with the bearer token found in
+ * the `authorization` header of the request. Calls without a valid token fail
+ * with the code `unauthenticated` and calls whose token lacks the required
+ * scopes fail with `permission_denied`.
+ */
+export function createCrpcAuthzInterceptor(
+  opts: ICrpcAuthzInterceptorOptions,
+): Interceptor {
+  const { policy, verifyJwt } = opts;
+
+  return (next) => async (req) => {
+    const path = `/${req.service.typeName}/${req.method.name}`;
+    const resolved = policy.resolveOperation("crpc", path);
+    if (!resolved.isProtected) {
+      return next(req);
+    }
+
+    const authorization = req.header.get("authorization");
+    const token = authorization?.replace(/^Bearer /i, "");
+    if (!token) {
+      const msg = "No authorization token was found";
+      throw new ConnectError(msg, Code.Unauthenticated);
+    }
+
+    let scopeClaim: unknown;
+    try {
+      ({ scope: scopeClaim } = await verifyJwt(token));
+    } catch (ex: unknown) {
+      throw new ConnectError(
+        "Invalid authorization token",
+        Code.Unauthenticated,
+      );
+    }
+    if (!policy.isAuthorized(resolved, scopeClaim)) {
+      const scopes = resolved.requiredRoles.join(" ");
+      const msg = `Insufficient scope, required: ${scopes}`;
+      throw new ConnectError(msg, Code.PermissionDenied);
+    }
+    return next(req);
+  };
+}
@@ -1,8 +1,11 @@
 import type { AuthorizeOptions as SocketIoJwtOptions } from "@thream/socketio-jwt";
 
+import { IOperationAuthzPolicyConfig } from "./i-operation-authz-policy-config";
+
 export interface IAuthorizationConfig {
   expressJwtOptions: Record<string, unknown>;
   socketIoJwtOptions: SocketIoJwtOptions;
   unprotectedEndpointExemptions: Array<string>;
   socketIoPath?: string;
+  operationAuthzPolicy?: IOperationAuthzPolicyConfig;
 }
@@ -0,0 +1,30 @@
+/**
+ * Overrides the authorization options that an operation declares by itself.
+ * Properties that are left out keep their declared values.
+ */
+export interface IOperationAuthzRule {
+  /**
+   * The OpenAPI `operationId` of an HTTP endpoint, the event name of a
+   * Socket.IO message or the method path of a gRPC or Connect RPC call such
+   * as `/org.hyperledger.cactus.MyService/MyMethod`.
+   */
+  operation: string;
+  isProtected?: boolean;
+  requiredRoles?: string[];
+}
+
+export interface IOperationAuthzPolicyConfig {
+  /**
+   * A list rather than an object keyed by operation since the event names
+   * and method paths contain dots which the configuration schema would take
+   * for nested properties.
+   */
+  operations?: IOperationAuthzRule[];
+  /**
+   * Unless `false`, the API server refuses to start when a protected HTTP
+   * endpoint ends up without any required scopes and refuses the Socket.IO
+   * events and RPC calls of protected operations without required scopes.
+   * Defaults to `true`.
+   */
+  requireScopes?: boolean;
+}
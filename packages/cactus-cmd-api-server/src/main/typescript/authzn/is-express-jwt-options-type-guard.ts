@@ -1,11 +1,18 @@
+import { KeyObject } from "crypto";
+
 import { Strings } from "@hyperledger/cactus-common";
 import { Params } from "express-jwt";
 
 export function isExpressJwtOptions(x: unknown): x is Params {
+  if (!x || typeof x !== "object") {
+    return false;
+  }
+  const { algorithms, secret } = x as Params;
   return (
-    !!x &&
-    typeof x === "object" &&
-    Array.isArray((x as Params).algorithms) &&
-    Strings.isString((x as Params).secret)
+    Array.isArray(algorithms) &&
+    (Strings.isString(secret) ||
+      Buffer.isBuffer(secret) ||
+      secret instanceof KeyObject ||
+      typeof secret === "function")
   );
 }
@@ -0,0 +1,213 @@
+import {
+  Checks,
+  Logger,
+  LoggerProvider,
+  LogLevelDesc,
+} from "@hyperledger/cactus-common";
+import {
+  IEndpointAuthzOptions,
+  IWebServiceEndpoint,
+} from "@hyperledger/cactus-core-api";
+import { IEndpointAuthzPolicy } from "@hyperledger/cactus-core";
+
+import {
+  IOperationAuthzPolicyConfig,
+  IOperationAuthzRule,
+} from "./i-operation-authz-policy-config";
+
+export type AuthzPolicyProtocol = "http" | "socketio" | "grpc" | "crpc";
+
+export interface IAuthzPolicyReportEntry {
+  readonly protocol: AuthzPolicyProtocol;
+  /**
+   * The OpenAPI operationId (or `<VERB> <path>` if the endpoint has none),
+   * the Socket.IO event name or the gRPC/Connect RPC method path.
+   */
+  readonly operation: string;
+  /**
+   * `<VERB> <path>` of HTTP endpoints, the same as `operation` otherwise.
+   */
+  readonly location: string;
+  readonly isProtected: boolean;
+  readonly requiredRoles: string[];
+  /**
+   * Whether the configuration overrode what the operation declared.
+   */
+  readonly overridden: boolean;
+}
+
+export interface IOperationAuthzPolicyOptions {
+  readonly logLevel?: LogLevelDesc;
+  readonly config?: IOperationAuthzPolicyConfig;
+  /**
+   * What the operations that are not HTTP endpoints (Socket.IO events and
+   * RPC methods) declare about themselves, keyed by operation the same way
+   * as the rules of the configuration.
+   */
+  readonly declared?: Record<string, IEndpointAuthzOptions>;
+}
+
+/**
+ * Requiring authentication but no particular scope is what every operation
+ * that has not declared anything about itself gets (secure by default).
+ */
+const DEFAULT_AUTHZ_OPTIONS: IEndpointAuthzOptions = {
+  isProtected: true,
+  requiredRoles: [],
+};
+
+/**
+ * Maps the operations of the API server and its plugins to the scopes that
+ * are required to invoke them. Operations keep the authorization options that
+ * they declared by themselves unless the configuration has a rule for them.
+ *
+ * Every operation that the policy was consulted for is recorded so that the
+ * API server can report on what is (and what is not) protected.
+ */
+export class OperationAuthzPolicy implements IEndpointAuthzPolicy {
+  public static readonly CLASS_NAME = "OperationAuthzPolicy";
+
+  private readonly log: Logger;
+  private readonly operations = new Map<string, IOperationAuthzRule>();
+  private readonly report = new Map<string, IAuthzPolicyReportEntry>();
+
+  public get className(): string {
+    return OperationAuthzPolicy.CLASS_NAME;
+  }
+
+  /**
+   * Protected operations without required scopes are refused unless the
+   * configuration opted out explicitly (fail closed).
+   */
+  public get requireScopes(): boolean {
+    return this.opts.config?.requireScopes !== false;
+  }
+
+  constructor(public readonly opts: IOperationAuthzPolicyOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(opts, `${fnTag} arg opts`);
+
+    const operations = opts.config?.operations || [];
+    Checks.truthy(Array.isArray(operations), `${fnTag} operations array`);
+    operations.forEach((rule, idx) => {
+      const { operation, requiredRoles } = rule;
+      Checks.nonBlankString(operation, `${fnTag} operations[${idx}].operation`);
+      Checks.truthy(
+        requiredRoles === undefined || Array.isArray(requiredRoles),
+        `${fnTag} operations[${idx}].requiredRoles must be an array`,
+      );
+      Checks.truthy(
+        !this.operations.has(operation),
+        `${fnTag} operations[${idx}] duplicates the rule of ${operation}`,
+      );
+      this.operations.set(operation, rule);
+    });
+
+    const level = opts.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  public async resolve(
+    endpoint: IWebServiceEndpoint,
+    declared: IEndpointAuthzOptions,
+  ): Promise<IEndpointAuthzOptions> {
+    const operationId = endpoint.getOperationId
+      ? endpoint.getOperationId()
+      : undefined;
+    const verb = endpoint.getVerbLowerCase().toUpperCase();
+    const location = `${verb} ${endpoint.getPath()}`;
+    const operation = operationId || location;
+    return this.resolveOperation("http", operation, declared, location);
+  }
+
+  /**
+   * @param protocol The protocol the operation is invoked through.
+   * @param operation The identifier of the operation.
+   * @param declared What the operation declared about itself, if anything.
+   * @param location Where the operation is served, if it differs from its
+   * identifier (operationIds are not guaranteed to be unique across plugins).
+   */
+  public resolveOperation(
+    protocol: AuthzPolicyProtocol,
+    operation: string,
+    declared: IEndpointAuthzOptions = this.opts.declared?.[operation] ||
+      DEFAULT_AUTHZ_OPTIONS,
+    location: string = operation,
+  ): IEndpointAuthzOptions {
+    const rule = this.operations.get(operation);
+    const resolved: IEndpointAuthzOptions = {
+      isProtected: rule?.isProtected ?? declared.isProtected,
+      requiredRoles: rule?.requiredRoles ?? declared.requiredRoles,
+    };
+    const key = `${protocol}:${location}`;
+    if (!this.report.has(key)) {
+      this.log.debug("Resolved %s %s: %o", protocol, operation, resolved);
+    }
+    this.report.set(key, {
+      protocol,
+      operation,
+      location,
+      ...resolved,
+      overridden: !!rule,
+    });
+    return resolved;
+  }
+
+  /**
+   * Checks the scope claim of a JSON web token against the resolved options
+   * of a protected operation. Operations without required scopes are refused
+   * if `requireScopes` is on, since they cannot be checked at startup when
+   * they are not HTTP endpoints.
+   */
+  public isAuthorized(
+    resolved: IEndpointAuthzOptions,
+    scopeClaim: unknown,
+  ): boolean {
+    if (this.requireScopes && resolved.requiredRoles.length === 0) {
+      return false;
+    }
+    return isScopeClaimSatisfying(scopeClaim, resolved.requiredRoles);
+  }
+
+  public getReport(): IAuthzPolicyReportEntry[] {
+    return Array.from(this.report.values());
+  }
+
+  /**
+   * Formats the entries as lines of text such as
+   * `http createWebhookSubscriptionV1 (POST /api/v1/...) protected [write:webhooks]`
+   */
+  public formatReport(entries = this.getReport()): string {
+    return entries
+      .map((e) => {
+        const protection = e.isProtected ? "protected" : "UNPROTECTED";
+        const roles = `[${e.requiredRoles.join(", ")}]`;
+        const overridden = e.overridden ? " (overridden by config)" : "";
+        const where = e.location === e.operation ? "" : ` (${e.location})`;
+        return `${e.protocol} ${e.operation}${where} ${protection} ${roles}${overridden}`;
+      })
+      .join("\n");
+  }
+}
+
+/**
+ * Checks the scope claim of a JSON web token the same way the HTTP endpoints
+ * do: the claim can be a space separated string or an array of strings and
+ * it has to contain all of the required scopes.
+ */
+export function isScopeClaimSatisfying(
+  scopeClaim: unknown,
+  requiredScopes: string[],
+): boolean {
+  if (requiredScopes.length === 0) {
+    return true;
+  }
+  let scopes: unknown[] = [];
+  if (typeof scopeClaim === "string") {
+    scopes = scopeClaim.split(" ");
+  } else if (Array.isArray(scopeClaim)) {
+    scopes = scopeClaim;
+  }
+  return requiredScopes.every((scope) => scopes.includes(scope));
+}
@@ -31,6 +31,8 @@ export interface ICactusApiServerOptions {
   crpcPort: number;
   crpcHost: string;
   pluginManagerOptionsJson: string;
+  webhookOptionsJson: string;
+  rateLimitConfigJson: string;
   authorizationProtocol: AuthorizationProtocol;
   authorizationConfigJson: IAuthorizationConfig;
   configFile: string;
@@ -131,6 +133,28 @@ export class ConfigService {
         env: "PLUGIN_MANAGER_OPTIONS_JSON",
         arg: "plugin-manager-options-json",
       },
+      webhookOptionsJson: {
+        doc:
+          "Options of the outbound webhook deliveries as a JSON object with the optional " +
+          "properties outboxDir (where pending deliveries are persisted), maxAttempts, " +
+          "initialBackoffMs, maxBackoffMs and requestTimeoutMs.",
+        format: "*",
+        default: "{}",
+        env: "WEBHOOK_OPTIONS_JSON",
+        arg: "webhook-options-json",
+      },
+      rateLimitConfigJson: {
+        doc:
+          "Token bucket rate limits of the HTTP, gRPC and Connect RPC endpoints as a JSON " +
+          "object with the optional properties keyBy (JWT_SUBJECT, IP or API_KEY), " +
+          "apiKeyHeader, global, plugins (keyed by instance ID or package name) and paths " +
+          "(keyed by HTTP or RPC method path) where each rule is an object of " +
+          "{ capacity, refillPerSecond, keyBy? }. Empty means no rate limiting.",
+        format: "*",
+        default: "{}",
+        env: "RATE_LIMIT_CONFIG_JSON",
+        arg: "rate-limit-config-json",
+      },
       authorizationProtocol: {
         doc:
           "The name of the authorization protocol to use. Accepted values" +
@@ -592,6 +616,8 @@ export class ConfigService {
       crpcHost: (schema.crpcHost as SchemaObj).default,
       crpcPort: (schema.crpcPort as SchemaObj).default,
       pluginManagerOptionsJson: "{}",
+      webhookOptionsJson: "{}",
+      rateLimitConfigJson: "{}",
       authorizationProtocol: AuthorizationProtocol.JSON_WEB_TOKEN,
       authorizationConfigJson,
       configFile: ".config.json",
@@ -36,6 +36,55 @@ export interface CmdApiServerEndpointErrorResponse {
      */
     'message'?: string;
 }
+/**
+ * 
+ * @export
+ * @interface CreateWebhookSubscriptionV1Request
+ */
+export interface CreateWebhookSubscriptionV1Request {
+    /**
+     * The http(s) URL to POST the events to.
+     * @type {string}
+     * @memberof CreateWebhookSubscriptionV1Request
+     */
+    'targetUrl': string;
+    /**
+     * The instanceId of the connector plugin to source the events from.
+     * @type {string}
+     * @memberof CreateWebhookSubscriptionV1Request
+     */
+    'ledgerPluginInstanceId': string;
+    /**
+     * The key of the HMAC-SHA256 signature sent along with every delivery in the X-Cacti-Webhook-Signature header.
+     * @type {string}
+     * @memberof CreateWebhookSubscriptionV1Request
+     */
+    'secret': string;
+    /**
+     * 
+     * @type {LedgerEventFilterV1}
+     * @memberof CreateWebhookSubscriptionV1Request
+     */
+    'filter'?: LedgerEventFilterV1;
+    /**
+     * The number of the first block to deliver events of. Defaults to the block following the latest one.
+     * @type {number}
+     * @memberof CreateWebhookSubscriptionV1Request
+     */
+    'fromBlock'?: number;
+    /**
+     * Connector specific subscription options that are passed on to the ledger event source as is, for example the channelName and gatewayOptions of the Fabric connector.
+     * @type {{ [key: string]: any; }}
+     * @memberof CreateWebhookSubscriptionV1Request
+     */
+    'sourceOptions'?: { [key: string]: any; };
+    /**
+     * 
+     * @type {WebhookWatchBlocksSourceV1}
+     * @memberof CreateWebhookSubscriptionV1Request
+     */
+    'watchBlocks'?: WebhookWatchBlocksSourceV1;
+}
 /**
  * 
  * @export
@@ -61,6 +110,219 @@ export interface HealthCheckResponse {
      */
     'memoryUsage': MemoryUsage;
 }
+/**
+ * 
+ * @export
+ * @interface InstallPluginV1Request
+ */
+export interface InstallPluginV1Request {
+    /**
+     * 
+     * @type {PluginImport}
+     * @memberof InstallPluginV1Request
+     */
+    'pluginImport': PluginImport;
+}
+/**
+ * The position of an event on the ledger. Cursors are totally ordered (by block number, then transaction index, then event index) and are stable across subscriptions, so the cursor of the last processed event can be used to resume a subscription.
+ * @export
+ * @interface LedgerEventCursorV1
+ */
+export interface LedgerEventCursorV1 {
+    /**
+     * 
+     * @type {number}
+     * @memberof LedgerEventCursorV1
+     */
+    'blockNumber': number;
+    /**
+     * The index of the transaction within the block. Absent for BLOCK events.
+     * @type {number}
+     * @memberof LedgerEventCursorV1
+     */
+    'transactionIndex'?: number;
+    /**
+     * The index of the contract event within the block (EVM log index) or the transaction (Fabric). Only present for CONTRACT_EVENT events.
+     * @type {number}
+     * @memberof LedgerEventCursorV1
+     */
+    'eventIndex'?: number;
+}
+/**
+ * Selects the events of a subscription. An event is delivered only if it matches every criterion that is specified. A criterion is matched if the respective attribute of the event equals any of the listed values, events without that attribute never match it.
+ * @export
+ * @interface LedgerEventFilterV1
+ */
+export interface LedgerEventFilterV1 {
+    /**
+     * 
+     * @type {Array<LedgerEventTypeV1>}
+     * @memberof LedgerEventFilterV1
+     */
+    'eventTypes'?: Array<LedgerEventTypeV1>;
+    /**
+     * EVM contract addresses (compared case-insensitively), Fabric chaincode names, Sawtooth transaction family names or Stellar contract IDs.
+     * @type {Array<string>}
+     * @memberof LedgerEventFilterV1
+     */
+    'contractAddresses'?: Array<string>;
+    /**
+     * Names of contract events, e.g. the Fabric chaincode event names.
+     * @type {Array<string>}
+     * @memberof LedgerEventFilterV1
+     */
+    'eventNames'?: Array<string>;
+    /**
+     * EVM log topics (compared case-insensitively). A log matches if any of its topics is listed.
+     * @type {Array<string>}
+     * @memberof LedgerEventFilterV1
+     */
+    'topics'?: Array<string>;
+}
+/**
+ * The kinds of events a ledger event source emits. Every block is reported with a BLOCK event followed by a TRANSACTION event for each of its transactions, each of which is followed by the CONTRACT_EVENTs it emitted.
+ * @export
+ * @enum {string}
+ */
+
+export const LedgerEventTypeV1 = {
+    Block: 'BLOCK',
+    Transaction: 'TRANSACTION',
+    ContractEvent: 'CONTRACT_EVENT'
+} as const;
+
+export type LedgerEventTypeV1 = typeof LedgerEventTypeV1[keyof typeof LedgerEventTypeV1];
+
+
+/**
+ * Ledger agnostic envelope of a block, transaction or contract event.
+ * @export
+ * @interface LedgerEventV1
+ */
+export interface LedgerEventV1 {
+    /**
+     * 
+     * @type {LedgerEventTypeV1}
+     * @memberof LedgerEventV1
+     */
+    'eventType': LedgerEventTypeV1;
+    /**
+     * The instance ID of the plugin that emitted the event.
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'sourceId': string;
+    /**
+     * 
+     * @type {LedgerEventCursorV1}
+     * @memberof LedgerEventV1
+     */
+    'cursor': LedgerEventCursorV1;
+    /**
+     * 
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'blockHash'?: string;
+    /**
+     * When the block was created, if the ledger records it.
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'timestamp'?: string;
+    /**
+     * The hash (EVM) or the ID (Fabric) of the transaction. Absent for BLOCK events.
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'transactionId'?: string;
+    /**
+     * The contract (EVM) or chaincode (Fabric) that was invoked or that emitted the event.
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'contractAddress'?: string;
+    /**
+     * The name of the contract event, if the ledger records it.
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'eventName'?: string;
+    /**
+     * The topics of an EVM log.
+     * @type {Array<string>}
+     * @memberof LedgerEventV1
+     */
+    'topics'?: Array<string>;
+    /**
+     * The ledger specific representation of the block, transaction or contract event.
+     * @type {any | null}
+     * @memberof LedgerEventV1
+     */
+    'payload'?: any | null;
+}
+
+
+/**
+ * 
+ * @export
+ * @interface ListPluginsV1Response
+ */
+export interface ListPluginsV1Response {
+    /**
+     * 
+     * @type {Array<PluginInstanceV1>}
+     * @memberof ListPluginsV1Response
+     */
+    'plugins': Array<PluginInstanceV1>;
+}
+/**
+ * 
+ * @export
+ * @interface ListWebhookDeliveriesV1Request
+ */
+export interface ListWebhookDeliveriesV1Request {
+    /**
+     * Only list the deliveries of this subscription.
+     * @type {string}
+     * @memberof ListWebhookDeliveriesV1Request
+     */
+    'subscriptionId'?: string;
+    /**
+     * 
+     * @type {WebhookDeliveryStatusV1}
+     * @memberof ListWebhookDeliveriesV1Request
+     */
+    'status'?: WebhookDeliveryStatusV1;
+}
+
+
+/**
+ * 
+ * @export
+ * @interface ListWebhookDeliveriesV1Response
+ */
+export interface ListWebhookDeliveriesV1Response {
+    /**
+     * 
+     * @type {Array<WebhookDeliveryV1>}
+     * @memberof ListWebhookDeliveriesV1Response
+     */
+    'deliveries': Array<WebhookDeliveryV1>;
+}
+/**
+ * 
+ * @export
+ * @interface ListWebhookSubscriptionsV1Response
+ */
+export interface ListWebhookSubscriptionsV1Response {
+    /**
+     * 
+     * @type {Array<WebhookSubscriptionV1>}
+     * @memberof ListWebhookSubscriptionsV1Response
+     */
+    'subscriptions': Array<WebhookSubscriptionV1>;
+}
 /**
  * 
  * @export
@@ -101,35 +363,789 @@ export interface MemoryUsage {
 /**
  * 
  * @export
+ * @interface PluginImport
+ */
+export interface PluginImport {
+    /**
+     * 
+     * @type {string}
+     * @memberof PluginImport
+     */
+    'packageName': string;
+    /**
+     * 
+     * @type {PluginImportType}
+     * @memberof PluginImport
+     */
+    'type': PluginImportType;
+    /**
+     * 
+     * @type {PluginImportAction}
+     * @memberof PluginImport
+     */
+    'action': PluginImportAction;
+    /**
+     * 
+     * @type {any}
+     * @memberof PluginImport
+     */
+    'options'?: any;
+}
+
+
+/**
+ * 
+ * @export
+ * @enum {string}
+ */
+
+export const PluginImportAction = {
+    Instantiate: 'org.hyperledger.cactus.plugin_import_action.INSTANTIATE',
+    Install: 'org.hyperledger.cactus.plugin_import_action.INSTALL'
+} as const;
+
+export type PluginImportAction = typeof PluginImportAction[keyof typeof PluginImportAction];
+
+
+/**
+ * 
+ * @export
+ * @enum {string}
+ */
+
+export const PluginImportType = {
+    Local: 'org.hyperledger.cactus.plugin_import_type.LOCAL',
+    Remote: 'org.hyperledger.cactus.plugin_import_type.REMOTE'
+} as const;
+
+export type PluginImportType = typeof PluginImportType[keyof typeof PluginImportType];
+
+
+/**
+ * 
+ * @export
+ * @interface PluginInstanceIdV1Request
+ */
+export interface PluginInstanceIdV1Request {
+    /**
+     * The instanceId of the plugin to operate on.
+     * @type {string}
+     * @memberof PluginInstanceIdV1Request
+     */
+    'instanceId': string;
+}
+/**
+ * 
+ * @export
+ * @interface PluginInstanceV1
+ */
+export interface PluginInstanceV1 {
+    /**
+     * 
+     * @type {string}
+     * @memberof PluginInstanceV1
+     */
+    'instanceId': string;
+    /**
+     * 
+     * @type {string}
+     * @memberof PluginInstanceV1
+     */
+    'packageName': string;
+    /**
+     * 
+     * @type {PluginLifecycleStatusV1}
+     * @memberof PluginInstanceV1
+     */
+    'status': PluginLifecycleStatusV1;
+}
+
+
+/**
+ * The lifecycle status of a plugin instance that is present in the plugin registry of the API server.
+ * @export
+ * @enum {string}
+ */
+
+export const PluginLifecycleStatusV1 = {
+    Running: 'RUNNING',
+    Stopped: 'STOPPED'
+} as const;
+
+export type PluginLifecycleStatusV1 = typeof PluginLifecycleStatusV1[keyof typeof PluginLifecycleStatusV1];
+
+
+/**
+ * 
+ * @export
+ * @interface ReloadPluginV1Request
+ */
+export interface ReloadPluginV1Request {
+    /**
+     * The instanceId of the plugin to reload.
+     * @type {string}
+     * @memberof ReloadPluginV1Request
+     */
+    'instanceId': string;
+    /**
+     * 
+     * @type {PluginImport}
+     * @memberof ReloadPluginV1Request
+     */
+    'pluginImport'?: PluginImport;
+}
+/**
+ * Selects the dead letters to replay. Every dead letter is replayed if neither property is specified.
+ * @export
+ * @interface ReplayWebhookDeliveriesV1Request
+ */
+export interface ReplayWebhookDeliveriesV1Request {
+    /**
+     * Only replay the dead letters of this subscription.
+     * @type {string}
+     * @memberof ReplayWebhookDeliveriesV1Request
+     */
+    'subscriptionId'?: string;
+    /**
+     * Only replay the dead letters with these IDs.
+     * @type {Array<string>}
+     * @memberof ReplayWebhookDeliveriesV1Request
+     */
+    'deliveryIds'?: Array<string>;
+}
+/**
+ * 
+ * @export
+ * @enum {string}
+ */
+
+export const WatchHealthcheckV1 = {
+    Subscribe: 'org.hyperledger.cactus.api.async.besu.WatchHealthcheckV1.Subscribe',
+    Next: 'org.hyperledger.cactus.api.async.besu.WatchHealthcheckV1.Next',
+    Unsubscribe: 'org.hyperledger.cactus.api.async.besu.WatchHealthcheckV1.Unsubscribe',
+    Error: 'org.hyperledger.cactus.api.async.besu.WatchHealthcheckV1.Error',
+    Complete: 'org.hyperledger.cactus.api.async.besu.WatchHealthcheckV1.Complete'
+} as const;
+
+export type WatchHealthcheckV1 = typeof WatchHealthcheckV1[keyof typeof WatchHealthcheckV1];
+/**
+ * The status of a delivery in the outbox. Successful deliveries are removed from the outbox, deliveries that ran out of attempts are kept as dead letters until they are replayed or their subscription is deleted.
+ * @export
  * @enum {string}
  */
 
-export const WatchHealthcheckV1 = {
-    Subscribe: 'org.hyperledger.cactus.api.async.besu.WatchHealthcheckV1.Subscribe',
-    Next: 'org.hyperledger.cactus.api.async.besu.WatchHealthcheckV1.Next',
-    Unsubscribe: 'org.hyperledger.cactus.api.async.besu.WatchHealthcheckV1.Unsubscribe',
-    Error: 'org.hyperledger.cactus.api.async.besu.WatchHealthcheckV1.Error',
-    Complete: 'org.hyperledger.cactus.api.async.besu.WatchHealthcheckV1.Complete'
-} as const;
+export const WebhookDeliveryStatusV1 = {
+    Pending: 'PENDING',
+    DeadLetter: 'DEAD_LETTER'
+} as const;
+
+export type WebhookDeliveryStatusV1 = typeof WebhookDeliveryStatusV1[keyof typeof WebhookDeliveryStatusV1];
+
+
+/**
+ * A ledger event waiting in the outbox to be delivered to the target URL of a webhook subscription.
+ * @export
+ * @interface WebhookDeliveryV1
+ */
+export interface WebhookDeliveryV1 {
+    /**
+     * 
+     * @type {string}
+     * @memberof WebhookDeliveryV1
+     */
+    'id': string;
+    /**
+     * 
+     * @type {string}
+     * @memberof WebhookDeliveryV1
+     */
+    'subscriptionId': string;
+    /**
+     * 
+     * @type {LedgerEventV1}
+     * @memberof WebhookDeliveryV1
+     */
+    'event': LedgerEventV1;
+    /**
+     * 
+     * @type {WebhookDeliveryStatusV1}
+     * @memberof WebhookDeliveryV1
+     */
+    'status': WebhookDeliveryStatusV1;
+    /**
+     * The number of failed delivery attempts so far.
+     * @type {number}
+     * @memberof WebhookDeliveryV1
+     */
+    'attempts': number;
+    /**
+     * 
+     * @type {string}
+     * @memberof WebhookDeliveryV1
+     */
+    'nextAttemptAt': string;
+    /**
+     * Why the last delivery attempt failed.
+     * @type {string}
+     * @memberof WebhookDeliveryV1
+     */
+    'lastError'?: string;
+    /**
+     * 
+     * @type {string}
+     * @memberof WebhookDeliveryV1
+     */
+    'createdAt': string;
+}
+
+
+/**
+ * The JSON body POSTed to the target URL of a webhook subscription. An event may be delivered more than once, consumers can use the delivery ID to deduplicate and the cursor of the event to order them.
+ * @export
+ * @interface WebhookPayloadV1
+ */
+export interface WebhookPayloadV1 {
+    /**
+     * 
+     * @type {string}
+     * @memberof WebhookPayloadV1
+     */
+    'deliveryId': string;
+    /**
+     * 
+     * @type {string}
+     * @memberof WebhookPayloadV1
+     */
+    'subscriptionId': string;
+    /**
+     * 
+     * @type {LedgerEventV1}
+     * @memberof WebhookPayloadV1
+     */
+    'event': LedgerEventV1;
+}
+/**
+ * 
+ * @export
+ * @interface WebhookSubscriptionIdV1Request
+ */
+export interface WebhookSubscriptionIdV1Request {
+    /**
+     * The ID of the webhook subscription to operate on.
+     * @type {string}
+     * @memberof WebhookSubscriptionIdV1Request
+     */
+    'subscriptionId': string;
+}
+/**
+ * A webhook subscription forwarding the events of a connector plugin to an HTTP endpoint. The HMAC secret of the subscription is never returned.
+ * @export
+ * @interface WebhookSubscriptionV1
+ */
+export interface WebhookSubscriptionV1 {
+    /**
+     * 
+     * @type {string}
+     * @memberof WebhookSubscriptionV1
+     */
+    'id': string;
+    /**
+     * The URL the events are POSTed to.
+     * @type {string}
+     * @memberof WebhookSubscriptionV1
+     */
+    'targetUrl': string;
+    /**
+     * The instanceId of the connector plugin that the events are sourced from, through its ledger event source (IPluginLedgerEventSource) unless watchBlocks is specified.
+     * @type {string}
+     * @memberof WebhookSubscriptionV1
+     */
+    'ledgerPluginInstanceId': string;
+    /**
+     * 
+     * @type {LedgerEventFilterV1}
+     * @memberof WebhookSubscriptionV1
+     */
+    'filter'?: LedgerEventFilterV1;
+    /**
+     * 
+     * @type {WebhookWatchBlocksSourceV1}
+     * @memberof WebhookSubscriptionV1
+     */
+    'watchBlocks'?: WebhookWatchBlocksSourceV1;
+    /**
+     * 
+     * @type {LedgerEventCursorV1}
+     * @memberof WebhookSubscriptionV1
+     */
+    'cursor'?: LedgerEventCursorV1;
+    /**
+     * 
+     * @type {string}
+     * @memberof WebhookSubscriptionV1
+     */
+    'createdAt': string;
+}
+/**
+ * Sources the events of a webhook subscription from the Socket.IO block watcher (the WatchBlocksV1 endpoint) of the connector instead of its ledger event source. Every message of the watcher is delivered as a BLOCK event with the message as its payload, so filter and fromBlock do not apply.
+ * @export
+ * @interface WebhookWatchBlocksSourceV1
+ */
+export interface WebhookWatchBlocksSourceV1 {
+    /**
+     * The common prefix of the Socket.IO events of the block watcher, for example org.hyperledger.cacti.api.async.ethereum.WatchBlocksV1 whose events are .Subscribe, .Next, .Error, .Complete and .Unsubscribe.
+     * @type {string}
+     * @memberof WebhookWatchBlocksSourceV1
+     */
+    'eventNamespace': string;
+    /**
+     * The connector specific options sent along with the Subscribe event, for example the channelName, gatewayOptions and type of the Fabric connector.
+     * @type {{ [key: string]: any; }}
+     * @memberof WebhookWatchBlocksSourceV1
+     */
+    'subscribeOptions'?: { [key: string]: any; };
+    /**
+     * The dot separated path of the block number in the messages of the block watcher, for example blockHeader.number. It is the cursor of the delivered events.
+     * @type {string}
+     * @memberof WebhookWatchBlocksSourceV1
+     */
+    'blockNumberPath': string;
+    /**
+     * The name of the subscribe option that takes the number of the block following the cursor when the subscription is resumed, for example startBlock for the Fabric and Iroha V2 connectors. Without it a resumed subscription starts at the latest block of the ledger.
+     * @type {string}
+     * @memberof WebhookWatchBlocksSourceV1
+     */
+    'startBlockOption'?: string;
+}
+
+
+
+/**
+ * DefaultApi - axios parameter creator
+ * @export
+ */
+export const DefaultApiAxiosParamCreator = function (configuration?: Configuration) {
+    return {
+        /**
+         * Starts forwarding the events of a ledger event source plugin that match the filter to the target URL. The events are persisted to the outbox of the API server before they are delivered and failed deliveries are retried with exponential backoff.
+         * @summary Subscribes an HTTP endpoint to the events of a ledger
+         * @param {CreateWebhookSubscriptionV1Request} createWebhookSubscriptionV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        createWebhookSubscriptionV1: async (createWebhookSubscriptionV1Request: CreateWebhookSubscriptionV1Request, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'createWebhookSubscriptionV1Request' is not null or undefined
+            assertParamExists('createWebhookSubscriptionV1', 'createWebhookSubscriptionV1Request', createWebhookSubscriptionV1Request)
+            const localVarPath = `/api/v1/api-server/webhooks/create-subscription`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(createWebhookSubscriptionV1Request, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Stops sourcing events for the subscription and removes its pending deliveries and dead letters from the outbox.
+         * @summary Deletes a webhook subscription
+         * @param {WebhookSubscriptionIdV1Request} webhookSubscriptionIdV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        deleteWebhookSubscriptionV1: async (webhookSubscriptionIdV1Request: WebhookSubscriptionIdV1Request, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'webhookSubscriptionIdV1Request' is not null or undefined
+            assertParamExists('deleteWebhookSubscriptionV1', 'webhookSubscriptionIdV1Request', webhookSubscriptionIdV1Request)
+            const localVarPath = `/api/v1/api-server/webhooks/delete-subscription`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(webhookSubscriptionIdV1Request, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Returns the current timestamp of the API server as proof of health/liveness
+         * @summary Can be used to verify liveness of an API server instance
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getHealthCheckV1: async (options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            const localVarPath = `/api/v1/api-server/healthcheck`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
+
+
+    
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Returns the openapi.json document of specific plugin.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getOpenApiSpecV1: async (options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            const localVarPath = `/api/v1/api-server/get-open-api-spec`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
+
+
+    
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * 
+         * @summary Get the Prometheus Metrics
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getPrometheusMetricsV1: async (options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            const localVarPath = `/api/v1/api-server/get-prometheus-exporter-metrics`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
+
+
+    
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Installs the package of the plugin import (if its action says so), instantiates the plugin, adds it to the plugin registry and registers its web services without restarting the API server.
+         * @summary Installs and starts a plugin at runtime
+         * @param {InstallPluginV1Request} installPluginV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        installPluginV1: async (installPluginV1Request: InstallPluginV1Request, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'installPluginV1Request' is not null or undefined
+            assertParamExists('installPluginV1', 'installPluginV1Request', installPluginV1Request)
+            const localVarPath = `/api/v1/api-server/plugins/install-plugin`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(installPluginV1Request, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Returns the instanceId, package name and lifecycle status of every plugin in the plugin registry of the API server.
+         * @summary Lists the plugin instances of the API server
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listPluginsV1: async (options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            const localVarPath = `/api/v1/api-server/plugins/list-plugins`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
+
+
+    
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Returns the pending deliveries and the dead letters in the outbox, optionally only those of a subscription or with a status.
+         * @summary Lists the deliveries in the outbox
+         * @param {ListWebhookDeliveriesV1Request} listWebhookDeliveriesV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listWebhookDeliveriesV1: async (listWebhookDeliveriesV1Request: ListWebhookDeliveriesV1Request, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'listWebhookDeliveriesV1Request' is not null or undefined
+            assertParamExists('listWebhookDeliveriesV1', 'listWebhookDeliveriesV1Request', listWebhookDeliveriesV1Request)
+            const localVarPath = `/api/v1/api-server/webhooks/list-deliveries`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(listWebhookDeliveriesV1Request, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * 
+         * @summary Lists the webhook subscriptions of the API server
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listWebhookSubscriptionsV1: async (options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            const localVarPath = `/api/v1/api-server/webhooks/list-subscriptions`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
+
+
+    
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Stops the plugin instance, re-installs and re-instantiates it from its (optionally updated) plugin import and then starts it again.
+         * @summary Reloads a plugin
+         * @param {ReloadPluginV1Request} reloadPluginV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        reloadPluginV1: async (reloadPluginV1Request: ReloadPluginV1Request, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'reloadPluginV1Request' is not null or undefined
+            assertParamExists('reloadPluginV1', 'reloadPluginV1Request', reloadPluginV1Request)
+            const localVarPath = `/api/v1/api-server/plugins/reload-plugin`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(reloadPluginV1Request, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Stops the plugin instance and removes it from the plugin registry of the API server.
+         * @summary Removes a plugin
+         * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        removePluginV1: async (pluginInstanceIdV1Request: PluginInstanceIdV1Request, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'pluginInstanceIdV1Request' is not null or undefined
+            assertParamExists('removePluginV1', 'pluginInstanceIdV1Request', pluginInstanceIdV1Request)
+            const localVarPath = `/api/v1/api-server/plugins/remove-plugin`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
 
-export type WatchHealthcheckV1 = typeof WatchHealthcheckV1[keyof typeof WatchHealthcheckV1];
+            // authentication bearerTokenAuth required
+            // http bearer authentication required
+            await setBearerAuthToObject(localVarHeaderParameter, configuration)
 
 
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
 
-/**
- * DefaultApi - axios parameter creator
- * @export
- */
-export const DefaultApiAxiosParamCreator = function (configuration?: Configuration) {
-    return {
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(pluginInstanceIdV1Request, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
         /**
-         * Returns the current timestamp of the API server as proof of health/liveness
-         * @summary Can be used to verify liveness of an API server instance
+         * Resets the attempts of the selected dead letters and puts them back in the queue of pending deliveries.
+         * @summary Replays dead letters
+         * @param {ReplayWebhookDeliveriesV1Request} replayWebhookDeliveriesV1Request 
          * @param {*} [options] Override http request option.
          * @throws {RequiredError}
          */
-        getHealthCheckV1: async (options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
-            const localVarPath = `/api/v1/api-server/healthcheck`;
+        replayWebhookDeliveriesV1: async (replayWebhookDeliveriesV1Request: ReplayWebhookDeliveriesV1Request, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'replayWebhookDeliveriesV1Request' is not null or undefined
+            assertParamExists('replayWebhookDeliveriesV1', 'replayWebhookDeliveriesV1Request', replayWebhookDeliveriesV1Request)
+            const localVarPath = `/api/v1/api-server/webhooks/replay-deliveries`;
             // use dummy base URL string because the URL constructor only accepts absolute URLs.
             const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
             let baseOptions;
@@ -137,7 +1153,7 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
                 baseOptions = configuration.baseOptions;
             }
 
-            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
             const localVarHeaderParameter = {} as any;
             const localVarQueryParameter = {} as any;
 
@@ -147,9 +1163,12 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
 
 
     
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
             setSearchParams(localVarUrlObj, localVarQueryParameter);
             let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
             localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(replayWebhookDeliveriesV1Request, localVarRequestOptions, configuration)
 
             return {
                 url: toPathString(localVarUrlObj),
@@ -157,12 +1176,16 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
             };
         },
         /**
-         * Returns the openapi.json document of specific plugin.
+         * Registers the web services of a plugin instance that is present in the plugin registry but is not serving requests.
+         * @summary Starts a stopped plugin
+         * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
          * @param {*} [options] Override http request option.
          * @throws {RequiredError}
          */
-        getOpenApiSpecV1: async (options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
-            const localVarPath = `/api/v1/api-server/get-open-api-spec`;
+        startPluginV1: async (pluginInstanceIdV1Request: PluginInstanceIdV1Request, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'pluginInstanceIdV1Request' is not null or undefined
+            assertParamExists('startPluginV1', 'pluginInstanceIdV1Request', pluginInstanceIdV1Request)
+            const localVarPath = `/api/v1/api-server/plugins/start-plugin`;
             // use dummy base URL string because the URL constructor only accepts absolute URLs.
             const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
             let baseOptions;
@@ -170,7 +1193,7 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
                 baseOptions = configuration.baseOptions;
             }
 
-            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
             const localVarHeaderParameter = {} as any;
             const localVarQueryParameter = {} as any;
 
@@ -180,9 +1203,12 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
 
 
     
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
             setSearchParams(localVarUrlObj, localVarQueryParameter);
             let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
             localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(pluginInstanceIdV1Request, localVarRequestOptions, configuration)
 
             return {
                 url: toPathString(localVarUrlObj),
@@ -190,13 +1216,16 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
             };
         },
         /**
-         * 
-         * @summary Get the Prometheus Metrics
+         * Unregisters the web services of a plugin instance and shuts it down while leaving it in the plugin registry.
+         * @summary Stops a running plugin
+         * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
          * @param {*} [options] Override http request option.
          * @throws {RequiredError}
          */
-        getPrometheusMetricsV1: async (options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
-            const localVarPath = `/api/v1/api-server/get-prometheus-exporter-metrics`;
+        stopPluginV1: async (pluginInstanceIdV1Request: PluginInstanceIdV1Request, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'pluginInstanceIdV1Request' is not null or undefined
+            assertParamExists('stopPluginV1', 'pluginInstanceIdV1Request', pluginInstanceIdV1Request)
+            const localVarPath = `/api/v1/api-server/plugins/stop-plugin`;
             // use dummy base URL string because the URL constructor only accepts absolute URLs.
             const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
             let baseOptions;
@@ -204,7 +1233,7 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
                 baseOptions = configuration.baseOptions;
             }
 
-            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
             const localVarHeaderParameter = {} as any;
             const localVarQueryParameter = {} as any;
 
@@ -214,9 +1243,12 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
 
 
     
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
             setSearchParams(localVarUrlObj, localVarQueryParameter);
             let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
             localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(pluginInstanceIdV1Request, localVarRequestOptions, configuration)
 
             return {
                 url: toPathString(localVarUrlObj),
@@ -233,6 +1265,28 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
 export const DefaultApiFp = function(configuration?: Configuration) {
     const localVarAxiosParamCreator = DefaultApiAxiosParamCreator(configuration)
     return {
+        /**
+         * Starts forwarding the events of a ledger event source plugin that match the filter to the target URL. The events are persisted to the outbox of the API server before they are delivered and failed deliveries are retried with exponential backoff.
+         * @summary Subscribes an HTTP endpoint to the events of a ledger
+         * @param {CreateWebhookSubscriptionV1Request} createWebhookSubscriptionV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async createWebhookSubscriptionV1(createWebhookSubscriptionV1Request: CreateWebhookSubscriptionV1Request, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<WebhookSubscriptionV1>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.createWebhookSubscriptionV1(createWebhookSubscriptionV1Request, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * Stops sourcing events for the subscription and removes its pending deliveries and dead letters from the outbox.
+         * @summary Deletes a webhook subscription
+         * @param {WebhookSubscriptionIdV1Request} webhookSubscriptionIdV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async deleteWebhookSubscriptionV1(webhookSubscriptionIdV1Request: WebhookSubscriptionIdV1Request, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<WebhookSubscriptionV1>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.deleteWebhookSubscriptionV1(webhookSubscriptionIdV1Request, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * Returns the current timestamp of the API server as proof of health/liveness
          * @summary Can be used to verify liveness of an API server instance
@@ -262,6 +1316,103 @@ export const DefaultApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.getPrometheusMetricsV1(options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * Installs the package of the plugin import (if its action says so), instantiates the plugin, adds it to the plugin registry and registers its web services without restarting the API server.
+         * @summary Installs and starts a plugin at runtime
+         * @param {InstallPluginV1Request} installPluginV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async installPluginV1(installPluginV1Request: InstallPluginV1Request, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<PluginInstanceV1>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.installPluginV1(installPluginV1Request, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * Returns the instanceId, package name and lifecycle status of every plugin in the plugin registry of the API server.
+         * @summary Lists the plugin instances of the API server
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async listPluginsV1(options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<ListPluginsV1Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.listPluginsV1(options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * Returns the pending deliveries and the dead letters in the outbox, optionally only those of a subscription or with a status.
+         * @summary Lists the deliveries in the outbox
+         * @param {ListWebhookDeliveriesV1Request} listWebhookDeliveriesV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async listWebhookDeliveriesV1(listWebhookDeliveriesV1Request: ListWebhookDeliveriesV1Request, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<ListWebhookDeliveriesV1Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.listWebhookDeliveriesV1(listWebhookDeliveriesV1Request, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * 
+         * @summary Lists the webhook subscriptions of the API server
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async listWebhookSubscriptionsV1(options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<ListWebhookSubscriptionsV1Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.listWebhookSubscriptionsV1(options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * Stops the plugin instance, re-installs and re-instantiates it from its (optionally updated) plugin import and then starts it again.
+         * @summary Reloads a plugin
+         * @param {ReloadPluginV1Request} reloadPluginV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async reloadPluginV1(reloadPluginV1Request: ReloadPluginV1Request, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<PluginInstanceV1>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.reloadPluginV1(reloadPluginV1Request, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * Stops the plugin instance and removes it from the plugin registry of the API server.
+         * @summary Removes a plugin
+         * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async removePluginV1(pluginInstanceIdV1Request: PluginInstanceIdV1Request, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<PluginInstanceV1>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.removePluginV1(pluginInstanceIdV1Request, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * Resets the attempts of the selected dead letters and puts them back in the queue of pending deliveries.
+         * @summary Replays dead letters
+         * @param {ReplayWebhookDeliveriesV1Request} replayWebhookDeliveriesV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async replayWebhookDeliveriesV1(replayWebhookDeliveriesV1Request: ReplayWebhookDeliveriesV1Request, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<ListWebhookDeliveriesV1Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.replayWebhookDeliveriesV1(replayWebhookDeliveriesV1Request, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * Registers the web services of a plugin instance that is present in the plugin registry but is not serving requests.
+         * @summary Starts a stopped plugin
+         * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async startPluginV1(pluginInstanceIdV1Request: PluginInstanceIdV1Request, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<PluginInstanceV1>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.startPluginV1(pluginInstanceIdV1Request, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * Unregisters the web services of a plugin instance and shuts it down while leaving it in the plugin registry.
+         * @summary Stops a running plugin
+         * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async stopPluginV1(pluginInstanceIdV1Request: PluginInstanceIdV1Request, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<PluginInstanceV1>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.stopPluginV1(pluginInstanceIdV1Request, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
     }
 };
 
@@ -272,6 +1423,26 @@ export const DefaultApiFp = function(configuration?: Configuration) {
 export const DefaultApiFactory = function (configuration?: Configuration, basePath?: string, axios?: AxiosInstance) {
     const localVarFp = DefaultApiFp(configuration)
     return {
+        /**
+         * Starts forwarding the events of a ledger event source plugin that match the filter to the target URL. The events are persisted to the outbox of the API server before they are delivered and failed deliveries are retried with exponential backoff.
+         * @summary Subscribes an HTTP endpoint to the events of a ledger
+         * @param {CreateWebhookSubscriptionV1Request} createWebhookSubscriptionV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        createWebhookSubscriptionV1(createWebhookSubscriptionV1Request: CreateWebhookSubscriptionV1Request, options?: any): AxiosPromise<WebhookSubscriptionV1> {
+            return localVarFp.createWebhookSubscriptionV1(createWebhookSubscriptionV1Request, options).then((request) => request(axios, basePath));
+        },
+        /**
+         * Stops sourcing events for the subscription and removes its pending deliveries and dead letters from the outbox.
+         * @summary Deletes a webhook subscription
+         * @param {WebhookSubscriptionIdV1Request} webhookSubscriptionIdV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        deleteWebhookSubscriptionV1(webhookSubscriptionIdV1Request: WebhookSubscriptionIdV1Request, options?: any): AxiosPromise<WebhookSubscriptionV1> {
+            return localVarFp.deleteWebhookSubscriptionV1(webhookSubscriptionIdV1Request, options).then((request) => request(axios, basePath));
+        },
         /**
          * Returns the current timestamp of the API server as proof of health/liveness
          * @summary Can be used to verify liveness of an API server instance
@@ -298,6 +1469,94 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
         getPrometheusMetricsV1(options?: any): AxiosPromise<string> {
             return localVarFp.getPrometheusMetricsV1(options).then((request) => request(axios, basePath));
         },
+        /**
+         * Installs the package of the plugin import (if its action says so), instantiates the plugin, adds it to the plugin registry and registers its web services without restarting the API server.
+         * @summary Installs and starts a plugin at runtime
+         * @param {InstallPluginV1Request} installPluginV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        installPluginV1(installPluginV1Request: InstallPluginV1Request, options?: any): AxiosPromise<PluginInstanceV1> {
+            return localVarFp.installPluginV1(installPluginV1Request, options).then((request) => request(axios, basePath));
+        },
+        /**
+         * Returns the instanceId, package name and lifecycle status of every plugin in the plugin registry of the API server.
+         * @summary Lists the plugin instances of the API server
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listPluginsV1(options?: any): AxiosPromise<ListPluginsV1Response> {
+            return localVarFp.listPluginsV1(options).then((request) => request(axios, basePath));
+        },
+        /**
+         * Returns the pending deliveries and the dead letters in the outbox, optionally only those of a subscription or with a status.
+         * @summary Lists the deliveries in the outbox
+         * @param {ListWebhookDeliveriesV1Request} listWebhookDeliveriesV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listWebhookDeliveriesV1(listWebhookDeliveriesV1Request: ListWebhookDeliveriesV1Request, options?: any): AxiosPromise<ListWebhookDeliveriesV1Response> {
+            return localVarFp.listWebhookDeliveriesV1(listWebhookDeliveriesV1Request, options).then((request) => request(axios, basePath));
+        },
+        /**
+         * 
+         * @summary Lists the webhook subscriptions of the API server
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listWebhookSubscriptionsV1(options?: any): AxiosPromise<ListWebhookSubscriptionsV1Response> {
+            return localVarFp.listWebhookSubscriptionsV1(options).then((request) => request(axios, basePath));
+        },
+        /**
+         * Stops the plugin instance, re-installs and re-instantiates it from its (optionally updated) plugin import and then starts it again.
+         * @summary Reloads a plugin
+         * @param {ReloadPluginV1Request} reloadPluginV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        reloadPluginV1(reloadPluginV1Request: ReloadPluginV1Request, options?: any): AxiosPromise<PluginInstanceV1> {
+            return localVarFp.reloadPluginV1(reloadPluginV1Request, options).then((request) => request(axios, basePath));
+        },
+        /**
+         * Stops the plugin instance and removes it from the plugin registry of the API server.
+         * @summary Removes a plugin
+         * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        removePluginV1(pluginInstanceIdV1Request: PluginInstanceIdV1Request, options?: any): AxiosPromise<PluginInstanceV1> {
+            return localVarFp.removePluginV1(pluginInstanceIdV1Request, options).then((request) => request(axios, basePath));
+        },
+        /**
+         * Resets the attempts of the selected dead letters and puts them back in the queue of pending deliveries.
+         * @summary Replays dead letters
+         * @param {ReplayWebhookDeliveriesV1Request} replayWebhookDeliveriesV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        replayWebhookDeliveriesV1(replayWebhookDeliveriesV1Request: ReplayWebhookDeliveriesV1Request, options?: any): AxiosPromise<ListWebhookDeliveriesV1Response> {
+            return localVarFp.replayWebhookDeliveriesV1(replayWebhookDeliveriesV1Request, options).then((request) => request(axios, basePath));
+        },
+        /**
+         * Registers the web services of a plugin instance that is present in the plugin registry but is not serving requests.
+         * @summary Starts a stopped plugin
+         * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        startPluginV1(pluginInstanceIdV1Request: PluginInstanceIdV1Request, options?: any): AxiosPromise<PluginInstanceV1> {
+            return localVarFp.startPluginV1(pluginInstanceIdV1Request, options).then((request) => request(axios, basePath));
+        },
+        /**
+         * Unregisters the web services of a plugin instance and shuts it down while leaving it in the plugin registry.
+         * @summary Stops a running plugin
+         * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        stopPluginV1(pluginInstanceIdV1Request: PluginInstanceIdV1Request, options?: any): AxiosPromise<PluginInstanceV1> {
+            return localVarFp.stopPluginV1(pluginInstanceIdV1Request, options).then((request) => request(axios, basePath));
+        },
     };
 };
 
@@ -308,6 +1567,30 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
  * @extends {BaseAPI}
  */
 export class DefaultApi extends BaseAPI {
+    /**
+     * Starts forwarding the events of a ledger event source plugin that match the filter to the target URL. The events are persisted to the outbox of the API server before they are delivered and failed deliveries are retried with exponential backoff.
+     * @summary Subscribes an HTTP endpoint to the events of a ledger
+     * @param {CreateWebhookSubscriptionV1Request} createWebhookSubscriptionV1Request 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public createWebhookSubscriptionV1(createWebhookSubscriptionV1Request: CreateWebhookSubscriptionV1Request, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).createWebhookSubscriptionV1(createWebhookSubscriptionV1Request, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Stops sourcing events for the subscription and removes its pending deliveries and dead letters from the outbox.
+     * @summary Deletes a webhook subscription
+     * @param {WebhookSubscriptionIdV1Request} webhookSubscriptionIdV1Request 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public deleteWebhookSubscriptionV1(webhookSubscriptionIdV1Request: WebhookSubscriptionIdV1Request, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).deleteWebhookSubscriptionV1(webhookSubscriptionIdV1Request, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * Returns the current timestamp of the API server as proof of health/liveness
      * @summary Can be used to verify liveness of an API server instance
@@ -339,6 +1622,112 @@ export class DefaultApi extends BaseAPI {
     public getPrometheusMetricsV1(options?: AxiosRequestConfig) {
         return DefaultApiFp(this.configuration).getPrometheusMetricsV1(options).then((request) => request(this.axios, this.basePath));
     }
+
+    /**
+     * Installs the package of the plugin import (if its action says so), instantiates the plugin, adds it to the plugin registry and registers its web services without restarting the API server.
+     * @summary Installs and starts a plugin at runtime
+     * @param {InstallPluginV1Request} installPluginV1Request 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public installPluginV1(installPluginV1Request: InstallPluginV1Request, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).installPluginV1(installPluginV1Request, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Returns the instanceId, package name and lifecycle status of every plugin in the plugin registry of the API server.
+     * @summary Lists the plugin instances of the API server
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public listPluginsV1(options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).listPluginsV1(options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Returns the pending deliveries and the dead letters in the outbox, optionally only those of a subscription or with a status.
+     * @summary Lists the deliveries in the outbox
+     * @param {ListWebhookDeliveriesV1Request} listWebhookDeliveriesV1Request 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public listWebhookDeliveriesV1(listWebhookDeliveriesV1Request: ListWebhookDeliveriesV1Request, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).listWebhookDeliveriesV1(listWebhookDeliveriesV1Request, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * 
+     * @summary Lists the webhook subscriptions of the API server
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public listWebhookSubscriptionsV1(options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).listWebhookSubscriptionsV1(options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Stops the plugin instance, re-installs and re-instantiates it from its (optionally updated) plugin import and then starts it again.
+     * @summary Reloads a plugin
+     * @param {ReloadPluginV1Request} reloadPluginV1Request 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public reloadPluginV1(reloadPluginV1Request: ReloadPluginV1Request, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).reloadPluginV1(reloadPluginV1Request, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Stops the plugin instance and removes it from the plugin registry of the API server.
+     * @summary Removes a plugin
+     * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public removePluginV1(pluginInstanceIdV1Request: PluginInstanceIdV1Request, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).removePluginV1(pluginInstanceIdV1Request, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Resets the attempts of the selected dead letters and puts them back in the queue of pending deliveries.
+     * @summary Replays dead letters
+     * @param {ReplayWebhookDeliveriesV1Request} replayWebhookDeliveriesV1Request 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public replayWebhookDeliveriesV1(replayWebhookDeliveriesV1Request: ReplayWebhookDeliveriesV1Request, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).replayWebhookDeliveriesV1(replayWebhookDeliveriesV1Request, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Registers the web services of a plugin instance that is present in the plugin registry but is not serving requests.
+     * @summary Starts a stopped plugin
+     * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public startPluginV1(pluginInstanceIdV1Request: PluginInstanceIdV1Request, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).startPluginV1(pluginInstanceIdV1Request, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Unregisters the web services of a plugin instance and shuts it down while leaving it in the plugin registry.
+     * @summary Stops a running plugin
+     * @param {PluginInstanceIdV1Request} pluginInstanceIdV1Request 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public stopPluginV1(pluginInstanceIdV1Request: PluginInstanceIdV1Request, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).stopPluginV1(pluginInstanceIdV1Request, options).then((request) => request(this.axios, this.basePath));
+    }
 }
 
 
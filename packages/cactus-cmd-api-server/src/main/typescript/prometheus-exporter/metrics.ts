@@ -1,4 +1,4 @@
-import { Gauge } from "prom-client";
+import { Counter, Gauge } from "prom-client";
 
 export const K_CACTUS_API_SERVER_TOTAL_PLUGIN_IMPORTS =
   "cactus_api_server_total_plugin_imports";
@@ -9,3 +9,13 @@ export const totalTxCount = new Gauge({
   help: "Total number of plugins imported",
   labelNames: ["type"],
 });
+
+export const K_CACTUS_API_SERVER_RATE_LIMITED_REQUESTS_TOTAL =
+  "cactus_api_server_rate_limited_requests_total";
+
+export const rateLimitedRequestsTotal = new Counter({
+  registers: [],
+  name: K_CACTUS_API_SERVER_RATE_LIMITED_REQUESTS_TOTAL,
+  help: "Total number of requests rejected by the rate limiter",
+  labelNames: ["protocol", "scope", "path"],
+});
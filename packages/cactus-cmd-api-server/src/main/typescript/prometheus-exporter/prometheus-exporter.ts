@@ -1,7 +1,10 @@
 import promClient, { Registry } from "prom-client";
 import { TotalPluginImports } from "./response.type";
-import { K_CACTUS_API_SERVER_TOTAL_PLUGIN_IMPORTS } from "./metrics";
-import { totalTxCount } from "./metrics";
+import {
+  K_CACTUS_API_SERVER_RATE_LIMITED_REQUESTS_TOTAL,
+  K_CACTUS_API_SERVER_TOTAL_PLUGIN_IMPORTS,
+} from "./metrics";
+import { rateLimitedRequestsTotal, totalTxCount } from "./metrics";
 import { collectMetrics } from "./data-fetcher";
 
 export interface IPrometheusExporterOptions {
@@ -26,15 +29,27 @@ export class PrometheusExporter {
     collectMetrics(this.totalPluginImports);
   }
 
+  public incrementRateLimitedRequests(
+    protocol: string,
+    scope: string,
+    path: string,
+  ): void {
+    rateLimitedRequestsTotal.labels(protocol, scope, path).inc();
+  }
+
   public async getPrometheusMetrics(): Promise<string> {
-    const result = await this.registry.getSingleMetricAsString(
+    const totalPluginImports = await this.registry.getSingleMetricAsString(
       K_CACTUS_API_SERVER_TOTAL_PLUGIN_IMPORTS,
     );
-    return result;
+    const rateLimitedRequests = await this.registry.getSingleMetricAsString(
+      K_CACTUS_API_SERVER_RATE_LIMITED_REQUESTS_TOTAL,
+    );
+    return [totalPluginImports, rateLimitedRequests].join("\n");
   }
 
   public startMetricsCollection(): void {
     this.registry.registerMetric(totalTxCount);
+    this.registry.registerMetric(rateLimitedRequestsTotal);
     promClient.collectDefaultMetrics({ register: this.registry });
   }
 }
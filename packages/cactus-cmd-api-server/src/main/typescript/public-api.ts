@@ -29,6 +29,32 @@ export { ApiServerApiClient } from "./api-client/api-server-api-client";
 export { ApiServerApiClientConfiguration } from "./api-client/api-server-api-client";
 export { IApiServerApiClientOptions } from "./api-client/api-server-api-client";
 
+export {
+  IWebhookServiceOptions,
+  WebhookService,
+} from "./webhooks/webhook-service";
+export {
+  createWebhookSignatureV1,
+  isWebhookSignatureValidV1,
+  WEBHOOK_DELIVERY_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./webhooks/webhook-signature";
+export {
+  assertWebhookTargetAllowedV1,
+  isBlockedWebhookAddressV1,
+} from "./webhooks/webhook-target-guard";
+
+export {
+  createGrpcRateLimitInterceptor,
+  IRpcRateLimitInterceptorOptions,
+} from "./rate-limiting/grpc-rate-limit-interceptor";
+export {
+  createCrpcClientContextValues,
+  createCrpcRateLimitInterceptor,
+  kCrpcClientAddress,
+} from "./rate-limiting/crpc-rate-limit-interceptor";
+
 export { isHealthcheckResponse } from "./model/is-healthcheck-response-type-guard";
 export { isExpressJwtOptions } from "./authzn/is-express-jwt-options-type-guard";
 
@@ -38,6 +64,26 @@ export {
   K_WARN_NO_AUTHORIZATION_PROTOCOL,
 } from "./authzn/authorizer-factory";
 export { IAuthorizationConfig } from "./authzn/i-authorization-config";
+export {
+  IOperationAuthzPolicyConfig,
+  IOperationAuthzRule,
+} from "./authzn/i-operation-authz-policy-config";
+export {
+  AuthzPolicyProtocol,
+  IAuthzPolicyReportEntry,
+  IOperationAuthzPolicyOptions,
+  isScopeClaimSatisfying,
+  OperationAuthzPolicy,
+} from "./authzn/operation-authz-policy";
+export { createJwtVerifier, JwtVerifier } from "./authzn/create-jwt-verifier";
+export {
+  createGrpcAuthzInterceptor,
+  IGrpcAuthzInterceptorOptions,
+} from "./authzn/grpc-authz-interceptor";
+export {
+  createCrpcAuthzInterceptor,
+  ICrpcAuthzInterceptorOptions,
+} from "./authzn/crpc-authz-interceptor";
 export { AuthorizationProtocol } from "./config/authorization-protocol";
 
 export {
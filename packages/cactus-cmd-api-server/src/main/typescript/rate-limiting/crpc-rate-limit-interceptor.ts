@@ -0,0 +1,66 @@
+import {
+  Code,
+  ConnectError,
+  createContextKey,
+  createContextValues,
+  ContextValues,
+  Interceptor,
+} from "@connectrpc/connect";
+
+import {
+  getServiceNameOfMethodPath,
+  IRpcRateLimitInterceptorOptions,
+} from "./grpc-rate-limit-interceptor";
+
+/**
+ * The address of the client which has to be placed in the context values of
+ * the Connect RPC requests by the server adapter (fastify or express).
+ */
+export const kCrpcClientAddress = createContextKey<string | undefined>(
+  undefined,
+  { description: "Address of the Connect RPC client" },
+);
+
+export function createCrpcClientContextValues(
+  clientAddress: string | undefined,
+): ContextValues {
+  return createContextValues().set(kCrpcClientAddress, clientAddress);
+}
+
+/**
+ * Creates a Connect RPC interceptor that fails calls with the code
+ * `resource_exhausted` and a `retry-after` header (in seconds) once the
+ * client has exhausted its tokens.
+ *
+ * The Connect RPC server does not verify JSON web tokens so rules keyed by
+ * the JWT subject fall back to the address of the client.
+ */
+export function createCrpcRateLimitInterceptor(
+  opts: IRpcRateLimitInterceptorOptions,
+): Interceptor {
+  const { rateLimiter, getPluginOfService } = opts;
+
+  return (next) => async (req) => {
+    const path = `/${req.service.typeName}/${req.method.name}`;
+    const plugin = getPluginOfService(getServiceNameOfMethodPath(path));
+    const decision = rateLimiter.consume({
+      protocol: "crpc",
+      path,
+      pluginInstanceId: plugin?.getInstanceId(),
+      pluginPackageName: plugin?.getPackageName(),
+      client: {
+        ip: req.contextValues.get(kCrpcClientAddress),
+        apiKey: req.header.get(rateLimiter.apiKeyHeader) || undefined,
+      },
+    });
+    if (decision.allowed) {
+      return next(req);
+    }
+    const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+    throw new ConnectError(
+      `Rate limit of ${decision.scope} scope exceeded, retry after ${retryAfterSeconds} second(s).`,
+      Code.ResourceExhausted,
+      { "retry-after": retryAfterSeconds.toString(10) },
+    );
+  };
+}
@@ -0,0 +1,87 @@
+import {
+  Metadata,
+  ServerInterceptingCall,
+  ServerInterceptor,
+  status,
+} from "@grpc/grpc-js";
+
+import { ICactusPlugin } from "@hyperledger/cactus-core-api";
+import { TokenBucketRateLimiter } from "@hyperledger/cactus-core";
+
+export interface IRpcRateLimitInterceptorOptions {
+  readonly rateLimiter: TokenBucketRateLimiter;
+  /**
+   * Looks up the plugin that serves the RPC service (if any) by its fully
+   * qualified name such as `org.hyperledger.cactus.MyService`
+   */
+  readonly getPluginOfService: (
+    serviceName: string,
+  ) => ICactusPlugin | undefined;
+}
+
+/**
+ * @returns The fully qualified service name out of a method path such as
+ * `/org.hyperledger.cactus.MyService/MyMethod`
+ */
+export function getServiceNameOfMethodPath(methodPath: string): string {
+  const [, serviceName] = methodPath.split("/");
+  return serviceName || "";
+}
+
+/**
+ * @returns The address out of a gRPC peer such as `127.0.0.1:5000` or
+ * `[::1]:5000`
+ */
+export function getAddressOfGrpcPeer(peer: string): string {
+  const address = peer.replace(/:\d+$/, "");
+  return address.replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * Creates a gRPC server interceptor that fails calls with the status
+ * `RESOURCE_EXHAUSTED` and a `retry-after` trailer (in seconds) once the
+ * client has exhausted its tokens.
+ *
+ * The gRPC server does not verify JSON web tokens so rules keyed by the JWT
+ * subject fall back to the address of the peer.
+ */
+export function createGrpcRateLimitInterceptor(
+  opts: IRpcRateLimitInterceptorOptions,
+): ServerInterceptor {
+  const { rateLimiter, getPluginOfService } = opts;
+
+  return (methodDescriptor, call) =>
+    new ServerInterceptingCall(call, {
+      start: (next) => {
+        next({
+          onReceiveMetadata: (metadata, mdNext) => {
+            const { path } = methodDescriptor;
+            const plugin = getPluginOfService(getServiceNameOfMethodPath(path));
+            const [apiKey] = metadata.get(rateLimiter.apiKeyHeader);
+            const decision = rateLimiter.consume({
+              protocol: "grpc",
+              path,
+              pluginInstanceId: plugin?.getInstanceId(),
+              pluginPackageName: plugin?.getPackageName(),
+              client: {
+                ip: getAddressOfGrpcPeer(call.getPeer()),
+                apiKey: apiKey?.toString(),
+              },
+            });
+            if (decision.allowed) {
+              mdNext(metadata);
+              return;
+            }
+            const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+            const trailers = new Metadata();
+            trailers.set("retry-after", retryAfterSeconds.toString(10));
+            call.sendStatus({
+              code: status.RESOURCE_EXHAUSTED,
+              details: `Rate limit of ${decision.scope} scope exceeded, retry after ${retryAfterSeconds} second(s).`,
+              metadata: trailers,
+            });
+          },
+        });
+      },
+    });
+}
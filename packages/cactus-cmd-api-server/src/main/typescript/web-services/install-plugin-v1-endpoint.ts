@@ -0,0 +1,113 @@
+import { StatusCodes } from "http-status-codes";
+import type { Express, Request, Response } from "express";
+
+import {
+  Checks,
+  IAsyncProvider,
+  Logger,
+  LoggerProvider,
+  LogLevelDesc,
+} from "@hyperledger/cactus-common";
+import {
+  IEndpointAuthzOptions,
+  IExpressRequestHandler,
+  IWebServiceEndpoint,
+} from "@hyperledger/cactus-core-api";
+import {
+  handleRestEndpointException,
+  IHandleRestEndpointExceptionOptions,
+  registerWebServiceEndpoint,
+} from "@hyperledger/cactus-core";
+
+import OAS from "../../json/openapi.json";
+import type { ApiServer } from "../api-server";
+
+export interface IInstallPluginV1EndpointOptions {
+  readonly logLevel?: LogLevelDesc;
+  readonly apiServer: ApiServer;
+}
+
+export class InstallPluginV1Endpoint implements IWebServiceEndpoint {
+  public static readonly CLASS_NAME = "InstallPluginV1Endpoint";
+
+  private readonly log: Logger;
+
+  private readonly apiServer: ApiServer;
+
+  public get className(): string {
+    return InstallPluginV1Endpoint.CLASS_NAME;
+  }
+
+  constructor(public readonly opts: IInstallPluginV1EndpointOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(opts, `${fnTag} arg opts`);
+    Checks.truthy(opts.apiServer, `${fnTag} arg opts.apiServer`);
+
+    this.apiServer = opts.apiServer;
+
+    const level = this.opts.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  public getAuthorizationOptionsProvider(): IAsyncProvider<IEndpointAuthzOptions> {
+    return {
+      get: async () => ({
+        isProtected: true,
+        requiredRoles: this.oasPath.post.security[0].bearerTokenAuth,
+      }),
+    };
+  }
+
+  public getExpressRequestHandler(): IExpressRequestHandler {
+    return this.handleRequest.bind(this);
+  }
+
+  public get oasPath(): (typeof OAS.paths)["/api/v1/api-server/plugins/install-plugin"] {
+    return OAS.paths["/api/v1/api-server/plugins/install-plugin"];
+  }
+
+  public getPath(): string {
+    return this.oasPath.post["x-hyperledger-cacti"].http.path;
+  }
+
+  public getVerbLowerCase(): string {
+    return this.oasPath.post["x-hyperledger-cacti"].http.verbLowerCase;
+  }
+
+  public getOperationId(): string {
+    return this.oasPath.post.operationId;
+  }
+
+  public async registerExpress(
+    expressApp: Express,
+  ): Promise<IWebServiceEndpoint> {
+    await registerWebServiceEndpoint(expressApp, this);
+    return this;
+  }
+
+  async handleRequest(req: Request, res: Response): Promise<void> {
+    const fnTag = `${this.className}#handleRequest()`;
+    const verbUpper = this.getVerbLowerCase().toUpperCase();
+    const reqTag = `${verbUpper} ${this.getPath()}`;
+    this.log.debug(reqTag);
+
+    try {
+      const { pluginImport } = req.body;
+      const resBody = await this.apiServer.installPlugin(pluginImport);
+      res.status(StatusCodes.OK).json(resBody);
+    } catch (error) {
+      const { log } = this;
+      const errorMsg = `${fnTag} request handler fn crashed for: ${reqTag}`;
+
+      const ctx: Readonly<IHandleRestEndpointExceptionOptions> = {
+        errorMsg,
+        log,
+        error,
+        res,
+      };
+
+      await handleRestEndpointException(ctx);
+    }
+  }
+}
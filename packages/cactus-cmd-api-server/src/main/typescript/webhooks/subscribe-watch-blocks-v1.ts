@@ -0,0 +1,123 @@
+import { io } from "socket.io-client-fixed-types";
+
+import {
+  LoggerProvider,
+  LogLevelDesc,
+  safeStringifyException,
+} from "@hyperledger/cactus-common";
+import {
+  Constants,
+  ILedgerEventSubscriptionV1,
+  LedgerEventCursorV1,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import { LedgerEventSubscriptionV1 } from "@hyperledger/cactus-core";
+
+import { WebhookWatchBlocksSourceV1 } from "../generated/openapi/typescript-axios";
+
+export interface ISubscribeWatchBlocksV1Context {
+  /**
+   * The URL of the Socket.IO server the block watchers of the connectors
+   * are registered with, i.e. the one of the API server.
+   */
+  readonly wsApiHost: string;
+  readonly wsApiPath?: string;
+  /**
+   * The `Bearer <JWT>` token to connect with when the Socket.IO server
+   * requires authorization.
+   */
+  readonly authToken?: string;
+  readonly sourceId: string;
+  readonly logLevel?: LogLevelDesc;
+}
+
+/**
+ * Subscribes to the Socket.IO block watcher (WatchBlocksV1 endpoint) of a
+ * connector and reports every message of it as a `BLOCK` event whose cursor
+ * is the block number found at `source.blockNumberPath`. Messages without a
+ * block number are skipped.
+ *
+ * Block watchers push the blocks as they arrive, so unlike ledger event
+ * sources the subscription cannot throttle the reading of the ledger. The
+ * events are buffered until they are consumed instead.
+ *
+ * @param afterCursor The cursor of the last event that was consumed before,
+ * the watcher is asked to start at the following block if the source has a
+ * `startBlockOption`.
+ */
+export function subscribeWatchBlocksV1(
+  ctx: ISubscribeWatchBlocksV1Context,
+  source: WebhookWatchBlocksSourceV1,
+  afterCursor?: LedgerEventCursorV1,
+): ILedgerEventSubscriptionV1 {
+  const log = LoggerProvider.getOrCreate({
+    label: "subscribeWatchBlocksV1()",
+    level: ctx.logLevel || "INFO",
+  });
+  const { eventNamespace, blockNumberPath, startBlockOption } = source;
+  const socket = io(ctx.wsApiHost, {
+    path: ctx.wsApiPath || Constants.SocketIoConnectionPathV1,
+    auth: ctx.authToken ? { token: ctx.authToken } : undefined,
+    reconnection: false,
+  });
+  const subscription = new LedgerEventSubscriptionV1({
+    logLevel: ctx.logLevel,
+    // all the messages are kept, the socket cannot be paused
+    subscriptionOptions: { afterCursor, bufferSize: Number.MAX_SAFE_INTEGER },
+    onUnsubscribe: () => {
+      socket.emit(`${eventNamespace}.Unsubscribe`);
+      socket.disconnect();
+    },
+  });
+  const fail = (ex: unknown) => {
+    if (!subscription.isClosed()) {
+      socket.disconnect();
+      subscription.close(new Error(safeStringifyException(ex)));
+    }
+  };
+
+  const subscribeOptions = { ...source.subscribeOptions };
+  if (afterCursor && startBlockOption) {
+    subscribeOptions[startBlockOption] = afterCursor.blockNumber + 1;
+  }
+  socket.on("connect", () => {
+    log.debug("Subscribing to %s", eventNamespace);
+    socket.emit(`${eventNamespace}.Subscribe`, subscribeOptions);
+  });
+  socket.on("connect_error", fail);
+  socket.on("disconnect", (reason: string) => {
+    if (reason !== "io client disconnect") {
+      fail(new Error(`Disconnected from ${eventNamespace}: ${reason}`));
+    }
+  });
+  socket.on(`${eventNamespace}.Error`, fail);
+  socket.on(`${eventNamespace}.Complete`, () => {
+    socket.disconnect();
+    subscription.close();
+  });
+
+  let pushed = Promise.resolve(true);
+  socket.on(`${eventNamespace}.Next`, (message: unknown) => {
+    const value = blockNumberPath
+      .split(".")
+      .reduce<unknown>(
+        (v, key) => (v as Record<string, unknown> | undefined)?.[key],
+        message,
+      );
+    const blockNumber = Number(value);
+    if (value === null || value === "" || !Number.isSafeInteger(blockNumber)) {
+      log.warn("No block number at %s, skipping message", blockNumberPath);
+      return;
+    }
+    const event: LedgerEventV1 = {
+      eventType: LedgerEventTypeV1.Block,
+      sourceId: ctx.sourceId,
+      cursor: { blockNumber },
+      payload: message,
+    };
+    pushed = pushed.then(() => subscription.push(event));
+  });
+
+  return subscription;
+}
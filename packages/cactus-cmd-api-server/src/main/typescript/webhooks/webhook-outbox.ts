@@ -0,0 +1,201 @@
+import path from "path";
+import fs from "fs-extra";
+
+import {
+  bigIntToDecimalStringReplacer,
+  Checks,
+  Logger,
+  LoggerProvider,
+  LogLevelDesc,
+} from "@hyperledger/cactus-common";
+import { compareLedgerEventCursorsV1 } from "@hyperledger/cactus-core";
+
+import {
+  WebhookDeliveryV1,
+  WebhookSubscriptionV1,
+} from "../generated/openapi/typescript-axios";
+
+/**
+ * A webhook subscription as it is persisted in the outbox, including the
+ * properties that are never returned through the API.
+ */
+export interface IWebhookSubscriptionRecord extends WebhookSubscriptionV1 {
+  readonly secret: string;
+  readonly fromBlock?: number;
+  readonly sourceOptions?: Record<string, unknown>;
+}
+
+export interface IWebhookOutboxOptions {
+  readonly logLevel?: LogLevelDesc;
+  readonly dirPath: string;
+}
+
+/**
+ * Persists webhook subscriptions and the deliveries that have not succeeded
+ * yet to the local file-system, one JSON file per entry, so that neither is
+ * lost when the API server is restarted. The entries are also kept in memory
+ * where reads are served from.
+ *
+ * Files are written to a temporary path first and then renamed so that a
+ * crash can never leave a half written entry behind.
+ */
+export class WebhookOutbox {
+  public static readonly CLASS_NAME = "WebhookOutbox";
+
+  private readonly log: Logger;
+  private readonly subscriptionsDir: string;
+  private readonly deliveriesDir: string;
+  private readonly subscriptions = new Map<
+    string,
+    IWebhookSubscriptionRecord
+  >();
+  private readonly deliveries = new Map<string, WebhookDeliveryV1>();
+
+  public get className(): string {
+    return WebhookOutbox.CLASS_NAME;
+  }
+
+  constructor(public readonly opts: IWebhookOutboxOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(opts, `${fnTag} arg opts`);
+    Checks.nonBlankString(opts.dirPath, `${fnTag} arg opts.dirPath`);
+
+    this.subscriptionsDir = path.join(opts.dirPath, "subscriptions");
+    this.deliveriesDir = path.join(opts.dirPath, "deliveries");
+
+    const level = opts.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  /**
+   * Reads the entries persisted by previous runs into memory. Deliveries are
+   * ordered by their creation time and then by the cursor of their event.
+   */
+  public async load(): Promise<void> {
+    const subscriptions = await this.readDir<IWebhookSubscriptionRecord>(
+      this.subscriptionsDir,
+    );
+    const deliveries = await this.readDir<WebhookDeliveryV1>(
+      this.deliveriesDir,
+    );
+    deliveries.sort(
+      (a, b) =>
+        a.createdAt.localeCompare(b.createdAt) ||
+        compareLedgerEventCursorsV1(a.event.cursor, b.event.cursor),
+    );
+
+    this.subscriptions.clear();
+    this.deliveries.clear();
+    subscriptions.forEach((s) => this.subscriptions.set(s.id, s));
+    deliveries.forEach((d) => this.deliveries.set(d.id, d));
+    this.log.info(
+      "Loaded %o subscription(s) and %o deliveries from %s",
+      subscriptions.length,
+      deliveries.length,
+      this.opts.dirPath,
+    );
+  }
+
+  public getSubscriptions(): IWebhookSubscriptionRecord[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  public getSubscription(id: string): IWebhookSubscriptionRecord | undefined {
+    return this.subscriptions.get(id);
+  }
+
+  public async saveSubscription(
+    record: IWebhookSubscriptionRecord,
+  ): Promise<void> {
+    await this.writeEntry(this.subscriptionsDir, record.id, record);
+    this.subscriptions.set(record.id, record);
+  }
+
+  /**
+   * Updates the subscription only if it still exists, so a subscription
+   * that is deleted in the meantime is never written back.
+   *
+   * @returns Whether the subscription was updated.
+   */
+  public async updateSubscription(
+    id: string,
+    update: (record: IWebhookSubscriptionRecord) => IWebhookSubscriptionRecord,
+  ): Promise<boolean> {
+    const record = this.subscriptions.get(id);
+    if (!record) {
+      return false;
+    }
+    const updated = update(record);
+    await this.writeEntry(this.subscriptionsDir, id, updated);
+    if (!this.subscriptions.has(id)) {
+      // deleted while it was being written
+      await fs.remove(this.getEntryPath(this.subscriptionsDir, id));
+      return false;
+    }
+    this.subscriptions.set(id, updated);
+    return true;
+  }
+
+  /**
+   * Deletes the subscription along with all of its deliveries.
+   */
+  public async deleteSubscription(id: string): Promise<void> {
+    this.subscriptions.delete(id);
+    await fs.remove(this.getEntryPath(this.subscriptionsDir, id));
+    const deliveries = this.getDeliveries().filter(
+      (d) => d.subscriptionId === id,
+    );
+    for (const delivery of deliveries) {
+      await this.deleteDelivery(delivery.id);
+    }
+  }
+
+  public getDeliveries(): WebhookDeliveryV1[] {
+    return Array.from(this.deliveries.values());
+  }
+
+  public getDelivery(id: string): WebhookDeliveryV1 | undefined {
+    return this.deliveries.get(id);
+  }
+
+  public async saveDelivery(delivery: WebhookDeliveryV1): Promise<void> {
+    await this.writeEntry(this.deliveriesDir, delivery.id, delivery);
+    this.deliveries.set(delivery.id, delivery);
+  }
+
+  public async deleteDelivery(id: string): Promise<void> {
+    this.deliveries.delete(id);
+    await fs.remove(this.getEntryPath(this.deliveriesDir, id));
+  }
+
+  private getEntryPath(dirPath: string, id: string): string {
+    return path.join(dirPath, `${id}.json`);
+  }
+
+  private async writeEntry(
+    dirPath: string,
+    id: string,
+    entry: unknown,
+  ): Promise<void> {
+    const entryPath = this.getEntryPath(dirPath, id);
+    const tmpPath = `${entryPath}.tmp`;
+    await fs.mkdirp(dirPath);
+    // The subscriptions hold the HMAC secrets so the files are private.
+    await fs.writeJson(tmpPath, entry, {
+      replacer: bigIntToDecimalStringReplacer,
+      mode: 0o600,
+    });
+    await fs.rename(tmpPath, entryPath);
+  }
+
+  private async readDir<T>(dirPath: string): Promise<T[]> {
+    await fs.mkdirp(dirPath);
+    const fileNames = await fs.readdir(dirPath);
+    const entries: T[] = [];
+    for (const fileName of fileNames.filter((f) => f.endsWith(".json"))) {
+      entries.push(await fs.readJson(path.join(dirPath, fileName)));
+    }
+    return entries;
+  }
+}
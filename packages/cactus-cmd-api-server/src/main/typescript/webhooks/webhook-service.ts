@@ -0,0 +1,565 @@
+import http from "node:http";
+import https from "node:https";
+
+import axios from "axios";
+import { v4 as uuidV4 } from "uuid";
+import { BadRequestError, NotFoundError } from "http-errors-enhanced-cjs";
+
+import {
+  asError,
+  bigIntToDecimalStringReplacer,
+  Checks,
+  Logger,
+  LoggerProvider,
+  LogLevelDesc,
+} from "@hyperledger/cactus-common";
+import {
+  ICactusPlugin,
+  ILedgerEventSubscriptionV1,
+  IPluginLedgerEventSource,
+  isIPluginLedgerEventSource,
+} from "@hyperledger/cactus-core-api";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+
+import {
+  CreateWebhookSubscriptionV1Request,
+  ListWebhookDeliveriesV1Request,
+  ReplayWebhookDeliveriesV1Request,
+  WebhookDeliveryStatusV1,
+  WebhookDeliveryV1,
+  WebhookPayloadV1,
+  WebhookSubscriptionV1,
+  WebhookWatchBlocksSourceV1,
+} from "../generated/openapi/typescript-axios";
+import { IWebhookSubscriptionRecord, WebhookOutbox } from "./webhook-outbox";
+import { subscribeWatchBlocksV1 } from "./subscribe-watch-blocks-v1";
+import {
+  assertWebhookTargetAllowedV1,
+  createWebhookLookupV1,
+} from "./webhook-target-guard";
+import {
+  createWebhookSignatureV1,
+  WEBHOOK_DELIVERY_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./webhook-signature";
+
+export interface IWebhookServiceOptions {
+  readonly logLevel?: LogLevelDesc;
+  /**
+   * The directory where the subscriptions and the deliveries that have not
+   * succeeded yet are persisted.
+   */
+  readonly outboxDir: string;
+  /**
+   * How many times a delivery is attempted before it becomes a dead letter.
+   */
+  readonly maxAttempts?: number;
+  /**
+   * The delay before the first retry of a delivery (and of a subscription
+   * whose ledger event source failed). Doubles with every further attempt.
+   */
+  readonly initialBackoffMs?: number;
+  readonly maxBackoffMs?: number;
+  readonly requestTimeoutMs?: number;
+  /**
+   * Host names or IP addresses that webhooks may be delivered to even though
+   * they are (or resolve to) loopback, private or link-local addresses,
+   * which are rejected otherwise.
+   */
+  readonly allowedTargetHosts?: string[];
+  /**
+   * The `Bearer <JWT>` token the block watchers of the connectors are
+   * subscribed with if the Socket.IO endpoints require authorization.
+   */
+  readonly wsAuthToken?: string;
+}
+
+/**
+ * Forwards the events of the connector plugins of the API server to external
+ * HTTP endpoints. The events are sourced from the ledger event source of the
+ * plugin or, for subscriptions with `watchBlocks`, from its Socket.IO block
+ * watcher.
+ *
+ * Every event is persisted to the outbox before the cursor of its
+ * subscription is advanced which makes the deliveries at-least-once: a
+ * subscription resumes after the cursor of the last event that made it to
+ * the outbox when the API server is restarted or the source plugin is
+ * started again. Failed deliveries are retried with exponential backoff and
+ * become dead letters once they run out of attempts, which can be replayed.
+ *
+ * Retries are not ordered with respect to the other deliveries of the same
+ * subscription, consumers can order the events by their cursor.
+ */
+export class WebhookService {
+  public static readonly CLASS_NAME = "WebhookService";
+  public static readonly DEFAULT_MAX_ATTEMPTS = 10;
+  public static readonly DEFAULT_INITIAL_BACKOFF_MS = 1000;
+  public static readonly DEFAULT_MAX_BACKOFF_MS = 5 * 60 * 1000;
+  public static readonly DEFAULT_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+  private readonly log: Logger;
+  private readonly outbox: WebhookOutbox;
+  private readonly maxAttempts: number;
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly requestTimeoutMs: number;
+  private readonly allowedTargetHosts: string[];
+  private readonly httpAgent: http.Agent;
+  private readonly httpsAgent: https.Agent;
+  private readonly ledgerSubscriptions = new Map<
+    string,
+    ILedgerEventSubscriptionV1
+  >();
+  private pluginRegistry: PluginRegistry | undefined;
+  private wsApiHost: string | undefined;
+  private dispatchTimer: NodeJS.Timeout | undefined;
+  private dispatchRun: Promise<void> | undefined;
+  private running = false;
+
+  public get className(): string {
+    return WebhookService.CLASS_NAME;
+  }
+
+  constructor(public readonly opts: IWebhookServiceOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(opts, `${fnTag} arg opts`);
+    Checks.nonBlankString(opts.outboxDir, `${fnTag} arg opts.outboxDir`);
+
+    this.maxAttempts = opts.maxAttempts || WebhookService.DEFAULT_MAX_ATTEMPTS;
+    this.initialBackoffMs =
+      opts.initialBackoffMs || WebhookService.DEFAULT_INITIAL_BACKOFF_MS;
+    this.maxBackoffMs =
+      opts.maxBackoffMs || WebhookService.DEFAULT_MAX_BACKOFF_MS;
+    this.requestTimeoutMs =
+      opts.requestTimeoutMs || WebhookService.DEFAULT_REQUEST_TIMEOUT_MS;
+    this.allowedTargetHosts = opts.allowedTargetHosts || [];
+    const lookup = createWebhookLookupV1(this.allowedTargetHosts);
+    this.httpAgent = new http.Agent({ lookup });
+    this.httpsAgent = new https.Agent({ lookup });
+
+    const level = opts.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+    this.outbox = new WebhookOutbox({
+      dirPath: opts.outboxDir,
+      logLevel: opts.logLevel,
+    });
+  }
+
+  /**
+   * Loads the outbox, resumes the subscriptions whose source plugin is in
+   * `pluginRegistry` and starts delivering the pending deliveries.
+   *
+   * @param wsApiHost The URL of the Socket.IO server that the block watchers
+   * of the plugins are registered with. Subscriptions with `watchBlocks` are
+   * not supported without it.
+   */
+  public async start(
+    pluginRegistry: PluginRegistry,
+    wsApiHost?: string,
+  ): Promise<void> {
+    const fnTag = `${this.className}#start()`;
+    Checks.truthy(pluginRegistry, `${fnTag} arg pluginRegistry`);
+    this.pluginRegistry = pluginRegistry;
+    this.wsApiHost = wsApiHost;
+    await this.outbox.load();
+    this.running = true;
+    await this.resumeSubscriptions();
+    this.scheduleDispatch(0);
+  }
+
+  public async shutdown(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.dispatchTimer);
+    const subscriptions = Array.from(this.ledgerSubscriptions.values());
+    this.ledgerSubscriptions.clear();
+    await Promise.all(subscriptions.map((s) => s.unsubscribe()));
+    await this.dispatchRun;
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+    this.log.info("Shut down %o ledger subscription(s)", subscriptions.length);
+  }
+
+  /**
+   * Subscribes to the events of the ledger whose connector plugin is not
+   * being listened to for subscriptions that are not active, for example
+   * because the plugin has just been (re)started.
+   *
+   * @param ledgerPluginInstanceId Only resume the subscriptions of this
+   * plugin.
+   */
+  public async resumeSubscriptions(
+    ledgerPluginInstanceId?: string,
+  ): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+    const records = this.outbox
+      .getSubscriptions()
+      .filter((r) => !this.ledgerSubscriptions.has(r.id))
+      .filter(
+        (r) =>
+          !ledgerPluginInstanceId ||
+          r.ledgerPluginInstanceId === ledgerPluginInstanceId,
+      );
+    for (const record of records) {
+      try {
+        await this.subscribe(record);
+      } catch (ex: unknown) {
+        this.log.warn("Could not resume webhook subscription %s", record.id);
+        this.log.warn(asError(ex).message);
+      }
+    }
+  }
+
+  /**
+   * @throws {BadRequestError} If the target URL is not an http(s) URL with a
+   * public or allowed host, or the plugin is not a ledger event source (and
+   * `watchBlocks` is not specified).
+   * @throws {NotFoundError} If there is no plugin with the specified ID.
+   */
+  public async createSubscription(
+    req: CreateWebhookSubscriptionV1Request,
+  ): Promise<WebhookSubscriptionV1> {
+    const fnTag = `${this.className}#createSubscription()`;
+    Checks.truthy(this.running, `${fnTag} the service is not running`);
+    Checks.truthy(req, `${fnTag} arg req`);
+    Checks.nonBlankString(req.ledgerPluginInstanceId, `${fnTag} pluginId`);
+    if (!req.secret || req.secret.length < 16) {
+      throw new BadRequestError(`${fnTag} secret must be 16+ characters`);
+    }
+    await assertWebhookTargetAllowedV1(req.targetUrl, this.allowedTargetHosts);
+    // Fail early, before anything is persisted.
+    if (req.watchBlocks) {
+      Checks.nonBlankString(this.wsApiHost, `${fnTag} wsApiHost`);
+      this.getPlugin(req.ledgerPluginInstanceId);
+    } else {
+      this.getLedgerEventSource(req.ledgerPluginInstanceId);
+    }
+
+    const record: IWebhookSubscriptionRecord = {
+      id: uuidV4(),
+      targetUrl: req.targetUrl,
+      ledgerPluginInstanceId: req.ledgerPluginInstanceId,
+      filter: req.filter,
+      createdAt: new Date().toISOString(),
+      secret: req.secret,
+      fromBlock: req.fromBlock,
+      sourceOptions: req.sourceOptions,
+      watchBlocks: req.watchBlocks,
+    };
+    await this.outbox.saveSubscription(record);
+    try {
+      await this.subscribe(record);
+    } catch (ex: unknown) {
+      await this.outbox.deleteSubscription(record.id);
+      throw ex;
+    }
+    this.log.info("%s Created subscription %s", fnTag, record.id);
+    return this.toWebhookSubscriptionV1(record);
+  }
+
+  public listSubscriptions(): WebhookSubscriptionV1[] {
+    return this.outbox
+      .getSubscriptions()
+      .map((r) => this.toWebhookSubscriptionV1(r));
+  }
+
+  /**
+   * Stops listening to the ledger for the subscription and deletes it along
+   * with its pending deliveries and dead letters.
+   *
+   * @throws {NotFoundError} If there is no subscription with the ID.
+   */
+  public async deleteSubscription(id: string): Promise<WebhookSubscriptionV1> {
+    const fnTag = `${this.className}#deleteSubscription()`;
+    const record = this.outbox.getSubscription(id);
+    if (!record) {
+      throw new NotFoundError(`${fnTag} No webhook subscription ${id}`);
+    }
+    const subscription = this.ledgerSubscriptions.get(id);
+    this.ledgerSubscriptions.delete(id);
+    await subscription?.unsubscribe();
+    await this.outbox.deleteSubscription(id);
+    this.log.info("%s Deleted subscription %s", fnTag, id);
+    return this.toWebhookSubscriptionV1(record);
+  }
+
+  public listDeliveries(
+    req: ListWebhookDeliveriesV1Request = {},
+  ): WebhookDeliveryV1[] {
+    return this.outbox
+      .getDeliveries()
+      .filter(
+        (d) => !req.subscriptionId || d.subscriptionId === req.subscriptionId,
+      )
+      .filter((d) => !req.status || d.status === req.status);
+  }
+
+  /**
+   * Puts the selected dead letters back in the queue of pending deliveries
+   * with their attempts reset.
+   *
+   * @returns The deliveries that were replayed.
+   */
+  public async replayDeliveries(
+    req: ReplayWebhookDeliveriesV1Request = {},
+  ): Promise<WebhookDeliveryV1[]> {
+    const { subscriptionId, deliveryIds } = req;
+    const deadLetters = this.listDeliveries({
+      subscriptionId,
+      status: WebhookDeliveryStatusV1.DeadLetter,
+    }).filter((d) => !deliveryIds || deliveryIds.includes(d.id));
+
+    const replayed: WebhookDeliveryV1[] = [];
+    for (const deadLetter of deadLetters) {
+      const delivery: WebhookDeliveryV1 = {
+        ...deadLetter,
+        status: WebhookDeliveryStatusV1.Pending,
+        attempts: 0,
+        nextAttemptAt: new Date().toISOString(),
+      };
+      await this.outbox.saveDelivery(delivery);
+      replayed.push(delivery);
+    }
+    this.log.info("Replaying %o dead letter(s)", replayed.length);
+    this.scheduleDispatch(0);
+    return replayed;
+  }
+
+  private getPlugin(instanceId: string): ICactusPlugin {
+    const fnTag = `${this.className}#getPlugin()`;
+    return (this.pluginRegistry as PluginRegistry)
+      .findOneById(instanceId)
+      .orElseThrow(() => new NotFoundError(`${fnTag} No plugin ${instanceId}`));
+  }
+
+  private getLedgerEventSource(instanceId: string): IPluginLedgerEventSource {
+    const fnTag = `${this.className}#getLedgerEventSource()`;
+    const plugin = this.getPlugin(instanceId);
+    if (!isIPluginLedgerEventSource(plugin)) {
+      throw new BadRequestError(`${fnTag} ${instanceId} is no event source`);
+    }
+    return plugin;
+  }
+
+  private async subscribe(record: IWebhookSubscriptionRecord): Promise<void> {
+    const subscription = record.watchBlocks
+      ? this.subscribeWatchBlocks(record, record.watchBlocks)
+      : await this.getLedgerEventSource(
+          record.ledgerPluginInstanceId,
+        ).subscribeLedgerEvents({
+          ...record.sourceOptions,
+          filter: record.filter,
+          fromBlock: record.fromBlock,
+          afterCursor: record.cursor,
+        });
+    this.ledgerSubscriptions.set(record.id, subscription);
+
+    this.pump(record.id, subscription)
+      .then(() => {
+        this.log.debug("Ledger subscription of %s has ended", record.id);
+      })
+      .catch((ex: unknown) => {
+        this.log.warn("Ledger subscription of %s crashed:", record.id, ex);
+        setTimeout(
+          () => this.resumeSubscriptions(record.ledgerPluginInstanceId),
+          this.initialBackoffMs,
+        ).unref();
+      })
+      .finally(() => {
+        if (this.ledgerSubscriptions.get(record.id) === subscription) {
+          this.ledgerSubscriptions.delete(record.id);
+        }
+      });
+  }
+
+  private subscribeWatchBlocks(
+    record: IWebhookSubscriptionRecord,
+    source: WebhookWatchBlocksSourceV1,
+  ): ILedgerEventSubscriptionV1 {
+    const fnTag = `${this.className}#subscribeWatchBlocks()`;
+    // The plugin has to be running, like in the case of event sources.
+    this.getPlugin(record.ledgerPluginInstanceId);
+    const wsApiHost = this.wsApiHost;
+    if (!wsApiHost) {
+      throw new Error(`${fnTag} The Socket.IO server address is not known`);
+    }
+    const ctx = {
+      wsApiHost,
+      authToken: this.opts.wsAuthToken,
+      sourceId: record.ledgerPluginInstanceId,
+      logLevel: this.opts.logLevel,
+    };
+    return subscribeWatchBlocksV1(ctx, source, record.cursor);
+  }
+
+  /**
+   * Moves the events of a ledger subscription to the outbox, advancing the
+   * cursor of the webhook subscription only after the event was persisted.
+   */
+  private async pump(
+    subscriptionId: string,
+    subscription: ILedgerEventSubscriptionV1,
+  ): Promise<void> {
+    for await (const event of subscription) {
+      if (!this.outbox.getSubscription(subscriptionId)) {
+        break;
+      }
+      const now = new Date().toISOString();
+      await this.outbox.saveDelivery({
+        id: uuidV4(),
+        subscriptionId,
+        event,
+        status: WebhookDeliveryStatusV1.Pending,
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+      });
+      const updated = await this.outbox.updateSubscription(
+        subscriptionId,
+        (record) => ({ ...record, cursor: event.cursor }),
+      );
+      this.scheduleDispatch(0);
+      if (!updated) {
+        break; // deleted in the meantime
+      }
+    }
+  }
+
+  private scheduleDispatch(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+    clearTimeout(this.dispatchTimer);
+    this.dispatchTimer = setTimeout(() => {
+      if (this.dispatchRun) {
+        return; // it schedules the next run once it is done
+      }
+      this.dispatchRun = this.dispatchDueDeliveries()
+        .catch((ex: unknown) => this.log.error("Dispatch crashed:", ex))
+        .finally(() => {
+          this.dispatchRun = undefined;
+          this.scheduleNextDispatch();
+        });
+    }, delayMs);
+    this.dispatchTimer.unref();
+  }
+
+  private scheduleNextDispatch(): void {
+    const dueTimes = this.listDeliveries({
+      status: WebhookDeliveryStatusV1.Pending,
+    }).map((d) => Date.parse(d.nextAttemptAt));
+    if (dueTimes.length > 0) {
+      this.scheduleDispatch(Math.max(0, Math.min(...dueTimes) - Date.now()));
+    }
+  }
+
+  private async dispatchDueDeliveries(): Promise<void> {
+    const now = Date.now();
+    const dueDeliveries = this.listDeliveries({
+      status: WebhookDeliveryStatusV1.Pending,
+    }).filter((d) => Date.parse(d.nextAttemptAt) <= now);
+
+    for (const delivery of dueDeliveries) {
+      if (!this.running) {
+        return;
+      }
+      await this.deliver(delivery);
+    }
+  }
+
+  private async deliver(delivery: WebhookDeliveryV1): Promise<void> {
+    const fnTag = `${this.className}#deliver()`;
+    const record = this.outbox.getSubscription(delivery.subscriptionId);
+    if (!record) {
+      await this.outbox.deleteDelivery(delivery.id);
+      return;
+    }
+
+    const payload: WebhookPayloadV1 = {
+      deliveryId: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      event: delivery.event,
+    };
+    const body = JSON.stringify(payload, bigIntToDecimalStringReplacer);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createWebhookSignatureV1(record.secret, timestamp, body);
+
+    let lastError: string;
+    try {
+      // re-checked since the addresses of the host may have changed
+      await assertWebhookTargetAllowedV1(
+        record.targetUrl,
+        this.allowedTargetHosts,
+      );
+      const res = await axios.post(record.targetUrl, body, {
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_DELIVERY_ID_HEADER]: delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signature,
+        },
+        timeout: this.requestTimeoutMs,
+        httpAgent: this.httpAgent,
+        httpsAgent: this.httpsAgent,
+        maxRedirects: 0,
+        validateStatus: () => true,
+      });
+      if (res.status >= 200 && res.status < 300) {
+        await this.outbox.deleteDelivery(delivery.id);
+        this.log.debug("%s Delivered %s OK", fnTag, delivery.id);
+        return;
+      }
+      lastError = `HTTP ${res.status} ${res.statusText}`;
+    } catch (ex: unknown) {
+      lastError = asError(ex).message;
+    }
+
+    if (!this.outbox.getDelivery(delivery.id)) {
+      return; // deleted along with its subscription in the meantime
+    }
+    const attempts = delivery.attempts + 1;
+    const isDeadLetter = attempts >= this.maxAttempts;
+    const backoffMs = Math.min(
+      this.initialBackoffMs * 2 ** (attempts - 1),
+      this.maxBackoffMs,
+    );
+    await this.outbox.saveDelivery({
+      ...delivery,
+      attempts,
+      lastError,
+      status: isDeadLetter
+        ? WebhookDeliveryStatusV1.DeadLetter
+        : WebhookDeliveryStatusV1.Pending,
+      nextAttemptAt: new Date(Date.now() + backoffMs).toISOString(),
+    });
+    if (isDeadLetter) {
+      this.log.warn(
+        "%s %s is a dead letter: %s",
+        fnTag,
+        delivery.id,
+        lastError,
+      );
+    } else {
+      this.log.debug("%s %s failed: %s", fnTag, delivery.id, lastError);
+    }
+  }
+
+  private toWebhookSubscriptionV1(
+    record: IWebhookSubscriptionRecord,
+  ): WebhookSubscriptionV1 {
+    const { id, targetUrl, ledgerPluginInstanceId } = record;
+    const { filter, watchBlocks, cursor, createdAt } = record;
+    return {
+      id,
+      targetUrl,
+      ledgerPluginInstanceId,
+      filter,
+      watchBlocks,
+      cursor,
+      createdAt,
+    };
+  }
+}
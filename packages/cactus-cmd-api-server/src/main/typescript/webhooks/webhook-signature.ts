@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-cacti-webhook-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-cacti-webhook-timestamp";
+export const WEBHOOK_DELIVERY_ID_HEADER = "x-cacti-webhook-delivery-id";
+
+const SIGNATURE_PREFIX = "sha256=";
+
+/**
+ * Computes the value of the signature header of a webhook delivery which is
+ * the hex encoded HMAC-SHA256 of `<timestamp>.<body>` keyed with the secret
+ * of the subscription, prefixed with `sha256=`.
+ *
+ * @param secret The secret of the webhook subscription.
+ * @param timestamp The value of the timestamp header (UNIX epoch seconds).
+ * @param body The raw (not re-serialized) body of the request.
+ */
+export function createWebhookSignatureV1(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  const hmac = createHmac("sha256", secret);
+  hmac.update(`${timestamp}.${body}`);
+  return SIGNATURE_PREFIX.concat(hmac.digest("hex"));
+}
+
+/**
+ * Verifies the signature of a webhook delivery in constant time. Consumers
+ * should also reject deliveries whose timestamp is too far in the past to
+ * protect themselves against replayed requests.
+ */
+export function isWebhookSignatureValidV1(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(
+    createWebhookSignatureV1(secret, timestamp, body),
+  );
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,125 @@
+import { lookup as dnsLookup } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP, LookupFunction } from "node:net";
+
+import { BadRequestError } from "http-errors-enhanced-cjs";
+
+/**
+ * The address ranges webhooks must not be delivered to unless their host is
+ * allowed explicitly: loopback, private, link-local (which includes the
+ * metadata services of the cloud providers), shared, multicast and other
+ * special purpose ranges.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([net, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(net as string, prefix as number, "ipv4"),
+);
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([net, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(net as string, prefix as number, "ipv6"),
+);
+
+/**
+ * @returns Whether `address` is in one of the ranges that webhooks must not
+ * be delivered to. IPv4-mapped IPv6 addresses are checked as IPv4 ones.
+ */
+export function isBlockedWebhookAddressV1(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return BLOCKED_ADDRESSES.check(mapped[1], "ipv4");
+  }
+  const family = isIP(address) === 6 ? "ipv6" : "ipv4";
+  return BLOCKED_ADDRESSES.check(address, family);
+}
+
+/**
+ * Guards against server-side request forgery through webhook target URLs:
+ * only http(s) URLs are accepted and all the addresses their host resolves
+ * to have to be public unless the host is in `allowedHosts`.
+ *
+ * The check has to be repeated before every delivery since the addresses a
+ * host name resolves to can change.
+ *
+ * @param allowedHosts Host names or IP addresses that are accepted even if
+ * they resolve to a blocked address, for example of consumers in the same
+ * private network.
+ * @throws {BadRequestError} If the URL is not allowed.
+ */
+export async function assertWebhookTargetAllowedV1(
+  targetUrl: string,
+  allowedHosts: readonly string[] = [],
+): Promise<void> {
+  const fnTag = "assertWebhookTargetAllowedV1()";
+  let url: URL;
+  try {
+    url = new URL(targetUrl);
+  } catch (ex: unknown) {
+    throw new BadRequestError(`${fnTag} Invalid targetUrl`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new BadRequestError(`${fnTag} targetUrl must be http(s)`);
+  }
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (allowedHosts.some((h) => h.toLowerCase() === host)) {
+    return;
+  }
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map((a) => a.address);
+  } catch (ex: unknown) {
+    throw new BadRequestError(`${fnTag} Cannot resolve ${host}`);
+  }
+  if (addresses.some((a) => isBlockedWebhookAddressV1(a))) {
+    throw new BadRequestError(`${fnTag} ${host} is not a public address`);
+  }
+}
+
+/**
+ * A DNS lookup for the HTTP agents of the webhook deliveries which fails for
+ * host names that resolve to a blocked address so that they cannot be
+ * pointed to one after they were checked by `assertWebhookTargetAllowedV1()`.
+ */
+export function createWebhookLookupV1(
+  allowedHosts: readonly string[] = [],
+): LookupFunction {
+  const allowed = new Set(allowedHosts.map((h) => h.toLowerCase()));
+  return (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) {
+        callback(err, "");
+        return;
+      }
+      const blocked = addresses.find((a) =>
+        isBlockedWebhookAddressV1(a.address),
+      );
+      if (blocked && !allowed.has(hostname.toLowerCase())) {
+        const msg = `${hostname} resolves to the blocked ${blocked.address}`;
+        callback(new Error(msg), "");
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
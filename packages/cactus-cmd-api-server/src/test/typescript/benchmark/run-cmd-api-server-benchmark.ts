@@ -35,6 +35,7 @@ const createTestInfrastructure = async (opts: {
 }): Promise<{
   readonly httpApi: ApiServerApiClient;
   readonly grpcCredentials: grpc.ChannelCredentials;
+  readonly grpcMetadata: grpc.Metadata;
   readonly grpcHost: string;
   readonly apiServer: ApiServer;
 }> => {
@@ -126,9 +127,12 @@ const createTestInfrastructure = async (opts: {
   );
 
   const grpcCredentials = grpc.credentials.createInsecure();
+  const grpcMetadata = new grpc.Metadata();
+  grpcMetadata.set("authorization", validBearerToken);
 
   return {
     grpcCredentials,
+    grpcMetadata,
     httpApi: apiClient,
     grpcHost,
     apiServer,
@@ -173,7 +177,7 @@ const main = async (opts: { readonly argv: Readonly<Array<string>> }) => {
   await fse.mkdirp(absoluteOutputDirPath);
   console.log("%s mkdir -p OK: %s", LOG_TAG, absoluteOutputDirPath);
 
-  const { apiServer, httpApi, grpcHost, grpcCredentials } =
+  const { apiServer, httpApi, grpcHost, grpcCredentials, grpcMetadata } =
     await createTestInfrastructure({ logLevel });
 
   const minSamples = 100;
@@ -204,7 +208,7 @@ const main = async (opts: { readonly argv: Readonly<Array<string>> }) => {
           await new Promise<default_service.org.hyperledger.cactus.cmd_api_server.GetOpenApiSpecV1Response>(
             (resolve, reject) => {
               const req = new empty.google.protobuf.Empty();
-              grpcClient.GetOpenApiSpecV1(req, (err3, value) => {
+              grpcClient.GetOpenApiSpecV1(req, grpcMetadata, (err3, value) => {
                 if (err3) {
                   reject(err3);
                 } else if (value) {
@@ -0,0 +1,229 @@
+import "jest-extended";
+import { v4 as uuidv4 } from "uuid";
+import { generateKeyPair, exportSPKI, SignJWT } from "jose";
+import expressJwt from "express-jwt";
+import axios, { Method } from "axios";
+import * as grpc from "@grpc/grpc-js";
+import { io } from "socket.io-client-fixed-types";
+
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+import { IJoseFittingJwtParams } from "@hyperledger/cactus-common";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { Constants } from "@hyperledger/cactus-core-api";
+
+import {
+  ApiServer,
+  ConfigService,
+  AuthorizationProtocol,
+  IAuthorizationConfig,
+  default_service,
+  empty,
+  WatchHealthcheckV1,
+} from "../../../main/typescript/public-api";
+
+import { PluginLedgerConnectorStub } from "../fixtures/plugin-ledger-connector-stub/plugin-ledger-connector-stub";
+import { RunTransactionEndpoint } from "../fixtures/plugin-ledger-connector-stub/web-services/run-transaction-endpoint";
+import { DeployContractEndpoint } from "../fixtures/plugin-ledger-connector-stub/web-services/deploy-contract-endpoint";
+import { UnprotectedActionEndpoint } from "../fixtures/plugin-ledger-connector-stub/web-services/unprotected-action-endpoint";
+
+const testCase = "API server enforces the operation authorization policy";
+const logLevel: LogLevelDesc = "INFO";
+
+describe(testCase, () => {
+  const adminScope = "cactus:stub:admin";
+  const healthcheckScope = "read:health";
+  const healthcheckMethodPath =
+    "/org.hyperledger.cactus.cmd_api_server.DefaultService/GetHealthCheckV1";
+
+  let apiServer: ApiServer;
+  let apiHost: string;
+  let grpcClient: default_service.org.hyperledger.cactus.cmd_api_server.DefaultServiceClient;
+  let signToken: (scope: string[]) => Promise<string>;
+
+  const connector = {} as PluginLedgerConnectorStub;
+  const runTxEp = new RunTransactionEndpoint({ connector, logLevel });
+  const deployContractEp = new DeployContractEndpoint({ connector, logLevel });
+  const unprotectedActionEp = new UnprotectedActionEndpoint({
+    connector,
+    logLevel,
+  });
+
+  const callHealthcheck = (token?: string) =>
+    new Promise<void>((resolve, reject) => {
+      const metadata = new grpc.Metadata();
+      if (token) {
+        metadata.set("authorization", `Bearer ${token}`);
+      }
+      grpcClient.GetHealthCheckV1(
+        new empty.google.protobuf.Empty(),
+        metadata,
+        (error: grpc.ServiceError | null) =>
+          error ? reject(error) : resolve(),
+      );
+    });
+
+  /**
+   * @returns Whether a health check arrived within a few seconds.
+   */
+  const watchHealthcheck = (token?: string) =>
+    new Promise<boolean>((resolve, reject) => {
+      const socket = io(apiHost, {
+        path: Constants.SocketIoConnectionPathV1,
+        auth: token ? { token: `Bearer ${token}` } : undefined,
+        reconnection: false,
+      });
+      const timeout = setTimeout(() => done(false), 3000);
+      const done = (arrived: boolean | Error) => {
+        clearTimeout(timeout);
+        socket.disconnect();
+        return arrived instanceof Error ? reject(arrived) : resolve(arrived);
+      };
+      socket.on("connect_error", done);
+      socket.on(WatchHealthcheckV1.Next, () => done(true));
+      socket.emit(WatchHealthcheckV1.Subscribe);
+    });
+
+  beforeAll(async () => {
+    const jwtKeyPair = await generateKeyPair("RS256", { modulusLength: 4096 });
+    const jwtPublicKey = await exportSPKI(jwtKeyPair.publicKey);
+    const expressJwtOptions: expressJwt.Params & IJoseFittingJwtParams = {
+      algorithms: ["RS256"],
+      secret: jwtPublicKey,
+      audience: uuidv4(),
+      issuer: uuidv4(),
+    };
+
+    signToken = (scope: string[]) =>
+      new SignJWT({ scope })
+        .setProtectedHeader({ alg: "RS256" })
+        .setIssuer(expressJwtOptions.issuer)
+        .setAudience(expressJwtOptions.audience)
+        .sign(jwtKeyPair.privateKey);
+
+    const authorizationConfig: IAuthorizationConfig = {
+      unprotectedEndpointExemptions: [
+        unprotectedActionEp.getPath(),
+        deployContractEp.getPath(),
+      ],
+      expressJwtOptions,
+      socketIoJwtOptions: { secret: jwtPublicKey, algorithms: ["RS256"] },
+      operationAuthzPolicy: {
+        operations: [
+          { operation: "runTransactionV1", requiredRoles: [adminScope] },
+          { operation: "deployContractV1", isProtected: false },
+          {
+            operation: healthcheckMethodPath,
+            requiredRoles: [healthcheckScope],
+          },
+        ],
+      },
+    };
+
+    const pluginRegistry = new PluginRegistry();
+    const plugin = new PluginLedgerConnectorStub({
+      logLevel,
+      pluginRegistry,
+      instanceId: uuidv4(),
+    });
+    pluginRegistry.add(plugin);
+
+    const configService = new ConfigService();
+    const apiSrvOpts = await configService.newExampleConfig();
+    apiSrvOpts.authorizationProtocol = AuthorizationProtocol.JSON_WEB_TOKEN;
+    apiSrvOpts.authorizationConfigJson = authorizationConfig;
+    apiSrvOpts.configFile = "";
+    apiSrvOpts.logLevel = logLevel;
+    apiSrvOpts.apiCorsDomainCsv = "*";
+    apiSrvOpts.apiPort = 0;
+    apiSrvOpts.cockpitPort = 0;
+    apiSrvOpts.grpcPort = 0;
+    apiSrvOpts.crpcPort = 0;
+    apiSrvOpts.grpcMtlsEnabled = false;
+    apiSrvOpts.apiTlsEnabled = false;
+    apiSrvOpts.plugins = [];
+    const config = await configService.newExampleConfigConvict(apiSrvOpts);
+
+    apiServer = new ApiServer({
+      config: config.getProperties(),
+      pluginRegistry,
+    });
+    const { addressInfoApi, addressInfoGrpc } = await apiServer.start();
+    apiHost = `http://${addressInfoApi.address}:${addressInfoApi.port}`;
+
+    grpcClient =
+      new default_service.org.hyperledger.cactus.cmd_api_server.DefaultServiceClient(
+        `${addressInfoGrpc.address}:${addressInfoGrpc.port}`,
+        grpc.credentials.createInsecure(),
+      );
+  });
+
+  afterAll(async () => {
+    grpcClient?.close();
+    await apiServer?.shutdown();
+  });
+
+  test("enforces the scopes of the policy instead of the declared ones", async () => {
+    const declaredScopeToken = await signToken([
+      ...RunTransactionEndpoint.OAUTH2_SCOPES,
+    ]);
+    const adminToken = await signToken([adminScope]);
+    const request = (token: string) =>
+      axios.request({
+        data: { requestId: uuidv4() },
+        url: `${apiHost}${runTxEp.getPath()}`,
+        method: runTxEp.getVerbLowerCase() as Method,
+        headers: { Authorization: `Bearer ${token}` },
+        validateStatus: () => true,
+      });
+
+    await expect(request(declaredScopeToken)).resolves.toHaveProperty(
+      "status",
+      403,
+    );
+    await expect(request(adminToken)).resolves.toHaveProperty("status", 200);
+  });
+
+  test("lets overrides unprotect endpoints", async () => {
+    const res = await axios.request({
+      url: `${apiHost}${deployContractEp.getPath()}`,
+      method: deployContractEp.getVerbLowerCase() as Method,
+      validateStatus: () => true,
+    });
+    expect(res.status).not.toBeOneOf([401, 403]);
+
+    const report = apiServer.getAuthzPolicyReport();
+    expect(report).toContainEqual(
+      expect.objectContaining({
+        operation: "deployContractV1",
+        isProtected: false,
+        overridden: true,
+      }),
+    );
+  });
+
+  test("enforces the policy on gRPC calls", async () => {
+    await expect(callHealthcheck()).rejects.toHaveProperty(
+      "code",
+      grpc.status.UNAUTHENTICATED,
+    );
+    await expect(callHealthcheck("not-a-jwt")).rejects.toHaveProperty(
+      "code",
+      grpc.status.UNAUTHENTICATED,
+    );
+    await expect(callHealthcheck(await signToken([]))).rejects.toHaveProperty(
+      "code",
+      grpc.status.PERMISSION_DENIED,
+    );
+    await expect(
+      callHealthcheck(await signToken([healthcheckScope])),
+    ).toResolve();
+  });
+
+  test("enforces the policy on Socket.IO events", async () => {
+    await expect(watchHealthcheck()).rejects.toThrow();
+    await expect(watchHealthcheck(await signToken([]))).resolves.toBeFalse();
+    await expect(
+      watchHealthcheck(await signToken([healthcheckScope])),
+    ).resolves.toBeTrue();
+  });
+});
@@ -0,0 +1,123 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+
+import "jest-extended";
+
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+
+import { ConfigService } from "../../../main/typescript/config/config-service";
+import { AuthorizationProtocol } from "../../../main/typescript/config/authorization-protocol";
+import { ApiServer } from "../../../main/typescript/api-server";
+import {
+  Configuration,
+  DefaultApi as ApiServerApi,
+  PluginImportAction,
+  PluginImportType,
+  PluginLifecycleStatusV1,
+} from "../../../main/typescript/public-api";
+
+describe("ApiServer - plugin lifecycle management", () => {
+  const logLevel: LogLevelDesc = "INFO";
+  const instanceId = randomUUID();
+  const pluginImport = {
+    packageName: "@hyperledger/cactus-plugin-keychain-memory",
+    type: PluginImportType.Local,
+    action: PluginImportAction.Install,
+    options: {
+      instanceId,
+      keychainId: randomUUID(),
+      logLevel,
+      version: "0.10.0",
+    },
+  };
+
+  let apiServer: ApiServer;
+  let apiClient: ApiServerApi;
+
+  beforeAll(async () => {
+    const pluginsPath = path.join(
+      __dirname,
+      "../../../../../../", // walk back up to the project root
+      ".tmp/test/cmd-api-server/plugin-lifecycle-management/", // the dir path from the root
+      randomUUID(), // then a random directory to ensure proper isolation
+    );
+    const pluginManagerOptionsJson = JSON.stringify({ pluginsPath });
+
+    const configService = new ConfigService();
+
+    const apiSrvOpts = await configService.newExampleConfig();
+    apiSrvOpts.pluginManagerOptionsJson = pluginManagerOptionsJson;
+    apiSrvOpts.authorizationProtocol = AuthorizationProtocol.NONE;
+    apiSrvOpts.configFile = "";
+    apiSrvOpts.apiCorsDomainCsv = "*";
+    apiSrvOpts.apiPort = 0;
+    apiSrvOpts.cockpitPort = 0;
+    apiSrvOpts.grpcPort = 0;
+    apiSrvOpts.crpcPort = 0;
+    apiSrvOpts.apiTlsEnabled = false;
+    apiSrvOpts.plugins = [];
+
+    const config = await configService.newExampleConfigConvict(apiSrvOpts);
+    apiServer = new ApiServer({ config: config.getProperties() });
+
+    const { addressInfoApi } = await apiServer.start();
+    const { address, port } = addressInfoApi;
+    const basePath = `http://${address}:${port}`;
+    apiClient = new ApiServerApi(new Configuration({ basePath }));
+  });
+
+  afterAll(async () => {
+    await apiServer.shutdown();
+  });
+
+  it("installs, stops, starts and removes a plugin without a restart", async () => {
+    const installRes = await apiClient.installPluginV1({ pluginImport });
+    expect(installRes.status).toEqual(200);
+    expect(installRes.data).toMatchObject({
+      instanceId,
+      packageName: pluginImport.packageName,
+      status: PluginLifecycleStatusV1.Running,
+    });
+
+    const stopRes = await apiClient.stopPluginV1({ instanceId });
+    expect(stopRes.data.status).toEqual(PluginLifecycleStatusV1.Stopped);
+
+    await expect(apiClient.stopPluginV1({ instanceId })).rejects.toMatchObject({
+      response: { status: 409 },
+    });
+
+    const startRes = await apiClient.startPluginV1({ instanceId });
+    expect(startRes.data.status).toEqual(PluginLifecycleStatusV1.Running);
+
+    const reloadRes = await apiClient.reloadPluginV1({ instanceId });
+    expect(reloadRes.data.status).toEqual(PluginLifecycleStatusV1.Running);
+
+    const listRes1 = await apiClient.listPluginsV1();
+    expect(listRes1.data.plugins).toContainEqual(
+      expect.objectContaining({ instanceId }),
+    );
+
+    await expect(apiClient.removePluginV1({ instanceId })).toResolve();
+
+    const listRes2 = await apiClient.listPluginsV1();
+    expect(listRes2.data.plugins).not.toContainEqual(
+      expect.objectContaining({ instanceId }),
+    );
+
+    await expect(apiClient.startPluginV1({ instanceId })).rejects.toMatchObject(
+      { response: { status: 404 } },
+    );
+  });
+
+  it("rejects instanceIds that escape the plugins directory", async () => {
+    for (const badInstanceId of ["..", "../outside", "nested/dir"]) {
+      const badImport = {
+        ...pluginImport,
+        options: { ...pluginImport.options, instanceId: badInstanceId },
+      };
+      await expect(
+        apiClient.installPluginV1({ pluginImport: badImport }),
+      ).rejects.toMatchObject({ response: { status: 400 } });
+    }
+  });
+});
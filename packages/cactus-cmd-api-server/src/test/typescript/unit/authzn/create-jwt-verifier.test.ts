@@ -0,0 +1,73 @@
+import "jest-extended";
+import { createPublicKey } from "crypto";
+import { exportSPKI, generateKeyPair, SignJWT } from "jose";
+
+import { createJwtVerifier } from "../../../../main/typescript/public-api";
+
+describe("createJwtVerifier()", () => {
+  const audience = "org.hyperledger.cactus";
+
+  test("verifies tokens with shared secrets", async () => {
+    const secret = "some-shared-secret-of-the-api-server";
+    const token = await new SignJWT({ scope: "a" })
+      .setProtectedHeader({ alg: "HS256" })
+      .setAudience(audience)
+      .sign(new TextEncoder().encode(secret));
+
+    const verifyJwt = createJwtVerifier({ algorithms: ["HS256"], secret });
+    await expect(verifyJwt(token)).resolves.toMatchObject({ scope: "a" });
+
+    const wrongSecret = createJwtVerifier({
+      algorithms: ["HS256"],
+      secret: Buffer.from("some-other-secret"),
+    });
+    await expect(wrongSecret(token)).rejects.toThrow();
+  });
+
+  test("verifies tokens with public keys and key functions", async () => {
+    const { privateKey, publicKey } = await generateKeyPair("RS256");
+    const pem = await exportSPKI(publicKey);
+    const token = await new SignJWT({ scope: "a" })
+      .setProtectedHeader({ alg: "RS256", kid: "key-1" })
+      .setAudience(audience)
+      .setIssuer("issuer-1")
+      .sign(privateKey);
+    const algorithms = ["RS256"];
+
+    await expect(
+      createJwtVerifier({ algorithms, secret: pem })(token),
+    ).resolves.toMatchObject({ scope: "a" });
+    await expect(
+      createJwtVerifier({ algorithms, secret: createPublicKey(pem) })(token),
+    ).resolves.toMatchObject({ scope: "a" });
+    await expect(
+      createJwtVerifier({ algorithms, secret: pem, issuer: "issuer-2" })(token),
+    ).rejects.toThrow();
+
+    // the same signature as the expressJwtSecret() of jwks-rsa
+    const getKey = jest.fn(async (_req: unknown, jwt?: { header: object }) =>
+      jwt?.header && (jwt.header as { kid?: string }).kid === "key-1"
+        ? pem
+        : undefined,
+    );
+    const verifyJwt = createJwtVerifier({ algorithms, secret: getKey });
+    await expect(verifyJwt(token)).resolves.toMatchObject({ scope: "a" });
+    expect(getKey).toHaveBeenCalledWith(
+      { headers: { authorization: `Bearer ${token}` } },
+      expect.objectContaining({
+        payload: expect.objectContaining({ scope: "a" }),
+      }),
+    );
+
+    const otherKid = await new SignJWT({})
+      .setProtectedHeader({ alg: "RS256", kid: "key-2" })
+      .setAudience(audience)
+      .sign(privateKey);
+    await expect(verifyJwt(otherKid)).rejects.toThrow();
+  });
+
+  test("rejects invalid options", () => {
+    expect(() => createJwtVerifier({ secret: "a" })).toThrow();
+    expect(() => createJwtVerifier({ algorithms: ["HS256"] })).toThrow();
+  });
+});
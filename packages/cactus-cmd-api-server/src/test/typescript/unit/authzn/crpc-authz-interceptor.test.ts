@@ -0,0 +1,114 @@
+import "jest-extended";
+import { Empty, MethodKind } from "@bufbuild/protobuf";
+import {
+  Code,
+  createPromiseClient,
+  createRouterTransport,
+} from "@connectrpc/connect";
+import { SignJWT } from "jose";
+
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+
+import {
+  createCrpcAuthzInterceptor,
+  createJwtVerifier,
+  OperationAuthzPolicy,
+} from "../../../../main/typescript/public-api";
+
+const TestService = {
+  typeName: "org.hyperledger.cactus.test.TestService",
+  methods: {
+    declared: {
+      name: "Declared",
+      I: Empty,
+      O: Empty,
+      kind: MethodKind.Unary,
+    },
+    undeclared: {
+      name: "Undeclared",
+      I: Empty,
+      O: Empty,
+      kind: MethodKind.Unary,
+    },
+    open: {
+      name: "Open",
+      I: Empty,
+      O: Empty,
+      kind: MethodKind.Unary,
+    },
+  },
+} as const;
+
+describe("createCrpcAuthzInterceptor()", () => {
+  const logLevel: LogLevelDesc = "INFO";
+  const secret = "some-shared-secret-of-the-api-server";
+  const svc = `/${TestService.typeName}`;
+
+  const policy = new OperationAuthzPolicy({
+    logLevel,
+    declared: {
+      [`${svc}/Declared`]: { isProtected: true, requiredRoles: ["read:a"] },
+    },
+    config: { operations: [{ operation: `${svc}/Open`, isProtected: false }] },
+  });
+  const transport = createRouterTransport(
+    (router) =>
+      router.service(TestService, {
+        declared: () => new Empty(),
+        undeclared: () => new Empty(),
+        open: () => new Empty(),
+      }),
+    {
+      router: {
+        interceptors: [
+          createCrpcAuthzInterceptor({
+            policy,
+            verifyJwt: createJwtVerifier({ algorithms: ["HS256"], secret }),
+          }),
+        ],
+      },
+    },
+  );
+  const client = createPromiseClient(TestService, transport);
+
+  const signToken = (scope: string) =>
+    new SignJWT({ scope })
+      .setProtectedHeader({ alg: "HS256" })
+      .setAudience("org.hyperledger.cactus")
+      .sign(new TextEncoder().encode(secret));
+  const withToken = (token: string) => ({
+    headers: { authorization: `Bearer ${token}` },
+  });
+
+  test("requires valid tokens with the scopes of the policy", async () => {
+    await expect(client.declared({})).rejects.toMatchObject({
+      code: Code.Unauthenticated,
+    });
+    await expect(
+      client.declared({}, withToken("not-a-jwt")),
+    ).rejects.toMatchObject({ code: Code.Unauthenticated });
+    await expect(
+      client.declared({}, withToken(await signToken("read:b"))),
+    ).rejects.toMatchObject({ code: Code.PermissionDenied });
+    await expect(
+      client.declared({}, withToken(await signToken("read:b read:a"))),
+    ).toResolve();
+  });
+
+  test("refuses methods without scopes and skips unprotected ones", async () => {
+    const token = await signToken("read:a");
+    await expect(client.undeclared({}, withToken(token))).rejects.toMatchObject(
+      { code: Code.PermissionDenied },
+    );
+    await expect(client.open({})).toResolve();
+
+    expect(policy.getReport()).toContainEqual(
+      expect.objectContaining({
+        protocol: "crpc",
+        operation: `${svc}/Undeclared`,
+        isProtected: true,
+        requiredRoles: [],
+      }),
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import "jest-extended";
+
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+
+import {
+  isScopeClaimSatisfying,
+  OperationAuthzPolicy,
+} from "../../../../main/typescript/public-api";
+
+import { PluginLedgerConnectorStub } from "../../fixtures/plugin-ledger-connector-stub/plugin-ledger-connector-stub";
+import { DeployContractEndpoint } from "../../fixtures/plugin-ledger-connector-stub/web-services/deploy-contract-endpoint";
+import { RunTransactionEndpoint } from "../../fixtures/plugin-ledger-connector-stub/web-services/run-transaction-endpoint";
+
+describe("OperationAuthzPolicy", () => {
+  const logLevel: LogLevelDesc = "INFO";
+  const connector = {} as PluginLedgerConnectorStub;
+  const runTxEp = new RunTransactionEndpoint({ connector, logLevel });
+  const deployEp = new DeployContractEndpoint({ connector, logLevel });
+
+  test("keeps the declared options of operations without rules", async () => {
+    const policy = new OperationAuthzPolicy({ logLevel });
+    const declared = { isProtected: true, requiredRoles: ["a"] };
+    await expect(policy.resolve(runTxEp, declared)).resolves.toEqual(declared);
+
+    expect(policy.resolveOperation("grpc", "/a.B/C")).toEqual({
+      isProtected: true,
+      requiredRoles: [],
+    });
+    expect(policy.requireScopes).toBeTrue();
+  });
+
+  test("refuses protected operations without scopes (fail closed)", () => {
+    const declared = {
+      "/a.B/Declared": { isProtected: true, requiredRoles: ["a"] },
+    };
+    const policy = new OperationAuthzPolicy({ logLevel, declared });
+
+    const undeclared = policy.resolveOperation("crpc", "/a.B/Undeclared");
+    expect(undeclared).toEqual({ isProtected: true, requiredRoles: [] });
+    expect(policy.isAuthorized(undeclared, "a")).toBeFalse();
+
+    const resolved = policy.resolveOperation("crpc", "/a.B/Declared");
+    expect(resolved).toEqual(declared["/a.B/Declared"]);
+    expect(policy.isAuthorized(resolved, "a b")).toBeTrue();
+    expect(policy.isAuthorized(resolved, "b")).toBeFalse();
+
+    const optedOut = new OperationAuthzPolicy({
+      logLevel,
+      config: { requireScopes: false },
+    });
+    expect(optedOut.requireScopes).toBeFalse();
+    expect(optedOut.isAuthorized(undeclared, undefined)).toBeTrue();
+  });
+
+  test("overrides the declared options by operationId", async () => {
+    const policy = new OperationAuthzPolicy({
+      logLevel,
+      config: {
+        requireScopes: true,
+        operations: [
+          {
+            operation: "runTransactionV1",
+            requiredRoles: ["cactus:stub:admin"],
+          },
+          { operation: "deployContractV1", isProtected: false },
+          { operation: "/a.B/C", requiredRoles: ["rpc"] },
+        ],
+      },
+    });
+    const declared = { isProtected: true, requiredRoles: ["a"] };
+    await expect(policy.resolve(runTxEp, declared)).resolves.toEqual({
+      isProtected: true,
+      requiredRoles: ["cactus:stub:admin"],
+    });
+    await expect(policy.resolve(deployEp, declared)).resolves.toEqual({
+      isProtected: false,
+      requiredRoles: ["a"],
+    });
+    expect(policy.resolveOperation("grpc", "/a.B/C").requiredRoles).toEqual([
+      "rpc",
+    ]);
+    expect(policy.requireScopes).toBeTrue();
+
+    const report = policy.getReport();
+    expect(report).toHaveLength(3);
+    expect(report).toContainEqual({
+      protocol: "http",
+      operation: "deployContractV1",
+      location: `POST ${deployEp.getPath()}`,
+      isProtected: false,
+      requiredRoles: ["a"],
+      overridden: true,
+    });
+    expect(policy.formatReport()).toContain(
+      `http deployContractV1 (POST ${deployEp.getPath()}) UNPROTECTED [a] (overridden by config)`,
+    );
+  });
+
+  test("rejects malformed rules", () => {
+    const requiredRoles = "a" as unknown as string[];
+    const malformed = [
+      [{ operation: "x", requiredRoles }],
+      [{ operation: "", requiredRoles: [] }],
+      [{ operation: "x" }, { operation: "x", isProtected: false }],
+    ];
+    malformed.forEach((operations) =>
+      expect(
+        () => new OperationAuthzPolicy({ config: { operations } }),
+      ).toThrow(),
+    );
+  });
+
+  test("isScopeClaimSatisfying()", () => {
+    expect(isScopeClaimSatisfying(undefined, [])).toBeTrue();
+    expect(isScopeClaimSatisfying(undefined, ["a"])).toBeFalse();
+    expect(isScopeClaimSatisfying("a b", ["a", "b"])).toBeTrue();
+    expect(isScopeClaimSatisfying(["a"], ["a", "b"])).toBeFalse();
+    expect(isScopeClaimSatisfying(["b", "a"], ["a", "b"])).toBeTrue();
+  });
+});
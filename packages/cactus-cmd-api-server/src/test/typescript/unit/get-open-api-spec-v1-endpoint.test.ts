@@ -29,6 +29,8 @@ describe("cmd-api-server:getOpenApiSpecV1Endpoint", () => {
   let apiServer: ApiServer;
   let apiClient: ApiServerApiClient;
   let grpcHost: string;
+  // the gRPC methods of the API server are protected the same way as HTTP
+  const grpcMetadata = new grpc.Metadata();
 
   afterAll(async () => await apiServer.shutdown());
 
@@ -115,6 +117,7 @@ describe("cmd-api-server:getOpenApiSpecV1Endpoint", () => {
 
     const validBearerToken = `Bearer ${validJwt}`;
     expect(validBearerToken).toBeTruthy();
+    grpcMetadata.set("authorization", validBearerToken);
 
     apiClient = new ApiServerApiClient(
       new ApiServerApiClientConfiguration({
@@ -320,7 +323,7 @@ describe("cmd-api-server:getOpenApiSpecV1Endpoint", () => {
               reject(err2);
             } else {
               const req = new empty.google.protobuf.Empty();
-              client.GetOpenApiSpecV1(req, (err3, value) => {
+              client.GetOpenApiSpecV1(req, grpcMetadata, (err3, value) => {
                 if (err3) {
                   reject(err3);
                 } else if (value) {
@@ -358,6 +361,7 @@ describe("cmd-api-server:getOpenApiSpecV1Endpoint", () => {
         (x) => x,
         (y) => y,
         Buffer.from([]),
+        grpcMetadata,
         (err3, value) => {
           if (err3) {
             reject(err3);
@@ -385,7 +389,7 @@ describe("cmd-api-server:getOpenApiSpecV1Endpoint", () => {
       new Promise<default_service.org.hyperledger.cactus.cmd_api_server.GetOpenApiSpecV1Response>(
         (resolve, reject) => {
           const req = new empty.google.protobuf.Empty();
-          client.GetOpenApiSpecV1(req, (err3, value) => {
+          client.GetOpenApiSpecV1(req, grpcMetadata, (err3, value) => {
             if (err3) {
               reject(err3);
             } else if (value) {
@@ -0,0 +1,111 @@
+import "jest-extended";
+import { Empty, MethodKind, StringValue } from "@bufbuild/protobuf";
+import {
+  Code,
+  ConnectError,
+  createPromiseClient,
+  createRouterTransport,
+} from "@connectrpc/connect";
+
+import {
+  RateLimitKeySource,
+  TokenBucketRateLimiter,
+} from "@hyperledger/cactus-core";
+
+import { createCrpcRateLimitInterceptor } from "../../../../main/typescript/rate-limiting/crpc-rate-limit-interceptor";
+
+const EchoService = {
+  typeName: "org.hyperledger.cactus.test.EchoService",
+  methods: {
+    echo: {
+      name: "Echo",
+      I: StringValue,
+      O: StringValue,
+      kind: MethodKind.Unary,
+    },
+    ping: {
+      name: "Ping",
+      I: Empty,
+      O: Empty,
+      kind: MethodKind.Unary,
+    },
+  },
+} as const;
+
+describe("createCrpcRateLimitInterceptor()", () => {
+  const newClient = (rateLimiter: TokenBucketRateLimiter) => {
+    const transport = createRouterTransport(
+      (router) =>
+        router.service(EchoService, {
+          echo: (req) => new StringValue({ value: req.value }),
+          ping: () => new Empty(),
+        }),
+      {
+        router: {
+          interceptors: [
+            createCrpcRateLimitInterceptor({
+              rateLimiter,
+              getPluginOfService: () => undefined,
+            }),
+          ],
+        },
+      },
+    );
+    return createPromiseClient(EchoService, transport);
+  };
+
+  test("fails with resource_exhausted and retry-after", async () => {
+    const rateLimiter = new TokenBucketRateLimiter({
+      config: {
+        global: { capacity: 2, refillPerSecond: 1 },
+        paths: {
+          "/org.hyperledger.cactus.test.EchoService/Ping": {
+            capacity: 1,
+            refillPerSecond: 0.2,
+          },
+        },
+      },
+    });
+    const client = newClient(rateLimiter);
+
+    await expect(client.ping({})).toResolve();
+    const rejection = client.ping({});
+    await expect(rejection).rejects.toBeInstanceOf(ConnectError);
+    const error = (await rejection.catch((ex) => ex)) as ConnectError;
+    expect(error.code).toEqual(Code.ResourceExhausted);
+    expect(error.metadata.get("retry-after")).toEqual("5");
+
+    // the rejected call took no token out of the global bucket
+    await expect(client.echo({ value: "a" })).resolves.toMatchObject({
+      value: "a",
+    });
+    await expect(client.echo({ value: "b" })).rejects.toMatchObject({
+      code: Code.ResourceExhausted,
+    });
+  });
+
+  test("keys the buckets by the known API keys", async () => {
+    const rateLimiter = new TokenBucketRateLimiter({
+      config: {
+        keyBy: RateLimitKeySource.ApiKey,
+        apiKeys: ["key-1", "key-2"],
+        global: { capacity: 1, refillPerSecond: 0.1 },
+      },
+    });
+    const client = newClient(rateLimiter);
+    const ping = (apiKey: string) =>
+      client.ping({}, { headers: { "x-api-key": apiKey } });
+
+    await expect(ping("key-1")).toResolve();
+    await expect(ping("key-2")).toResolve();
+    await expect(ping("key-1")).rejects.toMatchObject({
+      code: Code.ResourceExhausted,
+    });
+
+    // made up keys share the bucket of the client address
+    await expect(ping("made-up-1")).toResolve();
+    await expect(ping("made-up-2")).rejects.toMatchObject({
+      code: Code.ResourceExhausted,
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import "jest-extended";
+import * as grpc from "@grpc/grpc-js";
+
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+
+import {
+  ApiServer,
+  AuthorizationProtocol,
+  ConfigService,
+  default_service,
+  empty,
+} from "../../../../main/typescript/public-api";
+
+const logLevel: LogLevelDesc = "INFO";
+
+describe("createGrpcRateLimitInterceptor()", () => {
+  let apiServer: ApiServer;
+  let apiClient: default_service.org.hyperledger.cactus.cmd_api_server.DefaultServiceClient;
+
+  beforeAll(async () => {
+    const configService = new ConfigService();
+    const apiSrvOpts = await configService.newExampleConfig();
+    apiSrvOpts.authorizationProtocol = AuthorizationProtocol.NONE;
+    apiSrvOpts.configFile = "";
+    apiSrvOpts.logLevel = logLevel;
+    apiSrvOpts.apiPort = 0;
+    apiSrvOpts.grpcPort = 0;
+    apiSrvOpts.crpcPort = 0;
+    apiSrvOpts.cockpitPort = 0;
+    apiSrvOpts.grpcMtlsEnabled = false;
+    apiSrvOpts.apiTlsEnabled = false;
+    apiSrvOpts.plugins = [];
+    apiSrvOpts.rateLimitConfigJson = JSON.stringify({
+      global: { capacity: 1, refillPerSecond: 0.1 },
+    });
+    const convictCfg = await configService.newExampleConfigConvict(apiSrvOpts);
+
+    apiServer = new ApiServer({ config: convictCfg.getProperties() });
+    const { addressInfoGrpc } = await apiServer.start();
+    const { address, port } = addressInfoGrpc;
+
+    apiClient =
+      new default_service.org.hyperledger.cactus.cmd_api_server.DefaultServiceClient(
+        `${address}:${port}`,
+        grpc.credentials.createInsecure(),
+      );
+  });
+
+  afterAll(async () => {
+    if (apiClient) {
+      apiClient.close();
+    }
+    if (apiServer) {
+      await apiServer.shutdown();
+    }
+  });
+
+  test("fails with RESOURCE_EXHAUSTED and a retry-after trailer", async () => {
+    const getHealthCheck = () =>
+      new Promise<void>((resolve, reject) => {
+        apiClient.GetHealthCheckV1(
+          new empty.google.protobuf.Empty(),
+          (error: grpc.ServiceError | null) =>
+            error ? reject(error) : resolve(),
+        );
+      });
+
+    await expect(getHealthCheck()).toResolve();
+
+    const rejection = getHealthCheck();
+    await expect(rejection).rejects.toMatchObject({
+      code: grpc.status.RESOURCE_EXHAUSTED,
+    });
+    const error = (await rejection.catch((ex) => ex)) as grpc.ServiceError;
+    expect(error.metadata.get("retry-after")).toEqual(["10"]);
+  });
+});
@@ -0,0 +1,405 @@
+import { randomUUID } from "node:crypto";
+import { createServer, IncomingHttpHeaders, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import path from "node:path";
+
+import "jest-extended";
+import fs from "fs-extra";
+import { BadRequestError, NotFoundError } from "http-errors-enhanced-cjs";
+import { Server as SocketIoServer } from "socket.io";
+
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+import {
+  Constants,
+  IPluginLedgerEventSource,
+  LedgerEventSubscriptionOptionsV1,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import {
+  LedgerEventSubscriptionV1,
+  PluginRegistry,
+} from "@hyperledger/cactus-core";
+
+import {
+  isBlockedWebhookAddressV1,
+  isWebhookSignatureValidV1,
+  WebhookDeliveryStatusV1,
+  WebhookService,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "../../../../main/typescript/public-api";
+import { WebhookOutbox } from "../../../../main/typescript/webhooks/webhook-outbox";
+
+class FakeLedgerEventSource implements IPluginLedgerEventSource {
+  public readonly requests: LedgerEventSubscriptionOptionsV1[] = [];
+  public readonly subscriptions: LedgerEventSubscriptionV1[] = [];
+  private readonly instanceId = randomUUID();
+
+  public getInstanceId(): string {
+    return this.instanceId;
+  }
+
+  public getPackageName(): string {
+    return "fake-ledger-event-source";
+  }
+
+  public async onPluginInit(): Promise<void> {
+    return;
+  }
+
+  public async subscribeLedgerEvents(
+    subscriptionOptions: LedgerEventSubscriptionOptionsV1,
+  ): Promise<LedgerEventSubscriptionV1> {
+    const subscription = new LedgerEventSubscriptionV1({ subscriptionOptions });
+    this.requests.push(subscriptionOptions);
+    this.subscriptions.push(subscription);
+    return subscription;
+  }
+
+  public getLastSubscription(): LedgerEventSubscriptionV1 {
+    return this.subscriptions[this.subscriptions.length - 1];
+  }
+}
+
+describe("WebhookService", () => {
+  const logLevel: LogLevelDesc = "INFO";
+  const secret = "a-secret-of-at-least-16-characters";
+  // the test endpoint is on the loopback interface which is blocked otherwise
+  const allowedTargetHosts = ["127.0.0.1"];
+  const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+  let responseStatus = 200;
+  let server: Server;
+  let targetUrl: string;
+
+  const newOutboxDir = () =>
+    path.join(
+      __dirname,
+      "../../../../../../../", // walk back up to the project root
+      ".tmp/test/cmd-api-server/webhook-service/", // the dir path from the root
+      randomUUID(), // then a random directory to ensure proper isolation
+    );
+
+  const block = (source: FakeLedgerEventSource, n: number): LedgerEventV1 => ({
+    eventType: LedgerEventTypeV1.Block,
+    sourceId: source.getInstanceId(),
+    cursor: { blockNumber: n },
+  });
+
+  const waitFor = async (condition: () => boolean): Promise<void> => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    expect(condition()).toBeTrue();
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { address, port } = server.address() as AddressInfo;
+    targetUrl = `http://${address}:${port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    responseStatus = 200;
+  });
+
+  test("delivers signed events and resumes after the last cursor", async () => {
+    const outboxDir = newOutboxDir();
+    const source = new FakeLedgerEventSource();
+    const pluginRegistry = new PluginRegistry({ plugins: [source] });
+    const service = new WebhookService({
+      outboxDir,
+      logLevel,
+      allowedTargetHosts,
+    });
+    await service.start(pluginRegistry);
+
+    const filter = { eventTypes: [LedgerEventTypeV1.Block] };
+    const subscription = await service.createSubscription({
+      targetUrl,
+      ledgerPluginInstanceId: source.getInstanceId(),
+      secret,
+      filter,
+      fromBlock: 1,
+    });
+    expect(subscription).not.toHaveProperty("secret");
+    expect(source.requests[0]).toMatchObject({ filter, fromBlock: 1 });
+
+    await source.getLastSubscription().push(block(source, 1));
+    await waitFor(() => received.length === 1);
+    await waitFor(() => service.listDeliveries().length === 0);
+
+    const [{ headers, body }] = received;
+    const timestamp = headers[WEBHOOK_TIMESTAMP_HEADER] as string;
+    const signature = headers[WEBHOOK_SIGNATURE_HEADER] as string;
+    expect(isWebhookSignatureValidV1(secret, timestamp, body, signature)).toBe(
+      true,
+    );
+    expect(isWebhookSignatureValidV1("x", timestamp, body, signature)).toBe(
+      false,
+    );
+    expect(JSON.parse(body)).toMatchObject({
+      subscriptionId: subscription.id,
+      event: block(source, 1),
+    });
+
+    await service.shutdown();
+    expect(source.getLastSubscription().isClosed()).toBeTrue();
+
+    const restarted = new WebhookService({
+      outboxDir,
+      logLevel,
+      allowedTargetHosts,
+    });
+    await restarted.start(pluginRegistry);
+    expect(source.requests[1]).toMatchObject({
+      afterCursor: { blockNumber: 1 },
+    });
+    expect(restarted.listSubscriptions()).toEqual([
+      { ...subscription, cursor: { blockNumber: 1 } },
+    ]);
+    await restarted.shutdown();
+    await fs.remove(outboxDir);
+  });
+
+  test("dead-letters failing deliveries and replays them", async () => {
+    const outboxDir = newOutboxDir();
+    const source = new FakeLedgerEventSource();
+    const pluginRegistry = new PluginRegistry({ plugins: [source] });
+    const service = new WebhookService({
+      outboxDir,
+      logLevel,
+      maxAttempts: 2,
+      initialBackoffMs: 10,
+      allowedTargetHosts,
+    });
+    await service.start(pluginRegistry);
+
+    const { id: subscriptionId } = await service.createSubscription({
+      targetUrl,
+      ledgerPluginInstanceId: source.getInstanceId(),
+      secret,
+    });
+
+    responseStatus = 500;
+    await source.getLastSubscription().push(block(source, 7));
+    const status = WebhookDeliveryStatusV1.DeadLetter;
+    await waitFor(() => service.listDeliveries({ status }).length === 1);
+    expect(received).toHaveLength(2);
+
+    const [deadLetter] = service.listDeliveries({ subscriptionId });
+    expect(deadLetter.attempts).toEqual(2);
+    expect(deadLetter.lastError).toStartWith("HTTP 500");
+
+    responseStatus = 200;
+    const replayed = await service.replayDeliveries({ subscriptionId });
+    expect(replayed).toHaveLength(1);
+    expect(replayed[0].id).toEqual(deadLetter.id);
+    await waitFor(() => service.listDeliveries().length === 0);
+    expect(received).toHaveLength(3);
+
+    await service.deleteSubscription(subscriptionId);
+    expect(service.listSubscriptions()).toBeEmpty();
+    expect(source.getLastSubscription().isClosed()).toBeTrue();
+
+    await service.shutdown();
+    await fs.remove(outboxDir);
+  });
+
+  test("rejects invalid subscriptions", async () => {
+    const outboxDir = newOutboxDir();
+    const source = new FakeLedgerEventSource();
+    const pluginRegistry = new PluginRegistry({ plugins: [source] });
+    const service = new WebhookService({
+      outboxDir,
+      logLevel,
+      allowedTargetHosts,
+    });
+    await service.start(pluginRegistry);
+    const ledgerPluginInstanceId = source.getInstanceId();
+
+    await expect(
+      service.createSubscription({
+        targetUrl: "ftp://127.0.0.1/hook",
+        ledgerPluginInstanceId,
+        secret,
+      }),
+    ).rejects.toThrow(BadRequestError);
+    await expect(
+      service.createSubscription({
+        targetUrl,
+        ledgerPluginInstanceId: randomUUID(),
+        secret,
+      }),
+    ).rejects.toThrow(NotFoundError);
+    await expect(service.deleteSubscription(randomUUID())).rejects.toThrow(
+      NotFoundError,
+    );
+    expect(service.listSubscriptions()).toBeEmpty();
+
+    await service.shutdown();
+    await fs.remove(outboxDir);
+  });
+
+  test("rejects target URLs of non-public addresses", async () => {
+    const outboxDir = newOutboxDir();
+    const source = new FakeLedgerEventSource();
+    const pluginRegistry = new PluginRegistry({ plugins: [source] });
+    const service = new WebhookService({ outboxDir, logLevel });
+    await service.start(pluginRegistry);
+    const ledgerPluginInstanceId = source.getInstanceId();
+
+    const blockedUrls = [
+      targetUrl,
+      "http://localhost/hook",
+      "http://10.1.2.3/hook",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://[::1]/hook",
+      "http://[::ffff:192.168.0.1]/hook",
+      "https://[fe80::1]/hook",
+    ];
+    for (const blockedUrl of blockedUrls) {
+      await expect(
+        service.createSubscription({
+          targetUrl: blockedUrl,
+          ledgerPluginInstanceId,
+          secret,
+        }),
+      ).rejects.toThrow(BadRequestError);
+    }
+    expect(service.listSubscriptions()).toBeEmpty();
+    expect(isBlockedWebhookAddressV1("172.20.0.1")).toBeTrue();
+    expect(isBlockedWebhookAddressV1("172.32.0.1")).toBeFalse();
+    expect(isBlockedWebhookAddressV1("8.8.8.8")).toBeFalse();
+    expect(isBlockedWebhookAddressV1("2001:4860:4860::8888")).toBeFalse();
+
+    await service.shutdown();
+    await fs.remove(outboxDir);
+  });
+
+  test("does not write back subscriptions deleted during an update", async () => {
+    const outboxDir = newOutboxDir();
+    const outbox = new WebhookOutbox({ dirPath: outboxDir, logLevel });
+    await outbox.load();
+    const record = {
+      id: randomUUID(),
+      targetUrl,
+      ledgerPluginInstanceId: randomUUID(),
+      createdAt: new Date().toISOString(),
+      secret,
+    };
+    await outbox.saveSubscription(record);
+
+    const updating = outbox.updateSubscription(record.id, (r) => ({
+      ...r,
+      cursor: { blockNumber: 1 },
+    }));
+    await outbox.deleteSubscription(record.id);
+    await expect(updating).resolves.toBeFalse();
+    await expect(
+      outbox.updateSubscription(record.id, (r) => r),
+    ).resolves.toBeFalse();
+
+    const reloaded = new WebhookOutbox({ dirPath: outboxDir, logLevel });
+    await reloaded.load();
+    expect(reloaded.getSubscriptions()).toBeEmpty();
+    await fs.remove(outboxDir);
+  });
+
+  test("sources events from Socket.IO block watchers", async () => {
+    const eventNamespace = "org.example.WatchBlocksV1";
+    const subscribeRequests: Record<string, unknown>[] = [];
+    const wsServer = createServer();
+    const wsApi = new SocketIoServer(wsServer, {
+      path: Constants.SocketIoConnectionPathV1,
+    });
+    // a block watcher that reports the blocks from startBlock (1 by default)
+    wsApi.on("connection", (socket) => {
+      socket.on(`${eventNamespace}.Subscribe`, (options) => {
+        subscribeRequests.push(options);
+        const startBlock = options.startBlock ?? 1;
+        for (let n = startBlock; n < startBlock + 2; n++) {
+          socket.emit(`${eventNamespace}.Next`, { header: { number: n } });
+        }
+        socket.emit(`${eventNamespace}.Next`, { unrelated: true });
+      });
+    });
+    await new Promise<void>((resolve) =>
+      wsServer.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = wsServer.address() as AddressInfo;
+    const wsApiHost = `http://127.0.0.1:${port}`;
+
+    const outboxDir = newOutboxDir();
+    // not an event source, the block watcher is used instead
+    const plugin = {
+      getInstanceId: () => "plugin-with-a-block-watcher",
+      getPackageName: () => "fake-block-watcher",
+      onPluginInit: async () => undefined,
+    };
+    const pluginRegistry = new PluginRegistry({ plugins: [plugin] });
+    const options = { outboxDir, logLevel, allowedTargetHosts };
+    const service = new WebhookService(options);
+    await service.start(pluginRegistry, wsApiHost);
+
+    const watchBlocks = {
+      eventNamespace,
+      subscribeOptions: { channelName: "mychannel" },
+      blockNumberPath: "header.number",
+      startBlockOption: "startBlock",
+    };
+    const subscription = await service.createSubscription({
+      targetUrl,
+      ledgerPluginInstanceId: plugin.getInstanceId(),
+      secret,
+      watchBlocks,
+    });
+    expect(subscription.watchBlocks).toEqual(watchBlocks);
+    await waitFor(() => received.length === 2);
+    await waitFor(() => service.listDeliveries().length === 0);
+    expect(subscribeRequests[0]).toEqual({ channelName: "mychannel" });
+    const events = received.map(({ body }) => JSON.parse(body).event);
+    expect(events).toEqual(
+      [1, 2].map((n) =>
+        expect.objectContaining({
+          eventType: LedgerEventTypeV1.Block,
+          sourceId: plugin.getInstanceId(),
+          cursor: { blockNumber: n },
+          payload: { header: { number: n } },
+        }),
+      ),
+    );
+    await service.shutdown();
+
+    const restarted = new WebhookService(options);
+    await restarted.start(pluginRegistry, wsApiHost);
+    await waitFor(() => received.length === 4);
+    expect(subscribeRequests[1]).toEqual({
+      channelName: "mychannel",
+      startBlock: 3,
+    });
+    await waitFor(
+      () => restarted.listSubscriptions()[0].cursor?.blockNumber === 4,
+    );
+
+    await restarted.shutdown();
+    wsApi.close();
+    await fs.remove(outboxDir);
+  });
+});
@@ -26,7 +26,9 @@ const (
 	CORDA_4_X LedgerType = "CORDA_4X"
 	ETHEREUM LedgerType = "ETHEREUM"
 	FABRIC_2 LedgerType = "FABRIC_2"
+	POLKADOT LedgerType = "POLKADOT"
 	SAWTOOTH_1_X LedgerType = "SAWTOOTH_1X"
+	STELLAR LedgerType = "STELLAR"
 )
 
 // All allowed values of LedgerType enum
@@ -37,7 +39,9 @@ var AllowedLedgerTypeEnumValues = []LedgerType{
 	"CORDA_4X",
 	"ETHEREUM",
 	"FABRIC_2",
+	"POLKADOT",
 	"SAWTOOTH_1X",
+	"STELLAR",
 }
 
 func (v *LedgerType) UnmarshalJSON(src []byte) error {
@@ -46,8 +46,14 @@ enum class LedgerType(val value: kotlin.String) {
     @Json(name = "FABRIC_2")
     fABRIC2("FABRIC_2"),
 
+    @Json(name = "POLKADOT")
+    pOLKADOT("POLKADOT"),
+
     @Json(name = "SAWTOOTH_1X")
-    sAWTOOTH1X("SAWTOOTH_1X");
+    sAWTOOTH1X("SAWTOOTH_1X"),
+
+    @Json(name = "STELLAR")
+    sTELLAR("STELLAR");
 
     /**
      * Override [toString()] to avoid using the enum variable name as the value, and instead use
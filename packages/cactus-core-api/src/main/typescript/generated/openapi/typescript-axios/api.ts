@@ -302,6 +302,19 @@ export interface DeleteKeychainEntryResponseV1 {
      */
     'key': string;
 }
+/**
+ * 
+ * @export
+ * @interface GetKeychainEntryMetadataRequestV2
+ */
+export interface GetKeychainEntryMetadataRequestV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof GetKeychainEntryMetadataRequestV2
+     */
+    'key': string;
+}
 /**
  * 
  * @export
@@ -334,6 +347,50 @@ export interface GetKeychainEntryResponseV1 {
      */
     'value': string;
 }
+/**
+ * 
+ * @export
+ * @interface GetKeychainEntryVersionRequestV2
+ */
+export interface GetKeychainEntryVersionRequestV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof GetKeychainEntryVersionRequestV2
+     */
+    'key': string;
+    /**
+     * 
+     * @type {number}
+     * @memberof GetKeychainEntryVersionRequestV2
+     */
+    'version': number;
+}
+/**
+ * 
+ * @export
+ * @interface GetKeychainEntryVersionResponseV2
+ */
+export interface GetKeychainEntryVersionResponseV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof GetKeychainEntryVersionResponseV2
+     */
+    'key': string;
+    /**
+     * 
+     * @type {number}
+     * @memberof GetKeychainEntryVersionResponseV2
+     */
+    'version': number;
+    /**
+     * 
+     * @type {string}
+     * @memberof GetKeychainEntryVersionResponseV2
+     */
+    'value': string;
+}
 /**
  * 
  * @export
@@ -486,6 +543,110 @@ export interface JWSRecipient {
      */
     'header'?: { [key: string]: any; };
 }
+/**
+ * Describes which parts of the keychain contract the keychain supports.
+ * @export
+ * @interface KeychainCapabilitiesV2
+ */
+export interface KeychainCapabilitiesV2 {
+    /**
+     * 
+     * @type {string}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'keychainId': string;
+    /**
+     * The versions of the keychain contract implemented, for example ["v1", "v2"].
+     * @type {Array<string>}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'apiVersions': Array<string>;
+    /**
+     * 
+     * @type {boolean}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'supportsList': boolean;
+    /**
+     * 
+     * @type {boolean}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'supportsMetadata': boolean;
+    /**
+     * 
+     * @type {boolean}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'supportsVersioning': boolean;
+    /**
+     * 
+     * @type {boolean}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'supportsCompareAndSet': boolean;
+    /**
+     * 
+     * @type {boolean}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'supportsTtl': boolean;
+    /**
+     * The number of versions retained for each entry (the current one included).
+     * @type {number}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'maxVersions': number;
+}
+/**
+ * Describes a keychain entry (or one version of it) without disclosing its value.
+ * @export
+ * @interface KeychainEntryMetadataV2
+ */
+export interface KeychainEntryMetadataV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'key': string;
+    /**
+     * The version number of the entry. Starts at 1 and is incremented by every write.
+     * @type {number}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'version': number;
+    /**
+     * When the first version of the entry was written.
+     * @type {string}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'createdAt': string;
+    /**
+     * When this version of the entry was written.
+     * @type {string}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'updatedAt': string;
+    /**
+     * The media type of the value as specified by its writer, if any.
+     * @type {string}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'contentType'?: string;
+    /**
+     * Arbitrary string labels attached to the entry by its writer.
+     * @type {{ [key: string]: string; }}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'tags'?: { [key: string]: string; };
+    /**
+     * When the entry expires (if it was written with a TTL).
+     * @type {string | null}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'expiresAt'?: string | null;
+}
 /**
  * 
  * @export
@@ -513,6 +674,177 @@ export interface Ledger {
 }
 
 
+/**
+ * The position of an event on the ledger. Cursors are totally ordered (by block number, then transaction index, then event index) and are stable across subscriptions, so the cursor of the last processed event can be used to resume a subscription.
+ * @export
+ * @interface LedgerEventCursorV1
+ */
+export interface LedgerEventCursorV1 {
+    /**
+     * 
+     * @type {number}
+     * @memberof LedgerEventCursorV1
+     */
+    'blockNumber': number;
+    /**
+     * The index of the transaction within the block. Absent for BLOCK events.
+     * @type {number}
+     * @memberof LedgerEventCursorV1
+     */
+    'transactionIndex'?: number;
+    /**
+     * The index of the contract event within the block (EVM log index) or the transaction (Fabric). Only present for CONTRACT_EVENT events.
+     * @type {number}
+     * @memberof LedgerEventCursorV1
+     */
+    'eventIndex'?: number;
+}
+/**
+ * Selects the events of a subscription. An event is delivered only if it matches every criterion that is specified. A criterion is matched if the respective attribute of the event equals any of the listed values, events without that attribute never match it.
+ * @export
+ * @interface LedgerEventFilterV1
+ */
+export interface LedgerEventFilterV1 {
+    /**
+     * 
+     * @type {Array<LedgerEventTypeV1>}
+     * @memberof LedgerEventFilterV1
+     */
+    'eventTypes'?: Array<LedgerEventTypeV1>;
+    /**
+     * EVM contract addresses (compared case-insensitively), Fabric chaincode names, Sawtooth transaction family names or Stellar contract IDs.
+     * @type {Array<string>}
+     * @memberof LedgerEventFilterV1
+     */
+    'contractAddresses'?: Array<string>;
+    /**
+     * Names of contract events, e.g. the Fabric chaincode event names.
+     * @type {Array<string>}
+     * @memberof LedgerEventFilterV1
+     */
+    'eventNames'?: Array<string>;
+    /**
+     * EVM log topics (compared case-insensitively). A log matches if any of its topics is listed.
+     * @type {Array<string>}
+     * @memberof LedgerEventFilterV1
+     */
+    'topics'?: Array<string>;
+}
+/**
+ * Options of a subscription to the events of a ledger.
+ * @export
+ * @interface LedgerEventSubscriptionOptionsV1
+ */
+export interface LedgerEventSubscriptionOptionsV1 {
+    /**
+     * 
+     * @type {LedgerEventFilterV1}
+     * @memberof LedgerEventSubscriptionOptionsV1
+     */
+    'filter'?: LedgerEventFilterV1;
+    /**
+     * The number of the first block to report events of. Defaults to the block following the latest one.
+     * @type {number}
+     * @memberof LedgerEventSubscriptionOptionsV1
+     */
+    'fromBlock'?: number;
+    /**
+     * 
+     * @type {LedgerEventCursorV1}
+     * @memberof LedgerEventSubscriptionOptionsV1
+     */
+    'afterCursor'?: LedgerEventCursorV1;
+    /**
+     * How many events may wait for the subscriber to consume them. The event source stops reading the ledger while the buffer is full.
+     * @type {number}
+     * @memberof LedgerEventSubscriptionOptionsV1
+     */
+    'bufferSize'?: number;
+}
+/**
+ * The kinds of events a ledger event source emits. Every block is reported with a BLOCK event followed by a TRANSACTION event for each of its transactions, each of which is followed by the CONTRACT_EVENTs it emitted.
+ * @export
+ * @enum {string}
+ */
+
+export const LedgerEventTypeV1 = {
+    Block: 'BLOCK',
+    Transaction: 'TRANSACTION',
+    ContractEvent: 'CONTRACT_EVENT'
+} as const;
+
+export type LedgerEventTypeV1 = typeof LedgerEventTypeV1[keyof typeof LedgerEventTypeV1];
+
+
+/**
+ * Ledger agnostic envelope of a block, transaction or contract event.
+ * @export
+ * @interface LedgerEventV1
+ */
+export interface LedgerEventV1 {
+    /**
+     * 
+     * @type {LedgerEventTypeV1}
+     * @memberof LedgerEventV1
+     */
+    'eventType': LedgerEventTypeV1;
+    /**
+     * The instance ID of the plugin that emitted the event.
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'sourceId': string;
+    /**
+     * 
+     * @type {LedgerEventCursorV1}
+     * @memberof LedgerEventV1
+     */
+    'cursor': LedgerEventCursorV1;
+    /**
+     * 
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'blockHash'?: string;
+    /**
+     * When the block was created, if the ledger records it.
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'timestamp'?: string;
+    /**
+     * The hash (EVM) or the ID (Fabric) of the transaction. Absent for BLOCK events.
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'transactionId'?: string;
+    /**
+     * The contract (EVM) or chaincode (Fabric) that was invoked or that emitted the event.
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'contractAddress'?: string;
+    /**
+     * The name of the contract event, if the ledger records it.
+     * @type {string}
+     * @memberof LedgerEventV1
+     */
+    'eventName'?: string;
+    /**
+     * The topics of an EVM log.
+     * @type {Array<string>}
+     * @memberof LedgerEventV1
+     */
+    'topics'?: Array<string>;
+    /**
+     * The ledger specific representation of the block, transaction or contract event.
+     * @type {any | null}
+     * @memberof LedgerEventV1
+     */
+    'payload'?: any | null;
+}
+
+
 /**
  * Enumerates the different ledger vendors and their major versions encoded within the name of the LedgerType. For example \"BESU_1X\" involves all of the [1.0.0;2.0.0) where 1.0.0 is included and anything up until, but not 2.0.0. See: https://stackoverflow.com/a/4396303/698470 for further explanation.
  * @export
@@ -526,12 +858,90 @@ export const LedgerType = {
     Corda4X: 'CORDA_4X',
     Ethereum: 'ETHEREUM',
     Fabric2: 'FABRIC_2',
-    Sawtooth1X: 'SAWTOOTH_1X'
+    Polkadot: 'POLKADOT',
+    Sawtooth1X: 'SAWTOOTH_1X',
+    Stellar: 'STELLAR'
 } as const;
 
 export type LedgerType = typeof LedgerType[keyof typeof LedgerType];
 
 
+/**
+ * 
+ * @export
+ * @interface ListKeychainEntriesRequestV2
+ */
+export interface ListKeychainEntriesRequestV2 {
+    /**
+     * Only the entries with keys starting with this prefix are returned.
+     * @type {string}
+     * @memberof ListKeychainEntriesRequestV2
+     */
+    'prefix'?: string;
+    /**
+     * The maximum number of entries returned in one page.
+     * @type {number}
+     * @memberof ListKeychainEntriesRequestV2
+     */
+    'limit'?: number;
+    /**
+     * The token returned with the previous page.
+     * @type {string}
+     * @memberof ListKeychainEntriesRequestV2
+     */
+    'continuationToken'?: string;
+}
+/**
+ * 
+ * @export
+ * @interface ListKeychainEntriesResponseV2
+ */
+export interface ListKeychainEntriesResponseV2 {
+    /**
+     * 
+     * @type {Array<KeychainEntryMetadataV2>}
+     * @memberof ListKeychainEntriesResponseV2
+     */
+    'entries': Array<KeychainEntryMetadataV2>;
+    /**
+     * Present if there are more entries to list. Pass it in the next request to get the next page.
+     * @type {string | null}
+     * @memberof ListKeychainEntriesResponseV2
+     */
+    'continuationToken'?: string | null;
+}
+/**
+ * 
+ * @export
+ * @interface ListKeychainEntryVersionsRequestV2
+ */
+export interface ListKeychainEntryVersionsRequestV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof ListKeychainEntryVersionsRequestV2
+     */
+    'key': string;
+}
+/**
+ * 
+ * @export
+ * @interface ListKeychainEntryVersionsResponseV2
+ */
+export interface ListKeychainEntryVersionsResponseV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof ListKeychainEntryVersionsResponseV2
+     */
+    'key': string;
+    /**
+     * The retained versions of the entry, the most recent one first.
+     * @type {Array<KeychainEntryMetadataV2>}
+     * @memberof ListKeychainEntryVersionsResponseV2
+     */
+    'versions': Array<KeychainEntryMetadataV2>;
+}
 /**
  * 
  * @export
@@ -631,6 +1041,49 @@ export interface SetKeychainEntryRequestV1 {
      */
     'value': string;
 }
+/**
+ * 
+ * @export
+ * @interface SetKeychainEntryRequestV2
+ */
+export interface SetKeychainEntryRequestV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'key': string;
+    /**
+     * The value that will be associated with the key on the keychain.
+     * @type {string}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'value': string;
+    /**
+     * The media type of the value.
+     * @type {string}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'contentType'?: string;
+    /**
+     * Arbitrary string labels attached to the entry by its writer.
+     * @type {{ [key: string]: string; }}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'tags'?: { [key: string]: string; };
+    /**
+     * The entry expires this many seconds after it was written.
+     * @type {number}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'ttlSeconds'?: number;
+    /**
+     * Compare-and-set: the write only succeeds if the current version of the entry is this one. Zero means that the entry must not exist yet.
+     * @type {number}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'expectedVersion'?: number;
+}
 /**
  * 
  * @export
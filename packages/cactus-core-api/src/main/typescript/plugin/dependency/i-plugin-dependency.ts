@@ -0,0 +1,88 @@
+import { ICactusPlugin } from "../i-cactus-plugin";
+import { isIPluginKeychain } from "../keychain/is-i-plugin-keychain";
+import { isIPluginKeychainV2 } from "../keychain/is-i-plugin-keychain-v2";
+import { isIPluginLedgerConnector } from "../ledger-connector/is-i-plugin-ledger-connector";
+import { isIPluginObjectStore } from "../object-store/is-i-plugin-object-store";
+import { isIPluginWebService } from "../web-service/i-plugin-web-service";
+
+/**
+ * The plugin interfaces that a plugin can depend on without naming a specific
+ * package. For example an HTLC plugin needs *a* keychain to be present in the
+ * registry, but it does not care which one of the keychain implementations.
+ */
+export enum PluginCapability {
+  Keychain = "IPluginKeychain",
+  KeychainV2 = "IPluginKeychainV2",
+  LedgerConnector = "IPluginLedgerConnector",
+  ObjectStore = "IPluginObjectStore",
+  WebService = "IPluginWebService",
+}
+
+/**
+ * Describes another plugin (or set of plugins) that a plugin needs to be
+ * initialized before its own `onPluginInit()` is invoked.
+ *
+ * At least one of `packageName` and `capability` must be specified. When both
+ * are present a plugin has to satisfy both of them to count as a match.
+ */
+export interface IPluginDependency {
+  /**
+   * The NodeJS/npm package name of the plugin(s) depended on.
+   */
+  readonly packageName?: string;
+  /**
+   * The plugin interface that the plugin(s) depended on must implement.
+   */
+  readonly capability?: PluginCapability;
+  /**
+   * When `true`, the absence of a matching plugin is not an error, but if
+   * there are matching plugins they still get initialized first.
+   * Defaults to `false`.
+   */
+  readonly optional?: boolean;
+}
+
+/**
+ * Plugins that implement this interface get initialized by the
+ * `PluginRegistry` only after the plugins they depend on were initialized and
+ * get shut down before them.
+ */
+export interface IPluginWithDependencies extends ICactusPlugin {
+  getPluginDependencies(): ReadonlyArray<IPluginDependency>;
+}
+
+export function isIPluginWithDependencies(
+  x: unknown,
+): x is IPluginWithDependencies {
+  return (
+    !!x &&
+    typeof (x as IPluginWithDependencies).getPluginDependencies ===
+      "function" &&
+    typeof (x as IPluginWithDependencies).getInstanceId === "function" &&
+    typeof (x as IPluginWithDependencies).getPackageName === "function"
+  );
+}
+
+/**
+ * @returns `true` if `plugin` implements the plugin interface described by
+ * `capability`, `false` otherwise.
+ */
+export function hasPluginCapability(
+  plugin: ICactusPlugin,
+  capability: PluginCapability,
+): boolean {
+  switch (capability) {
+    case PluginCapability.Keychain:
+      return isIPluginKeychain(plugin);
+    case PluginCapability.KeychainV2:
+      return isIPluginKeychainV2(plugin);
+    case PluginCapability.LedgerConnector:
+      return isIPluginLedgerConnector(plugin);
+    case PluginCapability.ObjectStore:
+      return isIPluginObjectStore(plugin);
+    case PluginCapability.WebService:
+      return isIPluginWebService(plugin);
+    default:
+      throw new Error(`hasPluginCapability() unknown capability ${capability}`);
+  }
+}
@@ -0,0 +1,94 @@
+import { IPluginKeychain } from "./i-plugin-keychain";
+import {
+  KeychainCapabilitiesV2,
+  KeychainEntryMetadataV2,
+  ListKeychainEntriesRequestV2,
+  ListKeychainEntriesResponseV2,
+} from "../../generated/openapi/typescript-axios/api";
+
+/**
+ * The optional parameters of a versioned write to a keychain.
+ */
+export interface IKeychainSetOptionsV2 {
+  /**
+   * The media type of the value (e.g. `application/json`).
+   */
+  readonly contentType?: string;
+  /**
+   * Arbitrary string labels to attach to the entry.
+   */
+  readonly tags?: { [key: string]: string };
+  /**
+   * The entry expires this many seconds after it was written. Expired
+   * entries behave as if they had been deleted.
+   */
+  readonly ttlSeconds?: number;
+}
+
+/**
+ * Extended keychain contract that allows enumerating what a keychain holds
+ * and rotating secrets safely.
+ *
+ * Every write through `set()` or `setVersioned()` creates a new version of
+ * the entry and the keychain retains up to `maxVersions` of them (as reported
+ * by `getKeychainCapabilities()`).
+ *
+ * Callers can detect whether a keychain implements this contract with
+ * `isIPluginKeychainV2()` or remotely via the `getKeychainCapabilitiesV2`
+ * endpoint of the keychain plugin.
+ */
+export interface IPluginKeychainV2 extends IPluginKeychain {
+  /**
+   * Describes which parts of the keychain contract are supported.
+   */
+  getKeychainCapabilities(): Promise<KeychainCapabilitiesV2>;
+
+  /**
+   * Returns the metadata of the entries (in lexicographical order of their
+   * keys) one page at a time. The values of the entries are not returned.
+   */
+  list(
+    req: ListKeychainEntriesRequestV2,
+  ): Promise<ListKeychainEntriesResponseV2>;
+
+  /**
+   * @throws If there is no (non-expired) entry under `key`.
+   */
+  getMetadata(key: string): Promise<KeychainEntryMetadataV2>;
+
+  /**
+   * Writes a new version of the entry under `key`.
+   *
+   * @returns The metadata of the version that was written.
+   */
+  setVersioned(
+    key: string,
+    value: string,
+    opts?: IKeychainSetOptionsV2,
+  ): Promise<KeychainEntryMetadataV2>;
+
+  /**
+   * Same as `setVersioned()`, but only writes the entry if its current
+   * version is `expectedVersion` at the time of the write.
+   *
+   * @param expectedVersion Zero means that the entry must not exist yet.
+   * @throws {ConflictError} If the current version is not `expectedVersion`.
+   */
+  compareAndSet(
+    key: string,
+    expectedVersion: number,
+    value: string,
+    opts?: IKeychainSetOptionsV2,
+  ): Promise<KeychainEntryMetadataV2>;
+
+  /**
+   * @throws If the version is not retained (anymore) by the keychain.
+   */
+  getVersion(key: string, version: number): Promise<string>;
+
+  /**
+   * Returns the metadata of the retained versions of the entry, the most
+   * recent one first.
+   */
+  listVersions(key: string): Promise<KeychainEntryMetadataV2[]>;
+}
@@ -0,0 +1,15 @@
+import { IPluginKeychainV2 } from "./i-plugin-keychain-v2";
+import { isIPluginKeychain } from "./is-i-plugin-keychain";
+
+export function isIPluginKeychainV2(x: unknown): x is IPluginKeychainV2 {
+  return (
+    isIPluginKeychain(x) &&
+    typeof (x as IPluginKeychainV2).getKeychainCapabilities === "function" &&
+    typeof (x as IPluginKeychainV2).list === "function" &&
+    typeof (x as IPluginKeychainV2).getMetadata === "function" &&
+    typeof (x as IPluginKeychainV2).setVersioned === "function" &&
+    typeof (x as IPluginKeychainV2).compareAndSet === "function" &&
+    typeof (x as IPluginKeychainV2).getVersion === "function" &&
+    typeof (x as IPluginKeychainV2).listVersions === "function"
+  );
+}
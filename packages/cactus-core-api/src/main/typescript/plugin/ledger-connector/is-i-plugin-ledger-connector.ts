@@ -0,0 +1,16 @@
+import { IPluginLedgerConnector } from "./i-plugin-ledger-connector";
+
+export function isIPluginLedgerConnector(
+  x: unknown,
+): x is IPluginLedgerConnector<unknown, unknown, unknown, unknown> {
+  type T = IPluginLedgerConnector<unknown, unknown, unknown, unknown>;
+  return (
+    !!x &&
+    typeof (x as T).deployContract === "function" &&
+    typeof (x as T).transact === "function" &&
+    typeof (x as T).getConsensusAlgorithmFamily === "function" &&
+    typeof (x as T).hasTransactionFinality === "function" &&
+    typeof (x as T).getInstanceId === "function" &&
+    typeof (x as T).getPackageName === "function"
+  );
+}
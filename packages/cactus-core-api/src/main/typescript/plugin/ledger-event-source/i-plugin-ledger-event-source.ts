@@ -0,0 +1,60 @@
+import { ICactusPlugin } from "../i-cactus-plugin";
+import {
+  LedgerEventCursorV1,
+  LedgerEventSubscriptionOptionsV1,
+  LedgerEventV1,
+} from "../../generated/openapi/typescript-axios/api";
+
+/**
+ * A live subscription to the events of a ledger.
+ *
+ * The events are consumed by iterating the subscription (e.g. with
+ * `for await`). Events are read from the ledger only as fast as they are
+ * consumed: once `bufferSize` events are waiting, the event source pauses
+ * until the subscriber catches up.
+ *
+ * Breaking out of the iteration ends the subscription. If the event source
+ * fails, the pending iteration rejects with the cause.
+ */
+export interface ILedgerEventSubscriptionV1
+  extends AsyncIterableIterator<LedgerEventV1> {
+  /**
+   * The cursor of the last event that was handed to the subscriber. Pass it
+   * as `afterCursor` to resume where this subscription left off.
+   */
+  getCursor(): LedgerEventCursorV1 | undefined;
+
+  /**
+   * Stops reading the ledger and ends the iteration after the events that
+   * are already buffered.
+   */
+  unsubscribe(): Promise<void>;
+
+  /**
+   * Whether the subscription was ended by the subscriber or the source.
+   */
+  isClosed(): boolean;
+}
+
+/**
+ * Common interface of plugins that deliver the blocks, transactions and
+ * contract events of a ledger in the normalized `LedgerEventV1` envelope, so
+ * that the events of any ledger can be consumed the same way.
+ *
+ * @param SubscribeIn The subscription options. Connectors that need more
+ * than the ledger agnostic options (e.g. the channel to listen on) extend
+ * `LedgerEventSubscriptionOptionsV1` with those.
+ */
+export interface IPluginLedgerEventSource<
+  SubscribeIn extends
+    LedgerEventSubscriptionOptionsV1 = LedgerEventSubscriptionOptionsV1,
+> extends ICactusPlugin {
+  /**
+   * Starts reporting the events of the ledger that match `options.filter`,
+   * beginning at `options.afterCursor` or `options.fromBlock` (or the next
+   * block if neither is specified).
+   */
+  subscribeLedgerEvents(
+    options: SubscribeIn,
+  ): Promise<ILedgerEventSubscriptionV1>;
+}
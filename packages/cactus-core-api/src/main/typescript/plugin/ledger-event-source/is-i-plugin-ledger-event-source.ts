@@ -0,0 +1,11 @@
+import { isICactusPlugin } from "../i-cactus-plugin";
+import { IPluginLedgerEventSource } from "./i-plugin-ledger-event-source";
+
+export function isIPluginLedgerEventSource(
+  x: unknown,
+): x is IPluginLedgerEventSource {
+  return (
+    isICactusPlugin(x) &&
+    typeof (x as IPluginLedgerEventSource).subscribeLedgerEvents === "function"
+  );
+}
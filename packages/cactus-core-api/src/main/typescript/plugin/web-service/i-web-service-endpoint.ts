@@ -30,6 +30,13 @@ export interface IWebServiceEndpoint {
    * Returns the HTTP path that this endpoint is designed to be served under.
    */
   getPath(): string;
+  /**
+   * Returns the `operationId` of the endpoint as declared in the OpenAPI
+   * specification of the plugin. The API server uses it to look up the
+   * authorization policy of the endpoint that operators can override through
+   * the configuration.
+   */
+  getOperationId?(): string;
   /**
    * Returns the function that can be directly passed in to any request
    * handler registration methods of ExpressJS.
@@ -5,10 +5,21 @@ export * from "./generated/openapi/typescript-axios/index";
 export * from "./generated/openapi/typescript-axios/base";
 
 export { IPluginLedgerConnector } from "./plugin/ledger-connector/i-plugin-ledger-connector";
+export { isIPluginLedgerConnector } from "./plugin/ledger-connector/is-i-plugin-ledger-connector";
 export { ISocketApiClient } from "./plugin/ledger-connector/i-socket-api-client";
+export {
+  ILedgerEventSubscriptionV1,
+  IPluginLedgerEventSource,
+} from "./plugin/ledger-event-source/i-plugin-ledger-event-source";
+export { isIPluginLedgerEventSource } from "./plugin/ledger-event-source/is-i-plugin-ledger-event-source";
 export { IPluginConsortium } from "./plugin/consortium/i-plugin-consortium";
 export { IPluginKeychain } from "./plugin/keychain/i-plugin-keychain";
 export { isIPluginKeychain } from "./plugin/keychain/is-i-plugin-keychain";
+export {
+  IKeychainSetOptionsV2,
+  IPluginKeychainV2,
+} from "./plugin/keychain/i-plugin-keychain-v2";
+export { isIPluginKeychainV2 } from "./plugin/keychain/is-i-plugin-keychain-v2";
 export { IExpressRequestHandler } from "./plugin/web-service/i-express-request-handler";
 
 export {
@@ -25,6 +36,14 @@ export {
   isICactusPlugin,
 } from "./plugin/i-cactus-plugin";
 
+export {
+  IPluginDependency,
+  IPluginWithDependencies,
+  PluginCapability,
+  hasPluginCapability,
+  isIPluginWithDependencies,
+} from "./plugin/dependency/i-plugin-dependency";
+
 export { IPluginFactoryOptions } from "./i-plugin-factory-options";
 
 export { PluginFactoryFactory } from "./plugin-factory-factory";
@@ -0,0 +1,241 @@
+import {
+  Checks,
+  Logger,
+  LoggerProvider,
+  LogLevelDesc,
+} from "@hyperledger/cactus-common";
+
+import {
+  ILedgerEventSubscriptionV1,
+  LedgerEventCursorV1,
+  LedgerEventFilterV1,
+  LedgerEventSubscriptionOptionsV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+
+export const DEFAULT_LEDGER_EVENT_BUFFER_SIZE = 100;
+
+export interface ILedgerEventSubscriptionV1Options {
+  logLevel?: LogLevelDesc;
+  subscriptionOptions: LedgerEventSubscriptionOptionsV1;
+  /**
+   * Invoked once when the subscriber ends the subscription so that the event
+   * source can release the resources it holds for it.
+   */
+  onUnsubscribe?: () => Promise<void> | void;
+}
+
+/**
+ * Orders cursors by block number, then transaction index and then event
+ * index where a missing index comes before all present ones (a block is
+ * reported before its transactions, a transaction before its events).
+ *
+ * @returns A negative number if `a` comes before `b`, zero if they are equal
+ * and a positive number otherwise.
+ */
+export function compareLedgerEventCursorsV1(
+  a: LedgerEventCursorV1,
+  b: LedgerEventCursorV1,
+): number {
+  return (
+    a.blockNumber - b.blockNumber ||
+    (a.transactionIndex ?? -1) - (b.transactionIndex ?? -1) ||
+    (a.eventIndex ?? -1) - (b.eventIndex ?? -1)
+  );
+}
+
+/**
+ * @returns Whether `event` matches every criterion of `filter` that is
+ * specified.
+ */
+export function isLedgerEventMatchingFilterV1(
+  event: LedgerEventV1,
+  filter?: LedgerEventFilterV1,
+): boolean {
+  if (!filter) {
+    return true;
+  }
+  const { eventTypes, contractAddresses, eventNames, topics } = filter;
+  const includesIgnoreCase = (list: string[], value?: string) =>
+    !!value && list.some((x) => x.toLowerCase() === value.toLowerCase());
+
+  if (eventTypes && !eventTypes.includes(event.eventType)) {
+    return false;
+  }
+  if (
+    contractAddresses &&
+    !includesIgnoreCase(contractAddresses, event.contractAddress)
+  ) {
+    return false;
+  }
+  if (
+    eventNames &&
+    !(event.eventName && eventNames.includes(event.eventName))
+  ) {
+    return false;
+  }
+  if (
+    topics &&
+    !(event.topics || []).some((t) => includesIgnoreCase(topics, t))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Bounded buffer between an event source (the connector) reading the ledger
+ * and a subscriber iterating the events.
+ *
+ * The connector hands every event it reads to `push()` which drops the ones
+ * that the subscriber is not interested in (not matching the filter or not
+ * after `afterCursor`) and only resolves once there is room in the buffer,
+ * so by awaiting it the connector reads the ledger no faster than the
+ * subscriber consumes the events.
+ *
+ * The subscription supports a single consumer at a time.
+ */
+export class LedgerEventSubscriptionV1 implements ILedgerEventSubscriptionV1 {
+  public static readonly CLASS_NAME = "LedgerEventSubscriptionV1";
+
+  private readonly log: Logger;
+  private readonly bufferSize: number;
+  private readonly filter?: LedgerEventFilterV1;
+  private readonly afterCursor?: LedgerEventCursorV1;
+  private readonly buffer: LedgerEventV1[] = [];
+  private cursor?: LedgerEventCursorV1;
+  private closed = false;
+  private error?: Error;
+  private pushWaiters: Array<() => void> = [];
+  private consumeWaiters: Array<() => void> = [];
+
+  public get className(): string {
+    return LedgerEventSubscriptionV1.CLASS_NAME;
+  }
+
+  constructor(public readonly options: ILedgerEventSubscriptionV1Options) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+    const { subscriptionOptions } = options;
+    Checks.truthy(subscriptionOptions, `${fnTag} options.subscriptionOptions`);
+
+    this.bufferSize =
+      subscriptionOptions.bufferSize ?? DEFAULT_LEDGER_EVENT_BUFFER_SIZE;
+    Checks.truthy(this.bufferSize >= 1, `${fnTag} bufferSize >= 1`);
+    this.filter = subscriptionOptions.filter;
+    this.afterCursor = subscriptionOptions.afterCursor;
+
+    const level = options.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  /**
+   * The number of the first block the event source has to read: the block of
+   * `afterCursor` (which may still contain unreported events), `fromBlock`
+   * or the next block if neither was specified.
+   *
+   * @param nextBlockNumber The number of the block following the latest one.
+   */
+  public getStartBlock(nextBlockNumber: number): number {
+    const { afterCursor, fromBlock } = this.options.subscriptionOptions;
+    return afterCursor?.blockNumber ?? fromBlock ?? nextBlockNumber;
+  }
+
+  public getCursor(): LedgerEventCursorV1 | undefined {
+    return this.cursor;
+  }
+
+  public isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Offers the next event read from the ledger to the subscriber. Events
+   * have to be pushed in the order of their cursors.
+   *
+   * @returns `false` once the subscription is closed, the event source
+   * should stop reading the ledger then.
+   */
+  public async push(event: LedgerEventV1): Promise<boolean> {
+    if (this.closed) {
+      return false;
+    }
+    const { afterCursor, filter } = this;
+    if (
+      (afterCursor &&
+        compareLedgerEventCursorsV1(event.cursor, afterCursor) <= 0) ||
+      !isLedgerEventMatchingFilterV1(event, filter)
+    ) {
+      return true;
+    }
+    while (this.buffer.length >= this.bufferSize && !this.closed) {
+      await new Promise<void>((resolve) => this.consumeWaiters.push(resolve));
+    }
+    if (this.closed) {
+      return false;
+    }
+    this.buffer.push(event);
+    this.pushWaiters = this.notify(this.pushWaiters);
+    return true;
+  }
+
+  /**
+   * Ends the subscription from the side of the event source: the subscriber
+   * receives the events that are already buffered and then `error`, if any.
+   */
+  public close(error?: Error): void {
+    if (this.closed) {
+      return;
+    }
+    if (error) {
+      this.log.debug("Event source failed: %s", error.message);
+    }
+    this.closed = true;
+    this.error = error;
+    this.pushWaiters = this.notify(this.pushWaiters);
+    this.consumeWaiters = this.notify(this.consumeWaiters);
+  }
+
+  public async unsubscribe(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.log.debug("Unsubscribing with cursor %o", this.cursor);
+    this.close();
+    await this.options.onUnsubscribe?.();
+  }
+
+  public async next(): Promise<IteratorResult<LedgerEventV1>> {
+    while (this.buffer.length === 0) {
+      if (this.error) {
+        const { error } = this;
+        this.error = undefined;
+        throw error;
+      }
+      if (this.closed) {
+        return { done: true, value: undefined };
+      }
+      await new Promise<void>((resolve) => this.pushWaiters.push(resolve));
+    }
+    const event = this.buffer.shift() as LedgerEventV1;
+    this.cursor = event.cursor;
+    this.consumeWaiters = this.notify(this.consumeWaiters);
+    return { done: false, value: event };
+  }
+
+  public async return(): Promise<IteratorResult<LedgerEventV1>> {
+    await this.unsubscribe();
+    this.buffer.length = 0;
+    return { done: true, value: undefined };
+  }
+
+  public [Symbol.asyncIterator](): LedgerEventSubscriptionV1 {
+    return this;
+  }
+
+  private notify(waiters: Array<() => void>): Array<() => void> {
+    waiters.forEach((resolve) => resolve());
+    return [];
+  }
+}
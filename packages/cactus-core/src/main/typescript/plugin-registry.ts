@@ -6,10 +6,13 @@ import {
   LogLevelDesc,
 } from "@hyperledger/cactus-common";
 import {
+  hasPluginCapability,
   ICactusPlugin,
+  IPluginDependency,
   IPluginKeychain,
   isICactusPlugin,
   isIPluginKeychain,
+  isIPluginWithDependencies,
 } from "@hyperledger/cactus-core-api";
 
 /**
@@ -141,6 +144,162 @@ export class PluginRegistry {
     return [deleteCount];
   }
 
+  /**
+   * Removes the plugin instance with the specified `instanceId` from the
+   * registry. Unlike `deleteByPackageName()` this leaves every other instance
+   * of the same package untouched which is what callers need when they are
+   * replacing a single plugin instance at runtime.
+   *
+   * @param instanceId The `instanceId` of the plugin to remove.
+   * @returns The number of plugins that were removed (zero or one).
+   */
+  public deleteById(instanceId: string): [number] {
+    Checks.nonBlankString(instanceId, "instanceId");
+    const idx = this.plugins.findIndex((p) => p.getInstanceId() === instanceId);
+    if (idx < 0) {
+      return [0];
+    }
+    this.plugins.splice(idx, 1);
+    return [1];
+  }
+
+  /**
+   * Returns the plugins that `plugin` depends on (as declared by it via
+   * `IPluginWithDependencies`) from the current contents of the registry.
+   *
+   * @throws If a non-optional dependency has no matching plugin in the
+   * registry or if a dependency declaration is invalid.
+   */
+  public getDependenciesOf(plugin: ICactusPlugin): ICactusPlugin[] {
+    const fnTag = `${this.className}#getDependenciesOf()`;
+    if (!isIPluginWithDependencies(plugin)) {
+      return [];
+    }
+    const instanceId = plugin.getInstanceId();
+    const out: ICactusPlugin[] = [];
+
+    for (const dep of plugin.getPluginDependencies()) {
+      if (!dep || (!dep.packageName && !dep.capability)) {
+        const msg = `${fnTag} ${instanceId} has a dependency without packageName or capability`;
+        throw new Error(msg);
+      }
+      const matches = this.plugins.filter(
+        (p) => p !== plugin && this.isDependencyMatch(p, dep),
+      );
+      if (matches.length === 0 && !dep.optional) {
+        const pkgName = plugin.getPackageName();
+        const depDesc = JSON.stringify(dep);
+        const msg = `${fnTag} Plugin ${pkgName} (instanceId=${instanceId}) is missing required dependency ${depDesc}`;
+        throw new Error(msg);
+      }
+      matches.filter((p) => !out.includes(p)).forEach((p) => out.push(p));
+    }
+    return out;
+  }
+
+  /**
+   * Returns the instances of the registry that require the plugin with
+   * `instanceId` (not counting optional dependencies).
+   */
+  public getDependentsOf(instanceId: string): ICactusPlugin[] {
+    Checks.nonBlankString(instanceId, "instanceId");
+    const target = this.getOneById(instanceId);
+    return this.plugins.filter(
+      (p) =>
+        p !== target &&
+        isIPluginWithDependencies(p) &&
+        p
+          .getPluginDependencies()
+          .some((dep) => !dep.optional && this.isDependencyMatch(target, dep)),
+    );
+  }
+
+  /**
+   * Computes the order in which the plugins of the registry have to be
+   * initialized so that every plugin comes after the plugins it depends on.
+   * Plugins that have no ordering constraints between them keep the order in
+   * which they were added to the registry.
+   *
+   * @throws If there is a missing dependency or a dependency cycle.
+   */
+  public getInitOrder(): ICactusPlugin[] {
+    const fnTag = `${this.className}#getInitOrder()`;
+    const depsOf = new Map<ICactusPlugin, ICactusPlugin[]>();
+    this.plugins.forEach((p) => depsOf.set(p, this.getDependenciesOf(p)));
+
+    const out: ICactusPlugin[] = [];
+    const visiting: ICactusPlugin[] = [];
+
+    const visit = (plugin: ICactusPlugin): void => {
+      if (out.includes(plugin)) {
+        return;
+      }
+      const cycleStartIdx = visiting.indexOf(plugin);
+      if (cycleStartIdx >= 0) {
+        const cycle = visiting
+          .slice(cycleStartIdx)
+          .concat(plugin)
+          .map((p) => `${p.getPackageName()}(${p.getInstanceId()})`);
+        throw new Error(`${fnTag} dependency cycle: ${cycle.join(" -> ")}`);
+      }
+      visiting.push(plugin);
+      (depsOf.get(plugin) || []).forEach((dep) => visit(dep));
+      visiting.pop();
+      out.push(plugin);
+    };
+
+    this.plugins.forEach((p) => visit(p));
+    return out;
+  }
+
+  /**
+   * The reverse of `getInitOrder()` meaning that plugins come before the
+   * plugins they depend on.
+   */
+  public getShutdownOrder(): ICactusPlugin[] {
+    return this.getInitOrder().reverse();
+  }
+
+  /**
+   * Invokes `onPluginInit()` of the specified plugins in the order determined
+   * by `getInitOrder()`. The plugins are initialized one by one so that a
+   * plugin can rely on its dependencies being fully initialized.
+   *
+   * @param plugins The plugins to initialize. Defaults to every plugin in the
+   * registry. Plugins already initialized by the caller can be left out.
+   * @returns The plugins in the order they were initialized.
+   * @throws If there is a missing dependency or a dependency cycle, in which
+   * case none of the plugins get initialized.
+   */
+  public async initPlugins(
+    plugins: ICactusPlugin[] = this.plugins,
+  ): Promise<ICactusPlugin[]> {
+    const fnTag = `${this.className}#initPlugins()`;
+    const initOrder = this.getInitOrder().filter((p) => plugins.includes(p));
+    const order = initOrder.map((p) => p.getInstanceId());
+    this.log.debug("%s Plugin init order: %o", fnTag, order);
+
+    for (const plugin of initOrder) {
+      await plugin.onPluginInit();
+    }
+    return initOrder;
+  }
+
+  /**
+   * Same as `initPlugins()` but only initializes the plugin with the given
+   * `instanceId` after verifying that its dependencies are present. Useful
+   * when plugins are added to the registry one at a time at runtime.
+   *
+   * @throws If the plugin is missing from the registry or if any of its
+   * required dependencies are missing.
+   */
+  public async initPlugin(instanceId: string): Promise<ICactusPlugin> {
+    const plugin = this.getOneById(instanceId);
+    this.getDependenciesOf(plugin);
+    await plugin.onPluginInit();
+    return plugin;
+  }
+
   public add(plugin: ICactusPlugin, replaceOnConflict = false): [number] {
     if (!isICactusPlugin(plugin)) {
       throw new Error(`PluginRegistry#add() plugin not an ICactusPlugin`);
@@ -157,4 +316,17 @@ export class PluginRegistry {
     this.getPlugins().push(plugin);
     return [deleteCount];
   }
+
+  private isDependencyMatch(
+    plugin: ICactusPlugin,
+    dep: IPluginDependency,
+  ): boolean {
+    if (dep.packageName && plugin.getPackageName() !== dep.packageName) {
+      return false;
+    }
+    if (dep.capability && !hasPluginCapability(plugin, dep.capability)) {
+      return false;
+    }
+    return true;
+  }
 }
@@ -29,3 +29,37 @@ export { stringifyBigIntReplacer } from "./web-services/stringify-big-int-replac
 export { IConfigureExpressAppContext } from "./web-services/configure-express-app-base";
 export { configureExpressAppBase } from "./web-services/configure-express-app-base";
 export { CACTI_CORE_CONFIGURE_EXPRESS_APP_BASE_MARKER } from "./web-services/configure-express-app-base";
+
+export {
+  DEFAULT_LEDGER_EVENT_BUFFER_SIZE,
+  ILedgerEventSubscriptionV1Options,
+  LedgerEventSubscriptionV1,
+  compareLedgerEventCursorsV1,
+  isLedgerEventMatchingFilterV1,
+} from "./ledger-events/ledger-event-subscription-v1";
+
+export {
+  IRateLimitClient,
+  IRateLimitConfig,
+  IRateLimitDecision,
+  IRateLimitRequest,
+  IRateLimitRule,
+  ITokenBucketRateLimiterOptions,
+  RateLimitKeySource,
+  RateLimitRejectionListener,
+  RateLimitScope,
+  TokenBucketRateLimiter,
+} from "./rate-limiting/token-bucket-rate-limiter";
+export {
+  CACTI_CORE_RATE_LIMITER_KEY,
+  IExpressAppRateLimiting,
+  createRateLimitMiddleware,
+  getExpressAppRateLimiting,
+  setExpressAppRateLimiting,
+} from "./web-services/rate-limit-middleware";
+export {
+  CACTI_CORE_AUTHZ_POLICY_KEY,
+  IEndpointAuthzPolicy,
+  getExpressAppAuthzPolicy,
+  setExpressAppAuthzPolicy,
+} from "./web-services/endpoint-authz-policy";
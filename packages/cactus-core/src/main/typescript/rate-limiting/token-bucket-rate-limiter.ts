@@ -0,0 +1,340 @@
+import {
+  Checks,
+  Logger,
+  LoggerProvider,
+  LogLevelDesc,
+} from "@hyperledger/cactus-common";
+
+/**
+ * The property of the client that the buckets of a rule are keyed by. Only
+ * authenticated principals are used: the subject of a verified JWT or one of
+ * the configured `apiKeys`. If the chosen property is not available for a
+ * request (no verified JWT or no known API key was presented) then the IP
+ * address of the client is used instead.
+ */
+export enum RateLimitKeySource {
+  JwtSubject = "JWT_SUBJECT",
+  Ip = "IP",
+  ApiKey = "API_KEY",
+}
+
+/**
+ * The level of the configuration that a rule was defined at.
+ */
+export enum RateLimitScope {
+  Global = "global",
+  Plugin = "plugin",
+  Path = "path",
+}
+
+export interface IRateLimitRule {
+  /**
+   * The maximum number of tokens a bucket can hold, e.g. the largest burst of
+   * requests that a single client can make.
+   */
+  readonly capacity: number;
+  /**
+   * The number of tokens added back to a bucket every second, e.g. the rate
+   * of requests that a single client can sustain.
+   */
+  readonly refillPerSecond: number;
+  /**
+   * Overrides the `keyBy` of the configuration for this rule only.
+   */
+  readonly keyBy?: RateLimitKeySource;
+}
+
+/**
+ * Every rule that applies to a request has to allow it for the request to be
+ * let through, so for example a per-path rule cannot be used to give more
+ * headroom than the global rule does.
+ */
+export interface IRateLimitConfig {
+  /**
+   * Defaults to `RateLimitKeySource.Ip`
+   */
+  readonly keyBy?: RateLimitKeySource;
+  /**
+   * The HTTP header (or gRPC metadata key) that API keys are read from.
+   * Defaults to `x-api-key`
+   */
+  readonly apiKeyHeader?: string;
+  /**
+   * The API keys that identify clients for the rules keyed by
+   * `RateLimitKeySource.ApiKey`. Keys that are not listed are ignored so
+   * that clients cannot get fresh buckets by making up keys.
+   */
+  readonly apiKeys?: string[];
+  /**
+   * Applies to every request, across all plugins and paths.
+   */
+  readonly global?: IRateLimitRule;
+  /**
+   * Rules keyed by the instance ID or the package name of a plugin which
+   * apply to every request served by the plugin. Instance IDs take
+   * precedence over package names.
+   */
+  readonly plugins?: Record<string, IRateLimitRule>;
+  /**
+   * Rules keyed by HTTP path (as declared by the endpoint, not the concrete
+   * URL) or by gRPC/Connect method path such as `/my.package.MySvc/MyMethod`
+   */
+  readonly paths?: Record<string, IRateLimitRule>;
+}
+
+export interface IRateLimitClient {
+  readonly subject?: string;
+  readonly ip?: string;
+  readonly apiKey?: string;
+}
+
+export interface IRateLimitRequest {
+  /**
+   * Only used for reporting, e.g. `http`, `grpc` or `crpc`
+   */
+  readonly protocol: string;
+  readonly path: string;
+  readonly pluginInstanceId?: string;
+  readonly pluginPackageName?: string;
+  readonly client: IRateLimitClient;
+}
+
+export interface IRateLimitDecision {
+  readonly allowed: boolean;
+  /**
+   * How long the client has to wait before the request would be allowed.
+   * Zero if the request was allowed.
+   */
+  readonly retryAfterMs: number;
+  /**
+   * The scope of the rule that rejected the request (if any).
+   */
+  readonly scope?: RateLimitScope;
+}
+
+export type RateLimitRejectionListener = (
+  req: IRateLimitRequest,
+  decision: IRateLimitDecision,
+) => void;
+
+export interface ITokenBucketRateLimiterOptions {
+  readonly logLevel?: LogLevelDesc;
+  readonly config: IRateLimitConfig;
+  /**
+   * Invoked for every request that was rejected, e.g. to update metrics.
+   */
+  readonly onRejected?: RateLimitRejectionListener;
+  /**
+   * Once there are more buckets than this the ones that are full (e.g. the
+   * ones of clients that have not made requests lately) are dropped and if
+   * that is not enough, the least recently used ones. Defaults to 10000
+   */
+  readonly maxBuckets?: number;
+  /**
+   * Returns the current time in milliseconds. Defaults to `Date.now`
+   */
+  readonly now?: () => number;
+}
+
+interface ITokenBucket {
+  tokens: number;
+  updatedAt: number;
+  readonly rule: IRateLimitRule;
+}
+
+interface IApplicableRule {
+  readonly scope: RateLimitScope;
+  readonly name: string;
+  readonly rule: IRateLimitRule;
+}
+
+/**
+ * Throttles requests with the token bucket algorithm: each client has a
+ * bucket per applicable rule which is refilled at a constant rate and each
+ * request takes one token out of it. Requests that find an empty bucket are
+ * rejected until it has been refilled.
+ *
+ * The state is kept in memory so limits are enforced per process. The number
+ * of buckets is bounded by `maxBuckets`.
+ */
+export class TokenBucketRateLimiter {
+  public static readonly CLASS_NAME = "TokenBucketRateLimiter";
+  public static readonly DEFAULT_API_KEY_HEADER = "x-api-key";
+  public static readonly DEFAULT_MAX_BUCKETS = 10000;
+
+  private readonly log: Logger;
+  /**
+   * Ordered from the least to the most recently used bucket.
+   */
+  private readonly buckets = new Map<string, ITokenBucket>();
+  private readonly apiKeys: Set<string>;
+  private readonly maxBuckets: number;
+  private readonly now: () => number;
+
+  public get className(): string {
+    return TokenBucketRateLimiter.CLASS_NAME;
+  }
+
+  public get apiKeyHeader(): string {
+    const { apiKeyHeader } = this.opts.config;
+    return apiKeyHeader || TokenBucketRateLimiter.DEFAULT_API_KEY_HEADER;
+  }
+
+  constructor(public readonly opts: ITokenBucketRateLimiterOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(opts, `${fnTag} arg opts`);
+    Checks.truthy(opts.config, `${fnTag} arg opts.config`);
+
+    const { global, plugins = {}, paths = {} } = opts.config;
+    const rules: Record<string, IRateLimitRule> = global ? { global } : {};
+    Object.entries(plugins).forEach(([k, v]) => (rules[`plugins.${k}`] = v));
+    Object.entries(paths).forEach(([k, v]) => (rules[`paths.${k}`] = v));
+    Object.entries(rules).forEach(([name, { capacity, refillPerSecond }]) => {
+      Checks.truthy(capacity >= 1, `${fnTag} ${name}.capacity >= 1`);
+      Checks.truthy(
+        refillPerSecond > 0,
+        `${fnTag} ${name}.refillPerSecond > 0`,
+      );
+    });
+
+    this.apiKeys = new Set(opts.config.apiKeys || []);
+    this.maxBuckets =
+      opts.maxBuckets || TokenBucketRateLimiter.DEFAULT_MAX_BUCKETS;
+    this.now = opts.now || Date.now;
+
+    const level = opts.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  /**
+   * @returns `true` if at least one rule has been configured.
+   */
+  public isEnabled(): boolean {
+    const { global, plugins = {}, paths = {} } = this.opts.config;
+    const pluginCount = Object.keys(plugins).length;
+    const pathCount = Object.keys(paths).length;
+    return !!global || pluginCount > 0 || pathCount > 0;
+  }
+
+  /**
+   * Takes a token from each of the buckets of the client that apply to the
+   * request. If any one of them is empty then none of the tokens are taken
+   * and the request is rejected.
+   */
+  public consume(req: IRateLimitRequest): IRateLimitDecision {
+    const now = this.now();
+    const buckets = this.getApplicableRules(req).map((applicable) =>
+      this.getRefilledBucket(applicable, req.client, now),
+    );
+
+    const rejections = buckets.filter(({ bucket }) => bucket.tokens < 1);
+    if (rejections.length > 0) {
+      const retryAfterMs = Math.max(
+        ...rejections.map(({ bucket }) => {
+          const missing = 1 - bucket.tokens;
+          return Math.ceil((missing / bucket.rule.refillPerSecond) * 1000);
+        }),
+      );
+      const { scope } = rejections[0];
+      const decision: IRateLimitDecision = {
+        allowed: false,
+        retryAfterMs,
+        scope,
+      };
+      this.log.debug("Rejected %s %s: %o", req.protocol, req.path, decision);
+      if (this.opts.onRejected) {
+        this.opts.onRejected(req, decision);
+      }
+      return decision;
+    }
+
+    buckets.forEach(({ bucket }) => (bucket.tokens -= 1));
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  private getApplicableRules(req: IRateLimitRequest): IApplicableRule[] {
+    const { global, plugins = {}, paths = {} } = this.opts.config;
+    const out: IApplicableRule[] = [];
+
+    if (global) {
+      out.push({ scope: RateLimitScope.Global, name: "*", rule: global });
+    }
+
+    const pluginName = [req.pluginInstanceId, req.pluginPackageName].find(
+      (it) => it && plugins[it],
+    );
+    if (pluginName) {
+      const rule = plugins[pluginName];
+      out.push({ scope: RateLimitScope.Plugin, name: pluginName, rule });
+    }
+
+    if (paths[req.path]) {
+      const rule = paths[req.path];
+      out.push({ scope: RateLimitScope.Path, name: req.path, rule });
+    }
+    return out;
+  }
+
+  private getRefilledBucket(
+    applicable: IApplicableRule,
+    client: IRateLimitClient,
+    now: number,
+  ): { scope: RateLimitScope; bucket: ITokenBucket } {
+    const { scope, name, rule } = applicable;
+    const clientKey = this.getClientKey(rule, client);
+    const key = `${scope}:${name}:${clientKey}`;
+
+    let bucket = this.buckets.get(key);
+    if (bucket) {
+      const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+      const refill = elapsedSeconds * rule.refillPerSecond;
+      bucket.tokens = Math.min(rule.capacity, bucket.tokens + refill);
+      bucket.updatedAt = now;
+      // moves it to the end of the least recently used order
+      this.buckets.delete(key);
+      this.buckets.set(key, bucket);
+    } else {
+      this.pruneBuckets(now);
+      bucket = { tokens: rule.capacity, updatedAt: now, rule };
+      this.buckets.set(key, bucket);
+    }
+    return { scope, bucket };
+  }
+
+  private getClientKey(rule: IRateLimitRule, client: IRateLimitClient): string {
+    const keyBy = rule.keyBy || this.opts.config.keyBy || RateLimitKeySource.Ip;
+    if (keyBy === RateLimitKeySource.JwtSubject && client.subject) {
+      return `${keyBy}:${client.subject}`;
+    } else if (
+      keyBy === RateLimitKeySource.ApiKey &&
+      client.apiKey &&
+      this.apiKeys.has(client.apiKey)
+    ) {
+      return `${keyBy}:${client.apiKey}`;
+    } else {
+      return `${RateLimitKeySource.Ip}:${client.ip || "unknown"}`;
+    }
+  }
+
+  private pruneBuckets(now: number): void {
+    if (this.buckets.size < this.maxBuckets) {
+      return;
+    }
+    for (const [key, bucket] of this.buckets) {
+      const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+      const tokens =
+        bucket.tokens + elapsedSeconds * bucket.rule.refillPerSecond;
+      if (tokens >= bucket.rule.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+    for (const key of this.buckets.keys()) {
+      if (this.buckets.size < this.maxBuckets) {
+        break;
+      }
+      this.buckets.delete(key);
+    }
+    this.log.debug("Pruned buckets, %o remaining", this.buckets.size);
+  }
+}
@@ -8,6 +8,9 @@ import {
   LoggerProvider,
 } from "@hyperledger/cactus-common";
 
+import { TokenBucketRateLimiter } from "../rate-limiting/token-bucket-rate-limiter";
+import { setExpressAppRateLimiting } from "./rate-limit-middleware";
+
 export const CACTI_CORE_CONFIGURE_EXPRESS_APP_BASE_MARKER =
   "CACTI_CORE_CONFIGURE_EXPRESS_APP_BASE_MARKER";
 
@@ -22,6 +25,11 @@ export interface IConfigureExpressAppContext {
   readonly logLevel?: LogLevelDesc;
   readonly app: Express;
   readonly bodyParserJsonOpts?: OptionsJson;
+  /**
+   * Throttles the endpoints registered on the app afterwards through
+   * `registerWebServiceEndpoint()`.
+   */
+  readonly rateLimiter?: TokenBucketRateLimiter;
 }
 
 /**
@@ -84,6 +92,11 @@ export async function configureExpressAppBase(
   // Add custom replacer to handle bigint responses correctly
   ctx.app.set("json replacer", bigIntToDecimalStringReplacer);
 
+  if (ctx.rateLimiter) {
+    log.debug("Installing rate limiter: %o", ctx.rateLimiter.isEnabled());
+    setExpressAppRateLimiting(ctx.app, { rateLimiter: ctx.rateLimiter });
+  }
+
   ctx.app.set(CACTI_CORE_CONFIGURE_EXPRESS_APP_BASE_MARKER, true);
 
   log.debug("EXIT");
@@ -0,0 +1,42 @@
+import type { Express } from "express";
+
+import {
+  IEndpointAuthzOptions,
+  IWebServiceEndpoint,
+} from "@hyperledger/cactus-core-api";
+
+export const CACTI_CORE_AUTHZ_POLICY_KEY = "CACTI_CORE_AUTHZ_POLICY_KEY";
+
+/**
+ * Decides the authorization options that are enforced on an endpoint when it
+ * is registered through `registerWebServiceEndpoint()`, which makes it
+ * possible to override what the endpoints declare about themselves.
+ */
+export interface IEndpointAuthzPolicy {
+  /**
+   * @param endpoint The endpoint that is being registered.
+   * @param declared The authorization options that the endpoint declared via
+   * its `getAuthorizationOptionsProvider()` method.
+   */
+  resolve(
+    endpoint: IWebServiceEndpoint,
+    declared: IEndpointAuthzOptions,
+  ): Promise<IEndpointAuthzOptions>;
+}
+
+/**
+ * Makes `registerWebServiceEndpoint()` consult the policy for the endpoints
+ * that are registered on the ExpressJS application from this point on.
+ */
+export function setExpressAppAuthzPolicy(
+  app: Express,
+  policy: IEndpointAuthzPolicy,
+): void {
+  app.set(CACTI_CORE_AUTHZ_POLICY_KEY, policy);
+}
+
+export function getExpressAppAuthzPolicy(
+  app: Express,
+): IEndpointAuthzPolicy | undefined {
+  return app.get(CACTI_CORE_AUTHZ_POLICY_KEY);
+}
@@ -0,0 +1,83 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import { identifierByCodes, TOO_MANY_REQUESTS } from "http-errors-enhanced-cjs";
+
+import { ICactusPlugin } from "@hyperledger/cactus-core-api";
+
+import { TokenBucketRateLimiter } from "../rate-limiting/token-bucket-rate-limiter";
+
+export const CACTI_CORE_RATE_LIMITER_KEY = "CACTI_CORE_RATE_LIMITER_KEY";
+
+/**
+ * The rate limiter that `registerWebServiceEndpoint()` installs on the
+ * endpoints of an ExpressJS application and the plugin (if any) that the
+ * application is serving the endpoints of.
+ */
+export interface IExpressAppRateLimiting {
+  readonly rateLimiter: TokenBucketRateLimiter;
+  readonly plugin?: ICactusPlugin;
+}
+
+/**
+ * Makes `registerWebServiceEndpoint()` install rate limiting on the endpoints
+ * that are registered on the ExpressJS application from this point on.
+ *
+ * It is done on a per-route basis instead of as an application level
+ * middleware so that requests that are not served by `app` (for example
+ * because it only holds the endpoints of a single plugin) do not take tokens.
+ */
+export function setExpressAppRateLimiting(
+  app: Express,
+  rateLimiting: IExpressAppRateLimiting,
+): void {
+  app.set(CACTI_CORE_RATE_LIMITER_KEY, rateLimiting);
+}
+
+export function getExpressAppRateLimiting(
+  app: Express,
+): IExpressAppRateLimiting | undefined {
+  return app.get(CACTI_CORE_RATE_LIMITER_KEY);
+}
+
+/**
+ * Creates an ExpressJS middleware that responds with HTTP 429 and a
+ * `Retry-After` header (in seconds) if the client has exhausted its tokens.
+ *
+ * The JWT subject is read from `req.auth` which is where the authorization
+ * middleware of the API server places the decoded token.
+ *
+ * @param rateLimiting The rate limiter and the plugin serving the endpoint.
+ * @param httpPath The path of the endpoint as it was declared by it.
+ */
+export function createRateLimitMiddleware(
+  rateLimiting: IExpressAppRateLimiting,
+  httpPath: string,
+): (req: Request, res: Response, next: NextFunction) => void {
+  const { rateLimiter, plugin } = rateLimiting;
+  const pluginInstanceId = plugin?.getInstanceId();
+  const pluginPackageName = plugin?.getPackageName();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { auth } = req as unknown as { auth?: { sub?: string } };
+    const decision = rateLimiter.consume({
+      protocol: "http",
+      path: httpPath,
+      pluginInstanceId,
+      pluginPackageName,
+      client: {
+        subject: auth?.sub,
+        ip: req.ip,
+        apiKey: req.header(rateLimiter.apiKeyHeader),
+      },
+    });
+    if (decision.allowed) {
+      next();
+      return;
+    }
+    const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+    res.setHeader("Retry-After", retryAfterSeconds.toString(10));
+    res.status(TOO_MANY_REQUESTS).json({
+      message: identifierByCodes[TOO_MANY_REQUESTS],
+      error: `Rate limit of ${decision.scope} scope exceeded, retry after ${retryAfterSeconds} second(s).`,
+    });
+  };
+}
@@ -5,9 +5,21 @@ import { IWebServiceEndpoint } from "@hyperledger/cactus-core-api";
 
 import { createRuntimeErrorWithCause } from "@hyperledger/cactus-common";
 
+import { getExpressAppAuthzPolicy } from "./endpoint-authz-policy";
+import {
+  createRateLimitMiddleware,
+  getExpressAppRateLimiting,
+} from "./rate-limit-middleware";
+
 /**
  * Hooks up an endpoint instance to an ExpressJS web app object.
  *
+ * If a rate limiter was set on the web app via `setExpressAppRateLimiting()`
+ * then the endpoint's requests are throttled by it before anything else.
+ * If an authorization policy was set on the web app via
+ * `setExpressAppAuthzPolicy()` then it decides the scopes that are enforced
+ * instead of the endpoint itself.
+ *
  * @param webApp The ExpressJS application object that `endpoint` will be registered with.
  * @param endpoint The `IWebServiceEndpoint` instance that will be registered.
  */
@@ -21,7 +33,11 @@ export async function registerWebServiceEndpoint(
   const requestHandler = endpoint.getExpressRequestHandler();
 
   const provider = endpoint.getAuthorizationOptionsProvider();
-  const { isProtected, requiredRoles } = await provider.get();
+  const declaredAuthz = await provider.get();
+  const authzPolicy = getExpressAppAuthzPolicy(webApp);
+  const { isProtected, requiredRoles } = authzPolicy
+    ? await authzPolicy.resolve(endpoint, declaredAuthz)
+    : declaredAuthz;
 
   const webAppCasted = webApp as unknown as Record<
     string,
@@ -29,6 +45,13 @@ export async function registerWebServiceEndpoint(
   >;
 
   const registrationMethod = webAppCasted[httpVerb].bind(webApp);
+
+  const rateLimiting = getExpressAppRateLimiting(webApp);
+  const middlewares: unknown[] = [];
+  if (rateLimiting && rateLimiting.rateLimiter.isEnabled()) {
+    middlewares.push(createRateLimitMiddleware(rateLimiting, httpPath));
+  }
+
   try {
     if (isProtected) {
       const opts: AuthzOptions = {
@@ -38,10 +61,9 @@ export async function registerWebServiceEndpoint(
         checkAllScopes: true,
       };
       const scopeCheckMiddleware = expressJwtAuthz(requiredRoles, opts);
-      registrationMethod(httpPath, scopeCheckMiddleware, requestHandler);
-    } else {
-      registrationMethod(httpPath, requestHandler);
+      middlewares.push(scopeCheckMiddleware);
     }
+    registrationMethod(httpPath, ...middlewares, requestHandler);
   } catch (ex: unknown) {
     const errorMessage = `${fnTag} Express verb method ${httpVerb} threw while registering endpoint on path ${httpPath}`;
     throw createRuntimeErrorWithCause(errorMessage, ex);
@@ -0,0 +1,158 @@
+import "jest-extended";
+
+import { LedgerEventTypeV1, LedgerEventV1 } from "@hyperledger/cactus-core-api";
+
+import {
+  compareLedgerEventCursorsV1,
+  isLedgerEventMatchingFilterV1,
+  LedgerEventSubscriptionV1,
+} from "../../../main/typescript/public-api";
+
+describe("LedgerEventSubscriptionV1", () => {
+  const sourceId = "test-source";
+
+  const block = (blockNumber: number): LedgerEventV1 => ({
+    eventType: LedgerEventTypeV1.Block,
+    sourceId,
+    cursor: { blockNumber },
+  });
+
+  const contractEvent = (
+    blockNumber: number,
+    transactionIndex: number,
+    eventIndex: number,
+    contractAddress = "0xABC",
+  ): LedgerEventV1 => ({
+    eventType: LedgerEventTypeV1.ContractEvent,
+    sourceId,
+    cursor: { blockNumber, transactionIndex, eventIndex },
+    contractAddress,
+    eventName: "Transfer",
+    topics: ["0xTopic0", "0xTopic1"],
+  });
+
+  test("orders cursors", () => {
+    const cursors = [
+      { blockNumber: 2 },
+      { blockNumber: 1, transactionIndex: 0, eventIndex: 1 },
+      { blockNumber: 1, transactionIndex: 0 },
+      { blockNumber: 1 },
+      { blockNumber: 1, transactionIndex: 0, eventIndex: 0 },
+    ];
+    expect([...cursors].sort(compareLedgerEventCursorsV1)).toEqual([
+      { blockNumber: 1 },
+      { blockNumber: 1, transactionIndex: 0 },
+      { blockNumber: 1, transactionIndex: 0, eventIndex: 0 },
+      { blockNumber: 1, transactionIndex: 0, eventIndex: 1 },
+      { blockNumber: 2 },
+    ]);
+  });
+
+  test("matches filters", () => {
+    const event = contractEvent(1, 0, 0);
+    expect(isLedgerEventMatchingFilterV1(event)).toBeTrue();
+    expect(isLedgerEventMatchingFilterV1(event, {})).toBeTrue();
+    expect(
+      isLedgerEventMatchingFilterV1(event, {
+        eventTypes: [LedgerEventTypeV1.ContractEvent],
+        contractAddresses: ["0xabc"],
+        eventNames: ["Transfer"],
+        topics: ["0xtopic1"],
+      }),
+    ).toBeTrue();
+    expect(
+      isLedgerEventMatchingFilterV1(event, {
+        eventTypes: [LedgerEventTypeV1.Block],
+      }),
+    ).toBeFalse();
+    expect(
+      isLedgerEventMatchingFilterV1(event, { eventNames: ["Approval"] }),
+    ).toBeFalse();
+    expect(
+      isLedgerEventMatchingFilterV1(block(1), { contractAddresses: ["0xabc"] }),
+    ).toBeFalse();
+  });
+
+  test("filters events and resumes after the cursor", async () => {
+    const subscription = new LedgerEventSubscriptionV1({
+      subscriptionOptions: {
+        filter: { eventTypes: [LedgerEventTypeV1.ContractEvent] },
+        afterCursor: { blockNumber: 1, transactionIndex: 0, eventIndex: 0 },
+      },
+    });
+    expect(subscription.getStartBlock(10)).toEqual(1);
+
+    await subscription.push(block(1));
+    await subscription.push(contractEvent(1, 0, 0));
+    await subscription.push(contractEvent(1, 0, 1));
+    await subscription.push(block(2));
+    await subscription.push(contractEvent(2, 3, 0));
+    subscription.close();
+
+    const received: LedgerEventV1[] = [];
+    for await (const event of subscription) {
+      received.push(event);
+    }
+    expect(received.map((e) => e.cursor)).toEqual([
+      { blockNumber: 1, transactionIndex: 0, eventIndex: 1 },
+      { blockNumber: 2, transactionIndex: 3, eventIndex: 0 },
+    ]);
+    expect(subscription.getCursor()).toEqual(received[1].cursor);
+  });
+
+  test("applies backpressure to the event source", async () => {
+    const subscription = new LedgerEventSubscriptionV1({
+      subscriptionOptions: { bufferSize: 2 },
+    });
+    let pushed = 0;
+    const producer = (async () => {
+      for (let i = 0; i < 5; i++) {
+        await subscription.push(block(i));
+        pushed++;
+      }
+      subscription.close();
+    })();
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(pushed).toEqual(2);
+
+    const first = await subscription.next();
+    expect(first.value.cursor).toEqual({ blockNumber: 0 });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(pushed).toEqual(3);
+
+    const rest: number[] = [];
+    for await (const event of subscription) {
+      rest.push(event.cursor.blockNumber);
+    }
+    await producer;
+    expect(rest).toEqual([1, 2, 3, 4]);
+  });
+
+  test("reports failures of the source and unsubscribes", async () => {
+    const onUnsubscribe = jest.fn();
+    const failing = new LedgerEventSubscriptionV1({
+      subscriptionOptions: {},
+      onUnsubscribe,
+    });
+    await failing.push(block(1));
+    failing.close(new Error("connection lost"));
+    expect((await failing.next()).value).toEqual(block(1));
+    await expect(failing.next()).rejects.toThrow("connection lost");
+    expect(onUnsubscribe).not.toHaveBeenCalled();
+
+    const subscription = new LedgerEventSubscriptionV1({
+      subscriptionOptions: { bufferSize: 1 },
+      onUnsubscribe,
+    });
+    await subscription.push(block(1));
+    const blockedPush = subscription.push(block(2));
+    for await (const event of subscription) {
+      expect(event.cursor.blockNumber).toEqual(1);
+      break;
+    }
+    expect(onUnsubscribe).toHaveBeenCalledTimes(1);
+    expect(subscription.isClosed()).toBeTrue();
+    await expect(blockedPush).resolves.toBeFalse();
+  });
+});
@@ -3,7 +3,13 @@ import "jest-extended";
 
 import { PluginRegistry } from "../../../main/typescript/public-api";
 
-import { ICactusPlugin, IPluginKeychain } from "@hyperledger/cactus-core-api";
+import {
+  ICactusPlugin,
+  IPluginDependency,
+  IPluginKeychain,
+  IPluginWithDependencies,
+  PluginCapability,
+} from "@hyperledger/cactus-core-api";
 
 describe("PluginRegistry", () => {
   const keychainId = uuidv4();
@@ -84,4 +90,101 @@ describe("PluginRegistry", () => {
       new Error("Plugin x not present in registry"),
     );
   });
+
+  test("deleteById() removes only the plugin with the given instanceID", () => {
+    const registry = new PluginRegistry({
+      plugins: [
+        {
+          getInstanceId: () => "delete-by-id-1",
+          getPackageName: () => "@hyperledger/cactus-plugin-mock",
+        } as ICactusPlugin,
+        {
+          getInstanceId: () => "delete-by-id-2",
+          getPackageName: () => "@hyperledger/cactus-plugin-mock",
+        } as ICactusPlugin,
+      ],
+    });
+
+    expect(registry.deleteById("delete-by-id-1")).toEqual([1]);
+    expect(registry.findOneById("delete-by-id-1").isEmpty()).toBe(true);
+    expect(registry.findOneById("delete-by-id-2").isPresent()).toBe(true);
+    expect(registry.deleteById("delete-by-id-1")).toEqual([0]);
+    expect(() => registry.deleteById("")).toThrowError(
+      new Error(`"instanceId" is a blank string. Need non-blank.`),
+    );
+  });
+
+  describe("dependency graph", () => {
+    const initLog: string[] = [];
+
+    const createPlugin = (
+      id: string,
+      deps: IPluginDependency[] = [],
+    ): IPluginWithDependencies => ({
+      getInstanceId: () => id,
+      getPackageName: () => `@hyperledger/cactus-plugin-${id}`,
+      getPluginDependencies: () => deps,
+      onPluginInit: async () => {
+        initLog.push(id);
+      },
+    });
+
+    beforeEach(() => {
+      initLog.length = 0;
+    });
+
+    test("initPlugins() initializes dependencies first", async () => {
+      const htlc = createPlugin("htlc", [
+        { capability: PluginCapability.Keychain },
+        { packageName: "@hyperledger/cactus-plugin-connector" },
+        { packageName: "@hyperledger/cactus-plugin-nope", optional: true },
+      ]);
+      const connector = createPlugin("connector", [
+        { capability: PluginCapability.Keychain },
+      ]);
+      const keychain: IPluginKeychain = {
+        ...mockKeychainPlugin,
+        onPluginInit: async () => initLog.push("keychain"),
+      };
+      const registry = new PluginRegistry({
+        plugins: [htlc, connector, keychain],
+      });
+
+      const initOrder = await registry.initPlugins();
+
+      expect(initLog).toEqual(["keychain", "connector", "htlc"]);
+      expect(initOrder).toEqual([keychain, connector, htlc]);
+      expect(registry.getShutdownOrder()).toEqual([htlc, connector, keychain]);
+      expect(registry.getDependentsOf(instanceId)).toEqual([htlc, connector]);
+    });
+
+    test("initPlugins() reports missing dependencies", async () => {
+      const registry = new PluginRegistry({
+        plugins: [
+          createPlugin("a"),
+          createPlugin("b", [{ capability: PluginCapability.LedgerConnector }]),
+        ],
+      });
+
+      await expect(registry.initPlugins()).rejects.toThrowError(
+        /\(instanceId=b\) is missing required dependency.*IPluginLedgerConnector/,
+      );
+      expect(initLog).toBeEmpty();
+    });
+
+    test("initPlugins() detects dependency cycles", async () => {
+      const registry = new PluginRegistry({
+        plugins: [
+          createPlugin("a", [{ packageName: "@hyperledger/cactus-plugin-b" }]),
+          createPlugin("b", [{ packageName: "@hyperledger/cactus-plugin-c" }]),
+          createPlugin("c", [{ packageName: "@hyperledger/cactus-plugin-a" }]),
+        ],
+      });
+
+      await expect(registry.initPlugins()).rejects.toThrowError(
+        /dependency cycle: .*\(a\) -> .*\(b\) -> .*\(c\) -> .*\(a\)/,
+      );
+      expect(initLog).toBeEmpty();
+    });
+  });
 });
@@ -0,0 +1,203 @@
+import "jest-extended";
+import { createRequest, createResponse } from "node-mocks-http";
+import { identifierByCodes, TOO_MANY_REQUESTS } from "http-errors-enhanced-cjs";
+
+import {
+  createRateLimitMiddleware,
+  IRateLimitRequest,
+  RateLimitKeySource,
+  RateLimitScope,
+  TokenBucketRateLimiter,
+} from "../../../main/typescript/public-api";
+
+describe("TokenBucketRateLimiter", () => {
+  let now = 0;
+  const clock = () => now;
+
+  const newRequest = (
+    overrides: Partial<IRateLimitRequest> = {},
+  ): IRateLimitRequest => ({
+    protocol: "http",
+    path: "/api/v1/some-endpoint",
+    client: { ip: "10.0.0.1" },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  test("is disabled without rules and allows everything", () => {
+    const rateLimiter = new TokenBucketRateLimiter({ config: {}, now: clock });
+    expect(rateLimiter.isEnabled()).toBeFalse();
+    for (let i = 0; i < 100; i++) {
+      expect(rateLimiter.consume(newRequest()).allowed).toBeTrue();
+    }
+  });
+
+  test("rejects invalid rules", () => {
+    const global = { capacity: 10, refillPerSecond: 0 };
+    expect(() => new TokenBucketRateLimiter({ config: { global } })).toThrow();
+    const paths = { "/a": { capacity: 0, refillPerSecond: 1 } };
+    expect(() => new TokenBucketRateLimiter({ config: { paths } })).toThrow();
+  });
+
+  test("allows bursts up to the capacity and refills over time", () => {
+    const onRejected = jest.fn();
+    const rateLimiter = new TokenBucketRateLimiter({
+      config: { global: { capacity: 2, refillPerSecond: 0.5 } },
+      onRejected,
+      now: clock,
+    });
+    expect(rateLimiter.consume(newRequest()).allowed).toBeTrue();
+    expect(rateLimiter.consume(newRequest()).allowed).toBeTrue();
+
+    const rejection = rateLimiter.consume(newRequest());
+    expect(rejection).toEqual({
+      allowed: false,
+      retryAfterMs: 2000,
+      scope: RateLimitScope.Global,
+    });
+    expect(onRejected).toHaveBeenCalledWith(newRequest(), rejection);
+
+    now = 1000;
+    expect(rateLimiter.consume(newRequest()).retryAfterMs).toEqual(1000);
+    now = 2000;
+    expect(rateLimiter.consume(newRequest()).allowed).toBeTrue();
+    expect(rateLimiter.consume(newRequest()).allowed).toBeFalse();
+
+    const otherClient = newRequest({ client: { ip: "10.0.0.2" } });
+    expect(rateLimiter.consume(otherClient).allowed).toBeTrue();
+  });
+
+  test("applies plugin and path rules on top of the global rule", () => {
+    const rateLimiter = new TokenBucketRateLimiter({
+      config: {
+        global: { capacity: 3, refillPerSecond: 1 },
+        plugins: { "my-plugin-package": { capacity: 100, refillPerSecond: 1 } },
+        paths: { "/api/v1/expensive": { capacity: 1, refillPerSecond: 1 } },
+      },
+      now: clock,
+    });
+    const expensive = newRequest({
+      path: "/api/v1/expensive",
+      pluginPackageName: "my-plugin-package",
+    });
+    expect(rateLimiter.consume(expensive).allowed).toBeTrue();
+    expect(rateLimiter.consume(expensive).scope).toEqual(RateLimitScope.Path);
+
+    // The rejected request did not take a token out of the global bucket.
+    expect(rateLimiter.consume(newRequest()).allowed).toBeTrue();
+    expect(rateLimiter.consume(newRequest()).allowed).toBeTrue();
+    expect(rateLimiter.consume(newRequest()).scope).toEqual(
+      RateLimitScope.Global,
+    );
+  });
+
+  test("keys buckets by JWT subject or API key with IP fallback", () => {
+    const rateLimiter = new TokenBucketRateLimiter({
+      config: {
+        keyBy: RateLimitKeySource.JwtSubject,
+        apiKeys: ["key-1", "key-2"],
+        global: { capacity: 1, refillPerSecond: 1 },
+        paths: {
+          "/by-api-key": {
+            capacity: 1,
+            refillPerSecond: 1,
+            keyBy: RateLimitKeySource.ApiKey,
+          },
+        },
+      },
+      now: clock,
+    });
+    const alice = { ip: "10.0.0.1", subject: "alice" };
+    const bob = { ip: "10.0.0.1", subject: "bob" };
+    expect(
+      rateLimiter.consume(newRequest({ client: alice })).allowed,
+    ).toBeTrue();
+    expect(rateLimiter.consume(newRequest({ client: bob })).allowed).toBeTrue();
+    expect(
+      rateLimiter.consume(newRequest({ client: alice })).allowed,
+    ).toBeFalse();
+
+    // Anonymous requests share the bucket of their IP address.
+    const anonymous = { ip: "10.0.0.2" };
+    expect(
+      rateLimiter.consume(newRequest({ client: anonymous })).allowed,
+    ).toBeTrue();
+    expect(
+      rateLimiter.consume(newRequest({ client: anonymous })).allowed,
+    ).toBeFalse();
+
+    // The path rule is keyed by API key regardless of the address.
+    const byApiKey = (apiKey: string, ip: string) =>
+      newRequest({ path: "/by-api-key", client: { ip, apiKey } });
+    expect(
+      rateLimiter.consume(byApiKey("key-1", "10.0.0.3")).allowed,
+    ).toBeTrue();
+    expect(rateLimiter.consume(byApiKey("key-1", "10.0.0.4")).scope).toEqual(
+      RateLimitScope.Path,
+    );
+    expect(
+      rateLimiter.consume(byApiKey("key-2", "10.0.0.5")).allowed,
+    ).toBeTrue();
+  });
+
+  test("ignores API keys that are not configured", () => {
+    const rateLimiter = new TokenBucketRateLimiter({
+      config: {
+        keyBy: RateLimitKeySource.ApiKey,
+        apiKeys: ["key-1"],
+        global: { capacity: 1, refillPerSecond: 1 },
+      },
+      now: clock,
+    });
+    const byApiKey = (apiKey: string) =>
+      newRequest({ client: { ip: "10.0.0.1", apiKey } });
+    expect(rateLimiter.consume(byApiKey("key-1")).allowed).toBeTrue();
+
+    // Made up keys share the bucket of their IP address.
+    expect(rateLimiter.consume(byApiKey("made-up-1")).allowed).toBeTrue();
+    expect(rateLimiter.consume(byApiKey("made-up-2")).allowed).toBeFalse();
+    expect(rateLimiter.consume(newRequest()).allowed).toBeFalse();
+  });
+
+  test("evicts the least recently used buckets beyond maxBuckets", () => {
+    const rateLimiter = new TokenBucketRateLimiter({
+      config: { global: { capacity: 1, refillPerSecond: 0.001 } },
+      maxBuckets: 2,
+      now: clock,
+    });
+    const from = (ip: string) => newRequest({ client: { ip } });
+    expect(rateLimiter.consume(from("10.0.0.1")).allowed).toBeTrue();
+    expect(rateLimiter.consume(from("10.0.0.2")).allowed).toBeTrue();
+    // uses the bucket of 10.0.0.1 so the one of 10.0.0.2 is evicted next
+    expect(rateLimiter.consume(from("10.0.0.1")).allowed).toBeFalse();
+
+    expect(rateLimiter.consume(from("10.0.0.3")).allowed).toBeTrue();
+    expect(rateLimiter.consume(from("10.0.0.1")).allowed).toBeFalse();
+    expect(rateLimiter.consume(from("10.0.0.2")).allowed).toBeTrue();
+  });
+
+  test("createRateLimitMiddleware() responds with 429 and Retry-After", () => {
+    const rateLimiter = new TokenBucketRateLimiter({
+      config: { global: { capacity: 1, refillPerSecond: 0.25 } },
+      now: clock,
+    });
+    const middleware = createRateLimitMiddleware({ rateLimiter }, "/a");
+
+    const next = jest.fn();
+    const req = createRequest({ ip: "10.0.0.1" });
+    middleware(req, createResponse(), next);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    const res = createResponse();
+    middleware(req, res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.statusCode).toEqual(TOO_MANY_REQUESTS);
+    expect(res.getHeader("Retry-After")).toEqual("4");
+    expect(res._getJSONData()).toMatchObject({
+      message: identifierByCodes[TOO_MANY_REQUESTS],
+    });
+  });
+});
@@ -23,6 +23,38 @@ import type { RequestArgs } from './base';
 // @ts-ignore
 import { BASE_PATH, COLLECTION_FORMATS, BaseAPI, RequiredError } from './base';
 
+/**
+ * Request object for attestViewV1 endpoint
+ * @export
+ * @interface AttestViewRequest
+ */
+export interface AttestViewRequest {
+    /**
+     * Output of createViewV1, processViewV1 or mergeViewsV1, stringified
+     * @type {string}
+     * @memberof AttestViewRequest
+     */
+    'serializedView': string;
+}
+/**
+ * Attestation of the content of a view by a bungee instance
+ * @export
+ * @interface AttestViewResponse
+ */
+export interface AttestViewResponse {
+    /**
+     * public key of the attesting instance
+     * @type {string}
+     * @memberof AttestViewResponse
+     */
+    'attester': string;
+    /**
+     * 
+     * @type {string}
+     * @memberof AttestViewResponse
+     */
+    'signature': string;
+}
 /**
  * Request object for createViewV1 endpoint
  * @export
@@ -65,6 +97,18 @@ export interface CreateViewRequest {
      * @memberof CreateViewRequest
      */
     'networkDetails': CreateViewRequestNetworkDetails;
+    /**
+     * Resume from the latest stored snapshot of the same network and states, reading only the ledger data after its cursor
+     * @type {boolean}
+     * @memberof CreateViewRequest
+     */
+    'incremental'?: boolean;
+    /**
+     * Create the view of the states as they were at this block, instead of using tI and tF
+     * @type {string}
+     * @memberof CreateViewRequest
+     */
+    'asOfBlock'?: string;
 }
 /**
  * 
@@ -103,6 +147,56 @@ export interface CreateViewResponse {
      * @memberof CreateViewResponse
      */
     'signature'?: string;
+    /**
+     * Id of the stored snapshot the view was created from, for incremental requests
+     * @type {string}
+     * @memberof CreateViewResponse
+     */
+    'snapshotId'?: string;
+}
+/**
+ * Request object for diffViewsV1 endpoint
+ * @export
+ * @interface DiffViewsRequest
+ */
+export interface DiffViewsRequest {
+    /**
+     * 
+     * @type {string}
+     * @memberof DiffViewsRequest
+     */
+    'fromSnapshotId': string;
+    /**
+     * 
+     * @type {string}
+     * @memberof DiffViewsRequest
+     */
+    'toSnapshotId': string;
+    /**
+     * 
+     * @type {string}
+     * @memberof DiffViewsRequest
+     */
+    'viewID'?: string;
+}
+/**
+ * Changes between two stored snapshots of the same network
+ * @export
+ * @interface DiffViewsResponse
+ */
+export interface DiffViewsResponse {
+    /**
+     * 
+     * @type {string}
+     * @memberof DiffViewsResponse
+     */
+    'viewDiff'?: string;
+    /**
+     * 
+     * @type {string}
+     * @memberof DiffViewsResponse
+     */
+    'signature'?: string;
 }
 /**
  * public key from bungee-hermes plugin instance
@@ -117,6 +211,25 @@ export interface GetPublicKeyResponse {
      */
     'pubKey'?: string;
 }
+/**
+ * Declarative merge policy, its rules are applied to the integrated view in order
+ * @export
+ * @interface MergePolicyDefinition
+ */
+export interface MergePolicyDefinition {
+    /**
+     * 
+     * @type {string}
+     * @memberof MergePolicyDefinition
+     */
+    'description'?: string;
+    /**
+     * 
+     * @type {Array<MergePolicyRule>}
+     * @memberof MergePolicyDefinition
+     */
+    'rules': Array<MergePolicyRule>;
+}
 /**
  * identifier of the policy used to merge views (can be none)
  * @export
@@ -126,12 +239,65 @@ export interface GetPublicKeyResponse {
 export const MergePolicyOpts = {
     PruneState: 'pruneState',
     PruneStateFromView: 'pruneStateFromView',
-    NONE: 'NONE'
+    NONE: 'NONE',
+    Declarative: 'declarative'
 } as const;
 
 export type MergePolicyOpts = typeof MergePolicyOpts[keyof typeof MergePolicyOpts];
 
 
+/**
+ * A rule of a declarative merge policy. Only the fields used by the rule are read
+ * @export
+ * @interface MergePolicyRule
+ */
+export interface MergePolicyRule {
+    /**
+     * 
+     * @type {MergePolicyRuleType}
+     * @memberof MergePolicyRule
+     */
+    'rule': MergePolicyRuleType;
+    /**
+     * states the rule applies to (allowStates, denyStates, pruneStateFromView)
+     * @type {Array<string>}
+     * @memberof MergePolicyRule
+     */
+    'stateIds'?: Array<string>;
+    /**
+     * view the states are removed from (pruneStateFromView)
+     * @type {string}
+     * @memberof MergePolicyRule
+     */
+    'viewId'?: string;
+    /**
+     * name of a registered declarative merge policy whose rules are applied at this point (include)
+     * @type {string}
+     * @memberof MergePolicyRule
+     */
+    'policyName'?: string;
+}
+
+
+/**
+ * rule of a declarative merge policy
+ * @export
+ * @enum {string}
+ */
+
+export const MergePolicyRuleType = {
+    Union: 'union',
+    Intersection: 'intersection',
+    LastWriterWins: 'lastWriterWins',
+    AllowStates: 'allowStates',
+    DenyStates: 'denyStates',
+    PruneStateFromView: 'pruneStateFromView',
+    Include: 'include'
+} as const;
+
+export type MergePolicyRuleType = typeof MergePolicyRuleType[keyof typeof MergePolicyRuleType];
+
+
 /**
  * This is the input for a mergeViewRequest
  * @export
@@ -156,6 +322,18 @@ export interface MergeViewsRequest {
      * @memberof MergeViewsRequest
      */
     'policyArguments'?: Array<string>;
+    /**
+     * name of the declarative policy to apply, when mergePolicy is declarative. If mergePolicyDefinition is also given, it is registered under this name
+     * @type {string}
+     * @memberof MergeViewsRequest
+     */
+    'mergePolicyName'?: string;
+    /**
+     * 
+     * @type {MergePolicyDefinition}
+     * @memberof MergeViewsRequest
+     */
+    'mergePolicyDefinition'?: MergePolicyDefinition;
 }
 
 
@@ -178,6 +356,25 @@ export interface MergeViewsResponse {
      */
     'signature'?: string;
 }
+/**
+ * Declarative privacy policy, its rules are applied to the view in order
+ * @export
+ * @interface PrivacyPolicyDefinition
+ */
+export interface PrivacyPolicyDefinition {
+    /**
+     * 
+     * @type {string}
+     * @memberof PrivacyPolicyDefinition
+     */
+    'description'?: string;
+    /**
+     * 
+     * @type {Array<PrivacyPolicyRule>}
+     * @memberof PrivacyPolicyDefinition
+     */
+    'rules': Array<PrivacyPolicyRule>;
+}
 /**
  * identifier of the policy used to process a view
  * @export
@@ -186,12 +383,76 @@ export interface MergeViewsResponse {
 
 export const PrivacyPolicyOpts = {
     PruneState: 'pruneState',
-    SingleTransaction: 'singleTransaction'
+    SingleTransaction: 'singleTransaction',
+    Declarative: 'declarative'
 } as const;
 
 export type PrivacyPolicyOpts = typeof PrivacyPolicyOpts[keyof typeof PrivacyPolicyOpts];
 
 
+/**
+ * A rule of a declarative privacy policy. Only the fields used by the rule are read
+ * @export
+ * @interface PrivacyPolicyRule
+ */
+export interface PrivacyPolicyRule {
+    /**
+     * 
+     * @type {PrivacyPolicyRuleType}
+     * @memberof PrivacyPolicyRule
+     */
+    'rule': PrivacyPolicyRuleType;
+    /**
+     * states the rule applies to (allowStates, denyStates, and optionally redactFields and hashValues)
+     * @type {Array<string>}
+     * @memberof PrivacyPolicyRule
+     */
+    'stateIds'?: Array<string>;
+    /**
+     * fields to redact from the values and payloads, dot separated for nested fields (redactFields)
+     * @type {Array<string>}
+     * @memberof PrivacyPolicyRule
+     */
+    'fields'?: Array<string>;
+    /**
+     * start of the time window, unix timestamp (timeWindow)
+     * @type {string}
+     * @memberof PrivacyPolicyRule
+     */
+    'tI'?: string;
+    /**
+     * end of the time window, unix timestamp (timeWindow)
+     * @type {string}
+     * @memberof PrivacyPolicyRule
+     */
+    'tF'?: string;
+    /**
+     * name of a registered declarative privacy policy whose rules are applied at this point (include)
+     * @type {string}
+     * @memberof PrivacyPolicyRule
+     */
+    'policyName'?: string;
+}
+
+
+/**
+ * rule of a declarative privacy policy
+ * @export
+ * @enum {string}
+ */
+
+export const PrivacyPolicyRuleType = {
+    AllowStates: 'allowStates',
+    DenyStates: 'denyStates',
+    TimeWindow: 'timeWindow',
+    RedactFields: 'redactFields',
+    HashValues: 'hashValues',
+    Include: 'include'
+} as const;
+
+export type PrivacyPolicyRuleType = typeof PrivacyPolicyRuleType[keyof typeof PrivacyPolicyRuleType];
+
+
 /**
  * This is the input for a mergeViewRequest
  * @export
@@ -216,6 +477,18 @@ export interface ProcessViewRequest {
      * @memberof ProcessViewRequest
      */
     'policyArguments': Array<string>;
+    /**
+     * name of the declarative policy to apply, when policyId is declarative. If policyDefinition is also given, it is registered under this name
+     * @type {string}
+     * @memberof ProcessViewRequest
+     */
+    'policyName'?: string;
+    /**
+     * 
+     * @type {PrivacyPolicyDefinition}
+     * @memberof ProcessViewRequest
+     */
+    'policyDefinition'?: PrivacyPolicyDefinition;
 }
 
 
@@ -258,6 +531,42 @@ export interface VerifyMerkleRootResponse {
  */
 export const DefaultApiAxiosParamCreator = function (configuration?: Configuration) {
     return {
+        /**
+         * 
+         * @summary Verifies a view or integrated view and signs an attestation of its content
+         * @param {AttestViewRequest} attestViewRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        attestViewV1: async (attestViewRequest: AttestViewRequest, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'attestViewRequest' is not null or undefined
+            assertParamExists('attestViewV1', 'attestViewRequest', attestViewRequest)
+            const localVarPath = `/api/v1/plugins/@hyperledger/cactus-plugin-bungee-hermes/attest-view`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(attestViewRequest, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
         /**
          * 
          * @summary Creates a Blockchain View.
@@ -294,6 +603,42 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
                 options: localVarRequestOptions,
             };
         },
+        /**
+         * 
+         * @summary Creates a signed diff of two stored snapshots of the same network
+         * @param {DiffViewsRequest} diffViewsRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        diffViewsV1: async (diffViewsRequest: DiffViewsRequest, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'diffViewsRequest' is not null or undefined
+            assertParamExists('diffViewsV1', 'diffViewsRequest', diffViewsRequest)
+            const localVarPath = `/api/v1/plugins/@hyperledger/cactus-plugin-bungee-hermes/diff-views`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(diffViewsRequest, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
         /**
          * 
          * @summary Queries plugin\'s available strategies for ledger capture
@@ -472,6 +817,17 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
 export const DefaultApiFp = function(configuration?: Configuration) {
     const localVarAxiosParamCreator = DefaultApiAxiosParamCreator(configuration)
     return {
+        /**
+         * 
+         * @summary Verifies a view or integrated view and signs an attestation of its content
+         * @param {AttestViewRequest} attestViewRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async attestViewV1(attestViewRequest: AttestViewRequest, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<AttestViewResponse>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.attestViewV1(attestViewRequest, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * 
          * @summary Creates a Blockchain View.
@@ -483,6 +839,17 @@ export const DefaultApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.createViewV1(createViewRequest, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * 
+         * @summary Creates a signed diff of two stored snapshots of the same network
+         * @param {DiffViewsRequest} diffViewsRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async diffViewsV1(diffViewsRequest: DiffViewsRequest, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<DiffViewsResponse>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.diffViewsV1(diffViewsRequest, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * 
          * @summary Queries plugin\'s available strategies for ledger capture
@@ -546,6 +913,16 @@ export const DefaultApiFp = function(configuration?: Configuration) {
 export const DefaultApiFactory = function (configuration?: Configuration, basePath?: string, axios?: AxiosInstance) {
     const localVarFp = DefaultApiFp(configuration)
     return {
+        /**
+         * 
+         * @summary Verifies a view or integrated view and signs an attestation of its content
+         * @param {AttestViewRequest} attestViewRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        attestViewV1(attestViewRequest: AttestViewRequest, options?: any): AxiosPromise<AttestViewResponse> {
+            return localVarFp.attestViewV1(attestViewRequest, options).then((request) => request(axios, basePath));
+        },
         /**
          * 
          * @summary Creates a Blockchain View.
@@ -556,6 +933,16 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
         createViewV1(createViewRequest: CreateViewRequest, options?: any): AxiosPromise<CreateViewResponse> {
             return localVarFp.createViewV1(createViewRequest, options).then((request) => request(axios, basePath));
         },
+        /**
+         * 
+         * @summary Creates a signed diff of two stored snapshots of the same network
+         * @param {DiffViewsRequest} diffViewsRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        diffViewsV1(diffViewsRequest: DiffViewsRequest, options?: any): AxiosPromise<DiffViewsResponse> {
+            return localVarFp.diffViewsV1(diffViewsRequest, options).then((request) => request(axios, basePath));
+        },
         /**
          * 
          * @summary Queries plugin\'s available strategies for ledger capture
@@ -614,6 +1001,18 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
  * @extends {BaseAPI}
  */
 export class DefaultApi extends BaseAPI {
+    /**
+     * 
+     * @summary Verifies a view or integrated view and signs an attestation of its content
+     * @param {AttestViewRequest} attestViewRequest 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public attestViewV1(attestViewRequest: AttestViewRequest, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).attestViewV1(attestViewRequest, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * 
      * @summary Creates a Blockchain View.
@@ -626,6 +1025,18 @@ export class DefaultApi extends BaseAPI {
         return DefaultApiFp(this.configuration).createViewV1(createViewRequest, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * 
+     * @summary Creates a signed diff of two stored snapshots of the same network
+     * @param {DiffViewsRequest} diffViewsRequest 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public diffViewsV1(diffViewsRequest: DiffViewsRequest, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).diffViewsV1(diffViewsRequest, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * 
      * @summary Queries plugin\'s available strategies for ledger capture
@@ -24,11 +24,17 @@ import { Optional } from "typescript-optional";
 import { Server } from "http";
 import { Server as SecureServer } from "https";
 import {
+  AttestViewRequest,
+  AttestViewResponse,
   CreateViewRequest,
   CreateViewResponse,
+  DiffViewsRequest,
+  DiffViewsResponse,
+  MergePolicyDefinition,
   MergePolicyOpts,
   MergeViewsRequest,
   MergeViewsResponse,
+  PrivacyPolicyDefinition,
   PrivacyPolicyOpts,
   ProcessViewRequest,
 } from "./generated/openapi/typescript-axios";
@@ -36,6 +42,7 @@ import { Snapshot } from "./view-creation/snapshot";
 import { View } from "./view-creation/view";
 import { IntegratedView } from "./view-merging/integrated-view";
 import {
+  isIncrementalLedgerStrategy,
   NetworkDetails,
   ObtainLedgerStrategy,
 } from "./strategy/obtain-ledger-strategy";
@@ -44,23 +51,54 @@ import { GetPublicKeyEndpointV1 } from "./web-services/get-public-key-endpoint";
 import { GetAvailableStrategiesEndpointV1 } from "./web-services/get-available-strategies-endpoint";
 import MerkleTree from "merkletreejs";
 import { VerifyMerkleRootEndpointV1 } from "./web-services/verify-merkle-root-endpoint";
-import { MergePolicies } from "./view-merging/merge-policies";
-import { deserializeView } from "./utils";
+import {
+  isMergePolicyDefinition,
+  MergePolicies,
+} from "./view-merging/merge-policies";
+import { deserializeSnapshot, deserializeView } from "./utils";
 import { MergeViewsEndpointV1 } from "./web-services/merge-views-endpoint";
 import { ProcessViewEndpointV1 } from "./web-services/process-view-endpoint";
+import { DiffViewsEndpointV1 } from "./web-services/diff-views-endpoint";
+import {
+  InMemorySnapshotStore,
+  ISnapshotStore,
+  snapshotNetworkKey,
+} from "./view-creation/snapshot-store";
+import { ViewDiff } from "./view-creation/view-diff";
 
-import { PrivacyPolicies } from "./view-creation/privacy-policies";
+import {
+  isPrivacyPolicyDefinition,
+  PrivacyPolicies,
+} from "./view-creation/privacy-policies";
 import { PluginRegistry } from "@hyperledger/cactus-core";
+import { AttestViewEndpointV1 } from "./web-services/attest-view-endpoint";
+import { ViewVerifier } from "./verification/view-verifier";
+import {
+  integratedViewAttestationPayload,
+  IViewAttestation,
+  viewAttestationPayload,
+} from "./verification/attestation";
 
 export interface IKeyPair {
   publicKey: Uint8Array;
   privateKey: Uint8Array;
 }
 
+export interface IViewAsOf {
+  // unix timestamp, in seconds
+  timestamp?: string;
+  blockNumber?: string;
+}
+
 export interface IPluginBungeeHermesOptions extends ICactusPluginOptions {
   instanceId: string;
   readonly pluginRegistry: PluginRegistry;
   keyPair?: IKeyPair;
+  // where incremental snapshots are kept, in memory by default
+  snapshotStore?: ISnapshotStore;
+  // public keys of the other instances whose views this instance attests,
+  // besides its own
+  trustedViewSigners?: string[];
 
   logLevel?: LogLevelDesc;
 
@@ -80,6 +118,9 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
 
   private strategies: Map<string, ObtainLedgerStrategy>;
 
+  private snapshotStore: ISnapshotStore;
+  private trustedViewSigners: string[];
+
   private mergePolicies: MergePolicies = new MergePolicies();
 
   private viewPrivacyPolicies: PrivacyPolicies = new PrivacyPolicies();
@@ -94,6 +135,8 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
 
     this.level = options.logLevel || "INFO";
     this.strategies = new Map<string, ObtainLedgerStrategy>();
+    this.snapshotStore = options.snapshotStore ?? new InMemorySnapshotStore();
+    this.trustedViewSigners = options.trustedViewSigners ?? [];
 
     const label = this.className;
     const level = this.level;
@@ -183,6 +226,12 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
     const processViewEndpoint = new ProcessViewEndpointV1({
       bungee: this,
     });
+    const diffViewsEndpoint = new DiffViewsEndpointV1({
+      bungee: this,
+    });
+    const attestViewEndpoint = new AttestViewEndpointV1({
+      bungee: this,
+    });
 
     this.endpoints = [
       viewEndpoint,
@@ -191,6 +240,8 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
       verifyMerkleProofEndpoint,
       mergeViewsEndpoint,
       processViewEndpoint,
+      diffViewsEndpoint,
+      attestViewEndpoint,
     ];
     return this.endpoints;
   }
@@ -226,7 +277,19 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
       signature,
       policy: view.getPolicy(),
     };
-    this.processView(view, request.policyId, request.policyArguments);
+    if (request.policyId == PrivacyPolicyOpts.Declarative) {
+      //a named definition is registered, so later requests can use the name
+      if (request.policyDefinition && request.policyName) {
+        this.addPrivacyPolicy(request.policyName, request.policyDefinition);
+      }
+      const policy = request.policyName ?? request.policyDefinition;
+      if (policy == undefined) {
+        throw Error("A declarative policy needs a name or a definition");
+      }
+      this.processViewDeclarative(view, policy);
+    } else {
+      this.processView(view, request.policyId, request.policyArguments);
+    }
     view.addPrevVersionMetadata(prevVersionMetadata);
     view.setCreator(this.pubKeyBungee);
     view.setKey(uuidV4());
@@ -260,12 +323,32 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
       signatures.push(parsed.signature);
       views.push(deserializeView(view));
     });
-    const integratedView = this.mergeViews(
-      views,
-      signatures,
-      policy,
-      request.policyArguments ? request.policyArguments : [],
-    );
+    let integratedView: { integratedView: IntegratedView; signature: string };
+    if (policy == MergePolicyOpts.Declarative) {
+      if (request.mergePolicyDefinition && request.mergePolicyName) {
+        this.addMergePolicy(
+          request.mergePolicyName,
+          request.mergePolicyDefinition,
+        );
+      }
+      const declarativePolicy =
+        request.mergePolicyName ?? request.mergePolicyDefinition;
+      if (declarativePolicy == undefined) {
+        throw Error("A declarative policy needs a name or a definition");
+      }
+      integratedView = this.mergeViewsDeclarative(
+        views,
+        signatures,
+        declarativePolicy,
+      );
+    } else {
+      integratedView = this.mergeViews(
+        views,
+        signatures,
+        policy,
+        request.policyArguments ? request.policyArguments : [],
+      );
+    }
     return {
       integratedView: safeStableStringify(integratedView),
       signature: integratedView.signature,
@@ -279,16 +362,40 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
       : Number.MAX_SAFE_INTEGER.toString();
     const stateIds: string[] = request.stateIds ? request.stateIds : [];
 
-    const snapshot = await this.generateSnapshot(
-      stateIds,
-      request.strategyId,
-      request.networkDetails,
-    );
+    const snapshot = request.incremental
+      ? await this.generateIncrementalSnapshot(
+          stateIds,
+          request.strategyId,
+          request.networkDetails,
+        )
+      : await this.generateSnapshot(
+          stateIds,
+          request.strategyId,
+          request.networkDetails,
+        );
+    const snapshotId = request.incremental ? snapshot.getId() : undefined;
     this.logger.info("Generating view for request: ", request);
-    const response = this.generateView(snapshot, ti, tf, request.viewID);
+    const response = request.asOfBlock
+      ? this.generateViewAsOf(
+          snapshot,
+          { blockNumber: request.asOfBlock },
+          request.viewID,
+        )
+      : this.generateView(snapshot, ti, tf, request.viewID);
     return {
       view: safeStableStringify(response.view),
       signature: response.signature,
+      snapshotId,
+    };
+  }
+
+  async onDiffViews(request: DiffViewsRequest): Promise<DiffViewsResponse> {
+    const from = await this.getPersistedSnapshot(request.fromSnapshotId);
+    const to = await this.getPersistedSnapshot(request.toSnapshotId);
+    const response = this.generateViewDiff(from, to, request.viewID);
+    return {
+      viewDiff: safeStableStringify(response.viewDiff),
+      signature: response.signature,
     };
   }
 
@@ -313,6 +420,50 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
     return { view: view, signature: signature };
   }
 
+  /**
+   * Reconstructs the view of the states as they were at a past timestamp or
+   * block. The given snapshot is left untouched, and the states created
+   * after that point are left out of the view.
+   */
+  public generateViewAsOf(
+    snapshot: Snapshot,
+    asOf: IViewAsOf,
+    id: string | undefined,
+  ): { view?: View; signature?: string } {
+    if (asOf.timestamp == undefined && asOf.blockNumber == undefined) {
+      throw new Error("Either a timestamp or a block number must be given");
+    }
+    const past = deserializeSnapshot(snapshot.getSnapshotJson());
+    if (asOf.blockNumber != undefined) {
+      past.pruneStatesAtBlock(asOf.blockNumber);
+    }
+    if (asOf.timestamp != undefined) {
+      past.pruneStates("0", asOf.timestamp);
+    }
+    past.removeEmptyStates();
+    if (past.getStateBins().length == 0) {
+      return {};
+    }
+    return this.generateView(
+      past,
+      past.getTI(),
+      asOf.timestamp ?? past.getTF(),
+      id,
+    );
+  }
+
+  public generateViewDiff(
+    from: Snapshot,
+    to: Snapshot,
+    id: string | undefined,
+  ): { viewDiff: ViewDiff; signature: string } {
+    const viewDiff = new ViewDiff(this.pubKeyBungee, from, to, id);
+    return {
+      viewDiff,
+      signature: this.sign(safeStableStringify(viewDiff)),
+    };
+  }
+
   sign(msg: string): string {
     this.logger.info(this.bungeeSigner.dataHash(msg));
     return Buffer.from(this.bungeeSigner.sign(msg)).toString("hex");
@@ -351,6 +502,134 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
     return snapshot;
   }
 
+  /**
+   * Like generateSnapshot, but resumes from the latest stored snapshot of the
+   * same network and states: strategies that support it only read the ledger
+   * after the stored cursor, and the result is stored for the next call.
+   */
+  public async generateIncrementalSnapshot(
+    stateIds: string[],
+    strategyId: string,
+    networkDetails: NetworkDetails,
+  ): Promise<Snapshot> {
+    const strategy = this.getStrategy(strategyId);
+    if (strategy == undefined) {
+      throw new Error("Strategy " + strategyId + " is undefined/unsupported");
+    }
+
+    const network = snapshotNetworkKey(networkDetails);
+    let snapshot: Snapshot;
+    let cursor: string | undefined;
+    if (!isIncrementalLedgerStrategy(strategy)) {
+      this.log.debug(
+        `Strategy ${strategyId} keeps no cursor, capturing the full history`,
+      );
+      snapshot = await this.generateSnapshot(
+        stateIds,
+        strategyId,
+        networkDetails,
+      );
+    } else {
+      const previous = await this.snapshotStore.getLatest(
+        strategyId,
+        network,
+        networkDetails.participant,
+        stateIds,
+      );
+      const delta = await strategy.generateLedgerStatesSince(
+        stateIds,
+        networkDetails,
+        previous?.cursor,
+      );
+      const states = previous
+        ? deserializeSnapshot(previous.snapshot).getStateBins()
+        : [];
+      for (const [key, state] of delta.ledgerStates) {
+        if (stateIds.length > 0 && !stateIds.includes(key)) {
+          continue;
+        }
+        const known = states.find((s) => s.getId() === key);
+        if (known) {
+          known.appendHistory(state);
+        } else {
+          states.push(state);
+        }
+      }
+      snapshot = new Snapshot(uuidV4(), networkDetails.participant, states);
+      snapshot.update_TI_TF();
+      cursor = delta.cursor;
+    }
+
+    await this.snapshotStore.save({
+      snapshotId: snapshot.getId(),
+      strategyId,
+      network,
+      participant: networkDetails.participant,
+      stateIds: [...stateIds].sort(),
+      cursor,
+      createdAt: Math.floor(Date.now() / 1000).toString(),
+      snapshot: snapshot.getSnapshotJson(),
+    });
+    return snapshot;
+  }
+
+  onAttestView(request: AttestViewRequest): AttestViewResponse {
+    return this.attestView(request.serializedView);
+  }
+
+  /**
+   * Verifies an exported view or integrated view and, if it was signed by this
+   * instance or one of the trustedViewSigners and every check passes, signs
+   * its content. Attestations of several instances can then be checked
+   * against a threshold by ViewVerifier, without trusting a single key.
+   */
+  public attestView(serializedView: string): IViewAttestation {
+    const verifier = new ViewVerifier({ logLevel: this.level });
+    let report = verifier.verify(serializedView, {
+      signerPublicKey: this.pubKeyBungee,
+    });
+    for (const signerPublicKey of this.trustedViewSigners) {
+      if (report.valid) {
+        break;
+      }
+      report = verifier.verify(serializedView, { signerPublicKey });
+    }
+    if (!report.valid) {
+      const failed = report.checks
+        .filter((check) => ["failed", "untrusted"].includes(check.status))
+        .map((check) => check.name);
+      this.log.info(`Refusing to attest ${report.id}: ${failed.join(", ")}`);
+      throw Error(
+        "The provided view failed verification: " + failed.join(", "),
+      );
+    }
+    let payload: string;
+    if (report.kind == "view") {
+      payload = viewAttestationPayload(
+        JSON.parse(JSON.parse(serializedView).view),
+      );
+    } else {
+      let parsed = JSON.parse(serializedView);
+      if (typeof parsed.integratedView === "string") {
+        parsed = JSON.parse(parsed.integratedView);
+      }
+      payload = integratedViewAttestationPayload(parsed.integratedView);
+    }
+    return {
+      attester: this.pubKeyBungee,
+      signature: this.sign(payload),
+    };
+  }
+
+  // returns a copy, views created from it do not alter the stored snapshot
+  public async getPersistedSnapshot(snapshotId: string): Promise<Snapshot> {
+    const record = await this.snapshotStore.getById(snapshotId);
+    if (record == undefined) {
+      throw new Error("Snapshot " + snapshotId + " not found");
+    }
+    return deserializeSnapshot(record.snapshot);
+  }
+
   public verifyMerkleProof(input: string[], root: string): boolean {
     const tree = new MerkleTree(input, undefined, {
       sort: true,
@@ -372,6 +651,55 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
       policy,
       this.bungeeSigner,
     );
+    this.integrateViews(integratedView, views, signatures);
+    if (policy) {
+      integratedView = policy(integratedView, ...args);
+    }
+    integratedView.setIntegratedViewProof();
+    return {
+      integratedView: integratedView,
+      //The paper specs suggest the integratedView should be jointly signed by all participants.
+      //That process is left to be addressed in the future
+      signature: this.sign(safeStableStringify(integratedView)),
+    };
+  }
+
+  /**
+   * Merges views with a declarative merge policy, given by its definition or
+   * by the name it was registered with.
+   */
+  public mergeViewsDeclarative(
+    views: View[],
+    signatures: string[],
+    policy: MergePolicyDefinition | string,
+  ): { integratedView: IntegratedView; signature: string } {
+    const definition = this.mergePolicies.resolvePolicyDefinition(
+      this.getMergePolicyDefinition(policy),
+    );
+    const integratedView = new IntegratedView(
+      MergePolicyOpts.Declarative,
+      undefined,
+      this.bungeeSigner,
+    );
+    integratedView.setDeclarativeMergePolicy(
+      definition,
+      typeof policy === "string" ? policy : undefined,
+      this.bungeeSigner,
+    );
+    this.integrateViews(integratedView, views, signatures);
+    this.mergePolicies.applyPolicyDefinition(integratedView, definition);
+    integratedView.setIntegratedViewProof();
+    return {
+      integratedView: integratedView,
+      signature: this.sign(safeStableStringify(integratedView)),
+    };
+  }
+
+  private integrateViews(
+    integratedView: IntegratedView,
+    views: View[],
+    signatures: string[],
+  ): void {
     for (const view of views) {
       if (!integratedView.isParticipant(view.getParticipant())) {
         integratedView.addParticipant(view.getParticipant());
@@ -407,16 +735,6 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
         }
       }
     }
-    if (policy) {
-      integratedView = policy(integratedView, ...args);
-    }
-    integratedView.setIntegratedViewProof();
-    return {
-      integratedView: integratedView,
-      //The paper specs suggest the integratedView should be jointly signed by all participants.
-      //That process is left to be addressed in the future
-      signature: this.sign(safeStableStringify(integratedView)),
-    };
   }
 
   public processView(
@@ -433,6 +751,71 @@ export class PluginBungeeHermes implements ICactusPlugin, IPluginWebService {
     return view;
   }
 
+  /**
+   * Processes a view with a declarative privacy policy, given by its
+   * definition or by the name it was registered with. The view records the
+   * resolved definition and its hash, so the result can be reproduced.
+   */
+  public processViewDeclarative(
+    view: View,
+    policy: PrivacyPolicyDefinition | string,
+  ): View {
+    const definition = this.viewPrivacyPolicies.resolvePolicyDefinition(
+      this.getPrivacyPolicyDefinition(policy),
+    );
+    view = this.viewPrivacyPolicies.applyPolicyDefinition(view, definition);
+    view.setDeclarativePrivacyPolicy(
+      definition,
+      typeof policy === "string" ? policy : undefined,
+      this.bungeeSigner,
+    );
+    view.updateViewProof();
+    return view;
+  }
+
+  public addPrivacyPolicy(
+    name: string,
+    definition: PrivacyPolicyDefinition,
+  ): void {
+    this.viewPrivacyPolicies.addPolicyDefinition(name, definition);
+  }
+
+  public addMergePolicy(name: string, definition: MergePolicyDefinition): void {
+    this.mergePolicies.addPolicyDefinition(name, definition);
+  }
+
+  private getPrivacyPolicyDefinition(
+    policy: PrivacyPolicyDefinition | string,
+  ): PrivacyPolicyDefinition {
+    const definition =
+      typeof policy === "string"
+        ? this.viewPrivacyPolicies.getPolicyDefinition(policy)
+        : policy;
+    if (definition == undefined) {
+      throw new Error(`Privacy policy ${policy} is not registered`);
+    }
+    if (!isPrivacyPolicyDefinition(definition)) {
+      throw new Error("Invalid privacy policy definition");
+    }
+    return definition;
+  }
+
+  private getMergePolicyDefinition(
+    policy: MergePolicyDefinition | string,
+  ): MergePolicyDefinition {
+    const definition =
+      typeof policy === "string"
+        ? this.mergePolicies.getPolicyDefinition(policy)
+        : policy;
+    if (definition == undefined) {
+      throw new Error(`Merge policy ${policy} is not registered`);
+    }
+    if (!isMergePolicyDefinition(definition)) {
+      throw new Error("Invalid merge policy definition");
+    }
+    return definition;
+  }
+
   verifyViewSignature(
     signature: string,
     view: string,
@@ -1,14 +1,48 @@
 import { IPluginFactoryOptions } from "@hyperledger/cactus-core-api";
 import { PluginFactoryBungeeHermes } from "./plugin-factory-bungee-hermes";
 
-export { isMergePolicyValueArray } from "./view-merging/merge-policies";
-export { isPrivacyPolicyValueArray } from "./view-creation/privacy-policies";
+export {
+  composeMergePolicies,
+  isMergePolicyDefinition,
+  isMergePolicyValueArray,
+} from "./view-merging/merge-policies";
+export {
+  composePrivacyPolicies,
+  isPrivacyPolicyDefinition,
+  isPrivacyPolicyValueArray,
+} from "./view-creation/privacy-policies";
 
 export {
   PluginBungeeHermes,
   IPluginBungeeHermesOptions,
+  IViewAsOf,
 } from "./plugin-bungee-hermes";
 
+export {
+  InMemorySnapshotStore,
+  ISnapshotRecord,
+  ISnapshotStore,
+  snapshotNetworkKey,
+} from "./view-creation/snapshot-store";
+
+export { FileSnapshotStore } from "./view-creation/file-snapshot-store";
+
+export {
+  IEndorsement,
+  IEndorsementVerifier,
+  IVerificationCheck,
+  IVerificationReport,
+  IVerifyOptions,
+  IViewVerifierOptions,
+  VerificationStatus,
+  ViewVerifier,
+} from "./verification/view-verifier";
+export {
+  integratedViewAttestationPayload,
+  IViewAttestation,
+  viewAttestationPayload,
+} from "./verification/attestation";
+
 export async function createBungeePluginFactory(
   pluginFactoryOptions: IPluginFactoryOptions,
 ): Promise<PluginFactoryBungeeHermes> {
@@ -15,3 +15,28 @@ export interface ObtainLedgerStrategy {
     networkDetails: NetworkDetails,
   ): Promise<Map<string, State>>;
 }
+
+export interface LedgerStatesDelta {
+  // states holding only the transactions found after the given cursor
+  ledgerStates: Map<string, State>;
+  // strategy specific position of the last processed ledger data, handed back
+  // on the next call
+  cursor: string;
+}
+
+export interface IncrementalLedgerStrategy extends ObtainLedgerStrategy {
+  generateLedgerStatesSince(
+    stateIds: string[],
+    networkDetails: NetworkDetails,
+    cursor: string | undefined,
+  ): Promise<LedgerStatesDelta>;
+}
+
+export function isIncrementalLedgerStrategy(
+  strategy: ObtainLedgerStrategy,
+): strategy is IncrementalLedgerStrategy {
+  return (
+    typeof (strategy as IncrementalLedgerStrategy).generateLedgerStatesSince ===
+    "function"
+  );
+}
@@ -1,4 +1,8 @@
-import { NetworkDetails, ObtainLedgerStrategy } from "./obtain-ledger-strategy";
+import {
+  IncrementalLedgerStrategy,
+  LedgerStatesDelta,
+  NetworkDetails,
+} from "./obtain-ledger-strategy";
 import {
   Checks,
   LogLevelDesc,
@@ -35,7 +39,7 @@ export interface BesuNetworkDetails extends NetworkDetails {
   contractAddress: string;
 }
 
-export class StrategyBesu implements ObtainLedgerStrategy {
+export class StrategyBesu implements IncrementalLedgerStrategy {
   public static readonly CLASS_NAME = "StrategyBesu";
 
   public log: Logger;
@@ -54,6 +58,65 @@ export class StrategyBesu implements ObtainLedgerStrategy {
     this.log.debug(`Generating ledger snapshot`);
     Checks.truthy(networkDetails, `${fn} networkDetails`);
 
+    const connectorOrApiClient = this.getConnectorOrApiClient(networkDetails);
+    return this.captureLedgerStates(
+      stateIds,
+      networkDetails,
+      connectorOrApiClient,
+      "earliest",
+      "latest",
+    );
+  }
+
+  /**
+   * The cursor is the number of the last block read. Logs are read up to the
+   * block that is the latest when the call starts, and the ones committed
+   * meanwhile are picked up by the next call.
+   */
+  public async generateLedgerStatesSince(
+    stateIds: string[],
+    networkDetails: BesuNetworkDetails,
+    cursor: string | undefined,
+  ): Promise<LedgerStatesDelta> {
+    const fn = `${StrategyBesu.CLASS_NAME}#generateLedgerStatesSince()`;
+    this.log.debug(`Generating ledger snapshot since block ${cursor}`);
+    Checks.truthy(networkDetails, `${fn} networkDetails`);
+
+    const connectorOrApiClient = this.getConnectorOrApiClient(networkDetails);
+    const latestBlock = await this.getBlock(
+      { blockHashOrBlockNumber: "latest" } as GetBlockV1Request,
+      connectorOrApiClient,
+    );
+    if (latestBlock.number == undefined) {
+      throw new InternalServerError(`${fn} latest block has no number`);
+    }
+    const fromBlock = cursor == undefined ? 0 : parseInt(cursor) + 1;
+    if (fromBlock > latestBlock.number) {
+      return { ledgerStates: new Map<string, State>(), cursor: cursor ?? "" };
+    }
+    const ledgerStates = await this.captureLedgerStates(
+      stateIds,
+      networkDetails,
+      connectorOrApiClient,
+      fromBlock,
+      latestBlock.number,
+    );
+    // assets untouched in the block range have nothing to add
+    for (const [assetKey, state] of ledgerStates) {
+      if (state.getTransactions().length == 0) {
+        ledgerStates.delete(assetKey);
+      }
+    }
+    return {
+      ledgerStates,
+      cursor: latestBlock.number.toString(),
+    };
+  }
+
+  getConnectorOrApiClient(
+    networkDetails: BesuNetworkDetails,
+  ): PluginLedgerConnectorBesu | BesuApi {
+    const fn = `${StrategyBesu.CLASS_NAME}#getConnectorOrApiClient()`;
     let besuApi: BesuApi | undefined;
     let connector: PluginLedgerConnectorBesu | undefined;
 
@@ -73,6 +136,16 @@ export class StrategyBesu implements ObtainLedgerStrategy {
     if (!connectorOrApiClient) {
       throw new InternalServerError(`${fn} got neither connector nor BesuAPI`);
     }
+    return connectorOrApiClient;
+  }
+
+  async captureLedgerStates(
+    stateIds: string[],
+    networkDetails: BesuNetworkDetails,
+    connectorOrApiClient: PluginLedgerConnectorBesu | BesuApi,
+    fromBlock: number | string,
+    toBlock: number | string,
+  ): Promise<Map<string, State>> {
     const ledgerStates = new Map<string, State>();
     const assetsKey =
       stateIds.length == 0
@@ -84,6 +157,8 @@ export class StrategyBesu implements ObtainLedgerStrategy {
         assetKey,
         networkDetails,
         connectorOrApiClient,
+        fromBlock,
+        toBlock,
       );
 
       const state = new State(assetKey, values, transactions);
@@ -135,14 +210,16 @@ export class StrategyBesu implements ObtainLedgerStrategy {
     key: string,
     networkDetails: BesuNetworkDetails,
     connectorOrApiClient: PluginLedgerConnectorBesu | BesuApi,
+    fromBlock: number | string = "earliest",
+    toBlock: number | string = "latest",
   ): Promise<{
     transactions: Transaction[];
     values: string[];
     blocks: Map<string, EvmBlock>;
   }> {
     const req = {
-      fromBlock: "earliest",
-      toBlock: "latest",
+      fromBlock,
+      toBlock,
       address: networkDetails.contractAddress,
       topics: [[null], [Web3.utils.keccak256(key)]], //filter logs by asset key
     };
@@ -184,6 +261,7 @@ export class StrategyBesu implements ObtainLedgerStrategy {
         new TransactionProof(proof, log.transactionHash),
       );
       transaction.setStateId(key);
+      transaction.setBlockNumber(log.blockNumber.toString());
       transaction.setTarget(networkDetails.contractAddress as string);
       transaction.setPayload(txTx.input ? txTx.input : ""); //FIXME: payload = transaction input ?
       transactions.push(transaction);
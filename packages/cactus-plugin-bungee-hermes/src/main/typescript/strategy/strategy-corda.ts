@@ -0,0 +1,222 @@
+import {
+  Configuration,
+  DefaultApi as CordaApi,
+  PluginLedgerConnectorCorda,
+} from "@hyperledger/cactus-plugin-ledger-connector-corda";
+import { NetworkDetails, ObtainLedgerStrategy } from "./obtain-ledger-strategy";
+import {
+  Checks,
+  LogLevelDesc,
+  Logger,
+  LoggerProvider,
+} from "@hyperledger/cactus-common";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { Transaction } from "../view-creation/transaction";
+import { State } from "../view-creation/state";
+import { StateProof } from "../view-creation/state-proof";
+import { Proof } from "../view-creation/proof";
+import { TransactionProof } from "../view-creation/transaction-proof";
+import { BadRequestError, InternalServerError } from "http-errors-enhanced-cjs";
+
+export interface CordaNetworkDetails extends NetworkDetails {
+  // fully qualified class name of the ContractState to capture,
+  // e.g. net.corda.samples.example.states.IOUState
+  stateFullClassName: string;
+}
+
+// Vault.Page<ContractState> as serialized by the corda connector server
+interface CordaStateAndRef {
+  state: {
+    data: Record<string, unknown>;
+    notary: unknown;
+  };
+  ref: { txhash: unknown; index: number };
+}
+interface CordaStateMetadata {
+  ref: { txhash: unknown; index: number };
+  recordedTime: string | number;
+}
+interface CordaVaultPage {
+  states: CordaStateAndRef[];
+  statesMetadata: CordaStateMetadata[];
+}
+
+export class StrategyCorda implements ObtainLedgerStrategy {
+  public static readonly CLASS_NAME = "StrategyCorda";
+
+  public log: Logger;
+
+  constructor(level: LogLevelDesc) {
+    this.log = LoggerProvider.getOrCreate({
+      label: StrategyCorda.CLASS_NAME,
+      level,
+    });
+  }
+
+  public async generateLedgerStates(
+    stateIds: string[],
+    networkDetails: CordaNetworkDetails,
+  ): Promise<Map<string, State>> {
+    const fn = `${StrategyCorda.CLASS_NAME}#generateLedgerStates()`;
+    this.log.debug(`Generating ledger snapshot`);
+    Checks.truthy(networkDetails, `${fn} networkDetails`);
+    Checks.nonBlankString(
+      networkDetails.stateFullClassName,
+      `${fn} networkDetails.stateFullClassName`,
+    );
+
+    // the typescript connector only proxies the corda connector server, which
+    // is the one exposing the vault, so both options end up in an api client
+    let basePath: string | undefined;
+    if (networkDetails.connector) {
+      const connector = networkDetails.connector as PluginLedgerConnectorCorda;
+      basePath = connector.options.apiUrl;
+      if (!basePath) {
+        throw new BadRequestError(
+          `${fn} the corda connector was created without an apiUrl`,
+        );
+      }
+    } else if (networkDetails.connectorApiPath) {
+      basePath = networkDetails.connectorApiPath;
+    } else {
+      throw new Error(
+        `${fn} networkDetails must have either connector or connectorApiPath`,
+      );
+    }
+    const cordaApi = new CordaApi(new Configuration({ basePath }));
+
+    const page = await this.vaultQuery(networkDetails, cordaApi);
+
+    const ledgerStates = new Map<string, State>();
+    const txs = new Map<string, Transaction[]>();
+    const values = new Map<string, string[]>();
+    const notaries = new Map<string, string>();
+    page.states.forEach((stateAndRef, index) => {
+      const stateId = this.getStateId(stateAndRef);
+      if (stateIds.length > 0 && !stateIds.includes(stateId)) {
+        return;
+      }
+      const txHash = this.toText(stateAndRef.ref.txhash);
+      const notary = this.toText(stateAndRef.state.notary);
+      const transaction = new Transaction(
+        txHash,
+        this.toUnixSeconds(page.statesMetadata[index]?.recordedTime),
+        new TransactionProof(new Proof({ creator: notary }), txHash),
+      );
+      const participants = stateAndRef.state.data.participants;
+      if (Array.isArray(participants)) {
+        for (const participant of participants) {
+          transaction.addEndorser(
+            new Proof({ creator: this.toText(participant) }),
+          );
+        }
+      }
+      transaction.setStateId(stateId);
+      transaction.setTarget(networkDetails.stateFullClassName);
+      transaction.setPayload(safeStableStringify(stateAndRef.ref) ?? "");
+
+      txs.set(stateId, [...(txs.get(stateId) ?? []), transaction]);
+      values.set(stateId, [
+        ...(values.get(stateId) ?? []),
+        safeStableStringify(stateAndRef.state.data) ?? "",
+      ]);
+      notaries.set(stateId, notary);
+    });
+
+    for (const [stateId, transactions] of txs) {
+      const state = new State(
+        stateId,
+        values.get(stateId) as string[],
+        transactions,
+      );
+      const stateProof = new StateProof(
+        state.getValue(),
+        parseInt(state.getVersion()),
+        state.getId(),
+      );
+      // corda has no blocks, states are final once the notary signs the
+      // transaction that produced them
+      for (const tx of transactions) {
+        stateProof.addBlock({
+          blockHash: tx.getId(),
+          blockCreator: notaries.get(stateId) as string,
+          blockSigners: [],
+        });
+      }
+      state.setStateProof([stateProof]);
+      ledgerStates.set(stateId, state);
+    }
+    return ledgerStates;
+  }
+
+  async vaultQuery(
+    networkDetails: CordaNetworkDetails,
+    cordaApi: CordaApi,
+  ): Promise<CordaVaultPage> {
+    const fn = `${StrategyCorda.CLASS_NAME}#vaultQuery()`;
+    const response = await cordaApi.vaultQueryV1({
+      contractStateType: networkDetails.stateFullClassName,
+    });
+    if (!response) {
+      throw new InternalServerError(`${fn} response is falsy`);
+    }
+    if (!response.status) {
+      throw new InternalServerError(`${fn} response.status is falsy`);
+    }
+    const { status, data, statusText, config } = response;
+    if (response.status < 200 || response.status > 300) {
+      this.log.debug("CordaAPI non-2xx HTTP response:", data, status, config);
+      const errorMessage = `${fn} CordaAPI error status: ${status}: ${statusText}`;
+      throw new InternalServerError(errorMessage);
+    }
+    if (!data) {
+      throw new InternalServerError(`${fn} response.data is falsy`);
+    }
+    const page = data as CordaVaultPage;
+    if (!Array.isArray(page.states)) {
+      throw new InternalServerError(`${fn} data.states not an array`);
+    }
+    if (!Array.isArray(page.statesMetadata)) {
+      throw new InternalServerError(`${fn} data.statesMetadata not an array`);
+    }
+    return page;
+  }
+
+  // linear states keep their id across transactions, any other state is
+  // identified by the output that created it
+  getStateId(stateAndRef: CordaStateAndRef): string {
+    const linearId = stateAndRef.state.data.linearId as
+      | string
+      | { id: string }
+      | undefined;
+    if (typeof linearId === "string") {
+      return linearId;
+    } else if (linearId?.id) {
+      return linearId.id;
+    }
+    return `${this.toText(stateAndRef.ref.txhash)}:${stateAndRef.ref.index}`;
+  }
+
+  // hashes and parties are strings with the corda jackson support, the
+  // fallback keeps the proofs deterministic when they are not
+  toText(value: unknown): string {
+    if (typeof value === "string") {
+      return value;
+    }
+    return safeStableStringify(value) ?? "";
+  }
+
+  toUnixSeconds(time: string | number | undefined): string {
+    if (time === undefined) {
+      return "0";
+    }
+    if (typeof time === "number") {
+      return Math.floor(time).toString();
+    }
+    const parsed = Date.parse(time);
+    if (isNaN(parsed)) {
+      return Math.floor(parseFloat(time)).toString();
+    }
+    return Math.floor(parsed / 1000).toString();
+  }
+}
@@ -228,6 +228,7 @@ export class StrategyEthereum implements ObtainLedgerStrategy {
         new TransactionProof(proof, log.transactionHash),
       );
       transaction.setStateId(key);
+      transaction.setBlockNumber(String(log.blockNumber));
       transaction.setTarget(networkDetails.contractAddress as string);
       transaction.setPayload(txTx.data.input ? txTx.data.input : ""); //FIXME: payload = transaction input ?
       transactions.push(transaction);
@@ -6,7 +6,11 @@ import {
   RunTransactionRequest,
   PluginLedgerConnectorFabric,
 } from "@hyperledger/cactus-plugin-ledger-connector-fabric";
-import { NetworkDetails, ObtainLedgerStrategy } from "./obtain-ledger-strategy";
+import {
+  IncrementalLedgerStrategy,
+  LedgerStatesDelta,
+  NetworkDetails,
+} from "./obtain-ledger-strategy";
 import {
   Checks,
   LogLevelDesc,
@@ -26,7 +30,7 @@ export interface FabricNetworkDetails extends NetworkDetails {
   contractName: string;
   channelName: string;
 }
-export class StrategyFabric implements ObtainLedgerStrategy {
+export class StrategyFabric implements IncrementalLedgerStrategy {
   public static readonly CLASS_NAME = "StrategyFabric";
 
   public log: Logger;
@@ -46,6 +50,51 @@ export class StrategyFabric implements ObtainLedgerStrategy {
     this.log.debug(`Generating ledger snapshot`);
     Checks.truthy(networkDetails, `${fn} networkDetails`);
 
+    const connectorOrApiClient = this.getConnectorOrApiClient(networkDetails);
+    return this.captureLedgerStates(
+      stateIds,
+      networkDetails,
+      connectorOrApiClient,
+      undefined,
+    );
+  }
+
+  /**
+   * The cursor is the timestamp, in seconds, of the latest transaction read.
+   * The transactions of that same second are read again on the next call, as
+   * the key history has no finer position, and are dropped when merged into
+   * the previous snapshot.
+   */
+  public async generateLedgerStatesSince(
+    stateIds: string[],
+    networkDetails: FabricNetworkDetails,
+    cursor: string | undefined,
+  ): Promise<LedgerStatesDelta> {
+    const fn = `${StrategyFabric.CLASS_NAME}#generateLedgerStatesSince()`;
+    this.log.debug(`Generating ledger snapshot since ${cursor}`);
+    Checks.truthy(networkDetails, `${fn} networkDetails`);
+
+    const connectorOrApiClient = this.getConnectorOrApiClient(networkDetails);
+    const since = cursor == undefined ? BigInt(0) : BigInt(cursor);
+    const ledgerStates = await this.captureLedgerStates(
+      stateIds,
+      networkDetails,
+      connectorOrApiClient,
+      since,
+    );
+    let latest = since;
+    for (const state of ledgerStates.values()) {
+      if (BigInt(state.getFinalTime()) > latest) {
+        latest = BigInt(state.getFinalTime());
+      }
+    }
+    return { ledgerStates, cursor: latest.toString() };
+  }
+
+  getConnectorOrApiClient(
+    networkDetails: FabricNetworkDetails,
+  ): PluginLedgerConnectorFabric | FabricApi {
+    const fn = `${StrategyFabric.CLASS_NAME}#getConnectorOrApiClient()`;
     let fabricApi: FabricApi | undefined;
     let connector: PluginLedgerConnectorFabric | undefined;
 
@@ -69,6 +118,17 @@ export class StrategyFabric implements ObtainLedgerStrategy {
         `${fn} got neither connector nor FabricAPI`,
       );
     }
+    return connectorOrApiClient;
+  }
+
+  // only the transactions at or after `since` are captured, when given, and
+  // the keys without any are left out
+  async captureLedgerStates(
+    stateIds: string[],
+    networkDetails: FabricNetworkDetails,
+    connectorOrApiClient: PluginLedgerConnectorFabric | FabricApi,
+    since: bigint | undefined,
+  ): Promise<Map<string, State>> {
     const assetsKey =
       stateIds.length == 0
         ? (
@@ -81,11 +141,17 @@ export class StrategyFabric implements ObtainLedgerStrategy {
       const assetValues: string[] = [];
       const txWithTimeS: Transaction[] = [];
 
-      const txs = await this.getAllTxByKey(
+      let txs = await this.getAllTxByKey(
         networkDetails,
         assetKey,
         connectorOrApiClient,
       );
+      if (since != undefined) {
+        txs = txs.filter((tx) => BigInt(tx.getTimeStamp()) >= since);
+        if (txs.length == 0) {
+          continue;
+        }
+      }
       //For each tx get receipt
       let last_receipt;
       for (const tx of txs) {
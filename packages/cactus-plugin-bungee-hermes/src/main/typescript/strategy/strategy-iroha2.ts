@@ -0,0 +1,305 @@
+import { createHash } from "crypto";
+import {
+  DefaultApi as Iroha2Api,
+  Iroha2BaseConfig,
+  IrohaQuery,
+  PluginLedgerConnectorIroha2,
+  QueryRequestV1,
+} from "@hyperledger/cactus-plugin-ledger-connector-iroha2";
+import { NetworkDetails, ObtainLedgerStrategy } from "./obtain-ledger-strategy";
+import { Configuration } from "@hyperledger/cactus-core-api";
+import {
+  bigIntToDecimalStringReplacer,
+  Checks,
+  LogLevelDesc,
+  Logger,
+  LoggerProvider,
+} from "@hyperledger/cactus-common";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { Transaction } from "../view-creation/transaction";
+import { State } from "../view-creation/state";
+import { Block, StateProof } from "../view-creation/state-proof";
+import { Proof } from "../view-creation/proof";
+import { TransactionProof } from "../view-creation/transaction-proof";
+import { BadRequestError, InternalServerError } from "http-errors-enhanced-cjs";
+
+export interface Iroha2NetworkDetails extends NetworkDetails {
+  baseConfig: Iroha2BaseConfig;
+}
+
+// decoded data model objects, as returned by the connector query endpoint
+type IrohaJson = any;
+
+/**
+ * Captures Iroha 2 assets. The state ids are asset ids in the Iroha format
+ * (e.g. `rose#wonderland#alice@wonderland`) and the values of a state are the
+ * instructions of each committed transaction that touched the asset.
+ */
+export class StrategyIroha2 implements ObtainLedgerStrategy {
+  public static readonly CLASS_NAME = "StrategyIroha2";
+
+  public log: Logger;
+
+  constructor(level: LogLevelDesc) {
+    this.log = LoggerProvider.getOrCreate({
+      label: StrategyIroha2.CLASS_NAME,
+      level,
+    });
+  }
+
+  public async generateLedgerStates(
+    stateIds: string[],
+    networkDetails: Iroha2NetworkDetails,
+  ): Promise<Map<string, State>> {
+    const fn = `${StrategyIroha2.CLASS_NAME}#generateLedgerStates()`;
+    this.log.debug(`Generating ledger snapshot`);
+    Checks.truthy(networkDetails, `${fn} networkDetails`);
+    Checks.truthy(networkDetails.baseConfig, `${fn} networkDetails.baseConfig`);
+
+    let iroha2Api: Iroha2Api | undefined;
+    let connector: PluginLedgerConnectorIroha2 | undefined;
+
+    if (networkDetails.connector) {
+      connector = networkDetails.connector as PluginLedgerConnectorIroha2;
+    } else if (networkDetails.connectorApiPath) {
+      const config = new Configuration({
+        basePath: networkDetails.connectorApiPath,
+      });
+      iroha2Api = new Iroha2Api(config);
+    } else {
+      throw new Error(
+        `${fn} networkDetails must have either connector or connectorApiPath`,
+      );
+    }
+    const connectorOrApiClient = networkDetails.connector
+      ? connector
+      : iroha2Api;
+    if (!connectorOrApiClient) {
+      throw new InternalServerError(
+        `${fn} got neither connector nor Iroha2API`,
+      );
+    }
+
+    const assetsKey =
+      stateIds.length == 0
+        ? await this.getAllAssetsKey(networkDetails, connectorOrApiClient)
+        : stateIds;
+    this.log.debug("Current assets detected to capture: " + assetsKey);
+
+    const blocks: IrohaJson[] = await this.query(
+      networkDetails,
+      IrohaQuery.FindAllBlocks,
+      connectorOrApiClient,
+    );
+    blocks.sort((a, b) =>
+      Number(BigInt(a.header.height) - BigInt(b.header.height)),
+    );
+
+    const ledgerStates = new Map<string, State>();
+    for (const assetKey of assetsKey) {
+      const transactions: Transaction[] = [];
+      const values: string[] = [];
+      const stateBlocks: Block[] = [];
+      for (const block of blocks) {
+        // commit time, in seconds like the other ledgers
+        const timeStamp = (
+          BigInt(block.header.timestamp) / BigInt(1000)
+        ).toString();
+        for (const committed of block.transactions ?? []) {
+          const signedTx = this.unwrapSignedTransaction(committed);
+          const instructions = this.getInstructions(signedTx).filter((i) =>
+            this.touchesAsset(i, assetKey),
+          );
+          if (instructions.length == 0) {
+            continue;
+          }
+          const transaction = this.toTransaction(signedTx, assetKey, timeStamp);
+          transaction.setBlockNumber(BigInt(block.header.height).toString());
+          transactions.push(transaction);
+          values.push(safeStableStringify(instructions) ?? "");
+          const blockHash = this.digest(block.header);
+          if (!stateBlocks.some((seen) => seen.blockHash === blockHash)) {
+            stateBlocks.push({
+              blockHash,
+              blockCreator: "",
+              blockSigners: (block.header.committed_with_topology ?? []).map(
+                (peer: IrohaJson) => this.toHex(peer.public_key?.payload),
+              ),
+            });
+          }
+        }
+      }
+      if (transactions.length == 0) {
+        continue;
+      }
+
+      const state = new State(assetKey, values, transactions);
+      const stateProof = new StateProof(
+        state.getValue(),
+        parseInt(state.getVersion()),
+        state.getId(),
+      );
+      for (const block of stateBlocks) {
+        stateProof.addBlock(block);
+      }
+      state.setStateProof([stateProof]);
+      ledgerStates.set(assetKey, state);
+    }
+    return ledgerStates;
+  }
+
+  async getAllAssetsKey(
+    networkDetails: Iroha2NetworkDetails,
+    connectorOrApiClient: PluginLedgerConnectorIroha2 | Iroha2Api,
+  ): Promise<string[]> {
+    const assets: IrohaJson[] = await this.query(
+      networkDetails,
+      IrohaQuery.FindAllAssets,
+      connectorOrApiClient,
+    );
+    return assets.map((asset) => this.formatAssetId(asset.id));
+  }
+
+  async query(
+    networkDetails: Iroha2NetworkDetails,
+    query: IrohaQuery,
+    connectorOrApiClient: PluginLedgerConnectorIroha2 | Iroha2Api,
+  ): Promise<IrohaJson> {
+    const fn = `${StrategyIroha2.CLASS_NAME}#query()`;
+    const req: QueryRequestV1 = {
+      query: { query },
+      baseConfig: networkDetails.baseConfig,
+    };
+    if (!connectorOrApiClient) {
+      throw new BadRequestError(`${fn} connectorOrApiClient is falsy`);
+    } else if (connectorOrApiClient instanceof PluginLedgerConnectorIroha2) {
+      const connector: PluginLedgerConnectorIroha2 = connectorOrApiClient;
+      const response = await connector.query(req);
+      if (!response) {
+        throw new InternalServerError(`${fn} response is falsy`);
+      }
+      // same shape as the one served by the connector API
+      return JSON.parse(
+        JSON.stringify(response.response, bigIntToDecimalStringReplacer),
+      );
+    } else if (connectorOrApiClient instanceof Iroha2Api) {
+      const api: Iroha2Api = connectorOrApiClient;
+      const response = await api.queryV1(req);
+      if (!response) {
+        throw new InternalServerError(`${fn} response is falsy`);
+      }
+      if (!response.status) {
+        throw new InternalServerError(`${fn} response.status is falsy`);
+      }
+      const { status, data, statusText, config } = response;
+      if (response.status < 200 || response.status > 300) {
+        this.log.debug(
+          "Iroha2API non-2xx HTTP response:",
+          data,
+          status,
+          config,
+        );
+        const errorMessage = `${fn} Iroha2API error status: ${status}: ${statusText}`;
+        throw new InternalServerError(errorMessage);
+      }
+      if (!data) {
+        throw new InternalServerError(`${fn} response.data is falsy`);
+      }
+      return data.response;
+    }
+    throw new InternalServerError(
+      `${fn}: neither Iroha2API nor Connector given`,
+    );
+  }
+
+  toTransaction(
+    signedTx: IrohaJson,
+    assetKey: string,
+    timeStamp: string,
+  ): Transaction {
+    // the connector serves decoded transactions without their hashes, so they
+    // are identified by a digest of their signed content
+    const txId = this.digest(signedTx);
+    const account = signedTx.payload.account_id;
+    const transaction = new Transaction(
+      txId,
+      timeStamp,
+      new TransactionProof(
+        new Proof({ creator: `${account.name}@${account.domain_id.name}` }),
+        txId,
+      ),
+    );
+    const signatures = Array.isArray(signedTx.signatures)
+      ? signedTx.signatures
+      : signedTx.signatures?.signatures ?? [];
+    for (const signature of signatures) {
+      transaction.addEndorser(
+        new Proof({
+          creator: this.toHex(signature.public_key?.payload),
+          signature: this.toHex(signature.payload),
+        }),
+      );
+    }
+    transaction.setStateId(assetKey);
+    transaction.setTarget(assetKey);
+    transaction.setPayload(safeStableStringify(signedTx.payload) ?? "");
+    return transaction;
+  }
+
+  // versioned and enum wrappers are serialized as { tag, value }
+  unwrapSignedTransaction(tx: IrohaJson): IrohaJson {
+    let unwrapped = tx;
+    while (unwrapped && !unwrapped.payload && unwrapped.value) {
+      unwrapped = unwrapped.value;
+    }
+    return unwrapped;
+  }
+
+  getInstructions(signedTx: IrohaJson): IrohaJson[] {
+    const executable = signedTx?.payload?.instructions;
+    if (Array.isArray(executable)) {
+      return executable;
+    } else if (Array.isArray(executable?.value)) {
+      return executable.value;
+    }
+    // wasm executables are opaque to the strategy
+    return [];
+  }
+
+  touchesAsset(node: IrohaJson, assetKey: string): boolean {
+    if (!node || typeof node !== "object") {
+      return false;
+    }
+    if (node.definition_id && node.account_id) {
+      return this.formatAssetId(node) === assetKey;
+    }
+    return Object.values(node).some((child) =>
+      this.touchesAsset(child, assetKey),
+    );
+  }
+
+  formatAssetId(id: IrohaJson): string {
+    const definition = id.definition_id;
+    const account = id.account_id;
+    return (
+      `${definition.name}#${definition.domain_id.name}` +
+      `#${account.name}@${account.domain_id.name}`
+    );
+  }
+
+  digest(value: unknown): string {
+    return createHash("sha256")
+      .update(safeStableStringify(value) ?? "")
+      .digest("hex");
+  }
+
+  // byte arrays come out of the json serialization as index keyed objects
+  toHex(bytes: IrohaJson): string {
+    if (!bytes) {
+      return "";
+    } else if (typeof bytes === "string") {
+      return bytes;
+    }
+    return Buffer.from(Object.values(bytes) as number[]).toString("hex");
+  }
+}
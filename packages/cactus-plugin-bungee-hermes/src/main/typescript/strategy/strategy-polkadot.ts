@@ -0,0 +1,209 @@
+import type { ApiPromise } from "@polkadot/api";
+import { PluginLedgerConnectorPolkadot } from "@hyperledger/cactus-plugin-ledger-connector-polkadot";
+import { NetworkDetails, ObtainLedgerStrategy } from "./obtain-ledger-strategy";
+import {
+  Checks,
+  LogLevelDesc,
+  Logger,
+  LoggerProvider,
+} from "@hyperledger/cactus-common";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { Transaction } from "../view-creation/transaction";
+import { State } from "../view-creation/state";
+import { Block, StateProof } from "../view-creation/state-proof";
+import { Proof } from "../view-creation/proof";
+import { TransactionProof } from "../view-creation/transaction-proof";
+import { BadRequestError, InternalServerError } from "http-errors-enhanced-cjs";
+
+export interface PolkadotNetworkDetails extends NetworkDetails {
+  // the connector API does not expose chain queries, so without an in-process
+  // connector the strategy reads the node directly
+  wsProviderUrl?: string;
+  // first block to scan for balance changes, defaults to the genesis block
+  fromBlock?: number;
+}
+
+interface AccountHistory {
+  transactions: Transaction[];
+  values: string[];
+  blocks: Block[];
+}
+
+/**
+ * Captures the native balances of substrate accounts. The state ids are SS58
+ * account addresses, and every extrinsic that emitted a `balances` event
+ * about an account is a transaction of that account's state.
+ */
+export class StrategyPolkadot implements ObtainLedgerStrategy {
+  public static readonly CLASS_NAME = "StrategyPolkadot";
+
+  public log: Logger;
+
+  constructor(level: LogLevelDesc) {
+    this.log = LoggerProvider.getOrCreate({
+      label: StrategyPolkadot.CLASS_NAME,
+      level,
+    });
+  }
+
+  public async generateLedgerStates(
+    stateIds: string[],
+    networkDetails: PolkadotNetworkDetails,
+  ): Promise<Map<string, State>> {
+    const fn = `${StrategyPolkadot.CLASS_NAME}#generateLedgerStates()`;
+    this.log.debug(`Generating ledger snapshot`);
+    Checks.truthy(networkDetails, `${fn} networkDetails`);
+
+    const { ApiPromise, WsProvider } = await import("@polkadot/api");
+    let api: ApiPromise;
+    let ownsApi = false;
+    if (networkDetails.connector) {
+      const connector =
+        networkDetails.connector as unknown as PluginLedgerConnectorPolkadot;
+      if (!(connector.api instanceof ApiPromise)) {
+        throw new InternalServerError(
+          `${fn} connector is not connected to a substrate node`,
+        );
+      }
+      api = connector.api;
+    } else if (networkDetails.wsProviderUrl) {
+      api = await ApiPromise.create({
+        provider: new WsProvider(networkDetails.wsProviderUrl),
+      });
+      ownsApi = true;
+    } else {
+      throw new BadRequestError(
+        `${fn} networkDetails must have either connector or wsProviderUrl`,
+      );
+    }
+
+    try {
+      const accounts =
+        stateIds.length == 0 ? await this.getAllAccounts(api) : stateIds;
+      this.log.debug("Current accounts detected to capture: " + accounts);
+      const histories = await this.getAccountHistories(
+        api,
+        accounts,
+        networkDetails.fromBlock ?? 0,
+      );
+
+      const ledgerStates = new Map<string, State>();
+      for (const [account, history] of histories) {
+        // e.g. endowed at genesis and untouched since
+        if (history.transactions.length == 0) {
+          continue;
+        }
+        const state = new State(account, history.values, history.transactions);
+        const stateProof = new StateProof(
+          state.getValue(),
+          parseInt(state.getVersion()),
+          state.getId(),
+        );
+        for (const block of history.blocks) {
+          stateProof.addBlock(block);
+        }
+        state.setStateProof([stateProof]);
+        ledgerStates.set(account, state);
+      }
+      return ledgerStates;
+    } finally {
+      if (ownsApi) {
+        await api.disconnect();
+      }
+    }
+  }
+
+  async getAllAccounts(api: ApiPromise): Promise<string[]> {
+    const keys = await api.query.system.account.keys();
+    return keys.map((key) => key.args[0].toString());
+  }
+
+  async getAccountHistories(
+    api: ApiPromise,
+    accounts: string[],
+    fromBlock: number,
+  ): Promise<Map<string, AccountHistory>> {
+    const histories = new Map<string, AccountHistory>();
+    for (const account of accounts) {
+      histories.set(account, { transactions: [], values: [], blocks: [] });
+    }
+    const bestBlock = (await api.rpc.chain.getHeader()).number.toNumber();
+    this.log.debug(`Scanning blocks ${fromBlock} to ${bestBlock}`);
+
+    for (let number = fromBlock; number <= bestBlock; number++) {
+      const blockHash = await api.rpc.chain.getBlockHash(number);
+      const apiAt = await api.at(blockHash);
+      const records = await apiAt.query.system.events();
+
+      // extrinsic index -> accounts whose balance it changed
+      const changes = new Map<number, Set<string>>();
+      for (const { phase, event } of records) {
+        if (!phase.isApplyExtrinsic || event.section !== "balances") {
+          continue;
+        }
+        const index = phase.asApplyExtrinsic.toNumber();
+        for (const arg of event.data) {
+          const account = arg.toString();
+          if (histories.has(account)) {
+            changes.set(index, (changes.get(index) ?? new Set()).add(account));
+          }
+        }
+      }
+      if (changes.size == 0) {
+        continue;
+      }
+
+      const [signedBlock, header, timestamp] = await Promise.all([
+        api.rpc.chain.getBlock(blockHash),
+        api.derive.chain.getHeader(blockHash),
+        apiAt.query.timestamp.now(),
+      ]);
+      const block: Block = {
+        blockHash: blockHash.toHex(),
+        blockCreator: header.author?.toString() ?? "",
+        blockSigners: header.digest.logs
+          .filter((log) => log.isSeal)
+          .map((log) => log.asSeal[1].toHex()),
+      };
+      // timestamps are milliseconds, views use seconds like the other ledgers
+      const timeStamp = Math.floor(timestamp.toNumber() / 1000).toString();
+
+      for (const [index, changed] of changes) {
+        const extrinsic = signedBlock.block.extrinsics[index];
+        const txHash = extrinsic.hash.toHex();
+        for (const account of changed) {
+          const history = histories.get(account) as AccountHistory;
+          const transaction = new Transaction(
+            txHash,
+            timeStamp,
+            new TransactionProof(
+              new Proof({
+                creator: extrinsic.isSigned ? extrinsic.signer.toString() : "",
+                signature: extrinsic.isSigned
+                  ? extrinsic.signature.toHex()
+                  : undefined,
+              }),
+              txHash,
+            ),
+          );
+          transaction.setStateId(account);
+          transaction.setBlockNumber(number.toString());
+          transaction.setTarget(
+            `${extrinsic.method.section}.${extrinsic.method.method}`,
+          );
+          transaction.setPayload(extrinsic.method.toHex());
+          history.transactions.push(transaction);
+
+          const balance = await apiAt.query.system.account(account);
+          history.values.push(safeStableStringify(balance.data.toJSON()) ?? "");
+          if (
+            !history.blocks.some((seen) => seen.blockHash === block.blockHash)
+          ) {
+            history.blocks.push(block);
+          }
+        }
+      }
+    }
+    return histories;
+  }
+}
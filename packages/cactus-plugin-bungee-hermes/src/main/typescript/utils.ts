@@ -6,10 +6,86 @@ import { Transaction } from "./view-creation/transaction";
 import { TransactionProof } from "./view-creation/transaction-proof";
 import { View, IViewMetadata } from "./view-creation/view";
 
+// the JSON form of the classes in view-creation, as they are serialized
+interface ISerializedProof {
+  creator: string;
+  mspid?: string;
+  signature?: string;
+}
+
+interface ISerializedTransaction {
+  id: string;
+  timeStamp: string;
+  proof: {
+    transactionCreator: ISerializedProof;
+    endorsements?: ISerializedProof[];
+    hash: string;
+  };
+  stateId?: string;
+  payload?: string;
+  target?: string;
+  blockNumber?: string;
+}
+
+interface ISerializedState {
+  id: string;
+  values: string[];
+  transactions: ISerializedTransaction[];
+  stateProof: {
+    stateID: string;
+    value: string;
+    blocks: Block[];
+    version: number;
+  }[];
+}
+
 export function deserializeView(viewStr: string): View {
   const view = JSON.parse(JSON.parse(viewStr).view);
   const snapshot = view.snapshot;
-  const states = snapshot.stateBins;
+  const stateBin = deserializeStates(snapshot.stateBins);
+
+  const snapshotNew = new Snapshot(snapshot.id, snapshot.participant, stateBin);
+  snapshotNew.update_TI_TF();
+  const viewNew = new View(
+    view.creator,
+    view.tI,
+    view.tF,
+    snapshotNew,
+    view.key,
+  );
+  for (const metadata of view.oldVersionsMetadata) {
+    viewNew.addPrevVersionMetadata(metadata as IViewMetadata);
+  }
+  viewNew.setPrivacyPolicyValue(view.policy);
+  viewNew.setCreator(view.creator);
+
+  if (
+    viewNew.getViewProof().statesMerkleRoot != view.viewProof.statesMerkleRoot
+  ) {
+    throw Error("Error Parsing view. States root does not match");
+  }
+  if (
+    viewNew.getViewProof().transactionsMerkleRoot !=
+    view.viewProof.transactionsMerkleRoot
+  ) {
+    throw Error("Error Parsing view. Transactions root does not match");
+  }
+  return viewNew;
+}
+
+// parses the output of Snapshot#getSnapshotJson
+export function deserializeSnapshot(snapshotStr: string): Snapshot {
+  const snapshot = JSON.parse(snapshotStr);
+  const snapshotNew = new Snapshot(
+    snapshot.id,
+    snapshot.participant,
+    deserializeStates(snapshot.stateBins),
+  );
+  snapshotNew.update_TI_TF();
+  return snapshotNew;
+}
+
+function deserializeStates(states: ISerializedState[]): State[] {
   const stateBin: State[] = [];
   for (const state of states) {
     const transactions = state.transactions;
@@ -24,6 +100,18 @@ export function deserializeView(viewStr: string): View {
         t.proof.hash,
       );
       const tx = new Transaction(t.id, t.timeStamp, txProof);
+      if (t.stateId != undefined) {
+        tx.setStateId(t.stateId);
+      }
+      if (t.target != undefined) {
+        tx.setTarget(t.target);
+      }
+      if (t.payload != undefined) {
+        tx.setPayload(t.payload);
+      }
+      if (t.blockNumber != undefined) {
+        tx.setBlockNumber(t.blockNumber);
+      }
 
       if (t.proof.endorsements == undefined) {
         txs.push(tx);
@@ -50,40 +138,13 @@ export function deserializeView(viewStr: string): View {
         proof.stateID,
       );
 
-      proof.blocks.forEach((block: unknown) => {
-        stateProof.addBlock(block as Block);
+      proof.blocks.forEach((block) => {
+        stateProof.addBlock(block);
       });
       stateProofs.push(stateProof);
     }
     stateN.setStateProof(stateProofs);
     stateBin.push(stateN);
   }
-
-  const snapshotNew = new Snapshot(snapshot.id, snapshot.participant, stateBin);
-  snapshotNew.update_TI_TF();
-  const viewNew = new View(
-    view.creator,
-    view.tI,
-    view.tF,
-    snapshotNew,
-    view.key,
-  );
-  for (const metadata of view.oldVersionsMetadata) {
-    viewNew.addPrevVersionMetadata(metadata as IViewMetadata);
-  }
-  viewNew.setPrivacyPolicyValue(view.policy);
-  viewNew.setCreator(view.creator);
-
-  if (
-    viewNew.getViewProof().statesMerkleRoot != view.viewProof.statesMerkleRoot
-  ) {
-    throw Error("Error Parsing view. States root does not match");
-  }
-  if (
-    viewNew.getViewProof().transactionsMerkleRoot !=
-    view.viewProof.transactionsMerkleRoot
-  ) {
-    throw Error("Error Parsing view. Transactions root does not match");
-  }
-  return viewNew;
+  return stateBin;
 }
@@ -0,0 +1,48 @@
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+
+/**
+ * Signature of a Bungee instance over the content of a view (its merkle roots
+ * and the network and timeframe they cover), made after the instance verified
+ * the view. Instances that build the same view of a ledger produce the same
+ * payload, so their attestations can be counted towards a threshold.
+ */
+export interface IViewAttestation {
+  // public key of the attesting instance, hex encoded
+  attester: string;
+  signature: string;
+}
+
+export function viewAttestationPayload(view: {
+  participant: string;
+  tI: string;
+  tF: string;
+  viewProof: {
+    transactionsMerkleRoot: string;
+    statesMerkleRoot: string;
+  };
+}): string {
+  return safeStableStringify({
+    participant: view.participant,
+    tI: view.tI,
+    tF: view.tF,
+    viewProof: view.viewProof,
+  }) as string;
+}
+
+export function integratedViewAttestationPayload(integratedView: {
+  participants: string[];
+  tI: string;
+  tF: string;
+  integratedViewProof: {
+    transactionsMerkleRoot: string;
+    statesMerkleRoot: string;
+    viewsMerkleRoot: string;
+  };
+}): string {
+  return safeStableStringify({
+    participants: integratedView.participants,
+    tI: integratedView.tI,
+    tF: integratedView.tF,
+    integratedViewProof: integratedView.integratedViewProof,
+  }) as string;
+}
@@ -0,0 +1,559 @@
+import MerkleTree from "merkletreejs";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import {
+  JsObjectSigner,
+  LogLevelDesc,
+  Logger,
+  LoggerProvider,
+  Secp256k1Keys,
+} from "@hyperledger/cactus-common";
+import {
+  MergePolicyOpts,
+  PrivacyPolicyOpts,
+} from "../generated/openapi/typescript-axios";
+import {
+  IPrivacyPolicyValue,
+  PrivacyPolicies,
+} from "../view-creation/privacy-policies";
+import { IViewMetadata } from "../view-creation/view";
+import {
+  IMergePolicyValue,
+  MergePolicies,
+} from "../view-merging/merge-policies";
+import {
+  integratedViewAttestationPayload,
+  IViewAttestation,
+  viewAttestationPayload,
+} from "./attestation";
+
+// untrusted: the signature is valid, but not made with a key the caller trusts
+export type VerificationStatus = "passed" | "failed" | "skipped" | "untrusted";
+
+export interface IVerificationCheck {
+  name: string;
+  status: VerificationStatus;
+  details?: string;
+}
+
+export interface IVerificationReport {
+  // true when no check failed and the signature was made with the given
+  // signerPublicKey, or the content was attested by enough trusted attesters
+  valid: boolean;
+  kind: "view" | "integratedView";
+  id?: string;
+  checks: IVerificationCheck[];
+}
+
+export interface IEndorsement {
+  creator: string;
+  mspid?: string;
+  signature?: string;
+}
+
+/**
+ * Checks the signature of a ledger endorsement of a transaction. Endorsement
+ * formats are specific to each ledger, so they are only checked when the
+ * auditor provides a verifier for the ledger of the view.
+ */
+export interface IEndorsementVerifier {
+  (transactionId: string, endorsement: IEndorsement): boolean;
+}
+
+export interface IVerifyOptions {
+  // public key of the trusted instance that signed the view or integrated
+  // view. The creator a view claims is not trusted, anyone can sign a view
+  // they made up with a key of their own
+  signerPublicKey?: string;
+  attestations?: IViewAttestation[];
+  // public keys whose attestations are counted, required to count any
+  trustedAttesters?: string[];
+  // number of distinct attesters required, 1 when attestations are given
+  threshold?: number;
+  endorsementVerifier?: IEndorsementVerifier;
+}
+
+export interface IViewVerifierOptions {
+  logLevel?: LogLevelDesc;
+}
+
+interface IExportedProof {
+  creator: string;
+  mspid?: string;
+  signature?: string;
+}
+
+interface IExportedState {
+  id: string;
+  transactions: {
+    id: string;
+    proof: {
+      transactionCreator: IExportedProof;
+      endorsements?: IExportedProof[];
+      hash: string;
+    };
+  }[];
+  stateProof: { stateID: string }[];
+}
+
+interface IExportedView {
+  key: string;
+  creator: string;
+  participant: string;
+  tI: string;
+  tF: string;
+  snapshot: { stateBins: IExportedState[] };
+  oldVersionsMetadata: IViewMetadata[];
+  policy?: IPrivacyPolicyValue;
+  viewProof: {
+    transactionsMerkleRoot: string;
+    statesMerkleRoot: string;
+  };
+}
+
+interface IExportedIntegratedView {
+  id: string;
+  participants: string[];
+  tI: string;
+  tF: string;
+  viewsMetadata: IViewMetadata[];
+  privacyPolicy: IMergePolicyValue;
+  integratedViewProof: {
+    transactionsMerkleRoot: string;
+    statesMerkleRoot: string;
+    viewsMerkleRoot: string;
+  };
+}
+
+/**
+ * Verifies exported views and integrated views offline: the signature of the
+ * creator, the merkle roots of the view proof, the state and transaction
+ * proofs, the hashes of the policies applied, and optionally a threshold of
+ * attestations from several Bungee instances. It needs no Cacti node, nor a
+ * key of its own, but it needs the key of a trusted signer or attesters: a
+ * view is only valid when signed by the given signer or attested by enough
+ * of the given attesters.
+ *
+ * Integrated views are exported without their states, so only the roots of
+ * their included views can be recomputed.
+ */
+export class ViewVerifier {
+  public static readonly CLASS_NAME = "ViewVerifier";
+
+  private readonly log: Logger;
+  private readonly signer: JsObjectSigner;
+
+  constructor(options: IViewVerifierOptions = {}) {
+    this.log = LoggerProvider.getOrCreate({
+      label: ViewVerifier.CLASS_NAME,
+      level: options.logLevel || "INFO",
+    });
+    // only used to verify signatures and hash, never to sign
+    this.signer = new JsObjectSigner({
+      privateKey: Secp256k1Keys.generateKeyPairsBuffer().privateKey,
+    });
+  }
+
+  public get className(): string {
+    return ViewVerifier.CLASS_NAME;
+  }
+
+  /**
+   * Verifies the output of createViewV1 or processViewV1 ({ view, signature })
+   * or of mergeViewsV1 ({ integratedView, signature }).
+   */
+  public verify(
+    exported: string,
+    options: IVerifyOptions = {},
+  ): IVerificationReport {
+    const parsed = JSON.parse(exported);
+    if (parsed.view != undefined) {
+      return this.verifyView(exported, options);
+    }
+    if (parsed.integratedView != undefined) {
+      return this.verifyIntegratedView(exported, options);
+    }
+    throw new Error("Neither a view nor an integrated view was given");
+  }
+
+  public verifyView(
+    exported: string,
+    options: IVerifyOptions = {},
+  ): IVerificationReport {
+    const fn = `${this.className}#verifyView()`;
+    const parsed = JSON.parse(exported);
+    if (typeof parsed.view !== "string") {
+      throw new Error(`${fn}: the export does not include a serialized view`);
+    }
+    const view: IExportedView = JSON.parse(parsed.view);
+    const checks: IVerificationCheck[] = [];
+
+    if (options.signerPublicKey == undefined) {
+      const check = this.checkSignature(
+        "view signature",
+        parsed.view,
+        parsed.signature,
+        view.creator,
+      );
+      checks.push(
+        check.status === "passed"
+          ? {
+              name: check.name,
+              status: "untrusted",
+              details: `signed by its creator ${view.creator}, the public key of a trusted signer was not given`,
+            }
+          : check,
+      );
+    } else {
+      checks.push(
+        this.checkSignature(
+          "view signature",
+          parsed.view,
+          parsed.signature,
+          options.signerPublicKey,
+        ),
+      );
+    }
+
+    const states: string[] = [];
+    const transactions: string[] = [];
+    for (const state of view.snapshot.stateBins) {
+      states.push(safeStableStringify(state.stateProof) as string);
+      for (const transaction of state.transactions) {
+        transactions.push(safeStableStringify(transaction.proof) as string);
+      }
+    }
+    checks.push(
+      this.checkRoot(
+        "states merkle root",
+        states,
+        view.viewProof.statesMerkleRoot,
+      ),
+      this.checkRoot(
+        "transactions merkle root",
+        transactions,
+        view.viewProof.transactionsMerkleRoot,
+      ),
+    );
+
+    checks.push(...this.checkProofs(view.snapshot.stateBins, options));
+
+    checks.push(this.checkPrivacyPolicy("view policy hash", view.policy));
+    view.oldVersionsMetadata.forEach((metadata, index) => {
+      checks.push(
+        this.checkPrivacyPolicy(
+          `policy hash of previous version ${index} (${metadata.viewId})`,
+          metadata.policy,
+        ),
+      );
+    });
+
+    checks.push(this.checkAttestations(viewAttestationPayload(view), options));
+
+    return this.report("view", view.key, checks);
+  }
+
+  public verifyIntegratedView(
+    exported: string,
+    options: IVerifyOptions = {},
+  ): IVerificationReport {
+    const fn = `${this.className}#verifyIntegratedView()`;
+    let parsed = JSON.parse(exported);
+    // mergeViewsV1 nests the integrated view and its signature in a string
+    if (typeof parsed.integratedView === "string") {
+      parsed = JSON.parse(parsed.integratedView);
+    }
+    if (typeof parsed.integratedView !== "object") {
+      throw new Error(`${fn}: the export does not include an integrated view`);
+    }
+    const integratedView: IExportedIntegratedView = parsed.integratedView;
+    const checks: IVerificationCheck[] = [];
+
+    if (options.signerPublicKey == undefined) {
+      checks.push({
+        name: "integrated view signature",
+        status: "untrusted",
+        details: "the public key of a trusted signer was not given",
+      });
+    } else {
+      checks.push(
+        this.checkSignature(
+          "integrated view signature",
+          safeStableStringify(integratedView) as string,
+          parsed.signature,
+          options.signerPublicKey,
+        ),
+      );
+    }
+
+    checks.push(
+      this.checkRoot(
+        "views merkle root",
+        integratedView.viewsMetadata.map(
+          (metadata) => safeStableStringify(metadata) as string,
+        ),
+        integratedView.integratedViewProof.viewsMerkleRoot,
+      ),
+    );
+
+    checks.push(this.checkMergePolicy(integratedView.privacyPolicy));
+    integratedView.viewsMetadata.forEach((metadata) => {
+      checks.push(
+        this.checkPrivacyPolicy(
+          `policy hash of view ${metadata.viewId}`,
+          metadata.policy,
+        ),
+      );
+    });
+
+    checks.push(
+      this.checkAttestations(
+        integratedViewAttestationPayload(integratedView),
+        options,
+      ),
+    );
+
+    return this.report("integratedView", integratedView.id, checks);
+  }
+
+  private report(
+    kind: "view" | "integratedView",
+    id: string | undefined,
+    checks: IVerificationCheck[],
+  ): IVerificationReport {
+    const failed = checks.filter((check) => check.status === "failed");
+    // without a trusted signer, the content must be attested instead
+    const trusted =
+      checks.every((check) => check.status !== "untrusted") ||
+      checks.some(
+        (check) => check.name === "attestations" && check.status === "passed",
+      );
+    this.log.debug(
+      `${kind} ${id}: ${failed.length} failed checks, trusted: ${trusted}`,
+    );
+    return { valid: failed.length == 0 && trusted, kind, id, checks };
+  }
+
+  private checkSignature(
+    name: string,
+    message: string,
+    signature: string | undefined,
+    publicKey: string,
+  ): IVerificationCheck {
+    if (!signature) {
+      return { name, status: "failed", details: "no signature" };
+    }
+    let verified: boolean;
+    try {
+      verified = this.signer.verify(
+        message,
+        new Uint8Array(Buffer.from(signature, "hex")),
+        new Uint8Array(Buffer.from(publicKey, "hex")),
+      );
+    } catch (ex: unknown) {
+      return { name, status: "failed", details: `${ex}` };
+    }
+    return verified
+      ? { name, status: "passed" }
+      : { name, status: "failed", details: `not signed by ${publicKey}` };
+  }
+
+  private checkRoot(
+    name: string,
+    input: string[],
+    root: string,
+  ): IVerificationCheck {
+    const tree = new MerkleTree(input, undefined, {
+      sort: true,
+      hashLeaves: true,
+    });
+    const computed = tree.getRoot().toString("hex");
+    return computed == root
+      ? { name, status: "passed" }
+      : {
+          name,
+          status: "failed",
+          details: `expected ${root}, computed ${computed}`,
+        };
+  }
+
+  private checkProofs(
+    states: IExportedState[],
+    options: IVerifyOptions,
+  ): IVerificationCheck[] {
+    const problems: string[] = [];
+    const endorsementProblems: string[] = [];
+    let endorsements = 0;
+    for (const state of states) {
+      if (state.stateProof.length == 0) {
+        problems.push(`state ${state.id} has no proof`);
+      }
+      for (const proof of state.stateProof) {
+        if (proof.stateID !== state.id) {
+          problems.push(`state ${state.id} has a proof of ${proof.stateID}`);
+        }
+      }
+      for (const transaction of state.transactions) {
+        if (transaction.proof.hash !== transaction.id) {
+          problems.push(
+            `transaction ${transaction.id} has a proof of ${transaction.proof.hash}`,
+          );
+        }
+        // "undefined" is how Proof stores a missing signature
+        const signed = (transaction.proof.endorsements ?? []).filter(
+          (e) => e.signature != undefined && e.signature !== "undefined",
+        );
+        endorsements += signed.length;
+        if (options.endorsementVerifier == undefined) {
+          continue;
+        }
+        for (const endorsement of signed) {
+          if (!options.endorsementVerifier(transaction.id, endorsement)) {
+            endorsementProblems.push(
+              `endorsement of ${endorsement.creator} on transaction ${transaction.id}`,
+            );
+          }
+        }
+      }
+    }
+
+    const proofs: IVerificationCheck =
+      problems.length == 0
+        ? { name: "state and transaction proofs", status: "passed" }
+        : {
+            name: "state and transaction proofs",
+            status: "failed",
+            details: problems.join("; "),
+          };
+    let signatures: IVerificationCheck;
+    if (endorsements == 0) {
+      signatures = {
+        name: "endorsement signatures",
+        status: "skipped",
+        details: "the view has no signed endorsements",
+      };
+    } else if (options.endorsementVerifier == undefined) {
+      signatures = {
+        name: "endorsement signatures",
+        status: "skipped",
+        details: `${endorsements} endorsements, no verifier was given for them`,
+      };
+    } else if (endorsementProblems.length > 0) {
+      signatures = {
+        name: "endorsement signatures",
+        status: "failed",
+        details: `invalid: ${endorsementProblems.join("; ")}`,
+      };
+    } else {
+      signatures = { name: "endorsement signatures", status: "passed" };
+    }
+    return [proofs, signatures];
+  }
+
+  // declarative policies carry their definition; the built-in ones are hashed
+  // from their code, which must match the code of this version of the plugin
+  private checkPrivacyPolicy(
+    name: string,
+    policy: IPrivacyPolicyValue | undefined,
+  ): IVerificationCheck {
+    if (policy == undefined) {
+      return { name, status: "skipped", details: "no policy was applied" };
+    }
+    let expected: string | undefined;
+    if (policy.policy === PrivacyPolicyOpts.Declarative) {
+      expected = policy.definition
+        ? this.signer.dataHash(safeStableStringify(policy.definition))
+        : undefined;
+    } else {
+      const func = new PrivacyPolicies().getPrivacyPolicy(policy.policy);
+      expected = func ? this.signer.dataHash(func.toString()) : undefined;
+    }
+    return this.comparePolicyHash(name, policy.policyHash, expected);
+  }
+
+  private checkMergePolicy(
+    policy: IMergePolicyValue | undefined,
+  ): IVerificationCheck {
+    const name = "merge policy hash";
+    if (policy == undefined || policy.policy === MergePolicyOpts.NONE) {
+      return { name, status: "skipped", details: "no policy was applied" };
+    }
+    let expected: string | undefined;
+    if (policy.policy === MergePolicyOpts.Declarative) {
+      expected = policy.definition
+        ? this.signer.dataHash(safeStableStringify(policy.definition))
+        : undefined;
+    } else {
+      const func = new MergePolicies().getMergePolicy(policy.policy);
+      expected = func ? this.signer.dataHash(func.toString()) : undefined;
+    }
+    return this.comparePolicyHash(name, policy.policyHash, expected);
+  }
+
+  private comparePolicyHash(
+    name: string,
+    policyHash: string | undefined,
+    expected: string | undefined,
+  ): IVerificationCheck {
+    if (expected == undefined) {
+      return {
+        name,
+        status: "failed",
+        details: "the policy is unknown and carries no definition",
+      };
+    }
+    return policyHash === expected
+      ? { name, status: "passed" }
+      : {
+          name,
+          status: "failed",
+          details: `expected ${expected}, found ${policyHash}`,
+        };
+  }
+
+  private checkAttestations(
+    payload: string,
+    options: IVerifyOptions,
+  ): IVerificationCheck {
+    const name = "attestations";
+    const attestations = options.attestations ?? [];
+    if (attestations.length == 0 && options.threshold == undefined) {
+      return { name, status: "skipped", details: "no attestations were given" };
+    }
+    const trustedAttesters = options.trustedAttesters ?? [];
+    if (trustedAttesters.length == 0) {
+      return {
+        name,
+        status: "failed",
+        details: "the public keys of the trusted attesters were not given",
+      };
+    }
+    const threshold = options.threshold ?? 1;
+    const attesters = new Set<string>();
+    const rejected: string[] = [];
+    for (const attestation of attestations) {
+      if (!trustedAttesters.includes(attestation.attester)) {
+        rejected.push(`${attestation.attester} is not trusted`);
+        continue;
+      }
+      const check = this.checkSignature(
+        name,
+        payload,
+        attestation.signature,
+        attestation.attester,
+      );
+      if (check.status !== "passed") {
+        rejected.push(`${attestation.attester}: ${check.details}`);
+        continue;
+      }
+      attesters.add(attestation.attester);
+    }
+    const details =
+      `${attesters.size} of ${threshold} required attesters` +
+      (rejected.length > 0 ? `, rejected ${rejected.join("; ")}` : "");
+    return {
+      name,
+      status: attesters.size >= threshold ? "passed" : "failed",
+      details,
+    };
+  }
+}
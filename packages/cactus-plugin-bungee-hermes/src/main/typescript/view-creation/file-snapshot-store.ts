@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import { v4 as uuidV4 } from "uuid";
+import {
+  ISnapshotRecord,
+  ISnapshotStore,
+  snapshotRecordKey,
+} from "./snapshot-store";
+
+// snapshot ids are generated by the plugin but are also read from requests,
+// so only ids that cannot escape the snapshots directory are looked up
+const SNAPSHOT_ID = /^[0-9A-Za-z-]+$/;
+
+/**
+ * Keeps the snapshots on disk so that incremental views resume from the
+ * stored cursor after a restart. Each record is a JSON file of its own,
+ * and an index file lists the latest snapshot ids of each network and set
+ * of states. Files are replaced atomically and writes are serialized, but
+ * a directory must only be used by one plugin instance at a time.
+ */
+export class FileSnapshotStore implements ISnapshotStore {
+  private index: Promise<Map<string, string[]>> | undefined;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  // only the latest snapshots of each network and set of states are kept
+  constructor(
+    private readonly dirPath: string,
+    private readonly maxSnapshotsPerKey: number = 10,
+  ) {
+    if (!dirPath) {
+      throw new Error("dirPath is required");
+    }
+    if (maxSnapshotsPerKey < 1) {
+      throw new Error("maxSnapshotsPerKey must be at least 1");
+    }
+  }
+
+  public async save(record: ISnapshotRecord): Promise<void> {
+    if (!SNAPSHOT_ID.test(record.snapshotId)) {
+      throw new Error("Invalid snapshot id " + record.snapshotId);
+    }
+    const task = async () => {
+      const index = await this.getOrLoadIndex();
+      const key = snapshotRecordKey(
+        record.strategyId,
+        record.network,
+        record.participant,
+        record.stateIds,
+      );
+      const snapshotIds = [...(index.get(key) ?? []), record.snapshotId];
+      const pruned = snapshotIds.splice(
+        0,
+        Math.max(0, snapshotIds.length - this.maxSnapshotsPerKey),
+      );
+
+      await this.writeJson(this.recordPath(record.snapshotId), record);
+      index.set(key, snapshotIds);
+      await this.writeJson(this.indexPath(), Object.fromEntries(index));
+      for (const snapshotId of pruned) {
+        await fs.promises.rm(this.recordPath(snapshotId), { force: true });
+      }
+    };
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  public async getById(
+    snapshotId: string,
+  ): Promise<ISnapshotRecord | undefined> {
+    if (!SNAPSHOT_ID.test(snapshotId)) {
+      return undefined;
+    }
+    return this.readJson<ISnapshotRecord>(this.recordPath(snapshotId));
+  }
+
+  public async getLatest(
+    strategyId: string,
+    network: string,
+    participant: string,
+    stateIds: string[],
+  ): Promise<ISnapshotRecord | undefined> {
+    const index = await this.getOrLoadIndex();
+    const snapshotIds = index.get(
+      snapshotRecordKey(strategyId, network, participant, stateIds),
+    );
+    if (!snapshotIds || snapshotIds.length == 0) {
+      return undefined;
+    }
+    return this.getById(snapshotIds[snapshotIds.length - 1]);
+  }
+
+  private getOrLoadIndex(): Promise<Map<string, string[]>> {
+    if (!this.index) {
+      this.index = this.readJson<Record<string, string[]>>(
+        this.indexPath(),
+      ).then((entries) => new Map(Object.entries(entries ?? {})));
+      // a failed read is retried on the next call
+      this.index.catch(() => (this.index = undefined));
+    }
+    return this.index;
+  }
+
+  private indexPath(): string {
+    return path.join(this.dirPath, "index.json");
+  }
+
+  private recordPath(snapshotId: string): string {
+    return path.join(this.dirPath, "snapshots", `${snapshotId}.json`);
+  }
+
+  private async readJson<T>(filePath: string): Promise<T | undefined> {
+    let json: string;
+    try {
+      json = await fs.promises.readFile(filePath, "utf-8");
+    } catch (error) {
+      if (error.code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+    return JSON.parse(json) as T;
+  }
+
+  // written to a temporary file first, so a crash never leaves a partial file
+  private async writeJson(filePath: string, content: unknown): Promise<void> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${uuidV4()}.tmp`;
+    try {
+      const fd = await fs.promises.open(tmpPath, "wx", 0o600);
+      try {
+        await fd.writeFile(JSON.stringify(content), "utf-8");
+        await fd.sync();
+      } finally {
+        await fd.close();
+      }
+      await fs.promises.rename(tmpPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tmpPath, { force: true });
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,15 @@
-import { PrivacyPolicyOpts } from "../generated/openapi/typescript-axios";
+import { createHash } from "crypto";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import {
+  PrivacyPolicyDefinition,
+  PrivacyPolicyOpts,
+  PrivacyPolicyRule,
+  PrivacyPolicyRuleType,
+} from "../generated/openapi/typescript-axios";
 import { View } from "./view";
+import { State } from "./state";
+
+export const REDACTED_VALUE = "REDACTED";
 
 export interface IPrivacyPolicy {
   (view: View, ...args: string[]): View;
@@ -7,6 +17,9 @@ export interface IPrivacyPolicy {
 export interface IPrivacyPolicyValue {
   policy: PrivacyPolicyOpts;
   policyHash: string;
+  // only for declarative policies
+  policyName?: string;
+  definition?: PrivacyPolicyDefinition;
 }
 
 // Type guard for PrivacyPolicyOpts
@@ -37,7 +50,105 @@ export function isPrivacyPolicyValueArray(
   return Array.isArray(input) && input.every(isPrivacyPolicyValue);
 }
 
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+// Type guard for PrivacyPolicyRule, including the fields each rule needs
+export function isPrivacyPolicyRule(obj: unknown): obj is PrivacyPolicyRule {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const rule = obj as Record<string, unknown>;
+  if (
+    !Object.values(PrivacyPolicyRuleType).includes(
+      rule.rule as PrivacyPolicyRuleType,
+    ) ||
+    (rule.stateIds !== undefined && !isStringArray(rule.stateIds)) ||
+    (rule.fields !== undefined && !isStringArray(rule.fields)) ||
+    (rule.tI !== undefined && typeof rule.tI !== "string") ||
+    (rule.tF !== undefined && typeof rule.tF !== "string") ||
+    (rule.policyName !== undefined && typeof rule.policyName !== "string")
+  ) {
+    return false;
+  }
+  switch (rule.rule) {
+    case PrivacyPolicyRuleType.AllowStates:
+    case PrivacyPolicyRuleType.DenyStates:
+      return rule.stateIds !== undefined;
+    case PrivacyPolicyRuleType.RedactFields:
+      return rule.fields !== undefined;
+    case PrivacyPolicyRuleType.TimeWindow:
+      return rule.tI !== undefined || rule.tF !== undefined;
+    case PrivacyPolicyRuleType.Include:
+      return rule.policyName !== undefined;
+    default:
+      return true;
+  }
+}
+
+// Type guard for PrivacyPolicyDefinition
+export function isPrivacyPolicyDefinition(
+  obj: unknown,
+): obj is PrivacyPolicyDefinition {
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    Array.isArray((obj as Record<string, unknown>).rules) &&
+    ((obj as Record<string, unknown>).rules as unknown[]).every(
+      isPrivacyPolicyRule,
+    ) &&
+    ((obj as Record<string, unknown>).description === undefined ||
+      typeof (obj as Record<string, unknown>).description === "string")
+  );
+}
+
+// Policies composed in order, as a single definition
+export function composePrivacyPolicies(
+  ...definitions: PrivacyPolicyDefinition[]
+): PrivacyPolicyDefinition {
+  return { rules: definitions.flatMap((definition) => definition.rules) };
+}
+
+// Replaces the given fields of a JSON object value. Values that are not JSON
+// objects are returned unchanged
+export function redactFields(value: string, fields: string[]): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return value;
+  }
+  if (typeof parsed !== "object" || parsed === null) {
+    return value;
+  }
+  for (const field of fields) {
+    const path = field.split(".");
+    let target = parsed as Record<string, unknown>;
+    for (const key of path.slice(0, -1)) {
+      if (typeof target[key] !== "object" || target[key] === null) {
+        target = {};
+        break;
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+    const last = path[path.length - 1];
+    if (last in target) {
+      target[last] = REDACTED_VALUE;
+    }
+  }
+  return safeStableStringify(parsed) as string;
+}
+
+export function hashValue(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
 export class PrivacyPolicies {
+  private definitions = new Map<string, PrivacyPolicyDefinition>();
+
   constructor() {}
 
   public pruneState(view: View, stateId: string): View {
@@ -70,4 +181,120 @@ export class PrivacyPolicies {
         break;
     }
   }
+
+  public addPolicyDefinition(
+    name: string,
+    definition: PrivacyPolicyDefinition,
+  ): void {
+    if (!isPrivacyPolicyDefinition(definition)) {
+      throw new Error(`Invalid privacy policy definition ${name}`);
+    }
+    const registered = this.definitions.get(name);
+    if (
+      registered &&
+      safeStableStringify(registered) !== safeStableStringify(definition)
+    ) {
+      throw new Error(
+        `Privacy policy ${name} is already registered with other rules`,
+      );
+    }
+    // fails on unknown or circular includes before anything is registered
+    this.resolvePolicyDefinition(definition, [name]);
+    this.definitions.set(name, definition);
+  }
+
+  public getPolicyDefinition(
+    name: string,
+  ): PrivacyPolicyDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  public getPolicyDefinitionNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Inlines the rules of the included policies, so the result (and its hash)
+   * no longer depends on what is registered in this plugin instance.
+   */
+  public resolvePolicyDefinition(
+    definition: PrivacyPolicyDefinition,
+    including: string[] = [],
+  ): PrivacyPolicyDefinition {
+    const rules: PrivacyPolicyRule[] = [];
+    for (const rule of definition.rules) {
+      if (rule.rule !== PrivacyPolicyRuleType.Include) {
+        rules.push(rule);
+        continue;
+      }
+      const name = rule.policyName as string;
+      if (including.includes(name)) {
+        throw new Error(`Privacy policy ${name} includes itself`);
+      }
+      const included = this.definitions.get(name);
+      if (!included) {
+        throw new Error(`Privacy policy ${name} is not registered`);
+      }
+      rules.push(
+        ...this.resolvePolicyDefinition(included, [...including, name]).rules,
+      );
+    }
+    return definition.description === undefined
+      ? { rules }
+      : { description: definition.description, rules };
+  }
+
+  // the definition must already be resolved
+  public applyPolicyDefinition(
+    view: View,
+    definition: PrivacyPolicyDefinition,
+  ): View {
+    for (const rule of definition.rules) {
+      this.applyRule(view, rule);
+    }
+    return view;
+  }
+
+  private applyRule(view: View, rule: PrivacyPolicyRule): void {
+    const snapshot = view.getSnapshot();
+    const appliesTo = (state: State) =>
+      rule.stateIds == undefined || rule.stateIds.includes(state.getId());
+    switch (rule.rule) {
+      case PrivacyPolicyRuleType.AllowStates:
+        snapshot.selectStates(rule.stateIds as string[]);
+        snapshot.update_TI_TF();
+        break;
+      case PrivacyPolicyRuleType.DenyStates:
+        for (const stateId of rule.stateIds as string[]) {
+          snapshot.removeState(stateId);
+        }
+        break;
+      case PrivacyPolicyRuleType.TimeWindow:
+        snapshot.pruneStates(
+          rule.tI ?? "0",
+          rule.tF ?? Number.MAX_SAFE_INTEGER.toString(),
+        );
+        snapshot.removeEmptyStates();
+        break;
+      case PrivacyPolicyRuleType.RedactFields:
+        for (const state of snapshot.getStateBins().filter(appliesTo)) {
+          const fields = rule.fields as string[];
+          state.transformValues((value) => redactFields(value, fields));
+          for (const transaction of state.getTransactions()) {
+            const payload = transaction.getPayload();
+            if (payload != undefined) {
+              transaction.setPayload(redactFields(payload, fields));
+            }
+          }
+        }
+        break;
+      case PrivacyPolicyRuleType.HashValues:
+        for (const state of snapshot.getStateBins().filter(appliesTo)) {
+          state.transformValues(hashValue);
+        }
+        break;
+      default:
+        throw new Error(`Unsupported privacy policy rule ${rule.rule}`);
+    }
+  }
 }
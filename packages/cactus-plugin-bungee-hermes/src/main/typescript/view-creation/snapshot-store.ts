@@ -0,0 +1,123 @@
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { NetworkDetails } from "../strategy/obtain-ledger-strategy";
+
+export interface ISnapshotRecord {
+  snapshotId: string;
+  strategyId: string;
+  // snapshotNetworkKey of the network details the snapshot was captured with
+  network: string;
+  participant: string;
+  // the state ids requested, sorted; empty when every state was captured
+  stateIds: string[];
+  // cursor returned by the strategy, undefined for strategies that always
+  // rebuild the full history
+  cursor?: string;
+  // unix timestamp, in seconds
+  createdAt: string;
+  // Snapshot#getSnapshotJson
+  snapshot: string;
+}
+
+/**
+ * Keeps the snapshots created by incremental view requests, so that the next
+ * request for the same network and states only reads the ledger after the
+ * stored cursor. Implementations backed by a database can be given to the
+ * plugin through its options.
+ */
+export interface ISnapshotStore {
+  save(record: ISnapshotRecord): Promise<void>;
+
+  getById(snapshotId: string): Promise<ISnapshotRecord | undefined>;
+
+  getLatest(
+    strategyId: string,
+    network: string,
+    participant: string,
+    stateIds: string[],
+  ): Promise<ISnapshotRecord | undefined>;
+}
+
+/**
+ * Identifies the ledger data a snapshot is captured from: the connector (its
+ * API path, or the instance id of an in-process connector) and the strategy
+ * specific details with scalar values, such as the contract address or the
+ * channel name. Credentials and other nested objects are left out.
+ */
+export function snapshotNetworkKey(networkDetails: NetworkDetails): string {
+  const identity: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(networkDetails)) {
+    if (
+      name !== "participant" &&
+      ["string", "number", "boolean"].includes(typeof value)
+    ) {
+      identity[name] = value;
+    }
+  }
+  if (networkDetails.connector) {
+    identity.connectorInstanceId = networkDetails.connector.getInstanceId();
+  }
+  return safeStableStringify(identity) as string;
+}
+
+export function snapshotRecordKey(
+  strategyId: string,
+  network: string,
+  participant: string,
+  stateIds: string[],
+): string {
+  return JSON.stringify([
+    strategyId,
+    network,
+    participant,
+    [...stateIds].sort(),
+  ]);
+}
+
+export class InMemorySnapshotStore implements ISnapshotStore {
+  private readonly records = new Map<string, ISnapshotRecord>();
+  private readonly history = new Map<string, string[]>();
+
+  // only the latest snapshots of each network and set of states are kept
+  constructor(private readonly maxSnapshotsPerKey: number = 10) {
+    if (maxSnapshotsPerKey < 1) {
+      throw new Error("maxSnapshotsPerKey must be at least 1");
+    }
+  }
+
+  public async save(record: ISnapshotRecord): Promise<void> {
+    const key = snapshotRecordKey(
+      record.strategyId,
+      record.network,
+      record.participant,
+      record.stateIds,
+    );
+    const snapshotIds = this.history.get(key) ?? [];
+    snapshotIds.push(record.snapshotId);
+    while (snapshotIds.length > this.maxSnapshotsPerKey) {
+      this.records.delete(snapshotIds.shift() as string);
+    }
+    this.history.set(key, snapshotIds);
+    this.records.set(record.snapshotId, record);
+  }
+
+  public async getById(
+    snapshotId: string,
+  ): Promise<ISnapshotRecord | undefined> {
+    return this.records.get(snapshotId);
+  }
+
+  public async getLatest(
+    strategyId: string,
+    network: string,
+    participant: string,
+    stateIds: string[],
+  ): Promise<ISnapshotRecord | undefined> {
+    const snapshotIds = this.history.get(
+      snapshotRecordKey(strategyId, network, participant, stateIds),
+    );
+    if (!snapshotIds || snapshotIds.length == 0) {
+      return undefined;
+    }
+    return this.records.get(snapshotIds[snapshotIds.length - 1]);
+  }
+}
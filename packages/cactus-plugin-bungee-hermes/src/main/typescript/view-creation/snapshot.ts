@@ -16,7 +16,7 @@ export class Snapshot {
   public getParticipant(): string {
     return this.participant;
   }
-  private getId(): string {
+  public getId(): string {
     return this.id;
   }
 
@@ -57,6 +57,19 @@ export class Snapshot {
     }
   }
 
+  public pruneStatesAtBlock(blockNumber: string): void {
+    for (const state of this.stateBins) {
+      state.pruneStateAtBlock(blockNumber);
+    }
+  }
+
+  public removeEmptyStates(): void {
+    this.stateBins = this.stateBins.filter(
+      (state) => state.getTransactions().length > 0,
+    );
+    this.update_TI_TF();
+  }
+
   public getStateBins() {
     return this.stateBins;
   }
@@ -20,12 +20,18 @@ export class StateProof {
   public getValue() {
     return this.value;
   }
+  public setValue(value: string) {
+    this.value = value;
+  }
   public getVersion() {
     return this.version;
   }
   public getStateID() {
     return this.stateID;
   }
+  public getBlocks(): Block[] {
+    return this.blocks;
+  }
   public addBlock(block: Block) {
     this.blocks.push(block);
   }
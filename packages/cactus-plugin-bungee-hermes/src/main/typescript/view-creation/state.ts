@@ -55,6 +55,14 @@ export class State {
     return this.transactions;
   }
 
+  // rewrites every value of the state, including the ones in its proofs
+  public transformValues(transform: (value: string) => string): void {
+    this.values = this.values.map(transform);
+    for (const proof of this.stateProof) {
+      proof.setValue(transform(proof.getValue()));
+    }
+  }
+
   public selectTransactions(txs: string[]): void {
     const transactions: Transaction[] = [];
     for (const tx of this.transactions) {
@@ -89,16 +97,71 @@ export class State {
   public pruneState(tI: string, tF: string): void {
     const initialT = BigInt(tI);
     const finalT = BigInt(tF);
-    // eslint-disable-next-line prefer-const
-    this.transactions.forEach((element, index) => {
-      if (
-        BigInt(element.getTimeStamp()) < initialT ||
-        BigInt(element.getTimeStamp()) > finalT
-      ) {
-        //this.version = this.version - 1;
-        this.transactions.splice(index, 1); //Remove tx
-        this.values?.splice(index, 1); //Remove state of tx
+    this.keepTransactions(
+      (tx) =>
+        BigInt(tx.getTimeStamp()) >= initialT &&
+        BigInt(tx.getTimeStamp()) <= finalT,
+    );
+  }
+
+  // keeps the transactions committed up to (and including) the given block
+  public pruneStateAtBlock(blockNumber: string): void {
+    const block = BigInt(blockNumber);
+    for (const tx of this.transactions) {
+      if (tx.getBlockNumber() == undefined) {
+        throw new Error(
+          `Transaction ${tx.getId()} of state ${this.id} has no block number`,
+        );
+      }
+    }
+    this.keepTransactions(
+      (tx) => BigInt(tx.getBlockNumber() as string) <= block,
+    );
+  }
+
+  private keepTransactions(keep: (tx: Transaction) => boolean): void {
+    const transactions: Transaction[] = [];
+    const values: string[] = [];
+    this.transactions.forEach((tx, index) => {
+      if (keep(tx)) {
+        transactions.push(tx);
+        values.push(this.values[index]); //state of tx
+      }
+    });
+    this.transactions = transactions;
+    this.values = values;
+  }
+
+  /**
+   * Appends the history captured in a later snapshot of this state. The
+   * transactions already present are skipped, and the state proof is
+   * replaced by one over the latest value that includes the blocks of both.
+   */
+  public appendHistory(delta: State): void {
+    const known = new Set(this.transactions.map((tx) => tx.getId()));
+    delta.getTransactions().forEach((tx, index) => {
+      if (known.has(tx.getId())) {
+        return;
       }
+      this.transactions.push(tx);
+      this.values.push(delta.getValues()[index]);
     });
+    this.version = this.transactions.length;
+
+    const stateProof = new StateProof(
+      this.getValue(),
+      this.version,
+      this.getId(),
+    );
+    const blockHashes = new Set<string>();
+    for (const proof of [...this.stateProof, ...delta.getStateProof()]) {
+      for (const block of proof.getBlocks()) {
+        if (!blockHashes.has(block.blockHash)) {
+          blockHashes.add(block.blockHash);
+          stateProof.addBlock(block);
+        }
+      }
+    }
+    this.stateProof = [stateProof];
   }
 }
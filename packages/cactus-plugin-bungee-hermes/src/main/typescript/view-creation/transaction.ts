@@ -9,6 +9,7 @@ export class Transaction {
   private stateId?: string;
   private payload?: string;
   private target?: string;
+  private blockNumber?: string;
 
   constructor(id: string, timeStamp: string, proof: TransactionProof) {
     this.id = id;
@@ -37,9 +38,13 @@ export class Transaction {
     return this.stateId;
   }
 
-  //public setBlockN(n: number) {
-  //  this.blockN = n;
-  //}
+  public getBlockNumber() {
+    return this.blockNumber;
+  }
+
+  public setBlockNumber(blockNumber: string) {
+    this.blockNumber = blockNumber;
+  }
 
   public setTarget(target: string) {
     this.target = target;
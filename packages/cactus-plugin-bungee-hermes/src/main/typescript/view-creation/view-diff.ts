@@ -0,0 +1,175 @@
+import { v4 as uuidV4 } from "uuid";
+import MerkleTree from "merkletreejs";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { Snapshot } from "./snapshot";
+import { State } from "./state";
+import { Transaction } from "./transaction";
+
+export interface IStateChange {
+  stateId: string;
+  previousVersion: string;
+  currentVersion: string;
+  previousValue: string;
+  currentValue: string;
+  // the transactions committed between the two snapshots
+  transactions: Transaction[];
+}
+
+/**
+ * What changed in a network between two of its snapshots: the states that
+ * appeared, the ones that are no longer captured, and the new transactions
+ * and values of the ones present in both.
+ */
+export class ViewDiff {
+  private key: string;
+  private creator: string;
+  private participant: string;
+  private fromSnapshotId: string;
+  private toSnapshotId: string;
+  private tI: string;
+  private tF: string;
+  private addedStates: State[] = [];
+  private removedStates: string[] = [];
+  private changedStates: IStateChange[] = [];
+  private diffProof: {
+    transactionsMerkleRoot: string;
+    statesMerkleRoot: string;
+  };
+
+  constructor(
+    creator: string,
+    from: Snapshot,
+    to: Snapshot,
+    id: string | undefined,
+  ) {
+    if (from.getParticipant() !== to.getParticipant()) {
+      throw new Error(
+        `Cannot diff snapshots of different participants: ${from.getParticipant()} and ${to.getParticipant()}`,
+      );
+    }
+    this.key = id ? id : uuidV4();
+    this.creator = creator;
+    this.participant = to.getParticipant();
+    this.fromSnapshotId = from.getId();
+    this.toSnapshotId = to.getId();
+    this.tI = from.getTF();
+    this.tF = to.getTF();
+
+    const previousStates = new Map<string, State>();
+    for (const state of from.getStateBins()) {
+      previousStates.set(state.getId(), state);
+    }
+    for (const state of to.getStateBins()) {
+      const previous = previousStates.get(state.getId());
+      previousStates.delete(state.getId());
+      if (!previous) {
+        this.addedStates.push(state);
+        continue;
+      }
+      const known = new Set(previous.getTransactions().map((tx) => tx.getId()));
+      const transactions = state
+        .getTransactions()
+        .filter((tx) => !known.has(tx.getId()));
+      if (
+        transactions.length == 0 &&
+        state.getValue() === previous.getValue()
+      ) {
+        continue;
+      }
+      this.changedStates.push({
+        stateId: state.getId(),
+        previousVersion: previous.getVersion(),
+        currentVersion: state.getVersion(),
+        previousValue: previous.getValue(),
+        currentValue: state.getValue(),
+        transactions,
+      });
+    }
+    this.removedStates = Array.from(previousStates.keys());
+    this.diffProof = this.generateDiffProof(to);
+  }
+
+  public getKey(): string {
+    return this.key;
+  }
+  public getCreator(): string {
+    return this.creator;
+  }
+  public getParticipant(): string {
+    return this.participant;
+  }
+  public getFromSnapshotId(): string {
+    return this.fromSnapshotId;
+  }
+  public getToSnapshotId(): string {
+    return this.toSnapshotId;
+  }
+  public getTI(): string {
+    return this.tI;
+  }
+  public getTF(): string {
+    return this.tF;
+  }
+  public getAddedStates(): State[] {
+    return this.addedStates;
+  }
+  public getRemovedStates(): string[] {
+    return this.removedStates;
+  }
+  public getChangedStates(): IStateChange[] {
+    return this.changedStates;
+  }
+  public getDiffProof(): {
+    transactionsMerkleRoot: string;
+    statesMerkleRoot: string;
+  } {
+    return this.diffProof;
+  }
+
+  public isEmpty(): boolean {
+    return (
+      this.addedStates.length == 0 &&
+      this.removedStates.length == 0 &&
+      this.changedStates.length == 0
+    );
+  }
+
+  // same construction as the view proof, over the states and transactions
+  // that are new in the later snapshot
+  private generateDiffProof(to: Snapshot): {
+    transactionsMerkleRoot: string;
+    statesMerkleRoot: string;
+  } {
+    const changed = new Set(this.changedStates.map((c) => c.stateId));
+    const states: string[] = [];
+    const transactions: string[] = [];
+    for (const state of to.getStateBins()) {
+      if (changed.has(state.getId()) || this.addedStates.includes(state)) {
+        states.push(safeStableStringify(state.getStateProof()));
+      }
+    }
+    for (const state of this.addedStates) {
+      for (const transaction of state.getTransactions()) {
+        transactions.push(safeStableStringify(transaction.getProof()));
+      }
+    }
+    for (const change of this.changedStates) {
+      for (const transaction of change.transactions) {
+        transactions.push(safeStableStringify(transaction.getProof()));
+      }
+    }
+
+    const statesTree = new MerkleTree(states, undefined, {
+      sort: true,
+      hashLeaves: true,
+    });
+    const transactionsTree = new MerkleTree(transactions, undefined, {
+      sort: true,
+      hashLeaves: true,
+    });
+    return {
+      transactionsMerkleRoot: transactionsTree.getRoot().toString("hex"),
+      statesMerkleRoot: statesTree.getRoot().toString("hex"),
+    };
+  }
+}
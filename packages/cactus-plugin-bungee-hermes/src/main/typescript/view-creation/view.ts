@@ -3,7 +3,10 @@ import { Snapshot } from "./snapshot";
 import MerkleTree from "merkletreejs";
 import { Transaction } from "./transaction";
 import { IPrivacyPolicy, IPrivacyPolicyValue } from "./privacy-policies";
-import { PrivacyPolicyOpts } from "../generated/openapi/typescript-axios";
+import {
+  PrivacyPolicyDefinition,
+  PrivacyPolicyOpts,
+} from "../generated/openapi/typescript-axios";
 import { JsObjectSigner } from "@hyperledger/cactus-common";
 import { stringify as safeStableStringify } from "safe-stable-stringify";
 
@@ -149,6 +152,19 @@ export class View {
       policyHash: signer.dataHash(func.toString()),
     };
   }
+  // the hash covers the rules, so equal definitions hash equally anywhere
+  public setDeclarativePrivacyPolicy(
+    definition: PrivacyPolicyDefinition,
+    policyName: string | undefined,
+    signer: JsObjectSigner,
+  ) {
+    this.policy = {
+      policy: PrivacyPolicyOpts.Declarative,
+      policyHash: signer.dataHash(safeStableStringify(definition)),
+      policyName,
+      definition,
+    };
+  }
 
   public setParticipant(participant: string) {
     this.participant = participant;
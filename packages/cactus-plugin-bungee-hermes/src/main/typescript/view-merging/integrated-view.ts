@@ -6,7 +6,10 @@ import { IMergePolicy, IMergePolicyValue } from "./merge-policies";
 
 import { Transaction } from "../view-creation/transaction";
 import { IViewMetadata } from "../view-creation/view";
-import { MergePolicyOpts } from "../generated/openapi/typescript-axios";
+import {
+  MergePolicyDefinition,
+  MergePolicyOpts,
+} from "../generated/openapi/typescript-axios";
 import { JsObjectSigner } from "@hyperledger/cactus-common";
 import { stringify as safeStableStringify } from "safe-stable-stringify";
 
@@ -53,6 +56,21 @@ export class IntegratedView {
   public addIncludedViewMetadata(data: IViewMetadata) {
     this.viewsMetadata.push(data);
   }
+  public getIncludedViewsMetadata(): IViewMetadata[] {
+    return this.viewsMetadata;
+  }
+  public setDeclarativeMergePolicy(
+    definition: MergePolicyDefinition,
+    policyName: string | undefined,
+    signer: JsObjectSigner,
+  ) {
+    this.privacyPolicy = {
+      policy: MergePolicyOpts.Declarative,
+      policyHash: signer.dataHash(safeStableStringify(definition)),
+      policyName,
+      definition,
+    };
+  }
   public setTI(tI: string) {
     this.tI = tI;
   }
@@ -76,6 +94,10 @@ export class IntegratedView {
     this.integratedViewProof = this.generateIntegratedViewProof();
   }
 
+  public getPolicy(): IMergePolicyValue {
+    return this.privacyPolicy;
+  }
+
   public getIntegratedViewProof(): {
     transactionsMerkleRoot: string;
     statesMerkleRoot: string;
@@ -1,4 +1,10 @@
-import { MergePolicyOpts } from "../generated/openapi/typescript-axios";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import {
+  MergePolicyDefinition,
+  MergePolicyOpts,
+  MergePolicyRule,
+  MergePolicyRuleType,
+} from "../generated/openapi/typescript-axios";
 import { IntegratedView } from "./integrated-view";
 export interface IMergePolicy {
   (view: IntegratedView, ...args: string[]): IntegratedView;
@@ -7,6 +13,9 @@ export interface IMergePolicy {
 export interface IMergePolicyValue {
   policy: MergePolicyOpts;
   policyHash?: string; //undefined if policy is NONE
+  // only for declarative policies
+  policyName?: string;
+  definition?: MergePolicyDefinition;
 }
 
 // Type guard for MergePolicyOpts
@@ -36,7 +45,67 @@ export function isMergePolicyValueArray(
   return Array.isArray(input) && input.every(isMergePolicyValue);
 }
 
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+// Type guard for MergePolicyRule, including the fields each rule needs
+export function isMergePolicyRule(obj: unknown): obj is MergePolicyRule {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const rule = obj as Record<string, unknown>;
+  if (
+    !Object.values(MergePolicyRuleType).includes(
+      rule.rule as MergePolicyRuleType,
+    ) ||
+    (rule.stateIds !== undefined && !isStringArray(rule.stateIds)) ||
+    (rule.viewId !== undefined && typeof rule.viewId !== "string") ||
+    (rule.policyName !== undefined && typeof rule.policyName !== "string")
+  ) {
+    return false;
+  }
+  switch (rule.rule) {
+    case MergePolicyRuleType.AllowStates:
+    case MergePolicyRuleType.DenyStates:
+      return rule.stateIds !== undefined;
+    case MergePolicyRuleType.PruneStateFromView:
+      return rule.stateIds !== undefined && rule.viewId !== undefined;
+    case MergePolicyRuleType.Include:
+      return rule.policyName !== undefined;
+    default:
+      return true;
+  }
+}
+
+// Type guard for MergePolicyDefinition
+export function isMergePolicyDefinition(
+  obj: unknown,
+): obj is MergePolicyDefinition {
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    Array.isArray((obj as Record<string, unknown>).rules) &&
+    ((obj as Record<string, unknown>).rules as unknown[]).every(
+      isMergePolicyRule,
+    ) &&
+    ((obj as Record<string, unknown>).description === undefined ||
+      typeof (obj as Record<string, unknown>).description === "string")
+  );
+}
+
+// Policies composed in order, as a single definition
+export function composeMergePolicies(
+  ...definitions: MergePolicyDefinition[]
+): MergePolicyDefinition {
+  return { rules: definitions.flatMap((definition) => definition.rules) };
+}
+
 export class MergePolicies {
+  private definitions = new Map<string, MergePolicyDefinition>();
+
   constructor() {}
 
   public pruneState(view: IntegratedView, stateId: string): IntegratedView {
@@ -69,4 +138,129 @@ export class MergePolicies {
         break;
     }
   }
+
+  public addPolicyDefinition(
+    name: string,
+    definition: MergePolicyDefinition,
+  ): void {
+    if (!isMergePolicyDefinition(definition)) {
+      throw new Error(`Invalid merge policy definition ${name}`);
+    }
+    const registered = this.definitions.get(name);
+    if (
+      registered &&
+      safeStableStringify(registered) !== safeStableStringify(definition)
+    ) {
+      throw new Error(
+        `Merge policy ${name} is already registered with other rules`,
+      );
+    }
+    // fails on unknown or circular includes before anything is registered
+    this.resolvePolicyDefinition(definition, [name]);
+    this.definitions.set(name, definition);
+  }
+
+  public getPolicyDefinition(name: string): MergePolicyDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  public getPolicyDefinitionNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  // inlines the rules of the included policies, see PrivacyPolicies
+  public resolvePolicyDefinition(
+    definition: MergePolicyDefinition,
+    including: string[] = [],
+  ): MergePolicyDefinition {
+    const rules: MergePolicyRule[] = [];
+    for (const rule of definition.rules) {
+      if (rule.rule !== MergePolicyRuleType.Include) {
+        rules.push(rule);
+        continue;
+      }
+      const name = rule.policyName as string;
+      if (including.includes(name)) {
+        throw new Error(`Merge policy ${name} includes itself`);
+      }
+      const included = this.definitions.get(name);
+      if (!included) {
+        throw new Error(`Merge policy ${name} is not registered`);
+      }
+      rules.push(
+        ...this.resolvePolicyDefinition(included, [...including, name]).rules,
+      );
+    }
+    return definition.description === undefined
+      ? { rules }
+      : { description: definition.description, rules };
+  }
+
+  // the definition must already be resolved
+  public applyPolicyDefinition(
+    view: IntegratedView,
+    definition: MergePolicyDefinition,
+  ): IntegratedView {
+    for (const rule of definition.rules) {
+      this.applyRule(view, rule);
+    }
+    return view;
+  }
+
+  private applyRule(view: IntegratedView, rule: MergePolicyRule): void {
+    const extendedStates = view.getExtendedStates();
+    switch (rule.rule) {
+      case MergePolicyRuleType.Union:
+        // every state of every view, which is how views are merged
+        break;
+      case MergePolicyRuleType.Intersection: {
+        const views = view.getIncludedViewsMetadata().length;
+        for (const [stateId, extendedState] of extendedStates) {
+          if (extendedState.getStates().size < views) {
+            extendedStates.delete(stateId);
+          }
+        }
+        break;
+      }
+      case MergePolicyRuleType.LastWriterWins:
+        // keeps the version of each state with the latest transaction, the
+        // later view wins on ties
+        for (const extendedState of extendedStates.values()) {
+          let latest: string | undefined;
+          let latestTime = BigInt(-1);
+          for (const [viewId, state] of extendedState.getStates()) {
+            const finalTime = BigInt(state.getFinalTime() || "0");
+            if (finalTime >= latestTime) {
+              latest = viewId;
+              latestTime = finalTime;
+            }
+          }
+          for (const viewId of Array.from(extendedState.getStates().keys())) {
+            if (viewId !== latest) {
+              extendedState.getStates().delete(viewId);
+            }
+          }
+        }
+        break;
+      case MergePolicyRuleType.AllowStates:
+        for (const stateId of Array.from(extendedStates.keys())) {
+          if (!(rule.stateIds as string[]).includes(stateId)) {
+            extendedStates.delete(stateId);
+          }
+        }
+        break;
+      case MergePolicyRuleType.DenyStates:
+        for (const stateId of rule.stateIds as string[]) {
+          this.pruneState(view, stateId);
+        }
+        break;
+      case MergePolicyRuleType.PruneStateFromView:
+        for (const stateId of rule.stateIds as string[]) {
+          this.pruneStateFromView(view, stateId, rule.viewId as string);
+        }
+        break;
+      default:
+        throw new Error(`Unsupported merge policy rule ${rule.rule}`);
+    }
+  }
 }
@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+/**
+ * Command line tool to verify, offline, a view or integrated view exported by
+ * Bungee Hermes (the output of createViewV1, processViewV1 or mergeViewsV1).
+ * Prints the verification report as JSON and exits with 0 when the view is
+ * valid, 1 when some check failed and 2 on usage or input errors. A view is
+ * only valid when signed by the --signer key, or attested by --threshold of
+ * the --trusted-attester keys: the creator a view claims is not trusted.
+ *
+ * Usage:
+ *  After installing the plugin package...
+ *    `npm install @hyperledger/cactus-plugin-bungee-hermes`
+ *  ...you can start the command line tool with npx:
+ *    `npx cacti-bungee-verify-view <VIEW_FILE> [--attestations <FILE>] [--trusted-attester <PUBKEY>]... [--threshold <N>] [--signer <PUBKEY>]`
+ *
+ * The attestations file holds a JSON array of { attester, signature }, as
+ * returned by attestViewV1 of each Bungee instance.
+ */
+
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  IViewAttestation,
+  IVerifyOptions,
+  ViewVerifier,
+} from "../main/typescript/public-api";
+
+function main(viewFile: string, options: IVerifyOptions) {
+  try {
+    const exported = fs.readFileSync(viewFile, "utf8");
+    const report = new ViewVerifier({ logLevel: "WARN" }).verify(
+      exported,
+      options,
+    );
+    console.log(JSON.stringify(report, null, 2));
+    process.exit(report.valid ? 0 : 1);
+  } catch (error: unknown) {
+    console.error(`Error: ${error}`);
+    process.exit(2);
+  }
+}
+
+function readAttestations(file: string): IViewAttestation[] {
+  const attestations = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(attestations)) {
+    throw new Error(`${file} does not hold an array of attestations`);
+  }
+  return attestations;
+}
+
+function showHelp(): never {
+  const scriptName = path.basename(__filename);
+  console.log(
+    `Usage: ${scriptName} <VIEW_FILE> [-h|--help] [--attestations <FILE>] [--trusted-attester <PUBKEY>]... [--threshold <N>] [--signer <PUBKEY>]`,
+  );
+  process.exit(2);
+}
+
+function parseCommandLine() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        help: { type: "boolean", short: "h" },
+        attestations: { type: "string" },
+        "trusted-attester": { type: "string", multiple: true },
+        threshold: { type: "string" },
+        signer: { type: "string" },
+      },
+    });
+  } catch (err) {
+    console.error(`${err}`);
+    showHelp();
+  }
+}
+
+if (require.main === module) {
+  const args = parseCommandLine();
+  if (args.values.help || args.positionals.length !== 1) {
+    showHelp();
+  }
+  const { values, positionals } = args;
+
+  const threshold =
+    values.threshold != undefined ? Number(values.threshold) : undefined;
+  if (
+    threshold != undefined &&
+    (!Number.isInteger(threshold) || threshold < 1)
+  ) {
+    console.error("--threshold must be a positive integer");
+    showHelp();
+  }
+
+  let attestations: IViewAttestation[] | undefined;
+  try {
+    attestations = values.attestations
+      ? readAttestations(values.attestations)
+      : undefined;
+  } catch (err) {
+    console.error(`${err}`);
+    process.exit(2);
+  }
+
+  main(positionals[0], {
+    attestations,
+    trustedAttesters: values["trusted-attester"],
+    threshold,
+    signerPublicKey: values.signer,
+  });
+}
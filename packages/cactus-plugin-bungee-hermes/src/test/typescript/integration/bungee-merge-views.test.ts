@@ -42,6 +42,7 @@ import {
 import {
   DefaultApi as BungeeApi,
   MergePolicyOpts,
+  MergePolicyRuleType,
 } from "../../../main/typescript/generated/openapi/typescript-axios/api";
 import {
   BesuNetworkDetails,
@@ -440,6 +441,66 @@ test.each([{ apiPath: true }, { apiPath: false }])(
     ).toBe(2);
     //1 state captured in first view, and only 1 in the second (because of policy)
     expect(mergeViewsWithPolicy2.integratedView.getAllStates().length).toBe(2);
+
+    //declarative policy, registered through the API: the states present in
+    //both views, in their latest version
+    const mergeViewsDeclarativeReq = await bungeeApi.mergeViewsV1({
+      serializedViews: [
+        safeStableStringify({
+          view: safeStableStringify(view.view as View),
+          signature: view.signature,
+        })!,
+        safeStableStringify({
+          view: safeStableStringify(view2.view as View),
+          signature: view2.signature,
+        })!,
+      ],
+      mergePolicy: MergePolicyOpts.Declarative,
+      mergePolicyName: "latest-common-states",
+      mergePolicyDefinition: {
+        rules: [
+          { rule: MergePolicyRuleType.Intersection },
+          { rule: MergePolicyRuleType.LastWriterWins },
+        ],
+      },
+    });
+    expect(mergeViewsDeclarativeReq.status).toBe(200);
+    expect(mergeViewsDeclarativeReq.data.integratedView).toBeTruthy();
+
+    const mergeViewsDeclarative = bungee.mergeViewsDeclarative(
+      [view.view as View, view2.view as View],
+      [view.signature as string, view2.signature as string],
+      "latest-common-states",
+    );
+    //BESU_ASSET_ID is the only state in both views, and the second view has
+    //its latest version, with 2 transactions
+    expect(mergeViewsDeclarative.integratedView.getAllStates().length).toBe(1);
+    expect(
+      mergeViewsDeclarative.integratedView.getAllTransactions().length,
+    ).toBe(2);
+
+    //the policy hash only depends on the rules
+    const policy = mergeViewsDeclarative.integratedView.getPolicy();
+    expect(policy.policy).toBe(MergePolicyOpts.Declarative);
+    expect(policy.policyHash).toBe(
+      JSON.parse(mergeViewsDeclarativeReq.data.integratedView as string)
+        .integratedView.privacyPolicy.policyHash,
+    );
+    const composed = bungee.mergeViewsDeclarative(
+      [view.view as View, view2.view as View],
+      [view.signature as string, view2.signature as string],
+      {
+        rules: [
+          {
+            rule: MergePolicyRuleType.Include,
+            policyName: "latest-common-states",
+          },
+        ],
+      },
+    );
+    expect(composed.integratedView.getPolicy().policyHash).toBe(
+      policy.policyHash,
+    );
   },
 );
 
@@ -43,6 +43,7 @@ import {
 import {
   DefaultApi as BungeeApi,
   PrivacyPolicyOpts,
+  PrivacyPolicyRuleType,
 } from "../../../main/typescript/generated/openapi/typescript-axios/api";
 import {
   BesuNetworkDetails,
@@ -377,6 +378,49 @@ test.each([{ apiPath: true }, { apiPath: false }])(
       view.signature,
     );
     expect(processedView.getAllTransactions().length).toBe(1);
+
+    //declarative policy including one registered through the plugin API
+    bungee.addPrivacyPolicy("hash-values", {
+      rules: [{ rule: PrivacyPolicyRuleType.HashValues }],
+    });
+    const processedDeclarative = await bungeeApi.processViewV1({
+      serializedView: safeStableStringify({
+        view: safeStableStringify(view.view as View),
+        signature: view.signature,
+      })!,
+      policyId: PrivacyPolicyOpts.Declarative,
+      policyArguments: [],
+      policyDefinition: {
+        rules: [
+          { rule: PrivacyPolicyRuleType.TimeWindow, tI: "0" },
+          { rule: PrivacyPolicyRuleType.Include, policyName: "hash-values" },
+        ],
+      },
+    });
+    expect(processedDeclarative.status).toBe(200);
+
+    const declarativeView = deserializeView(
+      safeStableStringify(processedDeclarative.data),
+    );
+    const originalValue = (view.view as View)
+      .getSnapshot()
+      .getStateBins()[0]
+      .getValue();
+    const hashedValue = declarativeView
+      .getSnapshot()
+      .getStateBins()[0]
+      .getValue();
+    expect(hashedValue).not.toEqual(originalValue);
+    expect(hashedValue).toHaveLength(64);
+
+    //the view records the rules applied, with the include resolved
+    const policy = declarativeView.getPolicy();
+    expect(policy?.policy).toBe(PrivacyPolicyOpts.Declarative);
+    expect(policy?.policyHash).toBeTruthy();
+    expect(policy?.definition?.rules.map((rule) => rule.rule)).toEqual([
+      PrivacyPolicyRuleType.TimeWindow,
+      PrivacyPolicyRuleType.HashValues,
+    ]);
   },
 );
 
@@ -0,0 +1,511 @@
+import {
+  IListenOptions,
+  LogLevelDesc,
+  LoggerProvider,
+  Secp256k1Keys,
+  Servers,
+} from "@hyperledger/cactus-common";
+import "jest-extended";
+import LockAssetContractJson from "../solidity/lock-asset-contract/LockAsset.json";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { PluginKeychainMemory } from "@hyperledger/cactus-plugin-keychain-memory";
+import bodyParser from "body-parser";
+
+import http, { Server } from "http";
+import { Server as SocketIoServer } from "socket.io";
+
+import express from "express";
+import { AddressInfo } from "net";
+import { v4 as uuidv4 } from "uuid";
+import {
+  BesuTestLedger,
+  pruneDockerAllIfGithubAction,
+  Containers,
+} from "@hyperledger/cactus-test-tooling";
+import { Configuration, Constants } from "@hyperledger/cactus-core-api";
+import {
+  Web3SigningCredentialType,
+  PluginLedgerConnectorBesu,
+  EthContractInvocationType,
+  ReceiptType,
+  IPluginLedgerConnectorBesuOptions,
+  Web3SigningCredential,
+} from "@hyperledger/cactus-plugin-ledger-connector-besu";
+import Web3 from "web3";
+import { Account } from "web3-core";
+import {
+  PluginBungeeHermes,
+  IPluginBungeeHermesOptions,
+} from "../../../main/typescript/plugin-bungee-hermes";
+import {
+  DefaultApi as BungeeApi,
+  MergePolicyOpts,
+  PrivacyPolicyOpts,
+} from "../../../main/typescript/generated/openapi/typescript-axios/api";
+import {
+  BesuNetworkDetails,
+  StrategyBesu,
+} from "../../../main/typescript/strategy/strategy-besu";
+import { View } from "../../../main/typescript/view-creation/view";
+import { ViewVerifier } from "../../../main/typescript/verification/view-verifier";
+const logLevel: LogLevelDesc = "INFO";
+
+let besuLedger: BesuTestLedger;
+let contractName: string;
+
+let rpcApiHttpHost: string;
+let rpcApiWsHost: string;
+let web3: Web3;
+let firstHighNetWorthAccount: string;
+let connector: PluginLedgerConnectorBesu;
+let besuKeyPair: { privateKey: string };
+let testEthAccount: Account;
+const BESU_ASSET_ID = uuidv4();
+
+const log = LoggerProvider.getOrCreate({
+  level: logLevel,
+  label: "BUNGEE - Hermes",
+});
+let besuPath: string;
+let pluginBungeeHermesOptions: IPluginBungeeHermesOptions;
+let besuServer: Server;
+
+let bungeeSigningCredential: Web3SigningCredential;
+let bungeeKeychainId: string;
+let bungeeContractAddress: string;
+let bungeeServer: Server;
+
+let keychainPlugin: PluginKeychainMemory;
+
+let networkDetailsList: BesuNetworkDetails[];
+
+beforeEach(async () => {
+  pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+
+  {
+    besuLedger = new BesuTestLedger({
+      logLevel,
+      emitContainerLogs: true,
+      envVars: ["BESU_NETWORK=dev"],
+    });
+    await besuLedger.start();
+
+    rpcApiHttpHost = await besuLedger.getRpcApiHttpHost();
+    rpcApiWsHost = await besuLedger.getRpcApiWsHost();
+    web3 = new Web3(rpcApiHttpHost);
+    firstHighNetWorthAccount = besuLedger.getGenesisAccountPubKey();
+
+    testEthAccount = await besuLedger.createEthTestAccount();
+
+    besuKeyPair = {
+      privateKey: besuLedger.getGenesisAccountPrivKey(),
+    };
+
+    contractName = "LockAsset";
+
+    const keychainEntryValue = besuKeyPair.privateKey;
+    const keychainEntryKey = uuidv4();
+    keychainPlugin = new PluginKeychainMemory({
+      instanceId: uuidv4(),
+      keychainId: uuidv4(),
+
+      backend: new Map([[keychainEntryKey, keychainEntryValue]]),
+      logLevel,
+    });
+    keychainPlugin.set(
+      LockAssetContractJson.contractName,
+      safeStableStringify(LockAssetContractJson),
+    );
+
+    const pluginRegistry = new PluginRegistry({
+      plugins: [keychainPlugin],
+    });
+
+    const options: IPluginLedgerConnectorBesuOptions = {
+      instanceId: uuidv4(),
+      rpcApiHttpHost,
+      rpcApiWsHost,
+      pluginRegistry,
+      logLevel,
+    };
+    connector = new PluginLedgerConnectorBesu(options);
+    pluginRegistry.add(connector);
+
+    const expressApp = express();
+    expressApp.use(bodyParser.json({ limit: "250mb" }));
+    besuServer = http.createServer(expressApp);
+    const listenOptions: IListenOptions = {
+      hostname: "127.0.0.1",
+      port: 4000,
+      server: besuServer,
+    };
+    const addressInfo = (await Servers.listen(listenOptions)) as AddressInfo;
+    const { address, port } = addressInfo;
+
+    await connector.getOrCreateWebServices();
+    const wsApi = new SocketIoServer(besuServer, {
+      path: Constants.SocketIoConnectionPathV1,
+    });
+    await connector.registerWebServices(expressApp, wsApi);
+    besuPath = `http://${address}:${port}`;
+
+    await connector.transact({
+      web3SigningCredential: {
+        ethAccount: firstHighNetWorthAccount,
+        secret: besuKeyPair.privateKey,
+        type: Web3SigningCredentialType.PrivateKeyHex,
+      },
+      consistencyStrategy: {
+        blockConfirmations: 0,
+        receiptType: ReceiptType.NodeTxPoolAck,
+      },
+      transactionConfig: {
+        from: firstHighNetWorthAccount,
+        to: testEthAccount.address,
+        value: 10e9,
+        gas: 1000000,
+      },
+    });
+    const balance = await web3.eth.getBalance(testEthAccount.address);
+    expect(balance).toBeTruthy();
+    expect(parseInt(balance, 10)).toBeGreaterThan(10e9);
+
+    log.info("Connector initialized");
+
+    const deployOut = await connector.deployContract({
+      keychainId: keychainPlugin.getKeychainId(),
+      contractName: LockAssetContractJson.contractName,
+      contractAbi: LockAssetContractJson.abi,
+      constructorArgs: [],
+      web3SigningCredential: {
+        ethAccount: firstHighNetWorthAccount,
+        secret: besuKeyPair.privateKey,
+        type: Web3SigningCredentialType.PrivateKeyHex,
+      },
+      bytecode: LockAssetContractJson.bytecode,
+      gas: 1000000,
+    });
+    expect(deployOut).toBeTruthy();
+    expect(deployOut.transactionReceipt).toBeTruthy();
+    expect(deployOut.transactionReceipt.contractAddress).toBeTruthy();
+    log.info("Contract Deployed successfully");
+
+    const res = await connector.invokeContract({
+      contractName,
+      keychainId: keychainPlugin.getKeychainId(),
+      invocationType: EthContractInvocationType.Send,
+      methodName: "createAsset",
+      params: [BESU_ASSET_ID, 19],
+      signingCredential: {
+        ethAccount: firstHighNetWorthAccount,
+        secret: besuKeyPair.privateKey,
+        type: Web3SigningCredentialType.PrivateKeyHex,
+      },
+      gas: 1000000,
+    });
+    expect(res).toBeTruthy();
+    expect(res.success).toBeTruthy();
+
+    const res3 = await connector.invokeContract({
+      contractName,
+      keychainId: keychainPlugin.getKeychainId(),
+      invocationType: EthContractInvocationType.Call,
+      methodName: "getAsset",
+      params: [BESU_ASSET_ID],
+      signingCredential: {
+        ethAccount: firstHighNetWorthAccount,
+        secret: besuKeyPair.privateKey,
+        type: Web3SigningCredentialType.PrivateKeyHex,
+      },
+      gas: 1000000,
+    });
+    expect(res3).toBeTruthy();
+    expect(res3.success).toBeTruthy();
+    expect(res3.callOutput.toString()).toBeTruthy();
+
+    bungeeSigningCredential = {
+      ethAccount: firstHighNetWorthAccount,
+      secret: besuKeyPair.privateKey,
+      type: Web3SigningCredentialType.PrivateKeyHex,
+    };
+    bungeeKeychainId = keychainPlugin.getKeychainId();
+
+    bungeeContractAddress = deployOut.transactionReceipt
+      .contractAddress as string;
+
+    pluginBungeeHermesOptions = {
+      pluginRegistry,
+      keyPair: Secp256k1Keys.generateKeyPairsBuffer(),
+      instanceId: uuidv4(),
+      logLevel,
+    };
+  }
+  networkDetailsList = [
+    {
+      signingCredential: bungeeSigningCredential,
+      contractName,
+      connectorApiPath: besuPath,
+      keychainId: bungeeKeychainId,
+      contractAddress: bungeeContractAddress,
+      participant: firstHighNetWorthAccount,
+    } as BesuNetworkDetails,
+    {
+      signingCredential: bungeeSigningCredential,
+      contractName,
+      connector: connector,
+      keychainId: bungeeKeychainId,
+      contractAddress: bungeeContractAddress,
+      participant: firstHighNetWorthAccount,
+    } as BesuNetworkDetails,
+  ];
+});
+
+test.each([{ apiPath: true }, { apiPath: false }])(
+  //test for both BesuApiPath and BesuConnector
+  "test offline verification and attestations of views",
+  async ({ apiPath }) => {
+    let networkDetails: BesuNetworkDetails;
+    if (apiPath) {
+      networkDetails = networkDetailsList[0];
+    } else {
+      networkDetails = networkDetailsList[1];
+    }
+    const bungee = new PluginBungeeHermes(pluginBungeeHermesOptions);
+    const strategy = "BESU";
+    bungee.addStrategy(strategy, new StrategyBesu("INFO"));
+    //a second instance, with its own key, attests the same views
+    const bungee2 = new PluginBungeeHermes({
+      ...pluginBungeeHermesOptions,
+      keyPair: Secp256k1Keys.generateKeyPairsBuffer(),
+      instanceId: uuidv4(),
+      trustedViewSigners: [bungee.getPublicKey()],
+    });
+
+    const snapshot = await bungee.generateSnapshot(
+      [],
+      strategy,
+      networkDetails,
+    );
+    const view = bungee.generateView(
+      snapshot,
+      "0",
+      Number.MAX_SAFE_INTEGER.toString(),
+      undefined,
+    );
+    expect(view.view).toBeTruthy();
+    expect(view.signature).toBeTruthy();
+    const serializedView = safeStableStringify({
+      view: safeStableStringify(view.view as View),
+      signature: view.signature,
+    }) as string;
+
+    const verifier = new ViewVerifier({ logLevel });
+    const signerPublicKey = bungee.getPublicKey();
+    const report = verifier.verify(serializedView, { signerPublicKey });
+    expect(report.valid).toBeTrue();
+    expect(report.kind).toBe("view");
+    expect(report.id).toBe(view.view?.getKey());
+    for (const name of [
+      "view signature",
+      "states merkle root",
+      "transactions merkle root",
+      "state and transaction proofs",
+    ]) {
+      expect(report.checks.find((check) => check.name == name)?.status).toBe(
+        "passed",
+      );
+    }
+
+    //changing a value breaks the states merkle root and the signature
+    const tamperedView = JSON.parse(safeStableStringify(view.view as View));
+    tamperedView.snapshot.stateBins[0].stateProof[0].value = "tampered";
+    const tampered = safeStableStringify({
+      view: safeStableStringify(tamperedView),
+      signature: view.signature,
+    }) as string;
+    const tamperedReport = verifier.verify(tampered, { signerPublicKey });
+    expect(tamperedReport.valid).toBeFalse();
+    const failed = tamperedReport.checks
+      .filter((check) => check.status == "failed")
+      .map((check) => check.name);
+    expect(failed).toContain("view signature");
+    expect(failed).toContain("states merkle root");
+
+    //the creator a view claims is not trusted, anyone can sign a view
+    const forger = new PluginBungeeHermes({
+      ...pluginBungeeHermesOptions,
+      keyPair: Secp256k1Keys.generateKeyPairsBuffer(),
+      instanceId: uuidv4(),
+    });
+    const forgedView = safeStableStringify({
+      ...JSON.parse(safeStableStringify(view.view as View) as string),
+      creator: forger.getPublicKey(),
+    }) as string;
+    const forged = safeStableStringify({
+      view: forgedView,
+      signature: forger.sign(forgedView),
+    }) as string;
+    const forgedReport = verifier.verify(forged);
+    expect(forgedReport.valid).toBeFalse();
+    expect(
+      forgedReport.checks.find((check) => check.name == "view signature")
+        ?.status,
+    ).toBe("untrusted");
+    expect(verifier.verify(forged, { signerPublicKey }).valid).toBeFalse();
+    expect(verifier.verify(serializedView).valid).toBeFalse();
+
+    //processed views carry the hash of their policy
+    const processed = bungee.onProcessView({
+      serializedView,
+      policyId: PrivacyPolicyOpts.PruneState,
+      policyArguments: [BESU_ASSET_ID],
+    });
+    const processedReport = verifier.verify(safeStableStringify(processed), {
+      signerPublicKey,
+    });
+    expect(processedReport.valid).toBeTrue();
+    expect(
+      processedReport.checks.find((check) => check.name == "view policy hash")
+        ?.status,
+    ).toBe("passed");
+
+    const expressApp = express();
+    expressApp.use(bodyParser.json({ limit: "250mb" }));
+    bungeeServer = http.createServer(expressApp);
+    const listenOptions: IListenOptions = {
+      hostname: "127.0.0.1",
+      port: 3000,
+      server: bungeeServer,
+    };
+    const addressInfo = (await Servers.listen(listenOptions)) as AddressInfo;
+    const { address, port } = addressInfo;
+
+    await bungee.getOrCreateWebServices();
+    await bungee.registerWebServices(expressApp);
+    const bungeePath = `http://${address}:${port}`;
+
+    const config = new Configuration({ basePath: bungeePath });
+    const bungeeApi = new BungeeApi(config);
+
+    const attestationReq = await bungeeApi.attestViewV1({ serializedView });
+    expect(attestationReq.status).toBe(200);
+    expect(attestationReq.data.attester).toBe(bungee.getPublicKey());
+    const attestations = [
+      attestationReq.data,
+      bungee2.attestView(serializedView),
+    ];
+
+    const trustedAttesters = [bungee.getPublicKey(), bungee2.getPublicKey()];
+    expect(
+      verifier.verify(serializedView, {
+        attestations,
+        trustedAttesters,
+        threshold: 2,
+      }).valid,
+    ).toBeTrue();
+    //attestations of the same instance are only counted once
+    expect(
+      verifier.verify(serializedView, {
+        attestations: [attestations[0], attestations[0]],
+        trustedAttesters,
+        threshold: 2,
+      }).valid,
+    ).toBeFalse();
+    //untrusted attesters are not counted
+    expect(
+      verifier.verify(serializedView, {
+        attestations,
+        trustedAttesters: [bungee.getPublicKey()],
+        threshold: 2,
+      }).valid,
+    ).toBeFalse();
+    //attestations do not carry over to other views
+    expect(
+      verifier.verify(safeStableStringify(processed), {
+        attestations,
+        trustedAttesters,
+      }).valid,
+    ).toBeFalse();
+
+    //attestations of attesters that were not given are not counted
+    expect(
+      verifier.verify(serializedView, {
+        attestations,
+        threshold: 2,
+      }).valid,
+    ).toBeFalse();
+    //attestations stand in for a trusted signer
+    expect(
+      verifier
+        .verify(serializedView, {
+          attestations,
+          trustedAttesters,
+          threshold: 2,
+        })
+        .checks.find((check) => check.name == "view signature")?.status,
+    ).toBe("untrusted");
+
+    //tampered views, and views of signers they do not trust, are not attested
+    await expect(
+      bungeeApi.attestViewV1({ serializedView: tampered }),
+    ).rejects.toBeTruthy();
+    expect(() => bungee2.attestView(tampered)).toThrow();
+    await expect(
+      bungeeApi.attestViewV1({ serializedView: forged }),
+    ).rejects.toBeTruthy();
+    expect(() => bungee2.attestView(forged)).toThrow();
+
+    const mergeViewsReq = await bungeeApi.mergeViewsV1({
+      serializedViews: [serializedView, safeStableStringify(processed)!],
+      mergePolicy: MergePolicyOpts.NONE,
+    });
+    expect(mergeViewsReq.status).toBe(200);
+    const serializedIntegratedView = safeStableStringify(
+      mergeViewsReq.data,
+    ) as string;
+
+    const integratedReport = verifier.verify(serializedIntegratedView, {
+      signerPublicKey: bungee.getPublicKey(),
+      attestations: [bungee2.attestView(serializedIntegratedView)],
+      trustedAttesters,
+    });
+    expect(integratedReport.valid).toBeTrue();
+    expect(integratedReport.kind).toBe("integratedView");
+    expect(
+      integratedReport.checks.find(
+        (check) => check.name == "integrated view signature",
+      )?.status,
+    ).toBe("passed");
+    //the integrated view was not signed by the second instance
+    expect(
+      verifier.verify(serializedIntegratedView, {
+        signerPublicKey: bungee2.getPublicKey(),
+      }).valid,
+    ).toBeFalse();
+  },
+);
+
+afterEach(async () => {
+  await Servers.shutdown(besuServer);
+  await Servers.shutdown(bungeeServer);
+  await besuLedger.stop();
+  await besuLedger.destroy();
+
+  await pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+});
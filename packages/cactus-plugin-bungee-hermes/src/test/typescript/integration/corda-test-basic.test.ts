@@ -0,0 +1,284 @@
+import "jest-extended";
+import { v4 as internalIpV4 } from "internal-ip";
+import { v4 as uuidV4 } from "uuid";
+import {
+  LogLevelDesc,
+  Logger,
+  LoggerProvider,
+  Secp256k1Keys,
+} from "@hyperledger/cactus-common";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { Configuration } from "@hyperledger/cactus-core-api";
+import {
+  buildImageConnectorCordaServer,
+  buildImageCordaAllInOneV412,
+  CordaConnectorContainer,
+  CordaTestLedger,
+  pruneDockerAllIfGithubAction,
+  SAMPLE_CORDAPP_DATA,
+  SampleCordappEnum,
+} from "@hyperledger/cactus-test-tooling";
+import {
+  CordappDeploymentConfig,
+  CordaRpcCredentials,
+  createJvmBoolean,
+  createJvmCordaIdentityParty,
+  createJvmLong,
+  DefaultApi as CordaApi,
+  FlowInvocationType,
+  PluginLedgerConnectorCorda,
+} from "@hyperledger/cactus-plugin-ledger-connector-corda";
+import {
+  IPluginBungeeHermesOptions,
+  PluginBungeeHermes,
+} from "../../../main/typescript";
+import {
+  CordaNetworkDetails,
+  StrategyCorda,
+} from "../../../main/typescript/strategy/strategy-corda";
+
+const testLogLevel: LogLevelDesc = "info";
+
+const log: Logger = LoggerProvider.getOrCreate({
+  label: "corda-test-basic.test",
+  level: testLogLevel,
+});
+
+const sampleApp = SampleCordappEnum.ADVANCED_NEGOTIATION;
+const proposalFlow =
+  "net.corda.samples.negotiation.flows.ProposalFlow$Initiator";
+const proposalState = "net.corda.samples.negotiation.states.ProposalState";
+
+describe("Bungee Hermes strategy for Corda", () => {
+  let ledger: CordaTestLedger;
+  let connectorContainer: CordaConnectorContainer;
+  let apiUrl: string;
+  let apiClient: CordaApi;
+  let connector: PluginLedgerConnectorCorda;
+  let pluginBungeeHermesOptions: IPluginBungeeHermesOptions;
+
+  const propose = async (amount: number) => {
+    const { data: networkMap } = await apiClient.networkMapV1();
+    const partyB = networkMap.find((node) =>
+      node.legalIdentities.some((id) => id.name.organisation === "PartyB"),
+    );
+    if (!partyB) {
+      throw new Error("PartyB not found in the network map");
+    }
+    const res = await apiClient.invokeContractV1({
+      flowFullClassName: proposalFlow,
+      flowInvocationType: FlowInvocationType.TrackedFlowDynamic,
+      params: [
+        createJvmBoolean(true),
+        createJvmLong(amount),
+        createJvmCordaIdentityParty({ party: partyB.legalIdentities[0] }),
+      ],
+      timeoutMs: 60000,
+    });
+    expect(res.status).toEqual(200);
+    expect(res.data.success).toBeTrue();
+  };
+
+  beforeAll(async () => {
+    const pruning = pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+    await expect(pruning).toResolve();
+
+    const imgLedger = await buildImageCordaAllInOneV412({
+      logLevel: testLogLevel,
+    });
+    const imgConnectorJvm = await buildImageConnectorCordaServer({
+      logLevel: testLogLevel,
+    });
+
+    ledger = new CordaTestLedger({
+      imageName: imgLedger.imageName,
+      imageVersion: imgLedger.imageVersion,
+      logLevel: testLogLevel,
+      sshPort: 2222,
+      rpcPortNotary: 10003,
+      rpcPortA: 10006,
+      rpcPortB: 10009,
+    });
+    await ledger.start(true);
+    log.info("Corda ledger started");
+
+    const partyARpcPort = await ledger.getRpcAPublicPort();
+    const partyBRpcPort = await ledger.getRpcBPublicPort();
+    const publicSshPort = await ledger.getSSHPublicPort();
+    const lanIp = (await internalIpV4()) as string;
+    expect(lanIp).toBeTruthy();
+
+    const springAppConfig = {
+      logging: { level: { root: "WARN", "org.hyperledger.cactus": "INFO" } },
+      cactus: {
+        corda: {
+          node: { host: lanIp },
+          rpc: { port: partyARpcPort, username: "user1", password: "test" },
+        },
+      },
+    };
+    const envVarSpringAppJson = `SPRING_APPLICATION_JSON=${JSON.stringify(
+      springAppConfig,
+    )}`;
+    connectorContainer = new CordaConnectorContainer({
+      logLevel: testLogLevel,
+      imageName: imgConnectorJvm.imageName,
+      imageVersion: imgConnectorJvm.imageVersion,
+      envVars: [envVarSpringAppJson],
+    });
+    await connectorContainer.start(true);
+    apiUrl = await connectorContainer.getApiLocalhostUrl();
+    apiClient = new CordaApi(new Configuration({ basePath: apiUrl }));
+
+    const sampleAppData = SAMPLE_CORDAPP_DATA[sampleApp];
+    const deploymentConfig = (
+      cordappDir: string,
+      party: string,
+      rpcCredentials: CordaRpcCredentials,
+    ): CordappDeploymentConfig => ({
+      cordappDir,
+      cordaNodeStartCmd: `supervisorctl start corda-${party}`,
+      cordaJarPath: cordappDir.replace("cordapps", "corda.jar"),
+      nodeBaseDirPath: cordappDir.replace("cordapps", ""),
+      rpcCredentials,
+      sshCredentials: {
+        hostKeyEntry: "not-used",
+        hostname: lanIp,
+        password: "root",
+        port: publicSshPort,
+        username: "root",
+      },
+    });
+    const jarFiles = await ledger.pullCordappJars(sampleApp);
+    await ledger.cleanCordapp(sampleApp);
+    const deployRes = await apiClient.deployContractJarsV1({
+      jarFiles,
+      cordappDeploymentConfigs: [
+        deploymentConfig(sampleAppData.cordappDirPartyA, "a", {
+          hostname: lanIp,
+          port: partyARpcPort,
+          username: "user1",
+          password: "test",
+        }),
+        deploymentConfig(sampleAppData.cordappDirPartyB, "b", {
+          hostname: lanIp,
+          port: partyBRpcPort,
+          username: "user1",
+          password: "test",
+        }),
+      ],
+    });
+    expect(deployRes.data.deployedJarFiles.length).toEqual(jarFiles.length);
+
+    const pluginRegistry = new PluginRegistry({ plugins: [] });
+    connector = new PluginLedgerConnectorCorda({
+      instanceId: uuidV4(),
+      sshConfigAdminShell: await ledger.getSshConfig(),
+      corDappsDir: sampleAppData.cordappDirPartyA,
+      apiUrl,
+      logLevel: testLogLevel,
+    });
+
+    await propose(42);
+
+    pluginBungeeHermesOptions = {
+      pluginRegistry,
+      keyPair: Secp256k1Keys.generateKeyPairsBuffer(),
+      instanceId: uuidV4(),
+      logLevel: testLogLevel,
+    };
+  });
+
+  afterAll(async () => {
+    if (connectorContainer) {
+      await connectorContainer.stop();
+      await connectorContainer.destroy();
+    }
+    if (ledger) {
+      await ledger.stop();
+      await ledger.destroy();
+    }
+    const pruning = pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+    await expect(pruning).toResolve();
+  });
+
+  test.each([{ apiPath: true }, { apiPath: false }])(
+    //test for both CordaApiPath and CordaConnector
+    "test creation of views for different timeframes and states",
+    async ({ apiPath }) => {
+      const networkDetails: CordaNetworkDetails = apiPath
+        ? {
+            connectorApiPath: apiUrl,
+            stateFullClassName: proposalState,
+            participant: "PartyA",
+          }
+        : {
+            connector,
+            stateFullClassName: proposalState,
+            participant: "PartyA",
+          };
+
+      const bungee = new PluginBungeeHermes(pluginBungeeHermesOptions);
+      const strategy = "CORDA";
+      bungee.addStrategy(strategy, new StrategyCorda("INFO"));
+
+      const snapshot = await bungee.generateSnapshot(
+        [],
+        strategy,
+        networkDetails,
+      );
+      const view = bungee.generateView(
+        snapshot,
+        "0",
+        Number.MAX_SAFE_INTEGER.toString(),
+        undefined,
+      );
+
+      //expect to return a view
+      expect(view.view).toBeTruthy();
+      expect(view.signature).toBeTruthy();
+
+      const statesBefore = snapshot.getStateBins().length;
+      expect(statesBefore).toBeGreaterThanOrEqual(1);
+      const proposal = snapshot.getStateBins()[0];
+      expect(proposal.getTransactions().length).toEqual(1);
+      expect(proposal.getTransactions()[0].getTarget()).toEqual(proposalState);
+
+      const view1 = bungee.generateView(snapshot, "0", "9999", undefined);
+
+      //expects nothing to limit time of 9999
+      expect(view1.view).toBeUndefined();
+      expect(view1.signature).toBeUndefined();
+
+      //a new proposal is a new linear state
+      await propose(7);
+
+      const snapshot1 = await bungee.generateSnapshot(
+        [],
+        strategy,
+        networkDetails,
+      );
+      const view2 = bungee.generateView(
+        snapshot1,
+        "0",
+        Number.MAX_SAFE_INTEGER.toString(),
+        undefined,
+      );
+      //expect to return a view
+      expect(view2.view).toBeTruthy();
+      expect(view2.signature).toBeTruthy();
+      expect(snapshot1.getStateBins().length).toEqual(statesBefore + 1);
+
+      //asking for a given state only captures that state
+      const snapshot2 = await bungee.generateSnapshot(
+        [proposal.getId()],
+        strategy,
+        networkDetails,
+      );
+      expect(snapshot2.getStateBins().length).toEqual(1);
+      expect(snapshot2.getStateBins()[0].getValue()).toEqual(
+        proposal.getValue(),
+      );
+    },
+  );
+});
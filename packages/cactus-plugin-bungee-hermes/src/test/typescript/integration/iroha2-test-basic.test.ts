@@ -0,0 +1,237 @@
+import "jest-extended";
+import express from "express";
+import bodyParser from "body-parser";
+import http, { Server } from "http";
+import { AddressInfo } from "net";
+import { v4 as uuidV4 } from "uuid";
+import { Server as SocketIoServer } from "socket.io";
+import {
+  IListenOptions,
+  LogLevelDesc,
+  Logger,
+  LoggerProvider,
+  Secp256k1Keys,
+  Servers,
+} from "@hyperledger/cactus-common";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { Configuration, Constants } from "@hyperledger/cactus-core-api";
+import {
+  Iroha2TestLedger,
+  pruneDockerAllIfGithubAction,
+} from "@hyperledger/cactus-test-tooling";
+import {
+  DefaultApi as Iroha2Api,
+  Iroha2BaseConfig,
+  IrohaInstruction,
+  PluginLedgerConnectorIroha2,
+  TransactionStatusV1,
+} from "@hyperledger/cactus-plugin-ledger-connector-iroha2";
+import {
+  IPluginBungeeHermesOptions,
+  PluginBungeeHermes,
+} from "../../../main/typescript";
+import {
+  Iroha2NetworkDetails,
+  StrategyIroha2,
+} from "../../../main/typescript/strategy/strategy-iroha2";
+
+const testLogLevel: LogLevelDesc = "info";
+
+const log: Logger = LoggerProvider.getOrCreate({
+  label: "iroha2-test-basic.test",
+  level: testLogLevel,
+});
+
+const containerImageName = "ghcr.io/hyperledger/cactus-iroha2-all-in-one";
+const containerImageVersion = "2023-07-29-f2bc772ee";
+
+describe("Bungee Hermes strategy for Iroha2", () => {
+  let ledger: Iroha2TestLedger;
+  let server: Server;
+  let apiHost: string;
+  let apiClient: Iroha2Api;
+  let connector: PluginLedgerConnectorIroha2;
+  let baseConfig: Iroha2BaseConfig;
+  let pluginBungeeHermesOptions: IPluginBungeeHermesOptions;
+  let assetId: string;
+
+  const domainName = `bungeeDomain${uuidV4().slice(0, 8)}`;
+  const assetName = "rose";
+
+  const transact = async (name: IrohaInstruction, params: unknown[]) => {
+    const res = await apiClient.transactV1({
+      transaction: { instruction: { name, params } },
+      waitForCommit: true,
+      baseConfig,
+    });
+    expect(res.status).toEqual(200);
+    expect(res.data.status).toEqual(TransactionStatusV1.Committed);
+  };
+
+  beforeAll(async () => {
+    const pruning = pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+    await expect(pruning).toResolve();
+
+    ledger = new Iroha2TestLedger({
+      containerImageName,
+      containerImageVersion,
+      emitContainerLogs: true,
+      logLevel: testLogLevel,
+    });
+    await ledger.start();
+    log.info("Iroha2 ledger started");
+
+    const clientConfig = await ledger.getClientConfig();
+    const [accountName, accountDomain] = clientConfig.ACCOUNT_ID.split("@");
+    baseConfig = {
+      torii: {
+        apiURL: clientConfig.TORII_API_URL,
+        telemetryURL: clientConfig.TORII_TELEMETRY_URL,
+      },
+      accountId: { name: accountName, domainId: accountDomain },
+      signingCredential: {
+        publicKey: clientConfig.PUBLIC_KEY,
+        privateKey: {
+          digestFunction: clientConfig.PRIVATE_KEY.digest_function,
+          payload: clientConfig.PRIVATE_KEY.payload,
+        },
+      },
+    };
+    assetId = `${assetName}#${domainName}#${accountName}@${accountDomain}`;
+
+    const pluginRegistry = new PluginRegistry({ plugins: [] });
+    connector = new PluginLedgerConnectorIroha2({
+      instanceId: uuidV4(),
+      pluginRegistry,
+      logLevel: testLogLevel,
+    });
+
+    const expressApp = express();
+    expressApp.use(bodyParser.json({ limit: "250mb" }));
+    server = http.createServer(expressApp);
+    const listenOptions: IListenOptions = {
+      hostname: "127.0.0.1",
+      port: 0,
+      server,
+    };
+    const addressInfo = (await Servers.listen(listenOptions)) as AddressInfo;
+    apiHost = `http://${addressInfo.address}:${addressInfo.port}`;
+    const socketioServer = new SocketIoServer(server, {
+      path: Constants.SocketIoConnectionPathV1,
+    });
+    await connector.getOrCreateWebServices();
+    await connector.registerWebServices(expressApp, socketioServer);
+    apiClient = new Iroha2Api(new Configuration({ basePath: apiHost }));
+
+    await transact(IrohaInstruction.RegisterDomain, [domainName]);
+    await transact(IrohaInstruction.RegisterAssetDefinition, [
+      assetName,
+      domainName,
+      "Quantity",
+      "Infinitely",
+    ]);
+    await transact(IrohaInstruction.RegisterAsset, [
+      assetName,
+      domainName,
+      accountName,
+      accountDomain,
+      100,
+    ]);
+
+    pluginBungeeHermesOptions = {
+      pluginRegistry,
+      keyPair: Secp256k1Keys.generateKeyPairsBuffer(),
+      instanceId: uuidV4(),
+      logLevel: testLogLevel,
+    };
+  });
+
+  afterAll(async () => {
+    await Servers.shutdown(server);
+    await ledger.stop();
+    await ledger.destroy();
+    const pruning = pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+    await expect(pruning).toResolve();
+  });
+
+  test.each([{ apiPath: true }, { apiPath: false }])(
+    //test for both Iroha2ApiPath and Iroha2Connector
+    "test creation of views for different timeframes and states",
+    async ({ apiPath }) => {
+      const networkDetails: Iroha2NetworkDetails = apiPath
+        ? { connectorApiPath: apiHost, baseConfig, participant: "alice" }
+        : { connector, baseConfig, participant: "alice" };
+
+      const bungee = new PluginBungeeHermes(pluginBungeeHermesOptions);
+      const strategy = "IROHA2";
+      bungee.addStrategy(strategy, new StrategyIroha2("INFO"));
+
+      const snapshot = await bungee.generateSnapshot(
+        [assetId],
+        strategy,
+        networkDetails,
+      );
+      const view = bungee.generateView(
+        snapshot,
+        "0",
+        Number.MAX_SAFE_INTEGER.toString(),
+        undefined,
+      );
+
+      //expect to return a view
+      expect(view.view).toBeTruthy();
+      expect(view.signature).toBeTruthy();
+
+      //expect the view to have captured the asset registration
+      const assetState = snapshot.getStateBins()[0];
+      expect(snapshot.getStateBins().length).toEqual(1);
+      expect(assetState.getId()).toEqual(assetId);
+      const transactionsBefore = assetState.getTransactions().length;
+      expect(transactionsBefore).toBeGreaterThanOrEqual(1);
+      expect(
+        assetState.getTransactions()[0].getProof().getEndorsements(),
+      ).not.toBeEmpty();
+
+      const view1 = bungee.generateView(snapshot, "0", "9999", undefined);
+
+      //expects nothing to limit time of 9999
+      expect(view1.view).toBeUndefined();
+      expect(view1.signature).toBeUndefined();
+
+      //changing the asset value
+      const [accountName, accountDomain] = assetId.split("#")[2].split("@");
+      await transact(IrohaInstruction.MintAsset, [
+        assetName,
+        domainName,
+        accountName,
+        accountDomain,
+        10,
+      ]);
+
+      const snapshot1 = await bungee.generateSnapshot(
+        [],
+        strategy,
+        networkDetails,
+      );
+      const view2 = bungee.generateView(
+        snapshot1,
+        "0",
+        Number.MAX_SAFE_INTEGER.toString(),
+        undefined,
+      );
+      //expect to return a view
+      expect(view2.view).toBeTruthy();
+      expect(view2.signature).toBeTruthy();
+
+      //all the assets of the ledger are captured when no state ids are given
+      const assetState1 = snapshot1
+        .getStateBins()
+        .find((state) => state.getId() === assetId);
+      expect(assetState1).toBeTruthy();
+      expect(assetState1?.getTransactions().length).toEqual(
+        transactionsBefore + 1,
+      );
+      expect(assetState1?.getValue()).not.toEqual(assetState.getValue());
+    },
+  );
+});
@@ -0,0 +1,173 @@
+import "jest-extended";
+import { v4 as uuidV4 } from "uuid";
+import {
+  LogLevelDesc,
+  Logger,
+  LoggerProvider,
+  Secp256k1Keys,
+} from "@hyperledger/cactus-common";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import {
+  pruneDockerAllIfGithubAction,
+  SubstrateTestLedger,
+} from "@hyperledger/cactus-test-tooling";
+import {
+  PluginLedgerConnectorPolkadot,
+  Web3SigningCredentialType,
+} from "@hyperledger/cactus-plugin-ledger-connector-polkadot";
+import {
+  IPluginBungeeHermesOptions,
+  PluginBungeeHermes,
+} from "../../../main/typescript";
+import {
+  PolkadotNetworkDetails,
+  StrategyPolkadot,
+} from "../../../main/typescript/strategy/strategy-polkadot";
+
+const testLogLevel: LogLevelDesc = "info";
+
+const log: Logger = LoggerProvider.getOrCreate({
+  label: "polkadot-test-basic.test",
+  level: testLogLevel,
+});
+
+const DEFAULT_WSPROVIDER = "ws://127.0.0.1:9944";
+
+describe("Bungee Hermes strategy for Polkadot", () => {
+  const ledger = new SubstrateTestLedger({
+    publishAllPorts: false,
+    logLevel: testLogLevel,
+    emitContainerLogs: true,
+  });
+  let connector: PluginLedgerConnectorPolkadot;
+  let pluginBungeeHermesOptions: IPluginBungeeHermesOptions;
+  let bobAddress: string;
+  let charlieAddress: string;
+
+  const transfer = async (to: string, value: number) => {
+    const res = await connector.transact({
+      web3SigningCredential: {
+        type: Web3SigningCredentialType.MnemonicString,
+        mnemonic: "//Alice",
+      },
+      transactionConfig: { to, value },
+    });
+    expect(res.success).toBeTrue();
+  };
+
+  beforeAll(async () => {
+    const pruning = pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+    await expect(pruning).toResolve();
+
+    const ledgerContainer = await ledger.start();
+    expect(ledgerContainer).toBeTruthy();
+    log.info("Substrate ledger started");
+
+    const pluginRegistry = new PluginRegistry({ plugins: [] });
+    connector = new PluginLedgerConnectorPolkadot({
+      instanceId: uuidV4(),
+      pluginRegistry,
+      wsProviderUrl: DEFAULT_WSPROVIDER,
+      logLevel: testLogLevel,
+    });
+    await connector.onPluginInit();
+
+    const { Keyring } = await import("@polkadot/api");
+    const keyring = new Keyring({ type: "sr25519" });
+    bobAddress = keyring.createFromUri("//Bob").address;
+    charlieAddress = keyring.createFromUri("//Charlie").address;
+
+    await transfer(bobAddress, 100);
+
+    pluginBungeeHermesOptions = {
+      pluginRegistry,
+      keyPair: Secp256k1Keys.generateKeyPairsBuffer(),
+      instanceId: uuidV4(),
+      logLevel: testLogLevel,
+    };
+  });
+
+  afterAll(async () => {
+    await connector.shutdownConnectionToSubstrate();
+    await ledger.stop();
+    await ledger.destroy();
+    const pruning = pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+    await expect(pruning).toResolve();
+  });
+
+  test.each([{ connector: true }, { connector: false }])(
+    //test for both the in-process connector and the node websocket endpoint
+    "test creation of views for different timeframes and states",
+    async ({ connector: useConnector }) => {
+      const networkDetails: PolkadotNetworkDetails = useConnector
+        ? { connector, participant: "Alice" }
+        : { wsProviderUrl: DEFAULT_WSPROVIDER, participant: "Alice" };
+
+      const bungee = new PluginBungeeHermes(pluginBungeeHermesOptions);
+      const strategy = "POLKADOT";
+      bungee.addStrategy(strategy, new StrategyPolkadot("INFO"));
+
+      const snapshot = await bungee.generateSnapshot(
+        [bobAddress],
+        strategy,
+        networkDetails,
+      );
+      const view = bungee.generateView(
+        snapshot,
+        "0",
+        Number.MAX_SAFE_INTEGER.toString(),
+        undefined,
+      );
+
+      //expect to return a view
+      expect(view.view).toBeTruthy();
+      expect(view.signature).toBeTruthy();
+
+      //expect the view to have captured the transfer to bob
+      const bobState = snapshot.getStateBins()[0];
+      expect(snapshot.getStateBins().length).toEqual(1);
+      expect(bobState.getId()).toEqual(bobAddress);
+      const transactionsBefore = bobState.getTransactions().length;
+      expect(transactionsBefore).toBeGreaterThanOrEqual(1);
+      const transaction = bobState.getTransactions()[transactionsBefore - 1];
+      expect(transaction.getProof().getCreator().getSignature()).toBeTruthy();
+      expect(transaction.getTarget()).toStartWith("balances.");
+
+      const view1 = bungee.generateView(snapshot, "0", "9999", undefined);
+
+      //expects nothing to limit time of 9999
+      expect(view1.view).toBeUndefined();
+      expect(view1.signature).toBeUndefined();
+
+      //changing bob's balance and creating charlie's
+      await transfer(bobAddress, 50);
+      await transfer(charlieAddress, 10);
+
+      const snapshot1 = await bungee.generateSnapshot(
+        [bobAddress, charlieAddress],
+        strategy,
+        networkDetails,
+      );
+      const view2 = bungee.generateView(
+        snapshot1,
+        "0",
+        Number.MAX_SAFE_INTEGER.toString(),
+        undefined,
+      );
+      //expect to return a view
+      expect(view2.view).toBeTruthy();
+      expect(view2.signature).toBeTruthy();
+
+      const stateBins = snapshot1.getStateBins();
+      expect(stateBins.length).toEqual(2); //expect to have captured state for both accounts
+
+      const bobState1 = stateBins.find((s) => s.getId() === bobAddress);
+      const charlieState1 = stateBins.find((s) => s.getId() === charlieAddress);
+      expect(bobState1?.getTransactions().length).toEqual(
+        transactionsBefore + 1,
+      );
+      expect(bobState1?.getValue()).not.toEqual(bobState.getValue());
+      expect(charlieState1?.getTransactions().length).toBeGreaterThanOrEqual(1);
+    },
+  );
+});
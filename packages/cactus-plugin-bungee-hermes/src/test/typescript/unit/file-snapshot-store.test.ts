@@ -0,0 +1,122 @@
+import "jest-extended";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import {
+  FileSnapshotStore,
+  ISnapshotRecord,
+  snapshotNetworkKey,
+} from "../../../main/typescript/public-api";
+import { NetworkDetails } from "../../../main/typescript/strategy/obtain-ledger-strategy";
+
+interface TestNetworkDetails extends NetworkDetails {
+  contractAddress: string;
+  signingCredential: { secret: string };
+}
+
+describe("FileSnapshotStore", () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    const prefix = path.join(os.tmpdir(), "cacti-bungee-snapshots-");
+    tmpDir = await fs.promises.mkdtemp(prefix);
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const detailsA: TestNetworkDetails = {
+    participant: "alice",
+    connectorApiPath: "http://127.0.0.1:4000",
+    contractAddress: "0xaaa",
+    signingCredential: { secret: "private" },
+  };
+  const detailsB: TestNetworkDetails = {
+    ...detailsA,
+    contractAddress: "0xbbb",
+  };
+  const networkA = snapshotNetworkKey(detailsA);
+  const networkB = snapshotNetworkKey(detailsB);
+
+  function newRecord(network: string, cursor: string): ISnapshotRecord {
+    return {
+      snapshotId: uuidv4(),
+      strategyId: "BESU",
+      network,
+      participant: "alice",
+      stateIds: ["asset1", "asset2"],
+      cursor,
+      createdAt: "0",
+      snapshot: JSON.stringify({ cursor }),
+    };
+  }
+
+  test("tells networks apart by their connector and contract", () => {
+    expect(networkA).not.toEqual(networkB);
+    expect(networkA).toContain("0xaaa");
+    expect(networkA).not.toContain("private");
+    expect(networkA).not.toContain("alice");
+  });
+
+  test("keeps the latest cursor of each network across instances", async () => {
+    const dirPath = path.join(tmpDir, uuidv4());
+    const store = new FileSnapshotStore(dirPath, 2);
+
+    const first = newRecord(networkA, "10");
+    await store.save(first);
+    await store.save(newRecord(networkB, "99"));
+    await store.save(newRecord(networkA, "20"));
+    const latest = newRecord(networkA, "30");
+    await store.save(latest);
+
+    const reopened = new FileSnapshotStore(dirPath, 2);
+    const stateIds = ["asset2", "asset1"];
+    expect(
+      await reopened.getLatest("BESU", networkA, "alice", stateIds),
+    ).toEqual(latest);
+    expect(
+      (await reopened.getLatest("BESU", networkB, "alice", stateIds))?.cursor,
+    ).toEqual("99");
+    expect(
+      await reopened.getLatest("BESU", networkA, "bob", stateIds),
+    ).toBeUndefined();
+    expect(await reopened.getById(latest.snapshotId)).toEqual(latest);
+
+    // only the latest two snapshots of a network are kept
+    expect(await reopened.getById(first.snapshotId)).toBeUndefined();
+    const files = await fs.promises.readdir(path.join(dirPath, "snapshots"));
+    expect(files).toHaveLength(3);
+    expect(files.filter((f) => f.endsWith(".tmp"))).toBeEmpty();
+  });
+
+  test("serializes concurrent saves", async () => {
+    const dirPath = path.join(tmpDir, uuidv4());
+    const store = new FileSnapshotStore(dirPath, 20);
+    const records = Array.from({ length: 10 }, (_, i) =>
+      newRecord(networkA, `${i}`),
+    );
+    await Promise.all(records.map((record) => store.save(record)));
+
+    const reopened = new FileSnapshotStore(dirPath, 20);
+    for (const record of records) {
+      expect(await reopened.getById(record.snapshotId)).toEqual(record);
+    }
+    expect(
+      await reopened.getLatest("BESU", networkA, "alice", ["asset1", "asset2"]),
+    ).toEqual(records[records.length - 1]);
+  });
+
+  test("only looks up snapshot ids inside its directory", async () => {
+    const dirPath = path.join(tmpDir, uuidv4());
+    const store = new FileSnapshotStore(dirPath);
+    await fs.promises.mkdir(dirPath, { recursive: true });
+    await fs.promises.writeFile(path.join(dirPath, "index.json"), "{}");
+
+    expect(await store.getById("../index")).toBeUndefined();
+    await expect(
+      store.save({ ...newRecord(networkA, "1"), snapshotId: "../../escape" }),
+    ).rejects.toThrow(/Invalid snapshot id/);
+  });
+});
@@ -0,0 +1,154 @@
+import "jest-extended";
+import { v4 as uuidv4 } from "uuid";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { LogLevelDesc, Secp256k1Keys } from "@hyperledger/cactus-common";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { PluginBungeeHermes } from "../../../main/typescript/plugin-bungee-hermes";
+import { ViewVerifier } from "../../../main/typescript/verification/view-verifier";
+import { Proof } from "../../../main/typescript/view-creation/proof";
+import { Snapshot } from "../../../main/typescript/view-creation/snapshot";
+import { State } from "../../../main/typescript/view-creation/state";
+import { StateProof } from "../../../main/typescript/view-creation/state-proof";
+import { Transaction } from "../../../main/typescript/view-creation/transaction";
+import { TransactionProof } from "../../../main/typescript/view-creation/transaction-proof";
+import { View } from "../../../main/typescript/view-creation/view";
+
+const logLevel: LogLevelDesc = "WARN";
+
+function newBungee(trustedViewSigners?: string[]): PluginBungeeHermes {
+  return new PluginBungeeHermes({
+    pluginRegistry: new PluginRegistry({ plugins: [] }),
+    keyPair: Secp256k1Keys.generateKeyPairsBuffer(),
+    instanceId: uuidv4(),
+    trustedViewSigners,
+    logLevel,
+  });
+}
+
+// a view of a single state, as a strategy would capture it
+function exportView(bungee: PluginBungeeHermes): string {
+  const transaction = new Transaction(
+    "0x01",
+    "100",
+    new TransactionProof(new Proof({ creator: "0xalice" }), "0x01"),
+  );
+  transaction.setStateId("asset1");
+  const state = new State("asset1", ["10"], [transaction]);
+  state.setStateProof([
+    new StateProof(state.getValue(), parseInt(state.getVersion()), "asset1"),
+  ]);
+  const snapshot = new Snapshot(uuidv4(), "0xalice", [state]);
+  snapshot.update_TI_TF();
+  const { view, signature } = bungee.generateView(
+    snapshot,
+    "0",
+    Number.MAX_SAFE_INTEGER.toString(),
+    undefined,
+  );
+  return safeStableStringify({
+    view: safeStableStringify(view as View),
+    signature,
+  }) as string;
+}
+
+// the same content, signed by another key that claims to be its creator
+function forge(serializedView: string, forger: PluginBungeeHermes): string {
+  const forgedView = safeStableStringify({
+    ...JSON.parse(JSON.parse(serializedView).view),
+    creator: forger.getPublicKey(),
+  }) as string;
+  return safeStableStringify({
+    view: forgedView,
+    signature: forger.sign(forgedView),
+  }) as string;
+}
+
+describe("ViewVerifier", () => {
+  const verifier = new ViewVerifier({ logLevel });
+  const bungee = newBungee();
+  const forger = newBungee();
+  const serializedView = exportView(bungee);
+  const forged = forge(serializedView, forger);
+
+  function statusOf(exported: string, name: string, options = {}) {
+    return verifier
+      .verify(exported, options)
+      .checks.find((check) => check.name == name)?.status;
+  }
+
+  test("only trusts the signature of the given signer", () => {
+    const signerPublicKey = bungee.getPublicKey();
+    expect(
+      verifier.verify(serializedView, { signerPublicKey }).valid,
+    ).toBeTrue();
+    expect(
+      statusOf(serializedView, "view signature", { signerPublicKey }),
+    ).toBe("passed");
+
+    expect(verifier.verify(forged, { signerPublicKey }).valid).toBeFalse();
+    expect(statusOf(forged, "view signature", { signerPublicKey })).toBe(
+      "failed",
+    );
+
+    // self-signed views are consistent, but nobody vouched for them
+    for (const exported of [serializedView, forged]) {
+      const report = verifier.verify(exported);
+      expect(report.valid).toBeFalse();
+      expect(statusOf(exported, "view signature")).toBe("untrusted");
+      expect(statusOf(exported, "states merkle root")).toBe("passed");
+    }
+  });
+
+  test("requires trusted attesters to count attestations", () => {
+    const attester1 = newBungee([bungee.getPublicKey()]);
+    const attester2 = newBungee([bungee.getPublicKey()]);
+    const attestations = [
+      attester1.attestView(serializedView),
+      attester2.attestView(serializedView),
+    ];
+    const trustedAttesters = [
+      attester1.getPublicKey(),
+      attester2.getPublicKey(),
+    ];
+
+    expect(
+      verifier.verify(serializedView, {
+        attestations,
+        trustedAttesters,
+        threshold: 2,
+      }).valid,
+    ).toBeTrue();
+    expect(
+      verifier.verify(serializedView, { attestations, threshold: 2 }).valid,
+    ).toBeFalse();
+    expect(statusOf(serializedView, "attestations", { attestations })).toBe(
+      "failed",
+    );
+    expect(
+      verifier.verify(serializedView, {
+        attestations,
+        trustedAttesters: [attester1.getPublicKey()],
+        threshold: 2,
+      }).valid,
+    ).toBeFalse();
+  });
+
+  test("only attests views of trusted signers", () => {
+    expect(bungee.attestView(serializedView).attester).toBe(
+      bungee.getPublicKey(),
+    );
+    const attester = newBungee([bungee.getPublicKey()]);
+    expect(() => attester.attestView(forged)).toThrow(/view signature/);
+    expect(() => newBungee().attestView(serializedView)).toThrow(
+      /view signature/,
+    );
+    // the forger attests its own forgery, which only counts if trusted
+    const attestations = [forger.attestView(forged)];
+    expect(
+      verifier.verify(forged, {
+        attestations,
+        trustedAttesters: [bungee.getPublicKey()],
+      }).valid,
+    ).toBeFalse();
+  });
+});
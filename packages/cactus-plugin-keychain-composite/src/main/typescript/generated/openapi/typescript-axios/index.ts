@@ -0,0 +1,18 @@
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * Hyperledger Cacti Plugin - Keychain Composite
+ * Contains/describes the Hyperledger Cacti Keychain Composite plugin which replicates entries across multiple keychains.
+ *
+ * The version of the OpenAPI document: 2.1.0
+ * 
+ *
+ * NOTE: This class is auto generated by OpenAPI Generator (https://openapi-generator.tech).
+ * https://openapi-generator.tech
+ * Do not edit the class manually.
+ */
+
+
+export * from "./api";
+export * from "./configuration";
+
@@ -0,0 +1,29 @@
+import { Checks } from "@hyperledger/cactus-common";
+import {
+  IPluginFactoryOptions,
+  IPluginKeychain,
+  PluginFactory,
+  PluginImportType,
+} from "@hyperledger/cactus-core-api";
+import {
+  IPluginKeychainCompositeOptions,
+  PluginKeychainComposite,
+} from "./plugin-keychain-composite";
+
+export class PluginFactoryKeychain extends PluginFactory<
+  IPluginKeychain,
+  IPluginKeychainCompositeOptions,
+  IPluginFactoryOptions
+> {
+  async create(options: any): Promise<IPluginKeychain> {
+    const fnTag = "PluginFactoryKeychain#create()";
+
+    const { pluginImportType } = this.options;
+    Checks.truthy(options, `${fnTag}:options`);
+    if (pluginImportType === PluginImportType.Local) {
+      return new PluginKeychainComposite(options);
+    } else {
+      throw new Error(`${fnTag} No PluginImportType: ${pluginImportType}`);
+    }
+  }
+}
@@ -0,0 +1,624 @@
+import { createHash } from "crypto";
+import type { Express } from "express";
+import { NotFoundError } from "http-errors-enhanced-cjs";
+
+import OAS from "../json/openapi.json";
+
+import {
+  Logger,
+  Checks,
+  LogLevelDesc,
+  LoggerProvider,
+  asError,
+} from "@hyperledger/cactus-common";
+import {
+  ICactusPluginOptions,
+  IPluginDependency,
+  IPluginKeychain,
+  IPluginWebService,
+  IPluginWithDependencies,
+  isIPluginKeychainV2,
+  IWebServiceEndpoint,
+  PluginCapability,
+} from "@hyperledger/cactus-core-api";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+
+import {
+  KeychainDriftKindV1,
+  KeychainDriftV1,
+  KeychainReconciliationReportV1,
+} from "./generated/openapi/typescript-axios";
+import { GetKeychainEntryEndpointV1 } from "./web-services/get-keychain-entry-endpoint-v1";
+import { SetKeychainEntryEndpointV1 } from "./web-services/set-keychain-entry-endpoint-v1";
+import { HasKeychainEntryEndpointV1 } from "./web-services/has-keychain-entry-endpoint-v1";
+import { DeleteKeychainEntryEndpointV1 } from "./web-services/delete-keychain-entry-endpoint-v1";
+import { ReconcileKeychainsEndpointV1 } from "./web-services/reconcile-keychains-endpoint-v1";
+import { GetReconciliationReportEndpointV1 } from "./web-services/get-reconciliation-report-endpoint-v1";
+
+export enum KeychainCompositeWriteMode {
+  /**
+   * Writes go to every wrapped keychain. A write succeeds as long as at least
+   * one of the keychains accepted it; the rest are left for the
+   * reconciliation to catch up.
+   */
+  WriteToAll = "WRITE_TO_ALL",
+  /**
+   * Writes only go to the primary (first) keychain, the others are only read
+   * from as fallbacks. Useful for migrating from the fallback keychains to
+   * the primary one.
+   */
+  WriteToPrimary = "WRITE_TO_PRIMARY",
+}
+
+export interface IPluginKeychainCompositeOptions extends ICactusPluginOptions {
+  logLevel?: LogLevelDesc;
+  keychainId: string;
+  /**
+   * The registry that the wrapped keychains are looked up from by their IDs.
+   * The lookup is performed upon every operation so keychains can be
+   * (re)installed at runtime.
+   */
+  pluginRegistry: PluginRegistry;
+  /**
+   * The keychain IDs of the wrapped keychains in priority order. The first
+   * one is the primary keychain.
+   */
+  keychainIds: string[];
+  /**
+   * Optional, defaults to `KeychainCompositeWriteMode.WriteToAll`.
+   */
+  writeMode?: KeychainCompositeWriteMode;
+  /**
+   * How often to run the reconciliation in the background, starting from
+   * `onPluginInit()`. Optional, background reconciliation is disabled when
+   * omitted.
+   */
+  reconciliationIntervalMs?: number;
+  /**
+   * Whether reconciliations repair the drift they detect by default.
+   * In `WriteToPrimary` mode only the primary keychain is ever repaired.
+   * Optional, defaults to `false` meaning that drift is only reported.
+   */
+  repairDrift?: boolean;
+}
+
+/**
+ * Keychain that wraps several other keychains of the plugin registry:
+ *
+ * - Reads go through the keychains in priority order and return the first
+ *   hit, skipping the keychains that are unavailable.
+ * - Writes go to either every keychain or only the primary one depending on
+ *   the `writeMode`. Deletes always go to every keychain otherwise the
+ *   fallback reads would bring deleted entries back.
+ * - The reconciliation compares the keychains and reports (and optionally
+ *   repairs) the entries that drifted apart. Entries are only repaired from
+ *   the latest value written through this plugin or, when there is no such
+ *   write, if the keychains holding them agree on their value; everything
+ *   else is reported as a conflict. Keys are discovered via the
+ *   `list()` method of `IPluginKeychainV2` keychains and from the writes made
+ *   through this plugin. Entries that only exist in v1 keychains and have
+ *   not been written through this plugin cannot be discovered.
+ */
+export class PluginKeychainComposite
+  implements IPluginKeychain, IPluginWebService, IPluginWithDependencies
+{
+  public static readonly CLASS_NAME = "PluginKeychainComposite";
+  public static readonly LIST_PAGE_SIZE = 100;
+
+  private readonly log: Logger;
+  private readonly instanceId: string;
+  private readonly keychainIds: string[];
+  private readonly writeMode: KeychainCompositeWriteMode;
+  private readonly repairDrift: boolean;
+  /**
+   * The SHA-256 digests of the values last written through this plugin (since
+   * it was created) by key. Tells which keychain holds the latest value when
+   * a write only went through on some of them.
+   */
+  private readonly lastWrites = new Map<string, string>();
+  /**
+   * The keys whose deletion failed on at least one of the keychains.
+   */
+  private readonly pendingDeletes = new Set<string>();
+  private reconciliationQueue: Promise<unknown> = Promise.resolve();
+  private reconciliationTimer: NodeJS.Timeout | undefined;
+  private isReconciling = false;
+  private lastReport: KeychainReconciliationReportV1 | undefined;
+  private endpoints: IWebServiceEndpoint[] | undefined;
+
+  public get className(): string {
+    return PluginKeychainComposite.CLASS_NAME;
+  }
+
+  constructor(public readonly opts: IPluginKeychainCompositeOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(opts, `${fnTag} arg options`);
+    Checks.truthy(opts.instanceId, `${fnTag} options.instanceId`);
+    Checks.nonBlankString(opts.keychainId, `${fnTag} options.keychainId`);
+    Checks.truthy(opts.pluginRegistry, `${fnTag} options.pluginRegistry`);
+    Checks.truthy(
+      Array.isArray(opts.keychainIds) && opts.keychainIds.length > 0,
+      `${fnTag} options.keychainIds non-empty array`,
+    );
+    Checks.truthy(
+      new Set(opts.keychainIds).size === opts.keychainIds.length,
+      `${fnTag} options.keychainIds has no duplicates`,
+    );
+    Checks.truthy(
+      !opts.keychainIds.includes(opts.keychainId),
+      `${fnTag} options.keychainIds does not include options.keychainId`,
+    );
+    if (opts.reconciliationIntervalMs !== undefined) {
+      Checks.truthy(
+        opts.reconciliationIntervalMs > 0,
+        `${fnTag} options.reconciliationIntervalMs > 0`,
+      );
+    }
+
+    const level = this.opts.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+
+    this.instanceId = opts.instanceId;
+    this.keychainIds = [...opts.keychainIds];
+    this.writeMode = opts.writeMode || KeychainCompositeWriteMode.WriteToAll;
+    this.repairDrift = opts.repairDrift === true;
+
+    this.log.info(
+      `Created ${this.className}. KeychainID=${opts.keychainId} ` +
+        `wrapping ${this.keychainIds.join(",")} in ${this.writeMode} mode`,
+    );
+  }
+
+  public getOpenApiSpec(): unknown {
+    return OAS;
+  }
+
+  public getPluginDependencies(): ReadonlyArray<IPluginDependency> {
+    return [{ capability: PluginCapability.Keychain }];
+  }
+
+  async registerWebServices(app: Express): Promise<IWebServiceEndpoint[]> {
+    const webServices = await this.getOrCreateWebServices();
+    await Promise.all(webServices.map((ws) => ws.registerExpress(app)));
+    return webServices;
+  }
+
+  public async getOrCreateWebServices(): Promise<IWebServiceEndpoint[]> {
+    if (Array.isArray(this.endpoints)) {
+      return this.endpoints;
+    }
+    const endpoints: IWebServiceEndpoint[] = [];
+    {
+      const ep = new GetKeychainEntryEndpointV1({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new SetKeychainEntryEndpointV1({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new HasKeychainEntryEndpointV1({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new DeleteKeychainEntryEndpointV1({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new ReconcileKeychainsEndpointV1({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new GetReconciliationReportEndpointV1({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    this.endpoints = endpoints;
+    return endpoints;
+  }
+
+  public async shutdown(): Promise<void> {
+    if (this.reconciliationTimer) {
+      clearInterval(this.reconciliationTimer);
+      this.reconciliationTimer = undefined;
+    }
+    await this.reconciliationQueue;
+  }
+
+  public getInstanceId(): string {
+    return this.instanceId;
+  }
+
+  public getKeychainId(): string {
+    return this.opts.keychainId;
+  }
+
+  public getPackageName(): string {
+    return `@hyperledger/cactus-plugin-keychain-composite`;
+  }
+
+  public async onPluginInit(): Promise<unknown> {
+    const { reconciliationIntervalMs } = this.opts;
+    if (!reconciliationIntervalMs || this.reconciliationTimer) {
+      return;
+    }
+    this.reconciliationTimer = setInterval(
+      () => this.reconcileInBackground(),
+      reconciliationIntervalMs,
+    );
+    this.reconciliationTimer.unref();
+    return;
+  }
+
+  public getWrappedKeychainIds(): string[] {
+    return [...this.keychainIds];
+  }
+
+  public getWriteMode(): KeychainCompositeWriteMode {
+    return this.writeMode;
+  }
+
+  public getLastReconciliationReport():
+    | KeychainReconciliationReportV1
+    | undefined {
+    return this.lastReport;
+  }
+
+  async has(key: string): Promise<boolean> {
+    const fnTag = `${this.className}#has()`;
+    const errors: Error[] = [];
+    for (const keychainId of this.keychainIds) {
+      try {
+        if (await this.getKeychain(keychainId).has(key)) {
+          return true;
+        }
+      } catch (ex: unknown) {
+        errors.push(this.onKeychainError(fnTag, keychainId, ex));
+      }
+    }
+    this.throwIfAllFailed(fnTag, errors);
+    return false;
+  }
+
+  async get(key: string): Promise<string> {
+    const fnTag = `${this.className}#get()`;
+    const errors: Error[] = [];
+    for (const keychainId of this.keychainIds) {
+      try {
+        const keychain = this.getKeychain(keychainId);
+        if (await keychain.has(key)) {
+          return await keychain.get(key);
+        }
+      } catch (ex: unknown) {
+        errors.push(this.onKeychainError(fnTag, keychainId, ex));
+      }
+    }
+    this.throwIfAllFailed(fnTag, errors);
+    throw new NotFoundError(`Keychain entry for "${key}" not found.`);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const fnTag = `${this.className}#set()`;
+    Checks.nonBlankString(key, `${fnTag} key`);
+    // recorded before writing so that a reconciliation running concurrently
+    // never repairs the keychains already written with the previous value
+    this.lastWrites.set(key, this.digestOf(value));
+    this.pendingDeletes.delete(key);
+    const targets =
+      this.writeMode === KeychainCompositeWriteMode.WriteToAll
+        ? this.keychainIds
+        : this.keychainIds.slice(0, 1);
+    await this.writeToAll(fnTag, targets, (k) => k.set(key, value));
+  }
+
+  async delete(key: string): Promise<void> {
+    const fnTag = `${this.className}#delete()`;
+    this.lastWrites.delete(key);
+    const failed = await this.writeToAll(fnTag, this.keychainIds, (k) =>
+      k.delete(key),
+    );
+    if (failed > 0) {
+      this.pendingDeletes.add(key);
+    } else {
+      this.pendingDeletes.delete(key);
+    }
+  }
+
+  /**
+   * Compares the entries of the wrapped keychains. Reconciliations never run
+   * concurrently, calls made while one is in progress are queued.
+   *
+   * @param repair Whether to repair the detected drift by copying entries
+   * from their source keychain and retrying the deletions that failed
+   * previously. The source keychain is the one holding the value last
+   * written through this plugin or, if the entry was not written through it,
+   * the highest priority keychain holding it as long as every keychain
+   * holding it agrees on the value. Conflicts are never repaired.
+   * Defaults to the `repairDrift` option.
+   */
+  public async reconcile(
+    repair = this.repairDrift,
+  ): Promise<KeychainReconciliationReportV1> {
+    const task = this.reconciliationQueue.then(() => this.doReconcile(repair));
+    this.reconciliationQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  private reconcileInBackground(): void {
+    const fnTag = `${this.className}#reconcileInBackground()`;
+    if (this.isReconciling) {
+      this.log.debug(`${fnTag} Previous run still in progress, skipping.`);
+      return;
+    }
+    this.reconcile().catch((ex: unknown) =>
+      this.log.error(`${fnTag} Reconciliation failed:`, ex),
+    );
+  }
+
+  private async doReconcile(
+    repair: boolean,
+  ): Promise<KeychainReconciliationReportV1> {
+    const fnTag = `${this.className}#reconcile()`;
+    const startedAt = new Date().toJSON();
+    this.isReconciling = true;
+    const unavailable = new Map<string, string>();
+    const drifts: KeychainDriftV1[] = [];
+
+    const isAvailable = (keychainId: string) => !unavailable.has(keychainId);
+    const markUnavailable = (keychainId: string, ex: unknown) => {
+      const error = this.onKeychainError(fnTag, keychainId, ex);
+      if (isAvailable(keychainId)) {
+        unavailable.set(keychainId, error.message);
+      }
+    };
+    const isRepairable = (keychainId: string) =>
+      repair &&
+      (this.writeMode === KeychainCompositeWriteMode.WriteToAll ||
+        keychainId === this.keychainIds[0]);
+
+    try {
+      const keys = new Set<string>(this.lastWrites.keys());
+      for (const keychainId of this.keychainIds) {
+        try {
+          const listed = await this.listAllKeys(this.getKeychain(keychainId));
+          listed.forEach((key) => keys.add(key));
+        } catch (ex: unknown) {
+          markUnavailable(keychainId, ex);
+        }
+      }
+      this.pendingDeletes.forEach((key) => keys.delete(key));
+
+      for (const key of this.pendingDeletes) {
+        let remaining = 0;
+        for (const keychainId of this.keychainIds.filter(isAvailable)) {
+          try {
+            const keychain = this.getKeychain(keychainId);
+            if (!(await keychain.has(key))) {
+              continue;
+            }
+            let repaired = false;
+            if (repair) {
+              await keychain.delete(key);
+              repaired = true;
+            }
+            remaining += repaired ? 0 : 1;
+            drifts.push({
+              key,
+              keychainId,
+              sourceKeychainId: this.getKeychainId(),
+              kind: KeychainDriftKindV1.PendingDelete,
+              repaired,
+            });
+          } catch (ex: unknown) {
+            remaining++;
+            markUnavailable(keychainId, ex);
+          }
+        }
+        if (remaining === 0) {
+          this.pendingDeletes.delete(key);
+        }
+      }
+
+      for (const key of keys) {
+        const values = new Map<string, string | undefined>();
+        for (const keychainId of this.keychainIds.filter(isAvailable)) {
+          try {
+            const keychain = this.getKeychain(keychainId);
+            const isPresent = await keychain.has(key);
+            values.set(
+              keychainId,
+              isPresent ? await keychain.get(key) : undefined,
+            );
+          } catch (ex: unknown) {
+            markUnavailable(keychainId, ex);
+          }
+        }
+        const holders = this.keychainIds.filter(
+          (id) => values.get(id) !== undefined,
+        );
+        if (holders.length === 0) {
+          continue;
+        }
+        const sourceKeychainId = this.findRepairSource(key, holders, values);
+        if (!sourceKeychainId) {
+          const firstValue = values.get(holders[0]);
+          for (const [keychainId, value] of values) {
+            if (value === firstValue) {
+              continue;
+            }
+            drifts.push({
+              key,
+              keychainId,
+              sourceKeychainId: holders[0],
+              kind: KeychainDriftKindV1.Conflict,
+              repaired: false,
+            });
+          }
+          continue;
+        }
+        const sourceValue = values.get(sourceKeychainId) as string;
+
+        for (const [keychainId, value] of values) {
+          if (value === sourceValue) {
+            continue;
+          }
+          const kind =
+            value === undefined
+              ? KeychainDriftKindV1.Missing
+              : KeychainDriftKindV1.ValueMismatch;
+          let repaired = false;
+          if (isRepairable(keychainId)) {
+            try {
+              await this.getKeychain(keychainId).set(key, sourceValue);
+              repaired = true;
+            } catch (ex: unknown) {
+              markUnavailable(keychainId, ex);
+            }
+          }
+          drifts.push({ key, keychainId, sourceKeychainId, kind, repaired });
+        }
+      }
+
+      const report: KeychainReconciliationReportV1 = {
+        startedAt,
+        finishedAt: new Date().toJSON(),
+        keychainIds: [...this.keychainIds],
+        checkedKeyCount: keys.size,
+        drifts,
+        unavailableKeychains: Array.from(unavailable, ([id, msg]) => ({
+          keychainId: id,
+          errorMessage: msg,
+        })),
+      };
+      this.lastReport = report;
+
+      if (drifts.length > 0 || unavailable.size > 0) {
+        const repairedCount = drifts.filter((d) => d.repaired).length;
+        this.log.warn(
+          `${fnTag} Checked ${keys.size} keys: ${drifts.length} drift(s) ` +
+            `(${repairedCount} repaired), ${unavailable.size} keychain(s) ` +
+            `unavailable.`,
+        );
+      } else {
+        this.log.debug(`${fnTag} Checked ${keys.size} keys: no drift.`);
+      }
+      return report;
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  /**
+   * Returns the keychain holding the latest value of an entry, or `undefined`
+   * if it cannot be told which of the values held by `holders` is the latest.
+   *
+   * @param holders The IDs of the keychains holding the entry in priority
+   * order.
+   */
+  private findRepairSource(
+    key: string,
+    holders: string[],
+    values: Map<string, string | undefined>,
+  ): string | undefined {
+    const lastWrite = this.lastWrites.get(key);
+    if (lastWrite !== undefined) {
+      return holders.find(
+        (id) => this.digestOf(values.get(id) as string) === lastWrite,
+      );
+    }
+    const firstValue = values.get(holders[0]);
+    const isAgreed = holders.every((id) => values.get(id) === firstValue);
+    return isAgreed ? holders[0] : undefined;
+  }
+
+  private digestOf(value: string): string {
+    return createHash("sha256").update(value).digest("hex");
+  }
+
+  private async listAllKeys(keychain: IPluginKeychain): Promise<string[]> {
+    if (!isIPluginKeychainV2(keychain)) {
+      return [];
+    }
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const res = await keychain.list({
+        limit: PluginKeychainComposite.LIST_PAGE_SIZE,
+        continuationToken,
+      });
+      res.entries.forEach((e) => keys.push(e.key));
+      continuationToken = res.continuationToken || undefined;
+    } while (continuationToken);
+    return keys;
+  }
+
+  /**
+   * Performs `write` on each of the keychains concurrently.
+   *
+   * @returns The number of keychains on which the write failed.
+   * @throws If the write failed on all of the keychains.
+   */
+  private async writeToAll(
+    fnTag: string,
+    keychainIds: string[],
+    write: (keychain: IPluginKeychain) => Promise<void>,
+  ): Promise<number> {
+    const results = await Promise.allSettled(
+      keychainIds.map(async (id) => write(this.getKeychain(id))),
+    );
+    const errors: Error[] = [];
+    results.forEach((result, idx) => {
+      if (result.status === "rejected") {
+        errors.push(
+          this.onKeychainError(fnTag, keychainIds[idx], result.reason),
+        );
+      }
+    });
+    if (errors.length === keychainIds.length) {
+      const cause =
+        errors.length === 1 ? errors[0] : new AggregateError(errors);
+      throw new Error(`${fnTag} Failed on all keychains.`, { cause });
+    }
+    return errors.length;
+  }
+
+  private getKeychain(keychainId: string): IPluginKeychain {
+    return this.opts.pluginRegistry.findOneByKeychainId(keychainId);
+  }
+
+  private onKeychainError(
+    fnTag: string,
+    keychainId: string,
+    ex: unknown,
+  ): Error {
+    const error = asError(ex);
+    this.log.warn(`${fnTag} Keychain ${keychainId} failed: ${error.message}`);
+    return error;
+  }
+
+  private throwIfAllFailed(fnTag: string, errors: Error[]): void {
+    if (errors.length < this.keychainIds.length) {
+      return;
+    }
+    const cause = errors.length === 1 ? errors[0] : new AggregateError(errors);
+    throw new Error(`${fnTag} All keychains are unavailable.`, { cause });
+  }
+}
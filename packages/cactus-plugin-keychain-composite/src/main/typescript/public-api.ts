@@ -0,0 +1,18 @@
+export * from "./generated/openapi/typescript-axios/index";
+
+import { IPluginFactoryOptions } from "@hyperledger/cactus-core-api";
+
+import { PluginFactoryKeychain } from "./plugin-factory-keychain";
+export { PluginFactoryKeychain } from "./plugin-factory-keychain";
+
+export {
+  IPluginKeychainCompositeOptions,
+  KeychainCompositeWriteMode,
+  PluginKeychainComposite,
+} from "./plugin-keychain-composite";
+
+export async function createPluginFactory(
+  pluginFactoryOptions: IPluginFactoryOptions,
+): Promise<PluginFactoryKeychain> {
+  return new PluginFactoryKeychain(pluginFactoryOptions);
+}
@@ -0,0 +1,108 @@
+import type { Express, Request, Response } from "express";
+
+import {
+  Logger,
+  Checks,
+  LogLevelDesc,
+  LoggerProvider,
+  IAsyncProvider,
+} from "@hyperledger/cactus-common";
+import {
+  IEndpointAuthzOptions,
+  IExpressRequestHandler,
+  IWebServiceEndpoint,
+} from "@hyperledger/cactus-core-api";
+import {
+  handleRestEndpointException,
+  registerWebServiceEndpoint,
+} from "@hyperledger/cactus-core";
+
+import OAS from "../../json/openapi.json";
+import { PluginKeychainComposite } from "../plugin-keychain-composite";
+import {
+  GetKeychainEntryRequestV1,
+  GetKeychainEntryResponseV1,
+} from "../generated/openapi/typescript-axios";
+
+export interface IGetKeychainEntryEndpointV1Options {
+  logLevel?: LogLevelDesc;
+  plugin: PluginKeychainComposite;
+}
+
+export class GetKeychainEntryEndpointV1 implements IWebServiceEndpoint {
+  public static readonly CLASS_NAME = "GetKeychainEntryEndpointV1";
+
+  private readonly log: Logger;
+  private readonly plugin: PluginKeychainComposite;
+
+  public get className(): string {
+    return GetKeychainEntryEndpointV1.CLASS_NAME;
+  }
+
+  constructor(public readonly options: IGetKeychainEntryEndpointV1Options) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+    Checks.truthy(options.plugin, `${fnTag} arg options.plugin`);
+
+    this.plugin = options.plugin;
+
+    const level = this.options.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  public get oasPath(): (typeof OAS.paths)["/api/v1/plugins/@hyperledger/cactus-plugin-keychain-composite/get-keychain-entry"] {
+    return OAS.paths[
+      "/api/v1/plugins/@hyperledger/cactus-plugin-keychain-composite/get-keychain-entry"
+    ];
+  }
+
+  getAuthorizationOptionsProvider(): IAsyncProvider<IEndpointAuthzOptions> {
+    // TODO: make this an injectable dependency in the constructor
+    return {
+      get: async () => ({
+        isProtected: true,
+        requiredRoles: [],
+      }),
+    };
+  }
+
+  public async registerExpress(
+    expressApp: Express,
+  ): Promise<IWebServiceEndpoint> {
+    await registerWebServiceEndpoint(expressApp, this);
+    return this;
+  }
+
+  public getVerbLowerCase(): string {
+    return this.oasPath.post["x-hyperledger-cacti"].http.verbLowerCase;
+  }
+
+  public getPath(): string {
+    return this.oasPath.post["x-hyperledger-cacti"].http.path;
+  }
+
+  public getOperationId(): string {
+    return this.oasPath.post.operationId;
+  }
+
+  public getExpressRequestHandler(): IExpressRequestHandler {
+    return this.handleRequest.bind(this);
+  }
+
+  public async handleRequest(req: Request, res: Response): Promise<void> {
+    const { log } = this;
+    const fnTag = `${this.className}#handleRequest()`;
+    const reqTag = `${this.getVerbLowerCase()} - ${this.getPath()}`;
+    this.log.debug(reqTag);
+    try {
+      const { key } = req.body as GetKeychainEntryRequestV1;
+      const value = await this.plugin.get(key);
+      const resBody: GetKeychainEntryResponseV1 = { key, value };
+      res.status(200).json(resBody);
+    } catch (ex) {
+      const errorMsg = `${reqTag} ${fnTag} Failed to get keychain entry:`;
+      await handleRestEndpointException({ errorMsg, log, error: ex, res });
+    }
+  }
+}
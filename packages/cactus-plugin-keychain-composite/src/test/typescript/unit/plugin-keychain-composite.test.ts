@@ -0,0 +1,231 @@
+import "jest-extended";
+import { v4 as uuidv4 } from "uuid";
+
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { PluginKeychainMemory } from "@hyperledger/cactus-plugin-keychain-memory";
+
+import {
+  IPluginKeychainCompositeOptions,
+  KeychainCompositeWriteMode,
+  KeychainDriftKindV1,
+  PluginKeychainComposite,
+} from "../../../main/typescript/public-api";
+
+const testcase = "PluginKeychainComposite";
+
+describe(testcase, () => {
+  let registry: PluginRegistry;
+  let primary: PluginKeychainMemory;
+  let secondary: PluginKeychainMemory;
+
+  beforeEach(() => {
+    primary = new PluginKeychainMemory({
+      instanceId: uuidv4(),
+      keychainId: "primary",
+    });
+    secondary = new PluginKeychainMemory({
+      instanceId: uuidv4(),
+      keychainId: "secondary",
+    });
+    registry = new PluginRegistry({ plugins: [primary, secondary] });
+  });
+
+  function createComposite(
+    overrides: Partial<IPluginKeychainCompositeOptions> = {},
+  ): PluginKeychainComposite {
+    return new PluginKeychainComposite({
+      instanceId: uuidv4(),
+      keychainId: "composite",
+      pluginRegistry: registry,
+      keychainIds: ["primary", "secondary"],
+      logLevel: "WARN",
+      ...overrides,
+    });
+  }
+
+  test("Validates constructor args", () => {
+    expect(() => createComposite()).not.toThrow();
+    expect(() => createComposite({ keychainIds: [] })).toThrow();
+    expect(() =>
+      createComposite({ keychainIds: ["primary", "primary"] }),
+    ).toThrow();
+    expect(() =>
+      createComposite({ keychainIds: ["composite", "primary"] }),
+    ).toThrow();
+  });
+
+  test("reads through to the fallback keychains", async () => {
+    const composite = createComposite();
+    await secondary.set("only-in-secondary", "value-s");
+    await primary.set("in-both", "value-p");
+    await secondary.set("in-both", "value-s");
+
+    expect(await composite.has("only-in-secondary")).toBeTrue();
+    expect(await composite.get("only-in-secondary")).toEqual("value-s");
+    expect(await composite.get("in-both")).toEqual("value-p");
+    expect(await composite.has("nowhere")).toBeFalse();
+    await expect(composite.get("nowhere")).rejects.toThrow(/not found/);
+  });
+
+  test("writes to all or only to the primary keychain", async () => {
+    const toAll = createComposite();
+    await toAll.set("a", "1");
+    expect(await primary.get("a")).toEqual("1");
+    expect(await secondary.get("a")).toEqual("1");
+
+    const toPrimary = createComposite({
+      writeMode: KeychainCompositeWriteMode.WriteToPrimary,
+    });
+    await toPrimary.set("b", "2");
+    expect(await primary.get("b")).toEqual("2");
+    expect(await secondary.has("b")).toBeFalse();
+
+    // deletes always go everywhere so that the fallback cannot resurrect it
+    await secondary.set("b", "2");
+    await toPrimary.delete("b");
+    expect(await toPrimary.has("b")).toBeFalse();
+  });
+
+  test("survives a keychain being unavailable", async () => {
+    const composite = createComposite();
+    await composite.set("key1", "value1");
+    registry.deleteById(primary.getInstanceId());
+
+    expect(await composite.get("key1")).toEqual("value1");
+    await composite.set("key2", "value2");
+    expect(await secondary.get("key2")).toEqual("value2");
+
+    registry.deleteById(secondary.getInstanceId());
+    await expect(composite.has("key1")).rejects.toThrow(/unavailable/);
+    await expect(composite.set("key3", "value3")).rejects.toThrow();
+  });
+
+  test("reconciliation reports and repairs drift", async () => {
+    const composite = createComposite();
+    await primary.set("missing-in-secondary", "x");
+    await primary.set("mismatch", "p");
+    await secondary.set("mismatch", "s");
+    await composite.set("in-sync", "y");
+
+    const report = await composite.reconcile();
+    expect(report.keychainIds).toEqual(["primary", "secondary"]);
+    expect(report.checkedKeyCount).toEqual(3);
+    expect(report.unavailableKeychains).toBeEmpty();
+    expect(report.drifts).toIncludeSameMembers([
+      {
+        key: "missing-in-secondary",
+        keychainId: "secondary",
+        sourceKeychainId: "primary",
+        kind: KeychainDriftKindV1.Missing,
+        repaired: false,
+      },
+      {
+        key: "mismatch",
+        keychainId: "secondary",
+        sourceKeychainId: "primary",
+        kind: KeychainDriftKindV1.Conflict,
+        repaired: false,
+      },
+    ]);
+    expect(composite.getLastReconciliationReport()).toEqual(report);
+
+    // there is no telling which value of "mismatch" is the latest
+    const repairReport = await composite.reconcile(true);
+    expect(repairReport.drifts).toIncludeSameMembers([
+      expect.objectContaining({ key: "missing-in-secondary", repaired: true }),
+      expect.objectContaining({ key: "mismatch", repaired: false }),
+    ]);
+    expect(await secondary.get("missing-in-secondary")).toEqual("x");
+    expect(await primary.get("mismatch")).toEqual("p");
+    expect(await secondary.get("mismatch")).toEqual("s");
+
+    const cleanReport = await composite.reconcile();
+    expect(cleanReport.drifts).toEqual([
+      expect.objectContaining({ key: "mismatch" }),
+    ]);
+  });
+
+  test("reconciliation repairs from the latest write", async () => {
+    const composite = createComposite();
+    await composite.set("key", "v1");
+
+    // the write of v2 only went through on the secondary keychain
+    registry.deleteById(primary.getInstanceId());
+    await composite.set("key", "v2");
+    registry.getPlugins().unshift(primary);
+
+    const report = await composite.reconcile(true);
+    expect(report.drifts).toEqual([
+      {
+        key: "key",
+        keychainId: "primary",
+        sourceKeychainId: "secondary",
+        kind: KeychainDriftKindV1.ValueMismatch,
+        repaired: true,
+      },
+    ]);
+    expect(await primary.get("key")).toEqual("v2");
+    expect(await secondary.get("key")).toEqual("v2");
+    expect(await composite.get("key")).toEqual("v2");
+  });
+
+  test("reconciliation only repairs the primary in WriteToPrimary mode", async () => {
+    const composite = createComposite({
+      writeMode: KeychainCompositeWriteMode.WriteToPrimary,
+    });
+    await secondary.set("legacy", "old");
+    await primary.set("new", "fresh");
+
+    const report = await composite.reconcile(true);
+    const byKey = (key: string) => report.drifts.find((d) => d.key === key);
+    expect(byKey("legacy")).toMatchObject({
+      keychainId: "primary",
+      sourceKeychainId: "secondary",
+      kind: KeychainDriftKindV1.Missing,
+      repaired: true,
+    });
+    expect(byKey("new")).toMatchObject({
+      keychainId: "secondary",
+      repaired: false,
+    });
+    expect(await primary.get("legacy")).toEqual("old");
+    expect(await secondary.has("new")).toBeFalse();
+  });
+
+  test("reconciliation retries deletions that failed", async () => {
+    const composite = createComposite();
+    await composite.set("doomed", "value");
+
+    registry.deleteById(secondary.getInstanceId());
+    await composite.delete("doomed");
+    // add() refuses a second instance of the same package
+    registry.getPlugins().push(secondary);
+
+    const report = await composite.reconcile();
+    expect(report.drifts).toEqual([
+      {
+        key: "doomed",
+        keychainId: "secondary",
+        sourceKeychainId: "composite",
+        kind: KeychainDriftKindV1.PendingDelete,
+        repaired: false,
+      },
+    ]);
+
+    await composite.reconcile(true);
+    expect(await secondary.has("doomed")).toBeFalse();
+    expect((await composite.reconcile()).drifts).toBeEmpty();
+  });
+
+  test("reports unavailable keychains", async () => {
+    const composite = createComposite();
+    await primary.set("k", "v");
+    registry.deleteById(secondary.getInstanceId());
+
+    const report = await composite.reconcile();
+    expect(report.drifts).toBeEmpty();
+    expect(report.unavailableKeychains).toEqual([
+      { keychainId: "secondary", errorMessage: expect.any(String) },
+    ]);
+  });
+});
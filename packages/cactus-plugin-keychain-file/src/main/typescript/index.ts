@@ -0,0 +1 @@
+export * from "./public-api";
@@ -0,0 +1 @@
+export * from "./generated/openapi/typescript-axios/index";
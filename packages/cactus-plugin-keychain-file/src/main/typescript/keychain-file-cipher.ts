@@ -0,0 +1,261 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+  ScryptOptions,
+} from "crypto";
+
+import { asError, Checks } from "@hyperledger/cactus-common";
+
+export const K_KEYCHAIN_FILE_FORMAT_VERSION = 1;
+export const K_KEYCHAIN_FILE_CIPHER = "aes-256-gcm";
+export const K_KEYCHAIN_FILE_KEY_LENGTH = 32;
+export const K_DEFAULT_KEYCHAIN_FILE_SCRYPT_COST = 2 ** 15;
+export const K_MIN_KEYCHAIN_FILE_SCRYPT_COST = 2 ** 10;
+export const K_MAX_KEYCHAIN_FILE_SCRYPT_COST = 2 ** 17;
+
+const K_IV_LENGTH = 12;
+const K_SALT_LENGTH = 16;
+const K_SCRYPT_BLOCK_SIZE = 8;
+const K_SCRYPT_PARALLELIZATION = 1;
+
+/**
+ * Describes where the master key of a file keychain comes from. Exactly one
+ * of the properties has to be specified.
+ */
+export interface IKeychainFileMasterKeySource {
+  /**
+   * The passphrase that the master key is derived from via scrypt. The salt
+   * and the cost parameters are stored in the header of the keychain file.
+   */
+  readonly passphrase?: string;
+  /**
+   * The name of the environment variable that holds the master key itself,
+   * as 32 bytes encoded in base64.
+   */
+  readonly masterKeyEnvVar?: string;
+}
+
+export interface IKeychainFileKdfParams {
+  readonly name: "scrypt";
+  readonly salt: string;
+  readonly cost: number;
+  readonly blockSize: number;
+  readonly parallelization: number;
+}
+
+/**
+ * The contents of a keychain file. Only the header (everything except the
+ * `ciphertext` and `authTag`) is stored in plain text, the entries including
+ * their keys are encrypted. The header is authenticated as additional data
+ * so tampering with it also makes decryption fail.
+ */
+export interface IKeychainFileEnvelope {
+  readonly version: number;
+  readonly keychainId: string;
+  readonly cipher: string;
+  /**
+   * Absent when the master key is supplied directly instead of being
+   * derived from a passphrase.
+   */
+  readonly kdf?: IKeychainFileKdfParams;
+  readonly iv: string;
+  readonly authTag: string;
+  readonly ciphertext: string;
+}
+
+export interface IKeychainFileMasterKey {
+  readonly key: Buffer;
+  readonly kdf?: IKeychainFileKdfParams;
+}
+
+function scryptAsync(
+  passphrase: string,
+  salt: Buffer,
+  opts: ScryptOptions,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, K_KEYCHAIN_FILE_KEY_LENGTH, opts, (err, key) =>
+      err ? reject(err) : resolve(key),
+    );
+  });
+}
+
+/**
+ * Checks the scrypt parameters before they are used. They are read from the
+ * plain text header of the keychain file so they cannot be trusted: the
+ * header is only authenticated after the key was derived, and scrypt
+ * allocates 128 * N * r bytes. Only a power of two cost between
+ * `K_MIN_KEYCHAIN_FILE_SCRYPT_COST` and `K_MAX_KEYCHAIN_FILE_SCRYPT_COST`
+ * and the block size and parallelization of new files are accepted.
+ *
+ * @throws If any of the parameters is not supported.
+ */
+export function checkKeychainFileKdfParams(
+  params: IKeychainFileKdfParams,
+): void {
+  const fnTag = "checkKeychainFileKdfParams()";
+  if (params.name !== "scrypt") {
+    throw new Error(`${fnTag} Unsupported key derivation: ${params.name}`);
+  }
+  const { cost, blockSize, parallelization } = params;
+  if (
+    !Number.isInteger(cost) ||
+    cost < K_MIN_KEYCHAIN_FILE_SCRYPT_COST ||
+    cost > K_MAX_KEYCHAIN_FILE_SCRYPT_COST ||
+    (cost & (cost - 1)) !== 0
+  ) {
+    const msg = `${fnTag} Unsupported scrypt cost: ${cost}. Expected a power of two between ${K_MIN_KEYCHAIN_FILE_SCRYPT_COST} and ${K_MAX_KEYCHAIN_FILE_SCRYPT_COST}.`;
+    throw new Error(msg);
+  }
+  if (blockSize !== K_SCRYPT_BLOCK_SIZE) {
+    throw new Error(`${fnTag} Unsupported scrypt block size: ${blockSize}`);
+  }
+  if (parallelization !== K_SCRYPT_PARALLELIZATION) {
+    const msg = `${fnTag} Unsupported scrypt parallelization: ${parallelization}`;
+    throw new Error(msg);
+  }
+  if (typeof params.salt !== "string") {
+    throw new Error(`${fnTag} Missing scrypt salt.`);
+  }
+}
+
+/**
+ * Obtains the master key from `source`. Passphrases are run through scrypt
+ * with the salt and cost parameters of `kdf` when specified (e.g. the ones
+ * read from an existing keychain file) or with a random salt otherwise.
+ *
+ * @throws If `source` is invalid, the environment variable is not set or
+ * does not hold a key of the right length, if `kdf` is set but `source`
+ * has no passphrase or if the scrypt parameters are not supported.
+ */
+export async function createKeychainFileMasterKey(
+  source: IKeychainFileMasterKeySource,
+  kdf?: IKeychainFileKdfParams,
+  cost = K_DEFAULT_KEYCHAIN_FILE_SCRYPT_COST,
+): Promise<IKeychainFileMasterKey> {
+  const fnTag = "createKeychainFileMasterKey()";
+  Checks.truthy(source, `${fnTag} arg source`);
+  const { passphrase, masterKeyEnvVar } = source;
+  if (!passphrase === !masterKeyEnvVar) {
+    const msg = `${fnTag} Exactly one of passphrase or masterKeyEnvVar is required.`;
+    throw new Error(msg);
+  }
+
+  if (masterKeyEnvVar) {
+    if (kdf) {
+      const msg = `${fnTag} The keychain file was encrypted with a passphrase derived key.`;
+      throw new Error(msg);
+    }
+    const encoded = process.env[masterKeyEnvVar];
+    if (!encoded) {
+      throw new Error(
+        `${fnTag} Environment variable ${masterKeyEnvVar} unset.`,
+      );
+    }
+    const key = Buffer.from(encoded, "base64");
+    if (key.length !== K_KEYCHAIN_FILE_KEY_LENGTH) {
+      const msg = `${fnTag} ${masterKeyEnvVar} must hold ${K_KEYCHAIN_FILE_KEY_LENGTH} bytes base64 encoded, got ${key.length} bytes.`;
+      throw new Error(msg);
+    }
+    return { key };
+  }
+
+  const params: IKeychainFileKdfParams = kdf || {
+    name: "scrypt",
+    salt: randomBytes(K_SALT_LENGTH).toString("base64"),
+    cost,
+    blockSize: K_SCRYPT_BLOCK_SIZE,
+    parallelization: K_SCRYPT_PARALLELIZATION,
+  };
+  checkKeychainFileKdfParams(params);
+  const { cost: N, blockSize: r, parallelization: p } = params;
+  const salt = Buffer.from(params.salt, "base64");
+  // scrypt needs 128 * N * r bytes which is exactly the default limit of
+  // NodeJS for the default cost so we leave some headroom.
+  const maxmem = 256 * N * r;
+  const key = await scryptAsync(passphrase as string, salt, {
+    N,
+    r,
+    p,
+    maxmem,
+  });
+  return { key, kdf: params };
+}
+
+function toAad(keychainId: string, kdf?: IKeychainFileKdfParams): Buffer {
+  const header = {
+    version: K_KEYCHAIN_FILE_FORMAT_VERSION,
+    keychainId,
+    cipher: K_KEYCHAIN_FILE_CIPHER,
+    kdf: kdf || null,
+  };
+  return Buffer.from(JSON.stringify(header), "utf-8");
+}
+
+/**
+ * Encrypts `entries` with a fresh initialization vector.
+ */
+export function sealKeychainFile(
+  keychainId: string,
+  masterKey: IKeychainFileMasterKey,
+  entries: Map<string, string>,
+): IKeychainFileEnvelope {
+  const { key, kdf } = masterKey;
+  const iv = randomBytes(K_IV_LENGTH);
+  const cipher = createCipheriv(K_KEYCHAIN_FILE_CIPHER, key, iv);
+  cipher.setAAD(toAad(keychainId, kdf));
+  const plaintext = JSON.stringify(Object.fromEntries(entries));
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf-8"),
+    cipher.final(),
+  ]);
+
+  return {
+    version: K_KEYCHAIN_FILE_FORMAT_VERSION,
+    keychainId,
+    cipher: K_KEYCHAIN_FILE_CIPHER,
+    kdf,
+    iv: iv.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+/**
+ * The inverse of `sealKeychainFile()`.
+ *
+ * @throws If the envelope has an unsupported format or if it cannot be
+ * authenticated with `masterKey` meaning that either the key is wrong or the
+ * file has been tampered with.
+ */
+export function openKeychainFile(
+  envelope: IKeychainFileEnvelope,
+  masterKey: IKeychainFileMasterKey,
+): Map<string, string> {
+  const fnTag = "openKeychainFile()";
+  if (envelope.version !== K_KEYCHAIN_FILE_FORMAT_VERSION) {
+    throw new Error(`${fnTag} Unsupported version: ${envelope.version}`);
+  }
+  if (envelope.cipher !== K_KEYCHAIN_FILE_CIPHER) {
+    throw new Error(`${fnTag} Unsupported cipher: ${envelope.cipher}`);
+  }
+  const iv = Buffer.from(envelope.iv, "base64");
+  const decipher = createDecipheriv(K_KEYCHAIN_FILE_CIPHER, masterKey.key, iv);
+  decipher.setAAD(toAad(envelope.keychainId, envelope.kdf));
+  decipher.setAuthTag(Buffer.from(envelope.authTag, "base64"));
+
+  let plaintext: string;
+  try {
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(envelope.ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch (ex: unknown) {
+    const cause = asError(ex);
+    const msg = `${fnTag} Decryption failed. Wrong master key or corrupted file.`;
+    throw new Error(msg, { cause });
+  }
+  return new Map(Object.entries<string>(JSON.parse(plaintext)));
+}
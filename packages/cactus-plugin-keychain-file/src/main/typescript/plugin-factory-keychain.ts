@@ -0,0 +1,29 @@
+import { Checks } from "@hyperledger/cactus-common";
+import {
+  IPluginFactoryOptions,
+  IPluginKeychain,
+  PluginFactory,
+  PluginImportType,
+} from "@hyperledger/cactus-core-api";
+import {
+  IPluginKeychainFileOptions,
+  PluginKeychainFile,
+} from "./plugin-keychain-file";
+
+export class PluginFactoryKeychain extends PluginFactory<
+  IPluginKeychain,
+  IPluginKeychainFileOptions,
+  IPluginFactoryOptions
+> {
+  async create(options: any): Promise<IPluginKeychain> {
+    const fnTag = "PluginFactoryKeychain#create()";
+
+    const { pluginImportType } = this.options;
+    Checks.truthy(options, `${fnTag}:options`);
+    if (pluginImportType === PluginImportType.Local) {
+      return new PluginKeychainFile(options);
+    } else {
+      throw new Error(`${fnTag} No PluginImportType: ${pluginImportType}`);
+    }
+  }
+}
@@ -0,0 +1,337 @@
+import type { Express } from "express";
+import fs from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { NotFoundError } from "http-errors-enhanced-cjs";
+
+import OAS from "../json/openapi.json";
+
+import {
+  Logger,
+  Checks,
+  LogLevelDesc,
+  LoggerProvider,
+} from "@hyperledger/cactus-common";
+import {
+  ICactusPluginOptions,
+  IPluginKeychain,
+  IPluginWebService,
+  IWebServiceEndpoint,
+} from "@hyperledger/cactus-core-api";
+
+import {
+  createKeychainFileMasterKey,
+  IKeychainFileEnvelope,
+  IKeychainFileMasterKey,
+  IKeychainFileMasterKeySource,
+  K_DEFAULT_KEYCHAIN_FILE_SCRYPT_COST,
+  K_KEYCHAIN_FILE_CIPHER,
+  openKeychainFile,
+  sealKeychainFile,
+} from "./keychain-file-cipher";
+import { GetKeychainEntryEndpointV1 } from "./web-services/get-keychain-entry-endpoint-v1";
+import { SetKeychainEntryEndpointV1 } from "./web-services/set-keychain-entry-endpoint-v1";
+import { HasKeychainEntryEndpointV1 } from "./web-services/has-keychain-entry-endpoint-v1";
+import { DeleteKeychainEntryEndpointV1 } from "./web-services/delete-keychain-entry-endpoint-v1";
+
+export interface IPluginKeychainFileOptions
+  extends ICactusPluginOptions,
+    IKeychainFileMasterKeySource {
+  logLevel?: LogLevelDesc;
+  keychainId: string;
+  /**
+   * Path of the file where the encrypted entries are stored. It is created
+   * (along with its parent directories) upon the first write if it does not
+   * exist yet.
+   * The file must not be shared by multiple plugin instances or processes
+   * because the entries are cached in memory once loaded.
+   */
+  filePath: string;
+  /**
+   * The scrypt cost parameter (N) used when deriving a master key from a new
+   * passphrase. Existing files keep using the parameters stored in them.
+   * Must be a power of two between `K_MIN_KEYCHAIN_FILE_SCRYPT_COST` and
+   * `K_MAX_KEYCHAIN_FILE_SCRYPT_COST`, files with any other cost are
+   * rejected when loaded.
+   * Optional, defaults to `K_DEFAULT_KEYCHAIN_FILE_SCRYPT_COST`.
+   */
+  scryptCost?: number;
+}
+
+interface IKeychainFileState {
+  masterKey: IKeychainFileMasterKey;
+  entries: Map<string, string>;
+}
+
+/**
+ * Keychain that keeps its entries in a single local file, encrypted at rest
+ * with AES-256-GCM. The master key is either derived from a passphrase via
+ * scrypt or read from an environment variable.
+ *
+ * Every modification rewrites the whole file atomically (write to a
+ * temporary file, fsync, rename) so that a crash can never leave a partially
+ * written keychain behind. Modifications are serialized within the process.
+ */
+export class PluginKeychainFile implements IPluginKeychain, IPluginWebService {
+  public static readonly CLASS_NAME = "PluginKeychainFile";
+
+  private readonly log: Logger;
+  private readonly instanceId: string;
+  private readonly filePath: string;
+  private readonly scryptCost: number;
+  private masterKeySource: IKeychainFileMasterKeySource;
+  private state: Promise<IKeychainFileState> | undefined;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private endpoints: IWebServiceEndpoint[] | undefined;
+
+  public get className(): string {
+    return PluginKeychainFile.CLASS_NAME;
+  }
+
+  constructor(public readonly opts: IPluginKeychainFileOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(opts, `${fnTag} arg options`);
+    Checks.truthy(opts.instanceId, `${fnTag} options.instanceId`);
+    Checks.nonBlankString(opts.keychainId, `${fnTag} options.keychainId`);
+    Checks.nonBlankString(opts.filePath, `${fnTag} options.filePath`);
+    Checks.truthy(
+      !opts.passphrase !== !opts.masterKeyEnvVar,
+      `${fnTag} exactly one of options.passphrase, options.masterKeyEnvVar`,
+    );
+
+    const level = this.opts.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+
+    this.instanceId = opts.instanceId;
+    this.filePath = path.resolve(opts.filePath);
+    this.scryptCost = opts.scryptCost || K_DEFAULT_KEYCHAIN_FILE_SCRYPT_COST;
+    this.masterKeySource = {
+      passphrase: opts.passphrase,
+      masterKeyEnvVar: opts.masterKeyEnvVar,
+    };
+
+    this.log.info(`Created ${this.className}. KeychainID=${opts.keychainId}`);
+  }
+
+  public getOpenApiSpec(): unknown {
+    return OAS;
+  }
+
+  async registerWebServices(app: Express): Promise<IWebServiceEndpoint[]> {
+    const webServices = await this.getOrCreateWebServices();
+    await Promise.all(webServices.map((ws) => ws.registerExpress(app)));
+    return webServices;
+  }
+
+  public async getOrCreateWebServices(): Promise<IWebServiceEndpoint[]> {
+    if (Array.isArray(this.endpoints)) {
+      return this.endpoints;
+    }
+    const endpoints: IWebServiceEndpoint[] = [];
+    {
+      const ep = new GetKeychainEntryEndpointV1({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new SetKeychainEntryEndpointV1({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new HasKeychainEntryEndpointV1({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new DeleteKeychainEntryEndpointV1({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    this.endpoints = endpoints;
+    return endpoints;
+  }
+
+  public async shutdown(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  public getInstanceId(): string {
+    return this.instanceId;
+  }
+
+  public getKeychainId(): string {
+    return this.opts.keychainId;
+  }
+
+  public getPackageName(): string {
+    return `@hyperledger/cactus-plugin-keychain-file`;
+  }
+
+  /**
+   * Loads and decrypts the keychain file so that a wrong master key or a
+   * corrupted file is detected when the plugin is initialized rather than
+   * upon the first request.
+   */
+  public async onPluginInit(): Promise<unknown> {
+    await this.getOrLoadState();
+    return;
+  }
+
+  public getEncryptionAlgorithm(): string {
+    return K_KEYCHAIN_FILE_CIPHER;
+  }
+
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  async has(key: string): Promise<boolean> {
+    const { entries } = await this.getOrLoadState();
+    return entries.has(key);
+  }
+
+  async get(key: string): Promise<string> {
+    const { entries } = await this.getOrLoadState();
+    const value = entries.get(key);
+    if (value === undefined) {
+      throw new NotFoundError(`Keychain entry for "${key}" not found.`);
+    }
+    return value;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    Checks.nonBlankString(key, `${this.className}#set() key`);
+    await this.mutate((entries) => entries.set(key, value));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.mutate((entries) => entries.delete(key));
+  }
+
+  /**
+   * Re-encrypts every entry of the keychain with a new master key and makes
+   * the plugin use that key from then on. Passphrase derived keys always get
+   * a fresh salt.
+   * The file is replaced atomically so it is encrypted either entirely with
+   * the old or entirely with the new master key even if the process crashes
+   * in the middle of the rotation.
+   *
+   * @param source Where to obtain the new master key from.
+   */
+  public async rotateMasterKey(
+    source: IKeychainFileMasterKeySource,
+  ): Promise<void> {
+    const fnTag = `${this.className}#rotateMasterKey()`;
+    Checks.truthy(source, `${fnTag} arg source`);
+    await this.enqueueWrite(async () => {
+      const state = await this.getOrLoadState();
+      const masterKey = await createKeychainFileMasterKey(
+        source,
+        undefined,
+        this.scryptCost,
+      );
+      await this.writeEntries(masterKey, state.entries);
+      this.masterKeySource = source;
+      state.masterKey = masterKey;
+      this.log.info(`${fnTag} Rotated master key of ${this.filePath}`);
+    });
+  }
+
+  private async mutate(
+    mutation: (entries: Map<string, string>) => unknown,
+  ): Promise<void> {
+    await this.enqueueWrite(async () => {
+      const state = await this.getOrLoadState();
+      const entries = new Map(state.entries);
+      mutation(entries);
+      await this.writeEntries(state.masterKey, entries);
+      state.entries = entries;
+    });
+  }
+
+  private enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private getOrLoadState(): Promise<IKeychainFileState> {
+    if (!this.state) {
+      this.state = this.loadState();
+      // Allow retrying (e.g. after the file permissions were fixed).
+      this.state.catch(() => (this.state = undefined));
+    }
+    return this.state;
+  }
+
+  private async loadState(): Promise<IKeychainFileState> {
+    const fnTag = `${this.className}#loadState()`;
+    const source = this.masterKeySource;
+
+    let json: string;
+    try {
+      json = await fs.promises.readFile(this.filePath, "utf-8");
+    } catch (ex) {
+      if ((ex as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw ex;
+      }
+      this.log.debug(`${fnTag} ${this.filePath} not found, starting empty.`);
+      const masterKey = await createKeychainFileMasterKey(
+        source,
+        undefined,
+        this.scryptCost,
+      );
+      return { masterKey, entries: new Map() };
+    }
+
+    const envelope = JSON.parse(json) as IKeychainFileEnvelope;
+    if (envelope.keychainId !== this.getKeychainId()) {
+      const msg = `${fnTag} ${this.filePath} belongs to keychain ${envelope.keychainId}`;
+      throw new Error(msg);
+    }
+    if (source.passphrase && !envelope.kdf) {
+      const msg = `${fnTag} ${this.filePath} was not encrypted with a passphrase derived key.`;
+      throw new Error(msg);
+    }
+    const masterKey = await createKeychainFileMasterKey(source, envelope.kdf);
+    const entries = openKeychainFile(envelope, masterKey);
+    this.log.debug(`${fnTag} Loaded ${entries.size} entries.`);
+    return { masterKey, entries };
+  }
+
+  private async writeEntries(
+    masterKey: IKeychainFileMasterKey,
+    entries: Map<string, string>,
+  ): Promise<void> {
+    const envelope = sealKeychainFile(this.getKeychainId(), masterKey, entries);
+    const json = JSON.stringify(envelope, null, 2);
+
+    const dir = path.dirname(this.filePath);
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const tmpPath = `${this.filePath}.${uuidv4()}.tmp`;
+    try {
+      const fd = await fs.promises.open(tmpPath, "wx", 0o600);
+      try {
+        await fd.writeFile(json, "utf-8");
+        await fd.sync();
+      } finally {
+        await fd.close();
+      }
+      await fs.promises.rename(tmpPath, this.filePath);
+    } catch (ex) {
+      await fs.promises.rm(tmpPath, { force: true });
+      throw ex;
+    }
+  }
+}
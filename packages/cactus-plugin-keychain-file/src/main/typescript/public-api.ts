@@ -0,0 +1,30 @@
+export * from "./generated/openapi/typescript-axios/index";
+
+import { IPluginFactoryOptions } from "@hyperledger/cactus-core-api";
+
+import { PluginFactoryKeychain } from "./plugin-factory-keychain";
+export { PluginFactoryKeychain } from "./plugin-factory-keychain";
+
+export {
+  IPluginKeychainFileOptions,
+  PluginKeychainFile,
+} from "./plugin-keychain-file";
+
+export {
+  checkKeychainFileKdfParams,
+  IKeychainFileEnvelope,
+  IKeychainFileKdfParams,
+  IKeychainFileMasterKeySource,
+  K_DEFAULT_KEYCHAIN_FILE_SCRYPT_COST,
+  K_KEYCHAIN_FILE_CIPHER,
+  K_KEYCHAIN_FILE_FORMAT_VERSION,
+  K_KEYCHAIN_FILE_KEY_LENGTH,
+  K_MAX_KEYCHAIN_FILE_SCRYPT_COST,
+  K_MIN_KEYCHAIN_FILE_SCRYPT_COST,
+} from "./keychain-file-cipher";
+
+export async function createPluginFactory(
+  pluginFactoryOptions: IPluginFactoryOptions,
+): Promise<PluginFactoryKeychain> {
+  return new PluginFactoryKeychain(pluginFactoryOptions);
+}
@@ -0,0 +1,230 @@
+import express from "express";
+import "jest-extended";
+import bodyParser from "body-parser";
+import http from "http";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomBytes } from "crypto";
+import { AddressInfo } from "net";
+import { v4 as uuidv4 } from "uuid";
+
+import { IListenOptions, Servers } from "@hyperledger/cactus-common";
+import { Configuration } from "@hyperledger/cactus-core-api";
+
+import {
+  DefaultApi as KeychainFileApi,
+  IPluginKeychainFileOptions,
+  PluginKeychainFile,
+} from "../../../main/typescript/public-api";
+
+const testcase = "PluginKeychainFile";
+
+describe(testcase, () => {
+  // Keep the tests fast, the default cost is meant for production use.
+  const scryptCost = 2 ** 10;
+  const masterKeyEnvVar = "CACTI_TEST_KEYCHAIN_FILE_MASTER_KEY";
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    const prefix = path.join(os.tmpdir(), "cacti-keychain-file-");
+    tmpDir = await fs.promises.mkdtemp(prefix);
+    process.env[masterKeyEnvVar] = randomBytes(32).toString("base64");
+  });
+
+  afterAll(async () => {
+    delete process.env[masterKeyEnvVar];
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  function createOptions(
+    overrides: Partial<IPluginKeychainFileOptions> = {},
+  ): IPluginKeychainFileOptions {
+    return {
+      instanceId: uuidv4(),
+      keychainId: "keychain-file-test",
+      filePath: path.join(tmpDir, `${uuidv4()}.json`),
+      passphrase: "correct horse battery staple",
+      scryptCost,
+      logLevel: "WARN",
+      ...overrides,
+    };
+  }
+
+  test("Validates constructor args", () => {
+    expect(() => new PluginKeychainFile(createOptions())).not.toThrow();
+    expect(
+      () => new PluginKeychainFile(createOptions({ filePath: "" })),
+    ).toThrow();
+    expect(
+      () => new PluginKeychainFile(createOptions({ passphrase: undefined })),
+    ).toThrow();
+    expect(
+      () => new PluginKeychainFile(createOptions({ masterKeyEnvVar })),
+    ).toThrow();
+  });
+
+  test("persists entries encrypted across plugin instances", async () => {
+    const options = createOptions();
+    const plugin = new PluginKeychainFile(options);
+
+    const key = uuidv4();
+    const value = uuidv4();
+    expect(await plugin.has(key)).toBeFalse();
+    await plugin.set(key, value);
+    expect(await plugin.get(key)).toEqual(value);
+
+    const contents = await fs.promises.readFile(options.filePath, "utf-8");
+    expect(contents).not.toContain(key);
+    expect(contents).not.toContain(value);
+    const dirEntries = await fs.promises.readdir(tmpDir);
+    expect(dirEntries.filter((f) => f.endsWith(".tmp"))).toBeEmpty();
+
+    const reopened = new PluginKeychainFile({
+      ...options,
+      instanceId: uuidv4(),
+    });
+    await reopened.onPluginInit();
+    expect(await reopened.get(key)).toEqual(value);
+
+    await reopened.delete(key);
+    expect(await reopened.has(key)).toBeFalse();
+    await expect(reopened.get(key)).rejects.toThrow(/not found/);
+  });
+
+  test("rejects a wrong passphrase or a tampered file", async () => {
+    const options = createOptions();
+    const plugin = new PluginKeychainFile(options);
+    await plugin.set("a", "b");
+
+    const wrongPassphrase = new PluginKeychainFile({
+      ...options,
+      passphrase: "wrong",
+    });
+    await expect(wrongPassphrase.onPluginInit()).rejects.toThrow(
+      /Decryption failed/,
+    );
+
+    const json = await fs.promises.readFile(options.filePath, "utf-8");
+    const envelope = JSON.parse(json);
+    envelope.kdf.cost = scryptCost * 2;
+    await fs.promises.writeFile(options.filePath, JSON.stringify(envelope));
+    const tampered = new PluginKeychainFile(options);
+    await expect(tampered.onPluginInit()).rejects.toThrow(/Decryption failed/);
+  });
+
+  test("rejects unsupported key derivation parameters", async () => {
+    const options = createOptions();
+    const plugin = new PluginKeychainFile(options);
+    await plugin.set("a", "b");
+    const json = await fs.promises.readFile(options.filePath, "utf-8");
+
+    const tamperings = [
+      { cost: 2 ** 30 },
+      { cost: 2 ** 10 + 1 },
+      { cost: 2 ** 9 },
+      { cost: "1024" },
+      { blockSize: 2 ** 20 },
+      { parallelization: 16 },
+    ];
+    for (const tampering of tamperings) {
+      const envelope = JSON.parse(json);
+      envelope.kdf = { ...envelope.kdf, ...tampering };
+      await fs.promises.writeFile(options.filePath, JSON.stringify(envelope));
+      const tampered = new PluginKeychainFile(options);
+      await expect(tampered.onPluginInit()).rejects.toThrow(/Unsupported/);
+    }
+
+    const tooCostly = new PluginKeychainFile(
+      createOptions({ scryptCost: 2 ** 20 }),
+    );
+    await expect(tooCostly.set("a", "b")).rejects.toThrow(
+      /Unsupported scrypt cost/,
+    );
+  });
+
+  test("rotates the master key", async () => {
+    const options = createOptions();
+    const plugin = new PluginKeychainFile(options);
+    await plugin.set("key1", "value1");
+    await plugin.set("key2", "value2");
+
+    await plugin.rotateMasterKey({ masterKeyEnvVar });
+    await plugin.set("key3", "value3");
+
+    const withOldKey = new PluginKeychainFile(options);
+    await expect(withOldKey.onPluginInit()).rejects.toThrow();
+
+    const withNewKey = new PluginKeychainFile({
+      ...options,
+      passphrase: undefined,
+      masterKeyEnvVar,
+    });
+    expect(await withNewKey.get("key1")).toEqual("value1");
+    expect(await withNewKey.get("key2")).toEqual("value2");
+    expect(await withNewKey.get("key3")).toEqual("value3");
+
+    await withNewKey.rotateMasterKey({ passphrase: "new passphrase" });
+    const rotatedBack = new PluginKeychainFile({
+      ...options,
+      passphrase: "new passphrase",
+    });
+    expect(await rotatedBack.get("key3")).toEqual("value3");
+  });
+
+  test("serializes concurrent writes", async () => {
+    const options = createOptions();
+    const plugin = new PluginKeychainFile(options);
+    const keys = Array.from({ length: 20 }, () => uuidv4());
+    await Promise.all(keys.map((k) => plugin.set(k, k)));
+
+    const reopened = new PluginKeychainFile(options);
+    for (const k of keys) {
+      expect(await reopened.get(k)).toEqual(k);
+    }
+  });
+
+  describe("REST API", () => {
+    const expressApp = express();
+    expressApp.use(bodyParser.json({ limit: "250mb" }));
+    const server = http.createServer(expressApp);
+    const listenOptions: IListenOptions = {
+      hostname: "127.0.0.1",
+      port: 0,
+      server,
+    };
+    let apiClient: KeychainFileApi;
+
+    beforeAll(async () => {
+      const plugin = new PluginKeychainFile(createOptions());
+      await plugin.registerWebServices(expressApp);
+      const addressInfo = (await Servers.listen(listenOptions)) as AddressInfo;
+      const { address, port } = addressInfo;
+      const config = new Configuration({
+        basePath: `http://${address}:${port}`,
+      });
+      apiClient = new KeychainFileApi(config);
+    });
+
+    afterAll(async () => await Servers.shutdown(server));
+
+    test("get,set,has,delete", async () => {
+      const key = uuidv4();
+      const value = uuidv4();
+
+      const { data: hasPrior } = await apiClient.hasKeychainEntryV1({ key });
+      expect(hasPrior.isPresent).toBeFalse();
+
+      await apiClient.setKeychainEntryV1({ key, value });
+      const { data: getRes } = await apiClient.getKeychainEntryV1({ key });
+      expect(getRes.value).toEqual(value);
+
+      const { data: delRes } = await apiClient.deleteKeychainEntryV1({ key });
+      expect(delRes.key).toEqual(key);
+
+      await expect(apiClient.getKeychainEntryV1({ key })).rejects.toMatchObject(
+        { response: { status: 404 } },
+      );
+    });
+  });
+});
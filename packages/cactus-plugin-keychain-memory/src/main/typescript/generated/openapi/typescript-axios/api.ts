@@ -49,6 +49,19 @@ export interface DeleteKeychainEntryResponseV1 {
      */
     'key': string;
 }
+/**
+ * 
+ * @export
+ * @interface GetKeychainEntryMetadataRequestV2
+ */
+export interface GetKeychainEntryMetadataRequestV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof GetKeychainEntryMetadataRequestV2
+     */
+    'key': string;
+}
 /**
  * 
  * @export
@@ -81,6 +94,50 @@ export interface GetKeychainEntryResponseV1 {
      */
     'value': string;
 }
+/**
+ * 
+ * @export
+ * @interface GetKeychainEntryVersionRequestV2
+ */
+export interface GetKeychainEntryVersionRequestV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof GetKeychainEntryVersionRequestV2
+     */
+    'key': string;
+    /**
+     * 
+     * @type {number}
+     * @memberof GetKeychainEntryVersionRequestV2
+     */
+    'version': number;
+}
+/**
+ * 
+ * @export
+ * @interface GetKeychainEntryVersionResponseV2
+ */
+export interface GetKeychainEntryVersionResponseV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof GetKeychainEntryVersionResponseV2
+     */
+    'key': string;
+    /**
+     * 
+     * @type {number}
+     * @memberof GetKeychainEntryVersionResponseV2
+     */
+    'version': number;
+    /**
+     * 
+     * @type {string}
+     * @memberof GetKeychainEntryVersionResponseV2
+     */
+    'value': string;
+}
 /**
  * 
  * @export
@@ -119,6 +176,186 @@ export interface HasKeychainEntryResponseV1 {
      */
     'isPresent': boolean;
 }
+/**
+ * Describes which parts of the keychain contract the keychain supports.
+ * @export
+ * @interface KeychainCapabilitiesV2
+ */
+export interface KeychainCapabilitiesV2 {
+    /**
+     * 
+     * @type {string}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'keychainId': string;
+    /**
+     * The versions of the keychain contract implemented, for example ["v1", "v2"].
+     * @type {Array<string>}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'apiVersions': Array<string>;
+    /**
+     * 
+     * @type {boolean}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'supportsList': boolean;
+    /**
+     * 
+     * @type {boolean}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'supportsMetadata': boolean;
+    /**
+     * 
+     * @type {boolean}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'supportsVersioning': boolean;
+    /**
+     * 
+     * @type {boolean}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'supportsCompareAndSet': boolean;
+    /**
+     * 
+     * @type {boolean}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'supportsTtl': boolean;
+    /**
+     * The number of versions retained for each entry (the current one included).
+     * @type {number}
+     * @memberof KeychainCapabilitiesV2
+     */
+    'maxVersions': number;
+}
+/**
+ * Describes a keychain entry (or one version of it) without disclosing its value.
+ * @export
+ * @interface KeychainEntryMetadataV2
+ */
+export interface KeychainEntryMetadataV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'key': string;
+    /**
+     * The version number of the entry. Starts at 1 and is incremented by every write.
+     * @type {number}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'version': number;
+    /**
+     * When the first version of the entry was written.
+     * @type {string}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'createdAt': string;
+    /**
+     * When this version of the entry was written.
+     * @type {string}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'updatedAt': string;
+    /**
+     * The media type of the value as specified by its writer, if any.
+     * @type {string}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'contentType'?: string;
+    /**
+     * Arbitrary string labels attached to the entry by its writer.
+     * @type {{ [key: string]: string; }}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'tags'?: { [key: string]: string; };
+    /**
+     * When the entry expires (if it was written with a TTL).
+     * @type {string | null}
+     * @memberof KeychainEntryMetadataV2
+     */
+    'expiresAt'?: string | null;
+}
+/**
+ * 
+ * @export
+ * @interface ListKeychainEntriesRequestV2
+ */
+export interface ListKeychainEntriesRequestV2 {
+    /**
+     * Only the entries with keys starting with this prefix are returned.
+     * @type {string}
+     * @memberof ListKeychainEntriesRequestV2
+     */
+    'prefix'?: string;
+    /**
+     * The maximum number of entries returned in one page.
+     * @type {number}
+     * @memberof ListKeychainEntriesRequestV2
+     */
+    'limit'?: number;
+    /**
+     * The token returned with the previous page.
+     * @type {string}
+     * @memberof ListKeychainEntriesRequestV2
+     */
+    'continuationToken'?: string;
+}
+/**
+ * 
+ * @export
+ * @interface ListKeychainEntriesResponseV2
+ */
+export interface ListKeychainEntriesResponseV2 {
+    /**
+     * 
+     * @type {Array<KeychainEntryMetadataV2>}
+     * @memberof ListKeychainEntriesResponseV2
+     */
+    'entries': Array<KeychainEntryMetadataV2>;
+    /**
+     * Present if there are more entries to list. Pass it in the next request to get the next page.
+     * @type {string | null}
+     * @memberof ListKeychainEntriesResponseV2
+     */
+    'continuationToken'?: string | null;
+}
+/**
+ * 
+ * @export
+ * @interface ListKeychainEntryVersionsRequestV2
+ */
+export interface ListKeychainEntryVersionsRequestV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof ListKeychainEntryVersionsRequestV2
+     */
+    'key': string;
+}
+/**
+ * 
+ * @export
+ * @interface ListKeychainEntryVersionsResponseV2
+ */
+export interface ListKeychainEntryVersionsResponseV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof ListKeychainEntryVersionsResponseV2
+     */
+    'key': string;
+    /**
+     * The retained versions of the entry, the most recent one first.
+     * @type {Array<KeychainEntryMetadataV2>}
+     * @memberof ListKeychainEntryVersionsResponseV2
+     */
+    'versions': Array<KeychainEntryMetadataV2>;
+}
 /**
  * 
  * @export
@@ -138,6 +375,49 @@ export interface SetKeychainEntryRequestV1 {
      */
     'value': string;
 }
+/**
+ * 
+ * @export
+ * @interface SetKeychainEntryRequestV2
+ */
+export interface SetKeychainEntryRequestV2 {
+    /**
+     * The key of the keychain entry.
+     * @type {string}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'key': string;
+    /**
+     * The value that will be associated with the key on the keychain.
+     * @type {string}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'value': string;
+    /**
+     * The media type of the value.
+     * @type {string}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'contentType'?: string;
+    /**
+     * Arbitrary string labels attached to the entry by its writer.
+     * @type {{ [key: string]: string; }}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'tags'?: { [key: string]: string; };
+    /**
+     * The entry expires this many seconds after it was written.
+     * @type {number}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'ttlSeconds'?: number;
+    /**
+     * Compare-and-set: the write only succeeds if the current version of the entry is this one. Zero means that the entry must not exist yet.
+     * @type {number}
+     * @memberof SetKeychainEntryRequestV2
+     */
+    'expectedVersion'?: number;
+}
 /**
  * 
  * @export
@@ -194,6 +474,72 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
                 options: localVarRequestOptions,
             };
         },
+        /**
+         * 
+         * @summary Describes which parts of the keychain contract the keychain supports
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getKeychainCapabilitiesV2: async (options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            const localVarPath = `/api/v1/plugins/@hyperledger/cactus-plugin-keychain-memory/get-keychain-capabilities-v2`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * 
+         * @summary Retrieves the metadata of an entry of the keychain
+         * @param {GetKeychainEntryMetadataRequestV2} getKeychainEntryMetadataRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getKeychainEntryMetadataV2: async (getKeychainEntryMetadataRequestV2: GetKeychainEntryMetadataRequestV2, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'getKeychainEntryMetadataRequestV2' is not null or undefined
+            assertParamExists('getKeychainEntryMetadataV2', 'getKeychainEntryMetadataRequestV2', getKeychainEntryMetadataRequestV2)
+            const localVarPath = `/api/v1/plugins/@hyperledger/cactus-plugin-keychain-memory/get-keychain-entry-metadata-v2`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(getKeychainEntryMetadataRequestV2, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
         /**
          * 
          * @summary Retrieves the contents of a keychain entry from the backend.
@@ -230,6 +576,42 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
                 options: localVarRequestOptions,
             };
         },
+        /**
+         * 
+         * @summary Retrieves the value of a specific version of an entry
+         * @param {GetKeychainEntryVersionRequestV2} getKeychainEntryVersionRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getKeychainEntryVersionV2: async (getKeychainEntryVersionRequestV2: GetKeychainEntryVersionRequestV2, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'getKeychainEntryVersionRequestV2' is not null or undefined
+            assertParamExists('getKeychainEntryVersionV2', 'getKeychainEntryVersionRequestV2', getKeychainEntryVersionRequestV2)
+            const localVarPath = `/api/v1/plugins/@hyperledger/cactus-plugin-keychain-memory/get-keychain-entry-version-v2`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(getKeychainEntryVersionRequestV2, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
         /**
          * 
          * @summary Get the Prometheus Metrics
@@ -296,6 +678,78 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
                 options: localVarRequestOptions,
             };
         },
+        /**
+         * 
+         * @summary Lists the entries of the keychain (without their values) one page at a time
+         * @param {ListKeychainEntriesRequestV2} listKeychainEntriesRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listKeychainEntriesV2: async (listKeychainEntriesRequestV2: ListKeychainEntriesRequestV2, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'listKeychainEntriesRequestV2' is not null or undefined
+            assertParamExists('listKeychainEntriesV2', 'listKeychainEntriesRequestV2', listKeychainEntriesRequestV2)
+            const localVarPath = `/api/v1/plugins/@hyperledger/cactus-plugin-keychain-memory/list-keychain-entries-v2`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(listKeychainEntriesRequestV2, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * 
+         * @summary Lists the retained versions of an entry (without their values)
+         * @param {ListKeychainEntryVersionsRequestV2} listKeychainEntryVersionsRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listKeychainEntryVersionsV2: async (listKeychainEntryVersionsRequestV2: ListKeychainEntryVersionsRequestV2, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'listKeychainEntryVersionsRequestV2' is not null or undefined
+            assertParamExists('listKeychainEntryVersionsV2', 'listKeychainEntryVersionsRequestV2', listKeychainEntryVersionsRequestV2)
+            const localVarPath = `/api/v1/plugins/@hyperledger/cactus-plugin-keychain-memory/list-keychain-entry-versions-v2`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(listKeychainEntryVersionsRequestV2, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
         /**
          * 
          * @summary Sets a value under a key on the keychain backend.
@@ -327,6 +781,42 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
             localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
             localVarRequestOptions.data = serializeDataIfNeeded(setKeychainEntryRequestV1, localVarRequestOptions, configuration)
 
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * 
+         * @summary Writes a new version of an entry with optional metadata, TTL and compare-and-set
+         * @param {SetKeychainEntryRequestV2} setKeychainEntryRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        setKeychainEntryV2: async (setKeychainEntryRequestV2: SetKeychainEntryRequestV2, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'setKeychainEntryRequestV2' is not null or undefined
+            assertParamExists('setKeychainEntryV2', 'setKeychainEntryRequestV2', setKeychainEntryRequestV2)
+            const localVarPath = `/api/v1/plugins/@hyperledger/cactus-plugin-keychain-memory/set-keychain-entry-v2`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(setKeychainEntryRequestV2, localVarRequestOptions, configuration)
+
             return {
                 url: toPathString(localVarUrlObj),
                 options: localVarRequestOptions,
@@ -353,6 +843,27 @@ export const DefaultApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.deleteKeychainEntryV1(deleteKeychainEntryRequestV1, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * 
+         * @summary Describes which parts of the keychain contract the keychain supports
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async getKeychainCapabilitiesV2(options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<KeychainCapabilitiesV2>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.getKeychainCapabilitiesV2(options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * 
+         * @summary Retrieves the metadata of an entry of the keychain
+         * @param {GetKeychainEntryMetadataRequestV2} getKeychainEntryMetadataRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async getKeychainEntryMetadataV2(getKeychainEntryMetadataRequestV2: GetKeychainEntryMetadataRequestV2, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<KeychainEntryMetadataV2>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.getKeychainEntryMetadataV2(getKeychainEntryMetadataRequestV2, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * 
          * @summary Retrieves the contents of a keychain entry from the backend.
@@ -364,6 +875,17 @@ export const DefaultApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.getKeychainEntryV1(getKeychainEntryRequestV1, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * 
+         * @summary Retrieves the value of a specific version of an entry
+         * @param {GetKeychainEntryVersionRequestV2} getKeychainEntryVersionRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async getKeychainEntryVersionV2(getKeychainEntryVersionRequestV2: GetKeychainEntryVersionRequestV2, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<GetKeychainEntryVersionResponseV2>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.getKeychainEntryVersionV2(getKeychainEntryVersionRequestV2, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * 
          * @summary Get the Prometheus Metrics
@@ -385,6 +907,28 @@ export const DefaultApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.hasKeychainEntryV1(hasKeychainEntryRequestV1, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * 
+         * @summary Lists the entries of the keychain (without their values) one page at a time
+         * @param {ListKeychainEntriesRequestV2} listKeychainEntriesRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async listKeychainEntriesV2(listKeychainEntriesRequestV2: ListKeychainEntriesRequestV2, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<ListKeychainEntriesResponseV2>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.listKeychainEntriesV2(listKeychainEntriesRequestV2, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * 
+         * @summary Lists the retained versions of an entry (without their values)
+         * @param {ListKeychainEntryVersionsRequestV2} listKeychainEntryVersionsRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async listKeychainEntryVersionsV2(listKeychainEntryVersionsRequestV2: ListKeychainEntryVersionsRequestV2, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<ListKeychainEntryVersionsResponseV2>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.listKeychainEntryVersionsV2(listKeychainEntryVersionsRequestV2, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * 
          * @summary Sets a value under a key on the keychain backend.
@@ -396,6 +940,17 @@ export const DefaultApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.setKeychainEntryV1(setKeychainEntryRequestV1, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * 
+         * @summary Writes a new version of an entry with optional metadata, TTL and compare-and-set
+         * @param {SetKeychainEntryRequestV2} setKeychainEntryRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async setKeychainEntryV2(setKeychainEntryRequestV2: SetKeychainEntryRequestV2, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<KeychainEntryMetadataV2>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.setKeychainEntryV2(setKeychainEntryRequestV2, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
     }
 };
 
@@ -416,6 +971,25 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
         deleteKeychainEntryV1(deleteKeychainEntryRequestV1: DeleteKeychainEntryRequestV1, options?: any): AxiosPromise<DeleteKeychainEntryResponseV1> {
             return localVarFp.deleteKeychainEntryV1(deleteKeychainEntryRequestV1, options).then((request) => request(axios, basePath));
         },
+        /**
+         * 
+         * @summary Describes which parts of the keychain contract the keychain supports
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getKeychainCapabilitiesV2(options?: any): AxiosPromise<KeychainCapabilitiesV2> {
+            return localVarFp.getKeychainCapabilitiesV2(options).then((request) => request(axios, basePath));
+        },
+        /**
+         * 
+         * @summary Retrieves the metadata of an entry of the keychain
+         * @param {GetKeychainEntryMetadataRequestV2} getKeychainEntryMetadataRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getKeychainEntryMetadataV2(getKeychainEntryMetadataRequestV2: GetKeychainEntryMetadataRequestV2, options?: any): AxiosPromise<KeychainEntryMetadataV2> {
+            return localVarFp.getKeychainEntryMetadataV2(getKeychainEntryMetadataRequestV2, options).then((request) => request(axios, basePath));
+        },
         /**
          * 
          * @summary Retrieves the contents of a keychain entry from the backend.
@@ -426,6 +1000,16 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
         getKeychainEntryV1(getKeychainEntryRequestV1: GetKeychainEntryRequestV1, options?: any): AxiosPromise<GetKeychainEntryResponseV1> {
             return localVarFp.getKeychainEntryV1(getKeychainEntryRequestV1, options).then((request) => request(axios, basePath));
         },
+        /**
+         * 
+         * @summary Retrieves the value of a specific version of an entry
+         * @param {GetKeychainEntryVersionRequestV2} getKeychainEntryVersionRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getKeychainEntryVersionV2(getKeychainEntryVersionRequestV2: GetKeychainEntryVersionRequestV2, options?: any): AxiosPromise<GetKeychainEntryVersionResponseV2> {
+            return localVarFp.getKeychainEntryVersionV2(getKeychainEntryVersionRequestV2, options).then((request) => request(axios, basePath));
+        },
         /**
          * 
          * @summary Get the Prometheus Metrics
@@ -445,6 +1029,26 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
         hasKeychainEntryV1(hasKeychainEntryRequestV1: HasKeychainEntryRequestV1, options?: any): AxiosPromise<HasKeychainEntryResponseV1> {
             return localVarFp.hasKeychainEntryV1(hasKeychainEntryRequestV1, options).then((request) => request(axios, basePath));
         },
+        /**
+         * 
+         * @summary Lists the entries of the keychain (without their values) one page at a time
+         * @param {ListKeychainEntriesRequestV2} listKeychainEntriesRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listKeychainEntriesV2(listKeychainEntriesRequestV2: ListKeychainEntriesRequestV2, options?: any): AxiosPromise<ListKeychainEntriesResponseV2> {
+            return localVarFp.listKeychainEntriesV2(listKeychainEntriesRequestV2, options).then((request) => request(axios, basePath));
+        },
+        /**
+         * 
+         * @summary Lists the retained versions of an entry (without their values)
+         * @param {ListKeychainEntryVersionsRequestV2} listKeychainEntryVersionsRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listKeychainEntryVersionsV2(listKeychainEntryVersionsRequestV2: ListKeychainEntryVersionsRequestV2, options?: any): AxiosPromise<ListKeychainEntryVersionsResponseV2> {
+            return localVarFp.listKeychainEntryVersionsV2(listKeychainEntryVersionsRequestV2, options).then((request) => request(axios, basePath));
+        },
         /**
          * 
          * @summary Sets a value under a key on the keychain backend.
@@ -455,6 +1059,16 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
         setKeychainEntryV1(setKeychainEntryRequestV1: SetKeychainEntryRequestV1, options?: any): AxiosPromise<SetKeychainEntryResponseV1> {
             return localVarFp.setKeychainEntryV1(setKeychainEntryRequestV1, options).then((request) => request(axios, basePath));
         },
+        /**
+         * 
+         * @summary Writes a new version of an entry with optional metadata, TTL and compare-and-set
+         * @param {SetKeychainEntryRequestV2} setKeychainEntryRequestV2 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        setKeychainEntryV2(setKeychainEntryRequestV2: SetKeychainEntryRequestV2, options?: any): AxiosPromise<KeychainEntryMetadataV2> {
+            return localVarFp.setKeychainEntryV2(setKeychainEntryRequestV2, options).then((request) => request(axios, basePath));
+        },
     };
 };
 
@@ -477,6 +1091,29 @@ export class DefaultApi extends BaseAPI {
         return DefaultApiFp(this.configuration).deleteKeychainEntryV1(deleteKeychainEntryRequestV1, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * 
+     * @summary Describes which parts of the keychain contract the keychain supports
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public getKeychainCapabilitiesV2(options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).getKeychainCapabilitiesV2(options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * 
+     * @summary Retrieves the metadata of an entry of the keychain
+     * @param {GetKeychainEntryMetadataRequestV2} getKeychainEntryMetadataRequestV2 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public getKeychainEntryMetadataV2(getKeychainEntryMetadataRequestV2: GetKeychainEntryMetadataRequestV2, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).getKeychainEntryMetadataV2(getKeychainEntryMetadataRequestV2, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * 
      * @summary Retrieves the contents of a keychain entry from the backend.
@@ -489,6 +1126,18 @@ export class DefaultApi extends BaseAPI {
         return DefaultApiFp(this.configuration).getKeychainEntryV1(getKeychainEntryRequestV1, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * 
+     * @summary Retrieves the value of a specific version of an entry
+     * @param {GetKeychainEntryVersionRequestV2} getKeychainEntryVersionRequestV2 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public getKeychainEntryVersionV2(getKeychainEntryVersionRequestV2: GetKeychainEntryVersionRequestV2, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).getKeychainEntryVersionV2(getKeychainEntryVersionRequestV2, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * 
      * @summary Get the Prometheus Metrics
@@ -512,6 +1161,30 @@ export class DefaultApi extends BaseAPI {
         return DefaultApiFp(this.configuration).hasKeychainEntryV1(hasKeychainEntryRequestV1, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * 
+     * @summary Lists the entries of the keychain (without their values) one page at a time
+     * @param {ListKeychainEntriesRequestV2} listKeychainEntriesRequestV2 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public listKeychainEntriesV2(listKeychainEntriesRequestV2: ListKeychainEntriesRequestV2, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).listKeychainEntriesV2(listKeychainEntriesRequestV2, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * 
+     * @summary Lists the retained versions of an entry (without their values)
+     * @param {ListKeychainEntryVersionsRequestV2} listKeychainEntryVersionsRequestV2 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public listKeychainEntryVersionsV2(listKeychainEntryVersionsRequestV2: ListKeychainEntryVersionsRequestV2, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).listKeychainEntryVersionsV2(listKeychainEntryVersionsRequestV2, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * 
      * @summary Sets a value under a key on the keychain backend.
@@ -523,6 +1196,18 @@ export class DefaultApi extends BaseAPI {
     public setKeychainEntryV1(setKeychainEntryRequestV1: SetKeychainEntryRequestV1, options?: AxiosRequestConfig) {
         return DefaultApiFp(this.configuration).setKeychainEntryV1(setKeychainEntryRequestV1, options).then((request) => request(this.axios, this.basePath));
     }
+
+    /**
+     * 
+     * @summary Writes a new version of an entry with optional metadata, TTL and compare-and-set
+     * @param {SetKeychainEntryRequestV2} setKeychainEntryRequestV2 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public setKeychainEntryV2(setKeychainEntryRequestV2: SetKeychainEntryRequestV2, options?: AxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).setKeychainEntryV2(setKeychainEntryRequestV2, options).then((request) => request(this.axios, this.basePath));
+    }
 }
 
 
@@ -7,11 +7,17 @@ import {
 import {
   ICactusPluginOptions,
   ICrpcSvcRegistration,
+  IKeychainSetOptionsV2,
   IPluginCrpcService,
-  IPluginKeychain,
+  IPluginKeychainV2,
   IPluginWebService,
   IWebServiceEndpoint,
+  KeychainCapabilitiesV2,
+  KeychainEntryMetadataV2,
+  ListKeychainEntriesRequestV2,
+  ListKeychainEntriesResponseV2,
 } from "@hyperledger/cactus-core-api";
+import { ConflictError, NotFoundError } from "http-errors-enhanced-cjs";
 
 import OAS from "../json/openapi.json";
 
@@ -23,6 +29,12 @@ import { SetKeychainEntryV1Endpoint } from "./web-services/set-keychain-entry-en
 import { GetKeychainEntryV1Endpoint } from "./web-services/get-keychain-entry-endpoint-v1";
 import { DeleteKeychainEntryV1Endpoint } from "./web-services/delete-keychain-entry-endpoint-v1";
 import { HasKeychainEntryV1Endpoint } from "./web-services/has-keychain-entry-endpoint-v1";
+import { ListKeychainEntriesV2Endpoint } from "./web-services/list-keychain-entries-endpoint-v2";
+import { GetKeychainEntryMetadataV2Endpoint } from "./web-services/get-keychain-entry-metadata-endpoint-v2";
+import { SetKeychainEntryV2Endpoint } from "./web-services/set-keychain-entry-endpoint-v2";
+import { GetKeychainEntryVersionV2Endpoint } from "./web-services/get-keychain-entry-version-endpoint-v2";
+import { ListKeychainEntryVersionsV2Endpoint } from "./web-services/list-keychain-entry-versions-endpoint-v2";
+import { GetKeychainCapabilitiesV2Endpoint } from "./web-services/get-keychain-capabilities-endpoint-v2";
 import { DefaultService } from "./generated/crpc/services/default_service_connect";
 import { KeychainMemoryCrpcSvcOpenApi } from "./crpc-services/keychain-memory-crpc-svc-openapi";
 import { ServiceType } from "@bufbuild/protobuf";
@@ -35,14 +47,32 @@ export interface IPluginKeychainMemoryOptions extends ICactusPluginOptions {
   prometheusExporter?: PrometheusExporter;
   readonly observabilityBufferSize?: number;
   readonly observabilityTtlSeconds?: number;
+  /**
+   * The number of versions retained for each entry (the current one
+   * included). Defaults to `PluginKeychainMemory.DEFAULT_MAX_VERSIONS`.
+   */
+  readonly maxVersions?: number;
+}
+
+interface IKeychainMemoryEntryVersion {
+  readonly value: string;
+  readonly metadata: KeychainEntryMetadataV2;
 }
 
 export class PluginKeychainMemory
-  implements IPluginCrpcService, IPluginKeychain, IPluginWebService
+  implements IPluginCrpcService, IPluginKeychainV2, IPluginWebService
 {
   public static readonly CLASS_NAME = "PluginKeychainMemory";
+  public static readonly DEFAULT_MAX_VERSIONS = 10;
+  public static readonly DEFAULT_LIST_LIMIT = 100;
 
   private readonly backend: Map<string, string>;
+  /**
+   * The retained versions of each entry, the most recent one first. The
+   * value of the most recent version is always the same as in `backend`.
+   */
+  private readonly versions: Map<string, IKeychainMemoryEntryVersion[]>;
+  private readonly maxVersions: number;
   private readonly log: Logger;
   private readonly instanceId: string;
   private readonly observabilityBufferSize: number;
@@ -80,6 +110,11 @@ export class PluginKeychainMemory
 
     this.backend = opts.backend || new Map();
     Checks.truthy(this.backend, `${fnTag} arg options.backend`);
+    this.versions = new Map();
+
+    this.maxVersions =
+      opts.maxVersions || PluginKeychainMemory.DEFAULT_MAX_VERSIONS;
+    Checks.truthy(this.maxVersions >= 1, `${fnTag} options.maxVersions >= 1`);
 
     const level = this.opts.logLevel || "INFO";
     const label = this.className;
@@ -190,6 +225,30 @@ export class PluginKeychainMemory
         plugin: this,
         logLevel: this.opts.logLevel,
       }),
+      new ListKeychainEntriesV2Endpoint({
+        plugin: this,
+        logLevel: this.opts.logLevel,
+      }),
+      new GetKeychainEntryMetadataV2Endpoint({
+        plugin: this,
+        logLevel: this.opts.logLevel,
+      }),
+      new SetKeychainEntryV2Endpoint({
+        plugin: this,
+        logLevel: this.opts.logLevel,
+      }),
+      new GetKeychainEntryVersionV2Endpoint({
+        plugin: this,
+        logLevel: this.opts.logLevel,
+      }),
+      new ListKeychainEntryVersionsV2Endpoint({
+        plugin: this,
+        logLevel: this.opts.logLevel,
+      }),
+      new GetKeychainCapabilitiesV2Endpoint({
+        plugin: this,
+        logLevel: this.opts.logLevel,
+      }),
     ];
 
     this.endpoints = endpoints;
@@ -221,6 +280,7 @@ export class PluginKeychainMemory
   }
 
   async get(key: string): Promise<string> {
+    this.deleteIfExpired(key);
     const value = this.backend.get(key);
     if (value) {
       this.getSubject.next({ key, value });
@@ -235,6 +295,7 @@ export class PluginKeychainMemory
   }
 
   async has(key: string): Promise<boolean> {
+    this.deleteIfExpired(key);
     const isPresent = this.backend.has(key);
     this.hasSubject.next({ key, isPresent });
     return isPresent;
@@ -248,9 +309,7 @@ export class PluginKeychainMemory
   }
 
   async set(key: string, value: string): Promise<void> {
-    this.backend.set(key, value);
-    this.setSubject.next({ key, value });
-    this.prometheusExporter.setTotalKeyCounter(this.backend.size);
+    await this.setVersioned(key, value);
   }
 
   public observeSet(): Observable<{
@@ -262,6 +321,7 @@ export class PluginKeychainMemory
 
   async delete(key: string): Promise<void> {
     this.backend.delete(key);
+    this.versions.delete(key);
     this.deleteSubject.next({ key });
     this.prometheusExporter.setTotalKeyCounter(this.backend.size);
   }
@@ -271,4 +331,158 @@ export class PluginKeychainMemory
   }> {
     return this.deleteSubject.asObservable();
   }
+
+  public async getKeychainCapabilities(): Promise<KeychainCapabilitiesV2> {
+    return {
+      keychainId: this.getKeychainId(),
+      apiVersions: ["v1", "v2"],
+      supportsList: true,
+      supportsMetadata: true,
+      supportsVersioning: true,
+      supportsCompareAndSet: true,
+      supportsTtl: true,
+      maxVersions: this.maxVersions,
+    };
+  }
+
+  public async list(
+    req: ListKeychainEntriesRequestV2,
+  ): Promise<ListKeychainEntriesResponseV2> {
+    const { prefix = "", continuationToken = "" } = req || {};
+    const limit = req?.limit || PluginKeychainMemory.DEFAULT_LIST_LIMIT;
+
+    const keys = Array.from(this.backend.keys())
+      .filter((k) => k.startsWith(prefix) && k > continuationToken)
+      .filter((k) => !this.deleteIfExpired(k))
+      .sort();
+
+    const page = keys.slice(0, limit);
+    const entries = page.map((k) => this.getOrCreateVersions(k)[0].metadata);
+    const hasMore = keys.length > page.length;
+    return {
+      entries,
+      continuationToken: hasMore ? page[page.length - 1] : null,
+    };
+  }
+
+  public async getMetadata(key: string): Promise<KeychainEntryMetadataV2> {
+    return this.getVersionsOrThrow(key)[0].metadata;
+  }
+
+  public async setVersioned(
+    key: string,
+    value: string,
+    opts: IKeychainSetOptionsV2 = {},
+  ): Promise<KeychainEntryMetadataV2> {
+    this.deleteIfExpired(key);
+    const previous = this.backend.has(key) ? this.getOrCreateVersions(key) : [];
+    const now = new Date();
+    const { contentType, tags, ttlSeconds } = opts;
+    const expiresAt = ttlSeconds
+      ? new Date(now.getTime() + ttlSeconds * 1000).toISOString()
+      : undefined;
+
+    const metadata: KeychainEntryMetadataV2 = {
+      key,
+      version: previous.length > 0 ? previous[0].metadata.version + 1 : 1,
+      createdAt:
+        previous.length > 0
+          ? previous[0].metadata.createdAt
+          : now.toISOString(),
+      updatedAt: now.toISOString(),
+      contentType,
+      tags,
+      expiresAt,
+    };
+
+    const versions = [{ value, metadata }, ...previous];
+    this.versions.set(key, versions.slice(0, this.maxVersions));
+    this.backend.set(key, value);
+
+    this.setSubject.next({ key, value });
+    this.prometheusExporter.setTotalKeyCounter(this.backend.size);
+    return metadata;
+  }
+
+  public async compareAndSet(
+    key: string,
+    expectedVersion: number,
+    value: string,
+    opts?: IKeychainSetOptionsV2,
+  ): Promise<KeychainEntryMetadataV2> {
+    const fnTag = `${this.className}#compareAndSet()`;
+    this.deleteIfExpired(key);
+    const currentVersion = this.backend.has(key)
+      ? this.getOrCreateVersions(key)[0].metadata.version
+      : 0;
+    if (currentVersion !== expectedVersion) {
+      throw new ConflictError(
+        `${fnTag} Version of "${key}" is ${currentVersion}, expected ${expectedVersion}`,
+      );
+    }
+    return this.setVersioned(key, value, opts);
+  }
+
+  public async getVersion(key: string, version: number): Promise<string> {
+    const fnTag = `${this.className}#getVersion()`;
+    const match = this.getVersionsOrThrow(key).find(
+      (v) => v.metadata.version === version,
+    );
+    if (!match) {
+      throw new NotFoundError(`${fnTag} No version ${version} of "${key}"`);
+    }
+    return match.value;
+  }
+
+  public async listVersions(key: string): Promise<KeychainEntryMetadataV2[]> {
+    return this.getVersionsOrThrow(key).map((v) => v.metadata);
+  }
+
+  private getVersionsOrThrow(key: string): IKeychainMemoryEntryVersion[] {
+    this.deleteIfExpired(key);
+    if (!this.backend.has(key)) {
+      throw new NotFoundError(`Keychain entry for "${key}" not found.`);
+    }
+    return this.getOrCreateVersions(key);
+  }
+
+  /**
+   * Entries can be written directly to the `backend` map that was passed in
+   * to the constructor, so the version history is created lazily for those.
+   */
+  private getOrCreateVersions(key: string): IKeychainMemoryEntryVersion[] {
+    const value = this.backend.get(key) as string;
+    const versions = this.versions.get(key);
+    if (versions && versions[0].value === value) {
+      return versions;
+    }
+    const now = new Date().toISOString();
+    const metadata: KeychainEntryMetadataV2 = {
+      key,
+      version: versions ? versions[0].metadata.version + 1 : 1,
+      createdAt: versions ? versions[0].metadata.createdAt : now,
+      updatedAt: now,
+    };
+    const out = [{ value, metadata }, ...(versions || [])].slice(
+      0,
+      this.maxVersions,
+    );
+    this.versions.set(key, out);
+    return out;
+  }
+
+  /**
+   * @returns `true` if the entry under `key` had expired and was deleted.
+   */
+  private deleteIfExpired(key: string): boolean {
+    const expiresAt = this.versions.get(key)?.[0].metadata.expiresAt;
+    if (!expiresAt || Date.parse(expiresAt) > Date.now()) {
+      return false;
+    }
+    this.log.debug("Deleting expired keychain entry: %s", key);
+    this.backend.delete(key);
+    this.versions.delete(key);
+    this.prometheusExporter.setTotalKeyCounter(this.backend.size);
+    return true;
+  }
 }
@@ -0,0 +1,112 @@
+import type { Express, Request, Response } from "express";
+
+import {
+  Logger,
+  Checks,
+  LogLevelDesc,
+  LoggerProvider,
+  IAsyncProvider,
+} from "@hyperledger/cactus-common";
+import {
+  GetKeychainEntryVersionRequestV2,
+  GetKeychainEntryVersionResponseV2,
+  IEndpointAuthzOptions,
+  IExpressRequestHandler,
+  IWebServiceEndpoint,
+} from "@hyperledger/cactus-core-api";
+import {
+  handleRestEndpointException,
+  registerWebServiceEndpoint,
+} from "@hyperledger/cactus-core";
+
+import OAS from "../../json/openapi.json";
+import { PluginKeychainMemory } from "../plugin-keychain-memory";
+
+export interface IGetKeychainEntryVersionEndpointV2Options {
+  logLevel?: LogLevelDesc;
+  plugin: PluginKeychainMemory;
+}
+
+export class GetKeychainEntryVersionV2Endpoint implements IWebServiceEndpoint {
+  public static readonly CLASS_NAME = "GetKeychainEntryVersionV2Endpoint";
+
+  private readonly log: Logger;
+
+  public get className(): string {
+    return GetKeychainEntryVersionV2Endpoint.CLASS_NAME;
+  }
+
+  constructor(
+    public readonly options: IGetKeychainEntryVersionEndpointV2Options,
+  ) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+    Checks.truthy(options.plugin, `${fnTag} arg options.plugin`);
+
+    const level = this.options.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  public getOasPath(): (typeof OAS.paths)["/api/v1/plugins/@hyperledger/cactus-plugin-keychain-memory/get-keychain-entry-version-v2"] {
+    return OAS.paths[
+      "/api/v1/plugins/@hyperledger/cactus-plugin-keychain-memory/get-keychain-entry-version-v2"
+    ];
+  }
+
+  public getPath(): string {
+    const apiPath = this.getOasPath();
+    return apiPath.post["x-hyperledger-cacti"].http.path;
+  }
+
+  public getVerbLowerCase(): string {
+    const apiPath = this.getOasPath();
+    return apiPath.post["x-hyperledger-cacti"].http.verbLowerCase;
+  }
+
+  public getOperationId(): string {
+    return this.getOasPath().post.operationId;
+  }
+
+  getAuthorizationOptionsProvider(): IAsyncProvider<IEndpointAuthzOptions> {
+    // TODO: make this an injectable dependency in the constructor
+    return {
+      get: async () => ({
+        isProtected: true,
+        requiredRoles: [],
+      }),
+    };
+  }
+
+  public async registerExpress(
+    expressApp: Express,
+  ): Promise<IWebServiceEndpoint> {
+    await registerWebServiceEndpoint(expressApp, this);
+    return this;
+  }
+
+  public getExpressRequestHandler(): IExpressRequestHandler {
+    return this.handleRequest.bind(this);
+  }
+
+  public async handleRequest(req: Request, res: Response): Promise<void> {
+    const { log } = this;
+    const fnTag = `${this.className}#handleRequest()`;
+    const reqTag = `${this.getVerbLowerCase()} - ${this.getPath()}`;
+    this.log.debug(reqTag);
+    try {
+      const reqBody = req.body as GetKeychainEntryVersionRequestV2;
+      const { key, version } = reqBody;
+      const value = await this.options.plugin.getVersion(key, version);
+      const resBody: GetKeychainEntryVersionResponseV2 = {
+        key,
+        version,
+        value,
+      };
+      res.status(200).json(resBody);
+    } catch (ex) {
+      const errorMsg = `${reqTag} ${fnTag} Failed to serve request:`;
+      await handleRestEndpointException({ errorMsg, log, error: ex, res });
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import express from "express";
+import "jest-extended";
+import bodyParser from "body-parser";
+import http from "http";
+import { AddressInfo } from "net";
+
+import { IListenOptions, Servers } from "@hyperledger/cactus-common";
+
+import { v4 as uuidv4 } from "uuid";
+import { PluginKeychainMemory } from "../../../main/typescript";
+
+import { DefaultApi as KeychainMemoryApi } from "../../../main/typescript/public-api";
+import {
+  Configuration,
+  isIPluginKeychainV2,
+} from "@hyperledger/cactus-core-api";
+
+describe("PluginKeychainMemory - keychain v2", () => {
+  const expressApp = express();
+  expressApp.use(bodyParser.json({ limit: "250mb" }));
+  const server = http.createServer(expressApp);
+  const listenOptions: IListenOptions = {
+    hostname: "127.0.0.1",
+    port: 0,
+    server,
+  };
+
+  let plugin: PluginKeychainMemory;
+  let apiClient: KeychainMemoryApi;
+
+  beforeAll(async () => {
+    plugin = new PluginKeychainMemory({
+      instanceId: uuidv4(),
+      keychainId: uuidv4(),
+      maxVersions: 2,
+    });
+    await plugin.registerWebServices(expressApp);
+
+    const addressInfo = (await Servers.listen(listenOptions)) as AddressInfo;
+    const { address, port } = addressInfo;
+    const config = new Configuration({ basePath: `http://${address}:${port}` });
+    apiClient = new KeychainMemoryApi(config);
+  });
+
+  afterAll(async () => await Servers.shutdown(server));
+
+  test("is detected as a v2 keychain", async () => {
+    expect(isIPluginKeychainV2(plugin)).toBeTrue();
+
+    const res = await apiClient.getKeychainCapabilitiesV2();
+    expect(res.status).toEqual(200);
+    expect(res.data.apiVersions).toContain("v2");
+    expect(res.data.maxVersions).toEqual(2);
+  });
+
+  test("setVersioned() retains maxVersions versions with metadata", async () => {
+    const key = uuidv4();
+    const tags = { owner: "test" };
+
+    const meta1 = await plugin.setVersioned(key, "v1", { tags });
+    expect(meta1).toMatchObject({ key, version: 1, tags });
+    await plugin.set(key, "v2");
+    const meta3 = await plugin.setVersioned(key, "v3", {
+      contentType: "text/plain",
+    });
+    expect(meta3).toMatchObject({ key, version: 3, contentType: "text/plain" });
+    expect(meta3.createdAt).toEqual(meta1.createdAt);
+
+    expect(await plugin.get(key)).toEqual("v3");
+    expect(await plugin.getVersion(key, 2)).toEqual("v2");
+    await expect(plugin.getVersion(key, 1)).rejects.toThrow();
+
+    const versions = await plugin.listVersions(key);
+    expect(versions.map((v) => v.version)).toEqual([3, 2]);
+  });
+
+  test("compareAndSet() only writes the expected version", async () => {
+    const key = uuidv4();
+    await expect(plugin.compareAndSet(key, 1, "a")).rejects.toThrow();
+    await expect(plugin.compareAndSet(key, 0, "a")).resolves.toMatchObject({
+      version: 1,
+    });
+
+    await expect(
+      apiClient.setKeychainEntryV2({ key, value: "b", expectedVersion: 0 }),
+    ).rejects.toMatchObject({ response: { status: 409 } });
+
+    const res = await apiClient.setKeychainEntryV2({
+      key,
+      value: "b",
+      expectedVersion: 1,
+    });
+    expect(res.data.version).toEqual(2);
+    expect(await plugin.get(key)).toEqual("b");
+  });
+
+  test("entries written with a TTL expire", async () => {
+    const key = uuidv4();
+    const meta = await plugin.setVersioned(key, "x", { ttlSeconds: 1 });
+    expect(meta.expiresAt).toBeString();
+    expect(await plugin.has(key)).toBeTrue();
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+
+    expect(await plugin.has(key)).toBeFalse();
+    await expect(plugin.getMetadata(key)).rejects.toThrow();
+  });
+
+  test("list() pages through the entries of a prefix", async () => {
+    const prefix = `${uuidv4()}/`;
+    const keys = ["a", "b", "c"].map((k) => `${prefix}${k}`);
+    for (const key of keys) {
+      await plugin.set(key, key);
+    }
+
+    const page1 = await plugin.list({ prefix, limit: 2 });
+    expect(page1.entries.map((e) => e.key)).toEqual(keys.slice(0, 2));
+    expect(page1.continuationToken).toEqual(keys[1]);
+
+    const res = await apiClient.listKeychainEntriesV2({
+      prefix,
+      limit: 2,
+      continuationToken: page1.continuationToken as string,
+    });
+    expect(res.data.entries.map((e) => e.key)).toEqual(keys.slice(2));
+    expect(res.data.continuationToken).toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
 import type { Express } from "express";
 import Vault from "node-vault";
 import HttpStatus from "http-status-codes";
+import { ConflictError, NotFoundError } from "http-errors-enhanced-cjs";
 
 import OAS from "../json/openapi.json";
 
@@ -12,9 +13,14 @@ import {
 } from "@hyperledger/cactus-common";
 import {
   ICactusPluginOptions,
-  IPluginKeychain,
+  IKeychainSetOptionsV2,
+  IPluginKeychainV2,
   IPluginWebService,
   IWebServiceEndpoint,
+  KeychainCapabilitiesV2,
+  KeychainEntryMetadataV2,
+  ListKeychainEntriesRequestV2,
+  ListKeychainEntriesResponseV2,
 } from "@hyperledger/cactus-core-api";
 
 import { PrometheusExporter } from "./prometheus-exporter/prometheus-exporter";
@@ -27,6 +33,12 @@ import { GetKeychainEntryEndpointV1 } from "./web-services/get-keychain-entry-en
 import { SetKeychainEntryEndpointV1 } from "./web-services/set-keychain-entry-endpoint-v1";
 import { HasKeychainEntryEndpointV1 } from "./web-services/has-keychain-entry-endpoint-v1";
 import { DeleteKeychainEntryEndpointV1 } from "./web-services/delete-keychain-entry-endpoint-v1";
+import { ListKeychainEntriesEndpointV2 } from "./web-services/list-keychain-entries-endpoint-v2";
+import { GetKeychainEntryMetadataEndpointV2 } from "./web-services/get-keychain-entry-metadata-endpoint-v2";
+import { SetKeychainEntryEndpointV2 } from "./web-services/set-keychain-entry-endpoint-v2";
+import { GetKeychainEntryVersionEndpointV2 } from "./web-services/get-keychain-entry-version-endpoint-v2";
+import { ListKeychainEntryVersionsEndpointV2 } from "./web-services/list-keychain-entry-versions-endpoint-v2";
+import { GetKeychainCapabilitiesEndpointV2 } from "./web-services/get-keychain-capabilities-endpoint-v2";
 
 export interface IPluginKeychainVaultOptions extends ICactusPluginOptions {
   logLevel?: LogLevelDesc;
@@ -55,11 +67,71 @@ export interface IPluginKeychainVaultOptions extends ICactusPluginOptions {
    * The HTTP path prefix where the KV Secrets Engine is mounted.
    */
   kvSecretsMountPath?: string;
+
+  /**
+   * The HTTP path prefix of the metadata of the KV Secrets Engine (version 2)
+   * which is used for listing entries and their versions.
+   * Optional, defaults to `kvSecretsMountPath` with its `data/` suffix
+   * replaced by `metadata/` (e.g. `secret/data/` becomes `secret/metadata/`).
+   */
+  kvSecretsMetadataMountPath?: string;
+
+  /**
+   * The number of versions of an entry that Vault is instructed to retain.
+   * Optional, defaults to `K_DEFAULT_KV_MAX_VERSIONS`.
+   */
+  maxVersions?: number;
+}
+
+/**
+ * The subset of the per-version metadata returned by the KV Secrets Engine
+ * (version 2) that the plugin relies on.
+ */
+interface IVaultVersionMetadata {
+  readonly version?: number;
+  readonly created_time: string;
+  readonly deletion_time?: string;
+  readonly destroyed?: boolean;
+}
+
+/**
+ * The subset of the key metadata (`<mount>/metadata/<key>`) returned by the
+ * KV Secrets Engine (version 2) that the plugin relies on.
+ */
+interface IVaultKeyMetadata {
+  readonly created_time: string;
+  readonly current_version: number;
+  readonly versions?: Record<string, IVaultVersionMetadata>;
+}
+
+/**
+ * The secret data the plugin stores for each version of an entry.
+ */
+interface IVaultEntryData {
+  readonly value: string;
+  readonly contentType?: string;
+  readonly tags?: { [key: string]: string };
+  /**
+   * ISO 8601 timestamp after which the version is treated as deleted.
+   */
+  readonly expiresAt?: string;
+}
+
+/**
+ * A version of an entry as returned by the KV Secrets Engine (version 2).
+ */
+interface IVaultEntry {
+  readonly data: IVaultEntryData;
+  readonly metadata: IVaultVersionMetadata & { readonly version: number };
 }
 
 export const K_DEFAULT_KV_SECRETS_MOUNT_PATH = "secret/";
+export const K_DEFAULT_KV_MAX_VERSIONS = 10;
+export const K_DEFAULT_KV_LIST_LIMIT = 100;
 
-export class PluginKeychainVault implements IPluginWebService, IPluginKeychain {
+export class PluginKeychainVault
+  implements IPluginWebService, IPluginKeychainV2
+{
   public static readonly CLASS_NAME = "PluginKeychainVault";
 
   private readonly apiVersion: string;
@@ -68,6 +140,8 @@ export class PluginKeychainVault implements IPluginWebService, IPluginKeychain {
   private readonly log: Logger;
   private readonly instanceId: string;
   private readonly kvSecretsMountPath: string;
+  private readonly kvSecretsMetadataMountPath: string;
+  private readonly maxVersions: number;
   private readonly backend: Vault.client;
   private endpoints: IWebServiceEndpoint[] | undefined;
   public prometheusExporter: PrometheusExporter;
@@ -99,6 +173,11 @@ export class PluginKeychainVault implements IPluginWebService, IPluginKeychain {
       opts.kvSecretsMountPath || K_DEFAULT_KV_SECRETS_MOUNT_PATH;
     this.log.info(`this.kvSecretsMountPath=${this.kvSecretsMountPath}`);
 
+    this.kvSecretsMetadataMountPath =
+      opts.kvSecretsMetadataMountPath ||
+      this.kvSecretsMountPath.replace(/data\/$/, "metadata/");
+    this.maxVersions = opts.maxVersions || K_DEFAULT_KV_MAX_VERSIONS;
+
     this.backend = Vault({
       apiVersion: this.apiVersion,
       endpoint: this.endpoint,
@@ -173,6 +252,48 @@ export class PluginKeychainVault implements IPluginWebService, IPluginKeychain {
       });
       endpoints.push(ep);
     }
+    {
+      const ep = new ListKeychainEntriesEndpointV2({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new GetKeychainEntryMetadataEndpointV2({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new SetKeychainEntryEndpointV2({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new GetKeychainEntryVersionEndpointV2({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new ListKeychainEntryVersionsEndpointV2({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
+    {
+      const ep = new GetKeychainCapabilitiesEndpointV2({
+        logLevel: this.opts.logLevel,
+        plugin: this,
+      });
+      endpoints.push(ep);
+    }
     {
       const opts: IGetPrometheusExporterMetricsEndpointV1Options = {
         plugin: this,
@@ -214,12 +335,19 @@ export class PluginKeychainVault implements IPluginWebService, IPluginKeychain {
     return `${this.kvSecretsMountPath}${key}`;
   }
 
+  protected metadataPathFor(key: string): string {
+    return `${this.kvSecretsMetadataMountPath}${key}`;
+  }
+
   async get(key: string): Promise<string> {
     const fnTag = `${this.className}#get(key: string)`;
     const path = this.pathFor(key);
     try {
       const res = await this.backend.read(path);
       this.log.debug(`Response from Vault: %o`, () => JSON.stringify(res));
+      if (this.isExpired(res?.data?.data)) {
+        return null as unknown as string;
+      }
       if (res?.data?.data?.value) {
         return res.data.data.value;
       } else {
@@ -248,7 +376,7 @@ export class PluginKeychainVault implements IPluginWebService, IPluginKeychain {
     const path = this.pathFor(key);
     try {
       const res = await this.backend.read(path);
-      return res;
+      return !!res && !this.isExpired(res.data?.data);
     } catch (ex) {
       // We have to make sure that the exception is either an expected
       // or an unexpected one where the expected exception is what we
@@ -276,4 +404,252 @@ export class PluginKeychainVault implements IPluginWebService, IPluginKeychain {
     await this.backend.delete(path);
     this.prometheusExporter.setTotalKeyCounter(key, "delete");
   }
+
+  public async getKeychainCapabilities(): Promise<KeychainCapabilitiesV2> {
+    return {
+      keychainId: this.getKeychainId(),
+      apiVersions: ["v1", "v2"],
+      supportsList: true,
+      supportsMetadata: true,
+      supportsVersioning: true,
+      supportsCompareAndSet: true,
+      supportsTtl: true,
+      maxVersions: this.maxVersions,
+    };
+  }
+
+  /**
+   * Vault lists keys one "directory" at a time, so only the entries in the
+   * same directory as the `prefix` (the part up until its last `/`) are
+   * returned.
+   */
+  public async list(
+    req: ListKeychainEntriesRequestV2,
+  ): Promise<ListKeychainEntriesResponseV2> {
+    const { prefix = "", continuationToken = "" } = req || {};
+    const limit = req?.limit || K_DEFAULT_KV_LIST_LIMIT;
+    const dir = prefix.substring(0, prefix.lastIndexOf("/") + 1);
+
+    let dirKeys: string[];
+    try {
+      const res = await this.backend.list(this.metadataPathFor(dir));
+      dirKeys = res?.data?.keys || [];
+    } catch (ex) {
+      if (ex?.response?.statusCode === HttpStatus.NOT_FOUND) {
+        dirKeys = [];
+      } else {
+        this.log.error(`Listing of "${prefix}" crashed:`, ex);
+        throw ex;
+      }
+    }
+
+    const keys = dirKeys
+      .filter((k) => !k.endsWith("/"))
+      .map((k) => `${dir}${k}`)
+      .filter((k) => k.startsWith(prefix) && k > continuationToken)
+      .sort();
+
+    const page = keys.slice(0, limit);
+    const found = await Promise.all(
+      page.map(async (k) => {
+        const entry = await this.findEntry(k);
+        if (!entry) {
+          return undefined;
+        }
+        return this.toEntryMetadata(k, entry, await this.readKeyMetadata(k));
+      }),
+    );
+    const entries = found.filter(
+      (e): e is KeychainEntryMetadataV2 => e !== undefined,
+    );
+    const hasMore = keys.length > page.length;
+    return {
+      entries,
+      continuationToken: hasMore ? page[page.length - 1] : null,
+    };
+  }
+
+  public async getMetadata(key: string): Promise<KeychainEntryMetadataV2> {
+    return this.readEntryMetadata(key);
+  }
+
+  public async setVersioned(
+    key: string,
+    value: string,
+    opts: IKeychainSetOptionsV2 = {},
+  ): Promise<KeychainEntryMetadataV2> {
+    return this.writeEntry(key, value, opts);
+  }
+
+  public async compareAndSet(
+    key: string,
+    expectedVersion: number,
+    value: string,
+    opts: IKeychainSetOptionsV2 = {},
+  ): Promise<KeychainEntryMetadataV2> {
+    return this.writeEntry(key, value, opts, expectedVersion);
+  }
+
+  public async getVersion(key: string, version: number): Promise<string> {
+    const entry = await this.readEntry(key, version);
+    return entry.data.value;
+  }
+
+  public async listVersions(key: string): Promise<KeychainEntryMetadataV2[]> {
+    const keyMetadata = await this.readKeyMetadata(key);
+    const versions = Object.entries(keyMetadata.versions || {})
+      .filter(([, v]) => !this.isDeleted(v))
+      .map(([version]) => parseInt(version, 10))
+      .sort((a, b) => b - a);
+    const entries = await Promise.all(
+      versions.map((v) => this.findEntry(key, v)),
+    );
+    return entries
+      .filter((e): e is IVaultEntry => e !== undefined)
+      .map((e) => this.toEntryMetadata(key, e, keyMetadata));
+  }
+
+  /**
+   * The TTL of an entry is stored along with the version it applies to and
+   * enforced by the plugin when reading, so that it does not leak into the
+   * other versions of the entry (which is what Vault's `delete_version_after`
+   * setting would do). The key metadata is only updated once the write went
+   * through, so a failed compare-and-set leaves the entry as it was.
+   */
+  private async writeEntry(
+    key: string,
+    value: string,
+    opts: IKeychainSetOptionsV2,
+    expectedVersion?: number,
+  ): Promise<KeychainEntryMetadataV2> {
+    const fnTag = `${this.className}#writeEntry()`;
+    const { contentType, tags, ttlSeconds } = opts;
+    const expiresAt = ttlSeconds
+      ? new Date(Date.now() + ttlSeconds * 1000).toISOString()
+      : undefined;
+    const data: IVaultEntryData = { value, contentType, tags, expiresAt };
+
+    const options =
+      expectedVersion === undefined ? {} : { cas: expectedVersion };
+    let version: number;
+    try {
+      const res = await this.backend.write(this.pathFor(key), {
+        data,
+        options,
+      });
+      version = res?.data?.version;
+    } catch (ex) {
+      const isCasMismatch =
+        ex?.response?.statusCode === HttpStatus.BAD_REQUEST &&
+        JSON.stringify(ex?.response?.body).includes("check-and-set");
+      if (isCasMismatch) {
+        const msg = `${fnTag} Version of "${key}" is not ${expectedVersion}`;
+        throw new ConflictError(msg);
+      }
+      throw ex;
+    }
+
+    await this.backend.write(this.metadataPathFor(key), {
+      max_versions: this.maxVersions,
+    });
+    this.prometheusExporter.setTotalKeyCounter(key, "set");
+    return this.readEntryMetadata(key, version);
+  }
+
+  private async readKeyMetadata(key: string): Promise<IVaultKeyMetadata> {
+    try {
+      const res = await this.backend.read(this.metadataPathFor(key));
+      return res.data;
+    } catch (ex) {
+      if (ex?.response?.statusCode === HttpStatus.NOT_FOUND) {
+        throw new NotFoundError(`Keychain entry for "${key}" not found.`);
+      }
+      this.log.error(`Metadata retrieval of "${key}" crashed:`, ex);
+      throw ex;
+    }
+  }
+
+  private async readEntry(key: string, version?: number): Promise<IVaultEntry> {
+    const entry = await this.findEntry(key, version);
+    if (!entry) {
+      const versionTag = version ? ` (version ${version})` : "";
+      const msg = `Keychain entry for "${key}"${versionTag} not found.`;
+      throw new NotFoundError(msg);
+    }
+    return entry;
+  }
+
+  /**
+   * Same as `readEntry()` but resolves to `undefined` instead of throwing if
+   * the version does not exist, was deleted or has expired.
+   */
+  private async findEntry(
+    key: string,
+    version?: number,
+  ): Promise<IVaultEntry | undefined> {
+    const path = this.pathFor(key);
+    const versionedPath = version ? `${path}?version=${version}` : path;
+    try {
+      const res = await this.backend.read(versionedPath);
+      const entry: IVaultEntry | undefined = res?.data;
+      if (!entry || this.isDeleted(entry.metadata)) {
+        return undefined;
+      }
+      return this.isExpired(entry.data) ? undefined : entry;
+    } catch (ex) {
+      if (ex?.response?.statusCode === HttpStatus.NOT_FOUND) {
+        return undefined;
+      }
+      throw ex;
+    }
+  }
+
+  private async readEntryMetadata(
+    key: string,
+    version?: number,
+  ): Promise<KeychainEntryMetadataV2> {
+    const [entry, keyMetadata] = await Promise.all([
+      this.readEntry(key, version),
+      this.readKeyMetadata(key),
+    ]);
+    return this.toEntryMetadata(key, entry, keyMetadata);
+  }
+
+  private toEntryMetadata(
+    key: string,
+    entry: IVaultEntry,
+    keyMetadata: IVaultKeyMetadata,
+  ): KeychainEntryMetadataV2 {
+    const { data, metadata } = entry;
+    return {
+      key,
+      version: metadata.version,
+      createdAt: keyMetadata.created_time,
+      updatedAt: metadata.created_time,
+      contentType: data.contentType,
+      tags: data.tags,
+      expiresAt: data.expiresAt || metadata.deletion_time || undefined,
+    };
+  }
+
+  /**
+   * A version is deleted if it was destroyed or if its deletion time (which
+   * can be in the future if `delete_version_after` was configured in Vault
+   * directly) has passed.
+   */
+  private isDeleted(versionMetadata?: IVaultVersionMetadata): boolean {
+    if (!versionMetadata) {
+      return false;
+    }
+    const { deletion_time: deletionTime, destroyed } = versionMetadata;
+    if (destroyed) {
+      return true;
+    }
+    return !!deletionTime && Date.parse(deletionTime) <= Date.now();
+  }
+
+  private isExpired(data?: IVaultEntryData): boolean {
+    const expiresAt = data?.expiresAt;
+    return !!expiresAt && Date.parse(expiresAt) <= Date.now();
+  }
 }
@@ -0,0 +1,138 @@
+import "jest-extended";
+import { v4 as internalIpV4 } from "internal-ip";
+import { v4 as uuidv4 } from "uuid";
+import { ConflictError } from "http-errors-enhanced-cjs";
+
+import {
+  Containers,
+  K_DEFAULT_VAULT_DEV_ROOT_TOKEN,
+  K_DEFAULT_VAULT_HTTP_PORT,
+  VaultTestServer,
+} from "@hyperledger/cactus-test-tooling";
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+import { isIPluginKeychainV2 } from "@hyperledger/cactus-core-api";
+
+import { PluginKeychainVault } from "../../../main/typescript/public-api";
+
+describe("PluginKeychainVault - keychain v2 (KV Secrets Engine v2)", () => {
+  const logLevel: LogLevelDesc = "INFO";
+  const vaultTestContainer = new VaultTestServer({});
+  let plugin: PluginKeychainVault;
+
+  beforeAll(async () => {
+    await vaultTestContainer.start();
+
+    const ci = await Containers.getById(vaultTestContainer.containerId);
+    const vaultIpAddr = await internalIpV4();
+    const hostPort = await Containers.getPublicPort(
+      K_DEFAULT_VAULT_HTTP_PORT,
+      ci,
+    );
+
+    plugin = new PluginKeychainVault({
+      instanceId: uuidv4(),
+      keychainId: uuidv4(),
+      endpoint: `http://${vaultIpAddr}:${hostPort}`,
+      token: K_DEFAULT_VAULT_DEV_ROOT_TOKEN,
+      apiVersion: "v1",
+      kvSecretsMountPath: "secret/data/",
+      maxVersions: 2,
+      logLevel,
+    });
+  });
+
+  afterAll(async () => {
+    await vaultTestContainer.stop();
+    await vaultTestContainer.destroy();
+  });
+
+  test("is detected as a v2 keychain", async () => {
+    expect(isIPluginKeychainV2(plugin)).toBeTrue();
+    const capabilities = await plugin.getKeychainCapabilities();
+    expect(capabilities.maxVersions).toEqual(2);
+  });
+
+  test("setVersioned() retains maxVersions versions with metadata", async () => {
+    const key = uuidv4();
+    const tags = { owner: "test" };
+
+    const meta1 = await plugin.setVersioned(key, "v1", { tags });
+    expect(meta1).toMatchObject({ key, version: 1, tags });
+    await plugin.set(key, "v2");
+    const meta3 = await plugin.setVersioned(key, "v3", {
+      contentType: "text/plain",
+    });
+    expect(meta3).toMatchObject({ key, version: 3, contentType: "text/plain" });
+    expect(meta3.createdAt).toEqual(meta1.createdAt);
+
+    expect(await plugin.get(key)).toEqual("v3");
+    expect(await plugin.getVersion(key, 2)).toEqual("v2");
+    await expect(plugin.getVersion(key, 1)).rejects.toThrow();
+
+    const versions = await plugin.listVersions(key);
+    expect(versions.map((v) => v.version)).toEqual([3, 2]);
+  });
+
+  test("compareAndSet() only writes the expected version", async () => {
+    const key = uuidv4();
+    await expect(plugin.compareAndSet(key, 0, "a")).resolves.toMatchObject({
+      version: 1,
+    });
+
+    await expect(
+      plugin.compareAndSet(key, 0, "b", { ttlSeconds: 1 }),
+    ).rejects.toBeInstanceOf(ConflictError);
+
+    // the failed write must not have changed the entry, its TTL included
+    const meta = await plugin.getMetadata(key);
+    expect(meta).toMatchObject({ version: 1 });
+    expect(meta.expiresAt).toBeUndefined();
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    expect(await plugin.get(key)).toEqual("a");
+
+    await expect(plugin.compareAndSet(key, 1, "b")).resolves.toMatchObject({
+      version: 2,
+    });
+    expect(await plugin.get(key)).toEqual("b");
+  });
+
+  test("TTLs only apply to the version they were written with", async () => {
+    const key = uuidv4();
+    await plugin.setVersioned(key, "long-lived");
+    const meta = await plugin.setVersioned(key, "x", { ttlSeconds: 1 });
+    expect(meta.expiresAt).toBeString();
+    expect(await plugin.has(key)).toBeTrue();
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+
+    expect(await plugin.has(key)).toBeFalse();
+    expect(await plugin.get(key)).toBeNull();
+    await expect(plugin.getMetadata(key)).rejects.toThrow();
+    expect(await plugin.getVersion(key, 1)).toEqual("long-lived");
+    const versions = await plugin.listVersions(key);
+    expect(versions.map((v) => v.version)).toEqual([1]);
+
+    const meta3 = await plugin.setVersioned(key, "y");
+    expect(meta3.expiresAt).toBeUndefined();
+  });
+
+  test("list() pages through the entries of a prefix", async () => {
+    const prefix = `${uuidv4()}/`;
+    const keys = ["a", "b", "c"].map((k) => `${prefix}${k}`);
+    for (const key of keys) {
+      await plugin.set(key, key);
+    }
+
+    const page1 = await plugin.list({ prefix, limit: 2 });
+    expect(page1.entries.map((e) => e.key)).toEqual(keys.slice(0, 2));
+    expect(page1.continuationToken).toEqual(keys[1]);
+
+    const page2 = await plugin.list({
+      prefix,
+      limit: 2,
+      continuationToken: page1.continuationToken as string,
+    });
+    expect(page2.entries.map((e) => e.key)).toEqual(keys.slice(2));
+    expect(page2.continuationToken).toBeNull();
+  });
+});
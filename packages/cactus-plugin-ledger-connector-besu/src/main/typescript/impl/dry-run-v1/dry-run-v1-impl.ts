@@ -0,0 +1,135 @@
+import Web3 from "web3";
+import type { Contract, ContractSendMethod } from "web3-eth-contract";
+
+import {
+  asError,
+  LoggerProvider,
+  LogLevelDesc,
+} from "@hyperledger/cactus-common";
+
+import {
+  DryRunEventV1,
+  DryRunResultV1,
+} from "../../generated/openapi/typescript-axios";
+
+export interface IDryRunV1TxConfig {
+  readonly from?: string;
+  readonly gas?: number;
+  readonly gasPrice?: string;
+  readonly value?: string | number;
+}
+
+interface ICallTracerFrame {
+  readonly logs?: Array<{ address: string; topics: string[]; data: string }>;
+  readonly calls?: ICallTracerFrame[];
+}
+
+/**
+ * Simulates the invocation of a contract method against the latest block
+ * without signing or submitting anything: the return value comes from
+ * `eth_call`, the gas from `eth_estimateGas` and the emitted events from
+ * `debug_traceCall` (with the callTracer) if the node supports it.
+ *
+ * Failures of the simulated transaction (e.g. a revert) are reported in the
+ * result instead of being thrown so that callers can inspect them.
+ */
+export async function dryRunV1Impl(
+  ctx: {
+    readonly web3: Web3;
+    readonly logLevel: LogLevelDesc;
+  },
+  contract: Contract,
+  method: ContractSendMethod,
+  txConfig: IDryRunV1TxConfig,
+): Promise<{ callOutput?: unknown; dryRunResult: DryRunResultV1 }> {
+  const fnTag = `dryRunV1Impl()`;
+  const log = LoggerProvider.getOrCreate({
+    label: "dryRunV1Impl()",
+    level: ctx.logLevel,
+  });
+
+  let callOutput: unknown;
+  let estimatedGas: number;
+  try {
+    callOutput = await method.call(txConfig);
+    estimatedGas = await method.estimateGas(txConfig);
+  } catch (ex: unknown) {
+    const { message: errorMessage } = asError(ex);
+    log.debug("%s Simulated transaction failed: %s", fnTag, errorMessage);
+    return { dryRunResult: { success: false, errorMessage } };
+  }
+
+  const gasPrice = txConfig.gasPrice ?? (await ctx.web3.eth.getGasPrice());
+  const estimatedFee = BigInt(estimatedGas) * BigInt(gasPrice);
+
+  const events = await traceEvents(ctx.web3, contract, {
+    from: txConfig.from,
+    to: contract.options.address,
+    data: method.encodeABI(),
+    value: toHex(txConfig.value),
+    gas: toHex(txConfig.gas ?? estimatedGas),
+  }).catch((ex: unknown) => {
+    const { message } = asError(ex);
+    log.debug("%s debug_traceCall unavailable, no events: %s", fnTag, message);
+    return undefined;
+  });
+
+  const dryRunResult: DryRunResultV1 = {
+    success: true,
+    estimatedGas: estimatedGas.toString(),
+    gasPrice: gasPrice.toString(),
+    estimatedFee: estimatedFee.toString(),
+    events,
+  };
+  return { callOutput, dryRunResult };
+}
+
+function toHex(value?: string | number): string | undefined {
+  return value === undefined ? undefined : Web3.utils.toHex(value);
+}
+
+async function traceEvents(
+  web3: Web3,
+  contract: Contract,
+  callObject: Record<string, string | undefined>,
+): Promise<DryRunEventV1[]> {
+  const { debug } = web3.extend({
+    property: "debug",
+    methods: [{ name: "traceCall", call: "debug_traceCall", params: 3 }],
+  });
+  const tracerConfig = {
+    tracer: "callTracer",
+    tracerConfig: { withLog: true },
+  };
+  const trace: ICallTracerFrame = await debug.traceCall(
+    callObject,
+    "latest",
+    tracerConfig,
+  );
+
+  const eventAbis = new Map(
+    contract.options.jsonInterface
+      .filter((item) => item.type === "event" && !item.anonymous)
+      .map((item) => [web3.eth.abi.encodeEventSignature(item), item] as const),
+  );
+
+  const events: DryRunEventV1[] = [];
+  const collect = (frame: ICallTracerFrame): void => {
+    for (const { address, topics, data } of frame.logs || []) {
+      const event: DryRunEventV1 = { address, topics, data };
+      const eventAbi = eventAbis.get(topics[0]);
+      if (eventAbi?.name && eventAbi.inputs) {
+        event.eventName = eventAbi.name;
+        event.returnValues = web3.eth.abi.decodeLog(
+          eventAbi.inputs,
+          data,
+          topics.slice(1),
+        );
+      }
+      events.push(event);
+    }
+    (frame.calls || []).forEach(collect);
+  };
+  collect(trace);
+  return events;
+}
@@ -0,0 +1,153 @@
+import Web3 from "web3";
+import type { Log, Transaction } from "web3-core";
+
+import {
+  LoggerProvider,
+  LogLevelDesc,
+  safeStringifyException,
+} from "@hyperledger/cactus-common";
+import {
+  ILedgerEventSubscriptionV1,
+  LedgerEventSubscriptionOptionsV1,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import {
+  compareLedgerEventCursorsV1,
+  LedgerEventSubscriptionV1,
+} from "@hyperledger/cactus-core";
+
+const DEFAULT_POLL_INTERVAL_MS = 1000 * 5; // 5 seconds
+
+/**
+ * Reports the blocks, transactions and logs of the ledger as `LedgerEventV1`s
+ * by polling for new blocks, so the subscriber can throttle the reading of
+ * blocks. Only the data that the filter can match is fetched.
+ *
+ * EVM logs carry no event name, so `eventName` is never set and the
+ * `eventNames` criterion of the filter never matches. Use `topics` instead.
+ */
+export async function subscribeLedgerEventsV1Impl(
+  ctx: {
+    readonly web3: Web3;
+    readonly sourceId: string;
+    readonly logLevel: LogLevelDesc;
+    readonly pollIntervalMs?: number;
+  },
+  options: LedgerEventSubscriptionOptionsV1,
+): Promise<ILedgerEventSubscriptionV1> {
+  const log = LoggerProvider.getOrCreate({
+    label: "subscribeLedgerEventsV1Impl()",
+    level: ctx.logLevel,
+  });
+  let timer: NodeJS.Timeout | undefined;
+  let wakeUp: (() => void) | undefined;
+  const subscription = new LedgerEventSubscriptionV1({
+    logLevel: ctx.logLevel,
+    subscriptionOptions: options,
+    onUnsubscribe: () => {
+      clearTimeout(timer);
+      wakeUp?.();
+    },
+  });
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      wakeUp = resolve;
+      timer = setTimeout(resolve, ms);
+    });
+
+  const latestBlockNumber = await ctx.web3.eth.getBlockNumber();
+  let blockNumber = subscription.getStartBlock(latestBlockNumber + 1);
+  log.debug("Reporting ledger events from block %d", blockNumber);
+
+  const pump = async () => {
+    let latest = latestBlockNumber;
+    while (!subscription.isClosed()) {
+      if (blockNumber > latest) {
+        await sleep(ctx.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+        latest = await ctx.web3.eth.getBlockNumber();
+        continue;
+      }
+      for (const event of await readBlockEvents(ctx, blockNumber, options)) {
+        if (!(await subscription.push(event))) {
+          return;
+        }
+      }
+      blockNumber++;
+    }
+  };
+  pump().catch((ex: unknown) => {
+    log.warn("Reading block %d failed: %s", blockNumber, ex);
+    subscription.close(new Error(safeStringifyException(ex)));
+  });
+
+  return subscription;
+}
+
+async function readBlockEvents(
+  ctx: { readonly web3: Web3; readonly sourceId: string },
+  blockNumber: number,
+  options: LedgerEventSubscriptionOptionsV1,
+): Promise<LedgerEventV1[]> {
+  const { web3, sourceId } = ctx;
+  const eventTypes = options.filter?.eventTypes;
+  const wants = (eventType: LedgerEventTypeV1) =>
+    !eventTypes || eventTypes.includes(eventType);
+
+  const hydrated = wants(LedgerEventTypeV1.Transaction);
+  const block = await web3.eth.getBlock(blockNumber, hydrated);
+  const { transactions, ...header } = block;
+  const common = {
+    sourceId,
+    blockHash: block.hash,
+    timestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+  };
+
+  const events: LedgerEventV1[] = [];
+  if (wants(LedgerEventTypeV1.Block)) {
+    events.push({
+      ...common,
+      eventType: LedgerEventTypeV1.Block,
+      cursor: { blockNumber },
+      payload: header,
+    });
+  }
+  if (hydrated) {
+    for (const tx of transactions as Array<string | Transaction>) {
+      if (typeof tx === "string" || tx.transactionIndex === null) {
+        continue;
+      }
+      events.push({
+        ...common,
+        eventType: LedgerEventTypeV1.Transaction,
+        cursor: { blockNumber, transactionIndex: tx.transactionIndex },
+        transactionId: tx.hash,
+        contractAddress: tx.to ?? undefined,
+        payload: tx,
+      });
+    }
+  }
+  if (wants(LedgerEventTypeV1.ContractEvent)) {
+    const logs: Log[] = await web3.eth.getPastLogs({
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+      address: options.filter?.contractAddresses,
+    });
+    for (const log of logs) {
+      events.push({
+        ...common,
+        eventType: LedgerEventTypeV1.ContractEvent,
+        cursor: {
+          blockNumber,
+          transactionIndex: log.transactionIndex,
+          eventIndex: log.logIndex,
+        },
+        transactionId: log.transactionHash,
+        contractAddress: log.address,
+        topics: log.topics,
+        payload: log,
+      });
+    }
+  }
+  return events.sort((a, b) => compareLedgerEventCursorsV1(a.cursor, b.cursor));
+}
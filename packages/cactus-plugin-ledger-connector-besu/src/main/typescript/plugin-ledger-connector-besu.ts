@@ -30,6 +30,9 @@ import {
   ICactusPluginOptions,
   IPluginGrpcService,
   IGrpcSvcDefAndImplPair,
+  ILedgerEventSubscriptionV1,
+  IPluginLedgerEventSource,
+  LedgerEventSubscriptionOptionsV1,
 } from "@hyperledger/cactus-core-api";
 
 import {
@@ -102,6 +105,8 @@ import { BesuGrpcSvcOpenApi } from "./grpc-services/besu-grpc-svc-open-api";
 import { BesuGrpcSvcStreams } from "./grpc-services/besu-grpc-svc-streams";
 import { getBlockV1Http } from "./impl/get-block-v1/get-block-v1-http";
 import { transactV1Impl } from "./impl/transact-v1/transact-v1-impl";
+import { dryRunV1Impl } from "./impl/dry-run-v1/dry-run-v1-impl";
+import { subscribeLedgerEventsV1Impl } from "./impl/subscribe-ledger-events-v1/subscribe-ledger-events-v1-impl";
 import { deployContractV1Keychain } from "./impl/deploy-contract-v1/deploy-contract-v1-keychain";
 import { deployContractV1NoKeychain } from "./impl/deploy-contract-v1/deploy-contract-v1-no-keychain";
 import { ReplaySubject, Observable } from "rxjs";
@@ -139,7 +144,8 @@ export class PluginLedgerConnectorBesu
     >,
     ICactusPlugin,
     IPluginGrpcService,
-    IPluginWebService
+    IPluginWebService,
+    IPluginLedgerEventSource
 {
   private readonly instanceId: string;
   public prometheusExporter: PrometheusExporter;
@@ -156,6 +162,7 @@ export class PluginLedgerConnectorBesu
   private endpoints: IWebServiceEndpoint[] | undefined;
   private txSubject: ReplaySubject<IRunTransactionV1Exchange> =
     new ReplaySubject();
+  private ledgerEventSubscriptions = new Set<ILedgerEventSubscriptionV1>();
 
   public static readonly CLASS_NAME = "PluginLedgerConnectorBesu";
 
@@ -224,6 +231,27 @@ export class PluginLedgerConnectorBesu
 
   public async shutdown(): Promise<void> {
     this.log.info(`Shutting down ${this.className}...`);
+    for (const subscription of this.ledgerEventSubscriptions) {
+      await subscription.unsubscribe();
+    }
+  }
+
+  public async subscribeLedgerEvents(
+    options: LedgerEventSubscriptionOptionsV1,
+  ): Promise<ILedgerEventSubscriptionV1> {
+    const ctx = {
+      web3: this.web3,
+      sourceId: this.instanceId,
+      logLevel: this.logLevel,
+    };
+    const subscription = await subscribeLedgerEventsV1Impl(ctx, options);
+    this.ledgerEventSubscriptions.forEach((s) => {
+      if (s.isClosed()) {
+        this.ledgerEventSubscriptions.delete(s);
+      }
+    });
+    this.ledgerEventSubscriptions.add(subscription);
+    return subscription;
   }
 
   async registerWebServices(
@@ -471,6 +499,11 @@ export class PluginLedgerConnectorBesu
         contractJSON.networks[networkId] === undefined ||
         contractJSON.networks[networkId].address === undefined
       ) {
+        if (req.dryRun) {
+          throw new Error(
+            `${fnTag} Cannot dry run ${contractName} as it is not deployed yet`,
+          );
+        }
         if (isWeb3SigningCredentialNone(req.signingCredential)) {
           throw new Error(`${fnTag} Cannot deploy contract with pre-signed TX`);
         }
@@ -595,6 +628,26 @@ export class PluginLedgerConnectorBesu
       }
       return { success, callOutput };
     } else if (req.invocationType === EthContractInvocationType.Send) {
+      if (req.dryRun) {
+        if (req.privateTransactionConfig) {
+          throw new Error(`${fnTag} Private transactions cannot be dry run`);
+        }
+        const { ethAccount } =
+          req.signingCredential as Partial<Web3SigningCredentialPrivateKeyHex>;
+        const ctx = { web3: this.web3, logLevel: this.logLevel };
+        const { callOutput, dryRunResult } = await dryRunV1Impl(
+          ctx,
+          contractInstance,
+          method,
+          {
+            from: ethAccount,
+            gas: req.gas === undefined ? undefined : Number(req.gas),
+            gasPrice: req.gasPrice?.toString(),
+            value: req.value,
+          },
+        );
+        return { success: dryRunResult.success, callOutput, dryRunResult };
+      }
       if (isWeb3SigningCredentialNone(req.signingCredential)) {
         throw new Error(`${fnTag} Cannot deploy contract with pre-signed TX`);
       }
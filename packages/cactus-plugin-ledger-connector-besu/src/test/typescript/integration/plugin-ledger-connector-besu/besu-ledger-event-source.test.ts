@@ -0,0 +1,137 @@
+import "jest-extended";
+import { v4 as uuidv4 } from "uuid";
+import Web3 from "web3";
+
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import {
+  isIPluginLedgerEventSource,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import {
+  BesuTestLedger,
+  pruneDockerAllIfGithubAction,
+} from "@hyperledger/cactus-test-tooling";
+
+import {
+  PluginLedgerConnectorBesu,
+  ReceiptType,
+  Web3SigningCredentialType,
+} from "../../../../main/typescript/public-api";
+
+const testCase = "Besu ledger event source tests";
+const logLevel: LogLevelDesc = "INFO";
+
+describe(testCase, () => {
+  const besuTestLedger = new BesuTestLedger();
+  let connector: PluginLedgerConnectorBesu;
+
+  beforeAll(async () => {
+    const pruning = pruneDockerAllIfGithubAction({ logLevel });
+    await expect(pruning).resolves.toBeTruthy();
+    await besuTestLedger.start();
+
+    connector = new PluginLedgerConnectorBesu({
+      instanceId: uuidv4(),
+      rpcApiHttpHost: await besuTestLedger.getRpcApiHttpHost(),
+      rpcApiWsHost: await besuTestLedger.getRpcApiWsHost(),
+      logLevel,
+      pluginRegistry: new PluginRegistry({ plugins: [] }),
+    });
+    await connector.onPluginInit();
+  });
+
+  afterAll(async () => {
+    if (connector) {
+      await connector.shutdown();
+    }
+    await besuTestLedger.stop();
+    await besuTestLedger.destroy();
+    const pruning = pruneDockerAllIfGithubAction({ logLevel });
+    await expect(pruning).resolves.toBeTruthy();
+  });
+
+  test("reports filtered transactions and resumes from a cursor", async () => {
+    expect(isIPluginLedgerEventSource(connector)).toBeTrue();
+
+    const genesisAccount = besuTestLedger.getGenesisAccountPubKey();
+    const secret = besuTestLedger.getGenesisAccountPrivKey();
+    const targetAccount = new Web3().eth.accounts.create(uuidv4()).address;
+    const transfer = (value: number) =>
+      connector.transact({
+        web3SigningCredential: {
+          ethAccount: genesisAccount,
+          secret,
+          type: Web3SigningCredentialType.PrivateKeyHex,
+        },
+        consistencyStrategy: {
+          blockConfirmations: 0,
+          receiptType: ReceiptType.LedgerBlockAck,
+          timeoutMs: 60000,
+        },
+        transactionConfig: {
+          from: genesisAccount,
+          to: targetAccount,
+          value,
+          gas: 1000000,
+        },
+      });
+    const { transactionReceipt: firstReceipt } = await transfer(1);
+    await transfer(2);
+
+    const subscription = await connector.subscribeLedgerEvents({
+      fromBlock: Number(firstReceipt.blockNumber),
+      filter: {
+        eventTypes: [LedgerEventTypeV1.Transaction],
+        contractAddresses: [targetAccount],
+      },
+      bufferSize: 1,
+    });
+    const received: LedgerEventV1[] = [];
+    for await (const event of subscription) {
+      received.push(event);
+      if (received.length === 2) {
+        break;
+      }
+    }
+    expect(subscription.isClosed()).toBeTrue();
+
+    const [first, second] = received;
+    expect(first).toMatchObject({
+      eventType: LedgerEventTypeV1.Transaction,
+      sourceId: connector.getInstanceId(),
+      transactionId: firstReceipt.transactionHash,
+      cursor: { blockNumber: Number(firstReceipt.blockNumber) },
+    });
+    expect(first.contractAddress?.toLowerCase()).toEqual(
+      targetAccount.toLowerCase(),
+    );
+    expect(first.timestamp).toBeString();
+
+    const resumed = await connector.subscribeLedgerEvents({
+      afterCursor: first.cursor,
+      filter: { eventTypes: [LedgerEventTypeV1.Transaction] },
+    });
+    const { value: next } = await resumed.next();
+    await resumed.unsubscribe();
+    expect(next).toEqual(second);
+  });
+
+  test("reports blocks in order", async () => {
+    const subscription = await connector.subscribeLedgerEvents({
+      fromBlock: 0,
+      filter: { eventTypes: [LedgerEventTypeV1.Block] },
+    });
+    const blockNumbers: number[] = [];
+    for await (const event of subscription) {
+      expect(event.blockHash).toBeString();
+      blockNumbers.push(event.cursor.blockNumber);
+      if (blockNumbers.length === 3) {
+        break;
+      }
+    }
+    expect(blockNumbers).toEqual([0, 1, 2]);
+    expect(subscription.getCursor()).toEqual({ blockNumber: 2 });
+  });
+});
@@ -344,6 +344,35 @@ describe(testCase, () => {
         signingCredential,
       });
       expect(callOut).toEqual(newName);
+
+      const dryRunName = `DrCactus${uuidv4()}`;
+      const dryRunOut = await connector.invokeContract({
+        contractName,
+        keychainId: keychainPlugin.getKeychainId(),
+        invocationType: EthContractInvocationType.Send,
+        methodName: "setName",
+        params: [dryRunName],
+        signingCredential,
+        dryRun: true,
+      });
+      expect(dryRunOut.success).toBeTrue();
+      expect(dryRunOut.transactionReceipt).toBeUndefined();
+      expect(dryRunOut.dryRunResult).toMatchObject({
+        success: true,
+        estimatedGas: expect.any(String),
+        gasPrice: expect.any(String),
+        estimatedFee: expect.any(String),
+      });
+
+      const { callOutput: nameAfterDryRun } = await connector.invokeContract({
+        contractName,
+        keychainId: keychainPlugin.getKeychainId(),
+        invocationType: EthContractInvocationType.Call,
+        methodName: "getName",
+        params: [],
+        signingCredential,
+      });
+      expect(nameAfterDryRun).toEqual(newName);
     }
   });
 });
@@ -204,6 +204,86 @@ export interface DeployedContractJsonDefinition {
      */
     'contractAddress': string;
 }
+/**
+ * 
+ * @export
+ * @interface DryRunEventV1
+ */
+export interface DryRunEventV1 {
+    /**
+     * 
+     * @type {string}
+     * @memberof DryRunEventV1
+     */
+    'address': string;
+    /**
+     * 
+     * @type {Array<string>}
+     * @memberof DryRunEventV1
+     */
+    'topics': Array<string>;
+    /**
+     * 
+     * @type {string}
+     * @memberof DryRunEventV1
+     */
+    'data': string;
+    /**
+     * The name of the event when it could be decoded with the ABI of the invoked contract.
+     * @type {string}
+     * @memberof DryRunEventV1
+     */
+    'eventName'?: string;
+    /**
+     * The decoded parameters of the event, only present if eventName is.
+     * @type {any}
+     * @memberof DryRunEventV1
+     */
+    'returnValues'?: any;
+}
+/**
+ * The outcome of a transaction that was simulated against the latest block without being submitted to the ledger.
+ * @export
+ * @interface DryRunResultV1
+ */
+export interface DryRunResultV1 {
+    /**
+     * Whether the transaction would succeed if it was submitted in the current state of the ledger.
+     * @type {boolean}
+     * @memberof DryRunResultV1
+     */
+    'success': boolean;
+    /**
+     * Why the simulated transaction failed, e.g. the revert reason.
+     * @type {string}
+     * @memberof DryRunResultV1
+     */
+    'errorMessage'?: string;
+    /**
+     * The amount of gas the transaction is estimated to use.
+     * @type {string}
+     * @memberof DryRunResultV1
+     */
+    'estimatedGas'?: string;
+    /**
+     * The gas price in wei that the fee estimate is based on.
+     * @type {string}
+     * @memberof DryRunResultV1
+     */
+    'gasPrice'?: string;
+    /**
+     * The estimated fee in wei (estimatedGas * gasPrice).
+     * @type {string}
+     * @memberof DryRunResultV1
+     */
+    'estimatedFee'?: string;
+    /**
+     * The events emitted by the simulated transaction. Absent when the node does not support debug_traceCall with the callTracer.
+     * @type {Array<DryRunEventV1>}
+     * @memberof DryRunResultV1
+     */
+    'events'?: Array<DryRunEventV1>;
+}
 /**
  * Error response from the connector.
  * @export
@@ -407,6 +487,12 @@ export interface InvokeContractV1Request {
      * @memberof InvokeContractV1Request
      */
     'timeoutMs'?: number;
+    /**
+     * When true a SEND invocation is only simulated: nothing is signed or submitted to the ledger and the response carries a dryRunResult instead of a transaction receipt.
+     * @type {boolean}
+     * @memberof InvokeContractV1Request
+     */
+    'dryRun'?: boolean;
 }
 
 
@@ -440,6 +526,12 @@ export interface InvokeContractV1Response {
      * @memberof InvokeContractV1Response
      */
     'success': boolean;
+    /**
+     * 
+     * @type {DryRunResultV1}
+     * @memberof InvokeContractV1Response
+     */
+    'dryRunResult'?: DryRunResultV1;
 }
 /**
  * 
@@ -0,0 +1,161 @@
+import Web3, { FMT_BYTES, FMT_NUMBER, LogsOutput } from "web3";
+
+import {
+  LoggerProvider,
+  LogLevelDesc,
+  safeStringifyException,
+} from "@hyperledger/cactus-common";
+import {
+  ILedgerEventSubscriptionV1,
+  LedgerEventSubscriptionOptionsV1,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import {
+  compareLedgerEventCursorsV1,
+  LedgerEventSubscriptionV1,
+} from "@hyperledger/cactus-core";
+
+const DEFAULT_POLL_INTERVAL_MS = 1000 * 5; // 5 seconds
+const RETURN_FORMAT = {
+  number: FMT_NUMBER.NUMBER,
+  bytes: FMT_BYTES.HEX,
+} as const;
+
+export interface ISubscribeLedgerEventsV1Context {
+  readonly web3: InstanceType<typeof Web3>;
+  readonly sourceId: string;
+  readonly logLevel?: LogLevelDesc;
+  readonly pollIntervalMs?: number;
+}
+
+/**
+ * Reports the blocks, transactions and logs of the ledger as `LedgerEventV1`s
+ * by polling for new blocks. Polling (instead of a `newHeads` subscription)
+ * works with every provider and lets the subscriber throttle the reading of
+ * blocks. Only the data that the filter can match is fetched.
+ *
+ * EVM logs carry no event name, so `eventName` is never set and the
+ * `eventNames` criterion of the filter never matches. Use `topics` instead.
+ */
+export async function subscribeLedgerEventsV1(
+  ctx: ISubscribeLedgerEventsV1Context,
+  options: LedgerEventSubscriptionOptionsV1,
+): Promise<ILedgerEventSubscriptionV1> {
+  const log = LoggerProvider.getOrCreate({
+    label: "subscribeLedgerEventsV1()",
+    level: ctx.logLevel || "INFO",
+  });
+  let timer: NodeJS.Timeout | undefined;
+  let wakeUp: (() => void) | undefined;
+  const subscription = new LedgerEventSubscriptionV1({
+    logLevel: ctx.logLevel,
+    subscriptionOptions: options,
+    onUnsubscribe: () => {
+      clearTimeout(timer);
+      wakeUp?.();
+    },
+  });
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      wakeUp = resolve;
+      timer = setTimeout(resolve, ms);
+    });
+
+  const latestBlockNumber = await ctx.web3.eth.getBlockNumber(RETURN_FORMAT);
+  let blockNumber = subscription.getStartBlock(latestBlockNumber + 1);
+  log.debug("Reporting ledger events from block %d", blockNumber);
+
+  const pump = async () => {
+    let latest = latestBlockNumber;
+    while (!subscription.isClosed()) {
+      if (blockNumber > latest) {
+        await sleep(ctx.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+        latest = await ctx.web3.eth.getBlockNumber(RETURN_FORMAT);
+        continue;
+      }
+      for (const event of await readBlockEvents(ctx, blockNumber, options)) {
+        if (!(await subscription.push(event))) {
+          return;
+        }
+      }
+      blockNumber++;
+    }
+  };
+  pump().catch((ex: unknown) => {
+    log.warn("Reading block %d failed: %s", blockNumber, ex);
+    subscription.close(new Error(safeStringifyException(ex)));
+  });
+
+  return subscription;
+}
+
+async function readBlockEvents(
+  ctx: ISubscribeLedgerEventsV1Context,
+  blockNumber: number,
+  options: LedgerEventSubscriptionOptionsV1,
+): Promise<LedgerEventV1[]> {
+  const { web3, sourceId } = ctx;
+  const eventTypes = options.filter?.eventTypes;
+  const wants = (eventType: LedgerEventTypeV1) =>
+    !eventTypes || eventTypes.includes(eventType);
+
+  const hydrated = wants(LedgerEventTypeV1.Transaction);
+  const block = await web3.eth.getBlock(blockNumber, hydrated, RETURN_FORMAT);
+  const { transactions, ...header } = block;
+  const common = {
+    sourceId,
+    blockHash: block.hash,
+    timestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+  };
+
+  const events: LedgerEventV1[] = [];
+  if (wants(LedgerEventTypeV1.Block)) {
+    events.push({
+      ...common,
+      eventType: LedgerEventTypeV1.Block,
+      cursor: { blockNumber },
+      payload: header,
+    });
+  }
+  if (hydrated) {
+    for (const tx of transactions || []) {
+      if (typeof tx === "string") {
+        continue;
+      }
+      events.push({
+        ...common,
+        eventType: LedgerEventTypeV1.Transaction,
+        cursor: { blockNumber, transactionIndex: Number(tx.transactionIndex) },
+        transactionId: tx.hash,
+        contractAddress: tx.to ?? undefined,
+        payload: tx,
+      });
+    }
+  }
+  if (wants(LedgerEventTypeV1.ContractEvent)) {
+    const logs = await web3.eth.getPastLogs(
+      {
+        blockHash: block.hash,
+        address: options.filter?.contractAddresses,
+      },
+      RETURN_FORMAT,
+    );
+    for (const log of logs as LogsOutput[]) {
+      events.push({
+        ...common,
+        eventType: LedgerEventTypeV1.ContractEvent,
+        cursor: {
+          blockNumber,
+          transactionIndex: Number(log.transactionIndex),
+          eventIndex: Number(log.logIndex),
+        },
+        transactionId: log.transactionHash,
+        contractAddress: log.address,
+        topics: log.topics as string[],
+        payload: log,
+      });
+    }
+  }
+  return events.sort((a, b) => compareLedgerEventCursorsV1(a.cursor, b.cursor));
+}
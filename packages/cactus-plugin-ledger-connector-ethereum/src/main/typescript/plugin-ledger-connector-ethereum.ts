@@ -12,6 +12,7 @@ import Web3, {
   Transaction,
   TransactionReceiptBase,
   WebSocketProvider,
+  core,
 } from "web3";
 
 import { PayableMethodObject } from "web3-eth-contract";
@@ -27,6 +28,9 @@ import {
   IPluginWebService,
   ICactusPlugin,
   ICactusPluginOptions,
+  ILedgerEventSubscriptionV1,
+  IPluginLedgerEventSource,
+  LedgerEventSubscriptionOptionsV1,
 } from "@hyperledger/cactus-core-api";
 
 import {
@@ -42,6 +46,7 @@ import {
 } from "@hyperledger/cactus-common";
 
 import { DeployContractEndpoint } from "./web-services/deploy-contract-v1-endpoint";
+import { subscribeLedgerEventsV1 } from "./ledger-events/subscribe-ledger-events-v1";
 
 import {
   DeployContractV1Request,
@@ -63,6 +68,7 @@ import {
   ContractKeychainDefinition,
   GasTransactionConfig,
   ContractJSON,
+  DryRunEventV1,
 } from "./generated/openapi/typescript-axios";
 
 import { RunTransactionEndpoint } from "./web-services/run-transaction-v1-endpoint";
@@ -97,6 +103,25 @@ import { Observable, ReplaySubject } from "rxjs";
 import { RegisteredSubscription } from "web3-eth";
 import { decodeEvent } from "./decode-utils";
 
+/**
+ * Call frame of a `debug_traceCall` trace produced by the callTracer.
+ */
+type CallTracerFrame = {
+  logs?: SolidityEventLog[];
+  calls?: CallTracerFrame[];
+};
+
+/**
+ * The `debug_traceCall` method that is not part of the web3js execution API.
+ */
+type DebugTraceCallApi = {
+  debug_traceCall: (
+    callObject: Record<string, unknown>,
+    blockNumber: string,
+    tracerConfig: Record<string, unknown>,
+  ) => CallTracerFrame;
+};
+
 export interface RunTransactionV1Exchange {
   request: InvokeContractV1Request;
   response: RunTransactionResponse;
@@ -152,7 +177,8 @@ export class PluginLedgerConnectorEthereum
       RunTransactionResponse
     >,
     ICactusPlugin,
-    IPluginWebService
+    IPluginWebService,
+    IPluginLedgerEventSource
 {
   private readonly pluginRegistry: PluginRegistry;
   public prometheusExporter: PrometheusExporter;
@@ -163,6 +189,7 @@ export class PluginLedgerConnectorEthereum
   public static readonly CLASS_NAME = "PluginLedgerConnectorEthereum";
   private watchBlocksSubscriptions: Map<string, WatchBlocksV1Endpoint> =
     new Map();
+  private ledgerEventSubscriptions = new Set<ILedgerEventSubscriptionV1>();
 
   private txSubject: ReplaySubject<RunTransactionV1Exchange> =
     new ReplaySubject();
@@ -311,6 +338,9 @@ export class PluginLedgerConnectorEthereum
       this.log.debug(`${WatchBlocksV1.Unsubscribe} shutdown`);
       await this.removeWatchBlocksSubscriptionForSocket(socketId);
     }
+    for (const subscription of this.ledgerEventSubscriptions) {
+      await subscription.unsubscribe();
+    }
 
     await this.closeWeb3jsConnection(
       this.web3.currentProvider as unknown as WebSocketProvider,
@@ -321,6 +351,26 @@ export class PluginLedgerConnectorEthereum
     return;
   }
 
+  public async subscribeLedgerEvents(
+    options: LedgerEventSubscriptionOptionsV1,
+  ): Promise<ILedgerEventSubscriptionV1> {
+    const subscription = await subscribeLedgerEventsV1(
+      {
+        web3: this.web3,
+        sourceId: this.instanceId,
+        logLevel: this.options.logLevel,
+      },
+      options,
+    );
+    this.ledgerEventSubscriptions.forEach((s) => {
+      if (s.isClosed()) {
+        this.ledgerEventSubscriptions.delete(s);
+      }
+    });
+    this.ledgerEventSubscriptions.add(subscription);
+    return subscription;
+  }
+
   async registerWebServices(
     app: Express,
     wsApi: SocketIoServer,
@@ -654,6 +704,17 @@ export class PluginLedgerConnectorEthereum
       const success = true;
       return { success, callOutput };
     } else if (req.invocationType === EthContractInvocationType.Send) {
+      if (req.dryRun) {
+        const { ethAccount } =
+          req.web3SigningCredential as Partial<Web3SigningCredentialPrivateKeyHex>;
+        return this.dryRunContractInvoke(method, abi, {
+          from: ethAccount,
+          to: contractAddress,
+          gasConfig: req.gasConfig,
+          value: req.value,
+          data: method.encodeABI(),
+        });
+      }
       if (isWeb3SigningCredentialNone(req.web3SigningCredential)) {
         throw new Error(`${fnTag} Cannot deploy contract with pre-signed TX`);
       }
@@ -694,6 +755,113 @@ export class PluginLedgerConnectorEthereum
     }
   }
 
+  /**
+   * Simulate contract method invocation against the latest block without
+   * signing or sending anything. The output comes from `eth_call`, gas from
+   * `eth_estimateGas` and events from `debug_traceCall` (callTracer) if the
+   * node supports it. Failures of the simulated transaction (e.g. a revert)
+   * are reported in the result instead of being thrown.
+   *
+   * @param method contract method with arguments applied
+   * @param abi ABI of the contract, used to decode the events
+   * @param txConfig transaction that would be sent
+   * @returns simulated call output and dry run result
+   */
+  private async dryRunContractInvoke(
+    method: PayableMethodObject,
+    abi: ContractJSON["abi"],
+    txConfig: EthereumTransactionConfig,
+  ): Promise<InvokeContractV1Response> {
+    const fnTag = `${this.className}#dryRunContractInvoke()`;
+    const { from, to, value, data, gasConfig } = txConfig;
+
+    let callOutput: unknown;
+    let estimatedGas: bigint;
+    try {
+      callOutput = await method.call({ from, value });
+      estimatedGas = await method.estimateGas({ from, value });
+    } catch (ex) {
+      const errorMessage = ex instanceof Error ? ex.message : String(ex);
+      this.log.debug(`${fnTag} Simulated transaction failed: ${errorMessage}`);
+      return { success: false, dryRunResult: { success: false, errorMessage } };
+    }
+
+    let gasPrice: string | undefined;
+    if (gasConfig && isGasTransactionConfigLegacy(gasConfig)) {
+      gasPrice = gasConfig.gasPrice;
+    } else if (gasConfig && isGasTransactionConfigEIP1559(gasConfig)) {
+      gasPrice = gasConfig.maxFeePerGas;
+    }
+    gasPrice = gasPrice ?? (await this.web3.eth.getGasPrice()).toString();
+    const estimatedFee = estimatedGas * BigInt(gasPrice);
+
+    let events: DryRunEventV1[] | undefined;
+    try {
+      const requestManager = this.web3
+        .requestManager as unknown as core.Web3RequestManager<DebugTraceCallApi>;
+      const trace = await requestManager.send({
+        method: "debug_traceCall",
+        params: [
+          { from, to, data, value: this.web3.utils.toHex(value ?? 0) },
+          "latest",
+          { tracer: "callTracer", tracerConfig: { withLog: true } },
+        ],
+      });
+      events = this.decodeTracedEvents(trace, abi);
+    } catch (ex) {
+      this.log.debug(`${fnTag} debug_traceCall unavailable, no events:`, ex);
+    }
+
+    return {
+      success: true,
+      callOutput,
+      dryRunResult: {
+        success: true,
+        estimatedGas: estimatedGas.toString(),
+        gasPrice,
+        estimatedFee: estimatedFee.toString(),
+        events,
+      },
+    };
+  }
+
+  /**
+   * Collect the logs of a `debug_traceCall` callTracer trace (including the
+   * nested calls) and decode the ones emitted by events of the contract ABI.
+   *
+   * @param frame top level call frame of the trace
+   * @param abi ABI of the invoked contract
+   * @returns the emitted events
+   */
+  private decodeTracedEvents(
+    frame: CallTracerFrame,
+    abi: ContractJSON["abi"],
+  ): DryRunEventV1[] {
+    const eventAbis = (abi as AbiEventFragment[]).filter(
+      (item) => item.type === "event" && !item.anonymous,
+    );
+    const events: DryRunEventV1[] = [];
+    for (const log of frame.logs ?? []) {
+      const { address, topics, data } = log;
+      const event: DryRunEventV1 = { address, topics, data };
+      const eventAbi = eventAbis.find(
+        (item) => this.web3.eth.abi.encodeEventSignature(item) === topics[0],
+      );
+      if (eventAbi?.name) {
+        const returnValues = this.decodeEvent(log, eventAbis, eventAbi.name);
+        if (returnValues) {
+          event.eventName = eventAbi.name;
+          event.returnValues = returnValues;
+        }
+      }
+      events.push(event);
+    }
+    for (const call of frame.calls ?? []) {
+      events.push(...this.decodeTracedEvents(call, abi));
+    }
+    return events;
+  }
+
   ////////////////////////////
   // Transact
   ////////////////////////////
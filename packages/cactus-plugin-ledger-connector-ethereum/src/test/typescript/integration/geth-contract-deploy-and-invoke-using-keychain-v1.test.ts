@@ -47,6 +47,7 @@ import {
   InvokeContractV1Request,
   DeployContractV1Request,
   ContractKeychainDefinition,
+  DryRunResultV1,
   signTransaction,
 } from "../../../main/typescript/public-api";
 import { K_CACTI_ETHEREUM_TOTAL_TX_COUNT } from "../../../main/typescript/prometheus-exporter/metrics";
@@ -530,6 +531,79 @@ describe("Ethereum contract deploy and invoke using keychain tests", () => {
     expect(invokeGetNameOut.data.callOutput).toBe(newName);
   });
 
+  test("invoke with dryRun simulates without sending a transaction", async () => {
+    const web3SigningCredential = {
+      ethAccount: testEthAccount.address,
+      secret: testEthAccount.privateKey,
+      type: Web3SigningCredentialType.PrivateKeyHex,
+    };
+    const contract = {
+      contractName: HelloWorldContractJson.contractName,
+      keychainId: keychainPlugin.getKeychainId(),
+    };
+    const { data: nameBefore } = await apiClient.invokeContractV1({
+      contract,
+      invocationType: EthContractInvocationType.Call,
+      methodName: "getName",
+      params: [],
+      web3SigningCredential,
+    });
+    const nonceBefore = await web3.eth.getTransactionCount(
+      testEthAccount.address,
+    );
+
+    const dryRunOut = await apiClient.invokeContractV1({
+      contract,
+      invocationType: EthContractInvocationType.Send,
+      methodName: "setName",
+      params: [`DrCactus${uuidV4()}`],
+      web3SigningCredential,
+      dryRun: true,
+    });
+    expect(dryRunOut.status).toEqual(200);
+    expect(dryRunOut.data.success).toBeTrue();
+    expect(dryRunOut.data.transactionReceipt).toBeUndefined();
+    expect(dryRunOut.data.dryRunResult).toMatchObject({
+      success: true,
+      estimatedGas: expect.any(String),
+      gasPrice: expect.any(String),
+      estimatedFee: expect.any(String),
+    });
+    const { estimatedGas, gasPrice, estimatedFee } = dryRunOut.data
+      .dryRunResult as DryRunResultV1;
+    expect(BigInt(estimatedFee as string)).toEqual(
+      BigInt(estimatedGas as string) * BigInt(gasPrice as string),
+    );
+
+    // a reverting call is reported in the result instead of being thrown
+    const failedOut = await apiClient.invokeContractV1({
+      contract,
+      invocationType: EthContractInvocationType.Send,
+      methodName: "setName",
+      params: [`DrCactus${uuidV4()}`],
+      web3SigningCredential,
+      value: "1", // setName is not payable
+      dryRun: true,
+    });
+    expect(failedOut.data.success).toBeFalse();
+    expect(failedOut.data.dryRunResult).toMatchObject({
+      success: false,
+      errorMessage: expect.any(String),
+    });
+
+    const { data: nameAfter } = await apiClient.invokeContractV1({
+      contract,
+      invocationType: EthContractInvocationType.Call,
+      methodName: "getName",
+      params: [],
+      web3SigningCredential,
+    });
+    expect(nameAfter.callOutput).toEqual(nameBefore.callOutput);
+    expect(await web3.eth.getTransactionCount(testEthAccount.address)).toEqual(
+      nonceBefore,
+    );
+  });
+
   test("invokeContractV1 without methodName should fail", async () => {
     try {
       await apiClient.invokeContractV1({
@@ -0,0 +1,135 @@
+/**
+ * Tests for the ledger agnostic event source (IPluginLedgerEventSource).
+ */
+
+//////////////////////////////////
+// Constants
+//////////////////////////////////
+
+const testLogLevel: LogLevelDesc = "info";
+const containerImageName = "ghcr.io/hyperledger/cacti-geth-all-in-one";
+const containerImageVersion = "2023-07-27-2a8c48ed6";
+const asyncTestTimeout = 1000 * 60 * 5; // 5 minutes
+
+import "jest-extended";
+import { v4 as uuidV4 } from "uuid";
+
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import {
+  isIPluginLedgerEventSource,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import { pruneDockerAllIfGithubAction } from "@hyperledger/cactus-test-tooling";
+import { GethTestLedger } from "@hyperledger/cactus-test-geth-ledger";
+
+import { PluginLedgerConnectorEthereum } from "../../../main/typescript/public-api";
+
+describe("Ethereum ledger event source tests", () => {
+  let ledger: GethTestLedger;
+  let connector: PluginLedgerConnectorEthereum;
+
+  beforeAll(async () => {
+    const pruning = pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+    await expect(pruning).resolves.toBeTruthy();
+
+    ledger = new GethTestLedger({
+      containerImageName,
+      containerImageVersion,
+    });
+    await ledger.start();
+
+    connector = new PluginLedgerConnectorEthereum({
+      instanceId: uuidV4(),
+      rpcApiHttpHost: await ledger.getRpcApiHttpHost(),
+      logLevel: testLogLevel,
+      pluginRegistry: new PluginRegistry({ plugins: [] }),
+    });
+  });
+
+  afterAll(async () => {
+    if (connector) {
+      await connector.shutdown();
+    }
+    if (ledger) {
+      await ledger.stop();
+      await ledger.destroy();
+    }
+    const pruning = pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+    await expect(pruning).resolves.toBeTruthy();
+  });
+
+  test(
+    "reports filtered transactions and resumes from a cursor",
+    async () => {
+      expect(isIPluginLedgerEventSource(connector)).toBeTrue();
+
+      const targetAccount = "0x6f2d1e9e0e20bc2dc5ce2b3aa4fa0a5f1b2c3d4e";
+      const firstReceipt = await ledger.transferAssetFromCoinbase(
+        targetAccount,
+        1,
+      );
+      await ledger.transferAssetFromCoinbase(targetAccount, 2);
+
+      const subscription = await connector.subscribeLedgerEvents({
+        fromBlock: Number(firstReceipt.blockNumber),
+        filter: {
+          eventTypes: [LedgerEventTypeV1.Transaction],
+          contractAddresses: [targetAccount],
+        },
+        bufferSize: 1,
+      });
+      const received: LedgerEventV1[] = [];
+      for await (const event of subscription) {
+        received.push(event);
+        if (received.length === 2) {
+          break;
+        }
+      }
+      expect(subscription.isClosed()).toBeTrue();
+
+      const [first, second] = received;
+      expect(first).toMatchObject({
+        eventType: LedgerEventTypeV1.Transaction,
+        sourceId: connector.getInstanceId(),
+        transactionId: firstReceipt.transactionHash,
+        cursor: { blockNumber: Number(firstReceipt.blockNumber) },
+      });
+      expect(first.contractAddress?.toLowerCase()).toEqual(
+        targetAccount.toLowerCase(),
+      );
+      expect(first.timestamp).toBeString();
+
+      const resumed = await connector.subscribeLedgerEvents({
+        afterCursor: first.cursor,
+        filter: { eventTypes: [LedgerEventTypeV1.Transaction] },
+      });
+      const { value: next } = await resumed.next();
+      await resumed.unsubscribe();
+      expect(next).toEqual(second);
+    },
+    asyncTestTimeout,
+  );
+
+  test(
+    "reports blocks in order",
+    async () => {
+      const subscription = await connector.subscribeLedgerEvents({
+        fromBlock: 0,
+        filter: { eventTypes: [LedgerEventTypeV1.Block] },
+      });
+      const blockNumbers: number[] = [];
+      for await (const event of subscription) {
+        expect(event.blockHash).toBeString();
+        blockNumbers.push(event.cursor.blockNumber);
+        if (blockNumbers.length === 3) {
+          break;
+        }
+      }
+      expect(blockNumbers).toEqual([0, 1, 2]);
+      expect(subscription.getCursor()).toEqual({ blockNumber: 2 });
+    },
+    asyncTestTimeout,
+  );
+});
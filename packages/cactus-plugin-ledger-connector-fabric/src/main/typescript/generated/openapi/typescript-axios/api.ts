@@ -531,6 +531,87 @@ export interface DeploymentTargetOrganization {
      */
     'ORDERER_TLS_ROOTCERT': string;
 }
+/**
+ * The answer of an endorsing peer to a transaction proposal.
+ * @export
+ * @interface DryRunEndorsementV1
+ */
+export interface DryRunEndorsementV1 {
+    /**
+     * Name of the endorsing peer.
+     * @type {string}
+     * @memberof DryRunEndorsementV1
+     */
+    'peer': string;
+    /**
+     * The status code of the chaincode response, 200 when successful.
+     * @type {number}
+     * @memberof DryRunEndorsementV1
+     */
+    'status': number;
+    /**
+     * 
+     * @type {string}
+     * @memberof DryRunEndorsementV1
+     */
+    'message': string;
+    /**
+     * Whether the peer signed an endorsement of the simulated transaction.
+     * @type {boolean}
+     * @memberof DryRunEndorsementV1
+     */
+    'endorsed': boolean;
+}
+/**
+ * 
+ * @export
+ * @interface DryRunEventV1
+ */
+export interface DryRunEventV1 {
+    /**
+     * 
+     * @type {string}
+     * @memberof DryRunEventV1
+     */
+    'eventName': string;
+    /**
+     * The payload of the chaincode event decoded as UTF-8.
+     * @type {string}
+     * @memberof DryRunEventV1
+     */
+    'payload': string;
+}
+/**
+ * The outcome of a transaction that was endorsed by the peers without being sent to the orderer, therefore it is not committed to the ledger.
+ * @export
+ * @interface DryRunResultV1
+ */
+export interface DryRunResultV1 {
+    /**
+     * Whether at least one peer endorsed the transaction.
+     * @type {boolean}
+     * @memberof DryRunResultV1
+     */
+    'success': boolean;
+    /**
+     * Why none of the peers endorsed the transaction.
+     * @type {string}
+     * @memberof DryRunResultV1
+     */
+    'errorMessage'?: string;
+    /**
+     * 
+     * @type {Array<DryRunEndorsementV1>}
+     * @memberof DryRunResultV1
+     */
+    'endorsements': Array<DryRunEndorsementV1>;
+    /**
+     * The chaincode events the transaction would emit.
+     * @type {Array<DryRunEventV1>}
+     * @memberof DryRunResultV1
+     */
+    'events'?: Array<DryRunEventV1>;
+}
 /**
  * 
  * @export
@@ -1533,6 +1614,12 @@ export interface RunTransactionRequest {
      * @memberof RunTransactionRequest
      */
     'responseType'?: RunTransactionResponseType;
+    /**
+     * When true a SEND or SENDPRIVATE invocation is only endorsed by the peers and never sent to the orderer so nothing is committed to the ledger. The response carries the dryRunResult and the ID of the transaction proposal.
+     * @type {boolean}
+     * @memberof RunTransactionRequest
+     */
+    'dryRun'?: boolean;
 }
 
 
@@ -1554,6 +1641,12 @@ export interface RunTransactionResponse {
      * @memberof RunTransactionResponse
      */
     'transactionId': string;
+    /**
+     * 
+     * @type {DryRunResultV1}
+     * @memberof RunTransactionResponse
+     */
+    'dryRunResult'?: DryRunResultV1;
 }
 /**
  * Response format from transaction / query execution
@@ -0,0 +1,140 @@
+import type { common as fabricCommon } from "fabric-protos";
+import { BlockEvent, BlockListener, Gateway } from "fabric-network";
+
+import {
+  LoggerProvider,
+  LogLevelDesc,
+  safeStringifyException,
+} from "@hyperledger/cactus-common";
+import {
+  ILedgerEventSubscriptionV1,
+  LedgerEventSubscriptionOptionsV1,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import { LedgerEventSubscriptionV1 } from "@hyperledger/cactus-core";
+
+import { GatewayOptions } from "../generated/openapi/typescript-axios";
+import { formatCactiFullBlockResponse } from "../get-block/cacti-block-formatters";
+
+/**
+ * The options of `PluginLedgerConnectorFabric#subscribeLedgerEvents()`.
+ */
+export interface IFabricLedgerEventSubscriptionOptionsV1
+  extends LedgerEventSubscriptionOptionsV1 {
+  /**
+   * The channel whose blocks are reported.
+   */
+  channelName: string;
+  /**
+   * The identity the block events are requested with.
+   */
+  gatewayOptions: GatewayOptions;
+}
+
+/**
+ * Reports the blocks, transactions and chaincode events of a channel as
+ * `LedgerEventV1`s using a full block listener.
+ *
+ * The SDK awaits the listener before delivering the next block, so while the
+ * subscriber is not consuming events no further blocks are processed (they
+ * are queued by the SDK as they arrive from the peer).
+ *
+ * @param gateway Connected gateway, it is disconnected when the subscription
+ * ends.
+ */
+export async function subscribeLedgerEventsV1(
+  ctx: {
+    readonly gateway: Gateway;
+    readonly sourceId: string;
+    readonly logLevel?: LogLevelDesc;
+  },
+  options: IFabricLedgerEventSubscriptionOptionsV1,
+): Promise<ILedgerEventSubscriptionV1> {
+  const { gateway, sourceId } = ctx;
+  const log = LoggerProvider.getOrCreate({
+    label: "subscribeLedgerEventsV1()",
+    level: ctx.logLevel || "INFO",
+  });
+  const network = await gateway.getNetwork(options.channelName);
+
+  const release = () => {
+    network.removeBlockListener(listener);
+    gateway.disconnect();
+  };
+  const subscription = new LedgerEventSubscriptionV1({
+    logLevel: ctx.logLevel,
+    subscriptionOptions: options,
+    onUnsubscribe: release,
+  });
+  const listener: BlockListener = async (blockEvent) => {
+    try {
+      for (const event of toLedgerEvents(sourceId, blockEvent)) {
+        if (!(await subscription.push(event))) {
+          return;
+        }
+      }
+    } catch (ex: unknown) {
+      const blockNumber = blockEvent.blockNumber.toString();
+      log.warn("Processing block %s failed: %s", blockNumber, ex);
+      subscription.close(new Error(safeStringifyException(ex)));
+      release();
+    }
+  };
+
+  const startBlock = options.afterCursor?.blockNumber ?? options.fromBlock;
+  log.debug("Reporting ledger events from block %s", startBlock ?? "latest");
+  await network.addBlockListener(listener, { type: "full", startBlock });
+  return subscription;
+}
+
+function toLedgerEvents(
+  sourceId: string,
+  blockEvent: BlockEvent,
+): LedgerEventV1[] {
+  const blockNumber = blockEvent.blockNumber.toNumber();
+  const block = formatCactiFullBlockResponse(
+    blockEvent.blockData as fabricCommon.IBlock,
+  ).cactiFullEvents;
+  const { blockHash } = block;
+
+  const events: LedgerEventV1[] = [
+    {
+      eventType: LedgerEventTypeV1.Block,
+      sourceId,
+      cursor: { blockNumber },
+      blockHash,
+      payload: block,
+    },
+  ];
+  blockEvent.getTransactionEvents().forEach((tx, transactionIndex) => {
+    const timestamp = tx.timestamp?.toISOString();
+    const summary = block.cactiTransactionsEvents.find(
+      (t) => t.hash === tx.transactionId,
+    );
+    events.push({
+      eventType: LedgerEventTypeV1.Transaction,
+      sourceId,
+      cursor: { blockNumber, transactionIndex },
+      blockHash,
+      timestamp,
+      transactionId: tx.transactionId,
+      contractAddress: summary?.actions[0]?.chaincodeId,
+      payload: { ...summary, status: tx.status, isValid: tx.isValid },
+    });
+    tx.getContractEvents().forEach((contractEvent, eventIndex) => {
+      events.push({
+        eventType: LedgerEventTypeV1.ContractEvent,
+        sourceId,
+        cursor: { blockNumber, transactionIndex, eventIndex },
+        blockHash,
+        timestamp,
+        transactionId: tx.transactionId,
+        contractAddress: contractEvent.chaincodeId,
+        eventName: contractEvent.eventName,
+        payload: contractEvent.payload?.toString("utf-8"),
+      });
+    });
+  });
+  return events;
+}
@@ -22,6 +22,7 @@ import {
   Wallet,
   ContractEvent,
   ContractListener,
+  ListenerOptions,
 } from "fabric-network";
 import {
   BuildProposalRequest,
@@ -43,6 +44,8 @@ import {
   IWebServiceEndpoint,
   ICactusPlugin,
   ICactusPluginOptions,
+  ILedgerEventSubscriptionV1,
+  IPluginLedgerEventSource,
 } from "@hyperledger/cactus-core-api";
 
 import {
@@ -75,6 +78,10 @@ import {
 } from "./get-prometheus-exporter-metrics/get-prometheus-exporter-metrics-endpoint-v1";
 
 import { WatchBlocksV1Endpoint } from "./watch-blocks/watch-blocks-v1-endpoint";
+import {
+  IFabricLedgerEventSubscriptionOptionsV1,
+  subscribeLedgerEventsV1,
+} from "./ledger-events/subscribe-ledger-events-v1";
 
 import {
   ConnectionProfile,
@@ -104,6 +111,8 @@ import {
   GetChainInfoResponseV1,
   GetDiscoveryResultsRequestV1,
   GetDiscoveryResultsResponseV1,
+  DryRunResultV1,
+  DryRunEventV1,
 } from "./generated/openapi/typescript-axios/index";
 
 import { PrometheusExporter } from "./prometheus-exporter/prometheus-exporter";
@@ -207,7 +216,8 @@ export class PluginLedgerConnectorFabric
       RunTransactionResponse
     >,
     ICactusPlugin,
-    IPluginWebService
+    IPluginWebService,
+    IPluginLedgerEventSource<IFabricLedgerEventSubscriptionOptionsV1>
 {
   public static readonly CLASS_NAME = "PluginLedgerConnectorFabric";
   private readonly instanceId: string;
@@ -218,6 +228,7 @@ export class PluginLedgerConnectorFabric
   private readonly secureIdentity: SecureIdentityProviders;
   private readonly certStore: CertDatastore;
   private runningWatchBlocksMonitors = new Set<WatchBlocksV1Endpoint>();
+  private ledgerEventSubscriptions = new Set<ILedgerEventSubscriptionV1>();
   private txSubject: ReplaySubject<IRunTxReqWithTxId> = new ReplaySubject();
 
   private dockerNetworkName: string = "bridge";
@@ -287,6 +298,36 @@ export class PluginLedgerConnectorFabric
   public async shutdown(): Promise<void> {
     this.runningWatchBlocksMonitors.forEach((m) => m.close());
     this.runningWatchBlocksMonitors.clear();
+    for (const subscription of this.ledgerEventSubscriptions) {
+      await subscription.unsubscribe();
+    }
+  }
+
+  /**
+   * Reports the blocks, transactions and chaincode events of
+   * `options.channelName` in the ledger agnostic `LedgerEventV1` envelope.
+   */
+  public async subscribeLedgerEvents(
+    options: IFabricLedgerEventSubscriptionOptionsV1,
+  ): Promise<ILedgerEventSubscriptionV1> {
+    const fnTag = `${this.className}#subscribeLedgerEvents()`;
+    Checks.truthy(options, `${fnTag} options`);
+    Checks.nonBlankString(options.channelName, `${fnTag} channelName`);
+    const gateway = await this.createGatewayWithOptions(options.gatewayOptions);
+    const subscription = await subscribeLedgerEventsV1(
+      { gateway, sourceId: this.instanceId, logLevel: this.opts.logLevel },
+      options,
+    ).catch((ex: unknown) => {
+      gateway.disconnect();
+      throw ex;
+    });
+    this.ledgerEventSubscriptions.forEach((s) => {
+      if (s.isClosed()) {
+        this.ledgerEventSubscriptions.delete(s);
+      }
+    });
+    this.ledgerEventSubscriptions.add(subscription);
+    return subscription;
   }
 
   public getPrometheusExporter(): PrometheusExporter {
@@ -1326,6 +1367,7 @@ export class PluginLedgerConnectorFabric
 
       let out: Buffer;
       let transactionId = "";
+      let dryRunResult: DryRunResultV1 | undefined;
       switch (invocationType) {
         case FabricContractInvocationType.Call: {
           out = await contract
@@ -1335,6 +1377,16 @@ export class PluginLedgerConnectorFabric
           break;
         }
         case FabricContractInvocationType.Send: {
+          if (req.dryRun) {
+            ({ out, transactionId, dryRunResult } =
+              await this.endorseWithoutCommit(
+                gateway,
+                channel,
+                req,
+                endorsingTargets,
+              ));
+            break;
+          }
           this.log.debug("%s Creating tx instance on %s", fnTag, contractName);
           this.log.debug("%s Endorsing peers: %o", fnTag, req.endorsingPeers);
           const tx = contract.createTransaction(fnName);
@@ -1352,6 +1404,16 @@ export class PluginLedgerConnectorFabric
               "Set transaction to send Transient Data but it was not provided";
             throw new Error(`${fnTag} ${message}`);
           }
+          if (req.dryRun) {
+            ({ out, transactionId, dryRunResult } =
+              await this.endorseWithoutCommit(
+                gateway,
+                channel,
+                req,
+                endorsingTargets,
+              ));
+            break;
+          }
 
           const transientMap = this.toTransientMap(req.transientData);
           const transactionProposal = await contract.createTransaction(fnName);
@@ -1366,16 +1428,18 @@ export class PluginLedgerConnectorFabric
         }
       }
 
-      // create IRunTxReqWithTxId for transaction monitoring
-      const receiptData: IRunTxReqWithTxId = {
-        request: req,
-        transactionId: transactionId == "" ? uuidv4() : transactionId,
-        timestamp: new Date(),
-      };
-      this.log.debug(
-        `IRunTxReqWithTxId created with ID: ${receiptData.transactionId}`,
-      );
-      this.txSubject.next(receiptData);
+      if (!dryRunResult) {
+        // create IRunTxReqWithTxId for transaction monitoring
+        const receiptData: IRunTxReqWithTxId = {
+          request: req,
+          transactionId: transactionId == "" ? uuidv4() : transactionId,
+          timestamp: new Date(),
+        };
+        this.log.debug(
+          `IRunTxReqWithTxId created with ID: ${receiptData.transactionId}`,
+        );
+        this.txSubject.next(receiptData);
+      }
 
       const res: RunTransactionResponse = {
         functionOutput: this.convertToTransactionResponseType(
@@ -1383,10 +1447,13 @@ export class PluginLedgerConnectorFabric
           responseType,
         ),
         transactionId: transactionId,
+        dryRunResult,
       };
       gateway.disconnect();
       this.log.debug(`transact() response: %o`, res);
-      this.prometheusExporter.addCurrentTransaction();
+      if (!dryRunResult) {
+        this.prometheusExporter.addCurrentTransaction();
+      }
 
       return res;
     } catch (ex) {
@@ -1395,6 +1462,89 @@ export class PluginLedgerConnectorFabric
     }
   }
 
+  /**
+   * Have the endorsing peers simulate a transaction without sending it to
+   * the orderer, so nothing is committed to the ledger.
+   * Peers refusing the endorsement are reported in the result rather than
+   * thrown so that callers can inspect them.
+   *
+   * @param gateway connected gateway of the identity that signs the proposal
+   * @param channel the channel of the transaction
+   * @param req the transaction to simulate
+   * @param endorsingTargets the peers to send the proposal to
+   * @returns output of the first successful endorsement (empty if none) and
+   * the ID of the transaction proposal
+   */
+  private async endorseWithoutCommit(
+    gateway: Gateway,
+    channel: Channel,
+    req: RunTransactionRequest,
+    endorsingTargets: Endorser[],
+  ): Promise<{
+    out: Buffer;
+    transactionId: string;
+    dryRunResult: DryRunResultV1;
+  }> {
+    const fnTag = `${this.className}#endorseWithoutCommit()`;
+    if (!gateway.identityContext) {
+      throw new Error(`${fnTag} gateway is not connected`);
+    }
+    const identityContext = gateway.identityContext.calculateTransactionId();
+    const transactionId = identityContext.transactionId;
+
+    const endorsement = channel.newEndorsement(req.contractName);
+    const buildOptions: BuildProposalRequest = {
+      fcn: req.methodName,
+      args: req.params,
+    };
+    if (req.transientData) {
+      buildOptions.transientMap = this.toTransientMap(req.transientData);
+    }
+    endorsement.build(identityContext, buildOptions);
+    endorsement.sign(identityContext);
+    this.log.debug("%s Sending proposal %s", fnTag, transactionId);
+    const { responses, errors } = await endorsement.send({
+      targets: endorsingTargets,
+    });
+
+    const endorsements = responses.map((r) => ({
+      peer: r.connection.name,
+      status: r.response.status,
+      message: r.response.message,
+      endorsed: r.response.status === 200 && !!r.endorsement,
+    }));
+    const endorsed = responses.find((_, i) => endorsements[i].endorsed);
+    if (!endorsed) {
+      const errorMessage = [
+        ...errors.map((e) => e.message),
+        ...endorsements.map((e) => `${e.peer}: ${e.status} ${e.message}`),
+      ].join("; ");
+      this.log.debug("%s Not endorsed: %s", fnTag, errorMessage);
+      const dryRunResult = { success: false, errorMessage, endorsements };
+      return { out: Buffer.alloc(0), transactionId, dryRunResult };
+    }
+
+    const events: DryRunEventV1[] = [];
+    const { protos } = fabricProtos;
+    const payload = protos.ProposalResponsePayload.decode(endorsed.payload);
+    const action = protos.ChaincodeAction.decode(payload.extension);
+    if (action.events && action.events.length > 0) {
+      const event = protos.ChaincodeEvent.decode(action.events);
+      if (event.event_name) {
+        events.push({
+          eventName: event.event_name,
+          payload: Buffer.from(event.payload).toString("utf-8"),
+        });
+      }
+    }
+
+    return {
+      out: asBuffer(endorsed.response.payload),
+      transactionId,
+      dryRunResult: { success: true, endorsements, events },
+    };
+  }
+
   public async getTransactionReceiptByTxID(
     req: RunTransactionRequest,
   ): Promise<GetTransactionReceiptResponse> {
@@ -2098,12 +2248,14 @@ export class PluginLedgerConnectorFabric
    *
    * @param req The request object containing the channel name and contract name.
    * @param callback The callback function to be called when an event is received.
+   * @param options Optional listener options, e.g. the block to replay events from.
    * @returns A promise that resolves to an object containing the listener and a
    * function to remove it.
    */
   public async createFabricListener(
     req: CreateListenerRequest,
     callback: (event: ContractEvent) => Promise<void>,
+    options?: ListenerOptions,
   ): Promise<{
     removeListener: () => void;
     listener: Promise<ContractListener>;
@@ -2123,7 +2275,7 @@ export class PluginLedgerConnectorFabric
       );
 
       return {
-        listener: contract.addContractListener(listener),
+        listener: contract.addContractListener(listener, options),
         removeListener: () => {
           contract.removeContractListener(listener);
           gateway.disconnect();
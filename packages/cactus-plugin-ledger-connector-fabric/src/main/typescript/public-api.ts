@@ -12,6 +12,8 @@ export {
   IRunTxReqWithTxId,
 } from "./plugin-ledger-connector-fabric";
 
+export { IFabricLedgerEventSubscriptionOptionsV1 } from "./ledger-events/subscribe-ledger-events-v1";
+
 import { IPluginFactoryOptions } from "@hyperledger/cactus-core-api";
 import { PluginFactoryLedgerConnector } from "./plugin-factory-ledger-connector";
 
@@ -0,0 +1,185 @@
+import "jest-extended";
+import { v4 as uuidv4 } from "uuid";
+import { DiscoveryOptions } from "fabric-network";
+
+import {
+  DEFAULT_FABRIC_2_AIO_IMAGE_NAME,
+  FABRIC_25_LTS_AIO_FABRIC_VERSION,
+  FABRIC_25_LTS_AIO_IMAGE_VERSION,
+  FabricTestLedgerV1,
+  pruneDockerAllIfGithubAction,
+} from "@hyperledger/cactus-test-tooling";
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+import {
+  isIPluginLedgerEventSource,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { PluginKeychainMemory } from "@hyperledger/cactus-plugin-keychain-memory";
+
+import {
+  DefaultEventHandlerStrategy,
+  FabricContractInvocationType,
+  FabricSigningCredential,
+  GatewayOptions,
+  PluginLedgerConnectorFabric,
+} from "../../../../main/typescript/public-api";
+
+/**
+ * Tests for the ledger agnostic event source (IPluginLedgerEventSource).
+ * Assumes sample CC was already deployed on the test ledger.
+ */
+
+//////////////////////////////////
+// Constants
+//////////////////////////////////
+
+const testLogLevel: LogLevelDesc = "info";
+const ledgerChannelName = "mychannel";
+const ledgerContractName = "basic";
+
+describe("Fabric ledger event source tests", () => {
+  let ledger: FabricTestLedgerV1;
+  let connector: PluginLedgerConnectorFabric;
+  let signingCredential: FabricSigningCredential;
+  let gatewayOptions: GatewayOptions;
+
+  beforeAll(async () => {
+    const pruning = pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+    await expect(pruning).resolves.toBeTruthy();
+
+    ledger = new FabricTestLedgerV1({
+      emitContainerLogs: false,
+      publishAllPorts: true,
+      logLevel: testLogLevel,
+      imageName: DEFAULT_FABRIC_2_AIO_IMAGE_NAME,
+      imageVersion: FABRIC_25_LTS_AIO_IMAGE_VERSION,
+      envVars: new Map([["FABRIC_VERSION", FABRIC_25_LTS_AIO_FABRIC_VERSION]]),
+    });
+    await ledger.start({ omitPull: false });
+
+    const connectionProfile = await ledger.getConnectionProfileOrg1();
+    const [, adminWallet] = await ledger.enrollAdmin();
+    const [userIdentity] = await ledger.enrollUser(adminWallet);
+
+    const keychainId = uuidv4();
+    const keychainEntryKey = "user2";
+    const keychainPlugin = new PluginKeychainMemory({
+      instanceId: uuidv4(),
+      keychainId,
+      logLevel: testLogLevel,
+      backend: new Map([[keychainEntryKey, JSON.stringify(userIdentity)]]),
+    });
+    signingCredential = { keychainId, keychainRef: keychainEntryKey };
+    gatewayOptions = {
+      identity: keychainEntryKey,
+      wallet: { keychain: signingCredential },
+    };
+
+    const discoveryOptions: DiscoveryOptions = {
+      enabled: true,
+      asLocalhost: true,
+    };
+    connector = new PluginLedgerConnectorFabric({
+      instanceId: uuidv4(),
+      pluginRegistry: new PluginRegistry({ plugins: [keychainPlugin] }),
+      logLevel: testLogLevel,
+      connectionProfile,
+      discoveryOptions,
+      eventHandlerOptions: {
+        strategy: DefaultEventHandlerStrategy.NetworkScopeAnyfortx,
+        commitTimeout: 300,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    if (connector) {
+      await connector.shutdown();
+    }
+    if (ledger) {
+      await ledger.stop();
+      await ledger.destroy();
+    }
+    const pruning = pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+    await expect(pruning).resolves.toBeTruthy();
+  });
+
+  test("reports filtered transactions and resumes from a cursor", async () => {
+    expect(isIPluginLedgerEventSource(connector)).toBeTrue();
+
+    // no start block, so only the blocks committed from now on are reported
+    const subscription = await connector.subscribeLedgerEvents({
+      channelName: ledgerChannelName,
+      gatewayOptions,
+      filter: {
+        eventTypes: [LedgerEventTypeV1.Transaction],
+        contractAddresses: [ledgerContractName],
+      },
+      bufferSize: 1,
+    });
+
+    const transactionIds: string[] = [];
+    for (const color of ["green", "blue"]) {
+      const { transactionId } = await connector.transact({
+        signingCredential,
+        channelName: ledgerChannelName,
+        contractName: ledgerContractName,
+        invocationType: FabricContractInvocationType.Send,
+        methodName: "CreateAsset",
+        params: [uuidv4(), color, "5", "someOwner", "10"],
+      });
+      transactionIds.push(transactionId);
+    }
+
+    const received: LedgerEventV1[] = [];
+    for await (const event of subscription) {
+      received.push(event);
+      if (received.length === 2) {
+        break;
+      }
+    }
+    expect(subscription.isClosed()).toBeTrue();
+
+    const [first, second] = received;
+    expect(received.map((e) => e.transactionId)).toEqual(transactionIds);
+    expect(first).toMatchObject({
+      eventType: LedgerEventTypeV1.Transaction,
+      sourceId: connector.getInstanceId(),
+      contractAddress: ledgerContractName,
+      payload: { isValid: true },
+    });
+    expect(first.blockHash).toBeString();
+    expect(first.timestamp).toBeString();
+
+    const resumed = await connector.subscribeLedgerEvents({
+      channelName: ledgerChannelName,
+      gatewayOptions,
+      afterCursor: first.cursor,
+      filter: { eventTypes: [LedgerEventTypeV1.Transaction] },
+    });
+    const { value: next } = await resumed.next();
+    await resumed.unsubscribe();
+    expect(next).toEqual(second);
+  });
+
+  test("reports blocks in order", async () => {
+    const subscription = await connector.subscribeLedgerEvents({
+      channelName: ledgerChannelName,
+      gatewayOptions,
+      fromBlock: 0,
+      filter: { eventTypes: [LedgerEventTypeV1.Block] },
+    });
+    const blockNumbers: number[] = [];
+    for await (const event of subscription) {
+      expect(event.blockHash).toBeString();
+      blockNumbers.push(event.cursor.blockNumber);
+      if (blockNumbers.length === 3) {
+        break;
+      }
+    }
+    expect(blockNumbers).toEqual([0, 1, 2]);
+    expect(subscription.getCursor()).toEqual({ blockNumber: 2 });
+  });
+});
@@ -226,6 +226,56 @@ describe(testCase, () => {
       expect(asset277.Owner).toEqual(assetOwner);
     }
 
+    {
+      // dry runs are endorsed but never committed nor counted as transactions
+      const dryRunAssetId = `asset-dry-run-${uuidv4()}`;
+      const res = await apiClient.runTransactionV1({
+        signingCredential,
+        channelName,
+        invocationType: FabricContractInvocationType.Send,
+        contractName,
+        methodName: "CreateAsset",
+        params: [dryRunAssetId, "red", "5", assetOwner, "99"],
+        dryRun: true,
+      });
+      expect(res.status).toEqual(200);
+      expect(res.data.transactionId).toBeTruthy();
+      expect(res.data.dryRunResult).toMatchObject({ success: true });
+      expect(res.data.dryRunResult?.endorsements).not.toBeEmpty();
+      expect(res.data.dryRunResult?.endorsements).toSatisfyAll(
+        (e) => e.endorsed && e.status === 200,
+      );
+
+      // the chaincode refuses to create an asset that already exists
+      const failedRes = await apiClient.runTransactionV1({
+        signingCredential,
+        channelName,
+        invocationType: FabricContractInvocationType.Send,
+        contractName,
+        methodName: "CreateAsset",
+        params: [assetId, "red", "5", assetOwner, "99"],
+        dryRun: true,
+      });
+      expect(failedRes.status).toEqual(200);
+      expect(failedRes.data.dryRunResult).toMatchObject({
+        success: false,
+        errorMessage: expect.stringContaining(assetId),
+      });
+
+      const allAssetsRes = await apiClient.runTransactionV1({
+        signingCredential,
+        channelName,
+        contractName,
+        invocationType: FabricContractInvocationType.Call,
+        methodName: "GetAllAssets",
+        params: [],
+      } as RunTransactionRequest);
+      const assets = JSON.parse(allAssetsRes.data.functionOutput);
+      expect(assets).not.toContainEqual(
+        expect.objectContaining({ ID: dryRunAssetId }),
+      );
+    }
+
     {
       const res = await apiClient.getPrometheusMetricsV1();
       const promMetricsOutput =
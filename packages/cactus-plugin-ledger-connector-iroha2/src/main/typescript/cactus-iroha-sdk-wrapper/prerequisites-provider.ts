@@ -6,6 +6,7 @@ import {
   IsomorphicWebSocketAdapter,
   ToriiRequirementsForApiWebSocket,
   ToriiRequirementsForApiHttp,
+  ToriiRequirementsForTelemetry,
 } from "@iroha2/client";
 
 // This module can't be imported unless we use `nodenext` moduleResolution
@@ -67,4 +68,21 @@ export class IrohaV2PrerequisitesProvider {
       fetch: this.fetchAdapter,
     };
   }
+
+  /**
+   * Get requirements for executing telemetry API calls (e.g. status).
+   * @returns `ToriiRequirementsForTelemetry`
+   */
+  getTelemetryProperties(): ToriiRequirementsForTelemetry {
+    if (!this.telemetryURL || !this.fetchAdapter) {
+      throw new Error(
+        "Missing required arguments: telemetryURL and iroha fetch adapter",
+      );
+    }
+
+    return {
+      telemetryURL: this.telemetryURL,
+      fetch: this.fetchAdapter,
+    };
+  }
 }
@@ -0,0 +1,191 @@
+/**
+ * Ledger agnostic event source (`IPluginLedgerEventSource`) of Iroha V2.
+ */
+
+import { Torii as ToriiClient, computeTransactionHash } from "@iroha2/client";
+import { VersionedCommittedBlock } from "@iroha2/data-model";
+import { bytesToHex } from "hada";
+
+import {
+  LoggerProvider,
+  LogLevelDesc,
+  safeStringifyException,
+} from "@hyperledger/cactus-common";
+import {
+  ILedgerEventSubscriptionV1,
+  LedgerEventSubscriptionOptionsV1,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import { LedgerEventSubscriptionV1 } from "@hyperledger/cactus-core";
+
+import {
+  Iroha2BaseConfig,
+  Iroha2BaseConfigTorii,
+} from "../generated/openapi/typescript-axios";
+import { IrohaV2PrerequisitesProvider } from "../cactus-iroha-sdk-wrapper/prerequisites-provider";
+import { stringifyBigIntReplacer } from "../utils";
+
+/**
+ * How many received blocks may wait to be handed to the subscriber before the
+ * block stream is closed (it is reopened from the next block once they are).
+ */
+const MAX_PENDING_BLOCKS = 10;
+
+/**
+ * The options of `PluginLedgerConnectorIroha2#subscribeLedgerEvents()`.
+ */
+export interface IIroha2LedgerEventSubscriptionOptionsV1
+  extends LedgerEventSubscriptionOptionsV1 {
+  /**
+   * Merged with the default config of the connector, only `torii` is used.
+   */
+  baseConfig?: Iroha2BaseConfig;
+}
+
+/**
+ * Reports the blocks and committed transactions of the ledger as
+ * `LedgerEventV1`s using the block stream of Torii. Block heights start at 1.
+ *
+ * The stream is pushed by the peer, so when the subscriber falls behind the
+ * stream is closed and reopened from the next unreported block later.
+ *
+ * Without `fromBlock` or `afterCursor` the current height is read from the
+ * telemetry endpoint, so `torii.telemetryURL` has to be configured then.
+ * Iroha V2 has no contracts: `contractAddress` is never set and no
+ * `CONTRACT_EVENT`s are reported.
+ */
+export async function subscribeLedgerEventsV1(
+  ctx: {
+    readonly torii: Iroha2BaseConfigTorii;
+    readonly sourceId: string;
+    readonly logLevel?: LogLevelDesc;
+  },
+  options: LedgerEventSubscriptionOptionsV1,
+): Promise<ILedgerEventSubscriptionV1> {
+  const log = LoggerProvider.getOrCreate({
+    label: "subscribeLedgerEventsV1()",
+    level: ctx.logLevel || "INFO",
+  });
+  const { apiURL, telemetryURL } = ctx.torii;
+  const prerequisitesProvider = new IrohaV2PrerequisitesProvider(
+    apiURL,
+    telemetryURL,
+  );
+
+  let blockMonitor:
+    | Awaited<ReturnType<typeof ToriiClient.listenForBlocksStream>>
+    | undefined;
+  const stopMonitor = async () => {
+    const monitor = blockMonitor;
+    blockMonitor = undefined;
+    if (monitor) {
+      monitor.ee.clearListeners();
+      await monitor.stop();
+    }
+  };
+  const subscription = new LedgerEventSubscriptionV1({
+    logLevel: ctx.logLevel,
+    subscriptionOptions: options,
+    onUnsubscribe: stopMonitor,
+  });
+
+  let nextBlockNumber: number;
+  if (options.afterCursor || options.fromBlock !== undefined) {
+    nextBlockNumber = subscription.getStartBlock(1);
+  } else {
+    if (!telemetryURL) {
+      throw new Error(
+        "fromBlock or afterCursor is required when torii.telemetryURL is not configured",
+      );
+    }
+    const status = await ToriiClient.getStatus(
+      prerequisitesProvider.getTelemetryProperties(),
+    );
+    nextBlockNumber = subscription.getStartBlock(Number(status.blocks) + 1);
+  }
+  log.debug("Reporting ledger events from block %d", nextBlockNumber);
+
+  // blocks are handed to the subscriber one after the other
+  let pending = Promise.resolve();
+  let pendingBlocks = 0;
+  const fail = (ex: unknown) => {
+    log.warn("Reading block %d failed: %s", nextBlockNumber, ex);
+    subscription.close(new Error(safeStringifyException(ex)));
+    stopMonitor().catch((err) => log.warn("Closing block stream:", err));
+  };
+
+  const onBlock = (block: VersionedCommittedBlock) => {
+    const events = toLedgerEvents(ctx.sourceId, block);
+    const { blockNumber } = events[0].cursor;
+    if (blockNumber < nextBlockNumber) {
+      return;
+    }
+    nextBlockNumber = blockNumber + 1;
+    pendingBlocks++;
+    if (pendingBlocks >= MAX_PENDING_BLOCKS) {
+      log.debug("Subscriber is behind, pausing at block %d", blockNumber);
+      stopMonitor().catch(fail);
+    }
+    pending = pending
+      .then(async () => {
+        for (const event of events) {
+          if (!(await subscription.push(event))) {
+            return;
+          }
+        }
+        pendingBlocks--;
+        if (!blockMonitor && pendingBlocks === 0 && !subscription.isClosed()) {
+          log.debug("Resuming at block %d", nextBlockNumber);
+          await startMonitor();
+        }
+      })
+      .catch(fail);
+  };
+
+  const startMonitor = async () => {
+    const monitor = await ToriiClient.listenForBlocksStream(
+      prerequisitesProvider.getApiWebSocketProperties(),
+      { height: BigInt(nextBlockNumber) },
+    );
+    monitor.ee.on("block", onBlock);
+    monitor.ee.on("error", fail);
+    blockMonitor = monitor;
+  };
+  await startMonitor();
+
+  return subscription;
+}
+
+function toLedgerEvents(
+  sourceId: string,
+  versionedBlock: VersionedCommittedBlock,
+): LedgerEventV1[] {
+  const block = versionedBlock.as("V1");
+  const blockNumber = Number(block.header.height);
+  const timestamp = new Date(Number(block.header.timestamp)).toISOString();
+  const toJson = (value: unknown) =>
+    JSON.parse(JSON.stringify(value, stringifyBigIntReplacer));
+
+  const events: LedgerEventV1[] = [
+    {
+      eventType: LedgerEventTypeV1.Block,
+      sourceId,
+      cursor: { blockNumber },
+      timestamp,
+      payload: toJson(block.header),
+    },
+  ];
+  block.transactions.forEach((tx, transactionIndex) => {
+    const { payload } = tx.as("V1");
+    events.push({
+      eventType: LedgerEventTypeV1.Transaction,
+      sourceId,
+      cursor: { blockNumber, transactionIndex },
+      timestamp,
+      transactionId: bytesToHex([...computeTransactionHash(payload)]),
+      payload: toJson(payload),
+    });
+  });
+  return events;
+}
@@ -17,6 +17,8 @@ import {
   IPluginWebService,
   ICactusPlugin,
   ICactusPluginOptions,
+  ILedgerEventSubscriptionV1,
+  IPluginLedgerEventSource,
 } from "@hyperledger/cactus-core-api";
 
 import {
@@ -64,6 +66,10 @@ import {
 import { CactusIrohaV2QueryClient } from "./cactus-iroha-sdk-wrapper/query";
 import { LengthOf } from "./utils";
 import { createAccountId } from "./cactus-iroha-sdk-wrapper/data-factories";
+import {
+  IIroha2LedgerEventSubscriptionOptionsV1,
+  subscribeLedgerEventsV1,
+} from "./ledger-events/subscribe-ledger-events-v1";
 
 /**
  * Input options for PluginLedgerConnectorIroha2.
@@ -82,13 +88,15 @@ export class PluginLedgerConnectorIroha2
   implements
     IPluginLedgerConnector<never, never, TransactRequestV1, TransactResponseV1>,
     ICactusPlugin,
-    IPluginWebService
+    IPluginWebService,
+    IPluginLedgerEventSource<IIroha2LedgerEventSubscriptionOptionsV1>
 {
   private readonly instanceId: string;
   private readonly log: Logger;
   private readonly defaultConfig: Iroha2BaseConfig | undefined;
   private endpoints: IWebServiceEndpoint[] | undefined;
   private runningWatchBlocksMonitors = new Set<Iroha2WatchBlocksEndpointV1>();
+  private ledgerEventSubscriptions = new Set<ILedgerEventSubscriptionV1>();
 
   public readonly className: string;
 
@@ -162,6 +170,42 @@ export class PluginLedgerConnectorIroha2
     this.log.info(`Shutting down ${this.className}...`);
     this.runningWatchBlocksMonitors.forEach((m) => m.close());
     this.runningWatchBlocksMonitors.clear();
+    for (const subscription of this.ledgerEventSubscriptions) {
+      await subscription.unsubscribe();
+    }
+    this.ledgerEventSubscriptions.clear();
+  }
+
+  /**
+   * Report the blocks and transactions of the ledger as `LedgerEventV1`s.
+   *
+   * @param options Subscription options, `baseConfig` is merged with the default config.
+   * @returns Subscription to iterate the events with.
+   */
+  public async subscribeLedgerEvents(
+    options: IIroha2LedgerEventSubscriptionOptionsV1,
+  ): Promise<ILedgerEventSubscriptionV1> {
+    const { baseConfig, ...subscriptionOptions } = options;
+    const { torii } = { ...this.defaultConfig, ...baseConfig };
+    if (!torii) {
+      throw new Error("torii is missing in combined configuration");
+    }
+
+    const subscription = await subscribeLedgerEventsV1(
+      {
+        torii,
+        sourceId: this.instanceId,
+        logLevel: this.options.logLevel,
+      },
+      subscriptionOptions,
+    );
+    this.ledgerEventSubscriptions.forEach((s) => {
+      if (s.isClosed()) {
+        this.ledgerEventSubscriptions.delete(s);
+      }
+    });
+    this.ledgerEventSubscriptions.add(subscription);
+    return subscription;
   }
 
   /**
@@ -3,6 +3,8 @@ export {
   PluginLedgerConnectorIroha2,
 } from "./plugin-ledger-connector-iroha2";
 
+export { IIroha2LedgerEventSubscriptionOptionsV1 } from "./ledger-events/subscribe-ledger-events-v1";
+
 export { PluginFactoryLedgerConnector } from "./plugin-factory-ledger-connector";
 
 import { IPluginFactoryOptions } from "@hyperledger/cactus-core-api";
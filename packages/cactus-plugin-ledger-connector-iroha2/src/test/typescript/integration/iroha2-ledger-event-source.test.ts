@@ -0,0 +1,130 @@
+/**
+ * Tests for the ledger agnostic event source (IPluginLedgerEventSource) of Iroha V2 connector.
+ */
+
+//////////////////////////////////
+// Constants
+//////////////////////////////////
+
+// Log settings
+const testLogLevel: LogLevelDesc = "info";
+
+import {
+  LogLevelDesc,
+  LoggerProvider,
+  Logger,
+} from "@hyperledger/cactus-common";
+import {
+  isIPluginLedgerEventSource,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+
+import {
+  IrohaInstruction,
+  TransactionStatusV1,
+} from "../../../main/typescript/public-api";
+import { IrohaV2TestEnv } from "../test-helpers/iroha2-env-setup";
+import { addRandomSuffix } from "../test-helpers/utils";
+
+import "jest-extended";
+
+// Logger setup
+const log: Logger = LoggerProvider.getOrCreate({
+  label: "iroha2-ledger-event-source.test",
+  level: testLogLevel,
+});
+
+describe("Ledger event source tests", () => {
+  let env: IrohaV2TestEnv;
+
+  beforeAll(async () => {
+    env = new IrohaV2TestEnv(log);
+    await env.start();
+  });
+
+  afterAll(async () => {
+    if (env) {
+      await env.stop();
+    }
+  });
+
+  /**
+   * Registers a new domain and waits for the transaction to be committed.
+   *
+   * @returns transaction hash.
+   */
+  async function registerDomain(): Promise<string> {
+    const transactionResponse = await env.apiClient.transactV1({
+      transaction: {
+        instruction: {
+          name: IrohaInstruction.RegisterDomain,
+          params: [addRandomSuffix("eventSource")],
+        },
+      },
+      baseConfig: env.defaultBaseConfig,
+      waitForCommit: true,
+    });
+    expect(transactionResponse.status).toEqual(200);
+    expect(transactionResponse.data.status).toEqual(
+      TransactionStatusV1.Committed,
+    );
+    return transactionResponse.data.hash;
+  }
+
+  test("reports committed transactions and resumes from a cursor", async () => {
+    expect(isIPluginLedgerEventSource(env.connector)).toBeTrue();
+
+    const subscription = await env.connector.subscribeLedgerEvents({
+      baseConfig: env.defaultBaseConfig,
+      filter: { eventTypes: [LedgerEventTypeV1.Transaction] },
+      bufferSize: 1,
+    });
+    const firstHash = await registerDomain();
+    const secondHash = await registerDomain();
+
+    const received: LedgerEventV1[] = [];
+    for await (const event of subscription) {
+      received.push(event);
+      if (received.length === 2) {
+        break;
+      }
+    }
+    expect(subscription.isClosed()).toBeTrue();
+
+    const [first, second] = received;
+    expect(first).toMatchObject({
+      eventType: LedgerEventTypeV1.Transaction,
+      sourceId: env.connector.getInstanceId(),
+      transactionId: firstHash,
+    });
+    expect(first.timestamp).toBeString();
+    expect(second.transactionId).toEqual(secondHash);
+
+    const resumed = await env.connector.subscribeLedgerEvents({
+      baseConfig: env.defaultBaseConfig,
+      afterCursor: first.cursor,
+      filter: { eventTypes: [LedgerEventTypeV1.Transaction] },
+    });
+    const { value: next } = await resumed.next();
+    await resumed.unsubscribe();
+    expect(next).toEqual(second);
+  });
+
+  test("reports blocks in order", async () => {
+    const subscription = await env.connector.subscribeLedgerEvents({
+      baseConfig: env.defaultBaseConfig,
+      fromBlock: 1,
+      filter: { eventTypes: [LedgerEventTypeV1.Block] },
+    });
+    const blockNumbers: number[] = [];
+    for await (const event of subscription) {
+      blockNumbers.push(event.cursor.blockNumber);
+      if (blockNumbers.length === 3) {
+        break;
+      }
+    }
+    expect(blockNumbers).toEqual([1, 2, 3]);
+    expect(subscription.getCursor()).toEqual({ blockNumber: 3 });
+  });
+});
@@ -146,6 +146,10 @@ export class IrohaV2TestEnv {
     return this.checkedGet(this._apiClient);
   }
 
+  get connector(): PluginLedgerConnectorIroha2 {
+    return this.checkedGet(this.iroha2ConnectorPlugin);
+  }
+
   /**
    * Start entire test Iroha V2 environment.
    * Runs the ledger, cactus connector, apiClient, handles all intermediate steps.
@@ -256,6 +260,11 @@ export class IrohaV2TestEnv {
   async stop(): Promise<void> {
     this.log.info("FINISHING THE TESTS");
 
+    if (this.iroha2ConnectorPlugin) {
+      this.log.info("Shutdown the iroha2 connector plugin...");
+      await this.iroha2ConnectorPlugin.shutdown();
+    }
+
     if (this.ledger) {
       this.log.info("Stop the iroha2 ledger...");
       await this.ledger.stop();
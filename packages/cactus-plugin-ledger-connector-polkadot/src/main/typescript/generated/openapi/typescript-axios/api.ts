@@ -140,6 +140,56 @@ export interface DeployContractInkResponse {
      */
     'contractAddress'?: string;
 }
+/**
+ * The outcome of an extrinsic that was simulated against the best block without being submitted to the ledger.
+ * @export
+ * @interface DryRunResultV1
+ */
+export interface DryRunResultV1 {
+    /**
+     * Whether the extrinsic would succeed if it was submitted in the current state of the ledger.
+     * @type {boolean}
+     * @memberof DryRunResultV1
+     */
+    'success': boolean;
+    /**
+     * Why the simulated extrinsic failed, e.g. the dispatch error of the pallet.
+     * @type {string}
+     * @memberof DryRunResultV1
+     */
+    'errorMessage'?: string;
+    /**
+     * The estimated partial fee (excluding the tip) in the smallest unit of the native token.
+     * @type {string}
+     * @memberof DryRunResultV1
+     */
+    'estimatedFee'?: string;
+    /**
+     * 
+     * @type {DryRunWeightV1}
+     * @memberof DryRunResultV1
+     */
+    'estimatedWeight'?: DryRunWeightV1;
+}
+/**
+ * 
+ * @export
+ * @interface DryRunWeightV1
+ */
+export interface DryRunWeightV1 {
+    /**
+     * 
+     * @type {number}
+     * @memberof DryRunWeightV1
+     */
+    'refTime': number;
+    /**
+     * 
+     * @type {number}
+     * @memberof DryRunWeightV1
+     */
+    'proofSize': number;
+}
 /**
  * Error response from the connector.
  * @export
@@ -225,6 +275,12 @@ export interface InvokeContractRequest {
      * @memberof InvokeContractRequest
      */
     'params'?: Array<any>;
+    /**
+     * When true the extrinsic is only simulated: it is never submitted to the ledger and the response carries a dryRunResult instead of the hashes of the transaction.
+     * @type {boolean}
+     * @memberof InvokeContractRequest
+     */
+    'dryRun'?: boolean;
 }
 
 
@@ -258,6 +314,12 @@ export interface InvokeContractResponse {
      * @memberof InvokeContractResponse
      */
     'blockHash'?: string;
+    /**
+     * 
+     * @type {DryRunResultV1}
+     * @memberof InvokeContractResponse
+     */
+    'dryRunResult'?: DryRunResultV1;
 }
 /**
  * 
@@ -406,6 +468,12 @@ export interface RunTransactionRequest {
      * @memberof RunTransactionRequest
      */
     'transactionConfig': PolkadotTransactionConfig;
+    /**
+     * When true the extrinsic is only simulated: it is never submitted to the ledger and the response carries a dryRunResult instead of the hashes of the transaction.
+     * @type {boolean}
+     * @memberof RunTransactionRequest
+     */
+    'dryRun'?: boolean;
 }
 /**
  * 
@@ -431,6 +499,12 @@ export interface RunTransactionResponse {
      * @memberof RunTransactionResponse
      */
     'blockHash'?: string;
+    /**
+     * 
+     * @type {DryRunResultV1}
+     * @memberof RunTransactionResponse
+     */
+    'dryRunResult'?: DryRunResultV1;
 }
 /**
  * 
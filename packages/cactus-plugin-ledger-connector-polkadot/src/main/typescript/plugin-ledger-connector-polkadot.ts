@@ -15,6 +15,10 @@ import {
 
 import "multer";
 import { Optional } from "typescript-optional";
+import type {
+  ApplyExtrinsicResult,
+  DispatchError,
+} from "@polkadot/types/interfaces";
 
 import OAS from "../json/openapi.json";
 
@@ -43,6 +47,7 @@ import { promisify } from "util";
 import {
   DeployContractInkRequest,
   DeployContractInkResponse,
+  DryRunResultV1,
   InvokeContractRequest,
   InvokeContractResponse,
   PolkadotContractInvocationType,
@@ -431,6 +436,7 @@ export class PluginLedgerConnectorPolkadot
         mnemonic,
       },
       transactionConfig,
+      dryRun: req.dryRun,
     });
   }
   public async transactMnemonicString(
@@ -457,6 +463,13 @@ export class PluginLedgerConnectorPolkadot
     const accountPair = keyring.createFromUri(mnemonic);
     const accountAddress = transactionConfig.to;
     const transferValue = transactionConfig.value;
+    if (req.dryRun) {
+      const signedTx = await this.api.tx.balances
+        .transferAllowDeath(accountAddress, transferValue)
+        .signAsync(accountPair);
+      const dryRunResult = await this.dryRunExtrinsic(signedTx.toHex());
+      return { success: dryRunResult.success, dryRunResult };
+    }
     const txResult = await new Promise<{
       success: boolean;
       transactionHash: string;
@@ -548,6 +561,11 @@ export class PluginLedgerConnectorPolkadot
       throw new BadRequestError(`${fnTag} Transaction signature is not valid.`);
     }
 
+    if (req.dryRun) {
+      const dryRunResult = await this.dryRunExtrinsic(signedTx);
+      return { success: dryRunResult.success, dryRunResult };
+    }
+
     const txResult = await new Promise<{
       success: boolean;
       transactionHash: string;
@@ -831,6 +849,41 @@ export class PluginLedgerConnectorPolkadot
         },
         ...params,
       );
+      if (req.dryRun) {
+        // the query runs the message against the best block with the same
+        // origin and limits as the extrinsic, without signing anything
+        const { gasRequired, output, result } = await contract.query[
+          methodName
+        ](
+          accountPair.address,
+          {
+            gasLimit: gasLimit as string, // FIXME
+            storageDepositLimit: req.storageDepositLimit,
+            value: req.balance,
+          },
+          ...params,
+        );
+        const dryRunResult: DryRunResultV1 = {
+          success: result.isOk && !result.asOk.flags.isRevert,
+          estimatedWeight: {
+            refTime: gasRequired.refTime.toNumber(),
+            proofSize: gasRequired.proofSize.toNumber(),
+          },
+        };
+        if (result.isErr) {
+          dryRunResult.errorMessage = this.describeDispatchError(result.asErr);
+        } else if (result.asOk.flags.isRevert) {
+          dryRunResult.errorMessage = `Contract reverted: ${output?.toString()}`;
+        } else {
+          const { partialFee } = await tx.paymentInfo(accountPair);
+          dryRunResult.estimatedFee = partialFee.toString();
+        }
+        return {
+          success: dryRunResult.success,
+          callOutput: output?.toHuman(),
+          dryRunResult,
+        };
+      }
       const txResult = await new Promise<{
         success: boolean;
         transactionHash: string;
@@ -880,6 +933,64 @@ export class PluginLedgerConnectorPolkadot
     }
   }
 
+  /**
+   * Applies a signed extrinsic to the best block without importing it via
+   * the `BlockBuilder` runtime API and estimates its fee with the
+   * `TransactionPaymentApi` runtime API.
+   * This is what the `system_dryRun` RPC does as well, but runtime calls are
+   * safe RPC methods so it also works against nodes that do not expose the
+   * unsafe ones.
+   *
+   * @param extrinsic The hex encoded signed extrinsic.
+   */
+  private async dryRunExtrinsic(extrinsic: string): Promise<DryRunResultV1> {
+    const fnTag = `${this.className}#dryRunExtrinsic()`;
+    const { ApiPromise } = await import("@polkadot/api");
+    if (!(this.api instanceof ApiPromise)) {
+      throw new ServiceUnavailableError(`Connection to Substrate Node down.`);
+    }
+    try {
+      const applyResult =
+        await this.api.call.blockBuilder.applyExtrinsic<ApplyExtrinsicResult>(
+          extrinsic,
+        );
+      if (applyResult.isErr) {
+        const errorMessage = `Invalid transaction: ${applyResult.asErr.toString()}`;
+        return { success: false, errorMessage };
+      }
+      if (applyResult.asOk.isErr) {
+        const errorMessage = this.describeDispatchError(applyResult.asOk.asErr);
+        return { success: false, errorMessage };
+      }
+      // the fee only depends on the call and the length of the extrinsic so
+      // it is estimated the same way as for an unsigned one
+      const tx = this.api.tx(extrinsic);
+      const { partialFee, weight } = await tx.paymentInfo(tx.signer.toString());
+      return {
+        success: true,
+        estimatedFee: partialFee.toString(),
+        estimatedWeight: {
+          refTime: weight.refTime.toNumber(),
+          proofSize: weight.proofSize.toNumber(),
+        },
+      };
+    } catch (ex: unknown) {
+      const rex = newRex(`${fnTag} Could not dry run the extrinsic:`, ex);
+      throw new InternalServerError(rex.toJSON());
+    }
+  }
+
+  private describeDispatchError(dispatchError: DispatchError): string {
+    if (!dispatchError.isModule) {
+      return dispatchError.toString();
+    }
+    const decoded = dispatchError.registry.findMetaError(
+      dispatchError.asModule,
+    );
+    const { docs, name, section } = decoded;
+    return `${section}.${name}: ${docs.join(" ")}`;
+  }
+
   public getPrometheusExporter(): PrometheusExporter {
     return this.prometheusExporter;
   }
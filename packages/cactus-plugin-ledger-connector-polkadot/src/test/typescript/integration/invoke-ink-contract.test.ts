@@ -168,6 +168,63 @@ describe(testCase, () => {
     expect(result.data.success).toBeTrue;
     expect(result.data.callOutput).toBeTruthy();
   });
+  test("flip() dry run does not change the contract state", async () => {
+    const query = () =>
+      apiClient.invokeContract({
+        invocationType: PolkadotContractInvocationType.Query,
+        contractAddress,
+        gasLimit,
+        metadata: JSON.stringify(metadata),
+        methodName: "get",
+        accountAddress: "5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY", //Alice account address
+        web3SigningCredential: {
+          type: Web3SigningCredentialType.None,
+        },
+      });
+    const before = await query();
+
+    const result = await apiClient.invokeContract({
+      invocationType: PolkadotContractInvocationType.Send,
+      contractAddress,
+      gasLimit,
+      metadata: JSON.stringify(metadata),
+      methodName: "flip",
+      accountAddress: "5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY", //Alice account address
+      web3SigningCredential: {
+        type: Web3SigningCredentialType.CactusKeychainRef,
+        keychainEntryKey: keychainEntryKey,
+        keychainId: keychainPlugin.getKeychainId(),
+      },
+      dryRun: true,
+    });
+    expect(result.data.success).toBeTrue();
+    expect(result.data.txHash).toBeUndefined();
+    expect(result.data.blockHash).toBeUndefined();
+    expect(result.data.dryRunResult?.success).toBeTrue();
+    expect(result.data.dryRunResult?.estimatedFee).toMatch(/^[1-9][0-9]*$/);
+    expect(result.data.dryRunResult?.estimatedWeight?.refTime).toBePositive();
+
+    const outOfGas = await apiClient.invokeContract({
+      invocationType: PolkadotContractInvocationType.Send,
+      contractAddress,
+      gasLimit: { refTime: 1, proofSize: 1 },
+      metadata: JSON.stringify(metadata),
+      methodName: "flip",
+      accountAddress: "5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY", //Alice account address
+      web3SigningCredential: {
+        type: Web3SigningCredentialType.CactusKeychainRef,
+        keychainEntryKey: keychainEntryKey,
+        keychainId: keychainPlugin.getKeychainId(),
+      },
+      dryRun: true,
+    });
+    expect(outOfGas.data.success).toBeFalse();
+    expect(outOfGas.data.dryRunResult?.success).toBeFalse();
+    expect(outOfGas.data.dryRunResult?.errorMessage).toContain("OutOfGas");
+
+    const after = await query();
+    expect(after.data.callOutput).toEqual(before.data.callOutput);
+  });
   test("flip() invocation", async () => {
     const result = await apiClient.invokeContract({
       invocationType: PolkadotContractInvocationType.Send,
@@ -239,6 +239,49 @@ describe("PluginLedgerConnectorPolkadot", () => {
     expect(transactionResponse.blockHash).toBeTruthy();
   });
 
+  test("transact with dryRun simulates the transfer", async () => {
+    const { Keyring } = await import("@polkadot/api");
+
+    const keyring = new Keyring({ type: "sr25519" });
+    const bobPair = keyring.createFromUri("//Bob");
+    const res = await apiClient.runTransaction({
+      web3SigningCredential: {
+        type: Web3SigningCredentialType.MnemonicString,
+        mnemonic: "//Alice",
+      },
+      transactionConfig: {
+        to: bobPair.address,
+        value: 30,
+      },
+      dryRun: true,
+    });
+    expect(res.status).toEqual(200);
+    expect(res.data.success).toBeTrue();
+    expect(res.data.txHash).toBeUndefined();
+    expect(res.data.blockHash).toBeUndefined();
+    expect(res.data.dryRunResult).toBeTruthy();
+    expect(res.data.dryRunResult?.success).toBeTrue();
+    expect(res.data.dryRunResult?.estimatedFee).toMatch(/^[1-9][0-9]*$/);
+    expect(res.data.dryRunResult?.estimatedWeight?.refTime).toBePositive();
+
+    // an account without funds cannot even pay for the fees of the transfer
+    const failedRes = await apiClient.runTransaction({
+      web3SigningCredential: {
+        type: Web3SigningCredentialType.MnemonicString,
+        mnemonic: `//${uuidv4()}`,
+      },
+      transactionConfig: {
+        to: bobPair.address,
+        value: 30,
+      },
+      dryRun: true,
+    });
+    expect(failedRes.status).toEqual(200);
+    expect(failedRes.data.success).toBeFalse();
+    expect(failedRes.data.dryRunResult?.success).toBeFalse();
+    expect(failedRes.data.dryRunResult?.errorMessage).toBeTruthy();
+  });
+
   test("get prometheus exporter metrics", async () => {
     const res = await apiClient.getPrometheusMetrics();
     const promMetricsOutput =
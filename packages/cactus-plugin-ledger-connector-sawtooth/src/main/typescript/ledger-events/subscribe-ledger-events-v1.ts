@@ -0,0 +1,154 @@
+import {
+  LoggerProvider,
+  LogLevelDesc,
+  safeStringifyException,
+} from "@hyperledger/cactus-common";
+import {
+  ILedgerEventSubscriptionV1,
+  LedgerEventSubscriptionOptionsV1,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import { LedgerEventSubscriptionV1 } from "@hyperledger/cactus-core";
+
+import { Block, DefaultApi as SawtoothRestApi } from "../sawtooth-api";
+
+const DEFAULT_POLL_INTERVAL_MS = 1000 * 5; // 5 seconds
+const BLOCKS_PAGE_SIZE = 10;
+
+export interface ISubscribeLedgerEventsV1Context {
+  readonly sawtoothApiClient: SawtoothRestApi;
+  readonly sourceId: string;
+  readonly logLevel?: LogLevelDesc;
+  readonly pollIntervalMs?: number;
+}
+
+/**
+ * Convert block number (example: 1, 42, etc..) to Sawtooth block number (example: 0x000000000000002a)
+ */
+function toSawtoothBlockNumber(blockNumber: number): string {
+  return "0x" + blockNumber.toString(16).padStart(16, "0");
+}
+
+/**
+ * Reports the blocks and transactions of the ledger as `LedgerEventV1`s by
+ * polling the Sawtooth REST API for new blocks.
+ *
+ * The transaction family name is reported as the `contractAddress` of a
+ * transaction so that the `contractAddresses` criterion of the filter selects
+ * transaction families. The REST API does not expose the events emitted by
+ * the transaction processors, so no `CONTRACT_EVENT`s are reported and the
+ * blocks carry no timestamp.
+ */
+export async function subscribeLedgerEventsV1(
+  ctx: ISubscribeLedgerEventsV1Context,
+  options: LedgerEventSubscriptionOptionsV1,
+): Promise<ILedgerEventSubscriptionV1> {
+  const { sawtoothApiClient } = ctx;
+  const log = LoggerProvider.getOrCreate({
+    label: "subscribeLedgerEventsV1()",
+    level: ctx.logLevel || "INFO",
+  });
+  let timer: NodeJS.Timeout | undefined;
+  let wakeUp: (() => void) | undefined;
+  const subscription = new LedgerEventSubscriptionV1({
+    logLevel: ctx.logLevel,
+    subscriptionOptions: options,
+    onUnsubscribe: () => {
+      clearTimeout(timer);
+      wakeUp?.();
+    },
+  });
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      wakeUp = resolve;
+      timer = setTimeout(resolve, ms);
+    });
+  const getLatestBlockNumber = async () => {
+    const response = await sawtoothApiClient.blocksGet(undefined, undefined, 1);
+    const [latestBlock] = response.data.data ?? [];
+    if (!latestBlock) {
+      throw new Error("Sawtooth REST API returned no latest block");
+    }
+    return latestBlock.header.block_num;
+  };
+
+  const latestBlockNumber = await getLatestBlockNumber();
+  let blockNumber = subscription.getStartBlock(latestBlockNumber + 1);
+  log.debug("Reporting ledger events from block %d", blockNumber);
+
+  const pump = async () => {
+    let latest = latestBlockNumber;
+    while (!subscription.isClosed()) {
+      if (blockNumber > latest) {
+        await sleep(ctx.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+        latest = await getLatestBlockNumber();
+        continue;
+      }
+      // the reverse flag lists the blocks in ascending order from the start
+      const response = await sawtoothApiClient.blocksGet(
+        undefined,
+        toSawtoothBlockNumber(blockNumber),
+        BLOCKS_PAGE_SIZE,
+        "",
+      );
+      const blocks = (response.data.data ?? []).filter(
+        (b) => b.header.block_num >= blockNumber,
+      );
+      if (blocks.length === 0) {
+        latest = blockNumber - 1;
+        continue;
+      }
+      for (const block of blocks) {
+        for (const event of toLedgerEvents(ctx.sourceId, block)) {
+          if (!(await subscription.push(event))) {
+            return;
+          }
+        }
+        blockNumber = block.header.block_num + 1;
+      }
+    }
+  };
+  pump().catch((ex: unknown) => {
+    if (subscription.isClosed()) {
+      return;
+    }
+    log.warn("Reading block %d failed: %s", blockNumber, ex);
+    subscription.close(new Error(safeStringifyException(ex)));
+  });
+
+  return subscription;
+}
+
+function toLedgerEvents(sourceId: string, block: Block): LedgerEventV1[] {
+  const { batches, ...blockSummary } = block;
+  const blockNumber = block.header.block_num;
+  const blockHash = block.header_signature;
+
+  const events: LedgerEventV1[] = [
+    {
+      eventType: LedgerEventTypeV1.Block,
+      sourceId,
+      cursor: { blockNumber },
+      blockHash,
+      payload: {
+        ...blockSummary,
+        batch_ids: batches.map((b) => b.header_signature),
+      },
+    },
+  ];
+  batches
+    .flatMap((batch) => batch.transactions)
+    .forEach((tx, transactionIndex) => {
+      events.push({
+        eventType: LedgerEventTypeV1.Transaction,
+        sourceId,
+        cursor: { blockNumber, transactionIndex },
+        blockHash,
+        transactionId: tx.header_signature,
+        contractAddress: tx.header.family_name,
+        payload: tx,
+      });
+    });
+  return events;
+}
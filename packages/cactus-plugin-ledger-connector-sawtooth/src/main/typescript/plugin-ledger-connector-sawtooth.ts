@@ -18,6 +18,9 @@ import {
   IPluginWebService,
   ICactusPlugin,
   ICactusPluginOptions,
+  ILedgerEventSubscriptionV1,
+  IPluginLedgerEventSource,
+  LedgerEventSubscriptionOptionsV1,
 } from "@hyperledger/cactus-core-api";
 
 import {
@@ -27,6 +30,7 @@ import {
 } from "./generated/openapi/typescript-axios";
 import { WatchBlocksV1Endpoint } from "./web-services/watch-blocks-v1-endpoint";
 import { StatusEndpointV1 } from "./web-services/status-endpoint-v1";
+import { subscribeLedgerEventsV1 } from "./ledger-events/subscribe-ledger-events-v1";
 import OAS from "../json/openapi.json";
 import { Configuration, DefaultApi as SawtoothRestApi } from "./sawtooth-api";
 
@@ -41,12 +45,14 @@ export class PluginLedgerConnectorSawtooth
   implements
     IPluginLedgerConnector<never, never, never, never>,
     ICactusPlugin,
-    IPluginWebService
+    IPluginWebService,
+    IPluginLedgerEventSource
 {
   private readonly instanceId: string;
   private readonly log: Logger;
   private endpoints: IWebServiceEndpoint[] | undefined;
   private runningWatchBlocksMonitors = new Set<WatchBlocksV1Endpoint>();
+  private ledgerEventSubscriptions = new Set<ILedgerEventSubscriptionV1>();
   private sawtoothApiClient: SawtoothRestApi;
 
   public get className(): string {
@@ -83,12 +89,37 @@ export class PluginLedgerConnectorSawtooth
     this.log.info(`Shutting down ${this.className}...`);
     this.runningWatchBlocksMonitors.forEach((m) => m.close());
     this.runningWatchBlocksMonitors.clear();
+    for (const subscription of this.ledgerEventSubscriptions) {
+      await subscription.unsubscribe();
+    }
+    this.ledgerEventSubscriptions.clear();
   }
 
   public async onPluginInit(): Promise<unknown> {
     return;
   }
 
+  public async subscribeLedgerEvents(
+    options: LedgerEventSubscriptionOptionsV1,
+  ): Promise<ILedgerEventSubscriptionV1> {
+    const subscription = await subscribeLedgerEventsV1(
+      {
+        sawtoothApiClient: this.sawtoothApiClient,
+        sourceId: this.instanceId,
+        logLevel: this.options.logLevel,
+        pollIntervalMs: this.options.watchBlocksPollTime,
+      },
+      options,
+    );
+    this.ledgerEventSubscriptions.forEach((s) => {
+      if (s.isClosed()) {
+        this.ledgerEventSubscriptions.delete(s);
+      }
+    });
+    this.ledgerEventSubscriptions.add(subscription);
+    return subscription;
+  }
+
   async registerWebServices(
     app: Express,
     wsApi: SocketIoServer,
@@ -0,0 +1,151 @@
+/**
+ * Tests for the ledger agnostic event source (IPluginLedgerEventSource) of the Sawtooth connector.
+ */
+
+import "jest-extended";
+import { v4 as uuidV4 } from "uuid";
+
+import {
+  LogLevelDesc,
+  LoggerProvider,
+  Logger,
+} from "@hyperledger/cactus-common";
+import {
+  isIPluginLedgerEventSource,
+  LedgerEventTypeV1,
+  LedgerEventV1,
+} from "@hyperledger/cactus-core-api";
+import {
+  SawtoothTestLedger,
+  pruneDockerAllIfGithubAction,
+} from "@hyperledger/cactus-test-tooling";
+
+import { PluginLedgerConnectorSawtooth } from "../../../main/typescript/public-api";
+
+//////////////////////////////////
+// Constants
+//////////////////////////////////
+
+const testLogLevel: LogLevelDesc = "info";
+const sutLogLevel: LogLevelDesc = "info";
+const testTimeout = 1000 * 60 * 5; // 5 minutes timeout for async tests
+const setupTimeout = 1000 * 60 * 5; // 5 minutes timeout for setup
+const watchBlocksPollTime = 1000 * 1; // 1 second
+
+// Ledger settings
+const containerImageName = "ghcr.io/hyperledger/cactus-sawtooth-all-in-one";
+const containerImageVersion = "2022-11-21-9da24a0";
+
+// Logger setup
+const log: Logger = LoggerProvider.getOrCreate({
+  label: "sawtooth-ledger-event-source.test",
+  level: testLogLevel,
+});
+
+describe("Sawtooth ledger event source tests", () => {
+  let ledger: SawtoothTestLedger;
+  let connector: PluginLedgerConnectorSawtooth;
+
+  beforeAll(async () => {
+    log.info("Prune Docker...");
+    await pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+
+    log.info(`Start Ledger ${containerImageName}:${containerImageVersion}...`);
+    ledger = new SawtoothTestLedger({
+      containerImageName,
+      containerImageVersion,
+      emitContainerLogs: false,
+      logLevel: sutLogLevel,
+    });
+    await ledger.start();
+
+    connector = new PluginLedgerConnectorSawtooth({
+      instanceId: uuidV4(),
+      logLevel: testLogLevel,
+      sawtoothRestApiEndpoint: await ledger.getRestApiHost(),
+      watchBlocksPollTime,
+    });
+  }, setupTimeout);
+
+  afterAll(async () => {
+    if (connector) {
+      await connector.shutdown();
+    }
+
+    if (ledger) {
+      await ledger.stop();
+      await ledger.destroy();
+    }
+
+    log.info("Prune Docker...");
+    await pruneDockerAllIfGithubAction({ logLevel: testLogLevel });
+  });
+
+  test(
+    "reports filtered transactions and resumes from a cursor",
+    async () => {
+      expect(isIPluginLedgerEventSource(connector)).toBeTrue();
+
+      const subscription = await connector.subscribeLedgerEvents({
+        filter: {
+          eventTypes: [LedgerEventTypeV1.Transaction],
+          contractAddresses: ["intkey"],
+        },
+        bufferSize: 1,
+      });
+
+      const keyName = `eventSource${Date.now()}`;
+      await ledger.runSawtoothShell(["intkey", "set", keyName, "42"]);
+      await ledger.runSawtoothShell(["intkey", "inc", keyName, "11"]);
+
+      const received: LedgerEventV1[] = [];
+      for await (const event of subscription) {
+        received.push(event);
+        if (received.length === 2) {
+          break;
+        }
+      }
+      expect(subscription.isClosed()).toBeTrue();
+
+      const [first, second] = received;
+      expect(first).toMatchObject({
+        eventType: LedgerEventTypeV1.Transaction,
+        sourceId: connector.getInstanceId(),
+        contractAddress: "intkey",
+      });
+      expect(first.transactionId).toBeString();
+      expect(first.blockHash).toBeString();
+      expect(second.transactionId).not.toEqual(first.transactionId);
+
+      const resumed = await connector.subscribeLedgerEvents({
+        afterCursor: first.cursor,
+        filter: { eventTypes: [LedgerEventTypeV1.Transaction] },
+      });
+      const { value: next } = await resumed.next();
+      await resumed.unsubscribe();
+      expect(next).toEqual(second);
+    },
+    testTimeout,
+  );
+
+  test(
+    "reports blocks in order",
+    async () => {
+      const subscription = await connector.subscribeLedgerEvents({
+        fromBlock: 0,
+        filter: { eventTypes: [LedgerEventTypeV1.Block] },
+      });
+      const blockNumbers: number[] = [];
+      for await (const event of subscription) {
+        expect(event.blockHash).toBeString();
+        blockNumbers.push(event.cursor.blockNumber);
+        if (blockNumbers.length === 2) {
+          break;
+        }
+      }
+      expect(blockNumbers).toEqual([0, 1]);
+      expect(subscription.getCursor()).toEqual({ blockNumber: 1 });
+    },
+    testTimeout,
+  );
+});
@@ -8,7 +8,7 @@ import "@openzeppelin/contracts/utils/Strings.sol";
 /**
  * @dev Enum for the supported token types.
  */
-enum TokenType { UNSPECIFIED, ERC20, ERC721, ERC1155, OTHER } //TODO: FIX THIS ENUM TO BE THE SAME OF THE BRIDGE
+enum TokenType { UNSPECIFIED, ERC20, ERC721, ERC1155, NONSTANDARD_FUNGIBLE, NONSTANDARD_NONFUNGIBLE }
 /**
  * @dev Enum for the supported interaction types.
  */
@@ -16,7 +16,7 @@ enum InteractionType { MINT, BURN, ASSIGN, CHECKPERMITION, LOCK, UNLOCK }
 /**
  * @dev Enum representing the supported variable types used for contract-to-contract calls.
  */
-enum VarType {CONTRACTADDRESS, TOKENTYPE, TOKENID, OWNER, AMOUNT, BRIDGE, RECEIVER}
+enum VarType {CONTRACTADDRESS, TOKENTYPE, TOKENID, OWNER, AMOUNT, BRIDGE, RECEIVER, UNIQUEDESCRIPTOR, METADATAURI}
  
 
 /**
@@ -54,6 +54,21 @@ struct InteractionSignature {
     bool available;
 }
 
+/**
+ * @dev Struct grouping the values that can replace the VarType placeholders of an interaction.
+ *
+ * @param receiver The address of the receiver account.
+ * @param amount The amount of tokens, used by fungible tokens.
+ * @param uniqueDescriptor The id of the token inside the token contract, used by non-fungible tokens.
+ * @param metadataUri The metadata URI of the token, used by non-fungible tokens.
+ */
+struct InteractionParams {
+    address receiver;
+    uint256 amount;
+    uint256 uniqueDescriptor;
+    string metadataUri;
+}
+
 error TokenNotAvailable(string tokenId);
 
 error TokenAlreadyWrapped(string tokenId);
@@ -66,6 +81,14 @@ error TokenNotUnlocked(string tokenId);
 
 error InsuficientAmountLocked(string tokenId, uint256 amount);
 
+error TokenIsNonFungible(string tokenId);
+
+error TokenIsFungible(string tokenId);
+
+error UniqueDescriptorLocked(string tokenId, uint256 uniqueDescriptor);
+
+error UniqueDescriptorNotLocked(string tokenId, uint256 uniqueDescriptor);
+
 
 /**
  * @title SATPWrapper
@@ -90,6 +113,12 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
 
     string[] ids;
 
+    /**
+     * Mapping of token IDs to the unique descriptors (e.g. ERC-721 token ids) currently held by the wrapper.
+     * For non-fungible tokens the amount of the Token struct counts the number of entries set in this mapping.
+     */
+    mapping (string => mapping(uint256 => bool)) public lockedUniqueDescriptors;
+
     /** 
      * The address of the bridge contract.
      * TODO: Change this to the Token Struct
@@ -103,6 +132,11 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
     event Mint(string indexed tokenId, uint256 amount);
     event Burn(string indexed tokenId, uint256 amount);
     event Assign(string indexed tokenId, address receiver_account, uint256 amount);
+    event LockNonFungible(string indexed tokenId, uint256 uniqueDescriptor);
+    event UnlockNonFungible(string indexed tokenId, uint256 uniqueDescriptor);
+    event MintNonFungible(string indexed tokenId, uint256 uniqueDescriptor, string metadataUri);
+    event BurnNonFungible(string indexed tokenId, uint256 uniqueDescriptor);
+    event AssignNonFungible(string indexed tokenId, address receiver_account, uint256 uniqueDescriptor);
 
 
     /**
@@ -179,6 +213,9 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
         if(tokens[tokenId].contractAddress == address(0)){
             revert TokenNotAvailable(tokenId);
         }
+        if(isNonFungible(tokenId)) {
+            revert TokenIsNonFungible(tokenId);
+        }
 
         bool lockSuccess = interact(tokenId, InteractionType.LOCK, amount);
 
@@ -201,6 +238,9 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
         if(tokens[tokenId].contractAddress == address(0)){
             revert TokenNotAvailable(tokenId);
         }
+        if(isNonFungible(tokenId)) {
+            revert TokenIsNonFungible(tokenId);
+        }
 
         if(tokens[tokenId].amount < amount) {
             revert InsuficientAmountLocked(tokenId, amount);
@@ -227,6 +267,9 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
         if(tokens[tokenId].contractAddress == address(0)){
             revert TokenNotAvailable(tokenId);
         }
+        if(isNonFungible(tokenId)) {
+            revert TokenIsNonFungible(tokenId);
+        }
         
         require(interact(tokenId, InteractionType.MINT, amount) , "mint asset call failed");
 
@@ -241,6 +284,9 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
      * @param amount The amount of tokens to be burned.
      */
     function burn(string memory tokenId, uint256 amount) external onlyOwner returns (bool success) {
+        if(isNonFungible(tokenId)) {
+            revert TokenIsNonFungible(tokenId);
+        }
         require(tokens[tokenId].amount >= amount, "burn asset asset is not locked");
 
         require(interact(tokenId, InteractionType.BURN, amount), "burn asset call failed");
@@ -258,6 +304,9 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
      * @param amount The amount of tokens to be assigned.
      */
     function assign(string memory tokenId, address receiver_account, uint256 amount) external onlyOwner returns (bool success) {
+        if(isNonFungible(tokenId)) {
+            revert TokenIsNonFungible(tokenId);
+        }
         require(tokens[tokenId].amount >= amount, "assign asset asset is not locked");
 
         require(interact(tokenId, InteractionType.ASSIGN, amount, receiver_account), "assign asset call failed");
@@ -268,6 +317,125 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
         return true;
     }   
 
+    /**
+     * Locks the non-fungible token identified by the given unique descriptor. This method calls the lock function of the token contract.
+     * @param tokenId The unique identifier of the wrapped token.
+     * @param uniqueDescriptor The id of the token inside the token contract (e.g. the ERC-721 token id).
+     */
+    function lockNonFungible(string memory tokenId, uint256 uniqueDescriptor) external onlyOwner returns (bool success) {
+        if(tokens[tokenId].contractAddress == address(0)){
+            revert TokenNotAvailable(tokenId);
+        }
+        if(!isNonFungible(tokenId)) {
+            revert TokenIsFungible(tokenId);
+        }
+        if(lockedUniqueDescriptors[tokenId][uniqueDescriptor]) {
+            revert UniqueDescriptorLocked(tokenId, uniqueDescriptor);
+        }
+
+        if(interact(tokenId, InteractionType.LOCK, InteractionParams(address(0), 0, uniqueDescriptor, ""))) {
+            lockedUniqueDescriptors[tokenId][uniqueDescriptor] = true;
+            tokens[tokenId].amount += 1;
+            emit LockNonFungible(tokenId, uniqueDescriptor);
+            return true;
+        }
+
+        revert TokenNotLocked(tokenId);
+    }
+
+    /**
+     * Unlocks the non-fungible token identified by the given unique descriptor, returning it to the owner. This method calls the unlock function of the token contract.
+     * @param tokenId The unique identifier of the wrapped token.
+     * @param uniqueDescriptor The id of the token inside the token contract (e.g. the ERC-721 token id).
+     */
+    function unlockNonFungible(string memory tokenId, uint256 uniqueDescriptor) external onlyOwner returns (bool success) {
+        if(tokens[tokenId].contractAddress == address(0)){
+            revert TokenNotAvailable(tokenId);
+        }
+        if(!lockedUniqueDescriptors[tokenId][uniqueDescriptor]) {
+            revert UniqueDescriptorNotLocked(tokenId, uniqueDescriptor);
+        }
+
+        if(interact(tokenId, InteractionType.UNLOCK, InteractionParams(address(0), 0, uniqueDescriptor, ""))) {
+            delete lockedUniqueDescriptors[tokenId][uniqueDescriptor];
+            tokens[tokenId].amount -= 1;
+            emit UnlockNonFungible(tokenId, uniqueDescriptor);
+            return true;
+        }
+
+        revert TokenNotUnlocked(tokenId);
+    }
+
+    /**
+     * Mints the non-fungible token identified by the given unique descriptor to the wrapper. This method calls the mint function of the token contract.
+     * @param tokenId The unique identifier of the wrapped token.
+     * @param uniqueDescriptor The id of the token inside the token contract (e.g. the ERC-721 token id).
+     * @param metadataUri The metadata URI of the token being minted.
+     */
+    function mintNonFungible(string memory tokenId, uint256 uniqueDescriptor, string memory metadataUri) external onlyOwner returns (bool success) {
+        if(tokens[tokenId].contractAddress == address(0)){
+            revert TokenNotAvailable(tokenId);
+        }
+        if(!isNonFungible(tokenId)) {
+            revert TokenIsFungible(tokenId);
+        }
+        if(lockedUniqueDescriptors[tokenId][uniqueDescriptor]) {
+            revert UniqueDescriptorLocked(tokenId, uniqueDescriptor);
+        }
+
+        require(interact(tokenId, InteractionType.MINT, InteractionParams(address(0), 0, uniqueDescriptor, metadataUri)), "mint asset call failed");
+
+        lockedUniqueDescriptors[tokenId][uniqueDescriptor] = true;
+        tokens[tokenId].amount += 1;
+        emit MintNonFungible(tokenId, uniqueDescriptor, metadataUri);
+        return true;
+    }
+
+    /**
+     * Burns the locked non-fungible token identified by the given unique descriptor. This method calls the burn function of the token contract.
+     * @param tokenId The unique identifier of the wrapped token.
+     * @param uniqueDescriptor The id of the token inside the token contract (e.g. the ERC-721 token id).
+     */
+    function burnNonFungible(string memory tokenId, uint256 uniqueDescriptor) external onlyOwner returns (bool success) {
+        if(!lockedUniqueDescriptors[tokenId][uniqueDescriptor]) {
+            revert UniqueDescriptorNotLocked(tokenId, uniqueDescriptor);
+        }
+
+        require(interact(tokenId, InteractionType.BURN, InteractionParams(address(0), 0, uniqueDescriptor, "")), "burn asset call failed");
+
+        delete lockedUniqueDescriptors[tokenId][uniqueDescriptor];
+        tokens[tokenId].amount -= 1;
+        emit BurnNonFungible(tokenId, uniqueDescriptor);
+        return true;
+    }
+
+    /**
+     * Assigns the locked non-fungible token identified by the given unique descriptor to a receiver account. This method calls the assign function of the token contract.
+     * @param tokenId The unique identifier of the wrapped token.
+     * @param receiver_account The address of the receiver account.
+     * @param uniqueDescriptor The id of the token inside the token contract (e.g. the ERC-721 token id).
+     */
+    function assignNonFungible(string memory tokenId, address receiver_account, uint256 uniqueDescriptor) external onlyOwner returns (bool success) {
+        if(!lockedUniqueDescriptors[tokenId][uniqueDescriptor]) {
+            revert UniqueDescriptorNotLocked(tokenId, uniqueDescriptor);
+        }
+
+        require(interact(tokenId, InteractionType.ASSIGN, InteractionParams(receiver_account, 0, uniqueDescriptor, "")), "assign asset call failed");
+
+        delete lockedUniqueDescriptors[tokenId][uniqueDescriptor];
+        tokens[tokenId].amount -= 1;
+        emit AssignNonFungible(tokenId, receiver_account, uniqueDescriptor);
+        return true;
+    }
+
+    /**
+     * Checks if the token with the given token ID was wrapped as a non-fungible token.
+     * @param tokenId The unique identifier of the token.
+     */
+    function isNonFungible(string memory tokenId) internal view returns (bool) {
+        return tokens[tokenId].tokenType == TokenType.ERC721 || tokens[tokenId].tokenType == TokenType.NONSTANDARD_NONFUNGIBLE;
+    }
+
     /**
      * Gets all the token IDs.
      * @return An array of token IDs.
@@ -331,14 +499,24 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
 
     /**
      * Interacts with the token contract using the given token ID, interaction type, amount, and receiver account.
-     * This function allows modular interactions by dynamically calling contract functions based on the stored interactions. 
-     * To mitigate the risk of attacks, this method only allows the usage of known variables and only variables that are assigned to the specific token.
      * @param tokenId The unique identifier of the token.
      * @param interactionType The type of the interaction.
      * @param amount The amount of tokens to be interacted with.
      * @param receiver The address of the receiver account.
      */
     function interact(string memory tokenId, InteractionType interactionType, uint256 amount, address receiver) internal returns (bool) {
+        return interact(tokenId, interactionType, InteractionParams(receiver, amount, 0, ""));
+    }
+
+    /**
+     * Interacts with the token contract using the given token ID, interaction type and interaction parameters.
+     * This function allows modular interactions by dynamically calling contract functions based on the stored interactions. 
+     * To mitigate the risk of attacks, this method only allows the usage of known variables and only variables that are assigned to the specific token.
+     * @param tokenId The unique identifier of the token.
+     * @param interactionType The type of the interaction.
+     * @param params The values that replace the variables of the interaction.
+     */
+    function interact(string memory tokenId, InteractionType interactionType, InteractionParams memory params) internal returns (bool) {
         if (!tokensInteractions[tokenId][interactionType].available) {
             return false;
         }
@@ -346,7 +524,7 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
         for (uint i = 0; i < tokensInteractions[tokenId][interactionType].functionsSignature.length; i++) {
             bytes4 functionSelector = bytes4(keccak256(abi.encodePacked(tokensInteractions[tokenId][interactionType].functionsSignature[i])));
 
-            bytes memory encodedParams = encodeDynamicParams(functionSelector, encodeParams(tokensInteractions[tokenId][interactionType].variables[i], tokenId, receiver, amount));
+            bytes memory encodedParams = encodeDynamicParams(functionSelector, tokensInteractions[tokenId][interactionType].variables[i], encodeParams(tokensInteractions[tokenId][interactionType].variables[i], tokenId, params));
 
             (bool callSuccess, ) = tokens[tokenId].contractAddress.call(encodedParams);
             if (!callSuccess) {
@@ -358,15 +536,32 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
 
     /**
      * Encodes the dynamic parameters for the contract-to-contract calls. This function adds the function selector to the encoded parameters.
+     * String variables are placed in the tail of the call data and referenced by offset from the head, as required by the ABI.
      * @param functionSelector The function selector.
+     * @param variables The variables that were encoded, used to know which parameters are dynamic.
      * @param dynamicParams The dynamic parameters.
      */
-    function encodeDynamicParams(bytes4 functionSelector, bytes[] memory dynamicParams) internal pure returns (bytes memory encodedParams) {
-        encodedParams = abi.encodePacked(functionSelector);
+    function encodeDynamicParams(bytes4 functionSelector, VarType[] memory variables, bytes[] memory dynamicParams) internal pure returns (bytes memory encodedParams) {
+        bytes memory head;
+        bytes memory tail;
         for (uint256 i = 0; i < dynamicParams.length; i++) {
-            encodedParams = abi.encodePacked(encodedParams, dynamicParams[i]);
+            if (variables[i] == VarType.TOKENID || variables[i] == VarType.METADATAURI) {
+                head = abi.encodePacked(head, abi.encode(dynamicParams.length * 32 + tail.length));
+                tail = abi.encodePacked(tail, dynamicParams[i]);
+            } else {
+                head = abi.encodePacked(head, dynamicParams[i]);
+            }
         }
-        return encodedParams;
+        return abi.encodePacked(functionSelector, head, tail);
+    }
+
+    /**
+     * Encodes a string as the tail of a dynamic parameter (length followed by the right padded content).
+     * @param value The string to be encoded.
+     */
+    function encodeString(string memory value) internal pure returns (bytes memory) {
+        bytes memory content = bytes(value);
+        return abi.encodePacked(content.length, content, new bytes((32 - (content.length % 32)) % 32));
     }
 
     /**
@@ -374,24 +569,27 @@ contract SATPWrapperContract is Ownable, ITraceableContract{
      * This functions replaces the enum variables with the actual values from the Token struct.
      * @param variables The variables to be encoded.
      * @param tokenId The unique identifier of the token.
-     * @param receiver The address of the receiver account.
-     * @param amount The amount of tokens to be encoded.
+     * @param params The values of the receiver, amount, unique descriptor and metadata URI variables.
      */
-    function encodeParams(VarType[] memory variables, string memory tokenId, address receiver, uint256 amount)  internal view returns (bytes[] memory){
+    function encodeParams(VarType[] memory variables, string memory tokenId, InteractionParams memory params)  internal view returns (bytes[] memory){
         bytes[] memory dynamicParams = new bytes[](variables.length);
         for (uint i = 0; i < variables.length; i++) {
             if (variables[i] == VarType.BRIDGE) {
                 dynamicParams[i] = abi.encode(address(this));
             } else if (variables[i] == VarType.TOKENID) {
-                dynamicParams[i] = abi.encode(tokenId);
+                dynamicParams[i] = encodeString(tokenId);
             } else if (variables[i] == VarType.AMOUNT) {
-                dynamicParams[i] = abi.encode(amount);
+                dynamicParams[i] = abi.encode(params.amount);
             } else if (variables[i] == VarType.OWNER) {
                 dynamicParams[i] = abi.encode(tokens[tokenId].owner);
             } else if (variables[i] == VarType.CONTRACTADDRESS) {
                 dynamicParams[i] = abi.encode(tokens[tokenId].contractAddress);
             } else if (variables[i] == VarType.RECEIVER) {
-                dynamicParams[i] = abi.encode(receiver);
+                dynamicParams[i] = abi.encode(params.receiver);
+            } else if (variables[i] == VarType.UNIQUEDESCRIPTOR) {
+                dynamicParams[i] = abi.encode(params.uniqueDescriptor);
+            } else if (variables[i] == VarType.METADATAURI) {
+                dynamicParams[i] = encodeString(params.metadataUri);
             } else {
                 revert("Variable not supported");
             }
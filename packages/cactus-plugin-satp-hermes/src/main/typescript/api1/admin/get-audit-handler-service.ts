@@ -7,11 +7,13 @@ import {
 import { LoggerProvider, LogLevelDesc } from "@hyperledger/cactus-common";
 import { SATPManager } from "../../services/gateway/satp-manager";
 import { SATPSession } from "../../core/satp-session";
+import { SessionAdminManager } from "../../services/gateway/session-admin-manager";
 
 export async function executeAudit(
   logLevel: LogLevelDesc,
   req: AuditRequest,
   manager: SATPManager,
+  sessionAdmin?: SessionAdminManager,
 ): Promise<AuditResponse> {
   const fnTag = `executeAudit()`;
   const logger = LoggerProvider.getOrCreate({
@@ -23,7 +25,12 @@ export async function executeAudit(
 
   try {
     const processedRequest = req;
-    const result = await getAuditData(logLevel, processedRequest, manager);
+    const result = await getAuditData(
+      logLevel,
+      processedRequest,
+      manager,
+      sessionAdmin,
+    );
     return result;
   } catch (error) {
     if (error instanceof GetStatusError) {
@@ -40,6 +47,7 @@ export async function getAuditData(
   logLevel: LogLevelDesc,
   req: AuditRequest,
   manager: SATPManager,
+  sessionAdmin?: SessionAdminManager,
 ): Promise<AuditResponse> {
   const fnTag = `getStatusService()`;
   const logger = LoggerProvider.getOrCreate({
@@ -98,5 +106,9 @@ export async function getAuditData(
     sessions: sessionsData.map((session) => session.toString()),
     startTimestamp: req.startTimestamp,
     endTimestamp: req.endTimestamp,
+    interventions: await sessionAdmin?.getInterventions(
+      req.startTimestamp,
+      req.endTimestamp,
+    ),
   };
 }
@@ -87,6 +87,20 @@ function convertconnectedDLTsIntoIntegrations(
         type: LedgerType.Ethereum,
         environment: "testnet",
       } as Integration;
+    case LedgerType.Polkadot:
+      return {
+        id: networkId.id,
+        name: "Polkadot",
+        type: LedgerType.Polkadot,
+        environment: "testnet",
+      } as Integration;
+    case LedgerType.Stellar:
+      return {
+        id: networkId.id,
+        name: "Stellar",
+        type: LedgerType.Stellar,
+        environment: "testnet",
+      } as Integration;
     default:
       throw new Error(`Unsupported chain: ${networkId.ledgerType}`);
   }
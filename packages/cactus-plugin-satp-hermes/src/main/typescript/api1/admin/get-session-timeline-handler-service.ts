@@ -0,0 +1,22 @@
+import { LoggerProvider, LogLevelDesc } from "@hyperledger/cactus-common";
+import {
+  SessionTimelineResponse,
+  StatusRequest,
+} from "../../generated/gateway-client/typescript-axios/api";
+import { SessionAdminManager } from "../../services/gateway/session-admin-manager";
+
+export async function executeGetSessionTimeline(
+  logLevel: LogLevelDesc,
+  req: StatusRequest,
+  sessionAdmin: SessionAdminManager,
+): Promise<SessionTimelineResponse> {
+  const fnTag = `executeGetSessionTimeline()`;
+  const logger = LoggerProvider.getOrCreate({
+    label: fnTag,
+    level: logLevel,
+  });
+
+  logger.info(`${fnTag}, Obtaining timeline for sessionID=${req.sessionID}`);
+
+  return sessionAdmin.getSessionTimeline(req.sessionID);
+}
@@ -68,6 +68,18 @@ function getNetworkDetails(
         dltProtocol: "ethereum",
         dltSubnetworkID: "v24.4.0-RC1",
       };
+    case LedgerType.Polkadot:
+      return {
+        id: networkId.id,
+        dltProtocol: "polkadot",
+        dltSubnetworkID: "substrate",
+      };
+    case LedgerType.Stellar:
+      return {
+        id: networkId.id,
+        dltProtocol: "stellar",
+        dltSubnetworkID: "soroban",
+      };
     default:
       return {
         id: networkId.id,
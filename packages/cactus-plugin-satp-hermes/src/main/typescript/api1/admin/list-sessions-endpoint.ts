@@ -0,0 +1,130 @@
+import type { Express, Request, Response } from "express";
+
+import type {
+  IWebServiceEndpoint,
+  IExpressRequestHandler,
+  IEndpointAuthzOptions,
+} from "@hyperledger/cactus-core-api";
+import {
+  type Logger,
+  Checks,
+  LoggerProvider,
+  type IAsyncProvider,
+} from "@hyperledger/cactus-common";
+
+import {
+  handleRestEndpointException,
+  registerWebServiceEndpoint,
+} from "@hyperledger/cactus-core";
+
+import OAS from "../../../json/openapi-blo-bundled.json";
+import type { IRequestOptions } from "../../core/types";
+import {
+  SessionSummaryStageEnum,
+  SessionSummaryStateEnum,
+} from "../../public-api";
+import type { SessionListFilter } from "../../services/gateway/session-admin-manager";
+
+// undefined when absent, null when not a non negative number of milliseconds
+function parseAge(value: unknown): number | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const age = Number(value);
+  return typeof value === "string" && value !== "" && age >= 0 ? age : null;
+}
+
+export class ListSessionsEndpointV1 implements IWebServiceEndpoint {
+  public static readonly CLASS_NAME = "ListSessionsEndpointV1";
+
+  private readonly log: Logger;
+
+  public get className(): string {
+    return ListSessionsEndpointV1.CLASS_NAME;
+  }
+
+  constructor(public readonly options: IRequestOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+    Checks.truthy(options.dispatcher, `${fnTag} arg options.connector`);
+
+    const level = this.options.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  public getPath(): string {
+    const apiPath =
+      OAS.paths["/api/v1/@hyperledger/cactus-plugin-satp-hermes/sessions"];
+    return apiPath.get["x-hyperledger-cacti"].http.path;
+  }
+
+  public getVerbLowerCase(): string {
+    const apiPath =
+      OAS.paths["/api/v1/@hyperledger/cactus-plugin-satp-hermes/sessions"];
+    return apiPath.get["x-hyperledger-cacti"].http.verbLowerCase;
+  }
+
+  public getOperationId(): string {
+    return OAS.paths["/api/v1/@hyperledger/cactus-plugin-satp-hermes/sessions"]
+      .get.operationId;
+  }
+
+  getAuthorizationOptionsProvider(): IAsyncProvider<IEndpointAuthzOptions> {
+    // TODO: make this an injectable dependency in the constructor
+    return {
+      get: async () => ({
+        isProtected: true,
+        requiredRoles: [],
+      }),
+    };
+  }
+
+  public async registerExpress(
+    expressApp: Express,
+  ): Promise<IWebServiceEndpoint> {
+    await registerWebServiceEndpoint(expressApp, this);
+    return this;
+  }
+
+  public getExpressRequestHandler(): IExpressRequestHandler {
+    return this.handleRequest.bind(this);
+  }
+
+  public async handleRequest(req: Request, res: Response): Promise<void> {
+    const reqTag = `${this.getVerbLowerCase()} - ${this.getPath()}`;
+    this.log.debug(reqTag);
+    const { state, stage, counterparty } = req.query;
+    const minAge = parseAge(req.query["minAge"]);
+    const maxAge = parseAge(req.query["maxAge"]);
+    if (
+      (state !== undefined &&
+        !Object.values<unknown>(SessionSummaryStateEnum).includes(state)) ||
+      (stage !== undefined &&
+        !Object.values<unknown>(SessionSummaryStageEnum).includes(stage)) ||
+      (counterparty !== undefined && typeof counterparty !== "string") ||
+      minAge === null ||
+      maxAge === null
+    ) {
+      res.status(400).json({
+        message:
+          "state, stage, counterparty, minAge or maxAge query parameter is invalid.",
+      });
+      return;
+    }
+    const filter: SessionListFilter = {
+      state: state as string | undefined,
+      stage: stage as string | undefined,
+      counterparty: counterparty as string | undefined,
+      minAge,
+      maxAge,
+    };
+    try {
+      const result = await this.options.dispatcher.ListSessions(filter);
+      res.status(200).json(result);
+    } catch (ex) {
+      const errorMsg = `Failed to list sessions: ${ex}`;
+      handleRestEndpointException({ errorMsg, log: this.log, error: ex, res });
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { LoggerProvider, LogLevelDesc } from "@hyperledger/cactus-common";
+import { SessionListResponse } from "../../generated/gateway-client/typescript-axios/api";
+import {
+  SessionAdminManager,
+  SessionListFilter,
+} from "../../services/gateway/session-admin-manager";
+
+export async function executeListSessions(
+  logLevel: LogLevelDesc,
+  filter: SessionListFilter,
+  sessionAdmin: SessionAdminManager,
+): Promise<SessionListResponse> {
+  const fnTag = `executeListSessions()`;
+  const logger = LoggerProvider.getOrCreate({
+    label: fnTag,
+    level: logLevel,
+  });
+
+  logger.info(`${fnTag}, Listing sessions`);
+
+  return { sessions: sessionAdmin.listSessions(filter) };
+}
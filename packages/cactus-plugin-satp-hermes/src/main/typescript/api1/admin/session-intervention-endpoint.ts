@@ -0,0 +1,118 @@
+import type { Express, Request, Response } from "express";
+
+import type {
+  IWebServiceEndpoint,
+  IExpressRequestHandler,
+  IEndpointAuthzOptions,
+} from "@hyperledger/cactus-core-api";
+import {
+  type Logger,
+  Checks,
+  LoggerProvider,
+  type IAsyncProvider,
+} from "@hyperledger/cactus-common";
+
+import {
+  handleRestEndpointException,
+  registerWebServiceEndpoint,
+} from "@hyperledger/cactus-core";
+
+import OAS from "../../../json/openapi-blo-bundled.json";
+import type { IRequestOptions } from "../../core/types";
+import {
+  SessionInterventionRequest,
+  SessionInterventionRequestActionEnum,
+} from "../../public-api";
+
+export class SessionInterventionEndpointV1 implements IWebServiceEndpoint {
+  public static readonly CLASS_NAME = "SessionInterventionEndpointV1";
+
+  private readonly log: Logger;
+
+  public get className(): string {
+    return SessionInterventionEndpointV1.CLASS_NAME;
+  }
+
+  constructor(public readonly options: IRequestOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+    Checks.truthy(options.dispatcher, `${fnTag} arg options.connector`);
+
+    const level = this.options.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  public getPath(): string {
+    const apiPath =
+      OAS.paths[
+        "/api/v1/@hyperledger/cactus-plugin-satp-hermes/session-intervention"
+      ];
+    return apiPath.post["x-hyperledger-cacti"].http.path;
+  }
+
+  public getVerbLowerCase(): string {
+    const apiPath =
+      OAS.paths[
+        "/api/v1/@hyperledger/cactus-plugin-satp-hermes/session-intervention"
+      ];
+    return apiPath.post["x-hyperledger-cacti"].http.verbLowerCase;
+  }
+
+  public getOperationId(): string {
+    return OAS.paths[
+      "/api/v1/@hyperledger/cactus-plugin-satp-hermes/session-intervention"
+    ].post.operationId;
+  }
+
+  getAuthorizationOptionsProvider(): IAsyncProvider<IEndpointAuthzOptions> {
+    // TODO: make this an injectable dependency in the constructor
+    return {
+      get: async () => ({
+        isProtected: true,
+        requiredRoles: [],
+      }),
+    };
+  }
+
+  public async registerExpress(
+    expressApp: Express,
+  ): Promise<IWebServiceEndpoint> {
+    await registerWebServiceEndpoint(expressApp, this);
+    return this;
+  }
+
+  public getExpressRequestHandler(): IExpressRequestHandler {
+    return this.handleRequest.bind(this);
+  }
+
+  public async handleRequest(req: Request, res: Response): Promise<void> {
+    const reqTag = `${this.getVerbLowerCase()} - ${this.getPath()}`;
+    this.log.debug(reqTag);
+    const reqBody: SessionInterventionRequest = req.body;
+    if (
+      !reqBody?.sessionID ||
+      !Object.values<unknown>(SessionInterventionRequestActionEnum).includes(
+        reqBody.action,
+      )
+    ) {
+      res.status(400).json({
+        message: `sessionID and an action among ${Object.values(SessionInterventionRequestActionEnum).join(", ")} are required.`,
+      });
+      return;
+    }
+    // the authorization middleware of the API server places the decoded
+    // token of the caller in req.auth
+    const { auth } = req as unknown as { auth?: { sub?: string } };
+    try {
+      const result = await this.options.dispatcher.InterveneInSession(
+        reqBody,
+        auth?.sub,
+      );
+      res.status(200).json(result);
+    } catch (ex) {
+      const errorMsg = `Failed to intervene in session: ${ex}`;
+      handleRestEndpointException({ errorMsg, log: this.log, error: ex, res });
+    }
+  }
+}
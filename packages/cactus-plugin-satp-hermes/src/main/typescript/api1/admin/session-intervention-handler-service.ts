@@ -0,0 +1,31 @@
+import { LoggerProvider, LogLevelDesc } from "@hyperledger/cactus-common";
+import {
+  SessionIntervention,
+  SessionInterventionRequest,
+} from "../../generated/gateway-client/typescript-axios/api";
+import { SessionAdminManager } from "../../services/gateway/session-admin-manager";
+
+export async function executeSessionIntervention(
+  logLevel: LogLevelDesc,
+  req: SessionInterventionRequest,
+  sessionAdmin: SessionAdminManager,
+  operator?: string,
+): Promise<SessionIntervention> {
+  const fnTag = `executeSessionIntervention()`;
+  const logger = LoggerProvider.getOrCreate({
+    label: fnTag,
+    level: logLevel,
+  });
+
+  logger.info(
+    `${fnTag}, ${req.action} requested for sessionID=${req.sessionID} by operator=${operator}`,
+  );
+
+  const intervention = await sessionAdmin.intervene(req, operator);
+  if (!intervention.success) {
+    logger.warn(
+      `${fnTag}, ${req.action} on sessionID=${req.sessionID} failed: ${intervention.message}`,
+    );
+  }
+  return intervention;
+}
@@ -19,16 +19,25 @@ import type {
   AddCounterpartyGatewayResponse,
   AuditRequest,
   AuditResponse,
+  EstimateFeeRequest,
   GetApproveAddressRequest,
   GetApproveAddressResponse,
   HealthCheckResponse,
   IntegrationsResponse,
+  LedgerFeeEstimate,
   NetworkId,
   OracleExecuteRequest,
   OracleRegisterRequest,
   OracleStatusRequest,
   OracleTask,
+  OracleTaskHistoryResponse,
   OracleUnregisterRequest,
+  Quote,
+  QuoteRequest,
+  SessionIntervention,
+  SessionInterventionRequest,
+  SessionListResponse,
+  SessionTimelineResponse,
   StatusRequest,
   StatusResponse,
   TransactRequest,
@@ -41,6 +50,7 @@ import {
 } from "../services/gateway/satp-manager";
 import type { GatewayOrchestrator } from "../services/gateway/gateway-orchestrator";
 import type { SATPCrossChainManager } from "../cross-chain-mechanisms/satp-cc-manager";
+import type { GatewayKeyRegistry } from "../core/key-rotation/gateway-key-registry";
 import { TransactEndpointV1 } from "./transaction/transact-endpoint";
 import { GetSessionIdsEndpointV1 } from "./admin/get-all-session-ids-endpoints";
 import { HealthCheckEndpointV1 } from "./admin/healthcheck-endpoint";
@@ -49,6 +59,14 @@ import { executeGetHealthCheck } from "./admin/get-healthcheck-handler-service";
 import { executeGetStatus } from "./admin/get-status-handler-service";
 import { executeTransact } from "./transaction/transact-handler-service";
 import { AddCounterpartyGatewayEndpointV1 } from "./admin/add-counterparty-gateway-endpoint";
+import {
+  type GatewayQuoteConfig,
+  QuoteManager,
+} from "../services/gateway/quote-manager";
+import { QuoteEndpointV1 } from "./transaction/quote-endpoint";
+import { EstimateFeeEndpointV1 } from "./transaction/estimate-fee-endpoint";
+import { executeQuote } from "./transaction/quote-handler-service";
+import { executeEstimateFee } from "./transaction/estimate-fee-handler-service";
 import type {
   ILocalLogRepository,
   IRemoteLogRepository,
@@ -71,9 +89,26 @@ import { unregisterTask } from "./oracle/oracle-unregister-task-handler-service"
 import { OracleRegisterTaskEndpointV1 } from "./oracle/oracle-register-task-endpoint";
 import { OracleUnregisterTaskEndpointV1 } from "./oracle/oracle-unregister-task-endpoint";
 import { GetOracleStatusEndpointV1 } from "./oracle/oracle-get-status-endpoint";
+import { OraclePauseTaskEndpointV1 } from "./oracle/oracle-pause-task-endpoint";
+import { OracleResumeTaskEndpointV1 } from "./oracle/oracle-resume-task-endpoint";
+import { GetOracleHistoryEndpointV1 } from "./oracle/oracle-get-history-endpoint";
+import { pauseTask } from "./oracle/oracle-pause-task-handler-service";
+import { resumeTask } from "./oracle/oracle-resume-task-handler-service";
+import { getTaskHistory } from "./oracle/oracle-get-history-handler-service";
 import safeStableStringify from "safe-stable-stringify";
 import { executeAudit } from "./admin/get-audit-handler-service";
 import { AuditEndpointV1 } from "./admin/audit-endpoint";
+import { ListSessionsEndpointV1 } from "./admin/list-sessions-endpoint";
+import { GetSessionTimelineEndpointV1 } from "./admin/session-timeline-endpoint";
+import { SessionInterventionEndpointV1 } from "./admin/session-intervention-endpoint";
+import { executeListSessions } from "./admin/list-sessions-handler-service";
+import { executeGetSessionTimeline } from "./admin/get-session-timeline-handler-service";
+import { executeSessionIntervention } from "./admin/session-intervention-handler-service";
+import {
+  type SessionListFilter,
+  SessionAdminManager,
+} from "../services/gateway/session-admin-manager";
+import type { CrashManager } from "../services/gateway/crash-manager";
 import { MonitorService } from "../services/monitoring/monitor";
 import { context, SpanStatusCode } from "@opentelemetry/api";
 
@@ -88,6 +123,9 @@ export interface BLODispatcherOptions {
   localRepository: ILocalLogRepository;
   remoteRepository?: IRemoteLogRepository;
   claimFormat?: ClaimFormat;
+  keyRegistry?: GatewayKeyRegistry;
+  quoteConfig?: GatewayQuoteConfig;
+  crashManager?: CrashManager;
   monitorService: MonitorService;
 }
 
@@ -100,6 +138,8 @@ export class BLODispatcher {
   private endpoints: IWebServiceEndpoint[] | undefined;
   private readonly instanceId: string;
   private manager?: SATPManager;
+  private sessionAdmin?: SessionAdminManager;
+  private readonly quoteManager: QuoteManager;
   private orchestrator: GatewayOrchestrator;
   private ccManager: SATPCrossChainManager;
   private localRepository: ILocalLogRepository;
@@ -131,6 +171,14 @@ export class BLODispatcher {
     this.localRepository = options.localRepository;
     this.remoteRepository = options.remoteRepository;
     this.ccManager = options.ccManager;
+    this.quoteManager = new QuoteManager({
+      logLevel: this.level,
+      orchestrator: this.orchestrator,
+      ccManager: this.ccManager,
+      signer: signer,
+      config: options.quoteConfig,
+      monitorService: this.monitorService,
+    });
 
     context.with(ctx, () => {
       try {
@@ -144,10 +192,18 @@ export class BLODispatcher {
           localRepository: this.localRepository,
           remoteRepository: this.remoteRepository,
           claimFormat: options.claimFormat,
+          keyRegistry: options.keyRegistry,
           monitorService: this.monitorService,
         };
 
         this.manager = new SATPManager(SATPManagerOpts);
+        this.sessionAdmin = new SessionAdminManager({
+          logLevel: this.level,
+          manager: this.manager,
+          localRepository: this.localRepository,
+          crashManager: options.crashManager,
+          monitorService: this.monitorService,
+        });
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
         span.recordException(err);
@@ -204,6 +260,16 @@ export class BLODispatcher {
           logLevel: this.options.logLevel,
         });
 
+        const quoteEndpointV1 = new QuoteEndpointV1({
+          dispatcher: this,
+          logLevel: this.options.logLevel,
+        });
+
+        const estimateFeeEndpointV1 = new EstimateFeeEndpointV1({
+          dispatcher: this,
+          logLevel: this.options.logLevel,
+        });
+
         const addCounterpartyGatewayEndpointV1 =
           new AddCounterpartyGatewayEndpointV1({
             dispatcher: this,
@@ -215,6 +281,23 @@ export class BLODispatcher {
           logLevel: this.options.logLevel,
         });
 
+        const listSessionsEndpointV1 = new ListSessionsEndpointV1({
+          dispatcher: this,
+          logLevel: this.options.logLevel,
+        });
+
+        const getSessionTimelineEndpointV1 = new GetSessionTimelineEndpointV1({
+          dispatcher: this,
+          logLevel: this.options.logLevel,
+        });
+
+        const sessionInterventionEndpointV1 = new SessionInterventionEndpointV1(
+          {
+            dispatcher: this,
+            logLevel: this.options.logLevel,
+          },
+        );
+
         const oracleExecuteTaskEndpointV1 = new OracleExecuteTaskEndpointV1({
           dispatcher: this,
           logLevel: this.options.logLevel,
@@ -236,6 +319,21 @@ export class BLODispatcher {
           logLevel: this.options.logLevel,
         });
 
+        const oraclePauseTaskEndpointV1 = new OraclePauseTaskEndpointV1({
+          dispatcher: this,
+          logLevel: this.options.logLevel,
+        });
+
+        const oracleResumeTaskEndpointV1 = new OracleResumeTaskEndpointV1({
+          dispatcher: this,
+          logLevel: this.options.logLevel,
+        });
+
+        const oracleGetHistoryEndpointV1 = new GetOracleHistoryEndpointV1({
+          dispatcher: this,
+          logLevel: this.options.logLevel,
+        });
+
         // TODO: keep getter; add an admin endpoint to get identity of connected gateway to BLO
         const endpoints = [
           getStatusEndpointV1,
@@ -244,12 +342,20 @@ export class BLODispatcher {
           getSessionIdsEndpointV1,
           getApproveAddressEndpointV1,
           transactEndpointV1,
+          quoteEndpointV1,
+          estimateFeeEndpointV1,
           addCounterpartyGatewayEndpointV1,
           auditEndpointV1,
+          listSessionsEndpointV1,
+          getSessionTimelineEndpointV1,
+          sessionInterventionEndpointV1,
           oracleExecuteTaskEndpointV1,
           oracleRegisterTaskEndpointV1,
           oracleUnregisterTaskEndpointV1,
           oracleGetStatusEndpointV1,
+          oraclePauseTaskEndpointV1,
+          oracleResumeTaskEndpointV1,
+          oracleGetHistoryEndpointV1,
         ];
         this.endpoints = endpoints;
         this.logger.debug(`${fnTag} registered ${endpoints.length} endpoints`);
@@ -320,6 +426,7 @@ export class BLODispatcher {
    * @notice Transact request handler
    * @param req TransactRequest
    * @throws GatewayShuttingDownError when the flag isShuttingDown is true
+   * @throws QuoteError when the referenced quote cannot be redeemed
    * @returns TransactResponse
    */
   public async Transact(req: TransactRequest): Promise<TransactResponse> {
@@ -336,11 +443,9 @@ export class BLODispatcher {
         if (!this.manager) {
           throw new Error("SATPManager is not defined");
         }
-        const res = await executeTransact(
-          this.level,
-          req,
-          this.manager,
-          this.orchestrator,
+        const manager = this.manager;
+        const res = await this.quoteManager.redeemQuote(req, (chargedReq) =>
+          executeTransact(this.level, chargedReq, manager, this.orchestrator),
         );
         return res;
       } catch (err) {
@@ -353,6 +458,21 @@ export class BLODispatcher {
     });
   }
 
+  public async Quote(req: QuoteRequest): Promise<Quote> {
+    this.logger.debug(`Quote request: ${safeStableStringify(req)}`);
+    if (this.isShuttingDown) {
+      throw new GatewayShuttingDownError(`${BLODispatcher.CLASS_NAME}#Quote()`);
+    }
+    return executeQuote(this.level, req, this.quoteManager);
+  }
+
+  public async EstimateFee(
+    req: EstimateFeeRequest,
+  ): Promise<LedgerFeeEstimate> {
+    this.logger.debug(`Estimate Fee request: ${safeStableStringify(req)}`);
+    return executeEstimateFee(this.level, req, this.quoteManager);
+  }
+
   public async GetApproveAddress(
     req: GetApproveAddressRequest,
   ): Promise<GetApproveAddressResponse> {
@@ -483,7 +603,51 @@ export class BLODispatcher {
     if (!this.manager) {
       throw new Error("SATPManager is not defined");
     }
-    return executeAudit(this.level, req, this.manager);
+    return executeAudit(this.level, req, this.manager, this.sessionAdmin);
+  }
+
+  public async ListSessions(
+    filter: SessionListFilter,
+  ): Promise<SessionListResponse> {
+    this.logger.info(`List Sessions request: ${safeStableStringify(filter)}`);
+    if (!this.sessionAdmin) {
+      throw new Error("SessionAdminManager is not defined");
+    }
+    return executeListSessions(this.level, filter, this.sessionAdmin);
+  }
+
+  public async GetSessionTimeline(
+    req: StatusRequest,
+  ): Promise<SessionTimelineResponse> {
+    this.logger.info(`Get Session Timeline request: ${req.sessionID}`);
+    if (!this.sessionAdmin) {
+      throw new Error("SessionAdminManager is not defined");
+    }
+    return executeGetSessionTimeline(this.level, req, this.sessionAdmin);
+  }
+
+  /**
+   * @notice Operator intervention on a session, written to the audit log
+   * @param operator The authenticated caller, recorded in the audit log
+   * @throws SessionNotFoundError when the gateway does not hold the session
+   * @throws SessionInterventionError when the session does not allow it
+   */
+  public async InterveneInSession(
+    req: SessionInterventionRequest,
+    operator?: string,
+  ): Promise<SessionIntervention> {
+    this.logger.info(
+      `Session Intervention request: ${safeStableStringify(req)}`,
+    );
+    if (!this.sessionAdmin) {
+      throw new Error("SessionAdminManager is not defined");
+    }
+    return executeSessionIntervention(
+      this.level,
+      req,
+      this.sessionAdmin,
+      operator,
+    );
   }
 
   public async GetSessionIds(): Promise<string[]> {
@@ -598,6 +762,42 @@ export class BLODispatcher {
     );
   }
 
+  public async OraclePauseTask(req: OracleStatusRequest): Promise<OracleTask> {
+    this.logger.info(`Oracle Pause request: ${safeStableStringify(req)}`);
+    if (this.isShuttingDown) {
+      throw new GatewayShuttingDownError(
+        `${BLODispatcher.CLASS_NAME}#OraclePauseTask()`,
+      );
+    }
+    return await pauseTask(this.level, req, this.ccManager.getOracleManager());
+  }
+
+  public async OracleResumeTask(req: OracleStatusRequest): Promise<OracleTask> {
+    this.logger.info(`Oracle Resume request: ${safeStableStringify(req)}`);
+    if (this.isShuttingDown) {
+      throw new GatewayShuttingDownError(
+        `${BLODispatcher.CLASS_NAME}#OracleResumeTask()`,
+      );
+    }
+    return await resumeTask(this.level, req, this.ccManager.getOracleManager());
+  }
+
+  public async OracleGetTaskHistory(
+    req: OracleStatusRequest,
+  ): Promise<OracleTaskHistoryResponse> {
+    this.logger.info(`Oracle Get History request: ${safeStableStringify(req)}`);
+    if (this.isShuttingDown) {
+      throw new GatewayShuttingDownError(
+        `${BLODispatcher.CLASS_NAME}#OracleGetTaskHistory()`,
+      );
+    }
+    return await getTaskHistory(
+      this.level,
+      req,
+      this.ccManager.getOracleManager(),
+    );
+  }
+
   /**
    * Changes the isShuttingDown flag to true, stopping all new requests
    */
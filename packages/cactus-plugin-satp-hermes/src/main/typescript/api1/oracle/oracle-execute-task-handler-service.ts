@@ -145,6 +145,7 @@ export async function executeTask(
     status: OracleTaskStatusEnum.Active,
     operations: [],
     mode: OracleTaskModeEnum.Immediate,
+    transformations: req.transformations,
   };
 
   // execute the task
@@ -0,0 +1,46 @@
+import { LoggerProvider, LogLevelDesc } from "@hyperledger/cactus-common";
+import { OracleManager } from "../../cross-chain-mechanisms/oracle/oracle-manager";
+import {
+  OracleOperation,
+  OracleStatusRequest,
+  OracleTaskHistoryResponse,
+} from "../../public-api";
+
+export async function getTaskHistory(
+  logLevel: LogLevelDesc,
+  req: OracleStatusRequest,
+  manager: OracleManager,
+): Promise<OracleTaskHistoryResponse> {
+  const fnTag = `getTaskHistory()`;
+  const logger = LoggerProvider.getOrCreate({
+    label: fnTag,
+    level: logLevel,
+  });
+
+  logger.info(`${fnTag}, executing task history endpoint`);
+
+  if (!req.taskID) {
+    throw new Error(`${fnTag} - missing required parameters for task history`);
+  }
+
+  const history = manager.getTaskHistory(req.taskID);
+
+  // as in the status endpoint, bytecode and abis are left out of the operations
+  return {
+    ...history,
+    operations: history.operations.map((operation: OracleOperation) => ({
+      id: operation.id,
+      type: operation.type,
+      networkId: operation.networkId,
+      contract: {
+        contractName: operation.contract.contractName,
+        contractAddress: operation.contract.contractAddress,
+        methodName: operation.contract.methodName,
+        params: operation.contract.params,
+      },
+      status: operation.status,
+      output: operation.output,
+      timestamp: operation.timestamp,
+    })),
+  } as OracleTaskHistoryResponse;
+}
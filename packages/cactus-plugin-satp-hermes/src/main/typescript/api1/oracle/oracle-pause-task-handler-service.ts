@@ -0,0 +1,23 @@
+import { LoggerProvider, LogLevelDesc } from "@hyperledger/cactus-common";
+import { OracleManager } from "../../cross-chain-mechanisms/oracle/oracle-manager";
+import { OracleStatusRequest, OracleTask } from "../../public-api";
+import { getTaskStatus } from "./oracle-get-status-handler-service";
+
+export async function pauseTask(
+  logLevel: LogLevelDesc,
+  req: OracleStatusRequest,
+  manager: OracleManager,
+): Promise<OracleTask> {
+  const fnTag = `pauseTask()`;
+  const logger = LoggerProvider.getOrCreate({
+    label: fnTag,
+    level: logLevel,
+  });
+
+  logger.info(`${fnTag}, executing task pause endpoint`);
+
+  await manager.pauseTask(req.taskID);
+
+  // same response as the status endpoint, without bytecode and abis
+  return getTaskStatus(logLevel, req, manager);
+}
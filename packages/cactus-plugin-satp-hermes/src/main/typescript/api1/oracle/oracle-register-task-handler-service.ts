@@ -251,6 +251,7 @@ export async function registerTask(
       req.taskMode === "POLLING" ? req.pollingInterval : undefined,
     operations: [],
     listeningOptions: req.listeningOptions,
+    transformations: req.transformations,
   } as OracleTask;
 
   return await manager.registerTask(task);
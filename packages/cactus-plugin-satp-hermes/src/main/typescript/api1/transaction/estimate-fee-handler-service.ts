@@ -0,0 +1,22 @@
+import { LoggerProvider, LogLevelDesc } from "@hyperledger/cactus-common";
+import { EstimateFeeRequest, LedgerFeeEstimate } from "../../public-api";
+import { QuoteManager } from "../../services/gateway/quote-manager";
+
+export async function executeEstimateFee(
+  logLevel: LogLevelDesc,
+  req: EstimateFeeRequest,
+  manager: QuoteManager,
+): Promise<LedgerFeeEstimate> {
+  const fnTag = `executeEstimateFee()`;
+  const logger = LoggerProvider.getOrCreate({
+    label: fnTag,
+    level: logLevel,
+  });
+
+  logger.info(`${fnTag}, executing estimate fee endpoint`);
+
+  if (!req.asset?.networkId) {
+    throw new Error(`${fnTag}, asset with a network ID is required`);
+  }
+  return manager.estimateFee(req.asset);
+}
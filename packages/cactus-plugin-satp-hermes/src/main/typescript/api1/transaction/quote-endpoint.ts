@@ -0,0 +1,89 @@
+import {
+  Checks,
+  IAsyncProvider,
+  Logger,
+  LoggerProvider,
+} from "@hyperledger/cactus-common";
+import {
+  IEndpointAuthzOptions,
+  IExpressRequestHandler,
+  IWebServiceEndpoint,
+} from "@hyperledger/cactus-core-api";
+import type { Express, Request, Response } from "express";
+import type { IRequestOptions } from "../../core/types";
+import OAS from "../../../json/openapi-blo-bundled.json";
+import {
+  handleRestEndpointException,
+  registerWebServiceEndpoint,
+} from "@hyperledger/cactus-core";
+import { QuoteRequest } from "../../generated/gateway-client/typescript-axios/api";
+import { SATPInternalError } from "../../core/errors/satp-errors";
+import { getEnumKeyByValue } from "../../services/utils";
+import { Error as SATPErrorType } from "../../generated/proto/cacti/satp/v02/common/message_pb";
+
+export class QuoteEndpointV1 implements IWebServiceEndpoint {
+  public static readonly CLASS_NAME = "QuoteEndpointV1";
+
+  private readonly log: Logger;
+
+  public get className(): string {
+    return QuoteEndpointV1.CLASS_NAME;
+  }
+
+  constructor(public readonly options: IRequestOptions) {
+    const fnTag = `${this.className}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+    Checks.truthy(options.dispatcher, `${fnTag} arg options.connector`);
+
+    const level = this.options.logLevel || "INFO";
+    const label = this.className;
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  public get oasPath(): (typeof OAS.paths)["/api/v1/@hyperledger/cactus-plugin-satp-hermes/quote"] {
+    return OAS.paths["/api/v1/@hyperledger/cactus-plugin-satp-hermes/quote"];
+  }
+
+  public async registerExpress(
+    expressApp: Express,
+  ): Promise<IWebServiceEndpoint> {
+    await registerWebServiceEndpoint(expressApp, this);
+    return this;
+  }
+  getVerbLowerCase(): string {
+    return this.oasPath.post["x-hyperledger-cacti"].http.verbLowerCase;
+  }
+  getPath(): string {
+    return this.oasPath.post["x-hyperledger-cacti"].http.path;
+  }
+  public getExpressRequestHandler(): IExpressRequestHandler {
+    return this.handleRequest.bind(this);
+  }
+
+  public getOperationId(): string {
+    return OAS.paths["/api/v1/@hyperledger/cactus-plugin-satp-hermes/quote"]
+      .post.operationId;
+  }
+
+  getAuthorizationOptionsProvider(): IAsyncProvider<IEndpointAuthzOptions> {
+    return {
+      get: async () => ({
+        isProtected: true,
+        requiredRoles: [],
+      }),
+    };
+  }
+
+  public async handleRequest(req: Request, res: Response): Promise<void> {
+    const fnTag = `${this.className}#handleRequest()`;
+    const reqTag = `${this.getVerbLowerCase()} - ${this.getPath()}`;
+    const reqBody: QuoteRequest = req.body;
+    try {
+      const result = await this.options.dispatcher.Quote(reqBody);
+      res.json(result);
+    } catch (ex) {
+      const errorMsg = `${reqTag} ${fnTag} Failed to quote: ${getEnumKeyByValue(SATPErrorType, (ex as SATPInternalError).getSATPErrorType())}`;
+      handleRestEndpointException({ errorMsg, log: this.log, error: ex, res });
+    }
+  }
+}
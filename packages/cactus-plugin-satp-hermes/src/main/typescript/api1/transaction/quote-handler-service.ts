@@ -0,0 +1,23 @@
+import { LoggerProvider, LogLevelDesc } from "@hyperledger/cactus-common";
+import { Quote, QuoteRequest } from "../../public-api";
+import { QuoteManager } from "../../services/gateway/quote-manager";
+
+export async function executeQuote(
+  logLevel: LogLevelDesc,
+  req: QuoteRequest,
+  manager: QuoteManager,
+): Promise<Quote> {
+  const fnTag = `executeQuote()`;
+  const logger = LoggerProvider.getOrCreate({
+    label: fnTag,
+    level: logLevel,
+  });
+
+  logger.info(`${fnTag}, executing quote endpoint`);
+
+  const quote = await manager.createQuote(req);
+  logger.debug(
+    `${fnTag}, quote ${quote.quoteId} valid until ${new Date(quote.expiresAt).toISOString()}`,
+  );
+  return quote;
+}
@@ -1,6 +1,9 @@
 import { TransactRequest, TransactResponse } from "../../public-api";
 import { SATPManager } from "../../services/gateway/satp-manager";
-import { populateClientSessionData } from "../../core/session-utils";
+import {
+  populateClientBatchSessionData,
+  populateClientSessionData,
+} from "../../core/session-utils";
 import {
   CredentialProfile,
   LockType,
@@ -82,7 +85,15 @@ export async function executeTransact(
     req.receiverAsset.referenceId,
     req.receiverAsset.networkId.ledgerType,
     req.receiverAsset.tokenType,
+    req.sourceAsset.uniqueDescriptor,
+    req.sourceAsset.metadataUri,
   );
+  if (req.batchAssets && req.batchAssets.length > 0) {
+    logger.info(
+      `${fnTag}, batch transfer with ${req.batchAssets.length} additional legs`,
+    );
+    session = populateClientBatchSessionData(session, req.batchAssets);
+  }
   await manager.transfer(session);
 
   logger.info(`${fnTag}, ${req}`);
@@ -6,3 +6,14 @@ export const SATP_VERSION = "v02";
 export const SATP_CORE_VERSION = "v02";
 export const SATP_ARCHITECTURE_VERSION = "v02";
 export const SATP_CRASH_VERSION = "v02";
+// how long the previous key of a gateway stays valid after a rotation (ms)
+export const DEFAULT_KEY_ROTATION_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+// how long gateway descriptors fetched from the discovery registry are cached (ms)
+export const DEFAULT_DISCOVERY_CACHE_TTL = 60 * 1000;
+// validity of the descriptor a gateway publishes to the discovery registry (ms)
+export const DEFAULT_DESCRIPTOR_TTL = 60 * 60 * 1000;
+// how long a quote issued by the gateway can be referenced by a transfer (ms)
+export const DEFAULT_QUOTE_TTL = 5 * 60 * 1000;
+// local log type of the audit entries of operator interventions, which crash
+// recovery skips as they do not hold session data
+export const INTERVENTION_LOG_TYPE = "intervention";
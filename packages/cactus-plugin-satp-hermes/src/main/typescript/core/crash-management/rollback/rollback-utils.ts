@@ -0,0 +1,92 @@
+import type { SATPLogger as Logger } from "../../satp-logger";
+import {
+  RollbackLogEntrySchema,
+  type RollbackState,
+} from "../../../generated/proto/cacti/satp/v02/service/crash_recovery_pb";
+import { create } from "@bufbuild/protobuf";
+import type { SessionData } from "../../../generated/proto/cacti/satp/v02/session/session_pb";
+import {
+  type Asset as ProtoAsset,
+  ClaimFormat,
+} from "../../../generated/proto/cacti/satp/v02/common/message_pb";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import { BridgeManagerClientInterface } from "../../../cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
+import { SATPBridgeExecutionLayer } from "../../../cross-chain-mechanisms/bridge/satp-bridge-execution-layer";
+import { Asset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
+import { protoToAsset } from "../../stage-services/service-utils";
+import { NetworkId } from "../../../public-api";
+
+/**
+ * Compensates the additional legs of a batch transfer that were already
+ * processed when the session crashed. Only the first `processedLegs` assets
+ * are compensated (in reverse order), and each leg gets its own entry in the
+ * rollback log so that a failing leg does not hide the outcome of the others.
+ *
+ * A leg's claim is persisted before its operation is submitted, so the last
+ * counted leg may have been interrupted before it reached the ledger; its
+ * compensation is still attempted and fails on its own if there is nothing
+ * to undo.
+ */
+export async function compensateBatchLegs(
+  log: Logger,
+  bridgeManager: BridgeManagerClientInterface,
+  sessionData: SessionData,
+  rollbackState: RollbackState,
+  stage: string,
+  action: string,
+  assets: ProtoAsset[],
+  processedLegs: number,
+  compensation: (
+    bridge: SATPBridgeExecutionLayer,
+    asset: Asset,
+  ) => Promise<unknown>,
+): Promise<void> {
+  const fnTag = "RollbackUtils#compensateBatchLegs";
+  const legs = Math.min(processedLegs, assets.length);
+
+  for (let index = legs - 1; index >= 0; index--) {
+    try {
+      const networkId = {
+        id: assets[index].networkId?.id,
+        ledgerType: assets[index].networkId?.type as LedgerType,
+      } as NetworkId;
+
+      const bridge = bridgeManager.getSATPExecutionLayer(
+        networkId,
+        ClaimFormat.DEFAULT,
+      );
+
+      if (!bridge) {
+        throw new Error(`${fnTag}: No bridge found for network: ${networkId}`);
+      }
+
+      const asset: Asset = protoToAsset(assets[index], networkId);
+
+      log.info(`${fnTag} ${action} on batch leg ${index}: ${asset.id}`);
+      await compensation(bridge, asset);
+
+      rollbackState.rollbackLogEntries.push(
+        create(RollbackLogEntrySchema, {
+          sessionId: sessionData.id,
+          stage,
+          timestamp: new Date().toISOString(),
+          action,
+          status: "SUCCESS",
+          details: `Batch leg ${index} compensated`,
+        }),
+      );
+    } catch (error) {
+      log.error(`${fnTag} Error compensating batch leg ${index}: ${error}`);
+      rollbackState.rollbackLogEntries.push(
+        create(RollbackLogEntrySchema, {
+          sessionId: sessionData.id,
+          stage,
+          timestamp: new Date().toISOString(),
+          action,
+          status: "FAILED",
+          details: `Batch leg ${index} compensation failed: ${error}`,
+        }),
+      );
+    }
+  }
+}
@@ -15,8 +15,9 @@ import {
 import { LedgerType } from "@hyperledger/cactus-core-api";
 import { BridgeManagerClientInterface } from "../../../cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
 import { ClaimFormat } from "../../../generated/proto/cacti/satp/v02/common/message_pb";
-import { FungibleAsset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
+import { Asset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
 import { protoToAsset } from "../../stage-services/service-utils";
+import { compensateBatchLegs } from "./rollback-utils";
 import { context, SpanStatusCode } from "@opentelemetry/api";
 import { MonitorService } from "../../../services/monitoring/monitor";
 
@@ -98,7 +99,7 @@ export class Stage0RollbackStrategy implements RollbackStrategy {
   ): Promise<void> {
     const fnTag = "Stage0RollbackStrategy#handleClientSideRollback";
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
-    context.with(ctx, async () => {
+    return context.with(ctx, async () => {
       try {
         try {
           const networkId = {
@@ -121,10 +122,10 @@ export class Stage0RollbackStrategy implements RollbackStrategy {
             throw new Error(`${fnTag}: senderAsset is undefined`);
           }
 
-          const asset: FungibleAsset = protoToAsset(
+          const asset: Asset = protoToAsset(
             clientSessionData.senderAsset,
             networkId,
-          ) as FungibleAsset;
+          );
 
           // Unwrap asset (client)
           this.log.info(`${fnTag} Unwrapping Asset: ${asset}`);
@@ -154,6 +155,18 @@ export class Stage0RollbackStrategy implements RollbackStrategy {
             }),
           );
         }
+
+        await compensateBatchLegs(
+          this.log,
+          this.bridgeManager,
+          clientSessionData,
+          rollbackState,
+          SATPStage[1],
+          "UNWRAP_ASSET_CLIENT",
+          clientSessionData.batchSenderAssets,
+          clientSessionData.batchSenderWrapAssertionClaims.length,
+          (bridge, asset) => bridge.unwrapAsset(asset),
+        );
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
         span.recordException(err);
@@ -198,10 +211,10 @@ export class Stage0RollbackStrategy implements RollbackStrategy {
             throw new Error(`${fnTag}: receiverAsset is undefined`);
           }
 
-          const asset: FungibleAsset = protoToAsset(
+          const asset: Asset = protoToAsset(
             serverSessionData.receiverAsset,
             networkId,
-          ) as FungibleAsset;
+          );
 
           // Unwrap asset (server)
           this.log.info(`${fnTag} Unwrapping Asset: ${asset}`);
@@ -231,6 +244,18 @@ export class Stage0RollbackStrategy implements RollbackStrategy {
             }),
           );
         }
+
+        await compensateBatchLegs(
+          this.log,
+          this.bridgeManager,
+          serverSessionData,
+          rollbackState,
+          SATPStage[1],
+          "UNWRAP_ASSET_SERVER",
+          serverSessionData.batchReceiverAssets,
+          serverSessionData.batchReceiverWrapAssertionClaims.length,
+          (bridge, asset) => bridge.unwrapAsset(asset),
+        );
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
         span.recordException(err);
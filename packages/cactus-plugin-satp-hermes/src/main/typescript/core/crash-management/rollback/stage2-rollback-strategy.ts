@@ -16,9 +16,11 @@ import { ClaimFormat } from "../../../generated/proto/cacti/satp/v02/common/mess
 import { LedgerType } from "@hyperledger/cactus-core-api";
 import { BridgeManagerClientInterface } from "../../../cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
 import { protoToAsset } from "../../stage-services/service-utils";
-import { FungibleAsset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
+import { compensateBatchLegs } from "./rollback-utils";
+import { Asset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
 import { context, SpanStatusCode } from "@opentelemetry/api";
 import { MonitorService } from "../../../services/monitoring/monitor";
+import { NetworkId } from "../../../public-api";
 
 export class Stage2RollbackStrategy implements RollbackStrategy {
   private log: Logger;
@@ -97,32 +99,29 @@ export class Stage2RollbackStrategy implements RollbackStrategy {
   ): Promise<void> {
     const fnTag = "Stage2RollbackStrategy#handleClientSideRollback";
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
-    context.with(ctx, async () => {
+    return context.with(ctx, async () => {
       try {
         try {
-          const networkId = {
-            id: clientSessionData.senderGatewayNetworkId,
-            ledgerType: clientSessionData.senderGatewayNetworkId as LedgerType,
-          };
-          if (!networkId) {
-            throw new Error(
-              `${fnTag}: Missing recipientGatewayNetworkId for server!`,
-            );
+          if (!clientSessionData.senderAsset) {
+            throw new Error(`${fnTag}: senderAsset is undefined`);
           }
 
+          // resolve the bridge from the asset's network, like the batch legs
+          const networkId = {
+            id: clientSessionData.senderAsset.networkId?.id,
+            ledgerType: clientSessionData.senderAsset.networkId
+              ?.type as LedgerType,
+          } as NetworkId;
+
           const bridge = this.bridgeManager.getSATPExecutionLayer(
             networkId,
             ClaimFormat.DEFAULT,
           );
 
-          if (!clientSessionData.senderAsset) {
-            throw new Error(`${fnTag}: senderAsset is undefined`);
-          }
-
-          const asset: FungibleAsset = protoToAsset(
+          const asset: Asset = protoToAsset(
             clientSessionData.senderAsset,
             networkId,
-          ) as FungibleAsset;
+          );
 
           this.log.info(`${fnTag} Unlocking Asset: ${asset}`);
           await bridge.unlockAsset(asset);
@@ -150,6 +149,18 @@ export class Stage2RollbackStrategy implements RollbackStrategy {
             }),
           );
         }
+
+        await compensateBatchLegs(
+          this.log,
+          this.bridgeManager,
+          clientSessionData,
+          rollbackState,
+          SATPStage[3],
+          "UNLOCK_ASSET_CLIENT",
+          clientSessionData.batchSenderAssets,
+          clientSessionData.batchLockAssertionClaims.length,
+          (bridge, asset) => bridge.unlockAsset(asset),
+        );
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
         span.recordException(err);
@@ -14,8 +14,9 @@ import {
 } from "../../../generated/proto/cacti/satp/v02/session/session_pb";
 import { LedgerType } from "@hyperledger/cactus-core-api";
 import { ClaimFormat } from "../../../generated/proto/cacti/satp/v02/common/message_pb";
-import { FungibleAsset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
+import { Asset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
 import { protoToAsset } from "../../stage-services/service-utils";
+import { compensateBatchLegs } from "./rollback-utils";
 import { BridgeManagerClientInterface } from "../../../cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
 import { context, SpanStatusCode } from "@opentelemetry/api";
 import { MonitorService } from "../../../services/monitoring/monitor";
@@ -97,7 +98,7 @@ export class Stage3RollbackStrategy implements RollbackStrategy {
   ): Promise<void> {
     const fnTag = "Stage3RollbackStrategy#handleClientSideRollback";
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
-    context.with(ctx, async () => {
+    return context.with(ctx, async () => {
       try {
         try {
           const networkId = {
@@ -125,10 +126,10 @@ export class Stage3RollbackStrategy implements RollbackStrategy {
             throw new Error(`${fnTag}: receiverAsset is undefined`);
           }
 
-          const asset: FungibleAsset = protoToAsset(
+          const asset: Asset = protoToAsset(
             clientSessionData.senderAsset,
             networkId,
-          ) as FungibleAsset;
+          );
 
           this.log.info(`${fnTag} Minting Asset ${asset}`);
           await bridge.mintAsset(asset);
@@ -156,6 +157,18 @@ export class Stage3RollbackStrategy implements RollbackStrategy {
             }),
           );
         }
+
+        await compensateBatchLegs(
+          this.log,
+          this.bridgeManager,
+          clientSessionData,
+          rollbackState,
+          SATPStage[4],
+          "MINT_ASSET_SOURCE",
+          clientSessionData.batchSenderAssets,
+          clientSessionData.batchBurnAssertionClaims.length,
+          (bridge, asset) => bridge.mintAsset(asset),
+        );
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
         span.recordException(err);
@@ -172,7 +185,7 @@ export class Stage3RollbackStrategy implements RollbackStrategy {
   ): Promise<void> {
     const fnTag = "Stage3RollbackStrategy#handleServerSideRollback";
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
-    context.with(ctx, async () => {
+    return context.with(ctx, async () => {
       try {
         try {
           const networkId = {
@@ -201,10 +214,10 @@ export class Stage3RollbackStrategy implements RollbackStrategy {
             throw new Error(`${fnTag}: senderAsset is undefined`);
           }
 
-          const asset: FungibleAsset = protoToAsset(
+          const asset: Asset = protoToAsset(
             serverSessionData.receiverAsset,
             networkId,
-          ) as FungibleAsset;
+          );
 
           this.log.info(`${fnTag} Burning Asset: ${asset}`);
           await bridge.burnAsset(asset);
@@ -232,6 +245,18 @@ export class Stage3RollbackStrategy implements RollbackStrategy {
             }),
           );
         }
+
+        await compensateBatchLegs(
+          this.log,
+          this.bridgeManager,
+          serverSessionData,
+          rollbackState,
+          SATPStage[4],
+          "BURN_ASSET_DESTINATION",
+          serverSessionData.batchReceiverAssets,
+          serverSessionData.batchMintAssertionClaims.length,
+          (bridge, asset) => bridge.burnAsset(asset),
+        );
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
         span.recordException(err);
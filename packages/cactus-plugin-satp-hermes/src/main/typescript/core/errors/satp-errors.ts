@@ -1,6 +1,7 @@
 import { asError } from "@hyperledger/cactus-common";
 import { RuntimeError } from "run-time-error-cjs";
 import { Error as SATPErrorType } from "../../generated/proto/cacti/satp/v02/common/message_pb";
+import type { LogChainIssue } from "../../database/log-chain";
 export class SATPInternalError extends RuntimeError {
   protected errorType = SATPErrorType.UNSPECIFIED;
   constructor(
@@ -128,5 +129,90 @@ export class BLODispatcherErraneousError extends SATPInternalError {
     );
   }
 }
+export class KeyRotationError extends SATPInternalError {
+  constructor(tag: string, message: string, cause?: string | Error | null) {
+    super(`${tag}, key rotation rejected: ${message}`, cause ?? null, 400);
+  }
+}
+
+export class GatewayDescriptorError extends SATPInternalError {
+  constructor(tag: string, message: string, cause?: string | Error | null) {
+    super(`${tag}, invalid gateway descriptor: ${message}`, cause ?? null, 400);
+  }
+}
+
+export class GatewayDiscoveryError extends SATPInternalError {
+  constructor(tag: string, message: string, cause?: string | Error | null) {
+    super(`${tag}, gateway discovery failed: ${message}`, cause ?? null, 500);
+  }
+}
+
+export class PeerCertificateError extends SATPInternalError {
+  constructor(tag: string, message: string, cause?: string | Error | null) {
+    super(`${tag}, peer certificate rejected: ${message}`, cause ?? null, 401);
+  }
+}
+export class RouteNotSupportedError extends SATPInternalError {
+  constructor(tag: string, message: string, cause?: string | Error | null) {
+    super(`${tag}, route not supported: ${message}`, cause ?? null, 400);
+  }
+}
+
+export class CounterpartyUnavailableError extends SATPInternalError {
+  constructor(tag: string, gatewayId: string, cause?: string | Error | null) {
+    super(
+      `${tag}, counterparty gateway ${gatewayId} is unavailable`,
+      cause ?? null,
+      503,
+    );
+  }
+}
+
+export class QuoteError extends SATPInternalError {
+  constructor(tag: string, message: string, cause?: string | Error | null) {
+    super(`${tag}, quote rejected: ${message}`, cause ?? null, 400);
+  }
+}
+
+export class LogChainVerificationError extends SATPInternalError {
+  constructor(
+    tag: string,
+    public issues: LogChainIssue[],
+    cause?: string | Error | null,
+  ) {
+    super(
+      `${tag}, log chain verification failed: ${issues
+        .map((issue) => `entry ${issue.index}: ${issue.reason}`)
+        .join("; ")}`,
+      cause ?? null,
+      500,
+    );
+  }
+}
+export class AppendOnlyLogError extends SATPInternalError {
+  constructor(tag: string, message: string, cause?: string | Error | null) {
+    super(`${tag}, the log is append-only: ${message}`, cause ?? null, 405);
+  }
+}
+export class SessionNotFoundError extends SATPInternalError {
+  constructor(tag: string, sessionId: string, cause?: string | Error | null) {
+    super(`${tag}, session ${sessionId} not found`, cause ?? null, 404);
+  }
+}
+
+export class SessionInterventionError extends SATPInternalError {
+  constructor(
+    tag: string,
+    sessionId: string,
+    message: string,
+    cause?: string | Error | null,
+  ) {
+    super(
+      `${tag}, cannot intervene in session ${sessionId}: ${message}`,
+      cause ?? null,
+      409,
+    );
+  }
+}
 // TODO client-facing error logic, maps SATPInternalErrors to user friendly errors
 export class SATPError extends Error {}
@@ -194,6 +194,22 @@ export class DLTNotSupportedError extends SATPInternalError {
   }
 }
 
+export class TokenTypeNotSupportedError extends SATPInternalError {
+  constructor(
+    tag: string,
+    dlt: string,
+    tokenType: string,
+    cause?: string | Error | null,
+  ) {
+    super(
+      `${tag}, token type ${tokenType} not supported by DLT ${dlt}`,
+      cause ?? null,
+      400,
+    );
+    this.errorType = SATPErrorType.DLT_NOT_SUPPORTED;
+  }
+}
+
 export class ServerGatewayPubkeyError extends SATPInternalError {
   constructor(tag: string, cause?: string | Error | null) {
     super(
@@ -402,6 +418,28 @@ export class AmountMissingError extends SATPInternalError {
     this.errorType = SATPErrorType.MISSING_PARAMETER;
   }
 }
+export class BatchLegsMismatchError extends SATPInternalError {
+  constructor(
+    tag: string,
+    field: string,
+    expected: number,
+    received: number,
+    cause?: string | Error | null,
+  ) {
+    super(
+      `${tag}, ${field} has ${received} batch legs, expected ${expected}`,
+      cause ?? null,
+      400,
+    );
+    this.errorType = SATPErrorType.INCORRECT_PARAMETER;
+  }
+}
+export class UniqueDescriptorMissingError extends SATPInternalError {
+  constructor(tag: string, cause?: string | Error | null) {
+    super(`${tag}, Unique descriptor missing`, cause ?? null, 400);
+    this.errorType = SATPErrorType.MISSING_PARAMETER;
+  }
+}
 export class MissingRecipientError extends SATPInternalError {
   constructor(tag: string, cause?: string | Error | null) {
     super(`${tag}, Recipient is missing`, cause ?? null, 400);
@@ -0,0 +1,83 @@
+import {
+  type KeyRotationAnnouncement,
+  KeyRotationAnnouncementSchema,
+} from "../../generated/proto/cacti/satp/v02/service/key_rotation_pb";
+import type { JsObjectSigner } from "@hyperledger/cactus-common";
+import type { SATPLogger as Logger } from "../../core/satp-logger";
+import { create } from "@bufbuild/protobuf";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { bufArray2HexStr, sign } from "../../gateway-utils";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+import { MonitorService } from "../../services/monitoring/monitor";
+
+/**
+ * Returns the canonical payload signed by both keys of an announcement,
+ * i.e. the announcement without its signatures.
+ */
+export function getAnnouncementPayload(
+  announcement: KeyRotationAnnouncement,
+): string {
+  return safeStableStringify({
+    ...announcement,
+    previousKeySignature: "",
+    newKeySignature: "",
+  }) as string;
+}
+
+export class KeyRotationClientService {
+  constructor(
+    private readonly log: Logger,
+    private readonly monitorService: MonitorService,
+  ) {
+    this.log = log;
+    this.log.trace(`Initialized ${KeyRotationClientService.name}`);
+    this.monitorService = monitorService;
+  }
+
+  /**
+   * Creates an announcement signed with both the previous and the new key,
+   * proving the gateway holds the key it is rotating away from.
+   */
+  public createAnnouncement(
+    gatewayId: string,
+    previousSigner: JsObjectSigner,
+    previousPublicKey: string,
+    newSigner: JsObjectSigner,
+    newPublicKey: string,
+    gracePeriod: number,
+  ): KeyRotationAnnouncement {
+    const fnTag = `${KeyRotationClientService.name}#createAnnouncement`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, () => {
+      try {
+        this.log.debug(`${fnTag} - Creating announcement for ${gatewayId}`);
+
+        const announcement = create(KeyRotationAnnouncementSchema, {
+          gatewayId,
+          previousPublicKey,
+          newPublicKey,
+          rotationTimestamp: BigInt(Date.now()),
+          gracePeriod: BigInt(gracePeriod),
+          previousKeySignature: "",
+          newKeySignature: "",
+        });
+
+        const payload = getAnnouncementPayload(announcement);
+        announcement.previousKeySignature = bufArray2HexStr(
+          sign(previousSigner, payload),
+        );
+        announcement.newKeySignature = bufArray2HexStr(
+          sign(newSigner, payload),
+        );
+
+        return announcement;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+}
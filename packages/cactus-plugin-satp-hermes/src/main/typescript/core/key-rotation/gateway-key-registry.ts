@@ -0,0 +1,259 @@
+import { KeyRotationError } from "../errors/satp-errors";
+import type { GatewayKeyEntry } from "../types";
+import type { IGatewayKeyRepository } from "../../database/repository/interfaces/repository";
+import type { GatewayKeyChange } from "../../services/network-identification/discovery/gateway-descriptor";
+
+export interface GatewayKeyRecord {
+  gatewayId: string;
+  publicKey: string;
+  activeSince: number;
+  // set once the key has been rotated out
+  expiresAt?: number;
+  // the key this one replaced
+  previousPublicKey?: string;
+  // signature of the previous key over this one, see GatewayKeyChange
+  keyChangeSignature?: string;
+}
+
+export type KeyRotationListener = (
+  gatewayId: string,
+  previousPublicKey: string,
+  newPublicKey: string,
+) => void;
+
+/**
+ * Keeps track of the signing keys announced by each gateway.
+ * When a gateway rotates its key, the previous key stays valid until the
+ * grace period ends, and sessions that recorded the previous key keep
+ * accepting messages signed with any live key of the same gateway.
+ * When a repository is given, rotations are stored before they take effect
+ * and can be restored after a restart.
+ */
+export class GatewayKeyRegistry {
+  public static readonly CLASS_NAME = "GatewayKeyRegistry";
+  private readonly records: Map<string, GatewayKeyRecord> = new Map();
+  private readonly lastRotation: Map<string, number> = new Map();
+  private readonly listeners: KeyRotationListener[] = [];
+
+  constructor(
+    private readonly maxGracePeriod: number,
+    private readonly repository?: IGatewayKeyRepository,
+  ) {}
+
+  public registerKey(gatewayId: string, publicKey: string): void {
+    if (!this.records.has(publicKey)) {
+      this.records.set(publicKey, {
+        gatewayId,
+        publicKey,
+        activeSince: Date.now(),
+      });
+    }
+  }
+
+  public getCurrentKey(gatewayId: string): string | undefined {
+    return Array.from(this.records.values()).find(
+      (record) =>
+        record.gatewayId === gatewayId && record.expiresAt === undefined,
+    )?.publicKey;
+  }
+
+  public onRotation(listener: KeyRotationListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Records that `gatewayId` replaced `previousPublicKey` by `newPublicKey`.
+   * The grace period is capped by the one configured for this registry.
+   * `privateKey` is the new private key and `keyChangeSignature` the
+   * endorsement of the new key by the previous one, when the rotation is our
+   * own. Nothing changes if the rotation could not be stored.
+   */
+  public async recordRotation(
+    gatewayId: string,
+    previousPublicKey: string,
+    newPublicKey: string,
+    rotationTimestamp: number,
+    gracePeriod: number,
+    privateKey?: string,
+    keyChangeSignature?: string,
+  ): Promise<void> {
+    const fnTag = `${GatewayKeyRegistry.CLASS_NAME}#recordRotation()`;
+    const lastRotation = this.lastRotation.get(gatewayId);
+    if (lastRotation !== undefined && rotationTimestamp <= lastRotation) {
+      throw new KeyRotationError(fnTag, "stale rotation timestamp");
+    }
+
+    const current = this.getCurrentKey(gatewayId);
+    if (current !== undefined && current !== previousPublicKey) {
+      throw new KeyRotationError(
+        fnTag,
+        `previous key is not the current key of gateway ${gatewayId}`,
+      );
+    }
+    if (this.records.has(newPublicKey)) {
+      throw new KeyRotationError(fnTag, "new key was already used");
+    }
+
+    const previousRecord: GatewayKeyRecord = {
+      ...(this.records.get(previousPublicKey) ?? {
+        gatewayId,
+        publicKey: previousPublicKey,
+        activeSince: Date.now(),
+      }),
+      expiresAt: rotationTimestamp + Math.min(gracePeriod, this.maxGracePeriod),
+    };
+    const newRecord: GatewayKeyRecord = {
+      gatewayId,
+      publicKey: newPublicKey,
+      activeSince: rotationTimestamp,
+      previousPublicKey,
+      ...(keyChangeSignature !== undefined ? { keyChangeSignature } : {}),
+    };
+
+    if (this.repository) {
+      try {
+        await this.repository.createAll([
+          this.toEntry(previousRecord),
+          this.toEntry(newRecord, privateKey),
+        ]);
+      } catch (error) {
+        throw new KeyRotationError(
+          fnTag,
+          "could not store the rotation",
+          error,
+        );
+      }
+    }
+
+    this.records.set(previousPublicKey, previousRecord);
+    this.records.set(newPublicKey, newRecord);
+    this.lastRotation.set(gatewayId, rotationTimestamp);
+
+    this.listeners.forEach((listener) =>
+      listener(gatewayId, previousPublicKey, newPublicKey),
+    );
+  }
+
+  /**
+   * Returns the endorsed rotations of `gatewayId`, oldest first, as published
+   * in its gateway descriptor.
+   */
+  public getKeyChain(gatewayId: string): GatewayKeyChange[] {
+    return Array.from(this.records.values())
+      .filter(
+        (record) =>
+          record.gatewayId === gatewayId &&
+          record.previousPublicKey !== undefined &&
+          record.keyChangeSignature !== undefined,
+      )
+      .sort((a, b) => a.activeSince - b.activeSince)
+      .map((record) => ({
+        previousPubKey: record.previousPublicKey!,
+        pubKey: record.publicKey,
+        signature: record.keyChangeSignature!,
+      }));
+  }
+
+  /**
+   * Loads the stored rotations, replacing the keys registered from the
+   * configuration for every gateway that rotated, and notifies the listeners
+   * of the key each of those gateways uses now.
+   */
+  public async restore(): Promise<void> {
+    if (!this.repository) {
+      return;
+    }
+    const entries = (await this.repository.readAll()).map((entry) =>
+      this.fromEntry(entry),
+    );
+    const gatewayIds = new Set(entries.map((record) => record.gatewayId));
+
+    const previousKeys = new Map<string, string | undefined>();
+    for (const gatewayId of gatewayIds) {
+      previousKeys.set(gatewayId, this.getCurrentKey(gatewayId));
+      for (const record of Array.from(this.records.values())) {
+        if (record.gatewayId === gatewayId) {
+          this.records.delete(record.publicKey);
+        }
+      }
+    }
+    for (const record of entries) {
+      this.records.set(record.publicKey, record);
+      if (record.previousPublicKey !== undefined) {
+        this.lastRotation.set(
+          record.gatewayId,
+          Math.max(
+            this.lastRotation.get(record.gatewayId) ?? 0,
+            record.activeSince,
+          ),
+        );
+      }
+    }
+
+    for (const [gatewayId, previousKey] of previousKeys) {
+      const current = this.getCurrentKey(gatewayId);
+      if (
+        current !== undefined &&
+        previousKey !== undefined &&
+        current !== previousKey
+      ) {
+        this.listeners.forEach((listener) =>
+          listener(gatewayId, previousKey, current),
+        );
+      }
+    }
+  }
+
+  private toEntry(
+    record: GatewayKeyRecord,
+    privateKey?: string,
+  ): GatewayKeyEntry {
+    return {
+      publicKey: record.publicKey,
+      gatewayId: record.gatewayId,
+      activeSince: record.activeSince,
+      expiresAt: record.expiresAt ?? null,
+      previousPublicKey: record.previousPublicKey ?? null,
+      keyChangeSignature: record.keyChangeSignature ?? null,
+      // the private key of a rotated-out key is no longer needed
+      privateKey: privateKey ?? null,
+    };
+  }
+
+  private fromEntry(entry: GatewayKeyEntry): GatewayKeyRecord {
+    // bigint columns may come back as strings
+    return {
+      gatewayId: entry.gatewayId,
+      publicKey: entry.publicKey,
+      activeSince: Number(entry.activeSince),
+      ...(entry.expiresAt !== null && entry.expiresAt !== undefined
+        ? { expiresAt: Number(entry.expiresAt) }
+        : {}),
+      ...(entry.previousPublicKey
+        ? { previousPublicKey: entry.previousPublicKey }
+        : {}),
+      ...(entry.keyChangeSignature
+        ? { keyChangeSignature: entry.keyChangeSignature }
+        : {}),
+    };
+  }
+
+  /**
+   * Returns the keys a message may be signed with when the session recorded
+   * `publicKey` for its counterparty. Keys never seen in a rotation are
+   * returned as is.
+   */
+  public getAcceptedKeys(publicKey: string, now = Date.now()): string[] {
+    const record = this.records.get(publicKey);
+    if (record === undefined) {
+      return [publicKey];
+    }
+    return Array.from(this.records.values())
+      .filter(
+        (candidate) =>
+          candidate.gatewayId === record.gatewayId &&
+          (candidate.expiresAt === undefined || candidate.expiresAt > now),
+      )
+      .map((candidate) => candidate.publicKey);
+  }
+}
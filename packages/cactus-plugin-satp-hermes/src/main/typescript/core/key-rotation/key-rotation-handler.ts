@@ -0,0 +1,110 @@
+import type { ConnectRouter } from "@connectrpc/connect";
+import type { SATPLogger as Logger } from "../../core/satp-logger";
+import {
+  KeyRotationService,
+  type KeyRotationAcknowledgement,
+  type KeyRotationAnnouncement,
+} from "../../generated/proto/cacti/satp/v02/service/key_rotation_pb";
+import type { KeyRotationServerService } from "./server-service";
+import type { KeyRotationClientService } from "./client-service";
+import type { JsObjectSigner } from "@hyperledger/cactus-common";
+import { type SATPHandler, SATPHandlerType } from "../../types/satp-protocol";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+import { MonitorService } from "../../services/monitoring/monitor";
+
+export class KeyRotationHandler implements SATPHandler {
+  private readonly log: Logger;
+
+  constructor(
+    private readonly serverService: KeyRotationServerService,
+    private readonly clientService: KeyRotationClientService,
+    log: Logger,
+    private readonly monitorService: MonitorService,
+  ) {
+    this.log = log;
+    this.log.trace(`Initialized ${KeyRotationHandler.name}`);
+    this.monitorService = monitorService;
+  }
+
+  public getHandlerIdentifier(): SATPHandlerType {
+    return SATPHandlerType.KEY_ROTATION;
+  }
+
+  public getHandlerSessions(): string[] {
+    return [];
+  }
+
+  public getStage(): string {
+    return "key-rotation";
+  }
+
+  // Server-side
+
+  private async announceKeyRotationImplementation(
+    req: KeyRotationAnnouncement,
+  ): Promise<KeyRotationAcknowledgement> {
+    const fnTag = `${KeyRotationHandler.name}#announceKeyRotationImplementation`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag} - Handling KeyRotationAnnouncement`);
+        try {
+          return await this.serverService.handleAnnouncement(req);
+        } catch (error) {
+          this.log.error(`${fnTag} - Error:`, error);
+          throw error;
+        }
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  public setupRouter(router: ConnectRouter): void {
+    const fnTag = `${KeyRotationHandler.name}#setupRouter`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, () => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        const that = this;
+        router.service(KeyRotationService, {
+          async announceKeyRotation(req) {
+            return await that.announceKeyRotationImplementation(req);
+          },
+        });
+
+        this.log.info("Router setup completed for KeyRotationHandler");
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  // Client-side
+
+  public createAnnouncement(
+    gatewayId: string,
+    previousSigner: JsObjectSigner,
+    previousPublicKey: string,
+    newSigner: JsObjectSigner,
+    newPublicKey: string,
+    gracePeriod: number,
+  ): KeyRotationAnnouncement {
+    return this.clientService.createAnnouncement(
+      gatewayId,
+      previousSigner,
+      previousPublicKey,
+      newSigner,
+      newPublicKey,
+      gracePeriod,
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  JsObjectSigner,
+  type IJsObjectSignerOptions,
+} from "@hyperledger/cactus-common";
+
+/**
+ * A {@link JsObjectSigner} whose key pair can be replaced at runtime.
+ * Every service of the gateway holds the same instance, so messages signed
+ * after a rotation use the new key without re-wiring the services.
+ */
+export class RotatableObjectSigner extends JsObjectSigner {
+  private current: JsObjectSigner;
+  private _pubKey: string;
+
+  constructor(options: IJsObjectSignerOptions, pubKey: string) {
+    super(options);
+    this.current = new JsObjectSigner(options);
+    this._pubKey = pubKey;
+  }
+
+  public get pubKey(): string {
+    return this._pubKey;
+  }
+
+  /**
+   * Replaces the signing key.
+   * @param privateKey - The new private key, as bytes or hex.
+   * @param pubKey - The hex encoded public key matching `privateKey`.
+   * @returns The signer of the previous key, to sign the rotation handshake.
+   */
+  public rotate(
+    privateKey: Uint8Array | string,
+    pubKey: string,
+  ): JsObjectSigner {
+    const previous = this.current;
+    this.current = new JsObjectSigner({ ...this.options, privateKey });
+    this._pubKey = pubKey;
+    return previous;
+  }
+
+  public override sign(msg: unknown): Uint8Array {
+    return this.current.sign(msg);
+  }
+}
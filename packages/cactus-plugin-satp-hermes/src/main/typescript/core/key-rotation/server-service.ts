@@ -0,0 +1,109 @@
+import {
+  type KeyRotationAcknowledgement,
+  KeyRotationAcknowledgementSchema,
+  type KeyRotationAnnouncement,
+} from "../../generated/proto/cacti/satp/v02/service/key_rotation_pb";
+import type { JsObjectSigner } from "@hyperledger/cactus-common";
+import type { SATPLogger as Logger } from "../../core/satp-logger";
+import { create } from "@bufbuild/protobuf";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { bufArray2HexStr, sign } from "../../gateway-utils";
+import { KeyRotationError } from "../errors/satp-errors";
+import type { GatewayKeyRegistry } from "./gateway-key-registry";
+import { getAnnouncementPayload } from "./client-service";
+import type { GatewayOrchestrator } from "../../services/gateway/gateway-orchestrator";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+import { MonitorService } from "../../services/monitoring/monitor";
+
+export class KeyRotationServerService {
+  constructor(
+    private readonly orchestrator: GatewayOrchestrator,
+    private readonly keyRegistry: GatewayKeyRegistry,
+    private readonly signer: JsObjectSigner,
+    private readonly log: Logger,
+    private readonly monitorService: MonitorService,
+  ) {
+    this.log = log;
+    this.log.trace(`Initialized ${KeyRotationServerService.name}`);
+    this.monitorService = monitorService;
+  }
+
+  public async handleAnnouncement(
+    req: KeyRotationAnnouncement,
+  ): Promise<KeyRotationAcknowledgement> {
+    const fnTag = `${KeyRotationServerService.name}#handleAnnouncement`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag} - Handling KeyRotationAnnouncement:`,
+          req.gatewayId,
+        );
+
+        const identity = this.orchestrator.getCounterPartyGateway(
+          req.gatewayId,
+        );
+        if (!identity) {
+          throw new KeyRotationError(fnTag, `unknown gateway ${req.gatewayId}`);
+        }
+
+        const expectedKey =
+          this.keyRegistry.getCurrentKey(req.gatewayId) ?? identity.pubKey;
+        if (req.previousPublicKey !== expectedKey) {
+          throw new KeyRotationError(
+            fnTag,
+            `previous key does not match the known key of ${req.gatewayId}`,
+          );
+        }
+
+        const payload = getAnnouncementPayload(req);
+        if (
+          !this.verify(payload, req.previousKeySignature, req.previousPublicKey)
+        ) {
+          throw new KeyRotationError(fnTag, "invalid previous key signature");
+        }
+        if (!this.verify(payload, req.newKeySignature, req.newPublicKey)) {
+          throw new KeyRotationError(fnTag, "invalid new key signature");
+        }
+
+        await this.keyRegistry.recordRotation(
+          req.gatewayId,
+          req.previousPublicKey,
+          req.newPublicKey,
+          Number(req.rotationTimestamp),
+          Number(req.gracePeriod),
+        );
+        this.orchestrator.updateGatewayPubKey(req.gatewayId, req.newPublicKey);
+
+        this.log.info(`${fnTag} - Gateway ${req.gatewayId} rotated its key`);
+
+        const acknowledgement = create(KeyRotationAcknowledgementSchema, {
+          gatewayId: this.orchestrator.getSelfId(),
+          acceptedPublicKey: req.newPublicKey,
+          accepted: true,
+          serverSignature: "",
+        });
+
+        acknowledgement.serverSignature = bufArray2HexStr(
+          sign(this.signer, safeStableStringify(acknowledgement)),
+        );
+
+        return acknowledgement;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  private verify(payload: string, signature: string, pubKey: string): boolean {
+    return this.signer.verify(
+      payload,
+      new Uint8Array(Buffer.from(signature, "hex")),
+      new Uint8Array(Buffer.from(pubKey, "hex")),
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { create, isMessage } from "@bufbuild/protobuf";
 import {
+  type Asset as ProtoAsset,
   AssetSchema,
   CredentialProfile,
   Error as SATPError,
@@ -59,7 +60,11 @@ import { SATPInternalError } from "./errors/satp-errors";
 import { SATPSession } from "./satp-session";
 
 import { v4 as uuidv4 } from "uuid";
-import { TokenType } from "../public-api";
+import {
+  TokenType,
+  TransactRequestBatchAssetsInner,
+  TransactRequestSourceAsset,
+} from "../public-api";
 import { TokenType as ProtoTokenType } from "../generated/proto/cacti/satp/v02/common/message_pb";
 
 export enum TimestampType {
@@ -105,6 +110,8 @@ export function populateClientSessionData(
   receiverAssetReferenceId: string,
   receiverAssetNetworkType: string,
   receiverAssetTokenType: TokenType,
+  uniqueDescriptor?: string,
+  metadataUri?: string,
 ): SATPSession {
   const fn = "session_utils#populateClientSessionData";
   const sessionData = session.getClientSessionData();
@@ -130,6 +137,8 @@ export function populateClientSessionData(
     contractName: sourceContractName,
     contractAddress: sourceContractAddress || "",
     amount: BigInt(fromAmount || "0"),
+    uniqueDescriptor: uniqueDescriptor || "",
+    metadataUri: metadataUri || "",
     mspId: sourceMspId,
     channelName: sourceChannelName,
     networkId: create(NetworkIdSchema, {
@@ -146,6 +155,8 @@ export function populateClientSessionData(
     contractName: receiverContractName,
     contractAddress: receiverContractAddress || "",
     amount: BigInt(toAmount || "0"),
+    uniqueDescriptor: uniqueDescriptor || "",
+    metadataUri: metadataUri || "",
     mspId: receiverMspId,
     channelName: receiverChannelName,
     networkId: create(NetworkIdSchema, {
@@ -160,6 +171,57 @@ export function populateClientSessionData(
   return session;
 }
 
+/**
+ * Adds the additional legs of an atomic batch transfer to the client session.
+ * The first leg of the batch is the one set by populateClientSessionData, every
+ * other leg is kept in batchSenderAssets and batchReceiverAssets, in the order
+ * in which it will be processed.
+ */
+export function populateClientBatchSessionData(
+  session: SATPSession,
+  batchAssets: TransactRequestBatchAssetsInner[],
+): SATPSession {
+  const fn = "session_utils#populateClientBatchSessionData";
+  const sessionData = session.getClientSessionData();
+  if (!sessionData) {
+    throw new Error(fn + ":Session Data is undefined");
+  }
+  sessionData.batchSenderAssets = batchAssets.map((leg) =>
+    apiAssetToProto(
+      leg.sourceAsset,
+      uuidv4() + "-" + sessionData.transferContextId,
+    ),
+  );
+  sessionData.batchReceiverAssets = batchAssets.map((leg) =>
+    apiAssetToProto(leg.receiverAsset, ""),
+  );
+
+  return session;
+}
+
+function apiAssetToProto(
+  asset: TransactRequestSourceAsset,
+  tokenId: string,
+): ProtoAsset {
+  return create(AssetSchema, {
+    tokenId,
+    referenceId: asset.referenceId,
+    owner: asset.owner,
+    contractName: asset.contractName,
+    contractAddress: asset.contractAddress || "",
+    amount: BigInt(asset.amount || "0"),
+    uniqueDescriptor: asset.uniqueDescriptor || "",
+    metadataUri: asset.metadataUri || "",
+    mspId: asset.mspId || "",
+    channelName: asset.channelName || "",
+    networkId: create(NetworkIdSchema, {
+      id: asset.networkId.id,
+      type: asset.networkId.ledgerType,
+    }),
+    tokenType: getEnumValueByKey(ProtoTokenType, asset.tokenType),
+  });
+}
+
 export function copySessionDataAttributes(
   srcSessionData: SessionData,
   destSessionData: SessionData,
@@ -246,6 +308,20 @@ export function copySessionDataAttributes(
     srcSessionData.receiverWrapAssertionClaim;
   destSessionData.senderAsset = srcSessionData.senderAsset;
   destSessionData.receiverAsset = srcSessionData.receiverAsset;
+  destSessionData.batchSenderAssets = srcSessionData.batchSenderAssets;
+  destSessionData.batchReceiverAssets = srcSessionData.batchReceiverAssets;
+  destSessionData.batchSenderWrapAssertionClaims =
+    srcSessionData.batchSenderWrapAssertionClaims;
+  destSessionData.batchReceiverWrapAssertionClaims =
+    srcSessionData.batchReceiverWrapAssertionClaims;
+  destSessionData.batchLockAssertionClaims =
+    srcSessionData.batchLockAssertionClaims;
+  destSessionData.batchMintAssertionClaims =
+    srcSessionData.batchMintAssertionClaims;
+  destSessionData.batchBurnAssertionClaims =
+    srcSessionData.batchBurnAssertionClaims;
+  destSessionData.batchAssignmentAssertionClaims =
+    srcSessionData.batchAssignmentAssertionClaims;
   destSessionData.state = srcSessionData.state;
   destSessionData.errorCode = srcSessionData.errorCode;
   destSessionData.phaseError = srcSessionData.phaseError;
@@ -39,6 +39,7 @@ export class Stage0SATPHandler implements SATPHandler {
   private clientService: Stage0ClientService;
   private logger: Logger;
   private pubKeys: Map<string, string>;
+  private resolvePubKey?: (gatewayId: string) => Promise<string | undefined>;
   private gatewayId: string;
   private readonly monitorService: MonitorService;
   constructor(ops: SATPHandlerOptions) {
@@ -52,6 +53,7 @@ export class Stage0SATPHandler implements SATPHandler {
     );
     this.logger.trace(`Initialized ${Stage0SATPHandler.CLASS_NAME}`);
     this.pubKeys = ops.pubkeys;
+    this.resolvePubKey = ops.resolvePubKey;
     this.gatewayId = ops.gatewayId;
   }
   getHandlerSessions(): string[] {
@@ -92,7 +94,11 @@ export class Stage0SATPHandler implements SATPHandler {
           }
 
           if (!this.pubKeys.has(req.gatewayId)) {
-            throw new PubKeyError(fnTag);
+            const pubKey = await this.resolvePubKey?.(req.gatewayId);
+            if (!pubKey) {
+              throw new PubKeyError(fnTag);
+            }
+            this.pubKeys.set(req.gatewayId, pubKey);
           }
 
           session = await this.serverService.checkNewSessionRequest(
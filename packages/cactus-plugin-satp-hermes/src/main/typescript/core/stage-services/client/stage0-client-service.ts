@@ -16,7 +16,6 @@ import { stringify as safeStableStringify } from "safe-stable-stringify";
 
 import { FailedToProcessError } from "../../errors/satp-handler-errors";
 import {
-  AmountMissingError,
   HashError,
   LedgerAssetError,
   LedgerAssetIdError,
@@ -40,14 +39,21 @@ import {
   TimestampType,
 } from "../../session-utils";
 import { signatureVerifier } from "../data-verifier";
-import { type FungibleAsset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
+import { type Asset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
 import {
   SATPService,
   SATPServiceType,
   ISATPClientServiceOptions,
   ISATPServiceOptions,
 } from "../satp-service";
-import { protoToAsset } from "../service-utils";
+import {
+  checkAssetQuantity,
+  checkBatchLegs,
+  checkSupportedTokenTypes,
+  describeAssetQuantity,
+  executeBatchLegs,
+  protoToAsset,
+} from "../service-utils";
 import { getMessageTypeName } from "../../satp-utils";
 import { LedgerType } from "@hyperledger/cactus-core-api";
 import { BridgeManagerClientInterface } from "../../../cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
@@ -239,7 +245,13 @@ export class Stage0ClientService extends SATPService {
           );
         }
 
-        signatureVerifier(fnTag, this.Signer, response, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          response,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         saveTimestamp(
           sessionData,
@@ -336,6 +348,27 @@ export class Stage0ClientService extends SATPService {
             throw new LedgerAssetError(`${fnTag}, tokenType is missing`);
           }
 
+          checkBatchLegs(
+            fnTag,
+            "batchReceiverAssets",
+            sessionData.batchSenderAssets.length,
+            sessionData.batchReceiverAssets.length,
+          );
+
+          checkBatchLegs(
+            fnTag,
+            "batchSenderWrapAssertionClaims",
+            sessionData.batchSenderAssets.length,
+            sessionData.batchSenderWrapAssertionClaims.length,
+          );
+
+          checkSupportedTokenTypes(
+            fnTag,
+            [sessionData.senderAsset, ...sessionData.batchSenderAssets],
+            this.bridgeManager,
+            this.claimFormat,
+          );
+
           sessionData.senderGatewayNetworkId = bridge.getApproveAddress(
             sessionData.senderAsset?.tokenType,
           );
@@ -349,6 +382,10 @@ export class Stage0ClientService extends SATPService {
             receiverAsset: sessionData.receiverAsset,
             wrapAssertionClaim: sessionData.senderWrapAssertionClaim,
             messageType: MessageType.PRE_SATP_TRANSFER_REQUEST,
+            batchSenderAssets: sessionData.batchSenderAssets,
+            batchReceiverAssets: sessionData.batchReceiverAssets,
+            batchWrapAssertionClaims:
+              sessionData.batchSenderWrapAssertionClaims,
           });
 
           preSATPTransferRequest.hashPreviousMessage = getMessageHash(
@@ -453,23 +490,18 @@ export class Stage0ClientService extends SATPService {
             ledgerType: sessionData.senderAsset.networkId?.type as LedgerType,
           } as NetworkId;
 
-          const token: FungibleAsset = protoToAsset(
-            sessionData.senderAsset,
-            networkId,
-          ) as FungibleAsset;
+          const token: Asset = protoToAsset(sessionData.senderAsset, networkId);
 
           if (token.id == undefined) {
             throw new TokenIdMissingError(fnTag);
           }
 
-          if (token.amount == undefined) {
-            throw new AmountMissingError(fnTag);
-          }
+          checkAssetQuantity(fnTag, token);
 
           this.Log.debug(`${fnTag}, Wrap: ${safeStableStringify(token)}`);
 
           this.Log.debug(
-            `${fnTag}, Wrap Asset ID: ${token.id} amount: ${(token as FungibleAsset).amount.toString()}`,
+            `${fnTag}, Wrap Asset ID: ${token.id} ${describeAssetQuantity(token)}`,
           );
 
           const bridge = this.bridgeManager.getSATPExecutionLayer(
@@ -496,6 +528,27 @@ export class Stage0ClientService extends SATPService {
             sign(this.Signer, sessionData.senderWrapAssertionClaim.receipt),
           );
 
+          sessionData.batchSenderWrapAssertionClaims = [];
+
+          await executeBatchLegs(
+            fnTag,
+            sessionData.batchSenderAssets,
+            this.bridgeManager,
+            this.claimFormat,
+            this.Signer,
+            (executionLayer, asset) => executionLayer.wrapAsset(asset),
+            sessionData.batchSenderWrapAssertionClaims,
+            () => create(WrapAssertionClaimSchema, {}),
+            (operation) =>
+              this.dbLogger.storeProof({
+                sessionID: sessionData.id,
+                type: "wrap-token-client",
+                operation,
+                data: safeStableStringify(sessionData),
+                sequenceNumber: Number(sessionData.lastSequenceNumber),
+              }),
+          );
+
           this.dbLogger.storeProof({
             sessionID: sessionData.id,
             type: "wrap-token-client",
@@ -31,6 +31,7 @@ import {
   ISATPServiceOptions,
 } from "../satp-service";
 import { commonBodyVerifier, signatureVerifier } from "../data-verifier";
+import { checkBatchLegs } from "../service-utils";
 import { State } from "../../../generated/proto/cacti/satp/v02/session/session_pb";
 import {
   HashError,
@@ -149,6 +150,8 @@ export class Stage1ClientService extends SATPService {
             serverGatewayPubkey: sessionData.serverGatewayPubkey,
             senderGatewayOwnerId: sessionData.senderGatewayOwnerId,
             receiverGatewayOwnerId: sessionData.receiverGatewayOwnerId,
+            uniqueDescriptor: sessionData.senderAsset?.uniqueDescriptor ?? "",
+            metadataUri: sessionData.senderAsset?.metadataUri ?? "",
           });
 
           sessionData.hashTransferInitClaims = getHash(transferInitClaims);
@@ -469,10 +472,37 @@ export class Stage1ClientService extends SATPService {
           );
         }
 
-        signatureVerifier(fnTag, this.Signer, response, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          response,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         sessionData.receiverAsset!.tokenId = response.recipientTokenId;
 
+        checkBatchLegs(
+          fnTag,
+          "batchRecipientTokenIds",
+          sessionData.batchReceiverAssets.length,
+          response.batchRecipientTokenIds.length,
+        );
+
+        checkBatchLegs(
+          fnTag,
+          "batchWrapAssertionClaims",
+          sessionData.batchReceiverAssets.length,
+          response.batchWrapAssertionClaims.length,
+        );
+
+        sessionData.batchReceiverAssets.forEach((batchReceiverAsset, index) => {
+          batchReceiverAsset.tokenId = response.batchRecipientTokenIds[index];
+        });
+
+        sessionData.batchReceiverWrapAssertionClaims =
+          response.batchWrapAssertionClaims;
+
         saveHash(
           sessionData,
           MessageType.PRE_SATP_TRANSFER_RESPONSE,
@@ -523,7 +553,13 @@ export class Stage1ClientService extends SATPService {
           MessageType.INIT_REJECT,
         );
 
-        signatureVerifier(fnTag, this.Signer, response, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          response,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         // assume that it is INIT_REJECT. otherwise it will be overriden with INIT_RECEIPT below
         saveTimestamp(
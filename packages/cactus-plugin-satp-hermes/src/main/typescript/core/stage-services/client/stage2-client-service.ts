@@ -37,13 +37,18 @@ import {
   SessionError,
   TokenIdMissingError,
   LedgerAssetError,
-  AmountMissingError,
 } from "../../errors/satp-service-errors";
 import { FailedToProcessError } from "../../errors/satp-handler-errors";
 import { create } from "@bufbuild/protobuf";
 import { BridgeManagerClientInterface } from "../../../cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
-import { type FungibleAsset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
-import { protoToAsset } from "../service-utils";
+import { type Asset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
+import {
+  checkAssetQuantity,
+  checkBatchLegs,
+  describeAssetQuantity,
+  executeBatchLegs,
+  protoToAsset,
+} from "../service-utils";
 import { LedgerType } from "@hyperledger/cactus-core-api";
 import { NetworkId } from "../../../public-api";
 import { context, SpanStatusCode } from "@opentelemetry/api";
@@ -150,6 +155,16 @@ export class Stage2ClientService extends SATPService {
           }
           lockAssertionRequestMessage.lockAssertionClaimFormat =
             sessionData.lockAssertionClaimFormat;
+
+          checkBatchLegs(
+            fnTag,
+            "batchLockAssertionClaims",
+            sessionData.batchSenderAssets.length,
+            sessionData.batchLockAssertionClaims.length,
+          );
+          lockAssertionRequestMessage.batchLockAssertionClaims =
+            sessionData.batchLockAssertionClaims;
+
           if (
             sessionData.lockAssertionExpiration == undefined ||
             sessionData.lockAssertionExpiration == BigInt(0)
@@ -247,7 +262,13 @@ export class Stage2ClientService extends SATPService {
           MessageType.TRANSFER_COMMENCE_RESPONSE,
         );
 
-        signatureVerifier(fnTag, this.Signer, response, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          response,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         if (response.serverTransferNumber != undefined) {
           this.Log.info(
@@ -312,7 +333,6 @@ export class Stage2ClientService extends SATPService {
           });
           this.Log.info(`${fnTag}, Locking Asset...`);
           const assetId = sessionData.senderAsset?.tokenId;
-          const amount = sessionData.senderAsset?.amount;
 
           if (sessionData.senderAsset == undefined) {
             throw new LedgerAssetError(fnTag);
@@ -323,21 +343,16 @@ export class Stage2ClientService extends SATPService {
             ledgerType: sessionData.senderAsset.networkId?.type as LedgerType,
           } as NetworkId;
 
-          const token: FungibleAsset = protoToAsset(
-            sessionData.senderAsset,
-            networkId,
-          ) as FungibleAsset;
+          const token: Asset = protoToAsset(sessionData.senderAsset, networkId);
 
           if (token.id == undefined) {
             throw new TokenIdMissingError(fnTag);
           }
 
-          if (token.amount == undefined) {
-            throw new AmountMissingError(fnTag);
-          }
+          checkAssetQuantity(fnTag, token);
 
           this.Log.debug(
-            `${fnTag}, Lock Asset ID: ${assetId} amount: ${amount}`,
+            `${fnTag}, Lock Asset ID: ${assetId} ${describeAssetQuantity(token)}`,
           );
 
           const bridge = this.bridgeManager.getSATPExecutionLayer(
@@ -370,6 +385,27 @@ export class Stage2ClientService extends SATPService {
             sign(this.Signer, sessionData.lockAssertionClaim.receipt),
           );
 
+          sessionData.batchLockAssertionClaims = [];
+
+          await executeBatchLegs(
+            fnTag,
+            sessionData.batchSenderAssets,
+            this.bridgeManager,
+            this.claimFormat,
+            this.Signer,
+            (executionLayer, asset) => executionLayer.lockAsset(asset),
+            sessionData.batchLockAssertionClaims,
+            () => create(LockAssertionClaimSchema, {}),
+            (operation) =>
+              this.dbLogger.storeProof({
+                sessionID: sessionData.id,
+                type: "lock-asset",
+                operation,
+                data: safeStableStringify(sessionData),
+                sequenceNumber: Number(sessionData.lastSequenceNumber),
+              }),
+          );
+
           this.dbLogger.storeProof({
             sessionID: sessionData.id,
             type: "lock-asset",
@@ -38,7 +38,6 @@ import { SATPSession } from "../../satp-session";
 import { LockAssertionResponse } from "../../../generated/proto/cacti/satp/v02/service/stage_2_pb";
 import { commonBodyVerifier, signatureVerifier } from "../data-verifier";
 import {
-  AmountMissingError,
   AssignmentAssertionClaimError,
   BurnAssertionClaimError,
   LedgerAssetError,
@@ -52,8 +51,15 @@ import { State } from "../../../generated/proto/cacti/satp/v02/session/session_p
 import { create } from "@bufbuild/protobuf";
 import { BridgeManagerClientInterface } from "../../../cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
 import { LedgerType } from "@hyperledger/cactus-core-api";
-import { FungibleAsset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
-import { protoToAsset } from "../service-utils";
+import { type Asset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
+import {
+  checkAssetQuantity,
+  checkBatchLegs,
+  describeAssetQuantity,
+  executeBatchLegs,
+  getAssetQuantity,
+  protoToAsset,
+} from "../service-utils";
 import { NetworkId } from "../../../public-api";
 import { context, SpanStatusCode } from "@opentelemetry/api";
 
@@ -291,6 +297,15 @@ export class Stage3ClientService extends SATPService {
           commitFinalAssertionRequestMessage.burnAssertionClaim =
             sessionData.burnAssertionClaim;
 
+          checkBatchLegs(
+            fnTag,
+            "batchBurnAssertionClaims",
+            sessionData.batchSenderAssets.length,
+            sessionData.batchBurnAssertionClaims.length,
+          );
+          commitFinalAssertionRequestMessage.batchBurnAssertionClaims =
+            sessionData.batchBurnAssertionClaims;
+
           if (sessionData.burnAssertionClaimFormat != undefined) {
             commitFinalAssertionRequestMessage.burnAssertionClaimFormat =
               sessionData.burnAssertionClaimFormat;
@@ -524,7 +539,13 @@ export class Stage3ClientService extends SATPService {
           MessageType.ASSERTION_RECEIPT,
         );
 
-        signatureVerifier(fnTag, this.Signer, response, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          response,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         if (
           sessionData.serverTransferNumber != undefined &&
@@ -581,7 +602,13 @@ export class Stage3ClientService extends SATPService {
           MessageType.COMMIT_READY,
         );
 
-        signatureVerifier(fnTag, this.Signer, response, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          response,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         if (response.mintAssertionClaimFormat != undefined) {
           //todo
@@ -599,6 +626,16 @@ export class Stage3ClientService extends SATPService {
 
         sessionData.mintAssertionClaim = response.mintAssertionClaim;
 
+        checkBatchLegs(
+          fnTag,
+          "batchMintAssertionClaims",
+          sessionData.batchReceiverAssets.length,
+          response.batchMintAssertionClaims.length,
+        );
+
+        sessionData.batchMintAssertionClaims =
+          response.batchMintAssertionClaims;
+
         if (
           sessionData.serverTransferNumber != undefined &&
           response.serverTransferNumber != sessionData.serverTransferNumber
@@ -654,7 +691,13 @@ export class Stage3ClientService extends SATPService {
           MessageType.ACK_COMMIT_FINAL,
         );
 
-        signatureVerifier(fnTag, this.Signer, response, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          response,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         if (response.assignmentAssertionClaim == undefined) {
           throw new AssignmentAssertionClaimError(fnTag);
@@ -663,6 +706,16 @@ export class Stage3ClientService extends SATPService {
         sessionData.assignmentAssertionClaim =
           response.assignmentAssertionClaim;
 
+        checkBatchLegs(
+          fnTag,
+          "batchAssignmentAssertionClaims",
+          sessionData.batchReceiverAssets.length,
+          response.batchAssignmentAssertionClaims.length,
+        );
+
+        sessionData.batchAssignmentAssertionClaims =
+          response.batchAssignmentAssertionClaims;
+
         if (response.assignmentAssertionClaimFormat != undefined) {
           this.Log.info(
             `${fnTag},  Optional variable loaded: assignmentAssertionClaimFormat `,
@@ -728,7 +781,13 @@ export class Stage3ClientService extends SATPService {
           MessageType.COMMIT_TRANSFER_COMPLETE_RESPONSE,
         );
 
-        signatureVerifier(fnTag, this.Signer, response, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          response,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         if (
           sessionData.serverTransferNumber != "" &&
@@ -806,21 +865,16 @@ export class Stage3ClientService extends SATPService {
             ledgerType: sessionData.senderAsset.networkId?.type as LedgerType,
           } as NetworkId;
 
-          const token: FungibleAsset = protoToAsset(
-            sessionData.senderAsset,
-            networkId,
-          ) as FungibleAsset;
+          const token: Asset = protoToAsset(sessionData.senderAsset, networkId);
 
           if (token.id == undefined) {
             throw new TokenIdMissingError(fnTag);
           }
 
-          if (token.amount == undefined) {
-            throw new AmountMissingError(fnTag);
-          }
+          checkAssetQuantity(fnTag, token);
 
           this.Log.debug(
-            `${fnTag}, Burn Asset ID: ${token.id} amount: ${token.amount}`,
+            `${fnTag}, Burn Asset ID: ${token.id} ${describeAssetQuantity(token)}`,
           );
 
           const bridge = this.bridgeManager.getSATPExecutionLayer(
@@ -834,7 +888,7 @@ export class Stage3ClientService extends SATPService {
 
           this.monitorService.incrementCounter(
             "burned_asset_amount",
-            Number(token.amount),
+            getAssetQuantity(token),
           );
 
           sessionData.burnAssertionClaim.receipt = res.receipt;
@@ -855,6 +909,34 @@ export class Stage3ClientService extends SATPService {
           sessionData.burnAssertionClaim.signature = bufArray2HexStr(
             sign(this.Signer, sessionData.burnAssertionClaim.receipt),
           );
+
+          sessionData.batchBurnAssertionClaims = [];
+
+          await executeBatchLegs(
+            fnTag,
+            sessionData.batchSenderAssets,
+            this.bridgeManager,
+            this.claimFormat,
+            this.Signer,
+            async (executionLayer, asset) => {
+              const legRes = await executionLayer.burnAsset(asset);
+              this.monitorService.incrementCounter(
+                "burned_asset_amount",
+                getAssetQuantity(asset),
+              );
+              return legRes;
+            },
+            sessionData.batchBurnAssertionClaims,
+            () => create(BurnAssertionClaimSchema, {}),
+            (operation) =>
+              this.dbLogger.storeProof({
+                sessionID: sessionData.id,
+                type: "burn-asset",
+                operation,
+                data: safeStableStringify(sessionData),
+                sequenceNumber: Number(sessionData.lastSequenceNumber),
+              }),
+          );
           this.dbLogger.storeProof({
             sessionID: sessionData.id,
             type: "burn-asset",
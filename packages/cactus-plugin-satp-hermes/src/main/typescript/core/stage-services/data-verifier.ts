@@ -24,6 +24,7 @@ import {
 } from "../errors/satp-service-errors";
 import { getMessageHash, getPreviousMessageType } from "../session-utils";
 import { getMessageTypeName } from "../satp-utils";
+import type { GatewayKeyRegistry } from "../key-rotation/gateway-key-registry";
 
 export function commonBodyVerifier(
   tag: string,
@@ -117,11 +118,26 @@ export function commonBodyVerifier(
   }
 }
 
+/**
+ * Verifies a message signature against `pubKey` or, when the counterparty
+ * rotated its key, against any of its keys that are still accepted.
+ */
+export function verifyRotatedSignature(
+  signer: JsObjectSigner,
+  message: object,
+  pubKey: string,
+  keyRegistry?: GatewayKeyRegistry,
+): boolean {
+  const keys = keyRegistry ? keyRegistry.getAcceptedKeys(pubKey) : [pubKey];
+  return keys.some((key) => verifySignature(signer, message, key));
+}
+
 export function signatureVerifier(
   tag: string,
   signer: JsObjectSigner,
   message: any,
   sessionData: SessionData | undefined,
+  keyRegistry?: GatewayKeyRegistry,
 ) {
   if (sessionData == undefined) {
     throw new SessionDataNotLoadedCorrectlyError(tag, "undefined");
@@ -129,7 +145,12 @@ export function signatureVerifier(
 
   if (message.serverSignature != undefined && message.serverSignature != "") {
     if (
-      !verifySignature(signer, message, sessionData?.serverGatewayPubkey || "")
+      !verifyRotatedSignature(
+        signer,
+        message,
+        sessionData?.serverGatewayPubkey || "",
+        keyRegistry,
+      )
     ) {
       throw new SignatureVerificationError(tag);
     }
@@ -138,7 +159,12 @@ export function signatureVerifier(
     message.clientSignature != ""
   ) {
     if (
-      !verifySignature(signer, message, sessionData?.clientGatewayPubkey || "")
+      !verifyRotatedSignature(
+        signer,
+        message,
+        sessionData?.clientGatewayPubkey || "",
+        keyRegistry,
+      )
     ) {
       throw new SignatureVerificationError(tag);
     }
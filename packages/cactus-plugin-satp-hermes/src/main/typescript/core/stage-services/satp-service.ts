@@ -12,6 +12,7 @@ import type { GatewayPersistence } from "../../gateway-persistence";
 import { BridgeManagerClientInterface } from "../../cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
 import { ClaimFormat } from "../../generated/proto/cacti/satp/v02/common/message_pb";
 import { MonitorService } from "../../services/monitoring/monitor";
+import type { GatewayKeyRegistry } from "../key-rotation/gateway-key-registry";
 
 export enum SATPServiceType {
   Server = "Server",
@@ -30,6 +31,7 @@ export type ISATPServiceOptions = {
   dbLogger: GatewayPersistence;
   claimFormat?: ClaimFormat;
   monitorService: MonitorService;
+  keyRegistry?: GatewayKeyRegistry;
 };
 
 export interface SATPServiceStatic {
@@ -64,6 +66,7 @@ export abstract class SATPService {
   readonly serviceName: string;
   public dbLogger: GatewayPersistence;
   public monitorService: MonitorService;
+  private readonly keyRegistry?: GatewayKeyRegistry;
 
   constructor(ops: ISATPServiceOptions) {
     this.monitorService = ops.monitorService;
@@ -79,6 +82,7 @@ export abstract class SATPService {
       throw new Error("dbLogger is required for SATPService");
     }
     this.dbLogger = ops.dbLogger;
+    this.keyRegistry = ops.keyRegistry;
     this.logger.trace(`Signer logger level: ${this.signer.options.logLevel}`);
   }
 
@@ -105,4 +109,8 @@ export abstract class SATPService {
   public get Signer(): JsObjectSigner {
     return this.signer;
   }
+
+  public get KeyRegistry(): GatewayKeyRegistry | undefined {
+    return this.keyRegistry;
+  }
 }
@@ -1,9 +1,4 @@
-import {
-  bufArray2HexStr,
-  getHash,
-  sign,
-  verifySignature,
-} from "../../../gateway-utils";
+import { bufArray2HexStr, getHash, sign } from "../../../gateway-utils";
 import {
   ClaimFormat,
   MessageType,
@@ -21,7 +16,6 @@ import {
 import { stringify as safeStableStringify } from "safe-stable-stringify";
 
 import {
-  AmountMissingError,
   AssetMissing,
   LedgerAssetError,
   MessageTypeError,
@@ -34,6 +28,7 @@ import {
   TokenIdMissingError,
 } from "../../errors/satp-service-errors";
 import { SATPSession } from "../../satp-session";
+import { verifyRotatedSignature } from "../data-verifier";
 import {
   getMessageHash,
   saveHash,
@@ -44,7 +39,7 @@ import {
 } from "../../session-utils";
 import {
   createAssetId,
-  type FungibleAsset,
+  type Asset,
 } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
 import {
   SATPService,
@@ -52,7 +47,14 @@ import {
   type ISATPServerServiceOptions,
   type ISATPServiceOptions,
 } from "../satp-service";
-import { protoToAsset } from "../service-utils";
+import {
+  checkAssetQuantity,
+  checkBatchLegs,
+  checkSupportedTokenTypes,
+  describeAssetQuantity,
+  executeBatchLegs,
+  protoToAsset,
+} from "../service-utils";
 import {
   FailedToProcessError,
   SessionNotFoundError,
@@ -125,7 +127,14 @@ export class Stage0ServerService extends SATPService {
           );
         }
 
-        if (!verifySignature(this.Signer, request, clientPubKey)) {
+        if (
+          !verifyRotatedSignature(
+            this.Signer,
+            request,
+            clientPubKey,
+            this.KeyRegistry,
+          )
+        ) {
           throw new SignatureVerificationError(fnTag);
         }
 
@@ -249,10 +258,11 @@ export class Stage0ServerService extends SATPService {
         }
 
         if (
-          !verifySignature(
+          !verifyRotatedSignature(
             this.Signer,
             request,
             sessionData.clientGatewayPubkey,
+            this.KeyRegistry,
           )
         ) {
           throw new Error(`${fnTag}, Client Signature is invalid`);
@@ -272,6 +282,29 @@ export class Stage0ServerService extends SATPService {
           throw new Error(`${fnTag}, Wrap Assertion Claim is missing`);
         }
 
+        checkBatchLegs(
+          fnTag,
+          "batchReceiverAssets",
+          request.batchSenderAssets.length,
+          request.batchReceiverAssets.length,
+        );
+
+        checkBatchLegs(
+          fnTag,
+          "batchWrapAssertionClaims",
+          request.batchSenderAssets.length,
+          request.batchWrapAssertionClaims.length,
+        );
+
+        checkSupportedTokenTypes(
+          fnTag,
+          [request.receiverAsset, ...request.batchReceiverAssets],
+          this.bridgeManager,
+          this.claimFormat,
+        );
+
+        sessionData.batchSenderAssets = request.batchSenderAssets;
+
         if (request.clientTransferNumber != "") {
           this.Log.info(
             `${fnTag}, Optional variable loaded: clientTransferNumber...`,
@@ -306,6 +339,16 @@ export class Stage0ServerService extends SATPService {
           sessionData.recipientGatewayNetworkId,
         );
 
+        sessionData.batchReceiverAssets = request.batchReceiverAssets;
+
+        for (const batchReceiverAsset of sessionData.batchReceiverAssets) {
+          batchReceiverAsset.tokenId = createAssetId(
+            request.contextId,
+            batchReceiverAsset.tokenType,
+            sessionData.recipientGatewayNetworkId,
+          );
+        }
+
         this.Log.info(`${fnTag}, PreSATPTransferRequest passed all checks.`);
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
@@ -567,6 +610,11 @@ export class Stage0ServerService extends SATPService {
               wrapAssertionClaim: sessionData.receiverWrapAssertionClaim,
               recipientTokenId: sessionData.receiverAsset!.tokenId,
               messageType: MessageType.PRE_SATP_TRANSFER_RESPONSE,
+              batchRecipientTokenIds: sessionData.batchReceiverAssets.map(
+                (batchReceiverAsset) => batchReceiverAsset.tokenId,
+              ),
+              batchWrapAssertionClaims:
+                sessionData.batchReceiverWrapAssertionClaims,
             },
           );
 
@@ -665,23 +713,21 @@ export class Stage0ServerService extends SATPService {
             ledgerType: sessionData.receiverAsset.networkId?.type as LedgerType,
           } as NetworkId;
 
-          const token: FungibleAsset = protoToAsset(
+          const token: Asset = protoToAsset(
             sessionData.receiverAsset,
             networkId,
-          ) as FungibleAsset;
+          );
 
           if (token.id == undefined) {
             throw new TokenIdMissingError(fnTag);
           }
 
-          if (token.amount == undefined) {
-            throw new AmountMissingError(fnTag);
-          }
+          checkAssetQuantity(fnTag, token);
 
           this.Log.debug(`${fnTag}, Wrap: ${safeStableStringify(token)}`);
 
           this.Log.debug(
-            `${fnTag}, Wrap Asset ID: ${token.id} amount: ${(token as FungibleAsset).amount.toString()}`,
+            `${fnTag}, Wrap Asset ID: ${token.id} ${describeAssetQuantity(token)}`,
           );
 
           const bridge = this.bridgeManager.getSATPExecutionLayer(
@@ -708,6 +754,27 @@ export class Stage0ServerService extends SATPService {
             sign(this.Signer, sessionData.receiverWrapAssertionClaim.receipt),
           );
 
+          sessionData.batchReceiverWrapAssertionClaims = [];
+
+          await executeBatchLegs(
+            fnTag,
+            sessionData.batchReceiverAssets,
+            this.bridgeManager,
+            this.claimFormat,
+            this.Signer,
+            (executionLayer, asset) => executionLayer.wrapAsset(asset),
+            sessionData.batchReceiverWrapAssertionClaims,
+            () => create(WrapAssertionClaimSchema, {}),
+            (operation) =>
+              this.dbLogger.storeProof({
+                sessionID: sessionData.id,
+                type: "wrap-token-server",
+                operation,
+                data: safeStableStringify(sessionData),
+                sequenceNumber: Number(sessionData.lastSequenceNumber),
+              }),
+          );
+
           this.dbLogger.storeProof({
             sessionID: sessionData.id,
             type: "wrap-token-server",
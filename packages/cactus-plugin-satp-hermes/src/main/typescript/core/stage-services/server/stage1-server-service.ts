@@ -451,6 +451,23 @@ export class Stage1ServerService extends SATPService {
           throw new TransferInitClaimsError(fnTag);
         }
 
+        if (
+          request.transferInitClaims!.uniqueDescriptor != "" &&
+          sessionData.receiverAsset.uniqueDescriptor != "" &&
+          sessionData.receiverAsset.uniqueDescriptor !=
+            request.transferInitClaims!.uniqueDescriptor
+        ) {
+          throw new TransferInitClaimsError(fnTag);
+        }
+        if (sessionData.receiverAsset.uniqueDescriptor == "") {
+          sessionData.receiverAsset.uniqueDescriptor =
+            request.transferInitClaims!.uniqueDescriptor;
+        }
+        if (sessionData.receiverAsset.metadataUri == "") {
+          sessionData.receiverAsset.metadataUri =
+            request.transferInitClaims!.metadataUri;
+        }
+
         const receiverId = sessionData.receiverAsset?.networkId?.id;
 
         if (
@@ -499,7 +516,13 @@ export class Stage1ServerService extends SATPService {
           MessageType.INIT_PROPOSAL,
         );
 
-        signatureVerifier(fnTag, this.Signer, request, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          request,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         this.Log.info(
           `${fnTag}, Session data created for session id ${sessionData.id}`,
@@ -548,7 +571,13 @@ export class Stage1ServerService extends SATPService {
           MessageType.TRANSFER_COMMENCE_REQUEST,
         );
 
-        signatureVerifier(fnTag, this.Signer, request, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          request,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         if (
           request.hashTransferInitClaims == "" ||
@@ -646,6 +675,12 @@ export class Stage1ServerService extends SATPService {
             `${tag}, optional variable receiverGatewayOwnerId loaded`,
           );
         }
+        if (transferClaims.uniqueDescriptor != "") {
+          this.Log.info(`${tag}, optional variable uniqueDescriptor loaded`);
+        }
+        if (transferClaims.metadataUri != "") {
+          this.Log.info(`${tag}, optional variable metadataUri loaded`);
+        }
         //todo
         return true;
       } catch (err) {
@@ -26,6 +26,7 @@ import { stringify as safeStableStringify } from "safe-stable-stringify";
 
 import { SATPSession } from "../../../core/satp-session";
 import { commonBodyVerifier, signatureVerifier } from "../data-verifier";
+import { checkBatchLegs } from "../service-utils";
 import {
   LockAssertionClaimError,
   LockAssertionClaimFormatError,
@@ -240,7 +241,13 @@ export class Stage2ServerService extends SATPService {
           MessageType.LOCK_ASSERT,
         );
 
-        signatureVerifier(fnTag, this.Signer, request, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          request,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         if (request.lockAssertionClaim == undefined) {
           throw new LockAssertionClaimError(fnTag);
@@ -260,6 +267,15 @@ export class Stage2ServerService extends SATPService {
 
         sessionData.lockAssertionExpiration = request.lockAssertionExpiration; //todo check if expired
 
+        checkBatchLegs(
+          fnTag,
+          "batchLockAssertionClaims",
+          sessionData.batchSenderAssets.length,
+          request.batchLockAssertionClaims.length,
+        );
+
+        sessionData.batchLockAssertionClaims = request.batchLockAssertionClaims;
+
         if (
           sessionData.clientTransferNumber != "" &&
           request.clientTransferNumber != sessionData.clientTransferNumber
@@ -38,7 +38,6 @@ import {
 import { SATPSession } from "../../../core/satp-session";
 import { commonBodyVerifier, signatureVerifier } from "../data-verifier";
 import {
-  AmountMissingError,
   AssignmentAssertionClaimError,
   BurnAssertionClaimError,
   LedgerAssetError,
@@ -57,8 +56,14 @@ import { State } from "../../../generated/proto/cacti/satp/v02/session/session_p
 import { create } from "@bufbuild/protobuf";
 import { type BridgeManagerClientInterface } from "../../../cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
 import { LedgerType } from "@hyperledger/cactus-core-api";
-import { protoToAsset } from "../service-utils";
-import { type FungibleAsset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
+import {
+  checkAssetQuantity,
+  checkBatchLegs,
+  describeAssetQuantity,
+  executeBatchLegs,
+  protoToAsset,
+} from "../service-utils";
+import { type Asset } from "../../../cross-chain-mechanisms/bridge/ontology/assets/asset";
 import { NetworkId } from "../../../public-api";
 import { context, SpanStatusCode } from "@opentelemetry/api";
 
@@ -156,6 +161,15 @@ export class Stage3ServerService extends SATPService {
           commitReadyMessage.mintAssertionClaimFormat =
             sessionData.mintAssertionClaimFormat;
 
+          checkBatchLegs(
+            fnTag,
+            "batchMintAssertionClaims",
+            sessionData.batchReceiverAssets.length,
+            sessionData.batchMintAssertionClaims.length,
+          );
+          commitReadyMessage.batchMintAssertionClaims =
+            sessionData.batchMintAssertionClaims;
+
           if (sessionData.transferContextId != undefined) {
             commitReadyMessage.common!.transferContextId =
               sessionData.transferContextId;
@@ -327,6 +341,15 @@ export class Stage3ServerService extends SATPService {
           commitFinalAcknowledgementReceiptResponseMessage.assignmentAssertionClaim =
             sessionData.assignmentAssertionClaim;
 
+          checkBatchLegs(
+            fnTag,
+            "batchAssignmentAssertionClaims",
+            sessionData.batchReceiverAssets.length,
+            sessionData.batchAssignmentAssertionClaims.length,
+          );
+          commitFinalAcknowledgementReceiptResponseMessage.batchAssignmentAssertionClaims =
+            sessionData.batchAssignmentAssertionClaims;
+
           if (sessionData.assignmentAssertionClaimFormat != undefined) {
             commitFinalAcknowledgementReceiptResponseMessage.assignmentAssertionClaimFormat =
               sessionData.assignmentAssertionClaimFormat;
@@ -470,7 +493,13 @@ export class Stage3ServerService extends SATPService {
           );
         }
 
-        signatureVerifier(fnTag, this.Signer, request, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          request,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         if (
           sessionData.clientTransferNumber != "" &&
@@ -529,7 +558,13 @@ export class Stage3ServerService extends SATPService {
           );
         }
 
-        signatureVerifier(fnTag, this.Signer, request, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          request,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         //todo check burn
         if (request.burnAssertionClaim == undefined) {
@@ -538,6 +573,15 @@ export class Stage3ServerService extends SATPService {
 
         sessionData.burnAssertionClaim = request.burnAssertionClaim;
 
+        checkBatchLegs(
+          fnTag,
+          "batchBurnAssertionClaims",
+          sessionData.batchSenderAssets.length,
+          request.batchBurnAssertionClaims.length,
+        );
+
+        sessionData.batchBurnAssertionClaims = request.batchBurnAssertionClaims;
+
         if (request.burnAssertionClaimFormat != undefined) {
           this.Log.info(
             `${fnTag}, optional variable loaded: burnAssertionClaimFormat`,
@@ -605,7 +649,13 @@ export class Stage3ServerService extends SATPService {
           );
         }
 
-        signatureVerifier(fnTag, this.Signer, request, sessionData);
+        signatureVerifier(
+          fnTag,
+          this.Signer,
+          request,
+          sessionData,
+          this.KeyRegistry,
+        );
 
         if (
           sessionData.clientTransferNumber != undefined &&
@@ -851,21 +901,19 @@ export class Stage3ServerService extends SATPService {
             ledgerType: sessionData.receiverAsset.networkId?.type as LedgerType,
           } as NetworkId;
 
-          const token: FungibleAsset = protoToAsset(
+          const token: Asset = protoToAsset(
             sessionData.receiverAsset,
             networkId,
-          ) as FungibleAsset;
+          );
 
           if (token.id == undefined) {
             throw new TokenIdMissingError(fnTag);
           }
 
-          if (token.amount == undefined) {
-            throw new AmountMissingError(fnTag);
-          }
+          checkAssetQuantity(fnTag, token);
 
           this.logger.debug(
-            `${fnTag}, Mint Asset ID: ${token.id} amount: ${token.amount.toString()}`,
+            `${fnTag}, Mint Asset ID: ${token.id} ${describeAssetQuantity(token)}`,
           );
 
           const bridge = this.bridgeManager.getSATPExecutionLayer(
@@ -894,6 +942,27 @@ export class Stage3ServerService extends SATPService {
           sessionData.mintAssertionClaim.signature = bufArray2HexStr(
             sign(this.Signer, sessionData.mintAssertionClaim.receipt),
           );
+
+          sessionData.batchMintAssertionClaims = [];
+
+          await executeBatchLegs(
+            fnTag,
+            sessionData.batchReceiverAssets,
+            this.bridgeManager,
+            this.claimFormat,
+            this.Signer,
+            (executionLayer, asset) => executionLayer.mintAsset(asset),
+            sessionData.batchMintAssertionClaims,
+            () => create(MintAssertionClaimSchema, {}),
+            (operation) =>
+              this.dbLogger.storeProof({
+                sessionID: sessionData.id,
+                type: "mint-asset",
+                operation,
+                data: safeStableStringify(sessionData),
+                sequenceNumber: Number(sessionData.lastSequenceNumber),
+              }),
+          );
           this.dbLogger.storeProof({
             sessionID: sessionData.id,
             type: "mint-asset",
@@ -962,10 +1031,10 @@ export class Stage3ServerService extends SATPService {
             ledgerType: sessionData.receiverAsset.networkId?.type as LedgerType,
           } as NetworkId;
 
-          const token: FungibleAsset = protoToAsset(
+          const token: Asset = protoToAsset(
             sessionData.receiverAsset,
             networkId,
-          ) as FungibleAsset;
+          );
 
           if (token.owner == undefined) {
             throw new MissingRecipientError(fnTag);
@@ -975,12 +1044,10 @@ export class Stage3ServerService extends SATPService {
             throw new TokenIdMissingError(fnTag);
           }
 
-          if (token.amount == undefined) {
-            throw new AmountMissingError(fnTag);
-          }
+          checkAssetQuantity(fnTag, token);
 
           this.logger.debug(
-            `${fnTag}, Assign Asset ID: ${token.id} amount: ${token.amount} recipient: ${token.owner}`,
+            `${fnTag}, Assign Asset ID: ${token.id} ${describeAssetQuantity(token)} recipient: ${token.owner}`,
           );
 
           const bridge = this.bridgeManager.getSATPExecutionLayer(
@@ -1011,6 +1078,32 @@ export class Stage3ServerService extends SATPService {
           sessionData.assignmentAssertionClaim.signature = bufArray2HexStr(
             sign(this.Signer, sessionData.assignmentAssertionClaim.receipt),
           );
+
+          sessionData.batchAssignmentAssertionClaims = [];
+
+          await executeBatchLegs(
+            fnTag,
+            sessionData.batchReceiverAssets,
+            this.bridgeManager,
+            this.claimFormat,
+            this.Signer,
+            (executionLayer, asset) => {
+              if (asset.owner == undefined) {
+                throw new MissingRecipientError(fnTag);
+              }
+              return executionLayer.assignAsset(asset);
+            },
+            sessionData.batchAssignmentAssertionClaims,
+            () => create(AssignmentAssertionClaimSchema, {}),
+            (operation) =>
+              this.dbLogger.storeProof({
+                sessionID: sessionData.id,
+                type: "assign-asset",
+                operation,
+                data: safeStableStringify(sessionData),
+                sequenceNumber: Number(sessionData.lastSequenceNumber),
+              }),
+          );
           this.dbLogger.storeProof({
             sessionID: sessionData.id,
             type: "assign-asset",
@@ -1,29 +1,54 @@
 import { create } from "@bufbuild/protobuf";
 import {
   AssetSchema as ProtoAssetSchema,
+  TokenType,
   type Asset as ProtoAsset,
 } from "../../generated/proto/cacti/satp/v02/common/message_pb";
 import { LedgerType } from "@hyperledger/cactus-core-api";
 import { EvmFungibleAsset } from "../../cross-chain-mechanisms/bridge/ontology/assets/evm-asset";
 import { FabricFungibleAsset } from "../../cross-chain-mechanisms/bridge/ontology/assets/fabric-asset";
+import { PolkadotFungibleAsset } from "../../cross-chain-mechanisms/bridge/ontology/assets/polkadot-asset";
+import { StellarFungibleAsset } from "../../cross-chain-mechanisms/bridge/ontology/assets/stellar-asset";
 import {
   Asset,
   FungibleAsset,
+  instanceOfNonFungibleAsset,
+  isNonFungibleTokenType,
+  NonFungibleAsset,
 } from "../../cross-chain-mechanisms/bridge/ontology/assets/asset";
 import { NetworkId } from "../../public-api";
+import {
+  AmountMissingError,
+  BatchLegsMismatchError,
+  TokenIdMissingError,
+  TokenTypeNotSupportedError,
+  UniqueDescriptorMissingError,
+} from "../errors/satp-service-errors";
+import type { JsObjectSigner } from "@hyperledger/cactus-common";
+import type { ClaimFormat } from "../../generated/proto/cacti/satp/v02/common/message_pb";
+import type { BridgeManagerClientInterface } from "../../cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
+import type {
+  SATPBridgeExecutionLayer,
+  TransactionReceipt,
+} from "../../cross-chain-mechanisms/bridge/satp-bridge-execution-layer";
+import { bufArray2HexStr, sign } from "../../gateway-utils";
+import { getEnumKeyByValue } from "../../services/utils";
 
-export function assetToProto(
-  asset: FungibleAsset,
-  networkId: NetworkId,
-): ProtoAsset {
+export function assetToProto(asset: Asset, networkId: NetworkId): ProtoAsset {
   const protoAsset = create(ProtoAssetSchema, {
     tokenId: asset.id,
     tokenType: asset.type,
     referenceId: asset.referenceId,
     owner: asset.owner,
-    amount: BigInt(asset.amount),
   });
 
+  if (instanceOfNonFungibleAsset(asset)) {
+    protoAsset.uniqueDescriptor = asset.uniqueDescriptor;
+    protoAsset.metadataUri = asset.metadataUri ?? "";
+  } else {
+    protoAsset.amount = BigInt((asset as FungibleAsset).amount);
+  }
+
   switch (networkId.ledgerType) {
     case LedgerType.Besu1X:
       protoAsset.contractAddress = (asset as EvmFungibleAsset).contractAddress;
@@ -38,6 +63,16 @@ export function assetToProto(
       protoAsset.mspId = (asset as FabricFungibleAsset).mspId;
       protoAsset.channelName = (asset as FabricFungibleAsset).channelName;
       break;
+    case LedgerType.Polkadot:
+      protoAsset.contractAddress = (
+        asset as PolkadotFungibleAsset
+      ).contractAddress;
+      break;
+    case LedgerType.Stellar:
+      protoAsset.contractAddress = (
+        asset as StellarFungibleAsset
+      ).contractAddress;
+      break;
     default:
       throw new Error(`Unsupported networkId: ${networkId.ledgerType}`);
   }
@@ -46,15 +81,23 @@ export function assetToProto(
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 export function protoToAsset(asset: ProtoAsset, networkId: NetworkId): Asset {
-  const assetObj: FungibleAsset = {
+  const baseAsset: Asset = {
     id: asset.tokenId,
     referenceId: asset.referenceId,
     type: asset.tokenType.valueOf(),
     owner: asset.owner,
-    amount: String(asset.amount),
     contractName: asset.contractName,
     network: networkId,
   };
+  const assetObj: FungibleAsset | NonFungibleAsset = isNonFungibleTokenType(
+    asset.tokenType,
+  )
+    ? {
+        ...baseAsset,
+        uniqueDescriptor: asset.uniqueDescriptor,
+        metadataUri: asset.metadataUri || undefined,
+      }
+    : { ...baseAsset, amount: String(asset.amount) };
   if (asset.mspId) {
     (assetObj as FabricFungibleAsset).mspId = asset.mspId;
     (assetObj as FabricFungibleAsset).channelName = asset.channelName;
@@ -75,9 +118,135 @@ export function compareProtoAsset(
     asset1.tokenType === asset2.tokenType &&
     asset1.owner === asset2.owner &&
     asset1.amount === asset2.amount &&
+    asset1.uniqueDescriptor === asset2.uniqueDescriptor &&
+    asset1.metadataUri === asset2.metadataUri &&
     asset1.contractName === asset2.contractName &&
     asset1.mspId === asset2.mspId &&
     asset1.channelName === asset2.channelName &&
     asset1.contractAddress === asset2.contractAddress
   );
 }
+
+/**
+ * Checks that the asset carries its quantity: the amount for fungible assets
+ * or the unique descriptor (token id) for non-fungible ones.
+ */
+export function checkAssetQuantity(tag: string, asset: Asset): void {
+  if (instanceOfNonFungibleAsset(asset)) {
+    if (!asset.uniqueDescriptor) {
+      throw new UniqueDescriptorMissingError(tag);
+    }
+  } else if ((asset as FungibleAsset).amount == undefined) {
+    throw new AmountMissingError(tag);
+  }
+}
+
+export function describeAssetQuantity(asset: Asset): string {
+  return instanceOfNonFungibleAsset(asset)
+    ? `uniqueDescriptor: ${asset.uniqueDescriptor}`
+    : `amount: ${(asset as FungibleAsset).amount}`;
+}
+
+export function getAssetQuantity(asset: Asset): number {
+  return instanceOfNonFungibleAsset(asset)
+    ? 1
+    : Number((asset as FungibleAsset).amount);
+}
+
+export function checkBatchLegs(
+  tag: string,
+  field: string,
+  expected: number,
+  received: number,
+): void {
+  if (expected != received) {
+    throw new BatchLegsMismatchError(tag, field, expected, received);
+  }
+}
+
+/**
+ * Checks that the leaf of each asset's network can bridge the asset's token
+ * type, so that a transfer the leaf cannot complete is rejected before any
+ * asset is wrapped.
+ */
+export function checkSupportedTokenTypes(
+  tag: string,
+  assets: ProtoAsset[],
+  bridgeManager: BridgeManagerClientInterface,
+  claimFormat: ClaimFormat,
+): void {
+  for (const asset of assets) {
+    const networkId = {
+      id: asset.networkId?.id,
+      ledgerType: asset.networkId?.type as LedgerType,
+    } as NetworkId;
+    const leaf = bridgeManager.getBridgeEndPoint(networkId, claimFormat);
+    if (!leaf.getSupportedTokenTypes().includes(asset.tokenType)) {
+      throw new TokenTypeNotSupportedError(
+        tag,
+        networkId.id,
+        getEnumKeyByValue(TokenType, asset.tokenType) ?? `${asset.tokenType}`,
+      );
+    }
+  }
+}
+
+/**
+ * Signed receipt of a bridge operation executed on one leg of a batch transfer.
+ */
+export interface BatchLegReceipt {
+  receipt: string;
+  proof: string;
+  signature: string;
+}
+
+/**
+ * Executes a bridge operation on the additional legs of a batch transfer, one
+ * leg after the other. The claim of each leg is appended to `claims` and
+ * persisted through `persist` before its operation is submitted, and persisted
+ * again once the operation's receipt is signed. A leg that was interrupted
+ * therefore still has a (blank) claim in the recovered session, and the
+ * rollback compensates it together with the legs that completed.
+ */
+export async function executeBatchLegs<T extends BatchLegReceipt>(
+  tag: string,
+  assets: ProtoAsset[],
+  bridgeManager: BridgeManagerClientInterface,
+  claimFormat: ClaimFormat,
+  signer: JsObjectSigner,
+  operation: (
+    bridge: SATPBridgeExecutionLayer,
+    asset: Asset,
+  ) => Promise<TransactionReceipt>,
+  claims: T[],
+  newClaim: () => T,
+  persist: (operation: string) => Promise<void>,
+): Promise<void> {
+  for (const [index, protoAsset] of assets.entries()) {
+    const networkId = {
+      id: protoAsset.networkId?.id,
+      ledgerType: protoAsset.networkId?.type as LedgerType,
+    } as NetworkId;
+
+    const asset = protoToAsset(protoAsset, networkId);
+
+    if (asset.id == undefined || asset.id == "") {
+      throw new TokenIdMissingError(tag);
+    }
+
+    checkAssetQuantity(tag, asset);
+
+    const bridge = bridgeManager.getSATPExecutionLayer(networkId, claimFormat);
+
+    const claim = newClaim();
+    claims.push(claim);
+    await persist(`exec-leg-${index}`);
+
+    const res = await operation(bridge, asset);
+
+    claim.receipt = res.receipt;
+    claim.proof = res.proof;
+    claim.signature = bufArray2HexStr(sign(signer, res.receipt));
+    await persist(`done-leg-${index}`);
+  }
+}
@@ -57,6 +57,15 @@ export type GatewayIdentity = {
   gatewayOapiPort?: number;
   gatewayUIPort?: number;
   address?: Address;
+  // SHA-256 fingerprint of the gateway's TLS certificate, as reported by node
+  tlsCertFingerprint?: string;
+};
+
+// PEM encoded material used for mutual TLS between gateways
+export type GatewayTLSConfig = {
+  cert: string;
+  key: string;
+  ca: string | string[];
 };
 
 export type Immutable<T> = {
@@ -89,6 +98,38 @@ export interface RemoteLog {
   signature: string;
   signerPubKey: string;
 }
+export interface OracleTaskEntry {
+  taskID: string;
+  // the OracleTask, serialized without its operations
+  task: string;
+  status: string;
+  mode: string;
+  // serialized OracleEventCursor of the last event processed
+  eventCursor?: string | null;
+  // serialized OracleEventCursor of the event being relayed, if any
+  pendingEventCursor?: string | null;
+  lastExecutedAt?: number | null;
+  updatedAt: number;
+}
+export interface OracleOperationEntry {
+  id: string;
+  taskID: string;
+  operation: string;
+  status: string;
+  timestamp: number;
+}
+export interface GatewayKeyEntry {
+  publicKey: string;
+  gatewayId: string;
+  activeSince: number;
+  expiresAt?: number | null;
+  // the key this one replaced, if it was announced in a rotation
+  previousPublicKey?: string | null;
+  // signature of the previous key over this one, for our own rotations
+  keyChangeSignature?: string | null;
+  // only stored for the keys of this gateway
+  privateKey?: string | null;
+}
 
 export { SATPServiceInstance };
 
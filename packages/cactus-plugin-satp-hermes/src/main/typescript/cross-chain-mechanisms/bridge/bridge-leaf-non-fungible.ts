@@ -1,7 +1,12 @@
+import { NonFungibleAsset } from "./ontology/assets/asset";
+import { TransactionResponse } from "./bridge-types";
+
 /**
  * Abstract class representing a non-fungible bridge leaf.
- * This class provides the structure for deploying and retrieving
- * the receipt of a non-fungible wrapper contract.
+ * Provides methods for deploying contracts, wrapping/unwrapping assets,
+ * locking/unlocking assets, minting/burning assets and assigning assets,
+ * where each token is identified by its unique descriptor (e.g. the ERC-721 token id)
+ * instead of an amount.
  */
 export abstract class BridgeLeafNonFungible {
   /**
@@ -18,5 +23,87 @@ export abstract class BridgeLeafNonFungible {
    */
   public abstract getDeployNonFungibleWrapperContractReceipt(): unknown;
 
-  //TODO: Implement this NON-FUNGIBLE bridge
+  /**
+   * Wraps a non-fungible asset into the wrapper.
+   * @param asset - The asset to be wrapped.
+   * @returns A promise that resolves with the transaction response.
+   */
+  public abstract wrapNonFungibleAsset(
+    asset: NonFungibleAsset,
+  ): Promise<TransactionResponse>;
+
+  /**
+   * Unwraps a non-fungible asset from the wrapper.
+   * @param assetId - The ID of the asset to be unwrapped.
+   * @returns A promise that resolves with the transaction response.
+   */
+  public abstract unwrapNonFungibleAsset(
+    assetId: string,
+  ): Promise<TransactionResponse>;
+
+  /**
+   * Locks the token with the given unique descriptor.
+   * @param assetId - The ID of the asset to be locked.
+   * @param uniqueDescriptor - The unique descriptor of the token to be locked.
+   * @returns A promise that resolves with the transaction response.
+   */
+  public abstract lockNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse>;
+
+  /**
+   * Unlocks the token with the given unique descriptor.
+   * @param assetId - The ID of the asset to be unlocked.
+   * @param uniqueDescriptor - The unique descriptor of the token to be unlocked.
+   * @returns A promise that resolves with the transaction response.
+   */
+  public abstract unlockNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse>;
+
+  /**
+   * Mints the token with the given unique descriptor and metadata URI.
+   * @param assetId - The ID of the asset to be minted.
+   * @param uniqueDescriptor - The unique descriptor of the token to be minted.
+   * @param metadataUri - The metadata URI of the token to be minted.
+   * @returns A promise that resolves with the transaction response.
+   */
+  public abstract mintNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+    metadataUri: string,
+  ): Promise<TransactionResponse>;
+
+  /**
+   * Burns the token with the given unique descriptor.
+   * @param assetId - The ID of the asset to be burned.
+   * @param uniqueDescriptor - The unique descriptor of the token to be burned.
+   * @returns A promise that resolves with the transaction response.
+   */
+  public abstract burnNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse>;
+
+  /**
+   * Assigns the token with the given unique descriptor to a recipient.
+   * @param assetId - The ID of the asset to be assigned.
+   * @param to - The recipient of the token.
+   * @param uniqueDescriptor - The unique descriptor of the token to be assigned.
+   * @returns A promise that resolves with the transaction response.
+   */
+  public abstract assignNonFungibleAsset(
+    assetId: string,
+    to: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse>;
+
+  /**
+   * Retrieves the receipt for a specified transaction.
+   * @param transactionId - The ID of the transaction.
+   * @returns A promise that resolves with the transaction receipt.
+   */
+  public abstract getReceipt(transactionId: string): Promise<string>;
 }
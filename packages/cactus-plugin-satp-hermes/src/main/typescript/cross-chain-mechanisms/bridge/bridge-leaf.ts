@@ -176,6 +176,35 @@ export abstract class BridgeLeaf {
     return this.claimFormats;
   }
 
+  /**
+   * Retrieves the token types the leaf can bridge.
+   *
+   * @returns {TokenType[]} An array of supported token types.
+   */
+  public getSupportedTokenTypes(): TokenType[] {
+    return [
+      TokenType.ERC20,
+      TokenType.NONSTANDARD_FUNGIBLE,
+      TokenType.ERC721,
+      TokenType.NONSTANDARD_NONFUNGIBLE,
+    ];
+  }
+
+  /**
+   * Estimates the ledger fees the leaf pays to bridge an asset, by dry
+   * running the wrap of the asset through the connector.
+   *
+   * Leafs whose connector cannot simulate transactions keep this default.
+   *
+   * @param {Asset} asset - The asset to be bridged.
+   * @returns {Promise<string | undefined>} The fee in the smallest unit of the
+   * native token of the ledger, or undefined if it cannot be estimated.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public async estimateFee(asset: Asset): Promise<string | undefined> {
+    return undefined;
+  }
+
   /**
    * Represents an abstract base class for a bridge leaf in a cross-chain mechanism.
    *
@@ -15,6 +15,11 @@ import {
   IEthereumLeafNeworkOptions,
 } from "./leafs/ethereum-leaf";
 import { FabricLeaf, IFabricLeafNeworkOptions } from "./leafs/fabric-leaf";
+import {
+  IPolkadotLeafNeworkOptions,
+  PolkadotLeaf,
+} from "./leafs/polkadot-leaf";
+import { IStellarLeafNeworkOptions, StellarLeaf } from "./leafs/stellar-leaf";
 import { BridgeManagerAdminInterface } from "./interfaces/bridge-manager-admin-interface";
 import { BridgeManagerClientInterface } from "./interfaces/bridge-manager-client-interface";
 import {
@@ -257,6 +262,64 @@ export class BridgeManager
                 this.monitorService,
               );
               break;
+            case LedgerType.Polkadot:
+              this.log.debug(`${fnTag}, Deploying Polkadot Leaf...`);
+              this.log.debug(
+                `${fnTag}, Polkadot Leaf Network Options: ${JSON.stringify(
+                  leafNetworkOptions,
+                )}`,
+              );
+              const polkadotNetworkOptions =
+                leafNetworkOptions as unknown as IPolkadotLeafNeworkOptions;
+              if (!this.ontologyManager) {
+                throw new Error(`${fnTag}, Ontology Manager is not defined`);
+              }
+              leaf = new PolkadotLeaf(
+                {
+                  ...polkadotNetworkOptions,
+                  connectorOptions: {
+                    ...polkadotNetworkOptions.connectorOptions,
+                    instanceId: uuidv4(),
+                    pluginRegistry: new PluginRegistry({
+                      plugins: [],
+                    }),
+                    logLevel: this.logLevel,
+                  },
+                  logLevel: this.logLevel,
+                },
+                this.ontologyManager,
+                this.monitorService,
+              );
+              break;
+            case LedgerType.Stellar:
+              this.log.debug(`${fnTag}, Deploying Stellar Leaf...`);
+              this.log.debug(
+                `${fnTag}, Stellar Leaf Network Options: ${JSON.stringify(
+                  leafNetworkOptions,
+                )}`,
+              );
+              const stellarNetworkOptions =
+                leafNetworkOptions as unknown as IStellarLeafNeworkOptions;
+              if (!this.ontologyManager) {
+                throw new Error(`${fnTag}, Ontology Manager is not defined`);
+              }
+              leaf = new StellarLeaf(
+                {
+                  ...stellarNetworkOptions,
+                  connectorOptions: {
+                    ...stellarNetworkOptions.connectorOptions,
+                    instanceId: uuidv4(),
+                    pluginRegistry: new PluginRegistry({
+                      plugins: [],
+                    }),
+                    logLevel: this.logLevel,
+                  },
+                  logLevel: this.logLevel,
+                },
+                this.ontologyManager,
+                this.monitorService,
+              );
+              break;
             default:
               throw new UnsupportedNetworkError(
                 `${fnTag}, ${leafNetworkOptions.networkIdentification.ledgerType} is not supported`,
@@ -9,3 +9,7 @@ export interface TransactionResponse {
 export interface INetworkOptions {
   networkIdentification: NetworkId;
 }
+
+// wrapper contract calls a leaf makes for one transfer: wrap, lock or mint,
+// burn or assign
+export const LEAF_CALLS_PER_TRANSFER = 3;
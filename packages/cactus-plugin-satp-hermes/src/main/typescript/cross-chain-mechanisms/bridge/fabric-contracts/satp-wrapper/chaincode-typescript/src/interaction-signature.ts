@@ -28,6 +28,8 @@ export enum VarType {
   BRIDGEMSPID = 7,
   RECEIVER = 8,
   MSPID = 9,
+  UNIQUEDESCRIPTOR = 10,
+  METADATAURI = 11,
 }
 
 export class InteractionSignature {
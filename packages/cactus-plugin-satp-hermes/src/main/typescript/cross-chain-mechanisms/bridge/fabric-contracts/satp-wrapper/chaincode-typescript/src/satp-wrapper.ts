@@ -433,6 +433,246 @@ export class SATPContractWrapper
     return true;
   }
 
+  /**
+   * @notice Lock a non-fungible asset.
+   * Locks the non-fungible token identified by the unique descriptor. This method calls the lock function of the token contract.
+   * @param ctx The transaction context.
+   * @param tokenId The unique identifier of the wrapped token.
+   * @param uniqueDescriptor The id of the token inside the token contract.
+   * @returns boolean
+   */
+  @Transaction()
+  @Returns("boolean")
+  public async lockNonFungible(
+    ctx: Context,
+    tokenId: string,
+    uniqueDescriptor: string,
+  ): Promise<boolean> {
+    await this.checkPermission(ctx);
+
+    const token = await this.getToken(ctx, tokenId);
+
+    if (!this.isNonFungible(token)) {
+      throw new Error(`Token ${tokenId} is not non-fungible`);
+    }
+
+    if (await this.isUniqueDescriptorLocked(ctx, tokenId, uniqueDescriptor)) {
+      throw new Error(
+        `Token ${tokenId} with unique descriptor ${uniqueDescriptor} is already locked`,
+      );
+    }
+
+    await this.interact(
+      ctx,
+      await this.getOntologyMethod(ctx, tokenId, InteractionSignatureType.LOCK),
+      token,
+      undefined,
+      undefined,
+      uniqueDescriptor,
+    );
+
+    await this.setUniqueDescriptorLocked(ctx, token, uniqueDescriptor, true);
+    return true;
+  }
+
+  /**
+   * @notice Unlock a non-fungible asset.
+   * Unlocks the non-fungible token identified by the unique descriptor. This method calls the unlock function of the token contract.
+   * @param ctx The transaction context.
+   * @param tokenId The unique identifier of the wrapped token.
+   * @param uniqueDescriptor The id of the token inside the token contract.
+   * @returns boolean
+   */
+  @Transaction()
+  @Returns("boolean")
+  public async unlockNonFungible(
+    ctx: Context,
+    tokenId: string,
+    uniqueDescriptor: string,
+  ): Promise<boolean> {
+    await this.checkPermission(ctx);
+
+    const token = await this.getToken(ctx, tokenId);
+
+    if (
+      !(await this.isUniqueDescriptorLocked(ctx, tokenId, uniqueDescriptor))
+    ) {
+      throw new Error(
+        `Token ${tokenId} with unique descriptor ${uniqueDescriptor} is not locked`,
+      );
+    }
+
+    await this.interact(
+      ctx,
+      await this.getOntologyMethod(
+        ctx,
+        tokenId,
+        InteractionSignatureType.UNLOCK,
+      ),
+      token,
+      undefined,
+      undefined,
+      uniqueDescriptor,
+    );
+
+    await this.setUniqueDescriptorLocked(ctx, token, uniqueDescriptor, false);
+    return true;
+  }
+
+  /**
+   * @notice Mint a non-fungible asset.
+   * Mints the non-fungible token identified by the unique descriptor, keeping it locked in the wrapper. This method calls the mint function of the token contract.
+   * @param ctx The transaction context.
+   * @param tokenId The unique identifier of the wrapped token.
+   * @param uniqueDescriptor The id of the token inside the token contract.
+   * @param metadataUri The metadata URI of the token being minted.
+   * @returns boolean
+   */
+  @Transaction()
+  @Returns("boolean")
+  public async mintNonFungible(
+    ctx: Context,
+    tokenId: string,
+    uniqueDescriptor: string,
+    metadataUri: string,
+  ): Promise<boolean> {
+    await this.checkPermission(ctx);
+
+    const token = await this.getToken(ctx, tokenId);
+
+    if (!this.isNonFungible(token)) {
+      throw new Error(`Token ${tokenId} is not non-fungible`);
+    }
+
+    if (await this.isUniqueDescriptorLocked(ctx, tokenId, uniqueDescriptor)) {
+      throw new Error(
+        `Token ${tokenId} with unique descriptor ${uniqueDescriptor} is already locked`,
+      );
+    }
+
+    await this.interact(
+      ctx,
+      await this.getOntologyMethod(ctx, tokenId, InteractionSignatureType.MINT),
+      token,
+      undefined,
+      undefined,
+      uniqueDescriptor,
+      metadataUri,
+    );
+
+    await this.setUniqueDescriptorLocked(ctx, token, uniqueDescriptor, true);
+    return true;
+  }
+
+  /**
+   * @notice Burn a non-fungible asset.
+   * Burns the locked non-fungible token identified by the unique descriptor. This method calls the burn function of the token contract.
+   * @param ctx The transaction context.
+   * @param tokenId The unique identifier of the wrapped token.
+   * @param uniqueDescriptor The id of the token inside the token contract.
+   * @returns boolean
+   */
+  @Transaction()
+  @Returns("boolean")
+  public async burnNonFungible(
+    ctx: Context,
+    tokenId: string,
+    uniqueDescriptor: string,
+  ): Promise<boolean> {
+    await this.checkPermission(ctx);
+
+    const token = await this.getToken(ctx, tokenId);
+
+    if (
+      !(await this.isUniqueDescriptorLocked(ctx, tokenId, uniqueDescriptor))
+    ) {
+      throw new Error(
+        `Token ${tokenId} with unique descriptor ${uniqueDescriptor} is not locked`,
+      );
+    }
+
+    await this.interact(
+      ctx,
+      await this.getOntologyMethod(ctx, tokenId, InteractionSignatureType.BURN),
+      token,
+      undefined,
+      undefined,
+      uniqueDescriptor,
+    );
+
+    await this.setUniqueDescriptorLocked(ctx, token, uniqueDescriptor, false);
+    return true;
+  }
+
+  /**
+   * @notice Assign a non-fungible asset.
+   * Assigns the locked non-fungible token identified by the unique descriptor to the given receiver. This method calls the assign function of the token contract.
+   * @param ctx The transaction context.
+   * @param tokenId The unique identifier of the wrapped token.
+   * @param to The receiver of the token.
+   * @param uniqueDescriptor The id of the token inside the token contract.
+   * @returns boolean
+   */
+  @Transaction()
+  @Returns("boolean")
+  public async assignNonFungible(
+    ctx: Context,
+    tokenId: string,
+    to: string,
+    uniqueDescriptor: string,
+  ): Promise<boolean> {
+    await this.checkPermission(ctx);
+
+    const token = await this.getToken(ctx, tokenId);
+
+    if (
+      !(await this.isUniqueDescriptorLocked(ctx, tokenId, uniqueDescriptor))
+    ) {
+      throw new Error(
+        `Token ${tokenId} with unique descriptor ${uniqueDescriptor} is not locked`,
+      );
+    }
+
+    await this.interact(
+      ctx,
+      await this.getOntologyMethod(
+        ctx,
+        tokenId,
+        InteractionSignatureType.ASSIGN,
+      ),
+      token,
+      undefined,
+      to,
+      uniqueDescriptor,
+    );
+
+    await this.setUniqueDescriptorLocked(ctx, token, uniqueDescriptor, false);
+    return true;
+  }
+
+  /**
+   * @notice Check if a non-fungible asset is locked.
+   * @param ctx The transaction context.
+   * @param tokenId The unique identifier of the wrapped token.
+   * @param uniqueDescriptor The id of the token inside the token contract.
+   * @returns boolean
+   */
+  @Transaction(false)
+  @Returns("boolean")
+  public async isUniqueDescriptorLocked(
+    ctx: Context,
+    tokenId: string,
+    uniqueDescriptor: string,
+  ): Promise<boolean> {
+    const valueBytes = await ctx.stub.getState(
+      ctx.stub.createCompositeKey("lockedUniqueDescriptor", [
+        tokenId,
+        uniqueDescriptor,
+      ]),
+    );
+    return !!valueBytes && valueBytes.length > 0;
+  }
+
   /**
    * @notice Get the token information.
    * @param ctx The transaction context.
@@ -523,6 +763,43 @@ export class SATPContractWrapper
     return c;
   }
 
+  /**
+   * @notice Check if the token was wrapped as a non-fungible token.
+   * The token type is the numeric value of the SATP TokenType enum (ERC721 = 2, NONSTANDARD_NONFUNGIBLE = 5).
+   * @param token The token.
+   */
+  private isNonFungible(token: Token): boolean {
+    return ["2", "5"].includes(token.tokenType.toString());
+  }
+
+  /**
+   * @notice Mark the unique descriptor as held (or released) by the wrapper.
+   * The amount of a non-fungible token counts the unique descriptors it holds, so unwrap keeps rejecting tokens with locked value.
+   * @param ctx The transaction context.
+   * @param token The token.
+   * @param uniqueDescriptor The id of the token inside the token contract.
+   * @param locked Whether the unique descriptor is now held by the wrapper.
+   */
+  private async setUniqueDescriptorLocked(
+    ctx: Context,
+    token: Token,
+    uniqueDescriptor: string,
+    locked: boolean,
+  ): Promise<void> {
+    const key = ctx.stub.createCompositeKey("lockedUniqueDescriptor", [
+      token.tokenId,
+      uniqueDescriptor,
+    ]);
+    if (locked) {
+      await ctx.stub.putState(key, Buffer.from("true"));
+      token.amount = this.add(token.amount, 1);
+    } else {
+      await ctx.stub.deleteState(key);
+      token.amount = this.sub(token.amount, 1);
+    }
+    await ctx.stub.putState(token.tokenId, Buffer.from(JSON.stringify(token)));
+  }
+
   /**
    * @notice Check if the caller has permission to perform the operation.
    * @param ctx The transaction context.
@@ -636,6 +913,8 @@ export class SATPContractWrapper
    * @param token The token.
    * @param amount The amount.
    * @param receiver The receiver.
+   * @param uniqueDescriptor The id of the token inside the token contract, for non-fungible tokens.
+   * @param metadataUri The metadata URI of the token, for non-fungible tokens.
    */
   private async interact(
     ctx: Context,
@@ -643,6 +922,8 @@ export class SATPContractWrapper
     token: Token,
     amount?: number,
     receiver?: string,
+    uniqueDescriptor?: string,
+    metadataUri?: string,
   ): Promise<void> {
     for (let i = 0; i < interaction.functionsSignature.length; i++) {
       const response = await ctx.stub.invokeChaincode(
@@ -654,6 +935,8 @@ export class SATPContractWrapper
           token,
           amount,
           receiver,
+          uniqueDescriptor,
+          metadataUri,
         ),
         token.channelName,
       );
@@ -676,6 +959,8 @@ export class SATPContractWrapper
    * @param token The token.
    * @param amount The amount of tokens to be encoded.
    * @param receiver The the receiver account.
+   * @param uniqueDescriptor The id of the token inside the token contract.
+   * @param metadataUri The metadata URI of the token.
    * @returns The list of variables.
    */
   private async dynamicParams(
@@ -685,6 +970,8 @@ export class SATPContractWrapper
     token: Token,
     amount?: number,
     receiver?: string,
+    uniqueDescriptor?: string,
+    metadataUri?: string,
   ): Promise<any[]> {
     const list = [];
     list.push(functionSignature);
@@ -723,6 +1010,12 @@ export class SATPContractWrapper
         case VarType.MSPID:
           list.push(await ctx.clientIdentity.getMSPID());
           break;
+        case VarType.UNIQUEDESCRIPTOR:
+          list.push(uniqueDescriptor);
+          break;
+        case VarType.METADATAURI:
+          list.push(metadataUri);
+          break;
       }
     }
     return list;
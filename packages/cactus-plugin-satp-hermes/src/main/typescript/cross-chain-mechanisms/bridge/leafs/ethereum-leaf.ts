@@ -1,4 +1,8 @@
-import { INetworkOptions, TransactionResponse } from "../bridge-types";
+import {
+  INetworkOptions,
+  LEAF_CALLS_PER_TRANSFER,
+  TransactionResponse,
+} from "../bridge-types";
 import {
   EthContractInvocationType,
   GasTransactionConfig,
@@ -16,7 +20,7 @@ import { stringify as safeStableStringify } from "safe-stable-stringify";
 
 import { PluginBungeeHermes } from "@hyperledger/cactus-plugin-bungee-hermes";
 import { StrategyEthereum } from "@hyperledger/cactus-plugin-bungee-hermes/dist/lib/main/typescript/strategy/strategy-ethereum";
-import { EvmAsset } from "../ontology/assets/evm-asset";
+import { EvmAsset, EvmNonFungibleAsset } from "../ontology/assets/evm-asset";
 import { LogLevelDesc, Secp256k1Keys } from "@hyperledger/cactus-common";
 import { SatpLoggerProvider as LoggerProvider } from "../../../core/satp-logger-provider";
 import { SATPLogger as Logger } from "../../../core/satp-logger";
@@ -301,18 +305,14 @@ export class EthereumLeaf
         switch (assetType) {
           case TokenType.ERC20:
           case TokenType.NONSTANDARD_FUNGIBLE:
+          case TokenType.ERC721:
+          case TokenType.NONSTANDARD_NONFUNGIBLE:
             if (!this.wrapperContractAddress) {
               throw new ApproveAddressError(
                 `${fnTag}, Wrapper Contract Address not available for approving address`,
               );
             }
             return this.wrapperContractAddress;
-          case TokenType.ERC721:
-          case TokenType.NONSTANDARD_NONFUNGIBLE:
-            //TODO implement
-            throw new ApproveAddressError(
-              `${fnTag}, Non-fungible wrapper contract not implemented`,
-            );
           default:
             throw new ApproveAddressError(
               `${fnTag}, Invalid asset type: ${getEnumKeyByValue(TokenType, assetType)}`,
@@ -328,6 +328,81 @@ export class EthereumLeaf
     });
   }
 
+  /**
+   * Estimates the fees of bridging an asset by dry running its wrap, assuming
+   * the other wrapper calls of the transfer cost the same.
+   *
+   * @param {EvmAsset} asset - The asset to be bridged.
+   * @returns {Promise<string | undefined>} The fee in wei, or undefined if the node does not report it.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the dry run fails.
+   */
+  public async estimateFee(asset: EvmAsset): Promise<string | undefined> {
+    const fnTag = `${EthereumLeaf.CLASS_NAME}#estimateFee`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Estimating fee of Asset: ${asset.id}`);
+
+        if (!this.wrapperContractName || !this.wrapperContractAddress) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const interactions = this.ontologyManager.getOntologyInteractions(
+          LedgerType.Ethereum,
+          asset.referenceId,
+        );
+
+        const response = await this.connector.invokeContract({
+          contract: {
+            contractJSON: {
+              contractName: this.wrapperContractName,
+              abi: SATPWrapperContract.abi,
+              bytecode: SATPWrapperContract.bytecode.object,
+            },
+            contractAddress: this.wrapperContractAddress,
+          },
+          invocationType: EthContractInvocationType.Send,
+          methodName: "wrap",
+          params: [
+            asset.contractName,
+            asset.contractAddress,
+            asset.type,
+            asset.id,
+            asset.referenceId,
+            asset.owner,
+            interactions,
+          ],
+          web3SigningCredential: this.signingCredential,
+          gasConfig: this.gasConfig,
+          dryRun: true,
+        });
+
+        if (!response.dryRunResult?.success) {
+          throw new TransactionError(
+            fnTag,
+            response.dryRunResult?.errorMessage,
+          );
+        }
+        if (response.dryRunResult.estimatedFee === undefined) {
+          return undefined;
+        }
+        return (
+          BigInt(response.dryRunResult.estimatedFee) *
+          BigInt(LEAF_CALLS_PER_TRANSFER)
+        ).toString();
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
   /**
    * Deploys the necessary contracts for the Ethereum leaf.
    *
@@ -511,15 +586,13 @@ export class EthereumLeaf
         this.log.debug(`${fnTag}, Getting Wrapper Contract Adress`);
         switch (type) {
           case "FUNGIBLE":
+          case "NONFUNGIBLE":
             if (!this.wrapperContractAddress) {
               throw new WrapperContractError(
                 `${fnTag}, Wrapper Contract not deployed`,
               );
             }
             return this.wrapperContractAddress;
-          case "NONFUNGIBLE":
-            //TODO implement
-            throw new Error("Method not implemented.");
           default:
             throw new Error("Invalid type");
         }
@@ -955,6 +1028,335 @@ export class EthereumLeaf
     });
   }
 
+  /**
+   * Wraps a non-fungible asset. The wrapper contract keeps fungible and non-fungible
+   * tokens side by side, the token type of the asset selects the behaviour of the wrapper.
+   *
+   * @param {EvmNonFungibleAsset} asset - The asset to be wrapped.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   */
+  public async wrapNonFungibleAsset(
+    asset: EvmNonFungibleAsset,
+  ): Promise<TransactionResponse> {
+    return this.wrapAsset(asset);
+  }
+
+  /**
+   * Unwraps a non-fungible asset. Fails if any token of the asset is still locked.
+   *
+   * @param {string} assetId - The ID of the asset to be unwrapped.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   */
+  public async unwrapNonFungibleAsset(
+    assetId: string,
+  ): Promise<TransactionResponse> {
+    return this.unwrapAsset(assetId);
+  }
+
+  /**
+   * Locks the non-fungible token with the given unique descriptor.
+   *
+   * @param {string} assetId - The ID of the asset.
+   * @param {string} uniqueDescriptor - The unique descriptor of the token.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async lockNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${EthereumLeaf.CLASS_NAME}}#lockNonFungibleAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Locking Asset: ${assetId} uniqueDescriptor: ${uniqueDescriptor}`,
+        );
+
+        if (!this.wrapperContractName || !this.wrapperContractAddress) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const response = (await this.connector.invokeContract({
+          contract: {
+            contractJSON: {
+              contractName: this.wrapperContractName,
+              abi: SATPWrapperContract.abi,
+              bytecode: SATPWrapperContract.bytecode.object,
+            },
+            contractAddress: this.wrapperContractAddress,
+          },
+          invocationType: EthContractInvocationType.Send,
+          methodName: "lockNonFungible",
+          params: [assetId, uniqueDescriptor],
+          web3SigningCredential: this.signingCredential,
+          gasConfig: this.gasConfig,
+        })) as EthereumResponse;
+        if (!response.success) {
+          throw new TransactionError(fnTag);
+        }
+        return {
+          transactionId: response.out.transactionReceipt.transactionHash ?? "",
+          transactionReceipt:
+            safeStableStringify(response.out.transactionReceipt) ?? "",
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Unlocks the non-fungible token with the given unique descriptor.
+   *
+   * @param {string} assetId - The ID of the asset.
+   * @param {string} uniqueDescriptor - The unique descriptor of the token.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async unlockNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${EthereumLeaf.CLASS_NAME}}#unlockNonFungibleAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Unlocking Asset: ${assetId} uniqueDescriptor: ${uniqueDescriptor}`,
+        );
+
+        if (!this.wrapperContractName || !this.wrapperContractAddress) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const response = (await this.connector.invokeContract({
+          contract: {
+            contractJSON: {
+              contractName: this.wrapperContractName,
+              abi: SATPWrapperContract.abi,
+              bytecode: SATPWrapperContract.bytecode.object,
+            },
+            contractAddress: this.wrapperContractAddress,
+          },
+          invocationType: EthContractInvocationType.Send,
+          methodName: "unlockNonFungible",
+          params: [assetId, uniqueDescriptor],
+          web3SigningCredential: this.signingCredential,
+          gasConfig: this.gasConfig,
+        })) as EthereumResponse;
+        if (!response.success) {
+          throw new TransactionError(fnTag);
+        }
+        return {
+          transactionId: response.out.transactionReceipt.transactionHash ?? "",
+          transactionReceipt:
+            safeStableStringify(response.out.transactionReceipt) ?? "",
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Mints the non-fungible token with the given unique descriptor and metadata URI.
+   *
+   * @param {string} assetId - The ID of the asset.
+   * @param {string} uniqueDescriptor - The unique descriptor of the token.
+   * @param {string} metadataUri - The metadata URI of the token.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async mintNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+    metadataUri: string,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${EthereumLeaf.CLASS_NAME}}#mintNonFungibleAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Minting Asset: ${assetId} uniqueDescriptor: ${uniqueDescriptor} metadataUri: ${metadataUri}`,
+        );
+
+        if (!this.wrapperContractName || !this.wrapperContractAddress) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const response = (await this.connector.invokeContract({
+          contract: {
+            contractJSON: {
+              contractName: this.wrapperContractName,
+              abi: SATPWrapperContract.abi,
+              bytecode: SATPWrapperContract.bytecode.object,
+            },
+            contractAddress: this.wrapperContractAddress,
+          },
+          invocationType: EthContractInvocationType.Send,
+          methodName: "mintNonFungible",
+          params: [assetId, uniqueDescriptor, metadataUri],
+          web3SigningCredential: this.signingCredential,
+          gasConfig: this.gasConfig,
+        })) as EthereumResponse;
+        if (!response.success) {
+          throw new TransactionError(fnTag);
+        }
+        return {
+          transactionId: response.out.transactionReceipt.transactionHash ?? "",
+          transactionReceipt:
+            safeStableStringify(response.out.transactionReceipt) ?? "",
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Burns the non-fungible token with the given unique descriptor.
+   *
+   * @param {string} assetId - The ID of the asset.
+   * @param {string} uniqueDescriptor - The unique descriptor of the token.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async burnNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${EthereumLeaf.CLASS_NAME}}#burnNonFungibleAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Burning Asset: ${assetId} uniqueDescriptor: ${uniqueDescriptor}`,
+        );
+
+        if (!this.wrapperContractName || !this.wrapperContractAddress) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const response = (await this.connector.invokeContract({
+          contract: {
+            contractJSON: {
+              contractName: this.wrapperContractName,
+              abi: SATPWrapperContract.abi,
+              bytecode: SATPWrapperContract.bytecode.object,
+            },
+            contractAddress: this.wrapperContractAddress,
+          },
+          invocationType: EthContractInvocationType.Send,
+          methodName: "burnNonFungible",
+          params: [assetId, uniqueDescriptor],
+          web3SigningCredential: this.signingCredential,
+          gasConfig: this.gasConfig,
+        })) as EthereumResponse;
+        if (!response.success) {
+          throw new TransactionError(fnTag);
+        }
+        return {
+          transactionId: response.out.transactionReceipt.transactionHash ?? "",
+          transactionReceipt:
+            safeStableStringify(response.out.transactionReceipt) ?? "",
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Assigns the non-fungible token with the given unique descriptor to a new owner.
+   *
+   * @param {string} assetId - The ID of the asset.
+   * @param {string} to - The new owner of the token.
+   * @param {string} uniqueDescriptor - The unique descriptor of the token.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async assignNonFungibleAsset(
+    assetId: string,
+    to: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${EthereumLeaf.CLASS_NAME}}#assignNonFungibleAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Assigning Asset: ${assetId} uniqueDescriptor: ${uniqueDescriptor} to: ${to}`,
+        );
+
+        if (!this.wrapperContractName || !this.wrapperContractAddress) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const response = (await this.connector.invokeContract({
+          contract: {
+            contractJSON: {
+              contractName: this.wrapperContractName,
+              abi: SATPWrapperContract.abi,
+              bytecode: SATPWrapperContract.bytecode.object,
+            },
+            contractAddress: this.wrapperContractAddress,
+          },
+          invocationType: EthContractInvocationType.Send,
+          methodName: "assignNonFungible",
+          params: [assetId, to, uniqueDescriptor],
+          web3SigningCredential: this.signingCredential,
+          gasConfig: this.gasConfig,
+        })) as EthereumResponse;
+        if (!response.success) {
+          throw new TransactionError(fnTag);
+        }
+        return {
+          transactionId: response.out.transactionReceipt.transactionHash ?? "",
+          transactionReceipt:
+            safeStableStringify(response.out.transactionReceipt) ?? "",
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
   /**
    * Retrieves all asset IDs.
    *
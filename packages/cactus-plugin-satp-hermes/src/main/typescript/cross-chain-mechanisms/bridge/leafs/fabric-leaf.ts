@@ -43,7 +43,10 @@ import {
   WrapperContractError,
 } from "../../common/errors";
 import { INetworkOptions, TransactionResponse } from "../bridge-types";
-import { FabricAsset } from "../ontology/assets/fabric-asset";
+import {
+  FabricAsset,
+  FabricNonFungibleAsset,
+} from "../ontology/assets/fabric-asset";
 import { Asset } from "../ontology/assets/asset";
 import { X509Identity } from "fabric-network";
 import { NetworkId } from "../../../public-api";
@@ -349,18 +352,14 @@ export class FabricLeaf
         switch (assetType) {
           case TokenType.ERC20:
           case TokenType.NONSTANDARD_FUNGIBLE:
+          case TokenType.ERC721:
+          case TokenType.NONSTANDARD_NONFUNGIBLE:
             if (!this.bridgeId) {
               throw new ApproveAddressError(
                 `${fnTag}, Bridge ID not available for approving address`,
               );
             }
             return this.bridgeId;
-          case TokenType.ERC721:
-          case TokenType.NONSTANDARD_NONFUNGIBLE:
-            //TODO implement
-            throw new ApproveAddressError(
-              `${fnTag}, Non-fungible wrapper contract not implemented`,
-            );
           default:
             throw new ApproveAddressError(
               `${fnTag}, Invalid asset type: ${getEnumKeyByValue(TokenType, assetType)}`,
@@ -376,6 +375,15 @@ export class FabricLeaf
     });
   }
 
+  /**
+   * Fabric does not charge fees for transactions.
+   *
+   * @returns {Promise<string>} Always "0".
+   */
+  public async estimateFee(): Promise<string> {
+    return "0";
+  }
+
   /**
    * Deploys the necessary contracts for the Ethereum leaf.
    *
@@ -746,17 +754,13 @@ export class FabricLeaf
         this.log.debug(`${fnTag}, Getting Wrapper Contract Adress`);
         switch (type) {
           case "FUNGIBLE":
+          case "NONFUNGIBLE":
             if (!this.wrapperContractName) {
               throw new WrapperContractError(
                 `${fnTag}, Wrapper Contract not deployed`,
               );
             }
             return this.wrapperContractName;
-          case "NONFUNGIBLE":
-            //TODO implement
-            throw new InvalidWrapperContract(
-              `${fnTag}, Non-fungible wrapper contract not implemented`,
-            );
           default:
             throw new InvalidWrapperContract(
               `${fnTag}, Invalid wrapper contract`,
@@ -1149,6 +1153,305 @@ export class FabricLeaf
       }
     });
   }
+
+  /**
+   * Wraps a non-fungible asset. The wrapper contract keeps fungible and non-fungible
+   * tokens side by side, the token type of the asset selects the behaviour of the wrapper.
+   *
+   * @param {FabricNonFungibleAsset} asset - The asset to be wrapped.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   */
+  public async wrapNonFungibleAsset(
+    asset: FabricNonFungibleAsset,
+  ): Promise<TransactionResponse> {
+    return this.wrapAsset(asset);
+  }
+
+  /**
+   * Unwraps a non-fungible asset. Fails if any token of the asset is still locked.
+   *
+   * @param {string} assetId - The ID of the asset to be unwrapped.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   */
+  public async unwrapNonFungibleAsset(
+    assetId: string,
+  ): Promise<TransactionResponse> {
+    return this.unwrapAsset(assetId);
+  }
+
+  /**
+   * Locks the non-fungible token with the given unique descriptor.
+   *
+   * @param {string} assetId - The ID of the asset.
+   * @param {string} uniqueDescriptor - The unique descriptor of the token.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async lockNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${FabricLeaf.CLASS_NAME}}#lockNonFungibleAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Locking Asset: ${assetId} uniqueDescriptor: ${uniqueDescriptor}`,
+        );
+
+        if (!this.contractChannel || !this.wrapperContractName) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const response = await this.connector.transact({
+          signingCredential: this.signingCredential,
+          channelName: this.contractChannel,
+          methodName: "lockNonFungible",
+          params: [assetId, uniqueDescriptor],
+          contractName: this.wrapperContractName,
+          invocationType: FabricContractInvocationType.Send,
+        });
+
+        if (response == undefined || response.transactionId == "") {
+          throw new TransactionError(fnTag);
+        }
+
+        return {
+          transactionId: response.transactionId,
+          output: response.functionOutput,
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Unlocks the non-fungible token with the given unique descriptor.
+   *
+   * @param {string} assetId - The ID of the asset.
+   * @param {string} uniqueDescriptor - The unique descriptor of the token.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async unlockNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${FabricLeaf.CLASS_NAME}}#unlockNonFungibleAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Unlocking Asset: ${assetId} uniqueDescriptor: ${uniqueDescriptor}`,
+        );
+
+        if (!this.contractChannel || !this.wrapperContractName) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const response = await this.connector.transact({
+          signingCredential: this.signingCredential,
+          channelName: this.contractChannel,
+          methodName: "unlockNonFungible",
+          params: [assetId, uniqueDescriptor],
+          contractName: this.wrapperContractName,
+          invocationType: FabricContractInvocationType.Send,
+        });
+
+        if (response == undefined || response.transactionId == "") {
+          throw new TransactionError(fnTag);
+        }
+
+        return {
+          transactionId: response.transactionId,
+          output: response.functionOutput,
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Mints the non-fungible token with the given unique descriptor and metadata URI.
+   *
+   * @param {string} assetId - The ID of the asset.
+   * @param {string} uniqueDescriptor - The unique descriptor of the token.
+   * @param {string} metadataUri - The metadata URI of the token.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async mintNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+    metadataUri: string,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${FabricLeaf.CLASS_NAME}}#mintNonFungibleAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Minting Asset: ${assetId} uniqueDescriptor: ${uniqueDescriptor} metadataUri: ${metadataUri}`,
+        );
+
+        if (!this.contractChannel || !this.wrapperContractName) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const response = await this.connector.transact({
+          signingCredential: this.signingCredential,
+          channelName: this.contractChannel,
+          methodName: "mintNonFungible",
+          params: [assetId, uniqueDescriptor, metadataUri],
+          contractName: this.wrapperContractName,
+          invocationType: FabricContractInvocationType.Send,
+        });
+
+        if (response == undefined || response.transactionId == "") {
+          throw new TransactionError(fnTag);
+        }
+
+        return {
+          transactionId: response.transactionId,
+          output: response.functionOutput,
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Burns the non-fungible token with the given unique descriptor.
+   *
+   * @param {string} assetId - The ID of the asset.
+   * @param {string} uniqueDescriptor - The unique descriptor of the token.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async burnNonFungibleAsset(
+    assetId: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${FabricLeaf.CLASS_NAME}}#burnNonFungibleAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Burning Asset: ${assetId} uniqueDescriptor: ${uniqueDescriptor}`,
+        );
+
+        if (!this.contractChannel || !this.wrapperContractName) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const response = await this.connector.transact({
+          signingCredential: this.signingCredential,
+          channelName: this.contractChannel,
+          methodName: "burnNonFungible",
+          params: [assetId, uniqueDescriptor],
+          contractName: this.wrapperContractName,
+          invocationType: FabricContractInvocationType.Send,
+        });
+
+        if (response == undefined || response.transactionId == "") {
+          throw new TransactionError(fnTag);
+        }
+
+        return {
+          transactionId: response.transactionId,
+          output: response.functionOutput,
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Assigns the non-fungible token with the given unique descriptor to a new owner.
+   *
+   * @param {string} assetId - The ID of the asset.
+   * @param {string} to - The new owner of the token.
+   * @param {string} uniqueDescriptor - The unique descriptor of the token.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async assignNonFungibleAsset(
+    assetId: string,
+    to: string,
+    uniqueDescriptor: string,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${FabricLeaf.CLASS_NAME}}#assignNonFungibleAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Assigning Asset: ${assetId} uniqueDescriptor: ${uniqueDescriptor} to: ${to}`,
+        );
+
+        if (!this.contractChannel || !this.wrapperContractName) {
+          throw new WrapperContractError(
+            `${fnTag}, Wrapper Contract not deployed`,
+          );
+        }
+
+        const response = await this.connector.transact({
+          signingCredential: this.signingCredential,
+          channelName: this.contractChannel,
+          methodName: "assignNonFungible",
+          params: [assetId, to, uniqueDescriptor],
+          contractName: this.wrapperContractName,
+          invocationType: FabricContractInvocationType.Send,
+        });
+
+        if (response == undefined || response.transactionId == "") {
+          throw new TransactionError(fnTag);
+        }
+
+        return {
+          transactionId: response.transactionId,
+          output: response.functionOutput,
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
   /**
    * Retrieves all asset IDs.
    *
@@ -0,0 +1,1091 @@
+import {
+  INetworkOptions,
+  LEAF_CALLS_PER_TRANSFER,
+  TransactionResponse,
+} from "../bridge-types";
+import {
+  DeployContractInkRequestGasLimit,
+  InvokeContractResponse,
+  IPluginLedgerConnectorPolkadotOptions,
+  PluginLedgerConnectorPolkadot,
+  PolkadotContractInvocationType,
+  Web3SigningCredentialMnemonicString,
+  Web3SigningCredentialType,
+} from "@hyperledger/cactus-plugin-ledger-connector-polkadot";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import fs from "fs-extra";
+import path from "path";
+
+import { PluginBungeeHermes } from "@hyperledger/cactus-plugin-bungee-hermes";
+import { PolkadotAsset } from "../ontology/assets/polkadot-asset";
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+import { SatpLoggerProvider as LoggerProvider } from "../../../core/satp-logger-provider";
+import { SATPLogger as Logger } from "../../../core/satp-logger";
+import {
+  ClaimFormat,
+  TokenType,
+} from "../../../generated/proto/cacti/satp/v02/common/message_pb";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import { BridgeLeafFungible } from "../bridge-leaf-fungible";
+import { BridgeLeaf } from "../bridge-leaf";
+import { IBridgeLeafOptions } from "../bridge-leaf";
+import {
+  NoSigningCredentialError,
+  UnsupportedNetworkError,
+  TransactionError,
+  ReceiptError,
+  ContractAddressError,
+  WrapperContractError,
+  BungeeError,
+  WrapperContractAlreadyCreatedError,
+  ProofError,
+  ClaimFormatError,
+  ConnectorOptionsError,
+  ApproveAddressError,
+} from "../../common/errors";
+import { ISignerKeyPair, Secp256k1Keys } from "@hyperledger/cactus-common";
+import { OntologyManager } from "../ontology/ontology-manager";
+import { Asset } from "../ontology/assets/asset";
+import { NetworkId } from "../../../public-api";
+import { getEnumKeyByValue } from "../../../services/utils";
+import { MonitorService } from "../../../services/monitoring/monitor";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+
+export interface IPolkadotLeafNeworkOptions extends INetworkOptions {
+  signingCredential: Web3SigningCredentialMnemonicString;
+  connectorOptions: Partial<IPluginLedgerConnectorPolkadotOptions>;
+  leafId?: string;
+  keyPair?: ISignerKeyPair;
+  claimFormats?: ClaimFormat[];
+  wrapperContractAddress?: string;
+  gasLimit?: DeployContractInkRequestGasLimit;
+}
+
+export interface IPolkadotLeafOptions
+  extends IBridgeLeafOptions,
+    IPolkadotLeafNeworkOptions {}
+
+/**
+ * Token as returned by the `get_token` message of the ink! wrapper contract,
+ * the fields are camel cased by the metadata decoder.
+ */
+interface PolkadotTokenResponse {
+  contractName: string;
+  contractAddress: string;
+  tokenType: number;
+  tokenId: string;
+  referenceId: string;
+  owner: string;
+  amount: number | string;
+}
+
+/**
+ * The `PolkadotLeaf` class extends the `BridgeLeaf` class and implements the `BridgeLeafFungible` interface.
+ * It represents a leaf node in a cross-chain bridge mechanism for Substrate based networks with the contracts pallet (e.g. Polkadot parachains).
+ * The assets are tracked by an ink! wrapper contract that interacts with the token contracts following their ontologies,
+ * in the same way as the `SATPWrapperContract` does on EVM networks.
+ *
+ * @remarks
+ * The wrapper contract is built with `cargo contract` (see the `ink:build` script) and deployed through the `PluginLedgerConnectorPolkadot`.
+ * There is no BUNGEE strategy for Substrate networks, so only the DEFAULT claim format is supported.
+ *
+ * @example
+ * ```typescript
+ * const polkadotLeaf = new PolkadotLeaf(
+ *   {
+ *     networkIdentification: { id: "polkadot-network", ledgerType: LedgerType.Polkadot },
+ *     signingCredential: { type: Web3SigningCredentialType.MnemonicString, mnemonic: "//Alice" },
+ *     connectorOptions: {
+ *       instanceId: uuidv4(),
+ *       wsProviderUrl,
+ *       pluginRegistry,
+ *       logLevel,
+ *     },
+ *   },
+ *   ontologyManager,
+ *   monitorService,
+ * );
+ *
+ * await polkadotLeaf.deployContracts();
+ * const transactionResponse = await polkadotLeaf.wrapAsset(myAsset);
+ * ```
+ *
+ * @throws {UnsupportedNetworkError} If the provided network identification is not a Polkadot network.
+ * @throws {NoSigningCredentialError} If no mnemonic signing credential is provided in the options.
+ */
+export class PolkadotLeaf extends BridgeLeaf implements BridgeLeafFungible {
+  public static readonly CLASS_NAME = "PolkadotLeaf";
+
+  public static readonly DEFAULT_GAS_LIMIT: DeployContractInkRequestGasLimit = {
+    refTime: 6219235328,
+    proofSize: 131072,
+  };
+
+  protected readonly log: Logger;
+  protected readonly logLevel: LogLevelDesc;
+
+  protected readonly id: string;
+
+  protected readonly networkIdentification: NetworkId;
+
+  protected readonly keyPair: ISignerKeyPair;
+
+  protected readonly connector: PluginLedgerConnectorPolkadot;
+
+  protected bungee?: PluginBungeeHermes;
+
+  protected readonly claimFormats: ClaimFormat[];
+
+  protected readonly ontologyManager: OntologyManager;
+
+  private readonly signingCredential: Web3SigningCredentialMnemonicString;
+
+  private readonly gasLimit: DeployContractInkRequestGasLimit;
+
+  private readonly wrapperContractBundlePath = path.join(
+    __dirname,
+    "../polkadot-contracts/satp-wrapper/target/ink/satp_wrapper.contract",
+  );
+
+  private wrapperContractMetadata: string | undefined;
+
+  private wrapperFungibleDeployReceipt: string | undefined;
+
+  private wrapperContractAddress: string | undefined;
+
+  private accountAddress: string | undefined;
+
+  private connected: Promise<void> | undefined;
+
+  // the connector cannot look extrinsics up by hash, so the receipts of the
+  // transactions sent by this leaf are kept in memory
+  private readonly receipts = new Map<string, string>();
+
+  public readonly monitorService: MonitorService;
+
+  /**
+   * Constructs a new instance of the `PolkadotLeaf` class.
+   *
+   * @param options - The options for configuring the `PolkadotLeaf` instance.
+   * @throws {UnsupportedNetworkError} If the provided network identification is not a Polkadot network.
+   * @throws {NoSigningCredentialError} If no mnemonic signing credential is provided in the options.
+   * @throws {ClaimFormatError} If a claim format other than DEFAULT is requested.
+   */
+  constructor(
+    public readonly options: IPolkadotLeafOptions,
+    ontologyManager: OntologyManager,
+    monitorService: MonitorService,
+  ) {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}#constructor()`;
+    super();
+    const label = PolkadotLeaf.CLASS_NAME;
+    this.logLevel = this.options.logLevel || "INFO";
+    this.monitorService = monitorService;
+    this.log = LoggerProvider.getOrCreate(
+      {
+        label,
+        level: this.logLevel,
+      },
+      this.monitorService,
+    );
+
+    this.log.debug(
+      `${PolkadotLeaf.CLASS_NAME}#constructor options: ${safeStableStringify(options)}`,
+    );
+
+    if (options.networkIdentification.ledgerType !== LedgerType.Polkadot) {
+      throw new UnsupportedNetworkError(
+        `${PolkadotLeaf.CLASS_NAME}#constructor, supports only Polkadot networks but got ${options.networkIdentification.ledgerType}`,
+      );
+    }
+
+    this.networkIdentification = {
+      id: options.networkIdentification.id,
+      ledgerType: options.networkIdentification.ledgerType,
+    };
+
+    this.id = this.options.leafId || this.createId(PolkadotLeaf.CLASS_NAME);
+    this.keyPair = options.keyPair || Secp256k1Keys.generateKeyPairsBuffer();
+
+    this.claimFormats = !!options.claimFormats
+      ? options.claimFormats.concat(ClaimFormat.DEFAULT)
+      : [ClaimFormat.DEFAULT];
+
+    if (!this.isFullPluginOptions(options.connectorOptions)) {
+      throw new ConnectorOptionsError(
+        "Invalid options provided to the PolkadotLeaf constructor. Please provide a valid IPluginLedgerConnectorPolkadotOptions object.",
+      );
+    }
+    this.gasLimit = options.gasLimit || PolkadotLeaf.DEFAULT_GAS_LIMIT;
+
+    this.connector = new PluginLedgerConnectorPolkadot(
+      options.connectorOptions as IPluginLedgerConnectorPolkadotOptions,
+    );
+
+    this.ontologyManager = ontologyManager;
+
+    if (
+      options.signingCredential?.type !==
+        Web3SigningCredentialType.MnemonicString ||
+      !options.signingCredential.mnemonic
+    ) {
+      throw new NoSigningCredentialError(
+        `${PolkadotLeaf.CLASS_NAME}#constructor, options.signingCredential`,
+      );
+    }
+    this.signingCredential = options.signingCredential;
+
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+
+    context.with(ctx, () => {
+      try {
+        for (const claim of this.claimFormats) {
+          switch (claim) {
+            case ClaimFormat.DEFAULT:
+              break;
+            default:
+              throw new ClaimFormatError(
+                `${PolkadotLeaf.CLASS_NAME}#constructor, Claim format not supported: ${claim}`,
+              );
+          }
+        }
+
+        if (options.wrapperContractAddress) {
+          this.wrapperContractAddress = options.wrapperContractAddress;
+        } else {
+          this.log.debug(
+            `${PolkadotLeaf.CLASS_NAME}#constructor, No wrapper contract provided, creation required`,
+          );
+        }
+      } catch (error) {
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: String(error),
+        });
+        span.recordException(error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the approve address for a specified asset type.
+   *
+   * @param assetType - The type of the asset for which the approve address is to be retrieved.
+   * @returns {string} The address of the wrapper contract for fungible assets.
+   * @throws {ApproveAddressError} If the wrapper contract is not deployed,
+   *                               or if the asset type is not fungible.
+   */
+  public getApproveAddress(assetType: TokenType): string {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}#getApproveAddress`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Getting Approve Address for asset type: ${getEnumKeyByValue(TokenType, assetType)}`,
+        );
+        switch (assetType) {
+          case TokenType.ERC20:
+          case TokenType.NONSTANDARD_FUNGIBLE:
+            if (!this.wrapperContractAddress) {
+              throw new ApproveAddressError(
+                `${fnTag}, Wrapper Contract Address not available for approving address`,
+              );
+            }
+            return this.wrapperContractAddress;
+          default:
+            throw new ApproveAddressError(
+              `${fnTag}, Invalid asset type: ${getEnumKeyByValue(TokenType, assetType)}`,
+            );
+        }
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the token types the leaf can bridge. The ink! wrapper contract
+   * only handles fungible tokens, so transfers of non-fungible ones are
+   * rejected before they start.
+   *
+   * @returns {TokenType[]} An array of supported token types.
+   */
+  public getSupportedTokenTypes(): TokenType[] {
+    return [TokenType.ERC20, TokenType.NONSTANDARD_FUNGIBLE];
+  }
+
+  /**
+   * Estimates the fees of bridging an asset by dry running its wrap, assuming
+   * the other wrapper calls of the transfer cost the same.
+   *
+   * @param {PolkadotAsset} asset - The asset to be bridged.
+   * @returns {Promise<string | undefined>} The partial fee in planck, or undefined if the node does not report it.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the dry run fails.
+   */
+  public async estimateFee(asset: PolkadotAsset): Promise<string | undefined> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}#estimateFee`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Estimating fee of Asset: ${asset.id}`);
+
+        const interactions = this.ontologyManager.getOntologyInteractions(
+          LedgerType.Polkadot,
+          asset.referenceId,
+        );
+
+        const response = await this.invokeWrapper(
+          "wrap",
+          [
+            asset.contractName,
+            asset.contractAddress,
+            asset.type,
+            asset.id,
+            asset.referenceId,
+            asset.owner,
+            interactions,
+          ],
+          PolkadotContractInvocationType.Send,
+          true,
+        );
+
+        if (!response.dryRunResult?.success) {
+          throw new TransactionError(
+            fnTag,
+            response.dryRunResult?.errorMessage,
+          );
+        }
+        if (response.dryRunResult.estimatedFee === undefined) {
+          return undefined;
+        }
+        return (
+          BigInt(response.dryRunResult.estimatedFee) *
+          BigInt(LEAF_CALLS_PER_TRANSFER)
+        ).toString();
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Deploys the necessary contracts for the Polkadot leaf.
+   *
+   * @returns {Promise<void>} A promise that resolves when all contracts are deployed.
+   */
+  public async deployContracts(): Promise<void> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}#deployContracts`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    await context.with(ctx, async () => {
+      try {
+        await this.deployFungibleWrapperContract();
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the deployment receipt of the fungible wrapper contract.
+   *
+   * @returns {string} The serialized deployment response of the fungible wrapper contract.
+   * @throws {ReceiptError} If the fungible wrapper contract has not been deployed.
+   */
+  public getDeployFungibleWrapperContractReceipt(): string {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}#getDeployFungibleWrapperContractReceipt`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, () => {
+      try {
+        if (!this.wrapperFungibleDeployReceipt) {
+          throw new ReceiptError(
+            `${PolkadotLeaf.CLASS_NAME}#getDeployFungibleWrapperContractReceipt() Fungible Wrapper Contract Not deployed`,
+          );
+        }
+        return this.wrapperFungibleDeployReceipt;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Deploys the ink! fungible wrapper contract, the signing account becomes its owner.
+   *
+   * @returns {Promise<void>} A promise that resolves when the contract is deployed.
+   * @throws {WrapperContractAlreadyCreatedError} If the wrapper contract is already created.
+   * @throws {ContractAddressError} If the deployment does not return the contract address.
+   */
+  public async deployFungibleWrapperContract(): Promise<void> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}#deployFungibleWrapperContract`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    await context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Deploying Wrapper Contract`);
+
+        if (this.wrapperContractAddress) {
+          this.log.debug(
+            `${fnTag}, Wrapper Contract already created, wrapperContractAddress: ${this.wrapperContractAddress}`,
+          );
+          throw new WrapperContractAlreadyCreatedError(fnTag);
+        }
+
+        await this.ensureConnected();
+
+        const bundle = JSON.parse(
+          await fs.readFile(this.wrapperContractBundlePath, "utf-8"),
+        );
+        const wasm: string = bundle.source.wasm;
+
+        const deployOutWrapperContract = await this.connector.deployContract({
+          wasm: Buffer.from(wasm.replace(/^0x/, ""), "hex").toString("base64"),
+          metadata: this.getWrapperContractMetadata(),
+          gasLimit: this.gasLimit,
+          web3SigningCredential: this.signingCredential,
+          constructorMethod: "new",
+        });
+
+        if (
+          !deployOutWrapperContract.success ||
+          !deployOutWrapperContract.contractAddress
+        ) {
+          throw new ContractAddressError(
+            `${fnTag}, Wrapper Contract address not found in deploy response: ${safeStableStringify(deployOutWrapperContract)}`,
+          );
+        }
+
+        this.wrapperFungibleDeployReceipt = safeStableStringify(
+          deployOutWrapperContract,
+        );
+
+        this.wrapperContractAddress = deployOutWrapperContract.contractAddress;
+
+        this.log.debug(
+          `${fnTag}, Wrapper Contract deployed receipt: ${this.wrapperFungibleDeployReceipt}`,
+        );
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the contract address of the wrapper contract.
+   *
+   * @param {string} type - The type of the wrapper contract.
+   * @returns {string} The contract address of the wrapper contract.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   */
+  public getWrapperContract(type: "FUNGIBLE"): string {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#getWrapperContract`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, () => {
+      try {
+        this.log.debug(`${fnTag}, Getting Wrapper Contract Adress`);
+        switch (type) {
+          case "FUNGIBLE":
+            if (!this.wrapperContractAddress) {
+              throw new WrapperContractError(
+                `${fnTag}, Wrapper Contract not deployed`,
+              );
+            }
+            return this.wrapperContractAddress;
+          default:
+            throw new Error("Invalid type");
+        }
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Wraps an asset.
+   *
+   * @param {PolkadotAsset} asset - The asset to be wrapped.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async wrapAsset(asset: PolkadotAsset): Promise<TransactionResponse> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#wrapAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Wrapping Asset: {${asset.id}, ${asset.owner}, ${asset.contractAddress}, ${asset.type}}`,
+        );
+
+        const interactions = this.ontologyManager.getOntologyInteractions(
+          LedgerType.Polkadot,
+          asset.referenceId,
+        );
+
+        return await this.sendTransaction(fnTag, "wrap", [
+          asset.contractName,
+          asset.contractAddress,
+          asset.type,
+          asset.id,
+          asset.referenceId,
+          asset.owner,
+          interactions,
+        ]);
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Unwraps an asset.
+   *
+   * @param {string} assetId - The ID of the asset to be unwrapped.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async unwrapAsset(assetId: string): Promise<TransactionResponse> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#unwrapAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Unwrapping Asset: ${assetId}`);
+        return await this.sendTransaction(fnTag, "unwrap", [assetId]);
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Locks an asset.
+   *
+   * @param {string} assetId - The ID of the asset to be locked.
+   * @param {number} amount - The amount of the asset to be locked.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async lockAsset(
+    assetId: string,
+    amount: number,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#lockAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Locking Asset: ${assetId} amount: ${amount}`);
+        return await this.sendTransaction(fnTag, "lock", [
+          assetId,
+          amount.toString(),
+        ]);
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Unlocks an asset.
+   *
+   * @param {string} assetId - The ID of the asset to be unlocked.
+   * @param {number} amount - The amount of the asset to be unlocked.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async unlockAsset(
+    assetId: string,
+    amount: number,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#unlockAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Unlocking Asset: ${assetId} amount: ${amount}`,
+        );
+        return await this.sendTransaction(fnTag, "unlock", [
+          assetId,
+          amount.toString(),
+        ]);
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Mints an asset.
+   *
+   * @param {string} assetId - The ID of the asset to be minted.
+   * @param {number} amount - The amount of the asset to be minted.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async mintAsset(
+    assetId: string,
+    amount: number,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#mintAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Minting Asset: ${assetId} amount: ${amount}`);
+        return await this.sendTransaction(fnTag, "mint", [
+          assetId,
+          amount.toString(),
+        ]);
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Burns an asset.
+   *
+   * @param {string} assetId - The ID of the asset to be burned.
+   * @param {number} amount - The amount of the asset to be burned.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async burnAsset(
+    assetId: string,
+    amount: number,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#burnAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Burning Asset: ${assetId} amount: ${amount}`);
+        return await this.sendTransaction(fnTag, "burn", [
+          assetId,
+          amount.toString(),
+        ]);
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Assigns an asset to a new owner.
+   *
+   * @param {string} assetId - The ID of the asset to be assigned.
+   * @param {string} to - The address of the new owner.
+   * @param {number} amount - The amount of the asset to be assigned.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async assignAsset(
+    assetId: string,
+    to: string,
+    amount: number,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#assignAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Assigning Asset: ${assetId} amount: ${amount} to: ${to}`,
+        );
+        return await this.sendTransaction(fnTag, "assign", [
+          assetId,
+          to,
+          amount.toString(),
+        ]);
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves all asset IDs.
+   *
+   * @returns {Promise<string[]>} A promise that resolves to an array of asset IDs.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the query fails.
+   */
+  public async getAssets(): Promise<string[]> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#getAssets`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Getting Assets`);
+        const response = await this.invokeWrapper(
+          "get_all_assets_ids",
+          [],
+          PolkadotContractInvocationType.Query,
+        );
+        return this.getQueryOutput(fnTag, response) as string[];
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves an asset by its ID.
+   *
+   * @param {string} assetId - The ID of the asset to be retrieved.
+   * @returns {Promise<PolkadotAsset>} A promise that resolves to the asset.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the query fails or the asset is not wrapped.
+   */
+  public async getAsset(assetId: string): Promise<PolkadotAsset> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#getAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Getting Asset`);
+        const response = await this.invokeWrapper(
+          "get_token",
+          [assetId],
+          PolkadotContractInvocationType.Query,
+        );
+
+        const token = this.getQueryOutput(
+          fnTag,
+          response,
+        ) as PolkadotTokenResponse | null;
+
+        if (!token) {
+          throw new TransactionError(`${fnTag}, Asset ${assetId} not found`);
+        }
+
+        return {
+          contractName: token.contractName,
+          id: token.tokenId,
+          referenceId: token.referenceId,
+          contractAddress: token.contractAddress,
+          type: Number(token.tokenType),
+          owner: token.owner,
+          amount: String(token.amount),
+          network: this.networkIdentification,
+        } as PolkadotAsset;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Runs a costum transaction on the wrapper contract.
+   *
+   * @param {string} methodName - The name of the message to be invoked.
+   * @param {string[]} params - The parameters for the message invocation.
+   * @param {PolkadotContractInvocationType} invocationType - The type of invocation (Send or Query).
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async runTransaction(
+    methodName: string,
+    params: string[],
+    invocationType: PolkadotContractInvocationType,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#runTransaction`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Running Transaction: ${methodName} with params: ${params}`,
+        );
+
+        if (invocationType === PolkadotContractInvocationType.Send) {
+          return await this.sendTransaction(fnTag, methodName, params);
+        }
+
+        const response = await this.invokeWrapper(
+          methodName,
+          params,
+          invocationType,
+        );
+
+        return {
+          transactionId: "",
+          transactionReceipt: "",
+          output: this.getQueryOutput(fnTag, response),
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Views are generated by BUNGEE, which has no strategy for Polkadot networks.
+   *
+   * @throws {BungeeError} Always.
+   */
+  public async getView(assetId: string): Promise<string> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#getView`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Getting View for asset: ${assetId}`);
+        throw new BungeeError(
+          `${fnTag}, Bungee is not supported on Polkadot networks`,
+        );
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the receipt of a transaction sent by this leaf.
+   *
+   * @param {string} transactionId - The hash of the extrinsic.
+   * @returns {Promise<string>} A promise that resolves to the transaction receipt.
+   * @throws {ReceiptError} If the transaction was not sent by this leaf.
+   */
+  public async getReceipt(transactionId: string): Promise<string> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#getReceipt`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Getting Receipt: transactionId: ${transactionId}`,
+        );
+        const receipt = this.receipts.get(transactionId);
+        if (!receipt) {
+          throw new ReceiptError(
+            `${fnTag}, No receipt for transaction ${transactionId}`,
+          );
+        }
+        return receipt;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the proof for a given asset ID.
+   *
+   * @param asset - The asset for which the proof is to be retrieved.
+   * @param claimFormat - The claim format wanted.
+   * @returns A promise that resolves to a string containing the proof.
+   * @throws {ProofError} If the claim format is not supported.
+   */
+  public async getProof(
+    asset: Asset,
+    claimFormat: ClaimFormat,
+  ): Promise<string> {
+    const fnTag = `${PolkadotLeaf.CLASS_NAME}}#getProof`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Getting Proof of asset: ${asset.id} with a format of: ${claimFormat}`,
+        );
+        switch (claimFormat) {
+          case ClaimFormat.DEFAULT:
+            return "";
+          default:
+            throw new ProofError(`Claim format not supported: ${claimFormat}`);
+        }
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Connects the connector to the node on first use and derives the address
+   * of the signing account, which is needed to query the wrapper contract.
+   */
+  private async ensureConnected(): Promise<void> {
+    if (!this.connected) {
+      this.connected = (async () => {
+        await this.connector.onPluginInit();
+        const { Keyring } = await import("@polkadot/api");
+        const keyring = new Keyring({ type: "sr25519" });
+        this.accountAddress = keyring.createFromUri(
+          this.signingCredential.mnemonic,
+        ).address;
+      })();
+    }
+    return this.connected;
+  }
+
+  private getWrapperContractMetadata(): string {
+    if (!this.wrapperContractMetadata) {
+      // the .contract bundle holds the metadata along with the wasm code
+      this.wrapperContractMetadata = fs.readFileSync(
+        this.wrapperContractBundlePath,
+        "utf-8",
+      );
+    }
+    return this.wrapperContractMetadata;
+  }
+
+  private async invokeWrapper(
+    methodName: string,
+    params: unknown[],
+    invocationType: PolkadotContractInvocationType,
+    dryRun = false,
+  ): Promise<InvokeContractResponse> {
+    if (!this.wrapperContractAddress) {
+      throw new WrapperContractError(
+        `${PolkadotLeaf.CLASS_NAME}#invokeWrapper, Wrapper Contract not deployed`,
+      );
+    }
+
+    await this.ensureConnected();
+
+    return this.connector.invokeContract({
+      invocationType,
+      accountAddress: this.accountAddress as string,
+      web3SigningCredential: this.signingCredential,
+      metadata: this.getWrapperContractMetadata(),
+      contractAddress: this.wrapperContractAddress,
+      methodName,
+      gasLimit: this.gasLimit,
+      params,
+      dryRun,
+    });
+  }
+
+  private async sendTransaction(
+    fnTag: string,
+    methodName: string,
+    params: unknown[],
+  ): Promise<TransactionResponse> {
+    const response = await this.invokeWrapper(
+      methodName,
+      params,
+      PolkadotContractInvocationType.Send,
+    );
+
+    if (!response.success || !response.txHash) {
+      throw new TransactionError(fnTag);
+    }
+
+    const receipt =
+      safeStableStringify({
+        methodName,
+        txHash: response.txHash,
+        blockHash: response.blockHash,
+      }) ?? "";
+    this.receipts.set(response.txHash, receipt);
+
+    return {
+      transactionId: response.txHash,
+      transactionReceipt: receipt,
+    };
+  }
+
+  /**
+   * Unwraps the output of a query, ink! messages return a
+   * `Result<T, LangError>` that is decoded as `{ ok: T }` on success.
+   */
+  private getQueryOutput(
+    fnTag: string,
+    response: InvokeContractResponse,
+  ): unknown {
+    if (!response.success || !response.callOutput?.result?.isOk) {
+      throw new TransactionError(fnTag);
+    }
+    const output = response.callOutput.output?.toPrimitive() as
+      | { ok?: unknown; err?: unknown }
+      | undefined;
+    if (!output || !("ok" in output)) {
+      throw new TransactionError(
+        `${fnTag}, Unexpected query output: ${safeStableStringify(output)}`,
+      );
+    }
+    return output.ok;
+  }
+
+  private isFullPluginOptions = (
+    obj: Partial<IPluginLedgerConnectorPolkadotOptions>,
+  ): obj is IPluginLedgerConnectorPolkadotOptions => {
+    return obj.wsProviderUrl !== undefined && obj.instanceId !== undefined;
+  };
+}
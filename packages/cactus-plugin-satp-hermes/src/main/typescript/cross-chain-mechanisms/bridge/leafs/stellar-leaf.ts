@@ -0,0 +1,996 @@
+import { INetworkOptions, TransactionResponse } from "../bridge-types";
+import {
+  IPluginLedgerConnectorStellarOptions,
+  PluginLedgerConnectorStellar,
+  RunSorobanTransactionResponse,
+  TransactionInvocation,
+} from "@hyperledger/cacti-plugin-ledger-connector-stellar";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import fs from "fs-extra";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+
+import { PluginBungeeHermes } from "@hyperledger/cactus-plugin-bungee-hermes";
+import {
+  StellarAsset,
+  StellarInteractionSignature,
+} from "../ontology/assets/stellar-asset";
+import { LogLevelDesc } from "@hyperledger/cactus-common";
+import { SatpLoggerProvider as LoggerProvider } from "../../../core/satp-logger-provider";
+import { SATPLogger as Logger } from "../../../core/satp-logger";
+import {
+  ClaimFormat,
+  TokenType,
+} from "../../../generated/proto/cacti/satp/v02/common/message_pb";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import { BridgeLeafFungible } from "../bridge-leaf-fungible";
+import { BridgeLeaf } from "../bridge-leaf";
+import { IBridgeLeafOptions } from "../bridge-leaf";
+import {
+  NoSigningCredentialError,
+  UnsupportedNetworkError,
+  TransactionError,
+  ReceiptError,
+  ContractAddressError,
+  WrapperContractError,
+  BungeeError,
+  WrapperContractAlreadyCreatedError,
+  ProofError,
+  ClaimFormatError,
+  ConnectorOptionsError,
+  ApproveAddressError,
+} from "../../common/errors";
+import { ISignerKeyPair, Secp256k1Keys } from "@hyperledger/cactus-common";
+import { OntologyManager } from "../ontology/ontology-manager";
+import { Asset } from "../ontology/assets/asset";
+import { NetworkId } from "../../../public-api";
+import { getEnumKeyByValue } from "../../../services/utils";
+import { MonitorService } from "../../../services/monitoring/monitor";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+
+/**
+ * Stellar account used to sign the transactions of the leaf, it becomes the
+ * owner of the wrapper contract.
+ */
+export interface StellarSigningCredential {
+  publicKey: string;
+  secretKey: string;
+}
+
+export interface IStellarLeafNeworkOptions extends INetworkOptions {
+  signingCredential: StellarSigningCredential;
+  connectorOptions: Partial<IPluginLedgerConnectorStellarOptions>;
+  leafId?: string;
+  keyPair?: ISignerKeyPair;
+  claimFormats?: ClaimFormat[];
+  wrapperContractAddress?: string;
+  fee?: number;
+  timeout?: number;
+}
+
+export interface IStellarLeafOptions
+  extends IBridgeLeafOptions,
+    IStellarLeafNeworkOptions {}
+
+/**
+ * Token as returned by the `get_token` function of the Soroban wrapper
+ * contract.
+ */
+interface StellarTokenResponse {
+  contract_name: string;
+  contract_address: string;
+  token_type: number;
+  token_id: string;
+  reference_id: string;
+  owner: string;
+  amount: bigint;
+}
+
+/**
+ * The `StellarLeaf` class extends the `BridgeLeaf` class and implements the `BridgeLeafFungible` interface.
+ * It represents a leaf node in a cross-chain bridge mechanism for Stellar networks.
+ * The assets are tracked by a Soroban wrapper contract that interacts with the token contracts following their ontologies,
+ * in the same way as the `SATPWrapperContract` does on EVM networks.
+ *
+ * @remarks
+ * The wrapper contract is built with the `stellar` CLI (see the `soroban:build` script) and deployed through the `PluginLedgerConnectorStellar`.
+ * There is no BUNGEE strategy for Stellar networks, so only the DEFAULT claim format is supported.
+ *
+ * @example
+ * ```typescript
+ * const stellarLeaf = new StellarLeaf(
+ *   {
+ *     networkIdentification: { id: "stellar-network", ledgerType: LedgerType.Stellar },
+ *     signingCredential: { publicKey, secretKey },
+ *     connectorOptions: {
+ *       instanceId: uuidv4(),
+ *       networkConfig,
+ *       pluginRegistry,
+ *       logLevel,
+ *     },
+ *   },
+ *   ontologyManager,
+ *   monitorService,
+ * );
+ *
+ * await stellarLeaf.deployContracts();
+ * const transactionResponse = await stellarLeaf.wrapAsset(myAsset);
+ * ```
+ *
+ * @throws {UnsupportedNetworkError} If the provided network identification is not a Stellar network.
+ * @throws {NoSigningCredentialError} If no signing account is provided in the options.
+ */
+export class StellarLeaf extends BridgeLeaf implements BridgeLeafFungible {
+  public static readonly CLASS_NAME = "StellarLeaf";
+
+  protected readonly log: Logger;
+  protected readonly logLevel: LogLevelDesc;
+
+  protected readonly id: string;
+
+  protected readonly networkIdentification: NetworkId;
+
+  protected readonly keyPair: ISignerKeyPair;
+
+  protected readonly connector: PluginLedgerConnectorStellar;
+
+  protected bungee?: PluginBungeeHermes;
+
+  protected readonly claimFormats: ClaimFormat[];
+
+  protected readonly ontologyManager: OntologyManager;
+
+  private readonly signingCredential: StellarSigningCredential;
+
+  private readonly fee: number;
+
+  private readonly timeout: number;
+
+  private readonly wrapperContractBuildDir = path.join(
+    __dirname,
+    "../stellar-contracts/satp-wrapper/build",
+  );
+
+  private wrapperContractSpec: string[] | undefined;
+
+  private wrapperFungibleDeployReceipt: string | undefined;
+
+  private wrapperContractAddress: string | undefined;
+
+  // the connector does not return the hash of the transactions, so they are
+  // identified locally and their receipts are kept in memory
+  private readonly receipts = new Map<string, string>();
+
+  public readonly monitorService: MonitorService;
+
+  /**
+   * Constructs a new instance of the `StellarLeaf` class.
+   *
+   * @param options - The options for configuring the `StellarLeaf` instance.
+   * @throws {UnsupportedNetworkError} If the provided network identification is not a Stellar network.
+   * @throws {NoSigningCredentialError} If no signing account is provided in the options.
+   * @throws {ClaimFormatError} If a claim format other than DEFAULT is requested.
+   */
+  constructor(
+    public readonly options: IStellarLeafOptions,
+    ontologyManager: OntologyManager,
+    monitorService: MonitorService,
+  ) {
+    const fnTag = `${StellarLeaf.CLASS_NAME}#constructor()`;
+    super();
+    const label = StellarLeaf.CLASS_NAME;
+    this.logLevel = this.options.logLevel || "INFO";
+    this.monitorService = monitorService;
+    this.log = LoggerProvider.getOrCreate(
+      {
+        label,
+        level: this.logLevel,
+      },
+      this.monitorService,
+    );
+
+    this.log.debug(
+      `${StellarLeaf.CLASS_NAME}#constructor options: ${safeStableStringify(options)}`,
+    );
+
+    if (options.networkIdentification.ledgerType !== LedgerType.Stellar) {
+      throw new UnsupportedNetworkError(
+        `${StellarLeaf.CLASS_NAME}#constructor, supports only Stellar networks but got ${options.networkIdentification.ledgerType}`,
+      );
+    }
+
+    this.networkIdentification = {
+      id: options.networkIdentification.id,
+      ledgerType: options.networkIdentification.ledgerType,
+    };
+
+    this.id = this.options.leafId || this.createId(StellarLeaf.CLASS_NAME);
+    this.keyPair = options.keyPair || Secp256k1Keys.generateKeyPairsBuffer();
+
+    this.claimFormats = !!options.claimFormats
+      ? options.claimFormats.concat(ClaimFormat.DEFAULT)
+      : [ClaimFormat.DEFAULT];
+
+    if (!this.isFullPluginOptions(options.connectorOptions)) {
+      throw new ConnectorOptionsError(
+        "Invalid options provided to the StellarLeaf constructor. Please provide a valid IPluginLedgerConnectorStellarOptions object.",
+      );
+    }
+    this.fee = options.fee || 100;
+    this.timeout = options.timeout || 30;
+
+    this.connector = new PluginLedgerConnectorStellar(
+      options.connectorOptions as IPluginLedgerConnectorStellarOptions,
+    );
+
+    this.ontologyManager = ontologyManager;
+
+    if (
+      !options.signingCredential?.publicKey ||
+      !options.signingCredential?.secretKey
+    ) {
+      throw new NoSigningCredentialError(
+        `${StellarLeaf.CLASS_NAME}#constructor, options.signingCredential`,
+      );
+    }
+    this.signingCredential = options.signingCredential;
+
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+
+    context.with(ctx, () => {
+      try {
+        for (const claim of this.claimFormats) {
+          switch (claim) {
+            case ClaimFormat.DEFAULT:
+              break;
+            default:
+              throw new ClaimFormatError(
+                `${StellarLeaf.CLASS_NAME}#constructor, Claim format not supported: ${claim}`,
+              );
+          }
+        }
+
+        if (options.wrapperContractAddress) {
+          this.wrapperContractAddress = options.wrapperContractAddress;
+        } else {
+          this.log.debug(
+            `${StellarLeaf.CLASS_NAME}#constructor, No wrapper contract provided, creation required`,
+          );
+        }
+      } catch (error) {
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: String(error),
+        });
+        span.recordException(error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the approve address for a specified asset type.
+   *
+   * @param assetType - The type of the asset for which the approve address is to be retrieved.
+   * @returns {string} The contract id of the wrapper contract for fungible assets.
+   * @throws {ApproveAddressError} If the wrapper contract is not deployed,
+   *                               or if the asset type is not fungible.
+   */
+  public getApproveAddress(assetType: TokenType): string {
+    const fnTag = `${StellarLeaf.CLASS_NAME}#getApproveAddress`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Getting Approve Address for asset type: ${getEnumKeyByValue(TokenType, assetType)}`,
+        );
+        switch (assetType) {
+          case TokenType.ERC20:
+          case TokenType.NONSTANDARD_FUNGIBLE:
+            if (!this.wrapperContractAddress) {
+              throw new ApproveAddressError(
+                `${fnTag}, Wrapper Contract Address not available for approving address`,
+              );
+            }
+            return this.wrapperContractAddress;
+          default:
+            throw new ApproveAddressError(
+              `${fnTag}, Invalid asset type: ${getEnumKeyByValue(TokenType, assetType)}`,
+            );
+        }
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the token types the leaf can bridge. The Soroban wrapper contract
+   * only handles fungible tokens, so transfers of non-fungible ones are
+   * rejected before they start.
+   *
+   * @returns {TokenType[]} An array of supported token types.
+   */
+  public getSupportedTokenTypes(): TokenType[] {
+    return [TokenType.ERC20, TokenType.NONSTANDARD_FUNGIBLE];
+  }
+
+  /**
+   * Deploys the necessary contracts for the Stellar leaf.
+   *
+   * @returns {Promise<void>} A promise that resolves when all contracts are deployed.
+   */
+  public async deployContracts(): Promise<void> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}#deployContracts`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    await context.with(ctx, async () => {
+      try {
+        await this.deployFungibleWrapperContract();
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the deployment receipt of the fungible wrapper contract.
+   *
+   * @returns {string} The serialized deployment response of the fungible wrapper contract.
+   * @throws {ReceiptError} If the fungible wrapper contract has not been deployed.
+   */
+  public getDeployFungibleWrapperContractReceipt(): string {
+    const fnTag = `${StellarLeaf.CLASS_NAME}#getDeployFungibleWrapperContractReceipt`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, () => {
+      try {
+        if (!this.wrapperFungibleDeployReceipt) {
+          throw new ReceiptError(
+            `${StellarLeaf.CLASS_NAME}#getDeployFungibleWrapperContractReceipt() Fungible Wrapper Contract Not deployed`,
+          );
+        }
+        return this.wrapperFungibleDeployReceipt;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Deploys the Soroban fungible wrapper contract and initializes it with the
+   * signing account as its owner.
+   *
+   * @returns {Promise<void>} A promise that resolves when the contract is deployed.
+   * @throws {WrapperContractAlreadyCreatedError} If the wrapper contract is already created.
+   * @throws {ContractAddressError} If the deployment does not return the contract id.
+   */
+  public async deployFungibleWrapperContract(): Promise<void> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}#deployFungibleWrapperContract`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    await context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Deploying Wrapper Contract`);
+
+        if (this.wrapperContractAddress) {
+          this.log.debug(
+            `${fnTag}, Wrapper Contract already created, wrapperContractAddress: ${this.wrapperContractAddress}`,
+          );
+          throw new WrapperContractAlreadyCreatedError(fnTag);
+        }
+
+        const wasmBuffer = await fs.readFile(
+          path.join(this.wrapperContractBuildDir, "satp_wrapper.wasm"),
+        );
+
+        const deployOutWrapperContract = await this.connector.deployContract({
+          wasmBuffer: wasmBuffer.toString("base64"),
+          transactionInvocation: this.getTransactionInvocation(),
+        });
+
+        if (!deployOutWrapperContract.contractId) {
+          throw new ContractAddressError(
+            `${fnTag}, Wrapper Contract id not found in deploy response: ${safeStableStringify(deployOutWrapperContract)}`,
+          );
+        }
+
+        this.wrapperContractAddress = deployOutWrapperContract.contractId;
+
+        await this.sendTransaction(fnTag, "initialize", {
+          owner: this.signingCredential.publicKey,
+        });
+
+        this.wrapperFungibleDeployReceipt = safeStableStringify(
+          deployOutWrapperContract,
+        );
+
+        this.log.debug(
+          `${fnTag}, Wrapper Contract deployed receipt: ${this.wrapperFungibleDeployReceipt}`,
+        );
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the contract id of the wrapper contract.
+   *
+   * @param {string} type - The type of the wrapper contract.
+   * @returns {string} The contract id of the wrapper contract.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   */
+  public getWrapperContract(type: "FUNGIBLE"): string {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#getWrapperContract`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, () => {
+      try {
+        this.log.debug(`${fnTag}, Getting Wrapper Contract Adress`);
+        switch (type) {
+          case "FUNGIBLE":
+            if (!this.wrapperContractAddress) {
+              throw new WrapperContractError(
+                `${fnTag}, Wrapper Contract not deployed`,
+              );
+            }
+            return this.wrapperContractAddress;
+          default:
+            throw new Error("Invalid type");
+        }
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Wraps an asset.
+   *
+   * @param {StellarAsset} asset - The asset to be wrapped.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async wrapAsset(asset: StellarAsset): Promise<TransactionResponse> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#wrapAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Wrapping Asset: {${asset.id}, ${asset.owner}, ${asset.contractAddress}, ${asset.type}}`,
+        );
+
+        const interactions = this.ontologyManager.getOntologyInteractions(
+          LedgerType.Stellar,
+          asset.referenceId,
+        ) as StellarInteractionSignature[];
+
+        return await this.sendTransaction(fnTag, "wrap", {
+          contract_name: asset.contractName,
+          contract_address: asset.contractAddress,
+          token_type: asset.type,
+          token_id: asset.id,
+          reference_id: asset.referenceId,
+          owner: asset.owner,
+          interactions: interactions.map((interaction) => ({
+            interaction_type: interaction.interactionType,
+            functions_signature: interaction.functionsSignature,
+            variables: interaction.variables,
+            available: interaction.available,
+          })),
+        });
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Unwraps an asset.
+   *
+   * @param {string} assetId - The ID of the asset to be unwrapped.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async unwrapAsset(assetId: string): Promise<TransactionResponse> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#unwrapAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Unwrapping Asset: ${assetId}`);
+        return await this.sendTransaction(fnTag, "unwrap", {
+          token_id: assetId,
+        });
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Locks an asset.
+   *
+   * @param {string} assetId - The ID of the asset to be locked.
+   * @param {number} amount - The amount of the asset to be locked.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async lockAsset(
+    assetId: string,
+    amount: number,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#lockAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Locking Asset: ${assetId} amount: ${amount}`);
+        return await this.sendTransaction(fnTag, "lock", {
+          token_id: assetId,
+          amount: BigInt(amount),
+        });
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Unlocks an asset.
+   *
+   * @param {string} assetId - The ID of the asset to be unlocked.
+   * @param {number} amount - The amount of the asset to be unlocked.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async unlockAsset(
+    assetId: string,
+    amount: number,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#unlockAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Unlocking Asset: ${assetId} amount: ${amount}`,
+        );
+        return await this.sendTransaction(fnTag, "unlock", {
+          token_id: assetId,
+          amount: BigInt(amount),
+        });
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Mints an asset.
+   *
+   * @param {string} assetId - The ID of the asset to be minted.
+   * @param {number} amount - The amount of the asset to be minted.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async mintAsset(
+    assetId: string,
+    amount: number,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#mintAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Minting Asset: ${assetId} amount: ${amount}`);
+        return await this.sendTransaction(fnTag, "mint", {
+          token_id: assetId,
+          amount: BigInt(amount),
+        });
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Burns an asset.
+   *
+   * @param {string} assetId - The ID of the asset to be burned.
+   * @param {number} amount - The amount of the asset to be burned.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async burnAsset(
+    assetId: string,
+    amount: number,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#burnAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Burning Asset: ${assetId} amount: ${amount}`);
+        return await this.sendTransaction(fnTag, "burn", {
+          token_id: assetId,
+          amount: BigInt(amount),
+        });
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Assigns an asset to a new owner.
+   *
+   * @param {string} assetId - The ID of the asset to be assigned.
+   * @param {string} to - The account of the new owner.
+   * @param {number} amount - The amount of the asset to be assigned.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async assignAsset(
+    assetId: string,
+    to: string,
+    amount: number,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#assignAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Assigning Asset: ${assetId} amount: ${amount} to: ${to}`,
+        );
+        return await this.sendTransaction(fnTag, "assign", {
+          token_id: assetId,
+          receiver: to,
+          amount: BigInt(amount),
+        });
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves all asset IDs.
+   *
+   * @returns {Promise<string[]>} A promise that resolves to an array of asset IDs.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the simulation fails.
+   */
+  public async getAssets(): Promise<string[]> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#getAssets`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Getting Assets`);
+        const response = await this.invokeWrapper(
+          "get_all_assets_ids",
+          {},
+          true,
+        );
+        return (response.result ?? []) as string[];
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves an asset by its ID.
+   *
+   * @param {string} assetId - The ID of the asset to be retrieved.
+   * @returns {Promise<StellarAsset>} A promise that resolves to the asset.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the simulation fails or the asset is not wrapped.
+   */
+  public async getAsset(assetId: string): Promise<StellarAsset> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#getAsset`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Getting Asset`);
+        const response = await this.invokeWrapper(
+          "get_token",
+          { token_id: assetId },
+          true,
+        );
+
+        const token = response.result as StellarTokenResponse | undefined;
+
+        if (!token) {
+          throw new TransactionError(`${fnTag}, Asset ${assetId} not found`);
+        }
+
+        return {
+          contractName: token.contract_name,
+          id: token.token_id,
+          referenceId: token.reference_id,
+          contractAddress: token.contract_address,
+          type: Number(token.token_type),
+          owner: token.owner,
+          amount: token.amount.toString(),
+          network: this.networkIdentification,
+        } as StellarAsset;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Runs a costum transaction on the wrapper contract.
+   *
+   * @param {string} methodName - The name of the function to be invoked.
+   * @param {object} params - The arguments of the function, keyed by their names.
+   * @param {boolean} readOnly - Whether the invocation is only simulated.
+   * @returns {Promise<TransactionResponse>} A promise that resolves to the transaction response.
+   * @throws {WrapperContractError} If the wrapper contract is not deployed.
+   * @throws {TransactionError} If the transaction fails.
+   */
+  public async runTransaction(
+    methodName: string,
+    params: object,
+    readOnly: boolean,
+  ): Promise<TransactionResponse> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#runTransaction`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Running Transaction: ${methodName} with params: ${safeStableStringify(params)}`,
+        );
+
+        if (!readOnly) {
+          return await this.sendTransaction(fnTag, methodName, params);
+        }
+
+        const response = await this.invokeWrapper(methodName, params, true);
+
+        return {
+          transactionId: "",
+          transactionReceipt: "",
+          output: response.result,
+        };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Views are generated by BUNGEE, which has no strategy for Stellar networks.
+   *
+   * @throws {BungeeError} Always.
+   */
+  public async getView(assetId: string): Promise<string> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#getView`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(`${fnTag}, Getting View for asset: ${assetId}`);
+        throw new BungeeError(
+          `${fnTag}, Bungee is not supported on Stellar networks`,
+        );
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the receipt of a transaction sent by this leaf.
+   *
+   * @param {string} transactionId - The local identifier of the transaction.
+   * @returns {Promise<string>} A promise that resolves to the transaction receipt.
+   * @throws {ReceiptError} If the transaction was not sent by this leaf.
+   */
+  public async getReceipt(transactionId: string): Promise<string> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#getReceipt`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Getting Receipt: transactionId: ${transactionId}`,
+        );
+        const receipt = this.receipts.get(transactionId);
+        if (!receipt) {
+          throw new ReceiptError(
+            `${fnTag}, No receipt for transaction ${transactionId}`,
+          );
+        }
+        return receipt;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the proof for a given asset ID.
+   *
+   * @param asset - The asset for which the proof is to be retrieved.
+   * @param claimFormat - The claim format wanted.
+   * @returns A promise that resolves to a string containing the proof.
+   * @throws {ProofError} If the claim format is not supported.
+   */
+  public async getProof(
+    asset: Asset,
+    claimFormat: ClaimFormat,
+  ): Promise<string> {
+    const fnTag = `${StellarLeaf.CLASS_NAME}}#getProof`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.log.debug(
+          `${fnTag}, Getting Proof of asset: ${asset.id} with a format of: ${claimFormat}`,
+        );
+        switch (claimFormat) {
+          case ClaimFormat.DEFAULT:
+            return "";
+          default:
+            throw new ProofError(`Claim format not supported: ${claimFormat}`);
+        }
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  private getTransactionInvocation(): TransactionInvocation {
+    return {
+      header: {
+        source: this.signingCredential.publicKey,
+        fee: this.fee,
+        timeout: this.timeout,
+      },
+      signers: [this.signingCredential.secretKey],
+    };
+  }
+
+  private getWrapperContractSpec(): string[] {
+    if (!this.wrapperContractSpec) {
+      this.wrapperContractSpec = JSON.parse(
+        fs.readFileSync(
+          path.join(this.wrapperContractBuildDir, "satp_wrapper.spec.json"),
+          "utf-8",
+        ),
+      ) as string[];
+    }
+    return this.wrapperContractSpec;
+  }
+
+  private async invokeWrapper(
+    method: string,
+    methodArgs: object,
+    readOnly: boolean,
+  ): Promise<RunSorobanTransactionResponse> {
+    if (!this.wrapperContractAddress) {
+      throw new WrapperContractError(
+        `${StellarLeaf.CLASS_NAME}#invokeWrapper, Wrapper Contract not deployed`,
+      );
+    }
+
+    return this.connector.runSorobanTransaction({
+      contractId: this.wrapperContractAddress,
+      method,
+      methodArgs,
+      specXdr: this.getWrapperContractSpec(),
+      readOnly,
+      transactionInvocation: this.getTransactionInvocation(),
+    });
+  }
+
+  private async sendTransaction(
+    fnTag: string,
+    method: string,
+    methodArgs: object,
+  ): Promise<TransactionResponse> {
+    const response = await this.invokeWrapper(method, methodArgs, false);
+
+    if (!response) {
+      throw new TransactionError(fnTag);
+    }
+
+    const transactionId = uuidv4();
+    const receipt =
+      safeStableStringify({
+        contractId: this.wrapperContractAddress,
+        method,
+        methodArgs,
+        result: response.result,
+      }) ?? "";
+    this.receipts.set(transactionId, receipt);
+
+    return {
+      transactionId,
+      transactionReceipt: receipt,
+    };
+  }
+
+  private isFullPluginOptions = (
+    obj: Partial<IPluginLedgerConnectorStellarOptions>,
+  ): obj is IPluginLedgerConnectorStellarOptions => {
+    return (
+      obj.networkConfig !== undefined &&
+      obj.pluginRegistry !== undefined &&
+      obj.instanceId !== undefined
+    );
+  };
+}
@@ -15,6 +15,11 @@ export interface FungibleAsset extends Asset {
   amount: string;
 }
 
+export interface NonFungibleAsset extends Asset {
+  uniqueDescriptor: string;
+  metadataUri?: string;
+}
+
 export function getTokenType(stringType: string) {
   return TokenType[stringType.toUpperCase() as keyof typeof TokenType];
 }
@@ -30,3 +35,16 @@ export function createAssetId(
 export function instanceOfFungibleAsset(asset: Asset) {
   return "amount" in asset;
 }
+
+export function instanceOfNonFungibleAsset(
+  asset: Asset,
+): asset is NonFungibleAsset {
+  return "uniqueDescriptor" in asset;
+}
+
+export function isNonFungibleTokenType(tokenType: TokenType): boolean {
+  return (
+    tokenType === TokenType.ERC721 ||
+    tokenType === TokenType.NONSTANDARD_NONFUNGIBLE
+  );
+}
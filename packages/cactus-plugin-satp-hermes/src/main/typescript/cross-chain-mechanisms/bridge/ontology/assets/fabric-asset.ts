@@ -1,4 +1,4 @@
-import { Asset, FungibleAsset } from "./asset";
+import { Asset, FungibleAsset, NonFungibleAsset } from "./asset";
 import {
   getInteractionType,
   InteractionData,
@@ -12,6 +12,8 @@ export interface FabricAsset extends Asset {
 
 export interface FabricFungibleAsset extends FabricAsset, FungibleAsset {}
 
+export interface FabricNonFungibleAsset extends FabricAsset, NonFungibleAsset {}
+
 export enum VarType {
   CONTRACTNAME = 0,
   CHANNELNAME = 1,
@@ -23,6 +25,8 @@ export enum VarType {
   BRIDGEMSPID = 7,
   RECEIVER = 8,
   MSPID = 9,
+  UNIQUEDESCRIPTOR = 10,
+  METADATAURI = 11,
 }
 
 export function getVarTypes(stringType: string) {
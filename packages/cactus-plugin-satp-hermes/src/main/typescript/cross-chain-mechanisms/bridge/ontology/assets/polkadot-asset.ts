@@ -0,0 +1,66 @@
+import { Asset, FungibleAsset } from "./asset";
+import {
+  getInteractionType,
+  InteractionData,
+  InteractionType,
+} from "./interact-types";
+
+export interface PolkadotAsset extends Asset {
+  contractAddress: string;
+}
+
+export interface PolkadotFungibleAsset extends PolkadotAsset, FungibleAsset {}
+
+export enum VarType {
+  CONTRACTADDRESS = 0,
+  TOKENTYPE = 1,
+  TOKENID = 2,
+  OWNER = 3,
+  AMOUNT = 4,
+  BRIDGE = 5,
+  RECEIVER = 6,
+}
+
+export function getVarTypes(stringType: string) {
+  return VarType[stringType.toUpperCase() as keyof typeof VarType];
+}
+
+/**
+ * Interaction of the ink! wrapper contract, the function signatures are the
+ * labels of the messages of the token contract (e.g. `transfer_from`).
+ */
+export interface PolkadotInteractionSignature {
+  interactionType: InteractionType;
+  functionsSignature: string[];
+  variables: VarType[][];
+  available: boolean;
+}
+
+export function polkadotInteractionList(
+  jsonString: string,
+): PolkadotInteractionSignature[] {
+  const ontologyJSON = JSON.parse(jsonString);
+
+  const interactions: PolkadotInteractionSignature[] = [];
+
+  for (const interaction in ontologyJSON["ontology"]) {
+    const functions: string[] = [];
+    const variables: VarType[][] = [];
+
+    for (const signature of ontologyJSON["ontology"][
+      interaction
+    ] as InteractionData[]) {
+      functions.push(signature.functionSignature);
+      variables.push(signature.variables.map(getVarTypes));
+    }
+
+    interactions.push({
+      interactionType: getInteractionType(interaction),
+      functionsSignature: functions,
+      variables: variables,
+      available: true,
+    });
+  }
+
+  return interactions;
+}
@@ -11,6 +11,14 @@ import {
   FabricInteractionSignature,
 } from "./assets/fabric-asset";
 import { evmInteractionList } from "./assets/evm-asset";
+import {
+  polkadotInteractionList,
+  PolkadotInteractionSignature,
+} from "./assets/polkadot-asset";
+import {
+  stellarInteractionList,
+  StellarInteractionSignature,
+} from "./assets/stellar-asset";
 import { LedgerNotSupported, OntologyNotFoundError } from "./ontology-errors";
 import * as fs from "fs";
 import * as path from "path";
@@ -218,13 +226,17 @@ export class OntologyManager {
    * Retrieves the interactions for a given ontology and ledger type.
    * @param {string} id - The ID of the ontology.
    * @param {LedgerType} ledgerType - The type of the ledger.
-   * @returns {FabricInteractionSignature[] | EvmInteractionSignature[]} The list of interactions.
+   * @returns {FabricInteractionSignature[] | EvmInteractionSignature[] | PolkadotInteractionSignature[] | StellarInteractionSignature[]} The list of interactions.
    * @throws {LedgerNotSupported} If the ledger type is not supported.
    */
   public getOntologyInteractions(
     ledgerType: LedgerType,
     id: string,
-  ): FabricInteractionSignature[] | EvmInteractionSignature[] {
+  ):
+    | FabricInteractionSignature[]
+    | EvmInteractionSignature[]
+    | PolkadotInteractionSignature[]
+    | StellarInteractionSignature[] {
     const fnTag = `${OntologyManager.CLASS_NAME}#getOntologyInteractions()`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
     return context.with(ctx, () => {
@@ -232,7 +244,6 @@ export class OntologyManager {
         this.log.info(`${fnTag}, Getting ontology interactions...`);
         const ontology = this.getOntology(ledgerType, id);
 
-        //TODO This might need a refactor to support non-fungible tokens
         switch (ledgerType) {
           case LedgerType.Fabric2:
             return fabricInteractionList(ontology);
@@ -240,6 +251,10 @@ export class OntologyManager {
           case LedgerType.Besu2X:
           case LedgerType.Ethereum:
             return evmInteractionList(ontology);
+          case LedgerType.Polkadot:
+            return polkadotInteractionList(ontology);
+          case LedgerType.Stellar:
+            return stellarInteractionList(ontology);
           default:
             throw new LedgerNotSupported(
               `${fnTag}, Ledger ${ledgerType} not supported`,
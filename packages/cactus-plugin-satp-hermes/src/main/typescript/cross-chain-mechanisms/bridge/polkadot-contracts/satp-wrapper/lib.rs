@@ -0,0 +1,436 @@
+#![cfg_attr(not(feature = "std"), no_std, no_main)]
+
+//! ink! counterpart of the `SATPWrapperContract` used by the EVM leafs.
+//!
+//! The wrapper keeps track of the tokens that the gateway is allowed to
+//! transfer and interacts with their contracts through the messages described
+//! in the ontology of each token. The selector of every message is derived from
+//! its label the same way ink! does it (the first four bytes of the BLAKE2 256
+//! hash of the label, e.g. `transfer_from` or `PSP22::transfer_from`).
+//!
+//! The messages called through the ontologies must return either `()` or a
+//! `Result`, an `Err` is handled as a failed interaction.
+
+#[ink::contract]
+mod satp_wrapper {
+    use ink::env::call::{build_call, ExecutionInput, Selector};
+    use ink::env::hash::Blake2x256;
+    use ink::prelude::{string::String, vec::Vec};
+    use ink::storage::Mapping;
+
+    /// Interaction types, same values as the `InteractionType` of the gateway.
+    pub const MINT: u8 = 0;
+    pub const BURN: u8 = 1;
+    pub const ASSIGN: u8 = 2;
+    pub const CHECK_PERMISSION: u8 = 3;
+    pub const LOCK: u8 = 4;
+    pub const UNLOCK: u8 = 5;
+
+    /// Variable types, same values as the `VarType` of the gateway.
+    pub const CONTRACT_ADDRESS: u8 = 0;
+    pub const TOKEN_TYPE: u8 = 1;
+    pub const TOKEN_ID: u8 = 2;
+    pub const OWNER: u8 = 3;
+    pub const AMOUNT: u8 = 4;
+    pub const BRIDGE: u8 = 5;
+    pub const RECEIVER: u8 = 6;
+
+    #[derive(scale::Decode, scale::Encode, Clone, Debug, PartialEq, Eq)]
+    #[cfg_attr(
+        feature = "std",
+        derive(scale_info::TypeInfo, ink::storage::traits::StorageLayout)
+    )]
+    pub struct Token {
+        pub contract_name: String,
+        pub contract_address: AccountId,
+        pub token_type: u32,
+        pub token_id: String,
+        pub reference_id: String,
+        pub owner: AccountId,
+        /// Amount locked in the wrapper.
+        pub amount: Balance,
+    }
+
+    #[derive(scale::Decode, scale::Encode, Clone, Debug, PartialEq, Eq)]
+    #[cfg_attr(
+        feature = "std",
+        derive(scale_info::TypeInfo, ink::storage::traits::StorageLayout)
+    )]
+    pub struct InteractionSignature {
+        pub interaction_type: u8,
+        pub functions_signature: Vec<String>,
+        pub variables: Vec<Vec<u8>>,
+        pub available: bool,
+    }
+
+    #[derive(Debug, PartialEq, Eq, scale::Encode, scale::Decode)]
+    #[cfg_attr(feature = "std", derive(scale_info::TypeInfo))]
+    pub enum Error {
+        NotOwner,
+        TokenNotAvailable,
+        TokenAlreadyWrapped,
+        TokenNotLocked,
+        TokenLocked,
+        TokenNotUnlocked,
+        InsufficientAmountLocked,
+        PermissionDenied,
+        InteractionFailed,
+        VariableNotSupported,
+    }
+
+    pub type Result<T> = core::result::Result<T, Error>;
+
+    #[ink(event)]
+    pub struct Wrap {
+        #[ink(topic)]
+        token_id: String,
+        contract_name: String,
+        contract_address: AccountId,
+        token_type: u32,
+        owner: AccountId,
+    }
+
+    #[ink(event)]
+    pub struct Unwrap {
+        #[ink(topic)]
+        token_id: String,
+    }
+
+    #[ink(event)]
+    pub struct Lock {
+        #[ink(topic)]
+        token_id: String,
+        amount: Balance,
+    }
+
+    #[ink(event)]
+    pub struct Unlock {
+        #[ink(topic)]
+        token_id: String,
+        amount: Balance,
+    }
+
+    #[ink(event)]
+    pub struct Mint {
+        #[ink(topic)]
+        token_id: String,
+        amount: Balance,
+    }
+
+    #[ink(event)]
+    pub struct Burn {
+        #[ink(topic)]
+        token_id: String,
+        amount: Balance,
+    }
+
+    #[ink(event)]
+    pub struct Assign {
+        #[ink(topic)]
+        token_id: String,
+        receiver: AccountId,
+        amount: Balance,
+    }
+
+    /// Arguments of a cross-contract call that are already SCALE encoded.
+    struct EncodedArgs(Vec<u8>);
+
+    impl scale::Encode for EncodedArgs {
+        fn size_hint(&self) -> usize {
+            self.0.len()
+        }
+
+        fn encode_to<T: scale::Output + ?Sized>(&self, dest: &mut T) {
+            dest.write(&self.0);
+        }
+    }
+
+    /// Output of a message called through an ontology. Only the first byte is
+    /// inspected, which is `1` when a message that returns a `Result` failed.
+    struct InteractionOutput {
+        failed: bool,
+    }
+
+    impl scale::Decode for InteractionOutput {
+        fn decode<I: scale::Input>(input: &mut I) -> core::result::Result<Self, scale::Error> {
+            let failed = matches!(input.read_byte(), Ok(1));
+            while input.read_byte().is_ok() {}
+            Ok(Self { failed })
+        }
+    }
+
+    #[ink(storage)]
+    pub struct SatpWrapper {
+        owner: AccountId,
+        tokens: Mapping<String, Token>,
+        interactions: Mapping<(String, u8), InteractionSignature>,
+        ids: Vec<String>,
+    }
+
+    impl SatpWrapper {
+        /// The caller becomes the owner of the wrapper, i.e. the bridge.
+        #[ink(constructor)]
+        pub fn new() -> Self {
+            Self {
+                owner: Self::env().caller(),
+                tokens: Mapping::default(),
+                interactions: Mapping::default(),
+                ids: Vec::new(),
+            }
+        }
+
+        #[ink(message)]
+        #[allow(clippy::too_many_arguments)]
+        pub fn wrap(
+            &mut self,
+            contract_name: String,
+            contract_address: AccountId,
+            token_type: u32,
+            token_id: String,
+            reference_id: String,
+            owner: AccountId,
+            interactions: Vec<InteractionSignature>,
+        ) -> Result<()> {
+            self.ensure_owner()?;
+            if self.tokens.contains(&token_id) {
+                return Err(Error::TokenAlreadyWrapped);
+            }
+            let token = Token {
+                contract_name: contract_name.clone(),
+                contract_address,
+                token_type,
+                token_id: token_id.clone(),
+                reference_id,
+                owner,
+                amount: 0,
+            };
+            for interaction in interactions {
+                self.interactions
+                    .insert((token_id.clone(), interaction.interaction_type), &interaction);
+            }
+            if self.is_available(&token_id, CHECK_PERMISSION)
+                && !self.interact(&token, CHECK_PERMISSION, 0, None)?
+            {
+                return Err(Error::PermissionDenied);
+            }
+            self.tokens.insert(token_id.clone(), &token);
+            self.ids.push(token_id.clone());
+            self.env().emit_event(Wrap {
+                token_id,
+                contract_name,
+                contract_address,
+                token_type,
+                owner,
+            });
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn unwrap(&mut self, token_id: String) -> Result<()> {
+            self.ensure_owner()?;
+            let token = self.get_token(token_id.clone()).ok_or(Error::TokenNotAvailable)?;
+            if token.amount > 0 {
+                return Err(Error::TokenLocked);
+            }
+            for interaction_type in MINT..=UNLOCK {
+                self.interactions.remove((token_id.clone(), interaction_type));
+            }
+            self.tokens.remove(&token_id);
+            self.ids.retain(|id| *id != token_id);
+            self.env().emit_event(Unwrap { token_id });
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn lock(&mut self, token_id: String, amount: Balance) -> Result<()> {
+            self.ensure_owner()?;
+            let mut token = self.get_token(token_id.clone()).ok_or(Error::TokenNotAvailable)?;
+            if !self.interact(&token, LOCK, amount, None)? {
+                return Err(Error::TokenNotLocked);
+            }
+            token.amount = token.amount.saturating_add(amount);
+            self.tokens.insert(token_id.clone(), &token);
+            self.env().emit_event(Lock { token_id, amount });
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn unlock(&mut self, token_id: String, amount: Balance) -> Result<()> {
+            self.ensure_owner()?;
+            let mut token = self.get_token(token_id.clone()).ok_or(Error::TokenNotAvailable)?;
+            if token.amount < amount {
+                return Err(Error::InsufficientAmountLocked);
+            }
+            if !self.interact(&token, UNLOCK, amount, None)? {
+                return Err(Error::TokenNotUnlocked);
+            }
+            token.amount -= amount;
+            self.tokens.insert(token_id.clone(), &token);
+            self.env().emit_event(Unlock { token_id, amount });
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn mint(&mut self, token_id: String, amount: Balance) -> Result<()> {
+            self.ensure_owner()?;
+            let mut token = self.get_token(token_id.clone()).ok_or(Error::TokenNotAvailable)?;
+            if !self.interact(&token, MINT, amount, None)? {
+                return Err(Error::InteractionFailed);
+            }
+            token.amount = amount;
+            self.tokens.insert(token_id.clone(), &token);
+            self.env().emit_event(Mint { token_id, amount });
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn burn(&mut self, token_id: String, amount: Balance) -> Result<()> {
+            self.ensure_owner()?;
+            let mut token = self.get_token(token_id.clone()).ok_or(Error::TokenNotAvailable)?;
+            if token.amount < amount {
+                return Err(Error::InsufficientAmountLocked);
+            }
+            if !self.interact(&token, BURN, amount, None)? {
+                return Err(Error::InteractionFailed);
+            }
+            token.amount -= amount;
+            self.tokens.insert(token_id.clone(), &token);
+            self.env().emit_event(Burn { token_id, amount });
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn assign(
+            &mut self,
+            token_id: String,
+            receiver: AccountId,
+            amount: Balance,
+        ) -> Result<()> {
+            self.ensure_owner()?;
+            let mut token = self.get_token(token_id.clone()).ok_or(Error::TokenNotAvailable)?;
+            if token.amount < amount {
+                return Err(Error::InsufficientAmountLocked);
+            }
+            if !self.interact(&token, ASSIGN, amount, Some(receiver))? {
+                return Err(Error::InteractionFailed);
+            }
+            token.amount -= amount;
+            self.tokens.insert(token_id.clone(), &token);
+            self.env().emit_event(Assign {
+                token_id,
+                receiver,
+                amount,
+            });
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn get_token(&self, token_id: String) -> Option<Token> {
+            self.tokens.get(&token_id)
+        }
+
+        #[ink(message)]
+        pub fn get_all_assets_ids(&self) -> Vec<String> {
+            self.ids.clone()
+        }
+
+        #[ink(message)]
+        pub fn owner(&self) -> AccountId {
+            self.owner
+        }
+
+        fn ensure_owner(&self) -> Result<()> {
+            if self.env().caller() != self.owner {
+                return Err(Error::NotOwner);
+            }
+            Ok(())
+        }
+
+        fn is_available(&self, token_id: &String, interaction_type: u8) -> bool {
+            self.interactions
+                .get((token_id.clone(), interaction_type))
+                .map(|interaction| interaction.available)
+                .unwrap_or(false)
+        }
+
+        /// Calls the messages of the ontology of the token for the given
+        /// interaction type and returns `false` as soon as one of them fails.
+        fn interact(
+            &self,
+            token: &Token,
+            interaction_type: u8,
+            amount: Balance,
+            receiver: Option<AccountId>,
+        ) -> Result<bool> {
+            let interaction = match self
+                .interactions
+                .get((token.token_id.clone(), interaction_type))
+            {
+                Some(interaction) if interaction.available => interaction,
+                _ => return Ok(false),
+            };
+
+            for (label, variables) in interaction
+                .functions_signature
+                .iter()
+                .zip(interaction.variables.iter())
+            {
+                let args = self.encode_args(token, variables, amount, receiver)?;
+                let result = build_call::<Environment>()
+                    .call(token.contract_address)
+                    .gas_limit(0)
+                    .transferred_value(0)
+                    .exec_input(
+                        ExecutionInput::new(Selector::new(Self::selector(label)))
+                            .push_arg(EncodedArgs(args)),
+                    )
+                    .returns::<InteractionOutput>()
+                    .try_invoke();
+
+                match result {
+                    Ok(Ok(output)) if !output.failed => {}
+                    _ => return Ok(false),
+                }
+            }
+            Ok(true)
+        }
+
+        fn encode_args(
+            &self,
+            token: &Token,
+            variables: &[u8],
+            amount: Balance,
+            receiver: Option<AccountId>,
+        ) -> Result<Vec<u8>> {
+            let mut args = Vec::new();
+            for variable in variables {
+                match *variable {
+                    CONTRACT_ADDRESS => scale::Encode::encode_to(&token.contract_address, &mut args),
+                    TOKEN_TYPE => scale::Encode::encode_to(&token.token_type, &mut args),
+                    TOKEN_ID => scale::Encode::encode_to(&token.token_id, &mut args),
+                    OWNER => scale::Encode::encode_to(&token.owner, &mut args),
+                    AMOUNT => scale::Encode::encode_to(&amount, &mut args),
+                    BRIDGE => scale::Encode::encode_to(&self.env().account_id(), &mut args),
+                    RECEIVER => scale::Encode::encode_to(
+                        &receiver.ok_or(Error::VariableNotSupported)?,
+                        &mut args,
+                    ),
+                    _ => return Err(Error::VariableNotSupported),
+                }
+            }
+            Ok(args)
+        }
+
+        fn selector(label: &str) -> [u8; 4] {
+            let mut hash = [0u8; 32];
+            ink::env::hash_bytes::<Blake2x256>(label.as_bytes(), &mut hash);
+            [hash[0], hash[1], hash[2], hash[3]]
+        }
+    }
+
+    impl Default for SatpWrapper {
+        fn default() -> Self {
+            Self::new()
+        }
+    }
+}
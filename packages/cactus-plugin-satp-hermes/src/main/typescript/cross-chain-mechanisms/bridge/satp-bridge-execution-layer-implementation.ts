@@ -7,6 +7,8 @@ import {
   Asset,
   FungibleAsset,
   instanceOfFungibleAsset,
+  instanceOfNonFungibleAsset,
+  NonFungibleAsset,
 } from "./ontology/assets/asset";
 import {
   ClaimFormatError,
@@ -18,6 +20,8 @@ import {
   TransactionReceipt,
 } from "./satp-bridge-execution-layer";
 import { BridgeLeafFungible } from "./bridge-leaf-fungible";
+import { BridgeLeafNonFungible } from "./bridge-leaf-non-fungible";
+import { TransactionResponse } from "./bridge-types";
 import { BridgeLeaf } from "./bridge-leaf";
 import { MonitorService } from "../../services/monitoring/monitor";
 import { context, SpanStatusCode } from "@opentelemetry/api";
@@ -76,12 +80,12 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
   }
 
   /**
-   * Wraps a fungible asset.
+   * Wraps a fungible or non-fungible asset.
    *
    * @param asset - The asset to be wrapped.
    * @returns A promise that resolves to a transaction receipt containing the receipt and proof of the asset wrapping.
    * @throws {TransactionIdUndefinedError} If the transaction ID is undefined.
-   * @throws {Error} If the asset is non-fungible.
+   * @throws {Error} If the asset is neither fungible nor non-fungible.
    */
   public async wrapAsset(asset: Asset): Promise<TransactionReceipt> {
     const fnTag = `${SATPBridgeExecutionLayerImpl.CLASS_NAME}#wrapAsset()`;
@@ -112,8 +116,14 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
             receipt,
             proof,
           };
+        } else if (instanceOfNonFungibleAsset(asset)) {
+          return await this.executeNonFungible(fnTag, asset, (leaf) =>
+            leaf.wrapNonFungibleAsset(asset),
+          );
         } else {
-          throw new Error("Non-fungible wrapAsset not implemented");
+          throw new Error(
+            `${fnTag}, Asset is neither fungible nor non-fungible`,
+          );
         }
       } catch (error) {
         span.setStatus({
@@ -129,12 +139,12 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
   }
 
   /**
-   * Unwraps a fungible asset.
+   * Unwraps a fungible or non-fungible asset.
    *
    * @param asset - The asset to be unwrapped.
    * @returns A promise that resolves to a transaction receipt containing the receipt and proof of the asset unwrapping.
    * @throws {TransactionIdUndefinedError} If the transaction ID is undefined.
-   * @throws {Error} If the asset is non-fungible.
+   * @throws {Error} If the asset is neither fungible nor non-fungible.
    */
   public async unwrapAsset(asset: Asset): Promise<TransactionReceipt> {
     const fnTag = `${SATPBridgeExecutionLayerImpl.CLASS_NAME}#unwrapAsset()`;
@@ -165,8 +175,14 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
             receipt,
             proof,
           };
+        } else if (instanceOfNonFungibleAsset(asset)) {
+          return await this.executeNonFungible(fnTag, asset, (leaf) =>
+            leaf.unwrapNonFungibleAsset(asset.id),
+          );
         } else {
-          throw new Error("Non-fungible unWrapAsset not implemented");
+          throw new Error(
+            `${fnTag}, Asset is neither fungible nor non-fungible`,
+          );
         }
       } catch (error) {
         span.setStatus({
@@ -182,12 +198,12 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
   }
 
   /**
-   * Locks a fungible asset.
+   * Locks a fungible or non-fungible asset.
    *
    * @param asset - The asset to be locked.
    * @returns A promise that resolves to a transaction receipt containing the receipt and proof of the asset locking.
    * @throws {TransactionIdUndefinedError} If the transaction ID is undefined.
-   * @throws {Error} If the asset is non-fungible.
+   * @throws {Error} If the asset is neither fungible nor non-fungible.
    */
   public async lockAsset(asset: Asset): Promise<TransactionReceipt> {
     const fnTag = `${SATPBridgeExecutionLayerImpl.CLASS_NAME}#lockAsset()`;
@@ -221,8 +237,14 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
             receipt,
             proof,
           };
+        } else if (instanceOfNonFungibleAsset(asset)) {
+          return await this.executeNonFungible(fnTag, asset, (leaf) =>
+            leaf.lockNonFungibleAsset(asset.id, asset.uniqueDescriptor),
+          );
         } else {
-          throw new Error("Non-fungible lockAsset not implemented");
+          throw new Error(
+            `${fnTag}, Asset is neither fungible nor non-fungible`,
+          );
         }
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
@@ -235,12 +257,12 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
   }
 
   /**
-   * Unlocks a fungible asset.
+   * Unlocks a fungible or non-fungible asset.
    *
    * @param asset - The asset to be unlocked.
    * @returns A promise that resolves to a transaction receipt containing the receipt and proof of the asset unlocking.
    * @throws {TransactionIdUndefinedError} If the transaction ID is undefined.
-   * @throws {Error} If the asset is non-fungible.
+   * @throws {Error} If the asset is neither fungible nor non-fungible.
    */
   public async unlockAsset(asset: Asset): Promise<TransactionReceipt> {
     const fnTag = `${SATPBridgeExecutionLayerImpl.CLASS_NAME}#unlockAsset()`;
@@ -274,8 +296,14 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
             receipt,
             proof,
           };
+        } else if (instanceOfNonFungibleAsset(asset)) {
+          return await this.executeNonFungible(fnTag, asset, (leaf) =>
+            leaf.unlockNonFungibleAsset(asset.id, asset.uniqueDescriptor),
+          );
         } else {
-          throw new Error("Non-fungible unlockAsset not implemented");
+          throw new Error(
+            `${fnTag}, Asset is neither fungible nor non-fungible`,
+          );
         }
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
@@ -288,12 +316,12 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
   }
 
   /**
-   * Mints a fungible asset.
+   * Mints a fungible or non-fungible asset.
    *
    * @param asset - The asset to be minted.
    * @returns A promise that resolves to a transaction receipt containing the receipt and proof of the asset minting.
    * @throws {TransactionIdUndefinedError} If the transaction ID is undefined.
-   * @throws {Error} If the asset is non-fungible.
+   * @throws {Error} If the asset is neither fungible nor non-fungible.
    */
   public async mintAsset(asset: Asset): Promise<TransactionReceipt> {
     const fnTag = `${SATPBridgeExecutionLayerImpl.CLASS_NAME}#mintAsset()`;
@@ -327,8 +355,18 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
             receipt,
             proof,
           };
+        } else if (instanceOfNonFungibleAsset(asset)) {
+          return await this.executeNonFungible(fnTag, asset, (leaf) =>
+            leaf.mintNonFungibleAsset(
+              asset.id,
+              asset.uniqueDescriptor,
+              asset.metadataUri ?? "",
+            ),
+          );
         } else {
-          throw new Error("Non-fungible mintAsset not implemented");
+          throw new Error(
+            `${fnTag}, Asset is neither fungible nor non-fungible`,
+          );
         }
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
@@ -341,12 +379,12 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
   }
 
   /**
-   * Burns a fungible asset.
+   * Burns a fungible or non-fungible asset.
    *
    * @param asset - The asset to be burned.
    * @returns A promise that resolves to a transaction receipt containing the receipt and proof of the asset burning.
    * @throws {TransactionIdUndefinedError} If the transaction ID is undefined.
-   * @throws {Error} If the asset is non-fungible.
+   * @throws {Error} If the asset is neither fungible nor non-fungible.
    */
   public async burnAsset(asset: Asset): Promise<TransactionReceipt> {
     const fnTag = `${SATPBridgeExecutionLayerImpl.CLASS_NAME}#burnAsset()`;
@@ -380,8 +418,14 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
             receipt,
             proof,
           };
+        } else if (instanceOfNonFungibleAsset(asset)) {
+          return await this.executeNonFungible(fnTag, asset, (leaf) =>
+            leaf.burnNonFungibleAsset(asset.id, asset.uniqueDescriptor),
+          );
         } else {
-          throw new Error("Non-fungible burnAsset not implemented");
+          throw new Error(
+            `${fnTag}, Asset is neither fungible nor non-fungible`,
+          );
         }
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
@@ -400,7 +444,7 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
    * @param recipient - The recipient of the asset.
    * @returns A promise that resolves to a transaction receipt containing the receipt and proof of the asset assignment.
    * @throws {TransactionIdUndefinedError} If the transaction ID is undefined.
-   * @throws {Error} If the asset is non-fungible.
+   * @throws {Error} If the asset is neither fungible nor non-fungible.
    */
   public async assignAsset(asset: Asset): Promise<TransactionReceipt> {
     const fnTag = `${SATPBridgeExecutionLayerImpl.CLASS_NAME}#assignAsset()`;
@@ -435,8 +479,18 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
             receipt,
             proof,
           };
+        } else if (instanceOfNonFungibleAsset(asset)) {
+          return await this.executeNonFungible(fnTag, asset, (leaf) =>
+            leaf.assignNonFungibleAsset(
+              asset.id,
+              asset.owner,
+              asset.uniqueDescriptor,
+            ),
+          );
         } else {
-          throw new Error("Non-fungible assignAsset not implemented");
+          throw new Error(
+            `${fnTag}, Asset is neither fungible nor non-fungible`,
+          );
         }
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
@@ -507,4 +561,42 @@ export class SATPBridgeExecutionLayerImpl implements SATPBridgeExecutionLayer {
       }
     });
   }
+
+  /**
+   * Runs an operation of the non-fungible leaf and gathers its receipt and the proof of the asset.
+   *
+   * @param fnTag - The tag of the calling method, used in errors and logs.
+   * @param asset - The non-fungible asset the operation acts on.
+   * @param operation - The operation to run against the non-fungible leaf.
+   * @returns A promise that resolves to a transaction receipt containing the receipt and proof of the operation.
+   * @throws {TransactionIdUndefinedError} If the transaction ID is undefined.
+   */
+  private async executeNonFungible(
+    fnTag: string,
+    asset: NonFungibleAsset,
+    operation: (leaf: BridgeLeafNonFungible) => Promise<TransactionResponse>,
+  ): Promise<TransactionReceipt> {
+    const nonFungibleBridgeEndPoint = this
+      .bridgeEndPoint as unknown as BridgeLeafNonFungible;
+    const response = await operation(nonFungibleBridgeEndPoint);
+
+    if (response.transactionId == undefined) {
+      throw new TransactionIdUndefinedError(fnTag);
+    }
+
+    const receipt = await nonFungibleBridgeEndPoint.getReceipt(
+      response.transactionId,
+    );
+
+    this.log.info(
+      `${fnTag}, receipt of the non-fungible asset ${asset.id} (${asset.uniqueDescriptor}): ${receipt}`,
+    );
+
+    const proof = await this.bridgeEndPoint.getProof(asset, this.claimType);
+
+    return {
+      receipt,
+      proof,
+    };
+  }
 }
@@ -0,0 +1,359 @@
+#![no_std]
+
+//! Soroban counterpart of the `SATPWrapperContract` used by the EVM leafs.
+//!
+//! The wrapper keeps track of the tokens that the gateway is allowed to
+//! transfer and interacts with their contracts by invoking the functions
+//! described in the ontology of each token. A function fails the interaction
+//! when it panics, returns an error or returns `false`.
+
+use soroban_sdk::{
+    contract, contracterror, contractimpl, contracttype, symbol_short, Address, Env, IntoVal,
+    String, Symbol, TryFromVal, Val, Vec,
+};
+
+/// Interaction types, same values as the `InteractionType` of the gateway.
+const MINT: u32 = 0;
+const BURN: u32 = 1;
+const ASSIGN: u32 = 2;
+const CHECK_PERMISSION: u32 = 3;
+const LOCK: u32 = 4;
+const UNLOCK: u32 = 5;
+
+/// Variable types, same values as the `VarType` of the gateway.
+const CONTRACT_ADDRESS: u32 = 0;
+const TOKEN_TYPE: u32 = 1;
+const TOKEN_ID: u32 = 2;
+const OWNER: u32 = 3;
+const AMOUNT: u32 = 4;
+const BRIDGE: u32 = 5;
+const RECEIVER: u32 = 6;
+
+#[contracttype]
+#[derive(Clone, Debug, Eq, PartialEq)]
+pub struct Token {
+    pub contract_name: String,
+    pub contract_address: Address,
+    pub token_type: u32,
+    pub token_id: String,
+    pub reference_id: String,
+    pub owner: Address,
+    /// Amount locked in the wrapper.
+    pub amount: i128,
+}
+
+#[contracttype]
+#[derive(Clone, Debug, Eq, PartialEq)]
+pub struct InteractionSignature {
+    pub interaction_type: u32,
+    pub functions_signature: Vec<Symbol>,
+    pub variables: Vec<Vec<u32>>,
+    pub available: bool,
+}
+
+#[contracttype]
+pub enum DataKey {
+    Owner,
+    Ids,
+    Token(String),
+    Interaction(String, u32),
+}
+
+#[contracterror]
+#[derive(Copy, Clone, Debug, Eq, PartialEq, PartialOrd, Ord)]
+#[repr(u32)]
+pub enum Error {
+    AlreadyInitialized = 1,
+    NotInitialized = 2,
+    TokenNotAvailable = 3,
+    TokenAlreadyWrapped = 4,
+    TokenNotLocked = 5,
+    TokenLocked = 6,
+    TokenNotUnlocked = 7,
+    InsufficientAmountLocked = 8,
+    PermissionDenied = 9,
+    InteractionFailed = 10,
+    VariableNotSupported = 11,
+}
+
+#[contract]
+pub struct SatpWrapper;
+
+#[contractimpl]
+impl SatpWrapper {
+    /// Sets the owner of the wrapper, i.e. the account of the bridge.
+    pub fn initialize(env: Env, owner: Address) -> Result<(), Error> {
+        if env.storage().instance().has(&DataKey::Owner) {
+            return Err(Error::AlreadyInitialized);
+        }
+        env.storage().instance().set(&DataKey::Owner, &owner);
+        env.storage()
+            .instance()
+            .set(&DataKey::Ids, &Vec::<String>::new(&env));
+        Ok(())
+    }
+
+    #[allow(clippy::too_many_arguments)]
+    pub fn wrap(
+        env: Env,
+        contract_name: String,
+        contract_address: Address,
+        token_type: u32,
+        token_id: String,
+        reference_id: String,
+        owner: Address,
+        interactions: Vec<InteractionSignature>,
+    ) -> Result<(), Error> {
+        Self::require_owner(&env)?;
+        let key = DataKey::Token(token_id.clone());
+        if env.storage().persistent().has(&key) {
+            return Err(Error::TokenAlreadyWrapped);
+        }
+        let token = Token {
+            contract_name,
+            contract_address: contract_address.clone(),
+            token_type,
+            token_id: token_id.clone(),
+            reference_id,
+            owner: owner.clone(),
+            amount: 0,
+        };
+        for interaction in interactions.iter() {
+            env.storage().persistent().set(
+                &DataKey::Interaction(token_id.clone(), interaction.interaction_type),
+                &interaction,
+            );
+        }
+        if Self::is_available(&env, &token_id, CHECK_PERMISSION)
+            && !Self::interact(&env, &token, CHECK_PERMISSION, 0, None)?
+        {
+            return Err(Error::PermissionDenied);
+        }
+        env.storage().persistent().set(&key, &token);
+        let mut ids = Self::ids(&env);
+        ids.push_back(token_id.clone());
+        env.storage().instance().set(&DataKey::Ids, &ids);
+        env.events().publish(
+            (symbol_short!("wrap"), token_id),
+            (contract_address, token_type, owner),
+        );
+        Ok(())
+    }
+
+    pub fn unwrap(env: Env, token_id: String) -> Result<(), Error> {
+        Self::require_owner(&env)?;
+        let token = Self::load_token(&env, &token_id)?;
+        if token.amount > 0 {
+            return Err(Error::TokenLocked);
+        }
+        for interaction_type in MINT..=UNLOCK {
+            env.storage()
+                .persistent()
+                .remove(&DataKey::Interaction(token_id.clone(), interaction_type));
+        }
+        env.storage()
+            .persistent()
+            .remove(&DataKey::Token(token_id.clone()));
+        let mut ids = Self::ids(&env);
+        if let Some(index) = ids.first_index_of(&token_id) {
+            ids.remove(index);
+        }
+        env.storage().instance().set(&DataKey::Ids, &ids);
+        env.events().publish((symbol_short!("unwrap"), token_id), ());
+        Ok(())
+    }
+
+    pub fn lock(env: Env, token_id: String, amount: i128) -> Result<(), Error> {
+        Self::require_owner(&env)?;
+        let mut token = Self::load_token(&env, &token_id)?;
+        if !Self::interact(&env, &token, LOCK, amount, None)? {
+            return Err(Error::TokenNotLocked);
+        }
+        token.amount += amount;
+        Self::save_token(&env, &token);
+        env.events()
+            .publish((symbol_short!("lock"), token_id), amount);
+        Ok(())
+    }
+
+    pub fn unlock(env: Env, token_id: String, amount: i128) -> Result<(), Error> {
+        Self::require_owner(&env)?;
+        let mut token = Self::load_token(&env, &token_id)?;
+        if token.amount < amount {
+            return Err(Error::InsufficientAmountLocked);
+        }
+        if !Self::interact(&env, &token, UNLOCK, amount, None)? {
+            return Err(Error::TokenNotUnlocked);
+        }
+        token.amount -= amount;
+        Self::save_token(&env, &token);
+        env.events()
+            .publish((symbol_short!("unlock"), token_id), amount);
+        Ok(())
+    }
+
+    pub fn mint(env: Env, token_id: String, amount: i128) -> Result<(), Error> {
+        Self::require_owner(&env)?;
+        let mut token = Self::load_token(&env, &token_id)?;
+        if !Self::interact(&env, &token, MINT, amount, None)? {
+            return Err(Error::InteractionFailed);
+        }
+        token.amount = amount;
+        Self::save_token(&env, &token);
+        env.events()
+            .publish((symbol_short!("mint"), token_id), amount);
+        Ok(())
+    }
+
+    pub fn burn(env: Env, token_id: String, amount: i128) -> Result<(), Error> {
+        Self::require_owner(&env)?;
+        let mut token = Self::load_token(&env, &token_id)?;
+        if token.amount < amount {
+            return Err(Error::InsufficientAmountLocked);
+        }
+        if !Self::interact(&env, &token, BURN, amount, None)? {
+            return Err(Error::InteractionFailed);
+        }
+        token.amount -= amount;
+        Self::save_token(&env, &token);
+        env.events()
+            .publish((symbol_short!("burn"), token_id), amount);
+        Ok(())
+    }
+
+    pub fn assign(
+        env: Env,
+        token_id: String,
+        receiver: Address,
+        amount: i128,
+    ) -> Result<(), Error> {
+        Self::require_owner(&env)?;
+        let mut token = Self::load_token(&env, &token_id)?;
+        if token.amount < amount {
+            return Err(Error::InsufficientAmountLocked);
+        }
+        if !Self::interact(&env, &token, ASSIGN, amount, Some(receiver.clone()))? {
+            return Err(Error::InteractionFailed);
+        }
+        token.amount -= amount;
+        Self::save_token(&env, &token);
+        env.events()
+            .publish((symbol_short!("assign"), token_id), (receiver, amount));
+        Ok(())
+    }
+
+    pub fn get_token(env: Env, token_id: String) -> Option<Token> {
+        env.storage().persistent().get(&DataKey::Token(token_id))
+    }
+
+    pub fn get_all_assets_ids(env: Env) -> Vec<String> {
+        Self::ids(&env)
+    }
+
+    pub fn owner(env: Env) -> Result<Address, Error> {
+        env.storage()
+            .instance()
+            .get(&DataKey::Owner)
+            .ok_or(Error::NotInitialized)
+    }
+}
+
+impl SatpWrapper {
+    fn require_owner(env: &Env) -> Result<(), Error> {
+        Self::owner(env.clone())?.require_auth();
+        Ok(())
+    }
+
+    fn load_token(env: &Env, token_id: &String) -> Result<Token, Error> {
+        Self::get_token(env.clone(), token_id.clone()).ok_or(Error::TokenNotAvailable)
+    }
+
+    fn ids(env: &Env) -> Vec<String> {
+        env.storage()
+            .instance()
+            .get(&DataKey::Ids)
+            .unwrap_or(Vec::new(env))
+    }
+
+    fn save_token(env: &Env, token: &Token) {
+        env.storage()
+            .persistent()
+            .set(&DataKey::Token(token.token_id.clone()), token);
+    }
+
+    fn is_available(env: &Env, token_id: &String, interaction_type: u32) -> bool {
+        env.storage()
+            .persistent()
+            .get::<_, InteractionSignature>(&DataKey::Interaction(
+                token_id.clone(),
+                interaction_type,
+            ))
+            .map(|interaction| interaction.available)
+            .unwrap_or(false)
+    }
+
+    /// Invokes the functions of the ontology of the token for the given
+    /// interaction type and returns `false` as soon as one of them fails.
+    fn interact(
+        env: &Env,
+        token: &Token,
+        interaction_type: u32,
+        amount: i128,
+        receiver: Option<Address>,
+    ) -> Result<bool, Error> {
+        let interaction: InteractionSignature = match env.storage().persistent().get(
+            &DataKey::Interaction(token.token_id.clone(), interaction_type),
+        ) {
+            Some(interaction) if interaction.available => interaction,
+            _ => return Ok(false),
+        };
+
+        for (function, variables) in interaction
+            .functions_signature
+            .iter()
+            .zip(interaction.variables.iter())
+        {
+            let args = Self::encode_args(env, token, &variables, amount, &receiver)?;
+            match env.try_invoke_contract::<Val, soroban_sdk::Error>(
+                &token.contract_address,
+                &function,
+                args,
+            ) {
+                Ok(Ok(output)) => {
+                    if let Ok(false) = bool::try_from_val(env, &output) {
+                        return Ok(false);
+                    }
+                }
+                _ => return Ok(false),
+            }
+        }
+        Ok(true)
+    }
+
+    fn encode_args(
+        env: &Env,
+        token: &Token,
+        variables: &Vec<u32>,
+        amount: i128,
+        receiver: &Option<Address>,
+    ) -> Result<Vec<Val>, Error> {
+        let mut args: Vec<Val> = Vec::new(env);
+        for variable in variables.iter() {
+            let arg: Val = match variable {
+                CONTRACT_ADDRESS => token.contract_address.into_val(env),
+                TOKEN_TYPE => token.token_type.into_val(env),
+                TOKEN_ID => token.token_id.into_val(env),
+                OWNER => token.owner.into_val(env),
+                AMOUNT => amount.into_val(env),
+                BRIDGE => env.current_contract_address().into_val(env),
+                RECEIVER => receiver
+                    .clone()
+                    .ok_or(Error::VariableNotSupported)?
+                    .into_val(env),
+                _ => return Err(Error::VariableNotSupported),
+            };
+            args.push_back(arg);
+        }
+        Ok(args)
+    }
+}
@@ -211,6 +211,61 @@ export class TaskNotFoundError extends BridgeInternalError {
   }
 }
 
+export class InvalidTaskStateError extends BridgeInternalError {
+  constructor(
+    taskId: string,
+    status: string,
+    action: string,
+    cause?: string | Error | null,
+    traceID?: string,
+    trace?: string,
+  ) {
+    super(
+      `Cannot ${action} task ${taskId} with status ${status}`,
+      cause ?? null,
+      409,
+      traceID,
+      trace,
+    );
+  }
+}
+
+export class InvalidTransformationError extends BridgeInternalError {
+  constructor(
+    stepIndex: number,
+    reason: string,
+    cause?: string | Error | null,
+    traceID?: string,
+    trace?: string,
+  ) {
+    super(
+      `Invalid transformation step ${stepIndex}: ${reason}`,
+      cause ?? null,
+      400,
+      traceID,
+      trace,
+    );
+  }
+}
+
+export class TransformationError extends BridgeInternalError {
+  constructor(
+    taskId: string,
+    reason: string,
+    cause?: string | Error | null,
+    traceID?: string,
+    trace?: string,
+  ) {
+    super(
+      `Transformation of the data of task ${taskId} failed: ${reason}`,
+      cause ?? null,
+      500,
+      traceID,
+      trace,
+    );
+  }
+}
+
 export class InvalidTaskTypeError extends BridgeInternalError {
   constructor(
     taskType: string | undefined,
@@ -20,6 +20,7 @@ import { ClaimFormat } from "../../../generated/proto/cacti/satp/v02/common/mess
 import {
   BusinessLogicContract,
   NetworkId,
+  OracleEventCursor,
   OracleOperation,
   OracleResponse,
 } from "../../../public-api";
@@ -251,9 +252,11 @@ export class OracleBesu extends OracleAbstract {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     args: IOracleListenerBase,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    callback: (params: string[]) => void,
+    callback: (params: string[], cursor?: OracleEventCursor) => void,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     filter: string[],
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    fromCursor?: OracleEventCursor,
   ): Promise<{ unsubscribe: () => void }> {
     const fnTag = `${OracleBesu.CLASS_NAME}#subscribeContractEvent`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
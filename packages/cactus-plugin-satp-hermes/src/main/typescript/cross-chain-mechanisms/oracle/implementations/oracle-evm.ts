@@ -35,6 +35,7 @@ import { ClaimFormat } from "../../../generated/proto/cacti/satp/v02/common/mess
 import {
   BusinessLogicContract,
   NetworkId,
+  OracleEventCursor,
   OracleOperation,
   OracleResponse,
 } from "../../../public-api";
@@ -269,8 +270,9 @@ export class OracleEVM extends OracleAbstract {
    */
   public async subscribeContractEvent(
     args: IOracleListenerBase,
-    callback: (params: string[]) => void,
+    callback: (params: string[], cursor?: OracleEventCursor) => void,
     filter?: string[],
+    fromCursor?: OracleEventCursor,
   ): Promise<{ unsubscribe: () => void }> {
     const fnTag = `${OracleEVM.CLASS_NAME}#subscribeContractEvent`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
@@ -283,6 +285,8 @@ export class OracleEVM extends OracleAbstract {
         const subscriber = (await this.connector.createSubscriber("logs", {
           address: args.contractAddress,
           topics: [keccak256(args.eventSignature.replace(/\s+/g, ""))], //remove whitespaces and hash the event signature
+          // replays the logs emitted since the cursor before streaming new ones
+          fromBlock: fromCursor?.blockNumber,
         })) as {
           on: (event: string, callback: (log: unknown) => void) => void;
           unsubscribe: () => void;
@@ -313,7 +317,21 @@ export class OracleEVM extends OracleAbstract {
             filter,
           );
 
-          callback(output_params);
+          const { blockNumber, logIndex, transactionHash } = log as {
+            blockNumber?: number | bigint;
+            logIndex?: number | bigint;
+            transactionHash?: string;
+          };
+          callback(
+            output_params,
+            blockNumber === undefined
+              ? undefined
+              : {
+                  blockNumber: Number(blockNumber),
+                  logIndex: Number(logIndex ?? 0),
+                  transactionId: transactionHash,
+                },
+          );
         });
 
         subscriber.on("error", (error: any) => {
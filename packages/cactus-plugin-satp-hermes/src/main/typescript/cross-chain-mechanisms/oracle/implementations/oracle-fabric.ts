@@ -21,6 +21,7 @@ import { IOracleEntryBase, IOracleListenerBase } from "../oracle-types";
 import { ClaimFormat } from "../../../generated/proto/cacti/satp/v02/common/message_pb";
 import {
   NetworkId,
+  OracleEventCursor,
   OracleOperation,
   OracleResponse,
 } from "../../../public-api";
@@ -41,6 +42,10 @@ interface ContractEvent {
   chaincodeId: string;
   eventName: string;
   payload?: Buffer;
+  getTransactionEvent(): {
+    transactionId: string;
+    getBlockEvent(): { blockNumber: { toNumber(): number } };
+  };
 }
 
 export interface IFabricOracleEntry extends IOracleEntryBase {
@@ -252,8 +257,9 @@ export class OracleFabric extends OracleAbstract {
 
   public async subscribeContractEvent(
     args: IOracleListenerBase,
-    callback: (params: string[]) => void,
+    callback: (params: string[], cursor?: OracleEventCursor) => void,
     filter: string[],
+    fromCursor?: OracleEventCursor,
   ): Promise<{ unsubscribe: () => void }> {
     const fnTag = `${OracleFabric.CLASS_NAME}#subscribeContractEvent`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
@@ -263,6 +269,11 @@ export class OracleFabric extends OracleAbstract {
           `${fnTag}: Subscribing to event with args: ${safeStableStringify(args)}`,
         );
 
+        // Fabric events have no index within their block, so the listener
+        // counts them; events are delivered in ledger order
+        let currentBlock = -1;
+        let eventIndex = 0;
+
         const { removeListener } = await this.connector.createFabricListener(
           {
             channelName: this.channelName,
@@ -275,6 +286,13 @@ export class OracleFabric extends OracleAbstract {
             );
 
             if (event) {
+              const transactionEvent = event.getTransactionEvent();
+              const blockNumber = transactionEvent
+                .getBlockEvent()
+                .blockNumber.toNumber();
+              eventIndex = blockNumber === currentBlock ? eventIndex + 1 : 0;
+              currentBlock = blockNumber;
+
               if (event.eventName === args.eventSignature && event.payload) {
                 const payload = event.payload.toString("utf-8");
                 const payloadJson = JSON.parse(payload);
@@ -284,7 +302,11 @@ export class OracleFabric extends OracleAbstract {
                   filter,
                 );
 
-                callback(output_params);
+                callback(output_params, {
+                  blockNumber,
+                  logIndex: eventIndex,
+                  transactionId: transactionEvent.transactionId,
+                });
               } else {
                 this.log.debug(
                   `${fnTag}: Event name ${event.eventName} does not match expected ${args.eventSignature}. Will not process.`,
@@ -293,6 +315,7 @@ export class OracleFabric extends OracleAbstract {
               }
             }
           },
+          fromCursor ? { startBlock: fromCursor.blockNumber } : undefined,
         );
 
         return {
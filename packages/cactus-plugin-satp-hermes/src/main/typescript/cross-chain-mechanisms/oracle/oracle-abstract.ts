@@ -6,7 +6,12 @@ import {
   LedgerType,
 } from "@hyperledger/cactus-core-api";
 import { v4 as uuidv4 } from "uuid";
-import { NetworkId, OracleOperation, OracleResponse } from "../../public-api";
+import {
+  NetworkId,
+  OracleEventCursor,
+  OracleOperation,
+  OracleResponse,
+} from "../../public-api";
 import { ClaimFormat } from "../../generated/proto/cacti/satp/v02/common/message_pb";
 import { MonitorService } from "../../services/monitoring/monitor";
 
@@ -171,13 +176,17 @@ export abstract class OracleAbstract {
    * specific behavior for the target ledger.
    *
    * @param eventName - The name of the event to listen for.
-   * @param callback - The callback function to handle the event data.
+   * @param callback - The callback function to handle the event data, along
+   * with the position of the event in the ledger.
+   * @param fromCursor - Optional position to replay events from, e.g. the last
+   * event processed before a restart.
    * @returns A subscription object that can be used to unsubscribe from the event.
    */
   public abstract subscribeContractEvent(
     args: IOracleListenerBase,
-    callback: (params: string[]) => void,
+    callback: (params: string[], cursor?: OracleEventCursor) => void,
     filter?: string[],
+    fromCursor?: OracleEventCursor,
   ): Promise<{ unsubscribe: () => void }>;
 
   /**
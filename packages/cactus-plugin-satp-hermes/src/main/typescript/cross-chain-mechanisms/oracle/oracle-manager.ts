@@ -12,6 +12,7 @@ import { INetworkOptions } from "../bridge/bridge-types";
 import { stringify as safeStableStringify } from "safe-stable-stringify";
 import {
   DeployOracleError,
+  InvalidTaskStateError,
   OracleError,
   ReadAndUpdateTaskNoDataError,
   TaskNotFoundError,
@@ -29,29 +30,39 @@ import {
 import { OracleAbstract } from "./oracle-abstract";
 import { ClaimFormat } from "../../generated/proto/cacti/satp/v02/common/message_pb";
 import {
+  BusinessLogicContract,
   NetworkId,
+  OracleEventCursor,
   OracleOperation,
   OracleOperationStatusEnum,
   OracleOperationTypeEnum,
   OracleRegisterRequestTaskModeEnum,
   OracleResponse,
   OracleTask,
+  OracleTaskHistoryResponse,
   OracleTaskModeEnum,
   OracleTaskStatusEnum,
   OracleTaskTypeEnum,
 } from "../../public-api";
 import { OracleExecutionLayer } from "./oracle-execution-layer";
-import { updateOracleOperation } from "./oracle-utils";
+import { isAfterCursor, updateOracleOperation } from "./oracle-utils";
+import {
+  applyTransformations,
+  validateTransformations,
+} from "./oracle-transformations";
 import { IOracleBesuOptions, OracleBesu } from "./implementations/oracle-besu";
 import { OracleSchedulerManager } from "./oracle-scheduler-manager";
 import { MonitorService } from "../../services/monitoring/monitor";
 import { context, SpanStatusCode } from "@opentelemetry/api";
+import type { IOracleTaskRepository } from "../../database/repository/interfaces/repository";
 
 export interface IOracleManagerOptions {
   logLevel?: LogLevelDesc;
   bungee: IPluginBungeeHermesOptions | undefined;
   initialTasks?: OracleTask[];
   monitorService: MonitorService;
+  // persists tasks, their operations and cursors, so they survive restarts
+  taskRepository?: IOracleTaskRepository;
 }
 
 export class OracleManager {
@@ -67,6 +78,18 @@ export class OracleManager {
   // Map to store the status for a given task id.
   private taskStatusMap: Map<string, OracleTask> = new Map();
 
+  // Last event processed and last execution of each repeatable task.
+  private eventCursors: Map<string, OracleEventCursor> = new Map();
+  // Event being relayed, persisted before relaying it, so an event that was
+  // interrupted by a restart is not relayed twice.
+  private pendingEventCursors: Map<string, OracleEventCursor> = new Map();
+  private lastExecutions: Map<string, number> = new Map();
+
+  // Events of a task are handled one at a time, in the order they are emitted.
+  private eventQueues: Map<string, Promise<void>> = new Map();
+
+  private readonly taskRepository?: IOracleTaskRepository;
+
   // private readonly notificationDispatcher: OracleNotificationDispatcher;
   private readonly schedulerManager: OracleSchedulerManager;
 
@@ -86,6 +109,7 @@ export class OracleManager {
       this.monitorService,
     );
     this.logger.info(`${fnTag}: Initializing OracleManager`);
+    this.taskRepository = options.taskRepository;
 
     // this.notificationDispatcher = new OracleNotificationDispatcher({
     //   logger: this.logger,
@@ -357,64 +381,15 @@ export class OracleManager {
         this.logger.info(
           `${fnTag}: Registering task. ${safeStableStringify(task)}`,
         );
+        validateTransformations(task);
 
         try {
           this.taskStatusMap.set(task.taskID, task);
           task.timestamp = Date.now();
           task.status = OracleTaskStatusEnum.Active;
 
-          // set up polling or event listener
-          if (task.mode === OracleRegisterRequestTaskModeEnum.Polling) {
-            this.schedulerManager.addPoller(
-              task.taskID,
-              async () => {
-                try {
-                  await this.processTask(task as OracleTask);
-                  this.logger.info(
-                    `${fnTag}: Task ${task.taskID} executed successfully`,
-                  );
-                  // TODO: Dispatch a success notification.
-                } catch (error) {
-                  // TODO: Dispatch a failure notification.
-                }
-              },
-              task.pollingInterval!,
-            );
-          } else if (
-            task.mode === OracleRegisterRequestTaskModeEnum.EventListening
-          ) {
-            const oracle = this.getNetworkOracle(task.srcNetworkId!);
-
-            // this is implemented as follows: we set up a listener for the event
-            // on the source contract, and when the event is emitted, we call the
-            // process the relayOperation method with only the update operation
-
-            await this.schedulerManager.addEventListener(
-              oracle,
-              task.taskID,
-              {
-                contractName: task.srcContract.contractName,
-                contractAbi: task.srcContract.contractAbi,
-                contractAddress: task.srcContract.contractAddress,
-                eventSignature: task.listeningOptions?.eventSignature,
-              } as IOracleListenerBase,
-              async (params: string[]) => {
-                const fnTag = `${OracleManager.CLASS_NAME}#addEventListener`;
-                this.logger.debug(
-                  `${fnTag}: Captured event emitted for task ${task.taskID} -- listened to ${params} from event ${task.listeningOptions?.eventSignature} in contract ${task.srcContract.contractAddress} on network ${task.srcNetworkId?.ledgerType}`,
-                );
-
-                if (!task.dstContract.params) {
-                  // if params are not defined, we use the data captured in the event listened
-                  await this.processTask(task as OracleTask, params);
-                } else {
-                  // Otherwise, we assume the event listener is only used as a trigger for the task
-                  await this.processTask(task as OracleTask);
-                }
-              },
-              task.listeningOptions?.filterParams,
-            );
-          }
+          await this.saveTask(task);
+          await this.scheduleTask(task);
 
           this.logger.info(`${fnTag}: Task registered successfully`);
           return task;
@@ -432,11 +407,154 @@ export class OracleManager {
     });
   }
 
+  // Sets up the poller or event listener of a repeatable task.
+  private async scheduleTask(task: OracleTask): Promise<void> {
+    const fnTag = `${OracleManager.CLASS_NAME}#scheduleTask()`;
+    if (task.mode === OracleRegisterRequestTaskModeEnum.Polling) {
+      // a resumed task keeps its schedule instead of polling right away
+      const lastExecution = this.lastExecutions.get(task.taskID);
+      this.schedulerManager.addPoller(
+        task.taskID,
+        async () => {
+          try {
+            await this.recordExecution(task);
+            await this.processTask(task as OracleTask);
+            this.logger.info(
+              `${fnTag}: Task ${task.taskID} executed successfully`,
+            );
+            // TODO: Dispatch a success notification.
+          } catch (error) {
+            // TODO: Dispatch a failure notification.
+          }
+        },
+        task.pollingInterval!,
+        lastExecution === undefined
+          ? undefined
+          : lastExecution + task.pollingInterval! - Date.now(),
+      );
+    } else if (task.mode === OracleRegisterRequestTaskModeEnum.EventListening) {
+      const oracle = this.getNetworkOracle(task.srcNetworkId!);
+
+      // this is implemented as follows: we set up a listener for the event
+      // on the source contract, and when the event is emitted, we call the
+      // process the relayOperation method with only the update operation
+
+      await this.schedulerManager.addEventListener(
+        oracle,
+        task.taskID,
+        {
+          contractName: task.srcContract.contractName,
+          contractAbi: task.srcContract.contractAbi,
+          contractAddress: task.srcContract.contractAddress,
+          eventSignature: task.listeningOptions?.eventSignature,
+        } as IOracleListenerBase,
+        (params: string[], cursor?: OracleEventCursor) =>
+          this.enqueueEvent(task, params, cursor),
+        task.listeningOptions?.filterParams,
+        this.eventCursors.get(task.taskID),
+      );
+    }
+  }
+
+  // Queues an event behind the events of the same task still being handled.
+  private enqueueEvent(
+    task: OracleTask,
+    params: string[],
+    cursor?: OracleEventCursor,
+  ): Promise<void> {
+    const previous = this.eventQueues.get(task.taskID) ?? Promise.resolve();
+    const next = previous.then(() => this.handleEvent(task, params, cursor));
+    this.eventQueues.set(task.taskID, next);
+    return next;
+  }
+
+  private async handleEvent(
+    task: OracleTask,
+    params: string[],
+    cursor?: OracleEventCursor,
+  ): Promise<void> {
+    const fnTag = `${OracleManager.CLASS_NAME}#handleEvent()`;
+    if (task.status !== OracleTaskStatusEnum.Active) {
+      // left for the listener set up when the task is resumed
+      return;
+    }
+    if (cursor && !isAfterCursor(cursor, this.eventCursors.get(task.taskID))) {
+      // replayed after a restart, but already relayed
+      this.logger.debug(
+        `${fnTag}: Skipping event of task ${task.taskID} at block ${cursor.blockNumber}, already processed`,
+      );
+      return;
+    }
+
+    try {
+      this.logger.debug(
+        `${fnTag}: Captured event emitted for task ${task.taskID} -- listened to ${params} from event ${task.listeningOptions?.eventSignature} in contract ${task.srcContract.contractAddress} on network ${task.srcNetworkId?.ledgerType}`,
+      );
+      if (cursor) {
+        await this.markEventPending(task, cursor);
+      }
+
+      if (!task.dstContract.params) {
+        // if params are not defined, we use the data captured in the event listened
+        await this.processTask(task as OracleTask, params);
+      } else {
+        // Otherwise, we assume the event listener is only used as a trigger for the task
+        await this.processTask(task as OracleTask);
+      }
+    } catch (error) {
+      // the failed operation is kept in the task history, and the cursor is
+      // left before the event so that resuming the task relays it again
+      this.logger.error(
+        `${fnTag}: Error processing event of task ${task.taskID}, pausing it: ${error}`,
+      );
+      this.pendingEventCursors.delete(task.taskID);
+      await this.haltTask(task);
+      return;
+    }
+
+    if (cursor) {
+      this.eventCursors.set(task.taskID, cursor);
+    }
+    this.pendingEventCursors.delete(task.taskID);
+    await this.recordExecution(task);
+  }
+
+  // Persists the event about to be relayed. Throws if it cannot be stored,
+  // as the event could then be relayed twice.
+  private async markEventPending(
+    task: OracleTask,
+    cursor: OracleEventCursor,
+  ): Promise<void> {
+    this.pendingEventCursors.set(task.taskID, cursor);
+    if (!this.taskRepository) {
+      return;
+    }
+    await this.taskRepository.update(task.taskID, {
+      pendingEventCursor: safeStableStringify(cursor),
+      updatedAt: Date.now(),
+    });
+  }
+
+  // Pauses a task whose event could not be relayed, the events queued behind
+  // it are dropped and replayed once the task is resumed.
+  private async haltTask(task: OracleTask): Promise<void> {
+    const fnTag = `${OracleManager.CLASS_NAME}#haltTask()`;
+    task.status = OracleTaskStatusEnum.Paused;
+    try {
+      await this.unscheduleTask(task);
+      await this.saveTask(task);
+    } catch (error) {
+      this.logger.error(
+        `${fnTag}: Error pausing task ${task.taskID}: ${error}`,
+      );
+    }
+  }
+
   // Unregisters a task by its id.
   public async unregisterTask(taskId: string): Promise<OracleTask> {
     const fnTag = `${OracleManager.CLASS_NAME}#unregisterTask()`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
-    return context.with(ctx, () => {
+    return context.with(ctx, async () => {
       try {
         this.logger.info(`${fnTag}: Unregistering task with id ${taskId}`);
 
@@ -450,13 +568,13 @@ export class OracleManager {
             `${fnTag}: Cannot unregister task with mode Immediate`,
           );
           return task;
-        } else if (task.mode === OracleTaskModeEnum.Polling) {
-          this.schedulerManager.removePoller(taskId);
-        } else if (task.mode === OracleTaskModeEnum.EventListening) {
-          this.schedulerManager.removeEventListener(taskId);
+        } else if (task.status === OracleTaskStatusEnum.Active) {
+          // paused and inactive tasks are not scheduled anymore
+          await this.unscheduleTask(task);
         }
 
         task.status = OracleTaskStatusEnum.Inactive;
+        await this.saveTask(task);
 
         this.logger.info(`${fnTag}: Task with id ${taskId} unregistered`);
 
@@ -477,9 +595,12 @@ export class OracleManager {
     return context.with(ctx, async () => {
       try {
         this.logger.info(`${fnTag}: Executing task with id ${task.taskID}`);
+        validateTransformations(task);
 
         this.taskStatusMap.set(task.taskID, task);
         task.timestamp = Date.now();
+        await this.saveTask(task);
+        await this.recordExecution(task);
 
         try {
           task = await this.processTask(task);
@@ -490,7 +611,89 @@ export class OracleManager {
         } finally {
           task.status = OracleTaskStatusEnum.Inactive;
         }
+        await this.saveTask(task);
+
+        return task;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Stops scheduling a polling or event listening task. Its cursor is kept,
+   * so resuming it relays the events emitted while it was paused.
+   *
+   * @param taskId - The id of the task to pause.
+   * @throws {InvalidTaskStateError} If the task is not an active repeatable task.
+   * @returns {Promise<OracleTask>} The paused task.
+   */
+  public async pauseTask(taskId: string): Promise<OracleTask> {
+    const fnTag = `${OracleManager.CLASS_NAME}#pauseTask()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.logger.info(`${fnTag}: Pausing task with id ${taskId}`);
+        const task = this.getTask(taskId);
+
+        if (
+          task.mode === OracleTaskModeEnum.Immediate ||
+          task.status !== OracleTaskStatusEnum.Active
+        ) {
+          throw new InvalidTaskStateError(taskId, task.status, "pause");
+        }
+
+        await this.unscheduleTask(task);
+        task.status = OracleTaskStatusEnum.Paused;
+        await this.saveTask(task);
+
+        this.logger.info(`${fnTag}: Task with id ${taskId} paused`);
+        return task;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Schedules a paused task again, from its last processed block or event.
+   *
+   * @param taskId - The id of the task to resume.
+   * @throws {InvalidTaskStateError} If the task is not paused.
+   * @returns {Promise<OracleTask>} The resumed task.
+   */
+  public async resumeTask(taskId: string): Promise<OracleTask> {
+    const fnTag = `${OracleManager.CLASS_NAME}#resumeTask()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.logger.info(`${fnTag}: Resuming task with id ${taskId}`);
+        const task = this.getTask(taskId);
+
+        if (task.status !== OracleTaskStatusEnum.Paused) {
+          throw new InvalidTaskStateError(taskId, task.status, "resume");
+        }
 
+        // an event interrupted by a restart is relayed again
+        this.pendingEventCursors.delete(taskId);
+        task.status = OracleTaskStatusEnum.Active;
+        try {
+          await this.scheduleTask(task);
+        } catch (error) {
+          task.status = OracleTaskStatusEnum.Paused;
+          throw new OracleError(error);
+        }
+        await this.saveTask(task);
+
+        this.logger.info(`${fnTag}: Task with id ${taskId} resumed`);
         return task;
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
@@ -502,6 +705,89 @@ export class OracleManager {
     });
   }
 
+  /**
+   * Loads the tasks persisted in the task repository and schedules the
+   * active ones again. Called on gateway startup, once the oracles are
+   * deployed.
+   *
+   * Polling tasks keep their schedule, and event listening tasks replay the
+   * events emitted since their cursor, skipping the ones already relayed.
+   */
+  public async resumeTasks(): Promise<void> {
+    const fnTag = `${OracleManager.CLASS_NAME}#resumeTasks()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    await context.with(ctx, async () => {
+      try {
+        if (!this.taskRepository) {
+          this.logger.debug(`${fnTag}: No task repository, nothing to resume`);
+          return;
+        }
+
+        const entries = await this.taskRepository.readAll();
+        this.logger.info(`${fnTag}: Loading ${entries.length} oracle tasks`);
+
+        for (const entry of entries) {
+          if (this.taskStatusMap.has(entry.taskID)) {
+            continue;
+          }
+          const operations = await this.taskRepository.readOperations(
+            entry.taskID,
+          );
+          const task: OracleTask = {
+            ...JSON.parse(entry.task),
+            status: entry.status as OracleTaskStatusEnum,
+            operations: operations.map((op) => JSON.parse(op.operation)),
+          };
+          this.taskStatusMap.set(task.taskID, task);
+          if (entry.eventCursor) {
+            this.eventCursors.set(task.taskID, JSON.parse(entry.eventCursor));
+          }
+          if (entry.lastExecutedAt) {
+            this.lastExecutions.set(task.taskID, Number(entry.lastExecutedAt));
+          }
+          if (entry.pendingEventCursor) {
+            // the gateway stopped while relaying this event, it may or may
+            // not be on the destination network
+            this.pendingEventCursors.set(
+              task.taskID,
+              JSON.parse(entry.pendingEventCursor),
+            );
+            if (task.status === OracleTaskStatusEnum.Active) {
+              this.logger.error(
+                `${fnTag}: Task ${task.taskID} was interrupted while relaying the event at ${entry.pendingEventCursor}, pausing it until it is resumed`,
+              );
+              task.status = OracleTaskStatusEnum.Paused;
+              await this.saveTask(task);
+            }
+          }
+
+          if (
+            task.status !== OracleTaskStatusEnum.Active ||
+            task.mode === OracleTaskModeEnum.Immediate
+          ) {
+            continue;
+          }
+          try {
+            await this.scheduleTask(task);
+            this.logger.info(`${fnTag}: Task ${task.taskID} resumed`);
+          } catch (error) {
+            // the other tasks are still resumed, this one stays active so
+            // it is retried on the next restart
+            this.logger.error(
+              `${fnTag}: Error resuming task ${task.taskID}: ${error}`,
+            );
+          }
+        }
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
   // Returns the status for a given task id.
   public getTask(taskId: string): OracleTask {
     const task = this.taskStatusMap.get(taskId);
@@ -518,6 +804,18 @@ export class OracleManager {
     return task.status;
   }
 
+  // Returns the operations and the cursor of a given task id.
+  public getTaskHistory(taskId: string): OracleTaskHistoryResponse {
+    const task = this.getTask(taskId);
+    return {
+      taskID: task.taskID,
+      status: task.status,
+      lastExecutedAt: this.lastExecutions.get(taskId),
+      eventCursor: this.eventCursors.get(taskId),
+      operations: task.operations,
+    };
+  }
+
   public async processTask(
     task: OracleTask,
     params?: string[],
@@ -547,7 +845,11 @@ export class OracleManager {
           await this.relayOperation(task, operation);
         } else if (task.type === OracleTaskTypeEnum.Update) {
           if (params) {
-            task.dstContract.params = params;
+            const content = await this.transformContent(task, params);
+            if (!content) {
+              return task;
+            }
+            task.dstContract.params = content;
           }
 
           const operation = {
@@ -586,6 +888,11 @@ export class OracleManager {
             writeContent = [readResponse.output];
           }
 
+          const content = await this.transformContent(task, writeContent!);
+          if (!content) {
+            return task;
+          }
+
           const updateOperation = {
             id: uuidv4(),
             type: OracleOperationTypeEnum.Update,
@@ -596,7 +903,7 @@ export class OracleManager {
                 task.dstContract.params !== undefined &&
                 task.dstContract.params?.length !== 0 // if params are empty, use the read response
                   ? task.dstContract.params
-                  : writeContent,
+                  : content,
             },
             status: OracleOperationStatusEnum.Pending,
             timestamp: Date.now(),
@@ -618,6 +925,78 @@ export class OracleManager {
     });
   }
 
+  /**
+   * Runs the transformation steps of a task over the data to be written on
+   * the destination network. Each run is kept in the task history as a
+   * TRANSFORM operation, holding the data it was given and the data it produced.
+   *
+   * @returns The data to write, or undefined if a FILTER step stopped the relay.
+   */
+  private async transformContent(
+    task: OracleTask,
+    content: Array<string | number>,
+  ): Promise<Array<string | number> | undefined> {
+    const fnTag = `${OracleManager.CLASS_NAME}#transformContent`;
+    if (!task.transformations?.length) {
+      return content;
+    }
+
+    const operation = {
+      id: uuidv4(),
+      type: OracleOperationTypeEnum.Transform,
+      networkId: task.dstNetworkId,
+      contract: { ...task.dstContract, params: content },
+      status: OracleOperationStatusEnum.Pending,
+      timestamp: Date.now(),
+      output: undefined,
+    } as OracleOperation;
+
+    try {
+      const result = await applyTransformations(
+        task,
+        content,
+        async (contract: BusinessLogicContract) => {
+          const response = await this.relayOperation(task, {
+            id: uuidv4(),
+            type: OracleOperationTypeEnum.Read,
+            networkId: task.srcNetworkId,
+            contract,
+            status: OracleOperationStatusEnum.Pending,
+            timestamp: Date.now(),
+            output: undefined,
+          } as OracleOperation);
+          return response.output;
+        },
+      );
+
+      if (!result.relay) {
+        this.logger.info(
+          `${fnTag}: Data of task ${task.taskID} filtered out by step ${result.filteredBy}, not relaying`,
+        );
+        updateOracleOperation(operation, OracleOperationStatusEnum.Skipped, {
+          output: `Filtered out by step ${result.filteredBy}`,
+        });
+        return undefined;
+      }
+
+      updateOracleOperation(operation, OracleOperationStatusEnum.Success, {
+        output: safeStableStringify(result.params),
+      });
+      return result.params;
+    } catch (error) {
+      this.logger.error(
+        `${fnTag}: Error transforming data of task ${task.taskID}: ${error}`,
+      );
+      updateOracleOperation(operation, OracleOperationStatusEnum.Failed, {
+        output: error.message,
+      });
+      throw error;
+    } finally {
+      task.operations.push(operation);
+      await this.saveOperation(task, operation);
+    }
+  }
+
   /**
    * Immediately dispatches an operation to the appropriate oracle.
    */
@@ -652,6 +1031,7 @@ export class OracleManager {
             response,
           );
           task.operations.push(operation);
+          await this.saveOperation(task, operation);
         } catch (error) {
           response = {
             output: error.message + ". " + error.cause.message,
@@ -666,6 +1046,7 @@ export class OracleManager {
             response,
           );
           task.operations.push(operation);
+          await this.saveOperation(task, operation);
           throw new OracleError(error);
         }
 
@@ -683,6 +1064,84 @@ export class OracleManager {
     });
   }
 
+  private async unscheduleTask(task: OracleTask): Promise<void> {
+    if (task.mode === OracleTaskModeEnum.Polling) {
+      this.schedulerManager.removePoller(task.taskID);
+    } else if (task.mode === OracleTaskModeEnum.EventListening) {
+      await this.schedulerManager.removeEventListener(task.taskID);
+    }
+  }
+
+  private async saveTask(task: OracleTask): Promise<void> {
+    if (!this.taskRepository) {
+      return;
+    }
+    const cursor = this.eventCursors.get(task.taskID);
+    const pendingCursor = this.pendingEventCursors.get(task.taskID);
+    await this.taskRepository.create({
+      taskID: task.taskID,
+      // operations are stored on their own, as they are relayed
+      task: safeStableStringify({ ...task, operations: [] }) as string,
+      status: task.status,
+      mode: task.mode,
+      eventCursor: cursor ? safeStableStringify(cursor) : null,
+      pendingEventCursor: pendingCursor
+        ? safeStableStringify(pendingCursor)
+        : null,
+      lastExecutedAt: this.lastExecutions.get(task.taskID) ?? null,
+      updatedAt: Date.now(),
+    });
+  }
+
+  // Failing to persist progress must not stop the task, so errors are only logged.
+  private async recordExecution(task: OracleTask): Promise<void> {
+    const fnTag = `${OracleManager.CLASS_NAME}#recordExecution()`;
+    const now = Date.now();
+    this.lastExecutions.set(task.taskID, now);
+    if (!this.taskRepository) {
+      return;
+    }
+    const cursor = this.eventCursors.get(task.taskID);
+    const pendingCursor = this.pendingEventCursors.get(task.taskID);
+    try {
+      await this.taskRepository.update(task.taskID, {
+        lastExecutedAt: now,
+        eventCursor: cursor ? safeStableStringify(cursor) : null,
+        pendingEventCursor: pendingCursor
+          ? safeStableStringify(pendingCursor)
+          : null,
+        updatedAt: now,
+      });
+    } catch (error) {
+      this.logger.error(
+        `${fnTag}: Error persisting progress of task ${task.taskID}: ${error}`,
+      );
+    }
+  }
+
+  private async saveOperation(
+    task: OracleTask,
+    operation: OracleOperation,
+  ): Promise<void> {
+    const fnTag = `${OracleManager.CLASS_NAME}#saveOperation()`;
+    if (!this.taskRepository) {
+      return;
+    }
+    try {
+      await this.taskRepository.createOperation({
+        id: operation.id,
+        taskID: task.taskID,
+        operation: safeStableStringify(operation),
+        status: operation.status,
+        timestamp: operation.timestamp,
+      });
+    } catch (error) {
+      this.logger.error(
+        `${fnTag}: Error persisting operation ${operation.id}: ${error}`,
+      );
+    }
+  }
+
   public async shutdown(): Promise<void> {
     const fnTag = `${OracleManager.CLASS_NAME}#shutdown`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
@@ -690,6 +1149,9 @@ export class OracleManager {
       try {
         this.logger.debug(`${fnTag}: Shutting down all listeners.`);
         await this.schedulerManager.clearAll();
+        // let the events being handled persist their cursor
+        await Promise.all(this.eventQueues.values());
+        this.eventQueues.clear();
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
         span.recordException(err);
@@ -3,6 +3,7 @@ import { SatpLoggerProvider as LoggerProvider } from "../../core/satp-logger-pro
 import { SATPLogger as Logger } from "../../core/satp-logger";
 import { OracleAbstract } from "./oracle-abstract";
 import { IOracleListenerBase } from "./oracle-types";
+import { OracleEventCursor } from "../../public-api";
 import { MonitorService } from "../../services/monitoring/monitor";
 import { context, SpanStatusCode } from "@opentelemetry/api";
 
@@ -45,8 +46,15 @@ export class OracleSchedulerManager {
    * @param id - Unique identifier for the listener.
    * @param callback - The function to be called periodically.
    * @param intervalMs - The interval in milliseconds for the polling.
+   * @param initialDelayMs - Optional delay before the first call, e.g. the
+   * remainder of the interval interrupted by a restart. Defaults to intervalMs.
    */
-  addPoller(id: string, callback: () => void, intervalMs: number): void {
+  addPoller(
+    id: string,
+    callback: () => void,
+    intervalMs: number,
+    initialDelayMs?: number,
+  ): void {
     const fnTag = `${OracleSchedulerManager.CLASS_NAME}#addPoller`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
     context.with(ctx, () => {
@@ -58,8 +66,21 @@ export class OracleSchedulerManager {
           throw new Error(`Poller with id "${id}" already exists.`);
         }
 
-        const interval = setInterval(callback, intervalMs);
-        this.pollers.set(id, interval);
+        if (initialDelayMs === undefined || initialDelayMs === intervalMs) {
+          this.pollers.set(id, setInterval(callback, intervalMs));
+          return;
+        }
+
+        // clearInterval also cancels the timeout, so removePoller works
+        // before the first call
+        const timeout = setTimeout(
+          () => {
+            this.pollers.set(id, setInterval(callback, intervalMs));
+            callback();
+          },
+          Math.max(initialDelayMs, 0),
+        );
+        this.pollers.set(id, timeout);
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
         span.recordException(err);
@@ -116,13 +137,16 @@ export class OracleSchedulerManager {
    * Adds an event listener for a specific oracle.
    * @param oracle - The oracle instance to listen to.
    * @param callback - The callback function to be called when the event occurs.
+   * @param fromCursor - Optional position of the last event processed; events
+   * emitted since then are replayed.
    */
   async addEventListener(
     oracle: OracleAbstract,
     taskId: string,
     args: IOracleListenerBase,
-    callback: (params: string[]) => void,
+    callback: (params: string[], cursor?: OracleEventCursor) => void,
     filter?: string[],
+    fromCursor?: OracleEventCursor,
   ): Promise<void> {
     const fnTag = `${OracleSchedulerManager.CLASS_NAME}#addEventListener`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
@@ -134,10 +158,11 @@ export class OracleSchedulerManager {
 
         const subscriber = await oracle.subscribeContractEvent(
           args,
-          (params: string[]) => {
-            callback(params);
+          (params: string[], cursor?: OracleEventCursor) => {
+            callback(params, cursor);
           },
           filter,
+          fromCursor,
         );
 
         this.eventListeners.set(taskId, subscriber);
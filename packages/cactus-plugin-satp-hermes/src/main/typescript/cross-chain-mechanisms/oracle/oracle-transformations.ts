@@ -0,0 +1,657 @@
+import {
+  BusinessLogicContract,
+  OracleTask,
+  OracleTaskModeEnum,
+  OracleTaskTypeEnum,
+  OracleTransformationStep,
+  OracleTransformationStepAggregationEnum,
+  OracleTransformationStepOperatorEnum,
+  OracleTransformationStepTargetTypeEnum,
+  OracleTransformationStepTypeEnum,
+} from "../../public-api";
+import {
+  InvalidTransformationError,
+  TransformationError,
+} from "../common/errors";
+
+type Param = string | number;
+
+type PathSegment =
+  | { kind: "key"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" };
+
+/**
+ * Outcome of running the transformation steps of a task.
+ */
+export interface IOracleTransformationResult {
+  // false when a FILTER step did not hold, the data is then not relayed
+  relay: boolean;
+  params: Param[];
+  // index of the FILTER step that stopped the relay
+  filteredBy?: number;
+}
+
+// the fields each type of step accepts, besides its type
+const STEP_FIELDS: Record<OracleTransformationStepTypeEnum, string[]> = {
+  [OracleTransformationStepTypeEnum.Extract]: ["path"],
+  [OracleTransformationStepTypeEnum.Convert]: ["targetType", "decimals"],
+  [OracleTransformationStepTypeEnum.Aggregate]: [
+    "path",
+    "sources",
+    "aggregation",
+  ],
+  [OracleTransformationStepTypeEnum.Filter]: ["path", "operator", "value"],
+};
+
+const NUMERIC_OPERATORS: string[] = [
+  OracleTransformationStepOperatorEnum.Gt,
+  OracleTransformationStepOperatorEnum.Gte,
+  OracleTransformationStepOperatorEnum.Lt,
+  OracleTransformationStepOperatorEnum.Lte,
+];
+
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+
+// extra decimal places kept when dividing, e.g. for averages
+const DIVISION_PRECISION = 18;
+
+// MATCHES runs a user given regular expression on ledger data, both are
+// bounded so that a pattern cannot stall the gateway
+export const MAX_MATCH_PATTERN_LENGTH = 256;
+export const MAX_MATCH_INPUT_LENGTH = 1024;
+
+/**
+ * Parses the subset of JSONPath supported by the transformation steps:
+ * `$`, `.key`, `['key']`, `[index]` (negative from the end) and `[*]`.
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  if (!path.startsWith("$")) {
+    throw new Error(`JSONPath ${path} must start with $`);
+  }
+  const segments: PathSegment[] = [];
+  const tokenizer =
+    /\.([A-Za-z_$][\w$-]*)|\.\*|\[\*\]|\[(-?\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/y;
+  tokenizer.lastIndex = 1;
+  while (tokenizer.lastIndex < path.length) {
+    const start = tokenizer.lastIndex;
+    const match = tokenizer.exec(path);
+    if (!match) {
+      throw new Error(`Unsupported JSONPath ${path} at position ${start}`);
+    }
+    if (match[1] !== undefined) {
+      segments.push({ kind: "key", key: match[1] });
+    } else if (match[2] !== undefined) {
+      segments.push({ kind: "index", index: Number(match[2]) });
+    } else if (match[3] !== undefined || match[4] !== undefined) {
+      const key = (match[3] ?? match[4]).replace(/\\(.)/g, "$1");
+      segments.push({ kind: "key", key });
+    } else {
+      segments.push({ kind: "wildcard" });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Selects the value at a JSONPath. Paths with a wildcard select the array of
+ * every match, other paths a single value or undefined.
+ */
+export function selectJsonPath(value: unknown, path: string): unknown {
+  const segments = parseJsonPath(path);
+  let matches: unknown[] = [value];
+  for (const segment of segments) {
+    matches = matches.flatMap((node): unknown[] => {
+      if (node === null || typeof node !== "object") {
+        return [];
+      }
+      if (segment.kind === "wildcard") {
+        return Object.values(node);
+      }
+      if (segment.kind === "index") {
+        if (!Array.isArray(node)) {
+          return [];
+        }
+        const index =
+          segment.index < 0 ? node.length + segment.index : segment.index;
+        return index in node ? [node[index]] : [];
+      }
+      return Object.prototype.hasOwnProperty.call(node, segment.key)
+        ? [(node as Record<string, unknown>)[segment.key]]
+        : [];
+    });
+  }
+  if (segments.some((segment) => segment.kind === "wildcard")) {
+    return matches;
+  }
+  return matches[0];
+}
+
+/**
+ * Checks the transformation steps of a task before it is registered or
+ * executed, so a malformed pipeline is rejected instead of failing on every
+ * relay.
+ *
+ * @throws {InvalidTransformationError} If a step is malformed.
+ */
+export function validateTransformations(task: OracleTask): void {
+  const steps: OracleTransformationStep[] = task.transformations ?? [];
+  if (steps.length === 0) {
+    return;
+  }
+  if (task.type === OracleTaskTypeEnum.Read) {
+    throw new InvalidTransformationError(
+      0,
+      "READ tasks do not write data, transformations are not allowed",
+    );
+  }
+  // the steps transform the data read or captured, never the params given
+  if (
+    task.type === OracleTaskTypeEnum.ReadAndUpdate &&
+    task.dstContract?.params?.length
+  ) {
+    throw new InvalidTransformationError(
+      0,
+      "READ_AND_UPDATE tasks with dstContract.params write those params, transformations are not allowed",
+    );
+  }
+  if (
+    task.type === OracleTaskTypeEnum.Update &&
+    task.mode !== OracleTaskModeEnum.EventListening
+  ) {
+    throw new InvalidTransformationError(
+      0,
+      "UPDATE tasks only transform the data of the events they listen to, transformations are not allowed",
+    );
+  }
+
+  steps.forEach((step, index) => {
+    const fields = STEP_FIELDS[step.type];
+    if (!fields) {
+      throw new InvalidTransformationError(
+        index,
+        `unknown step type ${step.type}`,
+      );
+    }
+    for (const [field, value] of Object.entries(step)) {
+      if (field !== "type" && value !== undefined && !fields.includes(field)) {
+        throw new InvalidTransformationError(
+          index,
+          `${field} is not allowed in a ${step.type} step`,
+        );
+      }
+    }
+
+    if (step.path !== undefined) {
+      try {
+        parseJsonPath(step.path);
+      } catch (error) {
+        throw new InvalidTransformationError(index, error.message, error);
+      }
+    }
+
+    switch (step.type) {
+      case OracleTransformationStepTypeEnum.Extract: {
+        if (!step.path) {
+          throw new InvalidTransformationError(
+            index,
+            "EXTRACT steps require a path",
+          );
+        }
+        break;
+      }
+      case OracleTransformationStepTypeEnum.Convert: {
+        if (step.targetType === undefined && step.decimals === undefined) {
+          throw new InvalidTransformationError(
+            index,
+            "CONVERT steps require a targetType or decimals",
+          );
+        }
+        if (
+          step.targetType !== undefined &&
+          !Object.values<string>(
+            OracleTransformationStepTargetTypeEnum,
+          ).includes(step.targetType)
+        ) {
+          throw new InvalidTransformationError(
+            index,
+            `unknown targetType ${step.targetType}`,
+          );
+        }
+        if (step.decimals !== undefined && !Number.isInteger(step.decimals)) {
+          throw new InvalidTransformationError(
+            index,
+            "decimals must be an integer",
+          );
+        }
+        break;
+      }
+      case OracleTransformationStepTypeEnum.Aggregate: {
+        if (
+          !step.aggregation ||
+          !Object.values<string>(
+            OracleTransformationStepAggregationEnum,
+          ).includes(step.aggregation)
+        ) {
+          throw new InvalidTransformationError(
+            index,
+            `AGGREGATE steps require one of the aggregations ${Object.values(OracleTransformationStepAggregationEnum).join(", ")}`,
+          );
+        }
+        if (step.sources?.length && !task.srcNetworkId) {
+          throw new InvalidTransformationError(
+            index,
+            "sources are read on the source network, which the task does not have",
+          );
+        }
+        for (const source of step.sources ?? []) {
+          if (!source.contractName || !source.methodName) {
+            throw new InvalidTransformationError(
+              index,
+              "sources require a contractName and a methodName",
+            );
+          }
+        }
+        break;
+      }
+      case OracleTransformationStepTypeEnum.Filter: {
+        if (
+          !step.operator ||
+          !Object.values<string>(OracleTransformationStepOperatorEnum).includes(
+            step.operator,
+          )
+        ) {
+          throw new InvalidTransformationError(
+            index,
+            `FILTER steps require one of the operators ${Object.values(OracleTransformationStepOperatorEnum).join(", ")}`,
+          );
+        }
+        if (step.operator === OracleTransformationStepOperatorEnum.Exists) {
+          break;
+        }
+        if (step.value === undefined) {
+          throw new InvalidTransformationError(
+            index,
+            `the ${step.operator} operator requires a value`,
+          );
+        }
+        if (
+          NUMERIC_OPERATORS.includes(step.operator) &&
+          !DECIMAL.test(step.value)
+        ) {
+          throw new InvalidTransformationError(
+            index,
+            `the ${step.operator} operator requires a decimal value`,
+          );
+        }
+        if (step.operator === OracleTransformationStepOperatorEnum.Matches) {
+          try {
+            new RegExp(step.value);
+            checkMatchPattern(step.value);
+          } catch (error) {
+            throw new InvalidTransformationError(
+              index,
+              `invalid regular expression ${step.value}`,
+              error,
+            );
+          }
+        }
+        break;
+      }
+    }
+  });
+}
+
+/**
+ * Runs the transformation steps of a task over the data read or captured on
+ * the source network, returning the parameters to write on the destination.
+ *
+ * @param task - The task, with steps already validated.
+ * @param input - The data read or captured on the source network.
+ * @param readSource - Reads a contract of an AGGREGATE step on the source network.
+ * @throws {TransformationError} If a step cannot be applied to the data.
+ */
+export async function applyTransformations(
+  task: OracleTask,
+  input: Param[],
+  readSource: (contract: BusinessLogicContract) => Promise<string | undefined>,
+): Promise<IOracleTransformationResult> {
+  const steps: OracleTransformationStep[] = task.transformations ?? [];
+  let value: unknown =
+    input.length === 1 ? parseParam(input[0]) : input.map(parseParam);
+
+  for (const [index, step] of steps.entries()) {
+    try {
+      switch (step.type) {
+        case OracleTransformationStepTypeEnum.Extract: {
+          value = selectJsonPath(value, step.path!);
+          if (value === undefined) {
+            throw new Error(`${step.path} did not match the data`);
+          }
+          break;
+        }
+        case OracleTransformationStepTypeEnum.Convert: {
+          value = Array.isArray(value)
+            ? value.map((item) => convert(item, step))
+            : convert(value, step);
+          break;
+        }
+        case OracleTransformationStepTypeEnum.Aggregate: {
+          const values = Array.isArray(value) ? [...value] : [value];
+          for (const source of step.sources ?? []) {
+            const output = await readSource(source);
+            if (output === undefined) {
+              throw new Error(`no data read from ${source.contractName}`);
+            }
+            const read = step.path
+              ? selectJsonPath(parseParam(output), step.path)
+              : parseParam(output);
+            values.push(...(Array.isArray(read) ? read : [read]));
+          }
+          value = aggregate(step.aggregation!, values.map(toDecimal));
+          break;
+        }
+        case OracleTransformationStepTypeEnum.Filter: {
+          const subject = step.path ? selectJsonPath(value, step.path) : value;
+          if (!holds(step, subject)) {
+            return { relay: false, params: [], filteredBy: index };
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      throw new TransformationError(
+        task.taskID,
+        `step ${index} (${step.type}): ${error.message}`,
+        error,
+      );
+    }
+  }
+
+  return { relay: true, params: toParams(value) };
+}
+
+// contract outputs and event data are strings, JSON documents are parsed
+function parseParam(param: unknown): unknown {
+  if (typeof param !== "string") {
+    return param;
+  }
+  try {
+    const parsed = JSON.parse(param);
+    return parsed !== null && typeof parsed === "object" ? parsed : param;
+  } catch {
+    return param;
+  }
+}
+
+function toParams(value: unknown): Param[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.map((item) => {
+    if (typeof item === "string" || typeof item === "number") {
+      return item;
+    }
+    if (typeof item === "boolean" || typeof item === "bigint") {
+      return item.toString();
+    }
+    if (item === undefined || item === null) {
+      throw new Error("cannot write an empty value");
+    }
+    return JSON.stringify(item);
+  });
+}
+
+function convert(value: unknown, step: OracleTransformationStep): unknown {
+  let converted = value;
+  if (step.decimals !== undefined) {
+    converted = shiftDecimal(toDecimal(converted), step.decimals);
+  }
+  switch (step.targetType) {
+    case OracleTransformationStepTargetTypeEnum.String:
+      return typeof converted === "object"
+        ? JSON.stringify(converted)
+        : String(converted);
+    case OracleTransformationStepTargetTypeEnum.Number: {
+      const number = Number(toDecimal(converted));
+      if (!Number.isFinite(number)) {
+        throw new Error(`${converted} is not a finite number`);
+      }
+      return number;
+    }
+    case OracleTransformationStepTargetTypeEnum.Integer:
+      // kept as a string of digits, so large token amounts keep their precision
+      return normalizeDecimal(toDecimal(converted).split(".")[0]);
+    case OracleTransformationStepTargetTypeEnum.Boolean: {
+      const text = String(converted).trim().toLowerCase();
+      if (text === "true" || text === "1") {
+        return true;
+      }
+      if (text === "false" || text === "0") {
+        return false;
+      }
+      throw new Error(`${converted} is not a boolean`);
+    }
+    default:
+      return converted;
+  }
+}
+
+function holds(step: OracleTransformationStep, subject: unknown): boolean {
+  const operand = step.value!;
+  switch (step.operator) {
+    case OracleTransformationStepOperatorEnum.Exists:
+      return (
+        subject !== undefined &&
+        subject !== null &&
+        !(Array.isArray(subject) && subject.length === 0)
+      );
+    case OracleTransformationStepOperatorEnum.Eq:
+      return equals(subject, operand);
+    case OracleTransformationStepOperatorEnum.Neq:
+      return !equals(subject, operand);
+    case OracleTransformationStepOperatorEnum.Gt:
+      return compareDecimals(toDecimal(subject), operand) > 0;
+    case OracleTransformationStepOperatorEnum.Gte:
+      return compareDecimals(toDecimal(subject), operand) >= 0;
+    case OracleTransformationStepOperatorEnum.Lt:
+      return compareDecimals(toDecimal(subject), operand) < 0;
+    case OracleTransformationStepOperatorEnum.Lte:
+      return compareDecimals(toDecimal(subject), operand) <= 0;
+    case OracleTransformationStepOperatorEnum.Matches: {
+      const text =
+        typeof subject === "object" ? JSON.stringify(subject) : String(subject);
+      if (text.length > MAX_MATCH_INPUT_LENGTH) {
+        throw new Error(
+          `cannot match more than ${MAX_MATCH_INPUT_LENGTH} characters, got ${text.length}`,
+        );
+      }
+      return new RegExp(operand).test(text);
+    }
+    default:
+      throw new Error(`unknown operator ${step.operator}`);
+  }
+}
+
+/**
+ * Rejects the regular expressions that can take exponential time to match:
+ * patterns longer than `MAX_MATCH_PATTERN_LENGTH`, backreferences, and
+ * repeated groups that contain a quantifier or an alternation, such as
+ * `(a+)+` or `(a|ab)*`.
+ */
+export function checkMatchPattern(pattern: string): void {
+  if (pattern.length > MAX_MATCH_PATTERN_LENGTH) {
+    throw new Error(
+      `regular expressions are limited to ${MAX_MATCH_PATTERN_LENGTH} characters`,
+    );
+  }
+  // whether each open group contains a quantifier or an alternation
+  const groups: boolean[] = [false];
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) {
+        throw new Error("backreferences are not allowed");
+      }
+      i++;
+    } else if (char === "[") {
+      i++;
+      if (pattern[i] === "^") {
+        i++;
+      }
+      // a ] right after [ or [^ is a literal
+      if (pattern[i] === "]") {
+        i++;
+      }
+      while (i < pattern.length && pattern[i] !== "]") {
+        i += pattern[i] === "\\" ? 2 : 1;
+      }
+    } else if (char === "(") {
+      groups.push(false);
+      if (pattern[i + 1] === "?") {
+        // skip the (?: (?= (?! (?<= (?<! and (?<name> prefixes
+        const prefix = /^\?(<[^=!][^>]*>|<[=!]|[:=!])/.exec(
+          pattern.slice(i + 1),
+        );
+        i += prefix ? prefix[0].length : 1;
+      }
+    } else if (char === ")") {
+      const inner = groups.pop() as boolean;
+      const repeated = /^(\*|\+|\{\d*,\d*\})/.test(pattern.slice(i + 1));
+      if (repeated && inner) {
+        throw new Error(
+          "repeated groups must not contain quantifiers or alternations",
+        );
+      }
+      groups[groups.length - 1] ||= inner || repeated;
+    } else if (
+      char === "|" ||
+      char === "*" ||
+      char === "+" ||
+      (char === "{" && /^\{\d*,\d*\}/.test(pattern.slice(i)))
+    ) {
+      groups[groups.length - 1] = true;
+    }
+  }
+}
+
+// numbers are compared by value, so "1.50" equals 1.5
+function equals(subject: unknown, operand: string): boolean {
+  const text =
+    typeof subject === "object" ? JSON.stringify(subject) : String(subject);
+  if (DECIMAL.test(text) && DECIMAL.test(operand)) {
+    return compareDecimals(text, operand) === 0;
+  }
+  return text === operand;
+}
+
+function toDecimal(value: unknown): string {
+  const text = typeof value === "number" ? numberToDecimal(value) : value;
+  if (typeof text !== "string" || !DECIMAL.test(text.trim())) {
+    throw new Error(`${JSON.stringify(value)} is not a decimal number`);
+  }
+  return text.trim();
+}
+
+function numberToDecimal(value: number): string {
+  if (!Number.isFinite(value)) {
+    return String(value);
+  }
+  const [mantissa, exponent] = value.toExponential().split("e");
+  return shiftDecimal(mantissa, Number(exponent));
+}
+
+// moves the decimal point of a decimal string, without rounding
+function shiftDecimal(value: string, places: number): string {
+  const negative = value.startsWith("-");
+  const [integer, fraction = ""] = value.replace("-", "").split(".");
+  const digits = integer + fraction;
+  const point = integer.length + places;
+  let shifted: string;
+  if (point <= 0) {
+    shifted = `0.${"0".repeat(-point)}${digits}`;
+  } else if (point >= digits.length) {
+    shifted = digits + "0".repeat(point - digits.length);
+  } else {
+    shifted = `${digits.slice(0, point)}.${digits.slice(point)}`;
+  }
+  return normalizeDecimal((negative ? "-" : "") + shifted);
+}
+
+function normalizeDecimal(value: string): string {
+  const negative = value.startsWith("-");
+  const [integer, fraction = ""] = value.replace("-", "").split(".");
+  const trimmedInteger = integer.replace(/^0+(?=\d)/, "") || "0";
+  const trimmedFraction = fraction.replace(/0+$/, "");
+  const normalized = trimmedFraction
+    ? `${trimmedInteger}.${trimmedFraction}`
+    : trimmedInteger;
+  return negative && normalized.replace(/[0.]/g, "") !== ""
+    ? `-${normalized}`
+    : normalized;
+}
+
+// decimal strings as integers sharing the same scale
+function toScaled(values: string[]): { scaled: bigint[]; scale: number } {
+  const scale = Math.max(
+    0,
+    ...values.map((value) => (value.split(".")[1] ?? "").length),
+  );
+  const scaled = values.map((value) => {
+    const [integer, fraction = ""] = value.split(".");
+    return BigInt(integer + fraction.padEnd(scale, "0"));
+  });
+  return { scaled, scale };
+}
+
+function fromScaled(value: bigint, scale: number): string {
+  const negative = value < 0n;
+  const digits = (negative ? -value : value)
+    .toString()
+    .padStart(scale + 1, "0");
+  const point = digits.length - scale;
+  return normalizeDecimal(
+    `${negative ? "-" : ""}${digits.slice(0, point)}.${digits.slice(point)}`,
+  );
+}
+
+function compareDecimals(a: string, b: string): number {
+  const {
+    scaled: [x, y],
+  } = toScaled([a, b]);
+  return x === y ? 0 : x > y ? 1 : -1;
+}
+
+function aggregate(
+  aggregation: OracleTransformationStepAggregationEnum,
+  values: string[],
+): string {
+  if (values.length === 0) {
+    throw new Error("no values to aggregate");
+  }
+  const { scaled, scale } = toScaled(values);
+  const sorted = [...scaled].sort((a, b) => (a === b ? 0 : a < b ? -1 : 1));
+  const sum = scaled.reduce((total, value) => total + value, 0n);
+  const divide = (dividend: bigint, divisor: bigint) =>
+    fromScaled(
+      (dividend * 10n ** BigInt(DIVISION_PRECISION)) / divisor,
+      scale + DIVISION_PRECISION,
+    );
+
+  switch (aggregation) {
+    case OracleTransformationStepAggregationEnum.Sum:
+      return fromScaled(sum, scale);
+    case OracleTransformationStepAggregationEnum.Average:
+      return divide(sum, BigInt(values.length));
+    case OracleTransformationStepAggregationEnum.Min:
+      return fromScaled(sorted[0], scale);
+    case OracleTransformationStepAggregationEnum.Max:
+      return fromScaled(sorted[sorted.length - 1], scale);
+    case OracleTransformationStepAggregationEnum.Median: {
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 1
+        ? fromScaled(sorted[middle], scale)
+        : divide(sorted[middle - 1] + sorted[middle], 2n);
+    }
+    default:
+      throw new Error(`unknown aggregation ${aggregation}`);
+  }
+}
@@ -1,4 +1,5 @@
 import {
+  OracleEventCursor,
   OracleOperation,
   OracleOperationStatusEnum,
   OracleResponse,
@@ -12,3 +13,17 @@ export function updateOracleOperation(
   operation.status = newStatus;
   operation.output = output;
 }
+
+// whether an event comes after the cursor in ledger order
+export function isAfterCursor(
+  cursor: OracleEventCursor,
+  last: OracleEventCursor | undefined,
+): boolean {
+  if (!last) {
+    return true;
+  }
+  if (cursor.blockNumber !== last.blockNumber) {
+    return cursor.blockNumber > last.blockNumber;
+  }
+  return cursor.logIndex > last.logIndex;
+}
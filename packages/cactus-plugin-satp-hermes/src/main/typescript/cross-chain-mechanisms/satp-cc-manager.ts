@@ -9,11 +9,13 @@ import { GatewayOrchestrator } from "../services/gateway/gateway-orchestrator";
 import { OracleManager } from "./oracle/oracle-manager";
 import { MonitorService } from "../services/monitoring/monitor";
 import { context, SpanStatusCode } from "@opentelemetry/api";
+import type { IOracleTaskRepository } from "../database/repository/interfaces/repository";
 export interface ISATPCrossChainManagerOptions {
   orquestrator: GatewayOrchestrator;
   logLevel?: LogLevelDesc;
   ontologyOptions?: IOntologyManagerOptions;
   monitorService: MonitorService;
+  oracleTaskRepository?: IOracleTaskRepository;
 }
 
 export interface ICrossChainMechanismsOptions {
@@ -97,6 +99,7 @@ export class SATPCrossChainManager {
           bungee: undefined,
           initialTasks: [],
           monitorService: this.monitorService,
+          taskRepository: options.oracleTaskRepository,
         });
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
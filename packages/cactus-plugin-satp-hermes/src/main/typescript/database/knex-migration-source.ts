@@ -3,6 +3,8 @@ import { Err, Ok, Result } from "ts-results";
 
 import * as create_logs_table from "./migrations/20220331132128_create_logs_table";
 import * as create_remote_logs_table from "./migrations/20240130234303_create_remote_logs_table";
+import * as create_oracle_tasks_table from "./migrations/20261019093000_create_oracle_tasks_table";
+import * as create_gateway_keys_table from "./migrations/20261019110000_create_gateway_keys_table";
 
 export interface IKnexMigration {
   up(knex: Readonly<Knex>): Promise<void>;
@@ -36,6 +38,8 @@ export function createMigrationSource(): IKnexMigrationSource<IKnexMigration> {
 
   registerMigration(migrations, create_logs_table);
   registerMigration(migrations, create_remote_logs_table);
+  registerMigration(migrations, create_oracle_tasks_table);
+  registerMigration(migrations, create_gateway_keys_table);
 
   const kms: IKnexMigrationSource<IKnexMigration> = {
     getMigrations: async (): Promise<string[]> => {
@@ -0,0 +1,143 @@
+import type { JsObjectSigner } from "@hyperledger/cactus-common";
+import type { LocalLog } from "../core/types";
+import type { RotatableObjectSigner } from "../core/key-rotation/rotatable-signer";
+import type { ILocalLogRepository } from "./repository/interfaces/repository";
+import { LogChainVerificationError } from "../core/errors/satp-errors";
+import {
+  chainLogs,
+  checkLogChainHeadSignature,
+  GENESIS_HASH,
+  isVerifiableLocalLogRepository,
+  signLogChainHead,
+  toLocalLog,
+  verifyLogChain,
+  type ChainedLocalLog,
+  type LogChainHeadSignature,
+  type LogChainVerification,
+} from "./log-chain";
+
+export const SESSION_LOG_BUNDLE_VERSION = 1;
+
+/**
+ * Session logs exported from a gateway, chained so that the gateway
+ * importing them can detect modified or missing entries. The head is signed
+ * by the exporting gateway.
+ */
+export interface SessionLogBundle extends LogChainHeadSignature {
+  version: number;
+  exportedAt: string;
+  sessionIds: string[];
+  // hash of the last entry, so that truncated bundles do not verify
+  head: string;
+  entries: ChainedLocalLog[];
+}
+
+export interface SessionLogImportResult {
+  imported: number;
+  // entries the repository already had
+  skipped: number;
+}
+
+const bySequence = (a: LocalLog, b: LocalLog) =>
+  Number(a.sequenceNumber) - Number(b.sequenceNumber) ||
+  Number(a.timestamp) - Number(b.timestamp);
+
+export async function exportSessionLogs(
+  repository: ILocalLogRepository,
+  sessionIds: string[],
+  signer: RotatableObjectSigner,
+): Promise<SessionLogBundle> {
+  const fnTag = "exportSessionLogs()";
+  // do not carry a tampered log over to another gateway
+  if (isVerifiableLocalLogRepository(repository)) {
+    const verification = await repository.verify();
+    if (!verification.valid) {
+      throw new LogChainVerificationError(fnTag, verification.issues);
+    }
+  }
+
+  const logs: LocalLog[] = [];
+  for (const sessionId of sessionIds) {
+    const sessionLogs = await repository.fetchLogsFromSequence(sessionId, -1);
+    logs.push(...sessionLogs.sort(bySequence));
+  }
+  const entries = chainLogs(logs);
+  const head = entries.length ? entries[entries.length - 1].hash : GENESIS_HASH;
+
+  return {
+    version: SESSION_LOG_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessionIds,
+    head,
+    ...signLogChainHead(head, signer),
+    entries,
+  };
+}
+
+/**
+ * Checks the chain of a bundle, and that its head is signed with one of
+ * `trustedPubKeys`, the keys of the gateway that exported it.
+ */
+export function verifySessionLogBundle(
+  bundle: SessionLogBundle,
+  trustedPubKeys: string[],
+  verifier: JsObjectSigner,
+): LogChainVerification {
+  if (bundle.version !== SESSION_LOG_BUNDLE_VERSION) {
+    return {
+      valid: false,
+      entries: bundle.entries?.length ?? 0,
+      head: bundle.head,
+      issues: [
+        {
+          index: 0,
+          reason: `unsupported bundle version ${bundle.version}`,
+        },
+      ],
+    };
+  }
+
+  const verification = verifyLogChain(bundle.entries);
+  if (verification.head !== bundle.head) {
+    verification.issues.push({
+      index: bundle.entries.length,
+      reason: "bundle head does not match its last entry, entries are missing",
+    });
+    verification.valid = false;
+  }
+  const reason = checkLogChainHeadSignature(
+    bundle.head,
+    bundle,
+    trustedPubKeys,
+    verifier,
+  );
+  if (reason) {
+    verification.issues.push({ index: bundle.entries.length, reason });
+    verification.valid = false;
+  }
+  return verification;
+}
+
+export async function importSessionLogs(
+  repository: ILocalLogRepository,
+  bundle: SessionLogBundle,
+  trustedPubKeys: string[],
+  verifier: JsObjectSigner,
+): Promise<SessionLogImportResult> {
+  const fnTag = "importSessionLogs()";
+  const verification = verifySessionLogBundle(bundle, trustedPubKeys, verifier);
+  if (!verification.valid) {
+    throw new LogChainVerificationError(fnTag, verification.issues);
+  }
+
+  const result: SessionLogImportResult = { imported: 0, skipped: 0 };
+  for (const entry of bundle.entries) {
+    if (await repository.readById(entry.key)) {
+      result.skipped++;
+      continue;
+    }
+    await repository.create(toLocalLog(entry));
+    result.imported++;
+  }
+  return result;
+}
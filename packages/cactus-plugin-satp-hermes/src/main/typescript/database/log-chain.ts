@@ -0,0 +1,163 @@
+import type { JsObjectSigner } from "@hyperledger/cactus-common";
+import { SHA256 } from "crypto-js";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import type { LocalLog } from "../core/types";
+import type { RotatableObjectSigner } from "../core/key-rotation/rotatable-signer";
+import { bufArray2HexStr, sign } from "../gateway-utils";
+import type { ILocalLogRepository } from "./repository/interfaces/repository";
+
+// the previous hash the first entry of a chain commits to
+export const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * A local log entry that commits to the hash of the entry before it, so that
+ * changing, removing or reordering entries breaks the chain.
+ */
+export interface ChainedLocalLog extends LocalLog {
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * The head of a chain signed by the gateway keeping it. The head commits to
+ * every entry before it, so a chain rewritten from scratch does not verify
+ * without the gateway key.
+ */
+export interface LogChainHeadSignature {
+  signerPubKey: string;
+  signature: string;
+}
+
+export type SignedChainedLocalLog = ChainedLocalLog & LogChainHeadSignature;
+
+export interface LogChainIssue {
+  index: number;
+  key?: string;
+  reason: string;
+}
+
+export interface LogChainVerification {
+  valid: boolean;
+  entries: number;
+  // hash of the last entry, GENESIS_HASH for an empty chain
+  head: string;
+  issues: LogChainIssue[];
+}
+
+// local log repositories that keep their entries in a hash chain
+export interface IVerifiableLocalLogRepository extends ILocalLogRepository {
+  // `anchor` is a head recorded earlier, that the chain must still contain
+  verify(anchor?: string): Promise<LogChainVerification>;
+}
+
+export function isVerifiableLocalLogRepository(
+  repository: ILocalLogRepository,
+): repository is IVerifiableLocalLogRepository {
+  return (
+    typeof (repository as IVerifiableLocalLogRepository).verify === "function"
+  );
+}
+
+// the fields of a log entry, as stored by any of the log repositories
+export function toLocalLog(log: LocalLog): LocalLog {
+  return {
+    sessionId: log.sessionId,
+    type: log.type,
+    key: log.key,
+    operation: log.operation,
+    timestamp:
+      log.timestamp === undefined || log.timestamp === null
+        ? undefined
+        : String(log.timestamp),
+    data: log.data,
+    sequenceNumber: Number(log.sequenceNumber),
+  };
+}
+
+export function computeLogHash(log: LocalLog, prevHash: string): string {
+  return SHA256(prevHash + safeStableStringify(toLocalLog(log))).toString();
+}
+
+export function chainLogs(
+  logs: LocalLog[],
+  prevHash: string = GENESIS_HASH,
+): ChainedLocalLog[] {
+  return logs.map((log) => {
+    const hash = computeLogHash(log, prevHash);
+    const entry = { ...toLocalLog(log), prevHash, hash };
+    prevHash = hash;
+    return entry;
+  });
+}
+
+export function signLogChainHead(
+  head: string,
+  signer: RotatableObjectSigner,
+): LogChainHeadSignature {
+  return {
+    signerPubKey: signer.pubKey,
+    signature: bufArray2HexStr(sign(signer, head)),
+  };
+}
+
+/**
+ * Returns why the signature of `head` cannot be trusted, or undefined if it
+ * was made with one of `trustedPubKeys`.
+ */
+export function checkLogChainHeadSignature(
+  head: string,
+  headSignature: Partial<LogChainHeadSignature>,
+  trustedPubKeys: string[],
+  verifier: JsObjectSigner,
+): string | undefined {
+  const { signerPubKey, signature } = headSignature;
+  if (!signerPubKey || !signature) {
+    return "head is not signed";
+  }
+  if (!trustedPubKeys.includes(signerPubKey)) {
+    return `head is signed with the untrusted key ${signerPubKey}`;
+  }
+  if (
+    !verifier.verify(
+      head,
+      new Uint8Array(Buffer.from(signature, "hex")),
+      new Uint8Array(Buffer.from(signerPubKey, "hex")),
+    )
+  ) {
+    return "head signature does not match, the chain was rewritten";
+  }
+  return undefined;
+}
+
+export function verifyLogChain(
+  entries: ChainedLocalLog[],
+  prevHash: string = GENESIS_HASH,
+): LogChainVerification {
+  const issues: LogChainIssue[] = [];
+  entries.forEach((entry, index) => {
+    if (entry.prevHash !== prevHash) {
+      issues.push({
+        index,
+        key: entry.key,
+        reason:
+          "entry does not follow the previous one, entries are missing or out of order",
+      });
+    }
+    if (computeLogHash(entry, entry.prevHash) !== entry.hash) {
+      issues.push({
+        index,
+        key: entry.key,
+        reason: "entry does not match its hash, its content was modified",
+      });
+    }
+    // keep following the chain to report every break, not only the first
+    prevHash = entry.hash;
+  });
+
+  return {
+    valid: issues.length === 0,
+    entries: entries.length,
+    head: prevHash,
+    issues,
+  };
+}
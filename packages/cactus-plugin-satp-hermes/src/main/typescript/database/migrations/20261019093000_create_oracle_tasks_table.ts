@@ -0,0 +1,30 @@
+import { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("oracle_tasks", (table) => {
+    table.string("taskID").notNullable().primary();
+    table.text("task").notNullable();
+    table.string("status").notNullable();
+    table.string("mode").notNullable();
+    table.text("eventCursor").nullable();
+    table.text("pendingEventCursor").nullable();
+    table.bigInteger("lastExecutedAt").nullable();
+    table.bigInteger("updatedAt").notNullable();
+  });
+  await knex.schema.createTable("oracle_operations", (table) => {
+    table.string("id").notNullable().primary();
+    table.string("taskID").notNullable().index();
+    table.text("operation").notNullable();
+    table.string("status").notNullable();
+    table.bigInteger("timestamp").notNullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable("oracle_operations");
+  await knex.schema.dropTable("oracle_tasks");
+}
+
+export function getId(): Readonly<string> {
+  return "20261019093000_create_oracle_tasks_table";
+}
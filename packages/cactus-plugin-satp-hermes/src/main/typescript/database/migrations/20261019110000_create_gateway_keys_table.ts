@@ -0,0 +1,21 @@
+import { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable("gateway_keys", (table) => {
+    table.string("publicKey").notNullable().primary();
+    table.string("gatewayId").notNullable().index();
+    table.bigInteger("activeSince").notNullable();
+    table.bigInteger("expiresAt").nullable();
+    table.string("previousPublicKey").nullable();
+    table.text("keyChangeSignature").nullable();
+    table.text("privateKey").nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable("gateway_keys");
+}
+
+export function getId(): Readonly<string> {
+  return "20261019110000_create_gateway_keys_table";
+}
@@ -0,0 +1,231 @@
+import fs from "fs-extra";
+import path from "path";
+import type { LocalLog } from "../../core/types";
+import { INTERVENTION_LOG_TYPE } from "../../core/constants";
+import type { RotatableObjectSigner } from "../../core/key-rotation/rotatable-signer";
+import { AppendOnlyLogError } from "../../core/errors/satp-errors";
+import {
+  chainLogs,
+  checkLogChainHeadSignature,
+  GENESIS_HASH,
+  signLogChainHead,
+  verifyLogChain,
+  type IVerifiableLocalLogRepository,
+  type LogChainIssue,
+  type LogChainVerification,
+  type SignedChainedLocalLog,
+} from "../log-chain";
+
+/**
+ * Local log repository backed by an append-only file, one JSON entry per
+ * line, where every entry commits to the hash of the previous one. Every
+ * entry is signed with the gateway key, so each one is a signed head of the
+ * chain up to it.
+ */
+export class HashChainLocalLogRepository
+  implements IVerifiableLocalLogRepository
+{
+  public static readonly CLASS_NAME = "HashChainLocalLogRepository";
+  // entries live in a file, there is no database connection
+  readonly database = undefined;
+  private entries?: SignedChainedLocalLog[];
+  // appends are serialized so that every entry chains to the one before it
+  private appending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath - The file holding the chain.
+   * @param signer - Signs the entries appended, with the current gateway key.
+   * @param trustedPubKeys - The keys entries may be signed with, the current
+   * and previous keys of the gateway. Only the current key by default.
+   */
+  public constructor(
+    public readonly filePath: string,
+    private readonly signer: RotatableObjectSigner,
+    private readonly trustedPubKeys: () => string[] = () => [signer.pubKey],
+  ) {}
+
+  public get className(): string {
+    return HashChainLocalLogRepository.CLASS_NAME;
+  }
+
+  public getCreated(): boolean {
+    return true;
+  }
+
+  private async readLines(): Promise<string[]> {
+    if (!(await fs.pathExists(this.filePath))) {
+      return [];
+    }
+    const content = await fs.readFile(this.filePath, "utf-8");
+    return content.split("\n").filter((line) => line.trim() !== "");
+  }
+
+  private async load(): Promise<SignedChainedLocalLog[]> {
+    if (!this.entries) {
+      const fnTag = `${this.className}#load()`;
+      this.entries = (await this.readLines()).map((line, index) => {
+        try {
+          return JSON.parse(line) as SignedChainedLocalLog;
+        } catch {
+          throw new Error(
+            `${fnTag}, entry ${index} of ${this.filePath} is not valid JSON`,
+          );
+        }
+      });
+    }
+    return this.entries;
+  }
+
+  async readById(logKey: string): Promise<LocalLog> {
+    const entries = await this.load();
+    return entries.find((entry) => entry.key === logKey) as LocalLog;
+  }
+
+  async readLastestLog(sessionID: string): Promise<LocalLog> {
+    const entries = await this.load();
+    let latest: LocalLog | undefined;
+    for (const entry of entries) {
+      if (
+        entry.sessionId === sessionID &&
+        entry.type !== INTERVENTION_LOG_TYPE &&
+        (!latest || Number(entry.timestamp) >= Number(latest.timestamp))
+      ) {
+        latest = entry;
+      }
+    }
+    return latest as LocalLog;
+  }
+
+  async readLogsMoreRecentThanTimestamp(
+    timestamp: string,
+  ): Promise<LocalLog[]> {
+    const entries = await this.load();
+    return entries.filter(
+      (entry) =>
+        Number(entry.timestamp) > Number(timestamp) &&
+        !entry.type.includes("proof"),
+    );
+  }
+
+  // the latest entry of every session, other than proofs and interventions
+  async readLogsNotProofs(): Promise<LocalLog[]> {
+    const entries = await this.load();
+    const latest = new Map<string, LocalLog>();
+    for (const entry of entries) {
+      if (entry.type === "proof" || entry.type === INTERVENTION_LOG_TYPE) {
+        continue;
+      }
+      const current = latest.get(entry.sessionId);
+      if (!current || Number(entry.timestamp) >= Number(current.timestamp)) {
+        latest.set(entry.sessionId, entry);
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  async fetchLogsFromSequence(
+    sessionId: string,
+    sequenceNumber: number,
+  ): Promise<LocalLog[]> {
+    const entries = await this.load();
+    return entries.filter(
+      (entry) =>
+        entry.sessionId === sessionId &&
+        Number(entry.sequenceNumber) > sequenceNumber,
+    );
+  }
+
+  create(log: LocalLog): Promise<LocalLog> {
+    const fnTag = `${this.className}#create()`;
+    const append = this.appending.then(async () => {
+      const entries = await this.load();
+      if (entries.some((entry) => entry.key === log.key)) {
+        throw new Error(`${fnTag}, a log with key ${log.key} already exists`);
+      }
+      const prevHash = entries.length
+        ? entries[entries.length - 1].hash
+        : GENESIS_HASH;
+      const [chained] = chainLogs([log], prevHash);
+      const entry = {
+        ...chained,
+        ...signLogChainHead(chained.hash, this.signer),
+      };
+      await fs.mkdirp(path.dirname(this.filePath));
+      await fs.appendFile(this.filePath, JSON.stringify(entry) + "\n");
+      entries.push(entry);
+      return log;
+    });
+    this.appending = append.catch(() => undefined);
+    return append;
+  }
+
+  async deleteBySessionId(sessionID: string): Promise<number> {
+    const fnTag = `${this.className}#deleteBySessionId()`;
+    throw new AppendOnlyLogError(
+      fnTag,
+      `cannot delete the logs of session ${sessionID}`,
+    );
+  }
+
+  // checks the chain as it is on disk, not as it was loaded
+  async verify(anchor?: string): Promise<LogChainVerification> {
+    await this.appending;
+    const lines = await this.readLines();
+    const entries: SignedChainedLocalLog[] = [];
+    // line of the file each parsed entry was read from
+    const lineOf: number[] = [];
+    const issues: LogChainIssue[] = [];
+    lines.forEach((line, index) => {
+      try {
+        entries.push(JSON.parse(line));
+        lineOf.push(index);
+      } catch {
+        issues.push({ index, reason: "entry is not valid JSON" });
+      }
+    });
+
+    const verification = verifyLogChain(entries);
+    issues.push(
+      ...verification.issues.map((issue) => ({
+        ...issue,
+        index: lineOf[issue.index],
+      })),
+    );
+    const trustedPubKeys = this.trustedPubKeys();
+    entries.forEach((entry, index) => {
+      const reason = checkLogChainHeadSignature(
+        entry.hash,
+        entry,
+        trustedPubKeys,
+        this.signer,
+      );
+      if (reason) {
+        issues.push({ index: lineOf[index], key: entry.key, reason });
+      }
+    });
+    // the signatures do not reveal entries removed from the end of the chain
+    if (anchor && !entries.some((entry) => entry.hash === anchor)) {
+      issues.push({
+        index: lines.length,
+        reason: `chain does not contain the head ${anchor}, entries are missing`,
+      });
+    }
+    return {
+      ...verification,
+      valid: issues.length === 0,
+      entries: lines.length,
+      issues: issues.sort((a, b) => a.index - b.index),
+    };
+  }
+
+  async reset() {
+    await this.appending;
+    await fs.remove(this.filePath);
+    this.entries = [];
+  }
+
+  async destroy() {
+    await this.appending;
+    this.entries = undefined;
+  }
+}
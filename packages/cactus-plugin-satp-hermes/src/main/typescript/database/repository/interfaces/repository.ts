@@ -1,4 +1,11 @@
-import type { LocalLog, RemoteLog } from "../../../core/types";
+import type { Knex } from "knex";
+import type {
+  GatewayKeyEntry,
+  LocalLog,
+  OracleOperationEntry,
+  OracleTaskEntry,
+  RemoteLog,
+} from "../../../core/types";
 
 export interface IRepository<T, K> {
   readById(id: K): Promise<T>;
@@ -14,7 +21,8 @@ export interface ILocalLogRepository extends IRepository<LocalLog, string> {
   readLogsMoreRecentThanTimestamp(timestamp: string): Promise<LocalLog[]>;
   readLastestLog(sessionID: string): Promise<LocalLog>;
   create(log: LocalLog): Promise<LocalLog>;
-  deleteBySessionId(log: string): any;
+  // resolves with the number of logs deleted
+  deleteBySessionId(sessionID: string): Promise<number>;
   fetchLogsFromSequence(
     sessionId: string,
     sequenceNumber: number,
@@ -31,3 +39,33 @@ export interface IRemoteLogRepository extends IRepository<RemoteLog, string> {
   destroy(): any;
   reset(): any;
 }
+
+export interface IOracleTaskRepository
+  extends IRepository<OracleTaskEntry, string> {
+  // only set by the knex repository
+  database?: Knex;
+  readById(taskID: string): Promise<OracleTaskEntry>;
+  readAll(): Promise<OracleTaskEntry[]>;
+  create(entry: OracleTaskEntry): Promise<void>;
+  update(
+    taskID: string,
+    fields: Partial<Omit<OracleTaskEntry, "taskID">>,
+  ): Promise<void>;
+  createOperation(entry: OracleOperationEntry): Promise<void>;
+  readOperations(taskID: string): Promise<OracleOperationEntry[]>;
+  destroy(): Promise<void>;
+  reset(): Promise<void>;
+}
+
+export interface IGatewayKeyRepository
+  extends IRepository<GatewayKeyEntry, string> {
+  // only set by the knex repository
+  database?: Knex;
+  readById(publicKey: string): Promise<GatewayKeyEntry>;
+  readAll(): Promise<GatewayKeyEntry[]>;
+  create(entry: GatewayKeyEntry): Promise<void>;
+  // stores all entries or none of them
+  createAll(entries: GatewayKeyEntry[]): Promise<void>;
+  destroy(): Promise<void>;
+  reset(): Promise<void>;
+}
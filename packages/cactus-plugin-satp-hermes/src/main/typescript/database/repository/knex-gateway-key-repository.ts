@@ -0,0 +1,56 @@
+import type { GatewayKeyEntry } from "../../core/types";
+import type { IGatewayKeyRepository } from "./interfaces/repository";
+import knex, { type Knex } from "knex";
+import { knexLocalInstance } from "../knexfile";
+import { createMigrationSource } from "../knex-migration-source";
+
+export class KnexGatewayKeyRepository implements IGatewayKeyRepository {
+  readonly database: Knex;
+
+  public constructor(config: Knex.Config | undefined) {
+    const envName = process.env.ENVIRONMENT || "development";
+    const configFile = knexLocalInstance[envName];
+
+    config = config || configFile;
+
+    const migrationSource = createMigrationSource();
+
+    config = {
+      ...config,
+      migrations: {
+        migrationSource: migrationSource,
+      },
+    } as Knex.Config;
+    this.database = knex(config);
+  }
+
+  getKeysTable(): Knex.QueryBuilder {
+    return this.database("gateway_keys");
+  }
+
+  readById(publicKey: string): Promise<GatewayKeyEntry> {
+    return this.getKeysTable().where({ publicKey: publicKey }).first();
+  }
+
+  readAll(): Promise<GatewayKeyEntry[]> {
+    return this.getKeysTable().orderBy("activeSince", "asc");
+  }
+
+  async create(entry: GatewayKeyEntry): Promise<void> {
+    await this.getKeysTable().insert(entry).onConflict("publicKey").merge();
+  }
+
+  // a single insert statement, so a rotation is never stored half-way
+  async createAll(entries: GatewayKeyEntry[]): Promise<void> {
+    await this.getKeysTable().insert(entries).onConflict("publicKey").merge();
+  }
+
+  async reset() {
+    await this.database.migrate.rollback();
+    await this.database.migrate.latest();
+  }
+
+  async destroy() {
+    await this.database.destroy();
+  }
+}
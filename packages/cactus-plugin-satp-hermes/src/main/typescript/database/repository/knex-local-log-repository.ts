@@ -1,4 +1,5 @@
 import type { LocalLog } from "../../core/types";
+import { INTERVENTION_LOG_TYPE } from "../../core/constants";
 import type { ILocalLogRepository } from "./interfaces/repository";
 import knex, { type Knex } from "knex";
 import { knexLocalInstance } from "../knexfile";
@@ -41,6 +42,7 @@ export class KnexLocalLogRepository implements ILocalLogRepository {
     return this.getLogsTable()
       .orderBy("timestamp", "desc")
       .where({ sessionID: sessionID })
+      .whereNot({ type: INTERVENTION_LOG_TYPE })
       .first();
   }
 
@@ -56,7 +58,7 @@ export class KnexLocalLogRepository implements ILocalLogRepository {
   }
 
   // TODO fix any type
-  deleteBySessionId(sessionID: string): any {
+  async deleteBySessionId(sessionID: string): Promise<number> {
     return this.database().where({ sessionID: sessionID }).del();
   }
 
@@ -67,7 +69,7 @@ export class KnexLocalLogRepository implements ILocalLogRepository {
           "sessionID, key, data, type, operation, MAX(timestamp) as timestamp",
         ),
       )
-      .whereNot({ type: "proof" })
+      .whereNotIn("type", ["proof", INTERVENTION_LOG_TYPE])
       .groupBy("sessionID");
   }
 
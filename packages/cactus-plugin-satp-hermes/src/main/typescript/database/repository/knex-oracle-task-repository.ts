@@ -0,0 +1,73 @@
+import type { OracleOperationEntry, OracleTaskEntry } from "../../core/types";
+import type { IOracleTaskRepository } from "./interfaces/repository";
+import knex, { type Knex } from "knex";
+import { knexLocalInstance } from "../knexfile";
+import { createMigrationSource } from "../knex-migration-source";
+
+export class KnexOracleTaskRepository implements IOracleTaskRepository {
+  readonly database: Knex;
+
+  public constructor(config: Knex.Config | undefined) {
+    const envName = process.env.ENVIRONMENT || "development";
+    const configFile = knexLocalInstance[envName];
+
+    config = config || configFile;
+
+    const migrationSource = createMigrationSource();
+
+    config = {
+      ...config,
+      migrations: {
+        migrationSource: migrationSource,
+      },
+    } as Knex.Config;
+    this.database = knex(config);
+  }
+
+  getTasksTable(): Knex.QueryBuilder {
+    return this.database("oracle_tasks");
+  }
+
+  getOperationsTable(): Knex.QueryBuilder {
+    return this.database("oracle_operations");
+  }
+
+  readById(taskID: string): Promise<OracleTaskEntry> {
+    return this.getTasksTable().where({ taskID: taskID }).first();
+  }
+
+  readAll(): Promise<OracleTaskEntry[]> {
+    return this.getTasksTable().orderBy("updatedAt", "asc");
+  }
+
+  // re-registering a task overwrites the previous entry
+  async create(entry: OracleTaskEntry): Promise<void> {
+    await this.getTasksTable().insert(entry).onConflict("taskID").merge();
+  }
+
+  async update(
+    taskID: string,
+    fields: Partial<Omit<OracleTaskEntry, "taskID">>,
+  ): Promise<void> {
+    await this.getTasksTable().where({ taskID: taskID }).update(fields);
+  }
+
+  async createOperation(entry: OracleOperationEntry): Promise<void> {
+    await this.getOperationsTable().insert(entry).onConflict("id").merge();
+  }
+
+  readOperations(taskID: string): Promise<OracleOperationEntry[]> {
+    return this.getOperationsTable()
+      .where({ taskID: taskID })
+      .orderBy("timestamp", "asc");
+  }
+
+  async reset() {
+    await this.database.migrate.rollback();
+    await this.database.migrate.latest();
+  }
+
+  async destroy() {
+    await this.database.destroy();
+  }
+}
@@ -0,0 +1,41 @@
+import type { Knex } from "knex";
+import type { RotatableObjectSigner } from "../../core/key-rotation/rotatable-signer";
+import type { ILocalLogRepository } from "./interfaces/repository";
+import { KnexLocalLogRepository } from "./knex-local-log-repository";
+import { HashChainLocalLogRepository } from "./hash-chain-local-log-repository";
+
+export enum LocalLogStorageType {
+  KNEX = "knex",
+  HASH_CHAIN = "hash-chain",
+}
+
+export type LocalLogStorageConfig =
+  | { type: LocalLogStorageType.KNEX }
+  | { type: LocalLogStorageType.HASH_CHAIN; path: string };
+
+// the knex storage uses the gateway's localRepository database, the hash
+// chain is signed with the gateway key and trusts the keys it used before
+export function createLocalLogRepository(
+  storage: LocalLogStorageConfig | undefined,
+  knexConfig: Knex.Config | undefined,
+  signer: RotatableObjectSigner,
+  trustedPubKeys?: () => string[],
+): ILocalLogRepository {
+  if (!storage) {
+    return new KnexLocalLogRepository(knexConfig);
+  }
+  switch (storage.type) {
+    case LocalLogStorageType.KNEX:
+      return new KnexLocalLogRepository(knexConfig);
+    case LocalLogStorageType.HASH_CHAIN:
+      return new HashChainLocalLogRepository(
+        storage.path,
+        signer,
+        trustedPubKeys,
+      );
+    default:
+      throw new Error(
+        `Unsupported local log storage: ${(storage as { type: string }).type}`,
+      );
+  }
+}
@@ -18,6 +18,8 @@ interface GatewayLogEntryPersistence {
   operation: string;
   data: string;
   sequenceNumber: number;
+  // defaults to the session, type and operation, which repeat for operator interventions
+  key?: string;
 }
 
 export interface IGatewayPersistenceConfig {
@@ -57,6 +59,11 @@ export class GatewayPersistence {
     this.log.info("GatewayPersistence initialized.");
   }
 
+  // called when the gateway rotates its key pair, so remote logs carry the new key
+  public updatePubKey(pubKey: string): void {
+    this.pubKey = pubKey;
+  }
+
   public async storeProof(logEntry: GatewayLogEntryPersistence): Promise<void> {
     const fnTag = `${GatewayPersistence.CLASS_NAME}#storeProof()`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
@@ -113,11 +120,9 @@ export class GatewayPersistence {
           `${fnTag} - Persisting log entry for sessionID: ${logEntry.sessionID}`,
         );
 
-        const key = getSatpLogKey(
-          logEntry.sessionID,
-          logEntry.type,
-          logEntry.operation,
-        );
+        const key =
+          logEntry.key ??
+          getSatpLogKey(logEntry.sessionID, logEntry.type, logEntry.operation);
         const localLog: LocalLog = {
           sessionId: logEntry.sessionID,
           type: logEntry.type,
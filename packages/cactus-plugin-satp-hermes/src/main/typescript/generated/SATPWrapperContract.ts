@@ -61,12 +61,17 @@ export type ContractContext = Web3ContractContext<
 >;
 export type SATPWrapperContractEvents =
   | 'Assign'
+  | 'AssignNonFungible'
   | 'Burn'
+  | 'BurnNonFungible'
   | 'Changed'
   | 'Lock'
+  | 'LockNonFungible'
   | 'Mint'
+  | 'MintNonFungible'
   | 'OwnershipTransferred'
   | 'Unlock'
+  | 'UnlockNonFungible'
   | 'Unwrap'
   | 'Wrap';
 export interface SATPWrapperContractEventsContext {
@@ -79,6 +84,15 @@ export interface SATPWrapperContractEventsContext {
     },
     callback?: (error: Error, event: EventData) => void
   ): EventResponse;
+  AssignNonFungible(
+    parameters: {
+      filter?: { tokenId?: string | string[] };
+      fromBlock?: number;
+      toBlock?: 'latest' | number;
+      topics?: string[];
+    },
+    callback?: (error: Error, event: EventData) => void
+  ): EventResponse;
   Burn(
     parameters: {
       filter?: { tokenId?: string | string[] };
@@ -88,6 +102,15 @@ export interface SATPWrapperContractEventsContext {
     },
     callback?: (error: Error, event: EventData) => void
   ): EventResponse;
+  BurnNonFungible(
+    parameters: {
+      filter?: { tokenId?: string | string[] };
+      fromBlock?: number;
+      toBlock?: 'latest' | number;
+      topics?: string[];
+    },
+    callback?: (error: Error, event: EventData) => void
+  ): EventResponse;
   Changed(
     parameters: {
       filter?: { id?: string | string[] };
@@ -106,6 +129,15 @@ export interface SATPWrapperContractEventsContext {
     },
     callback?: (error: Error, event: EventData) => void
   ): EventResponse;
+  LockNonFungible(
+    parameters: {
+      filter?: { tokenId?: string | string[] };
+      fromBlock?: number;
+      toBlock?: 'latest' | number;
+      topics?: string[];
+    },
+    callback?: (error: Error, event: EventData) => void
+  ): EventResponse;
   Mint(
     parameters: {
       filter?: { tokenId?: string | string[] };
@@ -115,6 +147,15 @@ export interface SATPWrapperContractEventsContext {
     },
     callback?: (error: Error, event: EventData) => void
   ): EventResponse;
+  MintNonFungible(
+    parameters: {
+      filter?: { tokenId?: string | string[] };
+      fromBlock?: number;
+      toBlock?: 'latest' | number;
+      topics?: string[];
+    },
+    callback?: (error: Error, event: EventData) => void
+  ): EventResponse;
   OwnershipTransferred(
     parameters: {
       filter?: {
@@ -136,6 +177,15 @@ export interface SATPWrapperContractEventsContext {
     },
     callback?: (error: Error, event: EventData) => void
   ): EventResponse;
+  UnlockNonFungible(
+    parameters: {
+      filter?: { tokenId?: string | string[] };
+      fromBlock?: number;
+      toBlock?: 'latest' | number;
+      topics?: string[];
+    },
+    callback?: (error: Error, event: EventData) => void
+  ): EventResponse;
   Unwrap(
     parameters: {
       filter?: { tokenId?: string | string[] };
@@ -158,18 +208,24 @@ export interface SATPWrapperContractEventsContext {
 export type SATPWrapperContractMethodNames =
   | 'new'
   | 'assign'
+  | 'assignNonFungible'
   | 'bridge_address'
   | 'burn'
+  | 'burnNonFungible'
   | 'getAllAssetsIDs'
   | 'getToken'
   | 'lock'
+  | 'lockedUniqueDescriptors'
+  | 'lockNonFungible'
   | 'mint'
+  | 'mintNonFungible'
   | 'owner'
   | 'renounceOwnership'
   | 'tokens'
   | 'tokensInteractions'
   | 'transferOwnership'
   | 'unlock'
+  | 'unlockNonFungible'
   | 'unwrap'
   | 'wrap'
   | 'wrap';
@@ -206,10 +262,19 @@ export interface AssignEventEmittedResponse {
   receiver_account: string;
   amount: string;
 }
+export interface AssignNonFungibleEventEmittedResponse {
+  tokenId: string;
+  receiver_account: string;
+  uniqueDescriptor: string;
+}
 export interface BurnEventEmittedResponse {
   tokenId: string;
   amount: string;
 }
+export interface BurnNonFungibleEventEmittedResponse {
+  tokenId: string;
+  uniqueDescriptor: string;
+}
 export interface ChangedEventEmittedResponse {
   id: string;
   value: string | number[][];
@@ -218,10 +283,19 @@ export interface LockEventEmittedResponse {
   tokenId: string;
   amount: string;
 }
+export interface LockNonFungibleEventEmittedResponse {
+  tokenId: string;
+  uniqueDescriptor: string;
+}
 export interface MintEventEmittedResponse {
   tokenId: string;
   amount: string;
 }
+export interface MintNonFungibleEventEmittedResponse {
+  tokenId: string;
+  uniqueDescriptor: string;
+  metadataUri: string;
+}
 export interface OwnershipTransferredEventEmittedResponse {
   previousOwner: string;
   newOwner: string;
@@ -230,6 +304,10 @@ export interface UnlockEventEmittedResponse {
   tokenId: string;
   amount: string;
 }
+export interface UnlockNonFungibleEventEmittedResponse {
+  tokenId: string;
+  uniqueDescriptor: string;
+}
 export interface UnwrapEventEmittedResponse {
   tokenId: string;
 }
@@ -263,6 +341,20 @@ export interface SATPWrapperContract {
     receiver_account: string,
     amount: string
   ): MethodReturnContext;
+  /**
+   * Payable: false
+   * Constant: false
+   * StateMutability: nonpayable
+   * Type: function
+   * @param tokenId Type: string, Indexed: false
+   * @param receiver_account Type: address, Indexed: false
+   * @param uniqueDescriptor Type: uint256, Indexed: false
+   */
+  assignNonFungible(
+    tokenId: string,
+    receiver_account: string,
+    uniqueDescriptor: string
+  ): MethodReturnContext;
   /**
    * Payable: false
    * Constant: true
@@ -279,6 +371,18 @@ export interface SATPWrapperContract {
    * @param amount Type: uint256, Indexed: false
    */
   burn(tokenId: string, amount: string): MethodReturnContext;
+  /**
+   * Payable: false
+   * Constant: false
+   * StateMutability: nonpayable
+   * Type: function
+   * @param tokenId Type: string, Indexed: false
+   * @param uniqueDescriptor Type: uint256, Indexed: false
+   */
+  burnNonFungible(
+    tokenId: string,
+    uniqueDescriptor: string
+  ): MethodReturnContext;
   /**
    * Payable: false
    * Constant: true
@@ -303,6 +407,30 @@ export interface SATPWrapperContract {
    * @param amount Type: uint256, Indexed: false
    */
   lock(tokenId: string, amount: string): MethodReturnContext;
+  /**
+   * Payable: false
+   * Constant: true
+   * StateMutability: view
+   * Type: function
+   * @param parameter0 Type: string, Indexed: false
+   * @param parameter1 Type: uint256, Indexed: false
+   */
+  lockedUniqueDescriptors(
+    parameter0: string,
+    parameter1: string
+  ): MethodConstantReturnContext<boolean>;
+  /**
+   * Payable: false
+   * Constant: false
+   * StateMutability: nonpayable
+   * Type: function
+   * @param tokenId Type: string, Indexed: false
+   * @param uniqueDescriptor Type: uint256, Indexed: false
+   */
+  lockNonFungible(
+    tokenId: string,
+    uniqueDescriptor: string
+  ): MethodReturnContext;
   /**
    * Payable: false
    * Constant: false
@@ -312,6 +440,20 @@ export interface SATPWrapperContract {
    * @param amount Type: uint256, Indexed: false
    */
   mint(tokenId: string, amount: string): MethodReturnContext;
+  /**
+   * Payable: false
+   * Constant: false
+   * StateMutability: nonpayable
+   * Type: function
+   * @param tokenId Type: string, Indexed: false
+   * @param uniqueDescriptor Type: uint256, Indexed: false
+   * @param metadataUri Type: string, Indexed: false
+   */
+  mintNonFungible(
+    tokenId: string,
+    uniqueDescriptor: string,
+    metadataUri: string
+  ): MethodReturnContext;
   /**
    * Payable: false
    * Constant: true
@@ -363,6 +505,18 @@ export interface SATPWrapperContract {
    * @param amount Type: uint256, Indexed: false
    */
   unlock(tokenId: string, amount: string): MethodReturnContext;
+  /**
+   * Payable: false
+   * Constant: false
+   * StateMutability: nonpayable
+   * Type: function
+   * @param tokenId Type: string, Indexed: false
+   * @param uniqueDescriptor Type: uint256, Indexed: false
+   */
+  unlockNonFungible(
+    tokenId: string,
+    uniqueDescriptor: string
+  ): MethodReturnContext;
   /**
    * Payable: false
    * Constant: false
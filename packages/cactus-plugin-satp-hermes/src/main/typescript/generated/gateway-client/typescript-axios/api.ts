@@ -301,6 +301,18 @@ export interface Asset {
      * @memberof Asset
      */
     'amount'?: string;
+    /**
+     * The unique descriptor of a non-fungible asset, e.g. the ERC-721 token id.
+     * @type {string}
+     * @memberof Asset
+     */
+    'uniqueDescriptor'?: string;
+    /**
+     * The metadata URI of a non-fungible asset.
+     * @type {string}
+     * @memberof Asset
+     */
+    'metadataUri'?: string;
     /**
      * 
      * @type {TransactRequestSourceAssetNetworkId}
@@ -374,6 +386,12 @@ export interface AuditResponse {
      * @memberof AuditResponse
      */
     'endTimestamp'?: number;
+    /**
+     * The operator interventions recorded during the audit period, oldest first.
+     * @type {Array<PerformAudit200ResponseInterventionsInner>}
+     * @memberof AuditResponse
+     */
+    'interventions'?: Array<PerformAudit200ResponseInterventionsInner>;
 }
 /**
  * Stores global constants related to the authorization of the application. Specifically enumerates the claims to validate for as per RFC 7519, section 4.1. See: https://tools.ietf.org/html/rfc7519#section-4.1
@@ -411,6 +429,25 @@ export const AuthzScope = {
 export type AuthzScope = typeof AuthzScope[keyof typeof AuthzScope];
 
 
+/**
+ * A single leg of an atomic batch transfer, pairing the asset given up on the source network with the asset received on the destination network.
+ * @export
+ * @interface BatchTransferLeg
+ */
+export interface BatchTransferLeg {
+    /**
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof BatchTransferLeg
+     */
+    'sourceAsset': TransactRequestSourceAsset;
+    /**
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof BatchTransferLeg
+     */
+    'receiverAsset': TransactRequestSourceAsset;
+}
 /**
  * Information about the bridge used for the token transfer.
  * @export
@@ -684,6 +721,19 @@ export interface Estimate {
      */
     'tool'?: string;
 }
+/**
+ * Request for the fees a gateway expects to pay on the ledger of an asset to bridge it.
+ * @export
+ * @interface EstimateFeeRequest
+ */
+export interface EstimateFeeRequest {
+    /**
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof EstimateFeeRequest
+     */
+    'asset': TransactRequestSourceAsset;
+}
 /**
  * Response schema for executing a data transfer task. Includes the task ID and status of the execution.
  * @export
@@ -767,7 +817,8 @@ export const ExecuteOracleTask200ResponseTypeEnum = {
 export type ExecuteOracleTask200ResponseTypeEnum = typeof ExecuteOracleTask200ResponseTypeEnum[keyof typeof ExecuteOracleTask200ResponseTypeEnum];
 export const ExecuteOracleTask200ResponseStatusEnum = {
     Active: 'ACTIVE',
-    Inactive: 'INACTIVE'
+    Inactive: 'INACTIVE',
+    Paused: 'PAUSED'
 } as const;
 
 export type ExecuteOracleTask200ResponseStatusEnum = typeof ExecuteOracleTask200ResponseStatusEnum[keyof typeof ExecuteOracleTask200ResponseStatusEnum];
@@ -780,7 +831,7 @@ export const ExecuteOracleTask200ResponseModeEnum = {
 export type ExecuteOracleTask200ResponseModeEnum = typeof ExecuteOracleTask200ResponseModeEnum[keyof typeof ExecuteOracleTask200ResponseModeEnum];
 
 /**
- * The destination contract details for the Oracle task.
+ * Represents a business logic contract with its associated metadata and method details.
  * @export
  * @interface ExecuteOracleTask200ResponseDstContract
  */
@@ -874,20 +925,22 @@ export interface ExecuteOracleTask200ResponseOperationsInner {
 
 export const ExecuteOracleTask200ResponseOperationsInnerTypeEnum = {
     Read: 'READ',
-    Update: 'UPDATE'
+    Update: 'UPDATE',
+    Transform: 'TRANSFORM'
 } as const;
 
 export type ExecuteOracleTask200ResponseOperationsInnerTypeEnum = typeof ExecuteOracleTask200ResponseOperationsInnerTypeEnum[keyof typeof ExecuteOracleTask200ResponseOperationsInnerTypeEnum];
 export const ExecuteOracleTask200ResponseOperationsInnerStatusEnum = {
     Pending: 'PENDING',
     Success: 'SUCCESS',
-    Failed: 'FAILED'
+    Failed: 'FAILED',
+    Skipped: 'SKIPPED'
 } as const;
 
 export type ExecuteOracleTask200ResponseOperationsInnerStatusEnum = typeof ExecuteOracleTask200ResponseOperationsInnerStatusEnum[keyof typeof ExecuteOracleTask200ResponseOperationsInnerStatusEnum];
 
 /**
- * The contract associated with the Oracle operation.
+ * Represents a business logic contract with its associated metadata and method details.
  * @export
  * @interface ExecuteOracleTask200ResponseOperationsInnerContract
  */
@@ -961,7 +1014,7 @@ export interface ExecuteOracleTask200ResponseOperationsInnerOutput {
     'proof'?: object;
 }
 /**
- * The source contract details for the Oracle task.
+ * Represents a business logic contract with its associated metadata and method details.
  * @export
  * @interface ExecuteOracleTask200ResponseSrcContract
  */
@@ -1039,6 +1092,12 @@ export interface ExecuteOracleTaskRequest {
      * @memberof ExecuteOracleTaskRequest
      */
     'taskType'?: ExecuteOracleTaskRequestTaskTypeEnum;
+    /**
+     * Steps applied, in order, to the data read or captured on the source network before it is written to the destination network. Not allowed for READ tasks.
+     * @type {Array<ExecuteOracleTaskRequestTransformationsInner>}
+     * @memberof ExecuteOracleTaskRequest
+     */
+    'transformations'?: Array<ExecuteOracleTaskRequestTransformationsInner>;
 }
 
 export const ExecuteOracleTaskRequestTaskTypeEnum = {
@@ -1141,6 +1200,100 @@ export interface ExecuteOracleTaskRequestSourceContract {
  */
 export type ExecuteOracleTaskRequestSourceContractParamsInner = number | string;
 
+/**
+ * A declarative step of the pipeline transforming the data of an Oracle task between the source and the destination network. Steps are validated when the task is registered.
+ * @export
+ * @interface ExecuteOracleTaskRequestTransformationsInner
+ */
+export interface ExecuteOracleTaskRequestTransformationsInner {
+    /**
+     * The kind of step. EXTRACT selects a field, CONVERT changes its type or unit, AGGREGATE combines it with further reads of the source network and FILTER stops the relay when its predicate does not hold.
+     * @type {string}
+     * @memberof ExecuteOracleTaskRequestTransformationsInner
+     */
+    'type': ExecuteOracleTaskRequestTransformationsInnerTypeEnum;
+    /**
+     * A JSONPath expression, e.g. $.prices[*].value. Selects the value kept by EXTRACT, the field read from each source of AGGREGATE and the field tested by FILTER.
+     * @type {string}
+     * @memberof ExecuteOracleTaskRequestTransformationsInner
+     */
+    'path'?: string;
+    /**
+     * The type the value is converted to. Only for CONVERT.
+     * @type {string}
+     * @memberof ExecuteOracleTaskRequestTransformationsInner
+     */
+    'targetType'?: ExecuteOracleTaskRequestTransformationsInnerTargetTypeEnum;
+    /**
+     * The number of decimal places the value is shifted by, e.g. 18 to convert ether to wei, or -18 for the opposite. Only for CONVERT.
+     * @type {number}
+     * @memberof ExecuteOracleTaskRequestTransformationsInner
+     */
+    'decimals'?: number;
+    /**
+     * Further contracts read on the source network, whose outputs are aggregated with the current value. Only for AGGREGATE.
+     * @type {Array<ExecuteOracleTaskRequestSourceContract>}
+     * @memberof ExecuteOracleTaskRequestTransformationsInner
+     */
+    'sources'?: Array<ExecuteOracleTaskRequestSourceContract>;
+    /**
+     * The function combining the values. Only for AGGREGATE.
+     * @type {string}
+     * @memberof ExecuteOracleTaskRequestTransformationsInner
+     */
+    'aggregation'?: ExecuteOracleTaskRequestTransformationsInnerAggregationEnum;
+    /**
+     * The comparison applied to the value. Only for FILTER.
+     * @type {string}
+     * @memberof ExecuteOracleTaskRequestTransformationsInner
+     */
+    'operator'?: ExecuteOracleTaskRequestTransformationsInnerOperatorEnum;
+    /**
+     * The operand of the comparison, a regular expression for MATCHES. Only for FILTER, and not needed for EXISTS.
+     * @type {string}
+     * @memberof ExecuteOracleTaskRequestTransformationsInner
+     */
+    'value'?: string;
+}
+
+export const ExecuteOracleTaskRequestTransformationsInnerTypeEnum = {
+    Extract: 'EXTRACT',
+    Convert: 'CONVERT',
+    Aggregate: 'AGGREGATE',
+    Filter: 'FILTER'
+} as const;
+
+export type ExecuteOracleTaskRequestTransformationsInnerTypeEnum = typeof ExecuteOracleTaskRequestTransformationsInnerTypeEnum[keyof typeof ExecuteOracleTaskRequestTransformationsInnerTypeEnum];
+export const ExecuteOracleTaskRequestTransformationsInnerTargetTypeEnum = {
+    String: 'STRING',
+    Number: 'NUMBER',
+    Integer: 'INTEGER',
+    Boolean: 'BOOLEAN'
+} as const;
+
+export type ExecuteOracleTaskRequestTransformationsInnerTargetTypeEnum = typeof ExecuteOracleTaskRequestTransformationsInnerTargetTypeEnum[keyof typeof ExecuteOracleTaskRequestTransformationsInnerTargetTypeEnum];
+export const ExecuteOracleTaskRequestTransformationsInnerAggregationEnum = {
+    Sum: 'SUM',
+    Average: 'AVERAGE',
+    Min: 'MIN',
+    Max: 'MAX',
+    Median: 'MEDIAN'
+} as const;
+
+export type ExecuteOracleTaskRequestTransformationsInnerAggregationEnum = typeof ExecuteOracleTaskRequestTransformationsInnerAggregationEnum[keyof typeof ExecuteOracleTaskRequestTransformationsInnerAggregationEnum];
+export const ExecuteOracleTaskRequestTransformationsInnerOperatorEnum = {
+    Eq: 'EQ',
+    Neq: 'NEQ',
+    Gt: 'GT',
+    Gte: 'GTE',
+    Lt: 'LT',
+    Lte: 'LTE',
+    Exists: 'EXISTS',
+    Matches: 'MATCHES'
+} as const;
+
+export type ExecuteOracleTaskRequestTransformationsInnerOperatorEnum = typeof ExecuteOracleTaskRequestTransformationsInnerOperatorEnum[keyof typeof ExecuteOracleTaskRequestTransformationsInnerOperatorEnum];
+
 /**
  * Details about a specific fee cost associated with the transaction.
  * @export
@@ -1421,6 +1574,77 @@ export interface GetIntegrations200ResponseIntegrationsInner {
      */
     'environment'?: string;
 }
+/**
+ * Response schema for the history of an Oracle task. Includes the persisted operations and the cursor the task resumes from.
+ * @export
+ * @interface GetOracleTaskHistory200Response
+ */
+export interface GetOracleTaskHistory200Response {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof GetOracleTaskHistory200Response
+     */
+    'taskID': string;
+    /**
+     * The current status of the Oracle task.
+     * @type {string}
+     * @memberof GetOracleTaskHistory200Response
+     */
+    'status': GetOracleTaskHistory200ResponseStatusEnum;
+    /**
+     * The timestamp of the last execution of the task.
+     * @type {number}
+     * @memberof GetOracleTaskHistory200Response
+     */
+    'lastExecutedAt'?: number;
+    /**
+     * 
+     * @type {GetOracleTaskHistory200ResponseEventCursor}
+     * @memberof GetOracleTaskHistory200Response
+     */
+    'eventCursor'?: GetOracleTaskHistory200ResponseEventCursor;
+    /**
+     * The operations performed by the task, oldest first.
+     * @type {Array<ExecuteOracleTask200ResponseOperationsInner>}
+     * @memberof GetOracleTaskHistory200Response
+     */
+    'operations': Array<ExecuteOracleTask200ResponseOperationsInner>;
+}
+
+export const GetOracleTaskHistory200ResponseStatusEnum = {
+    Active: 'ACTIVE',
+    Inactive: 'INACTIVE',
+    Paused: 'PAUSED'
+} as const;
+
+export type GetOracleTaskHistory200ResponseStatusEnum = typeof GetOracleTaskHistory200ResponseStatusEnum[keyof typeof GetOracleTaskHistory200ResponseStatusEnum];
+
+/**
+ * Position of the last event processed by an event listening Oracle task. Events at or before the cursor are not relayed again.
+ * @export
+ * @interface GetOracleTaskHistory200ResponseEventCursor
+ */
+export interface GetOracleTaskHistory200ResponseEventCursor {
+    /**
+     * The block holding the last processed event.
+     * @type {number}
+     * @memberof GetOracleTaskHistory200ResponseEventCursor
+     */
+    'blockNumber': number;
+    /**
+     * The position of the last processed event within its block.
+     * @type {number}
+     * @memberof GetOracleTaskHistory200ResponseEventCursor
+     */
+    'logIndex': number;
+    /**
+     * The transaction that emitted the last processed event.
+     * @type {string}
+     * @memberof GetOracleTaskHistory200ResponseEventCursor
+     */
+    'transactionId'?: string;
+}
 /**
  * Response schema for checking the status of a data transfer task. Includes the task ID and status of the task.
  * @export
@@ -1504,7 +1728,8 @@ export const GetOracleTaskStatus200ResponseTypeEnum = {
 export type GetOracleTaskStatus200ResponseTypeEnum = typeof GetOracleTaskStatus200ResponseTypeEnum[keyof typeof GetOracleTaskStatus200ResponseTypeEnum];
 export const GetOracleTaskStatus200ResponseStatusEnum = {
     Active: 'ACTIVE',
-    Inactive: 'INACTIVE'
+    Inactive: 'INACTIVE',
+    Paused: 'PAUSED'
 } as const;
 
 export type GetOracleTaskStatus200ResponseStatusEnum = typeof GetOracleTaskStatus200ResponseStatusEnum[keyof typeof GetOracleTaskStatus200ResponseStatusEnum];
@@ -2057,6 +2282,56 @@ export interface GetRoutes200ResponseRoutesInnerStepsInnerToolDetails {
      */
     'logoURI': string;
 }
+/**
+ * The steps of a session, as recorded in the local log of the gateway, oldest first.
+ * @export
+ * @interface GetSessionTimeline200Response
+ */
+export interface GetSessionTimeline200Response {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof GetSessionTimeline200Response
+     */
+    'sessionID': string;
+    /**
+     * 
+     * @type {Array<GetSessionTimeline200ResponseStepsInner>}
+     * @memberof GetSessionTimeline200Response
+     */
+    'steps': Array<GetSessionTimeline200ResponseStepsInner>;
+}
+/**
+ * An entry of the local log of a session.
+ * @export
+ * @interface GetSessionTimeline200ResponseStepsInner
+ */
+export interface GetSessionTimeline200ResponseStepsInner {
+    /**
+     * The sequence number of the session when the entry was written.
+     * @type {number}
+     * @memberof GetSessionTimeline200ResponseStepsInner
+     */
+    'sequenceNumber': number;
+    /**
+     * The message or event the entry refers to.
+     * @type {string}
+     * @memberof GetSessionTimeline200ResponseStepsInner
+     */
+    'type': string;
+    /**
+     * What happened to the message, for example init, exec, done or fail.
+     * @type {string}
+     * @memberof GetSessionTimeline200ResponseStepsInner
+     */
+    'operation': string;
+    /**
+     * When the entry was written, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof GetSessionTimeline200ResponseStepsInner
+     */
+    'timestamp': number;
+}
 /**
  * 
  * @export
@@ -2231,127 +2506,379 @@ export interface IntegrationsResponse {
     'integrations': Array<GetIntegrations200ResponseIntegrationsInner>;
 }
 /**
- * The network of the DLT being interacted with.
+ * A manual intervention of an operator on a SATP session, as written to the audit log.
  * @export
- * @interface NetworkId
+ * @interface InterveneInSession200Response
  */
-export interface NetworkId {
+export interface InterveneInSession200Response {
     /**
-     * The network of the DLT being interacted with.
+     * Unique identifier (UUID) for the session.
      * @type {string}
-     * @memberof NetworkId
+     * @memberof InterveneInSession200Response
      */
-    'id': string;
+    'sessionID': string;
     /**
-     * Enumerates the different ledger vendors and their major versions encoded within the name of the LedgerType. For example \"BESU_1X\" involves all of the [1.0.0;2.0.0) where 1.0.0 is included and anything up until, but not 2.0.0. See: https://stackoverflow.com/a/4396303/698470 for further explanation.
+     * 
      * @type {string}
-     * @memberof NetworkId
+     * @memberof InterveneInSession200Response
      */
-    'ledgerType': NetworkIdLedgerTypeEnum;
-}
-
-export const NetworkIdLedgerTypeEnum = {
-    Besu1X: 'BESU_1X',
-    Besu2X: 'BESU_2X',
-    Burrow0X: 'BURROW_0X',
-    Corda4X: 'CORDA_4X',
-    Ethereum: 'ETHEREUM',
-    Fabric2: 'FABRIC_2',
-    Sawtooth1X: 'SAWTOOTH_1X'
-} as const;
-
-export type NetworkIdLedgerTypeEnum = typeof NetworkIdLedgerTypeEnum[keyof typeof NetworkIdLedgerTypeEnum];
-
-/**
- * Request schema for triggering an immediate transfer task. Includes the task ID, payload, and destination network and contract details.
- * @export
- * @interface OracleExecuteRequest
- */
-export interface OracleExecuteRequest {
+    'action': InterveneInSession200ResponseActionEnum;
     /**
-     * 
-     * @type {TransactRequestSourceAssetNetworkId}
-     * @memberof OracleExecuteRequest
+     * Why the operator intervened.
+     * @type {string}
+     * @memberof InterveneInSession200Response
      */
-    'sourceNetworkId'?: TransactRequestSourceAssetNetworkId;
+    'reason'?: string;
     /**
-     * 
-     * @type {TransactRequestSourceAssetNetworkId}
-     * @memberof OracleExecuteRequest
+     * Whether the intervention was carried out.
+     * @type {boolean}
+     * @memberof InterveneInSession200Response
      */
-    'destinationNetworkId'?: TransactRequestSourceAssetNetworkId;
+    'success': boolean;
     /**
-     * 
-     * @type {ExecuteOracleTaskRequestSourceContract}
-     * @memberof OracleExecuteRequest
+     * The state of the session before the intervention.
+     * @type {string}
+     * @memberof InterveneInSession200Response
      */
-    'sourceContract'?: ExecuteOracleTaskRequestSourceContract;
+    'previousState': string;
     /**
-     * 
-     * @type {ExecuteOracleTaskRequestDestinationContract}
-     * @memberof OracleExecuteRequest
+     * The state of the session after the intervention.
+     * @type {string}
+     * @memberof InterveneInSession200Response
      */
-    'destinationContract'?: ExecuteOracleTaskRequestDestinationContract;
+    'state': string;
     /**
-     * The type of task to be registered.
+     * Why the intervention failed, when it did.
      * @type {string}
-     * @memberof OracleExecuteRequest
+     * @memberof InterveneInSession200Response
      */
-    'taskType'?: OracleExecuteRequestTaskTypeEnum;
+    'message'?: string;
+    /**
+     * When the intervention happened, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof InterveneInSession200Response
+     */
+    'timestamp': number;
 }
 
-export const OracleExecuteRequestTaskTypeEnum = {
-    Read: 'READ',
-    Update: 'UPDATE',
-    ReadAndUpdate: 'READ_AND_UPDATE'
+export const InterveneInSession200ResponseActionEnum = {
+    ForceRollback: 'FORCE_ROLLBACK',
+    RetryStage: 'RETRY_STAGE',
+    MarkResolved: 'MARK_RESOLVED'
 } as const;
 
-export type OracleExecuteRequestTaskTypeEnum = typeof OracleExecuteRequestTaskTypeEnum[keyof typeof OracleExecuteRequestTaskTypeEnum];
+export type InterveneInSession200ResponseActionEnum = typeof InterveneInSession200ResponseActionEnum[keyof typeof InterveneInSession200ResponseActionEnum];
 
 /**
- * Response schema for executing a data transfer task. Includes the task ID and status of the execution.
+ * Request schema for a manual intervention of an operator on a SATP session.
  * @export
- * @interface OracleExecuteResponse
+ * @interface InterveneInSessionRequest
  */
-export interface OracleExecuteResponse {
+export interface InterveneInSessionRequest {
     /**
-     * The unique identifier of the task.
+     * Unique identifier (UUID) for the session.
      * @type {string}
-     * @memberof OracleExecuteResponse
+     * @memberof InterveneInSessionRequest
      */
-    'taskID': string;
+    'sessionID': string;
     /**
-     * The type of the Oracle task.
+     * FORCE_ROLLBACK rolls the session back, RETRY_STAGE resends the first message of the current stage and MARK_RESOLVED closes a session that was settled outside of the gateway.
      * @type {string}
-     * @memberof OracleExecuteResponse
+     * @memberof InterveneInSessionRequest
      */
-    'type': OracleExecuteResponseTypeEnum;
+    'action': InterveneInSessionRequestActionEnum;
     /**
-     * 
-     * @type {TransactRequestSourceAssetNetworkId}
-     * @memberof OracleExecuteResponse
+     * Why the operator intervened, kept in the audit log.
+     * @type {string}
+     * @memberof InterveneInSessionRequest
      */
-    'srcNetworkId'?: TransactRequestSourceAssetNetworkId;
+    'reason'?: string;
+}
+
+export const InterveneInSessionRequestActionEnum = {
+    ForceRollback: 'FORCE_ROLLBACK',
+    RetryStage: 'RETRY_STAGE',
+    MarkResolved: 'MARK_RESOLVED'
+} as const;
+
+export type InterveneInSessionRequestActionEnum = typeof InterveneInSessionRequestActionEnum[keyof typeof InterveneInSessionRequestActionEnum];
+
+/**
+ * The fees a gateway expects to pay on a ledger to perform its side of a transfer.
+ * @export
+ * @interface LedgerFeeEstimate
+ */
+export interface LedgerFeeEstimate {
     /**
      * 
-     * @type {ExecuteOracleTask200ResponseSrcContract}
-     * @memberof OracleExecuteResponse
+     * @type {TransactRequestSourceAssetNetworkId}
+     * @memberof LedgerFeeEstimate
      */
-    'srcContract': ExecuteOracleTask200ResponseSrcContract;
+    'networkId': TransactRequestSourceAssetNetworkId;
     /**
-     * 
-     * @type {TransactRequestSourceAssetNetworkId}
-     * @memberof OracleExecuteResponse
+     * The fee in the smallest unit of the native token of the ledger. Absent when the connector of the ledger cannot estimate fees.
+     * @type {string}
+     * @memberof LedgerFeeEstimate
      */
-    'dstNetworkId'?: TransactRequestSourceAssetNetworkId;
+    'fee'?: string;
+}
+/**
+ * Sessions matching the filters of a session listing, most recent first.
+ * @export
+ * @interface ListSessions200Response
+ */
+export interface ListSessions200Response {
     /**
      * 
-     * @type {ExecuteOracleTask200ResponseDstContract}
-     * @memberof OracleExecuteResponse
+     * @type {Array<ListSessions200ResponseSessionsInner>}
+     * @memberof ListSessions200Response
      */
-    'dstContract': ExecuteOracleTask200ResponseDstContract;
-    /**
-     * The timestamp when the Oracle task was created or last updated.
+    'sessions': Array<ListSessions200ResponseSessionsInner>;
+}
+/**
+ * Summary of a SATP session known to the gateway, as listed to operators.
+ * @export
+ * @interface ListSessions200ResponseSessionsInner
+ */
+export interface ListSessions200ResponseSessionsInner {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof ListSessions200ResponseSessionsInner
+     */
+    'sessionID': string;
+    /**
+     * Whether this gateway is the client or the server of the session.
+     * @type {string}
+     * @memberof ListSessions200ResponseSessionsInner
+     */
+    'role': ListSessions200ResponseSessionsInnerRoleEnum;
+    /**
+     * The state of the session.
+     * @type {string}
+     * @memberof ListSessions200ResponseSessionsInner
+     */
+    'state': ListSessions200ResponseSessionsInnerStateEnum;
+    /**
+     * The SATP stage the session is in.
+     * @type {string}
+     * @memberof ListSessions200ResponseSessionsInner
+     */
+    'stage': ListSessions200ResponseSessionsInnerStageEnum;
+    /**
+     * The last message of the protocol handled in the session.
+     * @type {string}
+     * @memberof ListSessions200ResponseSessionsInner
+     */
+    'step': string;
+    /**
+     * The identifier of the gateway on the other side of the session.
+     * @type {string}
+     * @memberof ListSessions200ResponseSessionsInner
+     */
+    'counterpartyGatewayID'?: string;
+    /**
+     * When the session started, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof ListSessions200ResponseSessionsInner
+     */
+    'startTime'?: number;
+    /**
+     * When the last message of the session was received, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof ListSessions200ResponseSessionsInner
+     */
+    'lastMessageTime'?: number;
+    /**
+     * Milliseconds elapsed since the session started.
+     * @type {number}
+     * @memberof ListSessions200ResponseSessionsInner
+     */
+    'age'?: number;
+}
+
+export const ListSessions200ResponseSessionsInnerRoleEnum = {
+    Client: 'CLIENT',
+    Server: 'SERVER'
+} as const;
+
+export type ListSessions200ResponseSessionsInnerRoleEnum = typeof ListSessions200ResponseSessionsInnerRoleEnum[keyof typeof ListSessions200ResponseSessionsInnerRoleEnum];
+export const ListSessions200ResponseSessionsInnerStateEnum = {
+    Unspecified: 'UNSPECIFIED',
+    Ongoing: 'ONGOING',
+    Completed: 'COMPLETED',
+    Rejected: 'REJECTED',
+    ConditionalRejected: 'CONDITIONAL_REJECTED',
+    Error: 'ERROR',
+    Recovered: 'RECOVERED',
+    Recovering: 'RECOVERING'
+} as const;
+
+export type ListSessions200ResponseSessionsInnerStateEnum = typeof ListSessions200ResponseSessionsInnerStateEnum[keyof typeof ListSessions200ResponseSessionsInnerStateEnum];
+export const ListSessions200ResponseSessionsInnerStageEnum = {
+    _0: 'STAGE_0',
+    _1: 'STAGE_1',
+    _2: 'STAGE_2',
+    _3: 'STAGE_3'
+} as const;
+
+export type ListSessions200ResponseSessionsInnerStageEnum = typeof ListSessions200ResponseSessionsInnerStageEnum[keyof typeof ListSessions200ResponseSessionsInnerStageEnum];
+
+/**
+ * The network of the DLT being interacted with.
+ * @export
+ * @interface NetworkId
+ */
+export interface NetworkId {
+    /**
+     * The network of the DLT being interacted with.
+     * @type {string}
+     * @memberof NetworkId
+     */
+    'id': string;
+    /**
+     * Enumerates the different ledger vendors and their major versions encoded within the name of the LedgerType. For example \"BESU_1X\" involves all of the [1.0.0;2.0.0) where 1.0.0 is included and anything up until, but not 2.0.0. See: https://stackoverflow.com/a/4396303/698470 for further explanation.
+     * @type {string}
+     * @memberof NetworkId
+     */
+    'ledgerType': NetworkIdLedgerTypeEnum;
+}
+
+export const NetworkIdLedgerTypeEnum = {
+    Besu1X: 'BESU_1X',
+    Besu2X: 'BESU_2X',
+    Burrow0X: 'BURROW_0X',
+    Corda4X: 'CORDA_4X',
+    Ethereum: 'ETHEREUM',
+    Fabric2: 'FABRIC_2',
+    Polkadot: 'POLKADOT',
+    Sawtooth1X: 'SAWTOOTH_1X',
+    Stellar: 'STELLAR'
+} as const;
+
+export type NetworkIdLedgerTypeEnum = typeof NetworkIdLedgerTypeEnum[keyof typeof NetworkIdLedgerTypeEnum];
+
+/**
+ * Position of the last event processed by an event listening Oracle task. Events at or before the cursor are not relayed again.
+ * @export
+ * @interface OracleEventCursor
+ */
+export interface OracleEventCursor {
+    /**
+     * The block holding the last processed event.
+     * @type {number}
+     * @memberof OracleEventCursor
+     */
+    'blockNumber': number;
+    /**
+     * The position of the last processed event within its block.
+     * @type {number}
+     * @memberof OracleEventCursor
+     */
+    'logIndex': number;
+    /**
+     * The transaction that emitted the last processed event.
+     * @type {string}
+     * @memberof OracleEventCursor
+     */
+    'transactionId'?: string;
+}
+/**
+ * Request schema for triggering an immediate transfer task. Includes the task ID, payload, and destination network and contract details.
+ * @export
+ * @interface OracleExecuteRequest
+ */
+export interface OracleExecuteRequest {
+    /**
+     * 
+     * @type {TransactRequestSourceAssetNetworkId}
+     * @memberof OracleExecuteRequest
+     */
+    'sourceNetworkId'?: TransactRequestSourceAssetNetworkId;
+    /**
+     * 
+     * @type {TransactRequestSourceAssetNetworkId}
+     * @memberof OracleExecuteRequest
+     */
+    'destinationNetworkId'?: TransactRequestSourceAssetNetworkId;
+    /**
+     * 
+     * @type {ExecuteOracleTaskRequestSourceContract}
+     * @memberof OracleExecuteRequest
+     */
+    'sourceContract'?: ExecuteOracleTaskRequestSourceContract;
+    /**
+     * 
+     * @type {ExecuteOracleTaskRequestDestinationContract}
+     * @memberof OracleExecuteRequest
+     */
+    'destinationContract'?: ExecuteOracleTaskRequestDestinationContract;
+    /**
+     * The type of task to be registered.
+     * @type {string}
+     * @memberof OracleExecuteRequest
+     */
+    'taskType'?: OracleExecuteRequestTaskTypeEnum;
+    /**
+     * Steps applied, in order, to the data read or captured on the source network before it is written to the destination network. Not allowed for READ tasks.
+     * @type {Array<ExecuteOracleTaskRequestTransformationsInner>}
+     * @memberof OracleExecuteRequest
+     */
+    'transformations'?: Array<ExecuteOracleTaskRequestTransformationsInner>;
+}
+
+export const OracleExecuteRequestTaskTypeEnum = {
+    Read: 'READ',
+    Update: 'UPDATE',
+    ReadAndUpdate: 'READ_AND_UPDATE'
+} as const;
+
+export type OracleExecuteRequestTaskTypeEnum = typeof OracleExecuteRequestTaskTypeEnum[keyof typeof OracleExecuteRequestTaskTypeEnum];
+
+/**
+ * Response schema for executing a data transfer task. Includes the task ID and status of the execution.
+ * @export
+ * @interface OracleExecuteResponse
+ */
+export interface OracleExecuteResponse {
+    /**
+     * The unique identifier of the task.
+     * @type {string}
+     * @memberof OracleExecuteResponse
+     */
+    'taskID': string;
+    /**
+     * The type of the Oracle task.
+     * @type {string}
+     * @memberof OracleExecuteResponse
+     */
+    'type': OracleExecuteResponseTypeEnum;
+    /**
+     * 
+     * @type {TransactRequestSourceAssetNetworkId}
+     * @memberof OracleExecuteResponse
+     */
+    'srcNetworkId'?: TransactRequestSourceAssetNetworkId;
+    /**
+     * 
+     * @type {ExecuteOracleTask200ResponseSrcContract}
+     * @memberof OracleExecuteResponse
+     */
+    'srcContract': ExecuteOracleTask200ResponseSrcContract;
+    /**
+     * 
+     * @type {TransactRequestSourceAssetNetworkId}
+     * @memberof OracleExecuteResponse
+     */
+    'dstNetworkId'?: TransactRequestSourceAssetNetworkId;
+    /**
+     * 
+     * @type {ExecuteOracleTask200ResponseDstContract}
+     * @memberof OracleExecuteResponse
+     */
+    'dstContract': ExecuteOracleTask200ResponseDstContract;
+    /**
+     * The timestamp when the Oracle task was created or last updated.
      * @type {number}
      * @memberof OracleExecuteResponse
      */
@@ -2391,7 +2918,8 @@ export const OracleExecuteResponseTypeEnum = {
 export type OracleExecuteResponseTypeEnum = typeof OracleExecuteResponseTypeEnum[keyof typeof OracleExecuteResponseTypeEnum];
 export const OracleExecuteResponseStatusEnum = {
     Active: 'ACTIVE',
-    Inactive: 'INACTIVE'
+    Inactive: 'INACTIVE',
+    Paused: 'PAUSED'
 } as const;
 
 export type OracleExecuteResponseStatusEnum = typeof OracleExecuteResponseStatusEnum[keyof typeof OracleExecuteResponseStatusEnum];
@@ -2455,14 +2983,16 @@ export interface OracleOperation {
 
 export const OracleOperationTypeEnum = {
     Read: 'READ',
-    Update: 'UPDATE'
+    Update: 'UPDATE',
+    Transform: 'TRANSFORM'
 } as const;
 
 export type OracleOperationTypeEnum = typeof OracleOperationTypeEnum[keyof typeof OracleOperationTypeEnum];
 export const OracleOperationStatusEnum = {
     Pending: 'PENDING',
     Success: 'SUCCESS',
-    Failed: 'FAILED'
+    Failed: 'FAILED',
+    Skipped: 'SKIPPED'
 } as const;
 
 export type OracleOperationStatusEnum = typeof OracleOperationStatusEnum[keyof typeof OracleOperationStatusEnum];
@@ -2521,6 +3051,12 @@ export interface OracleRegisterRequest {
      * @memberof OracleRegisterRequest
      */
     'taskType': OracleRegisterRequestTaskTypeEnum;
+    /**
+     * Steps applied, in order, to the data read or captured on the source network before it is written to the destination network. Not allowed for READ tasks.
+     * @type {Array<ExecuteOracleTaskRequestTransformationsInner>}
+     * @memberof OracleRegisterRequest
+     */
+    'transformations'?: Array<ExecuteOracleTaskRequestTransformationsInner>;
 }
 
 export const OracleRegisterRequestTaskModeEnum = {
@@ -2691,7 +3227,8 @@ export const OracleStatusResponseTypeEnum = {
 export type OracleStatusResponseTypeEnum = typeof OracleStatusResponseTypeEnum[keyof typeof OracleStatusResponseTypeEnum];
 export const OracleStatusResponseStatusEnum = {
     Active: 'ACTIVE',
-    Inactive: 'INACTIVE'
+    Inactive: 'INACTIVE',
+    Paused: 'PAUSED'
 } as const;
 
 export type OracleStatusResponseStatusEnum = typeof OracleStatusResponseStatusEnum[keyof typeof OracleStatusResponseStatusEnum];
@@ -2781,6 +3318,12 @@ export interface OracleTask {
      * @memberof OracleTask
      */
     'listeningOptions'?: RegisterOracleTaskRequestListeningOptions;
+    /**
+     * Steps applied, in order, to the data read or captured on the source network before it is written to the destination network.
+     * @type {Array<ExecuteOracleTaskRequestTransformationsInner>}
+     * @memberof OracleTask
+     */
+    'transformations'?: Array<ExecuteOracleTaskRequestTransformationsInner>;
 }
 
 export const OracleTaskTypeEnum = {
@@ -2792,7 +3335,8 @@ export const OracleTaskTypeEnum = {
 export type OracleTaskTypeEnum = typeof OracleTaskTypeEnum[keyof typeof OracleTaskTypeEnum];
 export const OracleTaskStatusEnum = {
     Active: 'ACTIVE',
-    Inactive: 'INACTIVE'
+    Inactive: 'INACTIVE',
+    Paused: 'PAUSED'
 } as const;
 
 export type OracleTaskStatusEnum = typeof OracleTaskStatusEnum[keyof typeof OracleTaskStatusEnum];
@@ -2805,114 +3349,616 @@ export const OracleTaskModeEnum = {
 export type OracleTaskModeEnum = typeof OracleTaskModeEnum[keyof typeof OracleTaskModeEnum];
 
 /**
- * Request schema for unregistering a data transfer task. Includes the context ID of the task to be unregistered.
+ * Response schema for the history of an Oracle task. Includes the persisted operations and the cursor the task resumes from.
  * @export
- * @interface OracleUnregisterRequest
+ * @interface OracleTaskHistoryResponse
  */
-export interface OracleUnregisterRequest {
+export interface OracleTaskHistoryResponse {
     /**
      * Unique identifier (UUID) for the session.
      * @type {string}
-     * @memberof OracleUnregisterRequest
+     * @memberof OracleTaskHistoryResponse
      */
     'taskID': string;
-}
-/**
- * Response schema for unregistering a data transfer task. Includes the task ID and status of the unregistration.
- * @export
- * @interface OracleUnregisterResponse
- */
-export interface OracleUnregisterResponse {
     /**
-     * Unique identifier (UUID) for the session.
+     * The current status of the Oracle task.
      * @type {string}
-     * @memberof OracleUnregisterResponse
+     * @memberof OracleTaskHistoryResponse
      */
-    'taskID'?: string;
+    'status': OracleTaskHistoryResponseStatusEnum;
+    /**
+     * The timestamp of the last execution of the task.
+     * @type {number}
+     * @memberof OracleTaskHistoryResponse
+     */
+    'lastExecutedAt'?: number;
     /**
      * 
-     * @type {string}
-     * @memberof OracleUnregisterResponse
+     * @type {GetOracleTaskHistory200ResponseEventCursor}
+     * @memberof OracleTaskHistoryResponse
      */
-    'status'?: OracleUnregisterResponseStatusEnum;
+    'eventCursor'?: GetOracleTaskHistory200ResponseEventCursor;
+    /**
+     * The operations performed by the task, oldest first.
+     * @type {Array<ExecuteOracleTask200ResponseOperationsInner>}
+     * @memberof OracleTaskHistoryResponse
+     */
+    'operations': Array<ExecuteOracleTask200ResponseOperationsInner>;
 }
 
-export const OracleUnregisterResponseStatusEnum = {
-    Success: 'SUCCESS',
-    Failed: 'FAILED'
+export const OracleTaskHistoryResponseStatusEnum = {
+    Active: 'ACTIVE',
+    Inactive: 'INACTIVE',
+    Paused: 'PAUSED'
 } as const;
 
-export type OracleUnregisterResponseStatusEnum = typeof OracleUnregisterResponseStatusEnum[keyof typeof OracleUnregisterResponseStatusEnum];
+export type OracleTaskHistoryResponseStatusEnum = typeof OracleTaskHistoryResponseStatusEnum[keyof typeof OracleTaskHistoryResponseStatusEnum];
 
 /**
- * Response for a pause transaction request. Returns the current status of the SATP session post-pause action.
+ * A declarative step of the pipeline transforming the data of an Oracle task between the source and the destination network. Steps are validated when the task is registered.
  * @export
- * @interface Pause200Response
+ * @interface OracleTransformationStep
  */
-export interface Pause200Response {
+export interface OracleTransformationStep {
     /**
-     * 
-     * @type {Transact200ResponseStatusResponse}
-     * @memberof Pause200Response
+     * The kind of step. EXTRACT selects a field, CONVERT changes its type or unit, AGGREGATE combines it with further reads of the source network and FILTER stops the relay when its predicate does not hold.
+     * @type {string}
+     * @memberof OracleTransformationStep
      */
-    'statusResponse': Transact200ResponseStatusResponse;
-}
-/**
- * Request to temporarily pause an ongoing transaction session, identified by the session and context IDs.
- * @export
- * @interface PauseRequest
- */
-export interface PauseRequest {
+    'type': OracleTransformationStepTypeEnum;
     /**
-     * 
+     * A JSONPath expression, e.g. $.prices[*].value. Selects the value kept by EXTRACT, the field read from each source of AGGREGATE and the field tested by FILTER.
      * @type {string}
-     * @memberof PauseRequest
+     * @memberof OracleTransformationStep
      */
-    'sessionId'?: string;
+    'path'?: string;
     /**
-     * 
+     * The type the value is converted to. Only for CONVERT.
      * @type {string}
-     * @memberof PauseRequest
+     * @memberof OracleTransformationStep
      */
-    'contextId'?: string;
-}
-/**
- * Response for a pause transaction request. Returns the current status of the SATP session post-pause action.
- * @export
- * @interface PauseResponse
- */
-export interface PauseResponse {
+    'targetType'?: OracleTransformationStepTargetTypeEnum;
     /**
-     * 
-     * @type {Transact200ResponseStatusResponse}
-     * @memberof PauseResponse
+     * The number of decimal places the value is shifted by, e.g. 18 to convert ether to wei, or -18 for the opposite. Only for CONVERT.
+     * @type {number}
+     * @memberof OracleTransformationStep
+     */
+    'decimals'?: number;
+    /**
+     * Further contracts read on the source network, whose outputs are aggregated with the current value. Only for AGGREGATE.
+     * @type {Array<ExecuteOracleTaskRequestSourceContract>}
+     * @memberof OracleTransformationStep
+     */
+    'sources'?: Array<ExecuteOracleTaskRequestSourceContract>;
+    /**
+     * The function combining the values. Only for AGGREGATE.
+     * @type {string}
+     * @memberof OracleTransformationStep
+     */
+    'aggregation'?: OracleTransformationStepAggregationEnum;
+    /**
+     * The comparison applied to the value. Only for FILTER.
+     * @type {string}
+     * @memberof OracleTransformationStep
+     */
+    'operator'?: OracleTransformationStepOperatorEnum;
+    /**
+     * The operand of the comparison, a regular expression for MATCHES. Only for FILTER, and not needed for EXISTS.
+     * @type {string}
+     * @memberof OracleTransformationStep
+     */
+    'value'?: string;
+}
+
+export const OracleTransformationStepTypeEnum = {
+    Extract: 'EXTRACT',
+    Convert: 'CONVERT',
+    Aggregate: 'AGGREGATE',
+    Filter: 'FILTER'
+} as const;
+
+export type OracleTransformationStepTypeEnum = typeof OracleTransformationStepTypeEnum[keyof typeof OracleTransformationStepTypeEnum];
+export const OracleTransformationStepTargetTypeEnum = {
+    String: 'STRING',
+    Number: 'NUMBER',
+    Integer: 'INTEGER',
+    Boolean: 'BOOLEAN'
+} as const;
+
+export type OracleTransformationStepTargetTypeEnum = typeof OracleTransformationStepTargetTypeEnum[keyof typeof OracleTransformationStepTargetTypeEnum];
+export const OracleTransformationStepAggregationEnum = {
+    Sum: 'SUM',
+    Average: 'AVERAGE',
+    Min: 'MIN',
+    Max: 'MAX',
+    Median: 'MEDIAN'
+} as const;
+
+export type OracleTransformationStepAggregationEnum = typeof OracleTransformationStepAggregationEnum[keyof typeof OracleTransformationStepAggregationEnum];
+export const OracleTransformationStepOperatorEnum = {
+    Eq: 'EQ',
+    Neq: 'NEQ',
+    Gt: 'GT',
+    Gte: 'GTE',
+    Lt: 'LT',
+    Lte: 'LTE',
+    Exists: 'EXISTS',
+    Matches: 'MATCHES'
+} as const;
+
+export type OracleTransformationStepOperatorEnum = typeof OracleTransformationStepOperatorEnum[keyof typeof OracleTransformationStepOperatorEnum];
+
+/**
+ * Request schema for unregistering a data transfer task. Includes the context ID of the task to be unregistered.
+ * @export
+ * @interface OracleUnregisterRequest
+ */
+export interface OracleUnregisterRequest {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof OracleUnregisterRequest
+     */
+    'taskID': string;
+}
+/**
+ * Response schema for unregistering a data transfer task. Includes the task ID and status of the unregistration.
+ * @export
+ * @interface OracleUnregisterResponse
+ */
+export interface OracleUnregisterResponse {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof OracleUnregisterResponse
+     */
+    'taskID'?: string;
+    /**
+     * 
+     * @type {string}
+     * @memberof OracleUnregisterResponse
+     */
+    'status'?: OracleUnregisterResponseStatusEnum;
+}
+
+export const OracleUnregisterResponseStatusEnum = {
+    Success: 'SUCCESS',
+    Failed: 'FAILED'
+} as const;
+
+export type OracleUnregisterResponseStatusEnum = typeof OracleUnregisterResponseStatusEnum[keyof typeof OracleUnregisterResponseStatusEnum];
+
+/**
+ * Response for a pause transaction request. Returns the current status of the SATP session post-pause action.
+ * @export
+ * @interface Pause200Response
+ */
+export interface Pause200Response {
+    /**
+     * 
+     * @type {Transact200ResponseStatusResponse}
+     * @memberof Pause200Response
      */
     'statusResponse': Transact200ResponseStatusResponse;
 }
 /**
- * Response schema for an audit request. Contains the proofs generated during the audit period and the start and end datetimes.
+ * Response schema for checking the status of a data transfer task. Includes the task ID and status of the task.
+ * @export
+ * @interface PauseOracleTask200Response
+ */
+export interface PauseOracleTask200Response {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof PauseOracleTask200Response
+     */
+    'taskID': string;
+    /**
+     * The type of the Oracle task.
+     * @type {string}
+     * @memberof PauseOracleTask200Response
+     */
+    'type': PauseOracleTask200ResponseTypeEnum;
+    /**
+     * 
+     * @type {TransactRequestSourceAssetNetworkId}
+     * @memberof PauseOracleTask200Response
+     */
+    'srcNetworkId'?: TransactRequestSourceAssetNetworkId;
+    /**
+     * 
+     * @type {ExecuteOracleTask200ResponseSrcContract}
+     * @memberof PauseOracleTask200Response
+     */
+    'srcContract': ExecuteOracleTask200ResponseSrcContract;
+    /**
+     * 
+     * @type {TransactRequestSourceAssetNetworkId}
+     * @memberof PauseOracleTask200Response
+     */
+    'dstNetworkId'?: TransactRequestSourceAssetNetworkId;
+    /**
+     * 
+     * @type {ExecuteOracleTask200ResponseDstContract}
+     * @memberof PauseOracleTask200Response
+     */
+    'dstContract': ExecuteOracleTask200ResponseDstContract;
+    /**
+     * The timestamp when the Oracle task was created or last updated.
+     * @type {number}
+     * @memberof PauseOracleTask200Response
+     */
+    'timestamp': number;
+    /**
+     * The list of operations performed by the Oracle task.
+     * @type {Array<ExecuteOracleTask200ResponseOperationsInner>}
+     * @memberof PauseOracleTask200Response
+     */
+    'operations': Array<ExecuteOracleTask200ResponseOperationsInner>;
+    /**
+     * The current status of the Oracle task.
+     * @type {string}
+     * @memberof PauseOracleTask200Response
+     */
+    'status': PauseOracleTask200ResponseStatusEnum;
+    /**
+     * The mode of operation for registered tasks.
+     * @type {string}
+     * @memberof PauseOracleTask200Response
+     */
+    'mode': PauseOracleTask200ResponseModeEnum;
+    /**
+     * The interval for polling in milliseconds. Only if taskMode is POLLING.
+     * @type {number}
+     * @memberof PauseOracleTask200Response
+     */
+    'pollingInterval'?: number;
+}
+
+export const PauseOracleTask200ResponseTypeEnum = {
+    Read: 'READ',
+    Update: 'UPDATE',
+    ReadAndUpdate: 'READ_AND_UPDATE'
+} as const;
+
+export type PauseOracleTask200ResponseTypeEnum = typeof PauseOracleTask200ResponseTypeEnum[keyof typeof PauseOracleTask200ResponseTypeEnum];
+export const PauseOracleTask200ResponseStatusEnum = {
+    Active: 'ACTIVE',
+    Inactive: 'INACTIVE',
+    Paused: 'PAUSED'
+} as const;
+
+export type PauseOracleTask200ResponseStatusEnum = typeof PauseOracleTask200ResponseStatusEnum[keyof typeof PauseOracleTask200ResponseStatusEnum];
+export const PauseOracleTask200ResponseModeEnum = {
+    Polling: 'POLLING',
+    EventListening: 'EVENT_LISTENING',
+    Immediate: 'IMMEDIATE'
+} as const;
+
+export type PauseOracleTask200ResponseModeEnum = typeof PauseOracleTask200ResponseModeEnum[keyof typeof PauseOracleTask200ResponseModeEnum];
+
+/**
+ * Request to temporarily pause an ongoing transaction session, identified by the session and context IDs.
+ * @export
+ * @interface PauseRequest
+ */
+export interface PauseRequest {
+    /**
+     * 
+     * @type {string}
+     * @memberof PauseRequest
+     */
+    'sessionId'?: string;
+    /**
+     * 
+     * @type {string}
+     * @memberof PauseRequest
+     */
+    'contextId'?: string;
+}
+/**
+ * Response for a pause transaction request. Returns the current status of the SATP session post-pause action.
+ * @export
+ * @interface PauseResponse
+ */
+export interface PauseResponse {
+    /**
+     * 
+     * @type {Transact200ResponseStatusResponse}
+     * @memberof PauseResponse
+     */
+    'statusResponse': Transact200ResponseStatusResponse;
+}
+/**
+ * Response schema for an audit request. Contains the proofs generated during the audit period and the start and end datetimes.
+ * @export
+ * @interface PerformAudit200Response
+ */
+export interface PerformAudit200Response {
+    /**
+     * 
+     * @type {Array<string>}
+     * @memberof PerformAudit200Response
+     */
+    'sessions'?: Array<string>;
+    /**
+     * The start timestamp for the audit period, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof PerformAudit200Response
+     */
+    'startTimestamp'?: number;
+    /**
+     * The end timestamp for the audit period, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof PerformAudit200Response
+     */
+    'endTimestamp'?: number;
+    /**
+     * The operator interventions recorded during the audit period, oldest first.
+     * @type {Array<PerformAudit200ResponseInterventionsInner>}
+     * @memberof PerformAudit200Response
+     */
+    'interventions'?: Array<PerformAudit200ResponseInterventionsInner>;
+}
+/**
+ * A manual intervention of an operator on a SATP session, as written to the audit log.
+ * @export
+ * @interface PerformAudit200ResponseInterventionsInner
+ */
+export interface PerformAudit200ResponseInterventionsInner {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof PerformAudit200ResponseInterventionsInner
+     */
+    'sessionID': string;
+    /**
+     * 
+     * @type {string}
+     * @memberof PerformAudit200ResponseInterventionsInner
+     */
+    'action': PerformAudit200ResponseInterventionsInnerActionEnum;
+    /**
+     * Why the operator intervened.
+     * @type {string}
+     * @memberof PerformAudit200ResponseInterventionsInner
+     */
+    'reason'?: string;
+    /**
+     * Whether the intervention was carried out.
+     * @type {boolean}
+     * @memberof PerformAudit200ResponseInterventionsInner
+     */
+    'success': boolean;
+    /**
+     * The state of the session before the intervention.
+     * @type {string}
+     * @memberof PerformAudit200ResponseInterventionsInner
+     */
+    'previousState': string;
+    /**
+     * The state of the session after the intervention.
+     * @type {string}
+     * @memberof PerformAudit200ResponseInterventionsInner
+     */
+    'state': string;
+    /**
+     * Why the intervention failed, when it did.
+     * @type {string}
+     * @memberof PerformAudit200ResponseInterventionsInner
+     */
+    'message'?: string;
+    /**
+     * When the intervention happened, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof PerformAudit200ResponseInterventionsInner
+     */
+    'timestamp': number;
+}
+
+export const PerformAudit200ResponseInterventionsInnerActionEnum = {
+    ForceRollback: 'FORCE_ROLLBACK',
+    RetryStage: 'RETRY_STAGE',
+    MarkResolved: 'MARK_RESOLVED'
+} as const;
+
+export type PerformAudit200ResponseInterventionsInnerActionEnum = typeof PerformAudit200ResponseInterventionsInnerActionEnum[keyof typeof PerformAudit200ResponseInterventionsInnerActionEnum];
+
+/**
+ * A signed, time-limited offer of the gateway to perform a transfer between two networks.
+ * @export
+ * @interface Quote
+ */
+export interface Quote {
+    /**
+     * 
+     * @type {string}
+     * @memberof Quote
+     */
+    'quoteId': string;
+    /**
+     * The ID of the gateway issuing the quote.
+     * @type {string}
+     * @memberof Quote
+     */
+    'gatewayId': string;
+    /**
+     * The public key the quote is signed with.
+     * @type {string}
+     * @memberof Quote
+     */
+    'gatewayPubKey': string;
+    /**
+     * The ID of the gateway connected to the receiver network.
+     * @type {string}
+     * @memberof Quote
+     */
+    'counterpartyGatewayId': string;
+    /**
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof Quote
+     */
+    'sourceAsset': TransactRequestSourceAsset;
+    /**
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof Quote
+     */
+    'receiverAsset': TransactRequestSourceAsset;
+    /**
+     * 
+     * @type {Quote200ResponseSourceFee}
+     * @memberof Quote
+     */
+    'sourceFee': Quote200ResponseSourceFee;
+    /**
+     * 
+     * @type {Quote200ResponseSourceFee}
+     * @memberof Quote
+     */
+    'receiverFee': Quote200ResponseSourceFee;
+    /**
+     * The fee charged by the gateway, in units of the source asset.
+     * @type {string}
+     * @memberof Quote
+     */
+    'gatewayFee': string;
+    /**
+     * When the quote was issued, in milliseconds since epoch.
+     * @type {number}
+     * @memberof Quote
+     */
+    'issuedAt': number;
+    /**
+     * Until when the quote can be referenced by a transact request, in milliseconds since epoch.
+     * @type {number}
+     * @memberof Quote
+     */
+    'expiresAt': number;
+    /**
+     * Signature of the quote by the gateway, with the signature field set to an empty string.
+     * @type {string}
+     * @memberof Quote
+     */
+    'signature': string;
+}
+/**
+ * A signed, time-limited offer of the gateway to perform a transfer between two networks.
+ * @export
+ * @interface Quote200Response
+ */
+export interface Quote200Response {
+    /**
+     * 
+     * @type {string}
+     * @memberof Quote200Response
+     */
+    'quoteId': string;
+    /**
+     * The ID of the gateway issuing the quote.
+     * @type {string}
+     * @memberof Quote200Response
+     */
+    'gatewayId': string;
+    /**
+     * The public key the quote is signed with.
+     * @type {string}
+     * @memberof Quote200Response
+     */
+    'gatewayPubKey': string;
+    /**
+     * The ID of the gateway connected to the receiver network.
+     * @type {string}
+     * @memberof Quote200Response
+     */
+    'counterpartyGatewayId': string;
+    /**
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof Quote200Response
+     */
+    'sourceAsset': TransactRequestSourceAsset;
+    /**
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof Quote200Response
+     */
+    'receiverAsset': TransactRequestSourceAsset;
+    /**
+     * 
+     * @type {Quote200ResponseSourceFee}
+     * @memberof Quote200Response
+     */
+    'sourceFee': Quote200ResponseSourceFee;
+    /**
+     * 
+     * @type {Quote200ResponseSourceFee}
+     * @memberof Quote200Response
+     */
+    'receiverFee': Quote200ResponseSourceFee;
+    /**
+     * The fee charged by the gateway, in units of the source asset.
+     * @type {string}
+     * @memberof Quote200Response
+     */
+    'gatewayFee': string;
+    /**
+     * When the quote was issued, in milliseconds since epoch.
+     * @type {number}
+     * @memberof Quote200Response
+     */
+    'issuedAt': number;
+    /**
+     * Until when the quote can be referenced by a transact request, in milliseconds since epoch.
+     * @type {number}
+     * @memberof Quote200Response
+     */
+    'expiresAt': number;
+    /**
+     * Signature of the quote by the gateway, with the signature field set to an empty string.
+     * @type {string}
+     * @memberof Quote200Response
+     */
+    'signature': string;
+}
+/**
+ * The fees a gateway expects to pay on a ledger to perform its side of a transfer.
  * @export
- * @interface PerformAudit200Response
+ * @interface Quote200ResponseSourceFee
  */
-export interface PerformAudit200Response {
+export interface Quote200ResponseSourceFee {
     /**
      * 
-     * @type {Array<string>}
-     * @memberof PerformAudit200Response
+     * @type {TransactRequestSourceAssetNetworkId}
+     * @memberof Quote200ResponseSourceFee
      */
-    'sessions'?: Array<string>;
+    'networkId': TransactRequestSourceAssetNetworkId;
     /**
-     * The start timestamp for the audit period, as a Unix timestamp (milliseconds since epoch).
-     * @type {number}
-     * @memberof PerformAudit200Response
+     * The fee in the smallest unit of the native token of the ledger. Absent when the connector of the ledger cannot estimate fees.
+     * @type {string}
+     * @memberof Quote200ResponseSourceFee
      */
-    'startTimestamp'?: number;
+    'fee'?: string;
+}
+/**
+ * Request for a quote of a transfer. The assets must be the same as in the TransactRequest that references the quote.
+ * @export
+ * @interface QuoteRequest
+ */
+export interface QuoteRequest {
     /**
-     * The end timestamp for the audit period, as a Unix timestamp (milliseconds since epoch).
-     * @type {number}
-     * @memberof PerformAudit200Response
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof QuoteRequest
      */
-    'endTimestamp'?: number;
+    'sourceAsset': TransactRequestSourceAsset;
+    /**
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof QuoteRequest
+     */
+    'receiverAsset': TransactRequestSourceAsset;
 }
 /**
  * Response schema for registering a repeatable task. Includes the task ID and status of the registration.
@@ -2995,6 +4041,12 @@ export interface RegisterOracleTaskRequest {
      * @memberof RegisterOracleTaskRequest
      */
     'taskType': RegisterOracleTaskRequestTaskTypeEnum;
+    /**
+     * Steps applied, in order, to the data read or captured on the source network before it is written to the destination network. Not allowed for READ tasks.
+     * @type {Array<ExecuteOracleTaskRequestTransformationsInner>}
+     * @memberof RegisterOracleTaskRequest
+     */
+    'transformations'?: Array<ExecuteOracleTaskRequestTransformationsInner>;
 }
 
 export const RegisterOracleTaskRequestTaskModeEnum = {
@@ -3012,7 +4064,7 @@ export const RegisterOracleTaskRequestTaskTypeEnum = {
 export type RegisterOracleTaskRequestTaskTypeEnum = typeof RegisterOracleTaskRequestTaskTypeEnum[keyof typeof RegisterOracleTaskRequestTaskTypeEnum];
 
 /**
- * The contract address on the destination blockchain. Only if taskType is UPDATE or READ_AND_UPDATE.
+ * Represents a business logic contract with its associated metadata and method details.
  * @export
  * @interface RegisterOracleTaskRequestDestinationContract
  */
@@ -3074,7 +4126,7 @@ export interface RegisterOracleTaskRequestListeningOptions {
     'filterParams'?: Array<string>;
 }
 /**
- * The contract address on the source blockchain. Only if taskType is READ or READ_AND_UPDATE.
+ * Represents a business logic contract with its associated metadata and method details.
  * @export
  * @interface RegisterOracleTaskRequestSourceContract
  */
@@ -3116,6 +4168,102 @@ export interface RegisterOracleTaskRequestSourceContract {
      */
     'params'?: Array<ExecuteOracleTaskRequestSourceContractParamsInner>;
 }
+/**
+ * Response schema for checking the status of a data transfer task. Includes the task ID and status of the task.
+ * @export
+ * @interface ResumeOracleTask200Response
+ */
+export interface ResumeOracleTask200Response {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof ResumeOracleTask200Response
+     */
+    'taskID': string;
+    /**
+     * The type of the Oracle task.
+     * @type {string}
+     * @memberof ResumeOracleTask200Response
+     */
+    'type': ResumeOracleTask200ResponseTypeEnum;
+    /**
+     * 
+     * @type {TransactRequestSourceAssetNetworkId}
+     * @memberof ResumeOracleTask200Response
+     */
+    'srcNetworkId'?: TransactRequestSourceAssetNetworkId;
+    /**
+     * 
+     * @type {ExecuteOracleTask200ResponseSrcContract}
+     * @memberof ResumeOracleTask200Response
+     */
+    'srcContract': ExecuteOracleTask200ResponseSrcContract;
+    /**
+     * 
+     * @type {TransactRequestSourceAssetNetworkId}
+     * @memberof ResumeOracleTask200Response
+     */
+    'dstNetworkId'?: TransactRequestSourceAssetNetworkId;
+    /**
+     * 
+     * @type {ExecuteOracleTask200ResponseDstContract}
+     * @memberof ResumeOracleTask200Response
+     */
+    'dstContract': ExecuteOracleTask200ResponseDstContract;
+    /**
+     * The timestamp when the Oracle task was created or last updated.
+     * @type {number}
+     * @memberof ResumeOracleTask200Response
+     */
+    'timestamp': number;
+    /**
+     * The list of operations performed by the Oracle task.
+     * @type {Array<ExecuteOracleTask200ResponseOperationsInner>}
+     * @memberof ResumeOracleTask200Response
+     */
+    'operations': Array<ExecuteOracleTask200ResponseOperationsInner>;
+    /**
+     * The current status of the Oracle task.
+     * @type {string}
+     * @memberof ResumeOracleTask200Response
+     */
+    'status': ResumeOracleTask200ResponseStatusEnum;
+    /**
+     * The mode of operation for registered tasks.
+     * @type {string}
+     * @memberof ResumeOracleTask200Response
+     */
+    'mode': ResumeOracleTask200ResponseModeEnum;
+    /**
+     * The interval for polling in milliseconds. Only if taskMode is POLLING.
+     * @type {number}
+     * @memberof ResumeOracleTask200Response
+     */
+    'pollingInterval'?: number;
+}
+
+export const ResumeOracleTask200ResponseTypeEnum = {
+    Read: 'READ',
+    Update: 'UPDATE',
+    ReadAndUpdate: 'READ_AND_UPDATE'
+} as const;
+
+export type ResumeOracleTask200ResponseTypeEnum = typeof ResumeOracleTask200ResponseTypeEnum[keyof typeof ResumeOracleTask200ResponseTypeEnum];
+export const ResumeOracleTask200ResponseStatusEnum = {
+    Active: 'ACTIVE',
+    Inactive: 'INACTIVE',
+    Paused: 'PAUSED'
+} as const;
+
+export type ResumeOracleTask200ResponseStatusEnum = typeof ResumeOracleTask200ResponseStatusEnum[keyof typeof ResumeOracleTask200ResponseStatusEnum];
+export const ResumeOracleTask200ResponseModeEnum = {
+    Polling: 'POLLING',
+    EventListening: 'EVENT_LISTENING',
+    Immediate: 'IMMEDIATE'
+} as const;
+
+export type ResumeOracleTask200ResponseModeEnum = typeof ResumeOracleTask200ResponseModeEnum[keyof typeof ResumeOracleTask200ResponseModeEnum];
+
 /**
  * 
  * @export
@@ -3193,58 +4341,320 @@ export interface Route {
      * @type {GetRoutes200ResponseRoutesInnerFromToken}
      * @memberof Route
      */
-    'toToken'?: GetRoutes200ResponseRoutesInnerFromToken;
+    'toToken'?: GetRoutes200ResponseRoutesInnerFromToken;
+    /**
+     * The expected gas cost in USD.
+     * @type {string}
+     * @memberof Route
+     */
+    'gasCostUSD'?: string;
+    /**
+     * Whether chain switching is enabled or not.
+     * @type {boolean}
+     * @memberof Route
+     */
+    'containsSwitchChain'?: boolean;
+    /**
+     * List of steps involved in this route, adjusted for mode.
+     * @type {Array<GetRoutes200ResponseRoutesInnerStepsInner>}
+     * @memberof Route
+     */
+    'steps'?: Array<GetRoutes200ResponseRoutesInnerStepsInner>;
+    /**
+     * 
+     * @type {GetRoutes200ResponseRoutesInnerInsurance}
+     * @memberof Route
+     */
+    'insurance'?: GetRoutes200ResponseRoutesInnerInsurance;
+    /**
+     * List of tags identifiers providing additional context or categorization.
+     * @type {Array<string>}
+     * @memberof Route
+     */
+    'tags'?: Array<string>;
+}
+
+export const RouteModeEnum = {
+    Data: 'data',
+    Transfer: 'transfer'
+} as const;
+
+export type RouteModeEnum = typeof RouteModeEnum[keyof typeof RouteModeEnum];
+
+/**
+ * A collection of available and unavailable routes
+ * @export
+ * @interface RoutesResponse
+ */
+export interface RoutesResponse {
+    /**
+     * A collection of route objects
+     * @type {Array<GetRoutes200ResponseRoutesInner>}
+     * @memberof RoutesResponse
+     */
+    'routes': Array<GetRoutes200ResponseRoutesInner>;
+}
+/**
+ * A manual intervention of an operator on a SATP session, as written to the audit log.
+ * @export
+ * @interface SessionIntervention
+ */
+export interface SessionIntervention {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof SessionIntervention
+     */
+    'sessionID': string;
+    /**
+     * 
+     * @type {string}
+     * @memberof SessionIntervention
+     */
+    'action': SessionInterventionActionEnum;
+    /**
+     * Why the operator intervened.
+     * @type {string}
+     * @memberof SessionIntervention
+     */
+    'reason'?: string;
+    /**
+     * The subject of the token of the operator, absent when the API server does not authenticate requests.
+     * @type {string}
+     * @memberof SessionIntervention
+     */
+    'operator'?: string;
+    /**
+     * Whether the intervention was carried out.
+     * @type {boolean}
+     * @memberof SessionIntervention
+     */
+    'success': boolean;
+    /**
+     * Whether the intervention was refused, as the session did not allow it.
+     * @type {boolean}
+     * @memberof SessionIntervention
+     */
+    'refused'?: boolean;
+    /**
+     * The state of the session before the intervention.
+     * @type {string}
+     * @memberof SessionIntervention
+     */
+    'previousState': string;
+    /**
+     * The state of the session after the intervention.
+     * @type {string}
+     * @memberof SessionIntervention
+     */
+    'state': string;
+    /**
+     * Why the intervention failed or was refused, when it was.
+     * @type {string}
+     * @memberof SessionIntervention
+     */
+    'message'?: string;
+    /**
+     * When the intervention happened, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof SessionIntervention
+     */
+    'timestamp': number;
+}
+
+export const SessionInterventionActionEnum = {
+    ForceRollback: 'FORCE_ROLLBACK',
+    RetryStage: 'RETRY_STAGE',
+    MarkResolved: 'MARK_RESOLVED'
+} as const;
+
+export type SessionInterventionActionEnum = typeof SessionInterventionActionEnum[keyof typeof SessionInterventionActionEnum];
+
+/**
+ * Request schema for a manual intervention of an operator on a SATP session.
+ * @export
+ * @interface SessionInterventionRequest
+ */
+export interface SessionInterventionRequest {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof SessionInterventionRequest
+     */
+    'sessionID': string;
+    /**
+     * FORCE_ROLLBACK rolls the session back, RETRY_STAGE resends the first message of the current stage and MARK_RESOLVED closes a session that was settled outside of the gateway.
+     * @type {string}
+     * @memberof SessionInterventionRequest
+     */
+    'action': SessionInterventionRequestActionEnum;
+    /**
+     * Why the operator intervened, kept in the audit log.
+     * @type {string}
+     * @memberof SessionInterventionRequest
+     */
+    'reason'?: string;
+}
+
+export const SessionInterventionRequestActionEnum = {
+    ForceRollback: 'FORCE_ROLLBACK',
+    RetryStage: 'RETRY_STAGE',
+    MarkResolved: 'MARK_RESOLVED'
+} as const;
+
+export type SessionInterventionRequestActionEnum = typeof SessionInterventionRequestActionEnum[keyof typeof SessionInterventionRequestActionEnum];
+
+/**
+ * Sessions matching the filters of a session listing, most recent first.
+ * @export
+ * @interface SessionListResponse
+ */
+export interface SessionListResponse {
+    /**
+     * 
+     * @type {Array<ListSessions200ResponseSessionsInner>}
+     * @memberof SessionListResponse
+     */
+    'sessions': Array<ListSessions200ResponseSessionsInner>;
+}
+/**
+ * Summary of a SATP session known to the gateway, as listed to operators.
+ * @export
+ * @interface SessionSummary
+ */
+export interface SessionSummary {
+    /**
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof SessionSummary
+     */
+    'sessionID': string;
+    /**
+     * Whether this gateway is the client or the server of the session.
+     * @type {string}
+     * @memberof SessionSummary
+     */
+    'role': SessionSummaryRoleEnum;
+    /**
+     * The state of the session.
+     * @type {string}
+     * @memberof SessionSummary
+     */
+    'state': SessionSummaryStateEnum;
+    /**
+     * The SATP stage the session is in.
+     * @type {string}
+     * @memberof SessionSummary
+     */
+    'stage': SessionSummaryStageEnum;
     /**
-     * The expected gas cost in USD.
+     * The last message of the protocol handled in the session.
      * @type {string}
-     * @memberof Route
+     * @memberof SessionSummary
      */
-    'gasCostUSD'?: string;
+    'step': string;
     /**
-     * Whether chain switching is enabled or not.
-     * @type {boolean}
-     * @memberof Route
+     * The identifier of the gateway on the other side of the session.
+     * @type {string}
+     * @memberof SessionSummary
      */
-    'containsSwitchChain'?: boolean;
+    'counterpartyGatewayID'?: string;
     /**
-     * List of steps involved in this route, adjusted for mode.
-     * @type {Array<GetRoutes200ResponseRoutesInnerStepsInner>}
-     * @memberof Route
+     * When the session started, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof SessionSummary
      */
-    'steps'?: Array<GetRoutes200ResponseRoutesInnerStepsInner>;
+    'startTime'?: number;
     /**
-     * 
-     * @type {GetRoutes200ResponseRoutesInnerInsurance}
-     * @memberof Route
+     * When the last message of the session was received, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof SessionSummary
      */
-    'insurance'?: GetRoutes200ResponseRoutesInnerInsurance;
+    'lastMessageTime'?: number;
     /**
-     * List of tags identifiers providing additional context or categorization.
-     * @type {Array<string>}
-     * @memberof Route
+     * Milliseconds elapsed since the session started.
+     * @type {number}
+     * @memberof SessionSummary
      */
-    'tags'?: Array<string>;
+    'age'?: number;
 }
 
-export const RouteModeEnum = {
-    Data: 'data',
-    Transfer: 'transfer'
+export const SessionSummaryRoleEnum = {
+    Client: 'CLIENT',
+    Server: 'SERVER'
 } as const;
 
-export type RouteModeEnum = typeof RouteModeEnum[keyof typeof RouteModeEnum];
+export type SessionSummaryRoleEnum = typeof SessionSummaryRoleEnum[keyof typeof SessionSummaryRoleEnum];
+export const SessionSummaryStateEnum = {
+    Unspecified: 'UNSPECIFIED',
+    Ongoing: 'ONGOING',
+    Completed: 'COMPLETED',
+    Rejected: 'REJECTED',
+    ConditionalRejected: 'CONDITIONAL_REJECTED',
+    Error: 'ERROR',
+    Recovered: 'RECOVERED',
+    Recovering: 'RECOVERING'
+} as const;
+
+export type SessionSummaryStateEnum = typeof SessionSummaryStateEnum[keyof typeof SessionSummaryStateEnum];
+export const SessionSummaryStageEnum = {
+    _0: 'STAGE_0',
+    _1: 'STAGE_1',
+    _2: 'STAGE_2',
+    _3: 'STAGE_3'
+} as const;
+
+export type SessionSummaryStageEnum = typeof SessionSummaryStageEnum[keyof typeof SessionSummaryStageEnum];
 
 /**
- * A collection of available and unavailable routes
+ * The steps of a session, as recorded in the local log of the gateway, oldest first.
  * @export
- * @interface RoutesResponse
+ * @interface SessionTimelineResponse
  */
-export interface RoutesResponse {
+export interface SessionTimelineResponse {
     /**
-     * A collection of route objects
-     * @type {Array<GetRoutes200ResponseRoutesInner>}
-     * @memberof RoutesResponse
+     * Unique identifier (UUID) for the session.
+     * @type {string}
+     * @memberof SessionTimelineResponse
      */
-    'routes': Array<GetRoutes200ResponseRoutesInner>;
+    'sessionID': string;
+    /**
+     * 
+     * @type {Array<GetSessionTimeline200ResponseStepsInner>}
+     * @memberof SessionTimelineResponse
+     */
+    'steps': Array<GetSessionTimeline200ResponseStepsInner>;
+}
+/**
+ * An entry of the local log of a session.
+ * @export
+ * @interface SessionTimelineStep
+ */
+export interface SessionTimelineStep {
+    /**
+     * The sequence number of the session when the entry was written.
+     * @type {number}
+     * @memberof SessionTimelineStep
+     */
+    'sequenceNumber': number;
+    /**
+     * The message or event the entry refers to.
+     * @type {string}
+     * @memberof SessionTimelineStep
+     */
+    'type': string;
+    /**
+     * What happened to the message, for example init, exec, done or fail.
+     * @type {string}
+     * @memberof SessionTimelineStep
+     */
+    'operation': string;
+    /**
+     * When the entry was written, as a Unix timestamp (milliseconds since epoch).
+     * @type {number}
+     * @memberof SessionTimelineStep
+     */
+    'timestamp': number;
 }
 /**
  * Request for retrieving the current status of a session, identified by the session ID.
@@ -3723,6 +5133,37 @@ export interface TransactRequest {
      * @memberof TransactRequest
      */
     'receiverAsset': TransactRequestSourceAsset;
+    /**
+     * Additional asset legs transferred in the same session as the source asset. Every leg is locked, burned, minted and assigned together and rolled back together if any leg fails.
+     * @type {Array<TransactRequestBatchAssetsInner>}
+     * @memberof TransactRequest
+     */
+    'batchAssets'?: Array<TransactRequestBatchAssetsInner>;
+    /**
+     * The ID of a quote previously issued by this gateway for the same assets. The transfer is rejected if the quote expired or was already used.
+     * @type {string}
+     * @memberof TransactRequest
+     */
+    'quoteId'?: string;
+}
+/**
+ * A single leg of an atomic batch transfer, pairing the asset given up on the source network with the asset received on the destination network.
+ * @export
+ * @interface TransactRequestBatchAssetsInner
+ */
+export interface TransactRequestBatchAssetsInner {
+    /**
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof TransactRequestBatchAssetsInner
+     */
+    'sourceAsset': TransactRequestSourceAsset;
+    /**
+     * 
+     * @type {TransactRequestSourceAsset}
+     * @memberof TransactRequestBatchAssetsInner
+     */
+    'receiverAsset': TransactRequestSourceAsset;
 }
 /**
  * An asset
@@ -3772,6 +5213,18 @@ export interface TransactRequestSourceAsset {
      * @memberof TransactRequestSourceAsset
      */
     'amount'?: string;
+    /**
+     * The unique descriptor of a non-fungible asset, e.g. the ERC-721 token id.
+     * @type {string}
+     * @memberof TransactRequestSourceAsset
+     */
+    'uniqueDescriptor'?: string;
+    /**
+     * The metadata URI of a non-fungible asset.
+     * @type {string}
+     * @memberof TransactRequestSourceAsset
+     */
+    'metadataUri'?: string;
     /**
      * 
      * @type {TransactRequestSourceAssetNetworkId}
@@ -3829,7 +5282,9 @@ export const TransactRequestSourceAssetNetworkIdLedgerTypeEnum = {
     Corda4X: 'CORDA_4X',
     Ethereum: 'ETHEREUM',
     Fabric2: 'FABRIC_2',
-    Sawtooth1X: 'SAWTOOTH_1X'
+    Polkadot: 'POLKADOT',
+    Sawtooth1X: 'SAWTOOTH_1X',
+    Stellar: 'STELLAR'
 } as const;
 
 export type TransactRequestSourceAssetNetworkIdLedgerTypeEnum = typeof TransactRequestSourceAssetNetworkIdLedgerTypeEnum[keyof typeof TransactRequestSourceAssetNetworkIdLedgerTypeEnum];
@@ -4086,6 +5541,43 @@ export const AdminApiAxiosParamCreator = function (configuration?: Configuration
 
 
     
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Retrieve every step of a session from the local log of the gateway.
+         * @summary Get the timeline of a SATP session
+         * @param {string} sessionID Unique identifier for the session.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getSessionTimeline: async (sessionID: string, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'sessionID' is not null or undefined
+            assertParamExists('getSessionTimeline', 'sessionID', sessionID)
+            const localVarPath = `/api/v1/@hyperledger/cactus-plugin-satp-hermes/session-timeline`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            if (sessionID !== undefined) {
+                localVarQueryParameter['SessionID'] = sessionID;
+            }
+
+
+    
             setSearchParams(localVarUrlObj, localVarQueryParameter);
             let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
             localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
@@ -4123,6 +5615,97 @@ export const AdminApiAxiosParamCreator = function (configuration?: Configuration
 
 
     
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Force the rollback of a session, retry its current stage or mark it as manually resolved. Every intervention is written to the audit log.
+         * @summary Intervene in a SATP session
+         * @param {InterveneInSessionRequest} interveneInSessionRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        interveneInSession: async (interveneInSessionRequest: InterveneInSessionRequest, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'interveneInSessionRequest' is not null or undefined
+            assertParamExists('interveneInSession', 'interveneInSessionRequest', interveneInSessionRequest)
+            const localVarPath = `/api/v1/@hyperledger/cactus-plugin-satp-hermes/session-intervention`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(interveneInSessionRequest, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Lists the sessions known to the gateway, optionally filtered by state, stage, counterparty gateway and age.
+         * @summary List SATP sessions
+         * @param {string} [state] Only list sessions in this state, for example ERROR.
+         * @param {string} [stage] Only list sessions in this stage, from STAGE_0 to STAGE_3.
+         * @param {string} [counterparty] Only list sessions with this counterparty gateway.
+         * @param {number} [minAge] Only list sessions started at least this many milliseconds ago.
+         * @param {number} [maxAge] Only list sessions started at most this many milliseconds ago.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listSessions: async (state?: string, stage?: string, counterparty?: string, minAge?: number, maxAge?: number, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            const localVarPath = `/api/v1/@hyperledger/cactus-plugin-satp-hermes/sessions`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            if (state !== undefined) {
+                localVarQueryParameter['state'] = state;
+            }
+
+            if (stage !== undefined) {
+                localVarQueryParameter['stage'] = stage;
+            }
+
+            if (counterparty !== undefined) {
+                localVarQueryParameter['counterparty'] = counterparty;
+            }
+
+            if (minAge !== undefined) {
+                localVarQueryParameter['minAge'] = minAge;
+            }
+
+            if (maxAge !== undefined) {
+                localVarQueryParameter['maxAge'] = maxAge;
+            }
+
+
+    
             setSearchParams(localVarUrlObj, localVarQueryParameter);
             let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
             localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
@@ -4250,6 +5833,17 @@ export const AdminApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.getSessionIds(sessionsRequest, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * Retrieve every step of a session from the local log of the gateway.
+         * @summary Get the timeline of a SATP session
+         * @param {string} sessionID Unique identifier for the session.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async getSessionTimeline(sessionID: string, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<GetSessionTimeline200Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.getSessionTimeline(sessionID, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * Retrieve the status of a SATP session
          * @summary Get SATP current session data
@@ -4261,6 +5855,32 @@ export const AdminApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.getStatus(sessionID, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * Force the rollback of a session, retry its current stage or mark it as manually resolved. Every intervention is written to the audit log.
+         * @summary Intervene in a SATP session
+         * @param {InterveneInSessionRequest} interveneInSessionRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async interveneInSession(interveneInSessionRequest: InterveneInSessionRequest, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<InterveneInSession200Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.interveneInSession(interveneInSessionRequest, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
+        /**
+         * Lists the sessions known to the gateway, optionally filtered by state, stage, counterparty gateway and age.
+         * @summary List SATP sessions
+         * @param {string} [state] Only list sessions in this state, for example ERROR.
+         * @param {string} [stage] Only list sessions in this stage, from STAGE_0 to STAGE_3.
+         * @param {string} [counterparty] Only list sessions with this counterparty gateway.
+         * @param {number} [minAge] Only list sessions started at least this many milliseconds ago.
+         * @param {number} [maxAge] Only list sessions started at most this many milliseconds ago.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async listSessions(state?: string, stage?: string, counterparty?: string, minAge?: number, maxAge?: number, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<ListSessions200Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.listSessions(state, stage, counterparty, minAge, maxAge, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * Attempts to pause a previously submitted transaction intent, temporarily halting its execution.
          * @summary Pause a transaction session
@@ -4323,6 +5943,16 @@ export const AdminApiFactory = function (configuration?: Configuration, basePath
         getSessionIds(sessionsRequest?: object, options?: any): AxiosPromise<Array<string>> {
             return localVarFp.getSessionIds(sessionsRequest, options).then((request) => request(axios, basePath));
         },
+        /**
+         * Retrieve every step of a session from the local log of the gateway.
+         * @summary Get the timeline of a SATP session
+         * @param {string} sessionID Unique identifier for the session.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getSessionTimeline(sessionID: string, options?: any): AxiosPromise<GetSessionTimeline200Response> {
+            return localVarFp.getSessionTimeline(sessionID, options).then((request) => request(axios, basePath));
+        },
         /**
          * Retrieve the status of a SATP session
          * @summary Get SATP current session data
@@ -4333,6 +5963,30 @@ export const AdminApiFactory = function (configuration?: Configuration, basePath
         getStatus(sessionID: string, options?: any): AxiosPromise<Transact200ResponseStatusResponse> {
             return localVarFp.getStatus(sessionID, options).then((request) => request(axios, basePath));
         },
+        /**
+         * Force the rollback of a session, retry its current stage or mark it as manually resolved. Every intervention is written to the audit log.
+         * @summary Intervene in a SATP session
+         * @param {InterveneInSessionRequest} interveneInSessionRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        interveneInSession(interveneInSessionRequest: InterveneInSessionRequest, options?: any): AxiosPromise<InterveneInSession200Response> {
+            return localVarFp.interveneInSession(interveneInSessionRequest, options).then((request) => request(axios, basePath));
+        },
+        /**
+         * Lists the sessions known to the gateway, optionally filtered by state, stage, counterparty gateway and age.
+         * @summary List SATP sessions
+         * @param {string} [state] Only list sessions in this state, for example ERROR.
+         * @param {string} [stage] Only list sessions in this stage, from STAGE_0 to STAGE_3.
+         * @param {string} [counterparty] Only list sessions with this counterparty gateway.
+         * @param {number} [minAge] Only list sessions started at least this many milliseconds ago.
+         * @param {number} [maxAge] Only list sessions started at most this many milliseconds ago.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        listSessions(state?: string, stage?: string, counterparty?: string, minAge?: number, maxAge?: number, options?: any): AxiosPromise<ListSessions200Response> {
+            return localVarFp.listSessions(state, stage, counterparty, minAge, maxAge, options).then((request) => request(axios, basePath));
+        },
         /**
          * Attempts to pause a previously submitted transaction intent, temporarily halting its execution.
          * @summary Pause a transaction session
@@ -4400,15 +6054,55 @@ export class AdminApi extends BaseAPI {
     }
 
     /**
-     * Retrieve the status of a SATP session
-     * @summary Get SATP current session data
-     * @param {string} sessionID Unique identifier for the session.
+     * Retrieve every step of a session from the local log of the gateway.
+     * @summary Get the timeline of a SATP session
+     * @param {string} sessionID Unique identifier for the session.
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof AdminApi
+     */
+    public getSessionTimeline(sessionID: string, options?: AxiosRequestConfig) {
+        return AdminApiFp(this.configuration).getSessionTimeline(sessionID, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Retrieve the status of a SATP session
+     * @summary Get SATP current session data
+     * @param {string} sessionID Unique identifier for the session.
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof AdminApi
+     */
+    public getStatus(sessionID: string, options?: AxiosRequestConfig) {
+        return AdminApiFp(this.configuration).getStatus(sessionID, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Force the rollback of a session, retry its current stage or mark it as manually resolved. Every intervention is written to the audit log.
+     * @summary Intervene in a SATP session
+     * @param {InterveneInSessionRequest} interveneInSessionRequest 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof AdminApi
+     */
+    public interveneInSession(interveneInSessionRequest: InterveneInSessionRequest, options?: AxiosRequestConfig) {
+        return AdminApiFp(this.configuration).interveneInSession(interveneInSessionRequest, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Lists the sessions known to the gateway, optionally filtered by state, stage, counterparty gateway and age.
+     * @summary List SATP sessions
+     * @param {string} [state] Only list sessions in this state, for example ERROR.
+     * @param {string} [stage] Only list sessions in this stage, from STAGE_0 to STAGE_3.
+     * @param {string} [counterparty] Only list sessions with this counterparty gateway.
+     * @param {number} [minAge] Only list sessions started at least this many milliseconds ago.
+     * @param {number} [maxAge] Only list sessions started at most this many milliseconds ago.
      * @param {*} [options] Override http request option.
      * @throws {RequiredError}
      * @memberof AdminApi
      */
-    public getStatus(sessionID: string, options?: AxiosRequestConfig) {
-        return AdminApiFp(this.configuration).getStatus(sessionID, options).then((request) => request(this.axios, this.basePath));
+    public listSessions(state?: string, stage?: string, counterparty?: string, minAge?: number, maxAge?: number, options?: AxiosRequestConfig) {
+        return AdminApiFp(this.configuration).listSessions(state, stage, counterparty, minAge, maxAge, options).then((request) => request(this.axios, this.basePath));
     }
 
     /**
@@ -4598,6 +6292,43 @@ export const OracleApiAxiosParamCreator = function (configuration?: Configuratio
                 options: localVarRequestOptions,
             };
         },
+        /**
+         * Retrieve the persisted operations and event cursor of an oracle task
+         * @summary Get oracle task history
+         * @param {string} taskID Unique identifier for the task.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getOracleTaskHistory: async (taskID: string, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'taskID' is not null or undefined
+            assertParamExists('getOracleTaskHistory', 'taskID', taskID)
+            const localVarPath = `/api/v1/@hyperledger/cactus-plugin-satp-hermes/oracle/history`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            if (taskID !== undefined) {
+                localVarQueryParameter['taskID'] = taskID;
+            }
+
+
+    
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
         /**
          * Retrieve the status of an oracle task
          * @summary Get oracle task status
@@ -4626,6 +6357,43 @@ export const OracleApiAxiosParamCreator = function (configuration?: Configuratio
 
 
     
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Stop scheduling a polling or event listening oracle task, keeping its cursor
+         * @summary Pause oracle task
+         * @param {string} taskID Unique identifier for the task.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        pauseOracleTask: async (taskID: string, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'taskID' is not null or undefined
+            assertParamExists('pauseOracleTask', 'taskID', taskID)
+            const localVarPath = `/api/v1/@hyperledger/cactus-plugin-satp-hermes/oracle/pause`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            if (taskID !== undefined) {
+                localVarQueryParameter['taskID'] = taskID;
+            }
+
+
+    
             setSearchParams(localVarUrlObj, localVarQueryParameter);
             let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
             localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
@@ -4671,6 +6439,43 @@ export const OracleApiAxiosParamCreator = function (configuration?: Configuratio
                 options: localVarRequestOptions,
             };
         },
+        /**
+         * Resume a paused oracle task from its last processed block or event
+         * @summary Resume oracle task
+         * @param {string} taskID Unique identifier for the task.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        resumeOracleTask: async (taskID: string, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'taskID' is not null or undefined
+            assertParamExists('resumeOracleTask', 'taskID', taskID)
+            const localVarPath = `/api/v1/@hyperledger/cactus-plugin-satp-hermes/oracle/resume`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+            if (taskID !== undefined) {
+                localVarQueryParameter['taskID'] = taskID;
+            }
+
+
+    
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
         /**
          * Unregister data transfer task from source to target blockchain
          * @summary Unregister data transfer task
@@ -4729,6 +6534,17 @@ export const OracleApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.executeOracleTask(executeOracleTaskRequest, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * Retrieve the persisted operations and event cursor of an oracle task
+         * @summary Get oracle task history
+         * @param {string} taskID Unique identifier for the task.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async getOracleTaskHistory(taskID: string, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<GetOracleTaskHistory200Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.getOracleTaskHistory(taskID, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * Retrieve the status of an oracle task
          * @summary Get oracle task status
@@ -4740,6 +6556,17 @@ export const OracleApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.getOracleTaskStatus(taskID, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * Stop scheduling a polling or event listening oracle task, keeping its cursor
+         * @summary Pause oracle task
+         * @param {string} taskID Unique identifier for the task.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async pauseOracleTask(taskID: string, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<PauseOracleTask200Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.pauseOracleTask(taskID, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * Register data transfer from source to target blockchain
          * @summary Register data transfer task
@@ -4751,6 +6578,17 @@ export const OracleApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.registerOracleTask(registerOracleTaskRequest, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * Resume a paused oracle task from its last processed block or event
+         * @summary Resume oracle task
+         * @param {string} taskID Unique identifier for the task.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async resumeOracleTask(taskID: string, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<ResumeOracleTask200Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.resumeOracleTask(taskID, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * Unregister data transfer task from source to target blockchain
          * @summary Unregister data transfer task
@@ -4782,6 +6620,16 @@ export const OracleApiFactory = function (configuration?: Configuration, basePat
         executeOracleTask(executeOracleTaskRequest: ExecuteOracleTaskRequest, options?: any): AxiosPromise<ExecuteOracleTask200Response> {
             return localVarFp.executeOracleTask(executeOracleTaskRequest, options).then((request) => request(axios, basePath));
         },
+        /**
+         * Retrieve the persisted operations and event cursor of an oracle task
+         * @summary Get oracle task history
+         * @param {string} taskID Unique identifier for the task.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getOracleTaskHistory(taskID: string, options?: any): AxiosPromise<GetOracleTaskHistory200Response> {
+            return localVarFp.getOracleTaskHistory(taskID, options).then((request) => request(axios, basePath));
+        },
         /**
          * Retrieve the status of an oracle task
          * @summary Get oracle task status
@@ -4792,6 +6640,16 @@ export const OracleApiFactory = function (configuration?: Configuration, basePat
         getOracleTaskStatus(taskID: string, options?: any): AxiosPromise<GetOracleTaskStatus200Response> {
             return localVarFp.getOracleTaskStatus(taskID, options).then((request) => request(axios, basePath));
         },
+        /**
+         * Stop scheduling a polling or event listening oracle task, keeping its cursor
+         * @summary Pause oracle task
+         * @param {string} taskID Unique identifier for the task.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        pauseOracleTask(taskID: string, options?: any): AxiosPromise<PauseOracleTask200Response> {
+            return localVarFp.pauseOracleTask(taskID, options).then((request) => request(axios, basePath));
+        },
         /**
          * Register data transfer from source to target blockchain
          * @summary Register data transfer task
@@ -4802,6 +6660,16 @@ export const OracleApiFactory = function (configuration?: Configuration, basePat
         registerOracleTask(registerOracleTaskRequest: RegisterOracleTaskRequest, options?: any): AxiosPromise<RegisterOracleTask200Response> {
             return localVarFp.registerOracleTask(registerOracleTaskRequest, options).then((request) => request(axios, basePath));
         },
+        /**
+         * Resume a paused oracle task from its last processed block or event
+         * @summary Resume oracle task
+         * @param {string} taskID Unique identifier for the task.
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        resumeOracleTask(taskID: string, options?: any): AxiosPromise<ResumeOracleTask200Response> {
+            return localVarFp.resumeOracleTask(taskID, options).then((request) => request(axios, basePath));
+        },
         /**
          * Unregister data transfer task from source to target blockchain
          * @summary Unregister data transfer task
@@ -4834,6 +6702,18 @@ export class OracleApi extends BaseAPI {
         return OracleApiFp(this.configuration).executeOracleTask(executeOracleTaskRequest, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * Retrieve the persisted operations and event cursor of an oracle task
+     * @summary Get oracle task history
+     * @param {string} taskID Unique identifier for the task.
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof OracleApi
+     */
+    public getOracleTaskHistory(taskID: string, options?: AxiosRequestConfig) {
+        return OracleApiFp(this.configuration).getOracleTaskHistory(taskID, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * Retrieve the status of an oracle task
      * @summary Get oracle task status
@@ -4846,6 +6726,18 @@ export class OracleApi extends BaseAPI {
         return OracleApiFp(this.configuration).getOracleTaskStatus(taskID, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * Stop scheduling a polling or event listening oracle task, keeping its cursor
+     * @summary Pause oracle task
+     * @param {string} taskID Unique identifier for the task.
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof OracleApi
+     */
+    public pauseOracleTask(taskID: string, options?: AxiosRequestConfig) {
+        return OracleApiFp(this.configuration).pauseOracleTask(taskID, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * Register data transfer from source to target blockchain
      * @summary Register data transfer task
@@ -4858,6 +6750,18 @@ export class OracleApi extends BaseAPI {
         return OracleApiFp(this.configuration).registerOracleTask(registerOracleTaskRequest, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * Resume a paused oracle task from its last processed block or event
+     * @summary Resume oracle task
+     * @param {string} taskID Unique identifier for the task.
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof OracleApi
+     */
+    public resumeOracleTask(taskID: string, options?: AxiosRequestConfig) {
+        return OracleApiFp(this.configuration).resumeOracleTask(taskID, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * Unregister data transfer task from source to target blockchain
      * @summary Unregister data transfer task
@@ -4914,6 +6818,42 @@ export const TransactionApiAxiosParamCreator = function (configuration?: Configu
                 options: localVarRequestOptions,
             };
         },
+        /**
+         * Estimates the fees this gateway pays on the ledger of the asset to perform its side of a transfer. Gateways call it on their counterparty when issuing a quote.
+         * @summary Estimate the ledger fees of bridging an asset
+         * @param {EstimateFeeRequest} estimateFeeRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        estimateFee: async (estimateFeeRequest: EstimateFeeRequest, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'estimateFeeRequest' is not null or undefined
+            assertParamExists('estimateFee', 'estimateFeeRequest', estimateFeeRequest)
+            const localVarPath = `/api/v1/@hyperledger/cactus-plugin-satp-hermes/estimate-fee`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(estimateFeeRequest, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
         /**
          * Retrieves metadata about each supported blockchain networks, chains, and other systems.
          * @summary Get supported integrations
@@ -5023,6 +6963,42 @@ export const TransactionApiAxiosParamCreator = function (configuration?: Configu
                 options: localVarRequestOptions,
             };
         },
+        /**
+         * Checks that the route between the networks of the assets is supported and that the counterparty gateway is available, estimates the ledger fees on both sides and returns a signed, time-limited quote that a transact request can reference.
+         * @summary Get a quote for a transfer
+         * @param {QuoteRequest} quoteRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        quote: async (quoteRequest: QuoteRequest, options: AxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'quoteRequest' is not null or undefined
+            assertParamExists('quote', 'quoteRequest', quoteRequest)
+            const localVarPath = `/api/v1/@hyperledger/cactus-plugin-satp-hermes/quote`;
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(quoteRequest, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
         /**
          * Allows users to queue intents for transactions based on specified parameters.
          * @summary Submit a transaction intent
@@ -5080,6 +7056,17 @@ export const TransactionApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.cancel(cancelRequest, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * Estimates the fees this gateway pays on the ledger of the asset to perform its side of a transfer. Gateways call it on their counterparty when issuing a quote.
+         * @summary Estimate the ledger fees of bridging an asset
+         * @param {EstimateFeeRequest} estimateFeeRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async estimateFee(estimateFeeRequest: EstimateFeeRequest, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<Quote200ResponseSourceFee>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.estimateFee(estimateFeeRequest, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * Retrieves metadata about each supported blockchain networks, chains, and other systems.
          * @summary Get supported integrations
@@ -5107,6 +7094,17 @@ export const TransactionApiFp = function(configuration?: Configuration) {
             const localVarAxiosArgs = await localVarAxiosParamCreator.getRoutes(fromNetworkID, fromAmount, fromToken, toDLTNetwork, toToken, fromAddress, toAddress, options);
             return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
         },
+        /**
+         * Checks that the route between the networks of the assets is supported and that the counterparty gateway is available, estimates the ledger fees on both sides and returns a signed, time-limited quote that a transact request can reference.
+         * @summary Get a quote for a transfer
+         * @param {QuoteRequest} quoteRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async quote(quoteRequest: QuoteRequest, options?: AxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<Quote200Response>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.quote(quoteRequest, options);
+            return createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration);
+        },
         /**
          * Allows users to queue intents for transactions based on specified parameters.
          * @summary Submit a transaction intent
@@ -5138,6 +7136,16 @@ export const TransactionApiFactory = function (configuration?: Configuration, ba
         cancel(cancelRequest: CancelRequest, options?: any): AxiosPromise<Cancel200Response> {
             return localVarFp.cancel(cancelRequest, options).then((request) => request(axios, basePath));
         },
+        /**
+         * Estimates the fees this gateway pays on the ledger of the asset to perform its side of a transfer. Gateways call it on their counterparty when issuing a quote.
+         * @summary Estimate the ledger fees of bridging an asset
+         * @param {EstimateFeeRequest} estimateFeeRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        estimateFee(estimateFeeRequest: EstimateFeeRequest, options?: any): AxiosPromise<Quote200ResponseSourceFee> {
+            return localVarFp.estimateFee(estimateFeeRequest, options).then((request) => request(axios, basePath));
+        },
         /**
          * Retrieves metadata about each supported blockchain networks, chains, and other systems.
          * @summary Get supported integrations
@@ -5163,6 +7171,16 @@ export const TransactionApiFactory = function (configuration?: Configuration, ba
         getRoutes(fromNetworkID: TransactRequestSourceAssetNetworkId, fromAmount: string, fromToken: string, toDLTNetwork: TransactRequestSourceAssetNetworkId, toToken: string, fromAddress: string, toAddress: string, options?: any): AxiosPromise<GetRoutes200Response> {
             return localVarFp.getRoutes(fromNetworkID, fromAmount, fromToken, toDLTNetwork, toToken, fromAddress, toAddress, options).then((request) => request(axios, basePath));
         },
+        /**
+         * Checks that the route between the networks of the assets is supported and that the counterparty gateway is available, estimates the ledger fees on both sides and returns a signed, time-limited quote that a transact request can reference.
+         * @summary Get a quote for a transfer
+         * @param {QuoteRequest} quoteRequest 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        quote(quoteRequest: QuoteRequest, options?: any): AxiosPromise<Quote200Response> {
+            return localVarFp.quote(quoteRequest, options).then((request) => request(axios, basePath));
+        },
         /**
          * Allows users to queue intents for transactions based on specified parameters.
          * @summary Submit a transaction intent
@@ -5195,6 +7213,18 @@ export class TransactionApi extends BaseAPI {
         return TransactionApiFp(this.configuration).cancel(cancelRequest, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * Estimates the fees this gateway pays on the ledger of the asset to perform its side of a transfer. Gateways call it on their counterparty when issuing a quote.
+     * @summary Estimate the ledger fees of bridging an asset
+     * @param {EstimateFeeRequest} estimateFeeRequest 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof TransactionApi
+     */
+    public estimateFee(estimateFeeRequest: EstimateFeeRequest, options?: AxiosRequestConfig) {
+        return TransactionApiFp(this.configuration).estimateFee(estimateFeeRequest, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * Retrieves metadata about each supported blockchain networks, chains, and other systems.
      * @summary Get supported integrations
@@ -5224,6 +7254,18 @@ export class TransactionApi extends BaseAPI {
         return TransactionApiFp(this.configuration).getRoutes(fromNetworkID, fromAmount, fromToken, toDLTNetwork, toToken, fromAddress, toAddress, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * Checks that the route between the networks of the assets is supported and that the counterparty gateway is available, estimates the ledger fees on both sides and returns a signed, time-limited quote that a transact request can reference.
+     * @summary Get a quote for a transfer
+     * @param {QuoteRequest} quoteRequest 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof TransactionApi
+     */
+    public quote(quoteRequest: QuoteRequest, options?: AxiosRequestConfig) {
+        return TransactionApiFp(this.configuration).quote(quoteRequest, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * Allows users to queue intents for transactions based on specified parameters.
      * @summary Submit a transaction intent
@@ -0,0 +1,26 @@
+// @generated by protoc-gen-connect-es v1.6.1 with parameter "target=ts,js_import_style=module"
+// @generated from file cacti/satp/v02/service/key_rotation.proto (package cacti.satp.v02.service, syntax proto3)
+/* eslint-disable */
+// @ts-nocheck
+
+import { KeyRotationAcknowledgement, KeyRotationAnnouncement } from "./key_rotation_pb.js";
+import { MethodKind } from "@bufbuild/protobuf";
+
+/**
+ * @generated from service cacti.satp.v02.service.KeyRotationService
+ */
+export const KeyRotationService = {
+  typeName: "cacti.satp.v02.service.KeyRotationService",
+  methods: {
+    /**
+     * @generated from rpc cacti.satp.v02.service.KeyRotationService.AnnounceKeyRotation
+     */
+    announceKeyRotation: {
+      name: "AnnounceKeyRotation",
+      I: KeyRotationAnnouncement,
+      O: KeyRotationAcknowledgement,
+      kind: MethodKind.Unary,
+    },
+  }
+} as const;
+
@@ -0,0 +1,114 @@
+// @generated by protoc-gen-es v2.2.2 with parameter "target=ts"
+// @generated from file cacti/satp/v02/service/key_rotation.proto (package cacti.satp.v02.service, syntax proto3)
+/* eslint-disable */
+
+import type { GenFile, GenMessage, GenService } from "@bufbuild/protobuf/codegenv1";
+import { fileDesc, messageDesc, serviceDesc } from "@bufbuild/protobuf/codegenv1";
+import type { Message } from "@bufbuild/protobuf";
+
+/**
+ * Describes the file cacti/satp/v02/service/key_rotation.proto.
+ */
+export const file_cacti_satp_v02_service_key_rotation: GenFile = /*@__PURE__*/
+  fileDesc("CiljYWN0aS9zYXRwL3YwMi9zZXJ2aWNlL2tleV9yb3RhdGlvbi5wcm90bxIWY2FjdGkuc2F0cC52MDIuc2VydmljZSLPAQoXS2V5Um90YXRpb25Bbm5vdW5jZW1lbnQSEgoKZ2F0ZXdheV9pZBgBIAEoCRIbChNwcmV2aW91c19wdWJsaWNfa2V5GAIgASgJEhYKDm5ld19wdWJsaWNfa2V5GAMgASgJEhoKEnJvdGF0aW9uX3RpbWVzdGFtcBgEIAEoAxIUCgxncmFjZV9wZXJpb2QYBSABKAMSHgoWcHJldmlvdXNfa2V5X3NpZ25hdHVyZRgGIAEoCRIZChFuZXdfa2V5X3NpZ25hdHVyZRgHIAEoCSJ5ChpLZXlSb3RhdGlvbkFja25vd2xlZGdlbWVudBISCgpnYXRld2F5X2lkGAEgASgJEhsKE2FjY2VwdGVkX3B1YmxpY19rZXkYAiABKAkSEAoIYWNjZXB0ZWQYAyABKAgSGAoQc2VydmVyX3NpZ25hdHVyZRgEIAEoCTKQAQoSS2V5Um90YXRpb25TZXJ2aWNlEnoKE0Fubm91bmNlS2V5Um90YXRpb24SLy5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLktleVJvdGF0aW9uQW5ub3VuY2VtZW50GjIuY2FjdGkuc2F0cC52MDIuc2VydmljZS5LZXlSb3RhdGlvbkFja25vd2xlZGdlbWVudGIGcHJvdG8z");
+
+/**
+ * @generated from message cacti.satp.v02.service.KeyRotationAnnouncement
+ */
+export type KeyRotationAnnouncement = Message<"cacti.satp.v02.service.KeyRotationAnnouncement"> & {
+  /**
+   * @generated from field: string gateway_id = 1;
+   */
+  gatewayId: string;
+
+  /**
+   * @generated from field: string previous_public_key = 2;
+   */
+  previousPublicKey: string;
+
+  /**
+   * @generated from field: string new_public_key = 3;
+   */
+  newPublicKey: string;
+
+  /**
+   * @generated from field: int64 rotation_timestamp = 4;
+   */
+  rotationTimestamp: bigint;
+
+  /**
+   * milliseconds the previous key stays valid
+   *
+   * @generated from field: int64 grace_period = 5;
+   */
+  gracePeriod: bigint;
+
+  /**
+   * authorizes the rotation
+   *
+   * @generated from field: string previous_key_signature = 6;
+   */
+  previousKeySignature: string;
+
+  /**
+   * proves possession of the new key
+   *
+   * @generated from field: string new_key_signature = 7;
+   */
+  newKeySignature: string;
+};
+
+/**
+ * Describes the message cacti.satp.v02.service.KeyRotationAnnouncement.
+ * Use `create(KeyRotationAnnouncementSchema)` to create a new message.
+ */
+export const KeyRotationAnnouncementSchema: GenMessage<KeyRotationAnnouncement> = /*@__PURE__*/
+  messageDesc(file_cacti_satp_v02_service_key_rotation, 0);
+
+/**
+ * @generated from message cacti.satp.v02.service.KeyRotationAcknowledgement
+ */
+export type KeyRotationAcknowledgement = Message<"cacti.satp.v02.service.KeyRotationAcknowledgement"> & {
+  /**
+   * @generated from field: string gateway_id = 1;
+   */
+  gatewayId: string;
+
+  /**
+   * @generated from field: string accepted_public_key = 2;
+   */
+  acceptedPublicKey: string;
+
+  /**
+   * @generated from field: bool accepted = 3;
+   */
+  accepted: boolean;
+
+  /**
+   * @generated from field: string server_signature = 4;
+   */
+  serverSignature: string;
+};
+
+/**
+ * Describes the message cacti.satp.v02.service.KeyRotationAcknowledgement.
+ * Use `create(KeyRotationAcknowledgementSchema)` to create a new message.
+ */
+export const KeyRotationAcknowledgementSchema: GenMessage<KeyRotationAcknowledgement> = /*@__PURE__*/
+  messageDesc(file_cacti_satp_v02_service_key_rotation, 1);
+
+/**
+ * @generated from service cacti.satp.v02.service.KeyRotationService
+ */
+export const KeyRotationService: GenService<{
+  /**
+   * @generated from rpc cacti.satp.v02.service.KeyRotationService.AnnounceKeyRotation
+   */
+  announceKeyRotation: {
+    methodKind: "unary";
+    input: typeof KeyRotationAnnouncementSchema;
+    output: typeof KeyRotationAcknowledgementSchema;
+  },
+}> = /*@__PURE__*/
+  serviceDesc(file_cacti_satp_v02_service_key_rotation, 0);
+
@@ -12,7 +12,7 @@ import type { Message } from "@bufbuild/protobuf";
  * Describes the file cacti/satp/v02/service/stage_0.proto.
  */
 export const file_cacti_satp_v02_service_stage_0: GenFile = /*@__PURE__*/
-  fileDesc("CiRjYWN0aS9zYXRwL3YwMi9zZXJ2aWNlL3N0YWdlXzAucHJvdG8SFmNhY3RpLnNhdHAudjAyLnNlcnZpY2UiqQIKEU5ld1Nlc3Npb25SZXF1ZXN0EhIKCnNlc3Npb25faWQYASABKAkSEgoKY29udGV4dF9pZBgCIAEoCRIeChZjbGllbnRfdHJhbnNmZXJfbnVtYmVyGAMgASgJEhIKCmdhdGV3YXlfaWQYBSABKAkSGAoQY2xpZW50X3NpZ25hdHVyZRgGIAEoCRINCgVlcnJvchgHIAEoCBIwCgplcnJvcl9jb2RlGAggASgOMhwuY2FjdGkuc2F0cC52MDIuY29tbW9uLkVycm9yEjgKDG1lc3NhZ2VfdHlwZRgJIAEoDjIiLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5NZXNzYWdlVHlwZRIjChtzZW5kZXJfZ2F0ZXdheV9uZXR3b3JrX3R5cGUYCiABKAkixwIKEk5ld1Nlc3Npb25SZXNwb25zZRISCgpzZXNzaW9uX2lkGAEgASgJEhIKCmNvbnRleHRfaWQYAiABKAkSLgoGc3RhdHVzGAMgASgOMh4uY2FjdGkuc2F0cC52MDIuc2VydmljZS5TVEFUVVMSHQoVaGFzaF9wcmV2aW91c19tZXNzYWdlGAQgASgJEhgKEHNlcnZlcl9zaWduYXR1cmUYBSABKAkSDQoFZXJyb3IYBiABKAgSMAoKZXJyb3JfY29kZRgHIAEoDjIcLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5FcnJvchI4CgxtZXNzYWdlX3R5cGUYCCABKA4yIi5jYWN0aS5zYXRwLnYwMi5jb21tb24uTWVzc2FnZVR5cGUSJQodcmVjZWl2ZXJfZ2F0ZXdheV9uZXR3b3JrX3R5cGUYCSABKAki6gMKFlByZVNBVFBUcmFuc2ZlclJlcXVlc3QSEgoKc2Vzc2lvbl9pZBgBIAEoCRISCgpjb250ZXh0X2lkGAIgASgJEh4KFmNsaWVudF90cmFuc2Zlcl9udW1iZXIYAyABKAkSIQoZc2VuZGVyX2dhdGV3YXlfbmV0d29ya19pZBgEIAEoCRIyCgxzZW5kZXJfYXNzZXQYBSABKAsyHC5jYWN0aS5zYXRwLnYwMi5jb21tb24uQXNzZXQSNAoOcmVjZWl2ZXJfYXNzZXQYBiABKAsyHC5jYWN0aS5zYXRwLnYwMi5jb21tb24uQXNzZXQSRwoUd3JhcF9hc3NlcnRpb25fY2xhaW0YByABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uV3JhcEFzc2VydGlvbkNsYWltEh0KFWhhc2hfcHJldmlvdXNfbWVzc2FnZRgIIAEoCRIYChBjbGllbnRfc2lnbmF0dXJlGAkgASgJEg0KBWVycm9yGAogASgIEjAKCmVycm9yX2NvZGUYCyABKA4yHC5jYWN0aS5zYXRwLnYwMi5jb21tb24uRXJyb3ISOAoMbWVzc2FnZV90eXBlGAwgASgOMiIuY2FjdGkuc2F0cC52MDIuY29tbW9uLk1lc3NhZ2VUeXBlIoADChdQcmVTQVRQVHJhbnNmZXJSZXNwb25zZRISCgpzZXNzaW9uX2lkGAEgASgJEhIKCmNvbnRleHRfaWQYAiABKAkSJAoccmVjaXBpZW50X2dhdGV3YXlfbmV0d29ya19pZBgDIAEoCRJHChR3cmFwX2Fzc2VydGlvbl9jbGFpbRgEIAEoCzIpLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5XcmFwQXNzZXJ0aW9uQ2xhaW0SHQoVaGFzaF9wcmV2aW91c19tZXNzYWdlGAUgASgJEhoKEnJlY2lwaWVudF90b2tlbl9pZBgGIAEoCRIYChBzZXJ2ZXJfc2lnbmF0dXJlGAcgASgJEg0KBWVycm9yGAggASgIEjAKCmVycm9yX2NvZGUYCSABKA4yHC5jYWN0aS5zYXRwLnYwMi5jb21tb24uRXJyb3ISOAoMbWVzc2FnZV90eXBlGAogASgOMiIuY2FjdGkuc2F0cC52MDIuY29tbW9uLk1lc3NhZ2VUeXBlIh0KDENoZWNrUmVxdWVzdBINCgVjaGVjaxgBIAEoCSIeCg1DaGVja1Jlc3BvbnNlEg0KBWNoZWNrGAEgASgJKkoKBlNUQVRVUxIWChJTVEFUVVNfVU5TUEVDSUZJRUQQABITCg9TVEFUVVNfQUNDRVBURUQQARITCg9TVEFUVVNfUkVKRUNURUQQAjLIAgoRU2F0cFN0YWdlMFNlcnZpY2USZQoKTmV3U2Vzc2lvbhIpLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuTmV3U2Vzc2lvblJlcXVlc3QaKi5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLk5ld1Nlc3Npb25SZXNwb25zZSIAEnQKD1ByZVNBVFBUcmFuc2ZlchIuLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuUHJlU0FUUFRyYW5zZmVyUmVxdWVzdBovLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuUHJlU0FUUFRyYW5zZmVyUmVzcG9uc2UiABJWCgVDaGVjaxIkLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuQ2hlY2tSZXF1ZXN0GiUuY2FjdGkuc2F0cC52MDIuc2VydmljZS5DaGVja1Jlc3BvbnNlIgBiBnByb3RvMw", [file_cacti_satp_v02_common_message]);
+  fileDesc("CiRjYWN0aS9zYXRwL3YwMi9zZXJ2aWNlL3N0YWdlXzAucHJvdG8SFmNhY3RpLnNhdHAudjAyLnNlcnZpY2UiqQIKEU5ld1Nlc3Npb25SZXF1ZXN0EhIKCnNlc3Npb25faWQYASABKAkSEgoKY29udGV4dF9pZBgCIAEoCRIeChZjbGllbnRfdHJhbnNmZXJfbnVtYmVyGAMgASgJEhIKCmdhdGV3YXlfaWQYBSABKAkSGAoQY2xpZW50X3NpZ25hdHVyZRgGIAEoCRINCgVlcnJvchgHIAEoCBIwCgplcnJvcl9jb2RlGAggASgOMhwuY2FjdGkuc2F0cC52MDIuY29tbW9uLkVycm9yEjgKDG1lc3NhZ2VfdHlwZRgJIAEoDjIiLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5NZXNzYWdlVHlwZRIjChtzZW5kZXJfZ2F0ZXdheV9uZXR3b3JrX3R5cGUYCiABKAkixwIKEk5ld1Nlc3Npb25SZXNwb25zZRISCgpzZXNzaW9uX2lkGAEgASgJEhIKCmNvbnRleHRfaWQYAiABKAkSLgoGc3RhdHVzGAMgASgOMh4uY2FjdGkuc2F0cC52MDIuc2VydmljZS5TVEFUVVMSHQoVaGFzaF9wcmV2aW91c19tZXNzYWdlGAQgASgJEhgKEHNlcnZlcl9zaWduYXR1cmUYBSABKAkSDQoFZXJyb3IYBiABKAgSMAoKZXJyb3JfY29kZRgHIAEoDjIcLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5FcnJvchI4CgxtZXNzYWdlX3R5cGUYCCABKA4yIi5jYWN0aS5zYXRwLnYwMi5jb21tb24uTWVzc2FnZVR5cGUSJQodcmVjZWl2ZXJfZ2F0ZXdheV9uZXR3b3JrX3R5cGUYCSABKAkisgUKFlByZVNBVFBUcmFuc2ZlclJlcXVlc3QSEgoKc2Vzc2lvbl9pZBgBIAEoCRISCgpjb250ZXh0X2lkGAIgASgJEh4KFmNsaWVudF90cmFuc2Zlcl9udW1iZXIYAyABKAkSIQoZc2VuZGVyX2dhdGV3YXlfbmV0d29ya19pZBgEIAEoCRIyCgxzZW5kZXJfYXNzZXQYBSABKAsyHC5jYWN0aS5zYXRwLnYwMi5jb21tb24uQXNzZXQSNAoOcmVjZWl2ZXJfYXNzZXQYBiABKAsyHC5jYWN0aS5zYXRwLnYwMi5jb21tb24uQXNzZXQSRwoUd3JhcF9hc3NlcnRpb25fY2xhaW0YByABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uV3JhcEFzc2VydGlvbkNsYWltEh0KFWhhc2hfcHJldmlvdXNfbWVzc2FnZRgIIAEoCRIYChBjbGllbnRfc2lnbmF0dXJlGAkgASgJEg0KBWVycm9yGAogASgIEjAKCmVycm9yX2NvZGUYCyABKA4yHC5jYWN0aS5zYXRwLnYwMi5jb21tb24uRXJyb3ISOAoMbWVzc2FnZV90eXBlGAwgASgOMiIuY2FjdGkuc2F0cC52MDIuY29tbW9uLk1lc3NhZ2VUeXBlEjkKE2JhdGNoX3NlbmRlcl9hc3NldHMYDSADKAsyHC5jYWN0aS5zYXRwLnYwMi5jb21tb24uQXNzZXQSOwoVYmF0Y2hfcmVjZWl2ZXJfYXNzZXRzGA4gAygLMhwuY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2V0Ek4KG2JhdGNoX3dyYXBfYXNzZXJ0aW9uX2NsYWltcxgPIAMoCzIpLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5XcmFwQXNzZXJ0aW9uQ2xhaW0i8wMKF1ByZVNBVFBUcmFuc2ZlclJlc3BvbnNlEhIKCnNlc3Npb25faWQYASABKAkSEgoKY29udGV4dF9pZBgCIAEoCRIkChxyZWNpcGllbnRfZ2F0ZXdheV9uZXR3b3JrX2lkGAMgASgJEkcKFHdyYXBfYXNzZXJ0aW9uX2NsYWltGAQgASgLMikuY2FjdGkuc2F0cC52MDIuY29tbW9uLldyYXBBc3NlcnRpb25DbGFpbRIdChVoYXNoX3ByZXZpb3VzX21lc3NhZ2UYBSABKAkSGgoScmVjaXBpZW50X3Rva2VuX2lkGAYgASgJEhgKEHNlcnZlcl9zaWduYXR1cmUYByABKAkSDQoFZXJyb3IYCCABKAgSMAoKZXJyb3JfY29kZRgJIAEoDjIcLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5FcnJvchI4CgxtZXNzYWdlX3R5cGUYCiABKA4yIi5jYWN0aS5zYXRwLnYwMi5jb21tb24uTWVzc2FnZVR5cGUSIQoZYmF0Y2hfcmVjaXBpZW50X3Rva2VuX2lkcxgLIAMoCRJOChtiYXRjaF93cmFwX2Fzc2VydGlvbl9jbGFpbXMYDCADKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uV3JhcEFzc2VydGlvbkNsYWltIh0KDENoZWNrUmVxdWVzdBINCgVjaGVjaxgBIAEoCSIeCg1DaGVja1Jlc3BvbnNlEg0KBWNoZWNrGAEgASgJKkoKBlNUQVRVUxIWChJTVEFUVVNfVU5TUEVDSUZJRUQQABITCg9TVEFUVVNfQUNDRVBURUQQARITCg9TVEFUVVNfUkVKRUNURUQQAjLIAgoRU2F0cFN0YWdlMFNlcnZpY2USZQoKTmV3U2Vzc2lvbhIpLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuTmV3U2Vzc2lvblJlcXVlc3QaKi5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLk5ld1Nlc3Npb25SZXNwb25zZSIAEnQKD1ByZVNBVFBUcmFuc2ZlchIuLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuUHJlU0FUUFRyYW5zZmVyUmVxdWVzdBovLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuUHJlU0FUUFRyYW5zZmVyUmVzcG9uc2UiABJWCgVDaGVjaxIkLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuQ2hlY2tSZXF1ZXN0GiUuY2FjdGkuc2F0cC52MDIuc2VydmljZS5DaGVja1Jlc3BvbnNlIgBiBnByb3RvMw", [file_cacti_satp_v02_common_message]);
 
 /**
  * @generated from message cacti.satp.v02.service.NewSessionRequest
@@ -193,6 +193,21 @@ export type PreSATPTransferRequest = Message<"cacti.satp.v02.service.PreSATPTran
    * @generated from field: cacti.satp.v02.common.MessageType message_type = 12;
    */
   messageType: MessageType;
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.Asset batch_sender_assets = 13;
+   */
+  batchSenderAssets: Asset[];
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.Asset batch_receiver_assets = 14;
+   */
+  batchReceiverAssets: Asset[];
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.WrapAssertionClaim batch_wrap_assertion_claims = 15;
+   */
+  batchWrapAssertionClaims: WrapAssertionClaim[];
 };
 
 /**
@@ -255,6 +270,16 @@ export type PreSATPTransferResponse = Message<"cacti.satp.v02.service.PreSATPTra
    * @generated from field: cacti.satp.v02.common.MessageType message_type = 10;
    */
   messageType: MessageType;
+
+  /**
+   * @generated from field: repeated string batch_recipient_token_ids = 11;
+   */
+  batchRecipientTokenIds: string[];
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.WrapAssertionClaim batch_wrap_assertion_claims = 12;
+   */
+  batchWrapAssertionClaims: WrapAssertionClaim[];
 };
 
 /**
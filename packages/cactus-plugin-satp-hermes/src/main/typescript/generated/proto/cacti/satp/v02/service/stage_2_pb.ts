@@ -12,7 +12,7 @@ import type { Message } from "@bufbuild/protobuf";
  * Describes the file cacti/satp/v02/service/stage_2.proto.
  */
 export const file_cacti_satp_v02_service_stage_2: GenFile = /*@__PURE__*/
-  fileDesc("CiRjYWN0aS9zYXRwL3YwMi9zZXJ2aWNlL3N0YWdlXzIucHJvdG8SFmNhY3RpLnNhdHAudjAyLnNlcnZpY2UixQIKFExvY2tBc3NlcnRpb25SZXF1ZXN0EjEKBmNvbW1vbhgBIAEoCzIhLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Db21tb25TYXRwEkcKFGxvY2tfYXNzZXJ0aW9uX2NsYWltGAIgASgLMikuY2FjdGkuc2F0cC52MDIuY29tbW9uLkxvY2tBc3NlcnRpb25DbGFpbRJUChtsb2NrX2Fzc2VydGlvbl9jbGFpbV9mb3JtYXQYAyABKAsyLy5jYWN0aS5zYXRwLnYwMi5jb21tb24uTG9ja0Fzc2VydGlvbkNsYWltRm9ybWF0EiEKGWxvY2tfYXNzZXJ0aW9uX2V4cGlyYXRpb24YBCABKAQSHgoWY2xpZW50X3RyYW5zZmVyX251bWJlchgFIAEoCRIYChBjbGllbnRfc2lnbmF0dXJlGAYgASgJIoQBChVMb2NrQXNzZXJ0aW9uUmVzcG9uc2USMQoGY29tbW9uGAEgASgLMiEuY2FjdGkuc2F0cC52MDIuY29tbW9uLkNvbW1vblNhdHASHgoWc2VydmVyX3RyYW5zZmVyX251bWJlchgCIAEoCRIYChBzZXJ2ZXJfc2lnbmF0dXJlGAMgASgJMoMBChFTYXRwU3RhZ2UyU2VydmljZRJuCg1Mb2NrQXNzZXJ0aW9uEiwuY2FjdGkuc2F0cC52MDIuc2VydmljZS5Mb2NrQXNzZXJ0aW9uUmVxdWVzdBotLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuTG9ja0Fzc2VydGlvblJlc3BvbnNlIgBiBnByb3RvMw", [file_cacti_satp_v02_common_message]);
+  fileDesc("CiRjYWN0aS9zYXRwL3YwMi9zZXJ2aWNlL3N0YWdlXzIucHJvdG8SFmNhY3RpLnNhdHAudjAyLnNlcnZpY2UilQMKFExvY2tBc3NlcnRpb25SZXF1ZXN0EjEKBmNvbW1vbhgBIAEoCzIhLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Db21tb25TYXRwEkcKFGxvY2tfYXNzZXJ0aW9uX2NsYWltGAIgASgLMikuY2FjdGkuc2F0cC52MDIuY29tbW9uLkxvY2tBc3NlcnRpb25DbGFpbRJUChtsb2NrX2Fzc2VydGlvbl9jbGFpbV9mb3JtYXQYAyABKAsyLy5jYWN0aS5zYXRwLnYwMi5jb21tb24uTG9ja0Fzc2VydGlvbkNsYWltRm9ybWF0EiEKGWxvY2tfYXNzZXJ0aW9uX2V4cGlyYXRpb24YBCABKAQSHgoWY2xpZW50X3RyYW5zZmVyX251bWJlchgFIAEoCRIYChBjbGllbnRfc2lnbmF0dXJlGAYgASgJEk4KG2JhdGNoX2xvY2tfYXNzZXJ0aW9uX2NsYWltcxgHIAMoCzIpLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Mb2NrQXNzZXJ0aW9uQ2xhaW0ihAEKFUxvY2tBc3NlcnRpb25SZXNwb25zZRIxCgZjb21tb24YASABKAsyIS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQ29tbW9uU2F0cBIeChZzZXJ2ZXJfdHJhbnNmZXJfbnVtYmVyGAIgASgJEhgKEHNlcnZlcl9zaWduYXR1cmUYAyABKAkygwEKEVNhdHBTdGFnZTJTZXJ2aWNlEm4KDUxvY2tBc3NlcnRpb24SLC5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLkxvY2tBc3NlcnRpb25SZXF1ZXN0Gi0uY2FjdGkuc2F0cC52MDIuc2VydmljZS5Mb2NrQXNzZXJ0aW9uUmVzcG9uc2UiAGIGcHJvdG8z", [file_cacti_satp_v02_common_message]);
 
 /**
  * @generated from message cacti.satp.v02.service.LockAssertionRequest
@@ -47,6 +47,11 @@ export type LockAssertionRequest = Message<"cacti.satp.v02.service.LockAssertion
    * @generated from field: string client_signature = 6;
    */
   clientSignature: string;
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.LockAssertionClaim batch_lock_assertion_claims = 7;
+   */
+  batchLockAssertionClaims: LockAssertionClaim[];
 };
 
 /**
@@ -12,7 +12,7 @@ import type { Message } from "@bufbuild/protobuf";
  * Describes the file cacti/satp/v02/service/stage_3.proto.
  */
 export const file_cacti_satp_v02_service_stage_3: GenFile = /*@__PURE__*/
-  fileDesc("CiRjYWN0aS9zYXRwL3YwMi9zZXJ2aWNlL3N0YWdlXzMucHJvdG8SFmNhY3RpLnNhdHAudjAyLnNlcnZpY2UihwEKGENvbW1pdFByZXBhcmF0aW9uUmVxdWVzdBIxCgZjb21tb24YASABKAsyIS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQ29tbW9uU2F0cBIeChZjbGllbnRfdHJhbnNmZXJfbnVtYmVyGAIgASgJEhgKEGNsaWVudF9zaWduYXR1cmUYAyABKAkipwIKGUNvbW1pdFByZXBhcmF0aW9uUmVzcG9uc2USMQoGY29tbW9uGAEgASgLMiEuY2FjdGkuc2F0cC52MDIuY29tbW9uLkNvbW1vblNhdHASRwoUbWludF9hc3NlcnRpb25fY2xhaW0YAiABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uTWludEFzc2VydGlvbkNsYWltElQKG21pbnRfYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBgDIAEoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5NaW50QXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSHgoWc2VydmVyX3RyYW5zZmVyX251bWJlchgEIAEoCRIYChBzZXJ2ZXJfc2lnbmF0dXJlGAUgASgJIqkCChtDb21taXRGaW5hbEFzc2VydGlvblJlcXVlc3QSMQoGY29tbW9uGAEgASgLMiEuY2FjdGkuc2F0cC52MDIuY29tbW9uLkNvbW1vblNhdHASRwoUYnVybl9hc3NlcnRpb25fY2xhaW0YAiABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQnVybkFzc2VydGlvbkNsYWltElQKG2J1cm5fYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBgDIAEoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5CdXJuQXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSHgoWY2xpZW50X3RyYW5zZmVyX251bWJlchgEIAEoCRIYChBjbGllbnRfc2lnbmF0dXJlGAUgASgJIsICChxDb21taXRGaW5hbEFzc2VydGlvblJlc3BvbnNlEjEKBmNvbW1vbhgBIAEoCzIhLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Db21tb25TYXRwElMKGmFzc2lnbm1lbnRfYXNzZXJ0aW9uX2NsYWltGAIgASgLMi8uY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2lnbm1lbnRBc3NlcnRpb25DbGFpbRJgCiFhc3NpZ25tZW50X2Fzc2VydGlvbl9jbGFpbV9mb3JtYXQYAyABKAsyNS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQXNzaWdubWVudEFzc2VydGlvbkNsYWltRm9ybWF0Eh4KFnNlcnZlcl90cmFuc2Zlcl9udW1iZXIYBCABKAkSGAoQc2VydmVyX3NpZ25hdHVyZRgFIAEoCSKmAQoXVHJhbnNmZXJDb21wbGV0ZVJlcXVlc3QSMQoGY29tbW9uGAEgASgLMiEuY2FjdGkuc2F0cC52MDIuY29tbW9uLkNvbW1vblNhdHASHgoWaGFzaF90cmFuc2Zlcl9jb21tZW5jZRgCIAEoCRIeChZjbGllbnRfdHJhbnNmZXJfbnVtYmVyGAMgASgJEhgKEGNsaWVudF9zaWduYXR1cmUYBCABKAkihwEKGFRyYW5zZmVyQ29tcGxldGVSZXNwb25zZRIxCgZjb21tb24YASABKAsyIS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQ29tbW9uU2F0cBIeChZzZXJ2ZXJfdHJhbnNmZXJfbnVtYmVyGAIgASgJEhgKEHNlcnZlcl9zaWduYXR1cmUYAyABKAkyjgMKEVNhdHBTdGFnZTNTZXJ2aWNlEnoKEUNvbW1pdFByZXBhcmF0aW9uEjAuY2FjdGkuc2F0cC52MDIuc2VydmljZS5Db21taXRQcmVwYXJhdGlvblJlcXVlc3QaMS5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLkNvbW1pdFByZXBhcmF0aW9uUmVzcG9uc2UiABKDAQoUQ29tbWl0RmluYWxBc3NlcnRpb24SMy5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLkNvbW1pdEZpbmFsQXNzZXJ0aW9uUmVxdWVzdBo0LmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuQ29tbWl0RmluYWxBc3NlcnRpb25SZXNwb25zZSIAEncKEFRyYW5zZmVyQ29tcGxldGUSLy5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLlRyYW5zZmVyQ29tcGxldGVSZXF1ZXN0GjAuY2FjdGkuc2F0cC52MDIuc2VydmljZS5UcmFuc2ZlckNvbXBsZXRlUmVzcG9uc2UiAGIGcHJvdG8z", [file_cacti_satp_v02_common_message]);
+  fileDesc("CiRjYWN0aS9zYXRwL3YwMi9zZXJ2aWNlL3N0YWdlXzMucHJvdG8SFmNhY3RpLnNhdHAudjAyLnNlcnZpY2UihwEKGENvbW1pdFByZXBhcmF0aW9uUmVxdWVzdBIxCgZjb21tb24YASABKAsyIS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQ29tbW9uU2F0cBIeChZjbGllbnRfdHJhbnNmZXJfbnVtYmVyGAIgASgJEhgKEGNsaWVudF9zaWduYXR1cmUYAyABKAki9wIKGUNvbW1pdFByZXBhcmF0aW9uUmVzcG9uc2USMQoGY29tbW9uGAEgASgLMiEuY2FjdGkuc2F0cC52MDIuY29tbW9uLkNvbW1vblNhdHASRwoUbWludF9hc3NlcnRpb25fY2xhaW0YAiABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uTWludEFzc2VydGlvbkNsYWltElQKG21pbnRfYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBgDIAEoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5NaW50QXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSHgoWc2VydmVyX3RyYW5zZmVyX251bWJlchgEIAEoCRIYChBzZXJ2ZXJfc2lnbmF0dXJlGAUgASgJEk4KG2JhdGNoX21pbnRfYXNzZXJ0aW9uX2NsYWltcxgGIAMoCzIpLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5NaW50QXNzZXJ0aW9uQ2xhaW0i+QIKG0NvbW1pdEZpbmFsQXNzZXJ0aW9uUmVxdWVzdBIxCgZjb21tb24YASABKAsyIS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQ29tbW9uU2F0cBJHChRidXJuX2Fzc2VydGlvbl9jbGFpbRgCIAEoCzIpLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5CdXJuQXNzZXJ0aW9uQ2xhaW0SVAobYnVybl9hc3NlcnRpb25fY2xhaW1fZm9ybWF0GAMgASgLMi8uY2FjdGkuc2F0cC52MDIuY29tbW9uLkJ1cm5Bc3NlcnRpb25DbGFpbUZvcm1hdBIeChZjbGllbnRfdHJhbnNmZXJfbnVtYmVyGAQgASgJEhgKEGNsaWVudF9zaWduYXR1cmUYBSABKAkSTgobYmF0Y2hfYnVybl9hc3NlcnRpb25fY2xhaW1zGAYgAygLMikuY2FjdGkuc2F0cC52MDIuY29tbW9uLkJ1cm5Bc3NlcnRpb25DbGFpbSKeAwocQ29tbWl0RmluYWxBc3NlcnRpb25SZXNwb25zZRIxCgZjb21tb24YASABKAsyIS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQ29tbW9uU2F0cBJTChphc3NpZ25tZW50X2Fzc2VydGlvbl9jbGFpbRgCIAEoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Bc3NpZ25tZW50QXNzZXJ0aW9uQ2xhaW0SYAohYXNzaWdubWVudF9hc3NlcnRpb25fY2xhaW1fZm9ybWF0GAMgASgLMjUuY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2lnbm1lbnRBc3NlcnRpb25DbGFpbUZvcm1hdBIeChZzZXJ2ZXJfdHJhbnNmZXJfbnVtYmVyGAQgASgJEhgKEHNlcnZlcl9zaWduYXR1cmUYBSABKAkSWgohYmF0Y2hfYXNzaWdubWVudF9hc3NlcnRpb25fY2xhaW1zGAYgAygLMi8uY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2lnbm1lbnRBc3NlcnRpb25DbGFpbSKmAQoXVHJhbnNmZXJDb21wbGV0ZVJlcXVlc3QSMQoGY29tbW9uGAEgASgLMiEuY2FjdGkuc2F0cC52MDIuY29tbW9uLkNvbW1vblNhdHASHgoWaGFzaF90cmFuc2Zlcl9jb21tZW5jZRgCIAEoCRIeChZjbGllbnRfdHJhbnNmZXJfbnVtYmVyGAMgASgJEhgKEGNsaWVudF9zaWduYXR1cmUYBCABKAkihwEKGFRyYW5zZmVyQ29tcGxldGVSZXNwb25zZRIxCgZjb21tb24YASABKAsyIS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQ29tbW9uU2F0cBIeChZzZXJ2ZXJfdHJhbnNmZXJfbnVtYmVyGAIgASgJEhgKEHNlcnZlcl9zaWduYXR1cmUYAyABKAkyjgMKEVNhdHBTdGFnZTNTZXJ2aWNlEnoKEUNvbW1pdFByZXBhcmF0aW9uEjAuY2FjdGkuc2F0cC52MDIuc2VydmljZS5Db21taXRQcmVwYXJhdGlvblJlcXVlc3QaMS5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLkNvbW1pdFByZXBhcmF0aW9uUmVzcG9uc2UiABKDAQoUQ29tbWl0RmluYWxBc3NlcnRpb24SMy5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLkNvbW1pdEZpbmFsQXNzZXJ0aW9uUmVxdWVzdBo0LmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuQ29tbWl0RmluYWxBc3NlcnRpb25SZXNwb25zZSIAEncKEFRyYW5zZmVyQ29tcGxldGUSLy5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLlRyYW5zZmVyQ29tcGxldGVSZXF1ZXN0GjAuY2FjdGkuc2F0cC52MDIuc2VydmljZS5UcmFuc2ZlckNvbXBsZXRlUmVzcG9uc2UiAGIGcHJvdG8z", [file_cacti_satp_v02_common_message]);
 
 /**
  * @generated from message cacti.satp.v02.service.CommitPreparationRequest
@@ -69,6 +69,11 @@ export type CommitPreparationResponse = Message<"cacti.satp.v02.service.CommitPr
    * @generated from field: string server_signature = 5;
    */
   serverSignature: string;
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.MintAssertionClaim batch_mint_assertion_claims = 6;
+   */
+  batchMintAssertionClaims: MintAssertionClaim[];
 };
 
 /**
@@ -106,6 +111,11 @@ export type CommitFinalAssertionRequest = Message<"cacti.satp.v02.service.Commit
    * @generated from field: string client_signature = 5;
    */
   clientSignature: string;
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.BurnAssertionClaim batch_burn_assertion_claims = 6;
+   */
+  batchBurnAssertionClaims: BurnAssertionClaim[];
 };
 
 /**
@@ -143,6 +153,11 @@ export type CommitFinalAssertionResponse = Message<"cacti.satp.v02.service.Commi
    * @generated from field: string server_signature = 5;
    */
   serverSignature: string;
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.AssignmentAssertionClaim batch_assignment_assertion_claims = 6;
+   */
+  batchAssignmentAssertionClaims: AssignmentAssertionClaim[];
 };
 
 /**
@@ -22,7 +22,7 @@ import type { Message } from "@bufbuild/protobuf";
  * Describes the file cacti/satp/v02/session/session.proto.
  */
 export const file_cacti_satp_v02_session_session: GenFile = /*@__PURE__*/
-  fileDesc("CiRjYWN0aS9zYXRwL3YwMi9zZXNzaW9uL3Nlc3Npb24ucHJvdG8SFmNhY3RpLnNhdHAudjAyLnNlc3Npb24iuRkKC1Nlc3Npb25EYXRhEgoKAmlkGAEgASgJEg8KB3ZlcnNpb24YAiABKAkSGwoTdHJhbnNmZXJfY29udGV4dF9pZBgDIAEoCRI7CgZoYXNoZXMYBCABKAsyKy5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLk1lc3NhZ2VTdGFnZXNIYXNoZXMSPgoPcGF5bG9hZF9wcm9maWxlGAUgASgLMiUuY2FjdGkuc2F0cC52MDIuY29tbW9uLlBheWxvYWRQcm9maWxlEkMKCnNpZ25hdHVyZXMYBiABKAsyLy5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLk1lc3NhZ2VTdGFnZXNTaWduYXR1cmVzEhMKC21heF9yZXRyaWVzGAcgASgJEhMKC21heF90aW1lb3V0GAggASgJEhcKD2xvZ2dpbmdfcHJvZmlsZRgJIAEoCRIbChNyZWNpcGllbnRfYmFzZV9wYXRoGAogASgJEhgKEHNvdXJjZV9iYXNlX3BhdGgYCyABKAkSHgoWYWNjZXNzX2NvbnRyb2xfcHJvZmlsZRgMIAEoCRIbChNhcHBsaWNhdGlvbl9wcm9maWxlGA0gASgJEhwKFGxhc3Rfc2VxdWVuY2VfbnVtYmVyGA4gASgDEiEKGXNlbmRlcl9nYXRld2F5X25ldHdvcmtfaWQYDyABKAkSJAoccmVjaXBpZW50X2dhdGV3YXlfbmV0d29ya19pZBgQIAEoCRIeChZzb3VyY2VfbGVkZ2VyX2Fzc2V0X2lkGBEgASgJEiEKGXJlY2lwaWVudF9sZWRnZXJfYXNzZXRfaWQYEiABKAkSHQoVc2VydmVyX2dhdGV3YXlfcHVia2V5GBMgASgJEh0KFWNsaWVudF9nYXRld2F5X3B1YmtleRgUIAEoCRIlCh12ZXJpZmllZF9vcmlnaW5hdG9yX2VudGl0eV9pZBgVIAEoCRImCh52ZXJpZmllZF9iZW5lZmljaWFyeV9lbnRpdHlfaWQYFiABKAkSGAoQYXNzZXRfcHJvZmlsZV9pZBgXIAEoCRIYChBkaWdpdGFsX2Fzc2V0X2lkGBggASgJEhkKEW9yaWdpbmF0b3JfcHVia2V5GBkgASgJEhoKEmJlbmVmaWNpYXJ5X3B1YmtleRgaIAEoCRIfChdzZW5kZXJfZ2F0ZXdheV9vd25lcl9pZBgbIAEoCRIhChlyZWNlaXZlcl9nYXRld2F5X293bmVyX2lkGBwgASgJEiEKGWhhc2hfdHJhbnNmZXJfaW5pdF9jbGFpbXMYHSABKAkSQwoUdHJhbnNmZXJfaW5pdF9jbGFpbXMYHiABKAsyJS5jYWN0aS5zYXRwLnYwMi5jb21tb24uVHJhbnNmZXJDbGFpbXMSJQodcHJvcG9zZWRfdHJhbnNmZXJfaW5pdF9jbGFpbXMYHyABKAkSRgoTc2lnbmF0dXJlX2FsZ29yaXRobRggIAEoDjIpLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5TaWduYXR1cmVBbGdvcml0aG0SMgoJbG9ja190eXBlGCEgASgOMh8uY2FjdGkuc2F0cC52MDIuY29tbW9uLkxvY2tUeXBlEhwKFGxvY2tfZXhwaXJhdGlvbl90aW1lGCIgASgEEjcKC3Blcm1pc3Npb25zGCMgASgLMiIuY2FjdGkuc2F0cC52MDIuY29tbW9uLlBlcm1pc3Npb25zEhUKDWRldmVsb3Blcl91cm4YJCABKAkSRAoSY3JlZGVudGlhbF9wcm9maWxlGCUgASgOMiguY2FjdGkuc2F0cC52MDIuY29tbW9uLkNyZWRlbnRpYWxQcm9maWxlEkAKEHN1YnNlcXVlbnRfY2FsbHMYJiABKAsyJi5jYWN0aS5zYXRwLnYwMi5jb21tb24uU3Vic2VxdWVudENhbGxzEi8KB2hpc3RvcnkYJyADKAsyHi5jYWN0aS5zYXRwLnYwMi5jb21tb24uSGlzdG9yeRIfChdtdWx0aXBsZV9jbGFpbXNfYWxsb3dlZBgoIAEoCBIgChhtdWx0aXBsZV9jYW5jZWxzX2FsbG93ZWQYKSABKAgSJwofbGFzdF9tZXNzYWdlX3JlY2VpdmVkX3RpbWVzdGFtcBgqIAEoCRJNChRwcm9jZXNzZWRfdGltZXN0YW1wcxgrIAEoCzIvLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uTWVzc2FnZVN0YWdlc1RpbWVzdGFtcHMSTAoTcmVjZWl2ZWRfdGltZXN0YW1wcxgsIAEoCzIvLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uTWVzc2FnZVN0YWdlc1RpbWVzdGFtcHMSRwoUbG9ja19hc3NlcnRpb25fY2xhaW0YLSABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uTG9ja0Fzc2VydGlvbkNsYWltElQKG2xvY2tfYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBguIAEoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Mb2NrQXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSRwoUbWludF9hc3NlcnRpb25fY2xhaW0YLyABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uTWludEFzc2VydGlvbkNsYWltElQKG21pbnRfYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBgwIAEoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5NaW50QXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSRwoUYnVybl9hc3NlcnRpb25fY2xhaW0YMSABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQnVybkFzc2VydGlvbkNsYWltElQKG2J1cm5fYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBgyIAEoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5CdXJuQXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSUwoaYXNzaWdubWVudF9hc3NlcnRpb25fY2xhaW0YMyABKAsyLy5jYWN0aS5zYXRwLnYwMi5jb21tb24uQXNzaWdubWVudEFzc2VydGlvbkNsYWltEmAKIWFzc2lnbm1lbnRfYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBg0IAEoCzI1LmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Bc3NpZ25tZW50QXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSGQoRbGFzdF9tZXNzYWdlX2hhc2gYNSABKAkSSwoWdHJhbnNmZXJfY2xhaW1zX2Zvcm1hdBg2IAEoCzIrLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5UcmFuc2ZlckNsYWltc0Zvcm1hdBIeChZjbGllbnRfdHJhbnNmZXJfbnVtYmVyGDcgASgJEh4KFnNlcnZlcl90cmFuc2Zlcl9udW1iZXIYOCABKAkSIQoZbG9ja19hc3NlcnRpb25fZXhwaXJhdGlvbhg5IAEoBBI6Cg1hc3NldF9wcm9maWxlGDogASgLMiMuY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2V0UHJvZmlsZRIUCgxyZXNvdXJjZV91cmwYPSABKAkSTgobc2VuZGVyX3dyYXBfYXNzZXJ0aW9uX2NsYWltGD4gASgLMikuY2FjdGkuc2F0cC52MDIuY29tbW9uLldyYXBBc3NlcnRpb25DbGFpbRJQCh1yZWNlaXZlcl93cmFwX2Fzc2VydGlvbl9jbGFpbRg/IAEoCzIpLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5XcmFwQXNzZXJ0aW9uQ2xhaW0SMgoMc2VuZGVyX2Fzc2V0GEAgASgLMhwuY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2V0EjQKDnJlY2VpdmVyX2Fzc2V0GEEgASgLMhwuY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2V0EiwKBXN0YXRlGEIgASgOMh0uY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TdGF0ZRIwCgplcnJvcl9jb2RlGEMgASgOMhwuY2FjdGkuc2F0cC52MDIuY29tbW9uLkVycm9yEjcKC3BoYXNlX2Vycm9yGEQgASgOMiIuY2FjdGkuc2F0cC52MDIuY29tbW9uLk1lc3NhZ2VUeXBlEhcKD3JlY292ZXJlZF90cmllZBhFIAEoCBI7Cg1zYXRwX21lc3NhZ2VzGEYgASgLMiQuY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TQVRQTWVzc2FnZXMSKgoEcm9sZRhJIAEoDjIcLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uVHlwZSLuAQoMU0FUUE1lc3NhZ2VzEjYKBnN0YWdlMBgBIAEoCzImLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UwTWVzc2FnZXMSNgoGc3RhZ2UxGAIgASgLMiYuY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TdGFnZTFNZXNzYWdlcxI2CgZzdGFnZTIYAyABKAsyJi5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlMk1lc3NhZ2VzEjYKBnN0YWdlMxgEIAEoCzImLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UzTWVzc2FnZXMi6gIKDlN0YWdlME1lc3NhZ2VzEk4KG25ld19zZXNzaW9uX3JlcXVlc3RfbWVzc2FnZRgBIAEoCzIpLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuTmV3U2Vzc2lvblJlcXVlc3QSUAocbmV3X3Nlc3Npb25fcmVzcG9uc2VfbWVzc2FnZRgCIAEoCzIqLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuTmV3U2Vzc2lvblJlc3BvbnNlElkKIXByZV9zYXRwX3RyYW5zZmVyX3JlcXVlc3RfbWVzc2FnZRgDIAEoCzIuLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuUHJlU0FUUFRyYW5zZmVyUmVxdWVzdBJbCiJwcmVfc2F0cF90cmFuc2Zlcl9yZXNwb25zZV9tZXNzYWdlGAQgASgLMi8uY2FjdGkuc2F0cC52MDIuc2VydmljZS5QcmVTQVRQVHJhbnNmZXJSZXNwb25zZSKDAwoOU3RhZ2UxTWVzc2FnZXMSWgohdHJhbnNmZXJfcHJvcG9zYWxfcmVxdWVzdF9tZXNzYWdlGAEgASgLMi8uY2FjdGkuc2F0cC52MDIuc2VydmljZS5UcmFuc2ZlclByb3Bvc2FsUmVxdWVzdBJbCiF0cmFuc2Zlcl9wcm9wb3NhbF9yZWNlaXB0X21lc3NhZ2UYAiABKAsyMC5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLlRyYW5zZmVyUHJvcG9zYWxSZXNwb25zZRJaCiF0cmFuc2Zlcl9jb21tZW5jZV9yZXF1ZXN0X21lc3NhZ2UYBCABKAsyLy5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLlRyYW5zZmVyQ29tbWVuY2VSZXF1ZXN0ElwKInRyYW5zZmVyX2NvbW1lbmNlX3Jlc3BvbnNlX21lc3NhZ2UYBSABKAsyMC5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLlRyYW5zZmVyQ29tbWVuY2VSZXNwb25zZSK9AQoOU3RhZ2UyTWVzc2FnZXMSVAoebG9ja19hc3NlcnRpb25fcmVxdWVzdF9tZXNzYWdlGAEgASgLMiwuY2FjdGkuc2F0cC52MDIuc2VydmljZS5Mb2NrQXNzZXJ0aW9uUmVxdWVzdBJVCh5sb2NrX2Fzc2VydGlvbl9yZWNlaXB0X21lc3NhZ2UYAiABKAsyLS5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLkxvY2tBc3NlcnRpb25SZXNwb25zZSLUBAoOU3RhZ2UzTWVzc2FnZXMSXAoiY29tbWl0X3ByZXBhcmF0aW9uX3JlcXVlc3RfbWVzc2FnZRgBIAEoCzIwLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuQ29tbWl0UHJlcGFyYXRpb25SZXF1ZXN0ElgKHWNvbW1pdF9yZWFkeV9yZXNwb25zZV9tZXNzYWdlGAIgASgLMjEuY2FjdGkuc2F0cC52MDIuc2VydmljZS5Db21taXRQcmVwYXJhdGlvblJlc3BvbnNlEmMKJmNvbW1pdF9maW5hbF9hc3NlcnRpb25fcmVxdWVzdF9tZXNzYWdlGAMgASgLMjMuY2FjdGkuc2F0cC52MDIuc2VydmljZS5Db21taXRGaW5hbEFzc2VydGlvblJlcXVlc3QScwo1Y29tbWl0X2ZpbmFsX2Fja25vd2xlZGdlbWVudF9yZWNlaXB0X3Jlc3BvbnNlX21lc3NhZ2UYBCABKAsyNC5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLkNvbW1pdEZpbmFsQXNzZXJ0aW9uUmVzcG9uc2USUgoZdHJhbnNmZXJfY29tcGxldGVfbWVzc2FnZRgFIAEoCzIvLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuVHJhbnNmZXJDb21wbGV0ZVJlcXVlc3QSXAoidHJhbnNmZXJfY29tcGxldGVfcmVzcG9uc2VfbWVzc2FnZRgGIAEoCzIwLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuVHJhbnNmZXJDb21wbGV0ZVJlc3BvbnNlIu0BChNNZXNzYWdlU3RhZ2VzSGFzaGVzEjQKBnN0YWdlMBgBIAEoCzIkLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UwSGFzaGVzEjQKBnN0YWdlMRgCIAEoCzIkLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UxSGFzaGVzEjQKBnN0YWdlMhgDIAEoCzIkLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UySGFzaGVzEjQKBnN0YWdlMxgEIAEoCzIkLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UzSGFzaGVzIsQBCgxTdGFnZTBIYXNoZXMSKAogbmV3X3Nlc3Npb25fcmVxdWVzdF9tZXNzYWdlX2hhc2gYASABKAkSKQohbmV3X3Nlc3Npb25fcmVzcG9uc2VfbWVzc2FnZV9oYXNoGAIgASgJEi4KJnByZV9zYXRwX3RyYW5zZmVyX3JlcXVlc3RfbWVzc2FnZV9oYXNoGAMgASgJEi8KJ3ByZV9zYXRwX3RyYW5zZmVyX3Jlc3BvbnNlX21lc3NhZ2VfaGFzaBgEIAEoCSL+AQoMU3RhZ2UxSGFzaGVzEi4KJnRyYW5zZmVyX3Byb3Bvc2FsX3JlcXVlc3RfbWVzc2FnZV9oYXNoGAEgASgJEi4KJnRyYW5zZmVyX3Byb3Bvc2FsX3JlY2VpcHRfbWVzc2FnZV9oYXNoGAIgASgJEi0KJXRyYW5zZmVyX3Byb3Bvc2FsX3JlamVjdF9tZXNzYWdlX2hhc2gYAyABKAkSLgomdHJhbnNmZXJfY29tbWVuY2VfcmVxdWVzdF9tZXNzYWdlX2hhc2gYBCABKAkSLwondHJhbnNmZXJfY29tbWVuY2VfcmVzcG9uc2VfbWVzc2FnZV9oYXNoGAUgASgJImgKDFN0YWdlMkhhc2hlcxIrCiNsb2NrX2Fzc2VydGlvbl9yZXF1ZXN0X21lc3NhZ2VfaGFzaBgBIAEoCRIrCiNsb2NrX2Fzc2VydGlvbl9yZWNlaXB0X21lc3NhZ2VfaGFzaBgCIAEoCSK9AgoMU3RhZ2UzSGFzaGVzEi8KJ2NvbW1pdF9wcmVwYXJhdGlvbl9yZXF1ZXN0X21lc3NhZ2VfaGFzaBgBIAEoCRIqCiJjb21taXRfcmVhZHlfcmVzcG9uc2VfbWVzc2FnZV9oYXNoGAIgASgJEjMKK2NvbW1pdF9maW5hbF9hc3NlcnRpb25fcmVxdWVzdF9tZXNzYWdlX2hhc2gYAyABKAkSQgo6Y29tbWl0X2ZpbmFsX2Fja25vd2xlZGdlbWVudF9yZWNlaXB0X3Jlc3BvbnNlX21lc3NhZ2VfaGFzaBgEIAEoCRImCh50cmFuc2Zlcl9jb21wbGV0ZV9tZXNzYWdlX2hhc2gYBSABKAkSLwondHJhbnNmZXJfY29tcGxldGVfcmVzcG9uc2VfbWVzc2FnZV9oYXNoGAYgASgJIoECChdNZXNzYWdlU3RhZ2VzU2lnbmF0dXJlcxI4CgZzdGFnZTAYASABKAsyKC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlMFNpZ25hdHVyZXMSOAoGc3RhZ2UxGAIgASgLMiguY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TdGFnZTFTaWduYXR1cmVzEjgKBnN0YWdlMhgDIAEoCzIoLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UyU2lnbmF0dXJlcxI4CgZzdGFnZTMYBCABKAsyKC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlM1NpZ25hdHVyZXMi3AEKEFN0YWdlMFNpZ25hdHVyZXMSLQolbmV3X3Nlc3Npb25fcmVxdWVzdF9tZXNzYWdlX3NpZ25hdHVyZRgBIAEoCRIuCiZuZXdfc2Vzc2lvbl9yZXNwb25zZV9tZXNzYWdlX3NpZ25hdHVyZRgCIAEoCRIzCitwcmVfc2F0cF90cmFuc2Zlcl9yZXF1ZXN0X21lc3NhZ2Vfc2lnbmF0dXJlGAMgASgJEjQKLHByZV9zYXRwX3RyYW5zZmVyX3Jlc3BvbnNlX21lc3NhZ2Vfc2lnbmF0dXJlGAQgASgJIpsCChBTdGFnZTFTaWduYXR1cmVzEjMKK3RyYW5zZmVyX3Byb3Bvc2FsX3JlcXVlc3RfbWVzc2FnZV9zaWduYXR1cmUYASABKAkSMwordHJhbnNmZXJfcHJvcG9zYWxfcmVjZWlwdF9tZXNzYWdlX3NpZ25hdHVyZRgCIAEoCRIyCip0cmFuc2Zlcl9wcm9wb3NhbF9yZWplY3RfbWVzc2FnZV9zaWduYXR1cmUYAyABKAkSMwordHJhbnNmZXJfY29tbWVuY2VfcmVxdWVzdF9tZXNzYWdlX3NpZ25hdHVyZRgEIAEoCRI0Cix0cmFuc2Zlcl9jb21tZW5jZV9yZXNwb25zZV9tZXNzYWdlX3NpZ25hdHVyZRgFIAEoCSJ2ChBTdGFnZTJTaWduYXR1cmVzEjAKKGxvY2tfYXNzZXJ0aW9uX3JlcXVlc3RfbWVzc2FnZV9zaWduYXR1cmUYASABKAkSMAoobG9ja19hc3NlcnRpb25fcmVjZWlwdF9tZXNzYWdlX3NpZ25hdHVyZRgCIAEoCSLfAgoQU3RhZ2UzU2lnbmF0dXJlcxI0Cixjb21taXRfcHJlcGFyYXRpb25fcmVxdWVzdF9tZXNzYWdlX3NpZ25hdHVyZRgBIAEoCRIvCidjb21taXRfcmVhZHlfcmVzcG9uc2VfbWVzc2FnZV9zaWduYXR1cmUYAiABKAkSOAowY29tbWl0X2ZpbmFsX2Fzc2VydGlvbl9yZXF1ZXN0X21lc3NhZ2Vfc2lnbmF0dXJlGAMgASgJEkcKP2NvbW1pdF9maW5hbF9hY2tub3dsZWRnZW1lbnRfcmVjZWlwdF9yZXNwb25zZV9tZXNzYWdlX3NpZ25hdHVyZRgEIAEoCRIrCiN0cmFuc2Zlcl9jb21wbGV0ZV9tZXNzYWdlX3NpZ25hdHVyZRgFIAEoCRI0Cix0cmFuc2Zlcl9jb21wbGV0ZV9yZXNwb25zZV9tZXNzYWdlX3NpZ25hdHVyZRgGIAEoCSKBAgoXTWVzc2FnZVN0YWdlc1RpbWVzdGFtcHMSOAoGc3RhZ2UwGAEgASgLMiguY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TdGFnZTBUaW1lc3RhbXBzEjgKBnN0YWdlMRgCIAEoCzIoLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UxVGltZXN0YW1wcxI4CgZzdGFnZTIYAyABKAsyKC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlMlRpbWVzdGFtcHMSOAoGc3RhZ2UzGAQgASgLMiguY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TdGFnZTNUaW1lc3RhbXBzItwBChBTdGFnZTBUaW1lc3RhbXBzEi0KJW5ld19zZXNzaW9uX3JlcXVlc3RfbWVzc2FnZV90aW1lc3RhbXAYASABKAkSLgombmV3X3Nlc3Npb25fcmVzcG9uc2VfbWVzc2FnZV90aW1lc3RhbXAYAiABKAkSMworcHJlX3NhdHBfdHJhbnNmZXJfcmVxdWVzdF9tZXNzYWdlX3RpbWVzdGFtcBgDIAEoCRI0CixwcmVfc2F0cF90cmFuc2Zlcl9yZXNwb25zZV9tZXNzYWdlX3RpbWVzdGFtcBgEIAEoCSKbAgoQU3RhZ2UxVGltZXN0YW1wcxIzCit0cmFuc2Zlcl9wcm9wb3NhbF9yZXF1ZXN0X21lc3NhZ2VfdGltZXN0YW1wGAEgASgJEjMKK3RyYW5zZmVyX3Byb3Bvc2FsX3JlY2VpcHRfbWVzc2FnZV90aW1lc3RhbXAYAiABKAkSMgoqdHJhbnNmZXJfcHJvcG9zYWxfcmVqZWN0X21lc3NhZ2VfdGltZXN0YW1wGAMgASgJEjMKK3RyYW5zZmVyX2NvbW1lbmNlX3JlcXVlc3RfbWVzc2FnZV90aW1lc3RhbXAYBCABKAkSNAosdHJhbnNmZXJfY29tbWVuY2VfcmVzcG9uc2VfbWVzc2FnZV90aW1lc3RhbXAYBSABKAkidgoQU3RhZ2UyVGltZXN0YW1wcxIwCihsb2NrX2Fzc2VydGlvbl9yZXF1ZXN0X21lc3NhZ2VfdGltZXN0YW1wGAEgASgJEjAKKGxvY2tfYXNzZXJ0aW9uX3JlY2VpcHRfbWVzc2FnZV90aW1lc3RhbXAYAiABKAki3wIKEFN0YWdlM1RpbWVzdGFtcHMSNAosY29tbWl0X3ByZXBhcmF0aW9uX3JlcXVlc3RfbWVzc2FnZV90aW1lc3RhbXAYASABKAkSLwonY29tbWl0X3JlYWR5X3Jlc3BvbnNlX21lc3NhZ2VfdGltZXN0YW1wGAIgASgJEjgKMGNvbW1pdF9maW5hbF9hc3NlcnRpb25fcmVxdWVzdF9tZXNzYWdlX3RpbWVzdGFtcBgDIAEoCRJHCj9jb21taXRfZmluYWxfYWNrbm93bGVkZ2VtZW50X3JlY2VpcHRfcmVzcG9uc2VfbWVzc2FnZV90aW1lc3RhbXAYBCABKAkSKwojdHJhbnNmZXJfY29tcGxldGVfbWVzc2FnZV90aW1lc3RhbXAYBSABKAkSNAosdHJhbnNmZXJfY29tcGxldGVfcmVzcG9uc2VfbWVzc2FnZV90aW1lc3RhbXAYBiABKAkiNwoRU2VuZFN0YXR1c1JlcXVlc3QSDgoGc3RhdHVzGAEgASgJEhIKCmhhc19iYWNrdXAYAiABKAgiNwoRR2V0U3RhdHVzUmVzcG9uc2USDgoGc3RhdHVzGAEgASgJEhIKCmhhc19iYWNrdXAYAiABKAgiHwoMUGluZ1Jlc3BvbnNlEg8KB21lc3NhZ2UYASABKAkiIwoQUm9sbGJhY2tSZXNwb25zZRIPCgdtZXNzYWdlGAEgASgJIioKF0dldFN0YWdlVmVyc2lvblJlc3BvbnNlEg8KB3ZlcnNpb24YASABKAkqtgEKBVN0YXRlEhUKEVNUQVRFX1VOU1BFQ0lGSUVEEAASEQoNU1RBVEVfT05HT0lORxABEhMKD1NUQVRFX0NPTVBMRVRFRBACEhIKDlNUQVRFX1JFSkVDVEVEEAMSHgoaU1RBVEVfQ09ORElUSU9OQUxfUkVKRUNURUQQBBIPCgtTVEFURV9FUlJPUhAFEhMKD1NUQVRFX1JFQ09WRVJFRBAGEhQKEFNUQVRFX1JFQ09WRVJJTkcQByo+CgRUeXBlEhQKEFRZUEVfVU5TUEVDSUZJRUQQABIPCgtUWVBFX0NMSUVOVBABEg8KC1RZUEVfU0VSVkVSEAIqbwoJU0FUUFN0YWdlEhoKFlNBVFBfU1RBR0VfVU5TUEVDSUZJRUQQABIQCgxTQVRQX1NUQUdFXzAQARIQCgxTQVRQX1NUQUdFXzEQAhIQCgxTQVRQX1NUQUdFXzIQAxIQCgxTQVRQX1NUQUdFXzMQBDK7AQoUU2Vzc2lvblN0YXR1c1NlcnZpY2USUAoJR2V0U3RhdHVzEhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5GikuY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5HZXRTdGF0dXNSZXNwb25zZSIAElEKClNlbmRTdGF0dXMSKS5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlNlbmRTdGF0dXNSZXF1ZXN0GhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5IgAyhQIKDUNvbW1vblNlcnZpY2USRgoEUGluZxIWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRokLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uUGluZ1Jlc3BvbnNlIgASTgoIUm9sbGJhY2sSFi5nb29nbGUucHJvdG9idWYuRW1wdHkaKC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlJvbGxiYWNrUmVzcG9uc2UiABJcCg9HZXRTdGFnZVZlcnNpb24SFi5nb29nbGUucHJvdG9idWYuRW1wdHkaLy5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLkdldFN0YWdlVmVyc2lvblJlc3BvbnNlIgBiBnByb3RvMw", [file_cacti_satp_v02_common_message, file_cacti_satp_v02_service_stage_0, file_cacti_satp_v02_service_stage_1, file_cacti_satp_v02_service_stage_2, file_cacti_satp_v02_service_stage_3, file_google_protobuf_empty]);
+  fileDesc("CiRjYWN0aS9zYXRwL3YwMi9zZXNzaW9uL3Nlc3Npb24ucHJvdG8SFmNhY3RpLnNhdHAudjAyLnNlc3Npb24irR4KC1Nlc3Npb25EYXRhEgoKAmlkGAEgASgJEg8KB3ZlcnNpb24YAiABKAkSGwoTdHJhbnNmZXJfY29udGV4dF9pZBgDIAEoCRI7CgZoYXNoZXMYBCABKAsyKy5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLk1lc3NhZ2VTdGFnZXNIYXNoZXMSPgoPcGF5bG9hZF9wcm9maWxlGAUgASgLMiUuY2FjdGkuc2F0cC52MDIuY29tbW9uLlBheWxvYWRQcm9maWxlEkMKCnNpZ25hdHVyZXMYBiABKAsyLy5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLk1lc3NhZ2VTdGFnZXNTaWduYXR1cmVzEhMKC21heF9yZXRyaWVzGAcgASgJEhMKC21heF90aW1lb3V0GAggASgJEhcKD2xvZ2dpbmdfcHJvZmlsZRgJIAEoCRIbChNyZWNpcGllbnRfYmFzZV9wYXRoGAogASgJEhgKEHNvdXJjZV9iYXNlX3BhdGgYCyABKAkSHgoWYWNjZXNzX2NvbnRyb2xfcHJvZmlsZRgMIAEoCRIbChNhcHBsaWNhdGlvbl9wcm9maWxlGA0gASgJEhwKFGxhc3Rfc2VxdWVuY2VfbnVtYmVyGA4gASgDEiEKGXNlbmRlcl9nYXRld2F5X25ldHdvcmtfaWQYDyABKAkSJAoccmVjaXBpZW50X2dhdGV3YXlfbmV0d29ya19pZBgQIAEoCRIeChZzb3VyY2VfbGVkZ2VyX2Fzc2V0X2lkGBEgASgJEiEKGXJlY2lwaWVudF9sZWRnZXJfYXNzZXRfaWQYEiABKAkSHQoVc2VydmVyX2dhdGV3YXlfcHVia2V5GBMgASgJEh0KFWNsaWVudF9nYXRld2F5X3B1YmtleRgUIAEoCRIlCh12ZXJpZmllZF9vcmlnaW5hdG9yX2VudGl0eV9pZBgVIAEoCRImCh52ZXJpZmllZF9iZW5lZmljaWFyeV9lbnRpdHlfaWQYFiABKAkSGAoQYXNzZXRfcHJvZmlsZV9pZBgXIAEoCRIYChBkaWdpdGFsX2Fzc2V0X2lkGBggASgJEhkKEW9yaWdpbmF0b3JfcHVia2V5GBkgASgJEhoKEmJlbmVmaWNpYXJ5X3B1YmtleRgaIAEoCRIfChdzZW5kZXJfZ2F0ZXdheV9vd25lcl9pZBgbIAEoCRIhChlyZWNlaXZlcl9nYXRld2F5X293bmVyX2lkGBwgASgJEiEKGWhhc2hfdHJhbnNmZXJfaW5pdF9jbGFpbXMYHSABKAkSQwoUdHJhbnNmZXJfaW5pdF9jbGFpbXMYHiABKAsyJS5jYWN0aS5zYXRwLnYwMi5jb21tb24uVHJhbnNmZXJDbGFpbXMSJQodcHJvcG9zZWRfdHJhbnNmZXJfaW5pdF9jbGFpbXMYHyABKAkSRgoTc2lnbmF0dXJlX2FsZ29yaXRobRggIAEoDjIpLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5TaWduYXR1cmVBbGdvcml0aG0SMgoJbG9ja190eXBlGCEgASgOMh8uY2FjdGkuc2F0cC52MDIuY29tbW9uLkxvY2tUeXBlEhwKFGxvY2tfZXhwaXJhdGlvbl90aW1lGCIgASgEEjcKC3Blcm1pc3Npb25zGCMgASgLMiIuY2FjdGkuc2F0cC52MDIuY29tbW9uLlBlcm1pc3Npb25zEhUKDWRldmVsb3Blcl91cm4YJCABKAkSRAoSY3JlZGVudGlhbF9wcm9maWxlGCUgASgOMiguY2FjdGkuc2F0cC52MDIuY29tbW9uLkNyZWRlbnRpYWxQcm9maWxlEkAKEHN1YnNlcXVlbnRfY2FsbHMYJiABKAsyJi5jYWN0aS5zYXRwLnYwMi5jb21tb24uU3Vic2VxdWVudENhbGxzEi8KB2hpc3RvcnkYJyADKAsyHi5jYWN0aS5zYXRwLnYwMi5jb21tb24uSGlzdG9yeRIfChdtdWx0aXBsZV9jbGFpbXNfYWxsb3dlZBgoIAEoCBIgChhtdWx0aXBsZV9jYW5jZWxzX2FsbG93ZWQYKSABKAgSJwofbGFzdF9tZXNzYWdlX3JlY2VpdmVkX3RpbWVzdGFtcBgqIAEoCRJNChRwcm9jZXNzZWRfdGltZXN0YW1wcxgrIAEoCzIvLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uTWVzc2FnZVN0YWdlc1RpbWVzdGFtcHMSTAoTcmVjZWl2ZWRfdGltZXN0YW1wcxgsIAEoCzIvLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uTWVzc2FnZVN0YWdlc1RpbWVzdGFtcHMSRwoUbG9ja19hc3NlcnRpb25fY2xhaW0YLSABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uTG9ja0Fzc2VydGlvbkNsYWltElQKG2xvY2tfYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBguIAEoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Mb2NrQXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSRwoUbWludF9hc3NlcnRpb25fY2xhaW0YLyABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uTWludEFzc2VydGlvbkNsYWltElQKG21pbnRfYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBgwIAEoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5NaW50QXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSRwoUYnVybl9hc3NlcnRpb25fY2xhaW0YMSABKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQnVybkFzc2VydGlvbkNsYWltElQKG2J1cm5fYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBgyIAEoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5CdXJuQXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSUwoaYXNzaWdubWVudF9hc3NlcnRpb25fY2xhaW0YMyABKAsyLy5jYWN0aS5zYXRwLnYwMi5jb21tb24uQXNzaWdubWVudEFzc2VydGlvbkNsYWltEmAKIWFzc2lnbm1lbnRfYXNzZXJ0aW9uX2NsYWltX2Zvcm1hdBg0IAEoCzI1LmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Bc3NpZ25tZW50QXNzZXJ0aW9uQ2xhaW1Gb3JtYXQSGQoRbGFzdF9tZXNzYWdlX2hhc2gYNSABKAkSSwoWdHJhbnNmZXJfY2xhaW1zX2Zvcm1hdBg2IAEoCzIrLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5UcmFuc2ZlckNsYWltc0Zvcm1hdBIeChZjbGllbnRfdHJhbnNmZXJfbnVtYmVyGDcgASgJEh4KFnNlcnZlcl90cmFuc2Zlcl9udW1iZXIYOCABKAkSIQoZbG9ja19hc3NlcnRpb25fZXhwaXJhdGlvbhg5IAEoBBI6Cg1hc3NldF9wcm9maWxlGDogASgLMiMuY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2V0UHJvZmlsZRIUCgxyZXNvdXJjZV91cmwYPSABKAkSTgobc2VuZGVyX3dyYXBfYXNzZXJ0aW9uX2NsYWltGD4gASgLMikuY2FjdGkuc2F0cC52MDIuY29tbW9uLldyYXBBc3NlcnRpb25DbGFpbRJQCh1yZWNlaXZlcl93cmFwX2Fzc2VydGlvbl9jbGFpbRg/IAEoCzIpLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5XcmFwQXNzZXJ0aW9uQ2xhaW0SMgoMc2VuZGVyX2Fzc2V0GEAgASgLMhwuY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2V0EjQKDnJlY2VpdmVyX2Fzc2V0GEEgASgLMhwuY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2V0EiwKBXN0YXRlGEIgASgOMh0uY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TdGF0ZRIwCgplcnJvcl9jb2RlGEMgASgOMhwuY2FjdGkuc2F0cC52MDIuY29tbW9uLkVycm9yEjcKC3BoYXNlX2Vycm9yGEQgASgOMiIuY2FjdGkuc2F0cC52MDIuY29tbW9uLk1lc3NhZ2VUeXBlEhcKD3JlY292ZXJlZF90cmllZBhFIAEoCBI7Cg1zYXRwX21lc3NhZ2VzGEYgASgLMiQuY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TQVRQTWVzc2FnZXMSKgoEcm9sZRhJIAEoDjIcLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uVHlwZRI5ChNiYXRjaF9zZW5kZXJfYXNzZXRzGEogAygLMhwuY2FjdGkuc2F0cC52MDIuY29tbW9uLkFzc2V0EjsKFWJhdGNoX3JlY2VpdmVyX2Fzc2V0cxhLIAMoCzIcLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Bc3NldBJVCiJiYXRjaF9zZW5kZXJfd3JhcF9hc3NlcnRpb25fY2xhaW1zGEwgAygLMikuY2FjdGkuc2F0cC52MDIuY29tbW9uLldyYXBBc3NlcnRpb25DbGFpbRJXCiRiYXRjaF9yZWNlaXZlcl93cmFwX2Fzc2VydGlvbl9jbGFpbXMYTSADKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uV3JhcEFzc2VydGlvbkNsYWltEk4KG2JhdGNoX2xvY2tfYXNzZXJ0aW9uX2NsYWltcxhOIAMoCzIpLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Mb2NrQXNzZXJ0aW9uQ2xhaW0STgobYmF0Y2hfbWludF9hc3NlcnRpb25fY2xhaW1zGE8gAygLMikuY2FjdGkuc2F0cC52MDIuY29tbW9uLk1pbnRBc3NlcnRpb25DbGFpbRJOChtiYXRjaF9idXJuX2Fzc2VydGlvbl9jbGFpbXMYUCADKAsyKS5jYWN0aS5zYXRwLnYwMi5jb21tb24uQnVybkFzc2VydGlvbkNsYWltEloKIWJhdGNoX2Fzc2lnbm1lbnRfYXNzZXJ0aW9uX2NsYWltcxhRIAMoCzIvLmNhY3RpLnNhdHAudjAyLmNvbW1vbi5Bc3NpZ25tZW50QXNzZXJ0aW9uQ2xhaW0i7gEKDFNBVFBNZXNzYWdlcxI2CgZzdGFnZTAYASABKAsyJi5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlME1lc3NhZ2VzEjYKBnN0YWdlMRgCIAEoCzImLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UxTWVzc2FnZXMSNgoGc3RhZ2UyGAMgASgLMiYuY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TdGFnZTJNZXNzYWdlcxI2CgZzdGFnZTMYBCABKAsyJi5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlM01lc3NhZ2VzIuoCCg5TdGFnZTBNZXNzYWdlcxJOChtuZXdfc2Vzc2lvbl9yZXF1ZXN0X21lc3NhZ2UYASABKAsyKS5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLk5ld1Nlc3Npb25SZXF1ZXN0ElAKHG5ld19zZXNzaW9uX3Jlc3BvbnNlX21lc3NhZ2UYAiABKAsyKi5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLk5ld1Nlc3Npb25SZXNwb25zZRJZCiFwcmVfc2F0cF90cmFuc2Zlcl9yZXF1ZXN0X21lc3NhZ2UYAyABKAsyLi5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLlByZVNBVFBUcmFuc2ZlclJlcXVlc3QSWwoicHJlX3NhdHBfdHJhbnNmZXJfcmVzcG9uc2VfbWVzc2FnZRgEIAEoCzIvLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuUHJlU0FUUFRyYW5zZmVyUmVzcG9uc2UigwMKDlN0YWdlMU1lc3NhZ2VzEloKIXRyYW5zZmVyX3Byb3Bvc2FsX3JlcXVlc3RfbWVzc2FnZRgBIAEoCzIvLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuVHJhbnNmZXJQcm9wb3NhbFJlcXVlc3QSWwohdHJhbnNmZXJfcHJvcG9zYWxfcmVjZWlwdF9tZXNzYWdlGAIgASgLMjAuY2FjdGkuc2F0cC52MDIuc2VydmljZS5UcmFuc2ZlclByb3Bvc2FsUmVzcG9uc2USWgohdHJhbnNmZXJfY29tbWVuY2VfcmVxdWVzdF9tZXNzYWdlGAQgASgLMi8uY2FjdGkuc2F0cC52MDIuc2VydmljZS5UcmFuc2ZlckNvbW1lbmNlUmVxdWVzdBJcCiJ0cmFuc2Zlcl9jb21tZW5jZV9yZXNwb25zZV9tZXNzYWdlGAUgASgLMjAuY2FjdGkuc2F0cC52MDIuc2VydmljZS5UcmFuc2ZlckNvbW1lbmNlUmVzcG9uc2UivQEKDlN0YWdlMk1lc3NhZ2VzElQKHmxvY2tfYXNzZXJ0aW9uX3JlcXVlc3RfbWVzc2FnZRgBIAEoCzIsLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuTG9ja0Fzc2VydGlvblJlcXVlc3QSVQoebG9ja19hc3NlcnRpb25fcmVjZWlwdF9tZXNzYWdlGAIgASgLMi0uY2FjdGkuc2F0cC52MDIuc2VydmljZS5Mb2NrQXNzZXJ0aW9uUmVzcG9uc2Ui1AQKDlN0YWdlM01lc3NhZ2VzElwKImNvbW1pdF9wcmVwYXJhdGlvbl9yZXF1ZXN0X21lc3NhZ2UYASABKAsyMC5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLkNvbW1pdFByZXBhcmF0aW9uUmVxdWVzdBJYCh1jb21taXRfcmVhZHlfcmVzcG9uc2VfbWVzc2FnZRgCIAEoCzIxLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuQ29tbWl0UHJlcGFyYXRpb25SZXNwb25zZRJjCiZjb21taXRfZmluYWxfYXNzZXJ0aW9uX3JlcXVlc3RfbWVzc2FnZRgDIAEoCzIzLmNhY3RpLnNhdHAudjAyLnNlcnZpY2UuQ29tbWl0RmluYWxBc3NlcnRpb25SZXF1ZXN0EnMKNWNvbW1pdF9maW5hbF9hY2tub3dsZWRnZW1lbnRfcmVjZWlwdF9yZXNwb25zZV9tZXNzYWdlGAQgASgLMjQuY2FjdGkuc2F0cC52MDIuc2VydmljZS5Db21taXRGaW5hbEFzc2VydGlvblJlc3BvbnNlElIKGXRyYW5zZmVyX2NvbXBsZXRlX21lc3NhZ2UYBSABKAsyLy5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLlRyYW5zZmVyQ29tcGxldGVSZXF1ZXN0ElwKInRyYW5zZmVyX2NvbXBsZXRlX3Jlc3BvbnNlX21lc3NhZ2UYBiABKAsyMC5jYWN0aS5zYXRwLnYwMi5zZXJ2aWNlLlRyYW5zZmVyQ29tcGxldGVSZXNwb25zZSLtAQoTTWVzc2FnZVN0YWdlc0hhc2hlcxI0CgZzdGFnZTAYASABKAsyJC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlMEhhc2hlcxI0CgZzdGFnZTEYAiABKAsyJC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlMUhhc2hlcxI0CgZzdGFnZTIYAyABKAsyJC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlMkhhc2hlcxI0CgZzdGFnZTMYBCABKAsyJC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlM0hhc2hlcyLEAQoMU3RhZ2UwSGFzaGVzEigKIG5ld19zZXNzaW9uX3JlcXVlc3RfbWVzc2FnZV9oYXNoGAEgASgJEikKIW5ld19zZXNzaW9uX3Jlc3BvbnNlX21lc3NhZ2VfaGFzaBgCIAEoCRIuCiZwcmVfc2F0cF90cmFuc2Zlcl9yZXF1ZXN0X21lc3NhZ2VfaGFzaBgDIAEoCRIvCidwcmVfc2F0cF90cmFuc2Zlcl9yZXNwb25zZV9tZXNzYWdlX2hhc2gYBCABKAki/gEKDFN0YWdlMUhhc2hlcxIuCiZ0cmFuc2Zlcl9wcm9wb3NhbF9yZXF1ZXN0X21lc3NhZ2VfaGFzaBgBIAEoCRIuCiZ0cmFuc2Zlcl9wcm9wb3NhbF9yZWNlaXB0X21lc3NhZ2VfaGFzaBgCIAEoCRItCiV0cmFuc2Zlcl9wcm9wb3NhbF9yZWplY3RfbWVzc2FnZV9oYXNoGAMgASgJEi4KJnRyYW5zZmVyX2NvbW1lbmNlX3JlcXVlc3RfbWVzc2FnZV9oYXNoGAQgASgJEi8KJ3RyYW5zZmVyX2NvbW1lbmNlX3Jlc3BvbnNlX21lc3NhZ2VfaGFzaBgFIAEoCSJoCgxTdGFnZTJIYXNoZXMSKwojbG9ja19hc3NlcnRpb25fcmVxdWVzdF9tZXNzYWdlX2hhc2gYASABKAkSKwojbG9ja19hc3NlcnRpb25fcmVjZWlwdF9tZXNzYWdlX2hhc2gYAiABKAkivQIKDFN0YWdlM0hhc2hlcxIvCidjb21taXRfcHJlcGFyYXRpb25fcmVxdWVzdF9tZXNzYWdlX2hhc2gYASABKAkSKgoiY29tbWl0X3JlYWR5X3Jlc3BvbnNlX21lc3NhZ2VfaGFzaBgCIAEoCRIzCitjb21taXRfZmluYWxfYXNzZXJ0aW9uX3JlcXVlc3RfbWVzc2FnZV9oYXNoGAMgASgJEkIKOmNvbW1pdF9maW5hbF9hY2tub3dsZWRnZW1lbnRfcmVjZWlwdF9yZXNwb25zZV9tZXNzYWdlX2hhc2gYBCABKAkSJgoedHJhbnNmZXJfY29tcGxldGVfbWVzc2FnZV9oYXNoGAUgASgJEi8KJ3RyYW5zZmVyX2NvbXBsZXRlX3Jlc3BvbnNlX21lc3NhZ2VfaGFzaBgGIAEoCSKBAgoXTWVzc2FnZVN0YWdlc1NpZ25hdHVyZXMSOAoGc3RhZ2UwGAEgASgLMiguY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TdGFnZTBTaWduYXR1cmVzEjgKBnN0YWdlMRgCIAEoCzIoLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UxU2lnbmF0dXJlcxI4CgZzdGFnZTIYAyABKAsyKC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlMlNpZ25hdHVyZXMSOAoGc3RhZ2UzGAQgASgLMiguY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TdGFnZTNTaWduYXR1cmVzItwBChBTdGFnZTBTaWduYXR1cmVzEi0KJW5ld19zZXNzaW9uX3JlcXVlc3RfbWVzc2FnZV9zaWduYXR1cmUYASABKAkSLgombmV3X3Nlc3Npb25fcmVzcG9uc2VfbWVzc2FnZV9zaWduYXR1cmUYAiABKAkSMworcHJlX3NhdHBfdHJhbnNmZXJfcmVxdWVzdF9tZXNzYWdlX3NpZ25hdHVyZRgDIAEoCRI0CixwcmVfc2F0cF90cmFuc2Zlcl9yZXNwb25zZV9tZXNzYWdlX3NpZ25hdHVyZRgEIAEoCSKbAgoQU3RhZ2UxU2lnbmF0dXJlcxIzCit0cmFuc2Zlcl9wcm9wb3NhbF9yZXF1ZXN0X21lc3NhZ2Vfc2lnbmF0dXJlGAEgASgJEjMKK3RyYW5zZmVyX3Byb3Bvc2FsX3JlY2VpcHRfbWVzc2FnZV9zaWduYXR1cmUYAiABKAkSMgoqdHJhbnNmZXJfcHJvcG9zYWxfcmVqZWN0X21lc3NhZ2Vfc2lnbmF0dXJlGAMgASgJEjMKK3RyYW5zZmVyX2NvbW1lbmNlX3JlcXVlc3RfbWVzc2FnZV9zaWduYXR1cmUYBCABKAkSNAosdHJhbnNmZXJfY29tbWVuY2VfcmVzcG9uc2VfbWVzc2FnZV9zaWduYXR1cmUYBSABKAkidgoQU3RhZ2UyU2lnbmF0dXJlcxIwCihsb2NrX2Fzc2VydGlvbl9yZXF1ZXN0X21lc3NhZ2Vfc2lnbmF0dXJlGAEgASgJEjAKKGxvY2tfYXNzZXJ0aW9uX3JlY2VpcHRfbWVzc2FnZV9zaWduYXR1cmUYAiABKAki3wIKEFN0YWdlM1NpZ25hdHVyZXMSNAosY29tbWl0X3ByZXBhcmF0aW9uX3JlcXVlc3RfbWVzc2FnZV9zaWduYXR1cmUYASABKAkSLwonY29tbWl0X3JlYWR5X3Jlc3BvbnNlX21lc3NhZ2Vfc2lnbmF0dXJlGAIgASgJEjgKMGNvbW1pdF9maW5hbF9hc3NlcnRpb25fcmVxdWVzdF9tZXNzYWdlX3NpZ25hdHVyZRgDIAEoCRJHCj9jb21taXRfZmluYWxfYWNrbm93bGVkZ2VtZW50X3JlY2VpcHRfcmVzcG9uc2VfbWVzc2FnZV9zaWduYXR1cmUYBCABKAkSKwojdHJhbnNmZXJfY29tcGxldGVfbWVzc2FnZV9zaWduYXR1cmUYBSABKAkSNAosdHJhbnNmZXJfY29tcGxldGVfcmVzcG9uc2VfbWVzc2FnZV9zaWduYXR1cmUYBiABKAkigQIKF01lc3NhZ2VTdGFnZXNUaW1lc3RhbXBzEjgKBnN0YWdlMBgBIAEoCzIoLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UwVGltZXN0YW1wcxI4CgZzdGFnZTEYAiABKAsyKC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlN0YWdlMVRpbWVzdGFtcHMSOAoGc3RhZ2UyGAMgASgLMiguY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TdGFnZTJUaW1lc3RhbXBzEjgKBnN0YWdlMxgEIAEoCzIoLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uU3RhZ2UzVGltZXN0YW1wcyLcAQoQU3RhZ2UwVGltZXN0YW1wcxItCiVuZXdfc2Vzc2lvbl9yZXF1ZXN0X21lc3NhZ2VfdGltZXN0YW1wGAEgASgJEi4KJm5ld19zZXNzaW9uX3Jlc3BvbnNlX21lc3NhZ2VfdGltZXN0YW1wGAIgASgJEjMKK3ByZV9zYXRwX3RyYW5zZmVyX3JlcXVlc3RfbWVzc2FnZV90aW1lc3RhbXAYAyABKAkSNAoscHJlX3NhdHBfdHJhbnNmZXJfcmVzcG9uc2VfbWVzc2FnZV90aW1lc3RhbXAYBCABKAkimwIKEFN0YWdlMVRpbWVzdGFtcHMSMwordHJhbnNmZXJfcHJvcG9zYWxfcmVxdWVzdF9tZXNzYWdlX3RpbWVzdGFtcBgBIAEoCRIzCit0cmFuc2Zlcl9wcm9wb3NhbF9yZWNlaXB0X21lc3NhZ2VfdGltZXN0YW1wGAIgASgJEjIKKnRyYW5zZmVyX3Byb3Bvc2FsX3JlamVjdF9tZXNzYWdlX3RpbWVzdGFtcBgDIAEoCRIzCit0cmFuc2Zlcl9jb21tZW5jZV9yZXF1ZXN0X21lc3NhZ2VfdGltZXN0YW1wGAQgASgJEjQKLHRyYW5zZmVyX2NvbW1lbmNlX3Jlc3BvbnNlX21lc3NhZ2VfdGltZXN0YW1wGAUgASgJInYKEFN0YWdlMlRpbWVzdGFtcHMSMAoobG9ja19hc3NlcnRpb25fcmVxdWVzdF9tZXNzYWdlX3RpbWVzdGFtcBgBIAEoCRIwCihsb2NrX2Fzc2VydGlvbl9yZWNlaXB0X21lc3NhZ2VfdGltZXN0YW1wGAIgASgJIt8CChBTdGFnZTNUaW1lc3RhbXBzEjQKLGNvbW1pdF9wcmVwYXJhdGlvbl9yZXF1ZXN0X21lc3NhZ2VfdGltZXN0YW1wGAEgASgJEi8KJ2NvbW1pdF9yZWFkeV9yZXNwb25zZV9tZXNzYWdlX3RpbWVzdGFtcBgCIAEoCRI4CjBjb21taXRfZmluYWxfYXNzZXJ0aW9uX3JlcXVlc3RfbWVzc2FnZV90aW1lc3RhbXAYAyABKAkSRwo/Y29tbWl0X2ZpbmFsX2Fja25vd2xlZGdlbWVudF9yZWNlaXB0X3Jlc3BvbnNlX21lc3NhZ2VfdGltZXN0YW1wGAQgASgJEisKI3RyYW5zZmVyX2NvbXBsZXRlX21lc3NhZ2VfdGltZXN0YW1wGAUgASgJEjQKLHRyYW5zZmVyX2NvbXBsZXRlX3Jlc3BvbnNlX21lc3NhZ2VfdGltZXN0YW1wGAYgASgJIjcKEVNlbmRTdGF0dXNSZXF1ZXN0Eg4KBnN0YXR1cxgBIAEoCRISCgpoYXNfYmFja3VwGAIgASgIIjcKEUdldFN0YXR1c1Jlc3BvbnNlEg4KBnN0YXR1cxgBIAEoCRISCgpoYXNfYmFja3VwGAIgASgIIh8KDFBpbmdSZXNwb25zZRIPCgdtZXNzYWdlGAEgASgJIiMKEFJvbGxiYWNrUmVzcG9uc2USDwoHbWVzc2FnZRgBIAEoCSIqChdHZXRTdGFnZVZlcnNpb25SZXNwb25zZRIPCgd2ZXJzaW9uGAEgASgJKrYBCgVTdGF0ZRIVChFTVEFURV9VTlNQRUNJRklFRBAAEhEKDVNUQVRFX09OR09JTkcQARITCg9TVEFURV9DT01QTEVURUQQAhISCg5TVEFURV9SRUpFQ1RFRBADEh4KGlNUQVRFX0NPTkRJVElPTkFMX1JFSkVDVEVEEAQSDwoLU1RBVEVfRVJST1IQBRITCg9TVEFURV9SRUNPVkVSRUQQBhIUChBTVEFURV9SRUNPVkVSSU5HEAcqPgoEVHlwZRIUChBUWVBFX1VOU1BFQ0lGSUVEEAASDwoLVFlQRV9DTElFTlQQARIPCgtUWVBFX1NFUlZFUhACKm8KCVNBVFBTdGFnZRIaChZTQVRQX1NUQUdFX1VOU1BFQ0lGSUVEEAASEAoMU0FUUF9TVEFHRV8wEAESEAoMU0FUUF9TVEFHRV8xEAISEAoMU0FUUF9TVEFHRV8yEAMSEAoMU0FUUF9TVEFHRV8zEAQyuwEKFFNlc3Npb25TdGF0dXNTZXJ2aWNlElAKCUdldFN0YXR1cxIWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eRopLmNhY3RpLnNhdHAudjAyLnNlc3Npb24uR2V0U3RhdHVzUmVzcG9uc2UiABJRCgpTZW5kU3RhdHVzEikuY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5TZW5kU3RhdHVzUmVxdWVzdBoWLmdvb2dsZS5wcm90b2J1Zi5FbXB0eSIAMoUCCg1Db21tb25TZXJ2aWNlEkYKBFBpbmcSFi5nb29nbGUucHJvdG9idWYuRW1wdHkaJC5jYWN0aS5zYXRwLnYwMi5zZXNzaW9uLlBpbmdSZXNwb25zZSIAEk4KCFJvbGxiYWNrEhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5GiguY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5Sb2xsYmFja1Jlc3BvbnNlIgASXAoPR2V0U3RhZ2VWZXJzaW9uEhYuZ29vZ2xlLnByb3RvYnVmLkVtcHR5Gi8uY2FjdGkuc2F0cC52MDIuc2Vzc2lvbi5HZXRTdGFnZVZlcnNpb25SZXNwb25zZSIAYgZwcm90bzM", [file_cacti_satp_v02_common_message, file_cacti_satp_v02_service_stage_0, file_cacti_satp_v02_service_stage_1, file_cacti_satp_v02_service_stage_2, file_cacti_satp_v02_service_stage_3, file_google_protobuf_empty]);
 
 /**
  * @generated from message cacti.satp.v02.session.SessionData
@@ -372,6 +372,46 @@ export type SessionData = Message<"cacti.satp.v02.session.SessionData"> & {
    * @generated from field: cacti.satp.v02.session.Type role = 73;
    */
   role: Type;
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.Asset batch_sender_assets = 74;
+   */
+  batchSenderAssets: Asset[];
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.Asset batch_receiver_assets = 75;
+   */
+  batchReceiverAssets: Asset[];
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.WrapAssertionClaim batch_sender_wrap_assertion_claims = 76;
+   */
+  batchSenderWrapAssertionClaims: WrapAssertionClaim[];
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.WrapAssertionClaim batch_receiver_wrap_assertion_claims = 77;
+   */
+  batchReceiverWrapAssertionClaims: WrapAssertionClaim[];
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.LockAssertionClaim batch_lock_assertion_claims = 78;
+   */
+  batchLockAssertionClaims: LockAssertionClaim[];
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.MintAssertionClaim batch_mint_assertion_claims = 79;
+   */
+  batchMintAssertionClaims: MintAssertionClaim[];
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.BurnAssertionClaim batch_burn_assertion_claims = 80;
+   */
+  batchBurnAssertionClaims: BurnAssertionClaim[];
+
+  /**
+   * @generated from field: repeated cacti.satp.v02.common.AssignmentAssertionClaim batch_assignment_assertion_claims = 81;
+   */
+  batchAssignmentAssertionClaims: AssignmentAssertionClaim[];
 };
 
 /**
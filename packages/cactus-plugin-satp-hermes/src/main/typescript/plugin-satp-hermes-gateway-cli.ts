@@ -18,7 +18,12 @@ import { validateSatpKeyPairJSON } from "./services/validation/config-validating
 import { validateCCConfig } from "./services/validation/config-validating-functions/validate-cc-config";
 import path from "node:path";
 import { validateSatpEnableCrashRecovery } from "./services/validation/config-validating-functions/validate-satp-enable-crash-recovery";
+import { validateSatpTLSConfig } from "./services/validation/config-validating-functions/validate-satp-tls-config";
+import { validateSatpKeyRotationGracePeriod } from "./services/validation/config-validating-functions/validate-satp-key-rotation-grace-period";
+import { validateSatpDiscoveryConfig } from "./services/validation/config-validating-functions/validate-satp-discovery-config";
+import { validateSatpQuoteConfig } from "./services/validation/config-validating-functions/validate-satp-quote-config";
 import { validateKnexRepositoryConfig } from "./services/validation/config-validating-functions/validate-knex-repository-config";
+import { validateSatpLocalLogStorage } from "./services/validation/config-validating-functions/validate-satp-local-log-storage";
 import { PluginRegistry } from "@hyperledger/cactus-core";
 import { validateInstanceId } from "./services/validation/config-validating-functions/validate-instance-id";
 import { v4 as uuidv4 } from "uuid";
@@ -121,6 +126,12 @@ export async function launchGateway(): Promise<void> {
   });
   logger.debug("Local Repository Config is valid.");
 
+  logger.debug("Validating Local Log Storage Config...");
+  const localLogStorage = validateSatpLocalLogStorage({
+    configValue: config.localLogStorage,
+  });
+  logger.debug("Local Log Storage Config is valid.");
+
   logger.debug("Validating Remote Repository Config...");
   const remoteRepository = validateKnexRepositoryConfig({
     configValue: config.remoteRepository,
@@ -133,6 +144,30 @@ export async function launchGateway(): Promise<void> {
   });
   logger.debug("SATP Enable Crash Recovery is valid.");
 
+  logger.debug("Validating SATP TLS Config...");
+  const tls = validateSatpTLSConfig({
+    configValue: config.tls,
+  });
+  logger.debug("SATP TLS Config is valid.");
+
+  logger.debug("Validating SATP Key Rotation Grace Period...");
+  const keyRotationGracePeriod = validateSatpKeyRotationGracePeriod({
+    configValue: config.keyRotationGracePeriod,
+  });
+  logger.debug("SATP Key Rotation Grace Period is valid.");
+
+  logger.debug("Validating SATP Discovery Config...");
+  const discovery = validateSatpDiscoveryConfig({
+    configValue: config.discovery,
+  });
+  logger.debug("SATP Discovery Config is valid.");
+
+  logger.debug("Validating SATP Quote Config...");
+  const quotes = validateSatpQuoteConfig({
+    configValue: config.quotes,
+  });
+  logger.debug("SATP Quote Config is valid.");
+
   logger.debug("SATP Bridges Config is valid.");
 
   logger.debug("Validating Ontologies Path...");
@@ -160,7 +195,12 @@ export async function launchGateway(): Promise<void> {
     mergePolicies,
     ccConfig,
     enableCrashRecovery,
+    tls,
+    keyRotationGracePeriod,
+    discovery,
+    quotes,
     localRepository,
+    localLogStorage,
     remoteRepository,
     pluginRegistry: new PluginRegistry({ plugins: [] }),
     ontologyPath,
@@ -22,28 +22,41 @@ import {
   Contains,
 } from "class-validator";
 
-import { type GatewayIdentity, type ShutdownHook } from "./core/types";
+import {
+  type GatewayIdentity,
+  type GatewayTLSConfig,
+  type ShutdownHook,
+} from "./core/types";
 import {
   GatewayOrchestrator,
   type IGatewayOrchestratorOptions,
 } from "./services/gateway/gateway-orchestrator";
 import express, { type Express } from "express";
 import http from "node:http";
+import https from "node:https";
 import {
   DEFAULT_PORT_GATEWAY_CLIENT,
   DEFAULT_PORT_GATEWAY_OAPI,
   DEFAULT_PORT_GATEWAY_SERVER,
+  DEFAULT_KEY_ROTATION_GRACE_PERIOD,
   SATP_ARCHITECTURE_VERSION,
   SATP_CORE_VERSION,
   SATP_CRASH_VERSION,
 } from "./core/constants";
 import { bufArray2HexStr } from "./gateway-utils";
 import type {
+  IGatewayKeyRepository,
   ILocalLogRepository,
+  IOracleTaskRepository,
   IRemoteLogRepository,
 } from "./database/repository/interfaces/repository";
 import { KnexRemoteLogRepository as RemoteLogRepository } from "./database/repository/knex-remote-log-repository";
-import { KnexLocalLogRepository as LocalLogRepository } from "./database/repository/knex-local-log-repository";
+import {
+  createLocalLogRepository,
+  type LocalLogStorageConfig,
+} from "./database/repository/local-log-repository-factory";
+import { KnexOracleTaskRepository as OracleTaskRepository } from "./database/repository/knex-oracle-task-repository";
+import { KnexGatewayKeyRepository as GatewayKeyRepository } from "./database/repository/knex-gateway-key-repository";
 import { BLODispatcher, type BLODispatcherOptions } from "./api1/dispatcher";
 import { type JsonObject } from "swagger-ui-express";
 import type {
@@ -84,6 +97,19 @@ import { createMigrationSource } from "./database/knex-migration-source";
 import { MonitorService } from "./services/monitoring/monitor";
 import { context, SpanStatusCode } from "@opentelemetry/api";
 import { SATPManager } from "./services/gateway/satp-manager";
+import { KeyRotationManager } from "./services/gateway/key-rotation-manager";
+import { RotatableObjectSigner } from "./core/key-rotation/rotatable-signer";
+import { GatewayKeyRegistry } from "./core/key-rotation/gateway-key-registry";
+import { GatewayDiscoveryService } from "./services/network-identification/discovery/gateway-discovery";
+import {
+  createGatewayRegistry,
+  type GatewayDiscoveryConfig,
+} from "./services/network-identification/discovery/gateway-registry-factory";
+import type { GatewayQuoteConfig } from "./services/gateway/quote-manager";
+import {
+  createMutualTLSServerOptions,
+  createPeerCertificateVerifier,
+} from "./services/gateway/gateway-tls";
 
 export interface SATPGatewayConfig extends ICactusPluginOptions {
   gid?: GatewayIdentity;
@@ -95,8 +121,14 @@ export interface SATPGatewayConfig extends ICactusPluginOptions {
   mergePolicies?: IMergePolicyValue[];
   ccConfig?: ICrossChainMechanismsOptions;
   localRepository?: Knex.Config;
+  // where session logs are kept, the localRepository database by default
+  localLogStorage?: LocalLogStorageConfig;
   remoteRepository?: Knex.Config;
   enableCrashRecovery?: boolean;
+  tls?: GatewayTLSConfig;
+  keyRotationGracePeriod?: number;
+  discovery?: GatewayDiscoveryConfig;
+  quotes?: GatewayQuoteConfig;
   monitorService?: MonitorService;
   claimFormat?: string;
   ontologyPath?: string;
@@ -131,14 +163,19 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
   private readonly OAS: JsonObject;
   private OApiServer?: ApiServer;
 
-  private signer: JsObjectSigner;
+  private signer: RotatableObjectSigner;
   private _pubKey: string;
+  private readonly keyRegistry: GatewayKeyRegistry;
+  private keyRotationManager?: KeyRotationManager;
+  private discovery?: GatewayDiscoveryService;
 
   private isShutdown: boolean = false;
 
   public claimFormat?: ClaimFormat;
   public localRepository?: ILocalLogRepository;
   public remoteRepository?: IRemoteLogRepository;
+  public oracleTaskRepository?: IOracleTaskRepository;
+  public gatewayKeyRepository?: IGatewayKeyRepository;
   private readonly shutdownHooks: ShutdownHook[];
   private crashManager?: CrashManager;
   private readonly monitorService: MonitorService;
@@ -167,15 +204,18 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
     this.logger.info("Initializing Gateway Coordinator");
     this.instanceId = uuidv4();
 
-    if (this.config.localRepository) {
-      this.localRepository = new LocalLogRepository(
-        this.config.localRepository,
-      );
-    } else {
+    if (!this.config.localRepository) {
       this.logger.info("Local repository is not defined");
-      this.localRepository = new LocalLogRepository(knexLocalInstance.default);
     }
 
+    // oracle tasks are kept in the local database, next to the logs
+    this.oracleTaskRepository = new OracleTaskRepository(
+      this.config.localRepository || knexLocalInstance.default,
+    );
+    this.gatewayKeyRepository = new GatewayKeyRepository(
+      this.config.localRepository || knexLocalInstance.default,
+    );
+
     if (this.config.remoteRepository) {
       this.remoteRepository = new RemoteLogRepository(
         this.config.remoteRepository,
@@ -196,7 +236,11 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
       privateKey: bufArray2HexStr(this.config.keyPair.privateKey),
       logLevel: this.config.logLevel,
     };
-    this.signer = new JsObjectSigner(signerOptions);
+    this.signer = new RotatableObjectSigner(signerOptions, this._pubKey);
+    this.keyRegistry = new GatewayKeyRegistry(
+      this.config.keyRotationGracePeriod!,
+      this.gatewayKeyRepository,
+    );
 
     if (!this.signer) {
       throw new Error("Signer is not defined");
@@ -206,6 +250,20 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
       throw new Error("GatewayIdentity is not defined");
     }
 
+    // the logs signed before a key rotation stay valid
+    const gatewayId = this.config.gid.id;
+    this.localRepository = createLocalLogRepository(
+      this.config.localLogStorage,
+      this.config.localRepository || knexLocalInstance.default,
+      this.signer,
+      () => [
+        this.signer.pubKey,
+        ...this.keyRegistry
+          .getKeyChain(gatewayId)
+          .map((keyChange) => keyChange.previousPubKey),
+      ],
+    );
+
     this.claimFormat = getEnumValueByKey(
       ClaimFormat,
       options.claimFormat || "",
@@ -222,6 +280,18 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
     );
 
     this.connectedDLTs = this.config.gid.connectedDLTs || [];
+
+    if (this.config.discovery) {
+      this.discovery = new GatewayDiscoveryService({
+        logLevel: this.config.logLevel,
+        registry: createGatewayRegistry(this.config.discovery.registry),
+        signer: this.signer,
+        cacheTTL: this.config.discovery.cacheTTL,
+        descriptorTTL: this.config.discovery.descriptorTTL,
+        trustedGateways: this.config.discovery.trustedGateways,
+        monitorService: this.monitorService,
+      });
+    }
     this.OAS = OAS;
 
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
@@ -235,6 +305,8 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
             counterPartyGateways: this.config.counterPartyGateways,
             signer: this.signer,
             enableCrashRecovery: this.config.enableCrashRecovery,
+            tls: this.config.tls,
+            discovery: this.discovery,
             monitorService: this.monitorService,
           };
           this.logger.info(
@@ -254,6 +326,7 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
           },
           logLevel: this.config.logLevel,
           monitorService: this.monitorService,
+          oracleTaskRepository: this.oracleTaskRepository,
         };
 
         this.SATPCCManager = new SATPCrossChainManager(SATPCCManagerOptions);
@@ -265,6 +338,25 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
         if (!this.localRepository) {
           throw new Error("Local repository is not defined");
         }
+
+        // created before the dispatcher, which forces rollbacks through it
+        if (this.config.enableCrashRecovery) {
+          const crashOptions: ICrashRecoveryManagerOptions = {
+            instanceId: this.instanceId,
+            logLevel: this.config.logLevel,
+            ccManager: this.SATPCCManager,
+            orchestrator: this.gatewayOrchestrator,
+            localRepository: this.localRepository,
+            remoteRepository: this.remoteRepository,
+            signer: this.signer,
+            monitorService: this.monitorService,
+          };
+          this.crashManager = new CrashManager(crashOptions);
+          this.logger.info("CrashManager has been initialized.");
+        } else {
+          this.logger.info("CrashManager is disabled!");
+        }
+
         const dispatcherOps: BLODispatcherOptions = {
           logger: this.logger,
           logLevel: this.config.logLevel,
@@ -276,6 +368,9 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
           localRepository: this.localRepository,
           remoteRepository: this.remoteRepository,
           claimFormat: this.claimFormat,
+          keyRegistry: this.keyRegistry,
+          quoteConfig: this.config.quotes,
+          crashManager: this.crashManager,
           monitorService: this.monitorService,
         };
 
@@ -285,22 +380,15 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
 
         this.BLODispatcher = new BLODispatcher(dispatcherOps);
 
-        if (this.config.enableCrashRecovery) {
-          const crashOptions: ICrashRecoveryManagerOptions = {
-            instanceId: this.instanceId,
-            logLevel: this.config.logLevel,
-            ccManager: this.SATPCCManager,
-            orchestrator: this.gatewayOrchestrator,
-            localRepository: this.localRepository,
-            remoteRepository: this.remoteRepository,
-            signer: this.signer,
-            monitorService: this.monitorService,
-          };
-          this.crashManager = new CrashManager(crashOptions);
-          this.logger.info("CrashManager has been initialized.");
-        } else {
-          this.logger.info("CrashManager is disabled!");
-        }
+        this.keyRotationManager = new KeyRotationManager({
+          logLevel: this.config.logLevel,
+          orchestrator: this.gatewayOrchestrator,
+          signer: this.signer,
+          keyRegistry: this.keyRegistry,
+          gracePeriod: this.config.keyRotationGracePeriod!,
+          monitorService: this.monitorService,
+          keyRepository: this.gatewayKeyRepository,
+        });
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
         span.recordException(err);
@@ -400,6 +488,44 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
     return this._pubKey;
   }
 
+  public get KeyRegistry(): GatewayKeyRegistry {
+    return this.keyRegistry;
+  }
+
+  /**
+   * Rotates the gateway signing key pair and announces the new public key to
+   * the counterparty gateways. They keep accepting the previous key for
+   * `keyRotationGracePeriod`, so ongoing sessions are not interrupted.
+   * @returns The ids of the gateways that acknowledged the new key.
+   */
+  public async rotateKeyPair(keyPair?: ISignerKeyPair): Promise<string[]> {
+    const fnTag = `${this.className}#rotateKeyPair()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        this.logger.trace(`Entering ${fnTag}`);
+        if (!this.keyRotationManager) {
+          throw new Error(`${fnTag}, KeyRotationManager is not defined`);
+        }
+        const acknowledged =
+          await this.keyRotationManager.rotateKeyPair(keyPair);
+        this._pubKey = this.signer.pubKey;
+        this.logger.info(`Gateway's new public key: ${this._pubKey}`);
+        // the registry must advertise the new key to gateways that discover us later
+        if (this.discovery && this.config.discovery?.publish !== false) {
+          await this.publishDescriptor();
+        }
+        return acknowledged;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
   public getOpenApiSpec(): unknown {
     return undefined; //this.OAS;
     /*
@@ -534,6 +660,10 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
     if (!pluginOptions.enableCrashRecovery) {
       pluginOptions.enableCrashRecovery = false;
     }
+
+    if (pluginOptions.keyRotationGracePeriod === undefined) {
+      pluginOptions.keyRotationGracePeriod = DEFAULT_KEY_ROTATION_GRACE_PERIOD;
+    }
     return pluginOptions;
   }
 
@@ -555,8 +685,19 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
           this.SATPCCManager?.deployCCMechanisms(this.options.ccConfig!),
         ]);
 
+        // needs both the oracle tables and the oracles of the tasks
+        await this.SATPCCManager?.getOracleManager().resumeTasks();
+
+        // sign with the key pair announced before the last restart
+        await this.keyRotationManager?.restoreKeys();
+        this._pubKey = this.signer.pubKey;
+
         // start everything before starting the GOL server
         await this.startupGOLServer();
+
+        if (this.discovery && this.config.discovery?.publish !== false) {
+          await this.publishDescriptor();
+        }
         span.setStatus({ code: SpanStatusCode.OK });
       } catch (err) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
@@ -568,6 +709,39 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
     });
   }
 
+  /**
+   * Publishes the signed descriptor of this gateway (networks, versions,
+   * endpoints and public key) to the discovery registry.
+   */
+  public async publishDescriptor(): Promise<void> {
+    const fnTag = `${this.className}#publishDescriptor()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    await context.with(ctx, async () => {
+      try {
+        if (!this.discovery || !this.gatewayOrchestrator) {
+          throw new Error(`${fnTag}, Gateway discovery is not configured`);
+        }
+        const identity = this.gatewayOrchestrator.ourGateway;
+        const networks = this.gatewayOrchestrator.connectedDLTs;
+        // lets gateways that trust one of our previous keys accept this one
+        await this.discovery.publish(
+          {
+            ...identity,
+            connectedDLTs:
+              networks.length > 0 ? networks : identity.connectedDLTs,
+          },
+          this.keyRegistry.getKeyChain(identity.id),
+        );
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
   public async getOrCreateHttpServer(): Promise<ApiServer> {
     const fnTag = `${this.className}#getOrCreateHttpServer()`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
@@ -707,10 +881,29 @@ export class SATPGateway implements IPluginWebService, ICactusPlugin {
           if (!this.GOLServer) {
             this.GOLApplication = express();
 
+            if (this.config.tls && this.gatewayOrchestrator) {
+              const orchestrator = this.gatewayOrchestrator;
+              this.GOLApplication.use(
+                // our own identity is allowed, the gateway calls itself for local channels
+                createPeerCertificateVerifier(
+                  () => [
+                    orchestrator.ourGateway,
+                    ...orchestrator.getCounterPartyGateways().values(),
+                  ],
+                  this.logger,
+                ),
+              );
+            }
+
             this.gatewayOrchestrator?.addGOLServer(this.GOLApplication);
             this.gatewayOrchestrator?.startServices();
 
-            this.GOLServer = http.createServer(this.GOLApplication);
+            this.GOLServer = this.config.tls
+              ? https.createServer(
+                  createMutualTLSServerOptions(this.config.tls),
+                  this.GOLApplication,
+                )
+              : http.createServer(this.GOLApplication);
             const address =
               this.options.gid?.address?.includes("localhost") || // When running a gateway in localhost we don't want to bind it to 0.0.0.0 because if we do it will be accessible from the outside network
               this.options.gid?.address?.includes("127.0.0.1")
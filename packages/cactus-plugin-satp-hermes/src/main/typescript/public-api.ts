@@ -12,7 +12,39 @@ export {
   DEFAULT_PORT_GATEWAY_SERVER,
   DEFAULT_PORT_GATEWAY_OAPI,
 } from "./core/constants";
-export { GatewayIdentity } from "./core/types";
+export { GatewayIdentity, GatewayTLSConfig } from "./core/types";
+export { getCertificateFingerprint } from "./services/gateway/gateway-tls";
+export {
+  GatewayDiscoveryConfig,
+  GatewayRegistryConfig,
+} from "./services/network-identification/discovery/gateway-registry-factory";
+export {
+  GatewayRegistryType,
+  IGatewayRegistry,
+} from "./services/network-identification/discovery/gateway-registry";
+export { GatewayDescriptor } from "./services/network-identification/discovery/gateway-descriptor";
+export {
+  GatewayFeePolicy,
+  GatewayQuoteConfig,
+  verifyQuoteSignature,
+} from "./services/gateway/quote-manager";
+export {
+  LocalLogStorageConfig,
+  LocalLogStorageType,
+} from "./database/repository/local-log-repository-factory";
+export {
+  SessionLogBundle,
+  exportSessionLogs,
+  importSessionLogs,
+  verifySessionLogBundle,
+} from "./database/log-bundle";
+export {
+  ChainedLocalLog,
+  LogChainHeadSignature,
+  LogChainVerification,
+  checkLogChainHeadSignature,
+  verifyLogChain,
+} from "./database/log-chain";
 
 export {
   TargetOrganization,
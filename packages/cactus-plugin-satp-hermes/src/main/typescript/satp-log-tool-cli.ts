@@ -0,0 +1,240 @@
+#!/usr/bin/env node
+
+import {
+  JsObjectSigner,
+  LoggerProvider,
+  Secp256k1Keys,
+} from "@hyperledger/cactus-common";
+import type { Knex } from "knex";
+import fs from "fs-extra";
+import path from "node:path";
+import { RotatableObjectSigner } from "./core/key-rotation/rotatable-signer";
+import { knexLocalInstance } from "./database/knexfile";
+import {
+  exportSessionLogs,
+  importSessionLogs,
+  verifySessionLogBundle,
+  type SessionLogBundle,
+} from "./database/log-bundle";
+import {
+  isVerifiableLocalLogRepository,
+  type LogChainVerification,
+} from "./database/log-chain";
+import { createLocalLogRepository } from "./database/repository/local-log-repository-factory";
+import { KnexGatewayKeyRepository } from "./database/repository/knex-gateway-key-repository";
+import { KnexLocalLogRepository } from "./database/repository/knex-local-log-repository";
+import type { ILocalLogRepository } from "./database/repository/interfaces/repository";
+import { validateKnexRepositoryConfig } from "./services/validation/config-validating-functions/validate-knex-repository-config";
+import { validateSatpKeyPairJSON } from "./services/validation/config-validating-functions/validate-key-pair-json";
+import { validateSatpLocalLogStorage } from "./services/validation/config-validating-functions/validate-satp-local-log-storage";
+
+const USAGE = `Usage:
+  satp-log-tool export --session <sessionId> [--session <sessionId>...] --out <bundle.json> [--config <config.json>]
+  satp-log-tool import --in <bundle.json> --pub-key <key> [--pub-key <key>...] [--config <config.json>]
+  satp-log-tool verify --in <bundle.json> --pub-key <key> [--pub-key <key>...]
+  satp-log-tool verify [--anchor <head>] [--config <config.json>]
+
+The local log storage and the gateway keys are read from the gateway
+configuration, by default /opt/cacti/satp-hermes/config/config.json.
+Bundles are signed with the key of the exporting gateway, given with
+--pub-key when importing or verifying them. verify checks the bundle given
+with --in, or the gateway's own log when it is hash chained; --anchor is a
+head reported by an earlier verify, that the log must still contain.`;
+
+const DEFAULT_CONFIG = "/opt/cacti/satp-hermes/config/config.json";
+
+const logger = LoggerProvider.getOrCreate({
+  level: "INFO",
+  label: "SATP-Log-Tool",
+});
+
+// options given more than once, like --session, keep every value
+function parseOptions(args: string[]): Map<string, string[]> {
+  const options = new Map<string, string[]>();
+  for (let i = 0; i < args.length; i += 2) {
+    const name = args[i];
+    const value = args[i + 1];
+    if (!name.startsWith("--") || value === undefined) {
+      throw new Error(`Invalid arguments.\n${USAGE}`);
+    }
+    options.set(name.slice(2), [...(options.get(name.slice(2)) ?? []), value]);
+  }
+  return options;
+}
+
+// verifies signatures, the key it signs with is never used
+function createVerifier(): JsObjectSigner {
+  return new JsObjectSigner({
+    privateKey: Secp256k1Keys.generateKeyPairsBuffer().privateKey,
+  });
+}
+
+/**
+ * Returns a signer with the current key of the gateway, as stored on its
+ * last key rotation, and every key the gateway signed its logs with.
+ */
+async function loadGatewayKeys(
+  config: { keyPair?: unknown; gid?: { id?: string } },
+  knexConfig: Knex.Config,
+): Promise<{ signer: RotatableObjectSigner; pubKeys: string[] }> {
+  const keyPair = validateSatpKeyPairJSON({ configValue: config.keyPair });
+  if (!keyPair) {
+    throw new Error("The gateway configuration has no keyPair");
+  }
+  const keyRepository = new KnexGatewayKeyRepository(knexConfig);
+  try {
+    await keyRepository.database.migrate.latest();
+    // oldest first
+    const rotations = (await keyRepository.readAll()).filter(
+      (entry) => entry.gatewayId === config.gid?.id,
+    );
+    const current = rotations.filter((entry) => entry.privateKey).pop();
+    return {
+      signer: current
+        ? new RotatableObjectSigner(
+            { privateKey: current.privateKey! },
+            current.publicKey,
+          )
+        : new RotatableObjectSigner(
+            { privateKey: keyPair.privateKey },
+            keyPair.publicKey,
+          ),
+      pubKeys: [
+        keyPair.publicKey,
+        ...rotations.map((entry) => entry.publicKey),
+      ],
+    };
+  } finally {
+    await keyRepository.destroy();
+  }
+}
+
+async function openLocalLogRepository(
+  configPath: string,
+): Promise<{ repository: ILocalLogRepository; signer: RotatableObjectSigner }> {
+  const config = (await fs.pathExists(configPath))
+    ? await fs.readJson(configPath)
+    : {};
+  const localRepository = validateKnexRepositoryConfig({
+    configValue: config.localRepository,
+  });
+  const localLogStorage = validateSatpLocalLogStorage({
+    configValue: config.localLogStorage,
+  });
+  const knexConfig = localRepository || knexLocalInstance.default;
+  const { signer, pubKeys } = await loadGatewayKeys(config, knexConfig);
+  const repository = createLocalLogRepository(
+    localLogStorage,
+    knexConfig,
+    signer,
+    () => pubKeys,
+  );
+  if (repository instanceof KnexLocalLogRepository) {
+    await repository.database.migrate.latest();
+  }
+  return { repository, signer };
+}
+
+function report(source: string, verification: LogChainVerification): number {
+  if (verification.valid) {
+    logger.info(
+      `${source}: ${verification.entries} entries verified, head ${verification.head}`,
+    );
+    return 0;
+  }
+  logger.error(`${source}: the log chain does not verify`);
+  for (const issue of verification.issues) {
+    logger.error(
+      `  entry ${issue.index}${issue.key ? ` (${issue.key})` : ""}: ${issue.reason}`,
+    );
+  }
+  return 1;
+}
+
+export async function runLogTool(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+  const options = parseOptions(rest);
+  const option = (name: string) => options.get(name)?.[0];
+  const configPath = option("config") ?? DEFAULT_CONFIG;
+  const pubKeys = options.get("pub-key") ?? [];
+
+  switch (command) {
+    case "export": {
+      const sessionIds = options.get("session") ?? [];
+      const out = option("out");
+      if (sessionIds.length === 0 || !out) {
+        throw new Error(`export needs --session and --out.\n${USAGE}`);
+      }
+      const { repository, signer } = await openLocalLogRepository(configPath);
+      try {
+        const bundle = await exportSessionLogs(repository, sessionIds, signer);
+        await fs.mkdirp(path.dirname(out));
+        await fs.writeJson(out, bundle, { spaces: 2 });
+        logger.info(`Exported ${bundle.entries.length} entries to ${out}`);
+      } finally {
+        await repository.destroy();
+      }
+      return 0;
+    }
+    case "import": {
+      const input = option("in");
+      if (!input || pubKeys.length === 0) {
+        throw new Error(`import needs --in and --pub-key.\n${USAGE}`);
+      }
+      const bundle: SessionLogBundle = await fs.readJson(input);
+      const { repository, signer } = await openLocalLogRepository(configPath);
+      try {
+        const { imported, skipped } = await importSessionLogs(
+          repository,
+          bundle,
+          pubKeys,
+          signer,
+        );
+        logger.info(
+          `Imported ${imported} entries from ${input}, ${skipped} already present`,
+        );
+      } finally {
+        await repository.destroy();
+      }
+      return 0;
+    }
+    case "verify": {
+      const input = option("in");
+      if (input) {
+        if (pubKeys.length === 0) {
+          throw new Error(`verify --in needs --pub-key.\n${USAGE}`);
+        }
+        return report(
+          input,
+          verifySessionLogBundle(
+            await fs.readJson(input),
+            pubKeys,
+            createVerifier(),
+          ),
+        );
+      }
+      const { repository } = await openLocalLogRepository(configPath);
+      try {
+        if (!isVerifiableLocalLogRepository(repository)) {
+          throw new Error(
+            "The local log storage is not hash chained, there is nothing to verify",
+          );
+        }
+        return report("local log", await repository.verify(option("anchor")));
+      } finally {
+        await repository.destroy();
+      }
+    }
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+if (require.main === module) {
+  runLogTool(process.argv.slice(2))
+    .then((code) => process.exit(code))
+    .catch((err) => {
+      logger.error(err instanceof Error ? err.message : String(err));
+      process.exit(2);
+    });
+}
@@ -38,6 +38,8 @@ import { CrashStatus } from "../../core/types";
 import { verifySignature } from "../../gateway-utils";
 import { MonitorService } from "../monitoring/monitor";
 import { context, SpanStatusCode } from "@opentelemetry/api";
+import { isVerifiableLocalLogRepository } from "../../database/log-chain";
+import { LogChainVerificationError } from "../../core/errors/satp-errors";
 
 export interface ICrashRecoveryManagerOptions {
   logLevel?: LogLevelDesc;
@@ -186,6 +188,17 @@ export class CrashManager {
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
     await context.with(ctx, async () => {
       try {
+        // never recover sessions from a log that was tampered with
+        if (isVerifiableLocalLogRepository(this.localRepository)) {
+          const verification = await this.localRepository.verify();
+          if (!verification.valid) {
+            this.log.error(
+              `${fnTag} Refusing to recover, the local log chain does not verify`,
+            );
+            throw new LogChainVerificationError(fnTag, verification.issues);
+          }
+        }
+
         try {
           const allLogs = await this.localRepository.readLogsNotProofs();
 
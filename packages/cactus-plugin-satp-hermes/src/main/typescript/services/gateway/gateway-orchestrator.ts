@@ -11,6 +11,7 @@ import {
   GatewayChannel,
   SATPServiceInstance,
   Address,
+  GatewayTLSConfig,
 } from "../../core/types";
 import {
   Client as ConnectClient,
@@ -27,6 +28,9 @@ import { SatpStage1Service } from "../../generated/proto/cacti/satp/v02/service/
 import { SatpStage2Service } from "../../generated/proto/cacti/satp/v02/service/stage_2_pb";
 import { SatpStage3Service } from "../../generated/proto/cacti/satp/v02/service/stage_3_pb";
 import { CrashRecoveryService } from "../../generated/proto/cacti/satp/v02/service/crash_recovery_pb";
+import { KeyRotationService } from "../../generated/proto/cacti/satp/v02/service/key_rotation_pb";
+import { createMutualTLSClientOptions } from "./gateway-tls";
+import type { GatewayDiscoveryService } from "../network-identification/discovery/gateway-discovery";
 
 export interface IGatewayOrchestratorOptions {
   logLevel?: LogLevelDesc;
@@ -34,6 +38,8 @@ export interface IGatewayOrchestratorOptions {
   counterPartyGateways?: GatewayIdentity[];
   signer: JsObjectSigner;
   enableCrashRecovery?: boolean;
+  tls?: GatewayTLSConfig;
+  discovery?: GatewayDiscoveryService;
   monitorService: MonitorService;
 }
 
@@ -57,6 +63,8 @@ export class GatewayOrchestrator {
   private counterPartyGateways: Map<string, GatewayIdentity> = new Map();
   private handlers: Map<string, SATPHandler> = new Map();
   private crashEnabled: boolean = false;
+  private tls?: GatewayTLSConfig;
+  private discovery?: GatewayDiscoveryService;
   private bridgeManager?: BridgeManagerClientInterface;
   private readonly monitorService: MonitorService;
 
@@ -86,6 +94,11 @@ export class GatewayOrchestrator {
         this.crashEnabled = options.enableCrashRecovery ?? false;
         this.logger.info(`Crash recovery set to: ${this.crashEnabled}`);
 
+        this.tls = options.tls;
+        this.logger.info(`Mutual TLS set to: ${!!this.tls}`);
+
+        this.discovery = options.discovery;
+
         const seedGateways = getGatewaySeeds(this.logger);
         const allCounterPartyGateways = seedGateways.concat(
           options.counterPartyGateways ?? [],
@@ -194,6 +207,24 @@ export class GatewayOrchestrator {
     this.handlers = handlers;
   }
 
+  public addHandler(name: string, handler: SATPHandler): void {
+    this.handlers.set(name, handler);
+  }
+
+  /**
+   * Replaces the public key known for a gateway (ours or a counterparty),
+   * after it rotated its key pair. New sessions pick up the new key.
+   */
+  public updateGatewayPubKey(id: string, pubKey: string): void {
+    const fnTag = `${this.label}#updateGatewayPubKey()`;
+    const identity = this.getGatewayIdentity(id);
+    if (!identity) {
+      throw new Error(`${fnTag}, Gateway ${id} is not known`);
+    }
+    identity.pubKey = pubKey;
+    this.logger.info(`${fnTag}, Updated public key of gateway ${id}`);
+  }
+
   async startupGatewayOrchestrator(): Promise<void> {
     if (this.counterPartyGateways.values.length === 0) {
       this.logger.info("No gateways to connect to");
@@ -391,6 +422,16 @@ export class GatewayOrchestrator {
         this.logger.debug(
           `Creating clients for gateway ${safeStableStringify(identity)}`,
         );
+        if (this.tls && !identity.address?.startsWith("https://")) {
+          this.logger.warn(
+            `${fnTag}, Mutual TLS is enabled but gateway ${identity.id} is not reachable over https`,
+          );
+        }
+        // undefined when mutual TLS is disabled, so the default agent is used
+        const nodeOptions = this.tls
+          ? createMutualTLSClientOptions(this.tls, identity)
+          : undefined;
+
         const transport0 = createGrpcWebTransport({
           baseUrl:
             identity.address +
@@ -398,6 +439,7 @@ export class GatewayOrchestrator {
             identity.gatewayServerPort +
             `/${Stage.STAGE0}`,
           httpVersion: "1.1",
+          nodeOptions,
         });
 
         this.logger.debug(
@@ -415,6 +457,7 @@ export class GatewayOrchestrator {
             identity.gatewayServerPort +
             `/${Stage.STAGE1}`,
           httpVersion: "1.1",
+          nodeOptions,
         });
 
         const transport2 = createGrpcWebTransport({
@@ -424,6 +467,7 @@ export class GatewayOrchestrator {
             identity.gatewayServerPort +
             `/${Stage.STAGE2}`,
           httpVersion: "1.1",
+          nodeOptions,
         });
 
         const transport3 = createGrpcWebTransport({
@@ -433,12 +477,24 @@ export class GatewayOrchestrator {
             identity.gatewayServerPort +
             `/${Stage.STAGE3}`,
           httpVersion: "1.1",
+          nodeOptions,
         });
 
         const transportCrash = createGrpcWebTransport({
           baseUrl:
             identity.address + ":" + identity.gatewayServerPort + `/${"crash"}`,
           httpVersion: "1.1",
+          nodeOptions,
+        });
+
+        const transportKeyRotation = createGrpcWebTransport({
+          baseUrl:
+            identity.address +
+            ":" +
+            identity.gatewayServerPort +
+            "/key-rotation",
+          httpVersion: "1.1",
+          nodeOptions,
         });
 
         const clients: Map<
@@ -454,6 +510,10 @@ export class GatewayOrchestrator {
         if (this.crashEnabled) {
           clients.set("crash", this.createCrashServiceClient(transportCrash));
         }
+        clients.set(
+          "keyRotation",
+          this.createKeyRotationServiceClient(transportKeyRotation),
+        );
         // todo perform healthcheck on startup; should be in stage 0
         return clients;
       } catch (error) {
@@ -599,6 +659,32 @@ export class GatewayOrchestrator {
     });
   }
 
+  private createKeyRotationServiceClient(
+    transport: ConnectTransport,
+  ): ConnectClient<typeof KeyRotationService> {
+    const fnTag = `${this.label}#createKeyRotationServiceClient()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, () => {
+      try {
+        this.logger.debug(
+          "Creating key rotation client, with transport: ",
+          transport,
+        );
+        const client = createClient(KeyRotationService, transport);
+        return client;
+      } catch (error) {
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: String(error),
+        });
+        span.recordException(error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
   public async resolveAndAddGateways(IDs: string[]): Promise<number> {
     const fnTag = `${this.label}#addGateways()`;
     const { span, context: ctx } = this.monitorService.startSpan(fnTag);
@@ -611,7 +697,9 @@ export class GatewayOrchestrator {
         const otherIDs = IDs.filter((id) => id !== thisID);
 
         for (const id of otherIDs) {
-          gatewaysToAdd.push(await resolveGatewayID(this.logger, id));
+          gatewaysToAdd.push(
+            await resolveGatewayID(this.logger, id, this.discovery),
+          );
         }
 
         this.addGateways(gatewaysToAdd);
@@ -689,6 +777,82 @@ export class GatewayOrchestrator {
     this.counterPartyGateways.set(gateway.id, gateway);
   }
 
+  /**
+   * Looks up the gateways connected to `networkId` in the discovery registry
+   * and opens a channel to the ones we do not know yet.
+   * @returns The ids of the newly added gateways.
+   */
+  public async discoverGatewaysForNetwork(
+    networkId: string,
+  ): Promise<string[]> {
+    const fnTag = `${this.label}#discoverGatewaysForNetwork()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        if (!this.discovery) {
+          this.logger.debug(`${fnTag}, Gateway discovery is not configured`);
+          return [];
+        }
+        const discovered = await this.discovery.resolveByNetwork(networkId);
+        const added: string[] = [];
+        for (const gateway of discovered) {
+          if (this.isSelfId(gateway.id) || this.isInChannels(gateway.id)) {
+            continue;
+          }
+          await this.addGatewayAndCreateChannel(gateway);
+          added.push(gateway.id);
+        }
+        this.logger.info(
+          `${fnTag}, Discovered ${added.length} gateways for network ${networkId}`,
+        );
+        return added;
+      } catch (error) {
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: String(error),
+        });
+        span.recordException(error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Returns the public key of a gateway we have no identity for, as
+   * published in the discovery registry. The gateway is added to the known
+   * counterparties.
+   */
+  public async resolveGatewayPubKey(id: string): Promise<string | undefined> {
+    const fnTag = `${this.label}#resolveGatewayPubKey()`;
+    if (!this.discovery) {
+      return undefined;
+    }
+    const identity = await this.discovery.resolveById(id);
+    if (!identity) {
+      this.logger.warn(`${fnTag}, Gateway ${id} is not registered`);
+      return undefined;
+    }
+    this.addGateways([identity]);
+    return identity.pubKey;
+  }
+
+  // like getChannel, but queries the discovery registry when no channel is known
+  public async getOrDiscoverChannel(
+    networkId: string,
+  ): Promise<GatewayChannel> {
+    try {
+      return this.getChannel(networkId);
+    } catch (error) {
+      if (!this.discovery) {
+        throw error;
+      }
+    }
+    await this.discoverGatewaysForNetwork(networkId);
+    return this.getChannel(networkId);
+  }
+
   alreadyConnected(ID: string): boolean {
     return this.channels.has(ID);
   }
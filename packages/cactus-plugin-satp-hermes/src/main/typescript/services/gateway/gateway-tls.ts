@@ -0,0 +1,104 @@
+// helpers to run the gateway-to-gateway (GOL) channels over mutual TLS
+import type { NextFunction, Request, Response } from "express";
+import type {
+  RequestOptions as HttpsRequestOptions,
+  ServerOptions as HttpsServerOptions,
+} from "node:https";
+import {
+  checkServerIdentity,
+  type PeerCertificate,
+  type TLSSocket,
+} from "node:tls";
+import { X509Certificate } from "node:crypto";
+import type { GatewayIdentity, GatewayTLSConfig } from "../../core/types";
+import type { SATPLogger as Logger } from "../../core/satp-logger";
+import { PeerCertificateError } from "../../core/errors/satp-errors";
+
+/**
+ * Returns the SHA-256 fingerprint of a PEM certificate, in the format node
+ * reports for peer certificates (`AB:CD:...`). This is the value expected in
+ * `GatewayIdentity.tlsCertFingerprint`.
+ */
+export function getCertificateFingerprint(pem: string): string {
+  return new X509Certificate(pem).fingerprint256;
+}
+
+export function createMutualTLSServerOptions(
+  tls: GatewayTLSConfig,
+): HttpsServerOptions {
+  return {
+    cert: tls.cert,
+    key: tls.key,
+    ca: tls.ca,
+    requestCert: true,
+    rejectUnauthorized: true,
+  };
+}
+
+/**
+ * Client side options for the channel to `identity`. Besides the CA check,
+ * the server certificate must match the fingerprint the counterparty
+ * declared in its identity, if any.
+ */
+export function createMutualTLSClientOptions(
+  tls: GatewayTLSConfig,
+  identity: GatewayIdentity,
+): HttpsRequestOptions {
+  return {
+    cert: tls.cert,
+    key: tls.key,
+    ca: tls.ca,
+    rejectUnauthorized: true,
+    checkServerIdentity: (host: string, cert: PeerCertificate) => {
+      if (
+        identity.tlsCertFingerprint !== undefined &&
+        cert.fingerprint256 !== identity.tlsCertFingerprint
+      ) {
+        return new PeerCertificateError(
+          "createMutualTLSClientOptions()",
+          `certificate of gateway ${identity.id} does not match its identity`,
+        );
+      }
+      return checkServerIdentity(host, cert);
+    },
+  };
+}
+
+/**
+ * Express middleware that only lets through requests whose client
+ * certificate belongs to a known gateway. When no gateway declares a
+ * fingerprint, the CA check alone is trusted.
+ */
+export function createPeerCertificateVerifier(
+  getCounterPartyGateways: () => GatewayIdentity[],
+  logger: Logger,
+) {
+  const fnTag = "#peerCertificateVerifier()";
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const socket = req.socket as TLSSocket;
+    if (!socket.authorized) {
+      logger.warn(
+        `${fnTag}, rejected unauthorized peer: ${socket.authorizationError}`,
+      );
+      res.status(401).send("Peer certificate is not authorized");
+      return;
+    }
+
+    const fingerprints = getCounterPartyGateways()
+      .map((gateway) => gateway.tlsCertFingerprint)
+      .filter((fingerprint) => fingerprint !== undefined);
+
+    const peer = socket.getPeerCertificate();
+    if (
+      fingerprints.length > 0 &&
+      !fingerprints.includes(peer.fingerprint256)
+    ) {
+      logger.warn(
+        `${fnTag}, rejected peer with unknown certificate ${peer.fingerprint256}`,
+      );
+      res.status(403).send("Peer certificate does not belong to a gateway");
+      return;
+    }
+    next();
+  };
+}
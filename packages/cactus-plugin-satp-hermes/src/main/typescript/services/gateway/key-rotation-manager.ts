@@ -0,0 +1,225 @@
+import {
+  Checks,
+  type ISignerKeyPair,
+  JsObjectSigner,
+  type LogLevelDesc,
+  Secp256k1Keys,
+} from "@hyperledger/cactus-common";
+import { type SATPLogger as Logger } from "../../core/satp-logger";
+import { SatpLoggerProvider as LoggerProvider } from "../../core/satp-logger-provider";
+import type { Client as PromiseConnectClient } from "@connectrpc/connect";
+import type { KeyRotationService } from "../../generated/proto/cacti/satp/v02/service/key_rotation_pb";
+import type { GatewayOrchestrator } from "./gateway-orchestrator";
+import type { RotatableObjectSigner } from "../../core/key-rotation/rotatable-signer";
+import type { GatewayKeyRegistry } from "../../core/key-rotation/gateway-key-registry";
+import type { IGatewayKeyRepository } from "../../database/repository/interfaces/repository";
+import { KeyRotationError } from "../../core/errors/satp-errors";
+import { createKeyChange } from "../network-identification/discovery/gateway-descriptor";
+import { KeyRotationHandler } from "../../core/key-rotation/key-rotation-handler";
+import { KeyRotationServerService } from "../../core/key-rotation/server-service";
+import { KeyRotationClientService } from "../../core/key-rotation/client-service";
+import { bufArray2HexStr } from "../../gateway-utils";
+import { MonitorService } from "../monitoring/monitor";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+
+export interface IKeyRotationManagerOptions {
+  logLevel?: LogLevelDesc;
+  orchestrator: GatewayOrchestrator;
+  signer: RotatableObjectSigner;
+  keyRegistry: GatewayKeyRegistry;
+  // how long counterparties keep accepting our previous key (ms)
+  gracePeriod: number;
+  monitorService: MonitorService;
+  // where the registry stores rotations, to restore our own key pair
+  keyRepository?: IGatewayKeyRepository;
+}
+
+/**
+ * Rotates the signing key pair of the gateway and announces the new public
+ * key to the counterparty gateways, and handles the announcements they send.
+ */
+export class KeyRotationManager {
+  public static readonly CLASS_NAME = "KeyRotationManager";
+  private readonly log: Logger;
+  private readonly orchestrator: GatewayOrchestrator;
+  private readonly signer: RotatableObjectSigner;
+  private readonly keyRegistry: GatewayKeyRegistry;
+  private readonly gracePeriod: number;
+  private readonly keyRotationHandler: KeyRotationHandler;
+  private readonly monitorService: MonitorService;
+  private readonly keyRepository?: IGatewayKeyRepository;
+
+  constructor(public readonly options: IKeyRotationManagerOptions) {
+    const fnTag = `${KeyRotationManager.CLASS_NAME}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+
+    const level = this.options.logLevel;
+    const label = this.className;
+    this.monitorService = options.monitorService;
+    this.log = LoggerProvider.getOrCreate(
+      { level, label },
+      this.monitorService,
+    );
+    this.orchestrator = options.orchestrator;
+    this.signer = options.signer;
+    this.keyRegistry = options.keyRegistry;
+    this.gracePeriod = options.gracePeriod;
+    this.keyRepository = options.keyRepository;
+
+    this.keyRegistry.registerKey(
+      this.orchestrator.getSelfId(),
+      this.signer.pubKey,
+    );
+    for (const gateway of this.orchestrator
+      .getCounterPartyGateways()
+      .values()) {
+      if (gateway.pubKey) {
+        this.keyRegistry.registerKey(gateway.id, gateway.pubKey);
+      }
+    }
+
+    this.keyRotationHandler = new KeyRotationHandler(
+      new KeyRotationServerService(
+        this.orchestrator,
+        this.keyRegistry,
+        this.signer,
+        this.log,
+        this.monitorService,
+      ),
+      new KeyRotationClientService(this.log, this.monitorService),
+      this.log,
+      this.monitorService,
+    );
+    this.orchestrator.addHandler(
+      "key-rotation-handler",
+      this.keyRotationHandler,
+    );
+    this.log.info(`Instantiated ${this.className} OK`);
+  }
+
+  get className(): string {
+    return KeyRotationManager.CLASS_NAME;
+  }
+
+  /**
+   * Replaces the gateway key pair and announces the new public key.
+   * Messages signed with the previous key stay valid for the grace period,
+   * so sessions in flight are not interrupted.
+   * @param keyPair - The new key pair, generated if omitted.
+   * @returns The ids of the counterparties that acknowledged the new key.
+   */
+  public async rotateKeyPair(keyPair?: ISignerKeyPair): Promise<string[]> {
+    const fnTag = `${this.className}#rotateKeyPair()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        const newKeyPair = keyPair ?? Secp256k1Keys.generateKeyPairsBuffer();
+        const selfId = this.orchestrator.getSelfId();
+        const previousPublicKey = this.signer.pubKey;
+        const newPublicKey = bufArray2HexStr(newKeyPair.publicKey);
+        const newPrivateKey = bufArray2HexStr(newKeyPair.privateKey);
+
+        const announcement = this.keyRotationHandler.createAnnouncement(
+          selfId,
+          this.signer,
+          previousPublicKey,
+          new JsObjectSigner({
+            ...this.signer.options,
+            privateKey: newPrivateKey,
+          }),
+          newPublicKey,
+          this.gracePeriod,
+        );
+
+        // published in our descriptor, for gateways that trust the previous key
+        const keyChange = createKeyChange(
+          selfId,
+          this.signer,
+          previousPublicKey,
+          newPublicKey,
+        );
+
+        // the rotation is stored before the gateway signs with the new key,
+        // so a restart never loses the key pair in use
+        await this.keyRegistry.recordRotation(
+          selfId,
+          previousPublicKey,
+          newPublicKey,
+          Number(announcement.rotationTimestamp),
+          this.gracePeriod,
+          newPrivateKey,
+          keyChange.signature,
+        );
+        this.signer.rotate(newPrivateKey, newPublicKey);
+        this.orchestrator.updateGatewayPubKey(selfId, newPublicKey);
+        this.log.info(`${fnTag}, Rotated key pair of gateway ${selfId}`);
+
+        const acknowledged: string[] = [];
+        for (const channel of this.orchestrator.getChannels().values()) {
+          if (channel.toGatewayID === selfId) {
+            continue;
+          }
+          const client = channel.clients.get(
+            "keyRotation",
+          ) as PromiseConnectClient<typeof KeyRotationService>;
+
+          try {
+            const ack = await client.announceKeyRotation(announcement);
+            if (ack.accepted && ack.acceptedPublicKey === newPublicKey) {
+              acknowledged.push(channel.toGatewayID);
+            } else {
+              this.log.warn(
+                `${fnTag}, Gateway ${channel.toGatewayID} did not accept the new key`,
+              );
+            }
+          } catch (error) {
+            this.log.error(
+              `${fnTag}, Failed to announce key rotation to ${channel.toGatewayID}: ${error}`,
+            );
+          }
+        }
+        return acknowledged;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Restores the stored rotations, so that after a restart the gateway signs
+   * with the key pair it last announced and verifies counterparties with the
+   * keys they rotated to.
+   */
+  public async restoreKeys(): Promise<void> {
+    const fnTag = `${this.className}#restoreKeys()`;
+    await this.keyRegistry.restore();
+
+    const selfId = this.orchestrator.getSelfId();
+    const currentKey = this.keyRegistry.getCurrentKey(selfId);
+    if (currentKey !== undefined && currentKey !== this.signer.pubKey) {
+      const entry = await this.keyRepository?.readById(currentKey);
+      if (!entry?.privateKey) {
+        throw new KeyRotationError(
+          fnTag,
+          `no private key stored for the current key of gateway ${selfId}`,
+        );
+      }
+      this.signer.rotate(entry.privateKey, currentKey);
+      this.orchestrator.updateGatewayPubKey(selfId, currentKey);
+      this.log.info(`${fnTag}, Restored key pair of gateway ${selfId}`);
+    }
+
+    for (const gateway of this.orchestrator
+      .getCounterPartyGateways()
+      .values()) {
+      const gatewayKey = this.keyRegistry.getCurrentKey(gateway.id);
+      if (gatewayKey !== undefined && gatewayKey !== gateway.pubKey) {
+        this.orchestrator.updateGatewayPubKey(gateway.id, gatewayKey);
+      }
+    }
+  }
+}
@@ -0,0 +1,454 @@
+import {
+  Checks,
+  type JsObjectSigner,
+  type LogLevelDesc,
+} from "@hyperledger/cactus-common";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { v4 as uuidv4 } from "uuid";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+import { type SATPLogger as Logger } from "../../core/satp-logger";
+import { SatpLoggerProvider as LoggerProvider } from "../../core/satp-logger-provider";
+import {
+  DEFAULT_PORT_GATEWAY_OAPI,
+  DEFAULT_QUOTE_TTL,
+} from "../../core/constants";
+import {
+  CounterpartyUnavailableError,
+  QuoteError,
+  RouteNotSupportedError,
+} from "../../core/errors/satp-errors";
+import type { GatewayIdentity } from "../../core/types";
+import {
+  AdminApi,
+  HealthCheckResponseStatusEnum,
+  TransactionApi,
+  type LedgerFeeEstimate,
+  type NetworkId,
+  type Quote,
+  type QuoteRequest,
+  type TransactRequest,
+  type TransactRequestSourceAsset,
+} from "../../generated/gateway-client/typescript-axios/api";
+import { Configuration } from "../../generated/gateway-client/typescript-axios/configuration";
+import {
+  ClaimFormat,
+  TokenType,
+} from "../../generated/proto/cacti/satp/v02/common/message_pb";
+import {
+  type FungibleAsset,
+  type NonFungibleAsset,
+  createAssetId,
+  isNonFungibleTokenType,
+} from "../../cross-chain-mechanisms/bridge/ontology/assets/asset";
+import type { SATPCrossChainManager } from "../../cross-chain-mechanisms/satp-cc-manager";
+import { bufArray2HexStr, sign } from "../../gateway-utils";
+import { getEnumValueByKey } from "../utils";
+import type { GatewayOrchestrator } from "./gateway-orchestrator";
+import { MonitorService } from "../monitoring/monitor";
+
+/**
+ * Fee the gateway charges for a transfer, in units of the source asset.
+ * Fungible transfers pay `flatFee` plus `basisPoints` of the amount, bounded
+ * by `minimumFee` and `maximumFee`; non-fungible transfers pay `flatFee`.
+ * The fee is deducted from the amount delivered to the receiver.
+ */
+export interface GatewayFeePolicy {
+  flatFee?: string;
+  // 1 basis point is 0.01% of the transferred amount
+  basisPoints?: number;
+  minimumFee?: string;
+  maximumFee?: string;
+}
+
+export interface GatewayQuoteConfig {
+  feePolicy?: GatewayFeePolicy;
+  // how long an issued quote can be referenced by a transact request (ms)
+  quoteTTL?: number;
+  // reject transact requests that do not reference a quote
+  requireQuote?: boolean;
+}
+
+export interface IQuoteManagerOptions {
+  logLevel?: LogLevelDesc;
+  orchestrator: GatewayOrchestrator;
+  ccManager: SATPCrossChainManager;
+  signer: JsObjectSigner;
+  config?: GatewayQuoteConfig;
+  monitorService: MonitorService;
+}
+
+function getQuotePayload(quote: Quote): string {
+  return safeStableStringify({ ...quote, signature: "" }) as string;
+}
+
+/**
+ * Checks that the quote is signed by the key it announces.
+ */
+export function verifyQuoteSignature(
+  quote: Quote,
+  signer: JsObjectSigner,
+): boolean {
+  return signer.verify(
+    getQuotePayload(quote),
+    new Uint8Array(Buffer.from(quote.signature, "hex")),
+    new Uint8Array(Buffer.from(quote.gatewayPubKey, "hex")),
+  );
+}
+
+export function computeGatewayFee(
+  policy: GatewayFeePolicy | undefined,
+  asset: TransactRequestSourceAsset,
+): string {
+  const flatFee = BigInt(policy?.flatFee ?? "0");
+  if (isNonFungibleTokenType(toTokenType(asset))) {
+    return flatFee.toString();
+  }
+
+  let fee =
+    flatFee +
+    (BigInt(asset.amount ?? "0") * BigInt(policy?.basisPoints ?? 0)) /
+      BigInt(10000);
+  if (policy?.minimumFee !== undefined && fee < BigInt(policy.minimumFee)) {
+    fee = BigInt(policy.minimumFee);
+  }
+  if (policy?.maximumFee !== undefined && fee > BigInt(policy.maximumFee)) {
+    fee = BigInt(policy.maximumFee);
+  }
+  return fee.toString();
+}
+
+/**
+ * Returns the receiver asset of a transfer that pays `gatewayFee`. A
+ * non-fungible asset cannot be split, so it can only be transferred for free.
+ */
+export function chargeGatewayFee(
+  receiverAsset: TransactRequestSourceAsset,
+  gatewayFee: string,
+): TransactRequestSourceAsset {
+  const fnTag = "#chargeGatewayFee()";
+  const fee = BigInt(gatewayFee);
+  if (fee === BigInt(0)) {
+    return receiverAsset;
+  }
+  if (isNonFungibleTokenType(toTokenType(receiverAsset))) {
+    throw new QuoteError(
+      fnTag,
+      `a non-fungible transfer cannot pay a gateway fee of ${gatewayFee}`,
+    );
+  }
+  const amount = BigInt(receiverAsset.amount ?? "0") - fee;
+  if (amount <= BigInt(0)) {
+    throw new QuoteError(
+      fnTag,
+      `amount ${receiverAsset.amount} does not cover the gateway fee of ${gatewayFee}`,
+    );
+  }
+  return { ...receiverAsset, amount: amount.toString() };
+}
+
+function toTokenType(asset: TransactRequestSourceAsset): TokenType {
+  const tokenType = getEnumValueByKey(TokenType, asset.tokenType);
+  if (tokenType === undefined) {
+    throw new RouteNotSupportedError(
+      "#toTokenType()",
+      `invalid token type ${asset.tokenType}`,
+    );
+  }
+  return tokenType;
+}
+
+// the leafs read ledger specific fields (contractAddress, mspId, ...) off the asset
+function toBridgeAsset(
+  asset: TransactRequestSourceAsset,
+): FungibleAsset | NonFungibleAsset {
+  const type = toTokenType(asset);
+  const bridgeAsset = {
+    id: createAssetId(uuidv4(), type, asset.networkId.id),
+    referenceId: asset.referenceId,
+    type,
+    owner: asset.owner,
+    contractName: asset.contractName,
+    network: asset.networkId as NetworkId,
+    contractAddress: asset.contractAddress,
+    mspId: asset.mspId,
+    channelName: asset.channelName,
+  };
+  return isNonFungibleTokenType(type)
+    ? {
+        ...bridgeAsset,
+        uniqueDescriptor: asset.uniqueDescriptor ?? "",
+        metadataUri: asset.metadataUri,
+      }
+    : { ...bridgeAsset, amount: asset.amount ?? "0" };
+}
+
+function getOapiBasePath(identity: GatewayIdentity): string {
+  const address = /^https?:\/\//.test(identity.address ?? "")
+    ? identity.address
+    : `http://${identity.address}`;
+  return `${address}:${identity.gatewayOapiPort ?? DEFAULT_PORT_GATEWAY_OAPI}`;
+}
+
+/**
+ * Issues signed, time-limited quotes for transfers between two networks.
+ * A quote checks that a leaf can bridge the source asset and that a healthy
+ * gateway serves the receiver network, and estimates the ledger fees on
+ * both sides plus the gateway fee. Transact requests may then reference it.
+ */
+export class QuoteManager {
+  public static readonly CLASS_NAME = "QuoteManager";
+  private readonly log: Logger;
+  private readonly orchestrator: GatewayOrchestrator;
+  private readonly ccManager: SATPCrossChainManager;
+  private readonly signer: JsObjectSigner;
+  private readonly config: GatewayQuoteConfig;
+  private readonly monitorService: MonitorService;
+  private readonly quotes: Map<string, Quote> = new Map();
+  // quotes referenced by a transfer that is still running
+  private readonly pendingQuotes: Set<string> = new Set();
+
+  constructor(public readonly options: IQuoteManagerOptions) {
+    const fnTag = `${QuoteManager.CLASS_NAME}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+
+    this.monitorService = options.monitorService;
+    this.log = LoggerProvider.getOrCreate(
+      { level: options.logLevel, label: this.className },
+      this.monitorService,
+    );
+    this.orchestrator = options.orchestrator;
+    this.ccManager = options.ccManager;
+    this.signer = options.signer;
+    this.config = options.config ?? {};
+    this.log.info(`Instantiated ${this.className} OK`);
+  }
+
+  get className(): string {
+    return QuoteManager.CLASS_NAME;
+  }
+
+  public get requireQuote(): boolean {
+    return this.config.requireQuote ?? false;
+  }
+
+  public async createQuote(req: QuoteRequest): Promise<Quote> {
+    const fnTag = `${this.className}#createQuote()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        const { sourceAsset, receiverAsset } = req;
+        if (!sourceAsset?.networkId || !receiverAsset?.networkId) {
+          throw new QuoteError(fnTag, "source and receiver assets required");
+        }
+
+        const sourceFee = await this.estimateFee(sourceAsset);
+        const gatewayFee = computeGatewayFee(
+          this.config.feePolicy,
+          sourceAsset,
+        );
+        chargeGatewayFee(receiverAsset, gatewayFee);
+
+        let channel;
+        try {
+          channel = await this.orchestrator.getOrDiscoverChannel(
+            receiverAsset.networkId.id,
+          );
+        } catch (error) {
+          throw new RouteNotSupportedError(
+            fnTag,
+            `no gateway connected to network ${receiverAsset.networkId.id}`,
+            error,
+          );
+        }
+
+        let receiverFee: LedgerFeeEstimate;
+        if (this.orchestrator.isSelfId(channel.toGatewayID)) {
+          receiverFee = await this.estimateFee(receiverAsset);
+        } else {
+          receiverFee = await this.estimateCounterpartyFee(
+            channel.toGatewayID,
+            receiverAsset,
+          );
+        }
+
+        this.purgeExpiredQuotes();
+        const ourGateway = this.orchestrator.ourGateway;
+        const issuedAt = Date.now();
+        const quote: Quote = {
+          quoteId: uuidv4(),
+          gatewayId: ourGateway.id,
+          gatewayPubKey: ourGateway.pubKey ?? "",
+          counterpartyGatewayId: channel.toGatewayID,
+          sourceAsset,
+          receiverAsset,
+          sourceFee,
+          receiverFee,
+          gatewayFee,
+          issuedAt,
+          expiresAt: issuedAt + (this.config.quoteTTL ?? DEFAULT_QUOTE_TTL),
+          signature: "",
+        };
+        quote.signature = bufArray2HexStr(
+          sign(this.signer, getQuotePayload(quote)),
+        );
+        this.quotes.set(quote.quoteId, quote);
+
+        this.log.info(
+          `${fnTag}, Issued quote ${quote.quoteId} from ${sourceAsset.networkId.id} to ${receiverAsset.networkId.id}`,
+        );
+        return quote;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Estimates the fees this gateway pays on the ledger of the asset to
+   * bridge it. Throws a {@link RouteNotSupportedError} if no leaf of this
+   * gateway can bridge the asset.
+   */
+  public async estimateFee(
+    asset: TransactRequestSourceAsset,
+  ): Promise<LedgerFeeEstimate> {
+    const fnTag = `${this.className}#estimateFee()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        const networkId = asset.networkId as NetworkId;
+        const tokenType = toTokenType(asset);
+
+        let leaf;
+        try {
+          leaf = this.ccManager
+            .getClientBridgeManagerInterface()
+            .getBridgeEndPoint(networkId, ClaimFormat.DEFAULT);
+        } catch (error) {
+          throw new RouteNotSupportedError(
+            fnTag,
+            `no leaf for network ${networkId.id}`,
+            error,
+          );
+        }
+        if (!leaf.getSupportedTokenTypes().includes(tokenType)) {
+          throw new RouteNotSupportedError(
+            fnTag,
+            `network ${networkId.id} does not support ${asset.tokenType}`,
+          );
+        }
+
+        const fee = await leaf.estimateFee(toBridgeAsset(asset));
+        return { networkId, fee };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Runs `transact` for a transact request, charging the gateway fee of the
+   * quote it references. Quotes are single use, and only valid until they
+   * expire and for the assets they were issued for. A quote is reserved
+   * while its transfer runs and only consumed once the transfer succeeds.
+   */
+  public async redeemQuote<T>(
+    req: TransactRequest,
+    transact: (req: TransactRequest) => Promise<T>,
+  ): Promise<T> {
+    const fnTag = `${this.className}#redeemQuote()`;
+    if (!req.quoteId) {
+      if (this.requireQuote) {
+        throw new QuoteError(fnTag, "a quote is required to transact");
+      }
+      return transact(req);
+    }
+
+    const quote = this.quotes.get(req.quoteId);
+    if (!quote) {
+      throw new QuoteError(fnTag, `unknown quote ${req.quoteId}`);
+    }
+    if (this.pendingQuotes.has(quote.quoteId)) {
+      throw new QuoteError(fnTag, `quote ${req.quoteId} is being redeemed`);
+    }
+    if (quote.expiresAt <= Date.now()) {
+      throw new QuoteError(fnTag, `quote ${req.quoteId} expired`);
+    }
+    if (
+      safeStableStringify(quote.sourceAsset) !==
+        safeStableStringify(req.sourceAsset) ||
+      safeStableStringify(quote.receiverAsset) !==
+        safeStableStringify(req.receiverAsset)
+    ) {
+      throw new QuoteError(
+        fnTag,
+        `quote ${req.quoteId} was issued for different assets`,
+      );
+    }
+    const receiverAsset = chargeGatewayFee(req.receiverAsset, quote.gatewayFee);
+
+    this.pendingQuotes.add(quote.quoteId);
+    try {
+      const result = await transact({ ...req, receiverAsset });
+      this.quotes.delete(quote.quoteId);
+      this.log.info(
+        `${fnTag}, Redeemed quote ${quote.quoteId} for a gateway fee of ${quote.gatewayFee}`,
+      );
+      return result;
+    } finally {
+      this.pendingQuotes.delete(quote.quoteId);
+    }
+  }
+
+  private async estimateCounterpartyFee(
+    gatewayId: string,
+    asset: TransactRequestSourceAsset,
+  ): Promise<LedgerFeeEstimate> {
+    const fnTag = `${this.className}#estimateCounterpartyFee()`;
+    const counterparty = this.orchestrator.getCounterPartyGateway(gatewayId);
+    if (!counterparty?.address) {
+      throw new CounterpartyUnavailableError(fnTag, gatewayId);
+    }
+    const configuration = new Configuration({
+      basePath: getOapiBasePath(counterparty),
+    });
+
+    try {
+      const health = await new AdminApi(configuration).getHealthCheck();
+      if (health.data.status !== HealthCheckResponseStatusEnum.Available) {
+        throw new Error(`health check returned ${health.data.status}`);
+      }
+    } catch (error) {
+      throw new CounterpartyUnavailableError(fnTag, gatewayId, error);
+    }
+
+    try {
+      const response = await new TransactionApi(configuration).estimateFee({
+        asset,
+      });
+      return response.data;
+    } catch (error) {
+      throw new RouteNotSupportedError(
+        fnTag,
+        `gateway ${gatewayId} cannot bridge to network ${asset.networkId.id}`,
+        error,
+      );
+    }
+  }
+
+  private purgeExpiredQuotes(): void {
+    const now = Date.now();
+    for (const [quoteId, quote] of this.quotes) {
+      if (quote.expiresAt <= now && !this.pendingQuotes.has(quoteId)) {
+        this.quotes.delete(quoteId);
+      }
+    }
+  }
+}
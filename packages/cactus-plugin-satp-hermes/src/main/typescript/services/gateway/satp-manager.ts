@@ -97,6 +97,7 @@ import {
   GatewayPersistence,
 } from "../../gateway-persistence";
 import { MonitorService } from "../monitoring/monitor";
+import type { GatewayKeyRegistry } from "../../core/key-rotation/gateway-key-registry";
 import { context, SpanStatusCode } from "@opentelemetry/api";
 
 export interface ISATPManagerOptions {
@@ -110,6 +111,7 @@ export interface ISATPManagerOptions {
   localRepository: ILocalLogRepository;
   remoteRepository?: IRemoteLogRepository;
   claimFormat?: ClaimFormat;
+  keyRegistry?: GatewayKeyRegistry;
   monitorService: MonitorService;
 }
 export class SATPManager {
@@ -139,6 +141,7 @@ export class SATPManager {
   private readonly monitorService: MonitorService;
 
   private readonly claimFormat: ClaimFormat;
+  private readonly keyRegistry?: GatewayKeyRegistry;
 
   constructor(public readonly options: ISATPManagerOptions) {
     const fnTag = `${SATPManager.CLASS_NAME}#constructor()`;
@@ -162,6 +165,10 @@ export class SATPManager {
     this.localRepository = options.localRepository;
     this.remoteRepository = options.remoteRepository;
     this.claimFormat = options.claimFormat || ClaimFormat.DEFAULT;
+    this.keyRegistry = options.keyRegistry;
+    this.keyRegistry?.onRotation((gatewayId, _previous, newPublicKey) =>
+      this.onKeyRotation(gatewayId, newPublicKey),
+    );
     const satpLoggerConfig: IGatewayPersistenceConfig = {
       localRepository: this.localRepository,
       remoteRepository: this.remoteRepository,
@@ -239,6 +246,11 @@ export class SATPManager {
     return this._pubKey;
   }
 
+  // operator interventions are logged alongside the protocol steps
+  public get gatewayPersistence(): GatewayPersistence {
+    return this.dbLogger;
+  }
+
   public getServiceByStage(
     serviceType: SATPServiceType,
     stageID: string,
@@ -470,6 +482,7 @@ export class SATPManager {
           bridgeManager: this.ccManager.getClientBridgeManagerInterface(),
           dbLogger: this.dbLogger,
           claimFormat: claimFormat,
+          keyRegistry: this.keyRegistry,
           monitorService: this.monitorService,
         }));
       } catch (error) {
@@ -568,6 +581,8 @@ export class SATPManager {
               clientService: clientService,
               bridgeClient: this.ccManager.getClientBridgeManagerInterface(),
               pubkeys: this.gatewaysPubKeys,
+              resolvePubKey: (gatewayId) =>
+                this.orchestrator.resolveGatewayPubKey(gatewayId),
               gatewayId: this.orchestrator.ourGateway.id,
               stage: serviceIndex,
               loggerOptions: {
@@ -653,6 +668,17 @@ export class SATPManager {
     );
   }
 
+  // new sessions use the rotated key, in-flight ones are covered by the registry
+  private onKeyRotation(gatewayId: string, newPublicKey: string): void {
+    const fnTag = `${SATPManager.CLASS_NAME}#onKeyRotation()`;
+    this.logger.info(`${fnTag}, gateway ${gatewayId} rotated its key`);
+    this.gatewaysPubKeys.set(gatewayId, newPublicKey);
+    if (gatewayId === this.orchestrator.getSelfId()) {
+      this._pubKey = newPublicKey;
+      this.dbLogger.updatePubKey(newPublicKey);
+    }
+  }
+
   public async transfer(
     session: SATPSession,
     stage?: MessageType,
@@ -680,13 +706,11 @@ export class SATPManager {
             throw new Error(`${fnTag}, Session not found`);
           }
 
-          //maybe get a suitable gateway first.
-
           if (!clientSessionData.receiverAsset?.networkId?.id) {
             throw new Error(`${fnTag}, Receiver asset network ID not found`);
           }
 
-          const channel = this.orchestrator.getChannel(
+          const channel = await this.orchestrator.getOrDiscoverChannel(
             clientSessionData.receiverAsset?.networkId?.id,
           );
 
@@ -0,0 +1,510 @@
+import { Checks, type LogLevelDesc } from "@hyperledger/cactus-common";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+import { type SATPLogger as Logger } from "../../core/satp-logger";
+import { SatpLoggerProvider as LoggerProvider } from "../../core/satp-logger-provider";
+import {
+  SessionInterventionError,
+  SessionNotFoundError,
+} from "../../core/errors/satp-errors";
+import type { SATPSession } from "../../core/satp-session";
+import { getSessionActualStage, getStateName } from "../../core/session-utils";
+import { getMessageTypeName } from "../../core/satp-utils";
+import type { LocalLog } from "../../core/types";
+import type { ILocalLogRepository } from "../../database/repository/interfaces/repository";
+import {
+  SessionInterventionRequestActionEnum,
+  type SessionIntervention,
+  type SessionInterventionRequest,
+  type SessionSummary,
+  type SessionSummaryRoleEnum,
+  type SessionSummaryStageEnum,
+  type SessionSummaryStateEnum,
+  type SessionTimelineResponse,
+} from "../../generated/gateway-client/typescript-axios/api";
+import { MessageType } from "../../generated/proto/cacti/satp/v02/common/message_pb";
+import {
+  SATPStage,
+  type SessionData,
+  State,
+  Type,
+} from "../../generated/proto/cacti/satp/v02/session/session_pb";
+import { INTERVENTION_LOG_TYPE } from "../../core/constants";
+import { getSatpLogKey } from "../../gateway-utils";
+import type { CrashManager } from "./crash-manager";
+import type { SATPManager } from "./satp-manager";
+import { MonitorService } from "../monitoring/monitor";
+
+// local log type of the session data of sessions marked as resolved, so
+// that crash recovery finds them completed
+export const RESOLUTION_LOG_TYPE = "resolution";
+
+export interface SessionListFilter {
+  state?: string;
+  stage?: string;
+  counterparty?: string;
+  // bounds on the time elapsed since the session started (ms)
+  minAge?: number;
+  maxAge?: number;
+}
+
+export interface ISessionAdminManagerOptions {
+  logLevel?: LogLevelDesc;
+  manager: SATPManager;
+  localRepository: ILocalLogRepository;
+  // forced rollbacks need crash recovery to be enabled
+  crashManager?: CrashManager;
+  monitorService: MonitorService;
+}
+
+// the response whose case in SATPManager#transfer resends the first request of each stage
+const RETRY_FROM: Partial<Record<SATPStage, MessageType>> = {
+  [SATPStage.SATP_STAGE_0]: MessageType.NEW_SESSION_RESPONSE,
+  [SATPStage.SATP_STAGE_1]: MessageType.INIT_RECEIPT,
+  [SATPStage.SATP_STAGE_2]: MessageType.ASSERTION_RECEIPT,
+  [SATPStage.SATP_STAGE_3]: MessageType.COMMIT_READY,
+};
+
+function getSessionData(session: SATPSession): SessionData | undefined {
+  if (session.hasClientSessionData()) {
+    return session.getClientSessionData();
+  }
+  if (session.hasServerSessionData()) {
+    return session.getServerSessionData();
+  }
+  return undefined;
+}
+
+// sessions hold empty hashes for every stage from the start, so the stage
+// follows the last message rather than the last stage with hashes
+function getStage(sessionData: SessionData): [SATPStage, MessageType] {
+  const messageType = sessionData.hashes
+    ? getSessionActualStage(sessionData)[1]
+    : MessageType.UNSPECIFIED;
+  switch (messageType) {
+    case MessageType.INIT_PROPOSAL:
+    case MessageType.INIT_RECEIPT:
+    case MessageType.INIT_REJECT:
+    case MessageType.TRANSFER_COMMENCE_REQUEST:
+    case MessageType.TRANSFER_COMMENCE_RESPONSE:
+      return [SATPStage.SATP_STAGE_1, messageType];
+    case MessageType.LOCK_ASSERT:
+    case MessageType.ASSERTION_RECEIPT:
+      return [SATPStage.SATP_STAGE_2, messageType];
+    case MessageType.COMMIT_PREPARE:
+    case MessageType.COMMIT_READY:
+    case MessageType.COMMIT_FINAL:
+    case MessageType.ACK_COMMIT_FINAL:
+    case MessageType.COMMIT_TRANSFER_COMPLETE:
+    case MessageType.COMMIT_TRANSFER_COMPLETE_RESPONSE:
+      return [SATPStage.SATP_STAGE_3, messageType];
+    default:
+      return [SATPStage.SATP_STAGE_0, messageType];
+  }
+}
+
+function toTimestamp(value: string | undefined): number | undefined {
+  return value ? Number(value) : undefined;
+}
+
+// errors of interventions the session does not allow, as opposed to
+// interventions that were carried out and failed
+function isRefusal(err: unknown): err is Error {
+  return (
+    err instanceof SessionInterventionError ||
+    err instanceof SessionNotFoundError
+  );
+}
+
+/**
+ * Lets operators inspect the sessions of the gateway and step in when one is
+ * stuck: force its rollback, retry its current stage or mark it as resolved.
+ * Every intervention is written to the local log, where audits pick it up.
+ */
+export class SessionAdminManager {
+  public static readonly CLASS_NAME = "SessionAdminManager";
+  private readonly log: Logger;
+  private readonly manager: SATPManager;
+  private readonly localRepository: ILocalLogRepository;
+  private readonly crashManager?: CrashManager;
+  private readonly monitorService: MonitorService;
+
+  constructor(public readonly options: ISessionAdminManagerOptions) {
+    const fnTag = `${SessionAdminManager.CLASS_NAME}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+
+    this.monitorService = options.monitorService;
+    this.log = LoggerProvider.getOrCreate(
+      { level: options.logLevel, label: this.className },
+      this.monitorService,
+    );
+    this.manager = options.manager;
+    this.localRepository = options.localRepository;
+    this.crashManager = options.crashManager;
+    this.log.info(`Instantiated ${this.className} OK`);
+  }
+
+  get className(): string {
+    return SessionAdminManager.CLASS_NAME;
+  }
+
+  /**
+   * Summaries of the sessions matching every given filter, most recent first.
+   */
+  public listSessions(filter: SessionListFilter = {}): SessionSummary[] {
+    const fnTag = `${this.className}#listSessions()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, () => {
+      try {
+        const now = Date.now();
+        const summaries: SessionSummary[] = [];
+        for (const session of this.manager.getSessions().values()) {
+          const sessionData = getSessionData(session);
+          if (!sessionData) {
+            this.log.warn(
+              `${fnTag}, Session ${session.getSessionId()} does not have session data.`,
+            );
+            continue;
+          }
+          const summary = this.summarize(sessionData, now);
+          if (
+            (filter.state && summary.state !== filter.state) ||
+            (filter.stage && summary.stage !== filter.stage) ||
+            (filter.counterparty &&
+              summary.counterpartyGatewayID !== filter.counterparty) ||
+            (filter.minAge !== undefined &&
+              (summary.age === undefined || summary.age < filter.minAge)) ||
+            (filter.maxAge !== undefined &&
+              (summary.age === undefined || summary.age > filter.maxAge))
+          ) {
+            continue;
+          }
+          summaries.push(summary);
+        }
+        return summaries.sort(
+          (a, b) => (b.startTime ?? 0) - (a.startTime ?? 0),
+        );
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Every entry of the local log of a session, oldest first. Sessions no
+   * longer held in memory are still found through their logs.
+   */
+  public async getSessionTimeline(
+    sessionId: string,
+  ): Promise<SessionTimelineResponse> {
+    const fnTag = `${this.className}#getSessionTimeline()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        const logs = await this.localRepository.fetchLogsFromSequence(
+          sessionId,
+          -1,
+        );
+        if (logs.length === 0 && !this.manager.getSession(sessionId)) {
+          throw new SessionNotFoundError(fnTag, sessionId);
+        }
+        const steps = logs
+          .map((log) => ({
+            sequenceNumber: Number(log.sequenceNumber),
+            type: log.type,
+            operation: log.operation,
+            timestamp: Number(log.timestamp),
+          }))
+          .sort(
+            (a, b) =>
+              a.timestamp - b.timestamp || a.sequenceNumber - b.sequenceNumber,
+          );
+        return { sessionID: sessionId, steps };
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Carries out an operator intervention and records it in the local log,
+   * refused interventions included.
+   * @param operator - The authenticated caller, the subject of its token.
+   * @throws SessionNotFoundError when the gateway does not hold the session
+   * @throws SessionInterventionError when the session does not allow the
+   * intervention
+   */
+  public async intervene(
+    req: SessionInterventionRequest,
+    operator?: string,
+  ): Promise<SessionIntervention> {
+    const fnTag = `${this.className}#intervene()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      let sessionData: SessionData | undefined;
+      try {
+        const session = this.manager.getSession(req.sessionID);
+        if (!session) {
+          throw new SessionNotFoundError(fnTag, req.sessionID);
+        }
+        sessionData = getSessionData(session);
+        if (!sessionData) {
+          throw new SessionInterventionError(
+            fnTag,
+            req.sessionID,
+            "the session does not have session data",
+          );
+        }
+        const previousState = sessionData.state;
+        this.log.info(
+          `${fnTag}, ${req.action} by ${operator ?? "an unauthenticated caller"} on session ${req.sessionID} in state ${getStateName(previousState)}${req.reason ? `: ${req.reason}` : ""}`,
+        );
+
+        let message: string | undefined;
+        switch (req.action) {
+          case SessionInterventionRequestActionEnum.ForceRollback:
+            message = await this.forceRollback(fnTag, session, sessionData);
+            break;
+          case SessionInterventionRequestActionEnum.RetryStage:
+            message = await this.retryStage(fnTag, session, sessionData);
+            break;
+          case SessionInterventionRequestActionEnum.MarkResolved:
+            await this.markResolved(fnTag, session, sessionData);
+            break;
+          default:
+            throw new SessionInterventionError(
+              fnTag,
+              req.sessionID,
+              `unknown action ${req.action}`,
+            );
+        }
+
+        return await this.recordIntervention(
+          {
+            sessionID: req.sessionID,
+            action: req.action,
+            reason: req.reason,
+            operator,
+            success: message === undefined,
+            previousState: getStateName(previousState),
+            state: getStateName(sessionData.state),
+            message,
+            timestamp: Date.now(),
+          },
+          sessionData,
+        );
+      } catch (err) {
+        if (isRefusal(err)) {
+          this.log.warn(
+            `${fnTag}, ${req.action} by ${operator ?? "an unauthenticated caller"} refused: ${err.message}`,
+          );
+          const state = getStateName(sessionData?.state ?? State.UNSPECIFIED);
+          await this.recordIntervention(
+            {
+              sessionID: req.sessionID,
+              action: req.action,
+              reason: req.reason,
+              operator,
+              success: false,
+              refused: true,
+              previousState: state,
+              state,
+              message: err.message,
+              timestamp: Date.now(),
+            },
+            sessionData,
+          );
+        }
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * The interventions recorded in the local log between the two timestamps,
+   * oldest first.
+   */
+  public async getInterventions(
+    startTimestamp: number,
+    endTimestamp: number,
+  ): Promise<SessionIntervention[]> {
+    const fnTag = `${this.className}#getInterventions()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        const logs = await this.localRepository.readLogsMoreRecentThanTimestamp(
+          String(startTimestamp - 1),
+        );
+        return logs
+          .filter(
+            (log: LocalLog) =>
+              log.type === INTERVENTION_LOG_TYPE &&
+              Number(log.timestamp) <= endTimestamp,
+          )
+          .map((log) => JSON.parse(log.data) as SessionIntervention)
+          .sort((a, b) => a.timestamp - b.timestamp);
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  private async recordIntervention(
+    intervention: SessionIntervention,
+    sessionData?: SessionData,
+  ): Promise<SessionIntervention> {
+    await this.manager.gatewayPersistence.persistLogEntry({
+      sessionID: intervention.sessionID,
+      type: INTERVENTION_LOG_TYPE,
+      operation: intervention.action,
+      data: safeStableStringify(intervention) as string,
+      sequenceNumber: Number(sessionData?.lastSequenceNumber ?? 0),
+      key: `${getSatpLogKey(intervention.sessionID, INTERVENTION_LOG_TYPE, intervention.action)}-${intervention.timestamp}`,
+    });
+    return intervention;
+  }
+
+  private summarize(sessionData: SessionData, now: number): SessionSummary {
+    const [stage, messageType] = getStage(sessionData);
+    const startTime = toTimestamp(
+      sessionData.receivedTimestamps?.stage0?.newSessionRequestMessageTimestamp,
+    );
+    return {
+      sessionID: sessionData.id,
+      role: (sessionData.role === Type.SERVER
+        ? "SERVER"
+        : "CLIENT") as SessionSummaryRoleEnum,
+      state: getStateName(sessionData.state) as SessionSummaryStateEnum,
+      stage:
+        `STAGE_${stage - SATPStage.SATP_STAGE_0}` as SessionSummaryStageEnum,
+      step: getMessageTypeName(messageType),
+      counterpartyGatewayID:
+        (sessionData.role === Type.SERVER
+          ? sessionData.senderGatewayOwnerId
+          : sessionData.receiverGatewayOwnerId) || undefined,
+      startTime,
+      lastMessageTime: toTimestamp(sessionData.lastMessageReceivedTimestamp),
+      age: startTime === undefined ? undefined : now - startTime,
+    };
+  }
+
+  // returns why the rollback failed, if it did
+  private async forceRollback(
+    fnTag: string,
+    session: SATPSession,
+    sessionData: SessionData,
+  ): Promise<string | undefined> {
+    if (!this.crashManager) {
+      throw new SessionInterventionError(
+        fnTag,
+        session.getSessionId(),
+        "crash recovery is not enabled on this gateway",
+      );
+    }
+    const rolledBack = await this.crashManager.initiateRollback(
+      session,
+      sessionData,
+      true,
+    );
+    return rolledBack ? undefined : "the rollback did not complete";
+  }
+
+  // returns why the retry failed, if it did
+  private async retryStage(
+    fnTag: string,
+    session: SATPSession,
+    sessionData: SessionData,
+  ): Promise<string | undefined> {
+    if (!session.hasClientSessionData()) {
+      throw new SessionInterventionError(
+        fnTag,
+        session.getSessionId(),
+        "only the client gateway of a session can retry it",
+      );
+    }
+    if (sessionData.state === State.COMPLETED) {
+      throw new SessionInterventionError(
+        fnTag,
+        session.getSessionId(),
+        "the session is completed",
+      );
+    }
+    const [stage] = getStage(sessionData);
+    const retryFrom = RETRY_FROM[stage];
+    if (retryFrom === undefined) {
+      throw new SessionInterventionError(
+        fnTag,
+        session.getSessionId(),
+        "the current stage cannot be retried",
+      );
+    }
+
+    sessionData.state = State.ONGOING;
+    try {
+      await this.manager.transfer(session, retryFrom);
+      return undefined;
+    } catch (error) {
+      this.log.error(
+        `${fnTag}, Retry of session ${session.getSessionId()} failed: ${error}`,
+      );
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  // the completed session data is logged as a finished step, so that it
+  // is what crash recovery restores after a restart
+  private async markResolved(
+    fnTag: string,
+    session: SATPSession,
+    sessionData: SessionData,
+  ): Promise<void> {
+    if (sessionData.state === State.COMPLETED) {
+      throw new SessionInterventionError(
+        fnTag,
+        session.getSessionId(),
+        "the session is already completed",
+      );
+    }
+    // both sides are closed when the gateway holds both of them
+    const resolved: SessionData[] = [];
+    if (session.hasClientSessionData()) {
+      resolved.push(session.getClientSessionData());
+    }
+    if (session.hasServerSessionData()) {
+      resolved.push(session.getServerSessionData());
+    }
+    for (const data of resolved) {
+      await this.manager.gatewayPersistence.persistLogEntry({
+        sessionID: session.getSessionId(),
+        type: RESOLUTION_LOG_TYPE,
+        operation: "done",
+        data: safeStableStringify({
+          ...data,
+          state: State.COMPLETED,
+        }) as string,
+        sequenceNumber: Number(data.lastSequenceNumber),
+        key: `${getSatpLogKey(session.getSessionId(), RESOLUTION_LOG_TYPE, "done")}-${data.role === Type.SERVER ? "server" : "client"}`,
+      });
+    }
+    // only once persisted, a failed write leaves the session as it was
+    for (const data of resolved) {
+      data.state = State.COMPLETED;
+    }
+  }
+}
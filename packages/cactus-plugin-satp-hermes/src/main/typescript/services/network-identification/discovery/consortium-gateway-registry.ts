@@ -0,0 +1,74 @@
+import type { ConsortiumDatabase } from "@hyperledger/cactus-core-api";
+import { GatewayDiscoveryError } from "../../../core/errors/satp-errors";
+import type { GatewayDescriptor } from "./gateway-descriptor";
+import { GatewayRegistryType, type IGatewayRegistry } from "./gateway-registry";
+import { HttpGatewayRegistry } from "./http-gateway-registry";
+
+export const SATP_HERMES_PACKAGE_NAME =
+  "@hyperledger/cactus-plugin-satp-hermes";
+
+export interface IConsortiumGatewayRegistryOptions {
+  // the database of the static consortium plugin
+  consortiumDatabase: ConsortiumDatabase;
+  // the consortium node hosting this gateway; descriptors are published there
+  nodeId: string;
+  // path of the directory service on each node API host
+  directoryPath?: string;
+  timeout?: number;
+}
+
+/**
+ * Registry backed by the static consortium: every consortium node running a
+ * SATP gateway plugin hosts a directory service, and lookups aggregate the
+ * descriptors of all of them.
+ */
+export class ConsortiumGatewayRegistry implements IGatewayRegistry {
+  public static readonly CLASS_NAME = "ConsortiumGatewayRegistry";
+  public readonly type = GatewayRegistryType.CONSORTIUM;
+  private readonly directories: Map<string, HttpGatewayRegistry> = new Map();
+
+  constructor(private readonly options: IConsortiumGatewayRegistryOptions) {
+    const { consortiumDatabase: db } = options;
+    const satpPluginIds = db.pluginInstance
+      .filter((plugin) => plugin.packageName === SATP_HERMES_PACKAGE_NAME)
+      .map((plugin) => plugin.id);
+
+    db.cactusNode
+      .filter((node) =>
+        node.pluginInstanceIds.some((id) => satpPluginIds.includes(id)),
+      )
+      .forEach((node) =>
+        this.directories.set(
+          node.id,
+          new HttpGatewayRegistry(
+            node.nodeApiHost + (options.directoryPath ?? "/discovery"),
+            options.timeout,
+          ),
+        ),
+      );
+  }
+
+  public async publish(descriptor: GatewayDescriptor): Promise<void> {
+    const fnTag = `${ConsortiumGatewayRegistry.CLASS_NAME}#publish()`;
+    const directory = this.directories.get(this.options.nodeId);
+    if (!directory) {
+      throw new GatewayDiscoveryError(
+        fnTag,
+        `node ${this.options.nodeId} does not run a SATP gateway in the consortium`,
+      );
+    }
+    await directory.publish(descriptor);
+  }
+
+  // unreachable nodes are skipped, so one node being down does not block discovery
+  public async list(): Promise<GatewayDescriptor[]> {
+    const results = await Promise.allSettled(
+      Array.from(this.directories.values()).map((directory) =>
+        directory.list(),
+      ),
+    );
+    return results.flatMap((result) =>
+      result.status === "fulfilled" ? result.value : [],
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { GatewayDiscoveryError } from "../../../core/errors/satp-errors";
+import type { GatewayDescriptor } from "./gateway-descriptor";
+import { GatewayRegistryType, type IGatewayRegistry } from "./gateway-registry";
+
+/**
+ * Registry kept in a JSON file holding an array of descriptors, e.g. on a
+ * volume shared by the gateways of a deployment.
+ */
+export class FileGatewayRegistry implements IGatewayRegistry {
+  public static readonly CLASS_NAME = "FileGatewayRegistry";
+  public readonly type = GatewayRegistryType.FILE;
+
+  constructor(private readonly filePath: string) {}
+
+  public async publish(descriptor: GatewayDescriptor): Promise<void> {
+    const descriptors = (await this.list()).filter(
+      (existing) => existing.id !== descriptor.id,
+    );
+    descriptors.push(descriptor);
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // write then rename, so readers never see a partial file
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(descriptors, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  public async list(): Promise<GatewayDescriptor[]> {
+    const fnTag = `${FileGatewayRegistry.CLASS_NAME}#list()`;
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw new GatewayDiscoveryError(
+        fnTag,
+        `cannot read ${this.filePath}`,
+        error,
+      );
+    }
+
+    const descriptors = JSON.parse(content);
+    if (!Array.isArray(descriptors)) {
+      throw new GatewayDiscoveryError(
+        fnTag,
+        `${this.filePath} does not contain an array of descriptors`,
+      );
+    }
+    return descriptors;
+  }
+}
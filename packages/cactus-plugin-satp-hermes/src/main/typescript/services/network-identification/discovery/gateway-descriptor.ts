@@ -0,0 +1,212 @@
+import type { JsObjectSigner } from "@hyperledger/cactus-common";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import type {
+  Address,
+  DraftVersions,
+  GatewayIdentity,
+} from "../../../core/types";
+import type { NetworkId } from "../../../public-api";
+import { bufArray2HexStr, sign } from "../../../gateway-utils";
+import { GatewayDescriptorError } from "../../../core/errors/satp-errors";
+
+export type GatewayEndpoints = {
+  address: Address;
+  gatewayServerPort?: number;
+  gatewayClientPort?: number;
+  gatewayOapiPort?: number;
+};
+
+/**
+ * A key rotation endorsed by the key that was replaced: `signature` is made
+ * with `previousPubKey` over {@link getKeyChangePayload}.
+ */
+export type GatewayKeyChange = {
+  previousPubKey: string;
+  pubKey: string;
+  signature: string;
+};
+
+/**
+ * What a gateway publishes to a registry so that other gateways can find it.
+ * The descriptor is signed with the gateway key listed in `pubKey`. When that
+ * key replaced the one other gateways trust, `keyChain` links the two.
+ */
+export type GatewayDescriptor = {
+  id: string;
+  name?: string;
+  pubKey: string;
+  networks: NetworkId[];
+  versions: DraftVersions[];
+  endpoints: GatewayEndpoints;
+  tlsCertFingerprint?: string;
+  // oldest rotation first
+  keyChain?: GatewayKeyChange[];
+  // ms since epoch
+  issuedAt: number;
+  expiresAt: number;
+  signature: string;
+};
+
+function getDescriptorPayload(descriptor: GatewayDescriptor): string {
+  return safeStableStringify({ ...descriptor, signature: "" }) as string;
+}
+
+export function getKeyChangePayload(
+  gatewayId: string,
+  previousPubKey: string,
+  pubKey: string,
+): string {
+  return safeStableStringify({ gatewayId, previousPubKey, pubKey }) as string;
+}
+
+// signs the rotation to `pubKey` with the key being replaced
+export function createKeyChange(
+  gatewayId: string,
+  previousSigner: JsObjectSigner,
+  previousPubKey: string,
+  pubKey: string,
+): GatewayKeyChange {
+  return {
+    previousPubKey,
+    pubKey,
+    signature: bufArray2HexStr(
+      sign(
+        previousSigner,
+        getKeyChangePayload(gatewayId, previousPubKey, pubKey),
+      ),
+    ),
+  };
+}
+
+export function createSignedDescriptor(
+  identity: GatewayIdentity,
+  signer: JsObjectSigner,
+  ttl: number,
+  keyChain?: GatewayKeyChange[],
+): GatewayDescriptor {
+  const fnTag = "#createSignedDescriptor()";
+  if (!identity.pubKey || !identity.address) {
+    throw new GatewayDescriptorError(
+      fnTag,
+      `gateway ${identity.id} has no public key or address`,
+    );
+  }
+
+  const issuedAt = Date.now();
+  const descriptor: GatewayDescriptor = {
+    id: identity.id,
+    name: identity.name,
+    pubKey: identity.pubKey,
+    networks: identity.connectedDLTs ?? [],
+    versions: identity.version,
+    endpoints: {
+      address: identity.address,
+      gatewayServerPort: identity.gatewayServerPort,
+      gatewayClientPort: identity.gatewayClientPort,
+      gatewayOapiPort: identity.gatewayOapiPort,
+    },
+    tlsCertFingerprint: identity.tlsCertFingerprint,
+    keyChain,
+    issuedAt,
+    expiresAt: issuedAt + ttl,
+    signature: "",
+  };
+  descriptor.signature = bufArray2HexStr(
+    sign(signer, getDescriptorPayload(descriptor)),
+  );
+  return descriptor;
+}
+
+/**
+ * Checks that the descriptor is well formed, not expired and signed by the
+ * key it announces. Throws a {@link GatewayDescriptorError} otherwise.
+ */
+export function verifyDescriptor(
+  descriptor: GatewayDescriptor,
+  signer: JsObjectSigner,
+  now = Date.now(),
+): void {
+  const fnTag = "#verifyDescriptor()";
+  if (
+    !descriptor ||
+    typeof descriptor.id !== "string" ||
+    typeof descriptor.pubKey !== "string" ||
+    typeof descriptor.signature !== "string" ||
+    !Array.isArray(descriptor.networks) ||
+    !descriptor.endpoints?.address
+  ) {
+    throw new GatewayDescriptorError(fnTag, "malformed descriptor");
+  }
+  if (descriptor.expiresAt <= now) {
+    throw new GatewayDescriptorError(
+      fnTag,
+      `descriptor of ${descriptor.id} expired`,
+    );
+  }
+  const verified = signer.verify(
+    getDescriptorPayload(descriptor),
+    new Uint8Array(Buffer.from(descriptor.signature, "hex")),
+    new Uint8Array(Buffer.from(descriptor.pubKey, "hex")),
+  );
+  if (!verified) {
+    throw new GatewayDescriptorError(
+      fnTag,
+      `signature of ${descriptor.id} does not match its public key`,
+    );
+  }
+}
+
+/**
+ * Checks that the key of the descriptor is `trustedPubKey`, or that it was
+ * reached from it by key changes each signed with the key it replaced.
+ * Throws a {@link GatewayDescriptorError} otherwise.
+ */
+export function verifyKeyChain(
+  descriptor: GatewayDescriptor,
+  trustedPubKey: string,
+  signer: JsObjectSigner,
+): void {
+  const fnTag = "#verifyKeyChain()";
+  let currentKey = trustedPubKey;
+  for (const change of descriptor.keyChain ?? []) {
+    // rotations older than the trusted key
+    if (change.previousPubKey !== currentKey) {
+      continue;
+    }
+    const verified = signer.verify(
+      getKeyChangePayload(descriptor.id, change.previousPubKey, change.pubKey),
+      new Uint8Array(Buffer.from(change.signature, "hex")),
+      new Uint8Array(Buffer.from(change.previousPubKey, "hex")),
+    );
+    if (!verified) {
+      throw new GatewayDescriptorError(
+        fnTag,
+        `key change of ${descriptor.id} is not signed by its previous key`,
+      );
+    }
+    currentKey = change.pubKey;
+  }
+  if (currentKey !== descriptor.pubKey) {
+    throw new GatewayDescriptorError(
+      fnTag,
+      `key of ${descriptor.id} is not endorsed by its trusted key`,
+    );
+  }
+}
+
+export function descriptorToIdentity(
+  descriptor: GatewayDescriptor,
+): GatewayIdentity {
+  return {
+    id: descriptor.id,
+    name: descriptor.name,
+    pubKey: descriptor.pubKey,
+    version: descriptor.versions,
+    connectedDLTs: descriptor.networks,
+    address: descriptor.endpoints.address,
+    gatewayServerPort: descriptor.endpoints.gatewayServerPort,
+    gatewayClientPort: descriptor.endpoints.gatewayClientPort,
+    gatewayOapiPort: descriptor.endpoints.gatewayOapiPort,
+    tlsCertFingerprint: descriptor.tlsCertFingerprint,
+  };
+}
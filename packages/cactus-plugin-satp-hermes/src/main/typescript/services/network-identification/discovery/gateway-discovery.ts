@@ -0,0 +1,206 @@
+import {
+  Checks,
+  type JsObjectSigner,
+  type LogLevelDesc,
+} from "@hyperledger/cactus-common";
+import { type SATPLogger as Logger } from "../../../core/satp-logger";
+import { SatpLoggerProvider as LoggerProvider } from "../../../core/satp-logger-provider";
+import type { GatewayIdentity } from "../../../core/types";
+import {
+  DEFAULT_DESCRIPTOR_TTL,
+  DEFAULT_DISCOVERY_CACHE_TTL,
+} from "../../../core/constants";
+import type { IGatewayRegistry } from "./gateway-registry";
+import {
+  createSignedDescriptor,
+  descriptorToIdentity,
+  type GatewayDescriptor,
+  type GatewayKeyChange,
+  verifyDescriptor,
+  verifyKeyChain,
+} from "./gateway-descriptor";
+import { GatewayDiscoveryError } from "../../../core/errors/satp-errors";
+import { MonitorService } from "../../monitoring/monitor";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+
+export interface IGatewayDiscoveryOptions {
+  logLevel?: LogLevelDesc;
+  registry: IGatewayRegistry;
+  signer: JsObjectSigner;
+  // how long descriptors fetched from the registry are reused (ms)
+  cacheTTL?: number;
+  // how long our own published descriptor is valid (ms)
+  descriptorTTL?: number;
+  // public key of each gateway whose descriptors are accepted, by gateway id
+  trustedGateways: Record<string, string>;
+  monitorService: MonitorService;
+}
+
+/**
+ * Publishes this gateway's descriptor to a registry and resolves
+ * counterparty gateways from it. Descriptors with an invalid signature or
+ * expired are ignored, as are descriptors of gateways without a trusted key.
+ * A gateway is pinned to its trusted key and can only move to a new key
+ * endorsed by the pinned one.
+ */
+export class GatewayDiscoveryService {
+  public static readonly CLASS_NAME = "GatewayDiscoveryService";
+  private readonly log: Logger;
+  private readonly registry: IGatewayRegistry;
+  private readonly signer: JsObjectSigner;
+  private readonly cacheTTL: number;
+  private readonly descriptorTTL: number;
+  private readonly pinnedKeys: Map<string, string>;
+  private readonly monitorService: MonitorService;
+  private cache?: { descriptors: GatewayDescriptor[]; expiresAt: number };
+
+  constructor(public readonly options: IGatewayDiscoveryOptions) {
+    const fnTag = `${GatewayDiscoveryService.CLASS_NAME}#constructor()`;
+    Checks.truthy(options, `${fnTag} arg options`);
+
+    this.monitorService = options.monitorService;
+    this.log = LoggerProvider.getOrCreate(
+      { level: options.logLevel, label: this.className },
+      this.monitorService,
+    );
+    this.registry = options.registry;
+    this.signer = options.signer;
+    this.cacheTTL = options.cacheTTL ?? DEFAULT_DISCOVERY_CACHE_TTL;
+    this.descriptorTTL = options.descriptorTTL ?? DEFAULT_DESCRIPTOR_TTL;
+    if (Object.keys(options.trustedGateways ?? {}).length === 0) {
+      throw new GatewayDiscoveryError(fnTag, "no trusted gateways configured");
+    }
+    this.pinnedKeys = new Map(Object.entries(options.trustedGateways));
+    this.log.info(
+      `Instantiated ${this.className} OK, registry: ${this.registry.type}`,
+    );
+  }
+
+  get className(): string {
+    return GatewayDiscoveryService.CLASS_NAME;
+  }
+
+  /**
+   * @param keyChain - The rotations from the key other gateways trust to the
+   * current key of `identity`.
+   */
+  public async publish(
+    identity: GatewayIdentity,
+    keyChain?: GatewayKeyChange[],
+  ): Promise<GatewayDescriptor> {
+    const fnTag = `${this.className}#publish()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        const descriptor = createSignedDescriptor(
+          identity,
+          this.signer,
+          this.descriptorTTL,
+          keyChain,
+        );
+        await this.registry.publish(descriptor);
+        this.log.info(`${fnTag}, Published descriptor of ${identity.id}`);
+        return descriptor;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  // returns the gateways that declare a connection to the given network
+  public async resolveByNetwork(networkId: string): Promise<GatewayIdentity[]> {
+    const fnTag = `${this.className}#resolveByNetwork()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        const descriptors = await this.getDescriptors();
+        return descriptors
+          .filter((descriptor) =>
+            descriptor.networks.some((network) => network.id === networkId),
+          )
+          .map(descriptorToIdentity);
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  public async resolveById(id: string): Promise<GatewayIdentity | undefined> {
+    const fnTag = `${this.className}#resolveById()`;
+    const { span, context: ctx } = this.monitorService.startSpan(fnTag);
+    return context.with(ctx, async () => {
+      try {
+        const descriptor = (await this.getDescriptors()).find(
+          (candidate) => candidate.id === id,
+        );
+        return descriptor ? descriptorToIdentity(descriptor) : undefined;
+      } catch (err) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+        span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  public invalidateCache(): void {
+    this.cache = undefined;
+  }
+
+  private async getDescriptors(): Promise<GatewayDescriptor[]> {
+    const fnTag = `${this.className}#getDescriptors()`;
+    const now = Date.now();
+    if (!this.cache || this.cache.expiresAt <= now) {
+      const latest = new Map<string, GatewayDescriptor>();
+      for (const descriptor of await this.registry.list()) {
+        try {
+          verifyDescriptor(descriptor, this.signer, now);
+        } catch (error) {
+          this.log.warn(`${fnTag}, Ignoring descriptor: ${error}`);
+          continue;
+        }
+        const pinnedKey = this.pinnedKeys.get(descriptor.id);
+        if (pinnedKey === undefined) {
+          this.log.warn(
+            `${fnTag}, Ignoring descriptor of ${descriptor.id}, which is not a trusted gateway`,
+          );
+          continue;
+        }
+        try {
+          verifyKeyChain(descriptor, pinnedKey, this.signer);
+        } catch (error) {
+          this.log.warn(`${fnTag}, Ignoring descriptor: ${error}`);
+          continue;
+        }
+        const known = latest.get(descriptor.id);
+        if (!known || known.issuedAt < descriptor.issuedAt) {
+          latest.set(descriptor.id, descriptor);
+        }
+      }
+      // older descriptors signed with a replaced key are rejected from now on
+      for (const descriptor of latest.values()) {
+        this.pinnedKeys.set(descriptor.id, descriptor.pubKey);
+      }
+      this.cache = {
+        descriptors: Array.from(latest.values()),
+        expiresAt: now + this.cacheTTL,
+      };
+      this.log.debug(
+        `${fnTag}, Cached ${this.cache.descriptors.length} descriptors`,
+      );
+    }
+    // descriptors may expire before the cache does
+    return this.cache.descriptors.filter(
+      (descriptor) => descriptor.expiresAt > now,
+    );
+  }
+}
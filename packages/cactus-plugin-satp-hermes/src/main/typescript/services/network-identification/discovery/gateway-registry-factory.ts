@@ -0,0 +1,43 @@
+import type { ConsortiumDatabase } from "@hyperledger/cactus-core-api";
+import { GatewayRegistryType, type IGatewayRegistry } from "./gateway-registry";
+import { FileGatewayRegistry } from "./file-gateway-registry";
+import { HttpGatewayRegistry } from "./http-gateway-registry";
+import { ConsortiumGatewayRegistry } from "./consortium-gateway-registry";
+
+export type GatewayRegistryConfig =
+  | { type: GatewayRegistryType.FILE; path: string }
+  | { type: GatewayRegistryType.HTTP; url: string; timeout?: number }
+  | {
+      type: GatewayRegistryType.CONSORTIUM;
+      consortiumDatabase: ConsortiumDatabase;
+      nodeId: string;
+      directoryPath?: string;
+      timeout?: number;
+    };
+
+export interface GatewayDiscoveryConfig {
+  registry: GatewayRegistryConfig;
+  // publish our own descriptor on startup, defaults to true
+  publish?: boolean;
+  cacheTTL?: number;
+  descriptorTTL?: number;
+  // public key of each gateway whose descriptors are accepted, by gateway id
+  trustedGateways: Record<string, string>;
+}
+
+export function createGatewayRegistry(
+  config: GatewayRegistryConfig,
+): IGatewayRegistry {
+  switch (config.type) {
+    case GatewayRegistryType.FILE:
+      return new FileGatewayRegistry(config.path);
+    case GatewayRegistryType.HTTP:
+      return new HttpGatewayRegistry(config.url, config.timeout);
+    case GatewayRegistryType.CONSORTIUM:
+      return new ConsortiumGatewayRegistry(config);
+    default:
+      throw new Error(
+        `Unsupported gateway registry: ${(config as { type: string }).type}`,
+      );
+  }
+}
@@ -0,0 +1,20 @@
+import type { GatewayDescriptor } from "./gateway-descriptor";
+
+/**
+ * Storage for gateway descriptors. Registries only store and return
+ * descriptors; verifying them is up to the {@link GatewayDiscoveryService}.
+ */
+export interface IGatewayRegistry {
+  readonly type: GatewayRegistryType;
+
+  // replaces any previous descriptor of the same gateway
+  publish(descriptor: GatewayDescriptor): Promise<void>;
+
+  list(): Promise<GatewayDescriptor[]>;
+}
+
+export enum GatewayRegistryType {
+  FILE = "file",
+  HTTP = "http",
+  CONSORTIUM = "consortium",
+}
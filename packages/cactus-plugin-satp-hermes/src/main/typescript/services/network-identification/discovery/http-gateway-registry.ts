@@ -0,0 +1,55 @@
+import axios, { type AxiosInstance } from "axios";
+import { GatewayDiscoveryError } from "../../../core/errors/satp-errors";
+import type { GatewayDescriptor } from "./gateway-descriptor";
+import { GatewayRegistryType, type IGatewayRegistry } from "./gateway-registry";
+
+/**
+ * Client of an HTTP directory service exposing:
+ * - `GET {baseUrl}/descriptors`, returning an array of descriptors;
+ * - `PUT {baseUrl}/descriptors/{gatewayId}`, storing a descriptor.
+ */
+export class HttpGatewayRegistry implements IGatewayRegistry {
+  public static readonly CLASS_NAME = "HttpGatewayRegistry";
+  public readonly type = GatewayRegistryType.HTTP;
+  private readonly client: AxiosInstance;
+
+  constructor(
+    public readonly baseUrl: string,
+    timeout = 5000,
+  ) {
+    this.client = axios.create({ baseURL: baseUrl, timeout });
+  }
+
+  public async publish(descriptor: GatewayDescriptor): Promise<void> {
+    const fnTag = `${HttpGatewayRegistry.CLASS_NAME}#publish()`;
+    try {
+      await this.client.put(
+        `/descriptors/${encodeURIComponent(descriptor.id)}`,
+        descriptor,
+      );
+    } catch (error) {
+      throw new GatewayDiscoveryError(
+        fnTag,
+        `cannot publish to ${this.baseUrl}`,
+        error,
+      );
+    }
+  }
+
+  public async list(): Promise<GatewayDescriptor[]> {
+    const fnTag = `${HttpGatewayRegistry.CLASS_NAME}#list()`;
+    try {
+      const response = await this.client.get("/descriptors");
+      if (!Array.isArray(response.data)) {
+        throw new Error("response is not an array of descriptors");
+      }
+      return response.data;
+    } catch (error) {
+      throw new GatewayDiscoveryError(
+        fnTag,
+        `cannot list descriptors of ${this.baseUrl}`,
+        error,
+      );
+    }
+  }
+}
@@ -1,16 +1,27 @@
 import { LedgerType } from "@hyperledger/cactus-core-api";
 import { GatewayIdentity } from "../../core/types";
 import { SATPLogger as Logger } from "../../core/satp-logger";
+import type { GatewayDiscoveryService } from "./discovery/gateway-discovery";
+import { GatewayDiscoveryError } from "../../core/errors/satp-errors";
 
 // gets an ID, queries a repository, returns a gateway identity
 export async function resolveGatewayID(
   logger: Logger,
   ID: string,
+  discovery?: GatewayDiscoveryService,
 ): Promise<GatewayIdentity> {
   const fnTag = `#resolveGatewayID()`;
   logger.trace(`Entering ${fnTag}`);
   logger.info(`Resolving gateway with ID: ${ID}`);
 
+  if (discovery) {
+    const identity = await discovery.resolveById(ID);
+    if (!identity) {
+      throw new GatewayDiscoveryError(fnTag, `gateway ${ID} is not registered`);
+    }
+    return identity;
+  }
+
   const mockGatewayIdentity: GatewayIdentity[] = [
     {
       id: "1",
@@ -0,0 +1,80 @@
+import {
+  type DeployContractInkRequestGasLimit,
+  type Web3SigningCredentialMnemonicString,
+  Web3SigningCredentialType,
+} from "@hyperledger/cactus-plugin-ledger-connector-polkadot";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import {
+  type PolkadotOptionsJSON,
+  isPolkadotOptionsJSON,
+} from "./validate-polkadot-options";
+import { isClaimFormat } from "./validate-bungee-options";
+import type { ClaimFormat } from "../../../../generated/proto/cacti/satp/v02/common/message_pb";
+import { KeyPairJSON } from "../validate-key-pair-json";
+import { NetworkOptionsJSON } from "../validate-cc-config";
+import { isNetworkId } from "../validate-satp-gateway-identity";
+
+export interface PolkadotConfigJSON extends NetworkOptionsJSON {
+  signingCredential: Web3SigningCredentialMnemonicString;
+  connectorOptions: PolkadotOptionsJSON;
+  leafId?: string;
+  keyPair?: KeyPairJSON;
+  claimFormats?: ClaimFormat[];
+  wrapperContractAddress?: string;
+  gasLimit?: DeployContractInkRequestGasLimit;
+}
+
+// Type guard for Web3SigningCredentialMnemonicString
+function isWeb3SigningCredentialMnemonicString(
+  obj: unknown,
+): obj is Web3SigningCredentialMnemonicString {
+  const objRecord = obj as Record<string, unknown>;
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    "type" in obj &&
+    objRecord.type === Web3SigningCredentialType.MnemonicString &&
+    "mnemonic" in obj &&
+    typeof objRecord.mnemonic === "string"
+  );
+}
+
+// Type guard for DeployContractInkRequestGasLimit
+function isGasLimit(obj: unknown): obj is DeployContractInkRequestGasLimit {
+  const objRecord = obj as Record<string, unknown>;
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    "refTime" in obj &&
+    typeof objRecord.refTime === "number" &&
+    "proofSize" in obj &&
+    typeof objRecord.proofSize === "number"
+  );
+}
+
+// Type guard for PolkadotConfigJSON
+export function isPolkadotConfigJSON(obj: unknown): obj is PolkadotConfigJSON {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const objRecord = obj as Record<string, unknown>;
+  return (
+    "networkIdentification" in obj &&
+    isNetworkId(objRecord.networkIdentification) &&
+    objRecord.networkIdentification.ledgerType === LedgerType.Polkadot &&
+    "signingCredential" in obj &&
+    isWeb3SigningCredentialMnemonicString(objRecord.signingCredential) &&
+    "connectorOptions" in obj &&
+    isPolkadotOptionsJSON(objRecord.connectorOptions) &&
+    (!("leafId" in obj) || typeof objRecord.leafId === "string") &&
+    (!("keyPair" in obj) || typeof objRecord.keyPair === "object") &&
+    ("claimFormats" in objRecord
+      ? Array.isArray(objRecord.claimFormats) &&
+        objRecord.claimFormats.every(isClaimFormat)
+      : true) &&
+    ("wrapperContractAddress" in objRecord
+      ? typeof objRecord.wrapperContractAddress === "string"
+      : true) &&
+    ("gasLimit" in objRecord ? isGasLimit(objRecord.gasLimit) : true)
+  );
+}
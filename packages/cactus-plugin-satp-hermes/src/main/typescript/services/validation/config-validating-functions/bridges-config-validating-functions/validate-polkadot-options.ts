@@ -0,0 +1,43 @@
+import { IPluginLedgerConnectorPolkadotOptions } from "@hyperledger/cactus-plugin-ledger-connector-polkadot";
+
+export interface PolkadotOptionsJSON {
+  instanceId: string;
+  wsProviderUrl: string;
+  autoConnect?: boolean;
+}
+
+// Type guard for PolkadotOptionsJSON
+export function isPolkadotOptionsJSON(
+  obj: unknown,
+): obj is PolkadotOptionsJSON {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const objRecord = obj as Record<string, unknown>;
+  return (
+    "wsProviderUrl" in obj &&
+    typeof objRecord.wsProviderUrl === "string" &&
+    ("autoConnect" in objRecord
+      ? typeof objRecord.autoConnect === "boolean"
+      : true)
+  );
+}
+
+// Function to create IPluginLedgerConnectorPolkadotOptions from PolkadotOptionsJSON
+export function createPolkadotOptions(
+  options: PolkadotOptionsJSON,
+): Partial<IPluginLedgerConnectorPolkadotOptions> {
+  if (!options) {
+    throw new TypeError(
+      "Invalid options in PolkadotConfig: " + JSON.stringify(options),
+    );
+  }
+
+  const polkadotOptions: Partial<IPluginLedgerConnectorPolkadotOptions> = {
+    instanceId: options.instanceId,
+    wsProviderUrl: options.wsProviderUrl,
+    autoConnect: options.autoConnect,
+  };
+
+  return polkadotOptions;
+}
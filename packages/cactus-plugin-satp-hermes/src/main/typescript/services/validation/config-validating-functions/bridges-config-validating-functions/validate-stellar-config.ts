@@ -0,0 +1,65 @@
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import {
+  type StellarOptionsJSON,
+  isStellarOptionsJSON,
+} from "./validate-stellar-options";
+import { isClaimFormat } from "./validate-bungee-options";
+import type { ClaimFormat } from "../../../../generated/proto/cacti/satp/v02/common/message_pb";
+import type { StellarSigningCredential } from "../../../../cross-chain-mechanisms/bridge/leafs/stellar-leaf";
+import { KeyPairJSON } from "../validate-key-pair-json";
+import { NetworkOptionsJSON } from "../validate-cc-config";
+import { isNetworkId } from "../validate-satp-gateway-identity";
+
+export interface StellarConfigJSON extends NetworkOptionsJSON {
+  signingCredential: StellarSigningCredential;
+  connectorOptions: StellarOptionsJSON;
+  leafId?: string;
+  keyPair?: KeyPairJSON;
+  claimFormats?: ClaimFormat[];
+  wrapperContractAddress?: string;
+  fee?: number;
+  timeout?: number;
+}
+
+// Type guard for StellarSigningCredential
+function isStellarSigningCredential(
+  obj: unknown,
+): obj is StellarSigningCredential {
+  const objRecord = obj as Record<string, unknown>;
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    "publicKey" in obj &&
+    typeof objRecord.publicKey === "string" &&
+    "secretKey" in obj &&
+    typeof objRecord.secretKey === "string"
+  );
+}
+
+// Type guard for StellarConfigJSON
+export function isStellarConfigJSON(obj: unknown): obj is StellarConfigJSON {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const objRecord = obj as Record<string, unknown>;
+  return (
+    "networkIdentification" in obj &&
+    isNetworkId(objRecord.networkIdentification) &&
+    objRecord.networkIdentification.ledgerType === LedgerType.Stellar &&
+    "signingCredential" in obj &&
+    isStellarSigningCredential(objRecord.signingCredential) &&
+    "connectorOptions" in obj &&
+    isStellarOptionsJSON(objRecord.connectorOptions) &&
+    (!("leafId" in obj) || typeof objRecord.leafId === "string") &&
+    (!("keyPair" in obj) || typeof objRecord.keyPair === "object") &&
+    ("claimFormats" in objRecord
+      ? Array.isArray(objRecord.claimFormats) &&
+        objRecord.claimFormats.every(isClaimFormat)
+      : true) &&
+    ("wrapperContractAddress" in objRecord
+      ? typeof objRecord.wrapperContractAddress === "string"
+      : true) &&
+    ("fee" in objRecord ? typeof objRecord.fee === "number" : true) &&
+    ("timeout" in objRecord ? typeof objRecord.timeout === "number" : true)
+  );
+}
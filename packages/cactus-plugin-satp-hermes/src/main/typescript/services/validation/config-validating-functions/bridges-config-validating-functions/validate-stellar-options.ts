@@ -0,0 +1,67 @@
+import { IPluginLedgerConnectorStellarOptions } from "@hyperledger/cacti-plugin-ledger-connector-stellar";
+import { Network } from "stellar-plus/lib/stellar-plus";
+
+export interface StellarNetworkConfigJSON {
+  networkPassphrase: string;
+  rpcUrl?: string;
+  horizonUrl?: string;
+  friendbotUrl?: string;
+  allowHttp?: boolean;
+}
+
+export interface StellarOptionsJSON {
+  instanceId: string;
+  networkConfig: StellarNetworkConfigJSON;
+}
+
+// Type guard for StellarNetworkConfigJSON
+function isStellarNetworkConfigJSON(
+  obj: unknown,
+): obj is StellarNetworkConfigJSON {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const objRecord = obj as Record<string, unknown>;
+  return (
+    "networkPassphrase" in obj &&
+    typeof objRecord.networkPassphrase === "string" &&
+    ("rpcUrl" in objRecord ? typeof objRecord.rpcUrl === "string" : true) &&
+    ("horizonUrl" in objRecord
+      ? typeof objRecord.horizonUrl === "string"
+      : true) &&
+    ("friendbotUrl" in objRecord
+      ? typeof objRecord.friendbotUrl === "string"
+      : true) &&
+    ("allowHttp" in objRecord ? typeof objRecord.allowHttp === "boolean" : true)
+  );
+}
+
+// Type guard for StellarOptionsJSON
+export function isStellarOptionsJSON(obj: unknown): obj is StellarOptionsJSON {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const objRecord = obj as Record<string, unknown>;
+  return (
+    "networkConfig" in obj &&
+    isStellarNetworkConfigJSON(objRecord.networkConfig)
+  );
+}
+
+// Function to create IPluginLedgerConnectorStellarOptions from StellarOptionsJSON
+export function createStellarOptions(
+  options: StellarOptionsJSON,
+): Partial<IPluginLedgerConnectorStellarOptions> {
+  if (!options) {
+    throw new TypeError(
+      "Invalid options in StellarConfig: " + JSON.stringify(options),
+    );
+  }
+
+  const stellarOptions: Partial<IPluginLedgerConnectorStellarOptions> = {
+    instanceId: options.instanceId,
+    networkConfig: Network.CustomNet(options.networkConfig),
+  };
+
+  return stellarOptions;
+}
@@ -6,11 +6,17 @@ import { isBesuConfigJSON } from "./bridges-config-validating-functions/validate
 import { createBesuOptions } from "./bridges-config-validating-functions/validate-besu-options";
 import { isEthereumConfigJSON } from "./bridges-config-validating-functions/validate-ethereum-config";
 import { createEthereumOptions } from "./bridges-config-validating-functions/validate-ethereum-options";
+import { isPolkadotConfigJSON } from "./bridges-config-validating-functions/validate-polkadot-config";
+import { createPolkadotOptions } from "./bridges-config-validating-functions/validate-polkadot-options";
+import { isStellarConfigJSON } from "./bridges-config-validating-functions/validate-stellar-config";
+import { createStellarOptions } from "./bridges-config-validating-functions/validate-stellar-options";
 import { ICrossChainMechanismsOptions } from "../../../cross-chain-mechanisms/satp-cc-manager";
 import { INetworkOptions } from "../../../cross-chain-mechanisms/bridge/bridge-types";
 import { IFabricLeafNeworkOptions } from "../../../cross-chain-mechanisms/bridge/leafs/fabric-leaf";
 import { IBesuLeafNeworkOptions } from "../../../cross-chain-mechanisms/bridge/leafs/besu-leaf";
 import { IEthereumLeafNeworkOptions } from "../../../cross-chain-mechanisms/bridge/leafs/ethereum-leaf";
+import { IPolkadotLeafNeworkOptions } from "../../../cross-chain-mechanisms/bridge/leafs/polkadot-leaf";
+import { IStellarLeafNeworkOptions } from "../../../cross-chain-mechanisms/bridge/leafs/stellar-leaf";
 import {
   DeploymentTargetOrganization,
   FileBase64,
@@ -52,7 +58,9 @@ function NetworkOptionsJSON(
     isNetworkId(objRecord.networkIdentification) &&
     (isFabricConfigJSON(objRecord, log) ||
       isBesuConfigJSON(objRecord) ||
-      isEthereumConfigJSON(objRecord))
+      isEthereumConfigJSON(objRecord) ||
+      isPolkadotConfigJSON(objRecord) ||
+      isStellarConfigJSON(objRecord))
   );
 }
 
@@ -263,6 +271,49 @@ async function createBridgeConfig(
       } as Partial<IEthereumLeafNeworkOptions> & INetworkOptions;
 
       bridgesConfigParsed.push(ethereumConfig);
+    } else if (isPolkadotConfigJSON(config)) {
+      const polkadotOptions = createPolkadotOptions(config.connectorOptions);
+
+      const polkadotConfig = {
+        networkIdentification: config.networkIdentification,
+        signingCredential: config.signingCredential,
+        connectorOptions: polkadotOptions,
+        leafId: config.leafId,
+        keyPair:
+          config.keyPair === undefined
+            ? undefined
+            : {
+                publicKey: Buffer.from(config.keyPair.publicKey, "hex"),
+                privateKey: Buffer.from(config.keyPair.privateKey, "hex"),
+              },
+        claimFormats: config.claimFormats,
+        wrapperContractAddress: config.wrapperContractAddress,
+        gasLimit: config.gasLimit,
+      } as Partial<IPolkadotLeafNeworkOptions> & INetworkOptions;
+
+      bridgesConfigParsed.push(polkadotConfig);
+    } else if (isStellarConfigJSON(config)) {
+      const stellarOptions = createStellarOptions(config.connectorOptions);
+
+      const stellarConfig = {
+        networkIdentification: config.networkIdentification,
+        signingCredential: config.signingCredential,
+        connectorOptions: stellarOptions,
+        leafId: config.leafId,
+        keyPair:
+          config.keyPair === undefined
+            ? undefined
+            : {
+                publicKey: Buffer.from(config.keyPair.publicKey, "hex"),
+                privateKey: Buffer.from(config.keyPair.privateKey, "hex"),
+              },
+        claimFormats: config.claimFormats,
+        wrapperContractAddress: config.wrapperContractAddress,
+        fee: config.fee,
+        timeout: config.timeout,
+      } as Partial<IStellarLeafNeworkOptions> & INetworkOptions;
+
+      bridgesConfigParsed.push(stellarConfig);
     }
   }
   return bridgesConfigParsed;
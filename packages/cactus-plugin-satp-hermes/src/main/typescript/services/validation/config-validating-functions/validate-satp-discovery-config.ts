@@ -0,0 +1,89 @@
+import { GatewayRegistryType } from "../../network-identification/discovery/gateway-registry";
+import type {
+  GatewayDiscoveryConfig,
+  GatewayRegistryConfig,
+} from "../../network-identification/discovery/gateway-registry-factory";
+
+const isOptionalNumber = (value: unknown) =>
+  value === undefined || (typeof value === "number" && value >= 0);
+
+// Type guard for the GatewayRegistryConfig
+export function isGatewayRegistryConfig(
+  obj: unknown,
+): obj is GatewayRegistryConfig {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const registry = obj as Record<string, unknown>;
+  switch (registry.type) {
+    case GatewayRegistryType.FILE:
+      return typeof registry.path === "string";
+    case GatewayRegistryType.HTTP:
+      return (
+        typeof registry.url === "string" && isOptionalNumber(registry.timeout)
+      );
+    case GatewayRegistryType.CONSORTIUM:
+      return (
+        typeof registry.consortiumDatabase === "object" &&
+        registry.consortiumDatabase !== null &&
+        typeof registry.nodeId === "string" &&
+        (registry.directoryPath === undefined ||
+          typeof registry.directoryPath === "string") &&
+        isOptionalNumber(registry.timeout)
+      );
+    default:
+      return false;
+  }
+}
+
+// Type guard for the GatewayDiscoveryConfig
+export function isGatewayDiscoveryConfig(
+  obj: unknown,
+): obj is GatewayDiscoveryConfig {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const discovery = obj as Record<string, unknown>;
+  return (
+    isGatewayRegistryConfig(discovery.registry) &&
+    (discovery.publish === undefined ||
+      typeof discovery.publish === "boolean") &&
+    isOptionalNumber(discovery.cacheTTL) &&
+    isOptionalNumber(discovery.descriptorTTL) &&
+    isTrustedGateways(discovery.trustedGateways)
+  );
+}
+
+// at least one gateway id mapped to its public key
+export function isTrustedGateways(obj: unknown): obj is Record<string, string> {
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    !Array.isArray(obj) &&
+    Object.keys(obj).length > 0 &&
+    Object.values(obj).every((key) => typeof key === "string" && key !== "")
+  );
+}
+
+export function validateSatpDiscoveryConfig(opts: {
+  readonly configValue: unknown;
+}): GatewayDiscoveryConfig | undefined {
+  if (!opts || !opts.configValue) {
+    return;
+  }
+
+  const trustedGateways = (opts.configValue as Record<string, unknown>)
+    .trustedGateways;
+  if (!isTrustedGateways(trustedGateways)) {
+    throw new TypeError(
+      `Invalid config.discovery.trustedGateways: ${JSON.stringify(trustedGateways)}. Expected the public key of at least one gateway, by gateway id`,
+    );
+  }
+
+  if (!isGatewayDiscoveryConfig(opts.configValue)) {
+    throw new TypeError(
+      `Invalid config.discovery: ${JSON.stringify(opts.configValue)}. Expected a 'registry' of type ${Object.values(GatewayRegistryType).join(", ")}`,
+    );
+  }
+  return opts.configValue;
+}
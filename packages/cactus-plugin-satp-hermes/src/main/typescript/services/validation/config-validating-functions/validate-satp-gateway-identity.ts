@@ -97,7 +97,10 @@ export function isGatewayIdentity(obj: unknown): obj is GatewayIdentity {
       typeof (obj as Record<string, unknown>).gatewayOapiPort === "number") &&
     (!("gatewayUIPort" in obj) ||
       typeof (obj as Record<string, unknown>).gatewayUIPort === "number") &&
-    (!("address" in obj) || isAddress((obj as Record<string, unknown>).address))
+    (!("address" in obj) ||
+      isAddress((obj as Record<string, unknown>).address)) &&
+    (!("tlsCertFingerprint" in obj) ||
+      typeof (obj as Record<string, unknown>).tlsCertFingerprint === "string")
   );
 }
 
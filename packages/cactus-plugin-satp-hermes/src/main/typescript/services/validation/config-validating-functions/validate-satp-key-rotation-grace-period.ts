@@ -0,0 +1,18 @@
+export function validateSatpKeyRotationGracePeriod(opts: {
+  readonly configValue: unknown;
+}): number | undefined {
+  if (!opts || opts.configValue === undefined) {
+    return;
+  }
+
+  if (
+    typeof opts.configValue !== "number" ||
+    !Number.isInteger(opts.configValue) ||
+    opts.configValue < 0
+  ) {
+    throw new TypeError(
+      `Invalid config.keyRotationGracePeriod: ${opts.configValue}. Expected a non-negative integer (milliseconds)`,
+    );
+  }
+  return opts.configValue;
+}
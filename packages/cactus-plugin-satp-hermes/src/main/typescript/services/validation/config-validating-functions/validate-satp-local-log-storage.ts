@@ -0,0 +1,37 @@
+import {
+  LocalLogStorageType,
+  type LocalLogStorageConfig,
+} from "../../../database/repository/local-log-repository-factory";
+
+// Type guard for the LocalLogStorageConfig
+export function isLocalLogStorageConfig(
+  obj: unknown,
+): obj is LocalLogStorageConfig {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const storage = obj as Record<string, unknown>;
+  switch (storage.type) {
+    case LocalLogStorageType.KNEX:
+      return true;
+    case LocalLogStorageType.HASH_CHAIN:
+      return typeof storage.path === "string" && storage.path.length > 0;
+    default:
+      return false;
+  }
+}
+
+export function validateSatpLocalLogStorage(opts: {
+  readonly configValue: unknown;
+}): LocalLogStorageConfig | undefined {
+  if (!opts || !opts.configValue) {
+    return;
+  }
+
+  if (!isLocalLogStorageConfig(opts.configValue)) {
+    throw new TypeError(
+      `Invalid config.localLogStorage: ${JSON.stringify(opts.configValue)}. Expected a 'type' of ${Object.values(LocalLogStorageType).join(", ")}, and a 'path' for ${LocalLogStorageType.HASH_CHAIN}`,
+    );
+  }
+  return opts.configValue;
+}
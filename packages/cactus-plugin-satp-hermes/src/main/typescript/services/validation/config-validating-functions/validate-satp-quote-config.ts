@@ -0,0 +1,56 @@
+import type {
+  GatewayFeePolicy,
+  GatewayQuoteConfig,
+} from "../../gateway/quote-manager";
+
+// amounts are strings holding a non-negative integer, as they are parsed with BigInt
+const isOptionalAmount = (value: unknown) =>
+  value === undefined || (typeof value === "string" && /^\d+$/.test(value));
+
+// Type guard for the GatewayFeePolicy
+export function isGatewayFeePolicy(obj: unknown): obj is GatewayFeePolicy {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const policy = obj as Record<string, unknown>;
+  return (
+    isOptionalAmount(policy.flatFee) &&
+    (policy.basisPoints === undefined ||
+      (typeof policy.basisPoints === "number" &&
+        Number.isInteger(policy.basisPoints) &&
+        policy.basisPoints >= 0 &&
+        policy.basisPoints <= 10000)) &&
+    isOptionalAmount(policy.minimumFee) &&
+    isOptionalAmount(policy.maximumFee)
+  );
+}
+
+// Type guard for the GatewayQuoteConfig
+export function isGatewayQuoteConfig(obj: unknown): obj is GatewayQuoteConfig {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const quotes = obj as Record<string, unknown>;
+  return (
+    (quotes.feePolicy === undefined || isGatewayFeePolicy(quotes.feePolicy)) &&
+    (quotes.quoteTTL === undefined ||
+      (typeof quotes.quoteTTL === "number" && quotes.quoteTTL > 0)) &&
+    (quotes.requireQuote === undefined ||
+      typeof quotes.requireQuote === "boolean")
+  );
+}
+
+export function validateSatpQuoteConfig(opts: {
+  readonly configValue: unknown;
+}): GatewayQuoteConfig | undefined {
+  if (!opts || !opts.configValue) {
+    return;
+  }
+
+  if (!isGatewayQuoteConfig(opts.configValue)) {
+    throw new TypeError(
+      `Invalid config.quotes: ${JSON.stringify(opts.configValue)}. Expected a positive 'quoteTTL' and a 'feePolicy' with integer amounts and 'basisPoints' between 0 and 10000`,
+    );
+  }
+  return opts.configValue;
+}
@@ -0,0 +1,33 @@
+import type { GatewayTLSConfig } from "../../../core/types";
+
+const isPEM = (value: unknown): value is string =>
+  typeof value === "string" && value.includes("-----BEGIN ");
+
+// Type guard for the GatewayTLSConfig
+export function isGatewayTLSConfig(obj: unknown): obj is GatewayTLSConfig {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+  const tls = obj as Record<string, unknown>;
+  return (
+    isPEM(tls.cert) &&
+    isPEM(tls.key) &&
+    (isPEM(tls.ca) ||
+      (Array.isArray(tls.ca) && tls.ca.length > 0 && tls.ca.every(isPEM)))
+  );
+}
+
+export function validateSatpTLSConfig(opts: {
+  readonly configValue: unknown;
+}): GatewayTLSConfig | undefined {
+  if (!opts || !opts.configValue) {
+    return;
+  }
+
+  if (!isGatewayTLSConfig(opts.configValue)) {
+    throw new TypeError(
+      `Invalid config.tls. Expected an object with PEM encoded 'cert', 'key' and 'ca' fields.`,
+    );
+  }
+  return opts.configValue;
+}
@@ -27,6 +27,7 @@ export enum SATPHandlerType {
   STAGE2 = "stage-2-handler",
   STAGE3 = "stage-3-handler",
   CRASH = "crash-handler",
+  KEY_ROTATION = "key-rotation-handler",
 }
 
 export enum Stage {
@@ -71,6 +72,8 @@ export interface SATPHandlerOptions {
   clientService: SATPService;
   bridgeClient: BridgeManagerClientInterface;
   pubkeys: Map<string, string>;
+  // looks up the key of a gateway missing from `pubkeys`, e.g. via discovery
+  resolvePubKey?: (gatewayId: string) => Promise<string | undefined>;
   gatewayId: string;
   loggerOptions: ILoggerOptions;
   stage: string;
@@ -0,0 +1,153 @@
+#![cfg_attr(not(feature = "std"), no_std, no_main)]
+
+//! Fungible token used by the tests of the Polkadot leaf, the ink! version of
+//! the `SATPTokenContract`. Accounts with the bridge role can mint and burn.
+
+#[ink::contract]
+mod satp_token_contract {
+    use ink::storage::Mapping;
+
+    #[derive(Debug, PartialEq, Eq, scale::Encode, scale::Decode)]
+    #[cfg_attr(feature = "std", derive(scale_info::TypeInfo))]
+    pub enum Error {
+        InsufficientBalance,
+        InsufficientAllowance,
+        MissingOwnerRole,
+        MissingBridgeRole,
+    }
+
+    pub type Result<T> = core::result::Result<T, Error>;
+
+    #[ink(storage)]
+    pub struct SatpTokenContract {
+        owner: AccountId,
+        total_supply: Balance,
+        balances: Mapping<AccountId, Balance>,
+        allowances: Mapping<(AccountId, AccountId), Balance>,
+        bridges: Mapping<AccountId, ()>,
+    }
+
+    impl SatpTokenContract {
+        /// The caller becomes the owner and gets the bridge role.
+        #[ink(constructor)]
+        pub fn new() -> Self {
+            let caller = Self::env().caller();
+            let mut bridges = Mapping::default();
+            bridges.insert(caller, &());
+            Self {
+                owner: caller,
+                total_supply: 0,
+                balances: Mapping::default(),
+                allowances: Mapping::default(),
+                bridges,
+            }
+        }
+
+        #[ink(message)]
+        pub fn total_supply(&self) -> Balance {
+            self.total_supply
+        }
+
+        #[ink(message)]
+        pub fn balance_of(&self, owner: AccountId) -> Balance {
+            self.balances.get(owner).unwrap_or_default()
+        }
+
+        #[ink(message)]
+        pub fn allowance(&self, owner: AccountId, spender: AccountId) -> Balance {
+            self.allowances.get((owner, spender)).unwrap_or_default()
+        }
+
+        #[ink(message)]
+        pub fn transfer(&mut self, to: AccountId, value: Balance) -> Result<()> {
+            let from = self.env().caller();
+            self.transfer_from_to(from, to, value)
+        }
+
+        #[ink(message)]
+        pub fn approve(&mut self, spender: AccountId, value: Balance) -> Result<()> {
+            let owner = self.env().caller();
+            self.allowances.insert((owner, spender), &value);
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn transfer_from(
+            &mut self,
+            from: AccountId,
+            to: AccountId,
+            value: Balance,
+        ) -> Result<()> {
+            let caller = self.env().caller();
+            let allowance = self.allowance(from, caller);
+            if allowance < value {
+                return Err(Error::InsufficientAllowance);
+            }
+            self.transfer_from_to(from, to, value)?;
+            self.allowances.insert((from, caller), &(allowance - value));
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn mint(&mut self, to: AccountId, value: Balance) -> Result<()> {
+            self.has_bridge_role(self.env().caller())?;
+            let balance = self.balance_of(to);
+            self.balances.insert(to, &(balance + value));
+            self.total_supply += value;
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn burn(&mut self, from: AccountId, value: Balance) -> Result<()> {
+            self.has_bridge_role(self.env().caller())?;
+            let balance = self.balance_of(from);
+            if balance < value {
+                return Err(Error::InsufficientBalance);
+            }
+            self.balances.insert(from, &(balance - value));
+            self.total_supply -= value;
+            Ok(())
+        }
+
+        #[ink(message)]
+        pub fn grant_bridge_role(&mut self, account: AccountId) -> Result<()> {
+            if self.env().caller() != self.owner {
+                return Err(Error::MissingOwnerRole);
+            }
+            self.bridges.insert(account, &());
+            Ok(())
+        }
+
+        /// Fails when the account does not have the bridge role, so it can be
+        /// used as the `checkPermission` interaction of an ontology.
+        #[ink(message)]
+        pub fn has_bridge_role(&self, account: AccountId) -> Result<()> {
+            if !self.bridges.contains(account) {
+                return Err(Error::MissingBridgeRole);
+            }
+            Ok(())
+        }
+
+        fn transfer_from_to(
+            &mut self,
+            from: AccountId,
+            to: AccountId,
+            value: Balance,
+        ) -> Result<()> {
+            let from_balance = self.balance_of(from);
+            if from_balance < value {
+                return Err(Error::InsufficientBalance);
+            }
+            self.balances.insert(from, &(from_balance - value));
+            let to_balance = self.balance_of(to);
+            self.balances.insert(to, &(to_balance + value));
+            Ok(())
+        }
+    }
+
+    impl Default for SatpTokenContract {
+        fn default() -> Self {
+            Self::new()
+        }
+    }
+}
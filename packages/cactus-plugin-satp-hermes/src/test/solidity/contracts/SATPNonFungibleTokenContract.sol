@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: GPL-3.0
+
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
+
+error noNonFungiblePermission(address adr);
+
+/**
+ * @title SATPNonFungibleTokenContract
+ * The SATPNonFungibleTokenContract is a example costum ERC721 token contract.
+ */
+contract SATPNonFungibleTokenContract is AccessControl, ERC721URIStorage {
+
+    bytes32 public constant BRIDGE_ROLE = keccak256("BRIDGE_ROLE");
+    bytes32 public constant OWNER_ROLE = keccak256("OWNER_ROLE");
+
+    constructor(address _owner) ERC721("SATPNonFungibleToken", "SATPNFT") {
+        _grantRole(OWNER_ROLE, _owner);
+        _grantRole(BRIDGE_ROLE, _owner);
+    }
+
+    /**
+     * @notice Mint creates the token with the given id and metadata URI and assigns it to the account.
+     * @param account The account that will receive the minted token.
+     * @param tokenId The id of the token to mint.
+     * @param uri The metadata URI of the token.
+     * @return success A boolean that indicates if the operation was successful.
+     */
+    function mint(address account, uint256 tokenId, string memory uri) external onlyRole(BRIDGE_ROLE) returns (bool success) {
+        _mint(account, tokenId);
+        _setTokenURI(tokenId, uri);
+        return true;
+    }
+
+    /**
+     * @notice Burn destroys the token with the given id.
+     * @param tokenId The id of the token to burn.
+     * @return success A boolean that indicates if the operation was successful.
+     */
+    function burn(uint256 tokenId) external onlyRole(BRIDGE_ROLE) returns (bool success) {
+        _burn(tokenId);
+        return true;
+    }
+
+    /**
+     * @notice Grants the bridge role to the given account.
+     * @param account The account that will receive the role.
+     * @return success A boolean that indicates if the operation was successful.
+     */
+    function grantBridgeRole(address account) external onlyRole(OWNER_ROLE) returns (bool success) {
+        _grantRole(BRIDGE_ROLE, account);
+        return true;
+    }
+
+    /**
+     * @notice Checks if the given account has the bridge role.
+     * @param account The account to check.
+     * @return success A boolean that indicates if the account has the role.
+     */
+    function hasBridgeRole(address account) external view returns (bool success) {
+        if(hasRole(BRIDGE_ROLE, account)){
+            return true;
+        }
+        revert noNonFungiblePermission(account);
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override(AccessControl, ERC721URIStorage) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+}
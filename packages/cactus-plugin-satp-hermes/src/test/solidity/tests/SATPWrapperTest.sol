@@ -5,12 +5,15 @@ pragma solidity 0.8.20;
 
 import "../../../main/solidity/contracts/SATPWrapperContract.sol";
 import { SATPTokenContract } from "../contracts/SATPTokenContract.sol";
+import { SATPNonFungibleTokenContract } from "../contracts/SATPNonFungibleTokenContract.sol";
 import "forge-std/Test.sol";
 
 contract SATPWrapperTest is Test{
 
     SATPTokenContract contract1;
 
+    SATPNonFungibleTokenContract nonFungibleContract;
+
     InteractionSignature[] signatures;
     
     SATPWrapperContract wrapperContract;
@@ -35,6 +38,8 @@ contract SATPWrapperTest is Test{
 
         contract1 = new SATPTokenContract(address(wrapperContract));
 
+        nonFungibleContract = new SATPNonFungibleTokenContract(address(wrapperContract));
+
         lockInteractions.push("transfer(address,address,uint256)");
     
         lockVariables.push([VarType.OWNER, VarType.BRIDGE, VarType.AMOUNT]);
@@ -83,7 +88,7 @@ contract SATPWrapperTest is Test{
     }
 
     function testWrap() public {
-        wrapperContract.wrap(contract1.name(), address(contract1), TokenType.OTHER, contract1.name(), "refID", address(this), signatures);
+        wrapperContract.wrap(contract1.name(), address(contract1), TokenType.NONSTANDARD_FUNGIBLE, contract1.name(), "refID", address(this), signatures);
 
         Token memory tokenReceived = wrapperContract.getToken(contract1.name());
 
@@ -94,9 +99,9 @@ contract SATPWrapperTest is Test{
 
     function testWrapTokenAlreadyWrapped() public {
 
-        wrapperContract.wrap(contract1.name(), address(contract1), TokenType.OTHER, contract1.name(), "refID", address(this), signatures);
+        wrapperContract.wrap(contract1.name(), address(contract1), TokenType.NONSTANDARD_FUNGIBLE, contract1.name(), "refID", address(this), signatures);
 
-        try wrapperContract.wrap(contract1.name(), address(contract1), TokenType.OTHER, contract1.name(), "refID", address(this), signatures) returns (bool s) {
+        try wrapperContract.wrap(contract1.name(), address(contract1), TokenType.NONSTANDARD_FUNGIBLE, contract1.name(), "refID", address(this), signatures) returns (bool s) {
             require(!s, "Expected an error");
         }
         catch Error(string memory) {
@@ -106,7 +111,7 @@ contract SATPWrapperTest is Test{
     }
 
     function testUnwrap() public {
-        wrapperContract.wrap(contract1.name(), address(contract1), TokenType.OTHER, contract1.name(), "refID", address(this), signatures);
+        wrapperContract.wrap(contract1.name(), address(contract1), TokenType.NONSTANDARD_FUNGIBLE, contract1.name(), "refID", address(this), signatures);
 
         wrapperContract.unwrap(contract1.name());
 
@@ -121,7 +126,7 @@ contract SATPWrapperTest is Test{
     // }
 
     function testUnwrapATokenWithValueLocked() public {
-        wrapperContract.wrap(contract1.name(), address(contract1), TokenType.OTHER, contract1.name(), "refID", address(this), signatures);
+        wrapperContract.wrap(contract1.name(), address(contract1), TokenType.NONSTANDARD_FUNGIBLE, contract1.name(), "refID", address(this), signatures);
 
         wrapperContract.mint(contract1.name(), 10);
 
@@ -135,7 +140,7 @@ contract SATPWrapperTest is Test{
     }
 
     // function testMint() public {
-    //     wrapperContract.wrap(contract1.name(), address(contract1), TokenType.OTHER, contract1.name(), "refID", address(this), signatures);
+    //     wrapperContract.wrap(contract1.name(), address(contract1), TokenType.NONSTANDARD_FUNGIBLE, contract1.name(), "refID", address(this), signatures);
 
     //     wrapperContract.mint(contract1.name(), 10);
         
@@ -151,5 +156,80 @@ contract SATPWrapperTest is Test{
         catch (bytes memory /*lowLevelData*/) {
         }
     }
+
+    function nonFungibleSignatures() internal pure returns (InteractionSignature[] memory nonFungible) {
+        nonFungible = new InteractionSignature[](3);
+
+        string[] memory mintFunctions = new string[](1);
+        mintFunctions[0] = "mint(address,uint256,string)";
+        VarType[][] memory mintVars = new VarType[][](1);
+        mintVars[0] = new VarType[](3);
+        mintVars[0][0] = VarType.BRIDGE;
+        mintVars[0][1] = VarType.UNIQUEDESCRIPTOR;
+        mintVars[0][2] = VarType.METADATAURI;
+        nonFungible[0] = InteractionSignature(InteractionType.MINT, mintFunctions, mintVars, true);
+
+        string[] memory burnFunctions = new string[](1);
+        burnFunctions[0] = "burn(uint256)";
+        VarType[][] memory burnVars = new VarType[][](1);
+        burnVars[0] = new VarType[](1);
+        burnVars[0][0] = VarType.UNIQUEDESCRIPTOR;
+        nonFungible[1] = InteractionSignature(InteractionType.BURN, burnFunctions, burnVars, true);
+
+        string[] memory assignFunctions = new string[](1);
+        assignFunctions[0] = "transferFrom(address,address,uint256)";
+        VarType[][] memory assignVars = new VarType[][](1);
+        assignVars[0] = new VarType[](3);
+        assignVars[0][0] = VarType.BRIDGE;
+        assignVars[0][1] = VarType.RECEIVER;
+        assignVars[0][2] = VarType.UNIQUEDESCRIPTOR;
+        nonFungible[2] = InteractionSignature(InteractionType.ASSIGN, assignFunctions, assignVars, true);
+    }
+
+    function testMintNonFungible() public {
+        wrapperContract.wrap(nonFungibleContract.name(), address(nonFungibleContract), TokenType.ERC721, nonFungibleContract.name(), "refID", address(this), nonFungibleSignatures());
+
+        wrapperContract.mintNonFungible(nonFungibleContract.name(), 1, "ipfs://satp/1");
+
+        assertEq(nonFungibleContract.ownerOf(1), address(wrapperContract), "Token not minted to the wrapper");
+        assertEq(nonFungibleContract.tokenURI(1), "ipfs://satp/1", "Metadata URI not set");
+        assertTrue(wrapperContract.lockedUniqueDescriptors(nonFungibleContract.name(), 1), "Token not locked in the wrapper");
+        assertEq(wrapperContract.getToken(nonFungibleContract.name()).amount, 1, "Locked count not updated");
+    }
+
+    function testAssignNonFungible() public {
+        address receiver = makeAddr("receiver");
+        wrapperContract.wrap(nonFungibleContract.name(), address(nonFungibleContract), TokenType.ERC721, nonFungibleContract.name(), "refID", address(this), nonFungibleSignatures());
+
+        wrapperContract.mintNonFungible(nonFungibleContract.name(), 1, "ipfs://satp/1");
+        wrapperContract.assignNonFungible(nonFungibleContract.name(), receiver, 1);
+
+        assertEq(nonFungibleContract.ownerOf(1), receiver, "Token not assigned");
+        assertFalse(wrapperContract.lockedUniqueDescriptors(nonFungibleContract.name(), 1), "Token still locked in the wrapper");
+        assertEq(wrapperContract.getToken(nonFungibleContract.name()).amount, 0, "Locked count not updated");
+    }
+
+    function testBurnNonFungible() public {
+        wrapperContract.wrap(nonFungibleContract.name(), address(nonFungibleContract), TokenType.ERC721, nonFungibleContract.name(), "refID", address(this), nonFungibleSignatures());
+
+        wrapperContract.mintNonFungible(nonFungibleContract.name(), 1, "ipfs://satp/1");
+        wrapperContract.burnNonFungible(nonFungibleContract.name(), 1);
+
+        assertEq(nonFungibleContract.balanceOf(address(wrapperContract)), 0, "Token not burned");
+        assertEq(wrapperContract.getToken(nonFungibleContract.name()).amount, 0, "Locked count not updated");
+    }
+
+    function testAssignNonFungibleNotLocked() public {
+        wrapperContract.wrap(nonFungibleContract.name(), address(nonFungibleContract), TokenType.ERC721, nonFungibleContract.name(), "refID", address(this), nonFungibleSignatures());
+
+        vm.expectRevert(abi.encodeWithSelector(UniqueDescriptorNotLocked.selector, nonFungibleContract.name(), 1));
+        wrapperContract.assignNonFungible(nonFungibleContract.name(), address(this), 1);
+    }
+
+    function testFungibleMethodsRejectNonFungibleTokens() public {
+        wrapperContract.wrap(nonFungibleContract.name(), address(nonFungibleContract), TokenType.ERC721, nonFungibleContract.name(), "refID", address(this), nonFungibleSignatures());
+
+        vm.expectRevert(abi.encodeWithSelector(TokenIsNonFungible.selector, nonFungibleContract.name()));
+        wrapperContract.mint(nonFungibleContract.name(), 1);
+    }
 }
-    
\ No newline at end of file
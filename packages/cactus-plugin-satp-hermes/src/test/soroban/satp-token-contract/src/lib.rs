@@ -0,0 +1,143 @@
+#![no_std]
+
+//! Fungible token used by the tests of the Stellar leaf, the Soroban version
+//! of the `SATPTokenContract`. Accounts with the bridge role can mint and
+//! burn.
+
+use soroban_sdk::{contract, contracterror, contractimpl, contracttype, Address, Env};
+
+#[contracttype]
+pub enum DataKey {
+    Owner,
+    Balance(Address),
+    Allowance(Address, Address),
+    Bridge(Address),
+}
+
+#[contracterror]
+#[derive(Copy, Clone, Debug, Eq, PartialEq, PartialOrd, Ord)]
+#[repr(u32)]
+pub enum Error {
+    AlreadyInitialized = 1,
+    InsufficientBalance = 2,
+    InsufficientAllowance = 3,
+    MissingBridgeRole = 4,
+}
+
+#[contract]
+pub struct SatpTokenContract;
+
+#[contractimpl]
+impl SatpTokenContract {
+    /// The owner gets the bridge role.
+    pub fn initialize(env: Env, owner: Address) -> Result<(), Error> {
+        if env.storage().instance().has(&DataKey::Owner) {
+            return Err(Error::AlreadyInitialized);
+        }
+        env.storage().instance().set(&DataKey::Owner, &owner);
+        env.storage()
+            .persistent()
+            .set(&DataKey::Bridge(owner), &true);
+        Ok(())
+    }
+
+    pub fn balance(env: Env, id: Address) -> i128 {
+        env.storage()
+            .persistent()
+            .get(&DataKey::Balance(id))
+            .unwrap_or(0)
+    }
+
+    pub fn allowance(env: Env, from: Address, spender: Address) -> i128 {
+        env.storage()
+            .persistent()
+            .get(&DataKey::Allowance(from, spender))
+            .unwrap_or(0)
+    }
+
+    pub fn approve(env: Env, from: Address, spender: Address, amount: i128) {
+        from.require_auth();
+        env.storage()
+            .persistent()
+            .set(&DataKey::Allowance(from, spender), &amount);
+    }
+
+    pub fn transfer(env: Env, from: Address, to: Address, amount: i128) -> Result<(), Error> {
+        from.require_auth();
+        Self::move_balance(&env, from, to, amount)
+    }
+
+    pub fn transfer_from(
+        env: Env,
+        spender: Address,
+        from: Address,
+        to: Address,
+        amount: i128,
+    ) -> Result<(), Error> {
+        spender.require_auth();
+        let allowance = Self::allowance(env.clone(), from.clone(), spender.clone());
+        if allowance < amount {
+            return Err(Error::InsufficientAllowance);
+        }
+        Self::move_balance(&env, from.clone(), to, amount)?;
+        env.storage()
+            .persistent()
+            .set(&DataKey::Allowance(from, spender), &(allowance - amount));
+        Ok(())
+    }
+
+    pub fn mint(env: Env, minter: Address, to: Address, amount: i128) -> Result<(), Error> {
+        minter.require_auth();
+        Self::has_bridge_role(env.clone(), minter)?;
+        let balance = Self::balance(env.clone(), to.clone());
+        env.storage()
+            .persistent()
+            .set(&DataKey::Balance(to), &(balance + amount));
+        Ok(())
+    }
+
+    pub fn burn(env: Env, from: Address, amount: i128) -> Result<(), Error> {
+        from.require_auth();
+        Self::has_bridge_role(env.clone(), from.clone())?;
+        let balance = Self::balance(env.clone(), from.clone());
+        if balance < amount {
+            return Err(Error::InsufficientBalance);
+        }
+        env.storage()
+            .persistent()
+            .set(&DataKey::Balance(from), &(balance - amount));
+        Ok(())
+    }
+
+    pub fn grant_bridge_role(env: Env, account: Address) {
+        let owner: Address = env.storage().instance().get(&DataKey::Owner).unwrap();
+        owner.require_auth();
+        env.storage()
+            .persistent()
+            .set(&DataKey::Bridge(account), &true);
+    }
+
+    pub fn has_bridge_role(env: Env, account: Address) -> Result<(), Error> {
+        if !env.storage().persistent().has(&DataKey::Bridge(account)) {
+            return Err(Error::MissingBridgeRole);
+        }
+        Ok(())
+    }
+}
+
+impl SatpTokenContract {
+    fn move_balance(env: &Env, from: Address, to: Address, amount: i128) -> Result<(), Error> {
+        let from_balance = Self::balance(env.clone(), from.clone());
+        if from_balance < amount {
+            return Err(Error::InsufficientBalance);
+        }
+        env.storage()
+            .persistent()
+            .set(&DataKey::Balance(from), &(from_balance - amount));
+        let to_balance = Self::balance(env.clone(), to.clone());
+        env.storage()
+            .persistent()
+            .set(&DataKey::Balance(to), &(to_balance + amount));
+        Ok(())
+    }
+}
@@ -14,6 +14,7 @@ import {
   Web3SigningCredentialType as Web3SigningCredentialTypeBesu,
 } from "@hyperledger/cactus-plugin-ledger-connector-besu";
 import SATPTokenContract from "../../solidity/generated/SATPTokenContract.sol/SATPTokenContract.json";
+import SATPNonFungibleTokenContract from "../../solidity/generated/SATPNonFungibleTokenContract.sol/SATPNonFungibleTokenContract.json";
 import Web3 from "web3";
 import { PluginKeychainMemory } from "@hyperledger/cactus-plugin-keychain-memory";
 import { PluginRegistry } from "@hyperledger/cactus-core";
@@ -27,6 +28,7 @@ import {
   IBesuLeafOptions,
 } from "../../../main/typescript/cross-chain-mechanisms/bridge/leafs/besu-leaf";
 import ExampleOntology from "../../ontologies/ontology-satp-erc20-interact-besu.json";
+import NonFungibleOntology from "../../ontologies/ontology-satp-erc721-interact-besu.json";
 import { INetworkOptions } from "../../../main/typescript/cross-chain-mechanisms/bridge/bridge-types";
 import Docker from "dockerode";
 export interface IBesuTestEnvironment {
@@ -38,6 +40,8 @@ export class BesuTestEnvironment {
   public static readonly BESU_ASSET_ID: string = "BesuExampleAsset";
   public static readonly BESU_REFERENCE_ID: string = ExampleOntology.id;
   public static readonly BESU_NETWORK_ID: string = "BesuLedgerTestNetwork";
+  public static readonly BESU_NFT_ASSET_ID: string = "BesuExampleNFTAsset";
+  public static readonly BESU_NFT_REFERENCE_ID: string = NonFungibleOntology.id;
   public readonly network: NetworkId = {
     id: BesuTestEnvironment.BESU_NETWORK_ID,
     ledgerType: LedgerType.Besu2X,
@@ -56,6 +60,8 @@ export class BesuTestEnvironment {
   public assigneeEthAccount?: { address: string; privateKey: string };
   public erc20TokenContract!: string;
   public assetContractAddress?: string;
+  public nonFungibleTokenContract: string = "SATPNonFungibleTokenContract";
+  public nonFungibleContractAddress?: string;
   public besuConfig!: IBesuLeafNeworkOptions;
   public gas: number = 999999999; // Default gas limit for transactions
 
@@ -139,6 +145,10 @@ export class BesuTestEnvironment {
       this.erc20TokenContract,
       JSON.stringify(SATPTokenContract),
     );
+    this.keychainPlugin1.set(
+      this.nonFungibleTokenContract,
+      JSON.stringify(SATPNonFungibleTokenContract),
+    );
 
     // Plugin Registry setup
     const pluginRegistry = new PluginRegistry({
@@ -403,6 +413,120 @@ export class BesuTestEnvironment {
     this.log.info("Approved 100 tokens to SATPWrapperContract");
   }
 
+  // Deploys the ERC-721 token contract used by the non-fungible transfers
+  public async deployNonFungibleTokenContract(): Promise<void> {
+    const deployOut = await this.connector.deployContract({
+      keychainId: this.keychainPlugin1.getKeychainId(),
+      contractName: this.nonFungibleTokenContract,
+      contractAbi: SATPNonFungibleTokenContract.abi,
+      constructorArgs: [this.firstHighNetWorthAccount],
+      web3SigningCredential: this.getTestOwnerSigningCredential(),
+      bytecode: SATPNonFungibleTokenContract.bytecode.object,
+      gas: this.gas,
+    });
+    expect(deployOut).toBeTruthy();
+    expect(deployOut.transactionReceipt.contractAddress).toBeTruthy();
+
+    this.nonFungibleContractAddress =
+      deployOut.transactionReceipt.contractAddress ?? "";
+
+    this.log.info("SATPNonFungibleTokenContract Deployed successfully");
+  }
+
+  public async mintNonFungibleToken(
+    uniqueDescriptor: string,
+    metadataUri: string,
+  ): Promise<void> {
+    await this.sendNonFungibleTransaction("mint", [
+      this.firstHighNetWorthAccount,
+      uniqueDescriptor,
+      metadataUri,
+    ]);
+    this.log.info(
+      `Minted token ${uniqueDescriptor} to firstHighNetWorthAccount`,
+    );
+  }
+
+  public async giveNonFungibleRoleToBridge(
+    wrapperAddress: string,
+  ): Promise<void> {
+    await this.sendNonFungibleTransaction("grantBridgeRole", [wrapperAddress]);
+    this.log.info("BRIDGE_ROLE given to SATPWrapperContract successfully");
+  }
+
+  public async approveNonFungibleToken(
+    wrapperAddress: string,
+    uniqueDescriptor: string,
+  ): Promise<void> {
+    await this.sendNonFungibleTransaction("approve", [
+      wrapperAddress,
+      uniqueDescriptor,
+    ]);
+    this.log.info(`Approved token ${uniqueDescriptor} to SATPWrapperContract`);
+  }
+
+  public async checkNonFungibleOwner(
+    uniqueDescriptor: string,
+    owner: string,
+  ): Promise<void> {
+    const response = await this.connector.invokeContract({
+      contractName: this.nonFungibleTokenContract,
+      contractAddress: this.getNonFungibleTestContractAddress(),
+      contractAbi: SATPNonFungibleTokenContract.abi,
+      invocationType: BesuContractInvocationType.Call,
+      methodName: "ownerOf",
+      params: [uniqueDescriptor],
+      signingCredential: this.getTestOwnerSigningCredential(),
+      gas: this.besuConfig.gas,
+    });
+    expect(response).toBeTruthy();
+    expect(response.success).toBeTruthy();
+    expect(String(response.callOutput).toLowerCase()).toBe(owner.toLowerCase());
+  }
+
+  public getNonFungibleTestContractAddress(): string {
+    return this.nonFungibleContractAddress ?? "";
+  }
+
+  public getNonFungibleTestContractAbi(): typeof SATPNonFungibleTokenContract.abi {
+    return SATPNonFungibleTokenContract.abi;
+  }
+
+  // Gets the ERC-721 asset configuration for testing
+  public getNonFungibleAsset(
+    uniqueDescriptor: string,
+    metadataUri?: string,
+  ): Asset {
+    return {
+      id: BesuTestEnvironment.BESU_NFT_ASSET_ID,
+      referenceId: BesuTestEnvironment.BESU_NFT_REFERENCE_ID,
+      owner: this.firstHighNetWorthAccount,
+      contractName: this.nonFungibleTokenContract,
+      contractAddress: this.nonFungibleContractAddress,
+      networkId: this.network,
+      tokenType: AssetTokenTypeEnum.Erc721,
+      uniqueDescriptor,
+      metadataUri,
+    };
+  }
+
+  private async sendNonFungibleTransaction(
+    methodName: string,
+    params: string[],
+  ): Promise<void> {
+    const response = await this.connector.invokeContract({
+      contractName: this.nonFungibleTokenContract,
+      keychainId: this.keychainPlugin1.getKeychainId(),
+      invocationType: BesuContractInvocationType.Send,
+      methodName,
+      params,
+      signingCredential: this.getTestOwnerSigningCredential(),
+      gas: this.gas,
+    });
+    expect(response).toBeTruthy();
+    expect(response.success).toBeTruthy();
+  }
+
   public getTestContractName(): string {
     return this.erc20TokenContract;
   }
@@ -4,6 +4,7 @@ import {
   LoggerProvider,
 } from "@hyperledger/cactus-common";
 import SATPTokenContract from "../../solidity/generated/SATPTokenContract.sol/SATPTokenContract.json";
+import SATPNonFungibleTokenContract from "../../solidity/generated/SATPNonFungibleTokenContract.sol/SATPNonFungibleTokenContract.json";
 import SATPWrapperContract from "../../../main/solidity/generated/SATPWrapperContract.sol/SATPWrapperContract.json";
 import { PluginKeychainMemory } from "@hyperledger/cactus-plugin-keychain-memory";
 import { PluginRegistry } from "@hyperledger/cactus-core";
@@ -31,6 +32,7 @@ import {
   IEthereumLeafOptions,
 } from "../../../main/typescript/cross-chain-mechanisms/bridge/leafs/ethereum-leaf";
 import ExampleOntology from "../../ontologies/ontology-satp-erc20-interact-ethereum.json";
+import NonFungibleOntology from "../../ontologies/ontology-satp-erc721-interact-ethereum.json";
 import { INetworkOptions } from "../../../main/typescript/cross-chain-mechanisms/bridge/bridge-types";
 
 export interface IEthereumTestEnvironment {
@@ -43,6 +45,8 @@ export class EthereumTestEnvironment {
   public static readonly ETH_ASSET_ID: string = "EthereumExampleAsset";
   public static readonly ETHREFERENCE_ID: string = ExampleOntology.id;
   public static readonly ETH_NETWORK_ID: string = "EthereumLedgerTestNetwork";
+  public static readonly ETH_NFT_ASSET_ID: string = "EthereumExampleNFTAsset";
+  public static readonly ETH_NFT_REFERENCE_ID: string = NonFungibleOntology.id;
   public readonly network: NetworkId = {
     id: EthereumTestEnvironment.ETH_NETWORK_ID,
     ledgerType: LedgerType.Ethereum,
@@ -60,6 +64,8 @@ export class EthereumTestEnvironment {
   public contractNameWrapper!: string;
   public assetContractAddress!: string;
   public wrapperContractAddress!: string;
+  public nonFungibleTokenContract: string = "SATPNonFungibleTokenContract";
+  public nonFungibleContractAddress?: string;
   public ethereumConfig!: IEthereumLeafNeworkOptions;
   public gasConfig: GasTransactionConfig | undefined = {
     gas: "6721975",
@@ -103,6 +109,11 @@ export class EthereumTestEnvironment {
       abi: SATPTokenContract.abi,
       bytecode: SATPTokenContract.bytecode.object,
     };
+    const SATPNonFungibleTokenContract1 = {
+      contractName: this.nonFungibleTokenContract,
+      abi: SATPNonFungibleTokenContract.abi,
+      bytecode: SATPNonFungibleTokenContract.bytecode.object,
+    };
     const SATPWrapperContract1 = {
       contractName: "SATPWrapperContract",
       abi: SATPWrapperContract.abi,
@@ -132,6 +143,10 @@ export class EthereumTestEnvironment {
       this.erc20TokenContract,
       JSON.stringify(SATPTokenContract1),
     );
+    this.keychainPlugin1.set(
+      this.nonFungibleTokenContract,
+      JSON.stringify(SATPNonFungibleTokenContract1),
+    );
     this.keychainPlugin2.set(
       this.contractNameWrapper,
       JSON.stringify(SATPWrapperContract1),
@@ -433,6 +448,118 @@ export class EthereumTestEnvironment {
     expect(responseBalanceBridge.success).toBeTruthy();
     expect(responseBalanceBridge.callOutput.toString()).toBe(amount);
   }
+  // Deploys the ERC-721 token contract used by the non-fungible transfers
+  public async deployNonFungibleTokenContract(): Promise<void> {
+    const deployOut = await this.connector.deployContract({
+      contract: {
+        keychainId: this.keychainPlugin1.getKeychainId(),
+        contractName: this.nonFungibleTokenContract,
+      },
+      constructorArgs: [WHALE_ACCOUNT_ADDRESS],
+      web3SigningCredential: this.getTestOwnerSigningCredential(),
+    });
+    expect(deployOut).toBeTruthy();
+    expect(deployOut.transactionReceipt.contractAddress).toBeTruthy();
+
+    this.nonFungibleContractAddress =
+      deployOut.transactionReceipt.contractAddress ?? "";
+
+    this.log.info("SATPNonFungibleTokenContract Deployed successfully");
+  }
+
+  public async mintNonFungibleToken(
+    uniqueDescriptor: string,
+    metadataUri: string,
+  ): Promise<void> {
+    await this.sendNonFungibleTransaction("mint", [
+      WHALE_ACCOUNT_ADDRESS,
+      uniqueDescriptor,
+      metadataUri,
+    ]);
+    this.log.info(`Minted token ${uniqueDescriptor} to the whale account`);
+  }
+
+  public async giveNonFungibleRoleToBridge(
+    wrapperAddress: string,
+  ): Promise<void> {
+    await this.sendNonFungibleTransaction("grantBridgeRole", [wrapperAddress]);
+    this.log.info("BRIDGE_ROLE given to SATPWrapperContract successfully");
+  }
+
+  public async approveNonFungibleToken(
+    wrapperAddress: string,
+    uniqueDescriptor: string,
+  ): Promise<void> {
+    await this.sendNonFungibleTransaction("approve", [
+      wrapperAddress,
+      uniqueDescriptor,
+    ]);
+    this.log.info(`Approved token ${uniqueDescriptor} to SATPWrapperContract`);
+  }
+
+  public async checkNonFungibleOwner(
+    uniqueDescriptor: string,
+    owner: string,
+  ): Promise<void> {
+    const response = await this.connector.invokeContract({
+      contract: {
+        contractName: this.nonFungibleTokenContract,
+        keychainId: this.keychainPlugin1.getKeychainId(),
+      },
+      invocationType: EthContractInvocationType.Call,
+      methodName: "ownerOf",
+      params: [uniqueDescriptor],
+      web3SigningCredential: this.getTestOwnerSigningCredential(),
+    });
+    expect(response).toBeTruthy();
+    expect(response.success).toBeTruthy();
+    expect(String(response.callOutput).toLowerCase()).toBe(owner.toLowerCase());
+  }
+
+  public getNonFungibleTestContractAddress(): string {
+    return this.nonFungibleContractAddress ?? "";
+  }
+
+  public getNonFungibleTestContractAbi(): typeof SATPNonFungibleTokenContract.abi {
+    return SATPNonFungibleTokenContract.abi;
+  }
+
+  // Gets the ERC-721 asset configuration for testing
+  public getNonFungibleAsset(
+    uniqueDescriptor: string,
+    metadataUri?: string,
+  ): Asset {
+    return {
+      id: EthereumTestEnvironment.ETH_NFT_ASSET_ID,
+      referenceId: EthereumTestEnvironment.ETH_NFT_REFERENCE_ID,
+      owner: WHALE_ACCOUNT_ADDRESS,
+      contractName: this.nonFungibleTokenContract,
+      contractAddress: this.nonFungibleContractAddress,
+      networkId: this.network,
+      tokenType: AssetTokenTypeEnum.Erc721,
+      uniqueDescriptor,
+      metadataUri,
+    };
+  }
+
+  private async sendNonFungibleTransaction(
+    methodName: string,
+    params: string[],
+  ): Promise<void> {
+    const response = await this.connector.invokeContract({
+      contract: {
+        contractName: this.nonFungibleTokenContract,
+        keychainId: this.keychainPlugin1.getKeychainId(),
+      },
+      invocationType: EthContractInvocationType.Send,
+      methodName,
+      params,
+      web3SigningCredential: this.getTestOwnerSigningCredential(),
+    });
+    expect(response).toBeTruthy();
+    expect(response.success).toBeTruthy();
+  }
+
   // Gets the default asset configuration for testing
   public get defaultAsset(): Asset {
     return {
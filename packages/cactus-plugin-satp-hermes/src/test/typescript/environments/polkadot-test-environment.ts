@@ -0,0 +1,300 @@
+import {
+  LogLevelDesc,
+  LoggerProvider,
+  Logger,
+} from "@hyperledger/cactus-common";
+import { SubstrateTestLedger } from "@hyperledger/cactus-test-tooling";
+import {
+  DeployContractInkRequestGasLimit,
+  IPluginLedgerConnectorPolkadotOptions,
+  PluginLedgerConnectorPolkadot,
+  PolkadotContractInvocationType,
+  Web3SigningCredentialMnemonicString,
+  Web3SigningCredentialType,
+} from "@hyperledger/cactus-plugin-ledger-connector-polkadot";
+import { Keyring } from "@polkadot/api";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { randomUUID as uuidv4 } from "node:crypto";
+import { expect } from "@jest/globals";
+import fs from "fs-extra";
+import path from "path";
+import { ClaimFormat } from "../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import { Asset, AssetTokenTypeEnum, NetworkId } from "../../../main/typescript";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import {
+  IPolkadotLeafNeworkOptions,
+  IPolkadotLeafOptions,
+} from "../../../main/typescript/cross-chain-mechanisms/bridge/leafs/polkadot-leaf";
+import ExampleOntology from "../../ontologies/ontology-satp-token-interact-polkadot.json";
+import { INetworkOptions } from "../../../main/typescript/cross-chain-mechanisms/bridge/bridge-types";
+
+export interface IPolkadotTestEnvironment {
+  contractName: string;
+  logLevel: LogLevelDesc;
+}
+
+export class PolkadotTestEnvironment {
+  public static readonly POLKADOT_ASSET_ID: string = "PolkadotExampleAsset";
+  public static readonly POLKADOT_REFERENCE_ID: string = ExampleOntology.id;
+  public static readonly POLKADOT_NETWORK_ID: string =
+    "PolkadotLedgerTestNetwork";
+  public static readonly WS_PROVIDER_URL: string = "ws://127.0.0.1:9944";
+  public readonly network: NetworkId = {
+    id: PolkadotTestEnvironment.POLKADOT_NETWORK_ID,
+    ledgerType: LedgerType.Polkadot,
+  };
+  public ledger!: SubstrateTestLedger;
+  public connector!: PluginLedgerConnectorPolkadot;
+  public connectorOptions!: IPluginLedgerConnectorPolkadotOptions;
+  public ownerAccount!: string;
+  public bridgeAccount!: string;
+  public assigneeAccount!: string;
+  public tokenContract!: string;
+  public assetContractAddress?: string;
+  public polkadotConfig!: IPolkadotLeafNeworkOptions;
+  public gasLimit: DeployContractInkRequestGasLimit = {
+    refTime: 6219235328,
+    proofSize: 131072,
+  };
+
+  // //Alice deploys the token contract and //Bob is the account of the bridge
+  private readonly ownerSigningCredential: Web3SigningCredentialMnemonicString =
+    {
+      type: Web3SigningCredentialType.MnemonicString,
+      mnemonic: "//Alice",
+    };
+  private readonly bridgeSigningCredential: Web3SigningCredentialMnemonicString =
+    {
+      type: Web3SigningCredentialType.MnemonicString,
+      mnemonic: "//Bob",
+    };
+  private readonly tokenContractBundlePath = path.join(
+    __dirname,
+    "../../ink/satp-token-contract/target/ink/satp_token_contract.contract",
+  );
+  private tokenContractMetadata!: string;
+
+  private readonly log: Logger;
+
+  private constructor(tokenContract: string, logLevel: LogLevelDesc) {
+    this.tokenContract = tokenContract;
+
+    const level = logLevel || "INFO";
+    const label = "PolkadotTestEnvironment";
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  // Initializes the Substrate ledger, accounts, and connector for testing
+  public async init(logLevel: LogLevelDesc): Promise<void> {
+    this.ledger = new SubstrateTestLedger({
+      publishAllPorts: false,
+      logLevel,
+      emitContainerLogs: true,
+    });
+
+    const container = await this.ledger.start();
+    expect(container).toBeTruthy();
+
+    const keyring = new Keyring({ type: "sr25519" });
+    this.ownerAccount = keyring.createFromUri(
+      this.ownerSigningCredential.mnemonic,
+    ).address;
+    this.bridgeAccount = keyring.createFromUri(
+      this.bridgeSigningCredential.mnemonic,
+    ).address;
+    this.assigneeAccount = keyring.createFromUri("//Charlie").address;
+
+    this.connectorOptions = {
+      instanceId: uuidv4(),
+      wsProviderUrl: PolkadotTestEnvironment.WS_PROVIDER_URL,
+      pluginRegistry: new PluginRegistry({ plugins: [] }),
+      logLevel,
+    };
+
+    this.connector = new PluginLedgerConnectorPolkadot(this.connectorOptions);
+    await this.connector.onPluginInit();
+
+    this.tokenContractMetadata = await fs.readFile(
+      this.tokenContractBundlePath,
+      "utf-8",
+    );
+  }
+
+  public static async setupTestEnvironment(
+    config: IPolkadotTestEnvironment,
+  ): Promise<PolkadotTestEnvironment> {
+    const instance = new PolkadotTestEnvironment(
+      config.contractName,
+      config.logLevel,
+    );
+    await instance.init(config.logLevel);
+    return instance;
+  }
+
+  // this is the config to be loaded by the gateway, does not contain the log level because it will use the one in the gateway config
+  public createPolkadotConfig(): INetworkOptions {
+    return {
+      networkIdentification: this.polkadotConfig.networkIdentification,
+      signingCredential: this.polkadotConfig.signingCredential,
+      wrapperContractAddress: this.polkadotConfig.wrapperContractAddress,
+      gasLimit: this.polkadotConfig.gasLimit,
+      connectorOptions: {
+        wsProviderUrl: this.connectorOptions.wsProviderUrl,
+      },
+      claimFormats: this.polkadotConfig.claimFormats,
+    } as INetworkOptions;
+  }
+
+  // this creates the same config as the bridge manager does
+  public createPolkadotLeafConfig(
+    logLevel?: LogLevelDesc,
+  ): IPolkadotLeafOptions {
+    return {
+      networkIdentification: this.polkadotConfig.networkIdentification,
+      signingCredential: this.polkadotConfig.signingCredential,
+      wrapperContractAddress: this.polkadotConfig.wrapperContractAddress,
+      gasLimit: this.polkadotConfig.gasLimit,
+      connectorOptions: {
+        instanceId: this.connectorOptions.instanceId,
+        wsProviderUrl: this.connectorOptions.wsProviderUrl,
+        pluginRegistry: new PluginRegistry({ plugins: [] }),
+        logLevel: logLevel,
+      },
+      claimFormats: this.polkadotConfig.claimFormats,
+      logLevel: logLevel,
+    };
+  }
+
+  public getNetworkId(): string {
+    return this.network.id;
+  }
+
+  public getNetworkType(): LedgerType {
+    return this.network.ledgerType;
+  }
+
+  // Deploys the token contract and sets up configurations for testing
+  public async deployAndSetupContracts(claimFormat: ClaimFormat) {
+    const bundle = JSON.parse(this.tokenContractMetadata);
+    const wasm: string = bundle.source.wasm;
+
+    const deployOutTokenContract = await this.connector.deployContract({
+      wasm: Buffer.from(wasm.replace(/^0x/, ""), "hex").toString("base64"),
+      metadata: this.tokenContractMetadata,
+      gasLimit: this.gasLimit,
+      web3SigningCredential: this.ownerSigningCredential,
+      constructorMethod: "new",
+    });
+    expect(deployOutTokenContract).toBeTruthy();
+    expect(deployOutTokenContract.success).toBeTruthy();
+    expect(deployOutTokenContract.contractAddress).toBeTruthy();
+
+    this.assetContractAddress = deployOutTokenContract.contractAddress ?? "";
+
+    this.log.info(`${this.tokenContract} Deployed successfully`);
+
+    this.polkadotConfig = {
+      networkIdentification: this.network,
+      signingCredential: this.bridgeSigningCredential,
+      leafId: "Testing-event-polkadot-leaf",
+      connectorOptions: this.connectorOptions,
+      claimFormats: [claimFormat],
+      gasLimit: this.gasLimit,
+    };
+  }
+
+  public async mintTokens(amount: string): Promise<void> {
+    await this.sendTokenTransaction("mint", [this.ownerAccount, amount]);
+    this.log.info(`Minted ${amount} tokens to the owner account`);
+  }
+
+  public async giveRoleToBridge(wrapperAddress: string): Promise<void> {
+    await this.sendTokenTransaction("grant_bridge_role", [wrapperAddress]);
+    this.log.info("Bridge role given to the wrapper contract successfully");
+  }
+
+  public async approveAmount(
+    wrapperAddress: string,
+    amount: string,
+  ): Promise<void> {
+    await this.sendTokenTransaction("approve", [wrapperAddress, amount]);
+    this.log.info(`Approved ${amount} tokens to the wrapper contract`);
+  }
+
+  public getTestContractName(): string {
+    return this.tokenContract;
+  }
+
+  public getTestContractAddress(): string {
+    return this.assetContractAddress ?? "";
+  }
+
+  public getTestOwnerAccount(): string {
+    return this.ownerAccount;
+  }
+
+  public getBridgeAccount(): string {
+    return this.bridgeAccount;
+  }
+
+  public async checkBalance(account: string, amount: string): Promise<void> {
+    const responseBalance = await this.connector.invokeContract({
+      invocationType: PolkadotContractInvocationType.Query,
+      contractAddress: this.getTestContractAddress(),
+      metadata: this.tokenContractMetadata,
+      methodName: "balance_of",
+      params: [account],
+      gasLimit: this.gasLimit,
+      accountAddress: this.ownerAccount,
+      web3SigningCredential: { type: Web3SigningCredentialType.None },
+    });
+
+    expect(responseBalance).toBeTruthy();
+    expect(responseBalance.success).toBeTruthy();
+    expect(responseBalance.callOutput.output.toPrimitive().ok.toString()).toBe(
+      amount,
+    );
+  }
+
+  // Gets the default asset configuration for testing
+  public get defaultAsset(): Asset {
+    return {
+      id: PolkadotTestEnvironment.POLKADOT_ASSET_ID,
+      referenceId: PolkadotTestEnvironment.POLKADOT_REFERENCE_ID,
+      owner: this.ownerAccount,
+      contractName: this.tokenContract,
+      contractAddress: this.assetContractAddress,
+      networkId: this.network,
+      tokenType: AssetTokenTypeEnum.NonstandardFungible,
+    };
+  }
+
+  // Returns the assignee account address used for testing transactions
+  get transactRequestPubKey(): string {
+    return this.assigneeAccount;
+  }
+
+  public async tearDown(): Promise<void> {
+    await this.connector.shutdownConnectionToSubstrate();
+    await this.ledger.stop();
+    await this.ledger.destroy();
+  }
+
+  private async sendTokenTransaction(
+    methodName: string,
+    params: string[],
+  ): Promise<void> {
+    const response = await this.connector.invokeContract({
+      invocationType: PolkadotContractInvocationType.Send,
+      contractAddress: this.getTestContractAddress(),
+      metadata: this.tokenContractMetadata,
+      methodName,
+      params,
+      gasLimit: this.gasLimit,
+      accountAddress: this.ownerAccount,
+      web3SigningCredential: this.ownerSigningCredential,
+    });
+    expect(response).toBeTruthy();
+    expect(response.success).toBeTruthy();
+  }
+}
@@ -0,0 +1,308 @@
+import {
+  LogLevelDesc,
+  LoggerProvider,
+  Logger,
+} from "@hyperledger/cactus-common";
+import { StellarTestLedger } from "@hyperledger/cactus-test-tooling";
+import {
+  IPluginLedgerConnectorStellarOptions,
+  PluginLedgerConnectorStellar,
+  TransactionInvocation,
+} from "@hyperledger/cacti-plugin-ledger-connector-stellar";
+import { Network } from "stellar-plus/lib/stellar-plus";
+import { DefaultAccountHandler } from "stellar-plus/lib/stellar-plus/account";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { randomUUID as uuidv4 } from "node:crypto";
+import { expect } from "@jest/globals";
+import fs from "fs-extra";
+import path from "path";
+import { ClaimFormat } from "../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import { Asset, AssetTokenTypeEnum, NetworkId } from "../../../main/typescript";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import {
+  IStellarLeafNeworkOptions,
+  IStellarLeafOptions,
+  StellarSigningCredential,
+} from "../../../main/typescript/cross-chain-mechanisms/bridge/leafs/stellar-leaf";
+import ExampleOntology from "../../ontologies/ontology-satp-token-interact-stellar.json";
+import { INetworkOptions } from "../../../main/typescript/cross-chain-mechanisms/bridge/bridge-types";
+
+export interface IStellarTestEnvironment {
+  contractName: string;
+  logLevel: LogLevelDesc;
+}
+
+export class StellarTestEnvironment {
+  public static readonly STELLAR_ASSET_ID: string = "StellarExampleAsset";
+  public static readonly STELLAR_REFERENCE_ID: string = ExampleOntology.id;
+  public static readonly STELLAR_NETWORK_ID: string =
+    "StellarLedgerTestNetwork";
+  public readonly network: NetworkId = {
+    id: StellarTestEnvironment.STELLAR_NETWORK_ID,
+    ledgerType: LedgerType.Stellar,
+  };
+  public ledger!: StellarTestLedger;
+  public connector!: PluginLedgerConnectorStellar;
+  public connectorOptions!: IPluginLedgerConnectorStellarOptions;
+  public ownerAccount!: StellarSigningCredential;
+  public bridgeAccount!: StellarSigningCredential;
+  public assigneeAccount!: StellarSigningCredential;
+  public tokenContract!: string;
+  public assetContractAddress?: string;
+  public stellarConfig!: IStellarLeafNeworkOptions;
+  public fee: number = 100;
+  public timeout: number = 30;
+
+  private readonly tokenContractBuildDir = path.join(
+    __dirname,
+    "../../soroban/satp-token-contract/build",
+  );
+  private tokenContractSpec!: string[];
+
+  private readonly log: Logger;
+
+  private constructor(tokenContract: string, logLevel: LogLevelDesc) {
+    this.tokenContract = tokenContract;
+
+    const level = logLevel || "INFO";
+    const label = "StellarTestEnvironment";
+    this.log = LoggerProvider.getOrCreate({ level, label });
+  }
+
+  // Initializes the Stellar ledger, accounts, and connector for testing
+  public async init(logLevel: LogLevelDesc): Promise<void> {
+    this.ledger = new StellarTestLedger({ logLevel });
+
+    const container = await this.ledger.start();
+    expect(container).toBeTruthy();
+
+    const networkConfig = Network.CustomNet(
+      await this.ledger.getNetworkConfiguration(),
+    );
+
+    // Accounts setup, funded by the friendbot of the test ledger
+    this.ownerAccount = await this.createAccount(networkConfig);
+    this.bridgeAccount = await this.createAccount(networkConfig);
+    this.assigneeAccount = await this.createAccount(networkConfig);
+
+    this.connectorOptions = {
+      instanceId: uuidv4(),
+      networkConfig,
+      pluginRegistry: new PluginRegistry({ plugins: [] }),
+      logLevel,
+    };
+
+    this.connector = new PluginLedgerConnectorStellar(this.connectorOptions);
+    await this.connector.onPluginInit();
+
+    this.tokenContractSpec = JSON.parse(
+      await fs.readFile(
+        path.join(this.tokenContractBuildDir, "satp_token_contract.spec.json"),
+        "utf-8",
+      ),
+    );
+  }
+
+  public static async setupTestEnvironment(
+    config: IStellarTestEnvironment,
+  ): Promise<StellarTestEnvironment> {
+    const instance = new StellarTestEnvironment(
+      config.contractName,
+      config.logLevel,
+    );
+    await instance.init(config.logLevel);
+    return instance;
+  }
+
+  // this is the config to be loaded by the gateway, does not contain the log level because it will use the one in the gateway config
+  public createStellarConfig(): INetworkOptions {
+    return {
+      networkIdentification: this.stellarConfig.networkIdentification,
+      signingCredential: this.stellarConfig.signingCredential,
+      wrapperContractAddress: this.stellarConfig.wrapperContractAddress,
+      fee: this.stellarConfig.fee,
+      timeout: this.stellarConfig.timeout,
+      connectorOptions: {
+        networkConfig: this.connectorOptions.networkConfig,
+      },
+      claimFormats: this.stellarConfig.claimFormats,
+    } as INetworkOptions;
+  }
+
+  // this creates the same config as the bridge manager does
+  public createStellarLeafConfig(logLevel?: LogLevelDesc): IStellarLeafOptions {
+    return {
+      networkIdentification: this.stellarConfig.networkIdentification,
+      signingCredential: this.stellarConfig.signingCredential,
+      wrapperContractAddress: this.stellarConfig.wrapperContractAddress,
+      fee: this.stellarConfig.fee,
+      timeout: this.stellarConfig.timeout,
+      connectorOptions: {
+        instanceId: this.connectorOptions.instanceId,
+        networkConfig: this.connectorOptions.networkConfig,
+        pluginRegistry: new PluginRegistry({ plugins: [] }),
+        logLevel: logLevel,
+      },
+      claimFormats: this.stellarConfig.claimFormats,
+      logLevel: logLevel,
+    };
+  }
+
+  public getNetworkId(): string {
+    return this.network.id;
+  }
+
+  public getNetworkType(): LedgerType {
+    return this.network.ledgerType;
+  }
+
+  // Deploys the token contract and sets up configurations for testing
+  public async deployAndSetupContracts(claimFormat: ClaimFormat) {
+    const wasmBuffer = await fs.readFile(
+      path.join(this.tokenContractBuildDir, "satp_token_contract.wasm"),
+    );
+
+    const deployOutTokenContract = await this.connector.deployContract({
+      wasmBuffer: wasmBuffer.toString("base64"),
+      transactionInvocation: this.getOwnerTransactionInvocation(),
+    });
+    expect(deployOutTokenContract).toBeTruthy();
+    expect(deployOutTokenContract.contractId).toBeTruthy();
+
+    this.assetContractAddress = deployOutTokenContract.contractId;
+
+    await this.sendTokenTransaction("initialize", {
+      owner: this.ownerAccount.publicKey,
+    });
+
+    this.log.info(`${this.tokenContract} Deployed successfully`);
+
+    this.stellarConfig = {
+      networkIdentification: this.network,
+      signingCredential: this.bridgeAccount,
+      leafId: "Testing-event-stellar-leaf",
+      connectorOptions: this.connectorOptions,
+      claimFormats: [claimFormat],
+      fee: this.fee,
+      timeout: this.timeout,
+    };
+  }
+
+  public async mintTokens(amount: string): Promise<void> {
+    await this.sendTokenTransaction("mint", {
+      minter: this.ownerAccount.publicKey,
+      to: this.ownerAccount.publicKey,
+      amount: BigInt(amount),
+    });
+    this.log.info(`Minted ${amount} tokens to the owner account`);
+  }
+
+  public async giveRoleToBridge(wrapperAddress: string): Promise<void> {
+    await this.sendTokenTransaction("grant_bridge_role", {
+      account: wrapperAddress,
+    });
+    this.log.info("Bridge role given to the wrapper contract successfully");
+  }
+
+  public async approveAmount(
+    wrapperAddress: string,
+    amount: string,
+  ): Promise<void> {
+    await this.sendTokenTransaction("approve", {
+      from: this.ownerAccount.publicKey,
+      spender: wrapperAddress,
+      amount: BigInt(amount),
+    });
+    this.log.info(`Approved ${amount} tokens to the wrapper contract`);
+  }
+
+  public getTestContractName(): string {
+    return this.tokenContract;
+  }
+
+  public getTestContractAddress(): string {
+    return this.assetContractAddress ?? "";
+  }
+
+  public getTestOwnerAccount(): string {
+    return this.ownerAccount.publicKey;
+  }
+
+  public getBridgeAccount(): string {
+    return this.bridgeAccount.publicKey;
+  }
+
+  public async checkBalance(account: string, amount: string): Promise<void> {
+    const responseBalance = await this.connector.runSorobanTransaction({
+      contractId: this.getTestContractAddress(),
+      method: "balance",
+      methodArgs: { id: account },
+      specXdr: this.tokenContractSpec,
+      readOnly: true,
+      transactionInvocation: this.getOwnerTransactionInvocation(),
+    });
+
+    expect(responseBalance).toBeTruthy();
+    expect(String(responseBalance.result)).toBe(amount);
+  }
+
+  // Gets the default asset configuration for testing
+  public get defaultAsset(): Asset {
+    return {
+      id: StellarTestEnvironment.STELLAR_ASSET_ID,
+      referenceId: StellarTestEnvironment.STELLAR_REFERENCE_ID,
+      owner: this.ownerAccount.publicKey,
+      contractName: this.tokenContract,
+      contractAddress: this.assetContractAddress,
+      networkId: this.network,
+      tokenType: AssetTokenTypeEnum.NonstandardFungible,
+    };
+  }
+
+  // Returns the assignee account address used for testing transactions
+  get transactRequestPubKey(): string {
+    return this.assigneeAccount.publicKey;
+  }
+
+  public async tearDown(): Promise<void> {
+    await this.ledger.stop();
+    await this.ledger.destroy();
+  }
+
+  private async createAccount(
+    networkConfig: IPluginLedgerConnectorStellarOptions["networkConfig"],
+  ): Promise<StellarSigningCredential> {
+    const account = new DefaultAccountHandler({ networkConfig });
+    await account.initializeWithFriendbot();
+    return {
+      publicKey: account.getPublicKey(),
+      secretKey: account.getSecretKey(),
+    };
+  }
+
+  private getOwnerTransactionInvocation(): TransactionInvocation {
+    return {
+      header: {
+        source: this.ownerAccount.publicKey,
+        fee: this.fee,
+        timeout: this.timeout,
+      },
+      signers: [this.ownerAccount.secretKey],
+    };
+  }
+
+  private async sendTokenTransaction(
+    method: string,
+    methodArgs: object,
+  ): Promise<void> {
+    const response = await this.connector.runSorobanTransaction({
+      contractId: this.getTestContractAddress(),
+      method,
+      methodArgs,
+      specXdr: this.tokenContractSpec,
+      readOnly: false,
+      transactionInvocation: this.getOwnerTransactionInvocation(),
+    });
+    expect(response).toBeTruthy();
+  }
+}
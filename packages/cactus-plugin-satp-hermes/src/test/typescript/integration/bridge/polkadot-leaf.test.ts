@@ -0,0 +1,294 @@
+import { LogLevelDesc, LoggerProvider } from "@hyperledger/cactus-common";
+import {
+  pruneDockerAllIfGithubAction,
+  Containers,
+} from "@hyperledger/cactus-test-tooling";
+import path from "path";
+import { TokenType } from "../../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import { ClaimFormat } from "../../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import { PolkadotTestEnvironment } from "../../test-utils";
+import { PolkadotFungibleAsset } from "../../../../main/typescript/cross-chain-mechanisms/bridge/ontology/assets/polkadot-asset";
+import { PolkadotLeaf } from "../../../../main/typescript/cross-chain-mechanisms/bridge/leafs/polkadot-leaf";
+import { OntologyManager } from "../../../../main/typescript/cross-chain-mechanisms/bridge/ontology/ontology-manager";
+import { MonitorService } from "../../../../main/typescript/services/monitoring/monitor";
+
+let ontologyManager: OntologyManager;
+
+let asset: PolkadotFungibleAsset;
+
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+monitorService.init();
+
+const logLevel: LogLevelDesc = "DEBUG";
+const log = LoggerProvider.getOrCreate({
+  level: logLevel,
+  label: "SATP - Hermes",
+});
+
+let polkadotLeaf: PolkadotLeaf;
+let polkadotEnv: PolkadotTestEnvironment;
+const TIMEOUT = 180000;
+
+beforeAll(async () => {
+  await pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+  {
+    const tokenContract = "SATPTokenContract";
+
+    const ontologiesPath = path.join(__dirname, "../../../ontologies");
+
+    ontologyManager = new OntologyManager(
+      {
+        logLevel,
+        ontologiesPath: ontologiesPath,
+      },
+      monitorService,
+    );
+
+    polkadotEnv = await PolkadotTestEnvironment.setupTestEnvironment({
+      contractName: tokenContract,
+      logLevel,
+    });
+    log.info("Substrate Ledger started successfully");
+
+    await polkadotEnv.deployAndSetupContracts(ClaimFormat.DEFAULT);
+
+    await polkadotEnv.mintTokens("100");
+  }
+}, TIMEOUT);
+
+afterAll(async () => {
+  await polkadotEnv.tearDown();
+
+  await monitorService.shutdown();
+
+  await pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+}, TIMEOUT);
+
+describe("Polkadot Leaf Test", () => {
+  jest.setTimeout(60000);
+  it("Should Initialize the Leaf", async () => {
+    polkadotLeaf = new PolkadotLeaf(
+      polkadotEnv.createPolkadotLeafConfig("DEBUG"),
+      ontologyManager,
+      monitorService,
+    );
+    expect(polkadotLeaf.getNetworkIdentification()).toStrictEqual({
+      id: PolkadotTestEnvironment.POLKADOT_NETWORK_ID,
+      ledgerType: LedgerType.Polkadot,
+    });
+    expect(polkadotLeaf).toBeDefined();
+  });
+  it("Should deploy Wrapper Smart Contract", async () => {
+    await polkadotLeaf.deployContracts();
+    expect(
+      polkadotLeaf.getDeployFungibleWrapperContractReceipt(),
+    ).toBeDefined();
+  });
+
+  it("Should return the wrapper contract address", async () => {
+    const wrapperContractAddress = await polkadotLeaf.getApproveAddress(
+      TokenType.NONSTANDARD_FUNGIBLE,
+    );
+    expect(wrapperContractAddress).toBeDefined();
+
+    await polkadotEnv.giveRoleToBridge(wrapperContractAddress);
+
+    await polkadotEnv.approveAmount(wrapperContractAddress, "100");
+  });
+
+  it("Should Wrap a token", async () => {
+    asset = {
+      id: polkadotEnv.defaultAsset.id,
+      referenceId: polkadotEnv.defaultAsset.referenceId,
+      type: TokenType.NONSTANDARD_FUNGIBLE,
+      owner: polkadotEnv.defaultAsset.owner,
+      contractName: polkadotEnv.defaultAsset.contractName,
+      contractAddress: polkadotEnv.defaultAsset.contractAddress!,
+      amount: "100",
+      network: {
+        id: PolkadotTestEnvironment.POLKADOT_NETWORK_ID,
+        ledgerType: LedgerType.Polkadot,
+      },
+    } as PolkadotFungibleAsset;
+
+    const response = await polkadotLeaf.wrapAsset(asset);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = await polkadotLeaf.getAssets();
+    expect(response2).toBeDefined();
+    expect(response2.length).toBe(1);
+    expect(response2[0]).toBe(asset.id);
+
+    const response3 = (await polkadotLeaf.getAsset(
+      asset.id,
+    )) as PolkadotFungibleAsset;
+    expect(response3).toBeDefined();
+    expect(response3.id).toBe(asset.id);
+    expect(response3.type).toBe(asset.type);
+    expect(response3.owner).toBe(asset.owner);
+    expect(response3.contractAddress).toBe(polkadotEnv.assetContractAddress);
+    expect(response3.contractName).toBe(polkadotEnv.defaultAsset.contractName);
+    expect(response3.amount).toBe("0");
+  });
+
+  it("Should Lock a token", async () => {
+    const response = await polkadotLeaf.lockAsset(asset.id, 100);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = (await polkadotLeaf.getAsset(
+      asset.id,
+    )) as PolkadotFungibleAsset;
+    expect(response2).toBeDefined();
+    expect(response2.id).toBe(asset.id);
+    expect(response2.amount).toBe("100");
+    log.info("Locked 100 tokens successfully");
+
+    await polkadotEnv.checkBalance(
+      polkadotLeaf.getWrapperContract("FUNGIBLE"),
+      "100",
+    );
+    log.info("Amount was transfer correctly to the Wrapper account");
+
+    await polkadotEnv.checkBalance(polkadotEnv.getTestOwnerAccount(), "0");
+    log.info("Amount was transfer correctly from the Owner account");
+  });
+
+  it("Should Unlock a token", async () => {
+    const response = await polkadotLeaf.unlockAsset(asset.id, 100);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = (await polkadotLeaf.getAsset(
+      asset.id,
+    )) as PolkadotFungibleAsset;
+    expect(response2).toBeDefined();
+    expect(response2.id).toBe(asset.id);
+    expect(response2.amount).toBe("0");
+    log.info("Unlocked 100 tokens successfully");
+
+    await polkadotEnv.checkBalance(
+      polkadotLeaf.getWrapperContract("FUNGIBLE"),
+      "0",
+    );
+    log.info("Amount was transfer correctly from the Wrapper account");
+
+    await polkadotEnv.checkBalance(polkadotEnv.getTestOwnerAccount(), "100");
+    log.info("Amount was transfer correctly to the Owner account");
+  });
+
+  it("Should Burn a token", async () => {
+    const wrapperContractAddress = polkadotLeaf.getWrapperContract("FUNGIBLE");
+
+    await polkadotEnv.approveAmount(wrapperContractAddress, "100");
+
+    const response = await polkadotLeaf.lockAsset(asset.id, 100);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    log.info("Locked 100 tokens successfully");
+
+    const response2 = await polkadotLeaf.burnAsset(asset.id, 100);
+    expect(response2).toBeDefined();
+    expect(response2.transactionId).toBeDefined();
+    expect(response2.transactionReceipt).toBeDefined();
+    log.info("Burned 100 tokens successfully");
+
+    const response3 = (await polkadotLeaf.getAsset(
+      asset.id,
+    )) as PolkadotFungibleAsset;
+    expect(response3).toBeDefined();
+    expect(response3.amount).toBe("0");
+
+    await polkadotEnv.checkBalance(wrapperContractAddress, "0");
+
+    await polkadotEnv.checkBalance(polkadotEnv.getTestOwnerAccount(), "0");
+
+    log.info("Amount was burned correctly to the Wrapper account");
+  });
+
+  it("Should Mint a token", async () => {
+    const response = await polkadotLeaf.mintAsset(asset.id, 100);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = (await polkadotLeaf.getAsset(
+      asset.id,
+    )) as PolkadotFungibleAsset;
+    expect(response2).toBeDefined();
+    expect(response2.amount).toBe("100");
+    log.info("Minted 100 tokens successfully");
+
+    await polkadotEnv.checkBalance(
+      polkadotLeaf.getWrapperContract("FUNGIBLE"),
+      "100",
+    );
+    log.info("Amount was minted correctly to the Wrapper account");
+  });
+
+  it("Should Assign a token", async () => {
+    const response = await polkadotLeaf.assignAsset(
+      asset.id,
+      polkadotEnv.transactRequestPubKey,
+      100,
+    );
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = (await polkadotLeaf.getAsset(
+      asset.id,
+    )) as PolkadotFungibleAsset;
+    expect(response2).toBeDefined();
+    expect(response2.amount).toBe("0");
+    log.info("Assigned 100 tokens successfully");
+
+    await polkadotEnv.checkBalance(
+      polkadotLeaf.getWrapperContract("FUNGIBLE"),
+      "0",
+    );
+    log.info("Amount was removed correctly form the Wrapper account");
+
+    await polkadotEnv.checkBalance(polkadotEnv.transactRequestPubKey, "100");
+    log.info("Amount was assigned correctly to the Assignee account");
+  });
+
+  it("Should return the receipt of a transaction", async () => {
+    const response = await polkadotLeaf.lockAsset(asset.id, 0);
+    const receipt = await polkadotLeaf.getReceipt(response.transactionId!);
+    expect(receipt).toBe(response.transactionReceipt);
+  });
+
+  it("Should Unwrap a token", async () => {
+    const response = await polkadotLeaf.unwrapAsset(asset.id);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = await polkadotLeaf.getAssets();
+    expect(response2).toBeDefined();
+    expect(response2.length).toBe(0);
+    log.info("Unwrapped token successfully");
+  });
+});
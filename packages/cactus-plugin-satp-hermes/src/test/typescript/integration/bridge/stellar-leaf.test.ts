@@ -0,0 +1,292 @@
+import { LogLevelDesc, LoggerProvider } from "@hyperledger/cactus-common";
+import {
+  pruneDockerAllIfGithubAction,
+  Containers,
+} from "@hyperledger/cactus-test-tooling";
+import path from "path";
+import { TokenType } from "../../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import { ClaimFormat } from "../../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import { StellarTestEnvironment } from "../../test-utils";
+import { StellarFungibleAsset } from "../../../../main/typescript/cross-chain-mechanisms/bridge/ontology/assets/stellar-asset";
+import { StellarLeaf } from "../../../../main/typescript/cross-chain-mechanisms/bridge/leafs/stellar-leaf";
+import { OntologyManager } from "../../../../main/typescript/cross-chain-mechanisms/bridge/ontology/ontology-manager";
+import { MonitorService } from "../../../../main/typescript/services/monitoring/monitor";
+
+let ontologyManager: OntologyManager;
+
+let asset: StellarFungibleAsset;
+
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+monitorService.init();
+
+const logLevel: LogLevelDesc = "DEBUG";
+const log = LoggerProvider.getOrCreate({
+  level: logLevel,
+  label: "SATP - Hermes",
+});
+
+let stellarLeaf: StellarLeaf;
+let stellarEnv: StellarTestEnvironment;
+const TIMEOUT = 180000;
+
+beforeAll(async () => {
+  await pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+  {
+    const tokenContract = "SATPTokenContract";
+
+    const ontologiesPath = path.join(__dirname, "../../../ontologies");
+
+    ontologyManager = new OntologyManager(
+      {
+        logLevel,
+        ontologiesPath: ontologiesPath,
+      },
+      monitorService,
+    );
+
+    stellarEnv = await StellarTestEnvironment.setupTestEnvironment({
+      contractName: tokenContract,
+      logLevel,
+    });
+    log.info("Stellar Ledger started successfully");
+
+    await stellarEnv.deployAndSetupContracts(ClaimFormat.DEFAULT);
+
+    await stellarEnv.mintTokens("100");
+  }
+}, TIMEOUT);
+
+afterAll(async () => {
+  await stellarEnv.tearDown();
+
+  await monitorService.shutdown();
+
+  await pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+}, TIMEOUT);
+
+describe("Stellar Leaf Test", () => {
+  jest.setTimeout(60000);
+  it("Should Initialize the Leaf", async () => {
+    stellarLeaf = new StellarLeaf(
+      stellarEnv.createStellarLeafConfig("DEBUG"),
+      ontologyManager,
+      monitorService,
+    );
+    expect(stellarLeaf.getNetworkIdentification()).toStrictEqual({
+      id: StellarTestEnvironment.STELLAR_NETWORK_ID,
+      ledgerType: LedgerType.Stellar,
+    });
+    expect(stellarLeaf).toBeDefined();
+  });
+  it("Should deploy Wrapper Smart Contract", async () => {
+    await stellarLeaf.deployContracts();
+    expect(stellarLeaf.getDeployFungibleWrapperContractReceipt()).toBeDefined();
+  });
+
+  it("Should return the wrapper contract address", async () => {
+    const wrapperContractAddress = await stellarLeaf.getApproveAddress(
+      TokenType.NONSTANDARD_FUNGIBLE,
+    );
+    expect(wrapperContractAddress).toBeDefined();
+
+    await stellarEnv.giveRoleToBridge(wrapperContractAddress);
+
+    await stellarEnv.approveAmount(wrapperContractAddress, "100");
+  });
+
+  it("Should Wrap a token", async () => {
+    asset = {
+      id: stellarEnv.defaultAsset.id,
+      referenceId: stellarEnv.defaultAsset.referenceId,
+      type: TokenType.NONSTANDARD_FUNGIBLE,
+      owner: stellarEnv.defaultAsset.owner,
+      contractName: stellarEnv.defaultAsset.contractName,
+      contractAddress: stellarEnv.defaultAsset.contractAddress!,
+      amount: "100",
+      network: {
+        id: StellarTestEnvironment.STELLAR_NETWORK_ID,
+        ledgerType: LedgerType.Stellar,
+      },
+    } as StellarFungibleAsset;
+
+    const response = await stellarLeaf.wrapAsset(asset);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = await stellarLeaf.getAssets();
+    expect(response2).toBeDefined();
+    expect(response2.length).toBe(1);
+    expect(response2[0]).toBe(asset.id);
+
+    const response3 = (await stellarLeaf.getAsset(
+      asset.id,
+    )) as StellarFungibleAsset;
+    expect(response3).toBeDefined();
+    expect(response3.id).toBe(asset.id);
+    expect(response3.type).toBe(asset.type);
+    expect(response3.owner).toBe(asset.owner);
+    expect(response3.contractAddress).toBe(stellarEnv.assetContractAddress);
+    expect(response3.contractName).toBe(stellarEnv.defaultAsset.contractName);
+    expect(response3.amount).toBe("0");
+  });
+
+  it("Should Lock a token", async () => {
+    const response = await stellarLeaf.lockAsset(asset.id, 100);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = (await stellarLeaf.getAsset(
+      asset.id,
+    )) as StellarFungibleAsset;
+    expect(response2).toBeDefined();
+    expect(response2.id).toBe(asset.id);
+    expect(response2.amount).toBe("100");
+    log.info("Locked 100 tokens successfully");
+
+    await stellarEnv.checkBalance(
+      stellarLeaf.getWrapperContract("FUNGIBLE"),
+      "100",
+    );
+    log.info("Amount was transfer correctly to the Wrapper account");
+
+    await stellarEnv.checkBalance(stellarEnv.getTestOwnerAccount(), "0");
+    log.info("Amount was transfer correctly from the Owner account");
+  });
+
+  it("Should Unlock a token", async () => {
+    const response = await stellarLeaf.unlockAsset(asset.id, 100);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = (await stellarLeaf.getAsset(
+      asset.id,
+    )) as StellarFungibleAsset;
+    expect(response2).toBeDefined();
+    expect(response2.id).toBe(asset.id);
+    expect(response2.amount).toBe("0");
+    log.info("Unlocked 100 tokens successfully");
+
+    await stellarEnv.checkBalance(
+      stellarLeaf.getWrapperContract("FUNGIBLE"),
+      "0",
+    );
+    log.info("Amount was transfer correctly from the Wrapper account");
+
+    await stellarEnv.checkBalance(stellarEnv.getTestOwnerAccount(), "100");
+    log.info("Amount was transfer correctly to the Owner account");
+  });
+
+  it("Should Burn a token", async () => {
+    const wrapperContractAddress = stellarLeaf.getWrapperContract("FUNGIBLE");
+
+    await stellarEnv.approveAmount(wrapperContractAddress, "100");
+
+    const response = await stellarLeaf.lockAsset(asset.id, 100);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    log.info("Locked 100 tokens successfully");
+
+    const response2 = await stellarLeaf.burnAsset(asset.id, 100);
+    expect(response2).toBeDefined();
+    expect(response2.transactionId).toBeDefined();
+    expect(response2.transactionReceipt).toBeDefined();
+    log.info("Burned 100 tokens successfully");
+
+    const response3 = (await stellarLeaf.getAsset(
+      asset.id,
+    )) as StellarFungibleAsset;
+    expect(response3).toBeDefined();
+    expect(response3.amount).toBe("0");
+
+    await stellarEnv.checkBalance(wrapperContractAddress, "0");
+
+    await stellarEnv.checkBalance(stellarEnv.getTestOwnerAccount(), "0");
+
+    log.info("Amount was burned correctly to the Wrapper account");
+  });
+
+  it("Should Mint a token", async () => {
+    const response = await stellarLeaf.mintAsset(asset.id, 100);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = (await stellarLeaf.getAsset(
+      asset.id,
+    )) as StellarFungibleAsset;
+    expect(response2).toBeDefined();
+    expect(response2.amount).toBe("100");
+    log.info("Minted 100 tokens successfully");
+
+    await stellarEnv.checkBalance(
+      stellarLeaf.getWrapperContract("FUNGIBLE"),
+      "100",
+    );
+    log.info("Amount was minted correctly to the Wrapper account");
+  });
+
+  it("Should Assign a token", async () => {
+    const response = await stellarLeaf.assignAsset(
+      asset.id,
+      stellarEnv.transactRequestPubKey,
+      100,
+    );
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = (await stellarLeaf.getAsset(
+      asset.id,
+    )) as StellarFungibleAsset;
+    expect(response2).toBeDefined();
+    expect(response2.amount).toBe("0");
+    log.info("Assigned 100 tokens successfully");
+
+    await stellarEnv.checkBalance(
+      stellarLeaf.getWrapperContract("FUNGIBLE"),
+      "0",
+    );
+    log.info("Amount was removed correctly form the Wrapper account");
+
+    await stellarEnv.checkBalance(stellarEnv.transactRequestPubKey, "100");
+    log.info("Amount was assigned correctly to the Assignee account");
+  });
+
+  it("Should return the receipt of a transaction", async () => {
+    const response = await stellarLeaf.lockAsset(asset.id, 0);
+    const receipt = await stellarLeaf.getReceipt(response.transactionId!);
+    expect(receipt).toBe(response.transactionReceipt);
+  });
+
+  it("Should Unwrap a token", async () => {
+    const response = await stellarLeaf.unwrapAsset(asset.id);
+    expect(response).toBeDefined();
+    expect(response.transactionId).toBeDefined();
+    expect(response.transactionReceipt).toBeDefined();
+
+    const response2 = await stellarLeaf.getAssets();
+    expect(response2).toBeDefined();
+    expect(response2.length).toBe(0);
+    log.info("Unwrapped token successfully");
+  });
+});
@@ -0,0 +1,293 @@
+import "jest-extended";
+import https from "node:https";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { Knex } from "knex";
+import {
+  type ISignerKeyPair,
+  LogLevelDesc,
+  LoggerProvider,
+  Secp256k1Keys,
+} from "@hyperledger/cactus-common";
+import {
+  Containers,
+  type IPki,
+  pruneDockerAllIfGithubAction,
+  SelfSignedPkiGenerator,
+} from "@hyperledger/cactus-test-tooling";
+import {
+  IPluginFactoryOptions,
+  PluginImportType,
+} from "@hyperledger/cactus-core-api";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import {
+  SATPGatewayConfig,
+  SATPGateway,
+  PluginFactorySATPGateway,
+} from "../../../../main/typescript";
+import type {
+  Address,
+  GatewayIdentity,
+  GatewayTLSConfig,
+} from "../../../../main/typescript/core/types";
+import {
+  SATP_ARCHITECTURE_VERSION,
+  SATP_CORE_VERSION,
+  SATP_CRASH_VERSION,
+} from "../../../../main/typescript/core/constants";
+import {
+  createMutualTLSClientOptions,
+  getCertificateFingerprint,
+} from "../../../../main/typescript/services/gateway/gateway-tls";
+import { PeerCertificateError } from "../../../../main/typescript/core/errors/satp-errors";
+import { knexLocalInstance } from "../../../../main/typescript/database/knexfile";
+import { bufArray2HexStr } from "../../../../main/typescript/gateway-utils";
+import { MonitorService } from "../../../../main/typescript/services/monitoring/monitor";
+
+const logLevel: LogLevelDesc = "DEBUG";
+const log = LoggerProvider.getOrCreate({
+  level: logLevel,
+  label: "SATP - Hermes",
+});
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+const factoryOptions: IPluginFactoryOptions = {
+  pluginImportType: PluginImportType.Local,
+};
+const factory = new PluginFactorySATPGateway(factoryOptions);
+
+// node checks the host name against the common name of the gateway
+// certificates, the CA needs a different one or they look self-signed
+const pkiGenerator = new SelfSignedPkiGenerator();
+let ca: IPki;
+let tls1: GatewayTLSConfig;
+let tls2: GatewayTLSConfig;
+let rogueTls: GatewayTLSConfig;
+
+const keyPair1: ISignerKeyPair = Secp256k1Keys.generateKeyPairsBuffer();
+const keyPair2: ISignerKeyPair = Secp256k1Keys.generateKeyPairsBuffer();
+
+// each gateway keeps its rotations in its own local database
+const createLocalRepository = (): Knex.Config => ({
+  ...knexLocalInstance.default,
+  connection: {
+    filename: path.resolve(__dirname, `.dev.local-${uuidv4()}.sqlite3`),
+  },
+});
+const localRepository1 = createLocalRepository();
+const localRepository2 = createLocalRepository();
+
+let gatewayIdentity1: GatewayIdentity;
+let gatewayIdentity2: GatewayIdentity;
+let gateway1: SATPGateway | undefined;
+let gateway2: SATPGateway | undefined;
+
+const createTLSConfig = (pki: IPki): GatewayTLSConfig => ({
+  cert: pki.certificatePem,
+  key: pki.privateKeyPem,
+  ca: ca.certificatePem,
+});
+
+const createIdentity = (
+  id: string,
+  keyPair: ISignerKeyPair,
+  tls: GatewayTLSConfig,
+  gatewayServerPort: number,
+): GatewayIdentity => ({
+  id,
+  name: "CustomGateway",
+  pubKey: bufArray2HexStr(keyPair.publicKey),
+  version: [
+    {
+      Core: SATP_CORE_VERSION,
+      Architecture: SATP_ARCHITECTURE_VERSION,
+      Crash: SATP_CRASH_VERSION,
+    },
+  ],
+  proofID: `${id}-proof`,
+  address: "https://localhost" as Address,
+  gatewayServerPort,
+  gatewayClientPort: gatewayServerPort + 1,
+  gatewayOapiPort: gatewayServerPort + 1000,
+  tlsCertFingerprint: getCertificateFingerprint(tls.cert),
+});
+
+const createGateway = async (
+  identity: GatewayIdentity,
+  counterParty: GatewayIdentity,
+  keyPair: ISignerKeyPair,
+  tls: GatewayTLSConfig,
+  localRepository: Knex.Config,
+): Promise<SATPGateway> => {
+  const options: SATPGatewayConfig = {
+    instanceId: uuidv4(),
+    logLevel,
+    // copies, so a rotation seen by one gateway does not leak into the
+    // configuration of the other one
+    gid: { ...identity },
+    counterPartyGateways: [{ ...counterParty }],
+    keyPair,
+    tls,
+    localRepository,
+    pluginRegistry: new PluginRegistry({ plugins: [] }),
+    monitorService,
+  };
+  const gateway = await factory.create(options);
+  expect(gateway).toBeInstanceOf(SATPGateway);
+  await gateway.startup();
+  return gateway;
+};
+
+// resolves with the status code, or rejects if the handshake fails; every
+// request opens a new connection so that each one goes through a handshake
+const requestGOLServer = (
+  port: number,
+  options: https.RequestOptions,
+): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const req = https.request(
+      {
+        ...options,
+        agent: false,
+        host: "localhost",
+        port,
+        path: "/",
+        method: "GET",
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode!);
+      },
+    );
+    req.on("error", reject);
+    req.end();
+  });
+
+const TIMEOUT = 900000; // 15 minutes
+
+beforeAll(async () => {
+  pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+
+  ca = pkiGenerator.create("SATP Test CA");
+  tls1 = createTLSConfig(pkiGenerator.create("localhost", ca));
+  tls2 = createTLSConfig(pkiGenerator.create("localhost", ca));
+  // signed by the same CA, but not the certificate of any gateway
+  rogueTls = createTLSConfig(pkiGenerator.create("localhost", ca));
+
+  gatewayIdentity1 = createIdentity("mockID-1", keyPair1, tls1, 3110);
+  gatewayIdentity2 = createIdentity("mockID-2", keyPair2, tls2, 3112);
+
+  gateway1 = await createGateway(
+    gatewayIdentity1,
+    gatewayIdentity2,
+    keyPair1,
+    tls1,
+    localRepository1,
+  );
+  gateway2 = await createGateway(
+    gatewayIdentity2,
+    gatewayIdentity1,
+    keyPair2,
+    tls2,
+    localRepository2,
+  );
+}, TIMEOUT);
+
+afterAll(async () => {
+  await gateway1?.shutdown();
+  await gateway2?.shutdown();
+
+  await pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+}, TIMEOUT);
+
+describe("SATPGateway mutual TLS handshake", () => {
+  jest.setTimeout(TIMEOUT);
+
+  it("should accept a gateway presenting the certificate of its identity", async () => {
+    const status = await requestGOLServer(
+      gatewayIdentity2.gatewayServerPort!,
+      createMutualTLSClientOptions(tls1, gatewayIdentity2),
+    );
+    expect(status).not.toBeOneOf([401, 403]);
+  });
+
+  it("should reject a client without a certificate", async () => {
+    await expect(
+      requestGOLServer(gatewayIdentity2.gatewayServerPort!, {
+        ca: ca.certificatePem,
+        rejectUnauthorized: true,
+      }),
+    ).rejects.toThrow();
+  });
+
+  it("should reject a certificate that belongs to no gateway", async () => {
+    const status = await requestGOLServer(
+      gatewayIdentity2.gatewayServerPort!,
+      createMutualTLSClientOptions(rogueTls, gatewayIdentity2),
+    );
+    expect(status).toBe(403);
+  });
+
+  it("should reject a server whose certificate does not match its identity", async () => {
+    await expect(
+      requestGOLServer(
+        gatewayIdentity2.gatewayServerPort!,
+        createMutualTLSClientOptions(tls1, {
+          ...gatewayIdentity2,
+          tlsCertFingerprint: getCertificateFingerprint(rogueTls.cert),
+        }),
+      ),
+    ).rejects.toThrow(PeerCertificateError);
+  });
+});
+
+describe("SATPGateway key rotation over mutual TLS", () => {
+  jest.setTimeout(TIMEOUT);
+
+  it("should announce a new key and keep it after a restart", async () => {
+    const rotatedKeyPair = Secp256k1Keys.generateKeyPairsBuffer();
+    const rotatedPubKey = bufArray2HexStr(rotatedKeyPair.publicKey);
+
+    const acknowledged = await gateway1!.rotateKeyPair(rotatedKeyPair);
+    expect(acknowledged).toEqual([gatewayIdentity2.id]);
+    expect(gateway1!.pubKey).toBe(rotatedPubKey);
+    expect(gateway2!.KeyRegistry.getCurrentKey(gatewayIdentity1.id)).toBe(
+      rotatedPubKey,
+    );
+
+    // the configuration still holds the first key pair, the database the
+    // rotated one
+    await gateway1!.shutdown();
+    gateway1 = await createGateway(
+      gatewayIdentity1,
+      gatewayIdentity2,
+      keyPair1,
+      tls1,
+      localRepository1,
+    );
+    expect(gateway1.pubKey).toBe(rotatedPubKey);
+
+    // the counterparty only accepts this rotation if it is signed with the
+    // restored key
+    const acknowledgedAfterRestart = await gateway1.rotateKeyPair();
+    expect(acknowledgedAfterRestart).toEqual([gatewayIdentity2.id]);
+    expect(gateway2!.KeyRegistry.getCurrentKey(gatewayIdentity1.id)).toBe(
+      gateway1.pubKey,
+    );
+  });
+});
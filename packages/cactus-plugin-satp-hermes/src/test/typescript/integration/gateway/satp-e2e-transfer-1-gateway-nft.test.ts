@@ -0,0 +1,261 @@
+import "jest-extended";
+import { LogLevelDesc, LoggerProvider } from "@hyperledger/cactus-common";
+import {
+  pruneDockerAllIfGithubAction,
+  Containers,
+} from "@hyperledger/cactus-test-tooling";
+import {
+  SATPGatewayConfig,
+  SATPGateway,
+  PluginFactorySATPGateway,
+  TokenType,
+  TransactRequest,
+} from "../../../../main/typescript";
+import {
+  Address,
+  GatewayIdentity,
+} from "../../../../main/typescript/core/types";
+import {
+  IPluginFactoryOptions,
+  PluginImportType,
+} from "@hyperledger/cactus-core-api";
+import { ClaimFormat } from "../../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import { BesuTestEnvironment, EthereumTestEnvironment } from "../../test-utils";
+import {
+  SATP_ARCHITECTURE_VERSION,
+  SATP_CORE_VERSION,
+  SATP_CRASH_VERSION,
+} from "../../../../main/typescript/core/constants";
+import { Knex, knex } from "knex";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { v4 as uuidv4 } from "uuid";
+import path from "path";
+import { createMigrationSource } from "../../../../main/typescript/database/knex-migration-source";
+import { knexLocalInstance } from "../../../../main/typescript/database/knexfile";
+import { knexRemoteInstance } from "../../../../main/typescript/database/knexfile-remote";
+import { MonitorService } from "../../../../main/typescript/services/monitoring/monitor";
+
+const logLevel: LogLevelDesc = "DEBUG";
+const log = LoggerProvider.getOrCreate({
+  level: logLevel,
+  label: "SATP - Hermes",
+});
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+
+let knexSourceRemoteClient: Knex;
+let knexLocalClient: Knex;
+let besuEnv: BesuTestEnvironment;
+let ethereumEnv: EthereumTestEnvironment;
+let gateway: SATPGateway;
+
+const TIMEOUT = 900000; // 15 minutes
+
+const TOKEN_ID = "1";
+const TOKEN_URI = "ipfs://satp-nft/1";
+
+afterAll(async () => {
+  await ethereumEnv.tearDown();
+  await besuEnv.tearDown();
+
+  await pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+}, TIMEOUT);
+
+afterEach(async () => {
+  if (gateway) {
+    await gateway.shutdown();
+  }
+  if (knexLocalClient) {
+    await knexLocalClient.destroy();
+  }
+  if (knexSourceRemoteClient) {
+    await knexSourceRemoteClient.destroy();
+  }
+}, TIMEOUT);
+
+beforeAll(async () => {
+  pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+
+  {
+    besuEnv = await BesuTestEnvironment.setupTestEnvironment({
+      contractName: "SATPContract",
+      logLevel,
+    });
+    log.info("Besu Ledger started successfully");
+
+    await besuEnv.deployAndSetupContracts(ClaimFormat.BUNGEE);
+    await besuEnv.deployNonFungibleTokenContract();
+  }
+  {
+    ethereumEnv = await EthereumTestEnvironment.setupTestEnvironment({
+      contractName: "SATPContract",
+      logLevel,
+    });
+    log.info("Ethereum Ledger started successfully");
+
+    await ethereumEnv.deployAndSetupContracts(ClaimFormat.BUNGEE);
+    await ethereumEnv.deployNonFungibleTokenContract();
+  }
+}, TIMEOUT);
+
+async function createGateway(): Promise<SATPGateway> {
+  const factoryOptions: IPluginFactoryOptions = {
+    pluginImportType: PluginImportType.Local,
+  };
+  const factory = new PluginFactorySATPGateway(factoryOptions);
+
+  const gatewayIdentity = {
+    id: "mockID",
+    name: "CustomGateway",
+    version: [
+      {
+        Core: SATP_CORE_VERSION,
+        Architecture: SATP_ARCHITECTURE_VERSION,
+        Crash: SATP_CRASH_VERSION,
+      },
+    ],
+    proofID: "mockProofID10",
+    address: "http://localhost" as Address,
+  } as GatewayIdentity;
+
+  const migrationSource = await createMigrationSource();
+  knexLocalClient = knex({
+    ...knexLocalInstance.default,
+    migrations: {
+      migrationSource: migrationSource,
+    },
+  });
+  knexSourceRemoteClient = knex({
+    ...knexRemoteInstance.default,
+    migrations: {
+      migrationSource: migrationSource,
+    },
+  });
+  await knexSourceRemoteClient.migrate.latest();
+
+  const ontologiesPath = path.join(__dirname, "../../../ontologies");
+
+  const options: SATPGatewayConfig = {
+    instanceId: uuidv4(),
+    logLevel: "DEBUG",
+    gid: gatewayIdentity,
+    ccConfig: {
+      bridgeConfig: [
+        besuEnv.createBesuConfig(),
+        ethereumEnv.createEthereumConfig(),
+      ],
+    },
+    localRepository: knexLocalInstance.default,
+    remoteRepository: knexRemoteInstance.default,
+    pluginRegistry: new PluginRegistry({ plugins: [] }),
+    ontologyPath: ontologiesPath,
+    monitorService: monitorService,
+  };
+  const satpGateway = await factory.create(options);
+  expect(satpGateway).toBeInstanceOf(SATPGateway);
+
+  await satpGateway.startup();
+  return satpGateway;
+}
+
+describe("SATPGateway sending an ERC-721 token from Besu to Ethereum", () => {
+  jest.setTimeout(TIMEOUT);
+  it("should mint the token to the owner account", async () => {
+    await besuEnv.mintNonFungibleToken(TOKEN_ID, TOKEN_URI);
+    await besuEnv.checkNonFungibleOwner(
+      TOKEN_ID,
+      besuEnv.getTestOwnerAccount(),
+    );
+  });
+  it("should realize a transfer", async () => {
+    gateway = await createGateway();
+
+    const dispatcher = gateway.BLODispatcherInstance;
+    expect(dispatcher).toBeTruthy();
+
+    const reqApproveBesuAddress = await dispatcher?.GetApproveAddress({
+      networkId: besuEnv.network,
+      tokenType: TokenType.Erc721,
+    });
+    if (!reqApproveBesuAddress?.approveAddress) {
+      throw new Error("Approve address is undefined");
+    }
+    await besuEnv.giveNonFungibleRoleToBridge(
+      reqApproveBesuAddress.approveAddress,
+    );
+    await besuEnv.approveNonFungibleToken(
+      reqApproveBesuAddress.approveAddress,
+      TOKEN_ID,
+    );
+    log.debug("Approved the token to the Besu Bridge Address");
+
+    const reqApproveEthereumAddress = await dispatcher?.GetApproveAddress({
+      networkId: ethereumEnv.network,
+      tokenType: TokenType.Erc721,
+    });
+    if (!reqApproveEthereumAddress?.approveAddress) {
+      throw new Error("Approve address is undefined");
+    }
+    await ethereumEnv.giveNonFungibleRoleToBridge(
+      reqApproveEthereumAddress.approveAddress,
+    );
+
+    const req: TransactRequest = {
+      contextID: "mockContext",
+      sourceAsset: besuEnv.getNonFungibleAsset(TOKEN_ID, TOKEN_URI),
+      receiverAsset: ethereumEnv.getNonFungibleAsset(TOKEN_ID, TOKEN_URI),
+    };
+
+    const res = await dispatcher?.Transact(req);
+    log.info(res?.statusResponse);
+
+    // the token is locked in the wrapper and then burned on the source
+    await besuEnv.checkBalance(
+      besuEnv.nonFungibleTokenContract,
+      besuEnv.getNonFungibleTestContractAddress(),
+      besuEnv.getNonFungibleTestContractAbi(),
+      besuEnv.getTestOwnerAccount(),
+      "0",
+      besuEnv.getTestOwnerSigningCredential(),
+    );
+    await besuEnv.checkBalance(
+      besuEnv.nonFungibleTokenContract,
+      besuEnv.getNonFungibleTestContractAddress(),
+      besuEnv.getNonFungibleTestContractAbi(),
+      reqApproveBesuAddress.approveAddress,
+      "0",
+      besuEnv.getTestOwnerSigningCredential(),
+    );
+    log.info("Token was burned correctly on the source ledger");
+
+    // the token is minted to the wrapper and then assigned to the receiver
+    await ethereumEnv.checkNonFungibleOwner(
+      TOKEN_ID,
+      ethereumEnv.getTestOwnerAccount(),
+    );
+    await ethereumEnv.checkBalance(
+      ethereumEnv.nonFungibleTokenContract,
+      ethereumEnv.getNonFungibleTestContractAddress(),
+      ethereumEnv.getNonFungibleTestContractAbi(),
+      reqApproveEthereumAddress.approveAddress,
+      "0",
+      ethereumEnv.getTestOwnerSigningCredential(),
+    );
+    log.info("Token was assigned correctly to the Owner account");
+  });
+});
@@ -0,0 +1,323 @@
+import "jest-extended";
+import { LogLevelDesc, LoggerProvider } from "@hyperledger/cactus-common";
+import {
+  pruneDockerAllIfGithubAction,
+  Containers,
+} from "@hyperledger/cactus-test-tooling";
+import {
+  SATPGatewayConfig,
+  SATPGateway,
+  PluginFactorySATPGateway,
+  TokenType,
+} from "../../../../main/typescript";
+import {
+  Address,
+  GatewayIdentity,
+} from "../../../../main/typescript/core/types";
+import {
+  IPluginFactoryOptions,
+  PluginImportType,
+} from "@hyperledger/cactus-core-api";
+import { ClaimFormat } from "../../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import {
+  BesuTestEnvironment,
+  StellarTestEnvironment,
+  getTransactRequest,
+} from "../../test-utils";
+import {
+  SATP_ARCHITECTURE_VERSION,
+  SATP_CORE_VERSION,
+  SATP_CRASH_VERSION,
+} from "../../../../main/typescript/core/constants";
+import { Knex, knex } from "knex";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { v4 as uuidv4 } from "uuid";
+import path from "path";
+import { createMigrationSource } from "../../../../main/typescript/database/knex-migration-source";
+import { knexLocalInstance } from "../../../../main/typescript/database/knexfile";
+import { knexRemoteInstance } from "../../../../main/typescript/database/knexfile-remote";
+import { MonitorService } from "../../../../main/typescript/services/monitoring/monitor";
+
+const logLevel: LogLevelDesc = "DEBUG";
+const log = LoggerProvider.getOrCreate({
+  level: logLevel,
+  label: "SATP - Hermes",
+});
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+
+let knexSourceRemoteClient: Knex;
+let knexLocalClient: Knex;
+let besuEnv: BesuTestEnvironment;
+let stellarEnv: StellarTestEnvironment;
+let gateway: SATPGateway;
+
+const TIMEOUT = 900000; // 15 minutes
+
+afterAll(async () => {
+  await stellarEnv.tearDown();
+  await besuEnv.tearDown();
+
+  await pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+}, TIMEOUT);
+
+afterEach(async () => {
+  if (gateway) {
+    await gateway.shutdown();
+  }
+  if (knexLocalClient) {
+    await knexLocalClient.destroy();
+  }
+  if (knexSourceRemoteClient) {
+    await knexSourceRemoteClient.destroy();
+  }
+}, TIMEOUT);
+
+beforeAll(async () => {
+  pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+
+  // Stellar networks have no BUNGEE strategy, so both ledgers use DEFAULT
+  {
+    const erc20TokenContract = "SATPContract";
+    besuEnv = await BesuTestEnvironment.setupTestEnvironment({
+      contractName: erc20TokenContract,
+      logLevel,
+    });
+    log.info("Besu Ledger started successfully");
+
+    await besuEnv.deployAndSetupContracts(ClaimFormat.DEFAULT);
+  }
+  {
+    const tokenContract = "SATPTokenContract";
+    stellarEnv = await StellarTestEnvironment.setupTestEnvironment({
+      contractName: tokenContract,
+      logLevel,
+    });
+    log.info("Stellar Ledger started successfully");
+
+    await stellarEnv.deployAndSetupContracts(ClaimFormat.DEFAULT);
+  }
+}, TIMEOUT);
+
+async function createGateway(): Promise<SATPGateway> {
+  const factoryOptions: IPluginFactoryOptions = {
+    pluginImportType: PluginImportType.Local,
+  };
+  const factory = new PluginFactorySATPGateway(factoryOptions);
+
+  const gatewayIdentity = {
+    id: "mockID",
+    name: "CustomGateway",
+    version: [
+      {
+        Core: SATP_CORE_VERSION,
+        Architecture: SATP_ARCHITECTURE_VERSION,
+        Crash: SATP_CRASH_VERSION,
+      },
+    ],
+    proofID: "mockProofID10",
+    address: "http://localhost" as Address,
+  } as GatewayIdentity;
+
+  const migrationSource = await createMigrationSource();
+  knexLocalClient = knex({
+    ...knexLocalInstance.default,
+    migrations: {
+      migrationSource: migrationSource,
+    },
+  });
+  knexSourceRemoteClient = knex({
+    ...knexRemoteInstance.default,
+    migrations: {
+      migrationSource: migrationSource,
+    },
+  });
+  await knexSourceRemoteClient.migrate.latest();
+
+  const ontologiesPath = path.join(__dirname, "../../../ontologies");
+
+  const options: SATPGatewayConfig = {
+    instanceId: uuidv4(),
+    logLevel: "DEBUG",
+    gid: gatewayIdentity,
+    ccConfig: {
+      bridgeConfig: [
+        besuEnv.createBesuConfig(),
+        stellarEnv.createStellarConfig(),
+      ],
+    },
+    localRepository: knexLocalInstance.default,
+    remoteRepository: knexRemoteInstance.default,
+    pluginRegistry: new PluginRegistry({ plugins: [] }),
+    ontologyPath: ontologiesPath,
+    monitorService: monitorService,
+  };
+  const satpGateway = await factory.create(options);
+  expect(satpGateway).toBeInstanceOf(SATPGateway);
+
+  await satpGateway.startup();
+  return satpGateway;
+}
+
+describe("SATPGateway sending a token from Besu to Stellar", () => {
+  jest.setTimeout(TIMEOUT);
+  it("should mint 100 tokens to the owner account", async () => {
+    await besuEnv.mintTokens("100");
+    await besuEnv.checkBalance(
+      besuEnv.getTestContractName(),
+      besuEnv.getTestContractAddress(),
+      besuEnv.getTestContractAbi(),
+      besuEnv.getTestOwnerAccount(),
+      "100",
+      besuEnv.getTestOwnerSigningCredential(),
+    );
+  });
+  it("should realize a transfer", async () => {
+    gateway = await createGateway();
+
+    const dispatcher = gateway.BLODispatcherInstance;
+    expect(dispatcher).toBeTruthy();
+
+    const reqApproveBesuAddress = await dispatcher?.GetApproveAddress({
+      networkId: besuEnv.network,
+      tokenType: TokenType.NonstandardFungible,
+    });
+    if (!reqApproveBesuAddress?.approveAddress) {
+      throw new Error("Approve address is undefined");
+    }
+    await besuEnv.giveRoleToBridge(reqApproveBesuAddress.approveAddress);
+    await besuEnv.approveAmount(reqApproveBesuAddress.approveAddress, "100");
+    log.debug("Approved 100 amout to the Besu Bridge Address");
+
+    const reqApproveStellarAddress = await dispatcher?.GetApproveAddress({
+      networkId: stellarEnv.network,
+      tokenType: TokenType.NonstandardFungible,
+    });
+    if (!reqApproveStellarAddress?.approveAddress) {
+      throw new Error("Approve address is undefined");
+    }
+    await stellarEnv.giveRoleToBridge(reqApproveStellarAddress.approveAddress);
+
+    const req = getTransactRequest(
+      "mockContext",
+      besuEnv,
+      stellarEnv,
+      "100",
+      "100",
+    );
+
+    const res = await dispatcher?.Transact(req);
+    log.info(res?.statusResponse);
+
+    await besuEnv.checkBalance(
+      besuEnv.getTestContractName(),
+      besuEnv.getTestContractAddress(),
+      besuEnv.getTestContractAbi(),
+      besuEnv.getTestOwnerAccount(),
+      "0",
+      besuEnv.getTestOwnerSigningCredential(),
+    );
+    log.info("Amount was transfer correctly from the Owner account");
+
+    await besuEnv.checkBalance(
+      besuEnv.getTestContractName(),
+      besuEnv.getTestContractAddress(),
+      besuEnv.getTestContractAbi(),
+      reqApproveBesuAddress.approveAddress,
+      "0",
+      besuEnv.getTestOwnerSigningCredential(),
+    );
+    log.info("Amount was transfer correctly to the Wrapper account");
+
+    await stellarEnv.checkBalance(reqApproveStellarAddress.approveAddress, "0");
+    log.info("Amount was transfer correctly from the Wrapper account");
+
+    await stellarEnv.checkBalance(stellarEnv.getTestOwnerAccount(), "100");
+    log.info("Amount was transfer correctly to the Owner account");
+  });
+});
+
+describe("SATPGateway sending a token from Stellar to Besu", () => {
+  jest.setTimeout(TIMEOUT);
+  it("should realize a transfer", async () => {
+    gateway = await createGateway();
+
+    const dispatcher = gateway.BLODispatcherInstance;
+    expect(dispatcher).toBeTruthy();
+
+    const reqApproveStellarAddress = await dispatcher?.GetApproveAddress({
+      networkId: stellarEnv.network,
+      tokenType: TokenType.NonstandardFungible,
+    });
+    if (!reqApproveStellarAddress?.approveAddress) {
+      throw new Error("Approve address is undefined");
+    }
+    await stellarEnv.giveRoleToBridge(reqApproveStellarAddress.approveAddress);
+    await stellarEnv.approveAmount(
+      reqApproveStellarAddress.approveAddress,
+      "100",
+    );
+    log.debug("Approved 100 amout to the Stellar Bridge Address");
+
+    const reqApproveBesuAddress = await dispatcher?.GetApproveAddress({
+      networkId: besuEnv.network,
+      tokenType: TokenType.NonstandardFungible,
+    });
+    if (!reqApproveBesuAddress?.approveAddress) {
+      throw new Error("Approve address is undefined");
+    }
+    await besuEnv.giveRoleToBridge(reqApproveBesuAddress.approveAddress);
+
+    const req = getTransactRequest(
+      "mockContext",
+      stellarEnv,
+      besuEnv,
+      "100",
+      "100",
+    );
+
+    const res = await dispatcher?.Transact(req);
+    log.info(res?.statusResponse);
+
+    await stellarEnv.checkBalance(stellarEnv.getTestOwnerAccount(), "0");
+    log.info("Amount was transfer correctly from the Owner account");
+
+    await stellarEnv.checkBalance(reqApproveStellarAddress.approveAddress, "0");
+    log.info("Amount was transfer correctly from the Wrapper account");
+
+    await besuEnv.checkBalance(
+      besuEnv.getTestContractName(),
+      besuEnv.getTestContractAddress(),
+      besuEnv.getTestContractAbi(),
+      besuEnv.getTestOwnerAccount(),
+      "100",
+      besuEnv.getTestOwnerSigningCredential(),
+    );
+    log.info("Amount was transfer correctly to the Owner account");
+
+    await besuEnv.checkBalance(
+      besuEnv.getTestContractName(),
+      besuEnv.getTestContractAddress(),
+      besuEnv.getTestContractAbi(),
+      reqApproveBesuAddress.approveAddress,
+      "0",
+      besuEnv.getTestOwnerSigningCredential(),
+    );
+    log.info("Amount was transfer correctly to the Wrapper account");
+  });
+});
@@ -0,0 +1,336 @@
+import "jest-extended";
+import {
+  LogLevelDesc,
+  LoggerProvider,
+  Secp256k1Keys,
+} from "@hyperledger/cactus-common";
+import {
+  pruneDockerAllIfGithubAction,
+  Containers,
+} from "@hyperledger/cactus-test-tooling";
+import {
+  SATPGatewayConfig,
+  SATPGateway,
+  PluginFactorySATPGateway,
+  TokenType,
+} from "../../../../main/typescript";
+import {
+  Address,
+  GatewayIdentity,
+} from "../../../../main/typescript/core/types";
+import {
+  IPluginFactoryOptions,
+  LedgerType,
+  PluginImportType,
+} from "@hyperledger/cactus-core-api";
+import { ClaimFormat } from "../../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import {
+  BesuTestEnvironment,
+  EthereumTestEnvironment,
+  getTransactRequest,
+} from "../../test-utils";
+import {
+  SATP_ARCHITECTURE_VERSION,
+  SATP_CORE_VERSION,
+  SATP_CRASH_VERSION,
+} from "../../../../main/typescript/core/constants";
+
+import { Knex, knex } from "knex";
+import { PluginRegistry } from "@hyperledger/cactus-core";
+import { v4 as uuidv4 } from "uuid";
+import path from "path";
+import { createMigrationSource } from "../../../../main/typescript/database/knex-migration-source";
+import { knexRemoteInstance } from "../../../../main/typescript/database/knexfile-remote";
+import { bufArray2HexStr } from "../../../../main/typescript/gateway-utils";
+import { MonitorService } from "../../../../main/typescript/services/monitoring/monitor";
+
+const logLevel: LogLevelDesc = "DEBUG";
+const log = LoggerProvider.getOrCreate({
+  level: logLevel,
+  label: "SATP - Hermes",
+});
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+
+let knexSourceRemoteClient: Knex;
+let besuEnv: BesuTestEnvironment;
+let ethereumEnv: EthereumTestEnvironment;
+let gateway1: SATPGateway;
+let gateway2: SATPGateway;
+
+const TIMEOUT = 900000; // 15 minutes
+afterAll(async () => {
+  if (knexSourceRemoteClient) {
+    await knexSourceRemoteClient.destroy();
+  }
+  if (gateway1) {
+    await gateway1.shutdown();
+  }
+  if (gateway2) {
+    await gateway2.shutdown();
+  }
+  await besuEnv.tearDown();
+  await ethereumEnv.tearDown();
+
+  await pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+}, TIMEOUT);
+
+beforeAll(async () => {
+  pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+
+  {
+    const erc20TokenContract = "SATPContract";
+    besuEnv = await BesuTestEnvironment.setupTestEnvironment({
+      contractName: erc20TokenContract,
+      logLevel,
+    });
+    log.info("Besu Ledger started successfully");
+
+    await besuEnv.deployAndSetupContracts(ClaimFormat.BUNGEE);
+  }
+  {
+    const erc20TokenContract = "SATPContract";
+    ethereumEnv = await EthereumTestEnvironment.setupTestEnvironment({
+      contractName: erc20TokenContract,
+      logLevel,
+    });
+    log.info("Ethereum Ledger started successfully");
+    await ethereumEnv.deployAndSetupContracts(ClaimFormat.BUNGEE);
+  }
+}, TIMEOUT);
+
+describe("2 SATPGateways rotating their keys before a transfer", () => {
+  jest.setTimeout(TIMEOUT);
+  it("should mint 100 tokens to the owner account", async () => {
+    await besuEnv.mintTokens("100");
+    await besuEnv.checkBalance(
+      besuEnv.getTestContractName(),
+      besuEnv.getTestContractAddress(),
+      besuEnv.getTestContractAbi(),
+      besuEnv.getTestOwnerAccount(),
+      "100",
+      besuEnv.getTestOwnerSigningCredential(),
+    );
+  });
+  it("should realize a transfer signed with the rotated keys", async () => {
+    //setup satp gateway
+    const factoryOptions: IPluginFactoryOptions = {
+      pluginImportType: PluginImportType.Local,
+    };
+    const factory = new PluginFactorySATPGateway(factoryOptions);
+
+    // the counterparties must know the keys being rotated
+    const keyPair1 = Secp256k1Keys.generateKeyPairsBuffer();
+    const keyPair2 = Secp256k1Keys.generateKeyPairsBuffer();
+
+    const gatewayIdentity1 = {
+      id: "mockID-1",
+      name: "CustomGateway",
+      pubKey: bufArray2HexStr(keyPair1.publicKey),
+      version: [
+        {
+          Core: SATP_CORE_VERSION,
+          Architecture: SATP_ARCHITECTURE_VERSION,
+          Crash: SATP_CRASH_VERSION,
+        },
+      ],
+      connectedDLTs: [
+        {
+          id: BesuTestEnvironment.BESU_NETWORK_ID,
+          ledgerType: LedgerType.Besu2X,
+        },
+      ],
+      proofID: "mockProofID10",
+      address: "http://localhost" as Address,
+      gatewayOapiPort: 4010,
+      gatewayServerPort: 3010,
+      gatewayClientPort: 3011,
+    } as GatewayIdentity;
+
+    const gatewayIdentity2 = {
+      id: "mockID-2",
+      name: "CustomGateway",
+      pubKey: bufArray2HexStr(keyPair2.publicKey),
+      version: [
+        {
+          Core: SATP_CORE_VERSION,
+          Architecture: SATP_ARCHITECTURE_VERSION,
+          Crash: SATP_CRASH_VERSION,
+        },
+      ],
+      connectedDLTs: [
+        {
+          id: EthereumTestEnvironment.ETH_NETWORK_ID,
+          ledgerType: LedgerType.Ethereum,
+        },
+      ],
+      proofID: "mockProofID11",
+      address: "http://localhost" as Address,
+      gatewayOapiPort: 4011,
+      gatewayServerPort: 3012,
+      gatewayClientPort: 3013,
+    } as GatewayIdentity;
+
+    const migrationSource = await createMigrationSource();
+    knexSourceRemoteClient = knex({
+      ...knexRemoteInstance.default,
+      migrations: {
+        migrationSource: migrationSource,
+      },
+    });
+    await knexSourceRemoteClient.migrate.latest();
+
+    const besuNetworkOptions = besuEnv.createBesuConfig();
+    const ethereumNetworkOptions = ethereumEnv.createEthereumConfig();
+
+    const ontologiesPath = path.join(__dirname, "../../../ontologies");
+
+    const options1: SATPGatewayConfig = {
+      instanceId: uuidv4(),
+      logLevel: "DEBUG",
+      gid: { ...gatewayIdentity1 },
+      ccConfig: {
+        bridgeConfig: [besuNetworkOptions],
+      },
+      counterPartyGateways: [{ ...gatewayIdentity2 }],
+      keyPair: keyPair1,
+      remoteRepository: knexRemoteInstance.default,
+      pluginRegistry: new PluginRegistry({ plugins: [] }),
+      ontologyPath: ontologiesPath,
+      monitorService: monitorService,
+    };
+
+    const options2: SATPGatewayConfig = {
+      instanceId: uuidv4(),
+      logLevel: "DEBUG",
+      gid: { ...gatewayIdentity2 },
+      ccConfig: {
+        bridgeConfig: [ethereumNetworkOptions],
+      },
+      counterPartyGateways: [{ ...gatewayIdentity1 }],
+      keyPair: keyPair2,
+      remoteRepository: knexRemoteInstance.default,
+      pluginRegistry: new PluginRegistry({ plugins: [] }),
+      ontologyPath: ontologiesPath,
+      monitorService: monitorService,
+    };
+
+    gateway1 = await factory.create(options1);
+    expect(gateway1).toBeInstanceOf(SATPGateway);
+    await gateway1.startup();
+
+    gateway2 = await factory.create(options2);
+    expect(gateway2).toBeInstanceOf(SATPGateway);
+    await gateway2.startup();
+
+    expect(await gateway1.rotateKeyPair()).toEqual([gatewayIdentity2.id]);
+    expect(await gateway2.rotateKeyPair()).toEqual([gatewayIdentity1.id]);
+    expect(gateway1.pubKey).not.toBe(gatewayIdentity1.pubKey);
+    expect(gateway2.pubKey).not.toBe(gatewayIdentity2.pubKey);
+    expect(gateway1.KeyRegistry.getCurrentKey(gatewayIdentity2.id)).toBe(
+      gateway2.pubKey,
+    );
+    expect(gateway2.KeyRegistry.getCurrentKey(gatewayIdentity1.id)).toBe(
+      gateway1.pubKey,
+    );
+    log.info("Both gateways rotated their key pairs");
+
+    const dispatcher1 = gateway1.BLODispatcherInstance;
+    const dispatcher2 = gateway2.BLODispatcherInstance;
+
+    expect(dispatcher1).toBeTruthy();
+    expect(dispatcher2).toBeTruthy();
+
+    const reqApproveBesuAddress = await dispatcher1?.GetApproveAddress({
+      networkId: besuEnv.network,
+      tokenType: TokenType.NonstandardFungible,
+    });
+
+    if (!reqApproveBesuAddress?.approveAddress) {
+      throw new Error("Approve address is undefined");
+    }
+
+    await besuEnv.giveRoleToBridge(reqApproveBesuAddress.approveAddress);
+    await besuEnv.approveAmount(reqApproveBesuAddress.approveAddress, "100");
+    log.debug("Approved 100 amout to the Besu Bridge Address");
+
+    const reqApproveEthereumAddress = await dispatcher2?.GetApproveAddress({
+      networkId: ethereumEnv.network,
+      tokenType: TokenType.NonstandardFungible,
+    });
+
+    if (!reqApproveEthereumAddress?.approveAddress) {
+      throw new Error("Approve address is undefined");
+    }
+
+    await ethereumEnv.giveRoleToBridge(
+      reqApproveEthereumAddress.approveAddress,
+    );
+
+    const req = getTransactRequest(
+      "mockContext",
+      besuEnv,
+      ethereumEnv,
+      "100",
+      "100",
+    );
+
+    const res = await dispatcher1?.Transact(req);
+    log.info(res?.statusResponse);
+
+    await besuEnv.checkBalance(
+      besuEnv.getTestContractName(),
+      besuEnv.getTestContractAddress(),
+      besuEnv.getTestContractAbi(),
+      besuEnv.getTestOwnerAccount(),
+      "0",
+      besuEnv.getTestOwnerSigningCredential(),
+    );
+    log.info("Amount was transfer correctly from the Owner account");
+
+    await besuEnv.checkBalance(
+      besuEnv.getTestContractName(),
+      besuEnv.getTestContractAddress(),
+      besuEnv.getTestContractAbi(),
+      reqApproveBesuAddress.approveAddress,
+      "0",
+      besuEnv.getTestOwnerSigningCredential(),
+    );
+    log.info("Amount was transfer correctly to the Wrapper account");
+
+    await ethereumEnv.checkBalance(
+      ethereumEnv.getTestContractName(),
+      ethereumEnv.getTestContractAddress(),
+      ethereumEnv.getTestContractAbi(),
+      reqApproveEthereumAddress.approveAddress,
+      "0",
+      ethereumEnv.getTestOwnerSigningCredential(),
+    );
+    log.info("Amount was transfer correctly from the Bridge account");
+
+    await ethereumEnv.checkBalance(
+      ethereumEnv.getTestContractName(),
+      ethereumEnv.getTestContractAddress(),
+      ethereumEnv.getTestContractAbi(),
+      ethereumEnv.getTestOwnerAccount(),
+      "100",
+      ethereumEnv.getTestOwnerSigningCredential(),
+    );
+    log.info("Amount was transfer correctly to the Owner account");
+  });
+});
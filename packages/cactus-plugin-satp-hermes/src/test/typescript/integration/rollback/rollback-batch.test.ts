@@ -0,0 +1,231 @@
+import "jest-extended";
+import {
+  JsObjectSigner,
+  LogLevelDesc,
+  Secp256k1Keys,
+} from "@hyperledger/cactus-common";
+import {
+  pruneDockerAllIfGithubAction,
+  Containers,
+} from "@hyperledger/cactus-test-tooling";
+import { BesuTestEnvironment } from "../../test-utils";
+import {
+  AssetSchema,
+  ClaimFormat,
+  LockAssertionClaimSchema,
+  NetworkIdSchema,
+  TokenType,
+  type Asset as ProtoAsset,
+} from "../../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import {
+  Type,
+  type SessionData,
+} from "../../../../main/typescript/generated/proto/cacti/satp/v02/session/session_pb";
+import { v4 as uuidv4 } from "uuid";
+import { create } from "@bufbuild/protobuf";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import path from "path";
+import { SATPSession } from "../../../../main/typescript/core/satp-session";
+import { SatpLoggerProvider as LoggerProvider } from "../../../../main/typescript/core/satp-logger-provider";
+import { BridgeManager } from "../../../../main/typescript/cross-chain-mechanisms/bridge/bridge-manager";
+import { Stage2RollbackStrategy } from "../../../../main/typescript/core/crash-management/rollback/stage2-rollback-strategy";
+import {
+  executeBatchLegs,
+  protoToAsset,
+} from "../../../../main/typescript/core/stage-services/service-utils";
+import { MonitorService } from "../../../../main/typescript/services/monitoring/monitor";
+
+const logLevel: LogLevelDesc = "DEBUG";
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+monitorService.init();
+const log = LoggerProvider.getOrCreate(
+  {
+    level: logLevel,
+    label: "Rollback-batch",
+  },
+  monitorService,
+);
+
+const signer = new JsObjectSigner({
+  privateKey: Secp256k1Keys.generateKeyPairsBuffer().privateKey,
+});
+
+let besuEnv: BesuTestEnvironment;
+let bridgeManager: BridgeManager;
+let wrapperAddress: string;
+
+const TIMEOUT = 900000; // 15 minutes
+
+const createBesuAsset = (tokenId: string, amount: number): ProtoAsset =>
+  create(AssetSchema, {
+    tokenId,
+    referenceId: `${tokenId}_REFERENCE_ID`,
+    tokenType: TokenType.NONSTANDARD_FUNGIBLE,
+    amount: BigInt(amount),
+    owner: besuEnv.firstHighNetWorthAccount,
+    contractName: besuEnv.erc20TokenContract,
+    contractAddress: besuEnv.assetContractAddress,
+    networkId: create(NetworkIdSchema, {
+      id: besuEnv.network.id,
+      type: besuEnv.network.ledgerType,
+    }),
+  });
+
+const checkBalances = async (owner: string, wrapper: string) => {
+  await besuEnv.checkBalance(
+    besuEnv.getTestContractName(),
+    besuEnv.getTestContractAddress(),
+    besuEnv.getTestContractAbi(),
+    besuEnv.getTestOwnerAccount(),
+    owner,
+    besuEnv.getTestOwnerSigningCredential(),
+  );
+  await besuEnv.checkBalance(
+    besuEnv.getTestContractName(),
+    besuEnv.getTestContractAddress(),
+    besuEnv.getTestContractAbi(),
+    wrapperAddress,
+    wrapper,
+    besuEnv.getTestOwnerSigningCredential(),
+  );
+};
+
+beforeAll(async () => {
+  pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+
+  const erc20TokenContract = "SATPContract";
+  besuEnv = await BesuTestEnvironment.setupTestEnvironment({
+    contractName: erc20TokenContract,
+    logLevel,
+  });
+  log.info("Besu Ledger started successfully");
+
+  await besuEnv.deployAndSetupContracts(ClaimFormat.DEFAULT);
+
+  bridgeManager = new BridgeManager({
+    logLevel,
+    ontologyOptions: {
+      ontologiesPath: path.join(__dirname, "../../../ontologies"),
+    },
+    monitorService,
+  });
+  await bridgeManager.deployLeaf(besuEnv.createBesuConfig());
+
+  wrapperAddress = bridgeManager.getApproveAddress(
+    besuEnv.network,
+    TokenType.NONSTANDARD_FUNGIBLE,
+  );
+  await besuEnv.mintTokens("100");
+  await besuEnv.giveRoleToBridge(wrapperAddress);
+  await besuEnv.approveAmount(wrapperAddress, "100");
+}, TIMEOUT);
+
+afterAll(async () => {
+  await besuEnv.tearDown();
+
+  monitorService.shutdown().catch((err) => {
+    log.error("Error shutting down monitor service:", err);
+  });
+
+  await pruneDockerAllIfGithubAction({ logLevel })
+    .then(() => {
+      log.info("Pruning throw OK");
+    })
+    .catch(async () => {
+      await Containers.logDiagnostics({ logLevel });
+      fail("Pruning didn't throw OK");
+    });
+}, TIMEOUT);
+
+describe("Rollback Test batch transfer", () => {
+  jest.setTimeout(TIMEOUT);
+  it("should compensate every locked leg when one leg fails to roll back", async () => {
+    const session = new SATPSession({
+      contextID: "MOCK_CONTEXT_ID",
+      server: false,
+      client: true,
+      monitorService,
+    });
+    const sessionData = session.getClientSessionData();
+    sessionData.id = uuidv4();
+    sessionData.senderAsset = createBesuAsset("BATCH_PRIMARY", 50);
+    // the second leg exceeds the remaining allowance, so its lock fails
+    sessionData.batchSenderAssets = [
+      createBesuAsset("BATCH_LEG_0", 30),
+      createBesuAsset("BATCH_LEG_1", 40),
+    ];
+
+    const bridge = bridgeManager.getSATPExecutionLayer(
+      besuEnv.network,
+      ClaimFormat.DEFAULT,
+    );
+    for (const asset of [
+      sessionData.senderAsset,
+      ...sessionData.batchSenderAssets,
+    ]) {
+      await bridge.wrapAsset(protoToAsset(asset, besuEnv.network));
+    }
+    await bridge.lockAsset(
+      protoToAsset(sessionData.senderAsset, besuEnv.network),
+    );
+
+    const persisted: string[] = [];
+    await expect(
+      executeBatchLegs(
+        "rollback-batch",
+        sessionData.batchSenderAssets,
+        bridgeManager,
+        ClaimFormat.DEFAULT,
+        signer,
+        (executionLayer, asset) => executionLayer.lockAsset(asset),
+        sessionData.batchLockAssertionClaims,
+        () => create(LockAssertionClaimSchema, {}),
+        async () => {
+          persisted.push(safeStableStringify(sessionData) as string);
+        },
+      ),
+    ).rejects.toThrow();
+    await checkBalances("20", "80");
+
+    // the session is recovered from the last snapshot, which already holds
+    // the claim of the leg that failed
+    const recoveredData: SessionData = JSON.parse(
+      persisted[persisted.length - 1],
+    );
+    expect(recoveredData.batchLockAssertionClaims).toHaveLength(2);
+    expect(recoveredData.batchLockAssertionClaims[1].receipt).toBeEmpty();
+
+    const recoveredSession = SATPSession.recreateSession(
+      recoveredData,
+      monitorService,
+    );
+    const rollbackState = await new Stage2RollbackStrategy(
+      bridgeManager,
+      log,
+      monitorService,
+    ).execute(recoveredSession, Type.CLIENT);
+
+    expect(rollbackState.status).toBe("FAILED");
+    expect(rollbackState.rollbackLogEntries.map((e) => e.status)).toEqual([
+      "SUCCESS",
+      "FAILED",
+      "SUCCESS",
+    ]);
+    expect(rollbackState.rollbackLogEntries[1].details).toStartWith(
+      "Batch leg 1 compensation failed",
+    );
+    expect(rollbackState.rollbackLogEntries[2].details).toBe(
+      "Batch leg 0 compensated",
+    );
+    await checkBalances("100", "0");
+  });
+});
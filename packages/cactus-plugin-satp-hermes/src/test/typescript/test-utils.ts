@@ -14,6 +14,8 @@ import { GatewayIdentity } from "../../main/typescript/core/types";
 import { BesuTestEnvironment } from "./environments/besu-test-environment";
 import { EthereumTestEnvironment } from "./environments/ethereum-test-environment";
 import { FabricTestEnvironment } from "./environments/fabric-test-environment";
+import { PolkadotTestEnvironment } from "./environments/polkadot-test-environment";
+import { StellarTestEnvironment } from "./environments/stellar-test-environment";
 import knex, { Knex } from "knex";
 import Docker, { Container, ContainerInfo } from "dockerode";
 import { Containers } from "@hyperledger/cactus-test-tooling/src/main/typescript/common/containers";
@@ -24,6 +26,8 @@ import { createMigrationSource } from "../../main/typescript/database/knex-migra
 export { BesuTestEnvironment } from "./environments/besu-test-environment";
 export { EthereumTestEnvironment } from "./environments/ethereum-test-environment";
 export { FabricTestEnvironment } from "./environments/fabric-test-environment";
+export { PolkadotTestEnvironment } from "./environments/polkadot-test-environment";
+export { StellarTestEnvironment } from "./environments/stellar-test-environment";
 
 const testFilesDirectory = `${__dirname}/../../../cache/`;
 
@@ -226,11 +230,18 @@ export function setupGatewayDockerFiles(config: GatewayDockerConfig): {
   };
 }
 
+export type LedgerTestEnvironment =
+  | BesuTestEnvironment
+  | EthereumTestEnvironment
+  | FabricTestEnvironment
+  | PolkadotTestEnvironment
+  | StellarTestEnvironment;
+
 // Creates a TransactRequest for testing transactions
 export function getTransactRequest(
   contextID: string,
-  from: BesuTestEnvironment | EthereumTestEnvironment | FabricTestEnvironment,
-  to: BesuTestEnvironment | EthereumTestEnvironment | FabricTestEnvironment,
+  from: LedgerTestEnvironment,
+  to: LedgerTestEnvironment,
   fromAmount: string,
   toAmount: string,
 ): TransactRequest {
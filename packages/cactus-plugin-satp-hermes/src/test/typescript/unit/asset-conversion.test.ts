@@ -0,0 +1,114 @@
+import "jest-extended";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import {
+  assetToProto,
+  checkAssetQuantity,
+  compareProtoAsset,
+  describeAssetQuantity,
+  getAssetQuantity,
+  protoToAsset,
+} from "../../../main/typescript/core/stage-services/service-utils";
+import {
+  FungibleAsset,
+  NonFungibleAsset,
+  instanceOfNonFungibleAsset,
+} from "../../../main/typescript/cross-chain-mechanisms/bridge/ontology/assets/asset";
+import { EvmNonFungibleAsset } from "../../../main/typescript/cross-chain-mechanisms/bridge/ontology/assets/evm-asset";
+import { TokenType } from "../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import { NetworkId } from "../../../main/typescript/public-api";
+import {
+  AmountMissingError,
+  UniqueDescriptorMissingError,
+} from "../../../main/typescript/core/errors/satp-service-errors";
+
+const networkId: NetworkId = {
+  id: "BesuLedgerTestNetwork",
+  ledgerType: LedgerType.Besu2X,
+};
+
+const nonFungibleAsset: EvmNonFungibleAsset = {
+  id: "NFT_ASSET_ID",
+  referenceId: "NFT_REFERENCE_ID",
+  type: TokenType.ERC721,
+  owner: "0x0000000000000000000000000000000000000001",
+  contractName: "SATPNonFungibleTokenContract",
+  contractAddress: "0x0000000000000000000000000000000000000002",
+  network: networkId,
+  uniqueDescriptor: "42",
+  metadataUri: "ipfs://satp/42.json",
+};
+
+const fungibleAsset: FungibleAsset = {
+  id: "ASSET_ID",
+  referenceId: "REFERENCE_ID",
+  type: TokenType.NONSTANDARD_FUNGIBLE,
+  owner: "0x0000000000000000000000000000000000000001",
+  contractName: "SATPTokenContract",
+  network: networkId,
+  amount: "100",
+};
+
+describe("SATP asset conversion", () => {
+  it("should carry the unique descriptor and metadata URI of a non-fungible asset", () => {
+    const protoAsset = assetToProto(nonFungibleAsset, networkId);
+    expect(protoAsset.uniqueDescriptor).toBe("42");
+    expect(protoAsset.metadataUri).toBe("ipfs://satp/42.json");
+    expect(protoAsset.amount).toBe(BigInt(0));
+
+    const asset = protoToAsset(protoAsset, networkId);
+    expect(instanceOfNonFungibleAsset(asset)).toBeTrue();
+    expect((asset as NonFungibleAsset).uniqueDescriptor).toBe("42");
+    expect((asset as NonFungibleAsset).metadataUri).toBe("ipfs://satp/42.json");
+    expect((asset as EvmNonFungibleAsset).contractAddress).toBe(
+      nonFungibleAsset.contractAddress,
+    );
+    expect(asset).not.toHaveProperty("amount");
+
+    expect(
+      compareProtoAsset(protoAsset, assetToProto(asset, networkId)),
+    ).toBeTrue();
+    expect(
+      compareProtoAsset(
+        protoAsset,
+        assetToProto(
+          { ...nonFungibleAsset, uniqueDescriptor: "43" } as NonFungibleAsset,
+          networkId,
+        ),
+      ),
+    ).toBeFalse();
+  });
+
+  it("should keep converting fungible assets by amount", () => {
+    const protoAsset = assetToProto(fungibleAsset, networkId);
+    expect(protoAsset.amount).toBe(BigInt(100));
+    expect(protoAsset.uniqueDescriptor).toBe("");
+
+    const asset = protoToAsset(protoAsset, networkId);
+    expect(instanceOfNonFungibleAsset(asset)).toBeFalse();
+    expect((asset as FungibleAsset).amount).toBe("100");
+  });
+
+  it("should check and describe the quantity of an asset", () => {
+    expect(() => checkAssetQuantity("test", nonFungibleAsset)).not.toThrow();
+    expect(() => checkAssetQuantity("test", fungibleAsset)).not.toThrow();
+    expect(() =>
+      checkAssetQuantity("test", {
+        ...nonFungibleAsset,
+        uniqueDescriptor: "",
+      } as NonFungibleAsset),
+    ).toThrow(UniqueDescriptorMissingError);
+    expect(() =>
+      checkAssetQuantity("test", {
+        ...fungibleAsset,
+        amount: undefined as unknown as string,
+      } as FungibleAsset),
+    ).toThrow(AmountMissingError);
+
+    expect(getAssetQuantity(nonFungibleAsset)).toBe(1);
+    expect(getAssetQuantity(fungibleAsset)).toBe(100);
+    expect(describeAssetQuantity(nonFungibleAsset)).toBe(
+      "uniqueDescriptor: 42",
+    );
+    expect(describeAssetQuantity(fungibleAsset)).toBe("amount: 100");
+  });
+});
@@ -0,0 +1,240 @@
+import "jest-extended";
+import { JsObjectSigner, Secp256k1Keys } from "@hyperledger/cactus-common";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import { create } from "@bufbuild/protobuf";
+import {
+  checkBatchLegs,
+  checkSupportedTokenTypes,
+  executeBatchLegs,
+} from "../../../main/typescript/core/stage-services/service-utils";
+import { compensateBatchLegs } from "../../../main/typescript/core/crash-management/rollback/rollback-utils";
+import { populateClientBatchSessionData } from "../../../main/typescript/core/session-utils";
+import { SATPSession } from "../../../main/typescript/core/satp-session";
+import { SatpLoggerProvider as LoggerProvider } from "../../../main/typescript/core/satp-logger-provider";
+import {
+  BatchLegsMismatchError,
+  TokenTypeNotSupportedError,
+} from "../../../main/typescript/core/errors/satp-service-errors";
+import { BridgeManagerClientInterface } from "../../../main/typescript/cross-chain-mechanisms/bridge/interfaces/bridge-manager-client-interface";
+import { Asset } from "../../../main/typescript/cross-chain-mechanisms/bridge/ontology/assets/asset";
+import {
+  ClaimFormat,
+  LockAssertionClaimSchema,
+  TokenType,
+} from "../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import { RollbackStateSchema } from "../../../main/typescript/generated/proto/cacti/satp/v02/service/crash_recovery_pb";
+import {
+  TransactRequestBatchAssetsInner,
+  TransactRequestSourceAsset,
+} from "../../../main/typescript/generated/gateway-client/typescript-axios";
+import { MonitorService } from "../../../main/typescript/services/monitoring/monitor";
+
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+monitorService.init();
+
+const log = LoggerProvider.getOrCreate(
+  {
+    level: "INFO",
+    label: "BatchTransferTest",
+  },
+  monitorService,
+);
+
+const signer = new JsObjectSigner({
+  privateKey: Secp256k1Keys.generateKeyPairsBuffer().privateKey,
+});
+
+const apiAsset = (id: string, amount: string): TransactRequestSourceAsset => ({
+  id,
+  referenceId: `${id}_REFERENCE_ID`,
+  owner: "0x0000000000000000000000000000000000000001",
+  contractName: "SATPTokenContract",
+  contractAddress: "0x0000000000000000000000000000000000000002",
+  amount,
+  networkId: { id: "BesuLedgerTestNetwork", ledgerType: LedgerType.Besu2X },
+  tokenType: "NONSTANDARD_FUNGIBLE",
+});
+
+const batchAssets: TransactRequestBatchAssetsInner[] = [
+  { sourceAsset: apiAsset("A", "10"), receiverAsset: apiAsset("B", "10") },
+  { sourceAsset: apiAsset("C", "20"), receiverAsset: apiAsset("D", "20") },
+  { sourceAsset: apiAsset("E", "30"), receiverAsset: apiAsset("F", "30") },
+];
+
+const createMockBridgeManager = (
+  processed: string[],
+  failingAmount?: string,
+): BridgeManagerClientInterface => {
+  const operation = async (asset: Asset) => {
+    const amount = (asset as { amount?: string }).amount;
+    if (amount == failingAmount) {
+      throw new Error(`leg with amount ${amount} failed`);
+    }
+    processed.push(amount as string);
+    return { receipt: `receipt-${amount}`, proof: `proof-${amount}` };
+  };
+  return {
+    getSATPExecutionLayer: () => ({
+      lockAsset: operation,
+      unlockAsset: operation,
+    }),
+  } as unknown as BridgeManagerClientInterface;
+};
+
+const createBatchSession = (): SATPSession => {
+  const session = new SATPSession({
+    contextID: "MOCK_CONTEXT_ID",
+    server: false,
+    client: true,
+    monitorService,
+  });
+  session.getClientSessionData().transferContextId = "MOCK_CONTEXT_ID";
+  return populateClientBatchSessionData(session, batchAssets);
+};
+
+describe("SATP batch transfers", () => {
+  it("should populate one sender and one receiver asset per batch leg", () => {
+    const sessionData = createBatchSession().getClientSessionData();
+
+    expect(sessionData.batchSenderAssets).toHaveLength(3);
+    expect(sessionData.batchReceiverAssets).toHaveLength(3);
+    expect(sessionData.batchSenderAssets[1].amount).toBe(BigInt(20));
+    expect(sessionData.batchSenderAssets[1].tokenType).toBe(
+      TokenType.NONSTANDARD_FUNGIBLE,
+    );
+    expect(sessionData.batchSenderAssets[0].tokenId).toEndWith(
+      "-MOCK_CONTEXT_ID",
+    );
+    expect(sessionData.batchReceiverAssets[0].tokenId).toBe("");
+  });
+
+  it("should reject a message whose batch legs do not match the session", () => {
+    expect(() => checkBatchLegs("test", "batchLegs", 2, 2)).not.toThrow();
+    expect(() => checkBatchLegs("test", "batchLegs", 2, 1)).toThrow(
+      BatchLegsMismatchError,
+    );
+  });
+
+  it("should reject a batch leg whose token type the leaf cannot bridge", () => {
+    const sessionData = createBatchSession().getClientSessionData();
+    // a leaf that only bridges fungible tokens, like the Polkadot one
+    const bridgeManager = {
+      getBridgeEndPoint: () => ({
+        getSupportedTokenTypes: () => [
+          TokenType.ERC20,
+          TokenType.NONSTANDARD_FUNGIBLE,
+        ],
+      }),
+    } as unknown as BridgeManagerClientInterface;
+
+    expect(() =>
+      checkSupportedTokenTypes(
+        "test",
+        sessionData.batchSenderAssets,
+        bridgeManager,
+        ClaimFormat.DEFAULT,
+      ),
+    ).not.toThrow();
+
+    sessionData.batchSenderAssets[2].tokenType = TokenType.ERC721;
+    expect(() =>
+      checkSupportedTokenTypes(
+        "test",
+        sessionData.batchSenderAssets,
+        bridgeManager,
+        ClaimFormat.DEFAULT,
+      ),
+    ).toThrow(TokenTypeNotSupportedError);
+  });
+
+  it("should persist every batch leg's claim before processing it", async () => {
+    const sessionData = createBatchSession().getClientSessionData();
+    const processed: string[] = [];
+    const persisted: string[] = [];
+
+    await expect(
+      executeBatchLegs(
+        "test",
+        sessionData.batchSenderAssets,
+        createMockBridgeManager(processed, "30"),
+        ClaimFormat.DEFAULT,
+        signer,
+        (bridge, asset) => bridge.lockAsset(asset),
+        sessionData.batchLockAssertionClaims,
+        () => create(LockAssertionClaimSchema, {}),
+        async (operation) => {
+          persisted.push(
+            `${operation}:${sessionData.batchLockAssertionClaims.length}`,
+          );
+        },
+      ),
+    ).rejects.toThrow("leg with amount 30 failed");
+
+    expect(processed).toEqual(["10", "20"]);
+    expect(persisted).toEqual([
+      "exec-leg-0:1",
+      "done-leg-0:1",
+      "exec-leg-1:2",
+      "done-leg-1:2",
+      "exec-leg-2:3",
+    ]);
+    expect(
+      sessionData.batchLockAssertionClaims.map((claim) => claim.receipt),
+    ).toEqual(["receipt-10", "receipt-20", ""]);
+    expect(sessionData.batchLockAssertionClaims[1].signature).not.toBeEmpty();
+  });
+
+  it("should not process a batch leg whose claim could not be persisted", async () => {
+    const sessionData = createBatchSession().getClientSessionData();
+    const processed: string[] = [];
+
+    await expect(
+      executeBatchLegs(
+        "test",
+        sessionData.batchSenderAssets,
+        createMockBridgeManager(processed),
+        ClaimFormat.DEFAULT,
+        signer,
+        (bridge, asset) => bridge.lockAsset(asset),
+        sessionData.batchLockAssertionClaims,
+        () => create(LockAssertionClaimSchema, {}),
+        async () => {
+          throw new Error("database unavailable");
+        },
+      ),
+    ).rejects.toThrow("database unavailable");
+
+    expect(processed).toBeEmpty();
+  });
+
+  it("should compensate only the processed batch legs, newest first", async () => {
+    const sessionData = createBatchSession().getClientSessionData();
+    const processed: string[] = [];
+    const rollbackState = create(RollbackStateSchema, {
+      rollbackLogEntries: [],
+    });
+
+    await compensateBatchLegs(
+      log,
+      createMockBridgeManager(processed, "10"),
+      sessionData,
+      rollbackState,
+      "SATP_STAGE_2",
+      "UNLOCK_ASSET_CLIENT",
+      sessionData.batchSenderAssets,
+      2,
+      (bridge, asset) => bridge.unlockAsset(asset),
+    );
+
+    expect(processed).toEqual(["20"]);
+    expect(rollbackState.rollbackLogEntries.map((e) => e.status)).toEqual([
+      "SUCCESS",
+      "FAILED",
+    ]);
+    expect(rollbackState.rollbackLogEntries[0].action).toBe(
+      "UNLOCK_ASSET_CLIENT",
+    );
+  });
+});
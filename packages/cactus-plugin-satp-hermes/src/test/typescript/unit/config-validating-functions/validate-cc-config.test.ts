@@ -3,6 +3,8 @@ import { validateCCConfig } from "../../../../main/typescript/services/validatio
 import { INetworkOptions } from "../../../../main/typescript/cross-chain-mechanisms/bridge/bridge-types";
 import { IBesuLeafNeworkOptions } from "../../../../main/typescript/cross-chain-mechanisms/bridge/leafs/besu-leaf";
 import { IEthereumLeafNeworkOptions } from "../../../../main/typescript/cross-chain-mechanisms/bridge/leafs/ethereum-leaf";
+import { IPolkadotLeafNeworkOptions } from "../../../../main/typescript/cross-chain-mechanisms/bridge/leafs/polkadot-leaf";
+import { IStellarLeafNeworkOptions } from "../../../../main/typescript/cross-chain-mechanisms/bridge/leafs/stellar-leaf";
 import {
   FABRIC_25_LTS_FABRIC_SAMPLES_ENV_INFO_ORG_1,
   FABRIC_25_LTS_FABRIC_SAMPLES_ENV_INFO_ORG_2,
@@ -225,6 +227,61 @@ const besuConfig = {
   gas: 999999999999999,
 } as Partial<IBesuLeafNeworkOptions> & INetworkOptions;
 
+const polkadotConfig = {
+  networkIdentification: {
+    id: "PolkadotLedgerTestNetwork",
+    ledgerType: "POLKADOT",
+  },
+  signingCredential: {
+    type: "MNEMONIC_STRING",
+    mnemonic: "//Alice",
+  },
+  connectorOptions: {
+    wsProviderUrl: "ws://172.20.0.7:9944",
+  },
+  leafId: "exampleLeafId",
+  keyPair: {
+    publicKey:
+      "0x03a34e1d66b78e47fa1bba3445a6019acb5b9c87d0c6ad81c09e7d496682ae81fc",
+    privateKey:
+      "0x1c3a1e987fdabc9aeea47e457ad4db9732f7d7b6d2856d6e3f9b8d88ff6e227e",
+  },
+  wrapperContractAddress: "5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY",
+  gasLimit: {
+    refTime: 6219235328,
+    proofSize: 131072,
+  },
+} as Partial<IPolkadotLeafNeworkOptions> & INetworkOptions;
+
+const stellarConfig = {
+  networkIdentification: {
+    id: "StellarLedgerTestNetwork",
+    ledgerType: "STELLAR",
+  },
+  signingCredential: {
+    publicKey: "GCGOWPXIR6MSQXK2TQ3D3HIB3RMHKHCAEN7FA63L3BCZ7XA3Q6J2LTEE",
+    secretKey: "SBQFGDMVPPV3BA2ADSBXKJ5KRZXXM7ZBAJBU4TRXCP6XLPJ7YBSXDU2T",
+  },
+  connectorOptions: {
+    networkConfig: {
+      networkPassphrase: "Standalone Network ; February 2017",
+      rpcUrl: "http://172.20.0.8:8000/rpc",
+      horizonUrl: "http://172.20.0.8:8000",
+      friendbotUrl: "http://172.20.0.8:8000/friendbot",
+      allowHttp: true,
+    },
+  },
+  leafId: "exampleLeafId",
+  keyPair: {
+    publicKey:
+      "0x03a34e1d66b78e47fa1bba3445a6019acb5b9c87d0c6ad81c09e7d496682ae81fc",
+    privateKey:
+      "0x1c3a1e987fdabc9aeea47e457ad4db9732f7d7b6d2856d6e3f9b8d88ff6e227e",
+  },
+  fee: 100,
+  timeout: 30,
+};
+
 const logger: Logger = new Logger({
   label: "ValidateCCConfigTest",
   level: "DEBUG",
@@ -311,6 +368,40 @@ describe("Validate CC Config", () => {
     );
   });
 
+  it("should pass with a valid cc config (PolkadotConfig)", async () => {
+    const bridgeConfig = [polkadotConfig];
+    const result = await validateCCConfig(
+      {
+        configValue: {
+          bridgeConfig,
+        },
+      },
+      logger,
+    );
+    expect(result.bridgeConfig![0].networkIdentification.ledgerType).toEqual(
+      "POLKADOT",
+    );
+  });
+
+  it("should pass with a valid cc config (StellarConfig)", async () => {
+    const bridgeConfig = [stellarConfig];
+    const result = await validateCCConfig(
+      {
+        configValue: {
+          bridgeConfig,
+        },
+      },
+      logger,
+    );
+    expect(result.bridgeConfig![0].networkIdentification.ledgerType).toEqual(
+      "STELLAR",
+    );
+    expect(
+      (result.bridgeConfig![0] as Partial<IStellarLeafNeworkOptions>)
+        .connectorOptions?.networkConfig?.networkPassphrase,
+    ).toEqual("Standalone Network ; February 2017");
+  });
+
   it("should throw when instantiate SATP Gateway Runner without bridgesConfig nor oracleConfig", async () => {
     expect(
       validateCCConfig(
@@ -748,4 +839,54 @@ describe("Validate CC Config", () => {
       /Invalid config\.bridgesConfig \|\| config\.oracleConfig/,
     );
   });
+
+  it("should throw when is an invalid PolkadotConfig (the signingCredential should be a mnemonic)", async () => {
+    const badPolkadotConfig = {
+      ...polkadotConfig,
+      signingCredential: {
+        ethAccount: "0x736dC9B8258Ec5ab2419DDdffA9e1fa5C201D0b4",
+        secret:
+          "0xc31e76f70d6416337d3a7b7a8711a43e30a14963b5ba622fa6c9dbb5b4555986",
+        type: "PRIVATE_KEY_HEX", //should be MNEMONIC_STRING
+      },
+    };
+    const bridgeConfig = [badPolkadotConfig];
+    expect(
+      validateCCConfig(
+        {
+          configValue: {
+            bridgeConfig,
+          },
+        },
+        logger,
+      ),
+    ).rejects.toThrowError(
+      /Invalid config\.bridgesConfig \|\| config\.oracleConfig/,
+    );
+  });
+
+  it("should throw when is an invalid StellarOptionsJSON (the connectorOptions->networkConfig->networkPassphrase should be a string)", async () => {
+    const badStellarConfig = {
+      ...stellarConfig,
+      connectorOptions: {
+        networkConfig: {
+          ...stellarConfig.connectorOptions.networkConfig,
+          networkPassphrase: 2017, //should be a string
+        },
+      },
+    };
+    const bridgeConfig = [badStellarConfig];
+    expect(
+      validateCCConfig(
+        {
+          configValue: {
+            bridgeConfig,
+          },
+        },
+        logger,
+      ),
+    ).rejects.toThrowError(
+      /Invalid config\.bridgesConfig \|\| config\.oracleConfig/,
+    );
+  });
 });
@@ -0,0 +1,100 @@
+import "jest-extended";
+import { validateSatpDiscoveryConfig } from "../../../../main/typescript/services/validation/config-validating-functions/validate-satp-discovery-config";
+
+const ERROR_SUFFIX = "Expected a 'registry' of type file, http, consortium";
+
+describe("validateSatpDiscoveryConfig", () => {
+  it("should pass with a file registry", () => {
+    const discovery = {
+      registry: { type: "file", path: "/opt/cacti/satp-hermes/registry.json" },
+      trustedGateways: { "gateway-b": "02abcd" },
+    };
+    const result = validateSatpDiscoveryConfig({
+      configValue: discovery,
+    });
+    expect(result).toEqual(discovery);
+  });
+
+  it("should pass with an http registry and cache options", () => {
+    const discovery = {
+      registry: { type: "http", url: "http://directory:8080", timeout: 1000 },
+      cacheTTL: 30000,
+      descriptorTTL: 600000,
+      publish: false,
+      trustedGateways: { "gateway-b": "02abcd", "gateway-c": "03ef01" },
+    };
+    const result = validateSatpDiscoveryConfig({
+      configValue: discovery,
+    });
+    expect(result).toEqual(discovery);
+  });
+
+  it("should return undefined when discovery is not configured", () => {
+    const result = validateSatpDiscoveryConfig({
+      configValue: undefined,
+    });
+    expect(result).toBeUndefined();
+  });
+
+  it("should throw with an unknown registry type", () => {
+    const discovery = {
+      registry: { type: "dns", url: "example.org" },
+      trustedGateways: { "gateway-b": "02abcd" },
+    };
+    expect(() =>
+      validateSatpDiscoveryConfig({
+        configValue: discovery,
+      }),
+    ).toThrowError(
+      `Invalid config.discovery: ${JSON.stringify(discovery)}. ${ERROR_SUFFIX}`,
+    );
+  });
+
+  it("should throw when a file registry has no path", () => {
+    const discovery = {
+      registry: { type: "file" },
+      trustedGateways: { "gateway-b": "02abcd" },
+    };
+    expect(() =>
+      validateSatpDiscoveryConfig({
+        configValue: discovery,
+      }),
+    ).toThrowError(
+      `Invalid config.discovery: ${JSON.stringify(discovery)}. ${ERROR_SUFFIX}`,
+    );
+  });
+
+  it("should throw when the cache TTL is negative", () => {
+    const discovery = {
+      registry: { type: "http", url: "http://directory:8080" },
+      cacheTTL: -1,
+      trustedGateways: { "gateway-b": "02abcd" },
+    };
+    expect(() =>
+      validateSatpDiscoveryConfig({
+        configValue: discovery,
+      }),
+    ).toThrowError(
+      `Invalid config.discovery: ${JSON.stringify(discovery)}. ${ERROR_SUFFIX}`,
+    );
+  });
+
+  it("should throw when no gateway is trusted", () => {
+    for (const trustedGateways of [undefined, {}, ["02abcd"]]) {
+      const discovery = {
+        registry: {
+          type: "file",
+          path: "/opt/cacti/satp-hermes/registry.json",
+        },
+        trustedGateways,
+      };
+      expect(() =>
+        validateSatpDiscoveryConfig({
+          configValue: discovery,
+        }),
+      ).toThrowError(
+        `Invalid config.discovery.trustedGateways: ${JSON.stringify(trustedGateways)}. Expected the public key of at least one gateway, by gateway id`,
+      );
+    }
+  });
+});
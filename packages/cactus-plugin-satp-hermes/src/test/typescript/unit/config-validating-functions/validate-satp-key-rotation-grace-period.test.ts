@@ -0,0 +1,45 @@
+import "jest-extended";
+import { validateSatpKeyRotationGracePeriod } from "../../../../main/typescript/services/validation/config-validating-functions/validate-satp-key-rotation-grace-period";
+
+describe("validateSatpKeyRotationGracePeriod", () => {
+  it("should pass with a positive integer", () => {
+    const result = validateSatpKeyRotationGracePeriod({
+      configValue: 60000,
+    });
+    expect(result).toEqual(60000);
+  });
+
+  it("should pass with zero", () => {
+    const result = validateSatpKeyRotationGracePeriod({
+      configValue: 0,
+    });
+    expect(result).toEqual(0);
+  });
+
+  it("should return undefined when the grace period is not set", () => {
+    const result = validateSatpKeyRotationGracePeriod({
+      configValue: undefined,
+    });
+    expect(result).toBeUndefined();
+  });
+
+  it("should throw when the grace period is negative", () => {
+    expect(() =>
+      validateSatpKeyRotationGracePeriod({
+        configValue: -1,
+      }),
+    ).toThrowError(
+      `Invalid config.keyRotationGracePeriod: -1. Expected a non-negative integer (milliseconds)`,
+    );
+  });
+
+  it("should throw when the grace period is a string", () => {
+    expect(() =>
+      validateSatpKeyRotationGracePeriod({
+        configValue: "1000",
+      }),
+    ).toThrowError(
+      `Invalid config.keyRotationGracePeriod: 1000. Expected a non-negative integer (milliseconds)`,
+    );
+  });
+});
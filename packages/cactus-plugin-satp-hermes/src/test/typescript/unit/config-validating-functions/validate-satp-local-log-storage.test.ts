@@ -0,0 +1,55 @@
+import "jest-extended";
+import { validateSatpLocalLogStorage } from "../../../../main/typescript/services/validation/config-validating-functions/validate-satp-local-log-storage";
+
+const ERROR_SUFFIX =
+  "Expected a 'type' of knex, hash-chain, and a 'path' for hash-chain";
+
+describe("validateSatpLocalLogStorage", () => {
+  it("should pass with the knex storage", () => {
+    const storage = { type: "knex" };
+    const result = validateSatpLocalLogStorage({
+      configValue: storage,
+    });
+    expect(result).toEqual(storage);
+  });
+
+  it("should pass with a hash chain storage", () => {
+    const storage = {
+      type: "hash-chain",
+      path: "/opt/cacti/satp-hermes/logs/local-log.jsonl",
+    };
+    const result = validateSatpLocalLogStorage({
+      configValue: storage,
+    });
+    expect(result).toEqual(storage);
+  });
+
+  it("should return undefined when the storage is not configured", () => {
+    const result = validateSatpLocalLogStorage({
+      configValue: undefined,
+    });
+    expect(result).toBeUndefined();
+  });
+
+  it("should throw with an unknown storage type", () => {
+    const storage = { type: "ipfs", path: "http://ipfs:5001" };
+    expect(() =>
+      validateSatpLocalLogStorage({
+        configValue: storage,
+      }),
+    ).toThrowError(
+      `Invalid config.localLogStorage: ${JSON.stringify(storage)}. ${ERROR_SUFFIX}`,
+    );
+  });
+
+  it("should throw when a hash chain storage has no path", () => {
+    const storage = { type: "hash-chain" };
+    expect(() =>
+      validateSatpLocalLogStorage({
+        configValue: storage,
+      }),
+    ).toThrowError(
+      `Invalid config.localLogStorage: ${JSON.stringify(storage)}. ${ERROR_SUFFIX}`,
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import "jest-extended";
+import { validateSatpQuoteConfig } from "../../../../main/typescript/services/validation/config-validating-functions/validate-satp-quote-config";
+
+const ERROR_SUFFIX =
+  "Expected a positive 'quoteTTL' and a 'feePolicy' with integer amounts and 'basisPoints' between 0 and 10000";
+
+describe("validateSatpQuoteConfig", () => {
+  it("should pass with a fee policy", () => {
+    const quotes = {
+      feePolicy: {
+        flatFee: "10",
+        basisPoints: 25,
+        minimumFee: "15",
+        maximumFee: "1000",
+      },
+      quoteTTL: 60000,
+      requireQuote: true,
+    };
+    const result = validateSatpQuoteConfig({
+      configValue: quotes,
+    });
+    expect(result).toEqual(quotes);
+  });
+
+  it("should return undefined when quotes are not configured", () => {
+    const result = validateSatpQuoteConfig({
+      configValue: undefined,
+    });
+    expect(result).toBeUndefined();
+  });
+
+  it("should throw when a fee is not an integer string", () => {
+    const quotes = { feePolicy: { flatFee: 10 } };
+    expect(() =>
+      validateSatpQuoteConfig({
+        configValue: quotes,
+      }),
+    ).toThrowError(
+      `Invalid config.quotes: ${JSON.stringify(quotes)}. ${ERROR_SUFFIX}`,
+    );
+  });
+
+  it("should throw when the basis points exceed 100%", () => {
+    const quotes = { feePolicy: { basisPoints: 10001 } };
+    expect(() =>
+      validateSatpQuoteConfig({
+        configValue: quotes,
+      }),
+    ).toThrowError(
+      `Invalid config.quotes: ${JSON.stringify(quotes)}. ${ERROR_SUFFIX}`,
+    );
+  });
+
+  it("should throw when the quote TTL is not positive", () => {
+    const quotes = { quoteTTL: 0 };
+    expect(() =>
+      validateSatpQuoteConfig({
+        configValue: quotes,
+      }),
+    ).toThrowError(
+      `Invalid config.quotes: ${JSON.stringify(quotes)}. ${ERROR_SUFFIX}`,
+    );
+  });
+});
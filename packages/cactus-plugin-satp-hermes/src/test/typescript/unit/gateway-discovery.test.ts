@@ -0,0 +1,219 @@
+import "jest-extended";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { JsObjectSigner, Secp256k1Keys } from "@hyperledger/cactus-common";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import {
+  createKeyChange,
+  createSignedDescriptor,
+  verifyDescriptor,
+  type GatewayDescriptor,
+} from "../../../main/typescript/services/network-identification/discovery/gateway-descriptor";
+import { FileGatewayRegistry } from "../../../main/typescript/services/network-identification/discovery/file-gateway-registry";
+import { GatewayDiscoveryService } from "../../../main/typescript/services/network-identification/discovery/gateway-discovery";
+import {
+  GatewayRegistryType,
+  type IGatewayRegistry,
+} from "../../../main/typescript/services/network-identification/discovery/gateway-registry";
+import {
+  GatewayDescriptorError,
+  GatewayDiscoveryError,
+} from "../../../main/typescript/core/errors/satp-errors";
+import { bufArray2HexStr } from "../../../main/typescript/gateway-utils";
+import type { GatewayIdentity } from "../../../main/typescript/core/types";
+import { MonitorService } from "../../../main/typescript/services/monitoring/monitor";
+
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+monitorService.init();
+
+const createGateway = (id: string, networkId: string) => {
+  const keyPair = Secp256k1Keys.generateKeyPairsBuffer();
+  const signer = new JsObjectSigner({ privateKey: keyPair.privateKey });
+  const identity: GatewayIdentity = {
+    id,
+    pubKey: bufArray2HexStr(keyPair.publicKey),
+    version: [{ Core: "v02", Architecture: "v02", Crash: "v02" }],
+    connectedDLTs: [{ id: networkId, ledgerType: LedgerType.Besu2X }],
+    address: "http://localhost",
+    gatewayServerPort: 3010,
+  };
+  return { identity, signer };
+};
+
+// a registry counting how often it is read
+class CountingRegistry implements IGatewayRegistry {
+  public readonly type = GatewayRegistryType.FILE;
+  public reads = 0;
+  constructor(public descriptors: GatewayDescriptor[]) {}
+  async publish(descriptor: GatewayDescriptor): Promise<void> {
+    this.descriptors.push(descriptor);
+  }
+  async list(): Promise<GatewayDescriptor[]> {
+    this.reads++;
+    return this.descriptors;
+  }
+}
+
+describe("Gateway discovery", () => {
+  it("should reject a descriptor that was tampered with", () => {
+    const { identity, signer } = createGateway("gateway-a", "BESU");
+    const descriptor = createSignedDescriptor(identity, signer, 60000);
+
+    expect(() => verifyDescriptor(descriptor, signer)).not.toThrow();
+    expect(() =>
+      verifyDescriptor(
+        { ...descriptor, endpoints: { address: "http://attacker" } },
+        signer,
+      ),
+    ).toThrow(GatewayDescriptorError);
+    expect(() =>
+      verifyDescriptor(descriptor, signer, descriptor.expiresAt),
+    ).toThrow(GatewayDescriptorError);
+  });
+
+  it("should publish and list descriptors in a file registry", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "satp-registry-"));
+    try {
+      const registry = new FileGatewayRegistry(path.join(dir, "registry.json"));
+      const { identity, signer } = createGateway("gateway-a", "BESU");
+
+      expect(await registry.list()).toEqual([]);
+      await registry.publish(createSignedDescriptor(identity, signer, 60000));
+      await registry.publish(createSignedDescriptor(identity, signer, 60000));
+
+      const descriptors = await registry.list();
+      expect(descriptors).toHaveLength(1);
+      expect(descriptors[0].id).toBe("gateway-a");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should resolve verified gateways by network and cache the registry", async () => {
+    const gatewayA = createGateway("gateway-a", "BESU");
+    const gatewayB = createGateway("gateway-b", "FABRIC");
+    const forged = {
+      ...createSignedDescriptor(gatewayB.identity, gatewayB.signer, 60000),
+      networks: [{ id: "BESU", ledgerType: LedgerType.Besu2X }],
+    };
+    const registry = new CountingRegistry([
+      createSignedDescriptor(gatewayA.identity, gatewayA.signer, 60000),
+      forged,
+    ]);
+    const discovery = new GatewayDiscoveryService({
+      registry,
+      signer: gatewayA.signer,
+      cacheTTL: 60000,
+      trustedGateways: {
+        "gateway-a": gatewayA.identity.pubKey!,
+        "gateway-b": gatewayB.identity.pubKey!,
+      },
+      monitorService,
+    });
+
+    const besuGateways = await discovery.resolveByNetwork("BESU");
+    expect(besuGateways.map((gateway) => gateway.id)).toEqual(["gateway-a"]);
+    expect(besuGateways[0].pubKey).toBe(gatewayA.identity.pubKey);
+    expect(await discovery.resolveById("gateway-b")).toBeUndefined();
+    expect(registry.reads).toBe(1);
+
+    discovery.invalidateCache();
+    await discovery.resolveByNetwork("BESU");
+    expect(registry.reads).toBe(2);
+  });
+
+  it("should ignore descriptors signed by untrusted keys", async () => {
+    const gatewayA = createGateway("gateway-a", "BESU");
+    const gatewayB = createGateway("gateway-b", "BESU");
+    // a valid descriptor claiming the id of gateway-b with another key
+    const impostor = createGateway("gateway-b", "BESU");
+    const registry = new CountingRegistry([
+      createSignedDescriptor(gatewayA.identity, gatewayA.signer, 60000),
+      createSignedDescriptor(gatewayB.identity, gatewayB.signer, 60000),
+      createSignedDescriptor(impostor.identity, impostor.signer, 120000),
+    ]);
+    const discovery = new GatewayDiscoveryService({
+      registry,
+      signer: gatewayA.signer,
+      trustedGateways: { "gateway-b": gatewayB.identity.pubKey! },
+      monitorService,
+    });
+
+    const gateways = await discovery.resolveByNetwork("BESU");
+    expect(gateways.map((gateway) => gateway.id)).toEqual(["gateway-b"]);
+    expect(gateways[0].pubKey).toBe(gatewayB.identity.pubKey);
+  });
+
+  it("should require trusted gateways", () => {
+    const gatewayA = createGateway("gateway-a", "BESU");
+    expect(
+      () =>
+        new GatewayDiscoveryService({
+          registry: new CountingRegistry([]),
+          signer: gatewayA.signer,
+          trustedGateways: {},
+          monitorService,
+        }),
+    ).toThrow(GatewayDiscoveryError);
+  });
+
+  it("should only follow key changes signed by the trusted key", async () => {
+    const gatewayA = createGateway("gateway-a", "BESU");
+    const gatewayB = createGateway("gateway-b", "BESU");
+    const rotated = createGateway("gateway-b", "BESU");
+    const rotatedAgain = createGateway("gateway-b", "BESU");
+    const registry = new CountingRegistry([]);
+    const discovery = new GatewayDiscoveryService({
+      registry,
+      signer: gatewayA.signer,
+      cacheTTL: 0,
+      trustedGateways: { "gateway-b": gatewayB.identity.pubKey! },
+      monitorService,
+    });
+    const firstChange = createKeyChange(
+      "gateway-b",
+      gatewayB.signer,
+      gatewayB.identity.pubKey!,
+      rotated.identity.pubKey!,
+    );
+    const secondChange = createKeyChange(
+      "gateway-b",
+      rotated.signer,
+      rotated.identity.pubKey!,
+      rotatedAgain.identity.pubKey!,
+    );
+
+    // endorsed by a key that is not the trusted one
+    registry.descriptors = [
+      createSignedDescriptor(
+        rotatedAgain.identity,
+        rotatedAgain.signer,
+        60000,
+        [secondChange],
+      ),
+    ];
+    expect(await discovery.resolveById("gateway-b")).toBeUndefined();
+
+    // the whole chain leads from the trusted key to the current one
+    registry.descriptors = [
+      createSignedDescriptor(
+        rotatedAgain.identity,
+        rotatedAgain.signer,
+        60000,
+        [firstChange, secondChange],
+      ),
+    ];
+    expect((await discovery.resolveById("gateway-b"))?.pubKey).toBe(
+      rotatedAgain.identity.pubKey,
+    );
+
+    // the gateway is now pinned to its new key
+    registry.descriptors = [
+      createSignedDescriptor(gatewayB.identity, gatewayB.signer, 60000),
+    ];
+    expect(await discovery.resolveById("gateway-b")).toBeUndefined();
+  });
+});
@@ -0,0 +1,282 @@
+import "jest-extended";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { Secp256k1Keys } from "@hyperledger/cactus-common";
+import { HashChainLocalLogRepository } from "../../../main/typescript/database/repository/hash-chain-local-log-repository";
+import {
+  exportSessionLogs,
+  importSessionLogs,
+  verifySessionLogBundle,
+} from "../../../main/typescript/database/log-bundle";
+import {
+  AppendOnlyLogError,
+  LogChainVerificationError,
+} from "../../../main/typescript/core/errors/satp-errors";
+import { RotatableObjectSigner } from "../../../main/typescript/core/key-rotation/rotatable-signer";
+import { bufArray2HexStr } from "../../../main/typescript/gateway-utils";
+import type { LocalLog } from "../../../main/typescript/core/types";
+
+let dir: string;
+
+const newLog = (
+  sessionId: string,
+  sequenceNumber: number,
+  type = "transfer-commence-request",
+): LocalLog => ({
+  sessionId,
+  type,
+  key: `${sessionId}-${type}-${sequenceNumber}`,
+  operation: "done",
+  timestamp: String(1700000000000 + sequenceNumber),
+  data: JSON.stringify({ id: sessionId, step: sequenceNumber }),
+  sequenceNumber,
+});
+
+const newSigner = () => {
+  const keyPair = Secp256k1Keys.generateKeyPairsBuffer();
+  return new RotatableObjectSigner(
+    { privateKey: keyPair.privateKey },
+    bufArray2HexStr(keyPair.publicKey),
+  );
+};
+const signer = newSigner();
+
+const newRepository = () =>
+  new HashChainLocalLogRepository(path.join(dir, `${uuidv4()}.jsonl`), signer);
+
+// rewrites one line of the log file as an attacker with file access would
+const editLines = async (
+  repository: HashChainLocalLogRepository,
+  edit: (lines: string[]) => string[],
+) => {
+  const lines = (await fs.readFile(repository.filePath, "utf-8"))
+    .split("\n")
+    .filter((line) => line !== "");
+  await fs.writeFile(repository.filePath, edit(lines).join("\n") + "\n");
+};
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "satp-local-log-"));
+});
+
+afterAll(async () => {
+  await fs.remove(dir);
+});
+
+describe("Hash chained local log", () => {
+  it("should read logs back like the knex repository", async () => {
+    const repository = newRepository();
+    await Promise.all([
+      repository.create(newLog("session-a", 0)),
+      repository.create(newLog("session-a", 1)),
+      repository.create(newLog("session-a", 2, "proof")),
+      repository.create(newLog("session-b", 0)),
+    ]);
+
+    expect((await repository.readById("session-a-proof-2")).type).toBe("proof");
+    expect((await repository.readLastestLog("session-a")).sequenceNumber).toBe(
+      2,
+    );
+    expect(await repository.fetchLogsFromSequence("session-a", 0)).toHaveLength(
+      2,
+    );
+    expect(
+      (await repository.readLogsNotProofs()).map((log) => log.key),
+    ).toEqual([
+      "session-a-transfer-commence-request-1",
+      "session-b-transfer-commence-request-0",
+    ]);
+    await expect(repository.create(newLog("session-b", 0))).rejects.toThrow(
+      "already exists",
+    );
+    await expect(repository.deleteBySessionId("session-a")).rejects.toThrow(
+      AppendOnlyLogError,
+    );
+
+    const verification = await repository.verify();
+    expect(verification.valid).toBeTrue();
+    expect(verification.entries).toBe(4);
+  });
+
+  it("should detect modified and missing entries", async () => {
+    const repository = newRepository();
+    for (let i = 0; i < 4; i++) {
+      await repository.create(newLog("session-a", i));
+    }
+
+    await editLines(repository, (lines) =>
+      lines.map((line, index) =>
+        index === 1 ? line.replace('"step\\":1', '"step\\":9') : line,
+      ),
+    );
+    let verification = await repository.verify();
+    expect(verification.valid).toBeFalse();
+    expect(verification.issues).toEqual([
+      expect.objectContaining({
+        index: 1,
+        reason: expect.stringMatching(/modified/),
+      }),
+    ]);
+
+    await editLines(repository, (lines) => lines.filter((_, i) => i !== 1));
+    verification = await repository.verify();
+    expect(verification.valid).toBeFalse();
+    expect(verification.issues).toEqual([
+      expect.objectContaining({
+        index: 1,
+        reason: expect.stringMatching(/missing/),
+      }),
+    ]);
+  });
+
+  it("should detect a chain rewritten without the gateway key", async () => {
+    const repository = newRepository();
+    for (let i = 0; i < 3; i++) {
+      await repository.create(newLog("session-a", i));
+    }
+
+    // an attacker rebuilds a consistent chain, signed with their own key
+    const forged = new HashChainLocalLogRepository(
+      path.join(dir, `${uuidv4()}.jsonl`),
+      newSigner(),
+    );
+    await forged.create({ ...newLog("session-a", 0), operation: "failed" });
+    await forged.create(newLog("session-a", 1));
+    await fs.copy(forged.filePath, repository.filePath);
+
+    const verification = await repository.verify();
+    expect(verification.valid).toBeFalse();
+    expect(verification.issues).toEqual([
+      expect.objectContaining({
+        index: 0,
+        reason: expect.stringMatching(/untrusted key/),
+      }),
+      expect.objectContaining({
+        index: 1,
+        reason: expect.stringMatching(/untrusted key/),
+      }),
+    ]);
+
+    // claiming the gateway key does not help, the signature is not its own
+    await editLines(repository, (lines) =>
+      lines.map((line, index) => {
+        if (index !== 1) {
+          return line;
+        }
+        const entry = JSON.parse(line);
+        return JSON.stringify({ ...entry, signerPubKey: signer.pubKey });
+      }),
+    );
+    expect((await repository.verify()).issues[1]).toEqual(
+      expect.objectContaining({
+        index: 1,
+        reason: expect.stringMatching(/rewritten/),
+      }),
+    );
+  });
+
+  it("should trust the keys the gateway rotated away from", async () => {
+    const rotating = newSigner();
+    const previousPubKey = rotating.pubKey;
+    const filePath = path.join(dir, `${uuidv4()}.jsonl`);
+    const repository = new HashChainLocalLogRepository(
+      filePath,
+      rotating,
+      () => [previousPubKey, rotating.pubKey],
+    );
+    await repository.create(newLog("session-a", 0));
+    const keyPair = Secp256k1Keys.generateKeyPairsBuffer();
+    rotating.rotate(keyPair.privateKey, bufArray2HexStr(keyPair.publicKey));
+    await repository.create(newLog("session-a", 1));
+
+    expect((await repository.verify()).valid).toBeTrue();
+    // without the previous key, the first entry is not trusted
+    const verification = await new HashChainLocalLogRepository(
+      filePath,
+      rotating,
+    ).verify();
+    expect(verification.issues).toEqual([
+      expect.objectContaining({ index: 0 }),
+    ]);
+  });
+
+  it("should detect entries removed from the end with an anchor", async () => {
+    const repository = newRepository();
+    for (let i = 0; i < 3; i++) {
+      await repository.create(newLog("session-a", i));
+    }
+    const { head } = await repository.verify();
+    expect((await repository.verify(head)).valid).toBeTrue();
+
+    // every remaining entry is still signed, only the anchor tells
+    await editLines(repository, (lines) => lines.slice(0, 2));
+    expect((await repository.verify()).valid).toBeTrue();
+    const verification = await repository.verify(head);
+    expect(verification.valid).toBeFalse();
+    expect(verification.issues).toEqual([
+      expect.objectContaining({
+        index: 2,
+        reason: expect.stringMatching(/missing/),
+      }),
+    ]);
+  });
+
+  it("should move session logs between gateways", async () => {
+    const source = newRepository();
+    for (let i = 0; i < 3; i++) {
+      await source.create(newLog("session-a", i));
+      await source.create(newLog("session-b", i));
+    }
+
+    const bundle = await exportSessionLogs(source, ["session-a"], signer);
+    const trusted = [signer.pubKey];
+    expect(bundle.entries).toHaveLength(3);
+    expect(bundle.signerPubKey).toBe(signer.pubKey);
+    expect(verifySessionLogBundle(bundle, trusted, signer).valid).toBeTrue();
+
+    const target = newRepository();
+    await target.create(newLog("session-a", 0));
+    expect(await importSessionLogs(target, bundle, trusted, signer)).toEqual({
+      imported: 2,
+      skipped: 1,
+    });
+    expect(await target.fetchLogsFromSequence("session-a", -1)).toHaveLength(3);
+    expect((await target.verify()).valid).toBeTrue();
+
+    // dropping the last entry is caught by the head of the bundle
+    const truncated = { ...bundle, entries: bundle.entries.slice(0, 2) };
+    await expect(
+      importSessionLogs(newRepository(), truncated, trusted, signer),
+    ).rejects.toThrow(LogChainVerificationError);
+
+    const tampered = {
+      ...bundle,
+      entries: bundle.entries.map((entry, index) =>
+        index === 0 ? { ...entry, operation: "failed" } : entry,
+      ),
+    };
+    await expect(
+      importSessionLogs(newRepository(), tampered, trusted, signer),
+    ).rejects.toThrow(LogChainVerificationError);
+
+    // a bundle rebuilt by someone else is chained, but not by the exporter
+    const forgedSigner = newSigner();
+    const forged = await exportSessionLogs(source, ["session-a"], forgedSigner);
+    expect(verifySessionLogBundle(forged, trusted, signer).issues).toEqual([
+      expect.objectContaining({
+        reason: expect.stringMatching(/untrusted key/),
+      }),
+    ]);
+    await expect(
+      importSessionLogs(newRepository(), forged, trusted, signer),
+    ).rejects.toThrow(LogChainVerificationError);
+
+    // a tampered log is not exported either
+    await editLines(source, (lines) => lines.slice(1));
+    await expect(
+      exportSessionLogs(source, ["session-a"], signer),
+    ).rejects.toThrow(LogChainVerificationError);
+  });
+});
@@ -0,0 +1,228 @@
+import "jest-extended";
+import { JsObjectSigner, Secp256k1Keys } from "@hyperledger/cactus-common";
+import { stringify as safeStableStringify } from "safe-stable-stringify";
+import { GatewayKeyRegistry } from "../../../main/typescript/core/key-rotation/gateway-key-registry";
+import type { GatewayKeyEntry } from "../../../main/typescript/core/types";
+import type { IGatewayKeyRepository } from "../../../main/typescript/database/repository/interfaces/repository";
+import { RotatableObjectSigner } from "../../../main/typescript/core/key-rotation/rotatable-signer";
+import { verifyRotatedSignature } from "../../../main/typescript/core/stage-services/data-verifier";
+import { KeyRotationError } from "../../../main/typescript/core/errors/satp-errors";
+import { bufArray2HexStr } from "../../../main/typescript/gateway-utils";
+
+const GRACE_PERIOD = 1000;
+
+const newKeyPair = () => {
+  const keyPair = Secp256k1Keys.generateKeyPairsBuffer();
+  return {
+    privateKey: bufArray2HexStr(keyPair.privateKey),
+    publicKey: bufArray2HexStr(keyPair.publicKey),
+  };
+};
+
+// signs the message the way the stage services do
+const signMessage = (signer: JsObjectSigner, sessionId: string) => {
+  const message = { sessionId, serverSignature: "" };
+  message.serverSignature = bufArray2HexStr(
+    signer.sign(safeStableStringify(message)),
+  );
+  return message;
+};
+
+// keeps the entries in memory, like the knex repository keeps them in a table
+const createKeyRepository = (): IGatewayKeyRepository & {
+  entries: Map<string, GatewayKeyEntry>;
+} => {
+  const entries = new Map<string, GatewayKeyEntry>();
+  return {
+    entries,
+    database: undefined,
+    readById: async (publicKey) => entries.get(publicKey)!,
+    readAll: async () => Array.from(entries.values()),
+    create: async (entry) => {
+      entries.set(entry.publicKey, { ...entry });
+    },
+    createAll: async (toStore) => {
+      toStore.forEach((entry) => entries.set(entry.publicKey, { ...entry }));
+    },
+    destroy: async () => undefined,
+    reset: async () => entries.clear(),
+  };
+};
+
+describe("Gateway key rotation", () => {
+  it("should accept the previous key only during the grace period", async () => {
+    const registry = new GatewayKeyRegistry(GRACE_PERIOD);
+    registry.registerKey("gateway-a", "key-1");
+
+    await registry.recordRotation(
+      "gateway-a",
+      "key-1",
+      "key-2",
+      100,
+      GRACE_PERIOD,
+    );
+
+    expect(registry.getCurrentKey("gateway-a")).toBe("key-2");
+    expect(registry.getAcceptedKeys("key-1", 500)).toIncludeSameMembers([
+      "key-1",
+      "key-2",
+    ]);
+    expect(registry.getAcceptedKeys("key-1", 1100)).toEqual(["key-2"]);
+    expect(registry.getAcceptedKeys("unknown-key")).toEqual(["unknown-key"]);
+  });
+
+  it("should cap the grace period requested by the counterparty", async () => {
+    const registry = new GatewayKeyRegistry(GRACE_PERIOD);
+    registry.registerKey("gateway-a", "key-1");
+
+    await registry.recordRotation("gateway-a", "key-1", "key-2", 100, 10 ** 9);
+
+    expect(registry.getAcceptedKeys("key-2", 1100)).toEqual(["key-2"]);
+  });
+
+  it("should reject stale and inconsistent rotations", async () => {
+    const registry = new GatewayKeyRegistry(GRACE_PERIOD);
+    registry.registerKey("gateway-a", "key-1");
+    await registry.recordRotation(
+      "gateway-a",
+      "key-1",
+      "key-2",
+      100,
+      GRACE_PERIOD,
+    );
+
+    await expect(
+      registry.recordRotation("gateway-a", "key-2", "key-3", 50, GRACE_PERIOD),
+    ).rejects.toThrow(KeyRotationError);
+    await expect(
+      registry.recordRotation("gateway-a", "key-1", "key-3", 200, GRACE_PERIOD),
+    ).rejects.toThrow(KeyRotationError);
+    await expect(
+      registry.recordRotation("gateway-a", "key-2", "key-1", 200, GRACE_PERIOD),
+    ).rejects.toThrow(KeyRotationError);
+  });
+
+  it("should notify listeners of a rotation", async () => {
+    const registry = new GatewayKeyRegistry(GRACE_PERIOD);
+    const rotations: string[][] = [];
+    registry.onRotation((...args) => rotations.push(args));
+
+    await registry.recordRotation(
+      "gateway-a",
+      "key-1",
+      "key-2",
+      100,
+      GRACE_PERIOD,
+    );
+
+    expect(rotations).toEqual([["gateway-a", "key-1", "key-2"]]);
+  });
+
+  it("should keep verifying messages of in-flight sessions after a rotation", async () => {
+    const first = newKeyPair();
+    const second = newKeyPair();
+    const signer = new RotatableObjectSigner(
+      { privateKey: first.privateKey },
+      first.publicKey,
+    );
+    const registry = new GatewayKeyRegistry(GRACE_PERIOD);
+    registry.registerKey("gateway-a", first.publicKey);
+
+    const beforeRotation = signMessage(signer, "1");
+    const previousSigner = signer.rotate(second.privateKey, second.publicKey);
+    await registry.recordRotation(
+      "gateway-a",
+      first.publicKey,
+      second.publicKey,
+      Date.now(),
+      GRACE_PERIOD,
+    );
+    const afterRotation = signMessage(signer, "1");
+
+    expect(signer.pubKey).toBe(second.publicKey);
+    expect(previousSigner.sign("test")).not.toEqual(signer.sign("test"));
+
+    // the session recorded the first key for its counterparty
+    expect(
+      verifyRotatedSignature(signer, afterRotation, first.publicKey, registry),
+    ).toBeTrue();
+    expect(
+      verifyRotatedSignature(
+        signer,
+        beforeRotation,
+        second.publicKey,
+        registry,
+      ),
+    ).toBeTrue();
+    expect(
+      verifyRotatedSignature(signer, afterRotation, first.publicKey),
+    ).toBeFalse();
+  });
+
+  it("should store a rotation and restore it after a restart", async () => {
+    const repository = createKeyRepository();
+    const registry = new GatewayKeyRegistry(GRACE_PERIOD, repository);
+    registry.registerKey("gateway-a", "key-1");
+    await registry.recordRotation(
+      "gateway-a",
+      "key-1",
+      "key-2",
+      100,
+      GRACE_PERIOD,
+      "private-key-2",
+      "key-change-signature-2",
+    );
+
+    expect(repository.entries.get("key-1")).toMatchObject({
+      expiresAt: 100 + GRACE_PERIOD,
+      privateKey: null,
+    });
+    expect(repository.entries.get("key-2")).toMatchObject({
+      previousPublicKey: "key-1",
+      privateKey: "private-key-2",
+    });
+
+    // the restarted gateway registers the keys of its configuration again
+    const restarted = new GatewayKeyRegistry(GRACE_PERIOD, repository);
+    const rotations: string[][] = [];
+    restarted.onRotation((...args) => rotations.push(args));
+    restarted.registerKey("gateway-a", "key-1");
+    await restarted.restore();
+
+    expect(restarted.getCurrentKey("gateway-a")).toBe("key-2");
+    expect(restarted.getAcceptedKeys("key-1", 500)).toIncludeSameMembers([
+      "key-1",
+      "key-2",
+    ]);
+    expect(rotations).toEqual([["gateway-a", "key-1", "key-2"]]);
+    expect(restarted.getKeyChain("gateway-a")).toEqual([
+      {
+        previousPubKey: "key-1",
+        pubKey: "key-2",
+        signature: "key-change-signature-2",
+      },
+    ]);
+    await expect(
+      restarted.recordRotation("gateway-a", "key-2", "key-3", 100, 0),
+    ).rejects.toThrow(KeyRotationError);
+  });
+
+  it("should not apply a rotation that could not be stored", async () => {
+    const repository = createKeyRepository();
+    repository.createAll = async () => {
+      throw new Error("database unavailable");
+    };
+    const registry = new GatewayKeyRegistry(GRACE_PERIOD, repository);
+    const rotations: string[][] = [];
+    registry.onRotation((...args) => rotations.push(args));
+    registry.registerKey("gateway-a", "key-1");
+
+    await expect(
+      registry.recordRotation("gateway-a", "key-1", "key-2", 100, 0),
+    ).rejects.toThrow(KeyRotationError);
+
+    expect(registry.getCurrentKey("gateway-a")).toBe("key-1");
+    expect(registry.getAcceptedKeys("key-1", 500)).toEqual(["key-1"]);
+    expect(rotations).toBeEmpty();
+  });
+});
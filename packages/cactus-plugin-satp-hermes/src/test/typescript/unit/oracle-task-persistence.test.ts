@@ -0,0 +1,289 @@
+import "jest-extended";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import { v4 as uuidv4 } from "uuid";
+import { OracleManager } from "../../../main/typescript/cross-chain-mechanisms/oracle/oracle-manager";
+import type { OracleAbstract } from "../../../main/typescript/cross-chain-mechanisms/oracle/oracle-abstract";
+import type { OracleExecutionLayer } from "../../../main/typescript/cross-chain-mechanisms/oracle/oracle-execution-layer";
+import { InvalidTaskStateError } from "../../../main/typescript/cross-chain-mechanisms/common/errors";
+import { KnexOracleTaskRepository } from "../../../main/typescript/database/repository/knex-oracle-task-repository";
+import { knexLocalInstance } from "../../../main/typescript/database/knexfile";
+import {
+  OracleEventCursor,
+  OracleOperationStatusEnum,
+  OracleTask,
+  OracleTaskModeEnum,
+  OracleTaskStatusEnum,
+  OracleTaskTypeEnum,
+} from "../../../main/typescript/public-api";
+import { MonitorService } from "../../../main/typescript/services/monitoring/monitor";
+
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+monitorService.init();
+
+let repository: KnexOracleTaskRepository;
+
+const networkId = {
+  id: "EthereumLedgerTestNetwork",
+  ledgerType: LedgerType.Ethereum,
+};
+
+const newTask = (mode: OracleTaskModeEnum): OracleTask => ({
+  taskID: uuidv4(),
+  type: OracleTaskTypeEnum.Update,
+  srcNetworkId: networkId,
+  srcContract: {
+    contractName: "OracleTestContract",
+    contractAddress: "0x0000000000000000000000000000000000000001",
+    contractAbi: [],
+  },
+  dstNetworkId: networkId,
+  dstContract: {
+    contractName: "OracleTestContract",
+    contractAddress: "0x0000000000000000000000000000000000000001",
+    methodName: "setData",
+  },
+  timestamp: 0,
+  operations: [],
+  status: OracleTaskStatusEnum.Inactive,
+  mode,
+  pollingInterval: mode === OracleTaskModeEnum.Polling ? 60000 : undefined,
+  listeningOptions: { eventSignature: "UpdatedData(string)" },
+});
+
+// an oracle manager whose oracles only record what they are asked to do
+const createManager = () => {
+  const manager = new OracleManager({
+    bungee: undefined,
+    monitorService,
+    taskRepository: repository,
+  });
+
+  const subscription: {
+    emit?: (params: string[], cursor?: OracleEventCursor) => void;
+    fromCursor?: OracleEventCursor;
+  } = {};
+  const updates: unknown[] = [];
+  // set by the tests to make the destination network fail or hang
+  const destination: { unavailable?: boolean; hanging?: boolean } = {};
+
+  jest.spyOn(manager, "getNetworkOracle").mockReturnValue({
+    subscribeContractEvent: async (
+      _args: unknown,
+      callback: (params: string[], cursor?: OracleEventCursor) => void,
+      _filter?: string[],
+      fromCursor?: OracleEventCursor,
+    ) => {
+      subscription.emit = callback;
+      subscription.fromCursor = fromCursor;
+      return { unsubscribe: () => (subscription.emit = undefined) };
+    },
+  } as unknown as OracleAbstract);
+  jest.spyOn(manager, "getOracleExecutionLayer").mockReturnValue({
+    convertOperationToEntry: () => ({}),
+    updateEntry: async (entry: unknown) => {
+      if (destination.hanging) {
+        return new Promise(() => undefined);
+      }
+      if (destination.unavailable) {
+        throw new Error("Destination unavailable", {
+          cause: new Error("connection refused"),
+        });
+      }
+      updates.push(entry);
+      return { transactionResponse: { transactionId: uuidv4() } };
+    },
+  } as unknown as OracleExecutionLayer);
+
+  return { manager, subscription, updates, destination };
+};
+
+// events are handled asynchronously, one at a time per task
+const settle = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+beforeAll(async () => {
+  repository = new KnexOracleTaskRepository(knexLocalInstance.default);
+  await repository.database.migrate.latest();
+});
+
+// every test restarts the gateway from a database holding only its own tasks
+beforeEach(async () => {
+  await repository.reset();
+});
+
+afterAll(async () => {
+  await repository.destroy();
+});
+
+describe("Oracle task persistence", () => {
+  it("should resume event listening tasks from their cursor", async () => {
+    const task = newTask(OracleTaskModeEnum.EventListening);
+
+    const before = createManager();
+    await before.manager.registerTask(task);
+    before.subscription.emit!(["a"], { blockNumber: 10, logIndex: 0 });
+    before.subscription.emit!(["b"], { blockNumber: 10, logIndex: 1 });
+    await settle();
+    await before.manager.shutdown();
+    expect(before.updates).toHaveLength(2);
+
+    // a new gateway process, with the same database
+    const after = createManager();
+    await after.manager.resumeTasks();
+    expect(after.manager.getTaskStatus(task.taskID)).toBe(
+      OracleTaskStatusEnum.Active,
+    );
+    expect(after.subscription.fromCursor).toEqual({
+      blockNumber: 10,
+      logIndex: 1,
+    });
+
+    // the ledger replays the last event processed before the new one
+    after.subscription.emit!(["b"], { blockNumber: 10, logIndex: 1 });
+    after.subscription.emit!(["c"], { blockNumber: 11, logIndex: 0 });
+    await settle();
+    expect(after.updates).toHaveLength(1);
+
+    const history = after.manager.getTaskHistory(task.taskID);
+    expect(history.eventCursor).toEqual({ blockNumber: 11, logIndex: 0 });
+    expect(history.operations).toHaveLength(3);
+    expect(
+      history.operations.map((operation) => operation.status),
+    ).toSatisfyAll((status) => status === OracleOperationStatusEnum.Success);
+    await after.manager.shutdown();
+  });
+
+  it("should only move the cursor past events that were relayed", async () => {
+    const task = newTask(OracleTaskModeEnum.EventListening);
+
+    const { manager, subscription, updates, destination } = createManager();
+    await manager.registerTask(task);
+    subscription.emit!(["a"], { blockNumber: 10, logIndex: 0 });
+    await settle();
+
+    destination.unavailable = true;
+    subscription.emit!(["b"], { blockNumber: 11, logIndex: 0 });
+    subscription.emit!(["c"], { blockNumber: 12, logIndex: 0 });
+    await settle();
+
+    // the task stops at the event that failed, the next one is not relayed
+    expect(updates).toHaveLength(1);
+    expect(manager.getTaskStatus(task.taskID)).toBe(
+      OracleTaskStatusEnum.Paused,
+    );
+    expect(manager.getTaskHistory(task.taskID).eventCursor).toEqual({
+      blockNumber: 10,
+      logIndex: 0,
+    });
+    const entry = await repository.readById(task.taskID);
+    expect(entry.status).toBe(OracleTaskStatusEnum.Paused);
+    expect(JSON.parse(entry.eventCursor!)).toEqual({
+      blockNumber: 10,
+      logIndex: 0,
+    });
+    expect(entry.pendingEventCursor).toBeNull();
+
+    destination.unavailable = false;
+    await manager.resumeTask(task.taskID);
+    expect(subscription.fromCursor).toEqual({ blockNumber: 10, logIndex: 0 });
+    subscription.emit!(["b"], { blockNumber: 11, logIndex: 0 });
+    subscription.emit!(["c"], { blockNumber: 12, logIndex: 0 });
+    await settle();
+
+    expect(updates).toHaveLength(3);
+    expect(manager.getTaskHistory(task.taskID).eventCursor).toEqual({
+      blockNumber: 12,
+      logIndex: 0,
+    });
+    await manager.shutdown();
+  });
+
+  it("should not relay again an event interrupted by a restart", async () => {
+    const task = newTask(OracleTaskModeEnum.EventListening);
+
+    // the gateway stops while the event is being relayed
+    const before = createManager();
+    await before.manager.registerTask(task);
+    before.destination.hanging = true;
+    before.subscription.emit!(["a"], { blockNumber: 10, logIndex: 0 });
+    await settle();
+    const entry = await repository.readById(task.taskID);
+    expect(JSON.parse(entry.pendingEventCursor!)).toEqual({
+      blockNumber: 10,
+      logIndex: 0,
+    });
+
+    const after = createManager();
+    await after.manager.resumeTasks();
+    expect(after.manager.getTaskStatus(task.taskID)).toBe(
+      OracleTaskStatusEnum.Paused,
+    );
+    expect(after.subscription.emit).toBeUndefined();
+
+    // resuming it is the operator's call, as the event may be relayed twice
+    await after.manager.resumeTask(task.taskID);
+    after.subscription.emit!(["a"], { blockNumber: 10, logIndex: 0 });
+    await settle();
+    expect(after.updates).toHaveLength(1);
+    expect(
+      (await repository.readById(task.taskID)).pendingEventCursor,
+    ).toBeNull();
+    await after.manager.shutdown();
+  });
+
+  it("should keep the schedule of polling tasks across restarts", async () => {
+    const task = newTask(OracleTaskModeEnum.Polling);
+
+    const before = createManager();
+    await before.manager.registerTask(task);
+    // last polled 20 seconds ago
+    await repository.update(task.taskID, {
+      lastExecutedAt: Date.now() - 20000,
+    });
+    await before.manager.shutdown();
+
+    const after = createManager();
+    const addPoller = jest.spyOn(
+      after.manager.getSchedulerManager(),
+      "addPoller",
+    );
+    await after.manager.resumeTasks();
+
+    expect(addPoller).toHaveBeenCalledTimes(1);
+    const [id, , interval, initialDelay] = addPoller.mock.calls[0];
+    expect(id).toBe(task.taskID);
+    expect(interval).toBe(60000);
+    expect(initialDelay).toBeGreaterThan(39000);
+    expect(initialDelay).toBeLessThanOrEqual(40000);
+    await after.manager.shutdown();
+  });
+
+  it("should persist paused tasks and only resume them on request", async () => {
+    const task = newTask(OracleTaskModeEnum.EventListening);
+
+    const before = createManager();
+    await before.manager.registerTask(task);
+    await expect(before.manager.resumeTask(task.taskID)).rejects.toThrow(
+      InvalidTaskStateError,
+    );
+    await before.manager.pauseTask(task.taskID);
+    expect(before.subscription.emit).toBeUndefined();
+    await before.manager.shutdown();
+
+    const after = createManager();
+    await after.manager.resumeTasks();
+    expect(after.manager.getTaskStatus(task.taskID)).toBe(
+      OracleTaskStatusEnum.Paused,
+    );
+    expect(after.subscription.emit).toBeUndefined();
+
+    await after.manager.resumeTask(task.taskID);
+    expect(after.subscription.emit).toBeDefined();
+    expect((await repository.readById(task.taskID)).status).toBe(
+      OracleTaskStatusEnum.Active,
+    );
+    await after.manager.unregisterTask(task.taskID);
+    await after.manager.shutdown();
+  });
+});
@@ -0,0 +1,262 @@
+import "jest-extended";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import {
+  applyTransformations,
+  checkMatchPattern,
+  MAX_MATCH_INPUT_LENGTH,
+  MAX_MATCH_PATTERN_LENGTH,
+  selectJsonPath,
+  validateTransformations,
+} from "../../../main/typescript/cross-chain-mechanisms/oracle/oracle-transformations";
+import {
+  InvalidTransformationError,
+  TransformationError,
+} from "../../../main/typescript/cross-chain-mechanisms/common/errors";
+import {
+  BusinessLogicContract,
+  OracleTask,
+  OracleTaskModeEnum,
+  OracleTaskStatusEnum,
+  OracleTaskTypeEnum,
+  OracleTransformationStep,
+} from "../../../main/typescript/public-api";
+
+const networkId = {
+  id: "EthereumLedgerTestNetwork",
+  ledgerType: LedgerType.Ethereum,
+};
+
+const newTask = (
+  transformations: OracleTransformationStep[],
+  type: OracleTaskTypeEnum = OracleTaskTypeEnum.ReadAndUpdate,
+): OracleTask => ({
+  taskID: "MOCK_TASK_ID",
+  type,
+  srcNetworkId: networkId,
+  srcContract: { contractName: "PriceFeed", methodName: "latest" },
+  dstNetworkId: networkId,
+  dstContract: { contractName: "PriceStore", methodName: "setPrice" },
+  timestamp: 0,
+  operations: [],
+  status: OracleTaskStatusEnum.Active,
+  mode: OracleTaskModeEnum.Immediate,
+  transformations,
+});
+
+const noReads = async (): Promise<string | undefined> => {
+  throw new Error("unexpected read");
+};
+
+describe("Oracle transformations", () => {
+  it("should select values with JSONPath", () => {
+    const document = {
+      price: { value: "1.5" },
+      "quoted key": 1,
+      prices: [{ value: 1 }, { value: 2 }, { value: 3 }],
+    };
+    expect(selectJsonPath(document, "$.price.value")).toBe("1.5");
+    expect(selectJsonPath(document, "$['quoted key']")).toBe(1);
+    expect(selectJsonPath(document, "$.prices[-1].value")).toBe(3);
+    expect(selectJsonPath(document, "$.prices[*].value")).toEqual([1, 2, 3]);
+    expect(selectJsonPath(document, "$.missing")).toBeUndefined();
+  });
+
+  it("should reject malformed steps at registration", () => {
+    expect(() =>
+      validateTransformations(
+        newTask([{ type: "EXTRACT", path: "$.a" }], OracleTaskTypeEnum.Read),
+      ),
+    ).toThrow(InvalidTransformationError);
+    expect(() =>
+      validateTransformations(newTask([{ type: "EXTRACT" }])),
+    ).toThrow(InvalidTransformationError);
+    expect(() =>
+      validateTransformations(newTask([{ type: "EXTRACT", path: "price" }])),
+    ).toThrow(InvalidTransformationError);
+    expect(() =>
+      validateTransformations(
+        newTask([{ type: "CONVERT", targetType: "NUMBER", operator: "EQ" }]),
+      ),
+    ).toThrow(InvalidTransformationError);
+    expect(() =>
+      validateTransformations(newTask([{ type: "CONVERT", decimals: 1.5 }])),
+    ).toThrow(InvalidTransformationError);
+    expect(() =>
+      validateTransformations(newTask([{ type: "AGGREGATE" }])),
+    ).toThrow(InvalidTransformationError);
+    expect(() =>
+      validateTransformations(
+        newTask([{ type: "FILTER", operator: "GT", value: "high" }]),
+      ),
+    ).toThrow(InvalidTransformationError);
+    expect(() =>
+      validateTransformations(
+        newTask([{ type: "FILTER", operator: "MATCHES", value: "(" }]),
+      ),
+    ).toThrow(InvalidTransformationError);
+    expect(() =>
+      validateTransformations({
+        ...newTask([{ type: "EXTRACT", path: "$.price" }]),
+        dstContract: {
+          contractName: "PriceStore",
+          methodName: "setPrice",
+          params: ["1"],
+        },
+      }),
+    ).toThrow(InvalidTransformationError);
+    expect(() =>
+      validateTransformations(
+        newTask([{ type: "EXTRACT", path: "$.a" }], OracleTaskTypeEnum.Update),
+      ),
+    ).toThrow(InvalidTransformationError);
+    expect(() =>
+      validateTransformations({
+        ...newTask(
+          [{ type: "EXTRACT", path: "$.a" }],
+          OracleTaskTypeEnum.Update,
+        ),
+        mode: OracleTaskModeEnum.EventListening,
+      }),
+    ).not.toThrow();
+    expect(() =>
+      validateTransformations(
+        newTask([
+          { type: "EXTRACT", path: "$.prices[*].value" },
+          { type: "AGGREGATE", aggregation: "MEDIAN" },
+          { type: "FILTER", operator: "EXISTS" },
+          { type: "CONVERT", decimals: 18, targetType: "INTEGER" },
+        ]),
+      ),
+    ).not.toThrow();
+  });
+
+  it("should extract and convert the data read", async () => {
+    const task = newTask([
+      { type: "EXTRACT", path: "$.price" },
+      { type: "CONVERT", decimals: 18, targetType: "INTEGER" },
+    ]);
+    const result = await applyTransformations(
+      task,
+      ['{"price": "1234.56789"}'],
+      noReads,
+    );
+    expect(result.relay).toBeTrue();
+    expect(result.params).toEqual(["1234567890000000000000"]);
+
+    const back = await applyTransformations(
+      newTask([{ type: "CONVERT", decimals: -18, targetType: "NUMBER" }]),
+      result.params,
+      noReads,
+    );
+    expect(back.params).toEqual([1234.56789]);
+  });
+
+  it("should aggregate over further reads of the source network", async () => {
+    const sources: BusinessLogicContract[] = [
+      { contractName: "FeedB", methodName: "latest" },
+      { contractName: "FeedC", methodName: "latest" },
+    ];
+    const outputs: Record<string, string> = {
+      FeedB: '{"price": "12.5"}',
+      FeedC: '{"price": "11"}',
+    };
+    const read = jest.fn(
+      async (contract: BusinessLogicContract) =>
+        outputs[contract.contractName!],
+    );
+    const task = newTask([
+      { type: "EXTRACT", path: "$.price" },
+      { type: "AGGREGATE", aggregation: "AVERAGE", path: "$.price", sources },
+    ]);
+
+    const result = await applyTransformations(task, ['{"price": 10}'], read);
+    expect(read).toHaveBeenCalledTimes(2);
+    expect(result.params).toEqual(["11.1666666666666666666"]);
+
+    const median = await applyTransformations(
+      newTask([{ type: "AGGREGATE", aggregation: "MEDIAN" }]),
+      ["4", "1", "3", "2"],
+      noReads,
+    );
+    expect(median.params).toEqual(["2.5"]);
+  });
+
+  it("should not relay data rejected by a filter", async () => {
+    const task = newTask([
+      { type: "FILTER", path: "$.amount", operator: "GTE", value: "100" },
+      { type: "EXTRACT", path: "$.to" },
+    ]);
+
+    const relayed = await applyTransformations(
+      task,
+      ['{"amount": "150", "to": "0xabc"}'],
+      noReads,
+    );
+    expect(relayed).toEqual({ relay: true, params: ["0xabc"] });
+
+    const filtered = await applyTransformations(
+      task,
+      ['{"amount": "99.99", "to": "0xabc"}'],
+      noReads,
+    );
+    expect(filtered.relay).toBeFalse();
+    expect(filtered.filteredBy).toBe(0);
+  });
+
+  it("should bound the regular expressions of MATCHES filters", async () => {
+    for (const pattern of [
+      "(a+)+$",
+      "(a|ab)*c",
+      "((ab)*)+",
+      "(?:\\d{1,}){2,}",
+      "(a)\\1",
+      "(?<x>a)\\k<x>",
+      "a".repeat(MAX_MATCH_PATTERN_LENGTH + 1),
+    ]) {
+      expect(() => checkMatchPattern(pattern)).toThrow();
+      expect(() =>
+        validateTransformations(
+          newTask([{ type: "FILTER", operator: "MATCHES", value: pattern }]),
+        ),
+      ).toThrow(InvalidTransformationError);
+    }
+    for (const pattern of [
+      "^0x[0-9a-f]{40}$",
+      "^(?:ab){3}c+$",
+      "(?<sym>[A-Z]+)-(USD|EUR)",
+      "[(+*]+\\(",
+    ]) {
+      expect(() => checkMatchPattern(pattern)).not.toThrow();
+    }
+
+    const task = newTask([
+      { type: "FILTER", operator: "MATCHES", value: "^a+$" },
+    ]);
+    const matched = await applyTransformations(task, ["aaa"], noReads);
+    expect(matched.relay).toBeTrue();
+    await expect(
+      applyTransformations(
+        task,
+        ["a".repeat(MAX_MATCH_INPUT_LENGTH + 1)],
+        noReads,
+      ),
+    ).rejects.toThrow(TransformationError);
+  });
+
+  it("should fail on data the steps cannot handle", async () => {
+    await expect(
+      applyTransformations(
+        newTask([{ type: "EXTRACT", path: "$.price" }]),
+        ['{"value": 1}'],
+        noReads,
+      ),
+    ).rejects.toThrow(TransformationError);
+    await expect(
+      applyTransformations(
+        newTask([{ type: "CONVERT", decimals: 2 }]),
+        ["not a number"],
+        noReads,
+      ),
+    ).rejects.toThrow(TransformationError);
+  });
+});
@@ -0,0 +1,238 @@
+import "jest-extended";
+import { JsObjectSigner, Secp256k1Keys } from "@hyperledger/cactus-common";
+import { LedgerType } from "@hyperledger/cactus-core-api";
+import {
+  chargeGatewayFee,
+  computeGatewayFee,
+  QuoteManager,
+  verifyQuoteSignature,
+} from "../../../main/typescript/services/gateway/quote-manager";
+import type { GatewayOrchestrator } from "../../../main/typescript/services/gateway/gateway-orchestrator";
+import type { SATPCrossChainManager } from "../../../main/typescript/cross-chain-mechanisms/satp-cc-manager";
+import {
+  QuoteError,
+  RouteNotSupportedError,
+} from "../../../main/typescript/core/errors/satp-errors";
+import { TokenType } from "../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import type {
+  TransactRequest,
+  TransactRequestSourceAsset,
+} from "../../../main/typescript/generated/gateway-client/typescript-axios";
+import { bufArray2HexStr } from "../../../main/typescript/gateway-utils";
+import { MonitorService } from "../../../main/typescript/services/monitoring/monitor";
+
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+monitorService.init();
+
+const keyPair = Secp256k1Keys.generateKeyPairsBuffer();
+const signer = new JsObjectSigner({ privateKey: keyPair.privateKey });
+
+const apiAsset = (
+  networkId: string,
+  amount: string,
+): TransactRequestSourceAsset => ({
+  id: `${networkId}_ASSET`,
+  referenceId: `${networkId}_REFERENCE_ID`,
+  owner: "0x0000000000000000000000000000000000000001",
+  contractName: "SATPTokenContract",
+  contractAddress: "0x0000000000000000000000000000000000000002",
+  amount,
+  networkId: { id: networkId, ledgerType: LedgerType.Besu2X },
+  tokenType: "NONSTANDARD_FUNGIBLE",
+});
+
+// a single gateway connected to both networks, with one leaf per network
+const createQuoteManager = (quoteTTL?: number) => {
+  const orchestrator = {
+    ourGateway: {
+      id: "gateway-a",
+      pubKey: bufArray2HexStr(keyPair.publicKey),
+    },
+    getOrDiscoverChannel: async () => ({ toGatewayID: "gateway-a" }),
+    isSelfId: (id: string) => id === "gateway-a",
+  } as unknown as GatewayOrchestrator;
+  const leaf = {
+    getSupportedTokenTypes: () => [TokenType.NONSTANDARD_FUNGIBLE],
+    estimateFee: async () => "21000",
+  };
+  const ccManager = {
+    getClientBridgeManagerInterface: () => ({
+      getBridgeEndPoint: () => leaf,
+    }),
+  } as unknown as SATPCrossChainManager;
+
+  return new QuoteManager({
+    orchestrator,
+    ccManager,
+    signer,
+    config: {
+      feePolicy: { flatFee: "5", basisPoints: 100 },
+      quoteTTL,
+    },
+    monitorService,
+  });
+};
+
+describe("Transfer quotes", () => {
+  it("should apply the gateway fee policy", () => {
+    const asset = apiAsset("BESU", "1000");
+    expect(computeGatewayFee(undefined, asset)).toBe("0");
+    expect(computeGatewayFee({ flatFee: "5", basisPoints: 100 }, asset)).toBe(
+      "15",
+    );
+    expect(
+      computeGatewayFee({ basisPoints: 100, minimumFee: "50" }, asset),
+    ).toBe("50");
+    expect(
+      computeGatewayFee({ basisPoints: 100, maximumFee: "3" }, asset),
+    ).toBe("3");
+    expect(
+      computeGatewayFee(
+        { flatFee: "5", basisPoints: 100 },
+        { ...asset, tokenType: "NONSTANDARD_NONFUNGIBLE" },
+      ),
+    ).toBe("5");
+
+    expect(chargeGatewayFee(asset, "15").amount).toBe("985");
+    expect(chargeGatewayFee(asset, "0")).toBe(asset);
+    expect(() => chargeGatewayFee(asset, "1000")).toThrow(QuoteError);
+    expect(() =>
+      chargeGatewayFee({ ...asset, tokenType: "NONSTANDARD_NONFUNGIBLE" }, "5"),
+    ).toThrow(QuoteError);
+  });
+
+  it("should issue a signed quote with the fees of both ledgers", async () => {
+    const manager = createQuoteManager();
+    const quote = await manager.createQuote({
+      sourceAsset: apiAsset("BESU", "1000"),
+      receiverAsset: apiAsset("ETHEREUM", "1000"),
+    });
+
+    expect(quote.counterpartyGatewayId).toBe("gateway-a");
+    expect(quote.sourceFee.fee).toBe("21000");
+    expect(quote.receiverFee.networkId.id).toBe("ETHEREUM");
+    expect(quote.gatewayFee).toBe("15");
+    expect(quote.expiresAt).toBeGreaterThan(quote.issuedAt);
+    expect(verifyQuoteSignature(quote, signer)).toBeTrue();
+    expect(
+      verifyQuoteSignature({ ...quote, gatewayFee: "0" }, signer),
+    ).toBeFalse();
+  });
+
+  it("should reject assets the leafs cannot bridge", async () => {
+    const manager = createQuoteManager();
+    await expect(
+      manager.createQuote({
+        sourceAsset: { ...apiAsset("BESU", "1"), tokenType: "ERC721" },
+        receiverAsset: apiAsset("ETHEREUM", "1"),
+      }),
+    ).rejects.toThrow(RouteNotSupportedError);
+  });
+
+  it("should redeem a quote once and only for its assets", async () => {
+    const manager = createQuoteManager();
+    const request = {
+      contextID: "MOCK_CONTEXT_ID",
+      sourceAsset: apiAsset("BESU", "1000"),
+      receiverAsset: apiAsset("ETHEREUM", "1000"),
+    };
+    const quote = await manager.createQuote(request);
+    const other = await manager.createQuote(request);
+    const transacted: TransactRequest[] = [];
+    const transact = async (req: TransactRequest) => {
+      transacted.push(req);
+      return req.contextID;
+    };
+
+    await expect(
+      manager.redeemQuote(
+        {
+          ...request,
+          sourceAsset: apiAsset("BESU", "2000"),
+          quoteId: other.quoteId,
+        },
+        transact,
+      ),
+    ).rejects.toThrow(QuoteError);
+    await expect(
+      manager.redeemQuote({ ...request, quoteId: quote.quoteId }, transact),
+    ).resolves.toBe("MOCK_CONTEXT_ID");
+    await expect(
+      manager.redeemQuote({ ...request, quoteId: quote.quoteId }, transact),
+    ).rejects.toThrow(QuoteError);
+
+    // the gateway fee is kept from the amount delivered to the receiver
+    expect(transacted).toHaveLength(1);
+    expect(transacted[0].sourceAsset.amount).toBe("1000");
+    expect(transacted[0].receiverAsset.amount).toBe("985");
+
+    // a request for the wrong assets does not consume the quote
+    await expect(
+      manager.redeemQuote({ ...request, quoteId: other.quoteId }, transact),
+    ).resolves.toBe("MOCK_CONTEXT_ID");
+  });
+
+  it("should only consume a quote once its transfer succeeds", async () => {
+    const manager = createQuoteManager();
+    const request = {
+      contextID: "MOCK_CONTEXT_ID",
+      sourceAsset: apiAsset("BESU", "1000"),
+      receiverAsset: apiAsset("ETHEREUM", "1000"),
+    };
+    const quote = await manager.createQuote(request);
+    const quotedRequest = { ...request, quoteId: quote.quoteId };
+
+    await expect(
+      manager.redeemQuote(quotedRequest, async () => {
+        throw new Error("transfer failed");
+      }),
+    ).rejects.toThrow("transfer failed");
+
+    let completeTransfer: () => void = () => undefined;
+    const transfer = manager.redeemQuote(
+      quotedRequest,
+      () => new Promise<void>((resolve) => (completeTransfer = resolve)),
+    );
+    await expect(
+      manager.redeemQuote(quotedRequest, async () => undefined),
+    ).rejects.toThrow(QuoteError);
+
+    completeTransfer();
+    await expect(transfer).resolves.toBeUndefined();
+    await expect(
+      manager.redeemQuote(quotedRequest, async () => undefined),
+    ).rejects.toThrow(QuoteError);
+  });
+
+  it("should transact without a quote unless one is required", async () => {
+    const manager = createQuoteManager();
+    const request = {
+      contextID: "MOCK_CONTEXT_ID",
+      sourceAsset: apiAsset("BESU", "1000"),
+      receiverAsset: apiAsset("ETHEREUM", "1000"),
+    };
+    await expect(
+      manager.redeemQuote(request, async (req) => req.receiverAsset.amount),
+    ).resolves.toBe("1000");
+  });
+
+  it("should reject expired quotes", async () => {
+    const manager = createQuoteManager(1);
+    const request = {
+      contextID: "MOCK_CONTEXT_ID",
+      sourceAsset: apiAsset("BESU", "1000"),
+      receiverAsset: apiAsset("ETHEREUM", "1000"),
+    };
+    const quote = await manager.createQuote(request);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    await expect(
+      manager.redeemQuote(
+        { ...request, quoteId: quote.quoteId },
+        async () => undefined,
+      ),
+    ).rejects.toThrow(QuoteError);
+  });
+});
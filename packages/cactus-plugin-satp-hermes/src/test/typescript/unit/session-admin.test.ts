@@ -0,0 +1,267 @@
+import "jest-extended";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { JsObjectSigner, Secp256k1Keys } from "@hyperledger/cactus-common";
+import { SATPSession } from "../../../main/typescript/core/satp-session";
+import { GatewayPersistence } from "../../../main/typescript/gateway-persistence";
+import { RotatableObjectSigner } from "../../../main/typescript/core/key-rotation/rotatable-signer";
+import { HashChainLocalLogRepository } from "../../../main/typescript/database/repository/hash-chain-local-log-repository";
+import {
+  RESOLUTION_LOG_TYPE,
+  SessionAdminManager,
+} from "../../../main/typescript/services/gateway/session-admin-manager";
+import { INTERVENTION_LOG_TYPE } from "../../../main/typescript/core/constants";
+import type { SATPManager } from "../../../main/typescript/services/gateway/satp-manager";
+import {
+  SessionInterventionError,
+  SessionNotFoundError,
+} from "../../../main/typescript/core/errors/satp-errors";
+import { MessageType } from "../../../main/typescript/generated/proto/cacti/satp/v02/common/message_pb";
+import {
+  State,
+  Type,
+} from "../../../main/typescript/generated/proto/cacti/satp/v02/session/session_pb";
+import { bufArray2HexStr } from "../../../main/typescript/gateway-utils";
+import { MonitorService } from "../../../main/typescript/services/monitoring/monitor";
+
+const monitorService = MonitorService.createOrGetMonitorService({
+  enabled: false,
+});
+monitorService.init();
+
+const keyPair = Secp256k1Keys.generateKeyPairsBuffer();
+const signer = new JsObjectSigner({ privateKey: keyPair.privateKey });
+
+let dir: string;
+
+const newSession = (
+  client: boolean,
+  state: State,
+  counterparty: string,
+  startedAgo: number,
+): SATPSession => {
+  const session = new SATPSession({
+    contextID: "MOCK_CONTEXT_ID",
+    server: !client,
+    client,
+    monitorService,
+  });
+  const sessionData = client
+    ? session.getClientSessionData()
+    : session.getServerSessionData();
+  sessionData.role = client ? Type.CLIENT : Type.SERVER;
+  sessionData.state = state;
+  if (client) {
+    sessionData.receiverGatewayOwnerId = counterparty;
+  } else {
+    sessionData.senderGatewayOwnerId = counterparty;
+  }
+  sessionData.receivedTimestamps!.stage0!.newSessionRequestMessageTimestamp =
+    String(Date.now() - startedAgo);
+  return session;
+};
+
+// a client session failed in stage 2 and a recent server session
+const setup = async () => {
+  const failed = newSession(true, State.ERROR, "gateway-b", 60000);
+  failed.getClientSessionData().hashes!.stage2!.lockAssertionRequestMessageHash =
+    "hash";
+  const ongoing = newSession(false, State.ONGOING, "gateway-c", 1000);
+  const sessions = new Map([
+    [failed.getSessionId(), failed],
+    [ongoing.getSessionId(), ongoing],
+  ]);
+
+  const localRepository = new HashChainLocalLogRepository(
+    path.join(dir, `${failed.getSessionId()}.jsonl`),
+    new RotatableObjectSigner(
+      { privateKey: keyPair.privateKey },
+      bufArray2HexStr(keyPair.publicKey),
+    ),
+  );
+  const gatewayPersistence = new GatewayPersistence({
+    localRepository,
+    signer,
+    pubKey: bufArray2HexStr(keyPair.publicKey),
+    monitorService,
+  });
+  const transfer = jest.fn(async () => undefined);
+  const manager = {
+    getSessions: () => sessions,
+    getSession: (id: string) => sessions.get(id),
+    transfer,
+    gatewayPersistence,
+  } as unknown as SATPManager;
+
+  const sessionAdmin = new SessionAdminManager({
+    manager,
+    localRepository,
+    monitorService,
+  });
+  return { failed, ongoing, localRepository, transfer, sessionAdmin };
+};
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "satp-session-admin-"));
+});
+
+afterAll(async () => {
+  await fs.remove(dir);
+});
+
+describe("Session administration", () => {
+  it("should list sessions by state, stage, counterparty and age", async () => {
+    const { failed, ongoing, sessionAdmin } = await setup();
+
+    const all = sessionAdmin.listSessions();
+    expect(all.map((s) => s.sessionID)).toEqual([
+      ongoing.getSessionId(),
+      failed.getSessionId(),
+    ]);
+    expect(all[1]).toMatchObject({
+      role: "CLIENT",
+      state: "ERROR",
+      stage: "STAGE_2",
+      step: "LOCK_ASSERT",
+      counterpartyGatewayID: "gateway-b",
+    });
+    expect(all[0]).toMatchObject({
+      role: "SERVER",
+      stage: "STAGE_0",
+      counterpartyGatewayID: "gateway-c",
+    });
+
+    const ids = (filter: object) =>
+      sessionAdmin.listSessions(filter).map((s) => s.sessionID);
+    expect(ids({ state: "ERROR" })).toEqual([failed.getSessionId()]);
+    expect(ids({ stage: "STAGE_0" })).toEqual([ongoing.getSessionId()]);
+    expect(ids({ counterparty: "gateway-c" })).toEqual([
+      ongoing.getSessionId(),
+    ]);
+    expect(ids({ minAge: 30000 })).toEqual([failed.getSessionId()]);
+    expect(ids({ maxAge: 30000 })).toEqual([ongoing.getSessionId()]);
+    expect(ids({ state: "ERROR", counterparty: "gateway-c" })).toBeEmpty();
+  });
+
+  it("should record interventions in the timeline and the audit", async () => {
+    const { failed, ongoing, localRepository, transfer, sessionAdmin } =
+      await setup();
+    const start = Date.now();
+
+    const retry = await sessionAdmin.intervene(
+      {
+        sessionID: failed.getSessionId(),
+        action: "RETRY_STAGE",
+        reason: "counterparty back online",
+      },
+      "operator-1",
+    );
+    expect(transfer).toHaveBeenCalledWith(
+      failed,
+      MessageType.ASSERTION_RECEIPT,
+    );
+    expect(retry).toMatchObject({
+      operator: "operator-1",
+      success: true,
+      previousState: "ERROR",
+      state: "ONGOING",
+    });
+
+    const resolved = await sessionAdmin.intervene(
+      {
+        sessionID: failed.getSessionId(),
+        action: "MARK_RESOLVED",
+      },
+      "operator-1",
+    );
+    expect(resolved.state).toBe("COMPLETED");
+    expect(failed.getClientSessionData().state).toBe(State.COMPLETED);
+
+    // crash recovery restores the session from its latest log, not from an
+    // intervention
+    const [latest] = await localRepository.readLogsNotProofs();
+    expect(latest).toMatchObject({
+      type: RESOLUTION_LOG_TYPE,
+      operation: "done",
+    });
+    expect(JSON.parse(latest.data).state).toBe(State.COMPLETED);
+    expect(
+      (await localRepository.readLastestLog(failed.getSessionId())).type,
+    ).toBe(RESOLUTION_LOG_TYPE);
+
+    // refused interventions are recorded too
+    await expect(
+      sessionAdmin.intervene(
+        {
+          sessionID: failed.getSessionId(),
+          action: "MARK_RESOLVED",
+        },
+        "operator-2",
+      ),
+    ).rejects.toThrow(SessionInterventionError);
+    await expect(
+      sessionAdmin.intervene({
+        sessionID: ongoing.getSessionId(),
+        action: "RETRY_STAGE",
+      }),
+    ).rejects.toThrow(SessionInterventionError);
+    await expect(
+      sessionAdmin.intervene({
+        sessionID: failed.getSessionId(),
+        action: "FORCE_ROLLBACK",
+      }),
+    ).rejects.toThrow("crash recovery is not enabled");
+    await expect(
+      sessionAdmin.intervene({ sessionID: "unknown", action: "MARK_RESOLVED" }),
+    ).rejects.toThrow(SessionNotFoundError);
+
+    const timeline = await sessionAdmin.getSessionTimeline(
+      failed.getSessionId(),
+    );
+    expect(timeline.steps.map((step) => [step.type, step.operation])).toEqual([
+      [INTERVENTION_LOG_TYPE, "RETRY_STAGE"],
+      [RESOLUTION_LOG_TYPE, "done"],
+      [INTERVENTION_LOG_TYPE, "MARK_RESOLVED"],
+      [INTERVENTION_LOG_TYPE, "MARK_RESOLVED"],
+      [INTERVENTION_LOG_TYPE, "FORCE_ROLLBACK"],
+    ]);
+    await expect(sessionAdmin.getSessionTimeline("never-seen")).rejects.toThrow(
+      SessionNotFoundError,
+    );
+
+    const interventions = await sessionAdmin.getInterventions(
+      start,
+      Date.now(),
+    );
+    expect(interventions.slice(0, 2)).toEqual([retry, resolved]);
+    expect(interventions.slice(2)).toEqual([
+      expect.objectContaining({
+        sessionID: failed.getSessionId(),
+        action: "MARK_RESOLVED",
+        operator: "operator-2",
+        success: false,
+        refused: true,
+        state: "COMPLETED",
+        message: expect.stringMatching(/already completed/),
+      }),
+      expect.objectContaining({
+        sessionID: ongoing.getSessionId(),
+        action: "RETRY_STAGE",
+        refused: true,
+      }),
+      expect.objectContaining({
+        sessionID: failed.getSessionId(),
+        action: "FORCE_ROLLBACK",
+        refused: true,
+      }),
+      expect.objectContaining({
+        sessionID: "unknown",
+        action: "MARK_RESOLVED",
+        refused: true,
+        state: "UNSPECIFIED",
+      }),
+    ]);
+    expect(await sessionAdmin.getInterventions(0, start - 1)).toBeEmpty();
+  });
+});